@@ -19,12 +19,14 @@ import {
 // Components
 import CartSummary from '@/components/cart/CartSummary'
 import PromoCode from '@/components/cart/PromoCode'
+import LoyaltyPoints from '@/components/cart/LoyaltyPoints'
 
 // Hooks and stores
 import useTable from '@/hooks/useTable'
 import { useCartStore, useCartSummary } from '@/stores/cartStore'
 import apiClient from '@/lib/api/client'
 import storage from '@/lib/utils/storage'
+import type { LoyaltyRedemption } from '@cafe/utils/calculations/loyalty'
 
 // Types
 interface CustomerInfo {
@@ -40,6 +42,15 @@ interface OrderValidation {
   warnings: string[]
 }
 
+// Server quote returned by the order API when cart prices are out of date
+interface ServerQuote {
+  subtotal: number
+  tax_amount: number
+  service_fee: number
+  discount_amount: number
+  total_amount: number
+}
+
 export default function CheckoutPage() {
   const params = useParams()
   const router = useRouter()
@@ -47,7 +58,7 @@ export default function CheckoutPage() {
 
   // Hooks
   const { table, isValidSession, isLoading: tableLoading, initializeTable } = useTable()
-  const { items, clearCart, updateActivity, appliedPromo } = useCartStore()
+  const { items, clearCart, updateActivity, appliedPromo, sharedCartId, diner } = useCartStore()
   const { summary, validation, totalItems } = useCartSummary()
 
   // State management
@@ -64,6 +75,11 @@ export default function CheckoutPage() {
     errors: [],
     warnings: []
   })
+  const [serverQuote, setServerQuote] = useState<ServerQuote | null>(null)
+  const [loyaltyRedemption, setLoyaltyRedemption] = useState<LoyaltyRedemption | null>(null)
+
+  const promoDiscount = appliedPromo?.discount_amount || 0
+  const loyaltyDiscount = loyaltyRedemption?.discount_amount || 0
 
   // Update activity when checkout page loads
   useEffect(() => {
@@ -76,6 +92,11 @@ export default function CheckoutPage() {
     }
   }, [tableId, table, tableLoading, initializeTable, updateActivity])
 
+  // A server quote is only valid for the cart it was computed for
+  useEffect(() => {
+    setServerQuote(null)
+  }, [items, appliedPromo, loyaltyRedemption])
+
   // Redirect if no items in cart
   useEffect(() => {
     if (!items.length && !isSubmitting) {
@@ -218,19 +239,34 @@ export default function CheckoutPage() {
         subtotal: summary.subtotal,
         tax_amount: summary.tax,
         service_fee: summary.service_fee,
-        total_amount: summary.total,
+        total_amount: summary.total - loyaltyDiscount,
         // Include promo data if applied
         promo_code: appliedPromo?.code,
-        discount_amount: appliedPromo?.discount_amount || 0
+        discount_amount: promoDiscount + loyaltyDiscount,
+        // Points redeemed as an extra discount line
+        loyalty_points: loyaltyRedemption?.points || undefined,
+        // Customer has already been shown the server prices
+        accept_server_pricing: serverQuote !== null,
+        // Shared table cart: the server orders every diner's lines and closes the cart
+        ...(sharedCartId && diner ? {
+          table_cart_id: sharedCartId,
+          diner_name: diner.name
+        } : {})
       }
 
       console.log('Submitting order with table_id:', actualTableId, 'table data:', table)
 
       // Create order
-      const response = await apiClient.createOrder(orderData)
+      const response = await apiClient.createOrder(orderData, diner?.token)
 
       if (response.error) {
-        throw new Error(response.error.message)
+        const apiError = response.error.details?.error
+        if (apiError?.code === 'PRICE_MISMATCH' && apiError.details?.quote) {
+          setServerQuote(apiError.details.quote)
+          toast.warning(`Harga pesanan diperbarui. Total baru Rp ${apiError.details.quote.total_amount.toLocaleString('id-ID')}`)
+          return
+        }
+        throw new Error(apiError?.message || response.error.message)
       }
 
       if (response.data) {
@@ -445,6 +481,13 @@ export default function CheckoutPage() {
           </div>
         </div>
 
+        {/* Loyalty Points (looked up by the phone number above) */}
+        <LoyaltyPoints
+          phone={customerInfo.phone}
+          eligibleAmount={Math.max(0, summary.subtotal - promoDiscount)}
+          onRedemptionChange={setLoyaltyRedemption}
+        />
+
         {/* Order Information */}
         <div className="bg-blue-50 border border-blue-200 rounded-lg p-4">
           <div className="flex items-start space-x-3">
@@ -490,6 +533,44 @@ export default function CheckoutPage() {
           </label>
         </div>
 
+        {/* Server Repricing Notice */}
+        {serverQuote && (
+          <div className="bg-yellow-50 border border-yellow-200 rounded-lg p-4">
+            <div className="flex items-start space-x-2">
+              <AlertCircle className="h-5 w-5 text-yellow-600 mt-0.5" />
+              <div className="text-sm text-yellow-700">
+                <h3 className="font-medium text-yellow-900">
+                  Harga telah diperbarui
+                </h3>
+                <p className="mt-1">
+                  Beberapa harga di keranjang sudah tidak sesuai. Tekan tombol pembayaran sekali lagi
+                  untuk melanjutkan dengan total terbaru.
+                </p>
+                <div className="mt-2 space-y-1">
+                  <div className="flex justify-between">
+                    <span>Subtotal</span>
+                    <span>Rp {serverQuote.subtotal.toLocaleString('id-ID')}</span>
+                  </div>
+                  <div className="flex justify-between">
+                    <span>Pajak</span>
+                    <span>Rp {serverQuote.tax_amount.toLocaleString('id-ID')}</span>
+                  </div>
+                  <div className="flex justify-between">
+                    <span>Biaya layanan</span>
+                    <span>Rp {serverQuote.service_fee.toLocaleString('id-ID')}</span>
+                  </div>
+                  {serverQuote.discount_amount > 0 && (
+                    <div className="flex justify-between">
+                      <span>Diskon</span>
+                      <span>-Rp {serverQuote.discount_amount.toLocaleString('id-ID')}</span>
+                    </div>
+                  )}
+                </div>
+              </div>
+            </div>
+          </div>
+        )}
+
         {/* Validation Errors */}
         {orderValidation.errors.length > 0 && (
           <div className="bg-red-50 border border-red-200 rounded-lg p-4">
@@ -539,9 +620,15 @@ export default function CheckoutPage() {
       <div className="fixed bottom-0 left-0 right-0 bg-white border-t border-gray-200 p-4">
         <div className="space-y-3">
           {/* Price Summary */}
+          {loyaltyRedemption && !serverQuote && (
+            <div className="flex items-center justify-between text-sm text-green-700">
+              <span>Tukar {loyaltyRedemption.points.toLocaleString('id-ID')} poin</span>
+              <span>-Rp {loyaltyRedemption.discount_amount.toLocaleString('id-ID')}</span>
+            </div>
+          )}
           <div className="flex items-center justify-between text-lg font-bold text-gray-900">
             <span>Total Pembayaran</span>
-            <span>Rp {summary.total.toLocaleString('id-ID')}</span>
+            <span>Rp {(serverQuote?.total_amount ?? summary.total - loyaltyDiscount).toLocaleString('id-ID')}</span>
           </div>
           
           {/* Continue Button */}
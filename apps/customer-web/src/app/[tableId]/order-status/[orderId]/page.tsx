@@ -25,6 +25,7 @@ import {
 
 // Hooks and API
 import useTable from '@/hooks/useTable'
+import { useOrderEta } from '@/hooks/useKitchenQueue'
 import apiClient from '@/lib/api/client'
 
 // Types
@@ -100,6 +101,10 @@ export default function OrderStatusPage() {
   const [rating, setRating] = useState(0)
   const [review, setReview] = useState('')
 
+  // Queue-aware ETA, re-estimated as orders ahead are bumped
+  const inKitchen = orderStatus?.status === 'confirmed' || orderStatus?.status === 'preparing'
+  const { eta, minutes: etaMinutes } = useOrderEta(orderId, inKitchen)
+
   // Refs
   const intervalRef = useRef<NodeJS.Timeout | null>(null)
   const subscriptionRef = useRef<any>(null)
@@ -265,12 +270,14 @@ export default function OrderStatusPage() {
       {
         id: 'preparing',
         title: 'Sedang Dipersiapkan',
-        description: 'Dapur sedang mempersiapkan pesanan Anda',
+        description: eta && eta.orders_ahead > 0
+          ? `Antrean ke-${eta.queue_position}, ${eta.orders_ahead} pesanan di depan Anda`
+          : 'Dapur sedang mempersiapkan pesanan Anda',
         status: ['preparing', 'ready', 'served', 'completed'].includes(orderStatus.status) ? 'completed' :
                 orderStatus.status === 'confirmed' ? 'current' : 'pending',
         icon: <ChefHat className="h-5 w-5" />,
-        estimatedTime: orderStatus.estimated_completion ? 
-          Math.max(0, Math.floor((new Date(orderStatus.estimated_completion).getTime() - Date.now()) / 60000)) : 15
+        estimatedTime: etaMinutes ?? (orderStatus.estimated_completion ? 
+          Math.max(0, Math.floor((new Date(orderStatus.estimated_completion).getTime() - Date.now()) / 60000)) : 15)
       },
       {
         id: 'ready',
@@ -279,7 +286,7 @@ export default function OrderStatusPage() {
         status: ['ready', 'served', 'completed'].includes(orderStatus.status) ? 'completed' :
                 orderStatus.status === 'preparing' ? 'current' : 'pending',
         icon: <Bell className="h-5 w-5" />,
-        estimatedTime: 2
+        estimatedTime: etaMinutes ?? 2
       },
       {
         id: 'served',
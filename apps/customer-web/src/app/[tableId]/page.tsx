@@ -21,11 +21,16 @@ import {
 // Components
 import MenuCard from '@/components/menu/MenuCard'
 import CartSummary from '@/components/cart/CartSummary'
+import DinerNamePrompt from '@/components/cart/DinerNamePrompt'
+import ServiceRequestButton from '@/components/service/ServiceRequestButton'
 
 // Hooks and stores
 import useTable from '@/hooks/useTable'
+import useSharedCart from '@/hooks/useSharedCart'
+import { useKitchenLoad } from '@/hooks/useKitchenQueue'
 import { useCartStore } from '@/stores/cartStore'
-import { preloadCustomizations, useCustomizations, clearCustomizationCache } from '@/hooks/useCustomizations'
+import { preloadCustomizations, useCustomizations, clearCustomizationCache, invalidateCustomizationGroup } from '@/hooks/useCustomizations'
+import { subscribeToMenuUpdates, toMenuAvailabilityUpdate } from '@/hooks/useMenu'
 import apiClient from '@/lib/api/client'
 
 // Types
@@ -59,6 +64,12 @@ export default function MenuPage() {
   const setIsCartOpen = useCartStore(state => state.setIsCartOpen)
   const { addItem, updateQuantity, removeItem, updateActivity, setTableId, syncFromStorage } = useCartStore()
 
+  // One cart for everyone at the table
+  const { needsName, suggestedName, setDinerName } = useSharedCart(tableId, isValidSession)
+
+  // What a new order would wait, for the "kitchen busy" banner
+  const kitchenLoad = useKitchenLoad(isValidSession)
+
   // Hide/show table footer based on cart items
   useEffect(() => {
     const footer = document.getElementById('table-footer')
@@ -118,6 +129,36 @@ export default function MenuPage() {
     }
   }, [tableId, isValidSession, syncFromStorage])
 
+  // Sold-out ("86") changes driven by ingredient stock
+  useEffect(() => {
+    if (!isValidSession) return
+
+    const channel = subscribeToMenuUpdates({
+      onItemChange: (payload) => {
+        if (payload.eventType !== 'UPDATE') return
+
+        const update = toMenuAvailabilityUpdate(payload.new)
+        setMenuItems(prev => prev.map(item =>
+          item.id === update.id ? { ...item, ...update } : item
+        ))
+
+        if (!update.is_available || !update.ingredients_available) {
+          const cartItem = useCartStore.getState().items.find(item => item.id === update.id)
+          if (cartItem) {
+            toast.warning(`${cartItem.name} sedang habis, mohon hapus dari keranjang`)
+          }
+        }
+      },
+      onOptionChange: (update) => {
+        if (update.group_id) invalidateCustomizationGroup(update.group_id)
+      }
+    })
+
+    return () => {
+      channel.unsubscribe()
+    }
+  }, [isValidSession])
+
   // Network status monitoring
   useEffect(() => {
     const handleOnline = () => {
@@ -202,7 +243,8 @@ export default function MenuPage() {
                   is_halal: item.allergens ? !item.allergens.includes('non-halal') : true,
                   spice_level: item.spicy_level,
                   tags: [],
-                  ingredients_available: true,
+                  ingredients_available: item.ingredients_available ?? true,
+                  available_portions: item.available_portions ?? null,
                   rating: item.average_rating,
                   total_reviews: item.rating_count,
                 }
@@ -532,6 +574,18 @@ export default function MenuPage() {
             </div>
           )}
 
+          {/* Kitchen Busy */}
+          {kitchenLoad?.busy && (
+            <div className="bg-orange-50 border border-orange-200 rounded-lg p-3 mb-4">
+              <div className="flex items-center space-x-2">
+                <ChefHat className="h-4 w-4 text-orange-600" />
+                <p className="text-sm text-orange-800">
+                  Dapur sedang sibuk, pesanan baru siap dalam ~{kitchenLoad.minutes} menit
+                </p>
+              </div>
+            </div>
+          )}
+
           {/* Removed duplicate status info - already shown in layout header */}
         </div>
 
@@ -883,6 +937,15 @@ export default function MenuPage() {
           </div>
         </div>
       )}
+
+      {/* Call waiter, bill, cutlery, water */}
+      {!isCartOpen && (
+        <ServiceRequestButton tableId={tableId} enabled={isValidSession} raised={totalItems > 0} />
+      )}
+
+      {needsName && (
+        <DinerNamePrompt defaultName={suggestedName} onSubmit={setDinerName} />
+      )}
     </div>
   )
 }
\ No newline at end of file
@@ -1,6 +1,6 @@
 'use client'
 
-import { useEffect, useState, useRef } from 'react'
+import { useEffect, useState, useRef, useMemo } from 'react'
 import { useParams, useRouter, useSearchParams } from 'next/navigation'
 import { toast } from 'sonner'
 import Image from 'next/image'
@@ -20,6 +20,7 @@ import {
 
 // Components and hooks
 import apiClient from '@/lib/api/client'
+import { renderQRCodeDataURL } from '@cafe/utils/payments/qr-code'
 
 interface PaymentData {
   transaction_id: string
@@ -45,6 +46,11 @@ interface PaymentData {
     account_name: string
   }
   expires_at?: string
+  // Share of a split bill this payment is for
+  bill_share_id?: string | null
+  share_number?: number | null
+  payer_name?: string | null
+  share_status?: string | null
 }
 
 interface BankAccount {
@@ -77,6 +83,18 @@ export default function PaymentConfirmPage() {
   const fileInputRef = useRef<HTMLInputElement>(null)
   const statusCheckInterval = useRef<NodeJS.Timeout | null>(null)
 
+  // Dynamic QRIS rendered locally
+  const qrImageUrl = useMemo(() => {
+    if (paymentData?.method !== 'qris' || !paymentData.qr_code) return ''
+
+    try {
+      return renderQRCodeDataURL(paymentData.qr_code, { size: 224 })
+    } catch (error) {
+      console.error('Error rendering QRIS:', error)
+      return ''
+    }
+  }, [paymentData?.method, paymentData?.qr_code])
+
   // Load bank accounts from database
   useEffect(() => {
     fetchBankAccounts()
@@ -173,6 +191,19 @@ export default function PaymentConfirmPage() {
       const paymentData = response.data.data || response.data
       console.log('Current payment data:', paymentData)
 
+      // A split bill payer is done once their own share is verified; the
+      // order itself waits for the other shares
+      if (paymentData?.bill_share_id && paymentData.share_status === 'verified') {
+        toast.success('Bagian Anda telah dikonfirmasi oleh kasir!')
+
+        if (statusCheckInterval.current) {
+          clearInterval(statusCheckInterval.current)
+        }
+
+        router.push(`/${tableId}/payment?order_id=${paymentData.order_id}`)
+        return
+      }
+
       // If we have order_id, check order status via API
       if (paymentData?.order_id) {
         try {
@@ -376,6 +407,7 @@ export default function PaymentConfirmPage() {
             </h1>
             <p className="text-sm text-gray-600">
               #{paymentData.transaction_id.slice(0, 8)}
+              {paymentData.share_number && ` • Bagian ${paymentData.share_number} (${paymentData.payer_name})`}
             </p>
           </div>
         </div>
@@ -439,8 +471,19 @@ export default function PaymentConfirmPage() {
               Scan QR Code QRIS
             </h3>
             <div className="bg-gray-100 p-6 rounded-lg mb-4">
-              <QrCode className="h-32 w-32 text-gray-500 mx-auto mb-3" />
-              <p className="text-sm font-medium text-gray-700">QR Code Statis Cirebon Kuring Cafe</p>
+              {qrImageUrl ? (
+                <Image
+                  src={qrImageUrl}
+                  alt={`QRIS ${paymentData.merchant_name || ''}`.trim()}
+                  width={224}
+                  height={224}
+                  className="mx-auto mb-3 rounded"
+                  unoptimized
+                />
+              ) : (
+                <QrCode className="h-32 w-32 text-gray-500 mx-auto mb-3" />
+              )}
+              <p className="text-sm font-medium text-gray-700">{paymentData.merchant_name || 'QRIS'}</p>
             </div>
 
             {/* Copy Amount Section */}
@@ -39,6 +39,8 @@ export default function OfflinePaymentPage() {
   const tableId = params.tableId as string
   const orderId = searchParams.get('order_id')
   const method = searchParams.get('method')
+  // Share of a split bill paid at the cashier
+  const shareId = searchParams.get('share_id')
 
   // State
   const [orderData, setOrderData] = useState<OrderData | null>(null)
@@ -76,6 +78,25 @@ export default function OfflinePaymentPage() {
     try {
       setIsLoading(true)
 
+      if (shareId) {
+        const sharesResponse = await apiClient.getBillSplit(orderId!)
+        const share = sharesResponse.data?.data?.find(s => s.id === shareId)
+
+        if (share) {
+          setOrderData({
+            id: orderId!,
+            order_number: `${orderId!.slice(-8).toUpperCase()}-${share.share_number}`,
+            total_amount: share.amount
+          })
+
+          const savedMethod = localStorage.getItem('payment-method')
+          if (savedMethod) {
+            setPaymentMethod(JSON.parse(savedMethod))
+          }
+          return
+        }
+      }
+
       // Get order data from localStorage (saved during payment creation)
       let orderData = null
       let totalAmount = 0
@@ -156,6 +177,24 @@ export default function OfflinePaymentPage() {
 
     try {
       setIsCheckingStatus(true)
+
+      // A split bill payer is done once their own share is verified
+      if (shareId) {
+        const sharesResponse = await apiClient.getBillSplit(orderId)
+        const share = sharesResponse.data?.data?.find(s => s.id === shareId)
+
+        if (share?.status === 'verified') {
+          toast.success('Bagian Anda telah dikonfirmasi oleh kasir!')
+
+          if (statusCheckInterval.current) {
+            clearInterval(statusCheckInterval.current)
+          }
+
+          router.push(`/${tableId}/payment?order_id=${orderId}`)
+          return
+        }
+      }
+
       console.log('Checking payment status for order:', orderId)
       console.log('Order ID type:', typeof orderId)
       console.log('Order ID length:', orderId.length)
@@ -216,7 +255,8 @@ export default function OfflinePaymentPage() {
           'Content-Type': 'application/json',
         },
         body: JSON.stringify({
-          payment_method: method
+          payment_method: method,
+          bill_share_id: shareId || undefined
         })
       })
 
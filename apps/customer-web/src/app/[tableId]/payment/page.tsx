@@ -23,6 +23,9 @@ import {
 import useTable from '@/hooks/useTable'
 import { useCartStore } from '@/stores/cartStore'
 import apiClient from '@/lib/api/client'
+import SplitBillPanel from '@/components/payment/SplitBillPanel'
+import type { BillShareRow } from '@/lib/payments/billShares'
+import type { SplitMethod, SplitShareInput } from '@cafe/utils/calculations/splitBill'
 
 // Types
 interface PaymentMethod {
@@ -56,6 +59,7 @@ interface OrderData {
   payment_status: 'pending' | 'paid' | 'failed' | 'refunded'
   payment_method?: 'cash' | 'card' | 'qris' | 'transfer'
   promo_code?: string
+  split_method?: SplitMethod | null
   created_at: string
   confirmed_at?: string
   preparing_at?: string
@@ -145,6 +149,9 @@ export default function PaymentPage() {
   const [isLoading, setIsLoading] = useState(true)
   const [isProcessing, setIsProcessing] = useState(false)
   const [error, setError] = useState<string | null>(null)
+  const [billShares, setBillShares] = useState<BillShareRow[]>([])
+  const [selectedShareId, setSelectedShareId] = useState<string | null>(null)
+  const [isSavingSplit, setIsSavingSplit] = useState(false)
   const [enabledMethods, setEnabledMethods] = useState<Record<string, boolean>>({
     cash: true,
     card: true,
@@ -230,8 +237,41 @@ export default function PaymentPage() {
     }
 
     loadOrderData()
+    loadBillShares()
   }, [orderId, tableId, router])
 
+  // Payers at the table see each other's shares get paid and verified
+  useEffect(() => {
+    if (!orderId) return
+
+    const channel = apiClient.getSupabase()
+      .channel(`bill-shares-${orderId}`)
+      .on(
+        'postgres_changes',
+        {
+          event: '*',
+          schema: 'public',
+          table: 'order_bill_shares',
+          filter: `order_id=eq.${orderId}`
+        },
+        () => loadBillShares()
+      )
+      .subscribe()
+
+    return () => {
+      channel.unsubscribe()
+    }
+  }, [orderId])
+
+  // The order is paid once every share is verified
+  useEffect(() => {
+    if (billShares.length > 0 && billShares.every(share => share.status === 'verified')) {
+      clearCart()
+      toast.success('Semua bagian tagihan telah dibayar!')
+      router.push(`/${tableId}/thank-you?order_id=${orderId}`)
+    }
+  }, [billShares, clearCart, orderId, tableId, router])
+
   // Session validation removed for payment page - payment should work with valid order ID
   // The order creation flow already validates the session, so if we have a valid order,
   // payment should proceed regardless of current session state
@@ -323,6 +363,72 @@ export default function PaymentPage() {
     }
   }
 
+  // Load the split bill shares, if the bill is split
+  const loadBillShares = async () => {
+    if (!orderId) return
+
+    const response = await apiClient.getBillSplit(orderId)
+    if (response.error) {
+      console.error('Error loading bill split:', response.error)
+      return
+    }
+
+    const shares = response.data?.data || []
+    setBillShares(shares)
+    setSelectedShareId(current =>
+      shares.some(share => share.id === current && share.status !== 'verified') ? current : null
+    )
+  }
+
+  const handleCreateSplit = async (method: SplitMethod, shares: SplitShareInput[]) => {
+    if (!orderId) return false
+
+    setIsSavingSplit(true)
+    try {
+      const response = await apiClient.createBillSplit(orderId, method, shares)
+      if (response.error) {
+        throw new Error(response.error.details?.error?.message || response.error.message)
+      }
+
+      setBillShares(response.data?.data || [])
+      setSelectedShareId(null)
+      toast.success('Tagihan berhasil dibagi')
+      return true
+    } catch (error: any) {
+      console.error('Error splitting bill:', error)
+      toast.error(error.message || 'Gagal membagi tagihan')
+      return false
+    } finally {
+      setIsSavingSplit(false)
+    }
+  }
+
+  const handleCancelSplit = async () => {
+    if (!orderId) return
+
+    setIsSavingSplit(true)
+    try {
+      const response = await apiClient.cancelBillSplit(orderId)
+      if (response.error) {
+        throw new Error(response.error.details?.error?.message || response.error.message)
+      }
+
+      setBillShares([])
+      setSelectedShareId(null)
+    } catch (error: any) {
+      console.error('Error cancelling bill split:', error)
+      toast.error(error.message || 'Gagal membatalkan pembagian tagihan')
+    } finally {
+      setIsSavingSplit(false)
+    }
+  }
+
+  const selectedShare = billShares.find(share => share.id === selectedShareId) || null
+  const isSplitBill = billShares.length > 0
+
+  // Amount this payer pays: their share of a split bill, or the whole order
+  const getAmountToPay = () => selectedShare ? selectedShare.amount : getOrderTotal(orderData)
+
   // Handle payment method selection
   const handleMethodSelect = (methodId: string) => {
     setSelectedMethod(methodId)
@@ -335,6 +441,11 @@ export default function PaymentPage() {
       return
     }
 
+    if (isSplitBill && !selectedShare) {
+      toast.error('Pilih bagian tagihan yang akan dibayar')
+      return
+    }
+
     const method = paymentMethods.find(m => m.id === selectedMethod)
     if (!method) return
 
@@ -351,13 +462,14 @@ export default function PaymentPage() {
       const paymentData = {
         order_id: orderData.id,
         method: method.type,
-        amount: orderData.total_amount
+        amount: selectedShare ? selectedShare.amount : orderData.total_amount,
+        bill_share_id: selectedShare?.id
       }
 
       const response = await apiClient.createPayment(paymentData)
 
       if (response.error) {
-        throw new Error(response.error.message)
+        throw new Error(response.error.details?.error?.message || response.error.message)
       }
 
       if (response.data) {
@@ -393,7 +505,8 @@ export default function PaymentPage() {
 
     // DON'T clear cart yet - only clear on successful payment completion
     // Navigate to offline payment instructions
-    router.push(`/${tableId}/payment/offline?order_id=${orderData!.id}&method=${method.type}`)
+    const shareParam = selectedShare ? `&share_id=${selectedShare.id}` : ''
+    router.push(`/${tableId}/payment/offline?order_id=${orderData!.id}&method=${method.type}${shareParam}`)
   }
 
   // Handle back navigation
@@ -409,7 +522,7 @@ export default function PaymentPage() {
       return { available: false, reason: 'Tidak tersedia' }
     }
 
-    const totalAmount = getOrderTotal(orderData)
+    const totalAmount = getAmountToPay()
 
     if (method.min_amount && totalAmount < method.min_amount) {
       return {
@@ -498,6 +611,18 @@ export default function PaymentPage() {
           </div>
         </div>
 
+        {/* Split Bill */}
+        <SplitBillPanel
+          orderItems={orderData.order_items || []}
+          orderTotal={getOrderTotal(orderData)}
+          shares={billShares}
+          selectedShareId={selectedShareId}
+          onSelectShare={setSelectedShareId}
+          onCreateSplit={handleCreateSplit}
+          onCancelSplit={handleCancelSplit}
+          isSaving={isSavingSplit}
+        />
+
         {/* Payment Methods */}
         <div className="bg-white rounded-lg shadow-sm border border-gray-200">
           <div className="p-4 border-b border-gray-200">
@@ -644,13 +769,13 @@ export default function PaymentPage() {
       <div className="fixed bottom-0 left-0 right-0 bg-white border-t border-gray-200 p-4">
         <div className="space-y-3">
           <div className="flex items-center justify-between text-lg font-bold text-gray-900">
-            <span>Total Pembayaran</span>
-            <span>Rp {getOrderTotal(orderData).toLocaleString('id-ID')}</span>
+            <span>{selectedShare ? `Bagian ${selectedShare.payer_name}` : 'Total Pembayaran'}</span>
+            <span>Rp {getAmountToPay().toLocaleString('id-ID')}</span>
           </div>
           
           <button
             onClick={handleProcessPayment}
-            disabled={!selectedMethod || isProcessing}
+            disabled={!selectedMethod || isProcessing || (isSplitBill && !selectedShare)}
             className="w-full py-4 px-4 bg-blue-600 text-white rounded-lg font-medium hover:bg-blue-700 disabled:bg-gray-300 disabled:cursor-not-allowed transition-colors flex items-center justify-center space-x-2"
           >
             {isProcessing ? (
@@ -671,7 +796,11 @@ export default function PaymentPage() {
             )}
           </button>
 
-          {!selectedMethod && (
+          {isSplitBill && !selectedShare ? (
+            <p className="text-xs text-gray-500 text-center">
+              Pilih bagian tagihan yang akan Anda bayar
+            </p>
+          ) : !selectedMethod && (
             <p className="text-xs text-gray-500 text-center">
               Pilih metode pembayaran untuk melanjutkan
             </p>
@@ -1,6 +1,6 @@
 'use client'
 
-import { useState, useEffect, useRef } from 'react'
+import { useState, useEffect, useRef, useMemo } from 'react'
 import { useParams, useRouter, useSearchParams } from 'next/navigation'
 import Image from 'next/image'
 import { toast } from 'sonner'
@@ -23,14 +23,15 @@ import {
 import useTable from '@/hooks/useTable'
 import apiClient from '@/lib/api/client'
 import storage from '@/lib/utils/storage'
+import { renderQRCodeDataURL } from '@cafe/utils/payments/qr-code'
 
 // Types
 interface QRISPayment {
   payment_id: string
   order_id: string
   amount: number
-  qr_code: string
-  qr_code_url?: string
+  qr_code: string // dynamic QRIS payload
+  merchant_name?: string
   payment_reference: string
   expires_at: string
   status: 'pending' | 'processing' | 'completed' | 'expired' | 'failed'
@@ -106,24 +107,52 @@ export default function QRISPaymentPage() {
     return () => clearInterval(interval)
   }, [paymentData?.expires_at])
 
-  // Mock payment data for demo
+  // QR code rendered locally from the dynamic QRIS payload
+  const qrImageUrl = useMemo(() => {
+    if (!paymentData?.qr_code) return ''
+
+    try {
+      return renderQRCodeDataURL(paymentData.qr_code, { size: 250 })
+    } catch (error) {
+      console.error('Error rendering QRIS:', error)
+      return ''
+    }
+  }, [paymentData?.qr_code])
+
+  // Load dynamic QRIS for this payment
   const loadPaymentData = async () => {
     try {
       setIsLoading(true)
 
-      // Mock QRIS payment data - in real app, this would come from API
-      const mockPaymentData: QRISPayment = {
-        payment_id: paymentId!,
-        order_id: orderId!,
-        amount: 85000, // This should come from order data
-        qr_code: 'https://api.qrserver.com/v1/create-qr-code/?size=300x300&data=00020101021126580011ID.LINKAJA.WWW01189360050300000898240214540123456789015303360540485000.005802ID5912Cirebon Kuring6010Kuningan9062070703A0163041C6B', // Mock QR
-        payment_reference: 'QR' + Date.now(),
-        expires_at: new Date(Date.now() + 15 * 60 * 1000).toISOString(), // 15 minutes from now
-        status: 'pending'
+      const response = await apiClient.request({
+        endpoint: `/payments?transaction_id=${paymentId}`,
+        method: 'GET'
+      })
+
+      if (response.error) {
+        throw new Error(response.error.details?.error?.message || response.error.message)
+      }
+
+      // API returns { data: paymentData }, handle both structures
+      const payment = response.data.data || response.data
+
+      if (!payment?.qr_code) {
+        throw new Error('QRIS tidak tersedia untuk pembayaran ini')
       }
 
-      setPaymentData(mockPaymentData)
-      setPaymentStatus(mockPaymentData.status)
+      const qrisPayment: QRISPayment = {
+        payment_id: payment.payment_id,
+        order_id: payment.order_id,
+        amount: Number(payment.amount_to_pay ?? payment.amount),
+        qr_code: payment.qr_code,
+        merchant_name: payment.merchant_name,
+        payment_reference: payment.payment_reference,
+        expires_at: payment.expires_at,
+        status: payment.status === 'pending' ? 'pending' : 'processing'
+      }
+
+      setPaymentData(qrisPayment)
+      setPaymentStatus(qrisPayment.status)
 
     } catch (error: any) {
       console.error('Error loading payment data:', error)
@@ -262,6 +291,18 @@ export default function QRISPaymentPage() {
     }
   }
 
+  // Download QR code as SVG
+  const downloadQRCode = () => {
+    if (!qrImageUrl || !paymentData) return
+
+    const link = document.createElement('a')
+    link.href = qrImageUrl
+    link.download = `qris-${paymentData.payment_reference || paymentData.order_id}.svg`
+    document.body.appendChild(link)
+    link.click()
+    document.body.removeChild(link)
+  }
+
   // Remove selected file
   const removeSelectedFile = () => {
     setPaymentProof(null)
@@ -374,13 +415,20 @@ export default function QRISPaymentPage() {
             {/* QR Code Image */}
             <div className="flex justify-center">
               <div className="p-4 bg-white border-2 border-gray-200 rounded-lg">
-                <Image
-                  src={paymentData.qr_code}
-                  alt="QR Code"
-                  width={250}
-                  height={250}
-                  className="rounded"
-                />
+                {qrImageUrl ? (
+                  <Image
+                    src={qrImageUrl}
+                    alt={`QRIS ${paymentData.merchant_name || ''}`.trim()}
+                    width={250}
+                    height={250}
+                    className="rounded"
+                    unoptimized
+                  />
+                ) : (
+                  <div className="w-[250px] h-[250px] flex items-center justify-center text-sm text-red-600">
+                    QR Code tidak valid
+                  </div>
+                )}
               </div>
             </div>
 
@@ -394,7 +442,7 @@ export default function QRISPaymentPage() {
                 <span className="text-sm">Copy Data</span>
               </button>
               <button
-                onClick={() => window.open(paymentData.qr_code, '_blank')}
+                onClick={downloadQRCode}
                 className="flex items-center space-x-2 px-3 py-2 bg-gray-100 text-gray-700 rounded-lg hover:bg-gray-200 transition-colors"
               >
                 <Download className="h-4 w-4" />
@@ -431,7 +479,7 @@ export default function QRISPaymentPage() {
                 </li>
                 <li className="flex items-start space-x-1">
                   <span className="font-medium">4.</span>
-                  <span>Konfirmasi pembayaran di aplikasi</span>
+                  <span>Pastikan nominal sesuai, lalu konfirmasi pembayaran</span>
                 </li>
                 <li className="flex items-start space-x-1">
                   <span className="font-medium">5.</span>
@@ -0,0 +1,24 @@
+import { NextResponse } from 'next/server'
+import { createClient } from '@supabase/supabase-js'
+import type { Database } from '@/types/database'
+import { getKitchenLoad } from '@/lib/kitchen/orderEta'
+import { apiErrorResponse } from '@/lib/api/errors'
+
+// Initialize Supabase client
+const supabase = createClient<Database>(
+  process.env.NEXT_PUBLIC_SUPABASE_URL!,
+  process.env.SUPABASE_SERVICE_ROLE_KEY || process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!
+)
+
+// What an order placed now would wait, for the "kitchen busy" banner
+export async function GET() {
+  try {
+    const load = await getKitchenLoad(supabase)
+
+    return NextResponse.json({
+      data: load
+    })
+  } catch (error) {
+    return apiErrorResponse(error, 'loading kitchen load')
+  }
+}
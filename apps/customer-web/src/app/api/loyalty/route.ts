@@ -0,0 +1,40 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@supabase/supabase-js'
+import type { Database } from '@/types/database'
+import { loadLoyaltyBalance, loadLoyaltyRules } from '@/lib/pricing/loyalty'
+import { apiErrorResponse } from '@/lib/api/errors'
+
+// Initialize Supabase client
+const supabase = createClient<Database>(
+  process.env.NEXT_PUBLIC_SUPABASE_URL!,
+  process.env.SUPABASE_SERVICE_ROLE_KEY || process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!
+)
+
+// Points balance for the phone entered at checkout, with the rules needed to
+// preview a redemption: GET /api/loyalty?phone=08...
+export async function GET(request: NextRequest) {
+  try {
+    const phone = request.nextUrl.searchParams.get('phone')
+
+    if (!phone) {
+      return NextResponse.json(
+        { error: { message: 'Nomor telepon wajib diisi', code: 'LOYALTY_INVALID_PHONE' } },
+        { status: 400 }
+      )
+    }
+
+    const [rules, balance] = await Promise.all([
+      loadLoyaltyRules(supabase),
+      loadLoyaltyBalance(supabase, phone)
+    ])
+
+    return NextResponse.json({
+      data: {
+        ...balance,
+        rules
+      }
+    })
+  } catch (error) {
+    return apiErrorResponse(error, 'loading loyalty balance')
+  }
+}
@@ -63,7 +63,8 @@ export async function GET(request: NextRequest) {
           preparation_time: item.estimated_prep_time,
           is_halal: true, // Default to true, you can add this field to database if needed
           spice_level: item.spicy_level || 0,
-          ingredients_available: true, // Default to true, can be enhanced later
+          ingredients_available: item.ingredients_available ?? true, // Maintained from stock batches
+          available_portions: item.available_portions ?? null,
           is_vegetarian: item.is_vegetarian,
           is_vegan: item.is_vegan,
           is_gluten_free: item.is_gluten_free,
@@ -140,7 +141,8 @@ export async function POST(request: NextRequest) {
           option_name,
           price_adjustment,
           is_default,
-          is_available
+          is_available,
+          ingredients_available
         )
       `)
       .eq('menu_item_id', item_id)
@@ -157,7 +159,7 @@ export async function POST(request: NextRequest) {
       type: group.group_type,
       required: group.is_required,
       options: (group.menu_customization_options || [])
-        .filter(option => option.is_available)
+        .filter(option => option.is_available && option.ingredients_available !== false)
         .map(option => ({
           id: option.id,
           name: option.option_name,
@@ -173,6 +175,8 @@ export async function POST(request: NextRequest) {
       price: menuItem.base_price || 0,  // Map base_price to price for frontend with fallback
       base_price: menuItem.base_price,
       estimated_prep_time: menuItem.estimated_prep_time,
+      ingredients_available: menuItem.ingredients_available ?? true,
+      available_portions: menuItem.available_portions ?? null,
       customizations: formattedCustomizations
     }
 
@@ -1,6 +1,34 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { createClient } from '@supabase/supabase-js'
 import type { Database } from '@/types/database'
+import {
+  buildOrderQuote,
+  diffClientPricing,
+  loadTaxRates,
+  priceOrderLines,
+  type OrderItemInput
+} from '@/lib/pricing/orderPricing'
+import {
+  evaluatePromoCodes,
+  normalizeCustomerPhone,
+  normalizePromoCodes,
+  redeemOrderPromos,
+  toPromoCartLines,
+  type PromoEvaluation
+} from '@/lib/pricing/promos'
+import { quoteLoyaltyRedemption, redeemOrderLoyaltyPoints } from '@/lib/pricing/loyalty'
+import {
+  DINER_TOKEN_HEADER,
+  attachTableCartOrder,
+  authenticateDiner,
+  claimTableCart,
+  loadOpenTableCart,
+  loadTableCartLines,
+  releaseTableCart,
+  toOrderItemInputs
+} from '@/lib/cart/tableCart'
+import { getOrderEta } from '@/lib/kitchen/orderEta'
+import { ApiError, apiErrorResponse } from '@/lib/api/errors'
 
 // Initialize Supabase client
 const supabase = createClient<Database>(
@@ -9,6 +37,9 @@ const supabase = createClient<Database>(
 )
 
 export async function POST(request: NextRequest) {
+  // Shared table cart closed for this order; reopened if creating the order fails
+  let claimedCartId: string | null = null
+
   try {
     console.log('=== ORDER API START ===')
     const body = await request.json()
@@ -26,7 +57,12 @@ export async function POST(request: NextRequest) {
       service_fee,
       total_amount,
       promo_code,
-      discount_amount
+      promo_codes, // optional: several codes, applied in order under the stacking rules
+      discount_amount,
+      loyalty_points, // optional: points to redeem, keyed by customer_phone
+      accept_server_pricing,
+      table_cart_id, // optional: submit the table's shared cart (x-diner-token of a diner who joined it)
+      diner_name
     } = body
 
     // Validate required fields
@@ -91,70 +127,84 @@ export async function POST(request: NextRequest) {
       )
     }
 
-    // Calculate order total from items
-    let calculatedSubtotal = 0
-    const validItems = []
-
-    for (const item of items) {
-      // Validate menu item exists
-      const { data: menuItem, error: menuError } = await supabase
-        .from('menu_items')
-        .select('id, name, base_price, is_available')
-        .eq('id', item.menu_item_id)
-        .single()
+    // A shared cart is ordered from its stored lines, not from the submitting diner's copy
+    let itemInputs = items as OrderItemInput[]
+    let submittingDinerId: string | null = null
+    if (table_cart_id) {
+      const tableCart = await loadOpenTableCart(supabase, table_cart_id)
+      if (tableCart.table_id !== table.id) {
+        return NextResponse.json(
+          { error: { message: 'Keranjang bukan milik meja ini', code: 'TABLE_CART_MISMATCH' } },
+          { status: 400 }
+        )
+      }
 
-      if (menuError || !menuItem) {
+      submittingDinerId = await authenticateDiner(supabase, table.id, request.headers.get(DINER_TOKEN_HEADER))
+      itemInputs = toOrderItemInputs(await loadTableCartLines(supabase, tableCart.id))
+      if (itemInputs.length === 0) {
         return NextResponse.json(
-          { error: { message: `Invalid menu item: ${item.menu_item_id}` } },
+          { error: { message: 'Keranjang meja kosong', code: 'TABLE_CART_EMPTY' } },
           { status: 400 }
         )
       }
+    }
+
+    // Price every line on the server - client prices are only compared, never trusted
+    const lines = await priceOrderLines(supabase, itemInputs)
+    const calculatedSubtotal = lines.reduce((total, line) => total + line.subtotal, 0)
+    const taxRates = await loadTaxRates(supabase)
+
+    // Run the promo engine against the server-priced lines
+    const promoCodes = normalizePromoCodes(promo_code, promo_codes)
+    const customerPhone = normalizeCustomerPhone(customer_phone)
+    let promoResult: PromoEvaluation | null = null
 
-      if (!menuItem.is_available) {
+    if (promoCodes.length > 0) {
+      console.log('Validating promo codes:', promoCodes)
+      promoResult = await evaluatePromoCodes(supabase, promoCodes, toPromoCartLines(lines), customerPhone)
+
+      if (promoResult.missing.length > 0) {
         return NextResponse.json(
-          { error: { message: `Menu item "${menuItem.name}" is not available` } },
+          { error: { message: `Invalid promo code: ${promoResult.missing.join(', ')}`, code: 'PROMO_NOT_FOUND' } },
           { status: 400 }
         )
       }
 
-      const itemPrice = item.unit_price || menuItem.base_price
-
-      // Calculate customization price (temporarily disabled to debug)
-      let customizationPrice = 0
-      try {
-        if (item.customizations && Object.keys(item.customizations).length > 0) {
-          // Skip customization price calculation for now to avoid errors
-          console.log('Customization found but price calculation skipped for debugging')
-        }
-      } catch (error) {
-        console.error('Error calculating customization price:', error)
-        customizationPrice = 0
+      if (promoResult.rejected.length > 0) {
+        const [rejection] = promoResult.rejected
+        return NextResponse.json(
+          {
+            error: {
+              message: `${rejection.code}: ${rejection.message}`,
+              code: 'PROMO_REJECTED',
+              details: { rejected: promoResult.rejected }
+            }
+          },
+          { status: 400 }
+        )
       }
 
-      const itemSubtotal = (itemPrice + customizationPrice) * item.quantity
-      calculatedSubtotal += itemSubtotal
-
-      validItems.push({
-        menu_item_id: item.menu_item_id,
-        item_name: menuItem.name, // Required field from database
-        item_price: itemPrice, // Required field from database
-        quantity: item.quantity,
-        customizations: item.customizations || {}, // JSONB field
-        customization_price: customizationPrice, // Required field with default 0
-        subtotal: itemSubtotal,
-        notes: item.notes || null // TEXT field, nullable
-      })
+      console.log('Promos validated successfully:', promoResult.applied)
     }
 
-    // Calculate taxes and fees
-    const taxRate = 0.1 // 10% tax
-    const serviceFeeRate = 0.05 // 5% service fee
-    const calculatedTax = Math.round(calculatedSubtotal * taxRate)
-    const calculatedServiceFee = Math.round(calculatedSubtotal * serviceFeeRate)
-    const discountAmount = Number(discount_amount) || 0
-    // Ensure minimum order value after discount (e.g., minimum 1000)
-    const rawTotal = calculatedSubtotal + calculatedTax + calculatedServiceFee - discountAmount
-    const calculatedTotal = Math.max(1000, rawTotal)
+    // The first applied promo is kept on the order; promo_usage holds all of them
+    const validatedPromo = promoResult?.promos.find(promo => promo.id === promoResult?.applied[0]?.promo_id) || null
+
+    // Points are redeemed against what is left of the subtotal after promos
+    const loyaltyRedemption = await quoteLoyaltyRedemption(
+      supabase,
+      customerPhone,
+      loyalty_points,
+      Math.max(0, calculatedSubtotal - (promoResult?.discount_amount || 0))
+    )
+
+    const quote = buildOrderQuote(lines, taxRates, promoResult, loyaltyRedemption)
+    const {
+      tax_amount: calculatedTax,
+      service_fee: calculatedServiceFee,
+      discount_amount: discountAmount,
+      total_amount: calculatedTotal
+    } = quote
 
     console.log('Final calculation:', {
       calculatedSubtotal,
@@ -164,44 +214,54 @@ export async function POST(request: NextRequest) {
       calculatedTotal
     })
 
-    // Validate promo code if provided
-    let validatedPromo = null
-    if (promo_code) {
-      console.log('Validating promo code:', promo_code)
-      const { data: promoData, error: promoError } = await supabase
-        .from('promos')
-        .select('id, code, promo_type, discount_value, min_purchase_amount, max_uses_total, current_uses, is_active')
-        .eq('code', promo_code.toUpperCase())
-        .eq('is_active', true)
-        .single()
-
-      if (promoError || !promoData) {
-        return NextResponse.json(
-          { error: { message: `Invalid promo code: ${promo_code}` } },
-          { status: 400 }
-        )
-      }
+    // Reject tampered or stale carts unless the client explicitly accepts the server prices.
+    // Lines are compared with what was priced: a shared cart's stored lines
+    // rather than the submitting diner's copy
+    const mismatches = diffClientPricing(itemInputs, {
+      subtotal,
+      tax_amount,
+      service_fee,
+      discount_amount,
+      total_amount
+    }, quote)
 
-      // Check if promo has usage limits
-      if (promoData.max_uses_total && promoData.current_uses >= promoData.max_uses_total) {
-        return NextResponse.json(
-          { error: { message: 'Promo code has reached maximum usage limit' } },
-          { status: 400 }
-        )
-      }
+    if (mismatches.length > 0) {
+      console.log('Client pricing mismatch:', mismatches)
 
-      // Check minimum purchase amount
-      if (promoData.min_purchase_amount && calculatedSubtotal < promoData.min_purchase_amount) {
+      if (!accept_server_pricing) {
         return NextResponse.json(
-          { error: { message: `Minimum purchase amount for this promo is Rp ${promoData.min_purchase_amount.toLocaleString('id-ID')}` } },
-          { status: 400 }
+          {
+            error: {
+              message: 'Harga pesanan telah berubah, mohon periksa kembali total pembayaran',
+              code: 'PRICE_MISMATCH',
+              details: {
+                mismatches,
+                quote: {
+                  lines: quote.lines.map(line => ({
+                    menu_item_id: line.menu_item_id,
+                    item_name: line.item_name,
+                    quantity: line.quantity,
+                    unit_price: line.unit_price,
+                    subtotal: line.subtotal
+                  })),
+                  subtotal: quote.subtotal,
+                  tax_amount: quote.tax_amount,
+                  service_fee: quote.service_fee,
+                  discount_amount: quote.discount_amount,
+                  loyalty_points: quote.loyalty.points,
+                  loyalty_discount: quote.loyalty.discount_amount,
+                  total_amount: quote.total_amount
+                }
+              }
+            }
+          },
+          { status: 409 }
         )
       }
-
-      validatedPromo = promoData
-      console.log('Promo validated successfully:', validatedPromo)
     }
 
+    const validItems = lines.map(({ unit_price, category_id, ...line }) => line)
+
     // Create order in database - use database schema from migration (not TypeScript types)
     // IMPORTANT: Set discount_amount = 0 initially to avoid constraint violation
     // The database trigger will calculate total based on order_items (which don't exist yet)
@@ -211,7 +271,7 @@ export async function POST(request: NextRequest) {
       table_id: table.id, // Use the actual table UUID from database
       // session_id will be generated after order creation using the actual order.id
       customer_name: customer_name.trim(),
-      customer_phone: customer_phone.replace(/\s+/g, ''),
+      customer_phone: customerPhone,
       customer_notes: special_notes?.trim() || null, // Use actual database field name
       subtotal: 0, // Will be calculated by trigger
       tax_amount: 0, // Will be calculated by trigger
@@ -230,6 +290,15 @@ export async function POST(request: NextRequest) {
       payment_verified_at: null
     }
 
+    // Close the shared cart first so two diners cannot both submit it
+    if (table_cart_id && submittingDinerId) {
+      await claimTableCart(supabase, table_cart_id, {
+        id: submittingDinerId,
+        name: String(diner_name || customer_name).trim()
+      })
+      claimedCartId = table_cart_id
+    }
+
     console.log('Creating order with data:', orderData)
 
     const { data: order, error: orderError } = await supabase
@@ -242,6 +311,7 @@ export async function POST(request: NextRequest) {
 
     if (orderError) {
       console.error('Error creating order:', orderError)
+      if (claimedCartId) await releaseTableCart(supabase, claimedCartId)
       return NextResponse.json(
         { error: { message: 'Failed to create order: ' + orderError.message } },
         { status: 500 }
@@ -283,54 +353,43 @@ export async function POST(request: NextRequest) {
       console.error('Order items data:', JSON.stringify(orderItems, null, 2))
       // Try to delete the order if items creation failed
       await supabase.from('orders').delete().eq('id', order.id)
+      if (claimedCartId) await releaseTableCart(supabase, claimedCartId)
       return NextResponse.json(
         { error: { message: 'Failed to create order items: ' + itemsError.message } },
         { status: 500 }
       )
     }
 
-    // Update order totals after creating items (database trigger has now calculated correct values)
-    // Now apply the discount if any
-    console.log('Updating order totals with discount after creating items')
+    // Write the server quote back onto the order now that its items exist
+    console.log('Updating order totals from server quote after creating items')
     const finalUpdate: any = {
       promo_code: validatedPromo?.code || null,
       promo_id: validatedPromo?.id || null,
       discount_percentage: validatedPromo?.promo_type === 'percentage' ? validatedPromo.discount_value : null,
+      subtotal: calculatedSubtotal,
+      tax_amount: calculatedTax,
+      service_charge: calculatedServiceFee,
       discount_amount: discountAmount,
+      total_amount: calculatedTotal,
+      loyalty_points_used: quote.loyalty.points,
+      loyalty_discount: quote.loyalty.discount_amount,
       updated_at: new Date().toISOString()
     }
 
-    // Update promo usage count if promo was used
-    if (validatedPromo && discountAmount > 0) {
-      const { error: promoUpdateError } = await supabase
-        .from('promos')
-        .update({
-          current_uses: validatedPromo.current_uses + 1,
-          updated_at: new Date().toISOString()
-        })
-        .eq('id', validatedPromo.id)
-
-      if (promoUpdateError) {
-        console.error('Error updating promo usage count:', promoUpdateError)
-      } else {
-        console.log('Promo usage count updated successfully')
-      }
+    // Record promo usage atomically - a limit may have been reached since validation
+    const redeemedPromos = quote.promos.filter(promo => promo.discount_amount > 0)
+    try {
+      await redeemOrderPromos(supabase, order.id, customerPhone, redeemedPromos)
+      // Last, so a failed promo redemption never leaves points spent
+      await redeemOrderLoyaltyPoints(supabase, order.id, customerPhone, quote.loyalty)
+    } catch (redeemError) {
+      await supabase.from('orders').delete().eq('id', order.id)
+      throw redeemError
     }
 
-    // If there's a discount, we need to recalculate total_amount
-    if (discountAmount > 0) {
-      // Get the current totals calculated by the trigger
-      const currentSubtotal = calculatedSubtotal
-      const currentTax = calculatedTax
-      const currentServiceFee = calculatedServiceFee
-      const newTotal = Math.max(1000, currentSubtotal + currentTax + currentServiceFee - discountAmount)
-
-      finalUpdate.total_amount = newTotal
-      console.log('Applying discount:', {
-        beforeDiscount: currentSubtotal + currentTax + currentServiceFee,
-        discount: discountAmount,
-        afterDiscount: newTotal
-      })
+    if (claimedCartId) {
+      await attachTableCartOrder(supabase, claimedCartId, order.id)
+      claimedCartId = null
     }
 
     const { error: totalsUpdateError } = await supabase
@@ -362,24 +421,31 @@ export async function POST(request: NextRequest) {
       console.log('Table status updated to occupied with session:', sessionId)
     }
 
-    // Calculate estimated completion (30 minutes from now)
-    const estimatedCompletion = new Date(Date.now() + 30 * 60 * 1000).toISOString()
-
-    // Calculate final total amount for response (with discount applied)
-    const finalTotalAmount = discountAmount > 0
-      ? Math.max(1000, calculatedSubtotal + calculatedTax + calculatedServiceFee - discountAmount)
-      : calculatedSubtotal + calculatedTax + calculatedServiceFee
+    // Estimated completion behind the current kitchen queue, once paid
+    const eta = await getOrderEta(supabase, order.id).catch(etaError => {
+      console.error('Error estimating order ETA:', etaError)
+      return null
+    })
+    const estimatedCompletion = eta?.ready_at || new Date(Date.now() + 30 * 60 * 1000).toISOString()
 
     return NextResponse.json({
       data: {
         order_id: order.id,
-        total_amount: finalTotalAmount,
+        total_amount: calculatedTotal,
         table_number: table.table_number,
         estimated_completion: estimatedCompletion
       }
     })
 
   } catch (error: any) {
+    if (claimedCartId) {
+      await releaseTableCart(supabase, claimedCartId)
+    }
+
+    if (error instanceof ApiError) {
+      return apiErrorResponse(error, 'creating order')
+    }
+
     console.error('Error in order creation:', error)
     console.error('Error stack:', error.stack)
     console.error('Error details:', {
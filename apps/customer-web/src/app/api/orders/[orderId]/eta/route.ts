@@ -0,0 +1,28 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@supabase/supabase-js'
+import type { Database } from '@/types/database'
+import { getOrderEta } from '@/lib/kitchen/orderEta'
+import { apiErrorResponse } from '@/lib/api/errors'
+
+// Initialize Supabase client
+const supabase = createClient<Database>(
+  process.env.NEXT_PUBLIC_SUPABASE_URL!,
+  process.env.SUPABASE_SERVICE_ROLE_KEY || process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!
+)
+
+// Ready time and queue position; null once the kitchen is done with the order
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ orderId: string }> }
+) {
+  try {
+    const { orderId } = await params
+    const eta = await getOrderEta(supabase, orderId)
+
+    return NextResponse.json({
+      data: eta
+    })
+  } catch (error) {
+    return apiErrorResponse(error, 'estimating order ETA')
+  }
+}
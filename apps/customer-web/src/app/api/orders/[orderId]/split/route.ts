@@ -0,0 +1,68 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@supabase/supabase-js'
+import type { Database } from '@/types/database'
+import {
+  cancelBillSplit,
+  createBillSplit,
+  loadBillShares
+} from '@/lib/payments/billShares'
+import { apiErrorResponse } from '@/lib/api/errors'
+
+// Initialize Supabase client
+const supabase = createClient<Database>(
+  process.env.NEXT_PUBLIC_SUPABASE_URL!,
+  process.env.SUPABASE_SERVICE_ROLE_KEY || process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!
+)
+
+// Shares of the order's bill; empty when it is paid by one payer
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ orderId: string }> }
+) {
+  try {
+    const { orderId } = await params
+    const shares = await loadBillShares(supabase, orderId)
+
+    return NextResponse.json({
+      data: shares
+    })
+  } catch (error) {
+    return apiErrorResponse(error, 'loading bill split')
+  }
+}
+
+// Split the bill: { method: 'equal' | 'items' | 'custom', shares: [...] }
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ orderId: string }> }
+) {
+  try {
+    const { orderId } = await params
+    const { method, shares } = await request.json()
+
+    const created = await createBillSplit(supabase, orderId, method, shares)
+
+    return NextResponse.json({
+      data: created
+    })
+  } catch (error) {
+    return apiErrorResponse(error, 'creating bill split')
+  }
+}
+
+// Pay the whole order by one payer again
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ orderId: string }> }
+) {
+  try {
+    const { orderId } = await params
+    await cancelBillSplit(supabase, orderId)
+
+    return NextResponse.json({
+      data: { order_id: orderId }
+    })
+  } catch (error) {
+    return apiErrorResponse(error, 'cancelling bill split')
+  }
+}
@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { createClient } from '@supabase/supabase-js'
 import type { Database } from '@/types/database'
+import { getOrderEta } from '@/lib/kitchen/orderEta'
 
 // Initialize Supabase client
 const supabase = createClient<Database>(
@@ -54,12 +55,9 @@ export async function GET(
       )
     }
 
-    // Calculate estimated completion (default to 30 minutes from order creation)
-    let estimatedCompletion: string | null = null
-    if (order.created_at) {
-      const createdAt = new Date(order.created_at)
-      estimatedCompletion = new Date(createdAt.getTime() + 30 * 60 * 1000).toISOString()
-    }
+    // Estimated completion from the kitchen queue; when it was ready once done
+    const eta = await getOrderEta(supabase, orderId)
+    const estimatedCompletion: string | null = eta ? eta.ready_at : (order as any).ready_at || null
 
     // Generate comprehensive progress steps based on order status and timestamps
     // Correct chronological flow: created_at → payment_verified_at → confirmed_at → preparing_at → ready_at → delivered_at → completed_at
@@ -175,6 +173,8 @@ export async function GET(
       id: order.id,
       status: order.status,
       estimated_completion: estimatedCompletion,
+      queue_position: eta?.queue_position ?? null,
+      orders_ahead: eta?.orders_ahead ?? null,
       progress_steps: progressSteps
     }
 
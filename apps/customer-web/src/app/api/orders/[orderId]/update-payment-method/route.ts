@@ -1,6 +1,8 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { createClient } from '@supabase/supabase-js'
 import type { Database } from '@/types/database'
+import { loadPayableShare, startBillSharePayment } from '@/lib/payments/billShares'
+import { ApiError, apiErrorResponse } from '@/lib/api/errors'
 
 // Initialize Supabase client with service role key
 const supabase = createClient<Database>(
@@ -15,7 +17,7 @@ export async function POST(
   try {
     const { orderId } = await params
     const body = await request.json()
-    const { payment_method } = body
+    const { payment_method, bill_share_id } = body
 
     if (!orderId || !payment_method) {
       return NextResponse.json(
@@ -24,6 +26,18 @@ export async function POST(
       )
     }
 
+    // A share of a split bill is paid at the cashier on its own
+    if (bill_share_id) {
+      const share = await loadPayableShare(supabase, orderId, bill_share_id)
+      await startBillSharePayment(supabase, share.id, payment_method)
+
+      return NextResponse.json({
+        success: true,
+        message: 'Payment method updated successfully',
+        data: { ...share, payment_method }
+      })
+    }
+
     console.log('Updating payment method for order:', orderId, 'to:', payment_method)
 
     // Update order with payment method
@@ -54,6 +68,10 @@ export async function POST(
     })
 
   } catch (error: any) {
+    if (error instanceof ApiError) {
+      return apiErrorResponse(error, 'updating payment method')
+    }
+
     console.error('Error in update payment method API:', error)
     return NextResponse.json(
       { error: { message: 'Internal server error', details: error.message || 'Unknown error' } },
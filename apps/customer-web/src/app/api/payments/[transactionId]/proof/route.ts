@@ -1,6 +1,8 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { createClient } from '@supabase/supabase-js'
 import type { Database } from '@/types/database'
+import { attachBillShareProof } from '@/lib/payments/billShares'
+import { sendTransferApprovalPrompt } from '@/lib/payments/transferApproval'
 
 // Initialize Supabase client
 const supabase = createClient<Database>(
@@ -49,7 +51,7 @@ export async function POST(
     // Validate transaction exists
     const { data: transaction, error: transactionError } = await supabase
       .from('payment_transactions')
-      .select('id, order_id, status')
+      .select('id, order_id, status, bill_share_id')
       .eq('id', transactionId)
       .single()
 
@@ -124,17 +126,30 @@ export async function POST(
         )
       }
 
-      // Also update the order payment status
-      const { error: orderUpdateError } = await supabase
-        .from('orders')
-        .update({
-          payment_proof_url: proofUrl,
-          payment_status: 'processing' // Set to processing, waiting for verification
-        })
-        .eq('id', transaction.order_id)
-
-      if (orderUpdateError) {
-        console.error('Error updating order:', orderUpdateError)
+      // A share of a split bill keeps its own proof; the order follows its shares
+      const billShareId = (transaction as any).bill_share_id as string | null
+      if (billShareId) {
+        await attachBillShareProof(supabase, billShareId, proofUrl)
+      } else {
+        // Also update the order payment status
+        const { error: orderUpdateError } = await supabase
+          .from('orders')
+          .update({
+            payment_proof_url: proofUrl,
+            payment_status: 'processing' // Set to processing, waiting for verification
+          })
+          .eq('id', transaction.order_id)
+
+        if (orderUpdateError) {
+          console.error('Error updating order:', orderUpdateError)
+        } else {
+          // Owner can verify straight from Telegram
+          try {
+            await sendTransferApprovalPrompt(supabase, (transaction as any).order_id, proofUrl)
+          } catch (telegramError) {
+            console.error('Error sending transfer approval prompt:', telegramError)
+          }
+        }
       }
 
       console.log('Payment proof uploaded successfully')
@@ -1,6 +1,13 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { createClient } from '@supabase/supabase-js'
 import type { Database } from '@/types/database'
+import { buildOrderQRIS, type OrderQRIS } from '@/lib/payments/qris'
+import {
+  loadPayableShare,
+  startBillSharePayment,
+  type BillShareRow
+} from '@/lib/payments/billShares'
+import { ApiError, apiErrorResponse } from '@/lib/api/errors'
 
 // Initialize Supabase client
 const supabase = createClient<Database>(
@@ -8,6 +15,29 @@ const supabase = createClient<Database>(
   process.env.SUPABASE_SERVICE_ROLE_KEY || process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!
 )
 
+// QRIS payment details returned to the customer
+function buildQRISResponse(orderQris: OrderQRIS) {
+  return {
+    qr_code: orderQris.qr_payload,
+    merchant_name: orderQris.merchant_name,
+    merchant_city: orderQris.merchant_city,
+    nmid: orderQris.nmid,
+    payment_reference: orderQris.reference,
+    amount_to_pay: orderQris.amount,
+    formatted_amount: `Rp ${orderQris.amount.toLocaleString('id-ID')}`,
+    message: 'Scan QR code, nominal pembayaran sudah terisi otomatis',
+    next_step: 'Scan QR code dengan aplikasi e-wallet atau mobile banking, lalu konfirmasi pembayaran',
+    instructions: [
+      'Buka aplikasi e-wallet atau mobile banking (GoPay, OVO, Dana, ShopeePay)',
+      'Pilih fitur "Bayar" atau "Scan QR"',
+      'Scan QR code di bawah ini',
+      `Pastikan nominal yang muncul Rp ${orderQris.amount.toLocaleString('id-ID')}`,
+      'Konfirmasi pembayaran'
+    ],
+    expires_at: orderQris.expires_at
+  }
+}
+
 export async function POST(request: NextRequest) {
   try {
     console.log('=== PAYMENT API START ===')
@@ -18,7 +48,8 @@ export async function POST(request: NextRequest) {
       order_id,
       method,
       amount,
-      customer_phone
+      customer_phone,
+      bill_share_id
     } = body
 
     // Validate required fields
@@ -44,7 +75,7 @@ export async function POST(request: NextRequest) {
     console.log('Validating order:', order_id)
     const { data: order, error: orderError } = await supabase
       .from('orders')
-      .select('id, total_amount, status, payment_status')
+      .select('id, total_amount, status, payment_status, split_method')
       .eq('id', order_id)
       .single()
 
@@ -71,14 +102,33 @@ export async function POST(request: NextRequest) {
       )
     }
 
+    // A split bill is paid share by share, each for its own amount
+    let share: BillShareRow | null = null
+    if (bill_share_id) {
+      share = await loadPayableShare(supabase, order_id, bill_share_id)
+    } else if ((order as any).split_method) {
+      return NextResponse.json(
+        { error: { message: 'Tagihan ini dibagi, pilih bagian yang akan dibayar', code: 'BILL_SHARE_REQUIRED' } },
+        { status: 400 }
+      )
+    }
+
+    const expectedAmount = share ? share.amount : Number(order.total_amount)
+
     // Validate amount matches order total
-    if (Math.abs(Number(amount) - Number(order.total_amount)) > 1) {
+    if (Math.abs(Number(amount) - expectedAmount) > 1) {
       return NextResponse.json(
-        { error: { message: `Amount mismatch. Expected: ${order.total_amount}, Received: ${amount}` } },
+        { error: { message: `Amount mismatch. Expected: ${expectedAmount}, Received: ${amount}` } },
         { status: 400 }
       )
     }
 
+    // Dynamic QRIS carries the order total, build it before recording the payment
+    let orderQris: OrderQRIS | null = null
+    if (method === 'qris') {
+      orderQris = await buildOrderQRIS(supabase, order_id, new Date(), share || undefined)
+    }
+
     // Create payment transaction record
     console.log('Creating payment transaction')
     const transactionData = {
@@ -87,6 +137,7 @@ export async function POST(request: NextRequest) {
       amount: Number(amount),
       payment_method: method,
       status: 'pending' as const,
+      bill_share_id: share?.id ?? null,
       created_at: new Date().toISOString()
     }
 
@@ -106,20 +157,27 @@ export async function POST(request: NextRequest) {
 
     console.log('Payment transaction created:', transaction.id)
 
+    if (share) {
+      // The order's payment status follows its shares (see 060_split_bills)
+      await startBillSharePayment(supabase, share.id, method)
+    }
+
     // Update order payment info
-    const orderUpdateData = {
+    const orderUpdateData = share ? null : {
       payment_method: method,
       payment_status: method === 'cash' ? 'pending' : 'processing' as const,
       updated_at: new Date().toISOString()
     }
 
-    const { error: orderUpdateError } = await supabase
-      .from('orders')
-      .update(orderUpdateData)
-      .eq('id', order_id)
+    if (orderUpdateData) {
+      const { error: orderUpdateError } = await supabase
+        .from('orders')
+        .update(orderUpdateData)
+        .eq('id', order_id)
 
-    if (orderUpdateError) {
-      console.error('Error updating order payment info:', orderUpdateError)
+      if (orderUpdateError) {
+        console.error('Error updating order payment info:', orderUpdateError)
+      }
     }
 
     // Generate payment response based on method
@@ -129,7 +187,10 @@ export async function POST(request: NextRequest) {
       order_id: order_id,
       amount: amount,
       method: method,
-      status: transaction.status
+      status: transaction.status,
+      bill_share_id: share?.id ?? null,
+      share_number: share?.share_number ?? null,
+      payer_name: share?.payer_name ?? null
     }
 
     // For different payment methods, add specific data
@@ -143,22 +204,10 @@ export async function POST(request: NextRequest) {
         break
 
       case 'qris':
-        // QRIS statis - customer perlu input nominal manual
+        // QRIS dinamis - nominal dan nomor pesanan sudah tertanam di QR
         paymentResponse = {
           ...paymentResponse,
-          qr_code: 'QRIS_STATIC_CODE', // QR code statis cafe
-          merchant_name: 'Cirebon Kuring Cafe',
-          amount_to_pay: amount,
-          formatted_amount: `Rp ${amount.toLocaleString('id-ID')}`,
-          message: 'Scan QR code dan masukkan nominal pembayaran',
-          next_step: 'Scan QR code dengan aplikasi e-wallet, lalu masukkan nominal yang tertera',
-          instructions: [
-            'Buka aplikasi e-wallet (GoPay, OVO, Dana, ShopeePay)',
-            'Pilih fitur "Bayar" atau "Scan QR"',
-            'Scan QR code di bawah ini',
-            `Masukkan nominal: Rp ${amount.toLocaleString('id-ID')}`,
-            'Konfirmasi pembayaran'
-          ]
+          ...buildQRISResponse(orderQris!)
         }
         break
 
@@ -215,6 +264,10 @@ export async function POST(request: NextRequest) {
     })
 
   } catch (error: any) {
+    if (error instanceof ApiError) {
+      return apiErrorResponse(error, 'creating payment')
+    }
+
     console.error('Error in payment creation:', error)
     console.error('Error stack:', error.stack)
 
@@ -245,7 +298,8 @@ export async function GET(request: NextRequest) {
       .from('payment_transactions')
       .select(`
         *,
-        orders(id, order_number, total_amount, status, payment_status)
+        orders(id, order_number, total_amount, status, payment_status),
+        order_bill_shares(id, share_number, payer_name, amount, status)
       `)
       .eq('id', transactionId)
       .single()
@@ -257,6 +311,9 @@ export async function GET(request: NextRequest) {
       )
     }
 
+    const share = (transaction as any).order_bill_shares as
+      { id: string; share_number: number; payer_name: string; amount: number; status: string } | null
+
     // Build payment response similar to POST endpoint
     let paymentResponse: any = {
       transaction_id: transaction.id,
@@ -266,7 +323,11 @@ export async function GET(request: NextRequest) {
       method: transaction.payment_method,
       status: transaction.status,
       created_at: transaction.created_at,
-      processed_at: transaction.processed_at
+      processed_at: transaction.processed_at,
+      bill_share_id: share?.id ?? null,
+      share_number: share?.share_number ?? null,
+      payer_name: share?.payer_name ?? null,
+      share_status: share?.status ?? null
     }
 
     // Add method-specific data based on payment method
@@ -280,22 +341,16 @@ export async function GET(request: NextRequest) {
         break
 
       case 'qris':
-        // QRIS statis - customer perlu input nominal manual
         paymentResponse = {
           ...paymentResponse,
-          qr_code: 'QRIS_STATIC_CODE', // QR code statis cafe
-          merchant_name: 'Cirebon Kuring Cafe',
-          amount_to_pay: transaction.amount,
-          formatted_amount: `Rp ${transaction.amount.toLocaleString('id-ID')}`,
-          message: 'Scan QR code dan masukkan nominal pembayaran',
-          next_step: 'Scan QR code dengan aplikasi e-wallet, lalu masukkan nominal yang tertera',
-          instructions: [
-            'Buka aplikasi e-wallet (GoPay, OVO, Dana, ShopeePay)',
-            'Pilih fitur "Bayar" atau "Scan QR"',
-            'Scan QR code di bawah ini',
-            `Masukkan nominal: Rp ${transaction.amount.toLocaleString('id-ID')}`,
-            'Konfirmasi pembayaran'
-          ]
+          ...buildQRISResponse(
+            await buildOrderQRIS(
+              supabase,
+              transaction.order_id,
+              new Date(transaction.created_at),
+              share || undefined
+            )
+          )
         }
         break
 
@@ -358,10 +413,6 @@ export async function GET(request: NextRequest) {
     })
 
   } catch (error) {
-    console.error('Error fetching payment transaction:', error)
-    return NextResponse.json(
-      { error: { message: 'Internal server error' } },
-      { status: 500 }
-    )
+    return apiErrorResponse(error, 'fetching payment transaction')
   }
 }
\ No newline at end of file
@@ -1,6 +1,8 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { createClient } from '@supabase/supabase-js'
 import type { Database } from '@/types/database'
+import { checkPromoCode } from '@/lib/pricing/promos'
+import { ApiError, apiErrorResponse } from '@/lib/api/errors'
 
 // Initialize Supabase client with service role key for admin operations
 const supabase = createClient<Database>(
@@ -28,8 +30,15 @@ export async function GET(request: NextRequest) {
       )
     }
 
+    // Hide promos outside their validity period; time windows are checked when applied
+    const now = Date.now()
+    const current = (promos || []).filter((promo: any) =>
+      (!promo.valid_from || new Date(promo.valid_from).getTime() <= now) &&
+      (!promo.valid_until || new Date(promo.valid_until).getTime() >= now)
+    )
+
     return NextResponse.json({
-      data: promos || []
+      data: current
     })
 
   } catch (error: any) {
@@ -46,7 +55,7 @@ export async function POST(request: NextRequest) {
     console.log('=== VALIDATE PROMO API START ===')
 
     const body = await request.json()
-    const { code, order_total } = body
+    const { code, order_total, items, customer_phone, applied_codes } = body
 
     console.log('Validating promo:', { code, order_total })
 
@@ -57,45 +66,37 @@ export async function POST(request: NextRequest) {
       )
     }
 
-    const { data: promo, error } = await (supabase as any)
-      .from('promos')
-      .select('*')
-      .eq('code', code.toUpperCase())
-      .eq('is_active', true)
-      .single()
-
-    console.log('Promo validation result:', { promo, error })
-
-    if (error || !promo) {
-      return NextResponse.json(
-        { error: { message: 'Kode promo tidak ditemukan' } },
-        { status: 404 }
-      )
-    }
+    const result = await checkPromoCode(supabase, {
+      code,
+      items,
+      order_total,
+      customer_phone,
+      applied_codes
+    })
 
-    // Check minimum purchase amount
-    if (promo.min_purchase_amount && order_total < promo.min_purchase_amount) {
-      return NextResponse.json(
-        { error: {
-          message: `Minimum pembelian Rp ${promo.min_purchase_amount.toLocaleString('id-ID')}`
-        } },
-        { status: 400 }
-      )
-    }
+    console.log('Promo validation result:', result)
 
-    // Check usage limits
-    if (promo.max_uses_total && promo.current_uses >= promo.max_uses_total) {
+    if (!result.valid) {
       return NextResponse.json(
-        { error: { message: 'Promo telah mencapai batas maksimal penggunaan' } },
-        { status: 400 }
+        { error: { message: result.message } },
+        { status: result.promo ? 400 : 404 }
       )
     }
 
     return NextResponse.json({
-      data: promo
+      data: {
+        ...result.promo,
+        discount_amount: result.discount_amount,
+        total_discount: result.total_discount,
+        applied: result.applied
+      }
     })
 
   } catch (error: any) {
+    if (error instanceof ApiError) {
+      return apiErrorResponse(error, 'validating promo')
+    }
+
     console.error('Error in promo validation API:', error)
     return NextResponse.json(
       { error: { message: error.message || 'Failed to validate promo' } },
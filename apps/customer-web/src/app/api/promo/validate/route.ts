@@ -1,55 +1,33 @@
 import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@supabase/supabase-js'
+import type { Database } from '@/types/database'
+import { OrderPricingError } from '@/lib/pricing/orderPricing'
+import { checkPromoCode, type PromoRow } from '@/lib/pricing/promos'
 
-// Mock promo codes data
-const MOCK_PROMO_CODES = {
-  'WELCOME10': {
-    code: 'WELCOME10',
-    name: 'Selamat Datang',
-    description: 'Diskon 10% untuk pelanggan baru',
-    discount_type: 'percentage' as const,
-    discount_value: 10,
-    minimum_order: 0,
-    maximum_discount: 50000,
-    valid_until: '2024-12-31T23:59:59.000Z',
-    terms_conditions: [
-      'Berlaku untuk pemesanan pertama',
-      'Tidak dapat digabung dengan promo lain'
-    ]
-  },
-  'HEMAT25': {
-    code: 'HEMAT25',
-    name: 'Hemat Istimewa',
-    description: 'Diskon Rp 25.000 min. pembelian Rp 100.000',
-    discount_type: 'fixed' as const,
-    discount_value: 25000,
-    minimum_order: 100000,
-    maximum_discount: 25000,
-    valid_until: '2024-12-31T23:59:59.000Z',
-    terms_conditions: [
-      'Minimum pembelian Rp 100.000',
-      'Berlaku untuk semua menu'
-    ]
-  },
-  'MAKAN15': {
-    code: 'MAKAN15',
-    name: 'Makan Hemat',
-    description: 'Diskon 15% min. pembelian Rp 50.000',
-    discount_type: 'percentage' as const,
-    discount_value: 15,
-    minimum_order: 50000,
-    maximum_discount: 75000,
-    valid_until: '2024-12-31T23:59:59.000Z',
-    terms_conditions: [
-      'Minimum pembelian Rp 50.000',
-      'Maksimal diskon Rp 75.000'
-    ]
-  }
+const supabase = createClient<Database>(
+  process.env.NEXT_PUBLIC_SUPABASE_URL!,
+  process.env.SUPABASE_SERVICE_ROLE_KEY || process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!
+)
+
+const formatRupiah = (amount: number) => `Rp ${Number(amount).toLocaleString('id-ID')}`
+
+// Human-readable conditions shown with an applied promo
+function buildTermsConditions(promo: PromoRow): string[] {
+  return [
+    promo.min_purchase_amount ? `Minimum pembelian ${formatRupiah(promo.min_purchase_amount)}` : '',
+    promo.max_discount_amount ? `Maksimal diskon ${formatRupiah(promo.max_discount_amount)}` : '',
+    promo.valid_from_time || promo.valid_until_time
+      ? `Berlaku pukul ${promo.valid_from_time?.slice(0, 5) || '00:00'}–${promo.valid_until_time?.slice(0, 5) || '24:00'}`
+      : '',
+    promo.max_uses_per_customer ? `Maksimal ${promo.max_uses_per_customer}x per pelanggan` : '',
+    promo.is_stackable ? 'Dapat digabung dengan promo lain' : 'Tidak dapat digabung dengan promo lain'
+  ].filter(Boolean)
 }
 
 export async function POST(request: NextRequest) {
   try {
     const body = await request.json()
-    const { code, order_total } = body
+    const { code, order_total, items, customer_phone, applied_codes } = body
 
     // Validate input
     if (!code || typeof code !== 'string') {
@@ -64,7 +42,8 @@ export async function POST(request: NextRequest) {
       )
     }
 
-    if (!order_total || typeof order_total !== 'number') {
+    const hasItems = Array.isArray(items) && items.length > 0
+    if (!hasItems && (!order_total || typeof order_total !== 'number')) {
       return NextResponse.json(
         {
           valid: false,
@@ -76,61 +55,61 @@ export async function POST(request: NextRequest) {
       )
     }
 
-    const promoCode = code.toUpperCase().trim()
-    const promo = MOCK_PROMO_CODES[promoCode as keyof typeof MOCK_PROMO_CODES]
+    const result = await checkPromoCode(supabase, {
+      code,
+      items: hasItems ? items : undefined,
+      order_total,
+      customer_phone,
+      applied_codes
+    })
 
-    // Check if promo code exists
-    if (!promo) {
-      return NextResponse.json({
-        valid: false,
-        message: 'Kode promo tidak ditemukan',
-        discount_amount: 0,
-        final_total: order_total
-      })
-    }
+    const orderTotal = typeof order_total === 'number' ? order_total : result.subtotal
 
-    // Check minimum order requirement
-    if (order_total < promo.minimum_order) {
+    if (!result.valid || !result.promo) {
       return NextResponse.json({
         valid: false,
-        message: `Minimum pemesanan Rp ${promo.minimum_order.toLocaleString('id-ID')}`,
+        message: result.message,
         discount_amount: 0,
-        final_total: order_total
+        final_total: orderTotal
       })
     }
 
-    // Calculate discount
-    let discount_amount = 0
-    if (promo.discount_type === 'percentage') {
-      discount_amount = Math.round(order_total * (promo.discount_value / 100))
-      // Apply maximum discount cap
-      if (promo.maximum_discount && discount_amount > promo.maximum_discount) {
-        discount_amount = promo.maximum_discount
-      }
-    } else if (promo.discount_type === 'fixed') {
-      discount_amount = promo.discount_value
-      // Discount cannot exceed order total
-      if (discount_amount > order_total) {
-        discount_amount = order_total
-      }
-    }
-
-    const final_total = Math.max(0, order_total - discount_amount)
+    const promo = result.promo
 
-    // Return success response
     return NextResponse.json({
       valid: true,
-      message: `Promo ${promo.name} berhasil diterapkan!`,
-      discount_amount,
-      discount_percentage: promo.discount_type === 'percentage' ? promo.discount_value : undefined,
-      final_total,
+      message: result.message,
+      discount_amount: result.discount_amount,
+      discount_percentage: promo.promo_type === 'percentage' ? Number(promo.discount_value) : undefined,
+      final_total: Math.max(0, orderTotal - result.total_discount),
       promo_data: {
-        ...promo,
-        discount_amount
+        code: promo.code,
+        name: promo.name,
+        description: promo.description,
+        promo_type: promo.promo_type,
+        discount_value: Number(promo.discount_value),
+        minimum_order: Number(promo.min_purchase_amount || 0),
+        maximum_discount: promo.max_discount_amount ? Number(promo.max_discount_amount) : undefined,
+        valid_until: promo.valid_until,
+        is_stackable: !!promo.is_stackable,
+        terms_conditions: buildTermsConditions(promo),
+        discount_amount: result.discount_amount
       }
     })
 
   } catch (error) {
+    if (error instanceof OrderPricingError) {
+      return NextResponse.json(
+        {
+          valid: false,
+          message: error.message,
+          discount_amount: 0,
+          final_total: 0
+        },
+        { status: error.status }
+      )
+    }
+
     console.error('Error validating promo code:', error)
     return NextResponse.json(
       {
@@ -147,15 +126,32 @@ export async function POST(request: NextRequest) {
 // Handle GET requests (optional - for listing available promos)
 export async function GET() {
   try {
-    const availablePromos = Object.values(MOCK_PROMO_CODES).map(promo => ({
-      code: promo.code,
-      name: promo.name,
-      description: promo.description,
-      discount_type: promo.discount_type,
-      discount_value: promo.discount_value,
-      minimum_order: promo.minimum_order,
-      valid_until: promo.valid_until
-    }))
+    const { data, error } = await (supabase as any)
+      .from('promos')
+      .select('code, name, description, promo_type, discount_value, min_purchase_amount, valid_from, valid_until, max_uses_total, current_uses')
+      .eq('is_active', true)
+      .not('code', 'is', null)
+
+    if (error) {
+      throw error
+    }
+
+    const now = Date.now()
+    const availablePromos = ((data || []) as any[])
+      .filter(promo =>
+        (!promo.valid_from || new Date(promo.valid_from).getTime() <= now) &&
+        (!promo.valid_until || new Date(promo.valid_until).getTime() >= now) &&
+        (promo.max_uses_total == null || (promo.current_uses || 0) < promo.max_uses_total)
+      )
+      .map(promo => ({
+        code: promo.code,
+        name: promo.name,
+        description: promo.description,
+        promo_type: promo.promo_type,
+        discount_value: Number(promo.discount_value),
+        minimum_order: Number(promo.min_purchase_amount || 0),
+        valid_until: promo.valid_until
+      }))
 
     return NextResponse.json({
       success: true,
@@ -171,4 +167,4 @@ export async function GET() {
       { status: 500 }
     )
   }
-}
\ No newline at end of file
+}
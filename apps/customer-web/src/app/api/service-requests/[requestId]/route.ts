@@ -0,0 +1,30 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@supabase/supabase-js'
+import type { Database } from '@/types/database'
+import { DINER_TOKEN_HEADER } from '@/lib/cart/tableCart'
+import { cancelServiceRequest } from '@/lib/service/serviceRequests'
+import { apiErrorResponse } from '@/lib/api/errors'
+
+// Initialize Supabase client
+const supabase = createClient<Database>(
+  process.env.NEXT_PUBLIC_SUPABASE_URL!,
+  process.env.SUPABASE_SERVICE_ROLE_KEY || process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!
+)
+
+// Withdraw one of the diner's own pending requests (x-diner-token from joining)
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ requestId: string }> }
+) {
+  try {
+    const { requestId } = await params
+
+    const cancelled = await cancelServiceRequest(supabase, requestId, request.headers.get(DINER_TOKEN_HEADER))
+
+    return NextResponse.json({
+      data: cancelled
+    })
+  } catch (error) {
+    return apiErrorResponse(error, 'cancelling service request')
+  }
+}
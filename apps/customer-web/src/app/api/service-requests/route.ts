@@ -0,0 +1,65 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@supabase/supabase-js'
+import type { Database } from '@/types/database'
+import { DINER_TOKEN_HEADER } from '@/lib/cart/tableCart'
+import {
+  createServiceRequest,
+  listOpenServiceRequests
+} from '@/lib/service/serviceRequests'
+import { apiErrorResponse } from '@/lib/api/errors'
+
+// Initialize Supabase client
+const supabase = createClient<Database>(
+  process.env.NEXT_PUBLIC_SUPABASE_URL!,
+  process.env.SUPABASE_SERVICE_ROLE_KEY || process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!
+)
+
+// Open requests of a table (?table_id=...); x-diner-token marks the caller's own
+export async function GET(request: NextRequest) {
+  try {
+    const tableId = new URL(request.url).searchParams.get('table_id')
+
+    if (!tableId) {
+      return NextResponse.json(
+        { error: { message: 'Table ID is required' } },
+        { status: 400 }
+      )
+    }
+
+    const requests = await listOpenServiceRequests(supabase, tableId, request.headers.get(DINER_TOKEN_HEADER))
+
+    return NextResponse.json({
+      data: requests
+    })
+  } catch (error) {
+    return apiErrorResponse(error, 'loading service request')
+  }
+}
+
+// Call a waiter, ask for the bill, cutlery, water or anything else. Needs the
+// x-diner-token from joining the table's cart.
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json()
+
+    if (!body.table_id || typeof body.table_id !== 'string') {
+      return NextResponse.json(
+        { error: { message: 'Table ID is required' } },
+        { status: 400 }
+      )
+    }
+
+    const { request: serviceRequest, created } = await createServiceRequest(
+      supabase,
+      body,
+      request.headers.get(DINER_TOKEN_HEADER)
+    )
+
+    return NextResponse.json(
+      { data: serviceRequest, created },
+      { status: created ? 201 : 200 }
+    )
+  } catch (error) {
+    return apiErrorResponse(error, 'sending service request')
+  }
+}
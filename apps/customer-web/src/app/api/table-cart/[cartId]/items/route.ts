@@ -0,0 +1,61 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@supabase/supabase-js'
+import type { Database } from '@/types/database'
+import {
+  DINER_TOKEN_HEADER,
+  removeTableCartLine,
+  saveTableCartLine
+} from '@/lib/cart/tableCart'
+import { apiErrorResponse } from '@/lib/api/errors'
+
+// Initialize Supabase client
+const supabase = createClient<Database>(
+  process.env.NEXT_PUBLIC_SUPABASE_URL!,
+  process.env.SUPABASE_SERVICE_ROLE_KEY || process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!
+)
+
+// Add or update one of the diner's own lines (x-diner-token from joining)
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ cartId: string }> }
+) {
+  try {
+    const { cartId } = await params
+    const body = await request.json()
+
+    const line = await saveTableCartLine(supabase, cartId, request.headers.get(DINER_TOKEN_HEADER), body)
+
+    return NextResponse.json({
+      data: line
+    })
+  } catch (error) {
+    return apiErrorResponse(error, 'saving table cart line')
+  }
+}
+
+// Remove one of the diner's own lines (?line_id=..., x-diner-token from joining)
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ cartId: string }> }
+) {
+  try {
+    const { cartId } = await params
+    const { searchParams } = new URL(request.url)
+    const lineId = searchParams.get('line_id')
+
+    if (!lineId) {
+      return NextResponse.json(
+        { error: { message: 'line_id is required' } },
+        { status: 400 }
+      )
+    }
+
+    await removeTableCartLine(supabase, cartId, lineId, request.headers.get(DINER_TOKEN_HEADER))
+
+    return NextResponse.json({
+      data: { id: lineId }
+    })
+  } catch (error) {
+    return apiErrorResponse(error, 'removing table cart line')
+  }
+}
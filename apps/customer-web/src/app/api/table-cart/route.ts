@@ -0,0 +1,51 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@supabase/supabase-js'
+import type { Database } from '@/types/database'
+import { DINER_TOKEN_HEADER, joinTableCart } from '@/lib/cart/tableCart'
+import { apiErrorResponse } from '@/lib/api/errors'
+
+// Initialize Supabase client
+const supabase = createClient<Database>(
+  process.env.NEXT_PUBLIC_SUPABASE_URL!,
+  process.env.SUPABASE_SERVICE_ROLE_KEY || process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!
+)
+
+// Join the table's shared cart, opening a new one when none is open. Returns
+// the diner token to send as the x-diner-token header on every cart write.
+export async function POST(request: NextRequest) {
+  try {
+    const { table_id } = await request.json()
+
+    if (!table_id || typeof table_id !== 'string') {
+      return NextResponse.json(
+        { error: { message: 'Table ID is required' } },
+        { status: 400 }
+      )
+    }
+
+    const { data: table } = await supabase
+      .from('tables')
+      .select('id')
+      .eq('id', table_id)
+      .maybeSingle()
+
+    if (!table) {
+      return NextResponse.json(
+        { error: { message: 'Meja tidak ditemukan', code: 'TABLE_NOT_FOUND' } },
+        { status: 404 }
+      )
+    }
+
+    const { cart, lines, diner_token } = await joinTableCart(
+      supabase,
+      table.id,
+      request.headers.get(DINER_TOKEN_HEADER)
+    )
+
+    return NextResponse.json({
+      data: { cart, lines, diner_token }
+    })
+  } catch (error) {
+    return apiErrorResponse(error, 'joining table cart')
+  }
+}
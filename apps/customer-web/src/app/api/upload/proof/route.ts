@@ -1,6 +1,8 @@
-import { NextRequest, NextResponse } from 'next/server'
+import { NextRequest, NextResponse, after } from 'next/server'
 import { createClient } from '@supabase/supabase-js'
 import type { Database } from '@/types/database'
+import { recordProofFingerprint } from '@/lib/payments/proofFingerprint'
+import { attachBillShareProof } from '@/lib/payments/billShares'
 
 // Initialize Supabase client with service role key for admin operations
 const supabase = createClient<Database>(
@@ -54,7 +56,7 @@ export async function POST(request: NextRequest) {
     // Validate that the order and payment exist
     const { data: transaction, error: transactionError } = await supabase
       .from('payment_transactions')
-      .select('id, order_id, status')
+      .select('id, order_id, status, bill_share_id')
       .eq('id', paymentId)
       .eq('order_id', orderId)
       .single()
@@ -118,20 +120,69 @@ export async function POST(request: NextRequest) {
       // Continue anyway since file is already uploaded
     }
 
-    // Also update the orders table with payment proof URL (session_id should already be set during order creation)
-    const { error: updateOrderError } = await supabase
-      .from('orders')
-      .update({
-        payment_proof_url: publicUrl,
-        payment_status: 'pending'
+    // Fingerprint the proof for duplicate detection. Matches are only shown to
+    // the kasir, the customer gets the same response either way. Done before
+    // the order update below, whose realtime event refreshes the kasir queue.
+    try {
+      const duplicate = await recordProofFingerprint(supabase, {
+        orderId,
+        paymentId,
+        proofUrl: publicUrl,
+        bytes: new Uint8Array(arrayBuffer)
       })
-      .eq('id', orderId)
 
-    if (updateOrderError) {
-      console.error('Error updating order with proof:', updateOrderError)
-      // Continue anyway since file is already uploaded
+      if (duplicate) {
+        console.warn('Payment proof matches another order:', {
+          orderId,
+          matchedOrderId: duplicate.order_id,
+          matchType: duplicate.match_type
+        })
+      }
+    } catch (fingerprintError) {
+      console.error('Error fingerprinting payment proof:', fingerprintError)
+      // Continue anyway, verification falls back to the edge function check
     }
 
+    // A share of a split bill keeps its own proof; the order follows its shares
+    const billShareId = (transaction as any).bill_share_id as string | null
+    if (billShareId) {
+      await attachBillShareProof(supabase, billShareId, publicUrl)
+    } else {
+      // Also update the orders table with payment proof URL (session_id should already be set during order creation)
+      const { error: updateOrderError } = await supabase
+        .from('orders')
+        .update({
+          payment_proof_url: publicUrl,
+          payment_status: 'pending'
+        })
+        .eq('id', orderId)
+
+      if (updateOrderError) {
+        console.error('Error updating order with proof:', updateOrderError)
+        // Continue anyway since file is already uploaded
+      }
+    }
+
+    // Read the amount off the receipt once the customer has their response;
+    // the kasir queue picks up the result through realtime
+    after(async () => {
+      try {
+        const response = await fetch(
+          `${process.env.NEXT_PUBLIC_SUPABASE_URL}/functions/v1/payment-verification/scan-receipt/${paymentId}`,
+          {
+            method: 'POST',
+            headers: { Authorization: `Bearer ${process.env.SUPABASE_SERVICE_ROLE_KEY}` }
+          }
+        )
+
+        if (!response.ok) {
+          console.error('Receipt scan failed:', response.status, await response.text())
+        }
+      } catch (scanError) {
+        console.error('Error requesting receipt scan:', scanError)
+      }
+    })
+
     console.log('Upload proof completed successfully')
 
     return NextResponse.json({
@@ -60,7 +60,8 @@ export default function CartSummary({
     items: storeItems, 
     updateQuantity, 
     removeItem,
-    getCartSummary 
+    getCartSummary,
+    isOwnItem
   } = useCartStore()
   
   // Use prop items or store items
@@ -92,7 +93,7 @@ export default function CartSummary({
 
   // Handle quantity update
   const handleQuantityUpdate = (item: CartItem, newQuantity: number) => {
-    if (!showActions) return
+    if (!showActions || !isOwnItem(item)) return
     
     if (newQuantity <= 0) {
       removeItem(item.id, item.customizations)
@@ -103,7 +104,7 @@ export default function CartSummary({
 
   // Handle item removal
   const handleRemoveItem = (item: CartItem) => {
-    if (!showActions) return
+    if (!showActions || !isOwnItem(item)) return
     removeItem(item.id, item.customizations)
   }
 
@@ -166,133 +167,147 @@ export default function CartSummary({
       {/* Items List */}
       {isExpanded && (
         <div className="divide-y divide-gray-100">
-          {items.map((item, index) => (
-            <div key={`${item.id}-${JSON.stringify(item.customizations)}`} className="p-4">
-              <div className="flex space-x-3">
-                {/* Item Image */}
-                <div className="flex-shrink-0">
-                  <div className="w-16 h-16 rounded-lg overflow-hidden bg-gray-100 relative">
-                    {item.image_url ? (
-                      <Image
-                        src={item.image_url}
-                        alt={item.name}
-                        fill
-                        className="object-cover"
-                        sizes="64px"
-                      />
-                    ) : (
-                      <div className="w-full h-full flex items-center justify-center text-gray-500">
-                        <svg className="w-6 h-6" fill="currentColor" viewBox="0 0 20 20">
-                          <path fillRule="evenodd" d="M4 3a2 2 0 00-2 2v10a2 2 0 002 2h12a2 2 0 002-2V5a2 2 0 00-2-2H4zm12 12H4l4-8 3 6 2-4 3 6z" clipRule="evenodd" />
-                        </svg>
-                      </div>
-                    )}
+          {items.map((item, index) => {
+            // On a shared table cart only the diner's own lines are editable
+            const canEdit = showActions && isOwnItem(item)
+
+            return (
+              <div key={item.line_id || `${item.id}-${JSON.stringify(item.customizations)}`} className="p-4">
+                <div className="flex space-x-3">
+                  {/* Item Image */}
+                  <div className="flex-shrink-0">
+                    <div className="w-16 h-16 rounded-lg overflow-hidden bg-gray-100 relative">
+                      {item.image_url ? (
+                        <Image
+                          src={item.image_url}
+                          alt={item.name}
+                          fill
+                          className="object-cover"
+                          sizes="64px"
+                        />
+                      ) : (
+                        <div className="w-full h-full flex items-center justify-center text-gray-500">
+                          <svg className="w-6 h-6" fill="currentColor" viewBox="0 0 20 20">
+                            <path fillRule="evenodd" d="M4 3a2 2 0 00-2 2v10a2 2 0 002 2h12a2 2 0 002-2V5a2 2 0 00-2-2H4zm12 12H4l4-8 3 6 2-4 3 6z" clipRule="evenodd" />
+                          </svg>
+                        </div>
+                      )}
+                    </div>
                   </div>
-                </div>
 
-                {/* Item Details */}
-                <div className="flex-1 min-w-0">
-                  <div className="flex items-start justify-between">
-                    <div className="flex-1 min-w-0">
-                      <h4 className="text-base font-medium text-gray-900 truncate">
-                        {item.name}
-                      </h4>
+                  {/* Item Details */}
+                  <div className="flex-1 min-w-0">
+                    <div className="flex items-start justify-between">
+                      <div className="flex-1 min-w-0">
+                        <h4 className="text-base font-medium text-gray-900 truncate">
+                          {item.name}
+                        </h4>
+
+                        {/* Diner who added the line (shared table cart) */}
+                        {item.diner_name && (
+                          <span className={`inline-block text-xs font-medium rounded-full px-2 py-0.5 mt-1 ${
+                            isOwnItem(item) ? 'bg-blue-50 text-blue-700' : 'bg-gray-100 text-gray-600'
+                          }`}>
+                            {isOwnItem(item) ? `${item.diner_name} (Anda)` : item.diner_name}
+                          </span>
+                        )}
                       
-                      {/* Customizations */}
-                      {formatCustomizations(item.customizations) && (
-                        <p className="text-sm text-gray-600 mt-1 line-clamp-2">
-                          {formatCustomizations(item.customizations)}
-                        </p>
-                      )}
+                        {/* Customizations */}
+                        {formatCustomizations(item.customizations) && (
+                          <p className="text-sm text-gray-600 mt-1 line-clamp-2">
+                            {formatCustomizations(item.customizations)}
+                          </p>
+                        )}
                       
-                      {/* Notes */}
-                      {item.notes && (
-                        <p className="text-sm text-gray-500 italic mt-1">
-                          "{item.notes}"
-                        </p>
-                      )}
+                        {/* Notes */}
+                        {item.notes && (
+                          <p className="text-sm text-gray-500 italic mt-1">
+                            "{item.notes}"
+                          </p>
+                        )}
                       
-                      {/* Preparation time */}
-                      <div className="flex items-center space-x-1 mt-2">
-                        <Clock className="h-3 w-3 text-gray-500" />
-                        <span className="text-xs text-gray-500">
-                          {item.preparation_time} menit
-                        </span>
+                        {/* Preparation time */}
+                        <div className="flex items-center space-x-1 mt-2">
+                          <Clock className="h-3 w-3 text-gray-500" />
+                          <span className="text-xs text-gray-500">
+                            {item.preparation_time} menit
+                          </span>
+                        </div>
                       </div>
-                    </div>
 
-                    {/* Actions */}
-                    {showActions && (
-                      <div className="flex items-center space-x-1 ml-2">
-                        {onItemEdit && (
+                      {/* Actions */}
+                      {canEdit && (
+                        <div className="flex items-center space-x-1 ml-2">
+                          {onItemEdit && (
+                            <button
+                              onClick={() => onItemEdit(item)}
+                              className="p-2 text-gray-500 hover:text-blue-600 hover:bg-blue-50 rounded-lg transition-colors"
+                              title="Edit item"
+                            >
+                              <Edit2 className="h-4 w-4" />
+                            </button>
+                          )}
+                        
                           <button
-                            onClick={() => onItemEdit(item)}
-                            className="p-2 text-gray-500 hover:text-blue-600 hover:bg-blue-50 rounded-lg transition-colors"
-                            title="Edit item"
+                            onClick={() => handleRemoveItem(item)}
+                            className="p-2 text-gray-500 hover:text-red-600 hover:bg-red-50 rounded-lg transition-colors"
+                            title="Hapus item"
                           >
-                            <Edit2 className="h-4 w-4" />
+                            <Trash2 className="h-4 w-4" />
                           </button>
-                        )}
-                        
-                        <button
-                          onClick={() => handleRemoveItem(item)}
-                          className="p-2 text-gray-500 hover:text-red-600 hover:bg-red-50 rounded-lg transition-colors"
-                          title="Hapus item"
-                        >
-                          <Trash2 className="h-4 w-4" />
-                        </button>
-                      </div>
-                    )}
-                  </div>
-
-                  {/* Price and Quantity */}
-                  <div className="flex items-center justify-between mt-3">
-                    {/* Price */}
-                    <div className="flex items-center space-x-2">
-                      <span className="text-lg font-bold text-gray-900">
-                        Rp {(item.price * item.quantity).toLocaleString('id-ID')}
-                      </span>
-                      {item.quantity > 1 && (
-                        <span className="text-sm text-gray-500">
-                          ({item.quantity} × Rp {item.price.toLocaleString('id-ID')})
-                        </span>
+                        </div>
                       )}
                     </div>
 
-                    {/* Quantity Controls */}
-                    {showActions && (
+                    {/* Price and Quantity */}
+                    <div className="flex items-center justify-between mt-3">
+                      {/* Price */}
                       <div className="flex items-center space-x-2">
-                        <button
-                          onClick={() => handleQuantityUpdate(item, item.quantity - 1)}
-                          className="w-8 h-8 rounded-full bg-gray-100 flex items-center justify-center hover:bg-gray-200 transition-colors"
-                        >
-                          <Minus className="h-4 w-4 text-gray-600" />
-                        </button>
-                        
-                        <span className="text-sm font-medium text-gray-900 min-w-[24px] text-center">
-                          {item.quantity}
+                        <span className="text-lg font-bold text-gray-900">
+                          Rp {(item.price * item.quantity).toLocaleString('id-ID')}
                         </span>
-                        
-                        <button
-                          onClick={() => handleQuantityUpdate(item, item.quantity + 1)}
-                          className="w-8 h-8 rounded-full bg-blue-600 flex items-center justify-center hover:bg-blue-700 transition-colors"
-                        >
-                          <Plus className="h-4 w-4 text-white" />
-                        </button>
+                        {item.quantity > 1 && (
+                          <span className="text-sm text-gray-500">
+                            ({item.quantity} × Rp {item.price.toLocaleString('id-ID')})
+                          </span>
+                        )}
                       </div>
-                    )}
 
-                    {/* Read-only quantity for non-interactive mode */}
-                    {!showActions && (
-                      <div className="text-sm text-gray-600">
-                        Qty: {item.quantity}
-                      </div>
-                    )}
+                      {/* Quantity Controls */}
+                      {canEdit && (
+                        <div className="flex items-center space-x-2">
+                          <button
+                            onClick={() => handleQuantityUpdate(item, item.quantity - 1)}
+                            className="w-8 h-8 rounded-full bg-gray-100 flex items-center justify-center hover:bg-gray-200 transition-colors"
+                          >
+                            <Minus className="h-4 w-4 text-gray-600" />
+                          </button>
+                        
+                          <span className="text-sm font-medium text-gray-900 min-w-[24px] text-center">
+                            {item.quantity}
+                          </span>
+                        
+                          <button
+                            onClick={() => handleQuantityUpdate(item, item.quantity + 1)}
+                            className="w-8 h-8 rounded-full bg-blue-600 flex items-center justify-center hover:bg-blue-700 transition-colors"
+                          >
+                            <Plus className="h-4 w-4 text-white" />
+                          </button>
+                        </div>
+                      )}
+
+                      {/* Read-only quantity for non-interactive mode and other diners' lines */}
+                      {!canEdit && (
+                        <div className="text-sm text-gray-600">
+                          Qty: {item.quantity}
+                        </div>
+                      )}
+                    </div>
                   </div>
                 </div>
               </div>
-            </div>
-          ))}
+            )
+          })}
         </div>
       )}
 
@@ -465,12 +480,17 @@ export function CheckoutSummary({ className = '' }: CheckoutSummaryProps) {
       {/* Items List */}
       <div className="space-y-2 mb-4">
         {items.map((item, index) => (
-          <div key={`${item.id}-${JSON.stringify(item.customizations)}`} 
+          <div key={item.line_id || `${item.id}-${JSON.stringify(item.customizations)}`} 
                className="flex justify-between items-center text-sm">
             <div className="flex-1 min-w-0">
               <div className="font-medium text-gray-900 truncate">
                 {item.quantity}× {item.name}
               </div>
+              {item.diner_name && (
+                <div className="text-gray-500 text-xs truncate">
+                  {item.diner_name}
+                </div>
+              )}
               {formatCustomizations(item.customizations) && (
                 <div className="text-gray-600 text-xs truncate">
                   {formatCustomizations(item.customizations)}
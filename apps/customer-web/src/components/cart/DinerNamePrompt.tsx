@@ -0,0 +1,60 @@
+'use client'
+
+import { useState } from 'react'
+import { Users } from 'lucide-react'
+
+interface DinerNamePromptProps {
+  defaultName?: string
+  onSubmit: (name: string) => void
+}
+
+const MAX_NAME_LENGTH = 30
+
+/**
+ * Asks for the name shown on this diner's items in the shared table cart
+ */
+export default function DinerNamePrompt({ defaultName = '', onSubmit }: DinerNamePromptProps) {
+  const [name, setName] = useState(defaultName)
+  const trimmed = name.trim()
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault()
+    if (trimmed) onSubmit(trimmed)
+  }
+
+  return (
+    <div className="fixed inset-0 z-50 bg-white/20 backdrop-blur-sm flex items-end justify-center p-4">
+      <form
+        onSubmit={handleSubmit}
+        className="bg-white rounded-t-xl w-full max-w-lg shadow-lg p-6"
+      >
+        <div className="flex items-center space-x-2 mb-2">
+          <Users className="h-5 w-5 text-blue-600" />
+          <h3 className="text-lg font-semibold text-gray-900">
+            Pesan Bersama Satu Meja
+          </h3>
+        </div>
+        <p className="text-sm text-gray-600 mb-4">
+          Semua tamu yang memindai QR meja ini berbagi satu keranjang. Masukkan nama Anda agar item Anda mudah dikenali.
+        </p>
+
+        <input
+          type="text"
+          value={name}
+          onChange={(e) => setName(e.target.value.slice(0, MAX_NAME_LENGTH))}
+          placeholder="Nama Anda"
+          autoFocus
+          className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent mb-4"
+        />
+
+        <button
+          type="submit"
+          disabled={!trimmed}
+          className="w-full py-3 bg-blue-600 text-white rounded-lg font-semibold hover:bg-blue-700 transition-colors disabled:bg-gray-300 disabled:cursor-not-allowed"
+        >
+          Gabung ke Keranjang Meja
+        </button>
+      </form>
+    </div>
+  )
+}
@@ -0,0 +1,155 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import { Award, Check, Loader2, Clock } from 'lucide-react'
+import apiClient from '@/lib/api/client'
+import type { LoyaltyBalance } from '@/lib/pricing/loyalty'
+import {
+  calculateEarnedPoints,
+  maxRedeemablePoints,
+  type LoyaltyRedemption,
+  type LoyaltyRules
+} from '@cafe/utils/calculations/loyalty'
+
+// Types
+interface LoyaltyPointsProps {
+  phone: string
+  eligibleAmount: number // subtotal after promo discounts
+  onRedemptionChange: (redemption: LoyaltyRedemption | null) => void
+  className?: string
+}
+
+type LoyaltyLookup = LoyaltyBalance & { rules: LoyaltyRules }
+
+const PHONE_PATTERN = /^(\+62|62|0)[0-9]{9,12}$/
+
+export default function LoyaltyPoints({
+  phone,
+  eligibleAmount,
+  onRedemptionChange,
+  className = ''
+}: LoyaltyPointsProps) {
+  const [lookup, setLookup] = useState<LoyaltyLookup | null>(null)
+  const [isLoading, setIsLoading] = useState(false)
+  const [useRedemption, setUseRedemption] = useState(false)
+
+  const normalizedPhone = phone.replace(/\s+/g, '')
+  const isValidPhone = PHONE_PATTERN.test(normalizedPhone)
+
+  // Look the balance up once the customer has finished typing the number
+  useEffect(() => {
+    setLookup(null)
+    setUseRedemption(false)
+
+    if (!isValidPhone) return
+
+    let cancelled = false
+    const timer = setTimeout(async () => {
+      setIsLoading(true)
+      try {
+        const response = await apiClient.getLoyaltyBalance(normalizedPhone)
+        const data = (response.data as any)?.data
+        if (!cancelled && data) {
+          setLookup(data)
+        }
+      } catch (error) {
+        console.error('Error loading loyalty points:', error)
+      } finally {
+        if (!cancelled) setIsLoading(false)
+      }
+    }, 500)
+
+    return () => {
+      cancelled = true
+      clearTimeout(timer)
+    }
+  }, [normalizedPhone, isValidPhone])
+
+  const redeemablePoints = lookup
+    ? maxRedeemablePoints(lookup.balance, eligibleAmount, lookup.rules)
+    : 0
+  const redemption: LoyaltyRedemption | null = lookup && useRedemption && redeemablePoints > 0
+    ? { points: redeemablePoints, discount_amount: redeemablePoints * lookup.rules.point_value }
+    : null
+
+  // Keep the checkout totals in step with what is redeemed
+  useEffect(() => {
+    onRedemptionChange(redemption)
+  }, [redemption?.points, redemption?.discount_amount])
+
+  if (!isValidPhone || (!isLoading && (!lookup || !lookup.rules.enabled))) {
+    return null
+  }
+
+  const earnedPoints = lookup
+    ? calculateEarnedPoints(eligibleAmount - (redemption?.discount_amount || 0), lookup.rules)
+    : 0
+
+  return (
+    <div className={`bg-white rounded-lg shadow-sm border border-gray-200 ${className}`}>
+      <div className="p-4">
+        <h3 className="text-base font-semibold text-gray-900 flex items-center space-x-2 mb-3">
+          <Award className="h-5 w-5" />
+          <span>Poin Loyalitas</span>
+        </h3>
+
+        {isLoading || !lookup ? (
+          <div className="flex items-center space-x-2 text-sm text-gray-600">
+            <Loader2 className="h-4 w-4 animate-spin" />
+            <span>Memeriksa poin...</span>
+          </div>
+        ) : (
+          <div className="space-y-3">
+            <div className="flex items-center justify-between text-sm">
+              <span className="text-gray-600">Saldo poin</span>
+              <span className="font-semibold text-gray-900">
+                {lookup.balance.toLocaleString('id-ID')} poin
+              </span>
+            </div>
+
+            {lookup.expiring_at && lookup.expiring_points > 0 && (
+              <div className="flex items-center space-x-1 text-xs text-orange-600">
+                <Clock className="h-3 w-3" />
+                <span>
+                  {lookup.expiring_points.toLocaleString('id-ID')} poin kedaluwarsa{' '}
+                  {new Date(lookup.expiring_at).toLocaleDateString('id-ID', { day: 'numeric', month: 'long', year: 'numeric' })}
+                </span>
+              </div>
+            )}
+
+            {redeemablePoints > 0 ? (
+              <label className="flex items-start space-x-3 cursor-pointer bg-blue-50 border border-blue-200 rounded-lg p-3">
+                <input
+                  type="checkbox"
+                  checked={useRedemption}
+                  onChange={(e) => setUseRedemption(e.target.checked)}
+                  className="w-4 h-4 text-blue-600 border-gray-300 rounded focus:ring-blue-500 mt-0.5"
+                />
+                <div className="text-sm">
+                  <div className="font-medium text-blue-900">
+                    Tukar {redeemablePoints.toLocaleString('id-ID')} poin
+                  </div>
+                  <div className="text-blue-700">
+                    Hemat Rp {(redeemablePoints * lookup.rules.point_value).toLocaleString('id-ID')}
+                  </div>
+                </div>
+                {useRedemption && <Check className="h-4 w-4 text-blue-600 ml-auto" />}
+              </label>
+            ) : (
+              <p className="text-xs text-gray-500">
+                Poin bisa ditukar mulai {lookup.rules.min_redeem_points.toLocaleString('id-ID')} poin
+                (1 poin = Rp {lookup.rules.point_value.toLocaleString('id-ID')})
+              </p>
+            )}
+
+            {earnedPoints > 0 && (
+              <p className="text-xs text-green-700">
+                Dapatkan {earnedPoints.toLocaleString('id-ID')} poin setelah pesanan selesai
+              </p>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -65,7 +65,7 @@ export default function PromoCode({
   className = ''
 }: PromoCodeProps) {
   // Cart store
-  const { appliedPromo, applyPromo, removePromo } = useCartStore()
+  const { items, appliedPromo, applyPromo, removePromo } = useCartStore()
 
   // State management
   const [promoCode, setPromoCode] = useState('')
@@ -131,85 +131,6 @@ export default function PromoCode({
     }
   }
 
-  // Local mock promo validation (fallback)
-  const validatePromoCodeLocal = (code: string): PromoValidationResponse | null => {
-    const mockPromos: Record<string, any> = {
-      'WELCOME10': {
-        code: 'WELCOME10',
-        name: 'Selamat Datang',
-        description: 'Diskon 10% untuk pelanggan baru',
-        discount_type: 'percentage',
-        discount_value: 10,
-        minimum_order: 0,
-        maximum_discount: 50000,
-        terms_conditions: ['Berlaku untuk pemesanan pertama', 'Tidak dapat digabung dengan promo lain']
-      },
-      'HEMAT25': {
-        code: 'HEMAT25',
-        name: 'Hemat Istimewa',
-        description: 'Diskon Rp 25.000 min. pembelian Rp 100.000',
-        discount_type: 'fixed',
-        discount_value: 25000,
-        minimum_order: 100000,
-        terms_conditions: ['Minimum pembelian Rp 100.000', 'Berlaku untuk semua menu']
-      },
-      'MAKAN15': {
-        code: 'MAKAN15',
-        name: 'Makan Hemat',
-        description: 'Diskon 15% min. pembelian Rp 50.000',
-        discount_type: 'percentage',
-        discount_value: 15,
-        minimum_order: 50000,
-        maximum_discount: 75000,
-        terms_conditions: ['Minimum pembelian Rp 50.000', 'Maksimal diskon Rp 75.000']
-      }
-    }
-
-    const promo = mockPromos[code]
-    if (!promo) {
-      return {
-        valid: false,
-        message: 'Kode promo tidak ditemukan',
-        discount_amount: 0,
-        final_total: orderTotal
-      }
-    }
-
-    if (orderTotal < promo.minimum_order) {
-      return {
-        valid: false,
-        message: `Minimum pemesanan Rp ${promo.minimum_order.toLocaleString('id-ID')}`,
-        discount_amount: 0,
-        final_total: orderTotal
-      }
-    }
-
-    let discount_amount = 0
-    if (promo.discount_type === 'percentage') {
-      discount_amount = Math.round(orderTotal * (promo.discount_value / 100))
-      if (promo.maximum_discount && discount_amount > promo.maximum_discount) {
-        discount_amount = promo.maximum_discount
-      }
-    } else {
-      discount_amount = promo.discount_value
-      if (discount_amount > orderTotal) {
-        discount_amount = orderTotal
-      }
-    }
-
-    return {
-      valid: true,
-      message: `Promo ${promo.name} berhasil diterapkan!`,
-      discount_amount,
-      final_total: Math.max(0, orderTotal - discount_amount),
-      promo_data: {
-        ...promo,
-        discount_amount,
-        valid_until: '2024-12-31T23:59:59.000Z'
-      }
-    }
-  }
-
   // Validate promo code with database
   const validatePromoCode = async (code: string) => {
     if (!code.trim()) {
@@ -223,50 +144,28 @@ export default function PromoCode({
 
       const promoCode = code.trim().toUpperCase()
 
-      // Get promo details from database
-      const response = await apiClient.validatePromoCode(promoCode, orderTotal)
+      // The server prices the cart and runs the promo engine (scope, schedule, limits)
+      const response = await apiClient.validatePromoCode(
+        promoCode,
+        orderTotal,
+        items.map(item => ({
+          menu_item_id: item.id,
+          quantity: item.quantity,
+          customizations: item.customizations
+        }))
+      )
 
       if (response.error) {
         throw new Error(response.error.message || 'Kode promo tidak valid')
       }
 
-      // Handle nested response structure for validation too
       const actualPromoData = response.data.data || response.data
       if (!actualPromoData) {
         throw new Error('Kode promo tidak ditemukan')
       }
 
-      // Debug promo data
-      console.log('Raw promo data received:', response.data)
-      console.log('Actual promo data:', actualPromoData)
-      console.log('Order total:', orderTotal)
-
-      // Calculate discount based on promo type
-      let discount_amount = 0
       const discountValue = Number(actualPromoData.discount_value)
-
-      console.log('Promo type:', actualPromoData.promo_type)
-      console.log('Discount value:', discountValue)
-
-      if (actualPromoData.promo_type === 'percentage') {
-        discount_amount = Math.round(orderTotal * (discountValue / 100))
-        console.log('Percentage calculation:', orderTotal, '*', discountValue / 100, '=', discount_amount)
-
-        if (actualPromoData.max_discount_amount && discount_amount > Number(actualPromoData.max_discount_amount)) {
-          discount_amount = Number(actualPromoData.max_discount_amount)
-          console.log('Applied max discount cap:', discount_amount)
-        }
-      } else if (actualPromoData.promo_type === 'fixed_amount') {
-        discount_amount = discountValue
-        console.log('Fixed amount discount:', discount_amount)
-
-        if (discount_amount > orderTotal) {
-          discount_amount = orderTotal
-          console.log('Capped to order total:', discount_amount)
-        }
-      }
-
-      console.log('Final discount amount:', discount_amount)
+      const discount_amount = Number(actualPromoData.discount_amount) || 0
 
       // Create promo data for cart store
       const promoForCart: PromoData = {
@@ -278,13 +177,16 @@ export default function PromoCode({
         discount_amount,
         minimum_order: Number(actualPromoData.min_purchase_amount || 0),
         maximum_discount: actualPromoData.max_discount_amount ? Number(actualPromoData.max_discount_amount) : undefined,
-        valid_until: new Date(Date.now() + 30 * 24 * 60 * 60 * 1000).toISOString(), // 30 days from now
+        valid_until: actualPromoData.valid_until || new Date(Date.now() + 30 * 24 * 60 * 60 * 1000).toISOString(),
         usage_limit: actualPromoData.max_uses_total ? Number(actualPromoData.max_uses_total) : undefined,
         usage_count: actualPromoData.current_uses ? Number(actualPromoData.current_uses) : 0,
         terms_conditions: [
           actualPromoData.min_purchase_amount ? `Minimum pembelian Rp ${Number(actualPromoData.min_purchase_amount).toLocaleString('id-ID')}` : '',
           actualPromoData.max_discount_amount ? `Maksimal diskon Rp ${Number(actualPromoData.max_discount_amount).toLocaleString('id-ID')}` : '',
-          'Tidak dapat digabung dengan promo lain'
+          actualPromoData.valid_from_time || actualPromoData.valid_until_time
+            ? `Berlaku pukul ${actualPromoData.valid_from_time?.slice(0, 5) || '00:00'}–${actualPromoData.valid_until_time?.slice(0, 5) || '24:00'}`
+            : '',
+          actualPromoData.is_stackable ? '' : 'Tidak dapat digabung dengan promo lain'
         ].filter(Boolean)
       }
 
@@ -23,6 +23,9 @@ import apiClient from '@/lib/api/client'
 // Types
 import type { MenuItem, MenuCustomization, CustomizationOption } from '@/types/menu'
 
+// Show the remaining portions once stock gets this low
+const LOW_PORTIONS_THRESHOLD = 5
+
 interface MenuCardProps {
   item: MenuItem
   tableId: string
@@ -314,10 +317,12 @@ export default function MenuCard({ item, tableId }: MenuCardProps) {
                     )}
                     
                     {/* Stock warning */}
-                    {!item.ingredients_available && (
+                    {item.ingredients_available &&
+                      item.available_portions != null &&
+                      item.available_portions <= LOW_PORTIONS_THRESHOLD && (
                       <div className="flex items-center space-x-1 text-xs text-orange-600">
                         <AlertTriangle className="h-3 w-3" />
-                        <span>Stok terbatas</span>
+                        <span>Sisa {item.available_portions} porsi</span>
                       </div>
                     )}
                   </div>
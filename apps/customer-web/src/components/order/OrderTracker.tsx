@@ -15,6 +15,7 @@ import {
 import { OrderTimeline } from './OrderTimeline'
 import { RatingForm } from './RatingForm'
 import { useOrderStatus } from '@/hooks/useOrderStatus'
+import { useOrderEta } from '@/hooks/useKitchenQueue'
 
 // Types
 interface OrderStatus {
@@ -117,7 +118,6 @@ export function OrderTracker({
   className = '' 
 }: OrderTrackerProps) {
   const [showRatingForm, setShowRatingForm] = useState(false)
-  const [estimatedTime, setEstimatedTime] = useState<number | null>(null)
   
   const { 
     order, 
@@ -126,25 +126,9 @@ export function OrderTracker({
     refreshOrder 
   } = useOrderStatus(orderId)
 
-  // Calculate estimated completion time
-  useEffect(() => {
-    if (order?.status === 'preparing' && order.preparation_time) {
-      const prepTime = order.preparation_time * 60 * 1000 // Convert to milliseconds
-      const startTime = new Date(order.updated_at).getTime()
-      const completionTime = startTime + prepTime
-      const remainingTime = Math.max(0, completionTime - Date.now())
-      
-      setEstimatedTime(Math.ceil(remainingTime / (60 * 1000))) // Convert to minutes
-      
-      // Update every minute
-      const interval = setInterval(() => {
-        const newRemainingTime = Math.max(0, completionTime - Date.now())
-        setEstimatedTime(Math.ceil(newRemainingTime / (60 * 1000)))
-      }, 60000)
-      
-      return () => clearInterval(interval)
-    }
-  }, [order])
+  // Queue-aware, re-estimated as orders ahead are bumped
+  const inKitchen = order?.status === 'confirmed' || order?.status === 'preparing'
+  const { eta, minutes: estimatedTime } = useOrderEta(orderId, inKitchen)
 
   // Auto-refresh order status
   useEffect(() => {
@@ -207,7 +191,7 @@ export function OrderTracker({
             </p>
             
             {/* Estimated Time */}
-            {order.status === 'preparing' && estimatedTime !== null && (
+            {inKitchen && estimatedTime !== null && (
               <div className="flex items-center gap-2 text-sm">
                 <Clock className="w-4 h-4 text-orange-600" />
                 <span className="font-medium text-gray-900">
@@ -215,6 +199,18 @@ export function OrderTracker({
                 </span>
               </div>
             )}
+
+            {/* Queue Position */}
+            {inKitchen && eta && (
+              <div className="flex items-center gap-2 text-sm mt-1">
+                <ChefHat className="w-4 h-4 text-orange-600" />
+                <span className="text-gray-700">
+                  {eta.orders_ahead > 0
+                    ? `Antrean ke-${eta.queue_position}, ${eta.orders_ahead} pesanan di depan Anda`
+                    : 'Pesanan Anda berikutnya di dapur'}
+                </span>
+              </div>
+            )}
             
             {/* Payment Status for Pending Orders */}
             {order.status === 'pending' && (
@@ -235,7 +231,7 @@ export function OrderTracker({
         paymentStatus={order.payment_status}
         createdAt={order.created_at}
         updatedAt={order.updated_at}
-        estimatedCompletion={order.estimated_completion}
+        estimatedCompletion={eta?.ready_at || order.estimated_completion}
       />
 
       {/* Order Summary */}
@@ -202,7 +202,10 @@ export default function ProofUpload({
         canvas.width = width
         canvas.height = height
 
-        // Draw and compress
+        // Draw and compress. Always JPEG so the server can fingerprint the
+        // proof for duplicate detection, on white in case of transparency
+        ctx.fillStyle = '#ffffff'
+        ctx.fillRect(0, 0, width, height)
         ctx.drawImage(img, 0, 0, width, height)
         canvas.toBlob((blob) => {
           if (blob) {
@@ -210,7 +213,7 @@ export default function ProofUpload({
           } else {
             reject(new Error('Failed to compress image'))
           }
-        }, file.type, quality)
+        }, 'image/jpeg', quality)
         
         // Clean up
         URL.revokeObjectURL(img.src)
@@ -230,8 +233,8 @@ export default function ProofUpload({
     try {
       // Compress image first
       const compressedBlob = await compressImage(file, compressionQuality)
-      const compressedFile = new File([compressedBlob], file.name, {
-        type: file.type,
+      const compressedFile = new File([compressedBlob], file.name.replace(/\.[^.]+$/, '') + '.jpg', {
+        type: 'image/jpeg',
         lastModified: Date.now()
       })
 
@@ -1,6 +1,6 @@
 'use client'
 
-import { useState } from 'react'
+import { useMemo, useState } from 'react'
 import Image from 'next/image'
 import { 
   QrCode,
@@ -13,9 +13,12 @@ import {
   Camera
 } from 'lucide-react'
 import { toast } from 'sonner'
+import { getQRISMerchantInfo } from '@cafe/utils/payments/qris'
+import { renderQRCodeDataURL } from '@cafe/utils/payments/qr-code'
 
 // Types
 interface QRISDisplayProps {
+  qrPayload: string // dynamic QRIS from the payments API
   amount: number
   orderNumber: string
   onPaymentProof: (file: File) => void
@@ -30,6 +33,7 @@ interface QRISInfo {
 }
 
 export default function QRISDisplay({
+  qrPayload,
   amount,
   orderNumber,
   onPaymentProof,
@@ -40,13 +44,24 @@ export default function QRISDisplay({
   const [qrImageLoaded, setQrImageLoaded] = useState(false)
   const [showFullInstructions, setShowFullInstructions] = useState(false)
 
-  // QRIS merchant info (static dari toko)
-  const qrisInfo: QRISInfo = {
-    merchantName: 'CAFE KITA',
-    merchantCity: 'KENDARI',
-    merchantId: 'ID1234567890123',
-    qrImageUrl: '/images/qris-cafe-kita.png' // QR static dari toko
-  }
+  // QRIS merchant info dibaca dari payload, QR dirender lokal sebagai SVG
+  const qrisInfo: QRISInfo = useMemo(() => {
+    const merchant = getQRISMerchantInfo(qrPayload)
+    let qrImageUrl = ''
+
+    try {
+      qrImageUrl = merchant ? renderQRCodeDataURL(qrPayload, { size: 224 }) : ''
+    } catch (error) {
+      console.error('Error rendering QRIS:', error)
+    }
+
+    return {
+      merchantName: merchant?.merchantName || '-',
+      merchantCity: merchant?.merchantCity || '-',
+      merchantId: merchant?.nmid || '-',
+      qrImageUrl
+    }
+  }, [qrPayload])
 
   // Handle copy amount
   const handleCopyAmount = async () => {
@@ -69,7 +84,7 @@ export default function QRISDisplay({
     try {
       const link = document.createElement('a')
       link.href = qrisInfo.qrImageUrl
-      link.download = `qris-cafe-kita.png`
+      link.download = `qris-${orderNumber}.svg`
       document.body.appendChild(link)
       link.click()
       document.body.removeChild(link)
@@ -124,7 +139,7 @@ export default function QRISDisplay({
     'Buka aplikasi mobile banking atau e-wallet Anda',
     'Pilih menu "Scan QR" atau "QRIS"',
     'Scan QR code yang ditampilkan di atas',
-    'Masukkan nominal pembayaran secara manual',
+    'Pastikan nominal yang muncul sesuai total pembayaran',
     'Konfirmasi pembayaran di aplikasi Anda',
     'Ambil screenshot bukti pembayaran',
     'Upload bukti pembayaran menggunakan tombol di bawah'
@@ -167,18 +182,25 @@ export default function QRISDisplay({
           {/* QR Code Image */}
           <div className="mx-auto w-64 h-64 bg-white border-2 border-gray-200 rounded-lg p-4 relative">
             <div className="relative">
-              <Image
-                src={qrisInfo.qrImageUrl}
-                alt="QRIS QR Code Cafe Kita"
-                width={224}
-                height={224}
-                className="mx-auto"
-                onLoad={() => setQrImageLoaded(true)}
-                onError={() => {
-                  setQrImageLoaded(false)
-                  toast.error('Gagal memuat QR code')
-                }}
-              />
+              {qrisInfo.qrImageUrl ? (
+                <Image
+                  src={qrisInfo.qrImageUrl}
+                  alt={`QRIS ${qrisInfo.merchantName}`}
+                  width={224}
+                  height={224}
+                  className="mx-auto"
+                  unoptimized
+                  onLoad={() => setQrImageLoaded(true)}
+                  onError={() => {
+                    setQrImageLoaded(false)
+                    toast.error('Gagal memuat QR code')
+                  }}
+                />
+              ) : (
+                <div className="w-56 h-56 mx-auto flex items-center justify-center text-sm text-red-600">
+                  QR code tidak valid
+                </div>
+              )}
               
               {/* QR Code Actions */}
               {qrImageLoaded && (
@@ -302,7 +324,7 @@ export default function QRISDisplay({
                   <ul className="space-y-1 text-xs">
                     <li>• Pastikan nominal yang dibayar sesuai dengan yang tertera</li>
                     <li>• Scan QR code dari aplikasi e-wallet atau mobile banking</li>
-                    <li>• Masukkan nominal secara manual sesuai total pembayaran</li>
+                    <li>• Nominal sudah terisi otomatis, jangan ubah nominal pembayaran</li>
                     <li>• Simpan bukti pembayaran untuk konfirmasi</li>
                     <li>• Hubungi kasir jika ada kendala pembayaran</li>
                   </ul>
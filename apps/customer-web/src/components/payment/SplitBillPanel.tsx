@@ -0,0 +1,360 @@
+'use client'
+
+import { useState } from 'react'
+import { Users, Plus, X, Check, Clock, AlertCircle } from 'lucide-react'
+import type { BillShareRow } from '@/lib/payments/billShares'
+import {
+  MIN_BILL_SHARES,
+  MAX_BILL_SHARES,
+  type SplitMethod,
+  type SplitShareInput
+} from '@cafe/utils/calculations/splitBill'
+
+interface SplitOrderItem {
+  id: string
+  item_name: string
+  quantity: number
+  subtotal: number
+}
+
+interface SplitBillPanelProps {
+  orderItems: SplitOrderItem[]
+  orderTotal: number
+  shares: BillShareRow[]
+  selectedShareId: string | null
+  onSelectShare: (shareId: string | null) => void
+  onCreateSplit: (method: SplitMethod, shares: SplitShareInput[]) => Promise<boolean>
+  onCancelSplit: () => Promise<void>
+  isSaving?: boolean
+}
+
+const MAX_PAYER_NAME_LENGTH = 30
+
+const SPLIT_METHODS: Array<{ id: SplitMethod; name: string; description: string }> = [
+  { id: 'equal', name: 'Bagi Rata', description: 'Semua membayar sama besar' },
+  { id: 'items', name: 'Per Item', description: 'Bayar sesuai item yang dipesan' },
+  { id: 'custom', name: 'Nominal Bebas', description: 'Tentukan nominal masing-masing' }
+]
+
+const formatRupiah = (amount: number) => `Rp ${Math.round(amount).toLocaleString('id-ID')}`
+
+const shareStatusLabel: Record<BillShareRow['status'], { label: string; className: string }> = {
+  pending: { label: 'Belum bayar', className: 'bg-gray-100 text-gray-700' },
+  processing: { label: 'Menunggu verifikasi', className: 'bg-yellow-100 text-yellow-800' },
+  verified: { label: 'Lunas', className: 'bg-green-100 text-green-800' },
+  failed: { label: 'Ditolak', className: 'bg-red-100 text-red-700' }
+}
+
+/**
+ * Split the bill between several payers and pick the share this phone pays.
+ * Amounts, tax and service charge per share are computed by the server.
+ */
+export default function SplitBillPanel({
+  orderItems,
+  orderTotal,
+  shares,
+  selectedShareId,
+  onSelectShare,
+  onCreateSplit,
+  onCancelSplit,
+  isSaving = false
+}: SplitBillPanelProps) {
+  const [isEditing, setIsEditing] = useState(false)
+  const [method, setMethod] = useState<SplitMethod>('equal')
+  const [payers, setPayers] = useState<string[]>(['', ''])
+  const [amounts, setAmounts] = useState<string[]>(['', ''])
+  // Payers (by index) who shared each order item
+  const [itemPayers, setItemPayers] = useState<Record<string, number[]>>({})
+
+  const isSplit = shares.length > 0
+  const isLocked = shares.some(share => share.status !== 'pending')
+
+  const customTotal = amounts.reduce((sum, amount) => sum + (Number(amount) || 0), 0)
+  const unassignedItems = orderItems.filter(item => !(itemPayers[item.id]?.length))
+
+  const addPayer = () => {
+    if (payers.length >= MAX_BILL_SHARES) return
+    setPayers([...payers, ''])
+    setAmounts([...amounts, ''])
+  }
+
+  const removePayer = (index: number) => {
+    if (payers.length <= MIN_BILL_SHARES) return
+    setPayers(payers.filter((_, i) => i !== index))
+    setAmounts(amounts.filter((_, i) => i !== index))
+    setItemPayers(Object.fromEntries(
+      Object.entries(itemPayers).map(([itemId, indexes]) => [
+        itemId,
+        indexes.filter(i => i !== index).map(i => (i > index ? i - 1 : i))
+      ])
+    ))
+  }
+
+  const toggleItemPayer = (itemId: string, index: number) => {
+    const current = itemPayers[itemId] || []
+    setItemPayers({
+      ...itemPayers,
+      [itemId]: current.includes(index) ? current.filter(i => i !== index) : [...current, index]
+    })
+  }
+
+  const canSubmit = method === 'custom'
+    ? Math.round(customTotal) === Math.round(orderTotal)
+    : method === 'items'
+      ? unassignedItems.length === 0
+      : true
+
+  const handleSubmit = async () => {
+    const inputs: SplitShareInput[] = payers.map((name, index) => {
+      const input: SplitShareInput = { payer_name: name.trim() || null }
+
+      if (method === 'custom') {
+        input.amount = Number(amounts[index]) || 0
+      }
+
+      if (method === 'items') {
+        // An item shared by several payers is divided equally between them
+        input.items = orderItems
+          .filter(item => itemPayers[item.id]?.includes(index))
+          .map(item => ({
+            order_item_id: item.id,
+            quantity: item.quantity / itemPayers[item.id].length
+          }))
+      }
+
+      return input
+    })
+
+    const created = await onCreateSplit(method, inputs)
+    if (created) setIsEditing(false)
+  }
+
+  // Shares of an existing split
+  if (isSplit && !isEditing) {
+    return (
+      <div className="bg-white rounded-lg shadow-sm border border-gray-200">
+        <div className="p-4 border-b border-gray-200 flex items-center justify-between">
+          <div>
+            <h2 className="text-base font-semibold text-gray-900">Tagihan Dibagi</h2>
+            <p className="text-sm text-gray-600 mt-1">Pilih bagian yang akan Anda bayar</p>
+          </div>
+          {!isLocked && (
+            <div className="flex items-center space-x-3">
+              <button
+                onClick={() => setIsEditing(true)}
+                disabled={isSaving}
+                className="text-sm text-blue-600 hover:text-blue-700 disabled:opacity-50"
+              >
+                Ubah
+              </button>
+              <button
+                onClick={onCancelSplit}
+                disabled={isSaving}
+                className="text-sm text-gray-500 hover:text-gray-700 disabled:opacity-50"
+              >
+                Batal Bagi
+              </button>
+            </div>
+          )}
+        </div>
+
+        <div className="p-4 space-y-3">
+          {shares.map(share => {
+            const status = shareStatusLabel[share.status]
+            const isSelected = selectedShareId === share.id
+            const isPayable = share.status === 'pending' || share.status === 'failed'
+
+            return (
+              <button
+                key={share.id}
+                onClick={() => isPayable && onSelectShare(isSelected ? null : share.id)}
+                disabled={!isPayable}
+                className={`w-full text-left p-4 border rounded-lg transition-all ${
+                  isSelected
+                    ? 'border-blue-500 bg-blue-50'
+                    : isPayable
+                      ? 'border-gray-200 hover:border-gray-300 hover:bg-gray-50'
+                      : 'border-gray-200 bg-gray-50 cursor-default'
+                }`}
+              >
+                <div className="flex items-center justify-between">
+                  <div className="flex items-center space-x-2">
+                    {isSelected && <Check className="h-4 w-4 text-blue-600" />}
+                    <span className="font-medium text-gray-900">{share.payer_name}</span>
+                    <span className={`text-xs px-2 py-0.5 rounded-full ${status.className}`}>
+                      {status.label}
+                    </span>
+                  </div>
+                  <span className="font-semibold text-gray-900">{formatRupiah(share.amount)}</span>
+                </div>
+                <div className="text-xs text-gray-500 mt-2 space-y-0.5">
+                  <div>Subtotal {formatRupiah(share.subtotal)}</div>
+                  {share.discount_amount > 0 && <div>Diskon -{formatRupiah(share.discount_amount)}</div>}
+                  {share.tax_amount > 0 && <div>Pajak {formatRupiah(share.tax_amount)}</div>}
+                  {share.service_charge > 0 && <div>Layanan {formatRupiah(share.service_charge)}</div>}
+                  {share.payment_method && share.status !== 'pending' && (
+                    <div className="uppercase">{share.payment_method}</div>
+                  )}
+                </div>
+              </button>
+            )
+          })}
+
+          <div className="flex items-start space-x-2 text-xs text-gray-600 pt-1">
+            <Clock className="h-4 w-4 flex-shrink-0" />
+            <span>Pesanan diproses setelah semua bagian dikonfirmasi kasir</span>
+          </div>
+        </div>
+      </div>
+    )
+  }
+
+  if (!isEditing) {
+    return (
+      <button
+        onClick={() => setIsEditing(true)}
+        className="w-full bg-white rounded-lg shadow-sm border border-gray-200 p-4 flex items-center space-x-3 hover:bg-gray-50 transition-colors"
+      >
+        <div className="p-2 rounded-lg bg-gray-100 text-gray-600">
+          <Users className="h-6 w-6" />
+        </div>
+        <div className="text-left">
+          <h2 className="font-medium text-gray-900">Bagi Tagihan</h2>
+          <p className="text-sm text-gray-600">Bayar terpisah dengan teman semeja</p>
+        </div>
+      </button>
+    )
+  }
+
+  // Split setup
+  return (
+    <div className="bg-white rounded-lg shadow-sm border border-gray-200">
+      <div className="p-4 border-b border-gray-200 flex items-center justify-between">
+        <h2 className="text-base font-semibold text-gray-900">Bagi Tagihan</h2>
+        <button
+          onClick={() => setIsEditing(false)}
+          className="p-1 hover:bg-gray-100 rounded-lg transition-colors"
+        >
+          <X className="h-5 w-5 text-gray-500" />
+        </button>
+      </div>
+
+      <div className="p-4 space-y-4">
+        {/* Method */}
+        <div className="grid grid-cols-3 gap-2">
+          {SPLIT_METHODS.map(option => (
+            <button
+              key={option.id}
+              onClick={() => setMethod(option.id)}
+              className={`p-2 border rounded-lg text-center transition-all ${
+                method === option.id ? 'border-blue-500 bg-blue-50' : 'border-gray-200 hover:bg-gray-50'
+              }`}
+            >
+              <div className="text-sm font-medium text-gray-900">{option.name}</div>
+              <div className="text-xs text-gray-500 mt-0.5">{option.description}</div>
+            </button>
+          ))}
+        </div>
+
+        {/* Payers */}
+        <div className="space-y-2">
+          {payers.map((name, index) => (
+            <div key={index} className="flex items-center space-x-2">
+              <input
+                type="text"
+                value={name}
+                onChange={(e) => setPayers(payers.map((p, i) => (i === index ? e.target.value.slice(0, MAX_PAYER_NAME_LENGTH) : p)))}
+                placeholder={`Tamu ${index + 1}`}
+                className="flex-1 px-3 py-2 border border-gray-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              />
+              {method === 'custom' && (
+                <input
+                  type="number"
+                  inputMode="numeric"
+                  min={0}
+                  value={amounts[index]}
+                  onChange={(e) => setAmounts(amounts.map((a, i) => (i === index ? e.target.value : a)))}
+                  placeholder="Nominal"
+                  className="w-32 px-3 py-2 border border-gray-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                />
+              )}
+              <button
+                onClick={() => removePayer(index)}
+                disabled={payers.length <= MIN_BILL_SHARES}
+                className="p-2 text-gray-400 hover:text-gray-600 disabled:opacity-30"
+              >
+                <X className="h-4 w-4" />
+              </button>
+            </div>
+          ))}
+
+          <button
+            onClick={addPayer}
+            disabled={payers.length >= MAX_BILL_SHARES}
+            className="flex items-center space-x-1 text-sm text-blue-600 hover:text-blue-700 disabled:opacity-50"
+          >
+            <Plus className="h-4 w-4" />
+            <span>Tambah Pembayar</span>
+          </button>
+        </div>
+
+        {/* Who had what */}
+        {method === 'items' && (
+          <div className="space-y-3 border-t border-gray-200 pt-4">
+            {orderItems.map(item => (
+              <div key={item.id}>
+                <div className="flex justify-between text-sm">
+                  <span className="text-gray-900">{item.quantity}x {item.item_name}</span>
+                  <span className="text-gray-600">{formatRupiah(Number(item.subtotal))}</span>
+                </div>
+                <div className="flex flex-wrap gap-2 mt-1">
+                  {payers.map((name, index) => {
+                    const isAssigned = itemPayers[item.id]?.includes(index)
+                    return (
+                      <button
+                        key={index}
+                        onClick={() => toggleItemPayer(item.id, index)}
+                        className={`text-xs px-2 py-1 rounded-full border transition-colors ${
+                          isAssigned
+                            ? 'bg-blue-600 border-blue-600 text-white'
+                            : 'border-gray-300 text-gray-600 hover:bg-gray-50'
+                        }`}
+                      >
+                        {name.trim() || `Tamu ${index + 1}`}
+                      </button>
+                    )
+                  })}
+                </div>
+              </div>
+            ))}
+            <p className="text-xs text-gray-500">
+              Item yang dipilih beberapa orang dibagi rata di antara mereka
+            </p>
+          </div>
+        )}
+
+        {method === 'custom' && (
+          <div className={`text-sm flex justify-between ${canSubmit ? 'text-green-700' : 'text-orange-600'}`}>
+            <span>Sisa tagihan</span>
+            <span>{formatRupiah(orderTotal - customTotal)}</span>
+          </div>
+        )}
+
+        {method === 'items' && unassignedItems.length > 0 && (
+          <div className="text-xs text-orange-600 flex items-center space-x-1">
+            <AlertCircle className="h-3 w-3" />
+            <span>{unassignedItems.length} item belum dipilih pembayarnya</span>
+          </div>
+        )}
+
+        <button
+          onClick={handleSubmit}
+          disabled={!canSubmit || isSaving}
+          className="w-full py-3 bg-blue-600 text-white rounded-lg font-medium hover:bg-blue-700 disabled:bg-gray-300 disabled:cursor-not-allowed transition-colors"
+        >
+          {isSaving ? 'Menyimpan...' : 'Bagi Tagihan'}
+        </button>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,170 @@
+'use client'
+
+import { useState } from 'react'
+import { BellRing, Hand, Receipt, Utensils, GlassWater, MessageSquare, X, Loader2 } from 'lucide-react'
+import useServiceRequests from '@/hooks/useServiceRequests'
+import {
+  MAX_SERVICE_REQUEST_MESSAGE_LENGTH,
+  SERVICE_REQUEST_TYPES,
+  type ServiceRequestType
+} from '@cafe/utils/helpers/serviceRequest'
+
+interface ServiceRequestButtonProps {
+  tableId: string
+  enabled: boolean
+  // Sit above the cart summary bar when it is shown
+  raised?: boolean
+}
+
+const REQUEST_ICONS: Record<ServiceRequestType, React.ElementType> = {
+  call_waiter: Hand,
+  request_bill: Receipt,
+  cutlery: Utensils,
+  refill_water: GlassWater,
+  other: MessageSquare
+}
+
+const STATUS_LABELS: Record<string, { text: string; color: string }> = {
+  pending: { text: 'Menunggu', color: 'bg-yellow-100 text-yellow-800' },
+  acknowledged: { text: 'Sedang ditangani', color: 'bg-blue-100 text-blue-800' }
+}
+
+/**
+ * Floating button that opens the table service menu: call waiter, ask for
+ * the bill, cutlery, water or a free-text request, with the open ones
+ */
+export default function ServiceRequestButton({ tableId, enabled, raised = false }: ServiceRequestButtonProps) {
+  const { requests, isSending, sendRequest, cancelRequest } = useServiceRequests(tableId, enabled)
+  const [isOpen, setIsOpen] = useState(false)
+  const [showMessage, setShowMessage] = useState(false)
+  const [message, setMessage] = useState('')
+
+  if (!enabled) return null
+
+  const handleSend = async (type: ServiceRequestType) => {
+    if (type === 'other' && !showMessage) {
+      setShowMessage(true)
+      return
+    }
+
+    const sent = await sendRequest(type, type === 'other' ? message.trim() : undefined)
+    if (sent) {
+      setMessage('')
+      setShowMessage(false)
+      setIsOpen(false)
+    }
+  }
+
+  return (
+    <>
+      <button
+        onClick={() => setIsOpen(true)}
+        className={`fixed right-4 z-30 w-14 h-14 bg-orange-500 text-white rounded-full shadow-lg flex items-center justify-center hover:bg-orange-600 transition-all ${raised ? 'bottom-24' : 'bottom-6'}`}
+        aria-label="Panggil pelayan"
+      >
+        <BellRing className="h-6 w-6" />
+        {requests.length > 0 && (
+          <span className="absolute -top-1 -right-1 w-5 h-5 bg-red-500 rounded-full text-xs font-bold flex items-center justify-center">
+            {requests.length}
+          </span>
+        )}
+      </button>
+
+      {isOpen && (
+        <div className="fixed inset-0 z-50 bg-white/20 backdrop-blur-sm flex items-end justify-center" onClick={() => setIsOpen(false)}>
+          <div
+            className="bg-white rounded-t-xl w-full max-w-lg shadow-lg p-6"
+            onClick={(e) => e.stopPropagation()}
+          >
+            <div className="flex items-center justify-between mb-4">
+              <h3 className="text-lg font-semibold text-gray-900">Butuh Bantuan?</h3>
+              <button onClick={() => setIsOpen(false)} className="p-2 hover:bg-gray-100 rounded-lg">
+                <X className="h-5 w-5 text-gray-600" />
+              </button>
+            </div>
+
+            <div className="grid grid-cols-2 gap-3">
+              {(Object.keys(SERVICE_REQUEST_TYPES) as ServiceRequestType[]).map(type => {
+                const Icon = REQUEST_ICONS[type]
+                const pending = requests.some(request => request.request_type === type && type !== 'other')
+                return (
+                  <button
+                    key={type}
+                    onClick={() => handleSend(type)}
+                    disabled={isSending}
+                    className={`p-4 rounded-lg border text-left transition-colors disabled:opacity-50 ${
+                      type === 'other' ? 'col-span-2' : ''
+                    } ${pending ? 'border-orange-300 bg-orange-50' : 'border-gray-200 hover:bg-gray-50'}`}
+                  >
+                    <Icon className="h-5 w-5 text-orange-500 mb-2" />
+                    <div className="font-medium text-gray-900 text-sm">{SERVICE_REQUEST_TYPES[type].label}</div>
+                    <div className="text-xs text-gray-600">
+                      {pending ? 'Sudah dikirim' : SERVICE_REQUEST_TYPES[type].description}
+                    </div>
+                  </button>
+                )
+              })}
+            </div>
+
+            {showMessage && (
+              <div className="mt-4">
+                <textarea
+                  value={message}
+                  onChange={(e) => setMessage(e.target.value.slice(0, MAX_SERVICE_REQUEST_MESSAGE_LENGTH))}
+                  placeholder="Contoh: minta saus sambal tambahan"
+                  rows={3}
+                  autoFocus
+                  className="w-full p-3 border border-gray-200 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent resize-none"
+                />
+                <button
+                  onClick={() => handleSend('other')}
+                  disabled={isSending || !message.trim()}
+                  className="w-full mt-2 py-3 bg-blue-600 text-white rounded-lg font-semibold hover:bg-blue-700 transition-colors disabled:bg-gray-300 disabled:cursor-not-allowed flex items-center justify-center space-x-2"
+                >
+                  {isSending && <Loader2 className="h-4 w-4 animate-spin" />}
+                  <span>Kirim Permintaan</span>
+                </button>
+              </div>
+            )}
+
+            {requests.length > 0 && (
+              <div className="mt-6">
+                <h4 className="text-sm font-medium text-gray-900 mb-2">Permintaan Meja Ini</h4>
+                <div className="space-y-2">
+                  {requests.map(request => {
+                    const status = STATUS_LABELS[request.status]
+                    return (
+                      <div key={request.id} className="flex items-center justify-between p-3 bg-gray-50 rounded-lg">
+                        <div className="min-w-0">
+                          <div className="text-sm font-medium text-gray-900">
+                            {SERVICE_REQUEST_TYPES[request.request_type]?.label}
+                          </div>
+                          {request.message && (
+                            <div className="text-xs text-gray-600 truncate">{request.message}</div>
+                          )}
+                        </div>
+                        <div className="flex items-center space-x-2 flex-shrink-0">
+                          {status && (
+                            <span className={`px-2 py-0.5 rounded-full text-xs ${status.color}`}>{status.text}</span>
+                          )}
+                          {request.status === 'pending' && request.own && (
+                            <button
+                              onClick={() => cancelRequest(request.id)}
+                              className="text-xs text-red-600 hover:underline"
+                            >
+                              Batal
+                            </button>
+                          )}
+                        </div>
+                      </div>
+                    )
+                  })}
+                </div>
+              </div>
+            )}
+          </div>
+        </div>
+      )}
+    </>
+  )
+}
@@ -133,4 +133,14 @@ export async function preloadCustomizations(menuItemIds: string[]) {
 export function clearCustomizationCache() {
   customizationCache.clear()
   optionNameCache.clear()
-}
\ No newline at end of file
+}
+
+// Drop cached customizations of the item owning a group, e.g. when one of its
+// options sells out. Option names stay cached for cart display.
+export function invalidateCustomizationGroup(groupId: string) {
+  for (const [itemId, groups] of customizationCache) {
+    if (groups.some(group => group.id === groupId)) {
+      customizationCache.delete(itemId)
+    }
+  }
+}
@@ -0,0 +1,87 @@
+'use client'
+
+import { useState, useEffect, useRef } from 'react'
+import apiClient from '@/lib/api/client'
+import type { OrderEtaResult } from '@/lib/kitchen/orderEta'
+import type { KitchenLoad } from '@cafe/utils/calculations/orderEta'
+
+// Bumps often come in bursts, re-estimate once they settle
+const REFRESH_DEBOUNCE_MS = 3000
+
+// Fallback for missed realtime events, and to let the countdown catch up
+const REFRESH_INTERVAL_MS = 60000
+
+/**
+ * Run `load` now, every minute and shortly after anything in the kitchen
+ * queue changes
+ */
+function useKitchenQueueRefresh(enabled: boolean, load: () => void) {
+  const loadRef = useRef(load)
+  loadRef.current = load
+
+  useEffect(() => {
+    if (!enabled) return
+
+    let timeout: ReturnType<typeof setTimeout> | null = null
+    loadRef.current()
+
+    const interval = setInterval(() => loadRef.current(), REFRESH_INTERVAL_MS)
+    const channel = apiClient.subscribeToKitchenQueue(() => {
+      if (timeout) clearTimeout(timeout)
+      timeout = setTimeout(() => loadRef.current(), REFRESH_DEBOUNCE_MS)
+    })
+
+    return () => {
+      if (timeout) clearTimeout(timeout)
+      clearInterval(interval)
+      channel.unsubscribe()
+    }
+  }, [enabled])
+}
+
+/**
+ * Live ETA and queue position of an order, re-estimated as orders ahead of
+ * it are bumped. `minutes` counts down between estimates.
+ */
+export function useOrderEta(orderId: string, enabled: boolean = true) {
+  const [eta, setEta] = useState<OrderEtaResult | null>(null)
+  const [now, setNow] = useState(() => Date.now())
+
+  useKitchenQueueRefresh(enabled && !!orderId, () => {
+    apiClient.getOrderEta(orderId).then(response => {
+      if (response.data) {
+        setEta(response.data.data)
+        setNow(Date.now())
+      }
+    })
+  })
+
+  useEffect(() => {
+    if (!eta) return
+
+    const interval = setInterval(() => setNow(Date.now()), 30000)
+    return () => clearInterval(interval)
+  }, [eta])
+
+  return {
+    eta,
+    minutes: eta ? Math.max(0, Math.ceil((new Date(eta.ready_at).getTime() - now) / 60000)) : null
+  }
+}
+
+/**
+ * What an order placed now would wait; `busy` drives the menu banner
+ */
+export function useKitchenLoad(enabled: boolean = true) {
+  const [load, setLoad] = useState<KitchenLoad | null>(null)
+
+  useKitchenQueueRefresh(enabled, () => {
+    apiClient.getKitchenLoad().then(response => {
+      if (response.data) {
+        setLoad(response.data.data)
+      }
+    })
+  })
+
+  return load
+}
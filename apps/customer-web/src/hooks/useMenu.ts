@@ -3,6 +3,7 @@
 import { useState, useEffect, useCallback, useMemo, useRef } from 'react'
 import { toast } from 'sonner'
 import apiClient from '@/lib/api/client'
+import { invalidateCustomizationGroup } from '@/hooks/useCustomizations'
 import { searchMenuItems, sortMenuItems } from '@/components/menu/SearchBar'
 import { applyFilters } from '@/components/menu/CategoryFilter'
 import type { ActiveFilters } from '@/components/menu/CategoryFilter'
@@ -130,6 +131,27 @@ const DEFAULT_FILTERS: MenuFilters = {
   showUnavailable: false
 }
 
+// Stock availability carried by a menu_items row on the menu-updates channel
+export interface MenuAvailabilityUpdate {
+  id: string
+  is_available: boolean
+  ingredients_available: boolean
+  available_portions: number | null
+}
+
+// Availability of one customization option on the menu-updates channel
+export interface OptionAvailabilityUpdate {
+  id: string
+  group_id?: string
+  is_available: boolean
+  ingredients_available: boolean
+}
+
+interface MenuUpdatesHandlers {
+  onItemChange?: (payload: any) => void
+  onOptionChange?: (update: OptionAvailabilityUpdate) => void
+}
+
 const DEFAULT_OPTIONS: UseMenuOptions = {
   autoRefresh: true,
   refreshInterval: 5 * 60 * 1000, // 5 minutes
@@ -379,33 +401,28 @@ export default function useMenu(options: UseMenuOptions = {}): UseMenuReturn {
   const subscribeToUpdates = useCallback(() => {
     if (!config.enableRealtime || subscriptionRef.current) return
 
-    subscriptionRef.current = apiClient.getSupabase()
-      .channel('menu-updates')
-      .on(
-        'postgres_changes',
-        {
-          event: '*',
-          schema: 'public',
-          table: 'menu_items'
-        },
-        (payload) => {
-          
-          if (payload.eventType === 'UPDATE') {
-            setItems(prev => prev.map(item => 
-              item.id === payload.new.id ? { ...item, ...payload.new } : item
-            ))
-          } else if (payload.eventType === 'INSERT') {
-            setItems(prev => [...prev, payload.new as MenuItemExtended])
-          } else if (payload.eventType === 'DELETE') {
-            setItems(prev => prev.filter(item => item.id !== payload.old.id))
-          }
-          
-          // Update cache
-          setLastUpdate(new Date())
-          localStorage.setItem(LAST_UPDATE_KEY, new Date().toISOString())
+    subscriptionRef.current = subscribeToMenuUpdates({
+      onItemChange: (payload) => {
+
+        if (payload.eventType === 'UPDATE') {
+          const availability = toMenuAvailabilityUpdate(payload.new)
+          setItems(prev => prev.map(item =>
+            item.id === payload.new.id ? { ...item, ...payload.new, ...availability } : item
+          ))
+        } else if (payload.eventType === 'INSERT') {
+          setItems(prev => [...prev, payload.new as MenuItemExtended])
+        } else if (payload.eventType === 'DELETE') {
+          setItems(prev => prev.filter(item => item.id !== payload.old.id))
         }
-      )
-      .subscribe()
+
+        // Update cache
+        setLastUpdate(new Date())
+        localStorage.setItem(LAST_UPDATE_KEY, new Date().toISOString())
+      },
+      onOptionChange: (update) => {
+        if (update.group_id) invalidateCustomizationGroup(update.group_id)
+      }
+    })
   }, [config.enableRealtime])
 
   // Unsubscribe from updates
@@ -522,6 +539,56 @@ export default function useMenu(options: UseMenuOptions = {}): UseMenuReturn {
   }
 }
 
+/**
+ * Pick the availability fields from a menu_items realtime row. An item is
+ * sold out ("86") when the owner disabled it or its stock cannot cover one
+ * portion.
+ */
+export function toMenuAvailabilityUpdate(row: any): MenuAvailabilityUpdate {
+  return {
+    id: row.id,
+    is_available: row.is_available !== false,
+    ingredients_available: row.ingredients_available !== false,
+    available_portions: row.available_portions ?? null
+  }
+}
+
+/**
+ * Open the menu-updates realtime channel: menu_items changes (including
+ * stock-driven sold-out flags) and customization option availability
+ */
+export function subscribeToMenuUpdates({ onItemChange, onOptionChange }: MenuUpdatesHandlers) {
+  return apiClient.getSupabase()
+    .channel('menu-updates')
+    .on(
+      'postgres_changes',
+      {
+        event: '*',
+        schema: 'public',
+        table: 'menu_items'
+      },
+      (payload) => onItemChange?.(payload)
+    )
+    .on(
+      'postgres_changes',
+      {
+        event: 'UPDATE',
+        schema: 'public',
+        table: 'menu_customization_options'
+      },
+      (payload) => {
+        const row = payload.new as any
+        onOptionChange?.({
+          id: row.id,
+          group_id: row.group_id,
+          is_available: row.is_available !== false,
+          ingredients_available: row.ingredients_available !== false
+        })
+      }
+    )
+    .subscribe()
+}
+
 // Custom hooks for specific use cases
 export function useMenuSearch(initialQuery: string = '') {
   const [query, setQuery] = useState(initialQuery)
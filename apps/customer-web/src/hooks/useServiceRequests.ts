@@ -0,0 +1,156 @@
+'use client'
+
+import { useState, useEffect, useCallback } from 'react'
+import { toast } from 'sonner'
+import apiClient from '@/lib/api/client'
+import { useCartStore } from '@/stores/cartStore'
+import type { ServiceRequestInput, ServiceRequestRow } from '@/lib/service/serviceRequests'
+import {
+  SERVICE_REQUEST_TYPES,
+  type ServiceRequestType
+} from '@cafe/utils/helpers/serviceRequest'
+
+/**
+ * Open the realtime channel of a table's service requests
+ */
+export function subscribeToServiceRequests(tableId: string, onChange: (request: ServiceRequestRow) => void) {
+  return apiClient.getSupabase()
+    .channel(`service-requests-${tableId}`)
+    .on(
+      'postgres_changes',
+      {
+        event: '*',
+        schema: 'public',
+        table: 'service_requests',
+        filter: `table_id=eq.${tableId}`
+      },
+      (payload: any) => {
+        if (payload.new?.id) onChange(payload.new as ServiceRequestRow)
+      }
+    )
+    .subscribe()
+}
+
+// The diner token lapses after 30 minutes without use, e.g. while waiting
+// for the food; rejoining the table's cart issues a fresh one
+const isDinerTokenError = (code?: string) => code === 'DINER_TOKEN_REQUIRED' || code === 'DINER_TOKEN_INVALID'
+
+/**
+ * Service requests of the table (call waiter, bill, cutlery, water, free
+ * text), live as staff acknowledge and complete them. Only enabled while
+ * the diner has a valid table session; the server checks it through the
+ * diner token from joining the table's cart.
+ */
+export default function useServiceRequests(tableId: string, enabled: boolean) {
+  const diner = useCartStore(state => state.diner)
+  const setDiner = useCartStore(state => state.setDiner)
+  const [requests, setRequests] = useState<ServiceRequestRow[]>([])
+  const [isSending, setIsSending] = useState(false)
+
+  // Requests still open when the page was (re)loaded
+  useEffect(() => {
+    if (!enabled || !tableId) return
+
+    let cancelled = false
+
+    apiClient.getServiceRequests(tableId, useCartStore.getState().diner?.token).then(response => {
+      if (!cancelled && response.data?.data) {
+        setRequests(response.data.data)
+      }
+    })
+
+    return () => {
+      cancelled = true
+    }
+  }, [enabled, tableId])
+
+  useEffect(() => {
+    if (!enabled || !tableId) return
+
+    const channel = subscribeToServiceRequests(tableId, (changed) => {
+      setRequests(prev => {
+        const previous = prev.find(request => request.id === changed.id)
+        const label = SERVICE_REQUEST_TYPES[changed.request_type]?.label || 'Permintaan'
+
+        if (previous?.status === 'pending' && changed.status === 'acknowledged') {
+          toast.info(`${label}: pelayan sedang menuju meja Anda`)
+        } else if (previous && previous.status !== 'completed' && changed.status === 'completed') {
+          toast.success(`${label} selesai`)
+        }
+
+        if (changed.status === 'completed' || changed.status === 'cancelled') {
+          return prev.filter(request => request.id !== changed.id)
+        }
+        // Realtime changes carry no `own` flag; keep the one from the API
+        return previous
+          ? prev.map(request => (request.id === changed.id ? { ...request, ...changed, own: request.own } : request))
+          : [...prev, changed]
+      })
+    })
+
+    return () => {
+      channel.unsubscribe()
+    }
+  }, [enabled, tableId])
+
+  const refreshDinerToken = useCallback(async (): Promise<string | undefined> => {
+    const current = useCartStore.getState().diner
+    const response = await apiClient.joinTableCart(tableId, current?.token)
+    const token = response.data?.data?.diner_token
+
+    if (token && current) setDiner({ ...current, token })
+    return token
+  }, [tableId, setDiner])
+
+  const sendRequest = useCallback(async (type: ServiceRequestType, message?: string): Promise<boolean> => {
+    if (!enabled) {
+      toast.error('Sesi meja tidak aktif. Scan ulang QR di meja Anda.')
+      return false
+    }
+
+    setIsSending(true)
+    try {
+      const input: ServiceRequestInput = {
+        table_id: tableId,
+        request_type: type,
+        message: message || null,
+        diner_name: diner?.name || null
+      }
+
+      let response = await apiClient.createServiceRequest(input, diner?.token)
+      if (isDinerTokenError(response.error?.details?.error?.code)) {
+        response = await apiClient.createServiceRequest(input, await refreshDinerToken())
+      }
+
+      const sent = response.data?.data
+      if (!sent) {
+        toast.error(response.error?.details?.error?.message || 'Gagal mengirim permintaan')
+        return false
+      }
+
+      setRequests(prev => (prev.some(request => request.id === sent.id) ? prev : [...prev, sent]))
+      toast.success(response.data?.created
+        ? `${SERVICE_REQUEST_TYPES[type].label} terkirim`
+        : 'Permintaan ini sudah dikirim, mohon tunggu sebentar')
+      return true
+    } finally {
+      setIsSending(false)
+    }
+  }, [enabled, tableId, diner?.token, diner?.name, refreshDinerToken])
+
+  const cancelRequest = useCallback(async (requestId: string) => {
+    const response = await apiClient.cancelServiceRequest(requestId, diner?.token)
+    if (response.error) {
+      toast.error(response.error.details?.error?.message || 'Gagal membatalkan permintaan')
+      return
+    }
+    setRequests(prev => prev.filter(request => request.id !== requestId))
+  }, [diner?.token])
+
+  return {
+    requests,
+    isSending,
+    sendRequest,
+    cancelRequest
+  }
+}
@@ -0,0 +1,158 @@
+'use client'
+
+import { useState, useEffect, useCallback } from 'react'
+import { toast } from 'sonner'
+import apiClient from '@/lib/api/client'
+import storage from '@/lib/utils/storage'
+import { useCartStore } from '@/stores/cartStore'
+import type { TableCartLineView, TableCartView } from '@/lib/cart/tableCart'
+
+// Realtime leaves out the diner ids customers cannot select, so lines arrive
+// without ownership
+type TableCartLineChange = Omit<TableCartLineView, 'own'>
+
+interface TableCartHandlers {
+  onLineChange?: (payload: { eventType: string; new: TableCartLineChange; old: Partial<TableCartLineChange> }) => void
+  onCartChange?: (cart: TableCartView) => void
+}
+
+/**
+ * Open the realtime channel of a shared table cart: its lines and its
+ * open/submitted/expired status
+ */
+export function subscribeToTableCart(cartId: string, { onLineChange, onCartChange }: TableCartHandlers) {
+  return apiClient.getSupabase()
+    .channel(`table-cart-${cartId}`)
+    .on(
+      'postgres_changes',
+      {
+        event: '*',
+        schema: 'public',
+        table: 'table_cart_items',
+        filter: `cart_id=eq.${cartId}`
+      },
+      (payload: any) => onLineChange?.(payload)
+    )
+    .on(
+      'postgres_changes',
+      {
+        event: 'UPDATE',
+        schema: 'public',
+        table: 'table_carts',
+        filter: `id=eq.${cartId}`
+      },
+      (payload) => onCartChange?.(payload.new as TableCartView)
+    )
+    .subscribe()
+}
+
+/**
+ * Shared cart for everyone who scanned the table QR. Joins (or opens) the
+ * table's cart once the diner has a name, keeps the cart store in sync with
+ * the other diners and drops the cart when it is submitted or has been idle
+ * for the table session timeout.
+ */
+export default function useSharedCart(tableId: string, enabled: boolean) {
+  const diner = useCartStore(state => state.diner)
+  const sharedCartId = useCartStore(state => state.sharedCartId)
+  const { setDiner, joinSharedCart, applySharedLine, removeSharedLine, leaveSharedCart } = useCartStore()
+
+  const [expiresAt, setExpiresAt] = useState<string | null>(null)
+  const [joinAttempt, setJoinAttempt] = useState(0)
+
+  const setDinerName = useCallback((name: string) => {
+    const trimmed = name.trim()
+    if (!trimmed) return
+
+    setDiner({ ...diner, name: trimmed })
+  }, [diner, setDiner])
+
+  // Join the table's open cart (a new one after the previous was submitted)
+  useEffect(() => {
+    if (!enabled || !tableId || !diner?.name) return
+
+    let cancelled = false
+
+    apiClient.joinTableCart(tableId, useCartStore.getState().diner?.token).then(response => {
+      const joined = response.data?.data
+      if (cancelled) return
+
+      if (!joined) {
+        console.error('Error joining table cart:', response.error)
+        return
+      }
+
+      joinSharedCart(joined.cart.id, joined.lines, joined.diner_token)
+      setExpiresAt(joined.cart.expires_at)
+    })
+
+    return () => {
+      cancelled = true
+    }
+  }, [enabled, tableId, diner?.name, joinAttempt, joinSharedCart])
+
+  // Other diners' lines and the cart status
+  useEffect(() => {
+    if (!enabled || !sharedCartId) return
+
+    const channel = subscribeToTableCart(sharedCartId, {
+      onLineChange: (payload) => {
+        if (payload.eventType === 'DELETE') {
+          if (payload.old.id) removeSharedLine(payload.old.id)
+        } else {
+          applySharedLine({ ...payload.new, unit_price: Number(payload.new.unit_price) })
+        }
+      },
+      onCartChange: (cart) => {
+        if (cart.status === 'open') {
+          setExpiresAt(cart.expires_at)
+          return
+        }
+
+        // The diner who submitted has already cleared their cart
+        if (useCartStore.getState().sharedCartId !== cart.id) return
+
+        leaveSharedCart()
+        setExpiresAt(null)
+
+        if (cart.status === 'submitted') {
+          toast.success(`Pesanan meja telah dikirim oleh ${cart.submitted_by_name || 'tamu lain'}`)
+        } else {
+          toast.info('Keranjang meja berakhir karena tidak ada aktivitas')
+        }
+
+        // Start a fresh cart for the next round
+        setJoinAttempt(attempt => attempt + 1)
+      }
+    })
+
+    return () => {
+      channel.unsubscribe()
+    }
+  }, [enabled, sharedCartId, applySharedLine, removeSharedLine, leaveSharedCart])
+
+  // Abandoned carts expire with the table session; the server refuses
+  // writes and submission past expires_at as well
+  useEffect(() => {
+    if (!sharedCartId || !expiresAt) return
+
+    const timer = setTimeout(() => {
+      if (useCartStore.getState().sharedCartId !== sharedCartId) return
+
+      leaveSharedCart()
+      setExpiresAt(null)
+      toast.info('Keranjang meja berakhir karena tidak ada aktivitas')
+      setJoinAttempt(attempt => attempt + 1)
+    }, Math.max(0, new Date(expiresAt).getTime() - Date.now()))
+
+    return () => clearTimeout(timer)
+  }, [sharedCartId, expiresAt, leaveSharedCart])
+
+  return {
+    diner,
+    needsName: enabled && !diner?.name,
+    suggestedName: storage.getCustomerInfo()?.name || '',
+    setDinerName,
+    isShared: !!sharedCartId
+  }
+}
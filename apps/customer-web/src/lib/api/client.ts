@@ -7,6 +7,14 @@
 
 import { createClient, type SupabaseClient } from '@supabase/supabase-js'
 import type { Database } from '@/types/database'
+import type { TableCartLineInput, TableCartLineView, TableCartView } from '@/lib/cart/tableCart'
+import type { BillShareRow } from '@/lib/payments/billShares'
+import type { SplitMethod, SplitShareInput } from '@cafe/utils/calculations/splitBill'
+import type { LoyaltyBalance } from '@/lib/pricing/loyalty'
+import type { LoyaltyRules } from '@cafe/utils/calculations/loyalty'
+import type { ServiceRequestInput, ServiceRequestRow } from '@/lib/service/serviceRequests'
+import type { OrderEtaResult } from '@/lib/kitchen/orderEta'
+import type { KitchenLoad } from '@cafe/utils/calculations/orderEta'
 
 // Environment configuration
 const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL!
@@ -54,6 +62,11 @@ interface ApiResponse<T = any> {
   fromCache?: boolean
 }
 
+// Diner token from joining a shared table cart (DINER_TOKEN_HEADER in
+// lib/cart/tableCart, which is server-only)
+const dinerTokenHeaders = (dinerToken?: string): Record<string, string> =>
+  dinerToken ? { 'x-diner-token': dinerToken } : {}
+
 // Offline queue item
 interface QueuedRequest extends ApiRequest {
   id: string
@@ -503,6 +516,62 @@ class CustomerApiClient {
     })
   }
 
+  // Shared table cart operations
+  // A diner token still valid for the table is kept, otherwise a new one is returned
+  async joinTableCart(tableId: string, dinerToken?: string) {
+    return this.request<{ data: { cart: TableCartView; lines: TableCartLineView[]; diner_token: string } }>({
+      endpoint: '/table-cart',
+      method: 'POST',
+      data: { table_id: tableId },
+      headers: dinerTokenHeaders(dinerToken),
+    })
+  }
+
+  async saveTableCartLine(cartId: string, line: TableCartLineInput, dinerToken?: string) {
+    return this.request<{ data: TableCartLineView }>({
+      endpoint: `/table-cart/${cartId}/items`,
+      method: 'PUT',
+      data: line,
+      headers: dinerTokenHeaders(dinerToken),
+    })
+  }
+
+  async removeTableCartLine(cartId: string, lineId: string, dinerToken?: string) {
+    return this.request<{ data: { id: string } }>({
+      endpoint: `/table-cart/${cartId}/items`,
+      method: 'DELETE',
+      params: { line_id: lineId },
+      headers: dinerTokenHeaders(dinerToken),
+    })
+  }
+
+  // Table service requests
+  async getServiceRequests(tableId: string, dinerToken?: string) {
+    return this.request<{ data: ServiceRequestRow[] }>({
+      endpoint: '/service-requests',
+      method: 'GET',
+      params: { table_id: tableId },
+      headers: dinerTokenHeaders(dinerToken),
+    })
+  }
+
+  async createServiceRequest(input: ServiceRequestInput, dinerToken?: string) {
+    return this.request<{ data: ServiceRequestRow; created: boolean }>({
+      endpoint: '/service-requests',
+      method: 'POST',
+      data: input,
+      headers: dinerTokenHeaders(dinerToken),
+    })
+  }
+
+  async cancelServiceRequest(requestId: string, dinerToken?: string) {
+    return this.request<{ data: ServiceRequestRow }>({
+      endpoint: `/service-requests/${requestId}`,
+      method: 'DELETE',
+      headers: dinerTokenHeaders(dinerToken),
+    })
+  }
+
   // Menu operations
   async getMenu(tableId?: string, categorySlug?: string) {
     const params: Record<string, string> = {}
@@ -606,11 +675,17 @@ class CustomerApiClient {
     service_fee?: number
     total_amount?: number
     promo_code?: string
-  }) {
+    discount_amount?: number
+    loyalty_points?: number
+    accept_server_pricing?: boolean
+    table_cart_id?: string
+    diner_name?: string
+  }, dinerToken?: string) {
     return this.request<{ order_id: string; total_amount: number; table_number: string; estimated_completion: string }>({
       endpoint: '/order',
       method: 'POST',
       data: orderData,
+      headers: dinerTokenHeaders(dinerToken),
     })
   }
 
@@ -625,6 +700,8 @@ class CustomerApiClient {
     return this.request<{ 
       status: string
       estimated_completion: string | null
+      queue_position: number | null
+      orders_ahead: number | null
       progress_steps: Array<{
         step: string
         completed: boolean
@@ -636,12 +713,27 @@ class CustomerApiClient {
     })
   }
 
+  async getOrderEta(orderId: string) {
+    return this.request<{ data: OrderEtaResult | null }>({
+      endpoint: `/orders/${orderId}/eta`,
+      method: 'GET',
+    })
+  }
+
+  async getKitchenLoad() {
+    return this.request<{ data: KitchenLoad }>({
+      endpoint: '/kitchen/load',
+      method: 'GET',
+    })
+  }
+
   // Payment operations
   async createPayment(paymentData: {
     order_id: string
     method: 'cash' | 'card' | 'qris' | 'transfer'
     amount: number
     customer_phone?: string
+    bill_share_id?: string
   }) {
     return this.request<{
       transaction_id: string
@@ -654,6 +746,9 @@ class CustomerApiClient {
       next_step?: string
       qr_code?: string
       merchant_name?: string
+      merchant_city?: string
+      nmid?: string
+      payment_reference?: string
       amount_to_pay?: number
       formatted_amount?: string
       instructions?: string[]
@@ -670,6 +765,29 @@ class CustomerApiClient {
     })
   }
 
+  // Split bill operations
+  async getBillSplit(orderId: string) {
+    return this.request<{ data: BillShareRow[] }>({
+      endpoint: `/orders/${orderId}/split`,
+      method: 'GET',
+    })
+  }
+
+  async createBillSplit(orderId: string, method: SplitMethod, shares: SplitShareInput[]) {
+    return this.request<{ data: BillShareRow[] }>({
+      endpoint: `/orders/${orderId}/split`,
+      method: 'POST',
+      data: { method, shares },
+    })
+  }
+
+  async cancelBillSplit(orderId: string) {
+    return this.request<{ data: { order_id: string } }>({
+      endpoint: `/orders/${orderId}/split`,
+      method: 'DELETE',
+    })
+  }
+
   async uploadPaymentProof(paymentId: string, file: File, orderId?: string) {
     const formData = new FormData()
     formData.append('file', file)
@@ -698,11 +816,28 @@ class CustomerApiClient {
   }
 
   // Promo operations
-  async validatePromoCode(code: string, orderTotal: number) {
+  async validatePromoCode(
+    code: string,
+    orderTotal: number,
+    items?: Array<{
+      menu_item_id: string
+      quantity: number
+      customizations?: Record<string, string[]>
+    }>
+  ) {
     return this.request<any>({
       endpoint: '/promo',
       method: 'POST',
-      data: { code, order_total: orderTotal },
+      data: { code, order_total: orderTotal, items },
+    })
+  }
+
+  // Loyalty operations
+  async getLoyaltyBalance(phone: string) {
+    return this.request<{ data: LoyaltyBalance & { rules: LoyaltyRules } }>({
+      endpoint: '/loyalty',
+      method: 'GET',
+      params: { phone },
     })
   }
 
@@ -750,6 +885,31 @@ class CustomerApiClient {
       .subscribe()
   }
 
+  // Any order or item moving through the kitchen changes the queue
+  subscribeToKitchenQueue(callback: (update: any) => void) {
+    return this.supabase
+      .channel('kitchen-queue')
+      .on(
+        'postgres_changes',
+        {
+          event: 'UPDATE',
+          schema: 'public',
+          table: 'orders',
+        },
+        callback
+      )
+      .on(
+        'postgres_changes',
+        {
+          event: 'UPDATE',
+          schema: 'public',
+          table: 'order_items',
+        },
+        callback
+      )
+      .subscribe()
+  }
+
   subscribeToTableUpdates(tableId: string, callback: (update: any) => void) {
     return this.supabase
       .channel(`table-${tableId}`)
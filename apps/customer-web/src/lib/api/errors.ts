@@ -0,0 +1,36 @@
+/**
+ * API errors
+ *
+ * Base of the errors the lib modules throw for an API route to pass on to
+ * the customer with a code the pages can act on (TableCartError,
+ * OrderPricingError, ...), and the response routes build from whatever
+ * they caught. Server-only, unlike the API client next to it.
+ */
+
+import { NextResponse } from 'next/server'
+
+export class ApiError extends Error {
+  constructor(message: string, public code: string, public status: number = 400) {
+    super(message)
+    this.name = 'ApiError'
+  }
+}
+
+/**
+ * ApiErrors go out with their message, code and status; anything else is
+ * logged as "Error <action>" and answered with a 500
+ */
+export function apiErrorResponse(error: unknown, action: string) {
+  if (error instanceof ApiError) {
+    return NextResponse.json(
+      { error: { message: error.message, code: error.code } },
+      { status: error.status }
+    )
+  }
+
+  console.error(`Error ${action}:`, error)
+  return NextResponse.json(
+    { error: { message: 'Internal server error' } },
+    { status: 500 }
+  )
+}
@@ -0,0 +1,492 @@
+/**
+ * Shared Table Carts
+ *
+ * Server side of the cart every diner at a table adds to (`table_carts` and
+ * `table_cart_items`). Lines are written only through these helpers so a
+ * diner can change nothing but their own lines; diners see each other's
+ * changes over realtime. The cart expires after the same 30 minutes of
+ * inactivity as the customer table session, and is claimed atomically when
+ * one diner submits it as the table's order.
+ *
+ * Joining issues the diner a secret token (`table_cart_diners` keeps only its
+ * SHA-256 hash). Every write is checked against it, and the diner ids that
+ * own lines never leave the server: customers see an `own` flag instead.
+ */
+
+import { createHash, randomBytes } from 'crypto'
+import type { SupabaseClient } from '@supabase/supabase-js'
+import type { Database } from '@/types/database'
+import type { OrderItemInput } from '@/lib/pricing/orderPricing'
+import { ApiError } from '@/lib/api/errors'
+
+// Same as SESSION_TIMEOUT in useTable and the cart store
+export const TABLE_CART_TIMEOUT = 30 * 60 * 1000 // 30 minutes
+
+// Request header carrying the token issued on join
+export const DINER_TOKEN_HEADER = 'x-diner-token'
+
+const MAX_QUANTITY_PER_LINE = 10
+const MAX_DINER_NAME_LENGTH = 100
+
+// Types
+export type TableCartStatus = 'open' | 'submitted' | 'expired'
+
+export interface TableCartRow {
+  id: string
+  table_id: string
+  status: TableCartStatus
+  last_activity_at: string
+  expires_at: string
+  submitted_by: string | null
+  submitted_by_name: string | null
+  submitted_at: string | null
+  order_id: string | null
+}
+
+export interface TableCartLineRow {
+  id: string
+  cart_id: string
+  diner_id: string
+  diner_name: string
+  menu_item_id: string
+  item_name: string
+  unit_price: number
+  quantity: number
+  customizations: Record<string, string[]>
+  notes: string | null
+  image_url: string | null
+  preparation_time: number | null
+  created_at: string
+}
+
+// What customers get: no diner ids, only whether a line is theirs
+export type TableCartView = Omit<TableCartRow, 'submitted_by'>
+
+export type TableCartLineView = Omit<TableCartLineRow, 'diner_id'> & { own: boolean }
+
+export interface TableCartLineInput {
+  id: string
+  diner_name: string
+  menu_item_id: string
+  item_name: string
+  unit_price: number
+  quantity: number
+  customizations?: Record<string, string[]>
+  notes?: string | null
+  image_url?: string | null
+  preparation_time?: number | null
+}
+
+export interface TableCartDiner {
+  id: string
+  name: string
+}
+
+export class TableCartError extends ApiError {
+  name = 'TableCartError'
+}
+
+type TableCartClient = SupabaseClient<Database>
+
+const nextExpiry = (from: Date = new Date()) => new Date(from.getTime() + TABLE_CART_TIMEOUT).toISOString()
+
+const hashDinerToken = (token: string) => createHash('sha256').update(token).digest('hex')
+
+const toCartView = ({ submitted_by: _submittedBy, ...cart }: TableCartRow): TableCartView => cart
+
+const toLineView = ({ diner_id: dinerId, ...line }: TableCartLineRow, viewerId: string): TableCartLineView => ({
+  ...line,
+  own: dinerId === viewerId
+})
+
+/**
+ * Register a new diner at the table and hand out their token
+ */
+async function issueDinerToken(supabase: TableCartClient, tableId: string): Promise<{ id: string; token: string }> {
+  const token = randomBytes(32).toString('base64url')
+  const { data, error } = await (supabase as any)
+    .from('table_cart_diners')
+    .insert({ table_id: tableId, token_hash: hashDinerToken(token), expires_at: nextExpiry() })
+    .select('id')
+    .single()
+
+  if (error) {
+    throw new TableCartError(`Failed to register diner: ${error.message}`, 'TABLE_CART_FAILED', 500)
+  }
+
+  return { id: data.id, token }
+}
+
+/**
+ * The id of the diner holding the token, who must have joined at this table.
+ * Each use keeps the diner signed in for another inactivity window.
+ */
+export async function authenticateDiner(
+  supabase: TableCartClient,
+  tableId: string,
+  token: string | null | undefined
+): Promise<string> {
+  if (!token) {
+    throw new TableCartError('Silakan bergabung ke keranjang meja terlebih dahulu', 'DINER_TOKEN_REQUIRED', 401)
+  }
+
+  const { data: diner, error } = await (supabase as any)
+    .from('table_cart_diners')
+    .select('id, table_id, expires_at')
+    .eq('token_hash', hashDinerToken(token))
+    .maybeSingle()
+
+  if (error) {
+    throw new TableCartError(`Failed to verify diner: ${error.message}`, 'TABLE_CART_FAILED', 500)
+  }
+
+  if (!diner || diner.table_id !== tableId || new Date(diner.expires_at).getTime() <= Date.now()) {
+    throw new TableCartError('Sesi tamu tidak valid, silakan bergabung kembali', 'DINER_TOKEN_INVALID', 401)
+  }
+
+  const now = new Date()
+  const { error: touchError } = await (supabase as any)
+    .from('table_cart_diners')
+    .update({ last_seen_at: now.toISOString(), expires_at: nextExpiry(now) })
+    .eq('id', diner.id)
+
+  if (touchError) {
+    console.error('Error extending diner session:', touchError)
+  }
+
+  return diner.id
+}
+
+/**
+ * Mark the table's open cart expired once its inactivity window has passed
+ */
+export async function expireStaleTableCarts(supabase: TableCartClient, tableId: string): Promise<void> {
+  const { error } = await (supabase as any)
+    .from('table_carts')
+    .update({ status: 'expired', updated_at: new Date().toISOString() })
+    .eq('table_id', tableId)
+    .eq('status', 'open')
+    .lt('expires_at', new Date().toISOString())
+
+  if (error) {
+    throw new TableCartError(`Failed to expire table carts: ${error.message}`, 'TABLE_CART_FAILED', 500)
+  }
+}
+
+export async function loadTableCartLines(supabase: TableCartClient, cartId: string): Promise<TableCartLineRow[]> {
+  const { data, error } = await (supabase as any)
+    .from('table_cart_items')
+    .select('*')
+    .eq('cart_id', cartId)
+    .order('created_at', { ascending: true })
+
+  if (error) {
+    throw new TableCartError(`Failed to load table cart: ${error.message}`, 'TABLE_CART_FAILED', 500)
+  }
+
+  return ((data || []) as TableCartLineRow[]).map(line => ({
+    ...line,
+    unit_price: Number(line.unit_price)
+  }))
+}
+
+/**
+ * The table's open cart with its lines, creating one when there is none.
+ * A diner whose token is still valid for the table keeps it; anyone else is
+ * issued a new one.
+ */
+export async function joinTableCart(
+  supabase: TableCartClient,
+  tableId: string,
+  dinerToken?: string | null
+): Promise<{ cart: TableCartView; lines: TableCartLineView[]; diner_token: string }> {
+  await expireStaleTableCarts(supabase, tableId)
+
+  let diner: { id: string; token: string } | null = null
+  if (dinerToken) {
+    try {
+      diner = { id: await authenticateDiner(supabase, tableId, dinerToken), token: dinerToken }
+    } catch (error) {
+      if (!(error instanceof TableCartError) || error.code !== 'DINER_TOKEN_INVALID') throw error
+    }
+  }
+  diner = diner || await issueDinerToken(supabase, tableId)
+
+  const findOpenCart = async (): Promise<TableCartRow | null> => {
+    const { data, error } = await (supabase as any)
+      .from('table_carts')
+      .select('*')
+      .eq('table_id', tableId)
+      .eq('status', 'open')
+      .maybeSingle()
+
+    if (error) {
+      throw new TableCartError(`Failed to load table cart: ${error.message}`, 'TABLE_CART_FAILED', 500)
+    }
+    return data
+  }
+
+  let cart = await findOpenCart()
+
+  if (!cart) {
+    const { data, error } = await (supabase as any)
+      .from('table_carts')
+      .insert({ table_id: tableId, expires_at: nextExpiry() })
+      .select()
+      .single()
+
+    // 23505: another diner opened the cart first (one open cart per table)
+    if (error && error.code !== '23505') {
+      throw new TableCartError(`Failed to open table cart: ${error.message}`, 'TABLE_CART_FAILED', 500)
+    }
+
+    cart = data || await findOpenCart()
+  }
+
+  if (!cart) {
+    throw new TableCartError('Keranjang meja tidak ditemukan', 'TABLE_CART_NOT_FOUND', 404)
+  }
+
+  const lines = await loadTableCartLines(supabase, cart.id)
+
+  return {
+    cart: toCartView(cart),
+    lines: lines.map(line => toLineView(line, diner.id)),
+    diner_token: diner.token
+  }
+}
+
+/**
+ * An open, unexpired cart; expires it on the way when the window has passed
+ */
+export async function loadOpenTableCart(supabase: TableCartClient, cartId: string): Promise<TableCartRow> {
+  const { data: cart, error } = await (supabase as any)
+    .from('table_carts')
+    .select('*')
+    .eq('id', cartId)
+    .maybeSingle()
+
+  if (error) {
+    throw new TableCartError(`Failed to load table cart: ${error.message}`, 'TABLE_CART_FAILED', 500)
+  }
+
+  if (!cart) {
+    throw new TableCartError('Keranjang meja tidak ditemukan', 'TABLE_CART_NOT_FOUND', 404)
+  }
+
+  if (cart.status === 'submitted') {
+    throw new TableCartError('Pesanan meja ini sudah dikirim', 'TABLE_CART_SUBMITTED', 409)
+  }
+
+  if (cart.status === 'expired' || new Date(cart.expires_at).getTime() <= Date.now()) {
+    if (cart.status === 'open') {
+      await expireStaleTableCarts(supabase, cart.table_id)
+    }
+    throw new TableCartError('Sesi keranjang meja telah berakhir', 'TABLE_CART_EXPIRED', 410)
+  }
+
+  return cart as TableCartRow
+}
+
+async function touchTableCart(supabase: TableCartClient, cartId: string): Promise<void> {
+  const now = new Date()
+  const { error } = await (supabase as any)
+    .from('table_carts')
+    .update({
+      last_activity_at: now.toISOString(),
+      expires_at: nextExpiry(now),
+      updated_at: now.toISOString()
+    })
+    .eq('id', cartId)
+    .eq('status', 'open')
+
+  if (error) {
+    console.error('Error extending table cart:', error)
+  }
+}
+
+async function loadOwnedLine(
+  supabase: TableCartClient,
+  cartId: string,
+  lineId: string,
+  dinerId: string
+): Promise<TableCartLineRow | null> {
+  const { data: line, error } = await (supabase as any)
+    .from('table_cart_items')
+    .select('id, cart_id, diner_id')
+    .eq('id', lineId)
+    .maybeSingle()
+
+  if (error) {
+    throw new TableCartError(`Failed to load cart line: ${error.message}`, 'TABLE_CART_FAILED', 500)
+  }
+
+  if (line && (line.cart_id !== cartId || line.diner_id !== dinerId)) {
+    throw new TableCartError('Item ini milik tamu lain', 'NOT_LINE_OWNER', 403)
+  }
+
+  return line
+}
+
+/**
+ * Add or replace one of the diner's own lines
+ */
+export async function saveTableCartLine(
+  supabase: TableCartClient,
+  cartId: string,
+  dinerToken: string | null | undefined,
+  input: TableCartLineInput
+): Promise<TableCartLineView> {
+  const dinerName = typeof input.diner_name === 'string' ? input.diner_name.trim() : ''
+  const quantity = Number(input.quantity)
+
+  if (!input.id || !input.menu_item_id || !input.item_name) {
+    throw new TableCartError('Data item tidak lengkap', 'INVALID_LINE')
+  }
+
+  if (!dinerName || dinerName.length > MAX_DINER_NAME_LENGTH) {
+    throw new TableCartError('Nama tamu tidak valid', 'INVALID_DINER')
+  }
+
+  if (!Number.isInteger(quantity) || quantity < 1 || quantity > MAX_QUANTITY_PER_LINE) {
+    throw new TableCartError(`Jumlah harus 1-${MAX_QUANTITY_PER_LINE}`, 'INVALID_QUANTITY')
+  }
+
+  const cart = await loadOpenTableCart(supabase, cartId)
+  const dinerId = await authenticateDiner(supabase, cart.table_id, dinerToken)
+  await loadOwnedLine(supabase, cartId, input.id, dinerId)
+
+  const { data: line, error } = await (supabase as any)
+    .from('table_cart_items')
+    .upsert({
+      id: input.id,
+      cart_id: cartId,
+      diner_id: dinerId,
+      diner_name: dinerName,
+      menu_item_id: input.menu_item_id,
+      item_name: input.item_name,
+      unit_price: Math.max(0, Number(input.unit_price) || 0),
+      quantity,
+      customizations: input.customizations || {},
+      notes: input.notes?.trim() || null,
+      image_url: input.image_url || null,
+      preparation_time: input.preparation_time ?? null,
+      updated_at: new Date().toISOString()
+    })
+    .select()
+    .single()
+
+  if (error) {
+    throw new TableCartError(`Failed to save cart line: ${error.message}`, 'TABLE_CART_FAILED', 500)
+  }
+
+  await touchTableCart(supabase, cartId)
+
+  return toLineView({ ...line, unit_price: Number(line.unit_price) }, dinerId)
+}
+
+/**
+ * Remove one of the diner's own lines; removing a missing line is a no-op
+ */
+export async function removeTableCartLine(
+  supabase: TableCartClient,
+  cartId: string,
+  lineId: string,
+  dinerToken: string | null | undefined
+): Promise<void> {
+  const cart = await loadOpenTableCart(supabase, cartId)
+  const dinerId = await authenticateDiner(supabase, cart.table_id, dinerToken)
+
+  const line = await loadOwnedLine(supabase, cartId, lineId, dinerId)
+  if (!line) return
+
+  const { error } = await (supabase as any)
+    .from('table_cart_items')
+    .delete()
+    .eq('id', lineId)
+    .eq('diner_id', dinerId)
+
+  if (error) {
+    throw new TableCartError(`Failed to remove cart line: ${error.message}`, 'TABLE_CART_FAILED', 500)
+  }
+
+  await touchTableCart(supabase, cartId)
+}
+
+/**
+ * Close the cart for submission. Only one diner can win: the update only
+ * matches while the cart is still open and unexpired.
+ */
+export async function claimTableCart(
+  supabase: TableCartClient,
+  cartId: string,
+  diner: TableCartDiner
+): Promise<void> {
+  const now = new Date().toISOString()
+  const { data, error } = await (supabase as any)
+    .from('table_carts')
+    .update({
+      status: 'submitted',
+      submitted_by: diner.id,
+      submitted_by_name: diner.name,
+      submitted_at: now,
+      updated_at: now
+    })
+    .eq('id', cartId)
+    .eq('status', 'open')
+    .gt('expires_at', now)
+    .select('id')
+
+  if (error) {
+    throw new TableCartError(`Failed to submit table cart: ${error.message}`, 'TABLE_CART_FAILED', 500)
+  }
+
+  if (!data || data.length === 0) {
+    // Report why: already submitted by someone else, or expired
+    await loadOpenTableCart(supabase, cartId)
+    throw new TableCartError('Pesanan meja ini sudah dikirim', 'TABLE_CART_SUBMITTED', 409)
+  }
+}
+
+/**
+ * Reopen a claimed cart when creating its order failed
+ */
+export async function releaseTableCart(supabase: TableCartClient, cartId: string): Promise<void> {
+  const { error } = await (supabase as any)
+    .from('table_carts')
+    .update({
+      status: 'open',
+      submitted_by: null,
+      submitted_by_name: null,
+      submitted_at: null,
+      updated_at: new Date().toISOString()
+    })
+    .eq('id', cartId)
+    .eq('status', 'submitted')
+    .is('order_id', null)
+
+  if (error) {
+    console.error('Error reopening table cart:', error)
+  }
+}
+
+export async function attachTableCartOrder(supabase: TableCartClient, cartId: string, orderId: string): Promise<void> {
+  const { error } = await (supabase as any)
+    .from('table_carts')
+    .update({ order_id: orderId, updated_at: new Date().toISOString() })
+    .eq('id', cartId)
+
+  if (error) {
+    console.error('Error linking table cart to order:', error)
+  }
+}
+
+export function toOrderItemInputs(lines: TableCartLineRow[]): OrderItemInput[] {
+  return lines.map(line => ({
+    menu_item_id: line.menu_item_id,
+    quantity: line.quantity,
+    customizations: line.customizations || {},
+    notes: line.notes || undefined,
+    unit_price: line.unit_price
+  }))
+}
@@ -0,0 +1,199 @@
+/**
+ * Order ETA
+ *
+ * Customer side of the queue-aware estimate in
+ * @cafe/utils/calculations/orderEta: loads the open kitchen orders, the
+ * typical prep time of every menu item in them, the station setup and the
+ * kitchen staff clocked in, then estimates one order's ready time and queue
+ * position, or what a new order would wait right now.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js'
+import type { Database } from '@/types/database'
+import {
+  PREP_HISTORY_DAYS,
+  estimateKitchenLoad,
+  estimateOrderEta,
+  typicalPrepMinutes,
+  type EtaOrder,
+  type KitchenLoad,
+  type KitchenQueue,
+  type OrderEta,
+  type PrepTimeSample
+} from '@cafe/utils/calculations/orderEta'
+import { KITCHEN_OPEN_ORDER_STATUSES } from '@cafe/utils/calculations/kitchenPerformance'
+import { parseKitchenStationSettings } from '@cafe/utils/helpers/kitchenStations'
+import { normalizeBusinessCalendar, todayBusinessDate } from '@cafe/utils/helpers/businessCalendar'
+import { ApiError } from '@/lib/api/errors'
+
+// Paid for or being paid, not yet in the kitchen
+const AWAITING_KITCHEN_STATUSES = ['pending_payment', 'payment_verification']
+
+// Types
+export interface OrderEtaResult extends OrderEta {
+  order_id: string
+  status: string
+}
+
+export class OrderEtaError extends ApiError {
+  name = 'OrderEtaError'
+}
+
+type OrderEtaClient = SupabaseClient<Database>
+
+const ORDER_COLUMNS = `
+  id, status, created_at, confirmed_at, preparing_at,
+  order_items(menu_item_id, quantity, status, menu_items(menu_categories(slug)))
+`
+
+function toEtaOrder(row: any, queuedAt?: string): EtaOrder {
+  return {
+    id: row.id,
+    queued_at: queuedAt || row.confirmed_at || row.created_at,
+    started_at: row.preparing_at || null,
+    items: (row.order_items || []).map((item: any) => ({
+      menu_item_id: item.menu_item_id,
+      category: item.menu_items?.menu_categories?.slug || null,
+      quantity: item.quantity,
+      status: item.status
+    }))
+  }
+}
+
+async function loadSetting(supabase: OrderEtaClient, category: string, key: string): Promise<unknown> {
+  const { data } = await (supabase as any)
+    .from('system_settings')
+    .select('value')
+    .eq('category', category)
+    .eq('key', key)
+    .maybeSingle()
+
+  return data?.value
+}
+
+async function loadPrepMinutes(supabase: OrderEtaClient, menuItemIds: string[]): Promise<Record<string, number>> {
+  if (menuItemIds.length === 0) return {}
+
+  const since = new Date(Date.now() - PREP_HISTORY_DAYS * 24 * 60 * 60 * 1000).toISOString()
+  const [{ data: menuItems }, { data: bumped }] = await Promise.all([
+    (supabase as any)
+      .from('menu_items')
+      .select('id, estimated_prep_time')
+      .in('id', menuItemIds),
+    (supabase as any)
+      .from('order_items')
+      .select('menu_item_id, bumped_at, orders!inner(confirmed_at, preparing_at)')
+      .in('menu_item_id', menuItemIds)
+      .gte('bumped_at', since)
+      .limit(2000)
+  ])
+
+  const estimated: Record<string, number | null> = {}
+  for (const item of menuItems || []) {
+    estimated[item.id] = item.estimated_prep_time
+  }
+
+  const samples: PrepTimeSample[] = []
+  for (const item of bumped || []) {
+    const startedAt = item.orders?.preparing_at || item.orders?.confirmed_at
+    if (!startedAt) continue
+    samples.push({
+      menu_item_id: item.menu_item_id,
+      minutes: (new Date(item.bumped_at).getTime() - new Date(startedAt).getTime()) / 60000
+    })
+  }
+
+  return typicalPrepMinutes(samples, estimated)
+}
+
+async function countKitchenStaffOnShift(supabase: OrderEtaClient): Promise<number> {
+  const calendar = normalizeBusinessCalendar(await loadSetting(supabase, 'cafe', 'business_calendar'))
+  const { data } = await (supabase as any)
+    .from('attendance')
+    .select('employee_id, employees!inner(position)')
+    .eq('date', todayBusinessDate(calendar))
+    .not('clock_in', 'is', null)
+    .is('clock_out', null)
+    .eq('employees.position', 'dapur')
+
+  return new Set((data || []).map((row: any) => row.employee_id)).size
+}
+
+/**
+ * Open kitchen orders with everything the estimate needs; prep times also
+ * cover the extra menu items (an order not in the queue yet)
+ */
+export async function loadKitchenQueue(
+  supabase: OrderEtaClient,
+  extraMenuItemIds: string[] = []
+): Promise<KitchenQueue> {
+  const { data, error } = await (supabase as any)
+    .from('orders')
+    .select(ORDER_COLUMNS)
+    .in('status', KITCHEN_OPEN_ORDER_STATUSES)
+
+  if (error) {
+    throw new OrderEtaError(`Failed to load kitchen queue: ${error.message}`, 'ORDER_ETA_FAILED', 500)
+  }
+
+  const orders = (data || []).map((row: any) => toEtaOrder(row))
+  const menuItemIds = new Set<string>(extraMenuItemIds)
+  for (const order of orders) {
+    for (const item of order.items) menuItemIds.add(item.menu_item_id)
+  }
+
+  const [prepMinutes, stations, staffOnShift] = await Promise.all([
+    loadPrepMinutes(supabase, Array.from(menuItemIds)),
+    loadSetting(supabase, 'kitchen', 'stations'),
+    countKitchenStaffOnShift(supabase)
+  ])
+
+  return {
+    orders,
+    prep_minutes: prepMinutes,
+    staff_on_shift: staffOnShift,
+    stations: parseKitchenStationSettings(stations)
+  }
+}
+
+/**
+ * Ready time and queue position of an order the kitchen has not finished;
+ * null once it is ready (or cancelled)
+ */
+export async function getOrderEta(supabase: OrderEtaClient, orderId: string): Promise<OrderEtaResult | null> {
+  const { data: row, error } = await (supabase as any)
+    .from('orders')
+    .select(ORDER_COLUMNS)
+    .eq('id', orderId)
+    .maybeSingle()
+
+  if (error) {
+    throw new OrderEtaError(`Failed to load order: ${error.message}`, 'ORDER_ETA_FAILED', 500)
+  }
+  if (!row) {
+    throw new OrderEtaError('Pesanan tidak ditemukan', 'ORDER_NOT_FOUND', 404)
+  }
+
+  const awaitingKitchen = AWAITING_KITCHEN_STATUSES.includes(row.status)
+  if (!awaitingKitchen && !KITCHEN_OPEN_ORDER_STATUSES.includes(row.status)) {
+    return null
+  }
+
+  const now = new Date()
+  // Until payment is confirmed the order joins the back of the queue
+  const order = toEtaOrder(row, awaitingKitchen ? now.toISOString() : undefined)
+  const queue = await loadKitchenQueue(supabase, order.items.map(item => item.menu_item_id))
+
+  return {
+    order_id: row.id,
+    status: row.status,
+    ...estimateOrderEta(order, queue, now)
+  }
+}
+
+/**
+ * What an order placed now would wait, and whether the kitchen is busy
+ */
+export async function getKitchenLoad(supabase: OrderEtaClient): Promise<KitchenLoad> {
+  return estimateKitchenLoad(await loadKitchenQueue(supabase))
+}
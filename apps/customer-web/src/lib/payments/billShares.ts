@@ -0,0 +1,291 @@
+/**
+ * Split Bills
+ *
+ * Server side of paying one order in several shares (`order_bill_shares`).
+ * The amounts are always computed here from the stored order and its items;
+ * the client only chooses the method, the payers and, for an items or custom
+ * split, who pays what. Each share is then paid like a normal order, with its
+ * own payment method, proof and verification.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js'
+import type { Database } from '@/types/database'
+import {
+  splitBill,
+  SplitBillError,
+  type SplitItemAssignment,
+  type SplitMethod,
+  type SplitShareInput
+} from '@cafe/utils/calculations/splitBill'
+import { ApiError } from '@/lib/api/errors'
+
+// Types
+export type BillShareStatus = 'pending' | 'processing' | 'verified' | 'failed'
+
+export interface BillShareRow {
+  id: string
+  order_id: string
+  share_number: number
+  payer_name: string
+  split_method: SplitMethod
+  item_allocations: SplitItemAssignment[]
+  subtotal: number
+  discount_amount: number
+  tax_amount: number
+  service_charge: number
+  amount: number
+  payment_method: 'cash' | 'qris' | 'transfer' | 'card' | null
+  status: BillShareStatus
+  proof_url: string | null
+  verified_at: string | null
+  created_at: string
+}
+
+export class BillShareError extends ApiError {
+  name = 'BillShareError'
+}
+
+type BillShareClient = SupabaseClient<Database>
+
+const SPLIT_METHODS: SplitMethod[] = ['equal', 'items', 'custom']
+
+const toShareRow = (share: any): BillShareRow => ({
+  ...share,
+  subtotal: Number(share.subtotal),
+  discount_amount: Number(share.discount_amount),
+  tax_amount: Number(share.tax_amount),
+  service_charge: Number(share.service_charge),
+  amount: Number(share.amount),
+  item_allocations: share.item_allocations || []
+})
+
+export async function loadBillShares(supabase: BillShareClient, orderId: string): Promise<BillShareRow[]> {
+  const { data, error } = await (supabase as any)
+    .from('order_bill_shares')
+    .select('*')
+    .eq('order_id', orderId)
+    .order('share_number', { ascending: true })
+
+  if (error) {
+    throw new BillShareError(`Failed to load bill shares: ${error.message}`, 'BILL_SPLIT_FAILED', 500)
+  }
+
+  return (data || []).map(toShareRow)
+}
+
+/**
+ * One share of the order that can still be paid
+ */
+export async function loadPayableShare(
+  supabase: BillShareClient,
+  orderId: string,
+  shareId: string
+): Promise<BillShareRow> {
+  const { data, error } = await (supabase as any)
+    .from('order_bill_shares')
+    .select('*')
+    .eq('id', shareId)
+    .maybeSingle()
+
+  if (error) {
+    throw new BillShareError(`Failed to load bill share: ${error.message}`, 'BILL_SPLIT_FAILED', 500)
+  }
+
+  if (!data || data.order_id !== orderId) {
+    throw new BillShareError('Bagian tagihan tidak ditemukan', 'BILL_SHARE_NOT_FOUND', 404)
+  }
+
+  if (data.status === 'verified') {
+    throw new BillShareError('Bagian tagihan ini sudah dibayar', 'BILL_SHARE_PAID', 409)
+  }
+
+  return toShareRow(data)
+}
+
+/**
+ * Split the order, replacing an earlier split as long as nobody has paid yet
+ */
+export async function createBillSplit(
+  supabase: BillShareClient,
+  orderId: string,
+  method: SplitMethod,
+  shares: SplitShareInput[]
+): Promise<BillShareRow[]> {
+  if (!SPLIT_METHODS.includes(method)) {
+    throw new BillShareError(`Metode pembagian tidak valid: ${method}`, 'INVALID_SPLIT_METHOD')
+  }
+
+  if (!Array.isArray(shares)) {
+    throw new BillShareError('Daftar pembayar tidak valid', 'INVALID_SHARES')
+  }
+
+  const { data: order, error: orderError } = await (supabase as any)
+    .from('orders')
+    .select('id, status, payment_status, subtotal, discount_amount, tax_amount, service_charge, total_amount, order_items(id, quantity, subtotal)')
+    .eq('id', orderId)
+    .maybeSingle()
+
+  if (orderError) {
+    throw new BillShareError(`Failed to load order: ${orderError.message}`, 'BILL_SPLIT_FAILED', 500)
+  }
+
+  if (!order) {
+    throw new BillShareError('Pesanan tidak ditemukan', 'ORDER_NOT_FOUND', 404)
+  }
+
+  if (order.status === 'cancelled') {
+    throw new BillShareError('Pesanan sudah dibatalkan', 'ORDER_CANCELLED', 409)
+  }
+
+  if (order.payment_status === 'verified') {
+    throw new BillShareError('Pesanan sudah dibayar', 'ORDER_PAID', 409)
+  }
+
+  await assertSplitEditable(supabase, orderId)
+
+  let computed
+  try {
+    computed = splitBill(
+      {
+        subtotal: Number(order.subtotal),
+        discount_amount: Number(order.discount_amount || 0),
+        tax_amount: Number(order.tax_amount || 0),
+        service_charge: Number(order.service_charge || 0),
+        total_amount: Number(order.total_amount)
+      },
+      (order.order_items || []).map((item: any) => ({
+        order_item_id: item.id,
+        quantity: Number(item.quantity),
+        subtotal: Number(item.subtotal)
+      })),
+      method,
+      shares
+    )
+  } catch (error) {
+    if (error instanceof SplitBillError) {
+      throw new BillShareError(error.message, error.code)
+    }
+    throw error
+  }
+
+  await deleteBillShares(supabase, orderId)
+
+  const { data: inserted, error: insertError } = await (supabase as any)
+    .from('order_bill_shares')
+    .insert(computed.map(share => ({
+      order_id: orderId,
+      share_number: share.share_number,
+      payer_name: share.payer_name.slice(0, 100),
+      split_method: method,
+      item_allocations: share.items,
+      subtotal: share.subtotal,
+      discount_amount: share.discount_amount,
+      tax_amount: share.tax_amount,
+      service_charge: share.service_charge,
+      amount: share.amount
+    })))
+    .select()
+
+  if (insertError) {
+    throw new BillShareError(`Failed to save bill split: ${insertError.message}`, 'BILL_SPLIT_FAILED', 500)
+  }
+
+  await setOrderSplitMethod(supabase, orderId, method)
+
+  return (inserted || []).map(toShareRow).sort((a: BillShareRow, b: BillShareRow) => a.share_number - b.share_number)
+}
+
+/**
+ * Go back to paying the order in one go
+ */
+export async function cancelBillSplit(supabase: BillShareClient, orderId: string): Promise<void> {
+  await assertSplitEditable(supabase, orderId)
+  await deleteBillShares(supabase, orderId)
+  await setOrderSplitMethod(supabase, orderId, null)
+}
+
+// A split is fixed once any share has started paying
+async function assertSplitEditable(supabase: BillShareClient, orderId: string): Promise<void> {
+  const existing = await loadBillShares(supabase, orderId)
+  if (existing.some(share => share.status !== 'pending')) {
+    throw new BillShareError(
+      'Pembagian tagihan tidak bisa diubah karena sudah ada yang membayar',
+      'BILL_SPLIT_LOCKED',
+      409
+    )
+  }
+}
+
+async function deleteBillShares(supabase: BillShareClient, orderId: string): Promise<void> {
+  const { error } = await (supabase as any)
+    .from('order_bill_shares')
+    .delete()
+    .eq('order_id', orderId)
+    .eq('status', 'pending')
+
+  if (error) {
+    throw new BillShareError(`Failed to clear bill split: ${error.message}`, 'BILL_SPLIT_FAILED', 500)
+  }
+}
+
+async function setOrderSplitMethod(
+  supabase: BillShareClient,
+  orderId: string,
+  method: SplitMethod | null
+): Promise<void> {
+  const { error } = await (supabase as any)
+    .from('orders')
+    .update({ split_method: method, updated_at: new Date().toISOString() })
+    .eq('id', orderId)
+
+  if (error) {
+    console.error('Error updating order split method:', error)
+  }
+}
+
+/**
+ * Record that a share is being paid with the given method; from here on the
+ * split can no longer be changed
+ */
+export async function startBillSharePayment(
+  supabase: BillShareClient,
+  shareId: string,
+  method: string
+): Promise<void> {
+  const { error } = await (supabase as any)
+    .from('order_bill_shares')
+    .update({
+      payment_method: method,
+      status: 'processing',
+      updated_at: new Date().toISOString()
+    })
+    .eq('id', shareId)
+    .neq('status', 'verified')
+
+  if (error) {
+    console.error('Error updating bill share payment:', error)
+  }
+}
+
+/**
+ * Attach an uploaded proof to the share the transaction pays for
+ */
+export async function attachBillShareProof(
+  supabase: BillShareClient,
+  shareId: string,
+  proofUrl: string
+): Promise<void> {
+  const { error } = await (supabase as any)
+    .from('order_bill_shares')
+    .update({
+      proof_url: proofUrl,
+      status: 'processing',
+      updated_at: new Date().toISOString()
+    })
+    .eq('id', shareId)
+    .neq('status', 'verified')
+
+  if (error) {
+    console.error('Error attaching proof to bill share:', error)
+  }
+}
@@ -0,0 +1,131 @@
+/**
+ * Payment Proof Fingerprints
+ *
+ * Fingerprints each uploaded proof into `payment_proof_hashes` and looks for
+ * the same screenshot on a different order. Matches are stored on the row so
+ * the kasir verification queue can show both proofs side by side.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js'
+import type { Database } from '@/types/database'
+import {
+  compareFingerprints,
+  fingerprintImage,
+  hammingDistance,
+  PROOF_MATCH_THRESHOLDS,
+  type FingerprintMatch,
+  type ImageFingerprint
+} from '@cafe/utils/images'
+
+// How far back perceptual matches are searched; exact copies always match
+export const PROOF_MATCH_WINDOW_DAYS = 90
+
+export interface ProofDuplicate extends FingerprintMatch {
+  order_id: string
+  proof_url: string
+}
+
+/**
+ * Find the earliest proof on another order that matches this fingerprint
+ */
+export async function findDuplicateProof(
+  supabase: SupabaseClient<Database>,
+  fingerprint: ImageFingerprint,
+  orderId: string
+): Promise<ProofDuplicate | null> {
+  const { data: exact, error: exactError } = await (supabase as any)
+    .from('payment_proof_hashes')
+    .select('order_id, proof_url')
+    .eq('sha256', fingerprint.sha256)
+    .neq('order_id', orderId)
+    .order('created_at', { ascending: true })
+    .limit(1)
+
+  if (exactError) throw exactError
+
+  if (exact && exact.length > 0) {
+    return {
+      order_id: exact[0].order_id,
+      proof_url: exact[0].proof_url,
+      match_type: 'exact',
+      phash_distance: 0,
+      signature_distance: 0
+    }
+  }
+
+  if (!fingerprint.phash || !fingerprint.signature) return null
+
+  const since = new Date(Date.now() - PROOF_MATCH_WINDOW_DAYS * 24 * 60 * 60 * 1000)
+
+  // Narrow down by pHash first, signatures are only loaded for candidates
+  const { data: recent, error: recentError } = await (supabase as any)
+    .from('payment_proof_hashes')
+    .select('id, phash')
+    .neq('order_id', orderId)
+    .not('phash', 'is', null)
+    .gte('created_at', since.toISOString())
+
+  if (recentError) throw recentError
+
+  const candidateIds = (recent || [])
+    .filter((row: { phash: string }) =>
+      hammingDistance(row.phash, fingerprint.phash!) <= PROOF_MATCH_THRESHOLDS.phash
+    )
+    .map((row: { id: string }) => row.id)
+
+  if (candidateIds.length === 0) return null
+
+  const { data: candidates, error: candidatesError } = await (supabase as any)
+    .from('payment_proof_hashes')
+    .select('order_id, proof_url, sha256, phash, signature, created_at')
+    .in('id', candidateIds)
+    .order('created_at', { ascending: true })
+
+  if (candidatesError) throw candidatesError
+
+  let best: ProofDuplicate | null = null
+  for (const candidate of candidates || []) {
+    const match = compareFingerprints(fingerprint, candidate)
+    if (match && (!best || match.signature_distance < best.signature_distance)) {
+      best = { ...match, order_id: candidate.order_id, proof_url: candidate.proof_url }
+    }
+  }
+
+  return best
+}
+
+/**
+ * Fingerprint an uploaded proof, store it and return any duplicate found
+ */
+export async function recordProofFingerprint(
+  supabase: SupabaseClient<Database>,
+  proof: {
+    orderId: string
+    paymentId: string
+    proofUrl: string
+    bytes: Uint8Array
+  }
+): Promise<ProofDuplicate | null> {
+  const fingerprint = await fingerprintImage(proof.bytes)
+  const duplicate = await findDuplicateProof(supabase, fingerprint, proof.orderId)
+
+  const { error } = await (supabase as any)
+    .from('payment_proof_hashes')
+    .insert({
+      order_id: proof.orderId,
+      payment_id: proof.paymentId,
+      proof_url: proof.proofUrl,
+      sha256: fingerprint.sha256,
+      phash: fingerprint.phash,
+      signature: fingerprint.signature,
+      matched_order_id: duplicate?.order_id ?? null,
+      matched_proof_url: duplicate?.proof_url ?? null,
+      match_type: duplicate?.match_type ?? null,
+      phash_distance: duplicate?.phash_distance ?? null,
+      signature_distance: duplicate?.signature_distance ?? null
+    })
+
+  if (error) throw error
+
+  return duplicate
+}
@@ -0,0 +1,110 @@
+/**
+ * Order QRIS
+ *
+ * Builds the dynamic QRIS for an order from the merchant's static QRIS
+ * (payment_configurations.qris_payload). The amount always comes from the
+ * order row (or the bill share row for a split bill), never from the client.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js'
+import type { Database } from '@/types/database'
+import {
+  createDynamicQRIS,
+  getQRISMerchantInfo,
+  QRISError
+} from '@cafe/utils/payments/qris'
+import { ApiError } from '@/lib/api/errors'
+
+// Dynamic QRIS validity shown to the customer
+export const QRIS_EXPIRY_MINUTES = 15
+
+export interface OrderQRIS {
+  qr_payload: string
+  merchant_name: string
+  merchant_city: string
+  nmid?: string
+  reference: string
+  amount: number
+  expires_at: string
+}
+
+export class QRISConfigurationError extends ApiError {
+  name = 'QRISConfigurationError'
+
+  constructor(message: string, status: number = 503) {
+    super(message, 'QRIS_UNAVAILABLE', status)
+  }
+}
+
+/**
+ * Load the active merchant static QRIS from `payment_configurations`
+ */
+export async function loadMerchantQRIS(supabase: SupabaseClient<Database>): Promise<string> {
+  const { data, error } = await (supabase as any)
+    .from('payment_configurations')
+    .select('qris_payload')
+    .eq('payment_method', 'qris')
+    .eq('is_active', true)
+    .maybeSingle()
+
+  if (error) {
+    console.error('Error loading QRIS configuration:', error)
+    throw new QRISConfigurationError('Gagal memuat konfigurasi QRIS', 500)
+  }
+
+  if (!data?.qris_payload) {
+    throw new QRISConfigurationError('QRIS belum dikonfigurasi. Silakan pilih metode pembayaran lain.')
+  }
+
+  return data.qris_payload
+}
+
+/**
+ * Build the dynamic QRIS for an order from its stored total and order number.
+ * A share of a split bill gets its own amount and a reference suffixed with
+ * the share number.
+ */
+export async function buildOrderQRIS(
+  supabase: SupabaseClient<Database>,
+  orderId: string,
+  createdAt: Date = new Date(),
+  share?: { amount: number; share_number: number }
+): Promise<OrderQRIS> {
+  const { data: order, error } = await (supabase as any)
+    .from('orders')
+    .select('id, order_number, total_amount')
+    .eq('id', orderId)
+    .single()
+
+  if (error || !order) {
+    throw new QRISConfigurationError('Pesanan tidak ditemukan', 404)
+  }
+
+  const staticPayload = await loadMerchantQRIS(supabase)
+  const amount = share ? Number(share.amount) : Number(order.total_amount)
+  const orderReference = order.order_number || order.id.slice(-8).toUpperCase()
+  const reference = share ? `${orderReference}-${share.share_number}` : orderReference
+
+  let qrPayload: string
+  try {
+    qrPayload = createDynamicQRIS(staticPayload, { amount, reference })
+  } catch (error) {
+    if (error instanceof QRISError) {
+      console.error('Invalid merchant QRIS configuration:', error.code, error.message)
+      throw new QRISConfigurationError('Konfigurasi QRIS tidak valid', 500)
+    }
+    throw error
+  }
+
+  const merchant = getQRISMerchantInfo(qrPayload)
+
+  return {
+    qr_payload: qrPayload,
+    merchant_name: merchant?.merchantName || '',
+    merchant_city: merchant?.merchantCity || '',
+    nmid: merchant?.nmid,
+    reference: merchant?.billNumber || reference,
+    amount,
+    expires_at: new Date(createdAt.getTime() + QRIS_EXPIRY_MINUTES * 60 * 1000).toISOString()
+  }
+}
@@ -0,0 +1,88 @@
+/**
+ * Transfer Approval Prompt
+ *
+ * Once a transfer proof is uploaded for a whole order, the owner gets it in
+ * Telegram with approve and reject buttons, signed for the owner's chat (see
+ * @cafe/utils/helpers/telegramActions). The owner dashboard's Telegram
+ * webhook confirms the order or sends it back for payment. Shares of a split
+ * bill are verified one by one in the dashboard instead.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js'
+import type { Database } from '@/types/database'
+import { buildApprovalKeyboard } from '@cafe/utils/helpers/telegramActions'
+
+type TransferApprovalClient = SupabaseClient<Database>
+
+const TELEGRAM_BOT_TOKEN = process.env.TELEGRAM_BOT_TOKEN || ''
+const TELEGRAM_CALLBACK_SECRET = process.env.TELEGRAM_CALLBACK_SECRET || ''
+
+const formatCurrency = (amount: number) => `Rp ${new Intl.NumberFormat('id-ID').format(amount)}`
+
+const escapeHtml = (text: string) => String(text)
+  .replace(/&/g, '&amp;')
+  .replace(/</g, '&lt;')
+  .replace(/>/g, '&gt;')
+
+/**
+ * Send the owner the proof of an order's transfer to verify
+ */
+export async function sendTransferApprovalPrompt(
+  supabase: TransferApprovalClient,
+  orderId: string,
+  proofUrl: string
+): Promise<boolean> {
+  if (!TELEGRAM_BOT_TOKEN || !TELEGRAM_CALLBACK_SECRET) {
+    return false
+  }
+
+  const [{ data: ownerSettings }, { data: order }] = await Promise.all([
+    (supabase as any)
+      .from('system_settings')
+      .select('value')
+      .eq('key', 'owner_telegram_chat_id')
+      .maybeSingle(),
+    (supabase as any)
+      .from('orders')
+      .select('id, order_number, customer_name, total_amount, payment_method, tables ( table_number )')
+      .eq('id', orderId)
+      .maybeSingle()
+  ])
+
+  if (!ownerSettings?.value || !order || order.payment_method !== 'transfer') {
+    return false
+  }
+
+  const chatId = String(ownerSettings.value)
+  const caption = `<b>💳 Bukti Transfer Masuk</b>\n\n` +
+    `🧾 <b>Pesanan:</b> ${escapeHtml(order.order_number)}\n` +
+    (order.tables?.table_number ? `🪑 <b>Meja:</b> ${escapeHtml(order.tables.table_number)}\n` : '') +
+    (order.customer_name ? `👤 <b>Pelanggan:</b> ${escapeHtml(order.customer_name)}\n` : '') +
+    `💰 <b>Total:</b> ${formatCurrency(parseFloat(order.total_amount || 0))}\n\n` +
+    `Cocokkan dengan mutasi rekening sebelum menyetujui.`
+
+  const response = await fetch(`https://api.telegram.org/bot${TELEGRAM_BOT_TOKEN}/sendPhoto`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json'
+    },
+    body: JSON.stringify({
+      chat_id: chatId,
+      photo: proofUrl,
+      caption,
+      parse_mode: 'HTML',
+      reply_markup: {
+        inline_keyboard: await buildApprovalKeyboard('payment', orderId, chatId, TELEGRAM_CALLBACK_SECRET)
+      }
+    })
+  })
+
+  const data = await response.json()
+
+  if (!data.ok) {
+    console.error('Telegram API error:', data.description)
+    return false
+  }
+
+  return true
+}
@@ -0,0 +1,163 @@
+/**
+ * Loyalty Points at Checkout
+ *
+ * Looks up a customer's points by phone and redeems them on a new order
+ * through `redeem_loyalty_points`, which locks the customer's ledger so two
+ * checkouts cannot spend the same points. Earning happens in the database
+ * when the order is completed.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js'
+import type { Database } from '@/types/database'
+import {
+  calculateRedemption,
+  LoyaltyError,
+  normalizeLoyaltyPhone,
+  normalizeLoyaltyRules,
+  DEFAULT_LOYALTY_RULES,
+  type LoyaltyRedemption,
+  type LoyaltyRules
+} from '@cafe/utils/calculations/loyalty'
+import { OrderPricingError } from './orderPricing'
+
+type LoyaltyClient = SupabaseClient<Database>
+
+export interface LoyaltyBalance {
+  customer_phone: string
+  balance: number
+  // Points that expire soonest, and when
+  expiring_points: number
+  expiring_at: string | null
+}
+
+const REDEMPTION_ERRORS: Record<string, string> = {
+  LOYALTY_INVALID_PHONE: 'Nomor telepon tidak valid untuk program poin',
+  LOYALTY_INSUFFICIENT_POINTS: 'Poin tidak cukup'
+}
+
+/**
+ * Load the `loyalty/rules` system setting
+ */
+export async function loadLoyaltyRules(supabase: LoyaltyClient): Promise<LoyaltyRules> {
+  const { data, error } = await (supabase as any)
+    .from('system_settings')
+    .select('value')
+    .eq('category', 'loyalty')
+    .eq('key', 'rules')
+    .maybeSingle()
+
+  if (error || !data?.value) {
+    if (error) console.error('Error loading loyalty rules, using defaults:', error)
+    return DEFAULT_LOYALTY_RULES
+  }
+
+  return normalizeLoyaltyRules(data.value)
+}
+
+/**
+ * Current balance: the unspent part of every lot that has not expired yet.
+ * Expired lots are written off by the next ledger write, so they are simply
+ * left out here.
+ */
+export async function loadLoyaltyBalance(supabase: LoyaltyClient, phone: string): Promise<LoyaltyBalance> {
+  const customerPhone = normalizeLoyaltyPhone(phone)
+  if (!customerPhone) {
+    throw new OrderPricingError('Nomor telepon tidak valid', 'LOYALTY_INVALID_PHONE')
+  }
+
+  const now = new Date().toISOString()
+  const { data, error } = await (supabase as any)
+    .from('loyalty_points')
+    .select('points_remaining, expires_at')
+    .eq('customer_phone', customerPhone)
+    .gt('points_remaining', 0)
+    .or(`expires_at.is.null,expires_at.gt.${now}`)
+    .order('expires_at', { ascending: true, nullsFirst: false })
+
+  if (error) {
+    throw new OrderPricingError(`Failed to load loyalty points: ${error.message}`, 'LOYALTY_LOOKUP_FAILED', 500)
+  }
+
+  const lots = (data || []) as Array<{ points_remaining: number; expires_at: string | null }>
+  const [nextLot] = lots
+  const expiringAt = nextLot?.expires_at || null
+
+  return {
+    customer_phone: customerPhone,
+    balance: lots.reduce((total, lot) => total + Number(lot.points_remaining), 0),
+    expiring_points: expiringAt
+      ? lots.filter(lot => lot.expires_at === expiringAt).reduce((total, lot) => total + Number(lot.points_remaining), 0)
+      : 0,
+    expiring_at: expiringAt
+  }
+}
+
+/**
+ * Price the points a customer wants to use on an order
+ *
+ * @param eligibleAmount - Subtotal after promo discounts
+ */
+export async function quoteLoyaltyRedemption(
+  supabase: LoyaltyClient,
+  phone: string | null,
+  requestedPoints: unknown,
+  eligibleAmount: number
+): Promise<LoyaltyRedemption> {
+  const points = Math.floor(Number(requestedPoints) || 0)
+  if (points <= 0) {
+    return { points: 0, discount_amount: 0 }
+  }
+
+  if (!phone) {
+    throw new OrderPricingError('Nomor telepon wajib diisi untuk menukar poin', 'LOYALTY_INVALID_PHONE')
+  }
+
+  const [rules, balance] = await Promise.all([
+    loadLoyaltyRules(supabase),
+    loadLoyaltyBalance(supabase, phone)
+  ])
+
+  try {
+    return calculateRedemption(balance.balance, points, eligibleAmount, rules)
+  } catch (error) {
+    if (error instanceof LoyaltyError) {
+      throw new OrderPricingError(error.message, error.code, error.code === 'LOYALTY_INSUFFICIENT_POINTS' ? 409 : 400)
+    }
+    throw error
+  }
+}
+
+/**
+ * Spend the points on a new order. Throws LOYALTY_INSUFFICIENT_POINTS when
+ * the balance was used elsewhere in the meantime; nothing is recorded then.
+ */
+export async function redeemOrderLoyaltyPoints(
+  supabase: LoyaltyClient,
+  orderId: string,
+  phone: string | null,
+  redemption: LoyaltyRedemption
+): Promise<void> {
+  if (redemption.points <= 0) return
+
+  const { error } = await (supabase as any).rpc('redeem_loyalty_points', {
+    p_order_id: orderId,
+    p_customer_phone: phone,
+    p_points: redemption.points,
+    p_discount_amount: redemption.discount_amount
+  })
+
+  if (error) {
+    const message = REDEMPTION_ERRORS[error.message]
+    if (message) {
+      throw new OrderPricingError(
+        error.message === 'LOYALTY_INSUFFICIENT_POINTS' && error.details
+          ? `${message}, saldo Anda ${error.details} poin`
+          : message,
+        error.message,
+        409
+      )
+    }
+
+    throw new OrderPricingError(`Failed to redeem loyalty points: ${error.message}`, 'LOYALTY_REDEMPTION_FAILED', 500)
+  }
+}
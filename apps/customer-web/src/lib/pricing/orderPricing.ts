@@ -0,0 +1,339 @@
+/**
+ * Server-side Order Pricing
+ *
+ * Recomputes every order line from the database (menu_items base price,
+ * menu_customization_options price adjustments, tax/rates system setting, the
+ * promos applied by the promo engine and any loyalty points redeemed) and
+ * compares the result against the totals the client submitted. The client cart is only ever treated as a claim.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js'
+import type { Database } from '@/types/database'
+import type { AppliedPromo, PromoApplication } from '@cafe/utils/calculations/discount'
+import type { LoyaltyRedemption } from '@cafe/utils/calculations/loyalty'
+import { ApiError } from '@/lib/api/errors'
+
+// Default rates, mirrors the seeded `tax/rates` system setting
+export const DEFAULT_TAX_RATES: TaxRates = { ppn: 11, service: 5 }
+
+// Discounted orders can never go below this total
+export const MINIMUM_ORDER_TOTAL = 1000
+
+// Maximum rupiah difference tolerated between client and server amounts
+export const PRICE_TOLERANCE = 1
+
+const MAX_QUANTITY_PER_LINE = 10
+
+// Types
+export interface TaxRates {
+  ppn: number // percentage, e.g. 11
+  service: number // percentage, e.g. 5
+}
+
+export interface OrderItemInput {
+  menu_item_id: string
+  quantity: number
+  customizations?: Record<string, string[]>
+  notes?: string
+  unit_price?: number
+}
+
+export interface ClientTotals {
+  subtotal?: number
+  tax_amount?: number
+  service_fee?: number
+  discount_amount?: number
+  total_amount?: number
+}
+
+export interface PricedLine {
+  menu_item_id: string
+  category_id: string | null
+  item_name: string
+  item_price: number
+  quantity: number
+  customizations: Record<string, string[]>
+  customization_price: number
+  unit_price: number
+  subtotal: number
+  notes: string | null
+}
+
+export interface OrderQuote {
+  lines: PricedLine[]
+  subtotal: number
+  tax_amount: number
+  service_fee: number
+  discount_amount: number // promos and loyalty points together
+  total_amount: number
+  rates: TaxRates
+  promos: AppliedPromo[]
+  loyalty: LoyaltyRedemption
+}
+
+export interface PriceMismatch {
+  field: 'line_count' | 'unit_price' | keyof ClientTotals
+  line_index?: number
+  menu_item_id?: string
+  client: number
+  server: number
+  difference: number
+}
+
+export class OrderPricingError extends ApiError {
+  name = 'OrderPricingError'
+}
+
+type PricingClient = SupabaseClient<Database>
+
+/**
+ * Load tax and service charge rates from `system_settings` (tax/rates)
+ */
+export async function loadTaxRates(supabase: PricingClient): Promise<TaxRates> {
+  const { data, error } = await (supabase as any)
+    .from('system_settings')
+    .select('value')
+    .eq('category', 'tax')
+    .eq('key', 'rates')
+    .maybeSingle()
+
+  if (error || !data?.value) {
+    if (error) console.error('Error loading tax rates, using defaults:', error)
+    return DEFAULT_TAX_RATES
+  }
+
+  const value = typeof data.value === 'string' ? JSON.parse(data.value) : data.value
+  const ppn = Number(value.ppn)
+  const service = Number(value.service)
+
+  return {
+    ppn: Number.isFinite(ppn) && ppn >= 0 ? ppn : DEFAULT_TAX_RATES.ppn,
+    service: Number.isFinite(service) && service >= 0 ? service : DEFAULT_TAX_RATES.service
+  }
+}
+
+/**
+ * Price every line from menu_items and menu_customization_options
+ */
+export async function priceOrderLines(
+  supabase: PricingClient,
+  items: OrderItemInput[]
+): Promise<PricedLine[]> {
+  const menuItemIds = [...new Set(items.map(item => item.menu_item_id))]
+  const optionIds = [
+    ...new Set(
+      items.flatMap(item => Object.values(item.customizations || {}).flat())
+    )
+  ]
+
+  const { data: menuItems, error: menuError } = await supabase
+    .from('menu_items')
+    .select('id, name, category_id, base_price, is_available, ingredients_available, available_portions')
+    .in('id', menuItemIds)
+
+  if (menuError) {
+    throw new OrderPricingError(`Failed to load menu items: ${menuError.message}`, 'MENU_LOOKUP_FAILED', 500)
+  }
+
+  const menuById = new Map((menuItems || []).map(menuItem => [menuItem.id, menuItem]))
+
+  const optionsById = new Map<string, {
+    id: string
+    option_name: string
+    price_adjustment: number
+    is_available: boolean
+    ingredients_available: boolean
+    group_id?: string
+    menu_item_id?: string
+  }>()
+
+  if (optionIds.length > 0) {
+    const { data: options, error: optionsError } = await supabase
+      .from('menu_customization_options')
+      .select('id, option_name, price_adjustment, is_available, ingredients_available, group_id, menu_customization_groups(menu_item_id)')
+      .in('id', optionIds)
+
+    if (optionsError) {
+      throw new OrderPricingError(`Failed to load customizations: ${optionsError.message}`, 'CUSTOMIZATION_LOOKUP_FAILED', 500)
+    }
+
+    for (const option of (options || []) as any[]) {
+      optionsById.set(option.id, {
+        id: option.id,
+        option_name: option.option_name,
+        price_adjustment: Number(option.price_adjustment) || 0,
+        is_available: option.is_available,
+        ingredients_available: option.ingredients_available !== false,
+        group_id: option.group_id,
+        menu_item_id: option.menu_customization_groups?.menu_item_id
+      })
+    }
+  }
+
+  // Portions ordered per menu item across all lines, checked against stock
+  const orderedPortions = new Map<string, number>()
+  for (const item of items) {
+    orderedPortions.set(item.menu_item_id, (orderedPortions.get(item.menu_item_id) || 0) + (Number(item.quantity) || 0))
+  }
+
+  return items.map(item => {
+    const menuItem = menuById.get(item.menu_item_id)
+
+    if (!menuItem) {
+      throw new OrderPricingError(`Invalid menu item: ${item.menu_item_id}`, 'INVALID_MENU_ITEM')
+    }
+
+    if (!menuItem.is_available) {
+      throw new OrderPricingError(`Menu item "${menuItem.name}" is not available`, 'MENU_ITEM_UNAVAILABLE')
+    }
+
+    const quantity = Number(item.quantity)
+    if (!Number.isInteger(quantity) || quantity < 1 || quantity > MAX_QUANTITY_PER_LINE) {
+      throw new OrderPricingError(`Invalid quantity for "${menuItem.name}"`, 'INVALID_QUANTITY')
+    }
+
+    if (menuItem.ingredients_available === false) {
+      throw new OrderPricingError(`Menu item "${menuItem.name}" is sold out`, 'MENU_ITEM_SOLD_OUT')
+    }
+
+    const availablePortions = menuItem.available_portions
+    if (availablePortions != null && (orderedPortions.get(menuItem.id) || 0) > availablePortions) {
+      throw new OrderPricingError(
+        `Only ${availablePortions} portion(s) of "${menuItem.name}" left`,
+        'INSUFFICIENT_STOCK'
+      )
+    }
+
+    const customizations = item.customizations || {}
+    let customizationPrice = 0
+
+    for (const [groupId, selectedIds] of Object.entries(customizations)) {
+      for (const optionId of selectedIds) {
+        const option = optionsById.get(optionId)
+
+        if (!option || option.group_id !== groupId || option.menu_item_id !== menuItem.id) {
+          throw new OrderPricingError(`Invalid customization for "${menuItem.name}"`, 'INVALID_CUSTOMIZATION')
+        }
+
+        if (!option.is_available) {
+          throw new OrderPricingError(
+            `Option "${option.option_name}" for "${menuItem.name}" is not available`,
+            'CUSTOMIZATION_UNAVAILABLE'
+          )
+        }
+
+        if (!option.ingredients_available) {
+          throw new OrderPricingError(
+            `Option "${option.option_name}" for "${menuItem.name}" is sold out`,
+            'CUSTOMIZATION_SOLD_OUT'
+          )
+        }
+
+        customizationPrice += option.price_adjustment
+      }
+    }
+
+    const itemPrice = Number(menuItem.base_price) || 0
+    const unitPrice = itemPrice + customizationPrice
+
+    return {
+      menu_item_id: menuItem.id,
+      category_id: menuItem.category_id || null,
+      item_name: menuItem.name,
+      item_price: itemPrice,
+      quantity,
+      customizations,
+      customization_price: customizationPrice,
+      unit_price: unitPrice,
+      subtotal: unitPrice * quantity,
+      notes: item.notes || null
+    }
+  })
+}
+
+/**
+ * Build the authoritative quote for an order
+ */
+export function buildOrderQuote(
+  lines: PricedLine[],
+  rates: TaxRates,
+  promos: PromoApplication | null,
+  loyalty: LoyaltyRedemption | null = null
+): OrderQuote {
+  const subtotal = lines.reduce((total, line) => total + line.subtotal, 0)
+  const tax_amount = Math.round(subtotal * rates.ppn / 100)
+  const service_fee = Math.round(subtotal * rates.service / 100)
+  const discount_amount = Math.min((promos?.discount_amount || 0) + (loyalty?.discount_amount || 0), subtotal)
+  const grossTotal = subtotal + tax_amount + service_fee
+  const total_amount = discount_amount > 0
+    ? Math.max(MINIMUM_ORDER_TOTAL, grossTotal - discount_amount)
+    : grossTotal
+
+  return {
+    lines,
+    subtotal,
+    tax_amount,
+    service_fee,
+    discount_amount,
+    total_amount,
+    rates,
+    promos: promos?.applied || [],
+    loyalty: loyalty || { points: 0, discount_amount: 0 }
+  }
+}
+
+/**
+ * Compare what the client submitted against the server quote, which must
+ * have been priced from the same items in the same order. Fields the client
+ * did not send are not compared; a different number of lines is reported
+ * as a line_count mismatch.
+ */
+export function diffClientPricing(
+  items: OrderItemInput[],
+  client: ClientTotals,
+  quote: OrderQuote
+): PriceMismatch[] {
+  const mismatches: PriceMismatch[] = []
+
+  const compare = (
+    field: PriceMismatch['field'],
+    clientValue: unknown,
+    serverValue: number,
+    line?: { index: number; menu_item_id: string }
+  ) => {
+    if (clientValue === undefined || clientValue === null) return
+
+    const value = Number(clientValue)
+    const difference = value - serverValue
+
+    if (!Number.isFinite(value) || Math.abs(difference) > PRICE_TOLERANCE) {
+      mismatches.push({
+        field,
+        ...(line ? { line_index: line.index, menu_item_id: line.menu_item_id } : {}),
+        client: value,
+        server: serverValue,
+        difference: Number.isFinite(difference) ? difference : 0
+      })
+    }
+  }
+
+  compare('line_count', items.length, quote.lines.length)
+
+  items.forEach((item, index) => {
+    const line = quote.lines[index]
+    if (!line) return
+
+    compare('unit_price', item.unit_price, line.unit_price, {
+      index,
+      menu_item_id: item.menu_item_id
+    })
+  })
+
+  compare('subtotal', client.subtotal, quote.subtotal)
+  compare('tax_amount', client.tax_amount, quote.tax_amount)
+  compare('service_fee', client.service_fee, quote.service_fee)
+  compare('discount_amount', client.discount_amount, quote.discount_amount)
+  compare('total_amount', client.total_amount, quote.total_amount)
+
+  return mismatches
+}
@@ -0,0 +1,269 @@
+/**
+ * Promo Lookup and Redemption
+ *
+ * Loads `promos` and the customer's earlier `promo_usage` for the promo engine
+ * in @cafe/utils, and records usage through `redeem_order_promos` when an
+ * order is created so the usage limits hold under concurrent checkouts.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js'
+import type { Database } from '@/types/database'
+import {
+  applyPromos,
+  type AppliedPromo,
+  type PromoApplication,
+  type PromoCartLine,
+  type PromoRule
+} from '@cafe/utils/calculations/discount'
+import { normalizeBusinessCalendar, type CafeTimeZone } from '@cafe/utils/helpers/businessCalendar'
+import {
+  OrderPricingError,
+  priceOrderLines,
+  type OrderItemInput,
+  type PricedLine
+} from './orderPricing'
+
+type PromoClient = SupabaseClient<Database>
+
+export const PROMO_COLUMNS = `
+  id, code, name, description, promo_type, discount_value, max_discount_amount,
+  min_purchase_amount, applicable_categories, applicable_items,
+  buy_quantity, buy_items, get_quantity, get_items, get_discount_percentage,
+  bundle_items, bundle_price, valid_from, valid_until, valid_days,
+  valid_from_time, valid_until_time, max_uses_total, max_uses_per_customer,
+  current_uses, is_active, is_stackable, excluded_promos
+`
+
+export type PromoRow = PromoRule & { description?: string | null }
+
+export interface PromoEvaluation extends PromoApplication {
+  promos: PromoRow[]
+  missing: string[] // codes that match no active promo
+}
+
+export interface PromoCheckInput {
+  code: string
+  items?: OrderItemInput[] // priced on the server; scoped promos need them
+  order_total?: number // fallback when the cart lines are not sent
+  customer_phone?: string | null
+  applied_codes?: string[] // codes already on the cart, for the stacking rules
+}
+
+export interface PromoCheckResult {
+  valid: boolean
+  message: string
+  promo: PromoRow | null
+  discount_amount: number // this code's share
+  total_discount: number // all codes together
+  subtotal: number
+  applied: AppliedPromo[]
+}
+
+// Messages for the exceptions raised by redeem_order_promos
+const REDEMPTION_ERRORS: Record<string, string> = {
+  PROMO_INACTIVE: 'Promo sudah tidak aktif',
+  PROMO_LIMIT_REACHED: 'Promo telah mencapai batas maksimal penggunaan',
+  PROMO_CUSTOMER_LIMIT_REACHED: 'Anda sudah menggunakan promo ini sebanyak batas maksimal'
+}
+
+/**
+ * Collect promo codes from `promo_code` and/or `promo_codes`, in entry order
+ */
+export function normalizePromoCodes(promoCode?: unknown, promoCodes?: unknown): string[] {
+  const raw = [
+    ...(typeof promoCode === 'string' ? [promoCode] : []),
+    ...(Array.isArray(promoCodes) ? promoCodes.filter((code): code is string => typeof code === 'string') : [])
+  ]
+
+  return [...new Set(raw.map(code => code.trim().toUpperCase()).filter(Boolean))]
+}
+
+export function normalizeCustomerPhone(phone?: string | null): string | null {
+  const normalized = phone?.replace(/\s+/g, '') || ''
+  return normalized || null
+}
+
+export function toPromoCartLines(lines: PricedLine[]): PromoCartLine[] {
+  return lines.map(line => ({
+    menu_item_id: line.menu_item_id,
+    category_id: line.category_id,
+    unit_price: line.unit_price,
+    quantity: line.quantity
+  }))
+}
+
+/**
+ * Active promos for the given codes, in the order the codes were entered
+ */
+export async function loadPromosByCode(
+  supabase: PromoClient,
+  codes: string[]
+): Promise<{ promos: PromoRow[]; missing: string[] }> {
+  if (codes.length === 0) return { promos: [], missing: [] }
+
+  const { data, error } = await (supabase as any)
+    .from('promos')
+    .select(PROMO_COLUMNS)
+    .in('code', codes)
+    .eq('is_active', true)
+
+  if (error) {
+    throw new OrderPricingError(`Failed to load promos: ${error.message}`, 'PROMO_LOOKUP_FAILED', 500)
+  }
+
+  const byCode = new Map<string, PromoRow>(
+    ((data || []) as PromoRow[]).map(promo => [String(promo.code).toUpperCase(), promo])
+  )
+
+  return {
+    promos: codes.map(code => byCode.get(code)).filter((promo): promo is PromoRow => !!promo),
+    missing: codes.filter(code => !byCode.has(code))
+  }
+}
+
+/**
+ * How often this phone number already used each promo
+ */
+export async function loadCustomerPromoUses(
+  supabase: PromoClient,
+  promoIds: string[],
+  customerPhone: string | null
+): Promise<Record<string, number>> {
+  if (!customerPhone || promoIds.length === 0) return {}
+
+  const { data, error } = await (supabase as any)
+    .from('promo_usage')
+    .select('promo_id')
+    .in('promo_id', promoIds)
+    .eq('customer_phone', customerPhone)
+
+  if (error) {
+    throw new OrderPricingError(`Failed to load promo usage: ${error.message}`, 'PROMO_LOOKUP_FAILED', 500)
+  }
+
+  return ((data || []) as Array<{ promo_id: string }>).reduce<Record<string, number>>((uses, row) => {
+    uses[row.promo_id] = (uses[row.promo_id] || 0) + 1
+    return uses
+  }, {})
+}
+
+/**
+ * Time zone of the cafe's business calendar, which promo days and happy
+ * hours follow; WIB when the setting cannot be read
+ */
+export async function loadCafeTimeZone(supabase: PromoClient): Promise<CafeTimeZone> {
+  const { data, error } = await (supabase as any)
+    .from('system_settings')
+    .select('value')
+    .eq('category', 'cafe')
+    .eq('key', 'business_calendar')
+    .maybeSingle()
+
+  if (error) {
+    console.error('Error loading business calendar:', error)
+  }
+
+  return normalizeBusinessCalendar(data?.value).time_zone
+}
+
+/**
+ * Run the promo engine for a set of codes against a priced cart
+ */
+export async function evaluatePromoCodes(
+  supabase: PromoClient,
+  codes: string[],
+  lines: PromoCartLine[],
+  customerPhone: string | null
+): Promise<PromoEvaluation> {
+  const { promos, missing } = await loadPromosByCode(supabase, codes)
+  const [customerUses, timeZone] = await Promise.all([
+    loadCustomerPromoUses(
+      supabase,
+      promos.filter(promo => promo.max_uses_per_customer != null).map(promo => promo.id),
+      customerPhone
+    ),
+    loadCafeTimeZone(supabase)
+  ])
+
+  return {
+    ...applyPromos(promos, lines, { now: new Date(), timeZone, customerUses }),
+    promos,
+    missing
+  }
+}
+
+/**
+ * Record promo_usage and bump current_uses for a new order in one
+ * transaction. Throws PROMO_LIMIT_REACHED when a limit was hit in the
+ * meantime; nothing is recorded in that case.
+ */
+export async function redeemOrderPromos(
+  supabase: PromoClient,
+  orderId: string,
+  customerPhone: string | null,
+  applied: AppliedPromo[]
+): Promise<void> {
+  if (applied.length === 0) return
+
+  const { error } = await (supabase as any).rpc('redeem_order_promos', {
+    p_order_id: orderId,
+    p_customer_phone: customerPhone,
+    p_redemptions: applied.map(promo => ({
+      promo_id: promo.promo_id,
+      discount_amount: promo.discount_amount
+    }))
+  })
+
+  if (error) {
+    const message = REDEMPTION_ERRORS[error.message]
+    if (message) {
+      throw new OrderPricingError(
+        error.details ? `${message} (${error.details})` : message,
+        'PROMO_LIMIT_REACHED',
+        409
+      )
+    }
+
+    throw new OrderPricingError(`Failed to record promo usage: ${error.message}`, 'PROMO_REDEMPTION_FAILED', 500)
+  }
+}
+
+/**
+ * Check one promo code against a cart before checkout
+ */
+export async function checkPromoCode(supabase: PromoClient, input: PromoCheckInput): Promise<PromoCheckResult> {
+  const [code] = normalizePromoCodes(input.code)
+  const lines: PromoCartLine[] = input.items && input.items.length > 0
+    ? toPromoCartLines(await priceOrderLines(supabase, input.items))
+    : [{ menu_item_id: '', category_id: null, unit_price: Number(input.order_total) || 0, quantity: 1 }]
+  const subtotal = lines.reduce((sum, line) => sum + line.unit_price * line.quantity, 0)
+
+  const codes = normalizePromoCodes(undefined, [...(input.applied_codes || []).filter(applied => applied.toUpperCase() !== code), code])
+  const evaluation = await evaluatePromoCodes(supabase, codes, lines, normalizeCustomerPhone(input.customer_phone))
+
+  const promo = evaluation.promos.find(row => String(row.code).toUpperCase() === code) || null
+  const applied = evaluation.applied.find(entry => entry.promo_id === promo?.id)
+  const rejection = evaluation.rejected.find(entry => entry.promo_id === promo?.id)
+
+  const result = {
+    promo,
+    subtotal,
+    total_discount: evaluation.discount_amount,
+    applied: evaluation.applied
+  }
+
+  if (!promo) {
+    return { ...result, valid: false, message: 'Kode promo tidak ditemukan', discount_amount: 0 }
+  }
+
+  if (!applied) {
+    return { ...result, valid: false, message: rejection?.message || 'Kode promo tidak valid', discount_amount: 0 }
+  }
+
+  return {
+    ...result,
+    valid: true,
+    message: `Promo ${promo.name} berhasil diterapkan!`,
+    discount_amount: applied.discount_amount
+  }
+}
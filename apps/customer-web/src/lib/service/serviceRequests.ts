@@ -0,0 +1,251 @@
+/**
+ * Table Service Requests
+ *
+ * Customer side of `service_requests`: a diner calls a waiter, asks for the
+ * bill, cutlery, water or types a request, and follows it over realtime as
+ * staff acknowledge and complete it. Only a table that is in use accepts
+ * requests: one with an open shared cart (every diner with a table session
+ * joins it) or an order still being served. Callers prove their session at
+ * that table with the diner token from joining its cart; whose request is
+ * whose stays on the server, customers get an `own` flag.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js'
+import type { Database } from '@/types/database'
+import {
+  MAX_SERVICE_REQUEST_MESSAGE_LENGTH,
+  OPEN_SERVICE_REQUEST_STATUSES,
+  isServiceRequestType,
+  type ServiceRequestStatus,
+  type ServiceRequestType
+} from '@cafe/utils/helpers/serviceRequest'
+import { authenticateDiner } from '@/lib/cart/tableCart'
+import { ApiError } from '@/lib/api/errors'
+
+// Open requests a table may have at once, so a stuck button cannot flood staff
+const MAX_OPEN_REQUESTS_PER_TABLE = 5
+
+// Orders still being served keep the table in use
+const ACTIVE_ORDER_STATUSES = ['pending_payment', 'payment_verification', 'confirmed', 'preparing', 'ready', 'delivered']
+
+// Types
+export interface ServiceRequestRow {
+  id: string
+  table_id: string
+  request_type: ServiceRequestType
+  message: string | null
+  diner_name: string | null
+  status: ServiceRequestStatus
+  acknowledged_at: string | null
+  completed_at: string | null
+  cancelled_at: string | null
+  created_at: string
+  own?: boolean // sent by the calling diner; not set on realtime changes
+}
+
+export interface ServiceRequestInput {
+  table_id: string
+  request_type: string
+  message?: string | null
+  diner_name?: string | null
+}
+
+export class ServiceRequestError extends ApiError {
+  name = 'ServiceRequestError'
+}
+
+type ServiceRequestClient = SupabaseClient<Database>
+
+type StoredServiceRequest = Omit<ServiceRequestRow, 'own'> & { diner_id: string | null }
+
+// Staff and diner ids are left out of what diners see; diner_id is only
+// read to tell the caller which requests are theirs
+const CUSTOMER_COLUMNS = 'id, table_id, request_type, message, diner_name, status, acknowledged_at, completed_at, cancelled_at, created_at'
+const CUSTOMER_COLUMNS_WITH_DINER = `${CUSTOMER_COLUMNS}, diner_id`
+
+const toCustomerRequest = (
+  { diner_id: dinerId, ...request }: StoredServiceRequest,
+  viewerId: string | null
+): ServiceRequestRow => ({
+  ...request,
+  own: !!dinerId && dinerId === viewerId
+})
+
+async function assertTableInUse(supabase: ServiceRequestClient, tableId: string): Promise<void> {
+  const { data: table } = await supabase
+    .from('tables')
+    .select('id, status')
+    .eq('id', tableId)
+    .maybeSingle()
+
+  if (!table) {
+    throw new ServiceRequestError('Meja tidak ditemukan', 'TABLE_NOT_FOUND', 404)
+  }
+  if ((table as any).status === 'maintenance') {
+    throw new ServiceRequestError('Meja sedang dalam perbaikan', 'TABLE_UNAVAILABLE', 409)
+  }
+
+  const [{ data: cart }, { data: order }] = await Promise.all([
+    (supabase as any)
+      .from('table_carts')
+      .select('id')
+      .eq('table_id', tableId)
+      .eq('status', 'open')
+      .gt('expires_at', new Date().toISOString())
+      .maybeSingle(),
+    (supabase as any)
+      .from('orders')
+      .select('id')
+      .eq('table_id', tableId)
+      .in('status', ACTIVE_ORDER_STATUSES)
+      .limit(1)
+      .maybeSingle()
+  ])
+
+  if (!cart && !order) {
+    throw new ServiceRequestError(
+      'Sesi meja tidak aktif. Scan ulang QR di meja Anda.',
+      'TABLE_SESSION_REQUIRED',
+      403
+    )
+  }
+}
+
+/**
+ * The table's requests that staff have not finished yet. Without a valid
+ * diner token none of them are marked as the caller's own.
+ */
+export async function listOpenServiceRequests(
+  supabase: ServiceRequestClient,
+  tableId: string,
+  dinerToken?: string | null
+): Promise<ServiceRequestRow[]> {
+  let dinerId: string | null = null
+  if (dinerToken) {
+    dinerId = await authenticateDiner(supabase, tableId, dinerToken).catch(() => null)
+  }
+
+  return (await loadOpenServiceRequests(supabase, tableId)).map(request => toCustomerRequest(request, dinerId))
+}
+
+async function loadOpenServiceRequests(
+  supabase: ServiceRequestClient,
+  tableId: string
+): Promise<StoredServiceRequest[]> {
+  const { data, error } = await (supabase as any)
+    .from('service_requests')
+    .select(CUSTOMER_COLUMNS_WITH_DINER)
+    .eq('table_id', tableId)
+    .in('status', OPEN_SERVICE_REQUEST_STATUSES)
+    .order('created_at', { ascending: true })
+
+  if (error) {
+    throw new ServiceRequestError(`Failed to load service requests: ${error.message}`, 'SERVICE_REQUEST_FAILED', 500)
+  }
+  return (data || []) as StoredServiceRequest[]
+}
+
+/**
+ * Send a request; pressing a button whose request is still open returns
+ * that request instead (`created` false)
+ */
+export async function createServiceRequest(
+  supabase: ServiceRequestClient,
+  input: ServiceRequestInput,
+  dinerToken: string | null | undefined
+): Promise<{ request: ServiceRequestRow; created: boolean }> {
+  if (!isServiceRequestType(input.request_type)) {
+    throw new ServiceRequestError('Jenis permintaan tidak valid', 'INVALID_REQUEST_TYPE')
+  }
+
+  const message = typeof input.message === 'string'
+    ? input.message.trim().slice(0, MAX_SERVICE_REQUEST_MESSAGE_LENGTH)
+    : ''
+  if (input.request_type === 'other' && !message) {
+    throw new ServiceRequestError('Tulis permintaan Anda', 'MESSAGE_REQUIRED')
+  }
+
+  await assertTableInUse(supabase, input.table_id)
+  const dinerId = await authenticateDiner(supabase, input.table_id, dinerToken)
+
+  const open = await loadOpenServiceRequests(supabase, input.table_id)
+  const existing = open.find(request => request.request_type === input.request_type && request.request_type !== 'other')
+  if (existing) {
+    return { request: toCustomerRequest(existing, dinerId), created: false }
+  }
+  if (open.length >= MAX_OPEN_REQUESTS_PER_TABLE) {
+    throw new ServiceRequestError(
+      'Masih ada permintaan yang belum ditangani. Mohon tunggu pelayan kami.',
+      'TOO_MANY_OPEN_REQUESTS',
+      429
+    )
+  }
+
+  const { data, error } = await (supabase as any)
+    .from('service_requests')
+    .insert({
+      table_id: input.table_id,
+      request_type: input.request_type,
+      message: message || null,
+      diner_id: dinerId,
+      diner_name: typeof input.diner_name === 'string' ? input.diner_name.trim().slice(0, 100) || null : null
+    })
+    .select(CUSTOMER_COLUMNS_WITH_DINER)
+    .single()
+
+  // 23505: another diner at the table pressed the same button first
+  if (error?.code === '23505') {
+    const winner = (await loadOpenServiceRequests(supabase, input.table_id))
+      .find(request => request.request_type === input.request_type)
+    if (winner) {
+      return { request: toCustomerRequest(winner, dinerId), created: false }
+    }
+  }
+  if (error) {
+    throw new ServiceRequestError(`Failed to send service request: ${error.message}`, 'SERVICE_REQUEST_FAILED', 500)
+  }
+
+  return { request: toCustomerRequest(data as StoredServiceRequest, dinerId), created: true }
+}
+
+/**
+ * Withdraw one of the diner's own requests before staff acknowledge it
+ */
+export async function cancelServiceRequest(
+  supabase: ServiceRequestClient,
+  requestId: string,
+  dinerToken: string | null | undefined
+): Promise<ServiceRequestRow> {
+  const { data: request, error: loadError } = await (supabase as any)
+    .from('service_requests')
+    .select('table_id')
+    .eq('id', requestId)
+    .maybeSingle()
+
+  if (loadError) {
+    throw new ServiceRequestError(`Failed to load service request: ${loadError.message}`, 'SERVICE_REQUEST_FAILED', 500)
+  }
+  if (!request) {
+    throw new ServiceRequestError('Permintaan tidak ditemukan', 'SERVICE_REQUEST_NOT_FOUND', 404)
+  }
+
+  const dinerId = await authenticateDiner(supabase, request.table_id, dinerToken)
+  const now = new Date().toISOString()
+  const { data, error } = await (supabase as any)
+    .from('service_requests')
+    .update({ status: 'cancelled', cancelled_at: now, updated_at: now })
+    .eq('id', requestId)
+    .eq('diner_id', dinerId)
+    .eq('status', 'pending')
+    .select(CUSTOMER_COLUMNS_WITH_DINER)
+    .maybeSingle()
+
+  if (error) {
+    throw new ServiceRequestError(`Failed to cancel service request: ${error.message}`, 'SERVICE_REQUEST_FAILED', 500)
+  }
+  if (!data) {
+    throw new ServiceRequestError('Permintaan sudah ditangani atau bukan milik Anda', 'SERVICE_REQUEST_NOT_CANCELLABLE', 409)
+  }
+
+  return toCustomerRequest(data as StoredServiceRequest, dinerId)
+}
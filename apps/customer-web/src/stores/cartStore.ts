@@ -1,6 +1,8 @@
 import { create } from 'zustand'
 import { persist, createJSONStorage } from 'zustand/middleware'
 import { toast } from 'sonner'
+import apiClient from '@/lib/api/client'
+import type { TableCartLineInput, TableCartLineView } from '@/lib/cart/tableCart'
 
 // Types
 interface CartItem {
@@ -14,6 +16,19 @@ interface CartItem {
   table_id: string
   notes?: string
   added_at: string
+
+  // Shared table cart line (see useSharedCart)
+  line_id?: string
+  own?: boolean // this diner's line; only the server knows who owns the others
+  diner_name?: string
+}
+
+// Shared line as broadcast over realtime, without the `own` flag
+type SharedLine = Omit<TableCartLineView, 'own'>
+
+interface DinerIdentity {
+  name: string
+  token?: string // issued by the server on joining the table cart
 }
 
 interface PromoData {
@@ -36,6 +51,8 @@ interface CartStore {
   lastActivity: string
   tableId: string | null
   appliedPromo: PromoData | null
+  sharedCartId: string | null // set while the table's shared cart is joined
+  diner: DinerIdentity | null
 
   // Computed values (deprecated - use selectors instead)
   totalItems: number
@@ -68,6 +85,14 @@ interface CartStore {
 
   // Real-time sync
   syncFromStorage: (tableId: string) => void
+
+  // Shared table cart
+  setDiner: (diner: DinerIdentity) => void
+  joinSharedCart: (cartId: string, lines: TableCartLineView[], dinerToken: string) => void
+  applySharedLine: (line: SharedLine) => void
+  removeSharedLine: (lineId: string) => void
+  leaveSharedCart: () => void
+  isOwnItem: (item: CartItem) => boolean
 }
 
 interface CartSummary {
@@ -123,6 +148,66 @@ const customizationsMatch = (
   })
 }
 
+const fromSharedLine = (line: SharedLine, tableId: string, own: boolean): CartItem => ({
+  id: line.menu_item_id,
+  name: line.item_name,
+  price: Number(line.unit_price),
+  quantity: line.quantity,
+  image_url: line.image_url || undefined,
+  customizations: line.customizations || {},
+  preparation_time: line.preparation_time ?? 15,
+  table_id: tableId,
+  notes: line.notes || undefined,
+  added_at: line.created_at,
+  line_id: line.id,
+  own,
+  diner_name: line.diner_name
+})
+
+const toSharedLine = (item: CartItem, diner: DinerIdentity): TableCartLineInput => ({
+  id: item.line_id!,
+  diner_name: diner.name,
+  menu_item_id: item.id,
+  item_name: item.name,
+  unit_price: item.price,
+  quantity: item.quantity,
+  customizations: item.customizations,
+  notes: item.notes || null,
+  image_url: item.image_url || null,
+  preparation_time: item.preparation_time
+})
+
+// Write one of this diner's lines to the shared cart. Other diners get it over
+// realtime; on failure the local copy is replaced with the server's cart.
+const pushSharedLine = async (cartId: string, item: CartItem, diner: DinerIdentity) => {
+  const response = await apiClient.saveTableCartLine(cartId, toSharedLine(item, diner), diner.token)
+  if (response.error) {
+    toast.error(response.error.details?.error?.message || 'Gagal menyimpan item ke keranjang meja')
+    await resyncSharedCart()
+  }
+}
+
+const dropSharedLine = async (cartId: string, lineId: string, diner: DinerIdentity) => {
+  const response = await apiClient.removeTableCartLine(cartId, lineId, diner.token)
+  if (response.error) {
+    toast.error(response.error.details?.error?.message || 'Gagal menghapus item dari keranjang meja')
+    await resyncSharedCart()
+  }
+}
+
+const resyncSharedCart = async () => {
+  const { tableId, sharedCartId, diner, joinSharedCart, leaveSharedCart } = useCartStore.getState()
+  if (!tableId || !sharedCartId) return
+
+  const response = await apiClient.joinTableCart(tableId, diner?.token)
+  const joined = response.data?.data
+  if (joined) {
+    joinSharedCart(joined.cart.id, joined.lines, joined.diner_token)
+  } else {
+    leaveSharedCart()
+  }
+}
+
 // Create a function to generate table-specific storage key
 const getStorageKey = (tableId?: string) => {
   return tableId ? `cart-storage-table-${tableId}` : 'cart-storage-global'
@@ -196,6 +281,8 @@ export const useCartStore = create<CartStore>()(
       lastActivity: new Date().toISOString(),
       tableId: null,
       appliedPromo: null,
+      sharedCartId: null,
+      diner: null,
       
       // Computed values (deprecated - computed dynamically via selectors)
       totalItems: 0,
@@ -245,12 +332,22 @@ export const useCartStore = create<CartStore>()(
             ...item,
             added_at: new Date().toISOString()
           }
+
+          if (state.sharedCartId && state.diner) {
+            newItem.line_id = crypto.randomUUID()
+            newItem.own = true
+            newItem.diner_name = state.diner.name
+          }
           
           set({
             items: [...state.items, newItem],
             tableId: item.table_id,
             lastActivity: new Date().toISOString()
           })
+
+          if (state.sharedCartId && state.diner) {
+            pushSharedLine(state.sharedCartId, newItem, state.diner)
+          }
         }
         
         state.updateActivity()
@@ -269,31 +366,44 @@ export const useCartStore = create<CartStore>()(
           return
         }
         
+        // Other diners' lines on a shared cart are never matched
+        const existingItem = state.findCartItem(itemId, customizations)
+        const isTarget = (item: CartItem) => item === existingItem
+
         set({
           items: quantity === 0 
-            ? state.items.filter(item => 
-                !(item.id === itemId && customizationsMatch(item.customizations, customizations))
-              )
+            ? state.items.filter(item => !isTarget(item))
             : state.items.map(item => 
-                item.id === itemId && customizationsMatch(item.customizations, customizations)
+                isTarget(item)
                   ? { ...item, quantity }
                   : item
               ),
           lastActivity: new Date().toISOString()
         })
+
+        if (state.sharedCartId && state.diner && existingItem?.line_id) {
+          if (quantity === 0) {
+            dropSharedLine(state.sharedCartId, existingItem.line_id, state.diner)
+          } else {
+            pushSharedLine(state.sharedCartId, { ...existingItem, quantity }, state.diner)
+          }
+        }
         
         state.updateActivity()
       },
       
       removeItem: (itemId, customizations) => {
         const state = get()
+        const existingItem = state.findCartItem(itemId, customizations)
         
         set({
-          items: state.items.filter(item => 
-            !(item.id === itemId && customizationsMatch(item.customizations, customizations))
-          ),
+          items: state.items.filter(item => item !== existingItem),
           lastActivity: new Date().toISOString()
         })
+
+        if (state.sharedCartId && state.diner && existingItem?.line_id) {
+          dropSharedLine(state.sharedCartId, existingItem.line_id, state.diner)
+        }
         
         state.updateActivity()
       },
@@ -302,6 +412,7 @@ export const useCartStore = create<CartStore>()(
         set({
           items: [],
           isCartOpen: false,
+          sharedCartId: null,
           lastActivity: new Date().toISOString()
         })
 
@@ -327,7 +438,8 @@ export const useCartStore = create<CartStore>()(
             isCartOpen: false,
             tableId,
             lastActivity: new Date().toISOString(),
-            appliedPromo: null
+            appliedPromo: null,
+            sharedCartId: null
           })
 
           // Try to load existing cart for the new table
@@ -391,9 +503,11 @@ export const useCartStore = create<CartStore>()(
       },
       
       findCartItem: (itemId, customizations) => {
-        const items = get().items
-        return items.find(item => 
-          item.id === itemId && customizationsMatch(item.customizations, customizations)
+        const state = get()
+        return state.items.find(item => 
+          item.id === itemId &&
+          customizationsMatch(item.customizations, customizations) &&
+          state.isOwnItem(item)
         )
       },
       
@@ -514,7 +628,73 @@ export const useCartStore = create<CartStore>()(
         } catch (error) {
           console.error('Error syncing from storage:', error)
         }
-      }
+      },
+
+      // Shared table cart
+      setDiner: (diner) => {
+        const state = get()
+        set({
+          diner,
+          // Relabel this diner's lines; the server copy follows on the next write
+          items: state.items.map(item =>
+            item.line_id && item.own ? { ...item, diner_name: diner.name } : item
+          )
+        })
+      },
+
+      joinSharedCart: (cartId, lines, dinerToken) => {
+        const state = get()
+        const tableId = state.tableId || ''
+
+        // Items added before joining (e.g. offline) move into the shared cart
+        const pendingItems = state.sharedCartId === cartId
+          ? []
+          : state.items.filter(item => !item.line_id)
+        const sharedItems = lines.map(line => fromSharedLine(line, tableId, line.own))
+
+        set({
+          sharedCartId: cartId,
+          diner: state.diner ? { ...state.diner, token: dinerToken } : state.diner,
+          items: sharedItems,
+          lastActivity: new Date().toISOString()
+        })
+
+        if (state.diner) {
+          pendingItems.forEach(item => get().addItem({ ...item, table_id: tableId }))
+        }
+      },
+
+      applySharedLine: (line) => {
+        const state = get()
+        if (!state.sharedCartId || line.cart_id !== state.sharedCartId) return
+
+        // Lines first seen over realtime are another diner's; this diner's
+        // own lines are added locally before they are broadcast
+        const existing = state.items.find(current => current.line_id === line.id)
+        const item = fromSharedLine(line, state.tableId || '', !!existing?.own)
+
+        set({
+          items: existing
+            ? state.items.map(current => current.line_id === line.id ? item : current)
+            : [...state.items, item]
+        })
+      },
+
+      removeSharedLine: (lineId) => {
+        set({
+          items: get().items.filter(item => item.line_id !== lineId)
+        })
+      },
+
+      leaveSharedCart: () => {
+        set({
+          sharedCartId: null,
+          items: [],
+          appliedPromo: null
+        })
+      },
+
+      isOwnItem: (item) => !item.line_id || !!item.own
     }),
     {
       name: 'cart-storage',
@@ -525,7 +705,9 @@ export const useCartStore = create<CartStore>()(
         items: state.items,
         tableId: state.tableId,
         lastActivity: state.lastActivity,
-        appliedPromo: state.appliedPromo
+        appliedPromo: state.appliedPromo,
+        sharedCartId: state.sharedCartId,
+        diner: state.diner
       }),
       
       // Rehydration callback
@@ -633,4 +815,4 @@ export const useCartItem = (itemId: string, customizations: Record<string, strin
 }
 
 // Export types for use in components
-export type { CartItem, CartSummary, CartValidation, PromoData }
\ No newline at end of file
+export type { CartItem, CartSummary, CartValidation, PromoData, DinerIdentity }
\ No newline at end of file
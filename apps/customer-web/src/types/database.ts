@@ -85,6 +85,8 @@ export type Database = {
           available_until?: string
           daily_limit?: number
           current_daily_count: number
+          available_portions?: number | null
+          ingredients_available: boolean
           calories?: number
           is_vegetarian: boolean
           is_vegan: boolean
@@ -118,6 +120,8 @@ export type Database = {
           available_until?: string
           daily_limit?: number
           current_daily_count?: number
+          available_portions?: number | null
+          ingredients_available?: boolean
           calories?: number
           is_vegetarian?: boolean
           is_vegan?: boolean
@@ -151,6 +155,8 @@ export type Database = {
           available_until?: string
           daily_limit?: number
           current_daily_count?: number
+          available_portions?: number | null
+          ingredients_available?: boolean
           calories?: number
           is_vegetarian?: boolean
           is_vegan?: boolean
@@ -271,6 +277,9 @@ export type Database = {
           payment_method?: 'cash' | 'card' | 'qris' | 'transfer'
           promo_code?: string
           discount_amount?: number
+          split_method?: 'equal' | 'items' | 'custom' | null
+          loyalty_points_used?: number
+          loyalty_discount?: number
           notes?: string
           estimated_completion?: string
           created_at: string
@@ -287,6 +296,9 @@ export type Database = {
           payment_method?: 'cash' | 'card' | 'qris' | 'transfer'
           promo_code?: string
           discount_amount?: number
+          split_method?: 'equal' | 'items' | 'custom' | null
+          loyalty_points_used?: number
+          loyalty_discount?: number
           notes?: string
           estimated_completion?: string
           created_at?: string
@@ -303,6 +315,9 @@ export type Database = {
           payment_method?: 'cash' | 'card' | 'qris' | 'transfer'
           promo_code?: string
           discount_amount?: number
+          split_method?: 'equal' | 'items' | 'custom' | null
+          loyalty_points_used?: number
+          loyalty_discount?: number
           notes?: string
           estimated_completion?: string
           created_at?: string
@@ -418,6 +433,7 @@ export type Database = {
           display_order: number
           ingredient_id?: string
           ingredient_quantity?: number
+          ingredients_available: boolean
           created_at: string
           updated_at: string
         }
@@ -431,6 +447,7 @@ export type Database = {
           display_order?: number
           ingredient_id?: string
           ingredient_quantity?: number
+          ingredients_available?: boolean
           created_at?: string
           updated_at?: string
         }
@@ -444,6 +461,7 @@ export type Database = {
           display_order?: number
           ingredient_id?: string
           ingredient_quantity?: number
+          ingredients_available?: boolean
           created_at?: string
           updated_at?: string
         }
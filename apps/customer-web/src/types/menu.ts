@@ -14,6 +14,7 @@ export interface MenuItem {
   spice_level?: number
   tags?: string[]
   ingredients_available: boolean
+  available_portions?: number | null // null when the recipe is not stock-tracked
   customizations?: MenuCustomization[]
   rating?: number
   total_reviews?: number
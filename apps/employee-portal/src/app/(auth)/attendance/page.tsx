@@ -16,22 +16,11 @@ import {
 import Link from 'next/link'
 import { format } from 'date-fns'
 import { id } from 'date-fns/locale'
-
-// Haversine formula untuk hitung jarak antara 2 koordinat
-function calculateDistance(lat1: number, lon1: number, lat2: number, lon2: number): number {
-  const R = 6371e3 // Earth radius in meters
-  const φ1 = (lat1 * Math.PI) / 180
-  const φ2 = (lat2 * Math.PI) / 180
-  const Δφ = ((lat2 - lat1) * Math.PI) / 180
-  const Δλ = ((lon2 - lon1) * Math.PI) / 180
-
-  const a =
-    Math.sin(Δφ / 2) * Math.sin(Δφ / 2) +
-    Math.cos(φ1) * Math.cos(φ2) * Math.sin(Δλ / 2) * Math.sin(Δλ / 2)
-  const c = 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a))
-
-  return R * c // Distance in meters
-}
+import {
+  DEFAULT_GEOFENCE_SETTINGS,
+  nearestGeofence,
+  type GeofenceSettings
+} from '@cafe/utils/validators/geofence'
 
 interface AttendanceRecord {
   id: string
@@ -57,7 +46,6 @@ export default function AttendancePage() {
   const [currentLocation, setCurrentLocation] = useState<GeolocationCoordinates | null>(null)
   const [locationError, setLocationError] = useState<string>('')
   const [isLoadingLocation, setIsLoadingLocation] = useState(false)
-  const [distance, setDistance] = useState<number | null>(null)
   const [todayAttendance, setTodayAttendance] = useState<AttendanceRecord | null>(null)
   const [isSubmitting, setIsSubmitting] = useState(false)
   const [error, setError] = useState('')
@@ -66,17 +54,8 @@ export default function AttendancePage() {
   const [clockOutInfo, setClockOutInfo] = useState<any>(null)
   const [showLocationHelp, setShowLocationHelp] = useState(false)
 
-  // Lokasi cafe dari database
-  const [cafeLocation, setCafeLocation] = useState({
-    lat: -6.7063803,
-    lng: 108.5619729,
-    radius: 200
-  })
-  const [isLoadingCafeLocation, setIsLoadingCafeLocation] = useState(true)
-
-  const CAFE_LAT = cafeLocation.lat
-  const CAFE_LON = cafeLocation.lng
-  const MAX_DISTANCE = cafeLocation.radius
+  // Area absensi dari database (lingkaran atau poligon)
+  const [geofences, setGeofences] = useState<GeofenceSettings>(DEFAULT_GEOFENCE_SETTINGS)
 
   // Get current location with fallback
   const getCurrentLocation = async (useFallback = false) => {
@@ -132,13 +111,6 @@ export default function AttendancePage() {
     navigator.geolocation.getCurrentPosition(
       (position) => {
         setCurrentLocation(position.coords)
-        const dist = calculateDistance(
-          position.coords.latitude,
-          position.coords.longitude,
-          CAFE_LAT,
-          CAFE_LON
-        )
-        setDistance(dist)
         setIsLoadingLocation(false)
         setShowLocationHelp(false)
       },
@@ -173,29 +145,23 @@ export default function AttendancePage() {
     )
   }
 
-  // Load cafe location from database
+  // Load attendance zones from database
   useEffect(() => {
-    const fetchCafeLocation = async () => {
+    const fetchGeofences = async () => {
       try {
         const response = await fetch('/api/settings/location')
         if (response.ok) {
           const data = await response.json()
-          if (data.location) {
-            setCafeLocation({
-              lat: data.location.lat,
-              lng: data.location.lng,
-              radius: data.location.radius || 200
-            })
+          if (data.geofences) {
+            setGeofences(data.geofences)
           }
         }
       } catch (err) {
         // Silent error handling
-      } finally {
-        setIsLoadingCafeLocation(false)
       }
     }
 
-    fetchCafeLocation()
+    fetchGeofences()
   }, [])
 
   // Load today's attendance
@@ -227,18 +193,25 @@ export default function AttendancePage() {
     getCurrentLocation()
   }, [])
 
-  // Recalculate distance when cafe location or current location changes
-  useEffect(() => {
-    if (currentLocation && !isLoadingCafeLocation) {
-      const dist = calculateDistance(
-        currentLocation.latitude,
-        currentLocation.longitude,
-        cafeLocation.lat,
-        cafeLocation.lng
-      )
-      setDistance(dist)
+  // Nearest zone; a position just outside but within the GPS accuracy
+  // radius may still be inside, the server sends it to the owner to check
+  const nearest = currentLocation ? nearestGeofence(currentLocation, geofences.zones) : null
+  const isWithinRange = nearest !== null &&
+    (nearest.inside || nearest.outside_meters <= (currentLocation?.accuracy || 0))
+  const isAccuracyOk = currentLocation !== null && currentLocation.accuracy <= geofences.max_accuracy_meters
+
+  const getRangeError = () => {
+    if (!nearest) {
+      return 'Belum ada area absensi yang aktif. Hubungi owner.'
+    }
+    if (!isWithinRange) {
+      return `Anda berada ${Math.round(nearest.outside_meters)}m di luar area ${nearest.zone.name}.`
+    }
+    if (!isAccuracyOk) {
+      return `Akurasi GPS terlalu rendah (±${Math.round(currentLocation?.accuracy || 0)}m, maksimal ${geofences.max_accuracy_meters}m). Coba lagi di dekat jendela atau di luar ruangan.`
     }
-  }, [cafeLocation, currentLocation, isLoadingCafeLocation])
+    return ''
+  }
 
   const handleClockIn = async () => {
     if (!currentLocation) {
@@ -246,8 +219,9 @@ export default function AttendancePage() {
       return
     }
 
-    if (distance === null || distance > MAX_DISTANCE) {
-      setError(`Anda terlalu jauh dari cafe (${Math.round(distance || 0)}m). Maksimal ${MAX_DISTANCE}m.`)
+    const rangeError = getRangeError()
+    if (rangeError) {
+      setError(rangeError)
       return
     }
 
@@ -270,7 +244,7 @@ export default function AttendancePage() {
         body: JSON.stringify({
           latitude: currentLocation.latitude,
           longitude: currentLocation.longitude,
-          distance: distance
+          accuracy: currentLocation.accuracy
         })
       })
 
@@ -281,11 +255,13 @@ export default function AttendancePage() {
       }
 
       setClockInInfo({ isLate: data.isLate, lateMinutes: data.lateMinutes })
-      if (data.isLate) {
-        setSuccess(`Clock in berhasil! (Terlambat ${data.lateMinutes} menit)`)
-      } else {
-        setSuccess('Clock in berhasil! Tepat waktu.')
+      let successMsg = data.isLate
+        ? `Clock in berhasil! (Terlambat ${data.lateMinutes} menit)`
+        : 'Clock in berhasil! Tepat waktu.'
+      if (data.locationReview) {
+        successMsg += ' Lokasi Anda akan dicek oleh owner.'
       }
+      setSuccess(successMsg)
       setTodayAttendance(data.attendance)
     } catch (err: any) {
       setError(err.message)
@@ -300,8 +276,9 @@ export default function AttendancePage() {
       return
     }
 
-    if (distance === null || distance > MAX_DISTANCE) {
-      setError(`Anda terlalu jauh dari cafe (${Math.round(distance || 0)}m). Maksimal ${MAX_DISTANCE}m.`)
+    const rangeError = getRangeError()
+    if (rangeError) {
+      setError(rangeError)
       return
     }
 
@@ -324,7 +301,7 @@ export default function AttendancePage() {
         body: JSON.stringify({
           latitude: currentLocation.latitude,
           longitude: currentLocation.longitude,
-          distance: distance
+          accuracy: currentLocation.accuracy
         })
       })
 
@@ -349,6 +326,9 @@ export default function AttendancePage() {
       if (data.earlyLeave) {
         successMsg += ` Anda pulang ${data.earlyLeave.minutes} menit lebih awal.`
       }
+      if (data.locationReview) {
+        successMsg += ' Lokasi Anda akan dicek oleh owner.'
+      }
 
       setSuccess(successMsg)
       setTodayAttendance(data.attendance)
@@ -359,7 +339,6 @@ export default function AttendancePage() {
     }
   }
 
-  const isWithinRange = distance !== null && distance <= MAX_DISTANCE
   const hasClockInToday = todayAttendance?.clock_in
   const hasClockOutToday = todayAttendance?.clock_out
 
@@ -436,25 +415,29 @@ export default function AttendancePage() {
             </div>
           )}
 
-          {currentLocation && distance !== null && (
+          {currentLocation && nearest && (
             <div className="space-y-4">
               <div className="flex items-center space-x-3">
-                <MapPin className={`h-5 w-5 ${isWithinRange ? 'text-green-600' : 'text-red-600'}`} />
+                <MapPin className={`h-5 w-5 ${isWithinRange && isAccuracyOk ? 'text-green-600' : 'text-red-600'}`} />
                 <div>
                   <p className="text-sm font-medium text-gray-900">
-                    Jarak dari cafe: {Math.round(distance)}m
+                    {nearest.inside
+                      ? `Di dalam area ${nearest.zone.name}`
+                      : `${Math.round(nearest.outside_meters)}m dari area ${nearest.zone.name}`}
                   </p>
-                  <p className={`text-sm ${isWithinRange ? 'text-green-600' : 'text-red-600'}`}>
-                    {isWithinRange
-                      ? `✓ Dalam jangkauan (maks. ${MAX_DISTANCE}m)`
-                      : '✗ Terlalu jauh dari cafe'}
+                  <p className={`text-sm ${isWithinRange && isAccuracyOk ? 'text-green-600' : 'text-red-600'}`}>
+                    {!isWithinRange
+                      ? '✗ Di luar area absensi'
+                      : !isAccuracyOk
+                        ? '✗ Akurasi GPS terlalu rendah, refresh lokasi'
+                        : '✓ Dalam jangkauan'}
                   </p>
                 </div>
               </div>
 
               <div className="bg-gray-50 rounded-lg p-3 text-xs text-gray-600 space-y-1">
                 <p>Koordinat Anda: {currentLocation.latitude.toFixed(6)}, {currentLocation.longitude.toFixed(6)}</p>
-                <p>Koordinat Cafe: {CAFE_LAT}, {CAFE_LON}</p>
+                <p>Akurasi GPS: ±{Math.round(currentLocation.accuracy)}m (maks. {geofences.max_accuracy_meters}m)</p>
               </div>
             </div>
           )}
@@ -509,7 +492,7 @@ export default function AttendancePage() {
               {!hasClockInToday && (
                 <button
                   onClick={handleClockIn}
-                  disabled={!isWithinRange || isSubmitting || isLoadingLocation}
+                  disabled={!isWithinRange || !isAccuracyOk || isSubmitting || isLoadingLocation}
                   className="px-4 py-2 bg-blue-600 text-white rounded-lg text-sm font-medium hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed flex-shrink-0"
                 >
                   {isSubmitting ? 'Proses...' : 'Clock In'}
@@ -559,7 +542,7 @@ export default function AttendancePage() {
               {hasClockInToday && !hasClockOutToday && (
                 <button
                   onClick={handleClockOut}
-                  disabled={!isWithinRange || isSubmitting || isLoadingLocation}
+                  disabled={!isWithinRange || !isAccuracyOk || isSubmitting || isLoadingLocation}
                   className="px-4 py-2 bg-green-600 text-white rounded-lg text-sm font-medium hover:bg-green-700 disabled:opacity-50 disabled:cursor-not-allowed flex-shrink-0"
                 >
                   {isSubmitting ? 'Proses...' : 'Clock Out'}
@@ -574,7 +557,8 @@ export default function AttendancePage() {
           <h3 className="text-sm font-semibold text-blue-900 mb-2">Catatan Penting:</h3>
           <ul className="text-sm text-blue-800 space-y-1">
             <li>• Pastikan GPS/Location Services aktif</li>
-            <li>• Absensi hanya bisa dilakukan dalam radius {MAX_DISTANCE}m dari cafe</li>
+            <li>• Absensi hanya bisa dilakukan di dalam area absensi cafe</li>
+            <li>• Absen dengan lokasi mencurigakan (mis. aplikasi lokasi palsu) akan dicek oleh owner</li>
             <li>• Anda harus memiliki jadwal shift untuk bisa clock in</li>
             <li>• Terlambat lebih dari 15 menit akan dicatat sebagai keterlambatan</li>
             <li>• Lembur dibawah 2 jam akan otomatis tercatat</li>
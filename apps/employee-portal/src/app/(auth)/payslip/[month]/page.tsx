@@ -4,6 +4,7 @@ import { useState, useEffect } from 'react'
 import { useAuth } from '@/lib/auth/AuthContext'
 import { useParams, useRouter } from 'next/navigation'
 import DashboardLayout from '@/components/DashboardLayout'
+import SalaryBreakdown from '@/components/payslip/SalaryBreakdown'
 import {
   FileText,
   Calendar,
@@ -20,6 +21,7 @@ import {
 } from 'lucide-react'
 import { format } from 'date-fns'
 import { id } from 'date-fns/locale'
+import type { PayrollBreakdown } from '@cafe/utils/calculations/payroll'
 
 interface Payroll {
   id: string
@@ -35,6 +37,7 @@ interface Payroll {
   absence_deduction?: number
   bonus?: number
   net_salary: number
+  breakdown?: PayrollBreakdown | null
   payment_status: 'pending' | 'paid'
   payment_date: string | null
   notes: string | null
@@ -248,91 +251,99 @@ export default function PayslipDetailPage() {
             </div>
           </div>
 
-          {/* Earnings Section */}
-          <div className="mb-6">
-            <h3 className="text-lg font-bold text-gray-900 mb-4 uppercase border-b border-gray-300 pb-2">
-              Pendapatan
-            </h3>
-            <div className="space-y-3">
-              <div className="flex items-center justify-between py-2">
-                <div className="flex items-center space-x-3">
-                  <DollarSign className="h-5 w-5 text-gray-500" />
-                  <span className="text-gray-700">Gaji Pokok</span>
-                </div>
-                <span className="font-medium text-gray-900">
-                  {formatCurrency(payroll.basic_salary)}
-                </span>
-              </div>
-
-              <div className="flex items-center justify-between py-2">
-                <div className="flex items-center space-x-3">
-                  <Clock className="h-5 w-5 text-gray-500" />
-                  <div>
-                    <span className="text-gray-700">Uang Lembur</span>
-                    <span className="text-sm text-gray-500 ml-2">
-                      ({payroll.overtime_hours} jam)
-                    </span>
-                  </div>
-                </div>
-                <span className="font-medium text-gray-900">
-                  {formatCurrency(payroll.overtime_pay)}
-                </span>
-              </div>
-
-              {(payroll.bonus || 0) > 0 && (
-                <div className="flex items-center justify-between py-2">
-                  <div className="flex items-center space-x-3">
-                    <TrendingUp className="h-5 w-5 text-green-500" />
-                    <span className="text-gray-700">Bonus</span>
-                  </div>
-                  <span className="font-medium text-green-600">
-                    {formatCurrency(payroll.bonus || 0)}
-                  </span>
-                </div>
-              )}
-
-              <div className="flex items-center justify-between py-3 bg-blue-50 rounded-lg px-4 border border-blue-200">
-                <span className="font-bold text-blue-900">Total Pendapatan Kotor</span>
-                <span className="font-bold text-blue-900 text-lg">
-                  {formatCurrency(payroll.gross_salary)}
-                </span>
-              </div>
-            </div>
-          </div>
-
-          {/* Deductions Section */}
-          {payroll.total_deductions > 0 && (
+          {payroll.breakdown ? (
             <div className="mb-6">
-              <h3 className="text-lg font-bold text-gray-900 mb-4 uppercase border-b border-gray-300 pb-2">
-                Potongan
-              </h3>
-              <div className="space-y-3">
-                {(payroll.late_deduction || 0) > 0 && (
+              <SalaryBreakdown breakdown={payroll.breakdown} />
+            </div>
+          ) : (
+            <>
+              {/* Earnings Section */}
+              <div className="mb-6">
+                <h3 className="text-lg font-bold text-gray-900 mb-4 uppercase border-b border-gray-300 pb-2">
+                  Pendapatan
+                </h3>
+                <div className="space-y-3">
                   <div className="flex items-center justify-between py-2">
-                    <span className="text-gray-700">Potongan Keterlambatan</span>
-                    <span className="font-medium text-red-600">
-                      -{formatCurrency(payroll.late_deduction || 0)}
+                    <div className="flex items-center space-x-3">
+                      <DollarSign className="h-5 w-5 text-gray-500" />
+                      <span className="text-gray-700">Gaji Pokok</span>
+                    </div>
+                    <span className="font-medium text-gray-900">
+                      {formatCurrency(payroll.basic_salary)}
                     </span>
                   </div>
-                )}
 
-                {(payroll.absence_deduction || 0) > 0 && (
                   <div className="flex items-center justify-between py-2">
-                    <span className="text-gray-700">Potongan Ketidakhadiran</span>
-                    <span className="font-medium text-red-600">
-                      -{formatCurrency(payroll.absence_deduction || 0)}
+                    <div className="flex items-center space-x-3">
+                      <Clock className="h-5 w-5 text-gray-500" />
+                      <div>
+                        <span className="text-gray-700">Uang Lembur</span>
+                        <span className="text-sm text-gray-500 ml-2">
+                          ({payroll.overtime_hours} jam)
+                        </span>
+                      </div>
+                    </div>
+                    <span className="font-medium text-gray-900">
+                      {formatCurrency(payroll.overtime_pay)}
                     </span>
                   </div>
-                )}
 
-                <div className="flex items-center justify-between py-3 bg-red-50 rounded-lg px-4 border border-red-200">
-                  <span className="font-bold text-red-900">Total Potongan</span>
-                  <span className="font-bold text-red-900 text-lg">
-                    -{formatCurrency(payroll.total_deductions)}
-                  </span>
+                  {(payroll.bonus || 0) > 0 && (
+                    <div className="flex items-center justify-between py-2">
+                      <div className="flex items-center space-x-3">
+                        <TrendingUp className="h-5 w-5 text-green-500" />
+                        <span className="text-gray-700">Bonus</span>
+                      </div>
+                      <span className="font-medium text-green-600">
+                        {formatCurrency(payroll.bonus || 0)}
+                      </span>
+                    </div>
+                  )}
+
+                  <div className="flex items-center justify-between py-3 bg-blue-50 rounded-lg px-4 border border-blue-200">
+                    <span className="font-bold text-blue-900">Total Pendapatan Kotor</span>
+                    <span className="font-bold text-blue-900 text-lg">
+                      {formatCurrency(payroll.gross_salary)}
+                    </span>
+                  </div>
                 </div>
               </div>
-            </div>
+
+              {/* Deductions Section */}
+              {payroll.total_deductions > 0 && (
+                <div className="mb-6">
+                  <h3 className="text-lg font-bold text-gray-900 mb-4 uppercase border-b border-gray-300 pb-2">
+                    Potongan
+                  </h3>
+                  <div className="space-y-3">
+                    {(payroll.late_deduction || 0) > 0 && (
+                      <div className="flex items-center justify-between py-2">
+                        <span className="text-gray-700">Potongan Keterlambatan</span>
+                        <span className="font-medium text-red-600">
+                          -{formatCurrency(payroll.late_deduction || 0)}
+                        </span>
+                      </div>
+                    )}
+
+                    {(payroll.absence_deduction || 0) > 0 && (
+                      <div className="flex items-center justify-between py-2">
+                        <span className="text-gray-700">Potongan Ketidakhadiran</span>
+                        <span className="font-medium text-red-600">
+                          -{formatCurrency(payroll.absence_deduction || 0)}
+                        </span>
+                      </div>
+                    )}
+
+                    <div className="flex items-center justify-between py-3 bg-red-50 rounded-lg px-4 border border-red-200">
+                      <span className="font-bold text-red-900">Total Potongan</span>
+                      <span className="font-bold text-red-900 text-lg">
+                        -{formatCurrency(payroll.total_deductions)}
+                      </span>
+                    </div>
+                  </div>
+                </div>
+              )}
+            </>
           )}
 
           {/* Net Salary */}
@@ -1,6 +1,9 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { createClient } from '@supabase/supabase-js'
 import jwt from 'jsonwebtoken'
+import { cafeDateTime, todayBusinessDate } from '@cafe/utils/helpers/businessCalendar'
+import { loadBusinessCalendar } from '@/lib/attendance/businessCalendar'
+import { parsePunchReading, queueLocationReview, validatePunchLocation } from '@/lib/attendance/validator'
 
 const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL!
 const supabaseServiceKey = process.env.SUPABASE_SERVICE_ROLE_KEY!
@@ -8,40 +11,6 @@ const supabase = createClient(supabaseUrl, supabaseServiceKey)
 
 const JWT_SECRET = process.env.JWT_SECRET || 'your-secret-key-change-this-in-production'
 
-// Haversine formula untuk hitung jarak
-function calculateDistance(lat1: number, lon1: number, lat2: number, lon2: number): number {
-  const R = 6371e3 // Earth radius in meters
-  const φ1 = (lat1 * Math.PI) / 180
-  const φ2 = (lat2 * Math.PI) / 180
-  const Δφ = ((lat2 - lat1) * Math.PI) / 180
-  const Δλ = ((lon2 - lon1) * Math.PI) / 180
-
-  const a =
-    Math.sin(Δφ / 2) * Math.sin(Δφ / 2) +
-    Math.cos(φ1) * Math.cos(φ2) * Math.sin(Δλ / 2) * Math.sin(Δλ / 2)
-  const c = 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a))
-
-  return R * c // Distance in meters
-}
-
-// Fetch cafe location from database
-async function getCafeLocation() {
-  const { data, error } = await supabase
-    .from('system_settings')
-    .select('value')
-    .eq('category', 'cafe')
-    .eq('key', 'location')
-    .single()
-
-  if (error || !data) {
-    console.error('Error fetching cafe location:', error)
-    // Return default location if database fetch fails
-    return { lat: -6.7063803, lng: 108.5619729, radius: 200 }
-  }
-
-  return data.value
-}
-
 export async function POST(request: NextRequest) {
   try {
     // Verify JWT token
@@ -63,37 +32,30 @@ export async function POST(request: NextRequest) {
 
     // Get request body
     const body = await request.json()
-    const { latitude, longitude, distance } = body
+    const clockInTime = new Date()
+    const reading = parsePunchReading(body, clockInTime)
 
-    if (!latitude || !longitude || distance === undefined) {
+    if (!reading) {
       return NextResponse.json(
         { error: 'Data lokasi tidak lengkap' },
         { status: 400 }
       )
     }
 
-    // Fetch cafe location from database
-    const cafeLocation = await getCafeLocation()
-    console.log('📍 Cafe location from DB:', cafeLocation)
-
-    // Server-side validation: recalculate distance
-    const actualDistance = calculateDistance(latitude, longitude, cafeLocation.lat, cafeLocation.lng)
-    console.log('📏 Distance calculated:', {
-      employeeLocation: { lat: latitude, lng: longitude },
-      cafeLocation: { lat: cafeLocation.lat, lng: cafeLocation.lng },
-      distance: actualDistance,
-      maxDistance: cafeLocation.radius
-    })
+    // Server-side validation: geofences, GPS accuracy and spoofing signals
+    const locationCheck = await validatePunchLocation(supabase, employeeId, reading)
+    console.log('📍 Location check:', locationCheck)
 
-    if (actualDistance > cafeLocation.radius) {
+    if (locationCheck.decision === 'rejected') {
       return NextResponse.json(
-        { error: `Anda terlalu jauh dari cafe (${Math.round(actualDistance)}m). Maksimal ${cafeLocation.radius}m.` },
+        { error: locationCheck.reasons.join(' '), location: locationCheck },
         { status: 400 }
       )
     }
 
-    // Get today's date
-    const today = new Date().toISOString().split('T')[0]
+    // Get today's business day in the cafe's time zone
+    const calendar = await loadBusinessCalendar(supabase)
+    const today = todayBusinessDate(calendar)
 
     // Check if already clocked in today
     const { data: existingAttendance } = await supabase
@@ -126,8 +88,7 @@ export async function POST(request: NextRequest) {
     }
 
     // Calculate if employee is late
-    const clockInTime = new Date()
-    const scheduledInTime = new Date(`${today}T${schedule.shift_start}`)
+    const scheduledInTime = cafeDateTime(today, schedule.shift_start, calendar)
     const lateThreshold = 15 * 60 * 1000 // 15 minutes in milliseconds
     const timeDifference = clockInTime.getTime() - scheduledInTime.getTime()
 
@@ -143,7 +104,7 @@ export async function POST(request: NextRequest) {
     }
 
     // Create location string (format: "lat,lng" for PostgreSQL POINT type)
-    const locationString = `(${latitude},${longitude})`
+    const locationString = `(${reading.latitude},${reading.longitude})`
 
     // Create new attendance record
     const { data: attendance, error } = await supabase
@@ -153,7 +114,9 @@ export async function POST(request: NextRequest) {
         date: today,
         clock_in: clockInTime.toISOString(),
         clock_in_location: locationString,
-        clock_in_distance: Math.round(actualDistance * 100) / 100, // Round to 2 decimal places
+        clock_in_distance: locationCheck.distance_meters,
+        clock_in_accuracy: reading.accuracy,
+        clock_in_zone: locationCheck.zone?.name || null,
         scheduled_in: schedule.shift_start,
         scheduled_out: schedule.shift_end,
         shift_type: schedule.shift_type,
@@ -175,10 +138,17 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({ error: error.message }, { status: 500 })
     }
 
+    // Suspicious location: recorded, but the owner has to confirm it
+    const needsReview = locationCheck.decision === 'review'
+    if (needsReview) {
+      await queueLocationReview(supabase, attendance.id, employeeId, 'clock_in', reading, locationCheck)
+    }
+
     return NextResponse.json({
-      attendance,
+      attendance: needsReview ? { ...attendance, location_review_status: 'pending' } : attendance,
       isLate: lateMinutes > 0,
-      lateMinutes
+      lateMinutes,
+      locationReview: needsReview ? { flags: locationCheck.flags } : null
     }, { status: 201 })
   } catch (error: any) {
     console.error('API error:', error)
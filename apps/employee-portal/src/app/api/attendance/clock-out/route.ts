@@ -1,6 +1,9 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { createClient } from '@supabase/supabase-js'
 import jwt from 'jsonwebtoken'
+import { addDays, cafeDateTime, todayBusinessDate } from '@cafe/utils/helpers/businessCalendar'
+import { loadBusinessCalendar } from '@/lib/attendance/businessCalendar'
+import { parsePunchReading, queueLocationReview, validatePunchLocation } from '@/lib/attendance/validator'
 
 const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL!
 const supabaseServiceKey = process.env.SUPABASE_SERVICE_ROLE_KEY!
@@ -8,40 +11,6 @@ const supabase = createClient(supabaseUrl, supabaseServiceKey)
 
 const JWT_SECRET = process.env.JWT_SECRET || 'your-secret-key-change-this-in-production'
 
-// Haversine formula untuk hitung jarak
-function calculateDistance(lat1: number, lon1: number, lat2: number, lon2: number): number {
-  const R = 6371e3 // Earth radius in meters
-  const φ1 = (lat1 * Math.PI) / 180
-  const φ2 = (lat2 * Math.PI) / 180
-  const Δφ = ((lat2 - lat1) * Math.PI) / 180
-  const Δλ = ((lon2 - lon1) * Math.PI) / 180
-
-  const a =
-    Math.sin(Δφ / 2) * Math.sin(Δφ / 2) +
-    Math.cos(φ1) * Math.cos(φ2) * Math.sin(Δλ / 2) * Math.sin(Δλ / 2)
-  const c = 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a))
-
-  return R * c // Distance in meters
-}
-
-// Fetch cafe location from database
-async function getCafeLocation() {
-  const { data, error } = await supabase
-    .from('system_settings')
-    .select('value')
-    .eq('category', 'cafe')
-    .eq('key', 'location')
-    .single()
-
-  if (error || !data) {
-    console.error('Error fetching cafe location:', error)
-    // Return default location if database fetch fails
-    return { lat: -6.7063803, lng: 108.5619729, radius: 200 }
-  }
-
-  return data.value
-}
-
 export async function POST(request: NextRequest) {
   try {
     // Verify JWT token
@@ -63,37 +32,31 @@ export async function POST(request: NextRequest) {
 
     // Get request body
     const body = await request.json()
-    const { latitude, longitude, distance } = body
+    const clockOutTime = new Date()
+    const reading = parsePunchReading(body, clockOutTime)
 
-    if (!latitude || !longitude || distance === undefined) {
+    if (!reading) {
       return NextResponse.json(
         { error: 'Data lokasi tidak lengkap' },
         { status: 400 }
       )
     }
 
-    // Fetch cafe location from database
-    const cafeLocation = await getCafeLocation()
-    console.log('📍 Cafe location from DB (clock-out):', cafeLocation)
-
-    // Server-side validation: recalculate distance
-    const actualDistance = calculateDistance(latitude, longitude, cafeLocation.lat, cafeLocation.lng)
-    console.log('📏 Distance calculated (clock-out):', {
-      employeeLocation: { lat: latitude, lng: longitude },
-      cafeLocation: { lat: cafeLocation.lat, lng: cafeLocation.lng },
-      distance: actualDistance,
-      maxDistance: cafeLocation.radius
-    })
+    // Server-side validation: geofences, GPS accuracy and spoofing signals
+    const locationCheck = await validatePunchLocation(supabase, employeeId, reading)
+    console.log('📍 Location check (clock-out):', locationCheck)
 
-    if (actualDistance > cafeLocation.radius) {
+    if (locationCheck.decision === 'rejected') {
       return NextResponse.json(
-        { error: `Anda terlalu jauh dari cafe (${Math.round(actualDistance)}m). Maksimal ${cafeLocation.radius}m.` },
+        { error: locationCheck.reasons.join(' '), location: locationCheck },
         { status: 400 }
       )
     }
 
-    // Get today's date
-    const today = new Date().toISOString().split('T')[0]
+    // Get today's business day in the cafe's time zone, so a shift that
+    // ends after midnight but before the day cutoff still finds its record
+    const calendar = await loadBusinessCalendar(supabase)
+    const today = todayBusinessDate(calendar)
 
     // Check if already clocked in today
     const { data: existingAttendance, error: fetchError } = await supabase
@@ -119,14 +82,16 @@ export async function POST(request: NextRequest) {
 
     // Calculate work hours
     const clockInTime = new Date(existingAttendance.clock_in)
-    const clockOutTime = new Date()
     const totalMinutesWorked = (clockOutTime.getTime() - clockInTime.getTime()) / (1000 * 60)
 
-    // Get scheduled end time
-    const scheduledOutTime = new Date(`${today}T${existingAttendance.scheduled_out}`)
+    // Get scheduled start and end time; an overnight shift ends the next day
+    const scheduledStartTime = cafeDateTime(today, existingAttendance.scheduled_in, calendar)
+    let scheduledOutTime = cafeDateTime(today, existingAttendance.scheduled_out, calendar)
+    if (scheduledOutTime <= scheduledStartTime) {
+      scheduledOutTime = cafeDateTime(addDays(today, 1), existingAttendance.scheduled_out, calendar)
+    }
 
     // Calculate regular hours (capped at scheduled hours)
-    const scheduledStartTime = new Date(`${today}T${existingAttendance.scheduled_in}`)
     const scheduledMinutes = (scheduledOutTime.getTime() - scheduledStartTime.getTime()) / (1000 * 60)
 
     // Subtract break time from total minutes worked
@@ -181,7 +146,7 @@ export async function POST(request: NextRequest) {
     }
 
     // Create location string (format: "(lat,lng)" for PostgreSQL POINT type)
-    const locationString = `(${latitude},${longitude})`
+    const locationString = `(${reading.latitude},${reading.longitude})`
 
     const totalHours = regularHours + overtimeHours
 
@@ -191,7 +156,9 @@ export async function POST(request: NextRequest) {
       .update({
         clock_out: clockOutTime.toISOString(),
         clock_out_location: locationString,
-        clock_out_distance: Math.round(actualDistance * 100) / 100, // Round to 2 decimal places
+        clock_out_distance: locationCheck.distance_meters,
+        clock_out_accuracy: reading.accuracy,
+        clock_out_zone: locationCheck.zone?.name || null,
         regular_hours: Number(regularHours.toFixed(2)),
         total_hours: Number(totalHours.toFixed(2)),
         overtime_hours: Number(overtimeHours.toFixed(2)),
@@ -210,8 +177,15 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({ error: error.message }, { status: 500 })
     }
 
+    // Suspicious location: recorded, but the owner has to confirm it
+    const needsReview = locationCheck.decision === 'review'
+    if (needsReview) {
+      await queueLocationReview(supabase, attendance.id, employeeId, 'clock_out', reading, locationCheck)
+    }
+
     return NextResponse.json({
-      attendance,
+      attendance: needsReview ? { ...attendance, location_review_status: 'pending' } : attendance,
+      locationReview: needsReview ? { flags: locationCheck.flags } : null,
       overtime: {
         hours: overtimeHours,
         approved: overtimeApproved,
@@ -1,6 +1,8 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { createClient } from '@supabase/supabase-js'
 import jwt from 'jsonwebtoken'
+import { todayBusinessDate } from '@cafe/utils/helpers/businessCalendar'
+import { loadBusinessCalendar } from '@/lib/attendance/businessCalendar'
 
 const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL!
 const supabaseServiceKey = process.env.SUPABASE_SERVICE_ROLE_KEY!
@@ -27,8 +29,8 @@ export async function GET(request: NextRequest) {
 
     const employeeId = decoded.id
 
-    // Get today's date in YYYY-MM-DD format
-    const today = new Date().toISOString().split('T')[0]
+    // Get today's business day (YYYY-MM-DD) in the cafe's time zone
+    const today = todayBusinessDate(await loadBusinessCalendar(supabase))
 
     // Fetch today's attendance record
     const { data: attendance, error } = await supabase
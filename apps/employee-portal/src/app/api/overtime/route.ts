@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { createClient } from '@supabase/supabase-js'
 import jwt from 'jsonwebtoken'
+import { sendOvertimeApprovalPrompt } from '@/lib/telegram/ownerApprovals'
 
 const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL!
 const supabaseServiceKey = process.env.SUPABASE_SERVICE_ROLE_KEY!
@@ -156,6 +157,14 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({ error: insertError.message }, { status: 500 })
     }
 
+    // Owner approves or rejects from the Telegram buttons
+    try {
+      await sendOvertimeApprovalPrompt(supabase, overtimeRequest)
+    } catch (telegramError) {
+      console.error('Error sending Telegram approval prompt:', telegramError)
+      // Don't fail the request if notification fails
+    }
+
     return NextResponse.json(
       {
         data: overtimeRequest,
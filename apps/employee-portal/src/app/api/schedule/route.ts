@@ -43,7 +43,7 @@ export async function GET(request: NextRequest) {
     // Filter by month and year if provided
     if (month && year) {
       const startDate = `${year}-${month.padStart(2, '0')}-01`
-      const endDate = new Date(parseInt(year), parseInt(month), 0).toISOString().split('T')[0]
+      const endDate = new Date(Date.UTC(parseInt(year), parseInt(month), 0)).toISOString().split('T')[0]
 
       query = query.gte('date', startDate).lte('date', endDate)
     }
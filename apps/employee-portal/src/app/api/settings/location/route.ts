@@ -1,12 +1,13 @@
 import { NextResponse } from 'next/server'
 import { createClient } from '@supabase/supabase-js'
+import { loadGeofenceSettings } from '@/lib/attendance/validator'
 
 const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL!
 const supabaseServiceKey = process.env.SUPABASE_SERVICE_ROLE_KEY!
 
 const supabase = createClient(supabaseUrl, supabaseServiceKey)
 
-// GET - Fetch cafe location
+// GET - Fetch cafe location and the attendance zones in effect
 export async function GET() {
   try {
     const { data, error } = await supabase
@@ -21,7 +22,9 @@ export async function GET() {
       return NextResponse.json({ error: error.message }, { status: 500 })
     }
 
-    return NextResponse.json({ location: data.value })
+    const geofences = await loadGeofenceSettings(supabase)
+
+    return NextResponse.json({ location: data.value, geofences })
   } catch (error: any) {
     console.error('API error:', error)
     return NextResponse.json(
@@ -1 +1,162 @@
-// Salary breakdown component
+'use client'
+
+import { Clock, Receipt, Shield } from 'lucide-react'
+import type { PayrollBreakdown, PayrollLineItem } from '@cafe/utils/calculations/payroll'
+
+interface SalaryBreakdownProps {
+  breakdown: PayrollBreakdown
+}
+
+const formatCurrency = (amount: number) => {
+  return new Intl.NumberFormat('id-ID', {
+    style: 'currency',
+    currency: 'IDR',
+    minimumFractionDigits: 0
+  }).format(amount)
+}
+
+const formatHours = (hours: number) => {
+  return hours.toLocaleString('id-ID', { maximumFractionDigits: 2 })
+}
+
+function LineItems({ items, negative = false }: { items: PayrollLineItem[]; negative?: boolean }) {
+  return (
+    <div className="space-y-2">
+      {items.map(item => (
+        <div key={item.code} className="flex items-center justify-between py-2">
+          <div>
+            <span className="text-gray-700">{item.label}</span>
+            {item.note && (
+              <span className="text-sm text-gray-500 ml-2">({item.note})</span>
+            )}
+          </div>
+          <span className={`font-medium ${negative ? 'text-red-600' : 'text-gray-900'}`}>
+            {negative ? '-' : ''}{formatCurrency(item.amount)}
+          </span>
+        </div>
+      ))}
+    </div>
+  )
+}
+
+export default function SalaryBreakdown({ breakdown }: SalaryBreakdownProps) {
+  const { overtime, pph21 } = breakdown
+  const employerTotal = breakdown.employerContributions.reduce((sum, item) => sum + item.amount, 0)
+
+  return (
+    <div className="space-y-6">
+      {/* Earnings */}
+      <div>
+        <h3 className="text-lg font-bold text-gray-900 mb-4 uppercase border-b border-gray-300 pb-2">
+          Pendapatan
+        </h3>
+        <LineItems items={breakdown.earnings} />
+        <div className="flex items-center justify-between py-3 mt-3 bg-blue-50 rounded-lg px-4 border border-blue-200">
+          <span className="font-bold text-blue-900">Total Pendapatan Kotor</span>
+          <span className="font-bold text-blue-900 text-lg">
+            {formatCurrency(breakdown.grossSalary)}
+          </span>
+        </div>
+      </div>
+
+      {/* Overtime detail */}
+      {overtime.days.length > 0 && (
+        <div className="bg-gray-50 rounded-lg p-4 border border-gray-200">
+          <div className="flex items-center space-x-2 mb-3">
+            <Clock className="h-4 w-4 text-gray-600" />
+            <p className="text-sm font-semibold text-gray-900">
+              Rincian Lembur ({formatHours(overtime.hours)} jam, upah per jam {formatCurrency(overtime.hourlyWage)})
+            </p>
+          </div>
+          <div className="space-y-1 text-sm">
+            {overtime.days.map(day => (
+              <div key={day.date} className="flex items-center justify-between">
+                <span className="text-gray-600">
+                  {day.date} · {formatHours(day.hours)} jam
+                  {day.dayType === 'holiday' ? ' (hari libur)' : ''}
+                </span>
+                <span className="text-gray-900">{formatCurrency(day.pay)}</span>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {/* Deductions */}
+      {breakdown.deductions.length > 0 && (
+        <div>
+          <h3 className="text-lg font-bold text-gray-900 mb-4 uppercase border-b border-gray-300 pb-2">
+            Potongan
+          </h3>
+          <LineItems items={breakdown.deductions} negative />
+          <div className="flex items-center justify-between py-3 mt-3 bg-red-50 rounded-lg px-4 border border-red-200">
+            <span className="font-bold text-red-900">Total Potongan</span>
+            <span className="font-bold text-red-900 text-lg">
+              -{formatCurrency(breakdown.totalDeductions)}
+            </span>
+          </div>
+        </div>
+      )}
+
+      {/* PPh 21 detail */}
+      <div className="bg-gray-50 rounded-lg p-4 border border-gray-200">
+        <div className="flex items-center space-x-2 mb-3">
+          <Receipt className="h-4 w-4 text-gray-600" />
+          <p className="text-sm font-semibold text-gray-900">
+            {pph21.method === 'annual' ? 'Perhitungan PPh 21 Tahunan' : `PPh 21 Tarif Efektif (TER ${pph21.category})`}
+          </p>
+        </div>
+        {pph21.annual ? (
+          <div className="space-y-1 text-sm">
+            {[
+              ['Penghasilan bruto setahun', pph21.annual.gross],
+              ['Biaya jabatan', -pph21.annual.occupationalCost],
+              ['Iuran JHT & JP', -pph21.annual.pensionContributions],
+              ['Penghasilan neto', pph21.annual.net],
+              ['PTKP', -pph21.annual.ptkp],
+              ['Penghasilan kena pajak', pph21.annual.taxableIncome],
+              ['PPh 21 setahun', pph21.annual.tax],
+              ['Sudah dipotong bulan sebelumnya', -pph21.annual.withheld],
+              [pph21.amount < 0 ? 'Lebih bayar (dikembalikan)' : 'Dipotong bulan ini', pph21.amount]
+            ].map(([label, amount]) => (
+              <div key={label} className="flex items-center justify-between">
+                <span className="text-gray-600">{label}</span>
+                <span className="text-gray-900">{formatCurrency(Number(amount))}</span>
+              </div>
+            ))}
+          </div>
+        ) : (
+          <div className="flex items-center justify-between text-sm">
+            <span className="text-gray-600">
+              {formatCurrency(pph21.taxableGross)} × {pph21.rate}%
+            </span>
+            <span className="text-gray-900">{formatCurrency(pph21.amount)}</span>
+          </div>
+        )}
+      </div>
+
+      {/* Employer contributions */}
+      {breakdown.employerContributions.length > 0 && (
+        <div className="bg-gray-50 rounded-lg p-4 border border-gray-200">
+          <div className="flex items-center space-x-2 mb-1">
+            <Shield className="h-4 w-4 text-gray-600" />
+            <p className="text-sm font-semibold text-gray-900">Iuran BPJS Ditanggung Perusahaan</p>
+          </div>
+          <p className="text-xs text-gray-500 mb-3">Tidak mengurangi gaji bersih</p>
+          <div className="space-y-1 text-sm">
+            {breakdown.employerContributions.map(item => (
+              <div key={item.code} className="flex items-center justify-between">
+                <span className="text-gray-600">{item.label}</span>
+                <span className="text-gray-900">{formatCurrency(item.amount)}</span>
+              </div>
+            ))}
+            <div className="flex items-center justify-between pt-2 border-t border-gray-200 font-medium">
+              <span className="text-gray-700">Total</span>
+              <span className="text-gray-900">{formatCurrency(employerTotal)}</span>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,20 @@
+// Business calendar for attendance: the cafe's time zone and day cutoff
+// decide which date a clock-in belongs to and when a shift starts
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { normalizeBusinessCalendar, type BusinessCalendar } from '@cafe/utils/helpers/businessCalendar'
+
+// Falls back to the default calendar (WIB, midnight) if the setting cannot be read
+export async function loadBusinessCalendar(supabase: SupabaseClient): Promise<BusinessCalendar> {
+  const { data, error } = await supabase
+    .from('system_settings')
+    .select('value')
+    .eq('category', 'cafe')
+    .eq('key', 'business_calendar')
+    .maybeSingle()
+
+  if (error) {
+    console.error('Error fetching business calendar:', error)
+  }
+
+  return normalizeBusinessCalendar(data?.value)
+}
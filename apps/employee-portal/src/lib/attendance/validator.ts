@@ -1 +1,129 @@
-// Attendance validator
+// Attendance validator: checks a clock-in/out location against the cafe's
+// geofences and spoofing signals, and queues suspicious punches for the
+// owner to review (attendance_location_reviews, 064_attendance_geofences)
+import type { SupabaseClient } from '@supabase/supabase-js'
+import {
+  evaluatePunch,
+  normalizeGeofenceSettings,
+  parseGeoPoint,
+  type GeofenceResult,
+  type GeofenceSettings,
+  type PreviousPunch,
+  type PunchReading
+} from '@cafe/utils/validators/geofence'
+
+// Earlier attendance days compared for travel speed and repeated coordinates
+const PREVIOUS_DAYS = 5
+
+export type PunchType = 'clock_in' | 'clock_out'
+
+export async function loadGeofenceSettings(supabase: SupabaseClient): Promise<GeofenceSettings> {
+  const { data, error } = await supabase
+    .from('system_settings')
+    .select('category, key, value')
+    .in('category', ['attendance', 'cafe'])
+    .in('key', ['geofences', 'location'])
+
+  if (error) {
+    console.error('Error fetching geofences:', error)
+  }
+
+  const geofences = data?.find(setting => setting.category === 'attendance' && setting.key === 'geofences')?.value
+  const location = data?.find(setting => setting.category === 'cafe' && setting.key === 'location')?.value
+
+  return normalizeGeofenceSettings(geofences, location)
+}
+
+// Reading from the request body; null when the coordinates are missing
+export function parsePunchReading(body: any, at: Date): PunchReading | null {
+  const point = parseGeoPoint(body)
+  if (!point) {
+    return null
+  }
+
+  const accuracy = body.accuracy === undefined || body.accuracy === null ? null : Number(body.accuracy)
+
+  return {
+    ...point,
+    accuracy: accuracy !== null && Number.isFinite(accuracy) ? accuracy : null,
+    mocked: body.mocked === true,
+    at
+  }
+}
+
+async function loadPreviousPunches(supabase: SupabaseClient, employeeId: string): Promise<PreviousPunch[]> {
+  const { data, error } = await supabase
+    .from('attendance')
+    .select('clock_in, clock_out, clock_in_location, clock_out_location, clock_in_accuracy, clock_out_accuracy')
+    .eq('employee_id', employeeId)
+    .order('date', { ascending: false })
+    .limit(PREVIOUS_DAYS)
+
+  if (error) {
+    console.error('Error fetching previous punches:', error)
+    return []
+  }
+
+  const punches: PreviousPunch[] = []
+  for (const row of data || []) {
+    const clockIn = parseGeoPoint(row.clock_in_location)
+    if (clockIn && row.clock_in) {
+      punches.push({ ...clockIn, accuracy: row.clock_in_accuracy, at: row.clock_in })
+    }
+    const clockOut = parseGeoPoint(row.clock_out_location)
+    if (clockOut && row.clock_out) {
+      punches.push({ ...clockOut, accuracy: row.clock_out_accuracy, at: row.clock_out })
+    }
+  }
+  return punches
+}
+
+export async function validatePunchLocation(
+  supabase: SupabaseClient,
+  employeeId: string,
+  reading: PunchReading
+): Promise<GeofenceResult> {
+  const [settings, previous] = await Promise.all([
+    loadGeofenceSettings(supabase),
+    loadPreviousPunches(supabase, employeeId)
+  ])
+
+  return evaluatePunch(reading, settings, previous)
+}
+
+// Puts a punch that needs review in the owner's queue and marks the day
+export async function queueLocationReview(
+  supabase: SupabaseClient,
+  attendanceId: string,
+  employeeId: string,
+  punch: PunchType,
+  reading: PunchReading,
+  result: GeofenceResult
+): Promise<void> {
+  const { error } = await supabase
+    .from('attendance_location_reviews')
+    .upsert({
+      attendance_id: attendanceId,
+      employee_id: employeeId,
+      punch,
+      latitude: reading.latitude,
+      longitude: reading.longitude,
+      accuracy_meters: reading.accuracy,
+      punched_at: new Date(reading.at).toISOString(),
+      zone_id: result.zone?.id || null,
+      zone_name: result.zone?.name || null,
+      distance_meters: result.distance_meters,
+      outside_meters: result.outside_meters,
+      flags: result.flags,
+      status: 'pending'
+    }, { onConflict: 'attendance_id,punch' })
+
+  if (error) {
+    throw new Error(`Gagal mengirim absensi ke antrean review: ${error.message}`)
+  }
+
+  await supabase
+    .from('attendance')
+    .update({ location_review_status: 'pending' })
+    .eq('id', attendanceId)
+}
@@ -0,0 +1,137 @@
+/**
+ * Owner approval prompts
+ *
+ * A new overtime or leave request is sent to the owner's Telegram chat with
+ * approve and reject buttons, signed for that chat (see
+ * @cafe/utils/helpers/telegramActions). The owner dashboard's Telegram
+ * webhook carries out the button pressed.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js'
+import {
+  buildApprovalKeyboard,
+  type TelegramActionSubject
+} from '@cafe/utils/helpers/telegramActions'
+
+const TELEGRAM_BOT_TOKEN = process.env.TELEGRAM_BOT_TOKEN || ''
+const TELEGRAM_CALLBACK_SECRET = process.env.TELEGRAM_CALLBACK_SECRET || ''
+
+const LEAVE_TYPE_LABELS: Record<string, string> = {
+  annual: 'Cuti Tahunan',
+  sick: 'Cuti Sakit',
+  unpaid: 'Cuti Tanpa Gaji',
+  emergency: 'Cuti Darurat'
+}
+
+const escapeHtml = (text: string) => String(text)
+  .replace(/&/g, '&amp;')
+  .replace(/</g, '&lt;')
+  .replace(/>/g, '&gt;')
+
+const formatDate = (date: string) => new Date(date).toLocaleDateString('id-ID', {
+  weekday: 'long',
+  day: 'numeric',
+  month: 'long',
+  year: 'numeric'
+})
+
+async function loadPromptContext(
+  supabase: SupabaseClient,
+  employeeId: string
+): Promise<{ chatId: string; employeeName: string } | null> {
+  const [{ data: ownerSettings }, { data: employee }] = await Promise.all([
+    supabase
+      .from('system_settings')
+      .select('value')
+      .eq('key', 'owner_telegram_chat_id')
+      .maybeSingle(),
+    supabase
+      .from('employees')
+      .select('full_name')
+      .eq('id', employeeId)
+      .maybeSingle()
+  ])
+
+  if (!ownerSettings?.value) {
+    return null
+  }
+
+  return {
+    chatId: String(ownerSettings.value),
+    employeeName: employee?.full_name || 'Karyawan'
+  }
+}
+
+async function sendPrompt(
+  chatId: string,
+  subject: TelegramActionSubject,
+  id: string,
+  message: string
+): Promise<boolean> {
+  if (!TELEGRAM_BOT_TOKEN || !TELEGRAM_CALLBACK_SECRET) {
+    console.warn('Telegram bot token or callback secret not configured')
+    return false
+  }
+
+  const response = await fetch(`https://api.telegram.org/bot${TELEGRAM_BOT_TOKEN}/sendMessage`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json'
+    },
+    body: JSON.stringify({
+      chat_id: chatId,
+      text: message,
+      parse_mode: 'HTML',
+      reply_markup: {
+        inline_keyboard: await buildApprovalKeyboard(subject, id, chatId, TELEGRAM_CALLBACK_SECRET)
+      }
+    })
+  })
+
+  const data = await response.json()
+
+  if (!data.ok) {
+    console.error('Telegram API error:', data.description)
+    return false
+  }
+
+  return true
+}
+
+/**
+ * Ask the owner to approve a new overtime request
+ */
+export async function sendOvertimeApprovalPrompt(
+  supabase: SupabaseClient,
+  overtimeRequest: { id: string; employee_id: string; date: string; start_time: string; end_time: string; hours: number | string; reason: string }
+): Promise<boolean> {
+  const context = await loadPromptContext(supabase, overtimeRequest.employee_id)
+  if (!context) return false
+
+  const message = `<b>⏰ Pengajuan Lembur</b>\n\n` +
+    `👤 <b>Karyawan:</b> ${escapeHtml(context.employeeName)}\n` +
+    `📅 <b>Tanggal:</b> ${formatDate(overtimeRequest.date)}\n` +
+    `🕐 <b>Waktu:</b> ${overtimeRequest.start_time.slice(0, 5)} - ${overtimeRequest.end_time.slice(0, 5)} (${overtimeRequest.hours} jam)\n` +
+    `📝 <b>Alasan:</b> ${escapeHtml(overtimeRequest.reason)}`
+
+  return sendPrompt(context.chatId, 'overtime', overtimeRequest.id, message)
+}
+
+/**
+ * Ask the owner to approve a new leave request
+ */
+export async function sendLeaveApprovalPrompt(
+  supabase: SupabaseClient,
+  leaveRequest: { id: string; employee_id: string; leave_type: string; start_date: string; end_date: string; total_days: number; reason: string }
+): Promise<boolean> {
+  const context = await loadPromptContext(supabase, leaveRequest.employee_id)
+  if (!context) return false
+
+  const message = `<b>🏖️ Pengajuan Cuti</b>\n\n` +
+    `👤 <b>Karyawan:</b> ${escapeHtml(context.employeeName)}\n` +
+    `📋 <b>Jenis:</b> ${LEAVE_TYPE_LABELS[leaveRequest.leave_type] || escapeHtml(leaveRequest.leave_type)}\n` +
+    `📅 <b>Periode:</b> ${formatDate(leaveRequest.start_date)} - ${formatDate(leaveRequest.end_date)} (${leaveRequest.total_days} hari)\n` +
+    `📝 <b>Alasan:</b> ${escapeHtml(leaveRequest.reason)}`
+
+  return sendPrompt(context.chatId, 'leave', leaveRequest.id, message)
+}
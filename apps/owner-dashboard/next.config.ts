@@ -6,6 +6,10 @@ const nextConfig: NextConfig = {
     // your project has ESLint errors.
     ignoreDuringBuilds: true,
   },
+  experimental: {
+    // Allows importing shared source from packages/* (e.g. @cafe/utils)
+    externalDir: true,
+  },
   typescript: {
     // Warning: This allows production builds to successfully complete even if
     // your project has TypeScript errors.
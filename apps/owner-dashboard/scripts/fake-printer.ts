@@ -0,0 +1,138 @@
+// Fake network printer for testing ESC/POS output without hardware
+//
+// Listens like a raw TCP 9100 printer and captures every print job. Run it
+// directly to watch jobs arrive (point a printer's IP at this machine in
+// Settings > Printer), or import startFakePrinter in a test and inspect the
+// captured bytes:
+//
+//   npx tsx scripts/fake-printer.ts [port] [output-dir]
+
+import net from 'node:net'
+import { mkdirSync, writeFileSync } from 'node:fs'
+import path from 'node:path'
+
+export interface CapturedPrintJob {
+  remoteAddress: string
+  receivedAt: Date
+  data: Uint8Array
+}
+
+export interface FakePrinter {
+  port: number
+  jobs: CapturedPrintJob[]
+  /** Resolves with the next job to finish, or one already waiting */
+  nextJob: (timeoutMs?: number) => Promise<CapturedPrintJob>
+  close: () => Promise<void>
+}
+
+/**
+ * Start a fake printer; port 0 picks a free port
+ */
+export function startFakePrinter(port: number = 0, host: string = '127.0.0.1'): Promise<FakePrinter> {
+  const jobs: CapturedPrintJob[] = []
+  const waiting: Array<(job: CapturedPrintJob) => void> = []
+  let delivered = 0
+
+  const server = net.createServer(socket => {
+    const chunks: Buffer[] = []
+    socket.on('data', chunk => chunks.push(chunk))
+    socket.on('error', () => socket.destroy())
+    socket.on('close', () => {
+      const job = {
+        remoteAddress: socket.remoteAddress || '',
+        receivedAt: new Date(),
+        data: new Uint8Array(Buffer.concat(chunks))
+      }
+      jobs.push(job)
+      const resolve = waiting.shift()
+      if (resolve) {
+        delivered++
+        resolve(job)
+      }
+    })
+  })
+
+  return new Promise((resolve, reject) => {
+    server.once('error', reject)
+    server.listen(port, host, () => {
+      const address = server.address() as net.AddressInfo
+
+      resolve({
+        port: address.port,
+        jobs,
+        nextJob: (timeoutMs = 5000) => {
+          if (delivered < jobs.length) {
+            return Promise.resolve(jobs[delivered++])
+          }
+          return new Promise((resolveJob, rejectJob) => {
+            const timer = setTimeout(() => rejectJob(new Error('No print job received')), timeoutMs)
+            waiting.push(job => {
+              clearTimeout(timer)
+              resolveJob(job)
+            })
+          })
+        },
+        close: () => new Promise(resolveClose => server.close(() => resolveClose()))
+      })
+    })
+  })
+}
+
+/**
+ * Readable preview of an ESC/POS stream: text and line feeds, commands
+ * shown as [CUT], [BOLD] etc.
+ */
+export function previewEscPos(data: Uint8Array): string {
+  let out = ''
+
+  for (let i = 0; i < data.length; i++) {
+    const byte = data[i]
+
+    if (byte === 0x1b) {
+      const command = data[i + 1]
+      if (command === 0x40) { out += '[INIT]'; i += 1 }
+      else if (command === 0x74) { i += 2 }
+      else if (command === 0x61) { out += ['[LEFT]', '[CENTER]', '[RIGHT]'][data[i + 2]] || ''; i += 2 }
+      else if (command === 0x45) { out += data[i + 2] ? '[BOLD]' : '[/BOLD]'; i += 2 }
+      else if (command === 0x64) { out += '\n'.repeat(data[i + 2]); i += 2 }
+      else { i += 1 }
+    } else if (byte === 0x1d) {
+      const command = data[i + 1]
+      if (command === 0x21) { out += data[i + 2] ? '[BIG]' : '[/BIG]'; i += 2 }
+      else if (command === 0x56) { out += '[CUT]\n'; i += data[i + 2] >= 0x41 ? 3 : 2 }
+      else { i += 1 }
+    } else if (byte === 0x0a) {
+      out += '\n'
+    } else if (byte >= 0x20 && byte < 0x7f) {
+      out += String.fromCharCode(byte)
+    }
+  }
+
+  return out
+}
+
+async function main() {
+  const port = Number(process.argv[2] || process.env.FAKE_PRINTER_PORT || 9100)
+  const outputDir = process.argv[3] || path.join(process.cwd(), 'printer-output')
+  mkdirSync(outputDir, { recursive: true })
+
+  const printer = await startFakePrinter(port, '0.0.0.0')
+  console.log(`Fake printer listening on port ${printer.port}, saving jobs to ${outputDir}`)
+
+  for (;;) {
+    const job = await printer.nextJob(24 * 60 * 60 * 1000).catch(() => null)
+    if (!job) continue
+
+    const file = path.join(outputDir, `job-${job.receivedAt.getTime()}.bin`)
+    writeFileSync(file, job.data)
+    console.log(`\n=== ${job.data.length} bytes from ${job.remoteAddress} -> ${file} ===`)
+    console.log(previewEscPos(job.data))
+  }
+}
+
+if (require.main === module) {
+  main().catch(error => {
+    console.error(error)
+    process.exit(1)
+  })
+}
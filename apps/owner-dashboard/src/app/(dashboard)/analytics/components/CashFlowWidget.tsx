@@ -8,6 +8,7 @@ interface CashFlowData {
   netCashFlow: number
   previousIncome: number
   previousExpenses: number
+  expenseBreakdown?: { label: string; amount: number }[]
 }
 
 interface CashFlowWidgetProps {
@@ -115,6 +116,16 @@ export default function CashFlowWidget({ data }: CashFlowWidgetProps) {
             }}
           />
         </div>
+        {data.expenseBreakdown && data.expenseBreakdown.length > 0 && (
+          <div className="mt-3 space-y-1">
+            {data.expenseBreakdown.map(line => (
+              <div key={line.label} className="flex items-center justify-between text-xs">
+                <span className="text-gray-600">{line.label}</span>
+                <span className="font-medium text-gray-900">{formatCurrency(line.amount)}</span>
+              </div>
+            ))}
+          </div>
+        )}
       </div>
 
       {/* Cash Flow Ratio */}
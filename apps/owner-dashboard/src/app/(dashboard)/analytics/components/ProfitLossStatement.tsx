@@ -0,0 +1,89 @@
+'use client'
+
+import { FileSpreadsheet } from 'lucide-react'
+import type { ProfitLossStatement as Statement } from '@cafe/utils/calculations/profitLoss'
+
+interface ProfitLossStatementProps {
+  statement: Statement
+}
+
+export default function ProfitLossStatement({ statement }: ProfitLossStatementProps) {
+  const formatCurrency = (amount: number) => {
+    return new Intl.NumberFormat('id-ID', {
+      style: 'currency',
+      currency: 'IDR',
+      minimumFractionDigits: 0
+    }).format(amount)
+  }
+
+  const formatDate = (date: string) => new Date(`${date}T00:00:00`).toLocaleDateString('id-ID', {
+    day: 'numeric',
+    month: 'short',
+    year: 'numeric'
+  })
+
+  const row = (label: string, amount: number, options: { indent?: boolean; negative?: boolean; bold?: boolean } = {}) => (
+    <div className={`flex items-center justify-between py-1.5 ${options.bold ? 'font-semibold text-gray-900' : 'text-gray-700'}`}>
+      <span className={options.indent ? 'pl-4' : ''}>{label}</span>
+      <span className={options.negative && amount > 0 ? 'text-red-600' : ''}>
+        {options.negative && amount > 0 ? `(${formatCurrency(amount)})` : formatCurrency(amount)}
+      </span>
+    </div>
+  )
+
+  const expenseLines = statement.operating_expenses.filter(line => line.amount > 0)
+
+  return (
+    <div className="bg-white rounded-xl border border-gray-200 p-6">
+      <div className="flex items-center justify-between mb-6">
+        <div>
+          <h3 className="text-lg font-semibold text-gray-900">Profit & Loss</h3>
+          <p className="text-sm text-gray-600">
+            {formatDate(statement.period.start_date)} - {formatDate(statement.period.end_date)} · {statement.sales.order_count} completed orders
+          </p>
+        </div>
+        <div className="p-3 rounded-lg bg-blue-100">
+          <FileSpreadsheet className="h-6 w-6 text-blue-600" />
+        </div>
+      </div>
+
+      <div className="text-sm divide-y divide-gray-100">
+        <div className="pb-2">
+          {row('Gross sales', statement.sales.gross_sales, { indent: true })}
+          {row('Discounts', statement.sales.discounts, { indent: true, negative: true })}
+          {row('Service charge', statement.sales.service_charge, { indent: true })}
+          {row('Revenue', statement.revenue, { bold: true })}
+        </div>
+
+        <div className="py-2">
+          {row('Ingredients used', statement.cost_of_goods_sold.ingredients, { indent: true, negative: true })}
+          {row('Waste', statement.cost_of_goods_sold.waste, { indent: true, negative: true })}
+          {row(`Gross profit (${statement.gross_margin_percentage.toFixed(1)}%)`, statement.gross_profit, { bold: true })}
+        </div>
+
+        <div className="py-2">
+          {row('Payroll', statement.payroll, { indent: true, negative: true })}
+          {expenseLines.map(line => (
+            <div key={line.category_id}>
+              {row(line.name, line.amount, { indent: true, negative: true })}
+            </div>
+          ))}
+          {row('Operating costs', statement.payroll + statement.total_operating_expenses, { bold: true, negative: true })}
+        </div>
+
+        <div className="pt-3">
+          <div className="flex items-center justify-between text-base font-bold">
+            <span className="text-gray-900">Net profit ({statement.net_margin_percentage.toFixed(1)}%)</span>
+            <span className={statement.net_profit >= 0 ? 'text-green-600' : 'text-red-600'}>
+              {formatCurrency(statement.net_profit)}
+            </span>
+          </div>
+          <p className="text-xs text-gray-500 mt-2">
+            PPN collected ({formatCurrency(statement.sales.tax_collected)}) is excluded from revenue.
+            Payroll is spread over each pay period's days.
+          </p>
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -24,6 +24,7 @@ export default function CustomersAnalyticsPage() {
 
   const handlePeriodChange = async (newPeriod: PeriodType) => {
     setPeriod(newPeriod)
+    await analyticsService.loadBusinessCalendar()
     const newDateRange = analyticsService.getDateRangeForPeriod(newPeriod)
     const newPreviousDateRange = analyticsService.getPreviousPeriod(newDateRange)
     setDateRange(newDateRange)
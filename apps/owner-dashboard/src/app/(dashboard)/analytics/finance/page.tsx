@@ -2,12 +2,30 @@
 
 import { useState, useEffect } from 'react'
 import { DollarSign } from 'lucide-react'
+import type { ProfitLossStatement as Statement } from '@cafe/utils/calculations/profitLoss'
+import { businessDate, type BusinessCalendar } from '@cafe/utils/helpers/businessCalendar'
 import { analyticsService, DateRange } from '@/services/analyticsService'
 import CashFlowWidget from '../components/CashFlowWidget'
 import ProfitMarginAnalysis from '../components/ProfitMarginAnalysis'
+import ProfitLossStatement from '../components/ProfitLossStatement'
 
 type PeriodType = 'today' | 'week' | 'month' | 'year'
 
+// P&L for the business days of a range; null when it cannot be loaded
+const loadStatement = async (start: Date, end: Date, calendar: BusinessCalendar): Promise<Statement | null> => {
+  try {
+    const response = await fetch(`/api/reports/profit-loss?start=${businessDate(start, calendar)}&end=${businessDate(end, calendar)}`)
+    if (!response.ok) {
+      throw new Error('Failed to fetch profit & loss')
+    }
+    const { data } = await response.json()
+    return data
+  } catch (error) {
+    console.error('Error loading profit & loss:', error)
+    return null
+  }
+}
+
 export default function FinanceAnalyticsPage() {
   const [period, setPeriod] = useState<PeriodType>('month')
   const [dateRange, setDateRange] = useState<DateRange>(
@@ -19,6 +37,7 @@ export default function FinanceAnalyticsPage() {
   const [isLoading, setIsLoading] = useState(true)
   const [cashFlowData, setCashFlowData] = useState<any>(null)
   const [profitData, setProfitData] = useState<any>(null)
+  const [statement, setStatement] = useState<Statement | null>(null)
 
   useEffect(() => {
     handlePeriodChange(period)
@@ -26,6 +45,7 @@ export default function FinanceAnalyticsPage() {
 
   const handlePeriodChange = async (newPeriod: PeriodType) => {
     setPeriod(newPeriod)
+    await analyticsService.loadBusinessCalendar()
     const newDateRange = analyticsService.getDateRangeForPeriod(newPeriod)
     const newPreviousDateRange = analyticsService.getPreviousPeriod(newDateRange)
     setDateRange(newDateRange)
@@ -36,13 +56,18 @@ export default function FinanceAnalyticsPage() {
   const loadData = async (range: DateRange, prevRange: DateRange) => {
     try {
       setIsLoading(true)
-      const [currentSummary, previousSummary, categoryData] = await Promise.all([
+      const calendar = await analyticsService.loadBusinessCalendar()
+      // The previous range ends where the current one starts
+      const previousEnd = new Date(new Date(range.startDate).getTime() - 1)
+      const [currentSummary, previousSummary, categoryData, currentStatement, previousStatement] = await Promise.all([
         analyticsService.getAnalyticsSummary(range, prevRange),
         analyticsService.getAnalyticsSummary(prevRange, {
           startDate: new Date(new Date(prevRange.startDate).getTime() - (new Date(prevRange.endDate).getTime() - new Date(prevRange.startDate).getTime())).toISOString(),
           endDate: prevRange.startDate
         }),
-        analyticsService.getSalesByCategory(range)
+        analyticsService.getSalesByCategory(range),
+        loadStatement(new Date(range.startDate), new Date(range.endDate), calendar),
+        loadStatement(new Date(prevRange.startDate), previousEnd, calendar)
       ])
 
       // Get menu performance for category breakdown
@@ -63,20 +88,31 @@ export default function FinanceAnalyticsPage() {
         }
       }).filter(cat => cat.revenue > 0)
 
-      // Cash flow data
-      const income = currentSummary.totalRevenue
-      const expenses = currentSummary.totalRevenue - currentSummary.totalProfit
-      const netCashFlow = currentSummary.totalProfit
-      const previousIncome = previousSummary.totalRevenue
-      const previousExpenses = previousSummary.totalRevenue - previousSummary.totalProfit
-
-      setCashFlowData({
-        income,
-        expenses,
-        netCashFlow,
-        previousIncome,
-        previousExpenses
-      })
+      // Cash flow data: recorded costs from the P&L, falling back to the
+      // menu cost estimate when it is unavailable
+      setStatement(currentStatement)
+      if (currentStatement) {
+        setCashFlowData({
+          income: currentStatement.revenue,
+          expenses: currentStatement.total_costs,
+          netCashFlow: currentStatement.net_profit,
+          previousIncome: previousStatement?.revenue || 0,
+          previousExpenses: previousStatement?.total_costs || 0,
+          expenseBreakdown: [
+            { label: 'Cost of goods sold', amount: currentStatement.cost_of_goods_sold.total },
+            { label: 'Payroll', amount: currentStatement.payroll },
+            { label: 'Operating expenses', amount: currentStatement.total_operating_expenses }
+          ]
+        })
+      } else {
+        setCashFlowData({
+          income: currentSummary.totalRevenue,
+          expenses: currentSummary.totalRevenue - currentSummary.totalProfit,
+          netCashFlow: currentSummary.totalProfit,
+          previousIncome: previousSummary.totalRevenue,
+          previousExpenses: previousSummary.totalRevenue - previousSummary.totalProfit
+        })
+      }
 
       // Profit margin data
       setProfitData({
@@ -108,7 +144,7 @@ export default function FinanceAnalyticsPage() {
             </div>
             <div>
               <h1 className="text-2xl font-bold text-gray-900">Financial Reports</h1>
-              <p className="text-gray-600">Cash flow, profit margins, and financial insights</p>
+              <p className="text-gray-600">Cash flow, profit & loss, and profit margins</p>
             </div>
           </div>
         </div>
@@ -146,6 +182,11 @@ export default function FinanceAnalyticsPage() {
         </div>
       )}
 
+      {/* Profit & Loss */}
+      {!isLoading && statement && (
+        <ProfitLossStatement statement={statement} />
+      )}
+
       {/* Profit Margin Analysis */}
       {isLoading ? (
         <div className="bg-white rounded-xl border border-gray-200 p-6">
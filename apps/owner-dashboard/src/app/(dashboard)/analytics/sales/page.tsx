@@ -24,8 +24,9 @@ export default function SalesAnalyticsPage() {
     handlePeriodChange(period)
   }, [])
 
-  const handlePeriodChange = (newPeriod: PeriodType) => {
+  const handlePeriodChange = async (newPeriod: PeriodType) => {
     setPeriod(newPeriod)
+    await analyticsService.loadBusinessCalendar()
     const newDateRange = analyticsService.getDateRangeForPeriod(newPeriod)
     const newPreviousDateRange = analyticsService.getPreviousPeriod(newDateRange)
     setDateRange(newDateRange)
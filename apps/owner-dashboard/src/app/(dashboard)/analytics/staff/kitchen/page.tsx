@@ -0,0 +1,319 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import Link from 'next/link'
+import {
+  ChefHat,
+  Clock,
+  CheckCircle,
+  AlertCircle,
+  TrendingUp,
+  TrendingDown,
+  Users,
+  ArrowLeft,
+  Utensils
+} from 'lucide-react'
+import type { KitchenPerformanceSummary } from '@cafe/utils/calculations/kitchenPerformance'
+
+interface KitchenPerformanceReport {
+  date: string
+  previous_date: string
+  current: KitchenPerformanceSummary
+  previous: KitchenPerformanceSummary
+  staff_on_shift: number | null
+}
+
+const formatMinutes = (minutes: number | null) => minutes === null ? '-' : `${minutes} min`
+
+const formatPercentage = (value: number | null) => value === null ? '-' : `${value}%`
+
+const formatDay = (date: string) => new Date(`${date}T00:00:00Z`).toLocaleDateString('en-US', {
+  timeZone: 'UTC',
+  weekday: 'short',
+  day: 'numeric',
+  month: 'short'
+})
+
+/**
+ * Change against the day before; `lowerIsBetter` for times and late orders
+ */
+function Delta({ current, previous, unit = '', lowerIsBetter = false }: {
+  current: number | null
+  previous: number | null
+  unit?: string
+  lowerIsBetter?: boolean
+}) {
+  if (current === null || previous === null) {
+    return <span className="text-xs text-gray-400">no comparison</span>
+  }
+
+  const change = Math.round((current - previous) * 10) / 10
+  if (change === 0) {
+    return <span className="text-xs text-gray-500">same as yesterday</span>
+  }
+
+  const better = lowerIsBetter ? change < 0 : change > 0
+  const Icon = change > 0 ? TrendingUp : TrendingDown
+
+  return (
+    <span className={`text-xs font-medium flex items-center gap-1 ${better ? 'text-green-600' : 'text-red-600'}`}>
+      <Icon className="h-3 w-3" />
+      {change > 0 ? '+' : ''}{change}{unit} vs previous day
+    </span>
+  )
+}
+
+export default function KitchenPerformancePage() {
+  // Empty until picked: the API defaults to today's business day
+  const [date, setDate] = useState('')
+  const [isLoading, setIsLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const [report, setReport] = useState<KitchenPerformanceReport | null>(null)
+
+  useEffect(() => {
+    loadReport(date)
+  }, [date])
+
+  const loadReport = async (selectedDate: string) => {
+    try {
+      setIsLoading(true)
+      setError(null)
+
+      const query = selectedDate ? `?date=${selectedDate}` : ''
+      const response = await fetch(`/api/kitchen/performance${query}`)
+      const result = await response.json()
+
+      if (!response.ok) {
+        throw new Error(result.error || 'Failed to load kitchen performance')
+      }
+
+      setReport(result.data)
+    } catch (error) {
+      console.error('Error loading kitchen performance:', error)
+      setError(error instanceof Error ? error.message : 'Failed to load kitchen performance')
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  const current = report?.current
+  const previous = report?.previous
+  const maxHourly = Math.max(1, ...(current?.throughput || []).map(hour => hour.orders))
+
+  return (
+    <div className="p-6 max-w-[1920px] mx-auto space-y-6">
+      {/* Header */}
+      <div className="flex items-center justify-between">
+        <div className="flex items-center gap-3">
+          <Link href="/analytics/staff" className="p-2 hover:bg-gray-100 rounded-lg transition-colors">
+            <ArrowLeft className="h-5 w-5 text-gray-600" />
+          </Link>
+          <div className="p-3 bg-orange-100 rounded-lg">
+            <ChefHat className="h-6 w-6 text-orange-600" />
+          </div>
+          <div>
+            <h1 className="text-2xl font-bold text-gray-900">Kitchen Performance</h1>
+            <p className="text-gray-600">
+              Ticket times from confirmation to ready
+              {report && ` · ${formatDay(report.date)} vs ${formatDay(report.previous_date)}`}
+            </p>
+          </div>
+        </div>
+
+        <input
+          type="date"
+          value={date || report?.date || ''}
+          onChange={(e) => setDate(e.target.value)}
+          className="px-4 py-2 bg-white border border-gray-200 rounded-lg text-sm text-gray-700 focus:ring-2 focus:ring-orange-500 focus:border-orange-500"
+        />
+      </div>
+
+      {error && (
+        <div className="p-4 bg-red-50 border border-red-200 rounded-lg text-sm text-red-700 flex items-center gap-2">
+          <AlertCircle className="h-4 w-4" />
+          {error}
+        </div>
+      )}
+
+      {/* Summary Cards */}
+      <div className="grid grid-cols-1 md:grid-cols-3 lg:grid-cols-5 gap-6">
+        <div className="bg-gradient-to-br from-orange-500 to-orange-600 text-white rounded-xl p-6">
+          <Clock className="h-8 w-8 opacity-80 mb-4" />
+          <p className="text-orange-100 text-sm mb-1">Avg Ticket Time</p>
+          <p className="text-3xl font-bold">{isLoading || !current ? '...' : formatMinutes(current.average_minutes)}</p>
+          {!isLoading && previous && (
+            <p className="text-orange-100 text-xs mt-1">Previous day: {formatMinutes(previous.average_minutes)}</p>
+          )}
+        </div>
+
+        <div className="bg-white rounded-xl border border-gray-200 p-6">
+          <div className="p-3 bg-green-100 rounded-lg w-fit mb-4">
+            <CheckCircle className="h-6 w-6 text-green-600" />
+          </div>
+          <p className="text-gray-600 text-sm mb-1">On-Time Rate</p>
+          <p className="text-3xl font-bold text-gray-900">
+            {isLoading || !current ? '...' : formatPercentage(current.on_time_percentage)}
+          </p>
+          {!isLoading && current && previous && (
+            <Delta current={current.on_time_percentage} previous={previous.on_time_percentage} unit=" pts" />
+          )}
+        </div>
+
+        <div className="bg-white rounded-xl border border-gray-200 p-6">
+          <div className="p-3 bg-blue-100 rounded-lg w-fit mb-4">
+            <Utensils className="h-6 w-6 text-blue-600" />
+          </div>
+          <p className="text-gray-600 text-sm mb-1">Orders Completed</p>
+          <p className="text-3xl font-bold text-gray-900">{isLoading || !current ? '...' : current.tickets}</p>
+          {!isLoading && current && previous && (
+            <Delta current={current.tickets} previous={previous.tickets} />
+          )}
+        </div>
+
+        <div className="bg-white rounded-xl border border-gray-200 p-6">
+          <div className="p-3 bg-purple-100 rounded-lg w-fit mb-4">
+            <TrendingUp className="h-6 w-6 text-purple-600" />
+          </div>
+          <p className="text-gray-600 text-sm mb-1">Orders / Hour</p>
+          <p className="text-3xl font-bold text-gray-900">{isLoading || !current ? '...' : current.orders_per_hour}</p>
+          {!isLoading && current && previous && (
+            <Delta current={current.orders_per_hour} previous={previous.orders_per_hour} />
+          )}
+        </div>
+
+        <div className="bg-white rounded-xl border border-gray-200 p-6">
+          <div className="p-3 bg-red-100 rounded-lg w-fit mb-4">
+            <AlertCircle className="h-6 w-6 text-red-600" />
+          </div>
+          <p className="text-gray-600 text-sm mb-1">Late Orders</p>
+          <p className="text-3xl font-bold text-gray-900">{isLoading || !current ? '...' : current.late_orders}</p>
+          {!isLoading && current && previous && (
+            <Delta current={current.late_orders} previous={previous.late_orders} lowerIsBetter />
+          )}
+        </div>
+      </div>
+
+      {/* Right Now (today only) */}
+      {!isLoading && report && report.staff_on_shift !== null && current && (
+        <div className="bg-white rounded-xl border border-gray-200 p-6 flex flex-wrap gap-8">
+          <div className="flex items-center gap-3">
+            <Users className="h-5 w-5 text-indigo-600" />
+            <span className="text-gray-600 text-sm">Kitchen staff on shift</span>
+            <span className="text-xl font-bold text-gray-900">{report.staff_on_shift}</span>
+          </div>
+          <div className="flex items-center gap-3">
+            <AlertCircle className={`h-5 w-5 ${current.overdue_orders > 0 ? 'text-red-600' : 'text-gray-400'}`} />
+            <span className="text-gray-600 text-sm">Open orders past target</span>
+            <span className={`text-xl font-bold ${current.overdue_orders > 0 ? 'text-red-600' : 'text-gray-900'}`}>
+              {current.overdue_orders}
+            </span>
+          </div>
+        </div>
+      )}
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+        {/* Stations */}
+        <div className="bg-white rounded-xl border border-gray-200 p-6">
+          <h3 className="text-lg font-semibold text-gray-900 mb-1">By Station</h3>
+          <p className="text-sm text-gray-600 mb-4">From order confirmation until the station bumped its items</p>
+
+          {isLoading || !current ? (
+            <div className="h-40 bg-gray-100 rounded animate-pulse"></div>
+          ) : (
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-gray-500 border-b border-gray-200">
+                  <th className="py-2 font-medium">Station</th>
+                  <th className="py-2 font-medium text-right">Items</th>
+                  <th className="py-2 font-medium text-right">Avg Time</th>
+                  <th className="py-2 font-medium text-right">On Time</th>
+                  <th className="py-2 font-medium text-right">Prev. Day</th>
+                </tr>
+              </thead>
+              <tbody>
+                {current.stations.map(station => {
+                  const before = previous?.stations.find(candidate => candidate.code === station.code)
+                  return (
+                    <tr key={station.code} className="border-b border-gray-100">
+                      <td className="py-3 font-medium text-gray-900">{station.name}</td>
+                      <td className="py-3 text-right text-gray-700">{station.tickets}</td>
+                      <td className="py-3 text-right text-gray-700">{formatMinutes(station.average_minutes)}</td>
+                      <td className="py-3 text-right text-gray-700">{formatPercentage(station.on_time_percentage)}</td>
+                      <td className="py-3 text-right text-gray-500">{formatMinutes(before?.average_minutes ?? null)}</td>
+                    </tr>
+                  )
+                })}
+              </tbody>
+            </table>
+          )}
+        </div>
+
+        {/* Throughput */}
+        <div className="bg-white rounded-xl border border-gray-200 p-6">
+          <h3 className="text-lg font-semibold text-gray-900 mb-1">Throughput</h3>
+          <p className="text-sm text-gray-600 mb-4">Orders ready per hour</p>
+
+          {isLoading || !current ? (
+            <div className="h-40 bg-gray-100 rounded animate-pulse"></div>
+          ) : current.throughput.length === 0 ? (
+            <div className="h-40 flex items-center justify-center text-gray-500">No completed orders</div>
+          ) : (
+            <div className="space-y-2">
+              {current.throughput.map(hour => (
+                <div key={hour.hour} className="flex items-center gap-3 text-sm">
+                  <span className="w-12 text-gray-500">{String(hour.hour).padStart(2, '0')}:00</span>
+                  <div className="flex-1 bg-gray-100 rounded h-5">
+                    <div
+                      className="bg-orange-500 h-5 rounded"
+                      style={{ width: `${(hour.orders / maxHourly) * 100}%` }}
+                    ></div>
+                  </div>
+                  <span className="w-8 text-right font-medium text-gray-900">{hour.orders}</span>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      </div>
+
+      {/* Menu Items */}
+      <div className="bg-white rounded-xl border border-gray-200 p-6">
+        <h3 className="text-lg font-semibold text-gray-900 mb-1">By Menu Item</h3>
+        <p className="text-sm text-gray-600 mb-4">Slowest first, against each item&apos;s target prep time</p>
+
+        {isLoading || !current ? (
+          <div className="h-40 bg-gray-100 rounded animate-pulse"></div>
+        ) : current.menu_items.length === 0 ? (
+          <div className="h-40 flex items-center justify-center text-gray-500">No bumped items</div>
+        ) : (
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-left text-gray-500 border-b border-gray-200">
+                <th className="py-2 font-medium">Menu Item</th>
+                <th className="py-2 font-medium text-right">Tickets</th>
+                <th className="py-2 font-medium text-right">Target</th>
+                <th className="py-2 font-medium text-right">Avg Time</th>
+                <th className="py-2 font-medium text-right">On Time</th>
+              </tr>
+            </thead>
+            <tbody>
+              {current.menu_items.map(item => (
+                <tr key={item.name} className="border-b border-gray-100">
+                  <td className="py-3 font-medium text-gray-900">{item.name}</td>
+                  <td className="py-3 text-right text-gray-700">{item.tickets}</td>
+                  <td className="py-3 text-right text-gray-500">{formatMinutes(item.target_minutes)}</td>
+                  <td className={`py-3 text-right font-medium ${
+                    (item.average_minutes || 0) > item.target_minutes ? 'text-red-600' : 'text-gray-900'
+                  }`}>
+                    {formatMinutes(item.average_minutes)}
+                  </td>
+                  <td className="py-3 text-right text-gray-700">{formatPercentage(item.on_time_percentage)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -1,7 +1,10 @@
 'use client'
 
 import { useState, useEffect } from 'react'
-import { Users, TrendingUp, Clock, Calendar, Award, AlertCircle } from 'lucide-react'
+import Link from 'next/link'
+import { Users, TrendingUp, Clock, Calendar, Award, AlertCircle, ChefHat } from 'lucide-react'
+import { businessDate } from '@cafe/utils/helpers/businessCalendar'
+import { analyticsService } from '@/services/analyticsService'
 
 type PeriodType = 'today' | 'week' | 'month' | 'year'
 
@@ -13,6 +16,14 @@ interface EmployeeStats {
   hoursWorked: number
   attendance: number
   performance: number
+  requestsHandled: number
+  avgResponseSeconds: number | null
+}
+
+const formatResponseTime = (seconds: number | null) => {
+  if (seconds === null) return '-'
+  if (seconds < 60) return `${seconds}s`
+  return `${Math.floor(seconds / 60)}m ${seconds % 60}s`
 }
 
 export default function StaffAnalyticsPage() {
@@ -32,35 +43,14 @@ export default function StaffAnalyticsPage() {
     await loadData(newPeriod)
   }
 
-  const getDateRange = (period: PeriodType) => {
-    const now = new Date()
-    let startDate: Date
-
-    switch (period) {
-      case 'today':
-        startDate = new Date(now.getFullYear(), now.getMonth(), now.getDate())
-        break
-      case 'week':
-        startDate = new Date(now.getTime() - 7 * 24 * 60 * 60 * 1000)
-        break
-      case 'month':
-        startDate = new Date(now.getFullYear(), now.getMonth(), 1)
-        break
-      case 'year':
-        startDate = new Date(now.getFullYear(), 0, 1)
-        break
-    }
-
-    return {
-      startDate: startDate.toISOString(),
-      endDate: now.toISOString()
-    }
-  }
-
   const loadData = async (period: PeriodType) => {
     try {
       setIsLoading(true)
-      const { startDate, endDate } = getDateRange(period)
+      const calendar = await analyticsService.loadBusinessCalendar()
+      const range = analyticsService.getDateRangeForPeriod(period)
+      // Attendance and shifts are keyed by business day
+      const startDate = businessDate(range.startDate, calendar)
+      const endDate = businessDate(range.endDate, calendar)
 
       console.log('Loading staff analytics for period:', period)
       console.log('Date range:', startDate, 'to', endDate)
@@ -85,12 +75,12 @@ export default function StaffAnalyticsPage() {
       setTotalEmployees(employees.length)
 
       // Fetch attendance data from API
-      const attResponse = await fetch(`/api/attendance?start_date=${startDate.split('T')[0]}&end_date=${endDate.split('T')[0]}`)
+      const attResponse = await fetch(`/api/attendance?start_date=${startDate}&end_date=${endDate}`)
       const { data: attendance = [] } = await attResponse.json()
       console.log('Found attendance records:', attendance.length)
 
       // Fetch shift schedules from API
-      const shiftsResponse = await fetch(`/api/shift-schedules?startDate=${startDate.split('T')[0]}&endDate=${endDate.split('T')[0]}`)
+      const shiftsResponse = await fetch(`/api/shift-schedules?startDate=${startDate}&endDate=${endDate}`)
       const { data: shiftsData = [] } = await shiftsResponse.json()
       const shifts = shiftsData.map((s: any) => ({
         employee_id: s.employee_id,
@@ -101,6 +91,10 @@ export default function StaffAnalyticsPage() {
       }))
       console.log('Found shift schedules:', shifts.length)
 
+      // Table service requests taken per employee (response time)
+      const serviceResponse = await fetch(`/api/service-requests/stats?start=${encodeURIComponent(range.startDate)}&end=${encodeURIComponent(range.endDate)}`)
+      const { data: serviceStats = [] } = serviceResponse.ok ? await serviceResponse.json() : {}
+
       // Calculate stats for each employee
       const stats: EmployeeStats[] = (employees || []).map((emp: any) => {
         const empAttendance = attendance.filter((a: any) => a.employee_id === emp.id)
@@ -134,6 +128,7 @@ export default function StaffAnalyticsPage() {
         }).length
         const punctualityRate = attendedShifts > 0 ? (onTimeShifts / attendedShifts) * 100 : 0
         const performanceScore = (attendanceRate * 0.7 + punctualityRate * 0.3)
+        const empService = serviceStats.find((s: any) => s.employee_id === emp.id)
 
         return {
           id: emp.id,
@@ -142,7 +137,9 @@ export default function StaffAnalyticsPage() {
           totalShifts: scheduledShifts,
           hoursWorked: Math.round(hoursWorked * 10) / 10,
           attendance: Math.round(attendanceRate * 10) / 10,
-          performance: Math.round(performanceScore * 10) / 10
+          performance: Math.round(performanceScore * 10) / 10,
+          requestsHandled: empService ? Math.max(empService.acknowledged, empService.completed) : 0,
+          avgResponseSeconds: empService?.avg_response_seconds ?? null
         }
       })
 
@@ -202,21 +199,31 @@ export default function StaffAnalyticsPage() {
           </div>
         </div>
 
-        {/* Period Selector */}
-        <div className="flex items-center gap-2 bg-white rounded-lg border border-gray-200 p-1">
-          {(['today', 'week', 'month', 'year'] as PeriodType[]).map((p) => (
-            <button
-              key={p}
-              onClick={() => handlePeriodChange(p)}
-              className={`px-4 py-2 rounded-md text-sm font-medium transition-colors ${
-                period === p
-                  ? 'bg-purple-600 text-white'
-                  : 'text-gray-600 hover:bg-gray-100'
-              }`}
-            >
-              {p.charAt(0).toUpperCase() + p.slice(1)}
-            </button>
-          ))}
+        <div className="flex items-center gap-3">
+          <Link
+            href="/analytics/staff/kitchen"
+            className="px-4 py-2 bg-white rounded-lg border border-gray-200 text-sm font-medium text-gray-700 hover:bg-gray-50 flex items-center gap-2"
+          >
+            <ChefHat className="h-4 w-4 text-orange-600" />
+            Kitchen Performance
+          </Link>
+
+          {/* Period Selector */}
+          <div className="flex items-center gap-2 bg-white rounded-lg border border-gray-200 p-1">
+            {(['today', 'week', 'month', 'year'] as PeriodType[]).map((p) => (
+              <button
+                key={p}
+                onClick={() => handlePeriodChange(p)}
+                className={`px-4 py-2 rounded-md text-sm font-medium transition-colors ${
+                  period === p
+                    ? 'bg-purple-600 text-white'
+                    : 'text-gray-600 hover:bg-gray-100'
+                }`}
+              >
+                {p.charAt(0).toUpperCase() + p.slice(1)}
+              </button>
+            ))}
+          </div>
         </div>
       </div>
 
@@ -311,7 +318,7 @@ export default function StaffAnalyticsPage() {
                           </span>
                         </div>
 
-                        <div className="grid grid-cols-4 gap-4 text-sm">
+                        <div className="grid grid-cols-3 md:grid-cols-6 gap-4 text-sm">
                           <div>
                             <p className="text-gray-500 text-xs">Performance Score</p>
                             <p className="font-semibold text-gray-900">{emp.performance}%</p>
@@ -328,6 +335,14 @@ export default function StaffAnalyticsPage() {
                             <p className="text-gray-500 text-xs">Hours Worked</p>
                             <p className="font-semibold text-gray-900">{emp.hoursWorked}h</p>
                           </div>
+                          <div>
+                            <p className="text-gray-500 text-xs">Table Requests</p>
+                            <p className="font-semibold text-gray-900">{emp.requestsHandled}</p>
+                          </div>
+                          <div>
+                            <p className="text-gray-500 text-xs">Avg Response</p>
+                            <p className="font-semibold text-gray-900">{formatResponseTime(emp.avgResponseSeconds)}</p>
+                          </div>
                         </div>
                       </div>
 
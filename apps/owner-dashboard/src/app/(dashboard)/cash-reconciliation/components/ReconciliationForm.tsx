@@ -4,6 +4,7 @@ import { useState } from 'react'
 import { Save, X } from 'lucide-react'
 
 interface ReconciliationFormProps {
+  date: string // Business day being reconciled
   expectedAmount: number
   actualAmount: number
   variance: number
@@ -24,6 +25,7 @@ export interface ReconciliationData {
 }
 
 export default function ReconciliationForm({
+  date,
   expectedAmount,
   actualAmount,
   variance,
@@ -48,7 +50,7 @@ export default function ReconciliationForm({
     const status = variance === 0 ? 'balanced' : 'pending_review'
 
     const data: ReconciliationData = {
-      date: new Date().toISOString().split('T')[0],
+      date,
       expected_amount: expectedAmount,
       actual_amount: actualAmount,
       variance: variance,
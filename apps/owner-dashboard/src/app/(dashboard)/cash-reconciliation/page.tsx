@@ -7,8 +7,10 @@ import DenominationCalculator, { DenominationBreakdown } from './components/Deno
 import CashCounter from './components/CashCounter'
 import VarianceAnalysis from './components/VarianceAnalysis'
 import ReconciliationForm, { ReconciliationData } from './components/ReconciliationForm'
+import { DEFAULT_BUSINESS_CALENDAR, todayBusinessDate } from '@cafe/utils/helpers/businessCalendar'
 
 export default function CashReconciliationPage() {
+  const [businessDay, setBusinessDay] = useState('')
   const [expectedAmount, setExpectedAmount] = useState(0)
   const [actualAmount, setActualAmount] = useState(0)
   const [denominationBreakdown, setDenominationBreakdown] = useState<DenominationBreakdown>({})
@@ -24,15 +26,16 @@ export default function CashReconciliationPage() {
   const loadExpectedAmount = async () => {
     try {
       setIsLoading(true)
-      const today = new Date().toISOString().split('T')[0]
 
-      // Fetch expected amount from API
-      const response = await fetch(`/api/cash-reconciliation/expected?date=${today}`)
+      // Fetch expected amount from API; without a date it is today's
+      // business day in the cafe's time zone
+      const response = await fetch('/api/cash-reconciliation/expected')
       if (!response.ok) {
         throw new Error('Failed to fetch expected amount')
       }
 
       const { data } = await response.json()
+      setBusinessDay(data.date)
       setExpectedAmount(data.expected_amount || 0)
       setExpectedDetails({
         starting_cash: data.starting_cash || 0,
@@ -44,6 +47,7 @@ export default function CashReconciliationPage() {
     } catch (error) {
       console.error('Error loading expected amount:', error)
       // Fallback to default
+      setBusinessDay(todayBusinessDate(DEFAULT_BUSINESS_CALENDAR))
       setExpectedAmount(500000)
       setExpectedDetails({
         starting_cash: 500000,
@@ -65,8 +69,7 @@ export default function CashReconciliationPage() {
       console.log('Submitting reconciliation:', data)
 
       // Get expected amount details
-      const today = new Date().toISOString().split('T')[0]
-      const expectedResponse = await fetch(`/api/cash-reconciliation/expected?date=${today}`)
+      const expectedResponse = await fetch(`/api/cash-reconciliation/expected?date=${data.date}`)
       const { data: expectedData } = await expectedResponse.json()
 
       // Submit reconciliation to API
@@ -281,6 +284,7 @@ export default function CashReconciliationPage() {
 
           {showForm && (
             <ReconciliationForm
+              date={businessDay}
               expectedAmount={expectedAmount}
               actualAmount={actualAmount}
               variance={variance}
@@ -0,0 +1,149 @@
+'use client'
+
+import { useState } from 'react'
+import { Target, Pencil, Check, X } from 'lucide-react'
+import type { ExpenseCategoryLine } from '@cafe/utils/calculations/profitLoss'
+import type { ExpenseCategory } from '@/lib/finance/expenses'
+
+interface BudgetOverviewProps {
+  lines: ExpenseCategoryLine[]
+  categories: ExpenseCategory[]
+  onBudgetSaved: () => void
+}
+
+const STATUS_COLORS: Record<ExpenseCategoryLine['status'], string> = {
+  no_budget: 'bg-gray-300',
+  under: 'bg-green-500',
+  near: 'bg-yellow-500',
+  over: 'bg-red-500'
+}
+
+export default function BudgetOverview({ lines, categories, onBudgetSaved }: BudgetOverviewProps) {
+  const [editingId, setEditingId] = useState<string | null>(null)
+  const [budget, setBudget] = useState('')
+  const [isSaving, setIsSaving] = useState(false)
+
+  const formatCurrency = (amount: number) => {
+    return new Intl.NumberFormat('id-ID', {
+      style: 'currency',
+      currency: 'IDR',
+      minimumFractionDigits: 0
+    }).format(amount)
+  }
+
+  const startEditing = (categoryId: string) => {
+    const category = categories.find(c => c.id === categoryId)
+    setBudget(category?.budget_amount !== null && category?.budget_amount !== undefined ? String(category.budget_amount) : '')
+    setEditingId(categoryId)
+  }
+
+  const saveBudget = async () => {
+    if (!editingId) return
+
+    try {
+      setIsSaving(true)
+      const response = await fetch(`/api/expenses/categories/${editingId}`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ budget_amount: budget === '' ? null : Number(budget) })
+      })
+
+      const result = await response.json()
+      if (!response.ok) {
+        throw new Error(result.error || 'Failed to save budget')
+      }
+
+      setEditingId(null)
+      onBudgetSaved()
+    } catch (error: any) {
+      console.error('Error saving budget:', error)
+      alert(error.message || 'Failed to save budget')
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  const totalBudget = lines.reduce((total, line) => total + (line.budget_amount || 0), 0)
+  const budgetedSpend = lines.reduce((total, line) => total + (line.budget_amount !== null ? line.amount : 0), 0)
+
+  return (
+    <div className="bg-white border border-gray-200 rounded-xl">
+      <div className="p-4 border-b border-gray-200 flex items-center justify-between">
+        <div className="flex items-center gap-2">
+          <Target className="h-5 w-5 text-gray-600" />
+          <h2 className="text-lg font-semibold text-gray-900">Budget vs Actual</h2>
+        </div>
+        {totalBudget > 0 && (
+          <p className="text-sm text-gray-600">
+            {formatCurrency(budgetedSpend)} of {formatCurrency(totalBudget)}
+          </p>
+        )}
+      </div>
+
+      <div className="divide-y divide-gray-100">
+        {lines.map(line => (
+          <div key={line.category_id} className="px-4 py-3">
+            <div className="flex items-center justify-between mb-1">
+              <span className="font-medium text-gray-900">{line.name}</span>
+              {editingId === line.category_id ? (
+                <div className="flex items-center gap-1">
+                  <span className="text-sm text-gray-500">Rp</span>
+                  <input
+                    type="number"
+                    min={0}
+                    value={budget}
+                    onChange={(e) => setBudget(e.target.value)}
+                    placeholder="No budget"
+                    autoFocus
+                    className="w-32 px-2 py-1 border border-gray-300 rounded text-sm text-gray-900"
+                  />
+                  <button
+                    onClick={saveBudget}
+                    disabled={isSaving}
+                    className="p-1 text-green-600 hover:text-green-700 disabled:opacity-50"
+                  >
+                    <Check className="h-4 w-4" />
+                  </button>
+                  <button
+                    onClick={() => setEditingId(null)}
+                    className="p-1 text-gray-500 hover:text-gray-700"
+                  >
+                    <X className="h-4 w-4" />
+                  </button>
+                </div>
+              ) : (
+                <button
+                  onClick={() => startEditing(line.category_id)}
+                  className="flex items-center gap-1 text-sm text-gray-600 hover:text-blue-600"
+                >
+                  {formatCurrency(line.amount)}
+                  {line.budget_amount !== null && <span className="text-gray-400"> / {formatCurrency(line.budget_amount)}</span>}
+                  <Pencil className="h-3 w-3 ml-1" />
+                </button>
+              )}
+            </div>
+
+            {line.budget_amount !== null ? (
+              <>
+                <div className="bg-gray-200 rounded-full h-2 overflow-hidden">
+                  <div
+                    className={`h-full rounded-full transition-all ${STATUS_COLORS[line.status]}`}
+                    style={{ width: `${Math.min(line.used_percentage ?? 100, 100)}%` }}
+                  />
+                </div>
+                <p className={`text-xs mt-1 ${line.status === 'over' ? 'text-red-600' : 'text-gray-500'}`}>
+                  {line.status === 'over'
+                    ? `${formatCurrency(Math.abs(line.variance || 0))} over budget`
+                    : `${formatCurrency(line.variance || 0)} left`}
+                  {line.used_percentage !== null && ` · ${line.used_percentage.toFixed(0)}% used`}
+                </p>
+              </>
+            ) : (
+              <p className="text-xs text-gray-400">No budget set</p>
+            )}
+          </div>
+        ))}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,207 @@
+'use client'
+
+import { useState } from 'react'
+import { X, Loader2, Upload, FileText } from 'lucide-react'
+import type { Expense, ExpenseCategory } from '@/lib/finance/expenses'
+
+interface ExpenseFormProps {
+  categories: ExpenseCategory[]
+  expense?: Expense | null
+  onClose: () => void
+  onSaved: () => void
+}
+
+const today = () => {
+  const now = new Date()
+  return `${now.getFullYear()}-${String(now.getMonth() + 1).padStart(2, '0')}-${String(now.getDate()).padStart(2, '0')}`
+}
+
+export default function ExpenseForm({ categories, expense, onClose, onSaved }: ExpenseFormProps) {
+  const [form, setForm] = useState({
+    category_id: expense?.category_id || categories.find(category => category.is_active)?.id || '',
+    amount: expense ? String(expense.amount) : '',
+    date: expense?.date || today(),
+    description: expense?.description || ''
+  })
+  const [receipt, setReceipt] = useState<File | null>(null)
+  const [removeReceipt, setRemoveReceipt] = useState(false)
+  const [isSaving, setIsSaving] = useState(false)
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setIsSaving(true)
+
+    try {
+      let receiptUrl: string | null | undefined = removeReceipt ? null : undefined
+
+      // Upload the photo first, then save its path with the expense
+      if (receipt) {
+        const formData = new FormData()
+        formData.append('file', receipt)
+
+        const uploadResponse = await fetch('/api/expenses/receipt', {
+          method: 'POST',
+          body: formData
+        })
+        const uploadResult = await uploadResponse.json()
+        if (!uploadResponse.ok) {
+          throw new Error(uploadResult.error || 'Failed to upload receipt')
+        }
+        receiptUrl = uploadResult.data.path
+      }
+
+      const response = await fetch(expense ? `/api/expenses/${expense.id}` : '/api/expenses', {
+        method: expense ? 'PUT' : 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          ...form,
+          amount: Number(form.amount),
+          ...(receiptUrl !== undefined && { receipt_url: receiptUrl })
+        })
+      })
+
+      const result = await response.json()
+      if (!response.ok) {
+        throw new Error(result.error || 'Failed to save expense')
+      }
+
+      onSaved()
+    } catch (error: any) {
+      console.error('Error saving expense:', error)
+      alert(error.message || 'Failed to save expense')
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-xl max-w-lg w-full">
+        <div className="p-4 border-b border-gray-200 flex items-center justify-between">
+          <h2 className="text-lg font-semibold text-gray-900">
+            {expense ? 'Edit Expense' : 'Record Expense'}
+          </h2>
+          <button onClick={onClose} className="p-1 text-gray-500 hover:text-gray-700">
+            <X className="h-5 w-5" />
+          </button>
+        </div>
+
+        <form onSubmit={handleSubmit} className="p-4 space-y-4">
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Category</label>
+              <select
+                value={form.category_id}
+                onChange={(e) => setForm(prev => ({ ...prev, category_id: e.target.value }))}
+                required
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent text-gray-900"
+              >
+                {categories
+                  .filter(category => category.is_active || category.id === expense?.category_id)
+                  .map(category => (
+                    <option key={category.id} value={category.id}>{category.name}</option>
+                  ))}
+              </select>
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Date</label>
+              <input
+                type="date"
+                value={form.date}
+                onChange={(e) => setForm(prev => ({ ...prev, date: e.target.value }))}
+                required
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent text-gray-900"
+              />
+            </div>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Amount</label>
+            <div className="flex items-center gap-2">
+              <span className="text-sm text-gray-500">Rp</span>
+              <input
+                type="number"
+                min={1}
+                value={form.amount}
+                onChange={(e) => setForm(prev => ({ ...prev, amount: e.target.value }))}
+                required
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent text-gray-900"
+              />
+            </div>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Description</label>
+            <input
+              type="text"
+              value={form.description}
+              onChange={(e) => setForm(prev => ({ ...prev, description: e.target.value }))}
+              placeholder="e.g. PLN token, AC service"
+              maxLength={500}
+              required
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent text-gray-900"
+            />
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Receipt</label>
+            {expense?.receipt_url && !removeReceipt && !receipt && (
+              <div className="flex items-center justify-between mb-2 text-sm">
+                {expense.receipt_signed_url ? (
+                  <a
+                    href={expense.receipt_signed_url}
+                    target="_blank"
+                    rel="noopener noreferrer"
+                    className="flex items-center gap-1 text-blue-600 hover:underline"
+                  >
+                    <FileText className="h-4 w-4" />
+                    Current receipt
+                  </a>
+                ) : (
+                  <span className="text-gray-600">Receipt attached</span>
+                )}
+                <button
+                  type="button"
+                  onClick={() => setRemoveReceipt(true)}
+                  className="text-red-600 hover:underline"
+                >
+                  Remove
+                </button>
+              </div>
+            )}
+            <label className="flex items-center gap-2 px-3 py-2 border border-dashed border-gray-300 rounded-lg cursor-pointer hover:bg-gray-50 text-sm text-gray-600">
+              <Upload className="h-4 w-4" />
+              <span className="truncate">{receipt ? receipt.name : 'Upload photo or PDF (max 5MB)'}</span>
+              <input
+                type="file"
+                accept="image/jpeg,image/png,image/webp,application/pdf"
+                capture="environment"
+                onChange={(e) => setReceipt(e.target.files?.[0] || null)}
+                className="hidden"
+              />
+            </label>
+          </div>
+
+          <div className="flex justify-end gap-2 pt-2">
+            <button
+              type="button"
+              onClick={onClose}
+              className="px-4 py-2 border border-gray-300 rounded-lg text-gray-700 hover:bg-gray-50 font-medium"
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              disabled={isSaving || !form.category_id}
+              className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 font-medium flex items-center gap-2 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {isSaving && <Loader2 className="h-4 w-4 animate-spin" />}
+              {expense ? 'Save Changes' : 'Record Expense'}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  )
+}
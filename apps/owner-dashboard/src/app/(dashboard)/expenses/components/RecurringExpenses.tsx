@@ -0,0 +1,194 @@
+'use client'
+
+import { useState } from 'react'
+import { Repeat, Plus, Trash2, Pause, Play, Loader2 } from 'lucide-react'
+import type { ExpenseCategory, RecurringExpense } from '@/lib/finance/expenses'
+
+interface RecurringExpensesProps {
+  recurring: RecurringExpense[]
+  categories: ExpenseCategory[]
+  onChanged: () => void
+}
+
+const EMPTY_FORM = { category_id: '', amount: '', description: '', day_of_month: '1' }
+
+export default function RecurringExpenses({ recurring, categories, onChanged }: RecurringExpensesProps) {
+  const [showForm, setShowForm] = useState(false)
+  const [form, setForm] = useState(EMPTY_FORM)
+  const [isSaving, setIsSaving] = useState(false)
+
+  const formatCurrency = (amount: number) => {
+    return new Intl.NumberFormat('id-ID', {
+      style: 'currency',
+      currency: 'IDR',
+      minimumFractionDigits: 0
+    }).format(amount)
+  }
+
+  const request = async (url: string, method: string, body?: unknown) => {
+    const response = await fetch(url, {
+      method,
+      headers: { 'Content-Type': 'application/json' },
+      body: body ? JSON.stringify(body) : undefined
+    })
+
+    const result = await response.json()
+    if (!response.ok) {
+      throw new Error(result.error || 'Failed to save recurring expense')
+    }
+    return result
+  }
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault()
+
+    try {
+      setIsSaving(true)
+      await request('/api/expenses/recurring', 'POST', {
+        category_id: form.category_id || categories.find(category => category.is_active)?.id,
+        amount: Number(form.amount),
+        description: form.description,
+        day_of_month: Number(form.day_of_month)
+      })
+
+      setForm(EMPTY_FORM)
+      setShowForm(false)
+      onChanged()
+    } catch (error: any) {
+      console.error('Error creating recurring expense:', error)
+      alert(error.message || 'Failed to save recurring expense')
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  const toggleActive = async (item: RecurringExpense) => {
+    try {
+      await request(`/api/expenses/recurring/${item.id}`, 'PUT', { is_active: !item.is_active })
+      onChanged()
+    } catch (error: any) {
+      console.error('Error updating recurring expense:', error)
+      alert(error.message || 'Failed to update recurring expense')
+    }
+  }
+
+  const handleDelete = async (item: RecurringExpense) => {
+    if (!confirm(`Stop "${item.description}"? Expenses already booked are kept.`)) return
+
+    try {
+      await request(`/api/expenses/recurring/${item.id}`, 'DELETE')
+      onChanged()
+    } catch (error: any) {
+      console.error('Error deleting recurring expense:', error)
+      alert(error.message || 'Failed to delete recurring expense')
+    }
+  }
+
+  return (
+    <div className="bg-white border border-gray-200 rounded-xl">
+      <div className="p-4 border-b border-gray-200 flex items-center justify-between">
+        <div className="flex items-center gap-2">
+          <Repeat className="h-5 w-5 text-gray-600" />
+          <h2 className="text-lg font-semibold text-gray-900">Recurring Expenses</h2>
+        </div>
+        <button
+          onClick={() => setShowForm(!showForm)}
+          className="p-1 text-blue-600 hover:text-blue-700"
+          title="Add recurring expense"
+        >
+          <Plus className="h-5 w-5" />
+        </button>
+      </div>
+
+      {showForm && (
+        <form onSubmit={handleCreate} className="p-4 border-b border-gray-200 space-y-3 bg-gray-50">
+          <input
+            type="text"
+            value={form.description}
+            onChange={(e) => setForm(prev => ({ ...prev, description: e.target.value }))}
+            placeholder="Description (e.g. Monthly rent)"
+            required
+            className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm text-gray-900"
+          />
+          <div className="grid grid-cols-2 gap-2">
+            <select
+              value={form.category_id}
+              onChange={(e) => setForm(prev => ({ ...prev, category_id: e.target.value }))}
+              className="px-3 py-2 border border-gray-300 rounded-lg text-sm text-gray-900"
+            >
+              {categories.filter(category => category.is_active).map(category => (
+                <option key={category.id} value={category.id}>{category.name}</option>
+              ))}
+            </select>
+            <input
+              type="number"
+              min={1}
+              value={form.amount}
+              onChange={(e) => setForm(prev => ({ ...prev, amount: e.target.value }))}
+              placeholder="Amount (Rp)"
+              required
+              className="px-3 py-2 border border-gray-300 rounded-lg text-sm text-gray-900"
+            />
+          </div>
+          <div className="flex items-center gap-2">
+            <label className="text-sm text-gray-700">Every month on day</label>
+            <input
+              type="number"
+              min={1}
+              max={28}
+              value={form.day_of_month}
+              onChange={(e) => setForm(prev => ({ ...prev, day_of_month: e.target.value }))}
+              required
+              className="w-20 px-3 py-2 border border-gray-300 rounded-lg text-sm text-gray-900"
+            />
+            <button
+              type="submit"
+              disabled={isSaving}
+              className="ml-auto px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 text-sm font-medium flex items-center gap-2 disabled:opacity-50"
+            >
+              {isSaving && <Loader2 className="h-4 w-4 animate-spin" />}
+              Add
+            </button>
+          </div>
+        </form>
+      )}
+
+      {recurring.length === 0 ? (
+        <p className="p-6 text-center text-sm text-gray-500">
+          No recurring expenses. Add rent, electricity or internet to book them every month.
+        </p>
+      ) : (
+        <div className="divide-y divide-gray-100">
+          {recurring.map(item => (
+            <div key={item.id} className={`px-4 py-3 flex items-center justify-between ${item.is_active ? '' : 'opacity-50'}`}>
+              <div>
+                <p className="font-medium text-gray-900">{item.description}</p>
+                <p className="text-xs text-gray-500">
+                  {item.expense_categories?.name} · day {item.day_of_month}
+                  {!item.is_active && ' · paused'}
+                </p>
+              </div>
+              <div className="flex items-center gap-2">
+                <span className="text-sm font-semibold text-gray-900">{formatCurrency(item.amount)}</span>
+                <button
+                  onClick={() => toggleActive(item)}
+                  className="p-1 text-gray-500 hover:text-gray-700"
+                  title={item.is_active ? 'Pause' : 'Resume'}
+                >
+                  {item.is_active ? <Pause className="h-4 w-4" /> : <Play className="h-4 w-4" />}
+                </button>
+                <button
+                  onClick={() => handleDelete(item)}
+                  className="p-1 text-red-500 hover:text-red-700"
+                  title="Delete"
+                >
+                  <Trash2 className="h-4 w-4" />
+                </button>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,304 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import { Wallet, Plus, Target, Repeat, Loader2, Pencil, Trash2, FileText } from 'lucide-react'
+import type { ProfitLossStatement } from '@cafe/utils/calculations/profitLoss'
+import type { Expense, ExpenseCategory, RecurringExpense } from '@/lib/finance/expenses'
+import ExpenseForm from './components/ExpenseForm'
+import BudgetOverview from './components/BudgetOverview'
+import RecurringExpenses from './components/RecurringExpenses'
+
+const currentMonth = () => {
+  const now = new Date()
+  return `${now.getFullYear()}-${String(now.getMonth() + 1).padStart(2, '0')}`
+}
+
+export default function ExpensesPage() {
+  const [month, setMonth] = useState(currentMonth())
+  const [expenses, setExpenses] = useState<Expense[]>([])
+  const [categories, setCategories] = useState<ExpenseCategory[]>([])
+  const [recurring, setRecurring] = useState<RecurringExpense[]>([])
+  const [statement, setStatement] = useState<ProfitLossStatement | null>(null)
+  const [isLoading, setIsLoading] = useState(true)
+  const [categoryFilter, setCategoryFilter] = useState('')
+  const [editingExpense, setEditingExpense] = useState<Expense | null>(null)
+  const [showForm, setShowForm] = useState(false)
+
+  useEffect(() => {
+    loadCategories()
+    loadRecurring()
+  }, [])
+
+  useEffect(() => {
+    loadMonth()
+  }, [month])
+
+  const fetchData = async (url: string, label: string) => {
+    const response = await fetch(url)
+    if (!response.ok) {
+      throw new Error(`Failed to fetch ${label}`)
+    }
+    const { data } = await response.json()
+    return data
+  }
+
+  const loadCategories = async () => {
+    try {
+      setCategories(await fetchData('/api/expenses/categories', 'expense categories') || [])
+    } catch (error) {
+      console.error('Error loading expense categories:', error)
+    }
+  }
+
+  const loadRecurring = async () => {
+    try {
+      setRecurring(await fetchData('/api/expenses/recurring', 'recurring expenses') || [])
+    } catch (error) {
+      console.error('Error loading recurring expenses:', error)
+    }
+  }
+
+  // Expenses and the budget lines of the P&L for the selected month
+  const loadMonth = async () => {
+    try {
+      setIsLoading(true)
+      const [expenseData, statementData] = await Promise.all([
+        fetchData(`/api/expenses?month=${month}`, 'expenses'),
+        fetchData(`/api/reports/profit-loss?month=${month}`, 'profit & loss')
+      ])
+      setExpenses(expenseData || [])
+      setStatement(statementData)
+    } catch (error) {
+      console.error('Error loading expenses:', error)
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  const handleDelete = async (expense: Expense) => {
+    if (!confirm(`Delete "${expense.description}"?`)) return
+
+    try {
+      const response = await fetch(`/api/expenses/${expense.id}`, { method: 'DELETE' })
+      const result = await response.json()
+      if (!response.ok) {
+        throw new Error(result.error || 'Failed to delete expense')
+      }
+      loadMonth()
+    } catch (error: any) {
+      console.error('Error deleting expense:', error)
+      alert(error.message || 'Failed to delete expense')
+    }
+  }
+
+  const closeForm = () => {
+    setShowForm(false)
+    setEditingExpense(null)
+  }
+
+  const formatCurrency = (amount: number) => {
+    return new Intl.NumberFormat('id-ID', {
+      style: 'currency',
+      currency: 'IDR',
+      minimumFractionDigits: 0
+    }).format(amount)
+  }
+
+  const visibleExpenses = categoryFilter
+    ? expenses.filter(expense => expense.category_id === categoryFilter)
+    : expenses
+  const totalBudget = statement?.operating_expenses.reduce((total, line) => total + (line.budget_amount || 0), 0) || 0
+  const recurringTotal = recurring
+    .filter(item => item.is_active)
+    .reduce((total, item) => total + Number(item.amount), 0)
+
+  return (
+    <div className="p-6 max-w-7xl mx-auto space-y-6">
+      {/* Header */}
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900">Expenses</h1>
+          <p className="text-gray-600">Operating expenses, receipts, recurring bills and budgets</p>
+        </div>
+        <div className="flex items-center gap-2">
+          <input
+            type="month"
+            value={month}
+            onChange={(e) => e.target.value && setMonth(e.target.value)}
+            className="px-3 py-2 border border-gray-300 rounded-lg text-gray-900"
+          />
+          <button
+            onClick={() => setShowForm(true)}
+            disabled={categories.length === 0}
+            className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 font-medium flex items-center gap-2 disabled:opacity-50"
+          >
+            <Plus className="h-4 w-4" />
+            Record Expense
+          </button>
+        </div>
+      </div>
+
+      {/* Stats */}
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        <div className="bg-white border border-gray-200 rounded-xl p-4">
+          <div className="flex items-center gap-3">
+            <div className="p-3 bg-red-100 rounded-lg">
+              <Wallet className="h-6 w-6 text-red-600" />
+            </div>
+            <div>
+              <p className="text-sm text-gray-600">Spent this month</p>
+              <p className="text-2xl font-bold text-gray-900">{formatCurrency(statement?.total_operating_expenses || 0)}</p>
+            </div>
+          </div>
+        </div>
+
+        <div className="bg-white border border-gray-200 rounded-xl p-4">
+          <div className="flex items-center gap-3">
+            <div className="p-3 bg-blue-100 rounded-lg">
+              <Target className="h-6 w-6 text-blue-600" />
+            </div>
+            <div>
+              <p className="text-sm text-gray-600">Monthly budget</p>
+              <p className="text-2xl font-bold text-gray-900">{totalBudget > 0 ? formatCurrency(totalBudget) : '-'}</p>
+            </div>
+          </div>
+        </div>
+
+        <div className="bg-white border border-gray-200 rounded-xl p-4">
+          <div className="flex items-center gap-3">
+            <div className="p-3 bg-purple-100 rounded-lg">
+              <Repeat className="h-6 w-6 text-purple-600" />
+            </div>
+            <div>
+              <p className="text-sm text-gray-600">Recurring per month</p>
+              <p className="text-2xl font-bold text-gray-900">{formatCurrency(recurringTotal)}</p>
+            </div>
+          </div>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+        {/* Expense list */}
+        <div className="lg:col-span-2 bg-white border border-gray-200 rounded-xl">
+          <div className="p-4 border-b border-gray-200 flex items-center justify-between">
+            <h2 className="text-lg font-semibold text-gray-900">Expenses</h2>
+            <select
+              value={categoryFilter}
+              onChange={(e) => setCategoryFilter(e.target.value)}
+              className="px-3 py-1.5 border border-gray-300 rounded-lg text-sm text-gray-900"
+            >
+              <option value="">All categories</option>
+              {categories.map(category => (
+                <option key={category.id} value={category.id}>{category.name}</option>
+              ))}
+            </select>
+          </div>
+
+          {isLoading ? (
+            <div className="p-8 flex justify-center">
+              <Loader2 className="h-8 w-8 animate-spin text-blue-600" />
+            </div>
+          ) : visibleExpenses.length === 0 ? (
+            <p className="p-8 text-center text-gray-500">No expenses recorded for this month</p>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-left text-gray-600 border-b border-gray-200">
+                    <th className="px-4 py-2 font-medium">Date</th>
+                    <th className="px-4 py-2 font-medium">Category</th>
+                    <th className="px-4 py-2 font-medium">Description</th>
+                    <th className="px-4 py-2 font-medium text-right">Amount</th>
+                    <th className="px-4 py-2"></th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {visibleExpenses.map(expense => (
+                    <tr key={expense.id} className="border-b border-gray-100 last:border-0">
+                      <td className="px-4 py-2 text-gray-600 whitespace-nowrap">
+                        {new Date(`${expense.date}T00:00:00`).toLocaleDateString('id-ID', { day: 'numeric', month: 'short' })}
+                      </td>
+                      <td className="px-4 py-2 text-gray-900">{expense.expense_categories?.name}</td>
+                      <td className="px-4 py-2 text-gray-900">
+                        {expense.description}
+                        {expense.recurring_expense_id && (
+                          <span className="ml-2 px-2 py-0.5 rounded-full text-xs bg-purple-100 text-purple-800">Recurring</span>
+                        )}
+                      </td>
+                      <td className="px-4 py-2 text-right font-medium text-gray-900 whitespace-nowrap">
+                        {formatCurrency(Number(expense.amount))}
+                      </td>
+                      <td className="px-4 py-2">
+                        <div className="flex items-center justify-end gap-1">
+                          {expense.receipt_signed_url && (
+                            <a
+                              href={expense.receipt_signed_url}
+                              target="_blank"
+                              rel="noopener noreferrer"
+                              className="p-1 text-gray-500 hover:text-blue-600"
+                              title="View receipt"
+                            >
+                              <FileText className="h-4 w-4" />
+                            </a>
+                          )}
+                          <button
+                            onClick={() => setEditingExpense(expense)}
+                            className="p-1 text-gray-500 hover:text-gray-700"
+                            title="Edit"
+                          >
+                            <Pencil className="h-4 w-4" />
+                          </button>
+                          <button
+                            onClick={() => handleDelete(expense)}
+                            className="p-1 text-red-500 hover:text-red-700"
+                            title="Delete"
+                          >
+                            <Trash2 className="h-4 w-4" />
+                          </button>
+                        </div>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </div>
+
+        {/* Budgets and recurring */}
+        <div className="space-y-6">
+          {statement && (
+            <BudgetOverview
+              lines={statement.operating_expenses}
+              categories={categories}
+              onBudgetSaved={() => {
+                loadCategories()
+                loadMonth()
+              }}
+            />
+          )}
+          <RecurringExpenses
+            recurring={recurring}
+            categories={categories}
+            onChanged={() => {
+              loadRecurring()
+              loadMonth()
+            }}
+          />
+        </div>
+      </div>
+
+      {(showForm || editingExpense) && (
+        <ExpenseForm
+          categories={categories}
+          expense={editingExpense}
+          onClose={closeForm}
+          onSaved={() => {
+            closeForm()
+            loadMonth()
+          }}
+        />
+      )}
+    </div>
+  )
+}
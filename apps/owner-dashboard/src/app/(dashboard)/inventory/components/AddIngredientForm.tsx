@@ -1,7 +1,8 @@
 'use client'
 
-import { useState } from 'react'
+import { useState, useEffect } from 'react'
 import { X, Save, AlertCircle } from 'lucide-react'
+import { useInventoryStore } from '@/stores/inventoryStore'
 
 interface AddIngredientFormProps {
   onClose: () => void
@@ -9,6 +10,7 @@ interface AddIngredientFormProps {
 }
 
 export default function AddIngredientForm({ onClose, onSuccess }: AddIngredientFormProps) {
+  const { suppliers, fetchSuppliers } = useInventoryStore()
   const [formData, setFormData] = useState({
     name: '',
     code: '',
@@ -21,12 +23,17 @@ export default function AddIngredientForm({ onClose, onSuccess }: AddIngredientF
     reorder_point: 0,
     reorder_quantity: 0,
     unit_cost: 0,
+    preferred_supplier_id: '',
     notes: ''
   })
 
   const [errors, setErrors] = useState<Record<string, string>>({})
   const [isSubmitting, setIsSubmitting] = useState(false)
 
+  useEffect(() => {
+    fetchSuppliers({ is_active: true })
+  }, [])
+
   const categories = [
     'Vegetables',
     'Fruits',
@@ -98,7 +105,8 @@ export default function AddIngredientForm({ onClose, onSuccess }: AddIngredientF
           code,
           max_stock_level: formData.max_stock_level || undefined,
           reorder_point: formData.reorder_point || undefined,
-          reorder_quantity: formData.reorder_quantity || undefined
+          reorder_quantity: formData.reorder_quantity || undefined,
+          preferred_supplier_id: formData.preferred_supplier_id || null
         })
       })
 
@@ -305,6 +313,24 @@ export default function AddIngredientForm({ onClose, onSuccess }: AddIngredientF
                 />
               </div>
 
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  Preferred Supplier
+                </label>
+                <select
+                  value={formData.preferred_supplier_id}
+                  onChange={(e) => setFormData({ ...formData, preferred_supplier_id: e.target.value })}
+                  className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                >
+                  <option value="">None</option>
+                  {suppliers.map((supplier) => (
+                    <option key={supplier.id} value={supplier.id}>
+                      {supplier.company_name}
+                    </option>
+                  ))}
+                </select>
+              </div>
+
               <div>
                 <label className="block text-sm font-medium text-gray-700 mb-2">
                   Unit Cost (IDR)
@@ -132,8 +132,7 @@ export default function CreatePurchaseOrderForm({ onClose, onSuccess }: CreatePu
     setIsSubmitting(true)
 
     try {
-      const { totalItems, totalAmount } = calculateTotals()
-
+      // Totals are calculated by the API from the items
       const response = await fetch('/api/purchase-orders', {
         method: 'POST',
         headers: {
@@ -143,15 +142,11 @@ export default function CreatePurchaseOrderForm({ onClose, onSuccess }: CreatePu
           supplier_id: formData.supplier_id,
           order_date: formData.order_date,
           expected_delivery: formData.expected_delivery,
-          status: 'draft',
-          total_items: totalItems,
-          total_amount: totalAmount,
           notes: formData.notes,
           items: items.map(item => ({
             ingredient_id: item.ingredient_id,
             quantity_ordered: item.quantity,
-            unit_price: item.unit_price,
-            total_price: item.total_price
+            unit_price: item.unit_price
           }))
         })
       })
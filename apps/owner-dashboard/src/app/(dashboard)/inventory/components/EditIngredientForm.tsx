@@ -2,6 +2,7 @@
 
 import { useState, useEffect } from 'react'
 import { X, Save, AlertCircle } from 'lucide-react'
+import { useInventoryStore } from '@/stores/inventoryStore'
 
 interface EditIngredientFormProps {
   ingredientId: string
@@ -10,6 +11,7 @@ interface EditIngredientFormProps {
 }
 
 export default function EditIngredientForm({ ingredientId, onClose, onSuccess }: EditIngredientFormProps) {
+  const { suppliers, fetchSuppliers } = useInventoryStore()
   const [formData, setFormData] = useState({
     name: '',
     code: '',
@@ -22,6 +24,7 @@ export default function EditIngredientForm({ ingredientId, onClose, onSuccess }:
     reorder_point: 0,
     reorder_quantity: 0,
     unit_cost: 0,
+    preferred_supplier_id: '',
     notes: ''
   })
 
@@ -56,6 +59,7 @@ export default function EditIngredientForm({ ingredientId, onClose, onSuccess }:
 
   useEffect(() => {
     loadIngredient()
+    fetchSuppliers({ is_active: true })
   }, [ingredientId])
 
   const loadIngredient = async () => {
@@ -76,6 +80,7 @@ export default function EditIngredientForm({ ingredientId, onClose, onSuccess }:
         reorder_point: data.reorder_point || 0,
         reorder_quantity: data.reorder_quantity || 0,
         unit_cost: data.unit_cost || 0,
+        preferred_supplier_id: data.preferred_supplier_id || '',
         notes: data.notes || ''
       })
     } catch (error) {
@@ -128,7 +133,8 @@ export default function EditIngredientForm({ ingredientId, onClose, onSuccess }:
           ...formData,
           max_stock_level: formData.max_stock_level || undefined,
           reorder_point: formData.reorder_point || undefined,
-          reorder_quantity: formData.reorder_quantity || undefined
+          reorder_quantity: formData.reorder_quantity || undefined,
+          preferred_supplier_id: formData.preferred_supplier_id || null
         })
       })
 
@@ -350,6 +356,24 @@ export default function EditIngredientForm({ ingredientId, onClose, onSuccess }:
                 />
               </div>
 
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  Preferred Supplier
+                </label>
+                <select
+                  value={formData.preferred_supplier_id}
+                  onChange={(e) => setFormData({ ...formData, preferred_supplier_id: e.target.value })}
+                  className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                >
+                  <option value="">None</option>
+                  {suppliers.map((supplier) => (
+                    <option key={supplier.id} value={supplier.id}>
+                      {supplier.company_name}
+                    </option>
+                  ))}
+                </select>
+              </div>
+
               <div>
                 <label className="block text-sm font-medium text-gray-700 mb-2">
                   Unit Cost (IDR)
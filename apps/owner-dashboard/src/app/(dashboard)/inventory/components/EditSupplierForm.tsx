@@ -24,6 +24,8 @@ export default function EditSupplierForm({ supplierId, onClose, onSuccess }: Edi
     payment_methods: [] as string[],
     bank_account: '',
     bank_name: '',
+    minimum_order_amount: 0,
+    lead_time_days: 2,
     delivery_rating: 0,
     quality_rating: 0,
     price_rating: 0,
@@ -78,6 +80,8 @@ export default function EditSupplierForm({ supplierId, onClose, onSuccess }: Edi
         payment_methods: data.payment_methods || [],
         bank_account: data.bank_account || '',
         bank_name: data.bank_name || '',
+        minimum_order_amount: Number(data.minimum_order_amount) || 0,
+        lead_time_days: data.lead_time_days ?? 2,
         delivery_rating: data.delivery_rating || 0,
         quality_rating: data.quality_rating || 0,
         price_rating: data.price_rating || 0,
@@ -362,6 +366,33 @@ export default function EditSupplierForm({ supplierId, onClose, onSuccess }: Edi
                 </select>
               </div>
 
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  Minimum Order (IDR)
+                </label>
+                <input
+                  type="number"
+                  min="0"
+                  value={formData.minimum_order_amount || ''}
+                  onChange={(e) => setFormData({ ...formData, minimum_order_amount: parseFloat(e.target.value) || 0 })}
+                  className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                  placeholder="0"
+                />
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  Lead Time (days)
+                </label>
+                <input
+                  type="number"
+                  min="0"
+                  value={formData.lead_time_days}
+                  onChange={(e) => setFormData({ ...formData, lead_time_days: parseInt(e.target.value) || 0 })}
+                  className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                />
+              </div>
+
               <div>
                 <label className="block text-sm font-medium text-gray-700 mb-2">
                   Payment Methods
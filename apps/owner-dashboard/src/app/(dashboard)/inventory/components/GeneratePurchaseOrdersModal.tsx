@@ -0,0 +1,281 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import Link from 'next/link'
+import { X, AlertCircle, CheckCircle, FileText, Truck } from 'lucide-react'
+import { inventoryService, type ReorderPlan } from '@/services/inventoryService'
+
+interface GeneratePurchaseOrdersModalProps {
+  onClose: () => void
+  onSuccess?: () => void
+}
+
+export default function GeneratePurchaseOrdersModal({ onClose, onSuccess }: GeneratePurchaseOrdersModalProps) {
+  const [plan, setPlan] = useState<ReorderPlan | null>(null)
+  const [selected, setSelected] = useState<Set<string>>(new Set())
+  const [quantities, setQuantities] = useState<Record<string, string>>({})
+  const [isLoading, setIsLoading] = useState(true)
+  const [isSubmitting, setIsSubmitting] = useState(false)
+  const [error, setError] = useState('')
+  const [created, setCreated] = useState<{ id: string; po_number: string; supplier_name: string; item_count: number; total_amount: number }[] | null>(null)
+
+  useEffect(() => {
+    loadPlan()
+  }, [])
+
+  const loadPlan = async () => {
+    setIsLoading(true)
+    try {
+      const data = await inventoryService.getReorderPlan()
+      setPlan(data)
+
+      const lines = data.groups.flatMap(group => group.lines)
+      setSelected(new Set(lines.map(line => line.ingredient_id)))
+      setQuantities(Object.fromEntries(lines.map(line => [line.ingredient_id, String(line.suggested_quantity)])))
+    } catch (error: any) {
+      setError(error.message || 'Failed to load reorder suggestions')
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  const toggleLine = (ingredientId: string) => {
+    const next = new Set(selected)
+    if (next.has(ingredientId)) {
+      next.delete(ingredientId)
+    } else {
+      next.add(ingredientId)
+    }
+    setSelected(next)
+  }
+
+  const handleGenerate = async () => {
+    if (!plan || selected.size === 0) return
+
+    // Send the reviewed quantities so the drafts match what is shown here
+    const overrides: Record<string, number> = {}
+    for (const ingredientId of selected) {
+      overrides[ingredientId] = Number(quantities[ingredientId]) || 0
+    }
+
+    setIsSubmitting(true)
+    setError('')
+    try {
+      const result = await inventoryService.generatePurchaseOrders(Array.from(selected), overrides)
+      setCreated(result.purchase_orders)
+      onSuccess?.()
+    } catch (error: any) {
+      setError(error.message || 'Failed to generate purchase orders')
+    } finally {
+      setIsSubmitting(false)
+    }
+  }
+
+  const formatCurrency = (amount: number) => {
+    return new Intl.NumberFormat('id-ID', {
+      style: 'currency',
+      currency: 'IDR',
+      minimumFractionDigits: 0
+    }).format(amount)
+  }
+
+  const getUrgencyColor = (urgency: string) => {
+    switch (urgency) {
+      case 'critical':
+        return 'bg-red-100 text-red-800'
+      case 'high':
+        return 'bg-orange-100 text-orange-800'
+      case 'medium':
+        return 'bg-yellow-100 text-yellow-800'
+      default:
+        return 'bg-gray-100 text-gray-800'
+    }
+  }
+
+  const groupTotal = (group: ReorderPlan['groups'][number]) =>
+    group.lines
+      .filter(line => selected.has(line.ingredient_id))
+      .reduce((sum, line) => sum + (Number(quantities[line.ingredient_id]) || 0) * line.unit_price, 0)
+
+  const supplierCount = plan
+    ? plan.groups.filter(group => group.lines.some(line => selected.has(line.ingredient_id))).length
+    : 0
+
+  return (
+    <div className="fixed inset-0 bg-black/20 backdrop-blur-sm flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-xl max-w-5xl w-full max-h-[90vh] overflow-y-auto shadow-2xl">
+        {/* Header */}
+        <div className="sticky top-0 bg-white border-b border-gray-200 px-6 py-4 flex items-center justify-between">
+          <div>
+            <h2 className="text-xl font-bold text-gray-900">Generate Purchase Orders</h2>
+            <p className="text-sm text-gray-600">Draft orders for low-stock ingredients, grouped by supplier</p>
+          </div>
+          <button
+            onClick={onClose}
+            className="p-2 text-gray-500 hover:text-gray-600 rounded-lg hover:bg-gray-100"
+          >
+            <X className="h-5 w-5" />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-6">
+          {error && (
+            <div className="bg-red-50 border border-red-200 rounded-lg p-4 flex items-start space-x-3">
+              <AlertCircle className="h-5 w-5 text-red-600 flex-shrink-0 mt-0.5" />
+              <p className="text-sm text-red-800">{error}</p>
+            </div>
+          )}
+
+          {isLoading ? (
+            <div className="flex items-center justify-center py-12">
+              <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+            </div>
+          ) : created ? (
+            <div className="space-y-4">
+              <div className="bg-green-50 border border-green-200 rounded-lg p-4 flex items-start space-x-3">
+                <CheckCircle className="h-5 w-5 text-green-600 flex-shrink-0 mt-0.5" />
+                <p className="text-sm text-green-800">
+                  {created.length} draft purchase order{created.length !== 1 ? 's' : ''} created. Review and send them from Purchase Orders.
+                </p>
+              </div>
+              <div className="divide-y divide-gray-200 border border-gray-200 rounded-lg">
+                {created.map((po) => (
+                  <div key={po.id} className="px-4 py-3 flex items-center justify-between text-sm">
+                    <div className="flex items-center space-x-2">
+                      <FileText className="h-4 w-4 text-gray-500" />
+                      <span className="font-medium text-gray-900">{po.po_number}</span>
+                      <span className="text-gray-600">{po.supplier_name} · {po.item_count} items</span>
+                    </div>
+                    <span className="font-medium text-gray-900">{formatCurrency(po.total_amount)}</span>
+                  </div>
+                ))}
+              </div>
+              <div className="flex justify-end">
+                <Link
+                  href="/inventory/purchase-orders"
+                  className="px-6 py-2 bg-blue-600 text-white rounded-lg font-medium hover:bg-blue-700"
+                >
+                  Go to Purchase Orders
+                </Link>
+              </div>
+            </div>
+          ) : plan && plan.groups.length === 0 && plan.unassigned.length === 0 ? (
+            <div className="text-center py-12">
+              <CheckCircle className="h-12 w-12 text-green-500 mx-auto mb-3" />
+              <p className="text-gray-600">Nothing needs reordering right now.</p>
+            </div>
+          ) : plan && (
+            <>
+              {plan.groups.map((group) => {
+                const total = groupTotal(group)
+                const belowMinimum = total > 0 && total < group.minimum_order_amount
+
+                return (
+                  <div key={group.supplier_id} className="border border-gray-200 rounded-lg overflow-hidden">
+                    <div className="bg-gray-50 px-4 py-3 flex items-center justify-between">
+                      <div>
+                        <h3 className="text-sm font-semibold text-gray-900">{group.supplier_name}</h3>
+                        <p className="text-xs text-gray-600 flex items-center space-x-1">
+                          <Truck className="h-3 w-3" />
+                          <span>
+                            {group.lead_time_days} day lead time · delivery by {new Date(group.expected_delivery).toLocaleDateString('id-ID', { day: 'numeric', month: 'short' })}
+                            {group.minimum_order_amount > 0 && ` · min. order ${formatCurrency(group.minimum_order_amount)}`}
+                          </span>
+                        </p>
+                      </div>
+                      <div className="text-right">
+                        <p className="text-sm font-bold text-gray-900">{formatCurrency(total)}</p>
+                        {belowMinimum && (
+                          <p className="text-xs text-orange-600">
+                            {formatCurrency(group.minimum_order_amount - total)} below minimum
+                          </p>
+                        )}
+                      </div>
+                    </div>
+                    <table className="w-full text-sm">
+                      <tbody className="divide-y divide-gray-200">
+                        {group.lines.map((line) => (
+                          <tr key={line.ingredient_id} className={selected.has(line.ingredient_id) ? '' : 'opacity-50'}>
+                            <td className="px-4 py-2 w-8">
+                              <input
+                                type="checkbox"
+                                checked={selected.has(line.ingredient_id)}
+                                onChange={() => toggleLine(line.ingredient_id)}
+                                className="rounded border-gray-300"
+                              />
+                            </td>
+                            <td className="px-4 py-2">
+                              <p className="font-medium text-gray-900">{line.ingredient_name}</p>
+                              <p className="text-xs text-gray-500">{line.reason}</p>
+                            </td>
+                            <td className="px-4 py-2">
+                              <span className={`px-2 py-0.5 rounded-full text-xs font-medium capitalize ${getUrgencyColor(line.urgency)}`}>
+                                {line.urgency}
+                              </span>
+                            </td>
+                            <td className="px-4 py-2 text-gray-600 whitespace-nowrap">
+                              {line.current_stock} {line.unit} in stock
+                            </td>
+                            <td className="px-4 py-2 whitespace-nowrap">
+                              <input
+                                type="number"
+                                min="0"
+                                step="0.001"
+                                value={quantities[line.ingredient_id] ?? ''}
+                                onChange={(e) => setQuantities({ ...quantities, [line.ingredient_id]: e.target.value })}
+                                disabled={!selected.has(line.ingredient_id)}
+                                className="w-24 px-2 py-1 border border-gray-300 rounded-lg text-gray-600"
+                              />
+                              <span className="ml-1 text-gray-600">{line.unit}</span>
+                            </td>
+                            <td className="px-4 py-2 text-right text-gray-900 whitespace-nowrap">
+                              {formatCurrency((Number(quantities[line.ingredient_id]) || 0) * line.unit_price)}
+                            </td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  </div>
+                )
+              })}
+
+              {plan.unassigned.length > 0 && (
+                <div className="bg-yellow-50 border border-yellow-200 rounded-lg p-4">
+                  <p className="text-sm font-medium text-yellow-900 mb-1">No supplier set</p>
+                  <p className="text-sm text-yellow-800">
+                    {plan.unassigned.map(line => line.ingredient_name).join(', ')} need{plan.unassigned.length === 1 ? 's' : ''} reordering
+                    but {plan.unassigned.length === 1 ? 'has' : 'have'} no preferred supplier. Set one on the ingredient to include it.
+                  </p>
+                </div>
+              )}
+
+              {/* Actions */}
+              <div className="flex items-center justify-end space-x-3 pt-4 border-t border-gray-200">
+                <button
+                  type="button"
+                  onClick={onClose}
+                  className="px-6 py-2 border border-gray-300 rounded-lg text-gray-700 font-medium hover:bg-gray-50"
+                  disabled={isSubmitting}
+                >
+                  Cancel
+                </button>
+                <button
+                  onClick={handleGenerate}
+                  disabled={isSubmitting || supplierCount === 0}
+                  className="px-6 py-2 bg-blue-600 text-white rounded-lg font-medium hover:bg-blue-700 disabled:bg-gray-300 disabled:cursor-not-allowed flex items-center space-x-2"
+                >
+                  <FileText className="h-4 w-4" />
+                  <span>
+                    {isSubmitting
+                      ? 'Creating...'
+                      : `Create ${supplierCount} Draft PO${supplierCount !== 1 ? 's' : ''}`}
+                  </span>
+                </button>
+              </div>
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  )
+}
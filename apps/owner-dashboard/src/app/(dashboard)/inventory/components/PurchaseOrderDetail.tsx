@@ -0,0 +1,369 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import { X, AlertCircle, Send, CheckCircle, XCircle, PackageCheck, Trash2 } from 'lucide-react'
+import {
+  inventoryService,
+  type PurchaseOrder,
+  type PurchaseOrderStatus,
+  type ReceivePurchaseOrderLine
+} from '@/services/inventoryService'
+
+interface PurchaseOrderDetailProps {
+  orderId: string
+  onClose: () => void
+  onChanged: () => void
+}
+
+interface ReceiveRow {
+  quantity: string
+  unit_cost: string
+  expiry_date: string
+  batch_number: string
+}
+
+const RECEIVABLE: PurchaseOrderStatus[] = ['sent', 'confirmed', 'partial_received']
+
+export default function PurchaseOrderDetail({ orderId, onClose, onChanged }: PurchaseOrderDetailProps) {
+  const [order, setOrder] = useState<PurchaseOrder | null>(null)
+  const [isLoading, setIsLoading] = useState(true)
+  const [isSubmitting, setIsSubmitting] = useState(false)
+  const [error, setError] = useState('')
+  const [receiveRows, setReceiveRows] = useState<Record<string, ReceiveRow>>({})
+
+  useEffect(() => {
+    loadOrder()
+  }, [orderId])
+
+  const loadOrder = async () => {
+    setIsLoading(true)
+    try {
+      const data = await inventoryService.getPurchaseOrder(orderId)
+      setOrder(data)
+
+      // Prefill with the outstanding quantity and ordered price
+      const rows: Record<string, ReceiveRow> = {}
+      for (const item of data.items || []) {
+        const outstanding = Math.max(0, Number(item.quantity) - Number(item.delivered_quantity || 0))
+        rows[item.id] = {
+          quantity: outstanding > 0 ? String(outstanding) : '',
+          unit_cost: String(item.unit_price),
+          expiry_date: '',
+          batch_number: ''
+        }
+      }
+      setReceiveRows(rows)
+    } catch (error: any) {
+      setError(error.message || 'Failed to load purchase order')
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  const updateRow = (itemId: string, field: keyof ReceiveRow, value: string) => {
+    setReceiveRows({ ...receiveRows, [itemId]: { ...receiveRows[itemId], [field]: value } })
+  }
+
+  const changeStatus = async (status: PurchaseOrderStatus) => {
+    let reason: string | undefined
+    if (status === 'cancelled') {
+      const input = window.prompt('Reason for cancelling this purchase order?')
+      if (input === null) return
+      reason = input
+    }
+    if (status === 'completed' && !window.confirm('Close this order? Outstanding quantities will not be received.')) {
+      return
+    }
+
+    setIsSubmitting(true)
+    setError('')
+    try {
+      await inventoryService.updatePurchaseOrderStatus(orderId, status, reason)
+      await loadOrder()
+      onChanged()
+    } catch (error: any) {
+      setError(error.message || 'Failed to update status')
+    } finally {
+      setIsSubmitting(false)
+    }
+  }
+
+  const handleDelete = async () => {
+    if (!window.confirm('Delete this draft purchase order?')) return
+
+    setIsSubmitting(true)
+    try {
+      await inventoryService.deletePurchaseOrder(orderId)
+      onChanged()
+      onClose()
+    } catch (error: any) {
+      setError(error.message || 'Failed to delete purchase order')
+      setIsSubmitting(false)
+    }
+  }
+
+  const handleReceive = async () => {
+    const lines: ReceivePurchaseOrderLine[] = Object.entries(receiveRows)
+      .filter(([, row]) => Number(row.quantity) > 0)
+      .map(([itemId, row]) => ({
+        item_id: itemId,
+        quantity: Number(row.quantity),
+        unit_cost: row.unit_cost === '' ? undefined : Number(row.unit_cost),
+        expiry_date: row.expiry_date || undefined,
+        batch_number: row.batch_number || undefined
+      }))
+
+    if (lines.length === 0) {
+      setError('Enter the received quantity for at least one item')
+      return
+    }
+
+    setIsSubmitting(true)
+    setError('')
+    try {
+      await inventoryService.receivePurchaseOrder(orderId, lines)
+      await loadOrder()
+      onChanged()
+    } catch (error: any) {
+      setError(error.message || 'Failed to receive purchase order')
+    } finally {
+      setIsSubmitting(false)
+    }
+  }
+
+  const formatCurrency = (amount: number) => {
+    return new Intl.NumberFormat('id-ID', {
+      style: 'currency',
+      currency: 'IDR',
+      minimumFractionDigits: 0
+    }).format(amount)
+  }
+
+  const formatDate = (dateString?: string) => {
+    if (!dateString) return '-'
+    return new Date(dateString).toLocaleDateString('id-ID', {
+      day: 'numeric',
+      month: 'short',
+      year: 'numeric'
+    })
+  }
+
+  const canReceive = order ? RECEIVABLE.includes(order.status) : false
+
+  return (
+    <div className="fixed inset-0 bg-black/20 backdrop-blur-sm flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-xl max-w-5xl w-full max-h-[90vh] overflow-y-auto shadow-2xl">
+        {/* Header */}
+        <div className="sticky top-0 bg-white border-b border-gray-200 px-6 py-4 flex items-center justify-between">
+          <div>
+            <h2 className="text-xl font-bold text-gray-900">{order?.po_number || 'Purchase Order'}</h2>
+            <p className="text-sm text-gray-600">
+              {order?.supplier?.company_name}
+              {order && <span className="capitalize"> · {order.status.replace('_', ' ')}</span>}
+            </p>
+          </div>
+          <button
+            onClick={onClose}
+            className="p-2 text-gray-500 hover:text-gray-600 rounded-lg hover:bg-gray-100"
+          >
+            <X className="h-5 w-5" />
+          </button>
+        </div>
+
+        {isLoading ? (
+          <div className="flex items-center justify-center py-12">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+          </div>
+        ) : order && (
+          <div className="p-6 space-y-6">
+            {error && (
+              <div className="bg-red-50 border border-red-200 rounded-lg p-4 flex items-start space-x-3">
+                <AlertCircle className="h-5 w-5 text-red-600 flex-shrink-0 mt-0.5" />
+                <p className="text-sm text-red-800">{error}</p>
+              </div>
+            )}
+
+            {/* Order Information */}
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-4 text-sm">
+              <div>
+                <p className="text-gray-500">Order Date</p>
+                <p className="font-medium text-gray-900">{formatDate(order.order_date)}</p>
+              </div>
+              <div>
+                <p className="text-gray-500">Expected Delivery</p>
+                <p className="font-medium text-gray-900">{formatDate(order.expected_delivery)}</p>
+              </div>
+              <div>
+                <p className="text-gray-500">Last Delivery</p>
+                <p className="font-medium text-gray-900">{formatDate(order.actual_delivery)}</p>
+              </div>
+              <div>
+                <p className="text-gray-500">Total Amount</p>
+                <p className="font-medium text-gray-900">{formatCurrency(order.total_amount)}</p>
+              </div>
+            </div>
+
+            {order.cancellation_reason && (
+              <p className="text-sm text-red-700">Cancelled: {order.cancellation_reason}</p>
+            )}
+
+            {/* Items */}
+            <div>
+              <h3 className="text-sm font-semibold text-gray-900 mb-3">
+                {canReceive ? 'Receive Delivery' : 'Items'}
+              </h3>
+              <div className="overflow-x-auto border border-gray-200 rounded-lg">
+                <table className="w-full text-sm">
+                  <thead className="bg-gray-50 border-b border-gray-200">
+                    <tr>
+                      <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Ingredient</th>
+                      <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 uppercase">Ordered</th>
+                      <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 uppercase">Received</th>
+                      <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 uppercase">Unit Price</th>
+                      {canReceive && (
+                        <>
+                          <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Receive Qty</th>
+                          <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Unit Cost</th>
+                          <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Expiry</th>
+                          <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Batch No.</th>
+                        </>
+                      )}
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-gray-200">
+                    {(order.items || []).map((item) => {
+                      const row = receiveRows[item.id]
+                      const delivered = Number(item.delivered_quantity || 0)
+                      const isShort = delivered < Number(item.quantity)
+
+                      return (
+                        <tr key={item.id}>
+                          <td className="px-4 py-2 text-gray-900">
+                            {item.ingredient?.name}
+                            {(item.batches || []).length > 0 && (
+                              <p className="text-xs text-gray-500">
+                                {item.batches!.map(batch => batch.batch_number).join(', ')}
+                              </p>
+                            )}
+                          </td>
+                          <td className="px-4 py-2 text-right text-gray-900">{item.quantity} {item.unit}</td>
+                          <td className={`px-4 py-2 text-right ${isShort && delivered > 0 ? 'text-orange-600' : 'text-gray-900'}`}>
+                            {delivered} {item.unit}
+                          </td>
+                          <td className="px-4 py-2 text-right text-gray-900">{formatCurrency(item.unit_price)}</td>
+                          {canReceive && row && (
+                            <>
+                              <td className="px-4 py-2">
+                                <input
+                                  type="number"
+                                  min="0"
+                                  step="0.001"
+                                  value={row.quantity}
+                                  onChange={(e) => updateRow(item.id, 'quantity', e.target.value)}
+                                  className="w-24 px-2 py-1 border border-gray-300 rounded-lg text-gray-600"
+                                />
+                              </td>
+                              <td className="px-4 py-2">
+                                <input
+                                  type="number"
+                                  min="0"
+                                  value={row.unit_cost}
+                                  onChange={(e) => updateRow(item.id, 'unit_cost', e.target.value)}
+                                  className="w-28 px-2 py-1 border border-gray-300 rounded-lg text-gray-600"
+                                />
+                              </td>
+                              <td className="px-4 py-2">
+                                <input
+                                  type="date"
+                                  value={row.expiry_date}
+                                  onChange={(e) => updateRow(item.id, 'expiry_date', e.target.value)}
+                                  className="px-2 py-1 border border-gray-300 rounded-lg text-gray-600"
+                                />
+                              </td>
+                              <td className="px-4 py-2">
+                                <input
+                                  type="text"
+                                  value={row.batch_number}
+                                  onChange={(e) => updateRow(item.id, 'batch_number', e.target.value)}
+                                  placeholder="Auto"
+                                  className="w-28 px-2 py-1 border border-gray-300 rounded-lg text-gray-600"
+                                />
+                              </td>
+                            </>
+                          )}
+                        </tr>
+                      )
+                    })}
+                  </tbody>
+                </table>
+              </div>
+            </div>
+
+            {/* Actions */}
+            <div className="flex flex-wrap items-center justify-end gap-3 pt-4 border-t border-gray-200">
+              {order.status === 'draft' && (
+                <>
+                  <button
+                    onClick={handleDelete}
+                    disabled={isSubmitting}
+                    className="px-4 py-2 border border-gray-300 rounded-lg text-gray-700 font-medium hover:bg-gray-50 flex items-center space-x-2"
+                  >
+                    <Trash2 className="h-4 w-4" />
+                    <span>Delete</span>
+                  </button>
+                  <button
+                    onClick={() => changeStatus('sent')}
+                    disabled={isSubmitting}
+                    className="px-4 py-2 bg-blue-600 text-white rounded-lg font-medium hover:bg-blue-700 disabled:bg-gray-300 flex items-center space-x-2"
+                  >
+                    <Send className="h-4 w-4" />
+                    <span>Mark as Sent</span>
+                  </button>
+                </>
+              )}
+              {order.status === 'sent' && (
+                <button
+                  onClick={() => changeStatus('confirmed')}
+                  disabled={isSubmitting}
+                  className="px-4 py-2 border border-green-300 text-green-700 rounded-lg font-medium hover:bg-green-50 flex items-center space-x-2"
+                >
+                  <CheckCircle className="h-4 w-4" />
+                  <span>Supplier Confirmed</span>
+                </button>
+              )}
+              {['draft', 'sent', 'confirmed'].includes(order.status) && (
+                <button
+                  onClick={() => changeStatus('cancelled')}
+                  disabled={isSubmitting}
+                  className="px-4 py-2 border border-red-300 text-red-700 rounded-lg font-medium hover:bg-red-50 flex items-center space-x-2"
+                >
+                  <XCircle className="h-4 w-4" />
+                  <span>Cancel Order</span>
+                </button>
+              )}
+              {order.status === 'partial_received' && (
+                <button
+                  onClick={() => changeStatus('completed')}
+                  disabled={isSubmitting}
+                  className="px-4 py-2 border border-gray-300 rounded-lg text-gray-700 font-medium hover:bg-gray-50"
+                >
+                  Close Short
+                </button>
+              )}
+              {canReceive && (
+                <button
+                  onClick={handleReceive}
+                  disabled={isSubmitting}
+                  className="px-4 py-2 bg-green-600 text-white rounded-lg font-medium hover:bg-green-700 disabled:bg-gray-300 flex items-center space-x-2"
+                >
+                  <PackageCheck className="h-4 w-4" />
+                  <span>{isSubmitting ? 'Saving...' : 'Receive Items'}</span>
+                </button>
+              )}
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -1,12 +1,14 @@
 'use client'
 
-import { useEffect } from 'react'
+import { useEffect, useState } from 'react'
 import { AlertTriangle, Package, Clock, TrendingDown } from 'lucide-react'
 import { useInventoryStore } from '@/stores/inventoryStore'
 import Link from 'next/link'
+import GeneratePurchaseOrdersModal from './GeneratePurchaseOrdersModal'
 
 export default function StockAlert() {
   const { ingredients, stockBatches, fetchIngredients, fetchStockBatches } = useInventoryStore()
+  const [isGenerateOpen, setIsGenerateOpen] = useState(false)
 
   useEffect(() => {
     fetchIngredients()
@@ -168,16 +170,17 @@ export default function StockAlert() {
             View Low Stock
           </Link>
           <button
-            onClick={() => {
-              // TODO: Generate purchase order for low stock items
-              alert('Generate PO feature coming soon!')
-            }}
+            onClick={() => setIsGenerateOpen(true)}
             className="px-4 py-2 bg-blue-600 text-white rounded-lg text-sm font-medium hover:bg-blue-700 transition-colors"
           >
             Generate Purchase Order
           </button>
         </div>
       </div>
+
+      {isGenerateOpen && (
+        <GeneratePurchaseOrdersModal onClose={() => setIsGenerateOpen(false)} />
+      )}
     </div>
   )
 }
\ No newline at end of file
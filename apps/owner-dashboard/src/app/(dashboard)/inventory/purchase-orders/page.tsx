@@ -15,20 +15,13 @@ import {
   DollarSign
 } from 'lucide-react'
 import CreatePurchaseOrderForm from '../components/CreatePurchaseOrderForm'
-
-interface PurchaseOrder {
-  id: string
-  po_number: string
-  supplier_id: string
-  supplier_name: string
-  order_date: string
-  expected_delivery: string
-  status: 'draft' | 'sent' | 'confirmed' | 'partially_received' | 'completed' | 'cancelled'
-  total_items: number
-  total_amount: number
-  notes?: string
-  created_at: string
-}
+import PurchaseOrderDetail from '../components/PurchaseOrderDetail'
+import GeneratePurchaseOrdersModal from '../components/GeneratePurchaseOrdersModal'
+import {
+  inventoryService,
+  type PurchaseOrder,
+  type SupplierVariance
+} from '@/services/inventoryService'
 
 export default function PurchaseOrdersPage() {
   const [orders, setOrders] = useState<PurchaseOrder[]>([])
@@ -36,17 +29,23 @@ export default function PurchaseOrdersPage() {
   const [searchQuery, setSearchQuery] = useState('')
   const [statusFilter, setStatusFilter] = useState<string>('')
   const [isCreateFormOpen, setIsCreateFormOpen] = useState(false)
+  const [selectedOrderId, setSelectedOrderId] = useState<string | null>(null)
+  const [isGenerateOpen, setIsGenerateOpen] = useState(false)
+  const [variance, setVariance] = useState<SupplierVariance[]>([])
 
   useEffect(() => {
     loadOrders()
   }, [statusFilter])
 
+  useEffect(() => {
+    loadVariance()
+  }, [])
+
   const loadOrders = async () => {
     setIsLoading(true)
     try {
-      // TODO: Implement API call to fetch purchase orders
-      // For now, show empty state
-      setOrders([])
+      const data = await inventoryService.getPurchaseOrders({ status: statusFilter || undefined })
+      setOrders(data)
     } catch (error) {
       console.error('Error loading purchase orders:', error)
     } finally {
@@ -54,6 +53,35 @@ export default function PurchaseOrdersPage() {
     }
   }
 
+  const loadVariance = async () => {
+    try {
+      const data = await inventoryService.getSupplierVariance()
+      setVariance(data)
+    } catch (error) {
+      console.error('Error loading supplier variance:', error)
+    }
+  }
+
+  const filteredOrders = orders.filter(order => {
+    if (!searchQuery) return true
+    const query = searchQuery.toLowerCase()
+    return order.po_number.toLowerCase().includes(query) ||
+      (order.supplier?.company_name || '').toLowerCase().includes(query)
+  })
+
+  const monthStart = new Date()
+  monthStart.setDate(1)
+  monthStart.setHours(0, 0, 0, 0)
+  const thisMonth = orders.filter(order => new Date(order.order_date) >= monthStart && order.status !== 'cancelled')
+  const stats = {
+    total: orders.length,
+    pending: orders.filter(order => ['sent', 'confirmed', 'partial_received'].includes(order.status)).length,
+    completedThisMonth: orders.filter(order =>
+      order.status === 'completed' && order.completed_at && new Date(order.completed_at) >= monthStart
+    ).length,
+    valueThisMonth: thisMonth.reduce((sum, order) => sum + Number(order.total_amount), 0)
+  }
+
   const getStatusIcon = (status: string) => {
     switch (status) {
       case 'draft':
@@ -62,7 +90,7 @@ export default function PurchaseOrdersPage() {
         return <TrendingUp className="h-4 w-4" />
       case 'confirmed':
         return <CheckCircle className="h-4 w-4" />
-      case 'partially_received':
+      case 'partial_received':
         return <Clock className="h-4 w-4" />
       case 'completed':
         return <CheckCircle className="h-4 w-4" />
@@ -81,7 +109,7 @@ export default function PurchaseOrdersPage() {
         return 'bg-blue-100 text-blue-800 border-blue-300'
       case 'confirmed':
         return 'bg-green-100 text-green-800 border-green-300'
-      case 'partially_received':
+      case 'partial_received':
         return 'bg-yellow-100 text-yellow-800 border-yellow-300'
       case 'completed':
         return 'bg-green-100 text-green-800 border-green-300'
@@ -116,13 +144,22 @@ export default function PurchaseOrdersPage() {
           <h1 className="text-2xl font-bold text-gray-900">Purchase Orders</h1>
           <p className="text-gray-600">Manage supplier orders and deliveries</p>
         </div>
-        <button
-          onClick={() => setIsCreateFormOpen(true)}
-          className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 font-medium flex items-center space-x-2"
-        >
-          <Plus className="h-4 w-4" />
-          <span>Create PO</span>
-        </button>
+        <div className="flex items-center space-x-2">
+          <button
+            onClick={() => setIsGenerateOpen(true)}
+            className="px-4 py-2 bg-white border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 font-medium flex items-center space-x-2"
+          >
+            <TrendingUp className="h-4 w-4" />
+            <span>Reorder Low Stock</span>
+          </button>
+          <button
+            onClick={() => setIsCreateFormOpen(true)}
+            className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 font-medium flex items-center space-x-2"
+          >
+            <Plus className="h-4 w-4" />
+            <span>Create PO</span>
+          </button>
+        </div>
       </div>
 
       {/* Stats Cards */}
@@ -132,7 +169,7 @@ export default function PurchaseOrdersPage() {
             <FileText className="h-6 w-6 text-blue-600" />
             <span className="text-xs text-gray-500 uppercase">Total</span>
           </div>
-          <p className="text-2xl font-bold text-gray-900">0</p>
+          <p className="text-2xl font-bold text-gray-900">{stats.total}</p>
           <p className="text-xs text-gray-600 mt-1">Purchase Orders</p>
         </div>
 
@@ -141,7 +178,7 @@ export default function PurchaseOrdersPage() {
             <Clock className="h-6 w-6 text-yellow-600" />
             <span className="text-xs text-gray-500 uppercase">Pending</span>
           </div>
-          <p className="text-2xl font-bold text-yellow-600">0</p>
+          <p className="text-2xl font-bold text-yellow-600">{stats.pending}</p>
           <p className="text-xs text-gray-600 mt-1">Awaiting Delivery</p>
         </div>
 
@@ -150,7 +187,7 @@ export default function PurchaseOrdersPage() {
             <CheckCircle className="h-6 w-6 text-green-600" />
             <span className="text-xs text-gray-500 uppercase">Completed</span>
           </div>
-          <p className="text-2xl font-bold text-green-600">0</p>
+          <p className="text-2xl font-bold text-green-600">{stats.completedThisMonth}</p>
           <p className="text-xs text-gray-600 mt-1">This Month</p>
         </div>
 
@@ -159,7 +196,7 @@ export default function PurchaseOrdersPage() {
             <DollarSign className="h-6 w-6 text-purple-600" />
             <span className="text-xs text-gray-500 uppercase">Total Value</span>
           </div>
-          <p className="text-xl font-bold text-gray-900">{formatCurrency(0)}</p>
+          <p className="text-xl font-bold text-gray-900">{formatCurrency(stats.valueThisMonth)}</p>
           <p className="text-xs text-gray-600 mt-1">This Month</p>
         </div>
       </div>
@@ -190,7 +227,7 @@ export default function PurchaseOrdersPage() {
               <option value="draft">Draft</option>
               <option value="sent">Sent</option>
               <option value="confirmed">Confirmed</option>
-              <option value="partially_received">Partially Received</option>
+              <option value="partial_received">Partially Received</option>
               <option value="completed">Completed</option>
               <option value="cancelled">Cancelled</option>
             </select>
@@ -204,7 +241,7 @@ export default function PurchaseOrdersPage() {
           <div className="flex items-center justify-center py-12">
             <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
           </div>
-        ) : orders.length === 0 ? (
+        ) : filteredOrders.length === 0 ? (
           <div className="text-center py-12">
             <Package className="h-16 w-16 text-gray-300 mx-auto mb-4" />
             <h3 className="text-lg font-semibold text-gray-900 mb-2">No Purchase Orders Yet</h3>
@@ -233,22 +270,22 @@ export default function PurchaseOrdersPage() {
                 </tr>
               </thead>
               <tbody className="bg-white divide-y divide-gray-200">
-                {orders.map((order) => (
+                {filteredOrders.map((order) => (
                   <tr key={order.id} className="hover:bg-gray-50">
                     <td className="px-6 py-4 whitespace-nowrap">
                       <span className="text-sm font-medium text-gray-900">{order.po_number}</span>
                     </td>
                     <td className="px-6 py-4 whitespace-nowrap">
-                      <span className="text-sm text-gray-900">{order.supplier_name}</span>
+                      <span className="text-sm text-gray-900">{order.supplier?.company_name}</span>
                     </td>
                     <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-600">
                       {formatDate(order.order_date)}
                     </td>
                     <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-600">
-                      {formatDate(order.expected_delivery)}
+                      {order.expected_delivery ? formatDate(order.expected_delivery) : '-'}
                     </td>
                     <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
-                      {order.total_items} items
+                      {order.items?.length || 0} items
                     </td>
                     <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900">
                       {formatCurrency(order.total_amount)}
@@ -260,8 +297,11 @@ export default function PurchaseOrdersPage() {
                       </span>
                     </td>
                     <td className="px-6 py-4 whitespace-nowrap text-right text-sm">
-                      <button className="text-blue-600 hover:text-blue-900 font-medium">
-                        View
+                      <button
+                        onClick={() => setSelectedOrderId(order.id)}
+                        className="text-blue-600 hover:text-blue-900 font-medium"
+                      >
+                        {['sent', 'confirmed', 'partial_received'].includes(order.status) ? 'Receive' : 'View'}
                       </button>
                     </td>
                   </tr>
@@ -272,6 +312,70 @@ export default function PurchaseOrdersPage() {
         )}
       </div>
 
+      {/* Received vs Ordered per Supplier */}
+      {variance.length > 0 && (
+        <div className="bg-white border border-gray-200 rounded-xl overflow-hidden">
+          <div className="px-6 py-4 border-b border-gray-200">
+            <h2 className="text-lg font-semibold text-gray-900">Supplier Delivery Variance</h2>
+            <p className="text-sm text-gray-600">Received vs ordered on delivered purchase orders</p>
+          </div>
+          <div className="overflow-x-auto">
+            <table className="w-full">
+              <thead className="bg-gray-50 border-b border-gray-200">
+                <tr>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">Supplier</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">POs</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">Fill Rate</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">Short / Over Lines</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">Ordered Value</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">Received Value</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">Price Variance</th>
+                </tr>
+              </thead>
+              <tbody className="bg-white divide-y divide-gray-200">
+                {variance.map((supplier) => (
+                  <tr key={supplier.supplier_id} className="hover:bg-gray-50">
+                    <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900">{supplier.supplier_name}</td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-600">{supplier.purchase_orders}</td>
+                    <td className={`px-6 py-4 whitespace-nowrap text-sm font-medium ${supplier.fill_rate < 95 ? 'text-orange-600' : 'text-green-600'}`}>
+                      {supplier.fill_rate}%
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-600">
+                      {supplier.short_lines} / {supplier.over_lines}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">{formatCurrency(supplier.ordered_value)}</td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">{formatCurrency(supplier.received_value)}</td>
+                    <td className={`px-6 py-4 whitespace-nowrap text-sm font-medium ${supplier.price_variance > 0 ? 'text-red-600' : 'text-gray-900'}`}>
+                      {supplier.price_variance > 0 ? '+' : ''}{formatCurrency(supplier.price_variance)}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
+
+      {/* Purchase Order Detail / Receiving Modal */}
+      {selectedOrderId && (
+        <PurchaseOrderDetail
+          orderId={selectedOrderId}
+          onClose={() => setSelectedOrderId(null)}
+          onChanged={() => {
+            loadOrders()
+            loadVariance()
+          }}
+        />
+      )}
+
+      {/* Generate From Reorder Suggestions Modal */}
+      {isGenerateOpen && (
+        <GeneratePurchaseOrdersModal
+          onClose={() => setIsGenerateOpen(false)}
+          onSuccess={() => loadOrders()}
+        />
+      )}
+
       {/* Create Purchase Order Form Modal */}
       {isCreateFormOpen && (
         <CreatePurchaseOrderForm
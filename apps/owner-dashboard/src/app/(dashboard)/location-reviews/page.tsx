@@ -0,0 +1,362 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import {
+  MapPin,
+  Filter,
+  CheckCircle,
+  XCircle,
+  Calendar,
+  Loader2,
+  AlertCircle,
+  AlertTriangle,
+  ExternalLink,
+  User
+} from 'lucide-react'
+import { format } from 'date-fns'
+import { id } from 'date-fns/locale'
+import type { LocationReview } from '@/lib/attendance/geofences'
+
+const PUNCH_LABELS: Record<LocationReview['punch'], string> = {
+  clock_in: 'Clock In',
+  clock_out: 'Clock Out'
+}
+
+export default function LocationReviewsPage() {
+  const [reviews, setReviews] = useState<LocationReview[]>([])
+  const [pendingCount, setPendingCount] = useState(0)
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState('')
+  const [statusFilter, setStatusFilter] = useState('pending')
+
+  // Modal state
+  const [selectedReview, setSelectedReview] = useState<LocationReview | null>(null)
+  const [modalAction, setModalAction] = useState<'approved' | 'rejected'>('approved')
+  const [reviewNotes, setReviewNotes] = useState('')
+  const [submitting, setSubmitting] = useState(false)
+
+  useEffect(() => {
+    fetchReviews()
+  }, [statusFilter])
+
+  const fetchReviews = async () => {
+    try {
+      setLoading(true)
+      setError('')
+
+      const response = await fetch(`/api/attendance/location-reviews?status=${statusFilter}`)
+      const data = await response.json()
+
+      if (response.ok) {
+        setReviews(data.data)
+        setPendingCount(data.pending)
+      } else {
+        setError(data.error || 'Gagal memuat data')
+      }
+    } catch (err) {
+      setError('Terjadi kesalahan saat memuat data')
+      console.error(err)
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const openModal = (review: LocationReview, action: 'approved' | 'rejected') => {
+    setSelectedReview(review)
+    setModalAction(action)
+    setReviewNotes('')
+  }
+
+  const closeModal = () => {
+    setSelectedReview(null)
+    setReviewNotes('')
+  }
+
+  const handleReview = async () => {
+    if (!selectedReview) return
+
+    try {
+      setSubmitting(true)
+
+      const response = await fetch(`/api/attendance/location-reviews/${selectedReview.id}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ status: modalAction, review_notes: reviewNotes })
+      })
+      const data = await response.json()
+
+      if (response.ok) {
+        closeModal()
+        fetchReviews()
+      } else {
+        alert(data.error || 'Gagal memproses review')
+      }
+    } catch (err) {
+      alert('Terjadi kesalahan saat memproses review')
+      console.error(err)
+    } finally {
+      setSubmitting(false)
+    }
+  }
+
+  const getStatusBadge = (status: string) => {
+    const styles = {
+      pending: 'bg-yellow-100 text-yellow-800',
+      approved: 'bg-green-100 text-green-800',
+      rejected: 'bg-red-100 text-red-800'
+    }
+    const text = {
+      pending: 'Pending',
+      approved: 'Disetujui',
+      rejected: 'Ditolak'
+    }
+    return (
+      <span className={`px-3 py-1 rounded-full text-sm font-medium ${styles[status as keyof typeof styles]}`}>
+        {text[status as keyof typeof text] || status}
+      </span>
+    )
+  }
+
+  const mapsUrl = (review: LocationReview) =>
+    `https://www.google.com/maps?q=${review.latitude},${review.longitude}`
+
+  return (
+    <div className="p-6 space-y-6">
+      {/* Header */}
+      <div className="flex items-start justify-between">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900">Location Reviews</h1>
+          <p className="text-gray-600 mt-1">Absen dengan lokasi mencurigakan yang perlu dicek owner</p>
+        </div>
+        <div className="bg-yellow-50 border border-yellow-200 rounded-lg px-4 py-2 text-right">
+          <p className="text-xs text-yellow-700">Menunggu Review</p>
+          <p className="text-2xl font-bold text-yellow-600">{pendingCount}</p>
+        </div>
+      </div>
+
+      {/* Error Message */}
+      {error && (
+        <div className="bg-red-50 border border-red-200 rounded-lg p-4 flex items-start space-x-3">
+          <AlertCircle className="h-5 w-5 text-red-600 flex-shrink-0 mt-0.5" />
+          <p className="text-sm text-red-800">{error}</p>
+        </div>
+      )}
+
+      {/* Filters */}
+      <div className="bg-white rounded-xl border border-gray-200 p-4">
+        <div className="flex items-center space-x-2">
+          <Filter className="h-5 w-5 text-gray-500" />
+          <select
+            value={statusFilter}
+            onChange={(e) => setStatusFilter(e.target.value)}
+            className="px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 text-gray-600"
+          >
+            <option value="pending">Pending</option>
+            <option value="approved">Disetujui</option>
+            <option value="rejected">Ditolak</option>
+            <option value="all">Semua Status</option>
+          </select>
+        </div>
+      </div>
+
+      {/* Reviews Table */}
+      <div className="bg-white rounded-xl border border-gray-200 overflow-hidden">
+        {loading ? (
+          <div className="p-12 text-center">
+            <Loader2 className="h-8 w-8 animate-spin text-blue-600 mx-auto mb-4" />
+            <p className="text-gray-600">Memuat data...</p>
+          </div>
+        ) : reviews.length === 0 ? (
+          <div className="p-12 text-center">
+            <MapPin className="h-12 w-12 text-gray-500 mx-auto mb-4" />
+            <p className="text-gray-600">Tidak ada absen yang perlu direview</p>
+          </div>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="w-full">
+              <thead className="bg-gray-50 border-b border-gray-200">
+                <tr>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Karyawan
+                  </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Absen
+                  </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Lokasi
+                  </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Tanda Mencurigakan
+                  </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Status
+                  </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Aksi
+                  </th>
+                </tr>
+              </thead>
+              <tbody className="bg-white divide-y divide-gray-200">
+                {reviews.map((review) => (
+                  <tr key={review.id} className="hover:bg-gray-50 align-top">
+                    <td className="px-6 py-4 whitespace-nowrap">
+                      <div className="flex items-center">
+                        <div className="flex-shrink-0 h-10 w-10 bg-blue-100 rounded-full flex items-center justify-center">
+                          <User className="h-5 w-5 text-blue-600" />
+                        </div>
+                        <div className="ml-4">
+                          <div className="text-sm font-medium text-gray-900">
+                            {review.employee?.full_name || '-'}
+                          </div>
+                          <div className="text-sm text-gray-500">
+                            {review.employee?.employee_code} • {review.employee?.position}
+                          </div>
+                        </div>
+                      </div>
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap">
+                      <div className="text-sm font-medium text-gray-900">{PUNCH_LABELS[review.punch]}</div>
+                      <div className="flex items-center text-sm text-gray-500">
+                        <Calendar className="h-4 w-4 mr-1 text-gray-500" />
+                        {format(new Date(review.punched_at), 'dd MMM yyyy HH:mm', { locale: id })}
+                      </div>
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm">
+                      <div className="text-gray-900">{review.zone_name || 'Tanpa area'}</div>
+                      <div className="text-gray-500">
+                        {Number(review.outside_meters) > 0
+                          ? `${Math.round(Number(review.outside_meters))}m di luar area`
+                          : 'Di dalam area'}
+                        {review.accuracy_meters !== null && ` • ±${Math.round(Number(review.accuracy_meters))}m`}
+                      </div>
+                      <a
+                        href={mapsUrl(review)}
+                        target="_blank"
+                        rel="noopener noreferrer"
+                        className="inline-flex items-center text-blue-600 hover:text-blue-700 text-xs mt-1"
+                      >
+                        <ExternalLink className="h-3 w-3 mr-1" />
+                        Lihat di peta
+                      </a>
+                    </td>
+                    <td className="px-6 py-4">
+                      <ul className="space-y-1 max-w-xs">
+                        {review.flags.map(flag => (
+                          <li key={flag.code} className="flex items-start text-sm text-orange-700">
+                            <AlertTriangle className="h-4 w-4 mr-1 mt-0.5 flex-shrink-0" />
+                            <span>{flag.message}</span>
+                          </li>
+                        ))}
+                      </ul>
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap">
+                      {getStatusBadge(review.status)}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm">
+                      {review.status === 'pending' ? (
+                        <div className="flex items-center space-x-2">
+                          <button
+                            onClick={() => openModal(review, 'approved')}
+                            className="px-3 py-1 bg-green-600 text-white rounded-lg hover:bg-green-700 transition-colors text-xs font-medium"
+                          >
+                            Setujui
+                          </button>
+                          <button
+                            onClick={() => openModal(review, 'rejected')}
+                            className="px-3 py-1 bg-red-600 text-white rounded-lg hover:bg-red-700 transition-colors text-xs font-medium"
+                          >
+                            Tolak
+                          </button>
+                        </div>
+                      ) : (
+                        <div className="text-gray-500 text-xs max-w-xs">
+                          {review.reviewed_at && format(new Date(review.reviewed_at), 'dd MMM yyyy', { locale: id })}
+                          {review.review_notes && <p className="mt-1 whitespace-normal">{review.review_notes}</p>}
+                        </div>
+                      )}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+
+      {/* Review Modal */}
+      {selectedReview && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+          <div className="bg-white rounded-xl max-w-md w-full p-6">
+            <h2 className="text-xl font-bold text-gray-900 mb-4">
+              {modalAction === 'approved' ? 'Setujui' : 'Tolak'} {PUNCH_LABELS[selectedReview.punch]}
+            </h2>
+
+            <div className="space-y-4 mb-6">
+              <div>
+                <p className="text-sm text-gray-600">Karyawan</p>
+                <p className="font-medium text-gray-900">{selectedReview.employee?.full_name}</p>
+              </div>
+
+              <div>
+                <p className="text-sm text-gray-600">Waktu</p>
+                <p className="font-medium text-gray-900">
+                  {format(new Date(selectedReview.punched_at), 'dd MMMM yyyy HH:mm', { locale: id })}
+                </p>
+              </div>
+
+              {modalAction === 'rejected' && selectedReview.punch === 'clock_in' && (
+                <div className="bg-red-50 border border-red-200 rounded-lg p-3 text-sm text-red-800">
+                  Menolak clock in menandai karyawan tidak hadir (absent) pada hari tersebut.
+                </div>
+              )}
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  Catatan (Opsional)
+                </label>
+                <textarea
+                  value={reviewNotes}
+                  onChange={(e) => setReviewNotes(e.target.value)}
+                  rows={3}
+                  className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 text-gray-600"
+                  placeholder="Tambahkan catatan..."
+                />
+              </div>
+            </div>
+
+            <div className="flex items-center justify-end space-x-3">
+              <button
+                onClick={closeModal}
+                className="px-4 py-2 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition-colors"
+                disabled={submitting}
+              >
+                Batal
+              </button>
+              <button
+                onClick={handleReview}
+                disabled={submitting}
+                className={`px-4 py-2 text-white rounded-lg transition-colors disabled:opacity-50 flex items-center space-x-2 ${
+                  modalAction === 'approved'
+                    ? 'bg-green-600 hover:bg-green-700'
+                    : 'bg-red-600 hover:bg-red-700'
+                }`}
+              >
+                {submitting ? (
+                  <>
+                    <Loader2 className="h-4 w-4 animate-spin" />
+                    <span>Memproses...</span>
+                  </>
+                ) : (
+                  <>
+                    {modalAction === 'approved' ? <CheckCircle className="h-4 w-4" /> : <XCircle className="h-4 w-4" />}
+                    <span>{modalAction === 'approved' ? 'Setujui' : 'Tolak'}</span>
+                  </>
+                )}
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
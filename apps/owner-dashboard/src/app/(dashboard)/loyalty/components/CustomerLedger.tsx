@@ -0,0 +1,222 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import { Loader2, Plus, Minus, History } from 'lucide-react'
+import type { LoyaltyCustomer, LoyaltyLedgerEntry } from '@/lib/loyalty/loyaltyLedger'
+
+interface CustomerLedgerProps {
+  phone: string
+  onAdjusted: () => void
+}
+
+const SOURCE_LABELS: Record<LoyaltyLedgerEntry['source'], string> = {
+  order: 'Earned',
+  redemption: 'Redeemed',
+  refund: 'Refund',
+  expiry: 'Expired',
+  adjustment: 'Adjustment'
+}
+
+const SOURCE_COLORS: Record<LoyaltyLedgerEntry['source'], string> = {
+  order: 'bg-green-100 text-green-800',
+  redemption: 'bg-blue-100 text-blue-800',
+  refund: 'bg-purple-100 text-purple-800',
+  expiry: 'bg-gray-100 text-gray-800',
+  adjustment: 'bg-orange-100 text-orange-800'
+}
+
+export default function CustomerLedger({ phone, onAdjusted }: CustomerLedgerProps) {
+  const [customer, setCustomer] = useState<LoyaltyCustomer | null>(null)
+  const [entries, setEntries] = useState<LoyaltyLedgerEntry[]>([])
+  const [isLoading, setIsLoading] = useState(true)
+  const [points, setPoints] = useState('')
+  const [reason, setReason] = useState('')
+  const [isAdjusting, setIsAdjusting] = useState(false)
+
+  useEffect(() => {
+    loadLedger()
+  }, [phone])
+
+  const loadLedger = async () => {
+    try {
+      setIsLoading(true)
+      const response = await fetch(`/api/loyalty/customers/${encodeURIComponent(phone)}`)
+      const result = await response.json()
+      if (!response.ok) {
+        throw new Error(result.error || 'Failed to load ledger')
+      }
+
+      setCustomer(result.data.customer)
+      setEntries(result.data.entries || [])
+    } catch (error) {
+      console.error('Error loading loyalty ledger:', error)
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  const handleAdjust = async (sign: 1 | -1) => {
+    const amount = Math.floor(Number(points))
+    if (!amount || amount <= 0) {
+      alert('Enter the number of points')
+      return
+    }
+    if (!reason.trim()) {
+      alert('Enter a reason for the adjustment')
+      return
+    }
+
+    try {
+      setIsAdjusting(true)
+      const response = await fetch(`/api/loyalty/customers/${encodeURIComponent(phone)}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ points: sign * amount, reason })
+      })
+
+      const result = await response.json()
+      if (!response.ok) {
+        throw new Error(result.error || 'Failed to adjust points')
+      }
+
+      setPoints('')
+      setReason('')
+      await loadLedger()
+      onAdjusted()
+    } catch (error: any) {
+      console.error('Error adjusting loyalty points:', error)
+      alert(error.message || 'Failed to adjust points')
+    } finally {
+      setIsAdjusting(false)
+    }
+  }
+
+  const formatDate = (date: string) => new Date(date).toLocaleString('id-ID', {
+    day: 'numeric',
+    month: 'short',
+    year: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit'
+  })
+
+  if (isLoading) {
+    return (
+      <div className="bg-white border border-gray-200 rounded-xl p-8 flex justify-center">
+        <Loader2 className="h-8 w-8 animate-spin text-blue-600" />
+      </div>
+    )
+  }
+
+  return (
+    <div className="bg-white border border-gray-200 rounded-xl">
+      <div className="p-4 border-b border-gray-200">
+        <div className="flex items-center justify-between">
+          <div>
+            <h2 className="text-lg font-semibold text-gray-900">
+              {customer?.customer_name || phone}
+            </h2>
+            <p className="text-sm text-gray-600">{phone}</p>
+          </div>
+          <div className="text-right">
+            <p className="text-sm text-gray-600">Balance</p>
+            <p className="text-2xl font-bold text-gray-900">
+              {(customer?.balance || 0).toLocaleString('id-ID')} pts
+            </p>
+          </div>
+        </div>
+      </div>
+
+      {/* Manual adjustment */}
+      <div className="p-4 border-b border-gray-200 space-y-3">
+        <h3 className="text-sm font-semibold text-gray-900">Manual Adjustment</h3>
+        <div className="flex flex-col md:flex-row gap-2">
+          <input
+            type="number"
+            min={1}
+            value={points}
+            onChange={(e) => setPoints(e.target.value)}
+            placeholder="Points"
+            className="md:w-32 px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent text-gray-900"
+          />
+          <input
+            type="text"
+            value={reason}
+            onChange={(e) => setReason(e.target.value)}
+            placeholder="Reason (e.g. complaint compensation)"
+            maxLength={200}
+            className="flex-1 px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent text-gray-900"
+          />
+          <button
+            onClick={() => handleAdjust(1)}
+            disabled={isAdjusting}
+            className="px-4 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 font-medium flex items-center justify-center gap-1 disabled:opacity-50"
+          >
+            <Plus className="h-4 w-4" />
+            Add
+          </button>
+          <button
+            onClick={() => handleAdjust(-1)}
+            disabled={isAdjusting}
+            className="px-4 py-2 bg-red-600 text-white rounded-lg hover:bg-red-700 font-medium flex items-center justify-center gap-1 disabled:opacity-50"
+          >
+            <Minus className="h-4 w-4" />
+            Deduct
+          </button>
+        </div>
+      </div>
+
+      {/* Ledger */}
+      <div className="p-4">
+        <h3 className="text-sm font-semibold text-gray-900 flex items-center gap-2 mb-3">
+          <History className="h-4 w-4" />
+          Ledger
+        </h3>
+
+        {entries.length === 0 ? (
+          <p className="text-sm text-gray-500 text-center py-6">No points activity yet</p>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-gray-600 border-b border-gray-200">
+                  <th className="py-2 pr-4 font-medium">Date</th>
+                  <th className="py-2 pr-4 font-medium">Type</th>
+                  <th className="py-2 pr-4 font-medium">Description</th>
+                  <th className="py-2 pr-4 font-medium text-right">Points</th>
+                  <th className="py-2 font-medium text-right">Balance</th>
+                </tr>
+              </thead>
+              <tbody>
+                {entries.map(entry => {
+                  const change = entry.points_earned - entry.points_used
+                  return (
+                    <tr key={entry.id} className="border-b border-gray-100 last:border-0">
+                      <td className="py-2 pr-4 text-gray-600 whitespace-nowrap">{formatDate(entry.created_at)}</td>
+                      <td className="py-2 pr-4">
+                        <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${SOURCE_COLORS[entry.source]}`}>
+                          {SOURCE_LABELS[entry.source]}
+                        </span>
+                      </td>
+                      <td className="py-2 pr-4 text-gray-900">
+                        {entry.description}
+                        {entry.expires_at && entry.points_remaining > 0 && (
+                          <span className="block text-xs text-gray-500">
+                            {entry.points_remaining.toLocaleString('id-ID')} left, expires {new Date(entry.expires_at).toLocaleDateString('id-ID')}
+                          </span>
+                        )}
+                      </td>
+                      <td className={`py-2 pr-4 text-right font-medium ${change >= 0 ? 'text-green-600' : 'text-red-600'}`}>
+                        {change >= 0 ? '+' : ''}{change.toLocaleString('id-ID')}
+                      </td>
+                      <td className="py-2 text-right text-gray-900">{entry.points_balance.toLocaleString('id-ID')}</td>
+                    </tr>
+                  )
+                })}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
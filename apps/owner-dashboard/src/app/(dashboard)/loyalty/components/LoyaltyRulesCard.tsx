@@ -0,0 +1,131 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import { Save, Loader2, CheckCircle, Settings2 } from 'lucide-react'
+import type { LoyaltyRules } from '@cafe/utils/calculations/loyalty'
+
+interface LoyaltyRulesCardProps {
+  rules: LoyaltyRules
+  onSaved: (rules: LoyaltyRules) => void
+}
+
+type NumericRule = Exclude<keyof LoyaltyRules, 'enabled'>
+
+const FIELDS: { key: NumericRule; label: string; hint: string; prefix?: string; suffix?: string }[] = [
+  { key: 'spend_per_point', label: 'Spend per point', hint: 'Net spend (after discounts) that earns 1 point', prefix: 'Rp' },
+  { key: 'point_value', label: 'Point value', hint: 'Discount given for each redeemed point', prefix: 'Rp' },
+  { key: 'min_redeem_points', label: 'Minimum redemption', hint: 'Fewest points that can be redeemed at once', suffix: 'pts' },
+  { key: 'max_redeem_percentage', label: 'Redemption cap', hint: 'Share of the subtotal (after promos) points may cover', suffix: '%' },
+  { key: 'expiry_days', label: 'Points expire after', hint: 'Days after earning; 0 means points never expire', suffix: 'days' }
+]
+
+export default function LoyaltyRulesCard({ rules, onSaved }: LoyaltyRulesCardProps) {
+  const [form, setForm] = useState<LoyaltyRules>(rules)
+  const [isSaving, setIsSaving] = useState(false)
+  const [showSuccess, setShowSuccess] = useState(false)
+
+  useEffect(() => {
+    setForm(rules)
+  }, [rules])
+
+  const handleSave = async () => {
+    setIsSaving(true)
+    try {
+      const response = await fetch('/api/loyalty/rules', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(form)
+      })
+
+      const result = await response.json()
+      if (!response.ok) {
+        throw new Error(result.error || 'Failed to save loyalty rules')
+      }
+
+      onSaved(result.data)
+      setShowSuccess(true)
+      setTimeout(() => setShowSuccess(false), 3000)
+    } catch (error: any) {
+      console.error('Error saving loyalty rules:', error)
+      alert(error.message || 'Failed to save loyalty rules')
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  // 1 point per spend_per_point, worth point_value
+  const returnRate = form.spend_per_point > 0
+    ? (form.point_value / form.spend_per_point) * 100
+    : 0
+
+  return (
+    <div className="bg-white border border-gray-200 rounded-xl">
+      <div className="p-4 border-b border-gray-200 flex items-center justify-between">
+        <div className="flex items-center gap-2">
+          <Settings2 className="h-5 w-5 text-gray-600" />
+          <h2 className="text-lg font-semibold text-gray-900">Program Rules</h2>
+        </div>
+        <label className="flex items-center gap-2 text-sm text-gray-700 cursor-pointer">
+          <input
+            type="checkbox"
+            checked={form.enabled}
+            onChange={(e) => setForm(prev => ({ ...prev, enabled: e.target.checked }))}
+            className="w-4 h-4 text-blue-600 border-gray-300 rounded focus:ring-blue-500"
+          />
+          Program active
+        </label>
+      </div>
+
+      <div className="p-4 space-y-4">
+        {FIELDS.map(field => (
+          <div key={field.key}>
+            <label className="block text-sm font-medium text-gray-700 mb-1">
+              {field.label}
+            </label>
+            <div className="flex items-center gap-2">
+              {field.prefix && <span className="text-sm text-gray-500">{field.prefix}</span>}
+              <input
+                type="number"
+                min={field.key === 'spend_per_point' || field.key === 'point_value' ? 1 : 0}
+                max={field.key === 'max_redeem_percentage' ? 100 : undefined}
+                value={form[field.key]}
+                onChange={(e) => setForm(prev => ({ ...prev, [field.key]: Number(e.target.value) }))}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent text-gray-900"
+              />
+              {field.suffix && <span className="text-sm text-gray-500">{field.suffix}</span>}
+            </div>
+            <p className="text-xs text-gray-500 mt-1">{field.hint}</p>
+          </div>
+        ))}
+
+        <div className="bg-blue-50 border border-blue-200 rounded-lg p-3 text-sm text-blue-800">
+          Customers get back {returnRate.toLocaleString('id-ID', { maximumFractionDigits: 2 })}% of their
+          spend in points.
+        </div>
+
+        <button
+          onClick={handleSave}
+          disabled={isSaving}
+          className="w-full px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 font-medium flex items-center justify-center gap-2 disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          {isSaving ? (
+            <>
+              <Loader2 className="h-4 w-4 animate-spin" />
+              Saving...
+            </>
+          ) : showSuccess ? (
+            <>
+              <CheckCircle className="h-4 w-4" />
+              Saved!
+            </>
+          ) : (
+            <>
+              <Save className="h-4 w-4" />
+              Save Rules
+            </>
+          )}
+        </button>
+      </div>
+    </div>
+  )
+}
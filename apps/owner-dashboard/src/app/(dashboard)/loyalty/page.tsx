@@ -0,0 +1,179 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import { Search, Users, Award, Wallet, Loader2 } from 'lucide-react'
+import { DEFAULT_LOYALTY_RULES, type LoyaltyRules } from '@cafe/utils/calculations/loyalty'
+import type { LoyaltyCustomer } from '@/lib/loyalty/loyaltyLedger'
+import LoyaltyRulesCard from './components/LoyaltyRulesCard'
+import CustomerLedger from './components/CustomerLedger'
+
+export default function LoyaltyPage() {
+  const [rules, setRules] = useState<LoyaltyRules>(DEFAULT_LOYALTY_RULES)
+  const [customers, setCustomers] = useState<LoyaltyCustomer[]>([])
+  const [isLoading, setIsLoading] = useState(true)
+  const [searchQuery, setSearchQuery] = useState('')
+  const [selectedPhone, setSelectedPhone] = useState<string | null>(null)
+
+  useEffect(() => {
+    loadRules()
+  }, [])
+
+  useEffect(() => {
+    const timer = setTimeout(() => loadCustomers(), 300)
+    return () => clearTimeout(timer)
+  }, [searchQuery])
+
+  const loadRules = async () => {
+    try {
+      const response = await fetch('/api/loyalty/rules')
+      if (!response.ok) {
+        throw new Error('Failed to fetch loyalty rules')
+      }
+
+      const { data } = await response.json()
+      setRules(data)
+    } catch (error) {
+      console.error('Error loading loyalty rules:', error)
+    }
+  }
+
+  const loadCustomers = async () => {
+    try {
+      setIsLoading(true)
+
+      const params = searchQuery ? `?search=${encodeURIComponent(searchQuery)}` : ''
+      const response = await fetch(`/api/loyalty/customers${params}`)
+      if (!response.ok) {
+        throw new Error('Failed to fetch loyalty customers')
+      }
+
+      const { data } = await response.json()
+      setCustomers(data || [])
+    } catch (error) {
+      console.error('Error loading loyalty customers:', error)
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  const formatCurrency = (amount: number) => {
+    return new Intl.NumberFormat('id-ID', {
+      style: 'currency',
+      currency: 'IDR',
+      minimumFractionDigits: 0
+    }).format(amount)
+  }
+
+  const outstandingPoints = customers.reduce((total, customer) => total + customer.balance, 0)
+
+  return (
+    <div className="p-6 max-w-7xl mx-auto space-y-6">
+      {/* Header */}
+      <div>
+        <h1 className="text-2xl font-bold text-gray-900">Loyalty Points</h1>
+        <p className="text-gray-600">Earn and redeem rules, customer balances and manual adjustments</p>
+      </div>
+
+      {/* Stats */}
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        <div className="bg-white border border-gray-200 rounded-xl p-4">
+          <div className="flex items-center gap-3">
+            <div className="p-3 bg-blue-100 rounded-lg">
+              <Users className="h-6 w-6 text-blue-600" />
+            </div>
+            <div>
+              <p className="text-sm text-gray-600">Members</p>
+              <p className="text-2xl font-bold text-gray-900">{customers.length}</p>
+            </div>
+          </div>
+        </div>
+
+        <div className="bg-white border border-gray-200 rounded-xl p-4">
+          <div className="flex items-center gap-3">
+            <div className="p-3 bg-green-100 rounded-lg">
+              <Award className="h-6 w-6 text-green-600" />
+            </div>
+            <div>
+              <p className="text-sm text-gray-600">Outstanding Points</p>
+              <p className="text-2xl font-bold text-gray-900">{outstandingPoints.toLocaleString('id-ID')}</p>
+            </div>
+          </div>
+        </div>
+
+        <div className="bg-white border border-gray-200 rounded-xl p-4">
+          <div className="flex items-center gap-3">
+            <div className="p-3 bg-orange-100 rounded-lg">
+              <Wallet className="h-6 w-6 text-orange-600" />
+            </div>
+            <div>
+              <p className="text-sm text-gray-600">Outstanding Value</p>
+              <p className="text-2xl font-bold text-gray-900">{formatCurrency(outstandingPoints * rules.point_value)}</p>
+            </div>
+          </div>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+        {/* Rules */}
+        <div className="lg:col-span-1">
+          <LoyaltyRulesCard rules={rules} onSaved={setRules} />
+        </div>
+
+        {/* Customers and ledger */}
+        <div className="lg:col-span-2 space-y-6">
+          <div className="bg-white border border-gray-200 rounded-xl">
+            <div className="p-4 border-b border-gray-200">
+              <div className="relative">
+                <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-gray-400" />
+                <input
+                  type="text"
+                  value={searchQuery}
+                  onChange={(e) => setSearchQuery(e.target.value)}
+                  placeholder="Search by phone number..."
+                  className="w-full pl-10 pr-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent text-gray-900"
+                />
+              </div>
+            </div>
+
+            {isLoading ? (
+              <div className="p-8 flex justify-center">
+                <Loader2 className="h-8 w-8 animate-spin text-blue-600" />
+              </div>
+            ) : customers.length === 0 ? (
+              <p className="p-8 text-center text-gray-500">No customers with points yet</p>
+            ) : (
+              <div className="divide-y divide-gray-100 max-h-96 overflow-y-auto">
+                {customers.map(customer => (
+                  <button
+                    key={customer.customer_phone}
+                    onClick={() => setSelectedPhone(customer.customer_phone)}
+                    className={`w-full text-left px-4 py-3 flex items-center justify-between hover:bg-gray-50 ${
+                      selectedPhone === customer.customer_phone ? 'bg-blue-50' : ''
+                    }`}
+                  >
+                    <div>
+                      <p className="font-medium text-gray-900">{customer.customer_name || customer.customer_phone}</p>
+                      <p className="text-sm text-gray-600">
+                        {customer.customer_phone} · last activity {new Date(customer.last_activity).toLocaleDateString('id-ID')}
+                      </p>
+                    </div>
+                    <div className="text-right">
+                      <p className="font-semibold text-gray-900">{customer.balance.toLocaleString('id-ID')} pts</p>
+                      <p className="text-xs text-gray-500">
+                        {customer.lifetime_earned.toLocaleString('id-ID')} earned · {customer.lifetime_used.toLocaleString('id-ID')} redeemed
+                      </p>
+                    </div>
+                  </button>
+                ))}
+              </div>
+            )}
+          </div>
+
+          {selectedPhone && (
+            <CustomerLedger phone={selectedPhone} onAdjusted={loadCustomers} />
+          )}
+        </div>
+      </div>
+    </div>
+  )
+}
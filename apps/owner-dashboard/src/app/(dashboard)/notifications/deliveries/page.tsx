@@ -0,0 +1,366 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import Link from 'next/link'
+import {
+  ArrowLeft,
+  History,
+  RefreshCw,
+  RotateCcw,
+  X,
+  Moon,
+  Trash2,
+  AlertCircle,
+  CheckCircle,
+  Clock
+} from 'lucide-react'
+import { toast } from 'sonner'
+import type {
+  NotificationDelivery,
+  NotificationRecipient,
+  QuietHoursEntry
+} from '@/lib/telegram/deliveries'
+import type { ScheduledNotificationStatus } from '@cafe/utils/helpers/notificationSchedule'
+
+const STATUS_STYLES: Record<ScheduledNotificationStatus, { label: string; color: string }> = {
+  pending: { label: 'Pending', color: 'bg-yellow-100 text-yellow-800' },
+  processing: { label: 'Sending', color: 'bg-blue-100 text-blue-800' },
+  sent: { label: 'Sent', color: 'bg-green-100 text-green-800' },
+  failed: { label: 'Failed', color: 'bg-red-100 text-red-800' },
+  cancelled: { label: 'Cancelled', color: 'bg-gray-100 text-gray-700' }
+}
+
+const FILTERS: Array<ScheduledNotificationStatus | 'all'> = ['all', 'pending', 'sent', 'failed', 'cancelled']
+
+const formatDateTime = (value: string | null) =>
+  value
+    ? new Date(value).toLocaleString('id-ID', {
+        day: '2-digit',
+        month: 'short',
+        hour: '2-digit',
+        minute: '2-digit'
+      })
+    : '-'
+
+export default function NotificationDeliveriesPage() {
+  const [deliveries, setDeliveries] = useState<NotificationDelivery[]>([])
+  const [counts, setCounts] = useState<Partial<Record<ScheduledNotificationStatus, number>>>({})
+  const [filter, setFilter] = useState<ScheduledNotificationStatus | 'all'>('all')
+  const [isLoading, setIsLoading] = useState(true)
+  const [updating, setUpdating] = useState<string | null>(null)
+
+  const [quietHours, setQuietHours] = useState<QuietHoursEntry[]>([])
+  const [recipients, setRecipients] = useState<NotificationRecipient[]>([])
+  const [quietForm, setQuietForm] = useState({ chat_id: '', start_time: '22:00', end_time: '07:00' })
+  const [isSavingQuiet, setIsSavingQuiet] = useState(false)
+
+  useEffect(() => {
+    loadDeliveries()
+  }, [filter])
+
+  useEffect(() => {
+    loadQuietHours()
+  }, [])
+
+  const loadDeliveries = async () => {
+    setIsLoading(true)
+    try {
+      const query = filter === 'all' ? '' : `?status=${filter}`
+      const response = await fetch(`/api/notifications/deliveries${query}`)
+      const result = await response.json()
+      if (!response.ok) throw new Error(result.error || 'Failed to load deliveries')
+
+      setDeliveries(result.data || [])
+      setCounts(result.counts || {})
+    } catch (error: any) {
+      console.error('Error loading deliveries:', error)
+      toast.error(error.message || 'Failed to load deliveries')
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  const loadQuietHours = async () => {
+    try {
+      const response = await fetch('/api/notifications/quiet-hours')
+      const result = await response.json()
+      if (!response.ok) throw new Error(result.error || 'Failed to load quiet hours')
+
+      setQuietHours(result.data || [])
+      setRecipients(result.recipients || [])
+    } catch (error) {
+      console.error('Error loading quiet hours:', error)
+    }
+  }
+
+  const handleAction = async (id: string, action: 'retry' | 'cancel') => {
+    setUpdating(id)
+    try {
+      const response = await fetch(`/api/notifications/deliveries/${id}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ action })
+      })
+      const result = await response.json()
+      if (!response.ok) throw new Error(result.error || 'Failed to update notification')
+
+      toast.success(action === 'retry' ? 'Queued for the next dispatch' : 'Notification cancelled')
+      await loadDeliveries()
+    } catch (error: any) {
+      toast.error(error.message || 'Failed to update notification')
+    } finally {
+      setUpdating(null)
+    }
+  }
+
+  const handleSaveQuietHours = async () => {
+    const recipient = recipients.find(r => r.chat_id === quietForm.chat_id)
+    if (!recipient) {
+      toast.error('Choose a recipient')
+      return
+    }
+
+    setIsSavingQuiet(true)
+    try {
+      const response = await fetch('/api/notifications/quiet-hours', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ ...quietForm, recipient_name: recipient.recipient_name })
+      })
+      const result = await response.json()
+      if (!response.ok) throw new Error(result.error || 'Failed to save quiet hours')
+
+      toast.success(`Quiet hours saved for ${recipient.recipient_name}`)
+      await loadQuietHours()
+    } catch (error: any) {
+      toast.error(error.message || 'Failed to save quiet hours')
+    } finally {
+      setIsSavingQuiet(false)
+    }
+  }
+
+  const handleDeleteQuietHours = async (chatId: string) => {
+    try {
+      const response = await fetch(`/api/notifications/quiet-hours/${encodeURIComponent(chatId)}`, {
+        method: 'DELETE'
+      })
+      const result = await response.json()
+      if (!response.ok) throw new Error(result.error || 'Failed to remove quiet hours')
+
+      await loadQuietHours()
+    } catch (error: any) {
+      toast.error(error.message || 'Failed to remove quiet hours')
+    }
+  }
+
+  return (
+    <div className="p-6 max-w-7xl mx-auto space-y-6">
+      {/* Header */}
+      <div className="flex items-center justify-between">
+        <div className="flex items-center gap-3">
+          <Link href="/notifications" className="p-2 hover:bg-gray-100 rounded-lg transition-colors">
+            <ArrowLeft className="h-5 w-5 text-gray-600" />
+          </Link>
+          <div>
+            <h1 className="text-2xl font-bold text-gray-900 flex items-center space-x-2">
+              <History className="h-7 w-7" />
+              <span>Delivery History</span>
+            </h1>
+            <p className="text-gray-600">Scheduled notifications and report deliveries sent by the dispatcher</p>
+          </div>
+        </div>
+        <button
+          onClick={loadDeliveries}
+          disabled={isLoading}
+          className="flex items-center gap-2 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:bg-gray-400 transition-colors"
+        >
+          <RefreshCw className={`h-4 w-4 ${isLoading ? 'animate-spin' : ''}`} />
+          <span>Refresh</span>
+        </button>
+      </div>
+
+      {/* Stats */}
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        <div className="bg-white border border-gray-200 rounded-xl p-4">
+          <div className="flex items-center justify-between mb-2">
+            <Clock className="h-6 w-6 text-yellow-600" />
+            <span className="text-xs text-gray-500 uppercase">Waiting</span>
+          </div>
+          <p className="text-2xl font-bold text-gray-900">{(counts.pending || 0) + (counts.processing || 0)}</p>
+        </div>
+        <div className="bg-white border border-gray-200 rounded-xl p-4">
+          <div className="flex items-center justify-between mb-2">
+            <CheckCircle className="h-6 w-6 text-green-600" />
+            <span className="text-xs text-gray-500 uppercase">Sent</span>
+          </div>
+          <p className="text-2xl font-bold text-green-600">{counts.sent || 0}</p>
+        </div>
+        <div className="bg-white border border-gray-200 rounded-xl p-4">
+          <div className="flex items-center justify-between mb-2">
+            <AlertCircle className="h-6 w-6 text-red-600" />
+            <span className="text-xs text-gray-500 uppercase">Failed</span>
+          </div>
+          <p className="text-2xl font-bold text-red-600">{counts.failed || 0}</p>
+        </div>
+      </div>
+
+      {/* History */}
+      <div className="bg-white border border-gray-200 rounded-xl">
+        <div className="p-4 border-b border-gray-200 flex flex-wrap gap-2">
+          {FILTERS.map(status => (
+            <button
+              key={status}
+              onClick={() => setFilter(status)}
+              className={`px-3 py-1.5 rounded-lg text-sm font-medium transition-colors ${
+                filter === status ? 'bg-blue-600 text-white' : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+              }`}
+            >
+              {status === 'all' ? 'All' : STATUS_STYLES[status].label}
+              {status !== 'all' && counts[status] ? ` (${counts[status]})` : ''}
+            </button>
+          ))}
+        </div>
+
+        {isLoading ? (
+          <div className="p-6 space-y-3">
+            {[1, 2, 3].map(i => (
+              <div key={i} className="h-14 bg-gray-200 rounded animate-pulse"></div>
+            ))}
+          </div>
+        ) : deliveries.length === 0 ? (
+          <p className="p-12 text-center text-gray-500">No notifications here yet</p>
+        ) : (
+          <div className="divide-y divide-gray-100">
+            {deliveries.map(delivery => {
+              const style = STATUS_STYLES[delivery.status]
+              return (
+                <div key={delivery.id} className="p-4 flex items-start justify-between gap-4">
+                  <div className="min-w-0 flex-1">
+                    <div className="flex items-center gap-2 flex-wrap">
+                      <span className="font-medium text-gray-900">
+                        {delivery.recipient_name || delivery.chat_id}
+                      </span>
+                      <span className="px-2 py-0.5 bg-gray-100 rounded text-xs text-gray-600">
+                        {delivery.notification_type}
+                      </span>
+                      <span className={`px-2 py-0.5 rounded text-xs font-medium ${style.color}`}>
+                        {style.label}
+                      </span>
+                      {delivery.priority === 'urgent' && (
+                        <span className="px-2 py-0.5 rounded text-xs font-medium bg-red-100 text-red-800">Urgent</span>
+                      )}
+                    </div>
+                    {delivery.message && (
+                      <p className="text-sm text-gray-600 mt-1 line-clamp-2 whitespace-pre-line">{delivery.message}</p>
+                    )}
+                    <p className="text-xs text-gray-500 mt-1">
+                      Scheduled {formatDateTime(delivery.scheduled_at)}
+                      {delivery.sent_at && ` · sent ${formatDateTime(delivery.sent_at)}`}
+                      {delivery.status === 'pending' && delivery.next_attempt_at &&
+                        ` · next attempt ${formatDateTime(delivery.next_attempt_at)}`}
+                      {` · attempt ${delivery.attempts}/${delivery.max_attempts}`}
+                    </p>
+                    {delivery.last_error && (
+                      <p className="text-xs text-red-600 mt-1">{delivery.last_error}</p>
+                    )}
+                  </div>
+
+                  <div className="flex items-center gap-2 flex-shrink-0">
+                    {['failed', 'cancelled'].includes(delivery.status) && (
+                      <button
+                        onClick={() => handleAction(delivery.id, 'retry')}
+                        disabled={updating === delivery.id}
+                        className="flex items-center gap-1 px-3 py-1.5 text-sm bg-blue-50 text-blue-700 rounded-lg hover:bg-blue-100 disabled:opacity-50"
+                      >
+                        <RotateCcw className="h-4 w-4" />
+                        Retry
+                      </button>
+                    )}
+                    {delivery.status === 'pending' && (
+                      <button
+                        onClick={() => handleAction(delivery.id, 'cancel')}
+                        disabled={updating === delivery.id}
+                        className="flex items-center gap-1 px-3 py-1.5 text-sm bg-gray-50 text-gray-700 rounded-lg hover:bg-gray-100 disabled:opacity-50"
+                      >
+                        <X className="h-4 w-4" />
+                        Cancel
+                      </button>
+                    )}
+                  </div>
+                </div>
+              )
+            })}
+          </div>
+        )}
+      </div>
+
+      {/* Quiet Hours */}
+      <div className="bg-white border border-gray-200 rounded-xl p-6">
+        <h2 className="text-lg font-semibold text-gray-900 flex items-center gap-2">
+          <Moon className="h-5 w-5 text-indigo-600" />
+          Quiet Hours
+        </h2>
+        <p className="text-sm text-gray-600 mb-4">
+          Scheduled notifications wait until quiet hours end; urgent ones are still sent. Times are in the cafe&apos;s time zone.
+        </p>
+
+        <div className="grid grid-cols-1 md:grid-cols-4 gap-3 mb-4">
+          <select
+            value={quietForm.chat_id}
+            onChange={(e) => setQuietForm(prev => ({ ...prev, chat_id: e.target.value }))}
+            className="md:col-span-2 px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 text-gray-900"
+          >
+            <option value="">Choose recipient...</option>
+            {recipients.map(recipient => (
+              <option key={recipient.chat_id} value={recipient.chat_id}>{recipient.recipient_name}</option>
+            ))}
+          </select>
+          <div className="flex items-center gap-2">
+            <input
+              type="time"
+              value={quietForm.start_time}
+              onChange={(e) => setQuietForm(prev => ({ ...prev, start_time: e.target.value }))}
+              className="flex-1 px-3 py-2 border border-gray-300 rounded-lg text-gray-900"
+            />
+            <span className="text-gray-500">-</span>
+            <input
+              type="time"
+              value={quietForm.end_time}
+              onChange={(e) => setQuietForm(prev => ({ ...prev, end_time: e.target.value }))}
+              className="flex-1 px-3 py-2 border border-gray-300 rounded-lg text-gray-900"
+            />
+          </div>
+          <button
+            onClick={handleSaveQuietHours}
+            disabled={isSavingQuiet || !quietForm.chat_id}
+            className="px-4 py-2 bg-indigo-600 text-white rounded-lg hover:bg-indigo-700 disabled:bg-gray-400 transition-colors"
+          >
+            {isSavingQuiet ? 'Saving...' : 'Save'}
+          </button>
+        </div>
+
+        {quietHours.length === 0 ? (
+          <p className="text-sm text-gray-500">No quiet hours set</p>
+        ) : (
+          <div className="space-y-2">
+            {quietHours.map(entry => (
+              <div key={entry.chat_id} className="flex items-center justify-between p-3 bg-gray-50 rounded-lg">
+                <div>
+                  <span className="font-medium text-gray-900">{entry.recipient_name || entry.chat_id}</span>
+                  <span className="ml-3 text-sm text-gray-600">{entry.start_time} - {entry.end_time}</span>
+                </div>
+                <button
+                  onClick={() => handleDeleteQuietHours(entry.chat_id)}
+                  className="p-1 text-gray-400 hover:text-red-600"
+                  title="Remove"
+                >
+                  <Trash2 className="h-4 w-4" />
+                </button>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -1,6 +1,7 @@
 'use client'
 
 import { useState, useEffect } from 'react'
+import Link from 'next/link'
 import {
   Bell,
   Send,
@@ -13,7 +14,8 @@ import {
   RefreshCw,
   Filter,
   X,
-  Check
+  Check,
+  History
 } from 'lucide-react'
 
 interface Employee {
@@ -220,12 +222,21 @@ export default function NotificationsPage() {
   return (
     <div className="p-6 max-w-7xl mx-auto space-y-6">
       {/* Header */}
-      <div>
-        <h1 className="text-2xl font-bold text-gray-900 flex items-center space-x-2">
-          <Bell className="h-7 w-7" />
-          <span>Notification Center</span>
-        </h1>
-        <p className="text-gray-600">Send Telegram notifications to employees</p>
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900 flex items-center space-x-2">
+            <Bell className="h-7 w-7" />
+            <span>Notification Center</span>
+          </h1>
+          <p className="text-gray-600">Send Telegram notifications to employees</p>
+        </div>
+        <Link
+          href="/notifications/deliveries"
+          className="flex items-center gap-2 px-4 py-2 bg-white border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition-colors"
+        >
+          <History className="h-4 w-4" />
+          <span>Delivery History</span>
+        </Link>
       </div>
 
       {/* Stats */}
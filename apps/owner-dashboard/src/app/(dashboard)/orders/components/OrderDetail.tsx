@@ -51,6 +51,27 @@ export default function OrderDetail({ orderId, onClose, onOrderUpdate }: OrderDe
     }
   }
 
+  const handleBillShareReview = async (shareId: string, action: 'verify' | 'reject') => {
+    if (!order) return
+
+    setIsUpdating(true)
+    try {
+      const result = await orderService.reviewBillShare(order.id, shareId, action)
+      toast.success(
+        result.order_confirmed
+          ? 'All shares verified, order confirmed'
+          : `Share ${action === 'verify' ? 'verified' : 'rejected'}`
+      )
+      await loadOrder()
+      onOrderUpdate?.()
+    } catch (error: any) {
+      console.error('Error reviewing bill share:', error)
+      toast.error(error.message || 'Failed to update bill share')
+    } finally {
+      setIsUpdating(false)
+    }
+  }
+
   const getStatusBadgeClass = (status: Order['status']) => {
     const baseClass = 'px-3 py-1 rounded-full text-sm font-medium'
     const colorMap: Record<Order['status'], string> = {
@@ -128,6 +149,9 @@ export default function OrderDetail({ orderId, onClose, onOrderUpdate }: OrderDe
     )
   }
 
+  const billShares = [...(order.order_bill_shares || [])].sort((a, b) => a.share_number - b.share_number)
+  // A split bill is confirmed by verifying its last share
+  const hasUnpaidShares = billShares.some(share => share.status !== 'verified')
   const nextStatus = getNextStatus(order.status)
   const orderAge = orderService.getOrderAge(order)
   const prepTime = orderService.getOrderPreparationTime(order)
@@ -342,6 +366,80 @@ export default function OrderDetail({ orderId, onClose, onOrderUpdate }: OrderDe
             </div>
           )}
 
+          {/* Split Bill */}
+          {billShares.length > 0 && (
+            <div className="bg-white border border-gray-200 rounded-lg p-6">
+              <h3 className="text-lg font-semibold text-gray-900 mb-1">Split Bill</h3>
+              <p className="text-sm text-gray-600 mb-4">
+                Split {order.split_method === 'items' ? 'by items' : order.split_method === 'custom' ? 'by custom amounts' : 'equally'} between {billShares.length} payers.
+                The order is paid once every share is verified.
+              </p>
+              <div className="space-y-3">
+                {billShares.map((share) => (
+                  <div key={share.id} className="border border-gray-200 rounded-lg p-4">
+                    <div className="flex items-center justify-between">
+                      <div>
+                        <span className="font-medium text-gray-900">#{share.share_number} {share.payer_name}</span>
+                        {share.payment_method && (
+                          <span className="ml-2 text-xs uppercase text-gray-500">{share.payment_method}</span>
+                        )}
+                      </div>
+                      <div className="flex items-center gap-3">
+                        <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${
+                          share.status === 'verified' ? 'bg-green-100 text-green-800' :
+                          share.status === 'processing' ? 'bg-orange-100 text-orange-800' :
+                          share.status === 'failed' ? 'bg-red-100 text-red-800' :
+                          'bg-yellow-100 text-yellow-800'
+                        }`}>
+                          {share.status.charAt(0).toUpperCase() + share.status.slice(1)}
+                        </span>
+                        <span className="font-semibold text-gray-900">{formatCurrency(Number(share.amount))}</span>
+                      </div>
+                    </div>
+                    <p className="text-xs text-gray-500 mt-1">
+                      Subtotal {formatCurrency(Number(share.subtotal))}
+                      {Number(share.discount_amount) > 0 && ` • Discount -${formatCurrency(Number(share.discount_amount))}`}
+                      {Number(share.tax_amount) > 0 && ` • Tax ${formatCurrency(Number(share.tax_amount))}`}
+                      {Number(share.service_charge) > 0 && ` • Service ${formatCurrency(Number(share.service_charge))}`}
+                    </p>
+                    {share.proof_url && (
+                      <a
+                        href={share.proof_url}
+                        target="_blank"
+                        rel="noopener noreferrer"
+                        className="text-blue-600 hover:text-blue-700 text-sm underline mt-2 inline-block"
+                      >
+                        View payment proof
+                      </a>
+                    )}
+                    {share.status !== 'verified' && order.status !== 'cancelled' && (
+                      <div className="flex items-center gap-2 mt-3">
+                        <button
+                          onClick={() => handleBillShareReview(share.id, 'verify')}
+                          disabled={isUpdating}
+                          className="flex items-center gap-1 px-3 py-1.5 text-sm bg-green-600 text-white rounded-lg hover:bg-green-700 disabled:bg-gray-400 disabled:cursor-not-allowed transition-colors"
+                        >
+                          <Check className="h-4 w-4" />
+                          <span>Verify</span>
+                        </button>
+                        {share.status === 'processing' && (
+                          <button
+                            onClick={() => handleBillShareReview(share.id, 'reject')}
+                            disabled={isUpdating}
+                            className="flex items-center gap-1 px-3 py-1.5 text-sm border border-red-300 text-red-600 rounded-lg hover:bg-red-50 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+                          >
+                            <XCircle className="h-4 w-4" />
+                            <span>Reject</span>
+                          </button>
+                        )}
+                      </div>
+                    )}
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+
           {/* Order Timeline */}
           <div className="bg-white border border-gray-200 rounded-lg p-6">
             <h3 className="text-lg font-semibold text-gray-900 mb-4">Order Timeline</h3>
@@ -350,7 +448,8 @@ export default function OrderDetail({ orderId, onClose, onOrderUpdate }: OrderDe
 
           {/* Actions */}
           <div className="flex items-center gap-3 pt-6 border-t border-gray-200">
-            {nextStatus && order.status !== 'completed' && order.status !== 'cancelled' && (
+            {nextStatus && order.status !== 'completed' && order.status !== 'cancelled' &&
+              !(nextStatus === 'confirmed' && hasUnpaidShares) && (
               <button
                 onClick={() => handleStatusUpdate(nextStatus)}
                 disabled={isUpdating}
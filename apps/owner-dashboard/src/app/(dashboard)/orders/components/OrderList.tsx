@@ -38,7 +38,7 @@ export default function OrderList({ orders, onOrderUpdate }: OrderListProps) {
       onOrderUpdate?.()
     } catch (error) {
       console.error('Error updating order status:', error)
-      toast.error('Failed to update order status')
+      toast.error(error instanceof Error ? error.message : 'Failed to update order status')
     } finally {
       setUpdatingOrders(prev => {
         const newSet = new Set(prev)
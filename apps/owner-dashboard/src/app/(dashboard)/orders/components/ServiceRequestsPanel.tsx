@@ -0,0 +1,180 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { BellRing, Check, CheckCheck, X } from 'lucide-react'
+import { toast } from 'sonner'
+import { createClient } from '@/lib/supabase/client'
+import type { ServiceRequest, ServiceRequestAction } from '@/lib/orders/serviceRequests'
+import { SERVICE_REQUEST_TYPES } from '@cafe/utils/helpers/serviceRequest'
+
+const formatWaiting = (createdAt: string, now: number) => {
+  const seconds = Math.max(0, Math.floor((now - new Date(createdAt).getTime()) / 1000))
+  if (seconds < 60) return `${seconds}s`
+  return `${Math.floor(seconds / 60)}m ${seconds % 60}s`
+}
+
+export default function ServiceRequestsPanel() {
+  const [requests, setRequests] = useState<ServiceRequest[]>([])
+  const [updating, setUpdating] = useState<Set<string>>(new Set())
+  const [now, setNow] = useState(Date.now())
+
+  const supabase = createClient()
+
+  useEffect(() => {
+    loadRequests()
+
+    const channel = supabase
+      .channel('service-requests-channel')
+      .on(
+        'postgres_changes',
+        {
+          event: '*',
+          schema: 'public',
+          table: 'service_requests'
+        },
+        (payload: any) => {
+          if (payload.eventType === 'INSERT') {
+            const label = SERVICE_REQUEST_TYPES[payload.new.request_type as keyof typeof SERVICE_REQUEST_TYPES]?.label
+            toast.info(`New table request: ${label || payload.new.request_type}`)
+          }
+          loadRequests()
+        }
+      )
+      .subscribe()
+
+    return () => {
+      supabase.removeChannel(channel)
+    }
+  }, [])
+
+  // Keep waiting times ticking
+  useEffect(() => {
+    const interval = setInterval(() => setNow(Date.now()), 15000)
+    return () => clearInterval(interval)
+  }, [])
+
+  const loadRequests = async () => {
+    try {
+      const response = await fetch('/api/service-requests')
+      const result = await response.json()
+      if (!response.ok) throw new Error(result.error || 'Failed to load service requests')
+
+      setRequests(result.data || [])
+      setNow(Date.now())
+    } catch (error) {
+      console.error('Error loading service requests:', error)
+    }
+  }
+
+  const handleAction = async (id: string, action: ServiceRequestAction) => {
+    setUpdating(prev => new Set(prev).add(id))
+
+    try {
+      const response = await fetch(`/api/service-requests/${id}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ action })
+      })
+      const result = await response.json()
+      if (!response.ok) throw new Error(result.error || 'Failed to update service request')
+
+      await loadRequests()
+    } catch (error: any) {
+      toast.error(error.message || 'Failed to update service request')
+    } finally {
+      setUpdating(prev => {
+        const next = new Set(prev)
+        next.delete(id)
+        return next
+      })
+    }
+  }
+
+  const pendingCount = requests.filter(request => request.status === 'pending').length
+
+  return (
+    <div className="bg-white rounded-xl border border-gray-200 p-6">
+      <div className="flex items-center justify-between mb-4">
+        <div>
+          <h2 className="text-lg font-semibold text-gray-900 flex items-center gap-2">
+            <BellRing className="h-5 w-5 text-orange-500" />
+            Table Requests ({requests.length})
+          </h2>
+          <p className="text-sm text-gray-600">Waiter calls, bills and other requests from diners</p>
+        </div>
+        {pendingCount > 0 && (
+          <span className="px-3 py-1 bg-orange-100 text-orange-800 rounded-full text-sm font-medium">
+            {pendingCount} waiting
+          </span>
+        )}
+      </div>
+
+      {requests.length === 0 ? (
+        <p className="text-sm text-gray-500 text-center py-6">No open table requests</p>
+      ) : (
+        <div className="grid grid-cols-1 md:grid-cols-2 xl:grid-cols-3 gap-3">
+          {requests.map(request => {
+            const isUpdating = updating.has(request.id)
+            return (
+              <div
+                key={request.id}
+                className={`p-4 rounded-lg border ${
+                  request.status === 'pending' ? 'border-orange-300 bg-orange-50' : 'border-blue-200 bg-blue-50'
+                }`}
+              >
+                <div className="flex items-start justify-between gap-2">
+                  <div className="min-w-0">
+                    <div className="font-semibold text-gray-900">
+                      Table {request.table?.table_number || '-'}
+                      <span className="ml-2 text-sm font-normal text-gray-700">
+                        {SERVICE_REQUEST_TYPES[request.request_type]?.label || request.request_type}
+                      </span>
+                    </div>
+                    {request.message && (
+                      <p className="text-sm text-gray-700 mt-1 break-words">{request.message}</p>
+                    )}
+                    <p className="text-xs text-gray-500 mt-1">
+                      {request.diner_name ? `${request.diner_name} · ` : ''}
+                      waiting {formatWaiting(request.created_at, now)}
+                      {request.status === 'acknowledged' &&
+                        ` · taken by ${request.acknowledged_employee?.full_name || 'owner'}`}
+                    </p>
+                  </div>
+                  <button
+                    onClick={() => handleAction(request.id, 'dismiss')}
+                    disabled={isUpdating}
+                    className="p-1 text-gray-400 hover:text-red-600 disabled:opacity-50"
+                    title="Dismiss"
+                  >
+                    <X className="h-4 w-4" />
+                  </button>
+                </div>
+
+                <div className="flex gap-2 mt-3">
+                  {request.status === 'pending' && (
+                    <button
+                      onClick={() => handleAction(request.id, 'acknowledge')}
+                      disabled={isUpdating}
+                      className="flex-1 flex items-center justify-center gap-1 px-3 py-1.5 bg-blue-600 text-white text-sm rounded-lg hover:bg-blue-700 disabled:bg-gray-400 transition-colors"
+                    >
+                      <Check className="h-4 w-4" />
+                      Take
+                    </button>
+                  )}
+                  <button
+                    onClick={() => handleAction(request.id, 'complete')}
+                    disabled={isUpdating}
+                    className="flex-1 flex items-center justify-center gap-1 px-3 py-1.5 bg-green-600 text-white text-sm rounded-lg hover:bg-green-700 disabled:bg-gray-400 transition-colors"
+                  >
+                    <CheckCheck className="h-4 w-4" />
+                    Done
+                  </button>
+                </div>
+              </div>
+            )
+          })}
+        </div>
+      )}
+    </div>
+  )
+}
@@ -5,6 +5,7 @@ import { RefreshCw, ChefHat, Clock, AlertCircle, TrendingUp } from 'lucide-react
 import { orderService, Order, KitchenMetrics } from '@/services/orderService'
 import OrderList from '../components/OrderList'
 import LiveOrderMap from '../components/LiveOrderMap'
+import ServiceRequestsPanel from '../components/ServiceRequestsPanel'
 import StatCard from '@/components/dashboard/StatCard'
 
 export default function LiveOrdersPage() {
@@ -225,6 +226,9 @@ export default function LiveOrdersPage() {
         </div>
       )}
 
+      {/* Table Service Requests */}
+      <ServiceRequestsPanel />
+
       {/* Table Map */}
       <LiveOrderMap orders={orders} />
 
@@ -20,6 +20,7 @@ import {
   TrendingUp,
   AlertCircle
 } from 'lucide-react'
+import { monthPeriod } from '@cafe/utils/calculations/profitLoss'
 
 interface Employee {
   id: string
@@ -139,8 +140,7 @@ export default function PayrollPage() {
       // Calculate period dates
       const year = parseInt(generateYear)
       const month = parseInt(generateMonth)
-      const periodStart = new Date(year, month - 1, 1).toISOString().split('T')[0]
-      const periodEnd = new Date(year, month, 0).toISOString().split('T')[0]
+      const { start_date: periodStart, end_date: periodEnd } = monthPeriod(month, year)
 
       const payload = {
         employee_ids: selectAll ? null : selectedEmployees,
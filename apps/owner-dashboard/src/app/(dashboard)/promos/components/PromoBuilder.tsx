@@ -1,6 +1,6 @@
 'use client'
 
-import { useState } from 'react'
+import { useEffect, useState } from 'react'
 import { Save, X, AlertCircle } from 'lucide-react'
 
 interface PromoBuilderProps {
@@ -10,6 +10,33 @@ interface PromoBuilderProps {
   isEdit?: boolean
 }
 
+interface MenuOption {
+  id: string
+  name: string
+  category_id: string
+  category_name?: string
+}
+
+interface PromoOption {
+  id: string
+  name: string
+  code: string | null
+}
+
+// promos.valid_days uses 1 = Monday ... 7 = Sunday
+const WEEKDAYS = [
+  { value: 1, label: 'Mon' },
+  { value: 2, label: 'Tue' },
+  { value: 3, label: 'Wed' },
+  { value: 4, label: 'Thu' },
+  { value: 5, label: 'Fri' },
+  { value: 6, label: 'Sat' },
+  { value: 7, label: 'Sun' }
+]
+
+// Types whose discount comes from discount_value
+const VALUE_PROMO_TYPES = ['percentage', 'fixed_amount', 'happy_hour']
+
 export default function PromoBuilder({ initialData, onSubmit, onCancel, isEdit = false }: PromoBuilderProps) {
   const [formData, setFormData] = useState({
     name: initialData?.name || '',
@@ -23,10 +50,61 @@ export default function PromoBuilder({ initialData, onSubmit, onCancel, isEdit =
     valid_until: initialData?.valid_until?.split('T')[0] || '',
     max_uses_total: initialData?.max_uses_total || '',
     max_uses_per_customer: initialData?.max_uses_per_customer || '',
+    applicable_categories: (initialData?.applicable_categories || []) as string[],
+    applicable_items: (initialData?.applicable_items || []) as string[],
+    buy_quantity: initialData?.buy_quantity || '',
+    get_quantity: initialData?.get_quantity || '',
+    get_discount_percentage: initialData?.get_discount_percentage ?? 100,
+    bundle_items: (initialData?.bundle_items || []) as string[],
+    bundle_price: initialData?.bundle_price || '',
+    valid_days: (initialData?.valid_days || []) as number[],
+    valid_from_time: initialData?.valid_from_time?.slice(0, 5) || '',
+    valid_until_time: initialData?.valid_until_time?.slice(0, 5) || '',
+    is_stackable: initialData?.is_stackable ?? false,
+    excluded_promos: (initialData?.excluded_promos || []) as string[],
     is_active: initialData?.is_active ?? true,
   })
 
   const [isSubmitting, setIsSubmitting] = useState(false)
+  const [menuItems, setMenuItems] = useState<MenuOption[]>([])
+  const [otherPromos, setOtherPromos] = useState<PromoOption[]>([])
+
+  // Menu items and promos for scoping and stacking rules
+  useEffect(() => {
+    const loadOptions = async () => {
+      try {
+        const [menuResponse, promosResponse] = await Promise.all([
+          fetch('/api/menu-items'),
+          fetch('/api/promos')
+        ])
+        const menuResult = await menuResponse.json()
+        const promosResult = await promosResponse.json()
+
+        setMenuItems(menuResult.data || [])
+        setOtherPromos((promosResult.data || []).filter((promo: PromoOption) => promo.id !== initialData?.id))
+      } catch (error) {
+        console.error('Error loading promo options:', error)
+      }
+    }
+
+    loadOptions()
+  }, [initialData?.id])
+
+  const categories = Array.from(
+    new Map(menuItems.map(item => [item.category_id, item.category_name || 'Uncategorized'])).entries()
+  )
+
+  const toggleListValue = <T,>(field: 'applicable_categories' | 'applicable_items' | 'bundle_items' | 'excluded_promos' | 'valid_days', value: T) => {
+    setFormData(prev => {
+      const list = prev[field] as T[]
+      return {
+        ...prev,
+        [field]: list.includes(value) ? list.filter(entry => entry !== value) : [...list, value]
+      }
+    })
+  }
+
+  const usesDiscountValue = VALUE_PROMO_TYPES.includes(formData.promo_type)
 
   const handleChange = (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement | HTMLSelectElement>) => {
     const { name, value, type } = e.target
@@ -39,22 +117,49 @@ export default function PromoBuilder({ initialData, onSubmit, onCancel, isEdit =
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault()
 
-    if (!formData.name || !formData.promo_type || !formData.discount_value) {
+    if (!formData.name || !formData.promo_type || (usesDiscountValue && !formData.discount_value)) {
       alert('Please fill in all required fields')
       return
     }
 
+    if (formData.promo_type === 'buy_get' && (!formData.buy_quantity || !formData.get_quantity)) {
+      alert('Buy X Get Y promos need both quantities')
+      return
+    }
+
+    if (formData.promo_type === 'bundle' && (formData.bundle_items.length < 2 || !formData.bundle_price)) {
+      alert('Bundles need at least two items and a bundle price')
+      return
+    }
+
+    if (formData.promo_type === 'happy_hour' && (!formData.valid_from_time || !formData.valid_until_time)) {
+      alert('Happy hour promos need a start and end time')
+      return
+    }
+
     setIsSubmitting(true)
     try {
       const submitData = {
         ...formData,
-        discount_value: parseFloat(formData.discount_value.toString()),
+        code: formData.code ? formData.code.trim().toUpperCase() : '',
+        discount_value: usesDiscountValue ? parseFloat(formData.discount_value.toString()) : 0,
         max_discount_amount: formData.max_discount_amount ? parseFloat(formData.max_discount_amount.toString()) : null,
         min_purchase_amount: formData.min_purchase_amount ? parseFloat(formData.min_purchase_amount.toString()) : null,
         max_uses_total: formData.max_uses_total ? parseInt(formData.max_uses_total.toString()) : null,
         max_uses_per_customer: formData.max_uses_per_customer ? parseInt(formData.max_uses_per_customer.toString()) : null,
         valid_from: formData.valid_from || null,
         valid_until: formData.valid_until || null,
+        applicable_categories: formData.applicable_categories.length > 0 ? formData.applicable_categories : null,
+        applicable_items: formData.applicable_items.length > 0 ? formData.applicable_items : null,
+        buy_quantity: formData.promo_type === 'buy_get' ? parseInt(formData.buy_quantity.toString()) : null,
+        get_quantity: formData.promo_type === 'buy_get' ? parseInt(formData.get_quantity.toString()) : null,
+        get_discount_percentage: formData.promo_type === 'buy_get' ? parseFloat(formData.get_discount_percentage.toString()) : null,
+        bundle_items: formData.promo_type === 'bundle' ? formData.bundle_items : null,
+        bundle_price: formData.promo_type === 'bundle' ? parseFloat(formData.bundle_price.toString()) : null,
+        valid_days: formData.valid_days.length > 0 ? [...formData.valid_days].sort() : null,
+        valid_from_time: formData.valid_from_time || null,
+        valid_until_time: formData.valid_until_time || null,
+        excluded_promos: formData.is_stackable && formData.excluded_promos.length > 0 ? formData.excluded_promos : null,
       }
 
       await onSubmit(submitData)
@@ -144,43 +249,46 @@ export default function PromoBuilder({ initialData, onSubmit, onCancel, isEdit =
               <option value="fixed_amount">Fixed Amount Discount</option>
               <option value="buy_get">Buy X Get Y</option>
               <option value="bundle">Bundle Price</option>
+              <option value="happy_hour">Happy Hour (% off in a time window)</option>
             </select>
           </div>
 
-          <div>
-            <label className="block text-sm font-medium text-gray-700 mb-2">
-              Discount Value <span className="text-red-500">*</span>
-            </label>
-            <div className="relative">
-              <input
-                type="number"
-                name="discount_value"
-                value={formData.discount_value}
-                onChange={handleChange}
-                required
-                min="0"
-                step={formData.promo_type === 'percentage' ? '1' : '1000'}
-                placeholder={formData.promo_type === 'percentage' ? '20' : '10000'}
-                className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 text-gray-600"
-              />
-              <span className="absolute right-3 top-1/2 transform -translate-y-1/2 text-gray-500">
-                {formData.promo_type === 'percentage' ? '%' : 'Rp'}
-              </span>
+          {usesDiscountValue && (
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">
+                Discount Value <span className="text-red-500">*</span>
+              </label>
+              <div className="relative">
+                <input
+                  type="number"
+                  name="discount_value"
+                  value={formData.discount_value}
+                  onChange={handleChange}
+                  required
+                  min="0"
+                  step={formData.promo_type === 'fixed_amount' ? '1000' : '1'}
+                  placeholder={formData.promo_type === 'fixed_amount' ? '10000' : '20'}
+                  className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 text-gray-600"
+                />
+                <span className="absolute right-3 top-1/2 transform -translate-y-1/2 text-gray-500">
+                  {formData.promo_type === 'fixed_amount' ? 'Rp' : '%'}
+                </span>
+              </div>
+              {formData.promo_type === 'percentage' && formData.discount_value > 0 && (
+                <p className="text-xs text-blue-600 mt-1">
+                  {formData.discount_value}% discount
+                </p>
+              )}
+              {formData.promo_type === 'fixed_amount' && formData.discount_value > 0 && (
+                <p className="text-xs text-blue-600 mt-1">
+                  {formatCurrency(parseFloat(formData.discount_value.toString()))} off
+                </p>
+              )}
             </div>
-            {formData.promo_type === 'percentage' && formData.discount_value > 0 && (
-              <p className="text-xs text-blue-600 mt-1">
-                {formData.discount_value}% discount
-              </p>
-            )}
-            {formData.promo_type === 'fixed_amount' && formData.discount_value > 0 && (
-              <p className="text-xs text-blue-600 mt-1">
-                {formatCurrency(parseFloat(formData.discount_value.toString()))} off
-              </p>
-            )}
-          </div>
+          )}
         </div>
 
-        {formData.promo_type === 'percentage' && (
+        {['percentage', 'happy_hour', 'buy_get'].includes(formData.promo_type) && (
           <div className="mt-4">
             <label className="block text-sm font-medium text-gray-700 mb-2">
               Maximum Discount Amount
@@ -221,6 +329,147 @@ export default function PromoBuilder({ initialData, onSubmit, onCancel, isEdit =
         </div>
       </div>
 
+      {/* Promo Rules */}
+      {(formData.promo_type === 'buy_get' || formData.promo_type === 'bundle') && (
+        <div className="bg-white border border-gray-200 rounded-xl p-6">
+          <h3 className="text-lg font-semibold text-gray-900 mb-4">
+            {formData.promo_type === 'buy_get' ? 'Buy X Get Y' : 'Bundle'}
+          </h3>
+
+          {formData.promo_type === 'buy_get' ? (
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  Buy Quantity <span className="text-red-500">*</span>
+                </label>
+                <input
+                  type="number"
+                  name="buy_quantity"
+                  value={formData.buy_quantity}
+                  onChange={handleChange}
+                  min="1"
+                  placeholder="e.g., 2"
+                  className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 text-gray-600"
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  Get Quantity <span className="text-red-500">*</span>
+                </label>
+                <input
+                  type="number"
+                  name="get_quantity"
+                  value={formData.get_quantity}
+                  onChange={handleChange}
+                  min="1"
+                  placeholder="e.g., 1"
+                  className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 text-gray-600"
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  Discount on Free Items
+                </label>
+                <div className="relative">
+                  <input
+                    type="number"
+                    name="get_discount_percentage"
+                    value={formData.get_discount_percentage}
+                    onChange={handleChange}
+                    min="1"
+                    max="100"
+                    className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 text-gray-600"
+                  />
+                  <span className="absolute right-3 top-1/2 transform -translate-y-1/2 text-gray-500">%</span>
+                </div>
+                <p className="text-xs text-gray-500 mt-1">100% = free. The cheapest qualifying items are discounted.</p>
+              </div>
+            </div>
+          ) : (
+            <div className="space-y-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  Bundle Price <span className="text-red-500">*</span>
+                </label>
+                <input
+                  type="number"
+                  name="bundle_price"
+                  value={formData.bundle_price}
+                  onChange={handleChange}
+                  min="0"
+                  step="1000"
+                  placeholder="e.g., 45000"
+                  className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 text-gray-600"
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  Bundle Items <span className="text-red-500">*</span>
+                </label>
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-2 max-h-48 overflow-y-auto">
+                  {menuItems.map(item => (
+                    <label key={item.id} className="flex items-center gap-2 text-sm text-gray-700">
+                      <input
+                        type="checkbox"
+                        checked={formData.bundle_items.includes(item.id)}
+                        onChange={() => toggleListValue('bundle_items', item.id)}
+                        className="w-4 h-4 text-blue-600 border-gray-300 rounded"
+                      />
+                      {item.name}
+                    </label>
+                  ))}
+                </div>
+              </div>
+            </div>
+          )}
+        </div>
+      )}
+
+      {/* Applies To */}
+      {formData.promo_type !== 'bundle' && (
+        <div className="bg-white border border-gray-200 rounded-xl p-6">
+          <h3 className="text-lg font-semibold text-gray-900 mb-1">Applies To</h3>
+          <p className="text-xs text-gray-500 mb-4">
+            Leave everything unchecked to apply the promo to the whole order
+          </p>
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+            <div>
+              <p className="text-sm font-medium text-gray-700 mb-2">Categories</p>
+              <div className="space-y-2 max-h-48 overflow-y-auto">
+                {categories.map(([categoryId, categoryName]) => (
+                  <label key={categoryId} className="flex items-center gap-2 text-sm text-gray-700">
+                    <input
+                      type="checkbox"
+                      checked={formData.applicable_categories.includes(categoryId)}
+                      onChange={() => toggleListValue('applicable_categories', categoryId)}
+                      className="w-4 h-4 text-blue-600 border-gray-300 rounded"
+                    />
+                    {categoryName}
+                  </label>
+                ))}
+              </div>
+            </div>
+            <div>
+              <p className="text-sm font-medium text-gray-700 mb-2">Menu Items</p>
+              <div className="space-y-2 max-h-48 overflow-y-auto">
+                {menuItems.map(item => (
+                  <label key={item.id} className="flex items-center gap-2 text-sm text-gray-700">
+                    <input
+                      type="checkbox"
+                      checked={formData.applicable_items.includes(item.id)}
+                      onChange={() => toggleListValue('applicable_items', item.id)}
+                      className="w-4 h-4 text-blue-600 border-gray-300 rounded"
+                    />
+                    {item.name}
+                  </label>
+                ))}
+              </div>
+            </div>
+          </div>
+        </div>
+      )}
+
       {/* Validity Period */}
       <div className="bg-white border border-gray-200 rounded-xl p-6">
         <h3 className="text-lg font-semibold text-gray-900 mb-4">Validity Period</h3>
@@ -252,6 +501,56 @@ export default function PromoBuilder({ initialData, onSubmit, onCancel, isEdit =
             />
           </div>
         </div>
+
+        <div className="mt-4">
+          <p className="text-sm font-medium text-gray-700 mb-2">Valid Days</p>
+          <div className="flex flex-wrap gap-2">
+            {WEEKDAYS.map(day => (
+              <button
+                key={day.value}
+                type="button"
+                onClick={() => toggleListValue('valid_days', day.value)}
+                className={`px-3 py-1 rounded-lg text-sm border ${
+                  formData.valid_days.includes(day.value)
+                    ? 'bg-blue-600 border-blue-600 text-white'
+                    : 'border-gray-300 text-gray-600 hover:bg-gray-50'
+                }`}
+              >
+                {day.label}
+              </button>
+            ))}
+          </div>
+          <p className="text-xs text-gray-500 mt-1">Optional - No days selected means every day</p>
+        </div>
+
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mt-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">
+              From Time {formData.promo_type === 'happy_hour' && <span className="text-red-500">*</span>}
+            </label>
+            <input
+              type="time"
+              name="valid_from_time"
+              value={formData.valid_from_time}
+              onChange={handleChange}
+              className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+            />
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">
+              Until Time {formData.promo_type === 'happy_hour' && <span className="text-red-500">*</span>}
+            </label>
+            <input
+              type="time"
+              name="valid_until_time"
+              value={formData.valid_until_time}
+              onChange={handleChange}
+              className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+            />
+            <p className="text-xs text-gray-500 mt-1">Cafe local time; a window may run past midnight</p>
+          </div>
+        </div>
       </div>
 
       {/* Usage Limits */}
@@ -318,10 +617,48 @@ export default function PromoBuilder({ initialData, onSubmit, onCancel, isEdit =
             </p>
           </div>
         </div>
+
+        <div className="flex items-center gap-3 mt-4">
+          <input
+            type="checkbox"
+            name="is_stackable"
+            checked={formData.is_stackable}
+            onChange={handleChange}
+            className="w-5 h-5 text-blue-600 border-gray-300 rounded focus:ring-2 focus:ring-blue-500"
+          />
+          <div>
+            <label className="text-sm font-medium text-gray-900">
+              Stackable
+            </label>
+            <p className="text-xs text-gray-500">
+              Can be combined with other stackable promos on the same order
+            </p>
+          </div>
+        </div>
+
+        {formData.is_stackable && otherPromos.length > 0 && (
+          <div className="mt-4 ml-8">
+            <p className="text-sm font-medium text-gray-700 mb-2">Never combine with</p>
+            <div className="space-y-2 max-h-40 overflow-y-auto">
+              {otherPromos.map(promo => (
+                <label key={promo.id} className="flex items-center gap-2 text-sm text-gray-700">
+                  <input
+                    type="checkbox"
+                    checked={formData.excluded_promos.includes(promo.id)}
+                    onChange={() => toggleListValue('excluded_promos', promo.id)}
+                    className="w-4 h-4 text-blue-600 border-gray-300 rounded"
+                  />
+                  {promo.name}
+                  {promo.code && <span className="font-mono text-xs text-gray-500">{promo.code}</span>}
+                </label>
+              ))}
+            </div>
+          </div>
+        )}
       </div>
 
       {/* Preview */}
-      {formData.name && formData.discount_value > 0 && (
+      {formData.name && (formData.discount_value > 0 || !usesDiscountValue) && (
         <div className="bg-gradient-to-r from-blue-50 to-purple-50 border border-blue-200 rounded-xl p-6">
           <div className="flex items-start gap-3">
             <AlertCircle className="h-5 w-5 text-blue-600 mt-0.5" />
@@ -335,10 +672,17 @@ export default function PromoBuilder({ initialData, onSubmit, onCancel, isEdit =
                     {formData.code || 'NO-CODE'}
                   </span>
                   <span className="font-semibold">
-                    {formData.promo_type === 'percentage'
-                      ? `${formData.discount_value}% OFF`
-                      : `${formatCurrency(parseFloat(formData.discount_value.toString()))} OFF`}
+                    {formData.promo_type === 'buy_get'
+                      ? `BUY ${formData.buy_quantity || 'X'} GET ${formData.get_quantity || 'Y'}`
+                      : formData.promo_type === 'bundle'
+                        ? `BUNDLE ${formatCurrency(parseFloat((formData.bundle_price || 0).toString()))}`
+                        : formData.promo_type === 'fixed_amount'
+                          ? `${formatCurrency(parseFloat(formData.discount_value.toString()))} OFF`
+                          : `${formData.discount_value}% OFF`}
                   </span>
+                  {formData.valid_from_time && formData.valid_until_time && (
+                    <span>{formData.valid_from_time}–{formData.valid_until_time}</span>
+                  )}
                   {formData.min_purchase_amount && (
                     <span>
                       Min: {formatCurrency(parseFloat(formData.min_purchase_amount.toString()))}
@@ -3,8 +3,15 @@
 import { useState, useEffect } from 'react'
 import {
   FileText, Download, Calendar, DollarSign, ShoppingCart, Package,
-  Users, TrendingUp, BarChart3
+  Users, TrendingUp, BarChart3, FileSpreadsheet
 } from 'lucide-react'
+import {
+  DEFAULT_BUSINESS_CALENDAR,
+  addDays,
+  todayBusinessDate,
+  type BusinessCalendar
+} from '@cafe/utils/helpers/businessCalendar'
+import { analyticsService } from '@/services/analyticsService'
 
 type ReportType = 'sales' | 'inventory' | 'employee' | 'financial'
 
@@ -13,18 +20,32 @@ interface DateRange {
   end: string
 }
 
+// Business days ending today, or this month so far
+const presetRange = (preset: number | 'month', calendar: BusinessCalendar): DateRange => {
+  const today = todayBusinessDate(calendar)
+  return {
+    start: preset === 'month' ? `${today.slice(0, 7)}-01` : addDays(today, -preset),
+    end: today
+  }
+}
+
 export default function ReportsPage() {
   const [reportType, setReportType] = useState<ReportType>('sales')
-  const [dateRange, setDateRange] = useState<DateRange>({
-    start: new Date(new Date().setDate(new Date().getDate() - 30)).toISOString().split('T')[0],
-    end: new Date().toISOString().split('T')[0]
-  })
+  const [calendar, setCalendar] = useState<BusinessCalendar>(DEFAULT_BUSINESS_CALENDAR)
+  const [dateRange, setDateRange] = useState<DateRange>(presetRange(30, DEFAULT_BUSINESS_CALENDAR))
   const [reportData, setReportData] = useState<any>(null)
   const [isLoading, setIsLoading] = useState(false)
 
+  useEffect(() => {
+    analyticsService.loadBusinessCalendar().then(loaded => {
+      setCalendar(loaded)
+      setDateRange(presetRange(30, loaded))
+    })
+  }, [])
+
   useEffect(() => {
     loadReport()
-  }, [reportType, dateRange])
+  }, [reportType, dateRange.start, dateRange.end])
 
   const loadReport = async () => {
     try {
@@ -46,28 +67,34 @@ export default function ReportsPage() {
     }
   }
 
-  const handleExport = async (format: 'pdf' | 'csv') => {
+  const handleExport = async (format: 'pdf' | 'csv' | 'xlsx') => {
     try {
       const response = await fetch(
         `/api/reports/${reportType}/export?format=${format}&start=${dateRange.start}&end=${dateRange.end}`
       )
 
       if (!response.ok) {
-        throw new Error('Failed to export report')
+        const result = await response.json().catch(() => null)
+        throw new Error(result?.error || 'Failed to export report')
       }
 
+      // Use the server's file name, e.g. laporan-penjualan_2026-10-01_2026-10-31.pdf
+      const disposition = response.headers.get('Content-Disposition') || ''
+      const fileName = disposition.match(/filename="([^"]+)"/)?.[1]
+        || `${reportType}_report_${dateRange.start}_${dateRange.end}.${format}`
+
       const blob = await response.blob()
       const url = window.URL.createObjectURL(blob)
       const a = document.createElement('a')
       a.href = url
-      a.download = `${reportType}_report_${dateRange.start}_${dateRange.end}.${format}`
+      a.download = fileName
       document.body.appendChild(a)
       a.click()
       window.URL.revokeObjectURL(url)
       document.body.removeChild(a)
     } catch (error) {
       console.error('Error exporting report:', error)
-      alert('Failed to export report')
+      alert(error instanceof Error ? error.message : 'Failed to export report')
     }
   }
 
@@ -133,6 +160,13 @@ export default function ReportsPage() {
             <Download className="h-4 w-4" />
             Export CSV
           </button>
+          <button
+            onClick={() => handleExport('xlsx')}
+            className="px-4 py-2 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 font-medium flex items-center gap-2"
+          >
+            <FileSpreadsheet className="h-4 w-4" />
+            Export Excel
+          </button>
           <button
             onClick={() => handleExport('pdf')}
             className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 font-medium flex items-center gap-2"
@@ -169,28 +203,19 @@ export default function ReportsPage() {
           </div>
           <div className="flex items-center gap-2">
             <button
-              onClick={() => setDateRange({
-                start: new Date(new Date().setDate(new Date().getDate() - 7)).toISOString().split('T')[0],
-                end: new Date().toISOString().split('T')[0]
-              })}
+              onClick={() => setDateRange(presetRange(7, calendar))}
               className="px-3 py-2 text-sm border border-gray-300 rounded-lg hover:bg-gray-50"
             >
               Last 7 days
             </button>
             <button
-              onClick={() => setDateRange({
-                start: new Date(new Date().setDate(new Date().getDate() - 30)).toISOString().split('T')[0],
-                end: new Date().toISOString().split('T')[0]
-              })}
+              onClick={() => setDateRange(presetRange(30, calendar))}
               className="px-3 py-2 text-sm border border-gray-300 rounded-lg hover:bg-gray-50"
             >
               Last 30 days
             </button>
             <button
-              onClick={() => setDateRange({
-                start: new Date(new Date().getFullYear(), new Date().getMonth(), 1).toISOString().split('T')[0],
-                end: new Date().toISOString().split('T')[0]
-              })}
+              onClick={() => setDateRange(presetRange('month', calendar))}
               className="px-3 py-2 text-sm border border-gray-300 rounded-lg hover:bg-gray-50"
             >
               This month
@@ -0,0 +1,256 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import { useRouter } from 'next/navigation'
+import {
+  ArrowLeft,
+  CalendarClock,
+  Save,
+  Loader2,
+  CheckCircle,
+  Globe,
+  Moon,
+  Info
+} from 'lucide-react'
+import {
+  CAFE_TIME_ZONES,
+  DEFAULT_BUSINESS_CALENDAR,
+  MAX_DAY_CUTOFF,
+  type BusinessCalendar,
+  type CafeTimeZone
+} from '@cafe/utils/helpers/businessCalendar'
+
+const TIME_ZONE_REGIONS: Record<CafeTimeZone, string> = {
+  'Asia/Jakarta': 'Sumatera, Jawa, Kalimantan Barat & Tengah',
+  'Asia/Makassar': 'Bali, Nusa Tenggara, Kalimantan Timur & Selatan, Sulawesi',
+  'Asia/Jayapura': 'Maluku dan Papua'
+}
+
+const CUTOFF_OPTIONS = ['00:00', '01:00', '02:00', '03:00', '04:00', '05:00', '06:00']
+
+export default function BusinessCalendarPage() {
+  const router = useRouter()
+  const [isLoading, setIsLoading] = useState(true)
+  const [isSaving, setIsSaving] = useState(false)
+  const [showSuccess, setShowSuccess] = useState(false)
+  const [calendar, setCalendar] = useState<BusinessCalendar>(DEFAULT_BUSINESS_CALENDAR)
+
+  useEffect(() => {
+    fetchCalendar()
+  }, [])
+
+  const fetchCalendar = async () => {
+    try {
+      const response = await fetch('/api/settings/business-calendar')
+      const { data } = await response.json()
+
+      if (data) {
+        setCalendar(data)
+      }
+    } catch (error) {
+      console.error('Error fetching business calendar:', error)
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  const handleSave = async () => {
+    setIsSaving(true)
+    try {
+      const response = await fetch('/api/settings/business-calendar', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(calendar)
+      })
+      const result = await response.json()
+
+      if (!response.ok) {
+        throw new Error(result.error || 'Failed to save business calendar')
+      }
+
+      setCalendar(result.data)
+      setShowSuccess(true)
+      setTimeout(() => setShowSuccess(false), 3000)
+    } catch (error) {
+      console.error('Error saving business calendar:', error)
+      alert('Gagal menyimpan data. Silakan coba lagi.')
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  if (isLoading) {
+    return (
+      <div className="min-h-screen bg-gradient-to-br from-gray-50 to-gray-100 flex items-center justify-center">
+        <div className="text-center">
+          <Loader2 className="h-12 w-12 animate-spin text-blue-600 mx-auto mb-4" />
+          <p className="text-gray-600">Loading settings...</p>
+        </div>
+      </div>
+    )
+  }
+
+  const zone = CAFE_TIME_ZONES[calendar.time_zone].label
+  const lateHour = calendar.day_cutoff === '00:00' ? '23:30' : `0${Number(calendar.day_cutoff.slice(0, 2)) - 1}:30`
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-gray-50 to-gray-100">
+      {/* Header */}
+      <div className="bg-white border-b border-gray-200 shadow-sm sticky top-0 z-10">
+        <div className="max-w-4xl mx-auto px-6 py-5">
+          <div className="flex items-center justify-between">
+            <div className="flex items-center space-x-4">
+              <button
+                onClick={() => router.back()}
+                className="p-2 hover:bg-gray-100 rounded-lg transition-colors"
+              >
+                <ArrowLeft className="h-5 w-5 text-gray-600" />
+              </button>
+              <div className="flex items-center space-x-3">
+                <div className="w-12 h-12 bg-gradient-to-br from-blue-600 to-blue-700 rounded-xl flex items-center justify-center shadow-lg">
+                  <CalendarClock className="h-6 w-6 text-white" />
+                </div>
+                <div>
+                  <h1 className="text-2xl font-bold text-gray-900">Zona Waktu & Hari Bisnis</h1>
+                  <p className="text-sm text-gray-600">Batas hari untuk analitik, laporan, kas, dan absensi</p>
+                </div>
+              </div>
+            </div>
+
+            <button
+              onClick={handleSave}
+              disabled={isSaving}
+              className="px-6 py-2.5 bg-blue-600 text-white rounded-lg hover:bg-blue-700 font-medium flex items-center space-x-2 disabled:opacity-50 disabled:cursor-not-allowed shadow-sm transition-all"
+            >
+              {isSaving ? (
+                <>
+                  <Loader2 className="h-4 w-4 animate-spin" />
+                  <span>Menyimpan...</span>
+                </>
+              ) : showSuccess ? (
+                <>
+                  <CheckCircle className="h-4 w-4" />
+                  <span>Tersimpan!</span>
+                </>
+              ) : (
+                <>
+                  <Save className="h-4 w-4" />
+                  <span>Simpan</span>
+                </>
+              )}
+            </button>
+          </div>
+        </div>
+      </div>
+
+      {/* Main Content */}
+      <div className="max-w-4xl mx-auto px-6 py-8">
+        <div className="bg-white rounded-xl shadow-sm border border-gray-200 overflow-hidden">
+          <div className="p-8 space-y-8">
+            {/* Info Banner */}
+            <div className="bg-blue-50 border border-blue-200 rounded-lg p-4">
+              <div className="flex items-start space-x-3">
+                <Info className="h-5 w-5 text-blue-600 mt-0.5 flex-shrink-0" />
+                <div>
+                  <h3 className="text-sm font-medium text-blue-900 mb-1">
+                    Tentang Hari Bisnis
+                  </h3>
+                  <p className="text-sm text-blue-700">
+                    Semua penjualan harian, laporan, rekonsiliasi kas, dan absensi dihitung per hari bisnis
+                    menurut zona waktu cafe, bukan menurut jam server.
+                  </p>
+                </div>
+              </div>
+            </div>
+
+            {/* Time Zone */}
+            <div>
+              <h2 className="text-lg font-semibold text-gray-900 mb-4 flex items-center">
+                <Globe className="h-5 w-5 mr-2 text-blue-600" />
+                Zona Waktu Cafe
+              </h2>
+
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+                {(Object.keys(CAFE_TIME_ZONES) as CafeTimeZone[]).map(timeZone => (
+                  <button
+                    key={timeZone}
+                    type="button"
+                    onClick={() => setCalendar({ ...calendar, time_zone: timeZone })}
+                    className={`p-4 rounded-lg border text-left transition-all ${
+                      calendar.time_zone === timeZone
+                        ? 'bg-blue-50 border-blue-300 ring-2 ring-blue-200'
+                        : 'bg-gray-50 border-gray-200 hover:border-gray-300'
+                    }`}
+                  >
+                    <p className="font-semibold text-gray-900">
+                      {CAFE_TIME_ZONES[timeZone].label} (UTC+{CAFE_TIME_ZONES[timeZone].utc_offset_minutes / 60})
+                    </p>
+                    <p className="text-xs text-gray-600 mt-1">{TIME_ZONE_REGIONS[timeZone]}</p>
+                  </button>
+                ))}
+              </div>
+            </div>
+
+            <div className="border-t border-gray-200"></div>
+
+            {/* Day Cutoff */}
+            <div>
+              <h2 className="text-lg font-semibold text-gray-900 mb-4 flex items-center">
+                <Moon className="h-5 w-5 mr-2 text-indigo-600" />
+                Jam Tutup Buku
+              </h2>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  Hari bisnis berganti pada pukul ({zone}) *
+                </label>
+                <select
+                  value={calendar.day_cutoff}
+                  onChange={(e) => setCalendar({ ...calendar, day_cutoff: e.target.value })}
+                  className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 transition-all text-gray-600"
+                >
+                  {CUTOFF_OPTIONS.filter(option => option <= MAX_DAY_CUTOFF).map(option => (
+                    <option key={option} value={option}>
+                      {option === '00:00' ? '00:00 (tengah malam)' : option}
+                    </option>
+                  ))}
+                </select>
+                <p className="mt-2 text-sm text-gray-600">
+                  Untuk cafe yang buka melewati tengah malam, penjualan sebelum <strong>{calendar.day_cutoff} {zone}</strong> dihitung
+                  ke hari sebelumnya
+                </p>
+
+                {/* Example Scenario */}
+                <div className="mt-4 p-4 bg-indigo-50 border border-indigo-200 rounded-lg">
+                  <p className="text-sm text-indigo-900 font-medium mb-2">Contoh:</p>
+                  <ul className="text-sm text-indigo-700 space-y-1">
+                    <li>• Pesanan Jumat pukul 20:00 {zone} → laporan hari Jumat</li>
+                    <li>• Pesanan Sabtu pukul {lateHour} {zone} → laporan hari {calendar.day_cutoff === '00:00' ? 'Sabtu' : 'Jumat'}</li>
+                    <li>• Pesanan Sabtu pukul {calendar.day_cutoff} {zone} → laporan hari Sabtu</li>
+                  </ul>
+                </div>
+              </div>
+            </div>
+          </div>
+
+          {/* Footer */}
+          <div className="bg-gray-50 border-t border-gray-200 px-8 py-4">
+            <p className="text-sm text-gray-600">
+              <span className="text-red-500">*</span> Wajib diisi
+            </p>
+          </div>
+        </div>
+
+        {/* Help Section */}
+        <div className="mt-6 bg-yellow-50 border border-yellow-200 rounded-lg p-4">
+          <h3 className="text-sm font-medium text-yellow-900 mb-2">💡 Rekomendasi Pengaturan</h3>
+          <ul className="text-sm text-yellow-700 space-y-1">
+            <li>• <strong>Zona waktu:</strong> pilih sesuai lokasi cafe, bukan lokasi pemilik</li>
+            <li>• <strong>Tutup buku:</strong> 00:00 untuk cafe yang tutup sebelum tengah malam, atau satu jam setelah jam tutup untuk cafe malam</li>
+            <li>• Mengubah pengaturan ini juga mengubah pengelompokan laporan untuk tanggal yang sudah lewat</li>
+          </ul>
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,465 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import { useRouter } from 'next/navigation'
+import {
+  ArrowLeft,
+  Tablet,
+  Plus,
+  Loader2,
+  QrCode,
+  LogOut,
+  Power,
+  KeyRound,
+  X,
+  Info
+} from 'lucide-react'
+import { renderQRCodeDataURL } from '@cafe/utils/payments/qr-code'
+import { DEVICE_ROLES, type Device, type StaffPin } from '@/lib/devices/devices'
+
+const ROLE_LABELS: Record<string, string> = {
+  kasir: 'Kasir',
+  dapur: 'Dapur',
+  pelayan: 'Pelayan',
+  stok: 'Stok'
+}
+
+// The tablet app scans this to find the pairing endpoint and the code
+const PAIR_ENDPOINT = `${process.env.NEXT_PUBLIC_SUPABASE_URL}/functions/v1/device-auth/pair`
+
+interface Pairing {
+  device: Device
+  code: string
+  expires_at: string
+}
+
+const formatCode = (code: string) => `${code.slice(0, 4)}-${code.slice(4)}`
+
+const formatLastSeen = (timestamp: string | null) => {
+  if (!timestamp) return 'Belum pernah'
+  const minutes = Math.floor((Date.now() - new Date(timestamp).getTime()) / 60000)
+  if (minutes < 2) return 'Baru saja'
+  if (minutes < 60) return `${minutes} menit lalu`
+  if (minutes < 24 * 60) return `${Math.floor(minutes / 60)} jam lalu`
+  return new Date(timestamp).toLocaleString('id-ID', { dateStyle: 'medium', timeStyle: 'short' })
+}
+
+export default function DeviceSettingsPage() {
+  const router = useRouter()
+  const [isLoading, setIsLoading] = useState(true)
+  const [devices, setDevices] = useState<Device[]>([])
+  const [staff, setStaff] = useState<StaffPin[]>([])
+  const [busyId, setBusyId] = useState<string | null>(null)
+  const [showAddForm, setShowAddForm] = useState(false)
+  const [newDevice, setNewDevice] = useState({ device_name: '', device_type: 'kasir', location: '' })
+  const [pairing, setPairing] = useState<Pairing | null>(null)
+  const [secondsLeft, setSecondsLeft] = useState(0)
+  const [pins, setPins] = useState<Record<string, string>>({})
+
+  useEffect(() => {
+    fetchDevices()
+  }, [])
+
+  // Countdown for the pairing code; close it once it has expired
+  useEffect(() => {
+    if (!pairing) return
+    const tick = () => {
+      const left = Math.max(0, Math.round((new Date(pairing.expires_at).getTime() - Date.now()) / 1000))
+      setSecondsLeft(left)
+      if (left === 0) {
+        setPairing(null)
+        fetchDevices()
+      }
+    }
+    tick()
+    const timer = setInterval(tick, 1000)
+    return () => clearInterval(timer)
+  }, [pairing])
+
+  const fetchDevices = async () => {
+    try {
+      const response = await fetch('/api/settings/devices')
+      const { data, staff } = await response.json()
+
+      if (data) {
+        setDevices(data)
+        setStaff(staff || [])
+      }
+    } catch (error) {
+      console.error('Error fetching devices:', error)
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  // Runs a device action and reloads the list; errors are shown as alerts
+  const runAction = async (id: string, url: string, init: RequestInit, fallback: string) => {
+    setBusyId(id)
+    try {
+      const response = await fetch(url, init)
+      const result = await response.json()
+
+      if (!response.ok) {
+        throw new Error(result.error || fallback)
+      }
+      await fetchDevices()
+      return result
+    } catch (error: any) {
+      console.error(fallback, error)
+      alert(error.message || fallback)
+      return null
+    } finally {
+      setBusyId(null)
+    }
+  }
+
+  const handleAddDevice = async () => {
+    const result = await runAction('new', '/api/settings/devices', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(newDevice)
+    }, 'Gagal menambah perangkat')
+
+    if (result) {
+      setNewDevice({ device_name: '', device_type: newDevice.device_type, location: '' })
+      setShowAddForm(false)
+    }
+  }
+
+  const handlePair = async (device: Device) => {
+    const result = await runAction(device.id, `/api/settings/devices/${device.id}/pairing-code`, {
+      method: 'POST'
+    }, 'Gagal membuat kode pairing')
+
+    if (result) {
+      setPairing({ device, ...result.data })
+    }
+  }
+
+  const handleRevoke = async (device: Device) => {
+    if (!confirm(`Keluarkan ${device.device_name}? Tablet harus dipasangkan ulang untuk dipakai lagi.`)) return
+    await runAction(device.id, `/api/settings/devices/${device.id}/revoke`, {
+      method: 'POST'
+    }, 'Gagal mengeluarkan perangkat')
+  }
+
+  const handleToggleActive = async (device: Device) => {
+    if (device.is_active && !confirm(`Nonaktifkan ${device.device_name}? Sesi tablet ini akan diakhiri.`)) return
+    await runAction(device.id, `/api/settings/devices/${device.id}`, {
+      method: 'PATCH',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ is_active: !device.is_active })
+    }, 'Gagal mengubah status perangkat')
+  }
+
+  const handleSetPin = async (employee: StaffPin, remove: boolean) => {
+    const result = await runAction(employee.id, `/api/settings/devices/staff-pins/${employee.id}`, remove
+      ? { method: 'DELETE' }
+      : {
+          method: 'PUT',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ pin: pins[employee.id] || '' })
+        }, 'Gagal menyimpan PIN')
+
+    if (result) {
+      setPins({ ...pins, [employee.id]: '' })
+    }
+  }
+
+  if (isLoading) {
+    return (
+      <div className="min-h-screen bg-gradient-to-br from-gray-50 to-gray-100 flex items-center justify-center">
+        <div className="text-center">
+          <Loader2 className="h-12 w-12 animate-spin text-blue-600 mx-auto mb-4" />
+          <p className="text-gray-600">Loading settings...</p>
+        </div>
+      </div>
+    )
+  }
+
+  const inputClass = 'w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 transition-all text-gray-600'
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-gray-50 to-gray-100">
+      {/* Header */}
+      <div className="bg-white border-b border-gray-200 shadow-sm sticky top-0 z-10">
+        <div className="max-w-4xl mx-auto px-6 py-5">
+          <div className="flex items-center justify-between">
+            <div className="flex items-center space-x-4">
+              <button
+                onClick={() => router.back()}
+                className="p-2 hover:bg-gray-100 rounded-lg transition-colors"
+              >
+                <ArrowLeft className="h-5 w-5 text-gray-600" />
+              </button>
+              <div className="flex items-center space-x-3">
+                <div className="w-12 h-12 bg-gradient-to-br from-indigo-600 to-indigo-700 rounded-xl flex items-center justify-center shadow-lg">
+                  <Tablet className="h-6 w-6 text-white" />
+                </div>
+                <div>
+                  <h1 className="text-2xl font-bold text-gray-900">Perangkat Tablet</h1>
+                  <p className="text-sm text-gray-600">Pasangkan tablet staf dan kelola sesinya</p>
+                </div>
+              </div>
+            </div>
+
+            <button
+              onClick={() => setShowAddForm(!showAddForm)}
+              className="px-6 py-2.5 bg-blue-600 text-white rounded-lg hover:bg-blue-700 font-medium flex items-center space-x-2 shadow-sm transition-all"
+            >
+              <Plus className="h-4 w-4" />
+              <span>Tambah Perangkat</span>
+            </button>
+          </div>
+        </div>
+      </div>
+
+      {/* Main Content */}
+      <div className="max-w-4xl mx-auto px-6 py-8 space-y-6">
+        {/* Info Banner */}
+        <div className="bg-blue-50 border border-blue-200 rounded-lg p-4">
+          <div className="flex items-start space-x-3">
+            <Info className="h-5 w-5 text-blue-600 mt-0.5 flex-shrink-0" />
+            <div>
+              <h3 className="text-sm font-medium text-blue-900 mb-1">
+                Tentang Pairing Tablet
+              </h3>
+              <p className="text-sm text-blue-700">
+                Klik <strong>Pasangkan</strong> lalu scan QR atau ketik kodenya di tablet. Kode berlaku 10 menit dan
+                hanya bisa dipakai sekali. Sesi tablet berakhir setelah 30 hari atau saat dikeluarkan dari sini.
+              </p>
+            </div>
+          </div>
+        </div>
+
+        {/* Add Device */}
+        {showAddForm && (
+          <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-6">
+            <h2 className="text-lg font-semibold text-gray-900 mb-4">Perangkat Baru</h2>
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">Nama Perangkat *</label>
+                <input
+                  type="text"
+                  value={newDevice.device_name}
+                  onChange={(e) => setNewDevice({ ...newDevice, device_name: e.target.value })}
+                  className={inputClass}
+                  placeholder="Tablet Kasir 1"
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">Peran *</label>
+                <select
+                  value={newDevice.device_type}
+                  onChange={(e) => setNewDevice({ ...newDevice, device_type: e.target.value })}
+                  className={inputClass}
+                >
+                  {DEVICE_ROLES.map(role => (
+                    <option key={role} value={role}>{ROLE_LABELS[role]}</option>
+                  ))}
+                </select>
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">Lokasi</label>
+                <input
+                  type="text"
+                  value={newDevice.location}
+                  onChange={(e) => setNewDevice({ ...newDevice, location: e.target.value })}
+                  className={inputClass}
+                  placeholder="Meja kasir depan"
+                />
+              </div>
+            </div>
+            <div className="flex justify-end space-x-2 mt-4">
+              <button
+                onClick={() => setShowAddForm(false)}
+                className="px-4 py-2 border border-gray-300 rounded-lg text-sm text-gray-700 hover:bg-gray-50"
+              >
+                Batal
+              </button>
+              <button
+                onClick={handleAddDevice}
+                disabled={busyId === 'new'}
+                className="px-4 py-2 bg-blue-600 text-white rounded-lg text-sm hover:bg-blue-700 disabled:opacity-50"
+              >
+                {busyId === 'new' ? 'Menyimpan...' : 'Simpan'}
+              </button>
+            </div>
+          </div>
+        )}
+
+        {/* Devices */}
+        <div className="bg-white rounded-xl shadow-sm border border-gray-200 overflow-hidden">
+          <div className="p-6 border-b border-gray-200">
+            <h2 className="text-lg font-semibold text-gray-900 flex items-center">
+              <Tablet className="h-5 w-5 mr-2 text-indigo-600" />
+              Daftar Perangkat
+            </h2>
+          </div>
+
+          {devices.length === 0 ? (
+            <p className="text-sm text-gray-500 text-center py-8">
+              Belum ada perangkat. Tambahkan tablet untuk kasir, dapur, pelayan, atau stok.
+            </p>
+          ) : (
+            <div className="divide-y divide-gray-200">
+              {devices.map(device => (
+                <div key={device.id} className={`p-6 flex items-center justify-between ${device.is_active ? '' : 'opacity-60'}`}>
+                  <div>
+                    <div className="flex items-center space-x-2">
+                      <h3 className="font-semibold text-gray-900">{device.device_name}</h3>
+                      <span className="px-2 py-0.5 text-xs rounded-full bg-indigo-100 text-indigo-700">
+                        {ROLE_LABELS[device.device_type] || device.device_type}
+                      </span>
+                      {!device.is_active ? (
+                        <span className="px-2 py-0.5 text-xs rounded-full bg-gray-200 text-gray-700">Nonaktif</span>
+                      ) : device.session ? (
+                        <span className="px-2 py-0.5 text-xs rounded-full bg-green-100 text-green-700">Terhubung</span>
+                      ) : (
+                        <span className="px-2 py-0.5 text-xs rounded-full bg-yellow-100 text-yellow-700">Belum dipasangkan</span>
+                      )}
+                    </div>
+                    <p className="text-sm text-gray-600 mt-1">
+                      {device.device_code}
+                      {device.location && ` • ${device.location}`}
+                      {device.device_model && ` • ${device.device_model}`}
+                    </p>
+                    {device.session && (
+                      <p className="text-sm text-gray-600 mt-1">
+                        Terakhir aktif: {formatLastSeen(device.session.last_seen_at)}
+                        {device.session.employee && ` • Staf: ${device.session.employee.full_name}`}
+                        {` • Berlaku sampai ${new Date(device.session.expires_at).toLocaleDateString('id-ID')}`}
+                      </p>
+                    )}
+                  </div>
+
+                  <div className="flex items-center space-x-2">
+                    {busyId === device.id && <Loader2 className="h-4 w-4 animate-spin text-gray-500" />}
+                    {device.is_active && (
+                      <button
+                        onClick={() => handlePair(device)}
+                        disabled={busyId === device.id}
+                        className="px-3 py-2 border border-gray-300 rounded-lg text-sm text-gray-700 hover:bg-gray-50 flex items-center space-x-1 disabled:opacity-50"
+                      >
+                        <QrCode className="h-4 w-4" />
+                        <span>{device.session ? 'Pasangkan Ulang' : 'Pasangkan'}</span>
+                      </button>
+                    )}
+                    {device.session && (
+                      <button
+                        onClick={() => handleRevoke(device)}
+                        disabled={busyId === device.id}
+                        className="px-3 py-2 border border-red-200 rounded-lg text-sm text-red-600 hover:bg-red-50 flex items-center space-x-1 disabled:opacity-50"
+                      >
+                        <LogOut className="h-4 w-4" />
+                        <span>Keluarkan</span>
+                      </button>
+                    )}
+                    <button
+                      onClick={() => handleToggleActive(device)}
+                      disabled={busyId === device.id}
+                      title={device.is_active ? 'Nonaktifkan' : 'Aktifkan'}
+                      className="p-2 text-gray-600 hover:bg-gray-100 rounded-lg disabled:opacity-50"
+                    >
+                      <Power className="h-4 w-4" />
+                    </button>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+
+        {/* Staff PINs */}
+        <div className="bg-white rounded-xl shadow-sm border border-gray-200 overflow-hidden">
+          <div className="p-6 border-b border-gray-200">
+            <h2 className="text-lg font-semibold text-gray-900 flex items-center">
+              <KeyRound className="h-5 w-5 mr-2 text-orange-600" />
+              PIN Staf
+            </h2>
+            <p className="text-sm text-gray-600 mt-1">
+              Staf masuk ke tablet sesuai posisinya dengan PIN 4-6 angka. 5 kali salah mengunci tablet selama 5 menit.
+            </p>
+          </div>
+
+          {staff.length === 0 ? (
+            <p className="text-sm text-gray-500 text-center py-8">Belum ada karyawan aktif.</p>
+          ) : (
+            <div className="divide-y divide-gray-200">
+              {staff.map(employee => (
+                <div key={employee.id} className="px-6 py-4 flex items-center justify-between">
+                  <div>
+                    <p className="font-medium text-gray-900">{employee.full_name}</p>
+                    <p className="text-sm text-gray-600">
+                      {ROLE_LABELS[employee.position] || employee.position}
+                      {' • '}
+                      {employee.has_pin ? 'PIN sudah diatur' : 'Belum ada PIN'}
+                    </p>
+                  </div>
+                  <div className="flex items-center space-x-2">
+                    <input
+                      type="password"
+                      inputMode="numeric"
+                      maxLength={6}
+                      value={pins[employee.id] || ''}
+                      onChange={(e) => setPins({ ...pins, [employee.id]: e.target.value.replace(/\D/g, '') })}
+                      className="w-28 px-3 py-2 border border-gray-300 rounded-lg text-sm text-gray-600 focus:ring-2 focus:ring-blue-500"
+                      placeholder="PIN baru"
+                    />
+                    <button
+                      onClick={() => handleSetPin(employee, false)}
+                      disabled={busyId === employee.id || (pins[employee.id] || '').length < 4}
+                      className="px-3 py-2 bg-blue-600 text-white rounded-lg text-sm hover:bg-blue-700 disabled:opacity-50"
+                    >
+                      Simpan
+                    </button>
+                    {employee.has_pin && (
+                      <button
+                        onClick={() => handleSetPin(employee, true)}
+                        disabled={busyId === employee.id}
+                        className="px-3 py-2 border border-red-200 rounded-lg text-sm text-red-600 hover:bg-red-50 disabled:opacity-50"
+                      >
+                        Hapus
+                      </button>
+                    )}
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      </div>
+
+      {/* Pairing Code */}
+      {pairing && (
+        <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
+          <div className="bg-white rounded-xl shadow-xl max-w-sm w-full p-6 text-center">
+            <div className="flex items-center justify-between mb-4">
+              <h2 className="text-lg font-semibold text-gray-900">Pasangkan {pairing.device.device_name}</h2>
+              <button
+                onClick={() => { setPairing(null); fetchDevices() }}
+                className="p-1 hover:bg-gray-100 rounded-lg"
+              >
+                <X className="h-5 w-5 text-gray-600" />
+              </button>
+            </div>
+            <img
+              src={renderQRCodeDataURL(JSON.stringify({ pair: PAIR_ENDPOINT, code: pairing.code }), { size: 224 })}
+              alt="QR pairing"
+              className="mx-auto"
+              width={224}
+              height={224}
+            />
+            <p className="text-sm text-gray-600 mt-4">atau ketik kode di tablet</p>
+            <p className="text-3xl font-mono font-bold tracking-widest text-gray-900 mt-1">
+              {formatCode(pairing.code)}
+            </p>
+            <p className="text-sm text-gray-600 mt-3">
+              Berlaku {Math.floor(secondsLeft / 60)}:{String(secondsLeft % 60).padStart(2, '0')} lagi
+            </p>
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
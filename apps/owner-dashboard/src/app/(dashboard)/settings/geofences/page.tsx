@@ -0,0 +1,449 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import { useRouter } from 'next/navigation'
+import {
+  ArrowLeft,
+  Hexagon,
+  Circle,
+  Save,
+  Loader2,
+  CheckCircle,
+  Plus,
+  Trash2,
+  ShieldAlert,
+  Info
+} from 'lucide-react'
+import {
+  DEFAULT_GEOFENCE_SETTINGS,
+  type GeofenceSettings,
+  type GeofenceZone
+} from '@cafe/utils/validators/geofence'
+
+// Editable zone: coordinates stay text until saved
+interface ZoneDraft {
+  id: string
+  name: string
+  active: boolean
+  type: 'circle' | 'polygon'
+  latitude: string
+  longitude: string
+  radius_meters: string
+  points: string // one "lat,lng" per line
+}
+
+const toDraft = (zone: GeofenceZone): ZoneDraft => ({
+  id: zone.id,
+  name: zone.name,
+  active: zone.active,
+  type: zone.type,
+  latitude: zone.type === 'circle' ? String(zone.center.latitude) : '',
+  longitude: zone.type === 'circle' ? String(zone.center.longitude) : '',
+  radius_meters: zone.type === 'circle' ? String(zone.radius_meters) : '100',
+  points: zone.type === 'polygon'
+    ? zone.points.map(point => `${point.latitude},${point.longitude}`).join('\n')
+    : ''
+})
+
+// Blank fields are sent as null so the server rejects the zone
+const toNumber = (value: string | undefined) => (value && value.trim() ? Number(value) : null)
+
+const fromDraft = (draft: ZoneDraft) => ({
+  id: draft.id,
+  name: draft.name,
+  active: draft.active,
+  type: draft.type,
+  ...(draft.type === 'circle'
+    ? {
+        center: { latitude: toNumber(draft.latitude), longitude: toNumber(draft.longitude) },
+        radius_meters: toNumber(draft.radius_meters)
+      }
+    : {
+        points: draft.points
+          .split('\n')
+          .map(line => line.trim())
+          .filter(Boolean)
+          .map(line => {
+            const [latitude, longitude] = line.split(',')
+            return { latitude: toNumber(latitude), longitude: toNumber(longitude) }
+          })
+      })
+})
+
+export default function GeofenceSettingsPage() {
+  const router = useRouter()
+  const [isLoading, setIsLoading] = useState(true)
+  const [isSaving, setIsSaving] = useState(false)
+  const [showSuccess, setShowSuccess] = useState(false)
+  const [zones, setZones] = useState<ZoneDraft[]>([])
+  const [maxAccuracy, setMaxAccuracy] = useState(String(DEFAULT_GEOFENCE_SETTINGS.max_accuracy_meters))
+  const [maxSpeed, setMaxSpeed] = useState(String(DEFAULT_GEOFENCE_SETTINGS.max_speed_kmh))
+  const [fallbackZone, setFallbackZone] = useState<GeofenceZone | null>(null)
+
+  useEffect(() => {
+    fetchSettings()
+  }, [])
+
+  const applySettings = (settings: GeofenceSettings) => {
+    setZones(settings.zones.map(toDraft))
+    setMaxAccuracy(String(settings.max_accuracy_meters))
+    setMaxSpeed(String(settings.max_speed_kmh))
+  }
+
+  const fetchSettings = async () => {
+    try {
+      const response = await fetch('/api/settings/geofences')
+      const { data, effective } = await response.json()
+
+      if (data) {
+        applySettings(data)
+        setFallbackZone(data.zones.length === 0 ? effective?.zones[0] || null : null)
+      }
+    } catch (error) {
+      console.error('Error fetching geofences:', error)
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  const updateZone = (index: number, changes: Partial<ZoneDraft>) => {
+    setZones(zones.map((zone, i) => (i === index ? { ...zone, ...changes } : zone)))
+  }
+
+  const addZone = (type: ZoneDraft['type']) => {
+    const template = fallbackZone?.type === 'circle' && zones.length === 0
+      ? toDraft(fallbackZone)
+      : null
+
+    setZones([
+      ...zones,
+      {
+        id: `zone-${Date.now()}`,
+        name: template ? template.name : `Area ${zones.length + 1}`,
+        active: true,
+        type,
+        latitude: template?.latitude || '',
+        longitude: template?.longitude || '',
+        radius_meters: template?.radius_meters || '100',
+        points: ''
+      }
+    ])
+  }
+
+  const handleSave = async () => {
+    setIsSaving(true)
+    try {
+      const response = await fetch('/api/settings/geofences', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          zones: zones.map(fromDraft),
+          max_accuracy_meters: Number(maxAccuracy),
+          max_speed_kmh: Number(maxSpeed)
+        })
+      })
+      const result = await response.json()
+
+      if (!response.ok) {
+        throw new Error(result.error || 'Failed to save geofences')
+      }
+
+      applySettings(result.data)
+      if (result.data.zones.length > 0) {
+        setFallbackZone(null)
+      }
+      setShowSuccess(true)
+      setTimeout(() => setShowSuccess(false), 3000)
+    } catch (error: any) {
+      console.error('Error saving geofences:', error)
+      alert(error.message || 'Gagal menyimpan data. Silakan coba lagi.')
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  if (isLoading) {
+    return (
+      <div className="min-h-screen bg-gradient-to-br from-gray-50 to-gray-100 flex items-center justify-center">
+        <div className="text-center">
+          <Loader2 className="h-12 w-12 animate-spin text-blue-600 mx-auto mb-4" />
+          <p className="text-gray-600">Loading settings...</p>
+        </div>
+      </div>
+    )
+  }
+
+  const inputClass = 'w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 transition-all text-gray-600'
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-gray-50 to-gray-100">
+      {/* Header */}
+      <div className="bg-white border-b border-gray-200 shadow-sm sticky top-0 z-10">
+        <div className="max-w-4xl mx-auto px-6 py-5">
+          <div className="flex items-center justify-between">
+            <div className="flex items-center space-x-4">
+              <button
+                onClick={() => router.back()}
+                className="p-2 hover:bg-gray-100 rounded-lg transition-colors"
+              >
+                <ArrowLeft className="h-5 w-5 text-gray-600" />
+              </button>
+              <div className="flex items-center space-x-3">
+                <div className="w-12 h-12 bg-gradient-to-br from-green-600 to-green-700 rounded-xl flex items-center justify-center shadow-lg">
+                  <Hexagon className="h-6 w-6 text-white" />
+                </div>
+                <div>
+                  <h1 className="text-2xl font-bold text-gray-900">Area Absensi</h1>
+                  <p className="text-sm text-gray-600">Tempat karyawan boleh clock in dan clock out</p>
+                </div>
+              </div>
+            </div>
+
+            <button
+              onClick={handleSave}
+              disabled={isSaving}
+              className="px-6 py-2.5 bg-blue-600 text-white rounded-lg hover:bg-blue-700 font-medium flex items-center space-x-2 disabled:opacity-50 disabled:cursor-not-allowed shadow-sm transition-all"
+            >
+              {isSaving ? (
+                <>
+                  <Loader2 className="h-4 w-4 animate-spin" />
+                  <span>Menyimpan...</span>
+                </>
+              ) : showSuccess ? (
+                <>
+                  <CheckCircle className="h-4 w-4" />
+                  <span>Tersimpan!</span>
+                </>
+              ) : (
+                <>
+                  <Save className="h-4 w-4" />
+                  <span>Simpan</span>
+                </>
+              )}
+            </button>
+          </div>
+        </div>
+      </div>
+
+      {/* Main Content */}
+      <div className="max-w-4xl mx-auto px-6 py-8">
+        <div className="bg-white rounded-xl shadow-sm border border-gray-200 overflow-hidden">
+          <div className="p-8 space-y-8">
+            {/* Info Banner */}
+            <div className="bg-blue-50 border border-blue-200 rounded-lg p-4">
+              <div className="flex items-start space-x-3">
+                <Info className="h-5 w-5 text-blue-600 mt-0.5 flex-shrink-0" />
+                <div>
+                  <h3 className="text-sm font-medium text-blue-900 mb-1">
+                    Tentang Area Absensi
+                  </h3>
+                  <p className="text-sm text-blue-700">
+                    Absen diterima jika lokasi karyawan berada di salah satu area aktif. Gunakan lingkaran untuk
+                    area sederhana, atau poligon untuk bentuk bangunan, gudang, atau area parkir.
+                  </p>
+                  {fallbackZone && (
+                    <p className="text-sm text-blue-700 mt-2">
+                      Belum ada area. Saat ini dipakai lingkaran dari <strong>Lokasi GPS</strong>
+                      {fallbackZone.type === 'circle' && ` (radius ${fallbackZone.radius_meters}m)`}.
+                    </p>
+                  )}
+                </div>
+              </div>
+            </div>
+
+            {/* Zones */}
+            <div>
+              <div className="flex items-center justify-between mb-4">
+                <h2 className="text-lg font-semibold text-gray-900 flex items-center">
+                  <Hexagon className="h-5 w-5 mr-2 text-green-600" />
+                  Daftar Area
+                </h2>
+                <div className="flex items-center space-x-2">
+                  <button
+                    type="button"
+                    onClick={() => addZone('circle')}
+                    className="px-3 py-2 border border-gray-300 rounded-lg text-sm text-gray-700 hover:bg-gray-50 flex items-center space-x-1"
+                  >
+                    <Plus className="h-4 w-4" />
+                    <span>Lingkaran</span>
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => addZone('polygon')}
+                    className="px-3 py-2 border border-gray-300 rounded-lg text-sm text-gray-700 hover:bg-gray-50 flex items-center space-x-1"
+                  >
+                    <Plus className="h-4 w-4" />
+                    <span>Poligon</span>
+                  </button>
+                </div>
+              </div>
+
+              {zones.length === 0 ? (
+                <p className="text-sm text-gray-500 text-center py-8 border border-dashed border-gray-300 rounded-lg">
+                  Belum ada area. Tambahkan lingkaran atau poligon.
+                </p>
+              ) : (
+                <div className="space-y-4">
+                  {zones.map((zone, index) => (
+                    <div key={zone.id} className={`p-5 rounded-lg border ${zone.active ? 'border-gray-200 bg-gray-50' : 'border-gray-200 bg-gray-100 opacity-70'}`}>
+                      <div className="flex items-center justify-between mb-4">
+                        <div className="flex items-center space-x-2 text-sm font-medium text-gray-700">
+                          {zone.type === 'circle' ? <Circle className="h-4 w-4" /> : <Hexagon className="h-4 w-4" />}
+                          <span>{zone.type === 'circle' ? 'Lingkaran' : 'Poligon'}</span>
+                        </div>
+                        <div className="flex items-center space-x-4">
+                          <label className="flex items-center space-x-2 text-sm text-gray-700">
+                            <input
+                              type="checkbox"
+                              checked={zone.active}
+                              onChange={(e) => updateZone(index, { active: e.target.checked })}
+                              className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                            />
+                            <span>Aktif</span>
+                          </label>
+                          <button
+                            type="button"
+                            onClick={() => setZones(zones.filter((_, i) => i !== index))}
+                            className="p-2 text-red-600 hover:bg-red-50 rounded-lg"
+                          >
+                            <Trash2 className="h-4 w-4" />
+                          </button>
+                        </div>
+                      </div>
+
+                      <div className="space-y-4">
+                        <div>
+                          <label className="block text-sm font-medium text-gray-700 mb-2">Nama Area *</label>
+                          <input
+                            type="text"
+                            value={zone.name}
+                            onChange={(e) => updateZone(index, { name: e.target.value })}
+                            className={inputClass}
+                            placeholder="Cafe, Gudang, ..."
+                          />
+                        </div>
+
+                        {zone.type === 'circle' ? (
+                          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                            <div>
+                              <label className="block text-sm font-medium text-gray-700 mb-2">Latitude *</label>
+                              <input
+                                type="number"
+                                step="any"
+                                value={zone.latitude}
+                                onChange={(e) => updateZone(index, { latitude: e.target.value })}
+                                className={inputClass}
+                                placeholder="-3.9778"
+                              />
+                            </div>
+                            <div>
+                              <label className="block text-sm font-medium text-gray-700 mb-2">Longitude *</label>
+                              <input
+                                type="number"
+                                step="any"
+                                value={zone.longitude}
+                                onChange={(e) => updateZone(index, { longitude: e.target.value })}
+                                className={inputClass}
+                                placeholder="122.5194"
+                              />
+                            </div>
+                            <div>
+                              <label className="block text-sm font-medium text-gray-700 mb-2">Radius (meter) *</label>
+                              <input
+                                type="number"
+                                min="1"
+                                value={zone.radius_meters}
+                                onChange={(e) => updateZone(index, { radius_meters: e.target.value })}
+                                className={inputClass}
+                              />
+                            </div>
+                          </div>
+                        ) : (
+                          <div>
+                            <label className="block text-sm font-medium text-gray-700 mb-2">
+                              Titik Sudut * <span className="font-normal text-gray-500">(satu &quot;latitude,longitude&quot; per baris, minimal 3)</span>
+                            </label>
+                            <textarea
+                              value={zone.points}
+                              onChange={(e) => updateZone(index, { points: e.target.value })}
+                              rows={5}
+                              className={`${inputClass} font-mono text-sm`}
+                              placeholder={'-3.97770,122.51920\n-3.97770,122.51960\n-3.97800,122.51960\n-3.97800,122.51920'}
+                            />
+                            <p className="mt-2 text-sm text-gray-600">
+                              Klik kanan di Google Maps pada setiap sudut bangunan untuk menyalin koordinatnya
+                            </p>
+                          </div>
+                        )}
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+
+            <div className="border-t border-gray-200"></div>
+
+            {/* Spoofing Detection */}
+            <div>
+              <h2 className="text-lg font-semibold text-gray-900 mb-4 flex items-center">
+                <ShieldAlert className="h-5 w-5 mr-2 text-orange-600" />
+                Akurasi GPS & Deteksi Lokasi Palsu
+              </h2>
+
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">
+                    Akurasi GPS maksimal (meter) *
+                  </label>
+                  <input
+                    type="number"
+                    min="1"
+                    value={maxAccuracy}
+                    onChange={(e) => setMaxAccuracy(e.target.value)}
+                    className={inputClass}
+                  />
+                  <p className="mt-2 text-sm text-gray-600">
+                    Absen dengan akurasi lebih buruk ditolak dan karyawan diminta mencoba lagi
+                  </p>
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">
+                    Kecepatan perpindahan maksimal (km/jam) *
+                  </label>
+                  <input
+                    type="number"
+                    min="1"
+                    value={maxSpeed}
+                    onChange={(e) => setMaxSpeed(e.target.value)}
+                    className={inputClass}
+                  />
+                  <p className="mt-2 text-sm text-gray-600">
+                    Perpindahan lebih cepat dari absen sebelumnya dianggap mencurigakan
+                  </p>
+                </div>
+              </div>
+
+              <div className="mt-4 p-4 bg-orange-50 border border-orange-200 rounded-lg">
+                <p className="text-sm text-orange-900 font-medium mb-2">Dikirim ke Location Reviews:</p>
+                <ul className="text-sm text-orange-700 space-y-1">
+                  <li>• Akurasi GPS 0 m atau perangkat melaporkan mock location</li>
+                  <li>• Perpindahan tidak mungkin sejak absen sebelumnya</li>
+                  <li>• Koordinat persis sama dengan absen sebelumnya</li>
+                  <li>• Sedikit di luar area, tetapi masih dalam radius akurasi GPS</li>
+                </ul>
+              </div>
+            </div>
+          </div>
+
+          {/* Footer */}
+          <div className="bg-gray-50 border-t border-gray-200 px-8 py-4">
+            <p className="text-sm text-gray-600">
+              <span className="text-red-500">*</span> Wajib diisi
+            </p>
+          </div>
+        </div>
+      </div>
+    </div>
+  )
+}
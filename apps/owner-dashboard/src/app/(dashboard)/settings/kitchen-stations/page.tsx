@@ -0,0 +1,337 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import { useRouter } from 'next/navigation'
+import {
+  ArrowLeft,
+  ChefHat,
+  Save,
+  Loader2,
+  CheckCircle,
+  Plus,
+  Trash2,
+  Tags,
+  Info
+} from 'lucide-react'
+import {
+  DEFAULT_KITCHEN_STATION_SETTINGS,
+  type KitchenStationSettings
+} from '@cafe/utils/helpers/kitchenStations'
+
+interface MenuCategoryOption {
+  slug: string
+  name: string
+}
+
+export default function KitchenStationsPage() {
+  const router = useRouter()
+  const [isLoading, setIsLoading] = useState(true)
+  const [isSaving, setIsSaving] = useState(false)
+  const [showSuccess, setShowSuccess] = useState(false)
+  const [settings, setSettings] = useState<KitchenStationSettings>(DEFAULT_KITCHEN_STATION_SETTINGS)
+  const [categories, setCategories] = useState<MenuCategoryOption[]>([])
+
+  useEffect(() => {
+    fetchSettings()
+  }, [])
+
+  const fetchSettings = async () => {
+    try {
+      const response = await fetch('/api/settings/kitchen-stations')
+      const { data, categories } = await response.json()
+
+      if (data) {
+        setSettings(data)
+      }
+      setCategories(categories || [])
+    } catch (error) {
+      console.error('Error fetching kitchen stations:', error)
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  const handleSave = async () => {
+    setIsSaving(true)
+    try {
+      const response = await fetch('/api/settings/kitchen-stations', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(settings)
+      })
+      const result = await response.json()
+
+      if (!response.ok) {
+        throw new Error(result.error || 'Failed to save kitchen stations')
+      }
+
+      setSettings(result.data)
+      setShowSuccess(true)
+      setTimeout(() => setShowSuccess(false), 3000)
+    } catch (error) {
+      console.error('Error saving kitchen stations:', error)
+      alert(error instanceof Error ? error.message : 'Gagal menyimpan data. Silakan coba lagi.')
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  const updateStation = (index: number, field: 'code' | 'name', value: string) => {
+    const previousCode = settings.stations[index].code
+    const stations = settings.stations.map((station, i) =>
+      i === index ? { ...station, [field]: value } : station
+    )
+    setSettings({
+      stations,
+      // Keep the default pointing at the renamed station
+      default_station: field === 'code' && settings.default_station === previousCode ? value : settings.default_station
+    })
+  }
+
+  const addStation = () => {
+    setSettings({
+      ...settings,
+      stations: [...settings.stations, { code: '', name: '', categories: [] }]
+    })
+  }
+
+  const removeStation = (index: number) => {
+    const removed = settings.stations[index]
+    const stations = settings.stations.filter((_, i) => i !== index)
+    setSettings({
+      stations,
+      default_station: settings.default_station === removed.code
+        ? stations[0]?.code || ''
+        : settings.default_station
+    })
+  }
+
+  // '' leaves the category to the default station
+  const assignCategory = (slug: string, code: string) => {
+    setSettings({
+      ...settings,
+      stations: settings.stations.map(station => ({
+        ...station,
+        categories: station.code === code
+          ? [...station.categories.filter(category => category !== slug), slug]
+          : station.categories.filter(category => category !== slug)
+      }))
+    })
+  }
+
+  const stationOfCategory = (slug: string) =>
+    settings.stations.find(station => station.categories.includes(slug))?.code || ''
+
+  if (isLoading) {
+    return (
+      <div className="min-h-screen bg-gradient-to-br from-gray-50 to-gray-100 flex items-center justify-center">
+        <div className="text-center">
+          <Loader2 className="h-12 w-12 animate-spin text-blue-600 mx-auto mb-4" />
+          <p className="text-gray-600">Loading settings...</p>
+        </div>
+      </div>
+    )
+  }
+
+  const defaultStationName = settings.stations.find(station => station.code === settings.default_station)?.name
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-gray-50 to-gray-100">
+      {/* Header */}
+      <div className="bg-white border-b border-gray-200 shadow-sm sticky top-0 z-10">
+        <div className="max-w-4xl mx-auto px-6 py-5">
+          <div className="flex items-center justify-between">
+            <div className="flex items-center space-x-4">
+              <button
+                onClick={() => router.back()}
+                className="p-2 hover:bg-gray-100 rounded-lg transition-colors"
+              >
+                <ArrowLeft className="h-5 w-5 text-gray-600" />
+              </button>
+              <div className="flex items-center space-x-3">
+                <div className="w-12 h-12 bg-gradient-to-br from-orange-500 to-orange-600 rounded-xl flex items-center justify-center shadow-lg">
+                  <ChefHat className="h-6 w-6 text-white" />
+                </div>
+                <div>
+                  <h1 className="text-2xl font-bold text-gray-900">Stasiun Dapur</h1>
+                  <p className="text-sm text-gray-600">Pembagian item pesanan ke bar, dapur, dan pastry</p>
+                </div>
+              </div>
+            </div>
+
+            <button
+              onClick={handleSave}
+              disabled={isSaving}
+              className="px-6 py-2.5 bg-blue-600 text-white rounded-lg hover:bg-blue-700 font-medium flex items-center space-x-2 disabled:opacity-50 disabled:cursor-not-allowed shadow-sm transition-all"
+            >
+              {isSaving ? (
+                <>
+                  <Loader2 className="h-4 w-4 animate-spin" />
+                  <span>Menyimpan...</span>
+                </>
+              ) : showSuccess ? (
+                <>
+                  <CheckCircle className="h-4 w-4" />
+                  <span>Tersimpan!</span>
+                </>
+              ) : (
+                <>
+                  <Save className="h-4 w-4" />
+                  <span>Simpan</span>
+                </>
+              )}
+            </button>
+          </div>
+        </div>
+      </div>
+
+      {/* Main Content */}
+      <div className="max-w-4xl mx-auto px-6 py-8">
+        <div className="bg-white rounded-xl shadow-sm border border-gray-200 overflow-hidden">
+          <div className="p-8 space-y-8">
+            {/* Info Banner */}
+            <div className="bg-blue-50 border border-blue-200 rounded-lg p-4">
+              <div className="flex items-start space-x-3">
+                <Info className="h-5 w-5 text-blue-600 mt-0.5 flex-shrink-0" />
+                <div>
+                  <h3 className="text-sm font-medium text-blue-900 mb-1">
+                    Tentang Stasiun
+                  </h3>
+                  <p className="text-sm text-blue-700">
+                    Setiap stasiun hanya melihat item dari kategori menunya di layar dapur dan menandai (bump) item
+                    yang selesai. Pesanan menjadi siap setelah semua stasiun menyelesaikan itemnya.
+                  </p>
+                </div>
+              </div>
+            </div>
+
+            {/* Stations */}
+            <div>
+              <div className="flex items-center justify-between mb-4">
+                <h2 className="text-lg font-semibold text-gray-900 flex items-center">
+                  <ChefHat className="h-5 w-5 mr-2 text-orange-600" />
+                  Stasiun
+                </h2>
+                <button
+                  type="button"
+                  onClick={addStation}
+                  className="px-3 py-1.5 text-sm border border-gray-300 rounded-lg hover:bg-gray-50 flex items-center space-x-1 text-gray-700"
+                >
+                  <Plus className="h-4 w-4" />
+                  <span>Tambah Stasiun</span>
+                </button>
+              </div>
+
+              <div className="space-y-3">
+                {settings.stations.map((station, index) => (
+                  <div key={index} className="grid grid-cols-12 gap-3 items-center">
+                    <input
+                      type="text"
+                      value={station.name}
+                      onChange={(e) => updateStation(index, 'name', e.target.value)}
+                      placeholder="Nama, mis. Bar"
+                      className="col-span-6 px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 transition-all"
+                    />
+                    <input
+                      type="text"
+                      value={station.code}
+                      onChange={(e) => updateStation(index, 'code', e.target.value.toLowerCase())}
+                      placeholder="kode, mis. bar"
+                      className="col-span-5 px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 transition-all font-mono text-sm"
+                    />
+                    <button
+                      type="button"
+                      onClick={() => removeStation(index)}
+                      disabled={settings.stations.length <= 1}
+                      className="col-span-1 p-2 text-red-600 hover:bg-red-50 rounded-lg disabled:opacity-30 disabled:cursor-not-allowed"
+                      title="Hapus stasiun"
+                    >
+                      <Trash2 className="h-5 w-5" />
+                    </button>
+                  </div>
+                ))}
+              </div>
+              <p className="mt-2 text-sm text-gray-600">
+                Kode dipakai tablet stasiun, mis. <code className="font-mono">/kitchen-display/station/bar</code>
+              </p>
+            </div>
+
+            <div className="border-t border-gray-200"></div>
+
+            {/* Category Routing */}
+            <div>
+              <h2 className="text-lg font-semibold text-gray-900 mb-4 flex items-center">
+                <Tags className="h-5 w-5 mr-2 text-green-600" />
+                Kategori Menu
+              </h2>
+
+              {categories.length === 0 ? (
+                <p className="text-sm text-gray-600">Belum ada kategori menu aktif.</p>
+              ) : (
+                <div className="space-y-3">
+                  {categories.map(category => (
+                    <div key={category.slug} className="flex items-center justify-between gap-4">
+                      <span className="text-gray-900">{category.name}</span>
+                      <select
+                        value={stationOfCategory(category.slug)}
+                        onChange={(e) => assignCategory(category.slug, e.target.value)}
+                        className="w-64 px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 transition-all text-gray-600"
+                      >
+                        <option value="">Default ({defaultStationName || '-'})</option>
+                        {settings.stations.filter(station => station.code).map(station => (
+                          <option key={station.code} value={station.code}>
+                            {station.name || station.code}
+                          </option>
+                        ))}
+                      </select>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+
+            <div className="border-t border-gray-200"></div>
+
+            {/* Default Station */}
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">
+                Stasiun untuk kategori lain *
+              </label>
+              <select
+                value={settings.default_station}
+                onChange={(e) => setSettings({ ...settings, default_station: e.target.value })}
+                className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 transition-all text-gray-600"
+              >
+                {settings.stations.filter(station => station.code).map(station => (
+                  <option key={station.code} value={station.code}>
+                    {station.name || station.code}
+                  </option>
+                ))}
+              </select>
+              <p className="mt-2 text-sm text-gray-600">
+                Item dari kategori baru atau tanpa kategori masuk ke stasiun ini
+              </p>
+            </div>
+          </div>
+
+          {/* Footer */}
+          <div className="bg-gray-50 border-t border-gray-200 px-8 py-4">
+            <p className="text-sm text-gray-600">
+              <span className="text-red-500">*</span> Wajib diisi
+            </p>
+          </div>
+        </div>
+
+        {/* Help Section */}
+        <div className="mt-6 bg-yellow-50 border border-yellow-200 rounded-lg p-4">
+          <h3 className="text-sm font-medium text-yellow-900 mb-2">💡 Tips</h3>
+          <ul className="text-sm text-yellow-700 space-y-1">
+            <li>• Item yang salah di-bump dapat dipanggil ulang (recall) dari layar stasiun</li>
+            <li>• Catatan dan modifier pesanan ditandai di tiket agar tidak terlewat</li>
+            <li>• Pembagian printer bar dan dapur diatur terpisah di Konfigurasi Printer</li>
+          </ul>
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -15,7 +15,11 @@ import {
   Package,
   Settings as SettingsIcon,
   ChevronRight,
-  Sparkles
+  Sparkles,
+  CalendarClock,
+  Hexagon,
+  Tablet,
+  ChefHat
 } from 'lucide-react'
 import { useAuth } from '@/hooks/useAuth'
 
@@ -54,6 +58,14 @@ const settingSections: SettingSection[] = [
     href: '/settings/location',
     color: 'red'
   },
+  {
+    id: 'geofences',
+    title: 'Area Absensi',
+    description: 'Area lingkaran atau poligon untuk absen dan deteksi GPS palsu',
+    icon: Hexagon,
+    href: '/settings/geofences',
+    color: 'green'
+  },
   {
     id: 'payment-methods',
     title: 'Metode Pembayaran',
@@ -78,6 +90,22 @@ const settingSections: SettingSection[] = [
     href: '/settings/printers',
     color: 'orange'
   },
+  {
+    id: 'kitchen-stations',
+    title: 'Stasiun Dapur',
+    description: 'Bar, dapur, dan pastry menurut kategori menu',
+    icon: ChefHat,
+    href: '/settings/kitchen-stations',
+    color: 'orange'
+  },
+  {
+    id: 'devices',
+    title: 'Perangkat Tablet',
+    description: 'Pairing tablet staf, sesi perangkat, dan PIN staf',
+    icon: Tablet,
+    href: '/settings/devices',
+    color: 'indigo'
+  },
   {
     id: 'profile',
     title: 'Profile Owner',
@@ -110,6 +138,14 @@ const settingSections: SettingSection[] = [
     href: '/settings/attendance-rules',
     color: 'purple'
   },
+  {
+    id: 'business-calendar',
+    title: 'Zona Waktu & Hari Bisnis',
+    description: 'Zona waktu cafe dan jam tutup buku harian untuk laporan',
+    icon: CalendarClock,
+    href: '/settings/business-calendar',
+    color: 'blue'
+  },
   {
     id: 'inventory-alerts',
     title: 'Peringatan Inventory',
@@ -1,6 +1,6 @@
 'use client'
 
-import { useState } from 'react'
+import { useState, useEffect } from 'react'
 import { useRouter } from 'next/navigation'
 import {
   ArrowLeft,
@@ -11,49 +11,53 @@ import {
   Plus,
   Trash2,
   Coffee,
-  UtensilsCrossed
+  UtensilsCrossed,
+  FileText
 } from 'lucide-react'
-
-interface PrinterConfig {
-  id: string
-  name: string
-  type: 'kitchen' | 'bar' | 'receipt'
-  ipAddress: string
-  port: string
-  enabled: boolean
-}
+import {
+  DEFAULT_BAR_CATEGORIES,
+  parsePrinterSettings,
+  type PrinterConfig
+} from '@cafe/utils/printing'
+import { menuService, type MenuCategory } from '@/services/menuService'
 
 export default function PrintersPage() {
   const router = useRouter()
+  const [isLoading, setIsLoading] = useState(true)
   const [isSaving, setIsSaving] = useState(false)
   const [showSuccess, setShowSuccess] = useState(false)
+  const [settingId, setSettingId] = useState('')
+  const [testingId, setTestingId] = useState<string | null>(null)
+  const [categories, setCategories] = useState<MenuCategory[]>([])
+  const [barCategories, setBarCategories] = useState<string[]>(DEFAULT_BAR_CATEGORIES)
+  const [printers, setPrinters] = useState<PrinterConfig[]>([])
 
-  const [printers, setPrinters] = useState<PrinterConfig[]>([
-    {
-      id: '1',
-      name: 'Printer Kitchen',
-      type: 'kitchen',
-      ipAddress: '192.168.1.100',
-      port: '9100',
-      enabled: true
-    },
-    {
-      id: '2',
-      name: 'Printer Bar',
-      type: 'bar',
-      ipAddress: '192.168.1.101',
-      port: '9100',
-      enabled: true
-    },
-    {
-      id: '3',
-      name: 'Printer Receipt - Kasir',
-      type: 'receipt',
-      ipAddress: '192.168.1.102',
-      port: '9100',
-      enabled: false
+  useEffect(() => {
+    fetchSettings()
+  }, [])
+
+  const fetchSettings = async () => {
+    try {
+      const [response, menuCategories] = await Promise.all([
+        fetch('/api/settings?category=printers&key=config'),
+        menuService.getMenuCategories().catch(() => [])
+      ])
+      const { data } = await response.json()
+
+      if (data && data.length > 0) {
+        const printerSetting = data[0]
+        const settings = parsePrinterSettings(printerSetting.value)
+        setSettingId(printerSetting.id)
+        setPrinters(settings.printers)
+        setBarCategories(settings.bar_categories)
+      }
+      setCategories(menuCategories)
+    } catch (error) {
+      console.error('Error fetching settings:', error)
+    } finally {
+      setIsLoading(false)
     }
-  ])
+  }
 
   const handleAdd = () => {
     const newPrinter: PrinterConfig = {
@@ -62,7 +66,8 @@ export default function PrintersPage() {
       type: 'kitchen',
       ipAddress: '',
       port: '9100',
-      enabled: false
+      enabled: false,
+      paperWidth: 80
     }
     setPrinters(prev => [...prev, newPrinter])
   }
@@ -79,11 +84,63 @@ export default function PrintersPage() {
     )
   }
 
+  const handleToggleBarCategory = (slug: string) => {
+    setBarCategories(prev =>
+      prev.includes(slug) ? prev.filter(c => c !== slug) : [...prev, slug]
+    )
+  }
+
+  const handleTestPrint = async (printer: PrinterConfig) => {
+    setTestingId(printer.id)
+    try {
+      const response = await fetch('/api/settings/printers/test', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ printer })
+      })
+      const result = await response.json()
+
+      if (!response.ok) {
+        throw new Error(result.error || 'Test print failed')
+      }
+      alert(`Halaman tes terkirim ke ${printer.name}`)
+    } catch (error) {
+      console.error('Error printing test page:', error)
+      alert(`Gagal mencetak tes: ${error instanceof Error ? error.message : 'Unknown error'}`)
+    } finally {
+      setTestingId(null)
+    }
+  }
+
   const handleSave = async () => {
+    const missingAddress = printers.find(p => p.enabled && !p.ipAddress.trim())
+    if (missingAddress) {
+      alert(`IP address ${missingAddress.name} belum diisi`)
+      return
+    }
+
     setIsSaving(true)
     try {
-      // TODO: Save to database
-      await new Promise(resolve => setTimeout(resolve, 1500))
+      if (!settingId) {
+        throw new Error('Printer setting not found')
+      }
+
+      const response = await fetch('/api/settings', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          id: settingId,
+          value: {
+            printers,
+            bar_categories: barCategories
+          }
+        })
+      })
+
+      if (!response.ok) {
+        const result = await response.json()
+        throw new Error(result.error || 'Failed to save')
+      }
 
       setShowSuccess(true)
       setTimeout(() => setShowSuccess(false), 3000)
@@ -119,6 +176,17 @@ export default function PrintersPage() {
     }
   }
 
+  if (isLoading) {
+    return (
+      <div className="min-h-screen bg-gradient-to-br from-gray-50 to-gray-100 flex items-center justify-center">
+        <div className="text-center">
+          <Loader2 className="h-12 w-12 animate-spin text-orange-600 mx-auto mb-4" />
+          <p className="text-gray-600">Loading settings...</p>
+        </div>
+      </div>
+    )
+  }
+
   return (
     <div className="min-h-screen bg-gradient-to-br from-gray-50 to-gray-100">
       {/* Header */}
@@ -230,6 +298,20 @@ export default function PrintersPage() {
                   </div>
 
                   <div className="flex items-center space-x-2">
+                    <button
+                      onClick={() => handleTestPrint(printer)}
+                      disabled={!printer.ipAddress || testingId === printer.id}
+                      className="px-3 py-2 text-sm border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 flex items-center space-x-1 disabled:opacity-50"
+                      title="Cetak halaman tes"
+                    >
+                      {testingId === printer.id ? (
+                        <Loader2 className="h-4 w-4 animate-spin" />
+                      ) : (
+                        <FileText className="h-4 w-4" />
+                      )}
+                      <span>Tes</span>
+                    </button>
+
                     <label className="relative inline-flex items-center cursor-pointer">
                       <input
                         type="checkbox"
@@ -278,6 +360,20 @@ export default function PrintersPage() {
                         placeholder="9100"
                       />
                     </div>
+
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700 mb-2">
+                        Lebar Kertas
+                      </label>
+                      <select
+                        value={printer.paperWidth || 80}
+                        onChange={(e) => handleChange(printer.id, 'paperWidth', Number(e.target.value))}
+                        className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-orange-500 focus:border-orange-500 text-sm text-gray-600"
+                      >
+                        <option value={58}>58 mm</option>
+                        <option value={80}>80 mm</option>
+                      </select>
+                    </div>
                   </div>
                 )}
               </div>
@@ -300,6 +396,36 @@ export default function PrintersPage() {
           )}
         </div>
 
+        {/* Kitchen / Bar Routing */}
+        {categories.length > 0 && (
+          <div className="mt-6 bg-white border-2 border-gray-200 rounded-xl p-6">
+            <h3 className="font-semibold text-gray-900 mb-1">Kategori ke Printer Bar</h3>
+            <p className="text-sm text-gray-600 mb-4">
+              Item dari kategori yang dipilih dicetak di bar, sisanya di kitchen.
+            </p>
+            <div className="flex flex-wrap gap-3">
+              {categories.map((category) => (
+                <label
+                  key={category.id}
+                  className={`flex items-center space-x-2 px-3 py-2 border rounded-lg cursor-pointer text-sm ${
+                    barCategories.includes(category.slug)
+                      ? 'bg-blue-50 border-blue-300 text-blue-800'
+                      : 'border-gray-300 text-gray-700'
+                  }`}
+                >
+                  <input
+                    type="checkbox"
+                    checked={barCategories.includes(category.slug)}
+                    onChange={() => handleToggleBarCategory(category.slug)}
+                    className="rounded text-orange-600 focus:ring-orange-500"
+                  />
+                  <span>{category.name}</span>
+                </label>
+              ))}
+            </div>
+          </div>
+        )}
+
         {/* Footer Info */}
         {printers.length > 0 && (
           <div className="mt-6 bg-gray-50 border border-gray-200 rounded-xl p-5">
@@ -307,11 +433,11 @@ export default function PrintersPage() {
             <ul className="space-y-2 text-sm text-gray-700">
               <li className="flex items-start">
                 <span className="font-bold text-orange-600 mr-2">•</span>
-                <span><strong>Kitchen Printer:</strong> Mencetak pesanan makanan ke dapur</span>
+                <span><strong>Kitchen Printer:</strong> Mencetak pesanan makanan ke dapur saat pembayaran dikonfirmasi</span>
               </li>
               <li className="flex items-start">
                 <span className="font-bold text-orange-600 mr-2">•</span>
-                <span><strong>Bar Printer:</strong> Mencetak pesanan minuman ke bar</span>
+                <span><strong>Bar Printer:</strong> Mencetak pesanan dari kategori bar (jika tidak ada, semua ke kitchen)</span>
               </li>
               <li className="flex items-start">
                 <span className="font-bold text-orange-600 mr-2">•</span>
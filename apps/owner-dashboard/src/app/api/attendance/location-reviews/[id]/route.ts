@@ -0,0 +1,35 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@supabase/supabase-js'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/lib/auth'
+import { reviewLocation } from '@/lib/attendance/geofences'
+import { apiErrorResponse } from '@/lib/api/errors'
+
+const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL!
+const supabaseServiceKey = process.env.SUPABASE_SERVICE_ROLE_KEY!
+
+const supabase = createClient(supabaseUrl, supabaseServiceKey)
+
+// PATCH - Approve or reject a punch: { status: 'approved' | 'rejected', review_notes? }
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session || session.user.role !== 'owner') {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const { id } = await params
+    const body = await request.json()
+    const review = await reviewLocation(supabase, id, body, session.user.id)
+
+    return NextResponse.json({ data: review })
+  } catch (error) {
+    return apiErrorResponse(error)
+  }
+}
@@ -0,0 +1,31 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@supabase/supabase-js'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/lib/auth'
+import { listLocationReviews } from '@/lib/attendance/geofences'
+import { apiErrorResponse } from '@/lib/api/errors'
+
+const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL!
+const supabaseServiceKey = process.env.SUPABASE_SERVICE_ROLE_KEY!
+
+const supabase = createClient(supabaseUrl, supabaseServiceKey)
+
+// GET - Suspicious punches; ?status=pending (default), approved, rejected or all
+export async function GET(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session || session.user.role !== 'owner') {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const { searchParams } = new URL(request.url)
+    const { reviews, pending } = await listLocationReviews(supabase, searchParams.get('status'))
+
+    return NextResponse.json({ data: reviews, pending })
+  } catch (error) {
+    return apiErrorResponse(error)
+  }
+}
@@ -1,6 +1,8 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { createClient } from '@supabase/supabase-js'
 import { sendAttendanceReminder } from '@/lib/telegram/bot'
+import { loadBusinessCalendar } from '@/lib/calendar/businessCalendar'
+import { todayBusinessDate } from '@cafe/utils/helpers/businessCalendar'
 
 const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL!
 const supabaseServiceKey = process.env.SUPABASE_SERVICE_ROLE_KEY!
@@ -25,7 +27,7 @@ export async function POST(request: NextRequest) {
       )
     }
 
-    const today = new Date().toISOString().split('T')[0]
+    const today = todayBusinessDate(await loadBusinessCalendar(supabase))
 
     // Get all active employees
     const { data: employees, error: empError } = await supabase
@@ -1,5 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { createClient } from '@supabase/supabase-js'
+import { loadBusinessCalendar } from '@/lib/calendar/businessCalendar'
+import { businessDateRange, todayBusinessDate } from '@cafe/utils/helpers/businessCalendar'
 
 const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL!
 const supabaseServiceKey = process.env.SUPABASE_SERVICE_ROLE_KEY!
@@ -10,16 +12,18 @@ const supabase = createClient(supabaseUrl, supabaseServiceKey)
 export async function GET(request: NextRequest) {
   try {
     const { searchParams } = new URL(request.url)
-    const date = searchParams.get('date') || new Date().toISOString().split('T')[0]
+    const calendar = await loadBusinessCalendar(supabase)
+    const date = searchParams.get('date') || todayBusinessDate(calendar)
+    const range = businessDateRange(date, date, calendar)
 
     console.log('Calculating expected cash for date:', date)
 
-    // Get all completed orders for the date with cash payment
+    // Get all completed orders for the business day with cash payment
     const { data: orders, error } = await supabase
       .from('orders')
       .select('total_amount, payment_method, status')
-      .gte('created_at', `${date}T00:00:00`)
-      .lte('created_at', `${date}T23:59:59`)
+      .gte('created_at', range.start)
+      .lt('created_at', range.end)
       .eq('payment_method', 'cash')
       .in('status', ['confirmed', 'preparing', 'ready', 'delivered', 'completed'])
 
@@ -51,6 +51,10 @@ export async function GET(
       position: employee.position,
       salary_type: employee.salary_type,
       salary_amount: parseFloat(employee.salary_amount || 0),
+      ptkp_status: employee.ptkp_status,
+      npwp: employee.npwp,
+      bpjs_kesehatan_enrolled: employee.bpjs_kesehatan_enrolled,
+      bpjs_ketenagakerjaan_enrolled: employee.bpjs_ketenagakerjaan_enrolled,
       telegram_chat_id: employee.telegram_chat_id,
       is_active: employee.employment_status === 'active',
       hire_date: employee.join_date,
@@ -82,6 +86,10 @@ export async function PATCH(
       position,
       salary_type,
       salary_amount,
+      ptkp_status,
+      npwp,
+      bpjs_kesehatan_enrolled,
+      bpjs_ketenagakerjaan_enrolled,
       telegram_chat_id,
       is_active,
       hire_date
@@ -97,6 +105,10 @@ export async function PATCH(
         position,
         salary_type,
         salary_amount,
+        ptkp_status,
+        npwp,
+        bpjs_kesehatan_enrolled,
+        bpjs_ketenagakerjaan_enrolled,
         telegram_chat_id: telegram_chat_id || null,
         telegram_notifications_enabled: !!telegram_chat_id,
         employment_status: is_active !== false ? 'active' : 'inactive',
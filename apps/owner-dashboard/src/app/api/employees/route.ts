@@ -94,6 +94,10 @@ export async function POST(request: NextRequest) {
       position,
       salary_type,
       salary_amount,
+      ptkp_status,
+      npwp,
+      bpjs_kesehatan_enrolled,
+      bpjs_ketenagakerjaan_enrolled,
       telegram_chat_id,
       is_active,
       hire_date
@@ -229,6 +233,10 @@ export async function POST(request: NextRequest) {
         position,
         salary_type,
         salary_amount,
+        ptkp_status,
+        npwp,
+        bpjs_kesehatan_enrolled,
+        bpjs_ketenagakerjaan_enrolled,
         telegram_chat_id: telegram_chat_id || null,
         telegram_notifications_enabled: !!telegram_chat_id,
         employment_status: is_active !== false ? 'active' : 'inactive',
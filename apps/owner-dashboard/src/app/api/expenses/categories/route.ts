@@ -0,0 +1,50 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@supabase/supabase-js'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/lib/auth'
+import { listExpenseCategories, saveExpenseCategory } from '@/lib/finance/expenses'
+import { apiErrorResponse } from '@/lib/api/errors'
+
+const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL!
+const supabaseServiceKey = process.env.SUPABASE_SERVICE_ROLE_KEY!
+
+const supabase = createClient(supabaseUrl, supabaseServiceKey)
+
+// GET - All expense categories with their monthly budgets
+export async function GET() {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session || session.user.role !== 'owner') {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const categories = await listExpenseCategories(supabase)
+
+    return NextResponse.json({ data: categories })
+  } catch (error) {
+    return apiErrorResponse(error)
+  }
+}
+
+// POST - Create a category: { name, description?, budget_amount? }
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session || session.user.role !== 'owner') {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const body = await request.json()
+    const category = await saveExpenseCategory(supabase, body)
+
+    return NextResponse.json({ data: category }, { status: 201 })
+  } catch (error) {
+    return apiErrorResponse(error)
+  }
+}
@@ -0,0 +1,32 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@supabase/supabase-js'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/lib/auth'
+import { uploadReceipt } from '@/lib/finance/expenses'
+import { apiErrorResponse } from '@/lib/api/errors'
+
+const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL!
+const supabaseServiceKey = process.env.SUPABASE_SERVICE_ROLE_KEY!
+
+const supabase = createClient(supabaseUrl, supabaseServiceKey)
+
+// POST - Upload a receipt photo (multipart field "file"); returns the path
+// to save as the expense's receipt_url
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session || session.user.role !== 'owner') {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const formData = await request.formData()
+    const path = await uploadReceipt(supabase, formData.get('file') as File | null)
+
+    return NextResponse.json({ data: { path } }, { status: 201 })
+  } catch (error) {
+    return apiErrorResponse(error)
+  }
+}
@@ -0,0 +1,50 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@supabase/supabase-js'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/lib/auth'
+import { listRecurringExpenses, saveRecurringExpense } from '@/lib/finance/expenses'
+import { apiErrorResponse } from '@/lib/api/errors'
+
+const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL!
+const supabaseServiceKey = process.env.SUPABASE_SERVICE_ROLE_KEY!
+
+const supabase = createClient(supabaseUrl, supabaseServiceKey)
+
+// GET - Recurring expenses, active first
+export async function GET() {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session || session.user.role !== 'owner') {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const recurring = await listRecurringExpenses(supabase)
+
+    return NextResponse.json({ data: recurring })
+  } catch (error) {
+    return apiErrorResponse(error)
+  }
+}
+
+// POST - Create: { category_id, amount, description, day_of_month, start_date?, end_date? }
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session || session.user.role !== 'owner') {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const body = await request.json()
+    const recurring = await saveRecurringExpense(supabase, body, session.user.id || null)
+
+    return NextResponse.json({ data: recurring }, { status: 201 })
+  } catch (error) {
+    return apiErrorResponse(error)
+  }
+}
@@ -0,0 +1,54 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@supabase/supabase-js'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/lib/auth'
+import { createExpense, listExpenses } from '@/lib/finance/expenses'
+import { parsePeriod } from '@/lib/finance/profitLoss'
+import { loadBusinessCalendar } from '@/lib/calendar/businessCalendar'
+import { apiErrorResponse } from '@/lib/api/errors'
+
+const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL!
+const supabaseServiceKey = process.env.SUPABASE_SERVICE_ROLE_KEY!
+
+const supabase = createClient(supabaseUrl, supabaseServiceKey)
+
+// GET - Expenses for ?month=YYYY-MM (or ?start=&end=), optional ?category_id=
+export async function GET(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session || session.user.role !== 'owner') {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const { searchParams } = request.nextUrl
+    const period = parsePeriod(searchParams, await loadBusinessCalendar(supabase))
+    const expenses = await listExpenses(supabase, period.start_date, period.end_date, searchParams.get('category_id'))
+
+    return NextResponse.json({ data: expenses, period })
+  } catch (error) {
+    return apiErrorResponse(error)
+  }
+}
+
+// POST - Record an expense: { category_id, amount, description, date, receipt_url? }
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session || session.user.role !== 'owner') {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const body = await request.json()
+    const expense = await createExpense(supabase, body, session.user.id || null)
+
+    return NextResponse.json({ data: expense }, { status: 201 })
+  } catch (error) {
+    return apiErrorResponse(error)
+  }
+}
@@ -0,0 +1,65 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@supabase/supabase-js'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/lib/auth'
+import { adjustLoyaltyPoints, loadCustomerLedger } from '@/lib/loyalty/loyaltyLedger'
+import { apiErrorResponse } from '@/lib/api/errors'
+
+const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL!
+const supabaseServiceKey = process.env.SUPABASE_SERVICE_ROLE_KEY!
+
+const supabase = createClient(supabaseUrl, supabaseServiceKey)
+
+// GET - One customer's points ledger, newest first
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ phone: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session || session.user.role !== 'owner') {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const { phone } = await params
+    const ledger = await loadCustomerLedger(supabase, decodeURIComponent(phone))
+
+    return NextResponse.json({ data: ledger })
+  } catch (error) {
+    return apiErrorResponse(error)
+  }
+}
+
+// POST - Manual adjustment: { points, reason }; negative points deduct
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ phone: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session || session.user.role !== 'owner') {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const { phone } = await params
+    const { points, reason } = await request.json()
+
+    const balance = await adjustLoyaltyPoints(
+      supabase,
+      decodeURIComponent(phone),
+      points,
+      reason,
+      session.user.id || null
+    )
+
+    return NextResponse.json({ data: { balance } })
+  } catch (error) {
+    return apiErrorResponse(error)
+  }
+}
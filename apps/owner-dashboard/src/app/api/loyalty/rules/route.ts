@@ -0,0 +1,49 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@supabase/supabase-js'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/lib/auth'
+import { loadLoyaltyRules, saveLoyaltyRules } from '@/lib/loyalty/loyaltyLedger'
+import { apiErrorResponse } from '@/lib/api/errors'
+
+const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL!
+const supabaseServiceKey = process.env.SUPABASE_SERVICE_ROLE_KEY!
+
+const supabase = createClient(supabaseUrl, supabaseServiceKey)
+
+// GET - Current earn/redeem/expiry rules
+export async function GET() {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session || session.user.role !== 'owner') {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const rules = await loadLoyaltyRules(supabase)
+    return NextResponse.json({ data: rules })
+  } catch (error) {
+    return apiErrorResponse(error)
+  }
+}
+
+// PUT - Update the rules; fields left out keep their current value
+export async function PUT(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session || session.user.role !== 'owner') {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const body = await request.json()
+    const rules = await saveLoyaltyRules(supabase, body)
+
+    return NextResponse.json({ data: rules })
+  } catch (error) {
+    return apiErrorResponse(error)
+  }
+}
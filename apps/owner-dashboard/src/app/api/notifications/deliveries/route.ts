@@ -0,0 +1,34 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@supabase/supabase-js'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/lib/auth'
+import { listDeliveries } from '@/lib/telegram/deliveries'
+import { apiErrorResponse } from '@/lib/api/errors'
+
+const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL!
+const supabaseServiceKey = process.env.SUPABASE_SERVICE_ROLE_KEY!
+
+const supabase = createClient(supabaseUrl, supabaseServiceKey)
+
+// GET - Scheduled notification history (?status=failed&limit=100)
+export async function GET(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session || session.user.role !== 'owner') {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const { searchParams } = new URL(request.url)
+    const { deliveries, counts } = await listDeliveries(supabase, {
+      status: searchParams.get('status'),
+      limit: Number(searchParams.get('limit')) || undefined
+    })
+
+    return NextResponse.json({ data: deliveries, counts })
+  } catch (error) {
+    return apiErrorResponse(error)
+  }
+}
@@ -0,0 +1,53 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@supabase/supabase-js'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/lib/auth'
+import {
+  listQuietHours,
+  setQuietHours
+} from '@/lib/telegram/deliveries'
+import { apiErrorResponse } from '@/lib/api/errors'
+
+const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL!
+const supabaseServiceKey = process.env.SUPABASE_SERVICE_ROLE_KEY!
+
+const supabase = createClient(supabaseUrl, supabaseServiceKey)
+
+// GET - Quiet hours per chat and the chats they can be set for
+export async function GET() {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session || session.user.role !== 'owner') {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const { entries, recipients } = await listQuietHours(supabase)
+
+    return NextResponse.json({ data: entries, recipients })
+  } catch (error) {
+    return apiErrorResponse(error)
+  }
+}
+
+// PUT - Set a chat's quiet hours { chat_id, recipient_name, start_time, end_time }
+export async function PUT(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session || session.user.role !== 'owner') {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const body = await request.json()
+    const entry = await setQuietHours(supabase, body)
+
+    return NextResponse.json({ data: entry })
+  } catch (error) {
+    return apiErrorResponse(error)
+  }
+}
@@ -0,0 +1,68 @@
+import { NextRequest, NextResponse, after } from 'next/server'
+import { createClient } from '@supabase/supabase-js'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/lib/auth'
+import { printOrder } from '@/lib/printing/printOrders'
+import { reviewBillShare, type BillShareAction } from '@/lib/orders/billShares'
+import { apiErrorResponse } from '@/lib/api/errors'
+
+const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL!
+const supabaseServiceKey = process.env.SUPABASE_SERVICE_ROLE_KEY!
+
+const supabase = createClient(supabaseUrl, supabaseServiceKey)
+
+const ACTIONS: BillShareAction[] = ['verify', 'reject']
+
+// Verify or reject one share of a split bill: { action, notes? }
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; shareId: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const { id, shareId } = await params
+    const { action, notes } = await request.json()
+
+    if (!ACTIONS.includes(action)) {
+      return NextResponse.json(
+        { error: `Invalid action: ${action}. Valid actions: ${ACTIONS.join(', ')}` },
+        { status: 400 }
+      )
+    }
+
+    const { share, orderConfirmed } = await reviewBillShare(
+      supabase,
+      id,
+      shareId,
+      action,
+      session.user.id || null,
+      notes
+    )
+
+    // Last share verified: print like approving a single payment
+    if (orderConfirmed) {
+      after(async () => {
+        try {
+          const results = await printOrder(supabase, id, { receipt: true, tickets: true })
+          const failed = results.filter(result => !result.success)
+          if (failed.length > 0) {
+            console.error('Some print jobs failed:', failed)
+          }
+        } catch (printError) {
+          console.error('Error printing order:', printError)
+        }
+      })
+    }
+
+    return NextResponse.json({ data: share, order_confirmed: orderConfirmed })
+  } catch (error) {
+    return apiErrorResponse(error)
+  }
+}
@@ -1,5 +1,7 @@
-import { NextRequest, NextResponse } from 'next/server'
+import { NextRequest, NextResponse, after } from 'next/server'
 import { createClient } from '@supabase/supabase-js'
+import { printOrder } from '@/lib/printing/printOrders'
+import { areBillSharesSettled } from '@/lib/orders/billShares'
 
 const supabase = createClient(
   process.env.NEXT_PUBLIC_SUPABASE_URL!,
@@ -32,6 +34,14 @@ export async function POST(request: NextRequest) {
       )
     }
 
+    // A split bill is only paid once every share has been verified
+    if (status === 'confirmed' && !(await areBillSharesSettled(supabase, orderId))) {
+      return NextResponse.json(
+        { error: 'This bill is split. Verify every share before approving the order.' },
+        { status: 409 }
+      )
+    }
+
     console.log('Updating order:', orderId, 'to status:', status)
 
     // Update order status and payment status
@@ -102,6 +112,22 @@ export async function POST(request: NextRequest) {
       // Not critical, continue
     }
 
+    // Payment confirmed: kitchen/bar tickets and the customer receipt are
+    // printed after responding so a slow printer does not block approval
+    if (status === 'confirmed') {
+      after(async () => {
+        try {
+          const results = await printOrder(supabase, orderId, { receipt: true, tickets: true })
+          const failed = results.filter(result => !result.success)
+          if (failed.length > 0) {
+            console.error('Some print jobs failed:', failed)
+          }
+        } catch (printError) {
+          console.error('Error printing order:', printError)
+        }
+      })
+    }
+
     // Update table status if order is completed
     if (status === 'completed' && data.table_id) {
       try {
@@ -1,5 +1,12 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { createClient } from '@supabase/supabase-js'
+import {
+  PAYROLL_EMPLOYEE_COLUMNS,
+  generateEmployeePayroll,
+  getPayrollPeriod,
+  loadPayrollSettings
+} from '@/lib/payroll/payrollGenerator'
+import { apiErrorResponse } from '@/lib/api/errors'
 
 const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL!
 const supabaseServiceKey = process.env.SUPABASE_SERVICE_ROLE_KEY!
@@ -8,7 +15,7 @@ const supabase = createClient(supabaseUrl, supabaseServiceKey)
 export async function POST(request: NextRequest) {
   try {
     const body = await request.json()
-    const { employee_id, month, year } = body
+    const { employee_id, month, year, allowances, bonus } = body
 
     if (!employee_id || !month || !year) {
       return NextResponse.json(
@@ -36,7 +43,7 @@ export async function POST(request: NextRequest) {
     // Get employee data
     const { data: employee, error: empError } = await supabase
       .from('employees')
-      .select('*')
+      .select(PAYROLL_EMPLOYEE_COLUMNS)
       .eq('id', employee_id)
       .single()
 
@@ -44,76 +51,18 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({ error: 'Employee not found' }, { status: 404 })
     }
 
-    // Calculate period dates
-    const periodStart = new Date(parseInt(year), parseInt(month) - 1, 1)
-    const periodEnd = new Date(parseInt(year), parseInt(month), 0)
-    const totalDays = periodEnd.getDate()
-
-    // Get attendance data for the period
-    const { data: attendances } = await supabase
-      .from('attendance')
-      .select('*')
-      .eq('employee_id', employee_id)
-      .gte('date', periodStart.toISOString().split('T')[0])
-      .lte('date', periodEnd.toISOString().split('T')[0])
-
-    // Calculate attendance stats
-    const presentDays = attendances?.length || 0
-    const totalWorkHours = attendances?.reduce((sum, att) => sum + (att.work_hours || 0), 0) || 0
-    const overtimeHours = attendances?.reduce((sum, att) => {
-      const regularHours = 8
-      const workHours = att.work_hours || 0
-      return sum + Math.max(0, workHours - regularHours)
-    }, 0) || 0
-
-    // Calculate salary components
-    const basicSalary = parseFloat(employee.salary_amount) || 0
-    const overtimeRate = employee.overtime_rate || 1.5
-    const hourlyRate = employee.salary_type === 'hourly'
-      ? basicSalary
-      : employee.salary_type === 'daily'
-      ? basicSalary / 8
-      : basicSalary / (totalDays * 8)
-
-    const overtimePay = overtimeHours * hourlyRate * overtimeRate
-
-    // Calculate deductions for absent days
-    const absentDays = totalDays - presentDays
-    const dailyRate = employee.salary_type === 'daily'
-      ? basicSalary
-      : basicSalary / totalDays
-    const absenceDeduction = absentDays * dailyRate
-
-    // Calculate gross and net salary
-    const grossSalary = basicSalary + overtimePay
-    const totalDeductions = absenceDeduction
-    const netSalary = grossSalary - totalDeductions
+    // Statutory payroll: BPJS, PPh 21 (TER / December true-up), Depnaker overtime
+    const period = getPayrollPeriod(parseInt(month), parseInt(year))
+    const settings = await loadPayrollSettings(supabase)
+    const { record } = await generateEmployeePayroll(supabase, employee, period, settings, {
+      allowances: Number(allowances) || 0,
+      bonus: Number(bonus) || 0
+    })
 
     // Create payroll record
     const { data: payroll, error: payrollError } = await supabase
       .from('payroll')
-      .insert({
-        employee_id,
-        month: month.toString(),
-        year: year.toString(),
-        period_start: periodStart.toISOString().split('T')[0],
-        period_end: periodEnd.toISOString().split('T')[0],
-        total_days: totalDays,
-        present_days: presentDays,
-        absent_days: absentDays,
-        regular_hours: totalWorkHours - overtimeHours,
-        overtime_hours: overtimeHours,
-        basic_salary: basicSalary,
-        overtime_pay: overtimePay,
-        gross_salary: grossSalary,
-        absence_deduction: absenceDeduction,
-        total_deductions: totalDeductions,
-        net_salary: netSalary,
-        payment_method: 'transfer',
-        payment_status: 'pending',
-        created_at: new Date().toISOString(),
-        updated_at: new Date().toISOString()
-      })
+      .insert(record)
       .select()
       .single()
 
@@ -123,11 +72,7 @@ export async function POST(request: NextRequest) {
     }
 
     return NextResponse.json({ payroll }, { status: 201 })
-  } catch (error: any) {
-    console.error('API error:', error)
-    return NextResponse.json(
-      { error: error.message || 'Internal server error' },
-      { status: 500 }
-    )
+  } catch (error) {
+    return apiErrorResponse(error)
   }
 }
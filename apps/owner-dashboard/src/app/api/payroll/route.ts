@@ -1,12 +1,20 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { createClient } from '@supabase/supabase-js'
 import { sendPayrollNotification } from '@/lib/telegram/bot'
+import {
+  PAYROLL_EMPLOYEE_COLUMNS,
+  generateEmployeePayroll,
+  getPayrollPeriod,
+  loadPayrollSettings
+} from '@/lib/payroll/payrollGenerator'
 
 const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL!
 const supabaseServiceKey = process.env.SUPABASE_SERVICE_ROLE_KEY!
 
 const supabase = createClient(supabaseUrl, supabaseServiceKey)
 
+const LATE_PENALTY_PER_DAY = 50000 // Rp 50k per late day
+
 // GET - Fetch payroll records
 export async function GET(request: NextRequest) {
   try {
@@ -87,11 +95,8 @@ export async function POST(request: NextRequest) {
     let employeesQuery = supabase
       .from('employees')
       .select(`
-        id,
-        full_name,
+        ${PAYROLL_EMPLOYEE_COLUMNS},
         position,
-        salary_type,
-        salary_amount,
         telegram_chat_id,
         telegram_notifications_enabled
       `)
@@ -115,77 +120,33 @@ export async function POST(request: NextRequest) {
       )
     }
 
+    const period = {
+      ...getPayrollPeriod(parseInt(month), parseInt(year)),
+      periodStart: period_start,
+      periodEnd: period_end
+    }
+    const settings = await loadPayrollSettings(supabase)
+
     const payrollRecords = []
     const notificationResults = []
 
     for (const employee of employees) {
-      // Calculate salary components
-      const basicSalary = parseFloat(employee.salary_amount || '0')
-
-      // Get attendance for this period
-      const { data: attendances } = await supabase
-        .from('attendance')
-        .select('*')
-        .eq('employee_id', employee.id)
-        .gte('date', period_start)
-        .lte('date', period_end)
-
-      const presentDays = attendances?.filter(a => a.status === 'present').length || 0
-      const lateDays = attendances?.filter(a => a.status === 'late').length || 0
-      const absentDays = attendances?.filter(a => a.status === 'absent').length || 0
-
-      // Get overtime for this period
-      const { data: overtimes } = await supabase
-        .from('overtime_requests')
-        .select('overtime_hours, overtime_pay')
-        .eq('employee_id', employee.id)
-        .eq('status', 'approved')
-        .gte('date', period_start)
-        .lte('date', period_end)
-
-      const overtimePay = overtimes?.reduce(
-        (sum, ot) => sum + parseFloat(ot.overtime_pay || '0'),
-        0
-      ) || 0
-
-      const overtimeHours = overtimes?.reduce(
-        (sum, ot) => sum + parseFloat(ot.overtime_hours || '0'),
-        0
-      ) || 0
-
-      // Calculate deductions (example: late penalty)
-      const lateDeduction = lateDays * 50000 // Rp 50k per late
-      const absenceDeduction = absentDays * 200000 // Rp 200k per absent
-      const totalDeductions = lateDeduction + absenceDeduction
-
-      const grossSalary = basicSalary + overtimePay
-      const netSalary = grossSalary - totalDeductions
+      let generated
+      try {
+        generated = await generateEmployeePayroll(supabase, employee, period, settings, {
+          latePenaltyPerDay: LATE_PENALTY_PER_DAY
+        })
+      } catch (generateError) {
+        console.error(`Error calculating payroll for ${employee.full_name}:`, generateError)
+        continue
+      }
+
+      const { record, breakdown } = generated
 
       // Create payroll record
       const { data: payroll, error: payrollError } = await supabase
         .from('payroll')
-        .insert({
-          employee_id: employee.id,
-          month: month.toString(),
-          year: year.toString(),
-          period_start,
-          period_end,
-          present_days: presentDays,
-          absent_days: absentDays,
-          late_days: lateDays,
-          overtime_hours: overtimeHours,
-          basic_salary: basicSalary,
-          overtime_pay: overtimePay,
-          gross_salary: grossSalary,
-          late_deduction: lateDeduction,
-          absence_deduction: absenceDeduction,
-          total_deductions: totalDeductions,
-          net_salary: netSalary,
-          payment_status: 'pending',
-          payment_method: 'transfer',
-          generated_at: new Date().toISOString(),
-          created_at: new Date().toISOString()
-        })
+        .insert(record)
         .select()
         .single()
 
@@ -204,10 +165,10 @@ export async function POST(request: NextRequest) {
             employee.full_name,
             period_start,
             period_end,
-            basicSalary,
-            overtimePay,
-            totalDeductions,
-            netSalary
+            breakdown.basicSalary,
+            breakdown.overtime.pay,
+            breakdown.totalDeductions,
+            breakdown.netSalary
           )
           notificationResults.push({ employee_id: employee.id, sent })
         } catch (notifError) {
@@ -0,0 +1,48 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@supabase/supabase-js'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/lib/auth'
+import { printOrder } from '@/lib/printing/printOrders'
+import { apiErrorResponse } from '@/lib/api/errors'
+
+const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL!
+const supabaseServiceKey = process.env.SUPABASE_SERVICE_ROLE_KEY!
+
+const supabase = createClient(supabaseUrl, supabaseServiceKey)
+
+// POST - Print an order's receipt and/or kitchen and bar tickets
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session || session.user.role !== 'owner') {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const body = await request.json()
+    const { order_id, receipt = true, tickets = true, reprint = false } = body
+
+    if (!order_id) {
+      return NextResponse.json(
+        { error: 'order_id is required' },
+        { status: 400 }
+      )
+    }
+
+    const results = await printOrder(supabase, order_id, {
+      receipt: receipt === true,
+      tickets: tickets === true,
+      reprint: reprint === true
+    })
+
+    const failed = results.filter(result => !result.success)
+    return NextResponse.json(
+      { data: results, ...(failed.length > 0 && { error: `${failed.length} printer(s) failed` }) },
+      { status: failed.length === results.length ? 502 : 200 }
+    )
+  } catch (error) {
+    return apiErrorResponse(error)
+  }
+}
@@ -1,5 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { createClient } from '@supabase/supabase-js'
+import { loadBusinessCalendar } from '@/lib/calendar/businessCalendar'
+import { businessDate } from '@cafe/utils/helpers/businessCalendar'
 
 const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL!
 const supabaseServiceKey = process.env.SUPABASE_SERVICE_ROLE_KEY!
@@ -61,8 +63,9 @@ export async function GET(
     const thirtyDaysAgo = new Date()
     thirtyDaysAgo.setDate(thirtyDaysAgo.getDate() - 30)
 
+    const calendar = await loadBusinessCalendar(supabase)
     const usageByDate = transformedUsageData?.reduce((acc: any, usage) => {
-      const date = new Date(usage.used_at).toISOString().split('T')[0]
+      const date = businessDate(usage.used_at, calendar)
       if (!acc[date]) {
         acc[date] = {
           date,
@@ -63,6 +63,11 @@ export async function PUT(
       return NextResponse.json({ error: 'Promo not found' }, { status: 404 })
     }
 
+    // Customers type codes in any case; they are matched uppercase
+    if (typeof body.code === 'string') {
+      body.code = body.code.trim().toUpperCase() || null
+    }
+
     // If updating code, check if new code already exists
     if (body.code) {
       const { data: codeExists } = await supabase
@@ -54,7 +54,7 @@ export async function POST(request: NextRequest) {
     const body = await request.json()
     const {
       name,
-      code,
+      code: rawCode,
       description,
       promo_type,
       discount_value,
@@ -81,6 +81,9 @@ export async function POST(request: NextRequest) {
       excluded_promos
     } = body
 
+    // Customers type codes in any case; they are matched uppercase
+    const code = typeof rawCode === 'string' ? rawCode.trim().toUpperCase() : rawCode
+
     console.log('Creating promo...', { name, code, promo_type })
 
     // Validate required fields
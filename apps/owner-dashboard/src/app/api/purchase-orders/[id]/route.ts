@@ -0,0 +1,128 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@supabase/supabase-js'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/lib/auth'
+import {
+  getPurchaseOrderHeader,
+  updateDraftPurchaseOrder
+} from '@/lib/purchasing/purchaseOrders'
+import { apiErrorResponse } from '@/lib/api/errors'
+
+const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL!
+const supabaseServiceKey = process.env.SUPABASE_SERVICE_ROLE_KEY!
+
+const supabase = createClient(supabaseUrl, supabaseServiceKey)
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session || session.user.role !== 'owner') {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const { id } = await params
+
+    const { data, error } = await supabase
+      .from('purchase_orders')
+      .select(`
+        *,
+        supplier:suppliers(*),
+        items:purchase_order_items(
+          *,
+          ingredient:ingredients(id, name, unit, current_stock, unit_cost),
+          batches:stock_batches(id, batch_number, initial_quantity, remaining_quantity, unit_cost, received_date, expiry_date)
+        )
+      `)
+      .eq('id', id)
+      .single()
+
+    if (error) {
+      console.error('Supabase error:', error)
+      return NextResponse.json(
+        { error: error.code === 'PGRST116' ? 'Purchase order not found' : error.message },
+        { status: error.code === 'PGRST116' ? 404 : 500 }
+      )
+    }
+
+    return NextResponse.json({ data })
+  } catch (error) {
+    console.error('API error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
+
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session || session.user.role !== 'owner') {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const { id } = await params
+    const body = await request.json()
+
+    const data = await updateDraftPurchaseOrder(supabase, id, body)
+
+    return NextResponse.json({ data })
+  } catch (error) {
+    return apiErrorResponse(error)
+  }
+}
+
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session || session.user.role !== 'owner') {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const { id } = await params
+    const po = await getPurchaseOrderHeader(supabase, id)
+
+    // Sent orders are kept for the audit trail, cancel them instead
+    if (po.status !== 'draft') {
+      return NextResponse.json(
+        { error: 'Only draft purchase orders can be deleted' },
+        { status: 409 }
+      )
+    }
+
+    const { error } = await supabase
+      .from('purchase_orders')
+      .delete()
+      .eq('id', id)
+
+    if (error) {
+      console.error('Supabase error:', error)
+      return NextResponse.json(
+        { error: error.message },
+        { status: 500 }
+      )
+    }
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    return apiErrorResponse(error)
+  }
+}
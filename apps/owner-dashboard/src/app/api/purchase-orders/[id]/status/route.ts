@@ -0,0 +1,52 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@supabase/supabase-js'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/lib/auth'
+import {
+  updatePurchaseOrderStatus,
+  PO_STATUS_TRANSITIONS,
+  type PurchaseOrderStatus
+} from '@/lib/purchasing/purchaseOrders'
+import { apiErrorResponse } from '@/lib/api/errors'
+
+const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL!
+const supabaseServiceKey = process.env.SUPABASE_SERVICE_ROLE_KEY!
+
+const supabase = createClient(supabaseUrl, supabaseServiceKey)
+
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session || session.user.role !== 'owner') {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const { id } = await params
+    const { status, reason } = await request.json()
+
+    if (!status || !(status in PO_STATUS_TRANSITIONS)) {
+      return NextResponse.json(
+        { error: 'Invalid status' },
+        { status: 400 }
+      )
+    }
+
+    const data = await updatePurchaseOrderStatus(
+      supabase,
+      id,
+      status as PurchaseOrderStatus,
+      session.user.id,
+      reason
+    )
+
+    return NextResponse.json({ data })
+  } catch (error) {
+    return apiErrorResponse(error)
+  }
+}
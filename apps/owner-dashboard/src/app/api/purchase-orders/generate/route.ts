@@ -0,0 +1,42 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@supabase/supabase-js'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/lib/auth'
+import { generateDraftPurchaseOrders } from '@/lib/purchasing/reorderGenerator'
+import { apiErrorResponse } from '@/lib/api/errors'
+
+const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL!
+const supabaseServiceKey = process.env.SUPABASE_SERVICE_ROLE_KEY!
+
+const supabase = createClient(supabaseUrl, supabaseServiceKey)
+
+// POST /api/purchase-orders/generate - create draft POs from reorder suggestions
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session || session.user.role !== 'owner') {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const body = await request.json().catch(() => ({}))
+
+    if (Array.isArray(body.ingredient_ids) && body.ingredient_ids.length === 0) {
+      return NextResponse.json(
+        { error: 'Select at least one ingredient' },
+        { status: 400 }
+      )
+    }
+
+    const data = await generateDraftPurchaseOrders(supabase, {
+      ingredient_ids: body.ingredient_ids,
+      quantities: body.quantities
+    }, session.user.id)
+
+    return NextResponse.json({ data }, { status: 201 })
+  } catch (error) {
+    return apiErrorResponse(error)
+  }
+}
@@ -0,0 +1,99 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@supabase/supabase-js'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/lib/auth'
+import { createPurchaseOrder } from '@/lib/purchasing/purchaseOrders'
+import { apiErrorResponse } from '@/lib/api/errors'
+
+const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL!
+const supabaseServiceKey = process.env.SUPABASE_SERVICE_ROLE_KEY!
+
+const supabase = createClient(supabaseUrl, supabaseServiceKey)
+
+export async function GET(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session || session.user.role !== 'owner') {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const searchParams = request.nextUrl.searchParams
+    const status = searchParams.get('status')
+    const supplier_id = searchParams.get('supplier_id')
+    const search = searchParams.get('search')
+
+    let query = supabase
+      .from('purchase_orders')
+      .select(`
+        *,
+        supplier:suppliers(id, company_name, contact_person, phone_primary),
+        items:purchase_order_items(
+          *,
+          ingredient:ingredients(id, name, unit)
+        )
+      `)
+      .order('created_at', { ascending: false })
+
+    if (status && status !== 'all') {
+      query = query.eq('status', status)
+    }
+
+    if (supplier_id) {
+      query = query.eq('supplier_id', supplier_id)
+    }
+
+    if (search) {
+      query = query.ilike('po_number', `%${search}%`)
+    }
+
+    const { data, error } = await query
+
+    if (error) {
+      console.error('Supabase error:', error)
+      return NextResponse.json(
+        { error: error.message },
+        { status: 500 }
+      )
+    }
+
+    return NextResponse.json({ data })
+  } catch (error) {
+    console.error('API error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session || session.user.role !== 'owner') {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const body = await request.json()
+
+    // Totals are recalculated server-side from the items
+    const po = await createPurchaseOrder(supabase, {
+      supplier_id: body.supplier_id,
+      order_date: body.order_date,
+      expected_delivery: body.expected_delivery,
+      delivery_fee: body.delivery_fee,
+      discount_amount: body.discount_amount,
+      notes: body.notes,
+      items: body.items
+    }, session.user.id)
+
+    return NextResponse.json({ data: po }, { status: 201 })
+  } catch (error) {
+    return apiErrorResponse(error)
+  }
+}
@@ -0,0 +1,38 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@supabase/supabase-js'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/lib/auth'
+import { buildReorderPlan } from '@/lib/purchasing/reorderGenerator'
+
+const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL!
+const supabaseServiceKey = process.env.SUPABASE_SERVICE_ROLE_KEY!
+
+const supabase = createClient(supabaseUrl, supabaseServiceKey)
+
+// GET /api/purchase-orders/suggestions - reorder suggestions grouped by supplier
+export async function GET(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session || session.user.role !== 'owner') {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const searchParams = request.nextUrl.searchParams
+    const ingredient_ids = searchParams.get('ingredient_ids')
+
+    const data = await buildReorderPlan(supabase, {
+      ingredient_ids: ingredient_ids ? ingredient_ids.split(',') : undefined
+    })
+
+    return NextResponse.json({ data })
+  } catch (error) {
+    console.error('API error:', error)
+    return NextResponse.json(
+      { error: 'Failed to build reorder suggestions' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,125 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@supabase/supabase-js'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/lib/auth'
+
+const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL!
+const supabaseServiceKey = process.env.SUPABASE_SERVICE_ROLE_KEY!
+
+const supabase = createClient(supabaseUrl, supabaseServiceKey)
+
+interface SupplierVariance {
+  supplier_id: string
+  supplier_name: string
+  purchase_orders: number
+  lines: number
+  short_lines: number
+  over_lines: number
+  ordered_value: number
+  received_value: number
+  price_variance: number
+  fill_rate: number // received / ordered quantity across lines, percent
+  lines_detail: any[]
+}
+
+// GET /api/purchase-orders/variance - received vs ordered per supplier
+export async function GET(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session || session.user.role !== 'owner') {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const searchParams = request.nextUrl.searchParams
+    const supplier_id = searchParams.get('supplier_id')
+    const start_date = searchParams.get('start_date')
+    const end_date = searchParams.get('end_date')
+
+    let query = supabase
+      .from('purchase_order_line_variance')
+      .select('*')
+      .order('order_date', { ascending: false })
+
+    if (supplier_id) {
+      query = query.eq('supplier_id', supplier_id)
+    }
+
+    if (start_date) {
+      query = query.gte('order_date', start_date)
+    }
+
+    if (end_date) {
+      query = query.lte('order_date', end_date)
+    }
+
+    const { data, error } = await query
+
+    if (error) {
+      console.error('Supabase error:', error)
+      return NextResponse.json(
+        { error: error.message },
+        { status: 500 }
+      )
+    }
+
+    const suppliers = new Map<string, SupplierVariance & { po_ids: Set<string>; ordered_qty: number; received_qty: number }>()
+
+    for (const line of data || []) {
+      const key = line.supplier_id || 'unknown'
+      let entry = suppliers.get(key)
+      if (!entry) {
+        entry = {
+          supplier_id: key,
+          supplier_name: line.supplier_name || 'Unknown supplier',
+          purchase_orders: 0,
+          lines: 0,
+          short_lines: 0,
+          over_lines: 0,
+          ordered_value: 0,
+          received_value: 0,
+          price_variance: 0,
+          fill_rate: 0,
+          lines_detail: [],
+          po_ids: new Set(),
+          ordered_qty: 0,
+          received_qty: 0
+        }
+        suppliers.set(key, entry)
+      }
+
+      const quantityVariance = Number(line.quantity_variance)
+      entry.po_ids.add(line.purchase_order_id)
+      entry.lines += 1
+      if (quantityVariance < 0) entry.short_lines += 1
+      if (quantityVariance > 0) entry.over_lines += 1
+      entry.ordered_value += Number(line.ordered_value) || 0
+      entry.received_value += Number(line.received_value) || 0
+      entry.price_variance += Number(line.price_variance) || 0
+      entry.ordered_qty += Number(line.ordered_quantity) || 0
+      entry.received_qty += Number(line.received_quantity) || 0
+      entry.lines_detail.push(line)
+    }
+
+    const result: SupplierVariance[] = Array.from(suppliers.values())
+      .map(({ po_ids, ordered_qty, received_qty, ...entry }) => ({
+        ...entry,
+        purchase_orders: po_ids.size,
+        ordered_value: Math.round(entry.ordered_value * 100) / 100,
+        received_value: Math.round(entry.received_value * 100) / 100,
+        price_variance: Math.round(entry.price_variance * 100) / 100,
+        fill_rate: ordered_qty > 0 ? Math.round((received_qty / ordered_qty) * 1000) / 10 : 0
+      }))
+      .sort((a, b) => a.fill_rate - b.fill_rate)
+
+    return NextResponse.json({ data: result })
+  } catch (error) {
+    console.error('API error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
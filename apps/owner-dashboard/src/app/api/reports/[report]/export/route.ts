@@ -0,0 +1,41 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@supabase/supabase-js'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/lib/auth'
+import { exportReport, parseReportType } from '@/lib/reports/exportReport'
+import { apiErrorResponse } from '@/lib/api/errors'
+
+const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL!
+const supabaseServiceKey = process.env.SUPABASE_SERVICE_ROLE_KEY!
+
+const supabase = createClient(supabaseUrl, supabaseServiceKey)
+
+// GET - Download the sales, financial, inventory or employee report as ?format=csv|xlsx|pdf
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ report: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session || session.user.role !== 'owner') {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const { report } = await params
+    const { searchParams } = new URL(request.url)
+    const file = await exportReport(supabase, parseReportType(report), searchParams)
+
+    return new NextResponse(file.body, {
+      headers: {
+        'Content-Type': file.contentType,
+        'Content-Disposition': `attachment; filename="${file.fileName}"`,
+        'Cache-Control': 'no-store'
+      }
+    })
+  } catch (error) {
+    return apiErrorResponse(error)
+  }
+}
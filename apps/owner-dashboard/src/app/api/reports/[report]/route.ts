@@ -0,0 +1,25 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@supabase/supabase-js'
+import { buildReport, parseReportType } from '@/lib/reports/exportReport'
+import { apiErrorResponse } from '@/lib/api/errors'
+
+const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL!
+const supabaseServiceKey = process.env.SUPABASE_SERVICE_ROLE_KEY!
+
+const supabase = createClient(supabaseUrl, supabaseServiceKey)
+
+// GET - Fetch the sales, financial, inventory or employee report
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ report: string }> }
+) {
+  try {
+    const { report } = await params
+    const { searchParams } = new URL(request.url)
+    const data = await buildReport(supabase, parseReportType(report), searchParams)
+
+    return NextResponse.json({ data })
+  } catch (error) {
+    return apiErrorResponse(error)
+  }
+}
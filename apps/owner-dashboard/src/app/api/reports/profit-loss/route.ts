@@ -0,0 +1,33 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@supabase/supabase-js'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/lib/auth'
+import { loadBusinessCalendar } from '@/lib/calendar/businessCalendar'
+import { loadProfitAndLoss, parsePeriod } from '@/lib/finance/profitLoss'
+import { apiErrorResponse } from '@/lib/api/errors'
+
+const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL!
+const supabaseServiceKey = process.env.SUPABASE_SERVICE_ROLE_KEY!
+
+const supabase = createClient(supabaseUrl, supabaseServiceKey)
+
+// GET - Profit & loss for ?month=YYYY-MM or ?start=YYYY-MM-DD&end=YYYY-MM-DD
+export async function GET(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session || session.user.role !== 'owner') {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const calendar = await loadBusinessCalendar(supabase)
+    const period = parsePeriod(request.nextUrl.searchParams, calendar)
+    const statement = await loadProfitAndLoss(supabase, period.start_date, period.end_date, calendar)
+
+    return NextResponse.json({ data: statement })
+  } catch (error) {
+    return apiErrorResponse(error)
+  }
+}
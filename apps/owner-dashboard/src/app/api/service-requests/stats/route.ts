@@ -0,0 +1,34 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@supabase/supabase-js'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/lib/auth'
+import { getServiceResponseStats } from '@/lib/orders/serviceRequests'
+import { apiErrorResponse } from '@/lib/api/errors'
+
+const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL!
+const supabaseServiceKey = process.env.SUPABASE_SERVICE_ROLE_KEY!
+
+const supabase = createClient(supabaseUrl, supabaseServiceKey)
+
+// GET - Requests handled and average response time per employee (?start=&end= ISO)
+export async function GET(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session || session.user.role !== 'owner') {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const { searchParams } = new URL(request.url)
+    const end = searchParams.get('end') || new Date().toISOString()
+    const start = searchParams.get('start') || new Date(Date.parse(end) - 30 * 24 * 60 * 60 * 1000).toISOString()
+
+    const stats = await getServiceResponseStats(supabase, start, end)
+
+    return NextResponse.json({ data: stats })
+  } catch (error) {
+    return apiErrorResponse(error)
+  }
+}
@@ -0,0 +1,53 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@supabase/supabase-js'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/lib/auth'
+import {
+  loadBusinessCalendar,
+  saveBusinessCalendar
+} from '@/lib/calendar/businessCalendar'
+import { apiErrorResponse } from '@/lib/api/errors'
+
+const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL!
+const supabaseServiceKey = process.env.SUPABASE_SERVICE_ROLE_KEY!
+
+const supabase = createClient(supabaseUrl, supabaseServiceKey)
+
+// GET - Cafe time zone and day cutoff
+export async function GET() {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session || session.user.role !== 'owner') {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const calendar = await loadBusinessCalendar(supabase)
+
+    return NextResponse.json({ data: calendar })
+  } catch (error) {
+    return apiErrorResponse(error)
+  }
+}
+
+// PUT - Update time_zone and/or day_cutoff
+export async function PUT(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session || session.user.role !== 'owner') {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const body = await request.json()
+    const calendar = await saveBusinessCalendar(supabase, body)
+
+    return NextResponse.json({ data: calendar })
+  } catch (error) {
+    return apiErrorResponse(error)
+  }
+}
@@ -0,0 +1,57 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@supabase/supabase-js'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/lib/auth'
+import {
+  createDevice,
+  listDevices,
+  listStaffPins
+} from '@/lib/devices/devices'
+import { apiErrorResponse } from '@/lib/api/errors'
+
+const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL!
+const supabaseServiceKey = process.env.SUPABASE_SERVICE_ROLE_KEY!
+
+const supabase = createClient(supabaseUrl, supabaseServiceKey)
+
+// GET - Tablets with their active session, plus which staff have a PIN
+export async function GET() {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session || session.user.role !== 'owner') {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const [devices, staff] = await Promise.all([
+      listDevices(supabase),
+      listStaffPins(supabase)
+    ])
+
+    return NextResponse.json({ data: devices, staff })
+  } catch (error) {
+    return apiErrorResponse(error)
+  }
+}
+
+// POST - Register a tablet: { device_name, device_type, location? }
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session || session.user.role !== 'owner') {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const body = await request.json()
+    const device = await createDevice(supabase, body)
+
+    return NextResponse.json({ data: device }, { status: 201 })
+  } catch (error) {
+    return apiErrorResponse(error)
+  }
+}
@@ -0,0 +1,58 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@supabase/supabase-js'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/lib/auth'
+import { setStaffPin } from '@/lib/devices/devices'
+import { apiErrorResponse } from '@/lib/api/errors'
+
+const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL!
+const supabaseServiceKey = process.env.SUPABASE_SERVICE_ROLE_KEY!
+
+const supabase = createClient(supabaseUrl, supabaseServiceKey)
+
+// PUT - Set the staff member's tablet PIN: { pin }
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ employeeId: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session || session.user.role !== 'owner') {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const { employeeId } = await params
+    const body = await request.json()
+    await setStaffPin(supabase, employeeId, typeof body.pin === 'string' ? body.pin : '')
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    return apiErrorResponse(error)
+  }
+}
+
+// DELETE - Remove the PIN; the staff member can no longer sign in on tablets
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ employeeId: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session || session.user.role !== 'owner') {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const { employeeId } = await params
+    await setStaffPin(supabase, employeeId, null)
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    return apiErrorResponse(error)
+  }
+}
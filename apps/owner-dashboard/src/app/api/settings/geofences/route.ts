@@ -0,0 +1,53 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@supabase/supabase-js'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/lib/auth'
+import {
+  loadGeofenceSettings,
+  saveGeofenceSettings
+} from '@/lib/attendance/geofences'
+import { apiErrorResponse } from '@/lib/api/errors'
+
+const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL!
+const supabaseServiceKey = process.env.SUPABASE_SERVICE_ROLE_KEY!
+
+const supabase = createClient(supabaseUrl, supabaseServiceKey)
+
+// GET - Attendance zones and GPS thresholds, plus the zones in effect
+export async function GET() {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session || session.user.role !== 'owner') {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const { settings, effective } = await loadGeofenceSettings(supabase)
+
+    return NextResponse.json({ data: settings, effective })
+  } catch (error) {
+    return apiErrorResponse(error)
+  }
+}
+
+// PUT - Replace zones, max_accuracy_meters and max_speed_kmh
+export async function PUT(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session || session.user.role !== 'owner') {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const body = await request.json()
+    const settings = await saveGeofenceSettings(supabase, body)
+
+    return NextResponse.json({ data: settings })
+  } catch (error) {
+    return apiErrorResponse(error)
+  }
+}
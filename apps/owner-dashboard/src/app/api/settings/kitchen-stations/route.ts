@@ -0,0 +1,53 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@supabase/supabase-js'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/lib/auth'
+import {
+  loadKitchenStationSettings,
+  saveKitchenStationSettings
+} from '@/lib/kitchen/stations'
+import { apiErrorResponse } from '@/lib/api/errors'
+
+const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL!
+const supabaseServiceKey = process.env.SUPABASE_SERVICE_ROLE_KEY!
+
+const supabase = createClient(supabaseUrl, supabaseServiceKey)
+
+// GET - Kitchen stations and the menu categories to route to them
+export async function GET() {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session || session.user.role !== 'owner') {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const { settings, categories } = await loadKitchenStationSettings(supabase)
+
+    return NextResponse.json({ data: settings, categories })
+  } catch (error) {
+    return apiErrorResponse(error)
+  }
+}
+
+// PUT - Replace stations and default_station
+export async function PUT(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session || session.user.role !== 'owner') {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const body = await request.json()
+    const settings = await saveKitchenStationSettings(supabase, body)
+
+    return NextResponse.json({ data: settings })
+  } catch (error) {
+    return apiErrorResponse(error)
+  }
+}
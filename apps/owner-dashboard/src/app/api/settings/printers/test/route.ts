@@ -0,0 +1,38 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/lib/auth'
+import { parsePrinterSettings } from '@cafe/utils/printing'
+import { printTestPage } from '@/lib/printing/printOrders'
+import { apiErrorResponse } from '@/lib/api/errors'
+
+// POST - Send a test page to a printer from the settings form
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session || session.user.role !== 'owner') {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const body = await request.json()
+    const [printer] = parsePrinterSettings({ printers: [{ ...body.printer, enabled: true }] }).printers
+
+    if (!printer) {
+      return NextResponse.json(
+        { error: 'printer is required' },
+        { status: 400 }
+      )
+    }
+
+    const result = await printTestPage(printer)
+
+    return NextResponse.json(
+      result.success ? { data: result } : { data: result, error: result.error },
+      { status: result.success ? 200 : 502 }
+    )
+  } catch (error) {
+    return apiErrorResponse(error)
+  }
+}
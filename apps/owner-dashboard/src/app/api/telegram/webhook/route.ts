@@ -0,0 +1,201 @@
+import { NextRequest, NextResponse, after } from 'next/server'
+import { createClient } from '@supabase/supabase-js'
+import {
+  parseTelegramCommand,
+  verifyTelegramAction
+} from '@cafe/utils/helpers/telegramActions'
+import {
+  answerCallbackQuery,
+  editTelegramMessage,
+  sendTelegramMessage
+} from '@/lib/telegram/bot'
+import { TelegramActionError, applyTelegramAction } from '@/lib/telegram/approvals'
+import {
+  helpMessage,
+  runTelegramCommand,
+  type TelegramChatIdentity
+} from '@/lib/telegram/commands'
+import { printOrder } from '@/lib/printing/printOrders'
+
+const supabase = createClient(
+  process.env.NEXT_PUBLIC_SUPABASE_URL!,
+  process.env.SUPABASE_SERVICE_ROLE_KEY!
+)
+
+// Sent by Telegram on every update, set with setWebhook's secret_token
+const TELEGRAM_WEBHOOK_SECRET = process.env.TELEGRAM_WEBHOOK_SECRET || ''
+// Signs the approval buttons, see @cafe/utils/helpers/telegramActions
+const TELEGRAM_CALLBACK_SECRET = process.env.TELEGRAM_CALLBACK_SECRET || ''
+
+const escapeHtml = (text: string) => text
+  .replace(/&/g, '&amp;')
+  .replace(/</g, '&lt;')
+  .replace(/>/g, '&gt;')
+
+/**
+ * The owner (system setting owner_telegram_chat_id) or the active employee
+ * linked to a chat, or null for chats nobody linked
+ */
+async function resolveChatIdentity(chatId: string): Promise<TelegramChatIdentity | null> {
+  const [{ data: ownerSettings }, { data: employee }] = await Promise.all([
+    supabase
+      .from('system_settings')
+      .select('value')
+      .eq('key', 'owner_telegram_chat_id')
+      .maybeSingle(),
+    supabase
+      .from('employees')
+      .select('id, full_name')
+      .eq('telegram_chat_id', chatId)
+      .eq('status', 'active')
+      .limit(1)
+      .maybeSingle()
+  ])
+
+  if (ownerSettings?.value && String(ownerSettings.value) === chatId) {
+    return { kind: 'owner' }
+  }
+  if (employee) {
+    return { kind: 'employee', employeeId: employee.id, name: employee.full_name }
+  }
+  return null
+}
+
+/**
+ * Whether a Telegram user is the owner: system setting
+ * owner_telegram_user_id, else owner_telegram_chat_id, which is the owner's
+ * user id when it is their private chat with the bot
+ */
+async function isOwnerTelegramUser(userId: string): Promise<boolean> {
+  const { data: settings } = await supabase
+    .from('system_settings')
+    .select('key, value')
+    .in('key', ['owner_telegram_user_id', 'owner_telegram_chat_id'])
+
+  const values = new Map((settings || []).map(setting => [setting.key, setting.value]))
+  const ownerUserId = values.get('owner_telegram_user_id') || values.get('owner_telegram_chat_id')
+
+  return !!ownerUserId && String(ownerUserId) === userId
+}
+
+async function handleCallbackQuery(callbackQuery: any): Promise<void> {
+  const message = callbackQuery.message
+  const chatId = message?.chat?.id !== undefined ? String(message.chat.id) : ''
+
+  const action = chatId
+    ? await verifyTelegramAction(callbackQuery.data, chatId, TELEGRAM_CALLBACK_SECRET)
+    : null
+  if (!action) {
+    await answerCallbackQuery(callbackQuery.id, 'Tombol tidak valid atau sudah kedaluwarsa', true)
+    return
+  }
+
+  // The button was signed for this chat, which must still be the owner's,
+  // and pressed by the owner, not another member of a group chat
+  const fromId = callbackQuery.from?.id !== undefined ? String(callbackQuery.from.id) : ''
+  const [identity, pressedByOwner] = await Promise.all([
+    resolveChatIdentity(chatId),
+    fromId ? isOwnerTelegramUser(fromId) : Promise.resolve(false)
+  ])
+  if (identity?.kind !== 'owner' || !pressedByOwner) {
+    await answerCallbackQuery(callbackQuery.id, 'Hanya owner yang dapat menyetujui pengajuan', true)
+    return
+  }
+
+  // Transfer proofs are sent as photos, their text is the caption
+  const isCaption = message.text === undefined && message.caption !== undefined
+  const originalText = escapeHtml(message.text || message.caption || '')
+
+  try {
+    const result = await applyTelegramAction(supabase, action)
+
+    await Promise.all([
+      answerCallbackQuery(callbackQuery.id, result.message),
+      editTelegramMessage(
+        chatId,
+        message.message_id,
+        `${originalText}\n\n<b>${escapeHtml(result.message)}</b>`,
+        isCaption
+      )
+    ])
+
+    // Same as approving from the live orders page
+    if (result.printOrderId) {
+      const orderId = result.printOrderId
+      after(async () => {
+        try {
+          const results = await printOrder(supabase, orderId, { receipt: true, tickets: true })
+          const failed = results.filter(job => !job.success)
+          if (failed.length > 0) {
+            console.error('Some print jobs failed:', failed)
+          }
+        } catch (printError) {
+          console.error('Error printing order:', printError)
+        }
+      })
+    }
+  } catch (error) {
+    if (error instanceof TelegramActionError) {
+      await answerCallbackQuery(callbackQuery.id, error.message, true)
+      // Already decided elsewhere: the buttons are of no further use
+      if (error.status === 409) {
+        await editTelegramMessage(
+          chatId,
+          message.message_id,
+          `${originalText}\n\n<i>${escapeHtml(error.message)}</i>`,
+          isCaption
+        )
+      }
+      return
+    }
+    console.error('Error applying Telegram action:', error)
+    await answerCallbackQuery(callbackQuery.id, 'Terjadi kesalahan, coba lagi dari dashboard', true)
+  }
+}
+
+async function handleMessage(message: any): Promise<void> {
+  const command = parseTelegramCommand(message.text)
+  if (!command || message.chat?.id === undefined) return
+
+  const chatId = String(message.chat.id)
+  const identity = await resolveChatIdentity(chatId)
+
+  if (!identity) {
+    await sendTelegramMessage(
+      chatId,
+      `Chat ini belum terhubung ke akun mana pun.\n\nBerikan ID chat <code>${chatId}</code> kepada owner untuk didaftarkan.`
+    )
+    return
+  }
+
+  try {
+    const reply = await runTelegramCommand(supabase, command.command, identity)
+    await sendTelegramMessage(chatId, reply || helpMessage(identity))
+  } catch (error) {
+    console.error(`Error running Telegram command /${command.command}:`, error)
+    await sendTelegramMessage(chatId, 'Terjadi kesalahan, coba lagi nanti.')
+  }
+}
+
+// POST - Telegram bot updates: commands and approval button presses
+export async function POST(request: NextRequest) {
+  if (!TELEGRAM_WEBHOOK_SECRET || request.headers.get('x-telegram-bot-api-secret-token') !== TELEGRAM_WEBHOOK_SECRET) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  }
+
+  try {
+    const update = await request.json()
+
+    if (update.callback_query) {
+      await handleCallbackQuery(update.callback_query)
+    } else if (update.message) {
+      await handleMessage(update.message)
+    }
+  } catch (error) {
+    // Telegram redelivers an update until it gets a 200, so failures are
+    // logged instead of returned
+    console.error('Error handling Telegram update:', error)
+  }
+
+  return NextResponse.json({ ok: true })
+}
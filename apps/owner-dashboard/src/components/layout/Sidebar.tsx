@@ -21,7 +21,10 @@ import {
   Receipt,
   FileText,
   Calendar,
-  Clock
+  Clock,
+  Award,
+  Wallet,
+  MapPin
 } from 'lucide-react'
 import { useAuth } from '@/hooks/useAuth'
 
@@ -91,6 +94,12 @@ const sidebarItems: SidebarItem[] = [
     icon: Clock,
     href: '/overtime-requests'
   },
+  {
+    id: 'location-reviews',
+    label: 'Location Reviews',
+    icon: MapPin,
+    href: '/location-reviews'
+  },
   {
     id: 'payroll',
     label: 'Payroll',
@@ -107,7 +116,8 @@ const sidebarItems: SidebarItem[] = [
       { id: 'analytics-sales', label: 'Sales Analytics', icon: DollarSign, href: '/analytics/sales' },
       { id: 'analytics-customers', label: 'Customer Analytics', icon: Users, href: '/analytics/customers' },
       { id: 'analytics-finance', label: 'Financial Reports', icon: Receipt, href: '/analytics/finance' },
-      { id: 'analytics-staff', label: 'Employee Performance', icon: Users, href: '/analytics/staff' }
+      { id: 'analytics-staff', label: 'Employee Performance', icon: Users, href: '/analytics/staff' },
+      { id: 'analytics-kitchen', label: 'Kitchen Performance', icon: Clock, href: '/analytics/staff/kitchen' }
     ]
   },
   {
@@ -116,12 +126,24 @@ const sidebarItems: SidebarItem[] = [
     icon: Percent,
     href: '/promos'
   },
+  {
+    id: 'loyalty',
+    label: 'Loyalty Points',
+    icon: Award,
+    href: '/loyalty'
+  },
   {
     id: 'cash-reconciliation',
     label: 'Cash Management',
     icon: DollarSign,
     href: '/cash-reconciliation'
   },
+  {
+    id: 'expenses',
+    label: 'Expenses',
+    icon: Wallet,
+    href: '/expenses'
+  },
   {
     id: 'reports',
     label: 'Reports',
@@ -0,0 +1,37 @@
+/**
+ * API errors
+ *
+ * Base of the errors the lib modules throw for an API route to pass on to
+ * the dashboard (GeofenceError, ReportError, ...), and the response every
+ * route builds from whatever it caught.
+ */
+
+import { NextResponse } from 'next/server'
+
+export class ApiError extends Error {
+  constructor(message: string, public status: number = 400) {
+    super(message)
+    this.name = 'ApiError'
+  }
+}
+
+/**
+ * ApiErrors go out with their message and status; anything else is logged
+ * and answered with a 500
+ */
+export function apiErrorResponse(error: unknown) {
+  if (error instanceof ApiError) {
+    if (error.status >= 500) {
+      console.error('API error:', error)
+    }
+    return NextResponse.json(
+      { error: error.message },
+      { status: error.status }
+    )
+  }
+  console.error('API error:', error)
+  return NextResponse.json(
+    { error: 'Internal server error' },
+    { status: 500 }
+  )
+}
@@ -0,0 +1,266 @@
+/**
+ * Attendance geofences and location reviews
+ *
+ * Allowed clock-in zones and GPS thresholds live in the
+ * `attendance/geofences` system setting (064_attendance_geofences); punches
+ * are judged against them by evaluatePunch in @cafe/utils/validators/geofence.
+ * Punches that were accepted but look suspicious are queued in
+ * `attendance_location_reviews` for the owner. Rejecting a clock-in marks
+ * the day absent, so it is not paid.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js'
+import {
+  normalizeGeofenceSettings,
+  parseGeofenceZone,
+  type GeofenceFlag,
+  type GeofenceSettings,
+  type GeofenceZone
+} from '@cafe/utils/validators/geofence'
+import { ApiError } from '@/lib/api/errors'
+
+export type LocationReviewStatus = 'pending' | 'approved' | 'rejected'
+
+const REVIEW_STATUSES: LocationReviewStatus[] = ['pending', 'approved', 'rejected']
+
+export interface LocationReview {
+  id: string
+  attendance_id: string
+  employee_id: string
+  punch: 'clock_in' | 'clock_out'
+  latitude: number
+  longitude: number
+  accuracy_meters: number | null
+  punched_at: string
+  zone_id: string | null
+  zone_name: string | null
+  distance_meters: number | null
+  outside_meters: number | null
+  flags: GeofenceFlag[]
+  status: LocationReviewStatus
+  reviewed_by: string | null
+  reviewed_at: string | null
+  review_notes: string | null
+  created_at: string
+  employee?: { id: string; full_name: string; employee_code: string | null; position: string | null } | null
+  attendance?: { id: string; date: string; status: string } | null
+}
+
+export class GeofenceError extends ApiError {
+  name = 'GeofenceError'
+}
+
+// ===========================================
+// SETTINGS
+// ===========================================
+
+async function loadSettingValue(supabase: SupabaseClient, category: string, key: string): Promise<unknown> {
+  const { data, error } = await supabase
+    .from('system_settings')
+    .select('value')
+    .eq('category', category)
+    .eq('key', key)
+    .maybeSingle()
+
+  if (error) {
+    throw new GeofenceError(error.message, 500)
+  }
+  return data?.value
+}
+
+/**
+ * Saved zones and thresholds; `zones` is empty while the cafe/location
+ * circle is the only zone, which `effective` then shows
+ */
+export async function loadGeofenceSettings(supabase: SupabaseClient): Promise<{
+  settings: GeofenceSettings
+  effective: GeofenceSettings
+}> {
+  const [raw, location] = await Promise.all([
+    loadSettingValue(supabase, 'attendance', 'geofences'),
+    loadSettingValue(supabase, 'cafe', 'location')
+  ])
+
+  return {
+    settings: normalizeGeofenceSettings(raw),
+    effective: normalizeGeofenceSettings(raw, location)
+  }
+}
+
+export async function saveGeofenceSettings(supabase: SupabaseClient, input: any): Promise<GeofenceSettings> {
+  const rawZones: unknown[] = Array.isArray(input?.zones) ? input.zones : []
+  const zones: GeofenceZone[] = []
+  const ids = new Set<string>()
+
+  rawZones.forEach((raw, index) => {
+    const zone = parseGeofenceZone(raw, index)
+    if (!zone) {
+      throw new GeofenceError(
+        `Area ${index + 1} tidak valid: lingkaran butuh titik pusat dan radius, poligon butuh minimal 3 titik`
+      )
+    }
+    if (ids.has(zone.id)) {
+      throw new GeofenceError(`ID area "${zone.id}" dipakai lebih dari sekali`)
+    }
+    ids.add(zone.id)
+    zones.push(zone)
+  })
+
+  const maxAccuracy = Number(input?.max_accuracy_meters)
+  const maxSpeed = Number(input?.max_speed_kmh)
+  if (!Number.isFinite(maxAccuracy) || maxAccuracy <= 0) {
+    throw new GeofenceError('Batas akurasi GPS harus lebih dari 0 meter')
+  }
+  if (!Number.isFinite(maxSpeed) || maxSpeed <= 0) {
+    throw new GeofenceError('Batas kecepatan harus lebih dari 0 km/jam')
+  }
+
+  const settings: GeofenceSettings = {
+    zones,
+    max_accuracy_meters: maxAccuracy,
+    max_speed_kmh: maxSpeed
+  }
+
+  const { error } = await supabase
+    .from('system_settings')
+    .upsert({
+      category: 'attendance',
+      key: 'geofences',
+      value: settings,
+      updated_at: new Date().toISOString()
+    }, { onConflict: 'category,key' })
+
+  if (error) {
+    throw new GeofenceError(error.message, 500)
+  }
+  return settings
+}
+
+// ===========================================
+// REVIEW QUEUE
+// ===========================================
+
+const REVIEW_SELECT = `
+  *,
+  employee:employees!employee_id (
+    id,
+    full_name,
+    employee_code,
+    position
+  ),
+  attendance:attendance!attendance_id (
+    id,
+    date,
+    status
+  )
+`
+
+export async function listLocationReviews(
+  supabase: SupabaseClient,
+  status: string | null
+): Promise<{ reviews: LocationReview[]; pending: number }> {
+  if (status && status !== 'all' && !REVIEW_STATUSES.includes(status as LocationReviewStatus)) {
+    throw new GeofenceError(`Status harus salah satu dari: all, ${REVIEW_STATUSES.join(', ')}`)
+  }
+
+  let query = supabase
+    .from('attendance_location_reviews')
+    .select(REVIEW_SELECT)
+    .order('created_at', { ascending: false })
+    .limit(200)
+
+  if (status !== 'all') {
+    query = query.eq('status', status || 'pending')
+  }
+
+  const [{ data, error }, { count }] = await Promise.all([
+    query,
+    supabase
+      .from('attendance_location_reviews')
+      .select('id', { count: 'exact', head: true })
+      .eq('status', 'pending')
+  ])
+
+  if (error) {
+    throw new GeofenceError(error.message, 500)
+  }
+
+  return { reviews: (data || []) as LocationReview[], pending: count || 0 }
+}
+
+/**
+ * Approve or reject a queued punch and roll the result up to the day:
+ * rejected if any of its punches is rejected, pending while one waits
+ */
+export async function reviewLocation(
+  supabase: SupabaseClient,
+  id: string,
+  input: { status?: string; review_notes?: string | null },
+  reviewerId: string
+): Promise<LocationReview> {
+  if (input.status !== 'approved' && input.status !== 'rejected') {
+    throw new GeofenceError('Status harus approved atau rejected')
+  }
+
+  const { data: review, error: fetchError } = await supabase
+    .from('attendance_location_reviews')
+    .select('id, attendance_id, punch, status')
+    .eq('id', id)
+    .maybeSingle()
+
+  if (fetchError) {
+    throw new GeofenceError(fetchError.message, 500)
+  }
+  if (!review) {
+    throw new GeofenceError('Review lokasi tidak ditemukan', 404)
+  }
+  if (review.status !== 'pending') {
+    throw new GeofenceError(`Review lokasi sudah ${review.status}`, 409)
+  }
+
+  const { data: updated, error: updateError } = await supabase
+    .from('attendance_location_reviews')
+    .update({
+      status: input.status,
+      reviewed_by: reviewerId,
+      reviewed_at: new Date().toISOString(),
+      review_notes: input.review_notes?.trim() || null
+    })
+    .eq('id', id)
+    .eq('status', 'pending')
+    .select(REVIEW_SELECT)
+    .maybeSingle()
+
+  if (updateError) {
+    throw new GeofenceError(updateError.message, 500)
+  }
+  if (!updated) {
+    throw new GeofenceError('Review lokasi sudah diproses', 409)
+  }
+
+  const { data: siblings } = await supabase
+    .from('attendance_location_reviews')
+    .select('status')
+    .eq('attendance_id', review.attendance_id)
+
+  const statuses = (siblings || []).map(sibling => sibling.status as LocationReviewStatus)
+  const dayStatus: LocationReviewStatus = statuses.includes('rejected')
+    ? 'rejected'
+    : statuses.includes('pending') ? 'pending' : 'approved'
+
+  const { error: attendanceError } = await supabase
+    .from('attendance')
+    .update({
+      location_review_status: dayStatus,
+      // A clock-in from a fake location means the employee was not there
+      ...(input.status === 'rejected' && review.punch === 'clock_in' ? { status: 'absent' } : {}),
+      updated_at: new Date().toISOString()
+    })
+    .eq('id', review.attendance_id)
+
+  if (attendanceError) {
+    throw new GeofenceError(attendanceError.message, 500)
+  }
+
+  return updated as LocationReview
+}
@@ -0,0 +1,78 @@
+/**
+ * Business calendar setting
+ *
+ * The cafe's time zone and day cutoff from the `cafe/business_calendar`
+ * system setting (063_business_calendar). Every date filter and daily
+ * grouping in analytics, reports, cash reconciliation and payroll goes
+ * through the helpers in @cafe/utils/helpers/businessCalendar with this
+ * calendar. The setting is public, so the browser client can read it too.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js'
+import {
+  CAFE_TIME_ZONES,
+  MAX_DAY_CUTOFF,
+  normalizeBusinessCalendar,
+  type BusinessCalendar
+} from '@cafe/utils/helpers/businessCalendar'
+import { ApiError } from '@/lib/api/errors'
+
+export class BusinessCalendarError extends ApiError {
+  name = 'BusinessCalendarError'
+}
+
+/**
+ * The stored calendar, or the default (WIB, midnight) when it cannot be read
+ */
+export async function loadBusinessCalendar(supabase: SupabaseClient): Promise<BusinessCalendar> {
+  const { data, error } = await supabase
+    .from('system_settings')
+    .select('value')
+    .eq('category', 'cafe')
+    .eq('key', 'business_calendar')
+    .maybeSingle()
+
+  if (error) {
+    console.error('Error loading business calendar:', error)
+  }
+
+  return normalizeBusinessCalendar(data?.value)
+}
+
+export async function saveBusinessCalendar(supabase: SupabaseClient, input: unknown): Promise<BusinessCalendar> {
+  if (!input || typeof input !== 'object') {
+    throw new BusinessCalendarError('Business calendar is required')
+  }
+
+  const { time_zone: timeZone, day_cutoff: dayCutoff } = input as Record<string, unknown>
+
+  if (timeZone !== undefined && (typeof timeZone !== 'string' || !(timeZone in CAFE_TIME_ZONES))) {
+    throw new BusinessCalendarError('Time zone must be Asia/Jakarta (WIB), Asia/Makassar (WITA) or Asia/Jayapura (WIT)')
+  }
+
+  if (dayCutoff !== undefined && (typeof dayCutoff !== 'string' || !/^\d{2}:\d{2}$/.test(dayCutoff) || dayCutoff > MAX_DAY_CUTOFF)) {
+    throw new BusinessCalendarError(`Day cutoff must be a time between 00:00 and ${MAX_DAY_CUTOFF}`)
+  }
+
+  const calendar = normalizeBusinessCalendar({
+    ...(await loadBusinessCalendar(supabase)),
+    ...(input as object)
+  })
+
+  const { error } = await supabase
+    .from('system_settings')
+    .upsert({
+      category: 'cafe',
+      key: 'business_calendar',
+      value: calendar,
+      description: 'Business day: cafe time zone (Asia/Jakarta, Asia/Makassar or Asia/Jayapura) and the local time (up to 06:00) at which the day rolls over',
+      is_public: true,
+      updated_at: new Date().toISOString()
+    }, { onConflict: 'category,key' })
+
+  if (error) {
+    throw new BusinessCalendarError(`Failed to save business calendar: ${error.message}`, 500)
+  }
+
+  return calendar
+}
@@ -0,0 +1,299 @@
+/**
+ * Staff tablets and their sessions
+ *
+ * Tablets are paired with a short-lived code from the dashboard and then
+ * hold one role-scoped token each (065_device_pairing). Tokens expire and
+ * can be revoked here; staff sharing a tablet sign in on it with a PIN.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { ApiError } from '@/lib/api/errors'
+
+export type DeviceRole = 'kasir' | 'dapur' | 'pelayan' | 'stok'
+
+export const DEVICE_ROLES: DeviceRole[] = ['kasir', 'dapur', 'pelayan', 'stok']
+
+// Pairing codes are meant to be typed in right away
+const PAIRING_CODE_TTL_MINUTES = 10
+
+export interface DeviceSessionSummary {
+  id: string
+  login_at: string
+  expires_at: string
+  last_seen_at: string | null
+  employee_login_at: string | null
+  employee: { id: string; full_name: string } | null
+}
+
+export interface Device {
+  id: string
+  device_code: string
+  device_type: DeviceRole
+  device_name: string
+  location: string | null
+  device_model: string | null
+  app_version: string | null
+  is_active: boolean
+  last_active: string | null
+  created_at: string
+  session: DeviceSessionSummary | null
+}
+
+export interface StaffPin {
+  id: string
+  full_name: string
+  position: string
+  has_pin: boolean
+}
+
+export class DeviceError extends ApiError {
+  name = 'DeviceError'
+}
+
+const DEVICE_RPC_ERRORS: Record<string, string> = {
+  DEVICE_NOT_FOUND: 'Perangkat tidak ditemukan',
+  DEVICE_PIN_FORMAT: 'PIN harus 4 sampai 6 angka',
+  EMPLOYEE_NOT_FOUND: 'Karyawan tidak ditemukan'
+}
+
+function deviceRpcError(error: { message: string }): DeviceError {
+  const message = DEVICE_RPC_ERRORS[error.message]
+  return message
+    ? new DeviceError(message, error.message === 'DEVICE_PIN_FORMAT' ? 400 : 404)
+    : new DeviceError(error.message, 500)
+}
+
+// ===========================================
+// DEVICES
+// ===========================================
+
+const DEVICE_COLUMNS = 'id, device_code, device_type, device_name, location, device_model, app_version, is_active, last_active, created_at'
+
+export async function listDevices(supabase: SupabaseClient): Promise<Device[]> {
+  const [{ data: devices, error }, { data: sessions, error: sessionError }] = await Promise.all([
+    supabase
+      .from('device_accounts')
+      .select(DEVICE_COLUMNS)
+      .order('device_type', { ascending: true })
+      .order('device_code', { ascending: true }),
+    supabase
+      .from('device_sessions')
+      .select(`
+        id,
+        device_id,
+        login_at,
+        expires_at,
+        last_seen_at,
+        employee_login_at,
+        employee:employees!employee_id (
+          id,
+          full_name
+        )
+      `)
+      .is('revoked_at', null)
+      .not('token_hash', 'is', null)
+      .gt('expires_at', new Date().toISOString())
+  ])
+
+  if (error || sessionError) {
+    throw new DeviceError((error || sessionError)!.message, 500)
+  }
+
+  const sessionByDevice = new Map<string, DeviceSessionSummary>()
+  for (const { device_id, ...session } of (sessions || []) as any[]) {
+    sessionByDevice.set(device_id, session)
+  }
+
+  return (devices || []).map(device => ({
+    ...device,
+    session: sessionByDevice.get(device.id) || null
+  })) as Device[]
+}
+
+export async function createDevice(
+  supabase: SupabaseClient,
+  input: { device_name?: string; device_type?: string; location?: string | null }
+): Promise<Device> {
+  const name = input.device_name?.trim()
+  if (!name) {
+    throw new DeviceError('Nama perangkat wajib diisi')
+  }
+  if (!DEVICE_ROLES.includes(input.device_type as DeviceRole)) {
+    throw new DeviceError(`Peran harus salah satu dari: ${DEVICE_ROLES.join(', ')}`)
+  }
+
+  // device_code follows device_<role>_NN (valid_device_code)
+  const prefix = `device_${input.device_type}_`
+  const { data: existing, error: codeError } = await supabase
+    .from('device_accounts')
+    .select('device_code')
+    .like('device_code', `${prefix}%`)
+
+  if (codeError) {
+    throw new DeviceError(codeError.message, 500)
+  }
+
+  const taken = new Set((existing || []).map(row => row.device_code))
+  let number = 1
+  while (taken.has(`${prefix}${String(number).padStart(2, '0')}`)) {
+    number++
+  }
+  if (number > 99) {
+    throw new DeviceError(`Sudah ada 99 perangkat ${input.device_type}`, 409)
+  }
+
+  const { data, error } = await supabase
+    .from('device_accounts')
+    .insert({
+      device_code: `${prefix}${String(number).padStart(2, '0')}`,
+      device_type: input.device_type,
+      device_name: name.slice(0, 50),
+      location: input.location?.trim() || null
+    })
+    .select(DEVICE_COLUMNS)
+    .single()
+
+  if (error) {
+    throw new DeviceError(error.message, 500)
+  }
+
+  return { ...data, session: null } as Device
+}
+
+/**
+ * Rename, move or (de)activate a device. Deactivating also ends its
+ * session, so reactivating it needs a fresh pairing.
+ */
+export async function updateDevice(
+  supabase: SupabaseClient,
+  id: string,
+  input: { device_name?: string; location?: string | null; is_active?: boolean },
+  updatedBy: string
+): Promise<void> {
+  const changes: Record<string, unknown> = {}
+
+  if (input.device_name !== undefined) {
+    const name = input.device_name.trim()
+    if (!name) {
+      throw new DeviceError('Nama perangkat wajib diisi')
+    }
+    changes.device_name = name.slice(0, 50)
+  }
+  if (input.location !== undefined) {
+    changes.location = input.location?.trim() || null
+  }
+  if (input.is_active !== undefined) {
+    changes.is_active = Boolean(input.is_active)
+  }
+
+  const { data, error } = await supabase
+    .from('device_accounts')
+    .update(changes)
+    .eq('id', id)
+    .select('id')
+    .maybeSingle()
+
+  if (error) {
+    throw new DeviceError(error.message, 500)
+  }
+  if (!data) {
+    throw new DeviceError(DEVICE_RPC_ERRORS.DEVICE_NOT_FOUND, 404)
+  }
+
+  if (changes.is_active === false) {
+    await revokeDevice(supabase, id, updatedBy)
+  }
+}
+
+// ===========================================
+// PAIRING & SESSIONS
+// ===========================================
+
+/**
+ * New pairing code for a device; earlier unused codes stop working
+ */
+export async function createPairingCode(
+  supabase: SupabaseClient,
+  deviceId: string,
+  createdBy: string
+): Promise<{ code: string; expires_at: string }> {
+  const { data, error } = await supabase.rpc('create_device_pairing_code', {
+    p_device_id: deviceId,
+    p_created_by: createdBy,
+    p_ttl_minutes: PAIRING_CODE_TTL_MINUTES
+  })
+
+  if (error) {
+    throw deviceRpcError(error)
+  }
+
+  const pairing = Array.isArray(data) ? data[0] : null
+  if (!pairing) {
+    throw new DeviceError('Gagal membuat kode pairing', 500)
+  }
+  return pairing
+}
+
+/**
+ * End every session of a device; returns how many were ended
+ */
+export async function revokeDevice(
+  supabase: SupabaseClient,
+  deviceId: string,
+  revokedBy: string
+): Promise<number> {
+  const { data, error } = await supabase.rpc('revoke_device_sessions', {
+    p_device_id: deviceId,
+    p_revoked_by: revokedBy
+  })
+
+  if (error) {
+    throw deviceRpcError(error)
+  }
+  return Number(data) || 0
+}
+
+// ===========================================
+// STAFF PINS
+// ===========================================
+
+export async function listStaffPins(supabase: SupabaseClient): Promise<StaffPin[]> {
+  const { data, error } = await supabase
+    .from('employees')
+    .select('id, full_name, position, device_pin_hash')
+    .eq('status', 'active')
+    .in('position', DEVICE_ROLES)
+    .order('full_name', { ascending: true })
+
+  if (error) {
+    throw new DeviceError(error.message, 500)
+  }
+
+  // Never send the hash itself to the browser
+  return (data || []).map(({ device_pin_hash, ...employee }) => ({
+    ...employee,
+    has_pin: Boolean(device_pin_hash)
+  }))
+}
+
+/**
+ * Set a 4 to 6 digit PIN, or clear it with null
+ */
+export async function setStaffPin(
+  supabase: SupabaseClient,
+  employeeId: string,
+  pin: string | null
+): Promise<void> {
+  if (pin !== null && !/^[0-9]{4,6}$/.test(pin)) {
+    throw new DeviceError(DEVICE_RPC_ERRORS.DEVICE_PIN_FORMAT)
+  }
+
+  const { error } = await supabase.rpc('set_employee_device_pin', {
+    p_employee_id: employeeId,
+    p_pin: pin
+  })
+
+  if (error) {
+    throw deviceRpcError(error)
+  }
+}
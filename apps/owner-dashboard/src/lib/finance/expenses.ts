@@ -0,0 +1,462 @@
+/**
+ * Operating expenses
+ *
+ * Expenses are recorded per day against a category (`daily_expenses`), with
+ * an optional receipt photo in the private `expense-receipts` bucket; the
+ * stored receipt_url is the object path and reads hand out signed URLs.
+ * Recurring expenses (rent, electricity, internet) are booked into
+ * daily_expenses by generate_recurring_expenses (062_expenses_profit_loss),
+ * which runs whenever expenses are read.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { ApiError } from '@/lib/api/errors'
+
+export const RECEIPT_BUCKET = 'expense-receipts'
+
+const RECEIPT_TYPES = ['image/jpeg', 'image/jpg', 'image/png', 'image/webp', 'application/pdf']
+const MAX_RECEIPT_SIZE = 5 * 1024 * 1024 // 5MB
+const RECEIPT_URL_TTL = 60 * 60 // seconds
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/
+
+export interface ExpenseCategory {
+  id: string
+  name: string
+  description: string | null
+  budget_amount: number | null // monthly
+  is_active: boolean
+  created_at: string
+  updated_at: string
+}
+
+export interface Expense {
+  id: string
+  category_id: string
+  amount: number
+  description: string
+  receipt_url: string | null
+  receipt_signed_url?: string | null
+  date: string
+  recurring_expense_id: string | null
+  recorded_by: string | null
+  created_at: string
+  updated_at: string
+  expense_categories?: { name: string } | null
+}
+
+export interface RecurringExpense {
+  id: string
+  category_id: string
+  amount: number
+  description: string
+  day_of_month: number
+  start_date: string
+  end_date: string | null
+  last_generated_on: string | null
+  is_active: boolean
+  created_at: string
+  expense_categories?: { name: string } | null
+}
+
+export class FinanceError extends ApiError {
+  name = 'FinanceError'
+}
+
+export function assertDate(value: unknown, field: string): string {
+  if (typeof value !== 'string' || !DATE_PATTERN.test(value) || Number.isNaN(Date.parse(value))) {
+    throw new FinanceError(`${field} must be a date (YYYY-MM-DD)`)
+  }
+  return value
+}
+
+function assertAmount(value: unknown): number {
+  const amount = Number(value)
+  if (!Number.isFinite(amount) || amount <= 0) {
+    throw new FinanceError('Amount must be greater than 0')
+  }
+  return Math.round(amount * 100) / 100
+}
+
+function assertDescription(value: unknown): string {
+  if (typeof value !== 'string' || !value.trim()) {
+    throw new FinanceError('Description is required')
+  }
+  return value.trim().slice(0, 500)
+}
+
+// ===========================================
+// CATEGORIES
+// ===========================================
+
+export async function listExpenseCategories(supabase: SupabaseClient): Promise<ExpenseCategory[]> {
+  const { data, error } = await supabase
+    .from('expense_categories')
+    .select('*')
+    .order('name')
+
+  if (error) {
+    throw new FinanceError(`Failed to load expense categories: ${error.message}`, 500)
+  }
+
+  return data || []
+}
+
+/**
+ * Create a category, or update one when `id` is given
+ */
+export async function saveExpenseCategory(
+  supabase: SupabaseClient,
+  input: Record<string, unknown>,
+  id?: string
+): Promise<ExpenseCategory> {
+  const values: Record<string, unknown> = {}
+
+  if (!id || input.name !== undefined) {
+    if (typeof input.name !== 'string' || !input.name.trim()) {
+      throw new FinanceError('Category name is required')
+    }
+    values.name = input.name.trim().slice(0, 100)
+  }
+
+  if (input.description !== undefined) {
+    values.description = typeof input.description === 'string' && input.description.trim()
+      ? input.description.trim()
+      : null
+  }
+
+  if (input.budget_amount !== undefined) {
+    // Empty budget means the category is not budgeted
+    const budget = input.budget_amount === null || input.budget_amount === ''
+      ? null
+      : Number(input.budget_amount)
+    if (budget !== null && (!Number.isFinite(budget) || budget < 0)) {
+      throw new FinanceError('Budget must be 0 or more')
+    }
+    values.budget_amount = budget
+  }
+
+  if (input.is_active !== undefined) {
+    values.is_active = Boolean(input.is_active)
+  }
+
+  const query = id
+    ? supabase.from('expense_categories').update(values).eq('id', id)
+    : supabase.from('expense_categories').insert(values)
+
+  const { data, error } = await query.select().single()
+
+  if (error) {
+    if (error.code === '23505') {
+      throw new FinanceError('A category with this name already exists', 409)
+    }
+    throw new FinanceError(`Failed to save expense category: ${error.message}`, 500)
+  }
+
+  return data
+}
+
+// ===========================================
+// EXPENSES
+// ===========================================
+
+/**
+ * Book recurring expenses that have come due; a failure is logged so that
+ * reads still work
+ */
+export async function bookRecurringExpenses(supabase: SupabaseClient): Promise<number> {
+  const { data, error } = await supabase.rpc('generate_recurring_expenses')
+
+  if (error) {
+    console.error('Error booking recurring expenses:', error)
+    return 0
+  }
+
+  return Number(data) || 0
+}
+
+/**
+ * Expenses between two dates (inclusive), newest first, with signed receipt
+ * URLs
+ */
+export async function listExpenses(
+  supabase: SupabaseClient,
+  startDate: string,
+  endDate: string,
+  categoryId?: string | null
+): Promise<Expense[]> {
+  await bookRecurringExpenses(supabase)
+
+  let query = supabase
+    .from('daily_expenses')
+    .select('*, expense_categories(name)')
+    .gte('date', startDate)
+    .lte('date', endDate)
+    .order('date', { ascending: false })
+    .order('created_at', { ascending: false })
+
+  if (categoryId) {
+    query = query.eq('category_id', categoryId)
+  }
+
+  const { data, error } = await query
+
+  if (error) {
+    throw new FinanceError(`Failed to load expenses: ${error.message}`, 500)
+  }
+
+  const expenses = (data || []) as Expense[]
+  const paths = expenses.map(expense => expense.receipt_url).filter((path): path is string => !!path)
+
+  if (paths.length > 0) {
+    const { data: signed, error: signError } = await supabase.storage
+      .from(RECEIPT_BUCKET)
+      .createSignedUrls(paths, RECEIPT_URL_TTL)
+
+    if (signError) {
+      console.error('Error signing receipt URLs:', signError)
+    }
+
+    const urls = new Map((signed || []).map(entry => [entry.path, entry.signedUrl]))
+    for (const expense of expenses) {
+      expense.receipt_signed_url = expense.receipt_url ? urls.get(expense.receipt_url) || null : null
+    }
+  }
+
+  return expenses
+}
+
+function expenseValues(input: Record<string, unknown>, partial: boolean): Record<string, unknown> {
+  const values: Record<string, unknown> = {}
+
+  if (!partial || input.category_id !== undefined) {
+    if (typeof input.category_id !== 'string' || !input.category_id) {
+      throw new FinanceError('Category is required')
+    }
+    values.category_id = input.category_id
+  }
+  if (!partial || input.amount !== undefined) {
+    values.amount = assertAmount(input.amount)
+  }
+  if (!partial || input.description !== undefined) {
+    values.description = assertDescription(input.description)
+  }
+  if (!partial || input.date !== undefined) {
+    values.date = assertDate(input.date, 'Date')
+  }
+  if (input.receipt_url !== undefined) {
+    values.receipt_url = typeof input.receipt_url === 'string' && input.receipt_url ? input.receipt_url : null
+  }
+
+  return values
+}
+
+export async function createExpense(
+  supabase: SupabaseClient,
+  input: Record<string, unknown>,
+  recordedBy: string | null
+): Promise<Expense> {
+  const { data, error } = await supabase
+    .from('daily_expenses')
+    .insert({ ...expenseValues(input, false), recorded_by: recordedBy })
+    .select('*, expense_categories(name)')
+    .single()
+
+  if (error) {
+    throw new FinanceError(`Failed to record expense: ${error.message}`, 500)
+  }
+
+  return data
+}
+
+export async function updateExpense(
+  supabase: SupabaseClient,
+  id: string,
+  input: Record<string, unknown>
+): Promise<Expense> {
+  const values = expenseValues(input, true)
+
+  const { data: existing, error: fetchError } = await supabase
+    .from('daily_expenses')
+    .select('receipt_url')
+    .eq('id', id)
+    .maybeSingle()
+
+  if (fetchError) {
+    throw new FinanceError(`Failed to load expense: ${fetchError.message}`, 500)
+  }
+  if (!existing) {
+    throw new FinanceError('Expense not found', 404)
+  }
+
+  const { data, error } = await supabase
+    .from('daily_expenses')
+    .update(values)
+    .eq('id', id)
+    .select('*, expense_categories(name)')
+    .single()
+
+  if (error) {
+    throw new FinanceError(`Failed to update expense: ${error.message}`, 500)
+  }
+
+  // Replaced or removed receipt
+  if (existing.receipt_url && values.receipt_url !== undefined && values.receipt_url !== existing.receipt_url) {
+    await removeReceipt(supabase, existing.receipt_url)
+  }
+
+  return data
+}
+
+export async function deleteExpense(supabase: SupabaseClient, id: string): Promise<void> {
+  const { data, error } = await supabase
+    .from('daily_expenses')
+    .delete()
+    .eq('id', id)
+    .select('receipt_url')
+    .maybeSingle()
+
+  if (error) {
+    throw new FinanceError(`Failed to delete expense: ${error.message}`, 500)
+  }
+  if (!data) {
+    throw new FinanceError('Expense not found', 404)
+  }
+
+  if (data.receipt_url) {
+    await removeReceipt(supabase, data.receipt_url)
+  }
+}
+
+// ===========================================
+// RECEIPTS
+// ===========================================
+
+/**
+ * Store a receipt photo and return its path, to be saved as receipt_url
+ */
+export async function uploadReceipt(supabase: SupabaseClient, file: File | null): Promise<string> {
+  if (!file || typeof file === 'string') {
+    throw new FinanceError('Receipt file is required')
+  }
+  if (!RECEIPT_TYPES.includes(file.type)) {
+    throw new FinanceError('Receipt must be a JPG, PNG or WebP photo or a PDF')
+  }
+  if (file.size > MAX_RECEIPT_SIZE) {
+    throw new FinanceError('Receipt is too large. Maximum size is 5MB.')
+  }
+
+  const now = new Date()
+  const extension = file.name.split('.').pop()?.toLowerCase() || 'jpg'
+  const month = `${now.getFullYear()}-${String(now.getMonth() + 1).padStart(2, '0')}`
+  const path = `${month}/receipt-${now.getTime()}-${Math.random().toString(36).slice(2, 8)}.${extension}`
+
+  const { error } = await supabase.storage
+    .from(RECEIPT_BUCKET)
+    .upload(path, await file.arrayBuffer(), {
+      contentType: file.type,
+      upsert: false
+    })
+
+  if (error) {
+    throw new FinanceError(`Failed to upload receipt: ${error.message}`, 500)
+  }
+
+  return path
+}
+
+async function removeReceipt(supabase: SupabaseClient, path: string): Promise<void> {
+  const { error } = await supabase.storage.from(RECEIPT_BUCKET).remove([path])
+  if (error) {
+    console.error('Error removing receipt:', error)
+  }
+}
+
+// ===========================================
+// RECURRING EXPENSES
+// ===========================================
+
+export async function listRecurringExpenses(supabase: SupabaseClient): Promise<RecurringExpense[]> {
+  const { data, error } = await supabase
+    .from('recurring_expenses')
+    .select('*, expense_categories(name)')
+    .order('is_active', { ascending: false })
+    .order('day_of_month')
+
+  if (error) {
+    throw new FinanceError(`Failed to load recurring expenses: ${error.message}`, 500)
+  }
+
+  return data || []
+}
+
+/**
+ * Create a recurring expense, or update one when `id` is given. Changes
+ * apply from the next month that is booked.
+ */
+export async function saveRecurringExpense(
+  supabase: SupabaseClient,
+  input: Record<string, unknown>,
+  createdBy: string | null,
+  id?: string
+): Promise<RecurringExpense> {
+  const values = expenseValues(
+    { category_id: input.category_id, amount: input.amount, description: input.description },
+    !!id
+  )
+  delete values.date
+
+  if (!id || input.day_of_month !== undefined) {
+    const day = Number(input.day_of_month)
+    if (!Number.isInteger(day) || day < 1 || day > 28) {
+      throw new FinanceError('Day of month must be between 1 and 28')
+    }
+    values.day_of_month = day
+  }
+  if (input.start_date !== undefined) {
+    values.start_date = assertDate(input.start_date, 'Start date')
+  }
+  if (input.end_date !== undefined) {
+    values.end_date = input.end_date ? assertDate(input.end_date, 'End date') : null
+  }
+  if (input.is_active !== undefined) {
+    values.is_active = Boolean(input.is_active)
+    // Resuming books from today on, not the months it was paused for
+    if (id && values.is_active && input.start_date === undefined) {
+      const now = new Date()
+      values.start_date = `${now.getFullYear()}-${String(now.getMonth() + 1).padStart(2, '0')}-${String(now.getDate()).padStart(2, '0')}`
+      values.last_generated_on = null
+    }
+  }
+
+  const query = id
+    ? supabase.from('recurring_expenses').update(values).eq('id', id)
+    : supabase.from('recurring_expenses').insert({ ...values, created_by: createdBy })
+
+  const { data, error } = await query.select('*, expense_categories(name)').single()
+
+  if (error) {
+    if (error.code === '23514') {
+      throw new FinanceError('End date must be on or after the start date')
+    }
+    throw new FinanceError(`Failed to save recurring expense: ${error.message}`, 500)
+  }
+
+  await bookRecurringExpenses(supabase)
+
+  return data
+}
+
+/**
+ * Stop a recurring expense; expenses already booked from it are kept
+ */
+export async function deleteRecurringExpense(supabase: SupabaseClient, id: string): Promise<void> {
+  const { error } = await supabase
+    .from('recurring_expenses')
+    .delete()
+    .eq('id', id)
+
+  if (error) {
+    throw new FinanceError(`Failed to delete recurring expense: ${error.message}`, 500)
+  }
+}
@@ -0,0 +1,136 @@
+/**
+ * Profit & loss statement
+ *
+ * Loads the rows for a period and hands them to buildProfitAndLoss in
+ * @cafe/utils: completed orders and ingredient usage and waste from
+ * stock_movements within the period's business days, payroll records
+ * overlapping the period and operating expenses by expense date. The report-generation function loads
+ * the same rows for its monthly report.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js'
+import {
+  buildProfitAndLoss,
+  monthPeriod,
+  type ProfitLossStatement
+} from '@cafe/utils/calculations/profitLoss'
+import {
+  DEFAULT_BUSINESS_CALENDAR,
+  businessDateRange,
+  todayBusinessDate,
+  type BusinessCalendar
+} from '@cafe/utils/helpers/businessCalendar'
+import { assertDate, bookRecurringExpenses, FinanceError } from './expenses'
+
+const PAGE_SIZE = 1000
+
+// PostgREST caps each response, so read the rows page by page
+async function selectAll<T>(
+  fetchPage: (from: number, to: number) => PromiseLike<{ data: T[] | null; error: { message: string } | null }>,
+  label: string
+): Promise<T[]> {
+  const rows: T[] = []
+
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error } = await fetchPage(from, from + PAGE_SIZE - 1)
+    if (error) {
+      throw new FinanceError(`Failed to load ${label}: ${error.message}`, 500)
+    }
+
+    rows.push(...(data || []))
+    if (!data || data.length < PAGE_SIZE) {
+      return rows
+    }
+  }
+}
+
+/**
+ * Period from `?month=YYYY-MM` or `?start=YYYY-MM-DD&end=YYYY-MM-DD`,
+ * defaulting to the current month of the business calendar
+ */
+export function parsePeriod(
+  searchParams: URLSearchParams,
+  calendar: BusinessCalendar = DEFAULT_BUSINESS_CALENDAR
+): { start_date: string; end_date: string } {
+  const month = searchParams.get('month')
+  const start = searchParams.get('start')
+  const end = searchParams.get('end')
+
+  if (start || end) {
+    const period = { start_date: assertDate(start, 'Start date'), end_date: assertDate(end, 'End date') }
+    if (period.end_date < period.start_date) {
+      throw new FinanceError('End date must be on or after the start date')
+    }
+    return period
+  }
+
+  if (month) {
+    const match = /^(\d{4})-(\d{2})$/.exec(month)
+    if (!match || Number(match[2]) < 1 || Number(match[2]) > 12) {
+      throw new FinanceError('Month must be in YYYY-MM format')
+    }
+    return monthPeriod(Number(match[2]), Number(match[1]))
+  }
+
+  const today = todayBusinessDate(calendar)
+  return monthPeriod(Number(today.slice(5, 7)), Number(today.slice(0, 4)))
+}
+
+export async function loadProfitAndLoss(
+  supabase: SupabaseClient,
+  startDate: string,
+  endDate: string,
+  calendar: BusinessCalendar
+): Promise<ProfitLossStatement> {
+  await bookRecurringExpenses(supabase)
+
+  const range = businessDateRange(startDate, endDate, calendar)
+
+  const [orders, movements, payroll, expenses, categories] = await Promise.all([
+    selectAll((from, to) => supabase
+      .from('orders')
+      .select('subtotal, discount_amount, service_charge, tax_amount')
+      .eq('status', 'completed')
+      .gte('created_at', range.start)
+      .lt('created_at', range.end)
+      .order('id')
+      .range(from, to), 'orders'),
+    selectAll((from, to) => supabase
+      .from('stock_movements')
+      .select('movement_type, quantity, unit_cost, total_cost, ingredients(unit_cost, average_cost)')
+      .in('movement_type', ['usage', 'waste'])
+      .gte('created_at', range.start)
+      .lt('created_at', range.end)
+      .order('id')
+      .range(from, to), 'stock movements'),
+    selectAll((from, to) => supabase
+      .from('payroll')
+      .select('period_start, period_end, gross_salary, employer_contributions')
+      .lte('period_start', endDate)
+      .gte('period_end', startDate)
+      .order('id')
+      .range(from, to), 'payroll'),
+    selectAll((from, to) => supabase
+      .from('daily_expenses')
+      .select('category_id, amount')
+      .gte('date', startDate)
+      .lte('date', endDate)
+      .order('id')
+      .range(from, to), 'expenses'),
+    selectAll((from, to) => supabase
+      .from('expense_categories')
+      .select('id, name, budget_amount, is_active')
+      .order('name')
+      .range(from, to), 'expense categories')
+  ])
+
+  return buildProfitAndLoss({
+    start_date: startDate,
+    end_date: endDate,
+    orders,
+    movements: movements as any[],
+    payroll,
+    expenses,
+    categories
+  })
+}
@@ -0,0 +1,132 @@
+/**
+ * Kitchen performance
+ *
+ * A business day's ticket times, on-time rate, overdue orders and
+ * throughput, overall and by station and menu item, next to the day before.
+ * Computed by summarizeKitchenPerformance in
+ * @cafe/utils/calculations/kitchenPerformance from order status history and
+ * item bumps.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js'
+import {
+  addDays,
+  businessDateRange,
+  todayBusinessDate
+} from '@cafe/utils/helpers/businessCalendar'
+import {
+  KITCHEN_OPEN_ORDER_STATUSES,
+  summarizeKitchenPerformance,
+  type KitchenPerformanceOrder,
+  type KitchenPerformanceSummary
+} from '@cafe/utils/calculations/kitchenPerformance'
+import { loadBusinessCalendar } from '@/lib/calendar/businessCalendar'
+import { KitchenStationError, loadKitchenStationSettings } from './stations'
+
+export interface KitchenPerformanceReport {
+  date: string
+  previous_date: string
+  current: KitchenPerformanceSummary
+  previous: KitchenPerformanceSummary
+  // Only for today: kitchen staff clocked in right now
+  staff_on_shift: number | null
+}
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/
+
+async function loadPerformanceOrders(
+  supabase: SupabaseClient,
+  start: string,
+  end: string
+): Promise<KitchenPerformanceOrder[]> {
+  const { data, error } = await supabase
+    .from('orders')
+    .select(`
+      id, status, created_at, confirmed_at, ready_at,
+      order_status_history(new_status, created_at),
+      order_items(
+        item_name, quantity, status, bumped_at,
+        menu_items(estimated_prep_time, menu_categories(slug))
+      )
+    `)
+    .or(`status.in.(${KITCHEN_OPEN_ORDER_STATUSES.join(',')}),and(confirmed_at.gte.${start},confirmed_at.lt.${end})`)
+    .limit(5000)
+
+  if (error) {
+    throw new KitchenStationError(`Failed to load orders: ${error.message}`, 500)
+  }
+
+  return (data || []).map((order: any) => ({
+    id: order.id,
+    status: order.status,
+    created_at: order.created_at,
+    confirmed_at: order.confirmed_at,
+    ready_at: order.ready_at,
+    history: order.order_status_history || [],
+    items: (order.order_items || []).map((item: any) => ({
+      name: item.item_name,
+      category: item.menu_items?.menu_categories?.slug || null,
+      quantity: item.quantity,
+      status: item.status,
+      target_minutes: item.menu_items?.estimated_prep_time ?? null,
+      bumped_at: item.bumped_at
+    }))
+  }))
+}
+
+async function countKitchenStaffOnShift(supabase: SupabaseClient, date: string): Promise<number> {
+  const { data, error } = await supabase
+    .from('attendance')
+    .select('employee_id, employees!inner(position)')
+    .eq('date', date)
+    .not('clock_in', 'is', null)
+    .is('clock_out', null)
+    .eq('employees.position', 'dapur')
+
+  if (error) {
+    throw new KitchenStationError(`Failed to load attendance: ${error.message}`, 500)
+  }
+  return new Set((data || []).map((row: any) => row.employee_id)).size
+}
+
+/**
+ * Performance of a business day (default today) and the day before
+ */
+export async function getKitchenPerformance(
+  supabase: SupabaseClient,
+  date?: string | null
+): Promise<KitchenPerformanceReport> {
+  if (date && !DATE_PATTERN.test(date)) {
+    throw new KitchenStationError('Tanggal harus berformat YYYY-MM-DD')
+  }
+
+  const calendar = await loadBusinessCalendar(supabase)
+  const today = todayBusinessDate(calendar)
+  const currentDate = date || today
+  const previousDate = addDays(currentDate, -1)
+
+  const currentRange = businessDateRange(currentDate, currentDate, calendar)
+  const previousRange = businessDateRange(previousDate, previousDate, calendar)
+
+  const [orders, { settings: stations }, staffOnShift] = await Promise.all([
+    // A ticket confirmed late in the evening may turn ready after the cutoff
+    loadPerformanceOrders(supabase, previousRange.start, currentRange.end),
+    loadKitchenStationSettings(supabase),
+    currentDate === today ? countKitchenStaffOnShift(supabase, today) : Promise.resolve(null)
+  ])
+
+  const summarize = (range: { start: string; end: string }) =>
+    summarizeKitchenPerformance(orders, { ...range, calendar, stations })
+
+  const current = summarize(currentRange)
+  const previous = summarize(previousRange)
+
+  return {
+    date: currentDate,
+    previous_date: previousDate,
+    current,
+    // Overdue is about open orders right now, it has no yesterday
+    previous: { ...previous, overdue_orders: 0 },
+    staff_on_shift: staffOnShift
+  }
+}
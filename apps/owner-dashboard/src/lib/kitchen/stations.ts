@@ -0,0 +1,123 @@
+/**
+ * Kitchen stations
+ *
+ * Stations and the menu categories each prepares live in the
+ * `kitchen/stations` system setting (068_kitchen_stations) and are read by
+ * the kitchen-display edge function through parseKitchenStationSettings in
+ * @cafe/utils/helpers/kitchenStations.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js'
+import {
+  isKitchenStationCode,
+  parseKitchenStationSettings,
+  type KitchenStation,
+  type KitchenStationSettings
+} from '@cafe/utils/helpers/kitchenStations'
+import { ApiError } from '@/lib/api/errors'
+
+export interface StationMenuCategory {
+  slug: string
+  name: string
+}
+
+export class KitchenStationError extends ApiError {
+  name = 'KitchenStationError'
+}
+
+/**
+ * Saved stations and the menu categories they can be given
+ */
+export async function loadKitchenStationSettings(supabase: SupabaseClient): Promise<{
+  settings: KitchenStationSettings
+  categories: StationMenuCategory[]
+}> {
+  const [{ data, error }, { data: categories, error: categoriesError }] = await Promise.all([
+    supabase
+      .from('system_settings')
+      .select('value')
+      .eq('category', 'kitchen')
+      .eq('key', 'stations')
+      .maybeSingle(),
+    supabase
+      .from('menu_categories')
+      .select('slug, name')
+      .eq('is_active', true)
+      .order('display_order', { ascending: true })
+  ])
+
+  if (error) {
+    throw new KitchenStationError(error.message, 500)
+  }
+  if (categoriesError) {
+    throw new KitchenStationError(categoriesError.message, 500)
+  }
+
+  return {
+    settings: parseKitchenStationSettings(data?.value),
+    categories: categories || []
+  }
+}
+
+export async function saveKitchenStationSettings(supabase: SupabaseClient, input: any): Promise<KitchenStationSettings> {
+  const rawStations: any[] = Array.isArray(input?.stations) ? input.stations : []
+  if (rawStations.length === 0) {
+    throw new KitchenStationError('Minimal harus ada satu stasiun')
+  }
+
+  const stations: KitchenStation[] = []
+  const codes = new Set<string>()
+  const stationOfCategory = new Map<string, string>()
+
+  rawStations.forEach((raw, index) => {
+    const code = typeof raw?.code === 'string' ? raw.code.trim().toLowerCase() : ''
+    const name = typeof raw?.name === 'string' ? raw.name.trim() : ''
+
+    if (!isKitchenStationCode(code)) {
+      throw new KitchenStationError(
+        `Kode stasiun ${index + 1} tidak valid: gunakan huruf kecil, angka atau tanda hubung`
+      )
+    }
+    if (codes.has(code)) {
+      throw new KitchenStationError(`Kode stasiun "${code}" dipakai lebih dari sekali`)
+    }
+    if (!name) {
+      throw new KitchenStationError(`Nama stasiun "${code}" wajib diisi`)
+    }
+    codes.add(code)
+
+    const categories = Array.from(new Set<string>(
+      (Array.isArray(raw.categories) ? raw.categories : []).map((category: unknown) => String(category))
+    ))
+    for (const category of categories) {
+      const other = stationOfCategory.get(category)
+      if (other) {
+        throw new KitchenStationError(`Kategori "${category}" sudah dipakai stasiun "${other}"`)
+      }
+      stationOfCategory.set(category, code)
+    }
+
+    stations.push({ code, name, categories })
+  })
+
+  const defaultStation = typeof input?.default_station === 'string' ? input.default_station : ''
+  if (!codes.has(defaultStation)) {
+    throw new KitchenStationError('Pilih stasiun untuk kategori yang tidak terdaftar')
+  }
+
+  const settings: KitchenStationSettings = { stations, default_station: defaultStation }
+
+  const { error } = await supabase
+    .from('system_settings')
+    .upsert({
+      category: 'kitchen',
+      key: 'stations',
+      value: settings,
+      updated_at: new Date().toISOString()
+    }, { onConflict: 'category,key' })
+
+  if (error) {
+    throw new KitchenStationError(error.message, 500)
+  }
+  return settings
+}
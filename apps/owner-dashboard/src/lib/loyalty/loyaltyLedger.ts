@@ -0,0 +1,243 @@
+/**
+ * Loyalty points administration
+ *
+ * Rules live in the `loyalty/rules` system setting; the ledger is
+ * `loyalty_points`, one row per earn, redemption, expiry or adjustment, keyed
+ * by the customer's phone in international format. Earning on completed
+ * orders and refunds on cancelled ones happen in the database
+ * (061_loyalty_points); manual adjustments go through adjust_loyalty_points
+ * so they are serialized with checkout redemptions.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js'
+import {
+  normalizeLoyaltyPhone,
+  normalizeLoyaltyRules,
+  type LoyaltyRules
+} from '@cafe/utils/calculations/loyalty'
+import { ApiError } from '@/lib/api/errors'
+
+export type LoyaltySource = 'order' | 'redemption' | 'refund' | 'expiry' | 'adjustment'
+
+export interface LoyaltyLedgerEntry {
+  id: string
+  customer_phone: string
+  transaction_type: 'earned' | 'used' | 'expired'
+  source: LoyaltySource
+  points_earned: number
+  points_used: number
+  points_balance: number
+  points_remaining: number
+  expires_at: string | null
+  order_id: string | null
+  discount_amount: number | null
+  description: string | null
+  adjusted_by: string | null
+  created_at: string
+  orders?: { order_number: string; customer_name: string | null } | null
+}
+
+export interface LoyaltyCustomer {
+  customer_phone: string
+  customer_name: string | null
+  balance: number
+  lifetime_earned: number
+  lifetime_used: number
+  last_activity: string
+}
+
+export class LoyaltyError extends ApiError {
+  name = 'LoyaltyError'
+}
+
+const ADJUSTMENT_ERRORS: Record<string, string> = {
+  LOYALTY_INVALID_PHONE: 'Invalid phone number',
+  LOYALTY_INSUFFICIENT_POINTS: 'Customer does not have enough points'
+}
+
+export function toLoyaltyPhone(phone: string): string {
+  const customerPhone = normalizeLoyaltyPhone(phone)
+  if (!customerPhone) {
+    throw new LoyaltyError(`Invalid phone number: ${phone}`)
+  }
+  return customerPhone
+}
+
+const isOpenLot = (entry: Pick<LoyaltyLedgerEntry, 'points_remaining' | 'expires_at'>, now: number) =>
+  entry.points_remaining > 0 && (!entry.expires_at || new Date(entry.expires_at).getTime() > now)
+
+/**
+ * The `loyalty/rules` system setting, with defaults for anything missing
+ */
+export async function loadLoyaltyRules(supabase: SupabaseClient): Promise<LoyaltyRules> {
+  const { data, error } = await supabase
+    .from('system_settings')
+    .select('value')
+    .eq('category', 'loyalty')
+    .eq('key', 'rules')
+    .maybeSingle()
+
+  if (error) {
+    throw new LoyaltyError(`Failed to load loyalty rules: ${error.message}`, 500)
+  }
+
+  return normalizeLoyaltyRules(data?.value)
+}
+
+export async function saveLoyaltyRules(supabase: SupabaseClient, input: unknown): Promise<LoyaltyRules> {
+  if (!input || typeof input !== 'object') {
+    throw new LoyaltyError('Rules are required')
+  }
+
+  const rules = normalizeLoyaltyRules({ ...(await loadLoyaltyRules(supabase)), ...input })
+
+  const { error } = await supabase
+    .from('system_settings')
+    .upsert({
+      category: 'loyalty',
+      key: 'rules',
+      value: rules,
+      description: 'Loyalty points: net spend per point earned, rupiah per point redeemed, redemption minimum and cap, expiry in days (0 = never)',
+      is_public: true,
+      updated_at: new Date().toISOString()
+    }, { onConflict: 'category,key' })
+
+  if (error) {
+    throw new LoyaltyError(`Failed to save loyalty rules: ${error.message}`, 500)
+  }
+
+  return rules
+}
+
+/**
+ * Every customer with points activity, with their current balance. Points of
+ * lots past their expiry are left out even before the expiry is written.
+ */
+export async function listLoyaltyCustomers(supabase: SupabaseClient, search?: string | null): Promise<LoyaltyCustomer[]> {
+  let query = supabase
+    .from('loyalty_points')
+    .select('customer_phone, points_earned, points_used, points_remaining, expires_at, source, created_at, orders(customer_name)')
+    .order('created_at', { ascending: false })
+
+  // Match on the digits only, so 0812 finds +62812
+  const digits = search?.replace(/\D/g, '').replace(/^0/, '')
+  if (digits) {
+    query = query.ilike('customer_phone', `%${digits}%`)
+  }
+
+  const { data, error } = await query
+
+  if (error) {
+    throw new LoyaltyError(`Failed to load loyalty customers: ${error.message}`, 500)
+  }
+
+  return summarizeCustomers(data || [])
+}
+
+// Roll ledger rows (newest first) up into one line per customer
+function summarizeCustomers(entries: any[]): LoyaltyCustomer[] {
+  const now = Date.now()
+  const customers = new Map<string, LoyaltyCustomer>()
+
+  for (const entry of entries) {
+    const customer = customers.get(entry.customer_phone) || {
+      customer_phone: entry.customer_phone,
+      customer_name: null,
+      balance: 0,
+      lifetime_earned: 0,
+      lifetime_used: 0,
+      last_activity: entry.created_at // rows are newest first
+    }
+
+    if (isOpenLot(entry, now)) {
+      customer.balance += entry.points_remaining
+    }
+    // Refunds give back used points, they are not earnings
+    if (entry.source !== 'refund') {
+      customer.lifetime_earned += entry.points_earned
+    }
+    if (entry.source === 'redemption') {
+      customer.lifetime_used += entry.points_used
+    }
+    customer.customer_name = customer.customer_name || entry.orders?.customer_name || null
+
+    customers.set(entry.customer_phone, customer)
+  }
+
+  return Array.from(customers.values())
+}
+
+/**
+ * A customer's ledger, newest first, after writing off expired points
+ */
+export async function loadCustomerLedger(supabase: SupabaseClient, phone: string): Promise<{
+  customer: LoyaltyCustomer | null
+  entries: LoyaltyLedgerEntry[]
+}> {
+  const customerPhone = toLoyaltyPhone(phone)
+
+  const { error: expireError } = await supabase.rpc('expire_loyalty_points', {
+    p_customer_phone: customerPhone
+  })
+
+  if (expireError) {
+    console.error('Error expiring loyalty points:', expireError)
+  }
+
+  const { data, error } = await supabase
+    .from('loyalty_points')
+    .select('*, orders(order_number, customer_name)')
+    .eq('customer_phone', customerPhone)
+    .order('created_at', { ascending: false })
+
+  if (error) {
+    throw new LoyaltyError(`Failed to load loyalty ledger: ${error.message}`, 500)
+  }
+
+  const entries = (data || []) as LoyaltyLedgerEntry[]
+  const [customer] = summarizeCustomers(entries)
+
+  return { customer: customer || null, entries }
+}
+
+/**
+ * Manual correction by the owner; negative points take points away
+ */
+export async function adjustLoyaltyPoints(
+  supabase: SupabaseClient,
+  phone: string,
+  points: unknown,
+  reason: unknown,
+  adjustedBy: string | null
+): Promise<number> {
+  const customerPhone = toLoyaltyPhone(phone)
+  const amount = Number(points)
+
+  if (!Number.isInteger(amount) || amount === 0) {
+    throw new LoyaltyError('Points must be a whole number other than 0')
+  }
+
+  if (typeof reason !== 'string' || !reason.trim()) {
+    throw new LoyaltyError('A reason is required for manual adjustments')
+  }
+
+  const { data, error } = await supabase.rpc('adjust_loyalty_points', {
+    p_customer_phone: customerPhone,
+    p_points: amount,
+    p_description: reason.trim().slice(0, 200),
+    p_adjusted_by: adjustedBy
+  })
+
+  if (error) {
+    const message = ADJUSTMENT_ERRORS[error.message]
+    if (message) {
+      throw new LoyaltyError(
+        error.message === 'LOYALTY_INSUFFICIENT_POINTS' ? `${message} (balance ${error.details})` : message,
+        409
+      )
+    }
+    throw new LoyaltyError(`Failed to adjust loyalty points: ${error.message}`, 500)
+  }
+
+  return Number(data)
+}
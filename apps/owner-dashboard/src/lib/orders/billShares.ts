@@ -0,0 +1,157 @@
+/**
+ * Split bill verification
+ *
+ * A split order (`orders.split_method`) is paid in shares, each verified or
+ * rejected on its own by the kasir. The database keeps orders.payment_status
+ * in step with the shares and refuses to mark the order verified while any
+ * share is unverified (060_split_bills); once the last share is verified the
+ * order is confirmed here, like approving a single payment.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { ApiError } from '@/lib/api/errors'
+
+export type BillShareAction = 'verify' | 'reject'
+
+export interface BillShare {
+  id: string
+  order_id: string
+  share_number: number
+  payer_name: string
+  split_method: 'equal' | 'items' | 'custom'
+  subtotal: number
+  discount_amount: number
+  tax_amount: number
+  service_charge: number
+  amount: number
+  payment_method: 'cash' | 'card' | 'qris' | 'transfer' | null
+  status: 'pending' | 'processing' | 'verified' | 'failed'
+  proof_url: string | null
+  verified_at: string | null
+  verification_notes: string | null
+}
+
+export class BillShareError extends ApiError {
+  name = 'BillShareError'
+}
+
+// Order statuses that still wait for payment
+const AWAITING_PAYMENT = ['pending_payment', 'payment_verification']
+
+/**
+ * Whether every share of the order is verified; orders that are not split
+ * count as settled
+ */
+export async function areBillSharesSettled(supabase: SupabaseClient, orderId: string): Promise<boolean> {
+  const { data, error } = await supabase
+    .from('order_bill_shares')
+    .select('status')
+    .eq('order_id', orderId)
+
+  if (error) {
+    throw new BillShareError(`Failed to load bill shares: ${error.message}`, 500)
+  }
+
+  return (data || []).every(share => share.status === 'verified')
+}
+
+/**
+ * Verify or reject one share. Returns the share and whether this completed
+ * the order's payment (the caller prints the order then).
+ */
+export async function reviewBillShare(
+  supabase: SupabaseClient,
+  orderId: string,
+  shareId: string,
+  action: BillShareAction,
+  reviewerId: string | null,
+  notes?: string
+): Promise<{ share: BillShare; orderConfirmed: boolean }> {
+  const { data: share, error: shareError } = await supabase
+    .from('order_bill_shares')
+    .select('*')
+    .eq('id', shareId)
+    .eq('order_id', orderId)
+    .maybeSingle()
+
+  if (shareError) {
+    throw new BillShareError(`Failed to load bill share: ${shareError.message}`, 500)
+  }
+
+  if (!share) {
+    throw new BillShareError('Bill share not found', 404)
+  }
+
+  if (share.status === 'verified') {
+    throw new BillShareError('Bill share is already verified', 409)
+  }
+
+  const now = new Date().toISOString()
+  const verified = action === 'verify'
+
+  const { data: updated, error: updateError } = await supabase
+    .from('order_bill_shares')
+    .update({
+      status: verified ? 'verified' : 'failed',
+      verified_by: verified ? reviewerId : null,
+      verified_at: verified ? now : null,
+      verification_notes: notes || null,
+      updated_at: now
+    })
+    .eq('id', shareId)
+    .select()
+    .single()
+
+  if (updateError) {
+    throw new BillShareError(`Failed to update bill share: ${updateError.message}`, 500)
+  }
+
+  const { error: transactionError } = await supabase
+    .from('payment_transactions')
+    .update({
+      status: verified ? 'success' : 'failed',
+      verified_by: verified ? reviewerId : null,
+      verified_at: verified ? now : null,
+      verification_notes: notes || null,
+      processed_at: now
+    })
+    .eq('bill_share_id', shareId)
+    .in('status', ['pending', 'processing'])
+
+  if (transactionError) {
+    console.error('Error updating bill share transactions:', transactionError)
+  }
+
+  let orderConfirmed = false
+  if (verified && await areBillSharesSettled(supabase, orderId)) {
+    // payment_status is already verified by the share trigger
+    const { data: confirmed, error: orderError } = await supabase
+      .from('orders')
+      .update({
+        status: 'confirmed',
+        confirmed_at: now,
+        updated_at: now
+      })
+      .eq('id', orderId)
+      .in('status', AWAITING_PAYMENT)
+      .select('id')
+
+    if (orderError) {
+      throw new BillShareError(`Failed to confirm order: ${orderError.message}`, 500)
+    }
+
+    orderConfirmed = (confirmed || []).length > 0
+  }
+
+  return {
+    share: {
+      ...updated,
+      subtotal: Number(updated.subtotal),
+      discount_amount: Number(updated.discount_amount),
+      tax_amount: Number(updated.tax_amount),
+      service_charge: Number(updated.service_charge),
+      amount: Number(updated.amount)
+    },
+    orderConfirmed
+  }
+}
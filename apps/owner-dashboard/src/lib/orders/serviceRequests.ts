@@ -0,0 +1,165 @@
+/**
+ * Table service requests
+ *
+ * Diners call a waiter, ask for the bill, cutlery, water or type a request
+ * from the table page (066_service_requests). Pelayan tablets handle them
+ * through the service-requests edge function; the owner can take, complete
+ * or dismiss them from the live orders page. Response time (created until
+ * acknowledged) is summed up per employee for staff analytics.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js'
+import {
+  OPEN_SERVICE_REQUEST_STATUSES,
+  summarizeServiceResponse,
+  type ServiceRequestStatus,
+  type ServiceRequestType,
+  type ServiceResponseStats
+} from '@cafe/utils/helpers/serviceRequest'
+import { ApiError } from '@/lib/api/errors'
+
+export type ServiceRequestAction = 'acknowledge' | 'complete' | 'dismiss'
+
+const ACTIONS: ServiceRequestAction[] = ['acknowledge', 'complete', 'dismiss']
+
+export interface ServiceRequest {
+  id: string
+  table_id: string
+  request_type: ServiceRequestType
+  message: string | null
+  diner_name: string | null
+  status: ServiceRequestStatus
+  acknowledged_at: string | null
+  acknowledged_by: string | null
+  completed_at: string | null
+  completed_by: string | null
+  created_at: string
+  table?: { id: string; table_number: string; zone: string | null } | null
+  acknowledged_employee?: { id: string; full_name: string } | null
+}
+
+export class ServiceRequestError extends ApiError {
+  name = 'ServiceRequestError'
+}
+
+const REQUEST_SELECT = `
+  *,
+  table:tables!table_id (
+    id,
+    table_number,
+    zone
+  ),
+  acknowledged_employee:employees!acknowledged_by (
+    id,
+    full_name
+  )
+`
+
+export async function listOpenServiceRequests(supabase: SupabaseClient): Promise<ServiceRequest[]> {
+  const { data, error } = await supabase
+    .from('service_requests')
+    .select(REQUEST_SELECT)
+    .in('status', OPEN_SERVICE_REQUEST_STATUSES)
+    .order('created_at', { ascending: true })
+
+  if (error) {
+    throw new ServiceRequestError(error.message, 500)
+  }
+  return (data || []) as ServiceRequest[]
+}
+
+/**
+ * Take, complete or dismiss a request. The owner's own employee record, if
+ * any, is recorded as the handler.
+ */
+export async function updateServiceRequest(
+  supabase: SupabaseClient,
+  id: string,
+  action: string,
+  userId: string
+): Promise<ServiceRequest> {
+  if (!ACTIONS.includes(action as ServiceRequestAction)) {
+    throw new ServiceRequestError(`Action must be one of: ${ACTIONS.join(', ')}`)
+  }
+
+  const { data: current, error: fetchError } = await supabase
+    .from('service_requests')
+    .select('id, status, acknowledged_at')
+    .eq('id', id)
+    .maybeSingle()
+
+  if (fetchError) {
+    throw new ServiceRequestError(fetchError.message, 500)
+  }
+  if (!current) {
+    throw new ServiceRequestError('Service request not found', 404)
+  }
+  if (
+    (action === 'acknowledge' && current.status !== 'pending') ||
+    !OPEN_SERVICE_REQUEST_STATUSES.includes(current.status)
+  ) {
+    throw new ServiceRequestError(`Service request is already ${current.status}`, 409)
+  }
+
+  const { data: employee } = await supabase
+    .from('employees')
+    .select('id')
+    .eq('user_id', userId)
+    .maybeSingle()
+  const employeeId = employee?.id || null
+
+  const now = new Date().toISOString()
+  const acknowledgement = current.acknowledged_at
+    ? {}
+    : { acknowledged_at: now, acknowledged_by: employeeId }
+
+  const changes =
+    action === 'acknowledge'
+      ? { status: 'acknowledged', ...acknowledgement }
+      : action === 'complete'
+        ? { status: 'completed', ...acknowledgement, completed_at: now, completed_by: employeeId }
+        : { status: 'cancelled', cancelled_at: now }
+
+  const { data: updated, error: updateError } = await supabase
+    .from('service_requests')
+    .update({ ...changes, updated_at: now })
+    .eq('id', id)
+    .eq('status', current.status)
+    .select(REQUEST_SELECT)
+    .maybeSingle()
+
+  if (updateError) {
+    throw new ServiceRequestError(updateError.message, 500)
+  }
+  if (!updated) {
+    throw new ServiceRequestError('Service request was updated by someone else', 409)
+  }
+
+  return updated as ServiceRequest
+}
+
+/**
+ * Requests handled per employee between two instants, with average
+ * response and completion times
+ */
+export async function getServiceResponseStats(
+  supabase: SupabaseClient,
+  start: string,
+  end: string
+): Promise<ServiceResponseStats[]> {
+  if (Number.isNaN(Date.parse(start)) || Number.isNaN(Date.parse(end))) {
+    throw new ServiceRequestError('start and end must be ISO timestamps')
+  }
+
+  const { data, error } = await supabase
+    .from('service_requests')
+    .select('status, created_at, acknowledged_at, acknowledged_by, completed_at, completed_by')
+    .gte('created_at', start)
+    .lte('created_at', end)
+
+  if (error) {
+    throw new ServiceRequestError(error.message, 500)
+  }
+
+  return summarizeServiceResponse(data || [])
+}
@@ -0,0 +1,294 @@
+/**
+ * Payroll generation
+ *
+ * Collects an employee's attendance, earlier payrolls of the tax year and
+ * the payroll/config system setting, runs the statutory payroll engine
+ * (BPJS, PPh 21 TER, Depnaker overtime) and builds the payroll row with its
+ * line-item breakdown for the payslip.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js'
+import {
+  DEFAULT_PAYROLL_SETTINGS,
+  JKK_RATES,
+  MONTHLY_WORKING_DAYS,
+  calculatePayroll,
+  type JkkRiskClass,
+  type OvertimeDay,
+  type PayrollBreakdown,
+  type PayrollHistoryEntry,
+  type PayrollLineItem,
+  type PayrollSettings,
+  type PtkpStatus,
+  type SalaryType
+} from '@cafe/utils/calculations/payroll'
+import { ApiError } from '@/lib/api/errors'
+
+export class PayrollError extends ApiError {
+  name = 'PayrollError'
+}
+
+// Overtime up to this many hours a day is approved automatically at clock-out
+const AUTO_APPROVED_OVERTIME_HOURS = 2
+
+const WORKED_STATUSES = ['present', 'late', 'half_day']
+
+export interface PayrollEmployeeRecord {
+  id: string
+  full_name: string
+  salary_type: SalaryType
+  salary_amount: number | string
+  ptkp_status?: PtkpStatus | null
+  npwp?: string | null
+  bpjs_kesehatan_enrolled?: boolean | null
+  bpjs_ketenagakerjaan_enrolled?: boolean | null
+  employment_status?: string | null
+  contract_end_date?: string | null
+}
+
+export interface PayrollPeriod {
+  month: number
+  year: number
+  periodStart: string // YYYY-MM-DD
+  periodEnd: string
+}
+
+export interface GeneratePayrollOptions {
+  allowances?: number
+  bonus?: number
+  latePenaltyPerDay?: number
+  deductions?: PayrollLineItem[]
+}
+
+export interface GeneratedPayroll {
+  record: Record<string, unknown>
+  breakdown: PayrollBreakdown
+}
+
+export const PAYROLL_EMPLOYEE_COLUMNS = `
+  id,
+  full_name,
+  salary_type,
+  salary_amount,
+  ptkp_status,
+  npwp,
+  bpjs_kesehatan_enrolled,
+  bpjs_ketenagakerjaan_enrolled,
+  employment_status,
+  contract_end_date
+`
+
+/**
+ * Calendar month period for a payroll month
+ */
+export function getPayrollPeriod(month: number, year: number): PayrollPeriod {
+  const lastDay = new Date(Date.UTC(year, month, 0)).getUTCDate()
+  const pad = (value: number) => String(value).padStart(2, '0')
+
+  return {
+    month,
+    year,
+    periodStart: `${year}-${pad(month)}-01`,
+    periodEnd: `${year}-${pad(month)}-${pad(lastDay)}`
+  }
+}
+
+/**
+ * Read the payroll/config system setting, filling defaults
+ */
+export async function loadPayrollSettings(supabase: SupabaseClient): Promise<PayrollSettings> {
+  const { data, error } = await supabase
+    .from('system_settings')
+    .select('value')
+    .eq('category', 'payroll')
+    .eq('key', 'config')
+    .maybeSingle()
+
+  if (error) {
+    throw new PayrollError(`Failed to load payroll settings: ${error.message}`, 500)
+  }
+
+  const raw = typeof data?.value === 'string' ? JSON.parse(data.value) : data?.value || {}
+  const kesehatanCap = Number(raw.bpjs_kesehatan_wage_cap)
+  const jpCap = Number(raw.jp_wage_cap)
+
+  return {
+    workWeek: Number(raw.work_week) === 5 ? 5 : 6,
+    jkkRiskClass: raw.jkk_risk_class in JKK_RATES
+      ? raw.jkk_risk_class as JkkRiskClass
+      : DEFAULT_PAYROLL_SETTINGS.jkkRiskClass,
+    bpjsKesehatanWageCap: kesehatanCap > 0 ? kesehatanCap : DEFAULT_PAYROLL_SETTINGS.bpjsKesehatanWageCap,
+    jpWageCap: jpCap > 0 ? jpCap : DEFAULT_PAYROLL_SETTINGS.jpWageCap
+  }
+}
+
+/**
+ * Earlier payrolls of the same tax year, for the December true-up
+ */
+async function loadPayrollHistory(
+  supabase: SupabaseClient,
+  employeeId: string,
+  period: PayrollPeriod
+): Promise<PayrollHistoryEntry[]> {
+  const { data, error } = await supabase
+    .from('payroll')
+    .select('month, gross_salary, taxable_income, tax_deduction, breakdown')
+    .eq('employee_id', employeeId)
+    .eq('year', period.year)
+    .lt('month', period.month)
+
+  if (error) {
+    throw new PayrollError(`Failed to load earlier payrolls: ${error.message}`, 500)
+  }
+
+  // Payrolls from before the statutory engine have no breakdown; their gross
+  // and tax columns are the best record of what was paid and withheld
+  return (data || []).map(row => ({
+    month: Number(row.month),
+    taxableGross: Number(row.taxable_income ?? row.gross_salary) || 0,
+    pph21: Number(row.breakdown?.pph21?.amount ?? row.tax_deduction) || 0,
+    pensionContributions: Number(row.breakdown?.pph21?.pensionContributions) || 0
+  }))
+}
+
+/**
+ * Build the payroll row for one employee and period
+ */
+export async function generateEmployeePayroll(
+  supabase: SupabaseClient,
+  employee: PayrollEmployeeRecord,
+  period: PayrollPeriod,
+  settings: PayrollSettings,
+  options: GeneratePayrollOptions = {}
+): Promise<GeneratedPayroll> {
+  const { data: attendances, error: attendanceError } = await supabase
+    .from('attendance')
+    .select('date, status, shift_type, regular_hours, total_hours, overtime_hours, overtime_approved')
+    .eq('employee_id', employee.id)
+    .gte('date', period.periodStart)
+    .lte('date', period.periodEnd)
+
+  if (attendanceError) {
+    throw new PayrollError(`Failed to load attendance: ${attendanceError.message}`, 500)
+  }
+
+  const records = attendances || []
+  const salaryAmount = Number(employee.salary_amount) || 0
+  const salaryType: SalaryType = employee.salary_type || 'monthly'
+
+  const presentDays = records.filter(att => WORKED_STATUSES.includes(att.status)).length
+  const daysWorked = records.reduce((sum, att) => {
+    if (att.status === 'half_day') return sum + 0.5
+    return WORKED_STATUSES.includes(att.status) ? sum + 1 : sum
+  }, 0)
+  const absentDays = records.filter(att => att.status === 'absent').length
+  const lateDays = records.filter(att => att.status === 'late').length
+  const regularHours = records.reduce((sum, att) => sum + (Number(att.regular_hours) || 0), 0)
+
+  // Work on a rest day or public holiday is overtime from the first hour
+  const overtime: OvertimeDay[] = []
+  for (const att of records) {
+    if (att.shift_type === 'holiday') {
+      const hours = Number(att.total_hours) || 0
+      if (hours > 0) overtime.push({ date: att.date, hours, dayType: 'holiday' })
+      continue
+    }
+
+    const hours = Number(att.overtime_hours) || 0
+    if (hours > 0 && (att.overtime_approved || hours <= AUTO_APPROVED_OVERTIME_HOURS)) {
+      overtime.push({ date: att.date, hours, dayType: 'workday' })
+    }
+  }
+
+  // Monthly salaries lose a day's wage per absence; daily and hourly wages
+  // are only paid for the time worked
+  const deductions: PayrollLineItem[] = []
+  if (salaryType === 'monthly' && absentDays > 0) {
+    const dailyWage = salaryAmount / MONTHLY_WORKING_DAYS[settings.workWeek]
+    deductions.push({
+      code: 'absence',
+      label: 'Potongan Ketidakhadiran',
+      amount: Math.round(dailyWage * absentDays),
+      note: `${absentDays} hari`
+    })
+  }
+  if (options.latePenaltyPerDay && lateDays > 0) {
+    deductions.push({
+      code: 'late',
+      label: 'Potongan Keterlambatan',
+      amount: Math.round(options.latePenaltyPerDay * lateDays),
+      note: `${lateDays} hari`
+    })
+  }
+  deductions.push(...(options.deductions || []))
+
+  const history = await loadPayrollHistory(supabase, employee.id, period)
+  const finalPeriod = employee.employment_status === 'terminated' ||
+    (!!employee.contract_end_date && employee.contract_end_date <= period.periodEnd)
+
+  const breakdown = calculatePayroll({
+    employee: {
+      salaryType,
+      salaryAmount,
+      ptkpStatus: employee.ptkp_status || 'TK/0',
+      hasNpwp: !!employee.npwp,
+      bpjsKesehatan: employee.bpjs_kesehatan_enrolled !== false,
+      bpjsKetenagakerjaan: employee.bpjs_ketenagakerjaan_enrolled !== false
+    },
+    month: period.month,
+    year: period.year,
+    daysWorked,
+    hoursWorked: regularHours,
+    overtime,
+    allowances: options.allowances,
+    bonus: options.bonus,
+    deductions,
+    history,
+    finalPeriod,
+    settings
+  })
+
+  const lineAmount = (code: string) =>
+    breakdown.deductions.filter(line => line.code === code).reduce((sum, line) => sum + line.amount, 0)
+  const now = new Date().toISOString()
+
+  return {
+    breakdown,
+    record: {
+      employee_id: employee.id,
+      month: period.month,
+      year: period.year,
+      period_start: period.periodStart,
+      period_end: period.periodEnd,
+      total_days: new Date(`${period.periodEnd}T00:00:00Z`).getUTCDate(),
+      present_days: presentDays,
+      absent_days: absentDays,
+      late_days: lateDays,
+      holiday_days: records.filter(att => att.shift_type === 'holiday').length,
+      regular_hours: Math.round(regularHours * 100) / 100,
+      overtime_hours: breakdown.overtime.hours,
+      basic_salary: breakdown.basicSalary,
+      overtime_pay: breakdown.overtime.pay,
+      allowances: Math.round(options.allowances || 0),
+      bonus: Math.round(options.bonus || 0),
+      gross_salary: breakdown.grossSalary,
+      tax_deduction: Math.max(0, breakdown.pph21.amount),
+      insurance_deduction: breakdown.bpjsEmployee,
+      late_deduction: lineAmount('late'),
+      absence_deduction: lineAmount('absence'),
+      other_deductions: lineAmount('loan') + lineAmount('other'),
+      total_deductions: breakdown.totalDeductions,
+      net_salary: breakdown.netSalary,
+      taxable_income: breakdown.pph21.taxableGross,
+      employer_contributions: breakdown.employerCost - breakdown.grossSalary,
+      ter_category: breakdown.pph21.category,
+      ter_rate: breakdown.pph21.rate,
+      breakdown,
+      payment_method: 'transfer',
+      payment_status: 'pending',
+      generated_at: now,
+      created_at: now,
+      updated_at: now
+    }
+  }
+}
@@ -0,0 +1,29 @@
+/**
+ * Raw TCP transport for network thermal printers
+ *
+ * ESC/POS printers accept print data on port 9100 (JetDirect/"raw"). The
+ * bytes are written as-is and the connection is closed once flushed.
+ */
+
+import net from 'node:net'
+import type { PrintTransport } from '@cafe/utils/printing'
+
+// Applies to connecting and to each stalled write
+export const PRINTER_TIMEOUT_MS = 5000
+
+export const sendToNetworkPrinter: PrintTransport = ({ host, port }, data) =>
+  new Promise<void>((resolve, reject) => {
+    const socket = net.createConnection({ host, port })
+
+    socket.setTimeout(PRINTER_TIMEOUT_MS)
+    socket.once('timeout', () => {
+      socket.destroy(new Error(`Printer ${host}:${port} did not respond`))
+    })
+    socket.once('error', error => reject(error))
+    socket.once('connect', () => {
+      socket.end(Buffer.from(data), () => {
+        socket.destroy()
+        resolve()
+      })
+    })
+  })
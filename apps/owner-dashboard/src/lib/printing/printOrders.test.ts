@@ -0,0 +1,290 @@
+import net from 'node:net'
+import type { SupabaseClient } from '@supabase/supabase-js'
+import type { PrinterConfig } from '@cafe/utils/printing'
+import { previewEscPos, startFakePrinter, type FakePrinter } from '../../../scripts/fake-printer'
+import { sendToNetworkPrinter } from './networkPrinter'
+import { PrintError, printOrder, printTestPage } from './printOrders'
+
+interface FakeRows {
+  settings: Record<string, unknown> // 'category/key' -> value
+  order: Record<string, unknown> | null
+  options?: Array<{ id: string; option_name: string }>
+}
+
+/**
+ * Just the queries printOrder makes: settings and the order by eq() and
+ * maybeSingle(), customization names by in()
+ */
+function fakeSupabase(rows: FakeRows): SupabaseClient {
+  return {
+    from: (table: string) => {
+      const filters: Record<string, unknown> = {}
+      const query = {
+        select: () => query,
+        eq: (column: string, value: unknown) => {
+          filters[column] = value
+          return query
+        },
+        in: async (_column: string, ids: string[]) => ({
+          data: (rows.options || []).filter(option => ids.includes(option.id)),
+          error: null
+        }),
+        maybeSingle: async () => {
+          if (table === 'system_settings') {
+            const value = rows.settings[`${filters.category}/${filters.key}`]
+            return { data: value === undefined ? null : { value }, error: null }
+          }
+          return { data: rows.order, error: null }
+        }
+      }
+      return query
+    }
+  } as unknown as SupabaseClient
+}
+
+function printer(id: string, type: PrinterConfig['type'], port: number, overrides: Partial<PrinterConfig> = {}): PrinterConfig {
+  return {
+    id,
+    name: `Printer ${id}`,
+    type,
+    ipAddress: '127.0.0.1',
+    port: String(port),
+    enabled: true,
+    paperWidth: 80,
+    ...overrides
+  }
+}
+
+// A port nothing listens on: listen on a free one and close it again
+async function closedPort(): Promise<number> {
+  const server = net.createServer()
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve))
+  const { port } = server.address() as net.AddressInfo
+  await new Promise<void>(resolve => server.close(() => resolve()))
+  return port
+}
+
+const order = {
+  id: 'order-1',
+  order_number: 'ORD-0042',
+  created_at: '2026-10-19T05:30:00Z',
+  customer_name: 'Sari',
+  customer_notes: 'Tanpa es batu',
+  order_type: 'dine_in',
+  payment_method: 'qris',
+  subtotal: 65000,
+  tax_amount: 7150,
+  service_charge: 3250,
+  discount_amount: 0,
+  total_amount: 75400,
+  table: { table_number: 7 },
+  items: [
+    {
+      item_name: 'Nasi Goreng',
+      item_price: 35000,
+      customization_price: 0,
+      quantity: 1,
+      subtotal: 35000,
+      customizations: { spice: ['opt-pedas'] },
+      notes: 'Telur setengah matang',
+      status: 'pending',
+      menu_item: { category: { slug: 'main-course' } }
+    },
+    {
+      item_name: 'Kopi Susu',
+      item_price: 15000,
+      customization_price: 0,
+      quantity: 2,
+      subtotal: 30000,
+      customizations: {},
+      notes: null,
+      status: 'pending',
+      menu_item: { category: { slug: 'coffee' } }
+    },
+    {
+      item_name: 'Es Teh',
+      item_price: 8000,
+      customization_price: 0,
+      quantity: 1,
+      subtotal: 8000,
+      customizations: {},
+      notes: null,
+      status: 'cancelled',
+      menu_item: { category: { slug: 'non-coffee' } }
+    }
+  ]
+}
+
+const cafeSettings = {
+  'cafe/info': { name: 'Kopi Senja', address: 'Jl. Merdeka 1', phone: '0812-0000-0000' },
+  'tax/rates': { ppn: 11, service: 5 }
+}
+
+describe('printing to the fake printer', () => {
+  let kitchen: FakePrinter
+  let bar: FakePrinter
+  let receipt: FakePrinter
+
+  beforeEach(async () => {
+    [kitchen, bar, receipt] = await Promise.all([startFakePrinter(), startFakePrinter(), startFakePrinter()])
+  })
+
+  afterEach(async () => {
+    await Promise.all([kitchen.close(), bar.close(), receipt.close()])
+  })
+
+  it('delivers the bytes over TCP unchanged', async () => {
+    const data = Uint8Array.from([0x1b, 0x40, 0x41, 0x42, 0x0a, 0x1d, 0x56, 0x42, 0x03])
+
+    await sendToNetworkPrinter({ host: '127.0.0.1', port: kitchen.port }, data)
+
+    expect((await kitchen.nextJob()).data).toEqual(data)
+  })
+
+  it('prints the receipt and the kitchen and bar tickets of an order', async () => {
+    const supabase = fakeSupabase({
+      settings: {
+        ...cafeSettings,
+        'printers/config': {
+          printers: [
+            printer('k', 'kitchen', kitchen.port),
+            printer('b', 'bar', bar.port),
+            printer('r', 'receipt', receipt.port)
+          ],
+          bar_categories: ['coffee', 'non-coffee']
+        }
+      },
+      order,
+      options: [{ id: 'opt-pedas', option_name: 'Pedas' }]
+    })
+
+    const results = await printOrder(supabase, 'order-1')
+
+    expect(results.map(result => [result.printer_id, result.kind, result.success])).toEqual([
+      ['k', 'kitchen', true],
+      ['b', 'bar', true],
+      ['r', 'receipt', true]
+    ])
+
+    const kitchenTicket = previewEscPos((await kitchen.nextJob()).data)
+    expect(kitchenTicket).toMatch(/^\[INIT\]\[CENTER\]\[BOLD\]\[BIG\]DAPUR\n/)
+    expect(kitchenTicket).toContain('No: ORD-0042')
+    expect(kitchenTicket).toContain('Meja: 7')
+    expect(kitchenTicket).toContain('1x Nasi Goreng')
+    expect(kitchenTicket).toContain('   + Pedas')
+    expect(kitchenTicket).toContain('   Catatan: Telur setengah matang')
+    expect(kitchenTicket).toContain('Tanpa es batu')
+    expect(kitchenTicket).not.toContain('Kopi Susu')
+    expect(kitchenTicket).toMatch(/\[CUT\]\n$/)
+
+    const barTicket = previewEscPos((await bar.nextJob()).data)
+    expect(barTicket).toContain('BAR')
+    expect(barTicket).toContain('2x Kopi Susu')
+    expect(barTicket).not.toContain('Nasi Goreng')
+    // Cancelled items are not made
+    expect(barTicket).not.toContain('Es Teh')
+
+    const receiptText = previewEscPos((await receipt.nextJob()).data)
+    expect(receiptText).toContain('Kopi Senja')
+    expect(receiptText).toContain('Jl. Merdeka 1')
+    expect(receiptText).toMatch(/PPN 11% +Rp 7\.150\n/)
+    expect(receiptText).toMatch(/Service 5% +Rp 3\.250\n/)
+    expect(receiptText).toMatch(/\[BOLD\]TOTAL +Rp 75\.400\n\[\/BOLD\]/)
+    expect(receiptText).toMatch(/Pembayaran +QRIS\n/)
+    expect(receiptText.split('\n').every(line => line.replace(/\[[A-Z/]+\]/g, '').length <= 48)).toBe(true)
+  })
+
+  it('sends bar items to the kitchen when no bar printer is enabled', async () => {
+    const supabase = fakeSupabase({
+      settings: {
+        'printers/config': {
+          printers: [
+            printer('k', 'kitchen', kitchen.port),
+            printer('b', 'bar', bar.port, { enabled: false })
+          ]
+        }
+      },
+      order
+    })
+
+    const results = await printOrder(supabase, 'order-1', { tickets: true })
+
+    expect(results).toHaveLength(1)
+    const ticket = previewEscPos((await kitchen.nextJob()).data)
+    expect(ticket).toContain('1x Nasi Goreng')
+    expect(ticket).toContain('2x Kopi Susu')
+    expect(bar.jobs).toHaveLength(0)
+  })
+
+  it('marks reprinted receipts', async () => {
+    const supabase = fakeSupabase({
+      settings: {
+        ...cafeSettings,
+        'printers/config': { printers: [printer('r', 'receipt', receipt.port)] }
+      },
+      order
+    })
+
+    await printOrder(supabase, 'order-1', { receipt: true, reprint: true })
+
+    expect(previewEscPos((await receipt.nextJob()).data)).toContain('*** CETAK ULANG ***')
+  })
+
+  it('still prints on the other printers when one cannot be reached', async () => {
+    const supabase = fakeSupabase({
+      settings: {
+        ...cafeSettings,
+        'printers/config': {
+          printers: [
+            printer('k', 'kitchen', await closedPort()),
+            printer('b', 'bar', bar.port),
+            printer('r', 'receipt', receipt.port)
+          ]
+        }
+      },
+      order
+    })
+
+    const results = await printOrder(supabase, 'order-1')
+
+    const kitchenResult = results.find(result => result.printer_id === 'k')
+    expect(kitchenResult?.success).toBe(false)
+    expect(kitchenResult?.error).toBeTruthy()
+    expect(results.filter(result => result.success).map(result => result.printer_id)).toEqual(['b', 'r'])
+
+    expect(previewEscPos((await bar.nextJob()).data)).toContain('2x Kopi Susu')
+    expect(previewEscPos((await receipt.nextJob()).data)).toContain('TOTAL')
+  })
+
+  it('rejects a print request without an enabled printer', async () => {
+    const supabase = fakeSupabase({
+      settings: {
+        'printers/config': { printers: [printer('k', 'kitchen', kitchen.port, { enabled: false })] }
+      },
+      order
+    })
+
+    const request = printOrder(supabase, 'order-1')
+
+    await expect(request).rejects.toThrow(PrintError)
+    await expect(request).rejects.toMatchObject({ status: 409 })
+    expect(kitchen.jobs).toHaveLength(0)
+  })
+
+  it('rejects an unknown order', async () => {
+    const supabase = fakeSupabase({ settings: {}, order: null })
+
+    await expect(printOrder(supabase, 'missing')).rejects.toMatchObject({ status: 404 })
+  })
+
+  it('prints a test page on the printer width', async () => {
+    const result = await printTestPage(printer('t', 'receipt', receipt.port, { name: 'Kasir', paperWidth: 58 }))
+
+    expect(result.success).toBe(true)
+    const page = previewEscPos((await receipt.nextJob()).data)
+    expect(page).toContain('TES PRINTER')
+    expect(page).toContain('Kasir')
+    expect(page).toContain(`Kiri${' '.repeat(32 - 'Kiri'.length - 'Kanan'.length)}Kanan`)
+    expect(page).toContain('='.repeat(32))
+  })
+})
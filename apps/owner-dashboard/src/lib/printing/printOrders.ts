@@ -0,0 +1,215 @@
+/**
+ * Order printing
+ *
+ * Loads an order with its printer, cafe and tax settings and sends the
+ * customer receipt and kitchen/bar tickets to the configured network
+ * printers. Printer setup lives in the printers/config system setting.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js'
+import {
+  buildReceiptJobs,
+  buildStationJobs,
+  dispatchPrintJobs,
+  parsePrinterSettings,
+  renderTestTicket,
+  type PrinterConfig,
+  type PrinterSettings,
+  type PrintJobResult,
+  type PrintOrder,
+  type PrintTransport,
+  type ReceiptCafeInfo,
+  type ReceiptTaxRates
+} from '@cafe/utils/printing'
+import { ApiError } from '@/lib/api/errors'
+import { sendToNetworkPrinter } from './networkPrinter'
+
+export class PrintError extends ApiError {
+  name = 'PrintError'
+}
+
+export interface PrintOrderOptions {
+  receipt?: boolean
+  tickets?: boolean
+  reprint?: boolean
+}
+
+const DEFAULT_TAX_RATES: ReceiptTaxRates = { ppn: 11, service: 5 }
+
+async function getSettingValue(supabase: SupabaseClient, category: string, key: string) {
+  const { data, error } = await supabase
+    .from('system_settings')
+    .select('value')
+    .eq('category', category)
+    .eq('key', key)
+    .maybeSingle()
+
+  if (error) {
+    throw new PrintError(`Failed to load ${category}/${key} setting: ${error.message}`, 500)
+  }
+
+  const value = data?.value
+  return typeof value === 'string' ? JSON.parse(value) : value
+}
+
+export async function loadPrinterSettings(supabase: SupabaseClient): Promise<PrinterSettings> {
+  return parsePrinterSettings(await getSettingValue(supabase, 'printers', 'config'))
+}
+
+async function loadReceiptSettings(supabase: SupabaseClient): Promise<{
+  cafe: ReceiptCafeInfo
+  taxRates: ReceiptTaxRates
+}> {
+  const [cafeInfo, rates] = await Promise.all([
+    getSettingValue(supabase, 'cafe', 'info'),
+    getSettingValue(supabase, 'tax', 'rates')
+  ])
+
+  const ppn = Number(rates?.ppn)
+  const service = Number(rates?.service)
+
+  return {
+    cafe: {
+      name: cafeInfo?.name || 'Cafe',
+      address: cafeInfo?.address || undefined,
+      phone: cafeInfo?.phone || undefined,
+      email: cafeInfo?.email || undefined
+    },
+    taxRates: {
+      ppn: Number.isFinite(ppn) && ppn >= 0 ? ppn : DEFAULT_TAX_RATES.ppn,
+      service: Number.isFinite(service) && service >= 0 ? service : DEFAULT_TAX_RATES.service
+    }
+  }
+}
+
+/**
+ * Order with its items, category slugs and customization names
+ */
+export async function loadPrintOrder(supabase: SupabaseClient, orderId: string): Promise<PrintOrder> {
+  const { data: order, error } = await supabase
+    .from('orders')
+    .select(`
+      id, order_number, created_at, customer_name, customer_notes, order_type,
+      payment_method, subtotal, tax_amount, service_charge, discount_amount, total_amount,
+      table:tables(table_number),
+      items:order_items(
+        item_name, item_price, customization_price, quantity, subtotal,
+        customizations, notes, status,
+        menu_item:menu_items(category:menu_categories(slug))
+      )
+    `)
+    .eq('id', orderId)
+    .maybeSingle()
+
+  if (error) {
+    throw new PrintError(`Failed to load order: ${error.message}`, 500)
+  }
+  if (!order) {
+    throw new PrintError('Order not found', 404)
+  }
+
+  const items = ((order as any).items || []).filter((item: any) => item.status !== 'cancelled')
+
+  // Customizations are stored as { groupId: [optionId] }
+  const optionIds = [
+    ...new Set<string>(
+      items.flatMap((item: any) => Object.values(item.customizations || {}).flat() as string[])
+    )
+  ]
+  const optionNames = new Map<string, string>()
+
+  if (optionIds.length > 0) {
+    const { data: options, error: optionsError } = await supabase
+      .from('menu_customization_options')
+      .select('id, option_name')
+      .in('id', optionIds)
+
+    if (optionsError) {
+      throw new PrintError(`Failed to load customizations: ${optionsError.message}`, 500)
+    }
+
+    for (const option of options || []) {
+      optionNames.set(option.id, option.option_name)
+    }
+  }
+
+  const table = Array.isArray((order as any).table) ? (order as any).table[0] : (order as any).table
+
+  return {
+    order_number: order.order_number,
+    created_at: order.created_at,
+    table_number: table?.table_number != null ? String(table.table_number) : null,
+    customer_name: order.customer_name,
+    order_type: order.order_type,
+    notes: order.customer_notes,
+    payment_method: order.payment_method,
+    subtotal: Number(order.subtotal) || 0,
+    tax_amount: Number(order.tax_amount) || 0,
+    service_charge: Number(order.service_charge) || 0,
+    discount_amount: Number(order.discount_amount) || 0,
+    total_amount: Number(order.total_amount) || 0,
+    items: items.map((item: any) => ({
+      name: item.item_name,
+      quantity: item.quantity,
+      unit_price: (Number(item.item_price) || 0) + (Number(item.customization_price) || 0),
+      subtotal: Number(item.subtotal) || 0,
+      options: (Object.values(item.customizations || {}).flat() as string[])
+        .map(id => optionNames.get(id))
+        .filter((name): name is string => !!name),
+      notes: item.notes,
+      category: item.menu_item?.category?.slug ?? null
+    }))
+  }
+}
+
+/**
+ * Print an order's receipt and/or station tickets
+ */
+export async function printOrder(
+  supabase: SupabaseClient,
+  orderId: string,
+  options: PrintOrderOptions = { receipt: true, tickets: true },
+  transport: PrintTransport = sendToNetworkPrinter
+): Promise<PrintJobResult[]> {
+  const [order, settings] = await Promise.all([
+    loadPrintOrder(supabase, orderId),
+    loadPrinterSettings(supabase)
+  ])
+
+  const jobs = options.tickets
+    ? buildStationJobs(order, settings, { reprint: options.reprint })
+    : []
+
+  if (options.receipt) {
+    const { cafe, taxRates } = await loadReceiptSettings(supabase)
+    jobs.push(...buildReceiptJobs(order, settings, cafe, taxRates, { reprint: options.reprint }))
+  }
+
+  if (jobs.length === 0) {
+    throw new PrintError('No enabled printer for this print request', 409)
+  }
+
+  return dispatchPrintJobs(jobs, transport)
+}
+
+/**
+ * Send a test page to a printer, saved or not
+ */
+export async function printTestPage(
+  printer: PrinterConfig,
+  transport: PrintTransport = sendToNetworkPrinter
+): Promise<PrintJobResult> {
+  if (!printer.ipAddress) {
+    throw new PrintError('Printer IP address is required')
+  }
+
+  const [result] = await dispatchPrintJobs(
+    [{
+      printer,
+      kind: printer.type,
+      data: renderTestTicket(printer.name, { paperWidth: printer.paperWidth })
+    }],
+    transport
+  )
+  return result
+}
@@ -0,0 +1,699 @@
+/**
+ * Purchase order lifecycle and receiving
+ *
+ * Status flow: draft -> sent -> confirmed -> partial_received -> completed
+ * (cancelled from any status before goods arrive). Receiving a PO line
+ * records a `purchase` stock movement; the stock triggers add it to
+ * ingredients.current_stock and create the stock batch, which is then linked
+ * back to the PO line for the variance view.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { todayBusinessDate } from '@cafe/utils/helpers/businessCalendar'
+import { ApiError } from '@/lib/api/errors'
+import { loadBusinessCalendar } from '@/lib/calendar/businessCalendar'
+
+export type PurchaseOrderStatus =
+  | 'draft'
+  | 'sent'
+  | 'confirmed'
+  | 'partial_received'
+  | 'completed'
+  | 'cancelled'
+
+// Manual status changes; partial_received/completed are also set by receiving
+export const PO_STATUS_TRANSITIONS: Record<PurchaseOrderStatus, PurchaseOrderStatus[]> = {
+  draft: ['sent', 'cancelled'],
+  sent: ['confirmed', 'cancelled'],
+  confirmed: ['cancelled'],
+  partial_received: ['completed'], // close short, remaining quantity is not coming
+  completed: [],
+  cancelled: []
+}
+
+export const RECEIVABLE_STATUSES: PurchaseOrderStatus[] = ['sent', 'confirmed', 'partial_received']
+
+// Timestamp column written when a PO enters a status
+const STATUS_TIMESTAMPS: Partial<Record<PurchaseOrderStatus, string>> = {
+  sent: 'sent_at',
+  confirmed: 'confirmed_at',
+  completed: 'completed_at',
+  cancelled: 'cancelled_at'
+}
+
+export interface PurchaseOrderItemInput {
+  ingredient_id: string
+  quantity_ordered: number
+  unit_price: number
+  tax_rate?: number
+  notes?: string
+}
+
+export interface PurchaseOrderInput {
+  supplier_id: string
+  order_date?: string
+  expected_delivery?: string
+  delivery_fee?: number
+  discount_amount?: number
+  notes?: string
+  items: PurchaseOrderItemInput[]
+}
+
+export interface ReceiveLineInput {
+  item_id: string
+  quantity: number
+  unit_cost?: number // defaults to the ordered unit price
+  expiry_date?: string
+  manufacturing_date?: string
+  batch_number?: string
+}
+
+export interface ReceivedLine {
+  item_id: string
+  ingredient_id: string
+  quantity: number
+  unit_cost: number
+  batch_id: string | null
+  batch_number: string
+  movement_id: string
+  delivered_quantity: number
+  ordered_quantity: number
+}
+
+export interface ReceiveResult {
+  purchase_order_id: string
+  status: PurchaseOrderStatus
+  received: ReceivedLine[]
+  total_received_value: number
+}
+
+export class PurchaseOrderError extends ApiError {
+  name = 'PurchaseOrderError'
+}
+
+const round2 = (value: number) => Math.round(value * 100) / 100
+const round3 = (value: number) => Math.round(value * 1000) / 1000
+
+/**
+ * Check whether a manual status change is allowed
+ */
+export function canTransition(from: PurchaseOrderStatus, to: PurchaseOrderStatus): boolean {
+  return PO_STATUS_TRANSITIONS[from]?.includes(to) ?? false
+}
+
+/**
+ * Build purchase_order_items rows and PO totals from the submitted lines
+ */
+export function buildPurchaseOrderLines(
+  items: PurchaseOrderItemInput[],
+  ingredientUnits: Map<string, string>
+) {
+  if (!Array.isArray(items) || items.length === 0) {
+    throw new PurchaseOrderError('At least one item is required')
+  }
+
+  const lines = items.map((item, index) => {
+    const quantity = Number(item.quantity_ordered)
+    const unitPrice = Number(item.unit_price)
+    const taxRate = Number(item.tax_rate ?? 0)
+    const unit = ingredientUnits.get(item.ingredient_id)
+
+    if (!unit) {
+      throw new PurchaseOrderError(`Item ${index + 1}: ingredient not found`)
+    }
+    if (!Number.isFinite(quantity) || quantity <= 0) {
+      throw new PurchaseOrderError(`Item ${index + 1}: quantity must be greater than 0`)
+    }
+    if (!Number.isFinite(unitPrice) || unitPrice < 0) {
+      throw new PurchaseOrderError(`Item ${index + 1}: unit price cannot be negative`)
+    }
+
+    const subtotal = round2(quantity * unitPrice)
+    const taxAmount = round2(subtotal * taxRate / 100)
+
+    return {
+      ingredient_id: item.ingredient_id,
+      quantity,
+      unit,
+      unit_price: unitPrice,
+      subtotal,
+      tax_rate: taxRate,
+      tax_amount: taxAmount,
+      total: round2(subtotal + taxAmount),
+      delivered_quantity: 0,
+      notes: item.notes || null
+    }
+  })
+
+  const subtotal = round2(lines.reduce((sum, line) => sum + line.subtotal, 0))
+  const taxAmount = round2(lines.reduce((sum, line) => sum + line.tax_amount, 0))
+
+  return { lines, subtotal, tax_amount: taxAmount }
+}
+
+/**
+ * Load ingredient units for the submitted lines
+ */
+async function loadIngredientUnits(
+  supabase: SupabaseClient,
+  items: PurchaseOrderItemInput[]
+): Promise<Map<string, string>> {
+  const ids = [...new Set((items || []).map(item => item.ingredient_id).filter(Boolean))]
+  if (ids.length === 0) return new Map()
+
+  const { data, error } = await supabase
+    .from('ingredients')
+    .select('id, unit')
+    .in('id', ids)
+
+  if (error) {
+    throw new PurchaseOrderError(`Failed to load ingredients: ${error.message}`, 500)
+  }
+
+  return new Map((data || []).map((ingredient: any) => [ingredient.id, ingredient.unit]))
+}
+
+/**
+ * Create a draft purchase order with its items
+ */
+export async function createPurchaseOrder(
+  supabase: SupabaseClient,
+  input: PurchaseOrderInput,
+  userId?: string
+) {
+  if (!input.supplier_id) {
+    throw new PurchaseOrderError('Missing required field: supplier_id')
+  }
+
+  const units = await loadIngredientUnits(supabase, input.items)
+  const { lines, subtotal, tax_amount } = buildPurchaseOrderLines(input.items, units)
+  const deliveryFee = Number(input.delivery_fee) || 0
+  const discountAmount = Number(input.discount_amount) || 0
+
+  const { data: po, error } = await supabase
+    .from('purchase_orders')
+    .insert([{
+      supplier_id: input.supplier_id,
+      order_date: input.order_date || todayBusinessDate(await loadBusinessCalendar(supabase)),
+      expected_delivery: input.expected_delivery || null,
+      status: 'draft',
+      subtotal,
+      tax_amount,
+      delivery_fee: deliveryFee,
+      discount_amount: discountAmount,
+      total_amount: round2(subtotal + tax_amount + deliveryFee - discountAmount),
+      notes: input.notes || null,
+      created_by: userId || null
+    }])
+    .select()
+    .single()
+
+  if (error || !po) {
+    throw new PurchaseOrderError(`Failed to create purchase order: ${error?.message}`, 500)
+  }
+
+  const { error: itemsError } = await supabase
+    .from('purchase_order_items')
+    .insert(lines.map(line => ({ ...line, po_id: po.id })))
+
+  if (itemsError) {
+    // Don't leave a PO without items behind
+    await supabase.from('purchase_orders').delete().eq('id', po.id)
+    throw new PurchaseOrderError(`Failed to create purchase order items: ${itemsError.message}`, 500)
+  }
+
+  return po
+}
+
+/**
+ * Replace the items and header fields of a draft purchase order
+ */
+export async function updateDraftPurchaseOrder(
+  supabase: SupabaseClient,
+  poId: string,
+  input: Partial<PurchaseOrderInput>
+) {
+  const po = await getPurchaseOrderHeader(supabase, poId)
+
+  if (po.status !== 'draft') {
+    throw new PurchaseOrderError('Only draft purchase orders can be edited', 409)
+  }
+
+  const updates: Record<string, any> = {}
+  for (const field of ['supplier_id', 'order_date', 'expected_delivery', 'notes'] as const) {
+    if (input[field] !== undefined) updates[field] = input[field] || null
+  }
+  if (input.delivery_fee !== undefined) updates.delivery_fee = Number(input.delivery_fee) || 0
+  if (input.discount_amount !== undefined) updates.discount_amount = Number(input.discount_amount) || 0
+
+  const deliveryFee = updates.delivery_fee ?? Number(po.delivery_fee) ?? 0
+  const discountAmount = updates.discount_amount ?? Number(po.discount_amount) ?? 0
+
+  if (input.items) {
+    const units = await loadIngredientUnits(supabase, input.items)
+    const { lines, subtotal, tax_amount } = buildPurchaseOrderLines(input.items, units)
+
+    const { error: deleteError } = await supabase
+      .from('purchase_order_items')
+      .delete()
+      .eq('po_id', poId)
+
+    if (deleteError) {
+      throw new PurchaseOrderError(`Failed to update items: ${deleteError.message}`, 500)
+    }
+
+    const { error: insertError } = await supabase
+      .from('purchase_order_items')
+      .insert(lines.map(line => ({ ...line, po_id: poId })))
+
+    if (insertError) {
+      throw new PurchaseOrderError(`Failed to update items: ${insertError.message}`, 500)
+    }
+
+    updates.subtotal = subtotal
+    updates.tax_amount = tax_amount
+  }
+
+  const subtotal = updates.subtotal ?? Number(po.subtotal)
+  const taxAmount = updates.tax_amount ?? Number(po.tax_amount)
+  updates.total_amount = round2(subtotal + taxAmount + deliveryFee - discountAmount)
+
+  const { data, error } = await supabase
+    .from('purchase_orders')
+    .update(updates)
+    .eq('id', poId)
+    .select()
+    .single()
+
+  if (error) {
+    throw new PurchaseOrderError(`Failed to update purchase order: ${error.message}`, 500)
+  }
+
+  return data
+}
+
+/**
+ * Load a purchase order header or fail with 404
+ */
+export async function getPurchaseOrderHeader(supabase: SupabaseClient, poId: string) {
+  const { data, error } = await supabase
+    .from('purchase_orders')
+    .select('*')
+    .eq('id', poId)
+    .single()
+
+  if (error || !data) {
+    throw new PurchaseOrderError('Purchase order not found', 404)
+  }
+
+  return data
+}
+
+/**
+ * Move a purchase order to a new status (manual transitions only)
+ */
+export async function updatePurchaseOrderStatus(
+  supabase: SupabaseClient,
+  poId: string,
+  status: PurchaseOrderStatus,
+  userId?: string,
+  reason?: string
+) {
+  const po = await getPurchaseOrderHeader(supabase, poId)
+
+  if (!canTransition(po.status, status)) {
+    throw new PurchaseOrderError(`Cannot change status from ${po.status} to ${status}`, 409)
+  }
+
+  const now = new Date().toISOString()
+  const updates: Record<string, any> = { status }
+  const timestampColumn = STATUS_TIMESTAMPS[status]
+  if (timestampColumn) updates[timestampColumn] = now
+
+  if (status === 'confirmed') {
+    updates.approved_by = userId || null
+    updates.approved_at = now
+  }
+  if (status === 'cancelled') {
+    updates.cancellation_reason = reason || null
+  }
+
+  // Guard against a concurrent change (e.g. a delivery being received)
+  const { data, error } = await supabase
+    .from('purchase_orders')
+    .update(updates)
+    .eq('id', poId)
+    .eq('status', po.status)
+    .select()
+    .maybeSingle()
+
+  if (error) {
+    throw new PurchaseOrderError(`Failed to update status: ${error.message}`, 500)
+  }
+  if (!data) {
+    throw new PurchaseOrderError('Purchase order was changed by someone else, please reload', 409)
+  }
+
+  return data
+}
+
+/**
+ * Receive (part of) a delivery against a purchase order.
+ * Each line creates a stock batch with its expiry date and a stock-in
+ * movement, and updates the ingredient's purchase and average cost.
+ */
+export async function receivePurchaseOrder(
+  supabase: SupabaseClient,
+  poId: string,
+  lines: ReceiveLineInput[],
+  options: { userId?: string; allowOverReceipt?: boolean } = {}
+): Promise<ReceiveResult> {
+  const po = await getPurchaseOrderHeader(supabase, poId)
+
+  if (!RECEIVABLE_STATUSES.includes(po.status)) {
+    throw new PurchaseOrderError(`Cannot receive a purchase order with status ${po.status}`, 409)
+  }
+
+  if (!Array.isArray(lines) || lines.length === 0) {
+    throw new PurchaseOrderError('At least one received line is required')
+  }
+
+  const { data: items, error: itemsError } = await supabase
+    .from('purchase_order_items')
+    .select('id, ingredient_id, quantity, unit, unit_price, delivered_quantity')
+    .eq('po_id', poId)
+
+  if (itemsError) {
+    throw new PurchaseOrderError(`Failed to load purchase order items: ${itemsError.message}`, 500)
+  }
+
+  const itemsById = new Map((items || []).map((item: any) => [item.id, item]))
+  // Expiry and receipt dates are the cafe's business day, not the UTC date
+  const today = todayBusinessDate(await loadBusinessCalendar(supabase))
+
+  // Validate everything before touching stock
+  const seen = new Set<string>()
+  const validated = lines.map((line, index) => {
+    const item = itemsById.get(line.item_id)
+    const quantity = Number(line.quantity)
+    const unitCost = line.unit_cost !== undefined && line.unit_cost !== null
+      ? Number(line.unit_cost)
+      : Number(item?.unit_price)
+
+    if (!item) {
+      throw new PurchaseOrderError(`Line ${index + 1}: item does not belong to this purchase order`)
+    }
+    if (seen.has(item.id)) {
+      throw new PurchaseOrderError(`Line ${index + 1}: item is listed more than once`)
+    }
+    seen.add(item.id)
+
+    if (!Number.isFinite(quantity) || quantity <= 0) {
+      throw new PurchaseOrderError(`Line ${index + 1}: received quantity must be greater than 0`)
+    }
+    if (!Number.isFinite(unitCost) || unitCost < 0) {
+      throw new PurchaseOrderError(`Line ${index + 1}: unit cost cannot be negative`)
+    }
+    if (line.expiry_date && line.expiry_date < today) {
+      throw new PurchaseOrderError(`Line ${index + 1}: expiry date is in the past`)
+    }
+
+    const remaining = Number(item.quantity) - Number(item.delivered_quantity || 0)
+    if (!options.allowOverReceipt && quantity > remaining + 1e-9) {
+      throw new PurchaseOrderError(
+        `Line ${index + 1}: receiving ${quantity} ${item.unit} but only ${Math.max(0, remaining)} ${item.unit} is outstanding`
+      )
+    }
+
+    return { line, item, quantity, unitCost }
+  })
+
+  await assertNewBatchNumbers(supabase, validated.map(({ line, item }) => ({
+    ingredient_id: item.ingredient_id,
+    batch_number: line.batch_number?.trim() || ''
+  })))
+
+  const received: ReceivedLine[] = []
+  const receiptStamp = new Date().toISOString().replace(/[-:T]/g, '').slice(0, 14)
+  let status: PurchaseOrderStatus = po.status
+
+  // A failing line stops the receipt, but the lines before it are in stock:
+  // the PO status and the supplier total always follow what was received
+  try {
+    for (const [index, entry] of validated.entries()) {
+      const defaultBatchNumber = `${po.po_number}-${receiptStamp}-${index + 1}`
+      received.push(await receiveLine(supabase, po, entry, defaultBatchNumber, today, options.userId))
+    }
+  } finally {
+    if (received.length > 0) {
+      status = await updateReceivedStatus(supabase, poId, today, options.userId)
+      await addSupplierPurchases(supabase, po.supplier_id, receivedValue(received))
+    }
+  }
+
+  return {
+    purchase_order_id: poId,
+    status,
+    received,
+    total_received_value: receivedValue(received)
+  }
+}
+
+const receivedValue = (received: ReceivedLine[]) =>
+  round2(received.reduce((sum, line) => sum + line.quantity * line.unit_cost, 0))
+
+/**
+ * Reject batch numbers given on a receipt that an ingredient already has;
+ * the batch trigger would otherwise add the delivery to the existing batch
+ */
+async function assertNewBatchNumbers(
+  supabase: SupabaseClient,
+  batches: Array<{ ingredient_id: string; batch_number: string }>
+) {
+  const given = batches.filter(batch => batch.batch_number)
+  if (given.length === 0) return
+
+  const keys = given.map(batch => `${batch.ingredient_id}:${batch.batch_number}`)
+  const duplicateInReceipt = keys.find((key, index) => keys.indexOf(key) !== index)
+  if (duplicateInReceipt) {
+    throw new PurchaseOrderError(`Batch number ${duplicateInReceipt.split(':').slice(1).join(':')} is used more than once`)
+  }
+
+  const { data: existing, error } = await supabase
+    .from('stock_batches')
+    .select('ingredient_id, batch_number')
+    .in('ingredient_id', [...new Set(given.map(batch => batch.ingredient_id))])
+    .in('batch_number', [...new Set(given.map(batch => batch.batch_number))])
+
+  if (error) {
+    throw new PurchaseOrderError(`Failed to check batch numbers: ${error.message}`, 500)
+  }
+
+  const taken = (existing || []).find((batch: any) => keys.includes(`${batch.ingredient_id}:${batch.batch_number}`))
+  if (taken) {
+    throw new PurchaseOrderError(`Batch number ${taken.batch_number} already exists for this ingredient`, 409)
+  }
+}
+
+/**
+ * Receive one validated line: claim the quantity on the PO item, record the
+ * stock-in movement and link the batch the triggers create
+ */
+async function receiveLine(
+  supabase: SupabaseClient,
+  po: { id: string; po_number: string; supplier_id: string | null },
+  { line, item, quantity, unitCost }: { line: ReceiveLineInput; item: any; quantity: number; unitCost: number },
+  defaultBatchNumber: string,
+  today: string,
+  userId?: string
+): Promise<ReceivedLine> {
+  const previousDelivered = Number(item.delivered_quantity || 0)
+  const deliveredQuantity = round3(previousDelivered + quantity)
+
+  // Claim the quantity first so two receivers can't book the same delivery
+  const { data: claimed, error: claimError } = await supabase
+    .from('purchase_order_items')
+    .update({ delivered_quantity: deliveredQuantity, received_date: today })
+    .eq('id', item.id)
+    .eq('delivered_quantity', item.delivered_quantity ?? 0)
+    .select('id')
+    .maybeSingle()
+
+  if (claimError) {
+    throw new PurchaseOrderError(`Failed to update received quantity: ${claimError.message}`, 500)
+  }
+  if (!claimed) {
+    throw new PurchaseOrderError('This delivery was already received by someone else, please reload', 409)
+  }
+
+  const { data: ingredient } = await supabase
+    .from('ingredients')
+    .select('id, current_stock, unit_cost, average_cost')
+    .eq('id', item.ingredient_id)
+    .single()
+
+  const batchNumber = line.batch_number?.trim() || defaultBatchNumber
+
+  // Stock-in movement; triggers add current_stock and create the batch
+  const { data: movement, error: movementError } = await supabase
+    .from('stock_movements')
+    .insert([{
+      ingredient_id: item.ingredient_id,
+      movement_type: 'purchase',
+      quantity,
+      reference_type: 'purchase_order',
+      reference_id: po.id,
+      unit_cost: unitCost,
+      total_cost: round2(quantity * unitCost),
+      supplier_id: po.supplier_id,
+      batch_number: batchNumber,
+      manufacturing_date: line.manufacturing_date || null,
+      expiry_date: line.expiry_date || null,
+      notes: `Received on ${po.po_number}`,
+      performed_by: userId || null
+    }])
+    .select('id')
+    .single()
+
+  if (movementError || !movement) {
+    // Release the claimed quantity so the line can be received again
+    await supabase
+      .from('purchase_order_items')
+      .update({ delivered_quantity: previousDelivered })
+      .eq('id', item.id)
+    throw new PurchaseOrderError(`Failed to record stock movement: ${movementError?.message}`, 500)
+  }
+
+  const { data: batch } = await supabase
+    .from('stock_batches')
+    .update({
+      purchase_order_id: po.id,
+      purchase_order_item_id: item.id,
+      supplier_id: po.supplier_id
+    })
+    .eq('ingredient_id', item.ingredient_id)
+    .eq('batch_number', batchNumber)
+    .select('id')
+    .maybeSingle()
+
+  if (batch) {
+    await supabase
+      .from('stock_movements')
+      .update({ batch_id: batch.id })
+      .eq('id', movement.id)
+  }
+
+  if (ingredient) {
+    await updateIngredientCosts(supabase, ingredient, quantity, unitCost)
+  }
+
+  return {
+    item_id: item.id,
+    ingredient_id: item.ingredient_id,
+    quantity,
+    unit_cost: unitCost,
+    batch_id: batch?.id || null,
+    batch_number: batchNumber,
+    movement_id: movement.id,
+    delivered_quantity: deliveredQuantity,
+    ordered_quantity: Number(item.quantity)
+  }
+}
+
+/**
+ * Set partial_received or completed from the delivered quantities as
+ * stored, so concurrent receipts and failed lines are accounted for
+ */
+async function updateReceivedStatus(
+  supabase: SupabaseClient,
+  poId: string,
+  today: string,
+  userId?: string
+): Promise<PurchaseOrderStatus> {
+  const { data: items, error: itemsError } = await supabase
+    .from('purchase_order_items')
+    .select('quantity, delivered_quantity')
+    .eq('po_id', poId)
+
+  if (itemsError) {
+    console.error('Error loading purchase order items after receiving:', itemsError)
+  }
+
+  const fullyReceived = !itemsError && (items || []).every(
+    (item: any) => Number(item.delivered_quantity || 0) >= Number(item.quantity)
+  )
+  const status: PurchaseOrderStatus = fullyReceived ? 'completed' : 'partial_received'
+  const now = new Date().toISOString()
+
+  const { error: poError } = await supabase
+    .from('purchase_orders')
+    .update({
+      status,
+      actual_delivery: today,
+      received_by: userId || null,
+      received_at: now,
+      ...(fullyReceived ? { completed_at: now } : {})
+    })
+    .eq('id', poId)
+
+  if (poError) {
+    console.error('Error updating purchase order status after receiving:', poError)
+  }
+
+  return status
+}
+
+/**
+ * Update last purchase price and moving average cost of an ingredient.
+ * `ingredient` is the row read before the stock movement was recorded.
+ */
+async function updateIngredientCosts(
+  supabase: SupabaseClient,
+  ingredient: { id: string; current_stock: number; unit_cost: number; average_cost: number | null },
+  quantity: number,
+  unitCost: number
+) {
+  const stockBefore = Math.max(0, Number(ingredient.current_stock) || 0)
+  const previousCost = Number(ingredient.average_cost ?? ingredient.unit_cost) || 0
+  const averageCost = stockBefore + quantity > 0
+    ? round2((stockBefore * previousCost + quantity * unitCost) / (stockBefore + quantity))
+    : unitCost
+
+  const { error } = await supabase
+    .from('ingredients')
+    .update({
+      last_purchase_price: unitCost,
+      average_cost: averageCost,
+      unit_cost: averageCost,
+      updated_at: new Date().toISOString()
+    })
+    .eq('id', ingredient.id)
+
+  if (error) {
+    console.error('Error updating ingredient costs:', error)
+  }
+}
+
+/**
+ * Add received value to the supplier's running purchase total
+ */
+async function addSupplierPurchases(supabase: SupabaseClient, supplierId: string | null, amount: number) {
+  if (!supplierId || amount <= 0) return
+
+  const { data: supplier } = await supabase
+    .from('suppliers')
+    .select('id, total_purchases')
+    .eq('id', supplierId)
+    .single()
+
+  if (!supplier) return
+
+  const { error } = await supabase
+    .from('suppliers')
+    .update({ total_purchases: round2(Number(supplier.total_purchases || 0) + amount) })
+    .eq('id', supplierId)
+
+  if (error) {
+    console.error('Error updating supplier purchases:', error)
+  }
+}
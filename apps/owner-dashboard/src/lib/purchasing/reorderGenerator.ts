@@ -0,0 +1,319 @@
+/**
+ * Reorder generator
+ *
+ * Turns low-stock ingredients into draft purchase orders grouped by supplier.
+ * Urgency and quantity follow the same rules as generateReorderSuggestions in
+ * the stock-prediction function, with the supplier's own lead time instead of
+ * a global one and open purchase orders counted as incoming stock.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { createPurchaseOrder } from './purchaseOrders'
+
+export type ReorderUrgency = 'critical' | 'high' | 'medium' | 'low'
+
+export interface ReorderLine {
+  ingredient_id: string
+  ingredient_name: string
+  unit: string
+  current_stock: number
+  on_order: number
+  min_stock_level: number
+  reorder_point: number
+  average_daily_usage: number
+  days_until_stockout: number
+  urgency: ReorderUrgency
+  suggested_quantity: number
+  unit_price: number
+  estimated_cost: number
+  reason: string
+}
+
+export interface SupplierReorderGroup {
+  supplier_id: string
+  supplier_name: string
+  lead_time_days: number
+  minimum_order_amount: number
+  expected_delivery: string
+  lines: ReorderLine[]
+  subtotal: number
+  meets_minimum: boolean
+  minimum_shortfall: number
+}
+
+export interface ReorderPlan {
+  groups: SupplierReorderGroup[]
+  unassigned: ReorderLine[] // no preferred or previous supplier
+  generated_at: string
+}
+
+export interface ReorderOptions {
+  ingredient_ids?: string[]
+  quantities?: Record<string, number> // owner overrides per ingredient
+  usage_days?: number
+  top_up_to_minimum?: boolean
+}
+
+const DEFAULT_LEAD_TIME_DAYS = 2
+const DEFAULT_USAGE_DAYS = 30
+const OPEN_PO_STATUSES = ['draft', 'sent', 'confirmed', 'partial_received']
+const URGENCY_ORDER: Record<ReorderUrgency, number> = { critical: 4, high: 3, medium: 2, low: 1 }
+
+const round2 = (value: number) => Math.round(value * 100) / 100
+
+function addDays(days: number): string {
+  const date = new Date()
+  date.setDate(date.getDate() + days)
+  return date.toISOString().split('T')[0]
+}
+
+function calculateUrgency(
+  daysUntilStockout: number,
+  leadTimeDays: number,
+  minStock: number,
+  currentStock: number
+): ReorderUrgency {
+  // Running out before a new delivery can arrive is always critical
+  if (daysUntilStockout <= Math.max(3, leadTimeDays) || currentStock <= minStock * 0.5) return 'critical'
+  if (daysUntilStockout <= 7 || currentStock <= minStock) return 'high'
+  if (daysUntilStockout <= 14) return 'medium'
+  return 'low'
+}
+
+function generateReason(urgency: ReorderUrgency, daysUntilStockout: number, leadTimeDays: number, onOrder: number): string {
+  const parts: string[] = []
+  if (daysUntilStockout < 999) {
+    parts.push(daysUntilStockout <= leadTimeDays
+      ? `Runs out in ${daysUntilStockout} day(s), before the ${leadTimeDays}-day delivery`
+      : `About ${daysUntilStockout} day(s) of stock left`)
+  } else {
+    parts.push('Below reorder point')
+  }
+  if (onOrder > 0) parts.push(`${onOrder} already on order`)
+  if (urgency === 'critical') parts.push('order today')
+  return parts.join(', ')
+}
+
+/**
+ * Build reorder suggestions grouped by supplier
+ */
+export async function buildReorderPlan(
+  supabase: SupabaseClient,
+  options: ReorderOptions = {}
+): Promise<ReorderPlan> {
+  const usageDays = options.usage_days || DEFAULT_USAGE_DAYS
+  const usageSince = new Date()
+  usageSince.setDate(usageSince.getDate() - usageDays)
+
+  let ingredientQuery = supabase
+    .from('ingredients')
+    .select('id, name, unit, current_stock, min_stock_level, max_stock_level, reorder_point, reorder_quantity, unit_cost, last_purchase_price, preferred_supplier_id')
+    .eq('is_active', true)
+
+  if (options.ingredient_ids && options.ingredient_ids.length > 0) {
+    ingredientQuery = ingredientQuery.in('id', options.ingredient_ids)
+  }
+
+  const [ingredientsResult, suppliersResult, usageResult, openItemsResult, purchasesResult] = await Promise.all([
+    ingredientQuery,
+    supabase
+      .from('suppliers')
+      .select('id, company_name, minimum_order_amount, lead_time_days')
+      .eq('is_active', true),
+    supabase
+      .from('stock_movements')
+      .select('ingredient_id, quantity')
+      .eq('movement_type', 'usage')
+      .gte('created_at', usageSince.toISOString()),
+    supabase
+      .from('purchase_order_items')
+      .select('ingredient_id, quantity, delivered_quantity, purchase_orders!inner(status)')
+      .in('purchase_orders.status', OPEN_PO_STATUSES),
+    supabase
+      .from('stock_movements')
+      .select('ingredient_id, supplier_id')
+      .eq('movement_type', 'purchase')
+      .not('supplier_id', 'is', null)
+      .order('created_at', { ascending: false })
+      .limit(1000)
+  ])
+
+  if (ingredientsResult.error) throw ingredientsResult.error
+  if (suppliersResult.error) throw suppliersResult.error
+
+  const suppliers = new Map((suppliersResult.data || []).map((supplier: any) => [supplier.id, supplier]))
+
+  const usage = new Map<string, number>()
+  for (const movement of usageResult.data || []) {
+    usage.set(movement.ingredient_id, (usage.get(movement.ingredient_id) || 0) + Math.abs(Number(movement.quantity)))
+  }
+
+  const onOrder = new Map<string, number>()
+  for (const item of openItemsResult.data || []) {
+    const outstanding = Math.max(0, Number(item.quantity) - Number(item.delivered_quantity || 0))
+    onOrder.set(item.ingredient_id, (onOrder.get(item.ingredient_id) || 0) + outstanding)
+  }
+
+  // Fall back to whoever delivered the ingredient last
+  const lastSupplier = new Map<string, string>()
+  for (const movement of purchasesResult.data || []) {
+    if (!lastSupplier.has(movement.ingredient_id)) {
+      lastSupplier.set(movement.ingredient_id, movement.supplier_id)
+    }
+  }
+
+  const groups = new Map<string, SupplierReorderGroup>()
+  const unassigned: ReorderLine[] = []
+
+  for (const ingredient of ingredientsResult.data || []) {
+    const supplierId = suppliers.has(ingredient.preferred_supplier_id)
+      ? ingredient.preferred_supplier_id
+      : lastSupplier.get(ingredient.id)
+    const supplier = supplierId ? suppliers.get(supplierId) : undefined
+    const leadTimeDays = supplier?.lead_time_days ?? DEFAULT_LEAD_TIME_DAYS
+
+    const currentStock = Number(ingredient.current_stock) || 0
+    const minStock = Number(ingredient.min_stock_level) || 0
+    const reorderPoint = Number(ingredient.reorder_point) || minStock * 1.5
+    const incoming = onOrder.get(ingredient.id) || 0
+    const effectiveStock = currentStock + incoming
+    const averageDailyUsage = (usage.get(ingredient.id) || 0) / usageDays
+
+    // Stock (including what is already ordered) left when a new delivery would arrive
+    const stockAtDelivery = effectiveStock - averageDailyUsage * leadTimeDays
+    const needsReorder = effectiveStock <= reorderPoint || (averageDailyUsage > 0 && stockAtDelivery <= minStock)
+    const override = options.quantities?.[ingredient.id]
+
+    if (!needsReorder && override === undefined) continue
+
+    const targetStock = Number(ingredient.max_stock_level) || minStock * 3
+    let suggestedQuantity = Math.max(
+      targetStock - effectiveStock, // Restore to target level
+      averageDailyUsage * leadTimeDays + minStock - effectiveStock // Cover lead time + safety buffer
+    )
+    if (ingredient.reorder_quantity && suggestedQuantity > 0) {
+      suggestedQuantity = Math.max(suggestedQuantity, Number(ingredient.reorder_quantity))
+    }
+    suggestedQuantity = override !== undefined ? Number(override) : Math.ceil(suggestedQuantity)
+
+    if (!(suggestedQuantity > 0)) continue
+
+    const daysUntilStockout = averageDailyUsage > 0 ? Math.floor(currentStock / averageDailyUsage) : 999
+    const urgency = calculateUrgency(daysUntilStockout, leadTimeDays, minStock, currentStock)
+    const unitPrice = Number(ingredient.last_purchase_price || ingredient.unit_cost) || 0
+
+    const line: ReorderLine = {
+      ingredient_id: ingredient.id,
+      ingredient_name: ingredient.name,
+      unit: ingredient.unit,
+      current_stock: currentStock,
+      on_order: incoming,
+      min_stock_level: minStock,
+      reorder_point: reorderPoint,
+      average_daily_usage: round2(averageDailyUsage),
+      days_until_stockout: daysUntilStockout,
+      urgency,
+      suggested_quantity: suggestedQuantity,
+      unit_price: unitPrice,
+      estimated_cost: round2(suggestedQuantity * unitPrice),
+      reason: generateReason(urgency, daysUntilStockout, leadTimeDays, incoming)
+    }
+
+    if (!supplier) {
+      unassigned.push(line)
+      continue
+    }
+
+    let group = groups.get(supplier.id)
+    if (!group) {
+      group = {
+        supplier_id: supplier.id,
+        supplier_name: supplier.company_name,
+        lead_time_days: leadTimeDays,
+        minimum_order_amount: Number(supplier.minimum_order_amount) || 0,
+        expected_delivery: addDays(leadTimeDays),
+        lines: [],
+        subtotal: 0,
+        meets_minimum: true,
+        minimum_shortfall: 0
+      }
+      groups.set(supplier.id, group)
+    }
+    group.lines.push(line)
+  }
+
+  const ingredientsById = new Map((ingredientsResult.data || []).map((ingredient: any) => [ingredient.id, ingredient]))
+
+  for (const group of groups.values()) {
+    group.subtotal = round2(group.lines.reduce((sum, line) => sum + line.estimated_cost, 0))
+
+    // Scale non-overridden lines up to the supplier minimum, within max stock
+    if (options.top_up_to_minimum !== false && group.subtotal > 0 && group.subtotal < group.minimum_order_amount) {
+      const factor = group.minimum_order_amount / group.subtotal
+      for (const line of group.lines) {
+        if (options.quantities?.[line.ingredient_id] !== undefined) continue
+
+        const ingredient = ingredientsById.get(line.ingredient_id)
+        const maxStock = Number(ingredient?.max_stock_level) || 0
+        const headroom = maxStock > 0 ? maxStock - line.current_stock - line.on_order : Infinity
+        const toppedUp = Math.min(Math.ceil(line.suggested_quantity * factor), Math.max(line.suggested_quantity, Math.floor(headroom)))
+
+        if (toppedUp > line.suggested_quantity) {
+          line.suggested_quantity = toppedUp
+          line.estimated_cost = round2(toppedUp * line.unit_price)
+          line.reason += ', topped up to supplier minimum'
+        }
+      }
+      group.subtotal = round2(group.lines.reduce((sum, line) => sum + line.estimated_cost, 0))
+    }
+
+    group.meets_minimum = group.subtotal >= group.minimum_order_amount
+    group.minimum_shortfall = group.meets_minimum ? 0 : round2(group.minimum_order_amount - group.subtotal)
+    group.lines.sort((a, b) => URGENCY_ORDER[b.urgency] - URGENCY_ORDER[a.urgency] || b.estimated_cost - a.estimated_cost)
+  }
+
+  const sortedGroups = Array.from(groups.values()).sort((a, b) =>
+    URGENCY_ORDER[b.lines[0].urgency] - URGENCY_ORDER[a.lines[0].urgency] || b.subtotal - a.subtotal
+  )
+
+  return {
+    groups: sortedGroups,
+    unassigned,
+    generated_at: new Date().toISOString()
+  }
+}
+
+/**
+ * Create one draft purchase order per supplier from the reorder plan
+ */
+export async function generateDraftPurchaseOrders(
+  supabase: SupabaseClient,
+  options: ReorderOptions = {},
+  userId?: string
+) {
+  const plan = await buildReorderPlan(supabase, options)
+  const purchaseOrders: any[] = []
+
+  for (const group of plan.groups) {
+    const po = await createPurchaseOrder(supabase, {
+      supplier_id: group.supplier_id,
+      expected_delivery: group.expected_delivery,
+      notes: group.meets_minimum
+        ? `Generated from reorder suggestions (${group.lines.length} items)`
+        : `Generated from reorder suggestions (${group.lines.length} items). Below supplier minimum order by ${group.minimum_shortfall}`,
+      items: group.lines.map(line => ({
+        ingredient_id: line.ingredient_id,
+        quantity_ordered: line.suggested_quantity,
+        unit_price: line.unit_price,
+        notes: line.reason
+      }))
+    }, userId)
+
+    purchaseOrders.push({ ...po, supplier_name: group.supplier_name, item_count: group.lines.length })
+  }
+
+  return {
+    purchase_orders: purchaseOrders,
+    unassigned: plan.unassigned
+  }
+}
@@ -0,0 +1,208 @@
+/**
+ * Employee report
+ *
+ * Attendance and hours worked of the active employees within the period.
+ * Attendance rows are already dated by business day at clock-in.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js'
+import {
+  dailyChart,
+  ReportError,
+  type ReportPeriod,
+  type ReportResult
+} from './reportData'
+
+interface DailyAttendance {
+  date: string
+  present: number
+  late: number
+  absent: number
+}
+
+const hoursWorked = (attendance: any[]) => attendance.reduce((sum, att) => {
+  if (att.check_in_time && att.check_out_time) {
+    const checkIn = new Date(`2000-01-01T${att.check_in_time}`)
+    const checkOut = new Date(`2000-01-01T${att.check_out_time}`)
+    const hours = (checkOut.getTime() - checkIn.getTime()) / (1000 * 60 * 60)
+    return sum + hours
+  }
+  return sum
+}, 0)
+
+export async function buildEmployeeReport(
+  supabase: SupabaseClient,
+  period: ReportPeriod
+): Promise<ReportResult> {
+  const { start_date: startDate, end_date: endDate } = period
+
+  // Get all active employees
+  const { data: employees, error: employeesError } = await supabase
+    .from('employees')
+    .select('*')
+    .eq('employment_status', 'active')
+
+  if (employeesError) {
+    throw new ReportError(`Failed to load employees: ${employeesError.message}`, 500)
+  }
+
+  // Get attendance records within date range
+  const { data: attendance, error: attendanceError } = await supabase
+    .from('attendance')
+    .select('*')
+    .gte('date', startDate)
+    .lte('date', endDate)
+
+  if (attendanceError) {
+    throw new ReportError(`Failed to load attendance: ${attendanceError.message}`, 500)
+  }
+
+  // Calculate summary metrics
+  const totalEmployees = employees?.length || 0
+  const totalAttendance = attendance?.length || 0
+  const presentCount = attendance?.filter(att => att.status === 'present' || att.status === 'late').length || 0
+  const absentCount = attendance?.filter(att => att.status === 'absent').length || 0
+  const lateCount = attendance?.filter(att => att.status === 'late').length || 0
+  const attendanceRate = totalAttendance > 0 ? (presentCount / totalAttendance) * 100 : 0
+
+  // Calculate total hours worked
+  const totalHoursWorked = hoursWorked(attendance || [])
+
+  // Names and emails of the employees' user accounts
+  const userIds = (employees || []).map(emp => emp.user_id).filter(Boolean)
+  const { data: users } = userIds.length > 0
+    ? await supabase.from('users').select('id, email, full_name').in('id', userIds)
+    : { data: [] }
+  const usersById = new Map((users || []).map((user: any) => [user.id, user]))
+
+  // Employee performance data
+  const employeeStats = (employees || []).map((emp: any) => {
+    const user = usersById.get(emp.user_id)
+
+    // Count attendance for this employee
+    const empAttendance = attendance?.filter(att => att.employee_id === emp.id) || []
+    const empPresent = empAttendance.filter(att => att.status === 'present' || att.status === 'late').length
+    const empLate = empAttendance.filter(att => att.status === 'late').length
+    const empAbsent = empAttendance.filter(att => att.status === 'absent').length
+    const empHours = hoursWorked(empAttendance)
+
+    const attendanceTotal = empPresent + empAbsent
+    const empAttendanceRate = attendanceTotal > 0 ? (empPresent / attendanceTotal) * 100 : 0
+
+    return {
+      name: user?.full_name || user?.email || null,
+      position: emp.position || null,
+      department: emp.department || null,
+      present: empPresent,
+      late: empLate,
+      absent: empAbsent,
+      hours: empHours,
+      attendance_rate: empAttendanceRate
+    }
+  })
+
+  // Daily attendance trend
+  const dailyAttendance = (attendance || []).reduce((acc: Record<string, DailyAttendance>, att) => {
+    const date = att.date
+    if (!acc[date]) {
+      acc[date] = {
+        date,
+        present: 0,
+        late: 0,
+        absent: 0
+      }
+    }
+    if (att.status === 'present') acc[date].present += 1
+    else if (att.status === 'late') acc[date].late += 1
+    else if (att.status === 'absent') acc[date].absent += 1
+    return acc
+  }, {})
+
+  const dailyTrend = Object.values(dailyAttendance).sort((a, b) => a.date.localeCompare(b.date))
+
+  return {
+    data: {
+      summary: [
+        {
+          label: 'Total Employees',
+          value: totalEmployees,
+          bgColor: 'bg-blue-100',
+          color: 'text-blue-600'
+        },
+        {
+          label: 'Attendance Rate',
+          value: `${Math.round(attendanceRate)}%`,
+          bgColor: 'bg-green-100',
+          color: 'text-green-600'
+        },
+        {
+          label: 'Total Hours',
+          value: Math.round(totalHoursWorked),
+          bgColor: 'bg-purple-100',
+          color: 'text-purple-600'
+        },
+        {
+          label: 'Late/Absent',
+          value: lateCount + absentCount,
+          bgColor: 'bg-orange-100',
+          color: 'text-orange-600'
+        }
+      ],
+      table: employeeStats.map(emp => ({
+        'Employee': emp.name || '-',
+        'Position': emp.position || '-',
+        'Department': emp.department || '-',
+        'Present': emp.present,
+        'Late': emp.late,
+        'Absent': emp.absent,
+        'Hours Worked': Math.round(emp.hours),
+        'Attendance Rate': `${Math.round(emp.attendance_rate)}%`
+      })),
+      columns: ['Employee', 'Position', 'Department', 'Present', 'Late', 'Absent', 'Hours Worked', 'Attendance Rate'],
+      chart: {
+        daily: dailyTrend
+      },
+      stats: {
+        totalEmployees,
+        presentCount,
+        lateCount,
+        absentCount,
+        attendanceRate,
+        totalHoursWorked
+      }
+    },
+    content: {
+      title: 'Laporan Karyawan',
+      period,
+      summary: [
+        { label: 'Jumlah Karyawan', value: totalEmployees, format: 'number' },
+        { label: 'Tingkat Kehadiran', value: attendanceRate, format: 'percentage' },
+        { label: 'Total Jam Kerja', value: Math.round(totalHoursWorked * 10) / 10, format: 'number' },
+        { label: 'Terlambat', value: lateCount, format: 'number' },
+        { label: 'Absen', value: absentCount, format: 'number' }
+      ],
+      columns: [
+        { key: 'name', label: 'Karyawan' },
+        { key: 'position', label: 'Jabatan' },
+        { key: 'department', label: 'Departemen' },
+        { key: 'present', label: 'Hadir', format: 'number' },
+        { key: 'late', label: 'Terlambat', format: 'number' },
+        { key: 'absent', label: 'Absen', format: 'number' },
+        { key: 'hours', label: 'Jam Kerja', format: 'number' },
+        { key: 'attendance_rate', label: 'Tingkat Kehadiran', format: 'percentage' }
+      ],
+      rows: employeeStats.map(emp => ({
+        ...emp,
+        hours: Math.round(emp.hours * 10) / 10,
+        attendance_rate: Math.round(emp.attendance_rate * 10) / 10
+      })),
+      charts: [
+        dailyChart('Kehadiran Harian', period, dailyTrend, [
+          { name: 'Hadir', value: day => day.present },
+          { name: 'Terlambat', value: day => day.late },
+          { name: 'Absen', value: day => day.absent }
+        ])
+      ]
+    }
+  }
+}
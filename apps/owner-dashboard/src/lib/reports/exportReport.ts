@@ -0,0 +1,155 @@
+/**
+ * Report export
+ *
+ * Builds a report by its type (the [report] segment of /api/reports) for
+ * the Reports page, and renders it as CSV, XLSX or a branded PDF with the
+ * renderers in @cafe/utils/documents. The PDF and workbook carry the
+ * cafe's name and contact details from the cafe/info setting (Settings >
+ * Informasi Cafe) and times on the cafe's clock from the business calendar.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js'
+import {
+  REPORT_CONTENT_TYPES,
+  renderReportCsv,
+  renderReportPdf,
+  renderReportXlsx,
+  reportFileName,
+  type ReportCafeInfo,
+  type ReportDocument,
+  type ReportExportFormat
+} from '@cafe/utils/documents'
+import { CAFE_TIME_ZONES, type BusinessCalendar } from '@cafe/utils/helpers/businessCalendar'
+import { formatDateTime } from '@cafe/utils/formatters/date'
+import { loadBusinessCalendar } from '@/lib/calendar/businessCalendar'
+import { buildEmployeeReport } from './employeeReport'
+import { buildFinancialReport } from './financialReport'
+import { buildInventoryReport } from './inventoryReport'
+import { buildSalesReport } from './salesReport'
+import {
+  parseReportPeriod,
+  ReportError,
+  type ReportData,
+  type ReportPeriod,
+  type ReportResult
+} from './reportData'
+
+export type ReportType = 'sales' | 'financial' | 'inventory' | 'employee'
+
+type ReportBuilder = (supabase: SupabaseClient, period: ReportPeriod, calendar: BusinessCalendar) => Promise<ReportResult>
+
+const REPORT_BUILDERS: Record<ReportType, ReportBuilder> = {
+  sales: buildSalesReport,
+  financial: buildFinancialReport,
+  inventory: buildInventoryReport,
+  employee: buildEmployeeReport
+}
+
+const FILE_SLUGS: Record<ReportType, string> = {
+  sales: 'laporan-penjualan',
+  financial: 'laporan-keuangan',
+  inventory: 'laporan-inventaris',
+  employee: 'laporan-karyawan'
+}
+
+const REPORT_TYPES = Object.keys(REPORT_BUILDERS) as ReportType[]
+
+const REPORT_EXPORT_FORMATS: ReportExportFormat[] = ['csv', 'xlsx', 'pdf']
+
+export interface ReportExport {
+  body: ArrayBuffer | string
+  contentType: string
+  fileName: string
+}
+
+async function loadCafeInfo(supabase: SupabaseClient): Promise<ReportCafeInfo> {
+  const { data, error } = await supabase
+    .from('system_settings')
+    .select('value')
+    .eq('category', 'cafe')
+    .eq('key', 'info')
+    .maybeSingle()
+
+  if (error) {
+    console.error('Error loading cafe info:', error)
+  }
+
+  const value = data?.value
+  const info = typeof value === 'string' ? JSON.parse(value) : value
+
+  return {
+    name: info?.name || 'Cafe',
+    address: info?.address || undefined,
+    phone: info?.phone || undefined,
+    email: info?.email || undefined
+  }
+}
+
+function parseExportFormat(format: string | null): ReportExportFormat {
+  if (!format || !REPORT_EXPORT_FORMATS.includes(format as ReportExportFormat)) {
+    throw new ReportError(`Format must be one of: ${REPORT_EXPORT_FORMATS.join(', ')}`)
+  }
+  return format as ReportExportFormat
+}
+
+export function parseReportType(type: string): ReportType {
+  if (!REPORT_TYPES.includes(type as ReportType)) {
+    throw new ReportError(`Unknown report: ${type}`, 404)
+  }
+  return type as ReportType
+}
+
+/**
+ * Build a report from `?start&end` for the Reports page
+ */
+export async function buildReport(
+  supabase: SupabaseClient,
+  type: ReportType,
+  searchParams: URLSearchParams
+): Promise<ReportData> {
+  const period = parseReportPeriod(searchParams)
+
+  console.log(`Generating ${type} report:`, period)
+
+  const calendar = await loadBusinessCalendar(supabase)
+  const { data } = await REPORT_BUILDERS[type](supabase, period, calendar)
+  return data
+}
+
+/**
+ * Build a report from `?start&end` and render it in `?format`
+ */
+export async function exportReport(
+  supabase: SupabaseClient,
+  type: ReportType,
+  searchParams: URLSearchParams
+): Promise<ReportExport> {
+  const format = parseExportFormat(searchParams.get('format'))
+  const period = parseReportPeriod(searchParams)
+
+  const [calendar, cafe] = await Promise.all([
+    loadBusinessCalendar(supabase),
+    loadCafeInfo(supabase)
+  ])
+  const { content } = await REPORT_BUILDERS[type](supabase, period, calendar)
+
+  const generatedAt = new Date()
+  const zone = CAFE_TIME_ZONES[calendar.time_zone]
+  const document: ReportDocument = {
+    ...content,
+    cafe,
+    generated_at: generatedAt.toISOString(),
+    generated_label: `${formatDateTime(generatedAt, zone.utc_offset_minutes)} ${zone.label}`
+  }
+
+  const toBody = (bytes: Uint8Array) =>
+    bytes.buffer.slice(bytes.byteOffset, bytes.byteOffset + bytes.byteLength) as ArrayBuffer
+
+  return {
+    body: format === 'csv'
+      ? renderReportCsv(document)
+      : toBody(format === 'xlsx' ? renderReportXlsx(document) : renderReportPdf(document)),
+    contentType: REPORT_CONTENT_TYPES[format],
+    fileName: reportFileName(FILE_SLUGS[type], document, format)
+  }
+}
@@ -0,0 +1,239 @@
+/**
+ * Financial report
+ *
+ * Revenue by business day split into cash and digital payments, purchase
+ * orders as expenses and cash variance from the daily reconciliations.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js'
+import {
+  addDays,
+  businessDate,
+  businessDateRange,
+  eachBusinessDate,
+  type BusinessCalendar
+} from '@cafe/utils/helpers/businessCalendar'
+import {
+  dailyChart,
+  REPORT_TABLE_LIMIT,
+  selectAll,
+  type ReportPeriod,
+  type ReportResult
+} from './reportData'
+
+const SALES_STATUSES = ['confirmed', 'preparing', 'ready', 'delivered', 'completed']
+
+interface DailyFinancials {
+  date: string
+  revenue: number
+  cash: number
+  digital: number
+  orders: number
+}
+
+export async function buildFinancialReport(
+  supabase: SupabaseClient,
+  period: ReportPeriod,
+  calendar: BusinessCalendar
+): Promise<ReportResult> {
+  const { start_date: startDate, end_date: endDate } = period
+  const range = businessDateRange(startDate, endDate, calendar)
+
+  // Get orders (revenue)
+  const orders = await selectAll<any>(
+    (from, to) => supabase
+      .from('orders')
+      .select('*')
+      .gte('created_at', range.start)
+      .lt('created_at', range.end)
+      .in('status', SALES_STATUSES)
+      .range(from, to),
+    'orders'
+  )
+
+  // Get cash reconciliation records
+  const { data: reconciliations, error: reconciliationsError } = await supabase
+    .from('cash_reconciliation')
+    .select('*')
+    .gte('date', startDate)
+    .lte('date', endDate)
+    .order('date', { ascending: false })
+
+  if (reconciliationsError) {
+    console.error('Error fetching reconciliations:', reconciliationsError)
+  }
+
+  // Get purchase orders (expenses)
+  const { data: purchaseOrders, error: purchaseOrdersError } = await supabase
+    .from('purchase_orders')
+    .select('*')
+    .gte('created_at', range.start)
+    .lt('created_at', range.end)
+
+  if (purchaseOrdersError) {
+    console.error('Error fetching purchase orders:', purchaseOrdersError)
+  }
+
+  // Calculate revenue metrics
+  const totalRevenue = orders.reduce((sum, order) => sum + parseFloat(order.total_amount || 0), 0)
+  const cashRevenue = orders.filter(o => o.payment_method === 'cash').reduce((sum, order) => sum + parseFloat(order.total_amount || 0), 0)
+  const digitalRevenue = orders.filter(o => o.payment_method !== 'cash').reduce((sum, order) => sum + parseFloat(order.total_amount || 0), 0)
+  const totalDiscount = orders.reduce((sum, order) => sum + parseFloat(order.discount_amount || 0), 0)
+
+  // Calculate expenses
+  const totalPurchases = purchaseOrders?.reduce((sum, po) => sum + parseFloat(po.total_amount || 0), 0) || 0
+
+  // Calculate profit (simplified - revenue minus purchases)
+  const grossProfit = totalRevenue - totalPurchases
+
+  // Cash flow from reconciliations
+  const totalCashHandled = reconciliations?.reduce((sum, rec) => sum + parseFloat(rec.actual_cash || 0), 0) || 0
+  const totalVariance = reconciliations?.reduce((sum, rec) => sum + parseFloat(rec.variance || 0), 0) || 0
+
+  // Daily financial data by business day
+  const dailyFinancials = orders.reduce((acc: Record<string, DailyFinancials>, order) => {
+    const date = businessDate(order.created_at, calendar)
+    if (!acc[date]) {
+      acc[date] = {
+        date,
+        revenue: 0,
+        cash: 0,
+        digital: 0,
+        orders: 0
+      }
+    }
+    const amount = parseFloat(order.total_amount || 0)
+    acc[date].revenue += amount
+    acc[date].orders += 1
+    if (order.payment_method === 'cash') {
+      acc[date].cash += amount
+    } else {
+      acc[date].digital += amount
+    }
+    return acc
+  }, {})
+
+  const dailyTrend = Object.values(dailyFinancials).sort((a, b) => a.date.localeCompare(b.date))
+
+  // Payment method breakdown
+  const paymentBreakdown = orders.reduce((acc: any, order) => {
+    const method = order.payment_method || 'unknown'
+    if (!acc[method]) {
+      acc[method] = { count: 0, total: 0 }
+    }
+    acc[method].count += 1
+    acc[method].total += parseFloat(order.total_amount || 0)
+    return acc
+  }, {})
+
+  // Format table data - daily summary
+  const dailyRecords = Object.values(dailyFinancials).map(day => ({
+    'Date': new Date(`${day.date}T00:00:00`).toLocaleDateString('id-ID'),
+    'Orders': day.orders,
+    'Revenue': day.revenue,
+    'Cash': day.cash,
+    'Digital': day.digital,
+    'Net Revenue': day.revenue
+  }))
+
+  // Get previous period (same number of business days) for comparison
+  const days = eachBusinessDate(startDate, endDate).length
+  const prevRange = businessDateRange(addDays(startDate, -days), addDays(startDate, -1), calendar)
+
+  const { data: prevOrders } = await supabase
+    .from('orders')
+    .select('total_amount')
+    .gte('created_at', prevRange.start)
+    .lt('created_at', prevRange.end)
+    .in('status', SALES_STATUSES)
+
+  const prevRevenue = prevOrders?.reduce((sum, order) => sum + parseFloat(order.total_amount || 0), 0) || 0
+  const revenueChange = prevRevenue > 0 ? ((totalRevenue - prevRevenue) / prevRevenue) * 100 : 0
+
+  return {
+    data: {
+      summary: [
+        {
+          label: 'Total Revenue',
+          value: totalRevenue,
+          format: 'currency',
+          change: Math.round(revenueChange),
+          bgColor: 'bg-blue-100',
+          color: 'text-blue-600'
+        },
+        {
+          label: 'Gross Profit',
+          value: grossProfit,
+          format: 'currency',
+          bgColor: 'bg-green-100',
+          color: 'text-green-600'
+        },
+        {
+          label: 'Total Expenses',
+          value: totalPurchases,
+          format: 'currency',
+          bgColor: 'bg-orange-100',
+          color: 'text-orange-600'
+        },
+        {
+          label: 'Cash Variance',
+          value: totalVariance,
+          format: 'currency',
+          bgColor: 'bg-purple-100',
+          color: 'text-purple-600'
+        }
+      ],
+      table: dailyRecords.slice(0, REPORT_TABLE_LIMIT),
+      columns: ['Date', 'Orders', 'Revenue', 'Cash', 'Digital', 'Net Revenue'],
+      chart: {
+        daily: dailyTrend,
+        paymentMethods: paymentBreakdown
+      },
+      stats: {
+        totalRevenue,
+        cashRevenue,
+        digitalRevenue,
+        totalPurchases,
+        grossProfit,
+        totalDiscount,
+        totalCashHandled,
+        totalVariance,
+        paymentBreakdown
+      }
+    },
+    content: {
+      title: 'Laporan Keuangan',
+      period,
+      summary: [
+        { label: 'Total Pendapatan', value: totalRevenue, format: 'currency' },
+        { label: 'Laba Kotor', value: grossProfit, format: 'currency' },
+        { label: 'Total Pengeluaran', value: totalPurchases, format: 'currency' },
+        { label: 'Selisih Kas', value: totalVariance, format: 'currency' },
+        { label: 'Pendapatan Tunai', value: cashRevenue, format: 'currency' },
+        { label: 'Pendapatan Digital', value: digitalRevenue, format: 'currency' },
+        { label: 'Total Diskon', value: totalDiscount, format: 'currency' },
+        { label: 'Perubahan Pendapatan', value: revenueChange, format: 'percentage' }
+      ],
+      columns: [
+        { key: 'date', label: 'Tanggal', format: 'date' },
+        { key: 'orders', label: 'Pesanan', format: 'number' },
+        { key: 'revenue', label: 'Pendapatan', format: 'currency' },
+        { key: 'cash', label: 'Tunai', format: 'currency' },
+        { key: 'digital', label: 'Digital', format: 'currency' }
+      ],
+      rows: dailyTrend.map(day => ({
+        date: day.date,
+        orders: day.orders,
+        revenue: day.revenue,
+        cash: day.cash,
+        digital: day.digital
+      })),
+      charts: [
+        dailyChart('Pendapatan Tunai vs Digital', period, dailyTrend, [
+          { name: 'Tunai', value: day => day.cash },
+          { name: 'Digital', value: day => day.digital }
+        ], 'currency')
+      ]
+    }
+  }
+}
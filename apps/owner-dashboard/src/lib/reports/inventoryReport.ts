@@ -0,0 +1,205 @@
+/**
+ * Inventory report
+ *
+ * Current stock levels and value of all ingredients, and the stock
+ * movements by business day within the period.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js'
+import {
+  businessDate,
+  businessDateRange,
+  type BusinessCalendar
+} from '@cafe/utils/helpers/businessCalendar'
+import {
+  dailyChart,
+  REPORT_TABLE_LIMIT,
+  selectAll,
+  type ReportPeriod,
+  type ReportResult
+} from './reportData'
+
+interface DailyMovements {
+  date: string
+  in: number
+  out: number
+  adjustment: number
+  wastage: number
+}
+
+export async function buildInventoryReport(
+  supabase: SupabaseClient,
+  period: ReportPeriod,
+  calendar: BusinessCalendar
+): Promise<ReportResult> {
+  const range = businessDateRange(period.start_date, period.end_date, calendar)
+
+  // Get all ingredients with current stock
+  const ingredients = await selectAll<any>(
+    (from, to) => supabase
+      .from('ingredients')
+      .select('*')
+      .order('name', { ascending: true })
+      .range(from, to),
+    'ingredients'
+  )
+
+  // Get stock movements within the business days of the range
+  const movements = await selectAll<any>(
+    (from, to) => supabase
+      .from('stock_movements')
+      .select('*')
+      .gte('created_at', range.start)
+      .lt('created_at', range.end)
+      .order('created_at', { ascending: false })
+      .range(from, to),
+    'stock movements'
+  )
+
+  // Calculate summary metrics
+  const totalIngredients = ingredients.length
+  const lowStockCount = ingredients.filter(ing =>
+    parseFloat(ing.current_stock || 0) <= parseFloat(ing.min_stock_level || 0)
+  ).length
+  const outOfStockCount = ingredients.filter(ing =>
+    parseFloat(ing.current_stock || 0) === 0
+  ).length
+  const totalMovements = movements.length
+
+  // Calculate stock value
+  const totalStockValue = ingredients.reduce((sum, ing) =>
+    sum + (parseFloat(ing.current_stock || 0) * parseFloat(ing.unit_cost || 0))
+  , 0)
+
+  // Group movements by type
+  const movementsByType = movements.reduce((acc: any, mov) => {
+    const type = mov.movement_type
+    if (!acc[type]) {
+      acc[type] = { count: 0, quantity: 0 }
+    }
+    acc[type].count += 1
+    acc[type].quantity += parseFloat(mov.quantity || 0)
+    return acc
+  }, {})
+
+  // Daily stock movements by business day
+  const dailyMovements = movements.reduce((acc: Record<string, DailyMovements>, mov) => {
+    const date = businessDate(mov.created_at, calendar)
+    if (!acc[date]) {
+      acc[date] = {
+        date,
+        in: 0,
+        out: 0,
+        adjustment: 0,
+        wastage: 0
+      }
+    }
+    const qty = parseFloat(mov.quantity || 0)
+    if (mov.movement_type === 'in' || mov.movement_type === 'purchase') {
+      acc[date].in += qty
+    } else if (mov.movement_type === 'out' || mov.movement_type === 'usage') {
+      acc[date].out += qty
+    } else if (mov.movement_type === 'adjustment') {
+      acc[date].adjustment += qty
+    } else if (mov.movement_type === 'wastage') {
+      acc[date].wastage += qty
+    }
+    return acc
+  }, {})
+
+  const dailyTrend = Object.values(dailyMovements).sort((a, b) => a.date.localeCompare(b.date))
+
+  // Ingredient names for movements
+  const ingredientNames = new Map<string, string>(ingredients.map(ing => [ing.id, ing.name]))
+
+  const movementsWithNames = movements.slice(0, REPORT_TABLE_LIMIT).map(mov => ({
+    'Date': new Date(mov.created_at).toLocaleDateString('id-ID', { timeZone: calendar.time_zone }),
+    'Ingredient': ingredientNames.get(mov.ingredient_id) || '-',
+    'Type': mov.movement_type,
+    'Quantity': `${parseFloat(mov.quantity || 0)} ${mov.unit || ''}`,
+    'Reason': mov.reason || '-',
+    'Reference': mov.reference_number || '-'
+  }))
+
+  return {
+    data: {
+      summary: [
+        {
+          label: 'Total Ingredients',
+          value: totalIngredients,
+          bgColor: 'bg-blue-100',
+          color: 'text-blue-600'
+        },
+        {
+          label: 'Low Stock Items',
+          value: lowStockCount,
+          bgColor: 'bg-orange-100',
+          color: 'text-orange-600'
+        },
+        {
+          label: 'Out of Stock',
+          value: outOfStockCount,
+          bgColor: 'bg-red-100',
+          color: 'text-red-600'
+        },
+        {
+          label: 'Stock Value',
+          value: totalStockValue,
+          format: 'currency',
+          bgColor: 'bg-green-100',
+          color: 'text-green-600'
+        }
+      ],
+      table: movementsWithNames,
+      columns: ['Date', 'Ingredient', 'Type', 'Quantity', 'Reason', 'Reference'],
+      chart: {
+        daily: dailyTrend,
+        byType: movementsByType
+      },
+      stats: {
+        totalIngredients,
+        lowStockCount,
+        outOfStockCount,
+        totalStockValue,
+        totalMovements,
+        movementsByType
+      }
+    },
+    content: {
+      title: 'Laporan Inventaris',
+      period,
+      summary: [
+        { label: 'Jumlah Bahan', value: totalIngredients, format: 'number' },
+        { label: 'Stok Menipis', value: lowStockCount, format: 'number' },
+        { label: 'Stok Habis', value: outOfStockCount, format: 'number' },
+        { label: 'Nilai Stok', value: totalStockValue, format: 'currency' },
+        { label: 'Pergerakan Stok', value: totalMovements, format: 'number' }
+      ],
+      columns: [
+        { key: 'date', label: 'Tanggal', format: 'date' },
+        { key: 'ingredient', label: 'Bahan' },
+        { key: 'type', label: 'Tipe' },
+        { key: 'quantity', label: 'Jumlah', format: 'number' },
+        { key: 'unit', label: 'Satuan' },
+        { key: 'reason', label: 'Alasan' },
+        { key: 'reference', label: 'Referensi' }
+      ],
+      rows: movements.map(mov => ({
+        date: businessDate(mov.created_at, calendar),
+        ingredient: ingredientNames.get(mov.ingredient_id) || null,
+        type: mov.movement_type,
+        quantity: parseFloat(mov.quantity || 0),
+        unit: mov.unit || null,
+        reason: mov.reason || null,
+        reference: mov.reference_number || null
+      })),
+      charts: [
+        dailyChart('Pergerakan Stok Harian', period, dailyTrend, [
+          { name: 'Masuk', value: day => day.in },
+          { name: 'Keluar', value: day => day.out },
+          { name: 'Terbuang', value: day => day.wastage }
+        ])
+      ]
+    }
+  }
+}
@@ -0,0 +1,129 @@
+/**
+ * Report data
+ *
+ * Shared shape of the sales, financial, inventory and employee reports.
+ * Each builder returns the JSON the Reports page renders and the same
+ * report as export content: every row, with raw values and a format per
+ * column, Indonesian labels and charts for the PDF.
+ */
+
+import type { ReportChart, ReportDocument } from '@cafe/utils/documents'
+import { eachBusinessDate } from '@cafe/utils/helpers/businessCalendar'
+import { formatDate } from '@cafe/utils/formatters/date'
+import { ApiError } from '@/lib/api/errors'
+
+export class ReportError extends ApiError {
+  name = 'ReportError'
+}
+
+export interface ReportPeriod {
+  start_date: string
+  end_date: string
+}
+
+export interface ReportSummaryCard {
+  label: string
+  value: number | string
+  format?: 'currency'
+  change?: number
+  bgColor: string
+  color: string
+}
+
+export interface ReportData {
+  summary: ReportSummaryCard[]
+  table: Record<string, unknown>[]
+  columns: string[]
+  chart: Record<string, unknown>
+  stats: Record<string, unknown>
+}
+
+export type ReportContent = Pick<ReportDocument, 'title' | 'period' | 'summary' | 'columns' | 'rows' | 'charts'>
+
+export interface ReportResult {
+  data: ReportData
+  content: ReportContent
+}
+
+/** Rows shown in the table on the Reports page; exports include every row */
+export const REPORT_TABLE_LIMIT = 50
+
+const PAGE_SIZE = 1000
+
+// Longest period a report covers, to keep exports bounded
+const MAX_REPORT_DAYS = 366
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/
+
+/**
+ * Period from `?start=YYYY-MM-DD&end=YYYY-MM-DD`
+ */
+export function parseReportPeriod(searchParams: URLSearchParams): ReportPeriod {
+  const start = searchParams.get('start')
+  const end = searchParams.get('end')
+
+  if (!start || !end) {
+    throw new ReportError('Start and end dates are required')
+  }
+  if (!DATE_PATTERN.test(start) || !DATE_PATTERN.test(end) || Number.isNaN(Date.parse(start)) || Number.isNaN(Date.parse(end))) {
+    throw new ReportError('Dates must be YYYY-MM-DD')
+  }
+  if (start > end) {
+    throw new ReportError('Start date must not be after end date')
+  }
+  if (eachBusinessDate(start, end).length > MAX_REPORT_DAYS) {
+    throw new ReportError(`A report covers at most ${MAX_REPORT_DAYS} days`)
+  }
+
+  return { start_date: start, end_date: end }
+}
+
+/**
+ * Every row of a query; PostgREST caps each response, so read page by page
+ */
+export async function selectAll<T>(
+  fetchPage: (from: number, to: number) => PromiseLike<{ data: T[] | null; error: { message: string } | null }>,
+  label: string
+): Promise<T[]> {
+  const rows: T[] = []
+
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error } = await fetchPage(from, from + PAGE_SIZE - 1)
+    if (error) {
+      throw new ReportError(`Failed to load ${label}: ${error.message}`, 500)
+    }
+
+    rows.push(...(data || []))
+    if (!data || data.length < PAGE_SIZE) {
+      return rows
+    }
+  }
+}
+
+/**
+ * Chart with a bar group for every business day of a period, labelled
+ * "01/10"; days without a daily record count as 0
+ */
+export function dailyChart<T extends { date: string }>(
+  title: string,
+  period: ReportPeriod,
+  records: T[],
+  series: { name: string; value: (record: T) => number }[],
+  format: ReportChart['format'] = 'number'
+): ReportChart {
+  const byDate = new Map(records.map(record => [record.date, record]))
+  const dates = eachBusinessDate(period.start_date, period.end_date)
+
+  return {
+    title,
+    format,
+    labels: dates.map(date => formatDate(date, 'short').slice(0, 5)),
+    series: series.map(({ name, value }) => ({
+      name,
+      values: dates.map(date => {
+        const record = byDate.get(date)
+        return record ? value(record) : 0
+      })
+    }))
+  }
+}
@@ -0,0 +1,229 @@
+/**
+ * Sales report
+ *
+ * Orders by business day within the period: revenue, discounts, payment
+ * methods and order types, compared with the same number of days before.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js'
+import {
+  addDays,
+  businessDate,
+  businessDateRange,
+  eachBusinessDate,
+  type BusinessCalendar
+} from '@cafe/utils/helpers/businessCalendar'
+import {
+  dailyChart,
+  REPORT_TABLE_LIMIT,
+  ReportError,
+  selectAll,
+  type ReportPeriod,
+  type ReportResult
+} from './reportData'
+
+const SALES_STATUSES = ['confirmed', 'preparing', 'ready', 'delivered', 'completed']
+
+interface DailySales {
+  date: string
+  revenue: number
+  orders: number
+  discount: number
+}
+
+export async function buildSalesReport(
+  supabase: SupabaseClient,
+  period: ReportPeriod,
+  calendar: BusinessCalendar
+): Promise<ReportResult> {
+  const { start_date: startDate, end_date: endDate } = period
+  const range = businessDateRange(startDate, endDate, calendar)
+
+  // Get orders within the business days of the range
+  const orders = await selectAll<any>(
+    (from, to) => supabase
+      .from('orders')
+      .select('*')
+      .gte('created_at', range.start)
+      .lt('created_at', range.end)
+      .in('status', SALES_STATUSES)
+      .order('created_at', { ascending: false })
+      .range(from, to),
+    'orders'
+  )
+
+  // Calculate summary metrics
+  const totalRevenue = orders.reduce((sum, order) => sum + parseFloat(order.total_amount || 0), 0)
+  const totalOrders = orders.length
+  const totalDiscount = orders.reduce((sum, order) => sum + parseFloat(order.discount_amount || 0), 0)
+  const averageOrderValue = totalOrders > 0 ? totalRevenue / totalOrders : 0
+
+  // Group by payment method
+  const paymentMethodStats = orders.reduce((acc: any, order) => {
+    const method = order.payment_method || 'unknown'
+    if (!acc[method]) {
+      acc[method] = { count: 0, total: 0 }
+    }
+    acc[method].count += 1
+    acc[method].total += parseFloat(order.total_amount || 0)
+    return acc
+  }, {})
+
+  // Group by order type
+  const orderTypeStats = orders.reduce((acc: any, order) => {
+    const type = order.order_type || 'dine_in'
+    if (!acc[type]) {
+      acc[type] = { count: 0, total: 0 }
+    }
+    acc[type].count += 1
+    acc[type].total += parseFloat(order.total_amount || 0)
+    return acc
+  }, {})
+
+  // Daily revenue trend by business day
+  const dailyRevenue = orders.reduce((acc: Record<string, DailySales>, order) => {
+    const date = businessDate(order.created_at, calendar)
+    if (!acc[date]) {
+      acc[date] = {
+        date,
+        revenue: 0,
+        orders: 0,
+        discount: 0
+      }
+    }
+    acc[date].revenue += parseFloat(order.total_amount || 0)
+    acc[date].orders += 1
+    acc[date].discount += parseFloat(order.discount_amount || 0)
+    return acc
+  }, {})
+
+  const dailyTrend = Object.values(dailyRevenue).sort((a, b) => a.date.localeCompare(b.date))
+
+  // Get previous period (same number of business days) for comparison
+  const days = eachBusinessDate(startDate, endDate).length
+  const prevRange = businessDateRange(addDays(startDate, -days), addDays(startDate, -1), calendar)
+
+  const prevOrders = await selectAll<{ total_amount: string | number | null }>(
+    (from, to) => supabase
+      .from('orders')
+      .select('total_amount')
+      .gte('created_at', prevRange.start)
+      .lt('created_at', prevRange.end)
+      .in('status', SALES_STATUSES)
+      .range(from, to),
+    'previous orders'
+  ).catch((error: ReportError) => {
+    console.error('Error fetching previous orders:', error)
+    return []
+  })
+
+  const prevRevenue = prevOrders.reduce((sum, order) => sum + parseFloat(String(order.total_amount || 0)), 0)
+  const revenueChange = prevRevenue > 0 ? ((totalRevenue - prevRevenue) / prevRevenue) * 100 : 0
+  const ordersChange = prevOrders.length > 0 ? ((totalOrders - prevOrders.length) / prevOrders.length) * 100 : 0
+
+  // Format table data
+  const tableData = orders.slice(0, REPORT_TABLE_LIMIT).map(order => ({
+    'Order Number': order.order_number,
+    'Date': new Date(order.created_at).toLocaleDateString('id-ID', { timeZone: calendar.time_zone }),
+    'Customer': order.customer_name || '-',
+    'Type': order.order_type || 'dine_in',
+    'Payment': order.payment_method || '-',
+    'Subtotal': parseFloat(order.subtotal || 0),
+    'Discount': parseFloat(order.discount_amount || 0),
+    'Total Amount': parseFloat(order.total_amount || 0),
+    'Status': order.status
+  }))
+
+  return {
+    data: {
+      summary: [
+        {
+          label: 'Total Revenue',
+          value: totalRevenue,
+          format: 'currency',
+          change: Math.round(revenueChange),
+          bgColor: 'bg-blue-100',
+          color: 'text-blue-600'
+        },
+        {
+          label: 'Total Orders',
+          value: totalOrders,
+          change: Math.round(ordersChange),
+          bgColor: 'bg-green-100',
+          color: 'text-green-600'
+        },
+        {
+          label: 'Average Order',
+          value: averageOrderValue,
+          format: 'currency',
+          bgColor: 'bg-purple-100',
+          color: 'text-purple-600'
+        },
+        {
+          label: 'Total Discount',
+          value: totalDiscount,
+          format: 'currency',
+          bgColor: 'bg-orange-100',
+          color: 'text-orange-600'
+        }
+      ],
+      table: tableData,
+      columns: ['Order Number', 'Date', 'Customer', 'Type', 'Payment', 'Subtotal', 'Discount', 'Total Amount', 'Status'],
+      chart: {
+        daily: dailyTrend,
+        paymentMethods: paymentMethodStats,
+        orderTypes: orderTypeStats
+      },
+      stats: {
+        totalRevenue,
+        totalOrders,
+        totalDiscount,
+        averageOrderValue,
+        paymentMethods: paymentMethodStats,
+        orderTypes: orderTypeStats
+      }
+    },
+    content: {
+      title: 'Laporan Penjualan',
+      period,
+      summary: [
+        { label: 'Total Pendapatan', value: totalRevenue, format: 'currency' },
+        { label: 'Jumlah Pesanan', value: totalOrders, format: 'number' },
+        { label: 'Rata-rata Pesanan', value: averageOrderValue, format: 'currency' },
+        { label: 'Total Diskon', value: totalDiscount, format: 'currency' },
+        { label: 'Perubahan Pendapatan', value: revenueChange, format: 'percentage' },
+        { label: 'Perubahan Pesanan', value: ordersChange, format: 'percentage' }
+      ],
+      columns: [
+        { key: 'order_number', label: 'No. Pesanan' },
+        { key: 'date', label: 'Tanggal', format: 'date' },
+        { key: 'customer', label: 'Pelanggan' },
+        { key: 'type', label: 'Tipe' },
+        { key: 'payment', label: 'Pembayaran' },
+        { key: 'subtotal', label: 'Subtotal', format: 'currency' },
+        { key: 'discount', label: 'Diskon', format: 'currency' },
+        { key: 'total', label: 'Total', format: 'currency' },
+        { key: 'status', label: 'Status' }
+      ],
+      rows: orders.map(order => ({
+        order_number: order.order_number,
+        date: businessDate(order.created_at, calendar),
+        customer: order.customer_name || null,
+        type: order.order_type || 'dine_in',
+        payment: order.payment_method || null,
+        subtotal: parseFloat(order.subtotal || 0),
+        discount: parseFloat(order.discount_amount || 0),
+        total: parseFloat(order.total_amount || 0),
+        status: order.status
+      })),
+      charts: [
+        dailyChart('Pendapatan Harian', period, dailyTrend, [
+          { name: 'Pendapatan', value: day => day.revenue }
+        ], 'currency'),
+        dailyChart('Pesanan Harian', period, dailyTrend, [
+          { name: 'Pesanan', value: day => day.orders }
+        ])
+      ]
+    }
+  }
+}
@@ -0,0 +1,280 @@
+/**
+ * Telegram approvals
+ *
+ * What the owner's approve and reject buttons do (see
+ * @cafe/utils/helpers/telegramActions): overtime and leave requests are
+ * reviewed like on the overtime and leave pages, and an order whose transfer
+ * proof waits for verification is confirmed or sent back like from the
+ * live orders page. Each decision only applies while the record is still
+ * waiting, so a button pressed twice, or after the dashboard decided,
+ * changes nothing.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js'
+import type { TelegramAction } from '@cafe/utils/helpers/telegramActions'
+import { ApiError } from '@/lib/api/errors'
+import {
+  sendLeaveApprovalNotification,
+  sendLeaveRejectionNotification,
+  sendTelegramMessage
+} from './bot'
+
+export interface TelegramActionResult {
+  // Appended to the prompt in place of its buttons
+  message: string
+  // Confirmed order whose tickets and receipt still need printing
+  printOrderId?: string
+}
+
+export class TelegramActionError extends ApiError {
+  name = 'TelegramActionError'
+}
+
+const REVIEW_NOTE = 'Diputuskan owner lewat Telegram'
+
+// Order statuses in which an uploaded proof waits for verification
+const AWAITING_PAYMENT_STATUSES = ['pending_payment', 'payment_verification']
+
+const formatCurrency = (amount: number) => `Rp ${new Intl.NumberFormat('id-ID').format(amount)}`
+
+const formatDate = (date: string) => new Date(date).toLocaleDateString('id-ID', {
+  day: 'numeric',
+  month: 'long',
+  year: 'numeric'
+})
+
+/**
+ * Carry out an approve or reject button pressed in the owner's chat
+ */
+export async function applyTelegramAction(
+  supabase: SupabaseClient,
+  action: TelegramAction
+): Promise<TelegramActionResult> {
+  switch (action.subject) {
+    case 'overtime':
+      return decideOvertimeRequest(supabase, action.id, action.decision === 'approve')
+    case 'leave':
+      return decideLeaveRequest(supabase, action.id, action.decision === 'approve')
+    case 'payment':
+      return decideTransferPayment(supabase, action.id, action.decision === 'approve')
+  }
+}
+
+// The owner account recorded as reviewer
+async function loadOwnerUserId(supabase: SupabaseClient): Promise<string | null> {
+  const { data } = await supabase
+    .from('users')
+    .select('id')
+    .eq('role', 'owner')
+    .order('created_at', { ascending: true })
+    .limit(1)
+    .maybeSingle()
+
+  return data?.id || null
+}
+
+async function decideOvertimeRequest(
+  supabase: SupabaseClient,
+  id: string,
+  approve: boolean
+): Promise<TelegramActionResult> {
+  const status = approve ? 'approved' : 'rejected'
+
+  const { data: updated, error } = await supabase
+    .from('overtime_requests')
+    .update({
+      status,
+      reviewed_by: await loadOwnerUserId(supabase),
+      reviewed_at: new Date().toISOString(),
+      review_notes: REVIEW_NOTE
+    })
+    .eq('id', id)
+    .eq('status', 'pending')
+    .select(`
+      *,
+      employee:employees!employee_id (
+        full_name,
+        telegram_chat_id,
+        telegram_notifications_enabled
+      )
+    `)
+    .maybeSingle()
+
+  if (error) {
+    throw new TelegramActionError(error.message, 500)
+  }
+  if (!updated) {
+    throw new TelegramActionError('Pengajuan lembur ini sudah diproses', 409)
+  }
+
+  const employee = updated.employee as any
+  if (employee?.telegram_chat_id && employee?.telegram_notifications_enabled) {
+    await sendTelegramMessage(
+      employee.telegram_chat_id,
+      `<b>${approve ? '✅ Lembur Disetujui' : '❌ Lembur Ditolak'}</b>\n\n` +
+      `📅 <b>Tanggal:</b> ${formatDate(updated.date)}\n` +
+      `⏰ <b>Waktu:</b> ${String(updated.start_time).slice(0, 5)} - ${String(updated.end_time).slice(0, 5)} (${updated.hours} jam)`
+    )
+  }
+
+  return {
+    message: `${approve ? '✅ Disetujui' : '❌ Ditolak'}: lembur ${employee?.full_name || ''} ${formatDate(updated.date)}`
+  }
+}
+
+async function decideLeaveRequest(
+  supabase: SupabaseClient,
+  id: string,
+  approve: boolean
+): Promise<TelegramActionResult> {
+  const status = approve ? 'approved' : 'rejected'
+
+  const { data: updated, error } = await supabase
+    .from('leave_requests')
+    .update({
+      status,
+      reviewed_by: await loadOwnerUserId(supabase),
+      reviewed_at: new Date().toISOString(),
+      review_notes: REVIEW_NOTE
+    })
+    .eq('id', id)
+    .eq('status', 'pending')
+    .select(`
+      *,
+      employee:employees!employee_id (
+        id,
+        full_name,
+        telegram_chat_id,
+        telegram_notifications_enabled,
+        annual_leave_balance,
+        sick_leave_balance
+      )
+    `)
+    .maybeSingle()
+
+  if (error) {
+    throw new TelegramActionError(error.message, 500)
+  }
+  if (!updated) {
+    throw new TelegramActionError('Pengajuan cuti ini sudah diproses', 409)
+  }
+
+  const employee = updated.employee as any
+  const totalDays = updated.total_days || 1
+
+  // Approved annual and sick leave comes off the balance
+  if (approve && (updated.leave_type === 'annual' || updated.leave_type === 'sick')) {
+    const balanceField = updated.leave_type === 'annual' ? 'annual_leave_balance' : 'sick_leave_balance'
+
+    await supabase
+      .from('employees')
+      .update({ [balanceField]: Math.max(0, (employee?.[balanceField] || 0) - totalDays) })
+      .eq('id', updated.employee_id)
+  }
+
+  if (employee?.telegram_chat_id && employee?.telegram_notifications_enabled) {
+    if (approve) {
+      await sendLeaveApprovalNotification(
+        employee.telegram_chat_id,
+        employee.full_name,
+        updated.leave_type,
+        updated.start_date,
+        updated.end_date,
+        totalDays
+      )
+    } else {
+      await sendLeaveRejectionNotification(
+        employee.telegram_chat_id,
+        employee.full_name,
+        updated.leave_type,
+        updated.start_date,
+        updated.end_date,
+        REVIEW_NOTE
+      )
+    }
+  }
+
+  return {
+    message: `${approve ? '✅ Disetujui' : '❌ Ditolak'}: cuti ${employee?.full_name || ''} ${formatDate(updated.start_date)} - ${formatDate(updated.end_date)}`
+  }
+}
+
+async function decideTransferPayment(
+  supabase: SupabaseClient,
+  orderId: string,
+  approve: boolean
+): Promise<TelegramActionResult> {
+  const { data: order, error: fetchError } = await supabase
+    .from('orders')
+    .select('id, order_number, status, payment_status, total_amount, split_method')
+    .eq('id', orderId)
+    .maybeSingle()
+
+  if (fetchError) {
+    throw new TelegramActionError(fetchError.message, 500)
+  }
+  if (!order) {
+    throw new TelegramActionError('Pesanan tidak ditemukan', 404)
+  }
+  if (!AWAITING_PAYMENT_STATUSES.includes(order.status) || order.payment_status !== 'processing') {
+    throw new TelegramActionError('Pembayaran pesanan ini sudah diproses', 409)
+  }
+  // Shares of a split bill are verified one by one in the dashboard
+  if (order.split_method) {
+    throw new TelegramActionError('Tagihan ini dibagi, verifikasi tiap bagian dari dashboard', 409)
+  }
+
+  const now = new Date().toISOString()
+  const changes = approve
+    ? {
+        status: 'confirmed',
+        payment_status: 'verified',
+        payment_verified_at: now,
+        confirmed_at: now,
+        updated_at: now
+      }
+    : {
+        status: 'pending_payment',
+        payment_status: 'pending',
+        payment_verified_at: null,
+        confirmed_at: null,
+        updated_at: now
+      }
+
+  const { data: updated, error: updateError } = await supabase
+    .from('orders')
+    .update(changes)
+    .eq('id', orderId)
+    .in('status', AWAITING_PAYMENT_STATUSES)
+    .eq('payment_status', 'processing')
+    .select('id')
+    .maybeSingle()
+
+  if (updateError) {
+    throw new TelegramActionError(updateError.message, 500)
+  }
+  if (!updated) {
+    throw new TelegramActionError('Pembayaran pesanan ini sudah diproses', 409)
+  }
+
+  const { error: transactionError } = await supabase
+    .from('payment_transactions')
+    .update({
+      status: approve ? 'success' : 'pending',
+      processed_at: now
+    })
+    .eq('order_id', orderId)
+
+  if (transactionError) {
+    console.warn('Could not update payment_transactions:', transactionError)
+  }
+
+  const amount = formatCurrency(parseFloat(order.total_amount || 0))
+
+  return approve
+    ? {
+        message: `✅ Pembayaran ${order.order_number} (${amount}) diverifikasi`,
+        printOrderId: orderId
+      }
+    : { message: `❌ Pembayaran ${order.order_number} (${amount}) ditolak, pelanggan diminta membayar ulang` }
+}
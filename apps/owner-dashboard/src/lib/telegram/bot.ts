@@ -55,6 +55,7 @@ import {
   type PerformanceData,
   type CustomMessageData
 } from './templates'
+import type { TelegramInlineButton } from '@cafe/utils/helpers/telegramActions'
 
 const TELEGRAM_BOT_TOKEN = process.env.TELEGRAM_BOT_TOKEN || ''
 const TELEGRAM_API_URL = `https://api.telegram.org/bot${TELEGRAM_BOT_TOKEN}`
@@ -112,6 +113,92 @@ export async function sendTelegramMessage(chatId: string, message: string): Prom
   }
 }
 
+/**
+ * Call a Bot API method, logging rather than throwing on failure
+ */
+async function callTelegramApi(method: string, payload: Record<string, unknown>): Promise<boolean> {
+  if (!TELEGRAM_BOT_TOKEN) {
+    console.warn('Telegram bot token not configured')
+    return false
+  }
+
+  try {
+    const response = await fetch(`${TELEGRAM_API_URL}/${method}`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json'
+      },
+      body: JSON.stringify(payload)
+    })
+
+    const data = await response.json()
+
+    if (!data.ok) {
+      console.error(`Telegram API error (${method}):`, data.description)
+      return false
+    }
+
+    return true
+  } catch (error) {
+    console.error(`Error calling Telegram ${method}:`, error)
+    return false
+  }
+}
+
+/**
+ * Send a message with inline keyboard buttons
+ */
+export async function sendTelegramMessageWithButtons(
+  chatId: string,
+  message: string,
+  keyboard: TelegramInlineButton[][]
+): Promise<boolean> {
+  if (!chatId) {
+    console.warn('Chat ID not provided')
+    return false
+  }
+
+  return callTelegramApi('sendMessage', {
+    chat_id: chatId,
+    text: message,
+    parse_mode: 'HTML',
+    reply_markup: { inline_keyboard: keyboard }
+  })
+}
+
+/**
+ * Replace the text (or a photo's caption) of a sent message, dropping its
+ * buttons
+ */
+export async function editTelegramMessage(
+  chatId: string,
+  messageId: number,
+  message: string,
+  isCaption: boolean = false
+): Promise<boolean> {
+  return callTelegramApi(isCaption ? 'editMessageCaption' : 'editMessageText', {
+    chat_id: chatId,
+    message_id: messageId,
+    [isCaption ? 'caption' : 'text']: message,
+    parse_mode: 'HTML'
+  })
+}
+
+/**
+ * Stop the spinner on a pressed button, with an optional toast
+ */
+export async function answerCallbackQuery(
+  callbackQueryId: string,
+  text?: string,
+  showAlert: boolean = false
+): Promise<boolean> {
+  return callTelegramApi('answerCallbackQuery', {
+    callback_query_id: callbackQueryId,
+    text,
+    show_alert: showAlert
+  })
+}
+
 // ============================================
 // OVERTIME NOTIFICATIONS
 // ============================================
@@ -0,0 +1,267 @@
+/**
+ * Telegram bot commands
+ *
+ * Quick numbers for the owner (/today, /omzet, /stock) and an employee's
+ * own schedule and payslip (/jadwal, /slip), answered by the Telegram
+ * webhook. Days are business days of the cafe's calendar, like the
+ * dashboard reports.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js'
+import {
+  addDays,
+  businessDateRange,
+  todayBusinessDate,
+  type BusinessCalendar
+} from '@cafe/utils/helpers/businessCalendar'
+import {
+  TELEGRAM_EMPLOYEE_COMMANDS,
+  TELEGRAM_OWNER_COMMANDS
+} from '@cafe/utils/helpers/telegramActions'
+import { loadBusinessCalendar } from '@/lib/calendar/businessCalendar'
+
+// Who the chat belongs to, see the Telegram webhook
+export type TelegramChatIdentity =
+  | { kind: 'owner' }
+  | { kind: 'employee'; employeeId: string; name: string }
+
+const SALES_STATUSES = ['confirmed', 'preparing', 'ready', 'delivered', 'completed']
+
+const STOCK_LIST_LIMIT = 15
+
+const SCHEDULE_DAYS = 7
+
+const formatCurrency = (amount: number) => `Rp ${new Intl.NumberFormat('id-ID').format(Math.round(amount))}`
+
+const formatDay = (date: string) => new Date(`${date}T00:00:00Z`).toLocaleDateString('id-ID', {
+  timeZone: 'UTC',
+  weekday: 'long',
+  day: 'numeric',
+  month: 'long'
+})
+
+/**
+ * Reply to a command, or null when the command is unknown to this chat
+ */
+export async function runTelegramCommand(
+  supabase: SupabaseClient,
+  command: string,
+  identity: TelegramChatIdentity
+): Promise<string | null> {
+  if (command === 'start' || command === 'help') {
+    return helpMessage(identity)
+  }
+
+  if (identity.kind === 'owner') {
+    const calendar = await loadBusinessCalendar(supabase)
+    switch (command) {
+      case 'today':
+        return todaySummary(supabase, calendar)
+      case 'omzet':
+        return revenueSummary(supabase, calendar)
+      case 'stock':
+        return stockSummary(supabase)
+    }
+    return null
+  }
+
+  switch (command) {
+    case 'jadwal':
+      return scheduleSummary(supabase, identity.employeeId, await loadBusinessCalendar(supabase))
+    case 'slip':
+      return payslipSummary(supabase, identity.employeeId)
+  }
+  return null
+}
+
+export function helpMessage(identity: TelegramChatIdentity): string {
+  const commands = identity.kind === 'owner' ? TELEGRAM_OWNER_COMMANDS : TELEGRAM_EMPLOYEE_COMMANDS
+  const greeting = identity.kind === 'owner' ? 'Halo Owner' : `Halo ${identity.name}`
+
+  return `<b>${greeting} 👋</b>\n\nPerintah yang tersedia:\n` +
+    Object.entries(commands).map(([command, description]) => `/${command} - ${description}`).join('\n')
+}
+
+// ============================================
+// OWNER
+// ============================================
+
+async function salesBetween(
+  supabase: SupabaseClient,
+  startDate: string,
+  endDate: string,
+  calendar: BusinessCalendar
+): Promise<{ revenue: number; orders: number }> {
+  const range = businessDateRange(startDate, endDate, calendar)
+
+  const { data, error } = await supabase
+    .from('orders')
+    .select('total_amount')
+    .gte('created_at', range.start)
+    .lt('created_at', range.end)
+    .in('status', SALES_STATUSES)
+
+  if (error) {
+    throw new Error(`Failed to fetch orders: ${error.message}`)
+  }
+
+  return {
+    revenue: (data || []).reduce((sum, order) => sum + parseFloat(order.total_amount || 0), 0),
+    orders: (data || []).length
+  }
+}
+
+async function todaySummary(supabase: SupabaseClient, calendar: BusinessCalendar): Promise<string> {
+  const today = todayBusinessDate(calendar)
+
+  const [sales, { count: pendingPayments }, { count: present }, { count: activeEmployees }] = await Promise.all([
+    salesBetween(supabase, today, today, calendar),
+    supabase
+      .from('orders')
+      .select('id', { count: 'exact', head: true })
+      .eq('status', 'payment_verification'),
+    supabase
+      .from('attendance')
+      .select('id', { count: 'exact', head: true })
+      .eq('date', today),
+    supabase
+      .from('employees')
+      .select('id', { count: 'exact', head: true })
+      .eq('status', 'active')
+  ])
+
+  return `<b>📊 Hari Ini - ${formatDay(today)}</b>\n\n` +
+    `💰 <b>Omzet:</b> ${formatCurrency(sales.revenue)}\n` +
+    `🧾 <b>Pesanan:</b> ${sales.orders}\n` +
+    `⏳ <b>Menunggu verifikasi:</b> ${pendingPayments || 0}\n` +
+    `👥 <b>Staf hadir:</b> ${present || 0} dari ${activeEmployees || 0}`
+}
+
+async function revenueSummary(supabase: SupabaseClient, calendar: BusinessCalendar): Promise<string> {
+  const today = todayBusinessDate(calendar)
+  const monthStart = `${today.slice(0, 7)}-01`
+
+  const [day, week, month] = await Promise.all([
+    salesBetween(supabase, today, today, calendar),
+    salesBetween(supabase, addDays(today, -6), today, calendar),
+    salesBetween(supabase, monthStart, today, calendar)
+  ])
+
+  const line = (label: string, sales: { revenue: number; orders: number }) =>
+    `<b>${label}:</b> ${formatCurrency(sales.revenue)} (${sales.orders} pesanan)`
+
+  return `<b>💰 Omzet</b>\n\n` + [
+    line('Hari ini', day),
+    line('7 hari terakhir', week),
+    line('Bulan ini', month)
+  ].join('\n')
+}
+
+async function stockSummary(supabase: SupabaseClient): Promise<string> {
+  const { data, error } = await supabase
+    .from('ingredients')
+    .select('name, unit, current_stock, min_stock_level')
+    .eq('is_active', true)
+    .order('name')
+
+  if (error) {
+    throw new Error(`Failed to fetch ingredients: ${error.message}`)
+  }
+
+  const low = (data || [])
+    .map(ingredient => ({
+      ...ingredient,
+      current: Number(ingredient.current_stock) || 0,
+      minimum: Number(ingredient.min_stock_level) || 0
+    }))
+    .filter(ingredient => ingredient.current <= ingredient.minimum)
+    .sort((a, b) => a.current - b.current)
+
+  if (low.length === 0) {
+    return '<b>📦 Stok</b>\n\nSemua bahan di atas stok minimum ✅'
+  }
+
+  const lines = low.slice(0, STOCK_LIST_LIMIT).map(ingredient =>
+    `${ingredient.current === 0 ? '🔴' : '🟡'} ${ingredient.name}: ${ingredient.current} ${ingredient.unit} (min ${ingredient.minimum})`
+  )
+  if (low.length > STOCK_LIST_LIMIT) {
+    lines.push(`… dan ${low.length - STOCK_LIST_LIMIT} bahan lain`)
+  }
+
+  return `<b>📦 Stok Menipis (${low.length})</b>\n\n${lines.join('\n')}`
+}
+
+// ============================================
+// EMPLOYEE
+// ============================================
+
+async function scheduleSummary(
+  supabase: SupabaseClient,
+  employeeId: string,
+  calendar: BusinessCalendar
+): Promise<string> {
+  const today = todayBusinessDate(calendar)
+
+  const { data, error } = await supabase
+    .from('shift_schedules')
+    .select('date, shift_start, shift_end, shift_type, notes')
+    .eq('employee_id', employeeId)
+    .eq('is_published', true)
+    .gte('date', today)
+    .lte('date', addDays(today, SCHEDULE_DAYS - 1))
+    .order('date', { ascending: true })
+
+  if (error) {
+    throw new Error(`Failed to fetch schedules: ${error.message}`)
+  }
+
+  if (!data || data.length === 0) {
+    return `<b>📅 Jadwal</b>\n\nBelum ada jadwal untuk ${SCHEDULE_DAYS} hari ke depan.`
+  }
+
+  const lines = data.map(shift =>
+    `${formatDay(shift.date)}: ${String(shift.shift_start).slice(0, 5)} - ${String(shift.shift_end).slice(0, 5)}` +
+    (shift.shift_type !== 'regular' ? ` (${shift.shift_type})` : '') +
+    (shift.notes ? `\n   📝 ${shift.notes}` : '')
+  )
+
+  return `<b>📅 Jadwal ${SCHEDULE_DAYS} Hari ke Depan</b>\n\n${lines.join('\n')}`
+}
+
+async function payslipSummary(supabase: SupabaseClient, employeeId: string): Promise<string> {
+  const { data: payroll, error } = await supabase
+    .from('payroll')
+    .select('month, year, basic_salary, overtime_pay, allowances, bonus, total_deductions, net_salary, payment_status, payment_date, payslip_url')
+    .eq('employee_id', employeeId)
+    .order('period_end', { ascending: false })
+    .limit(1)
+    .maybeSingle()
+
+  if (error) {
+    throw new Error(`Failed to fetch payroll: ${error.message}`)
+  }
+
+  if (!payroll) {
+    return '<b>💵 Slip Gaji</b>\n\nBelum ada slip gaji.'
+  }
+
+  const period = new Date(Date.UTC(payroll.year, payroll.month - 1, 1)).toLocaleDateString('id-ID', {
+    timeZone: 'UTC',
+    month: 'long',
+    year: 'numeric'
+  })
+  const amount = (value: unknown) => formatCurrency(parseFloat(String(value || 0)))
+  const paid = payroll.payment_status === 'paid'
+
+  return `<b>💵 Slip Gaji ${period}</b>\n\n` +
+    `Gaji pokok: ${amount(payroll.basic_salary)}\n` +
+    `Lembur: ${amount(payroll.overtime_pay)}\n` +
+    `Tunjangan: ${amount(payroll.allowances)}\n` +
+    `Bonus: ${amount(payroll.bonus)}\n` +
+    `Potongan: -${amount(payroll.total_deductions)}\n` +
+    `<b>Diterima: ${amount(payroll.net_salary)}</b>\n\n` +
+    (paid
+      ? `✅ Dibayar${payroll.payment_date ? ` ${formatDay(payroll.payment_date)}` : ''}`
+      : '⏳ Belum dibayar') +
+    (payroll.payslip_url ? `\n📄 <a href="${payroll.payslip_url}">Unduh slip gaji</a>` : '')
+}
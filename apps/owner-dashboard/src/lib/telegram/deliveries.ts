@@ -0,0 +1,261 @@
+/**
+ * Scheduled notification deliveries
+ *
+ * History of what the notification-dispatcher function sent from the
+ * `scheduled_notifications` queue (067_notification_dispatcher), with the
+ * failures, and the per-recipient quiet hours it honours. Failed or
+ * cancelled deliveries can be queued again; pending ones can be cancelled.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js'
+import {
+  isValidClockTime,
+  type ScheduledNotificationStatus
+} from '@cafe/utils/helpers/notificationSchedule'
+import { ApiError } from '@/lib/api/errors'
+
+export type DeliveryAction = 'retry' | 'cancel'
+
+const STATUSES: ScheduledNotificationStatus[] = ['pending', 'processing', 'sent', 'failed', 'cancelled']
+
+const DEFAULT_LIMIT = 100
+
+export interface NotificationDelivery {
+  id: string
+  chat_id: string
+  recipient_name: string | null
+  message: string
+  notification_type: string
+  priority: 'low' | 'normal' | 'high' | 'urgent'
+  report_schedule_id: string | null
+  status: ScheduledNotificationStatus
+  scheduled_at: string
+  next_attempt_at: string | null
+  attempts: number
+  max_attempts: number
+  last_error: string | null
+  sent_at: string | null
+  failed_at: string | null
+  cancelled_at: string | null
+  created_at: string
+}
+
+export interface QuietHoursEntry {
+  chat_id: string
+  recipient_name: string | null
+  start_time: string
+  end_time: string
+}
+
+export interface NotificationRecipient {
+  chat_id: string
+  recipient_name: string
+}
+
+export class NotificationDeliveryError extends ApiError {
+  name = 'NotificationDeliveryError'
+}
+
+const DELIVERY_COLUMNS = 'id, chat_id, recipient_name, message, notification_type, priority, report_schedule_id, status, scheduled_at, next_attempt_at, attempts, max_attempts, last_error, sent_at, failed_at, cancelled_at, created_at'
+
+/**
+ * Most recent deliveries, optionally of one status, with the number of
+ * deliveries in each status
+ */
+export async function listDeliveries(
+  supabase: SupabaseClient,
+  filters: { status?: string | null; limit?: number } = {}
+): Promise<{ deliveries: NotificationDelivery[]; counts: Record<ScheduledNotificationStatus, number> }> {
+  if (filters.status && !STATUSES.includes(filters.status as ScheduledNotificationStatus)) {
+    throw new NotificationDeliveryError(`Status must be one of: ${STATUSES.join(', ')}`)
+  }
+
+  let query = supabase
+    .from('scheduled_notifications')
+    .select(DELIVERY_COLUMNS)
+    .order('scheduled_at', { ascending: false })
+    .limit(Math.min(filters.limit || DEFAULT_LIMIT, 500))
+
+  if (filters.status) {
+    query = query.eq('status', filters.status)
+  }
+
+  const [{ data, error }, ...countResults] = await Promise.all([
+    query,
+    ...STATUSES.map(status => supabase
+      .from('scheduled_notifications')
+      .select('id', { count: 'exact', head: true })
+      .eq('status', status))
+  ])
+
+  if (error) {
+    throw new NotificationDeliveryError(error.message, 500)
+  }
+
+  const counts = {} as Record<ScheduledNotificationStatus, number>
+  STATUSES.forEach((status, index) => {
+    counts[status] = countResults[index].count || 0
+  })
+
+  return { deliveries: (data || []) as NotificationDelivery[], counts }
+}
+
+/**
+ * Queue a failed or cancelled delivery again, or cancel a pending one
+ */
+export async function updateDelivery(
+  supabase: SupabaseClient,
+  id: string,
+  action: string
+): Promise<NotificationDelivery> {
+  const { data: current, error: fetchError } = await supabase
+    .from('scheduled_notifications')
+    .select('id, status')
+    .eq('id', id)
+    .maybeSingle()
+
+  if (fetchError) {
+    throw new NotificationDeliveryError(fetchError.message, 500)
+  }
+  if (!current) {
+    throw new NotificationDeliveryError('Notification not found', 404)
+  }
+
+  const now = new Date().toISOString()
+  let changes: Record<string, unknown>
+
+  if (action === 'retry') {
+    if (!['failed', 'cancelled'].includes(current.status)) {
+      throw new NotificationDeliveryError(`A ${current.status} notification cannot be retried`, 409)
+    }
+    changes = {
+      status: 'pending',
+      attempts: 0,
+      next_attempt_at: now,
+      last_error: null,
+      failed_at: null,
+      cancelled_at: null
+    }
+  } else if (action === 'cancel') {
+    if (current.status !== 'pending') {
+      throw new NotificationDeliveryError(`A ${current.status} notification cannot be cancelled`, 409)
+    }
+    changes = { status: 'cancelled', cancelled_at: now }
+  } else {
+    throw new NotificationDeliveryError('Action must be one of: retry, cancel')
+  }
+
+  // The dispatcher may have claimed it meanwhile
+  const { data: updated, error: updateError } = await supabase
+    .from('scheduled_notifications')
+    .update(changes)
+    .eq('id', id)
+    .eq('status', current.status)
+    .select(DELIVERY_COLUMNS)
+    .maybeSingle()
+
+  if (updateError) {
+    throw new NotificationDeliveryError(updateError.message, 500)
+  }
+  if (!updated) {
+    throw new NotificationDeliveryError('Notification is being sent, try again shortly', 409)
+  }
+
+  return updated as NotificationDelivery
+}
+
+// ===========================================
+// QUIET HOURS
+// ===========================================
+
+/**
+ * Quiet hours set per chat, and the owner and employee chats they can be
+ * set for
+ */
+export async function listQuietHours(supabase: SupabaseClient): Promise<{
+  entries: QuietHoursEntry[]
+  recipients: NotificationRecipient[]
+}> {
+  const [{ data: entries, error }, { data: ownerSettings }, { data: employees }] = await Promise.all([
+    supabase
+      .from('notification_quiet_hours')
+      .select('chat_id, recipient_name, start_time, end_time')
+      .order('recipient_name'),
+    supabase
+      .from('system_settings')
+      .select('value')
+      .eq('key', 'owner_telegram_chat_id')
+      .maybeSingle(),
+    supabase
+      .from('employees')
+      .select('full_name, telegram_chat_id')
+      .eq('status', 'active')
+      .not('telegram_chat_id', 'is', null)
+      .order('full_name')
+  ])
+
+  if (error) {
+    throw new NotificationDeliveryError(error.message, 500)
+  }
+
+  const recipients: NotificationRecipient[] = []
+  if (ownerSettings?.value) {
+    recipients.push({ chat_id: String(ownerSettings.value), recipient_name: 'Owner' })
+  }
+  for (const employee of employees || []) {
+    recipients.push({ chat_id: employee.telegram_chat_id, recipient_name: employee.full_name })
+  }
+
+  return {
+    entries: ((entries || []) as QuietHoursEntry[]).map(entry => ({
+      ...entry,
+      start_time: entry.start_time.slice(0, 5),
+      end_time: entry.end_time.slice(0, 5)
+    })),
+    recipients
+  }
+}
+
+export async function setQuietHours(
+  supabase: SupabaseClient,
+  input: { chat_id?: string; recipient_name?: string | null; start_time?: string; end_time?: string }
+): Promise<QuietHoursEntry> {
+  const chatId = typeof input.chat_id === 'string' ? input.chat_id.trim() : ''
+  if (!chatId) {
+    throw new NotificationDeliveryError('chat_id is required')
+  }
+  if (!isValidClockTime(input.start_time) || !isValidClockTime(input.end_time)) {
+    throw new NotificationDeliveryError('start_time and end_time must be HH:MM')
+  }
+  if (input.start_time === input.end_time) {
+    throw new NotificationDeliveryError('Quiet hours must not start and end at the same time')
+  }
+
+  const { data, error } = await supabase
+    .from('notification_quiet_hours')
+    .upsert({
+      chat_id: chatId,
+      recipient_name: input.recipient_name?.trim() || null,
+      start_time: input.start_time,
+      end_time: input.end_time
+    }, { onConflict: 'chat_id' })
+    .select('chat_id, recipient_name, start_time, end_time')
+    .single()
+
+  if (error) {
+    throw new NotificationDeliveryError(error.message, 500)
+  }
+
+  return data as QuietHoursEntry
+}
+
+export async function deleteQuietHours(supabase: SupabaseClient, chatId: string): Promise<void> {
+  const { error } = await supabase
+    .from('notification_quiet_hours')
+    .delete()
+    .eq('chat_id', chatId)
+
+  if (error) {
+    throw new NotificationDeliveryError(error.message, 500)
+  }
+}
@@ -1,6 +1,13 @@
 import { withAuth } from "next-auth/middleware"
 import { NextResponse } from "next/server"
 
+// API routes that authenticate callers themselves: NextAuth, and the
+// Telegram webhook, which checks Telegram's secret token header
+const publicApiRoutes = ['/api/auth', '/api/telegram/webhook']
+
+const isPublicApiRoute = (pathname: string) =>
+  publicApiRoutes.some(route => pathname === route || pathname.startsWith(`${route}/`))
+
 export default withAuth(
   function middleware(req) {
     const token = req.nextauth.token
@@ -10,7 +17,7 @@ export default withAuth(
 
     // Public auth routes - always allow
     const publicAuthRoutes = ['/login', '/signup', '/forgot-password']
-    if (publicAuthRoutes.includes(pathname)) {
+    if (publicAuthRoutes.includes(pathname) || isPublicApiRoute(pathname)) {
       return NextResponse.next()
     }
 
@@ -41,8 +48,8 @@ export default withAuth(
           return true
         }
 
-        // API auth routes
-        if (pathname.startsWith('/api/auth')) {
+        // API auth routes and the Telegram webhook
+        if (isPublicApiRoute(pathname)) {
           return true
         }
 
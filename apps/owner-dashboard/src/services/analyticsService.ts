@@ -1,6 +1,16 @@
 'use client'
 
 import { createClient } from '@/lib/supabase/client'
+import { loadBusinessCalendar } from '@/lib/calendar/businessCalendar'
+import {
+  DEFAULT_BUSINESS_CALENDAR,
+  addDays,
+  businessDate,
+  businessDayStart,
+  businessHour,
+  todayBusinessDate,
+  type BusinessCalendar
+} from '@cafe/utils/helpers/businessCalendar'
 
 const supabase = createClient()
 
@@ -50,6 +60,18 @@ export interface DateRange {
 }
 
 class AnalyticsService {
+  private calendar: BusinessCalendar = DEFAULT_BUSINESS_CALENDAR
+  private calendarLoaded = false
+
+  // Load the cafe's business calendar once; call before getDateRangeForPeriod
+  async loadBusinessCalendar(): Promise<BusinessCalendar> {
+    if (!this.calendarLoaded) {
+      this.calendar = await loadBusinessCalendar(supabase)
+      this.calendarLoaded = true
+    }
+    return this.calendar
+  }
+
   // Get revenue data over time
   async getRevenueData(dateRange: DateRange): Promise<RevenueData[]> {
     try {
@@ -63,11 +85,13 @@ class AnalyticsService {
 
       if (error) throw error
 
-      // Group by date
+      const calendar = await this.loadBusinessCalendar()
+
+      // Group by business day
       const revenueByDate = new Map<string, { revenue: number; orders: number }>()
 
       orders?.forEach(order => {
-        const date = new Date(order.created_at).toISOString().split('T')[0]
+        const date = businessDate(order.created_at, calendar)
         const current = revenueByDate.get(date) || { revenue: 0, orders: 0 }
         current.revenue += parseFloat(order.total_amount?.toString() || '0')
         current.orders += 1
@@ -180,7 +204,9 @@ class AnalyticsService {
 
       if (error) throw error
 
-      // Group by hour
+      const calendar = await this.loadBusinessCalendar()
+
+      // Group by hour on the cafe's clock
       const hourData = new Map<number, { orders: number; revenue: number }>()
 
       for (let i = 0; i < 24; i++) {
@@ -188,7 +214,7 @@ class AnalyticsService {
       }
 
       orders?.forEach(order => {
-        const hour = new Date(order.created_at).getHours()
+        const hour = businessHour(order.created_at, calendar)
         const current = hourData.get(hour)!
         current.orders += 1
         current.revenue += parseFloat(order.total_amount?.toString() || '0')
@@ -353,30 +379,30 @@ class AnalyticsService {
     }
   }
 
-  // Helper: Get date range for period
+  // Helper: Get date range for period, starting at a business day boundary
   getDateRangeForPeriod(period: 'today' | 'week' | 'month' | 'year'): DateRange {
     const now = new Date()
-    const endDate = now.toISOString()
-    let startDate: Date
+    const today = todayBusinessDate(this.calendar, now)
+    let startDate: string
 
     switch (period) {
       case 'today':
-        startDate = new Date(now.getFullYear(), now.getMonth(), now.getDate())
+        startDate = today
         break
       case 'week':
-        startDate = new Date(now.getTime() - 7 * 24 * 60 * 60 * 1000)
+        startDate = addDays(today, -6)
         break
       case 'month':
-        startDate = new Date(now.getFullYear(), now.getMonth(), 1)
+        startDate = `${today.slice(0, 7)}-01`
         break
       case 'year':
-        startDate = new Date(now.getFullYear(), 0, 1)
+        startDate = `${today.slice(0, 4)}-01-01`
         break
     }
 
     return {
-      startDate: startDate.toISOString(),
-      endDate
+      startDate: businessDayStart(startDate, this.calendar).toISOString(),
+      endDate: now.toISOString()
     }
   }
 
@@ -23,6 +23,8 @@ export interface Supplier {
   quality_rating?: number
   price_rating?: number
   total_purchases?: number
+  minimum_order_amount?: number
+  lead_time_days?: number
   is_active: boolean
   is_preferred: boolean
   notes?: string
@@ -63,6 +65,7 @@ export interface StockBatch {
   supplier_id?: string
   supplier_name?: string
   purchase_order_id?: string
+  purchase_order_item_id?: string
   initial_quantity: number
   remaining_quantity: number
   unit: string
@@ -90,6 +93,7 @@ export interface IngredientWithStock {
   unit_cost: number
   last_purchase_price?: number
   average_cost?: number
+  preferred_supplier_id?: string
   is_active: boolean
   stock_status?: 'critical' | 'low' | 'optimal' | 'high'
   days_until_reorder?: number
@@ -113,6 +117,134 @@ export interface StockPrediction {
   predicted_stockout_date?: string
 }
 
+export type PurchaseOrderStatus =
+  | 'draft'
+  | 'sent'
+  | 'confirmed'
+  | 'partial_received'
+  | 'completed'
+  | 'cancelled'
+
+export interface PurchaseOrderItem {
+  id: string
+  po_id: string
+  ingredient_id: string
+  quantity: number
+  unit: string
+  unit_price: number
+  subtotal: number
+  tax_rate?: number
+  tax_amount?: number
+  total: number
+  delivered_quantity: number
+  received_date?: string
+  notes?: string
+  ingredient?: {
+    id: string
+    name: string
+    unit: string
+    current_stock?: number
+    unit_cost?: number
+  }
+  batches?: Pick<StockBatch, 'id' | 'batch_number' | 'initial_quantity' | 'remaining_quantity' | 'unit_cost' | 'received_date' | 'expiry_date'>[]
+}
+
+export interface PurchaseOrder {
+  id: string
+  po_number: string
+  supplier_id: string
+  order_date: string
+  expected_delivery?: string
+  actual_delivery?: string
+  status: PurchaseOrderStatus
+  subtotal: number
+  tax_amount: number
+  delivery_fee: number
+  discount_amount: number
+  total_amount: number
+  payment_status?: string
+  notes?: string
+  sent_at?: string
+  confirmed_at?: string
+  received_at?: string
+  completed_at?: string
+  cancelled_at?: string
+  cancellation_reason?: string
+  created_at?: string
+  updated_at?: string
+  supplier?: Pick<Supplier, 'id' | 'company_name' | 'contact_person' | 'phone_primary'>
+  items?: PurchaseOrderItem[]
+}
+
+export interface ReceivePurchaseOrderLine {
+  item_id: string
+  quantity: number
+  unit_cost?: number
+  expiry_date?: string
+  manufacturing_date?: string
+  batch_number?: string
+}
+
+export interface SupplierVariance {
+  supplier_id: string
+  supplier_name: string
+  purchase_orders: number
+  lines: number
+  short_lines: number
+  over_lines: number
+  ordered_value: number
+  received_value: number
+  price_variance: number
+  fill_rate: number
+  lines_detail: {
+    purchase_order_item_id: string
+    purchase_order_id: string
+    po_number: string
+    order_date: string
+    ingredient_name: string
+    unit: string
+    ordered_quantity: number
+    received_quantity: number
+    quantity_variance: number
+    ordered_unit_price: number
+    received_unit_cost: number | null
+    price_variance: number
+  }[]
+}
+
+export interface ReorderLine {
+  ingredient_id: string
+  ingredient_name: string
+  unit: string
+  current_stock: number
+  on_order: number
+  min_stock_level: number
+  reorder_point: number
+  average_daily_usage: number
+  days_until_stockout: number
+  urgency: 'critical' | 'high' | 'medium' | 'low'
+  suggested_quantity: number
+  unit_price: number
+  estimated_cost: number
+  reason: string
+}
+
+export interface ReorderPlan {
+  groups: {
+    supplier_id: string
+    supplier_name: string
+    lead_time_days: number
+    minimum_order_amount: number
+    expected_delivery: string
+    lines: ReorderLine[]
+    subtotal: number
+    meets_minimum: boolean
+    minimum_shortfall: number
+  }[]
+  unassigned: ReorderLine[]
+  generated_at: string
+}
+
 class InventoryService {
   // Suppliers
   async getSuppliers(filters?: {
@@ -476,6 +608,191 @@ class InventoryService {
     }
   }
 
+  // Purchase Orders
+  async getPurchaseOrders(filters?: {
+    status?: string
+    supplier_id?: string
+    search?: string
+  }): Promise<PurchaseOrder[]> {
+    try {
+      const params = new URLSearchParams()
+      if (filters?.status) params.append('status', filters.status)
+      if (filters?.supplier_id) params.append('supplier_id', filters.supplier_id)
+      if (filters?.search) params.append('search', filters.search)
+
+      const response = await fetch(`/api/purchase-orders?${params.toString()}`)
+
+      if (!response.ok) {
+        const error = await response.json()
+        throw new Error(error.error || 'Failed to fetch purchase orders')
+      }
+
+      const { data } = await response.json()
+
+      return data || []
+    } catch (error) {
+      console.error('Error fetching purchase orders:', error)
+      throw error
+    }
+  }
+
+  async getPurchaseOrder(id: string): Promise<PurchaseOrder> {
+    try {
+      const response = await fetch(`/api/purchase-orders/${id}`)
+
+      if (!response.ok) {
+        const error = await response.json()
+        throw new Error(error.error || 'Failed to fetch purchase order')
+      }
+
+      const { data } = await response.json()
+
+      return data
+    } catch (error) {
+      console.error('Error fetching purchase order:', error)
+      throw error
+    }
+  }
+
+  async updatePurchaseOrderStatus(
+    id: string,
+    status: PurchaseOrderStatus,
+    reason?: string
+  ): Promise<PurchaseOrder> {
+    try {
+      const response = await fetch(`/api/purchase-orders/${id}/status`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ status, reason })
+      })
+
+      if (!response.ok) {
+        const error = await response.json()
+        throw new Error(error.error || 'Failed to update purchase order status')
+      }
+
+      const { data } = await response.json()
+
+      return data
+    } catch (error) {
+      console.error('Error updating purchase order status:', error)
+      throw error
+    }
+  }
+
+  async receivePurchaseOrder(
+    id: string,
+    items: ReceivePurchaseOrderLine[],
+    allowOverReceipt: boolean = false
+  ) {
+    try {
+      const response = await fetch(`/api/purchase-orders/${id}/receive`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ items, allow_over_receipt: allowOverReceipt })
+      })
+
+      if (!response.ok) {
+        const error = await response.json()
+        throw new Error(error.error || 'Failed to receive purchase order')
+      }
+
+      const { data } = await response.json()
+
+      return data
+    } catch (error) {
+      console.error('Error receiving purchase order:', error)
+      throw error
+    }
+  }
+
+  async deletePurchaseOrder(id: string): Promise<void> {
+    try {
+      const response = await fetch(`/api/purchase-orders/${id}`, { method: 'DELETE' })
+
+      if (!response.ok) {
+        const error = await response.json()
+        throw new Error(error.error || 'Failed to delete purchase order')
+      }
+    } catch (error) {
+      console.error('Error deleting purchase order:', error)
+      throw error
+    }
+  }
+
+  async getSupplierVariance(filters?: {
+    supplier_id?: string
+    start_date?: string
+    end_date?: string
+  }): Promise<SupplierVariance[]> {
+    try {
+      const params = new URLSearchParams()
+      if (filters?.supplier_id) params.append('supplier_id', filters.supplier_id)
+      if (filters?.start_date) params.append('start_date', filters.start_date)
+      if (filters?.end_date) params.append('end_date', filters.end_date)
+
+      const response = await fetch(`/api/purchase-orders/variance?${params.toString()}`)
+
+      if (!response.ok) {
+        const error = await response.json()
+        throw new Error(error.error || 'Failed to fetch supplier variance')
+      }
+
+      const { data } = await response.json()
+
+      return data || []
+    } catch (error) {
+      console.error('Error fetching supplier variance:', error)
+      throw error
+    }
+  }
+
+  async getReorderPlan(ingredientIds?: string[]): Promise<ReorderPlan> {
+    try {
+      const params = new URLSearchParams()
+      if (ingredientIds && ingredientIds.length > 0) params.append('ingredient_ids', ingredientIds.join(','))
+
+      const response = await fetch(`/api/purchase-orders/suggestions?${params.toString()}`)
+
+      if (!response.ok) {
+        const error = await response.json()
+        throw new Error(error.error || 'Failed to fetch reorder suggestions')
+      }
+
+      const { data } = await response.json()
+
+      return data
+    } catch (error) {
+      console.error('Error fetching reorder suggestions:', error)
+      throw error
+    }
+  }
+
+  async generatePurchaseOrders(
+    ingredientIds: string[],
+    quantities?: Record<string, number>
+  ): Promise<{ purchase_orders: (PurchaseOrder & { supplier_name: string; item_count: number })[]; unassigned: ReorderLine[] }> {
+    try {
+      const response = await fetch('/api/purchase-orders/generate', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ ingredient_ids: ingredientIds, quantities })
+      })
+
+      if (!response.ok) {
+        const error = await response.json()
+        throw new Error(error.error || 'Failed to generate purchase orders')
+      }
+
+      const { data } = await response.json()
+
+      return data
+    } catch (error) {
+      console.error('Error generating purchase orders:', error)
+      throw error
+    }
+  }
+
   // Utility functions
   formatCurrency(amount: number): string {
     return new Intl.NumberFormat('id-ID', {
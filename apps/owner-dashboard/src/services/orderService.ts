@@ -2,6 +2,9 @@
 
 import { createClient } from '@/lib/supabase/client'
 import { RealtimeChannel } from '@supabase/supabase-js'
+import type { BillShare, BillShareAction } from '@/lib/orders/billShares'
+import { loadBusinessCalendar } from '@/lib/calendar/businessCalendar'
+import { businessDayStart, todayBusinessDate } from '@cafe/utils/helpers/businessCalendar'
 
 const supabase = createClient()
 
@@ -36,6 +39,7 @@ export interface Order {
   payment_status: 'pending' | 'processing' | 'verified' | 'failed' | 'refunded'
   payment_method?: 'cash' | 'qris' | 'transfer' | 'card'
   payment_proof_url?: string
+  split_method?: 'equal' | 'items' | 'custom' | null
   special_instructions?: string
   created_at: string
   updated_at: string
@@ -51,6 +55,7 @@ export interface Order {
     status: string
   }
   order_items?: OrderItem[]
+  order_bill_shares?: BillShare[]
 }
 
 export interface OrderStats {
@@ -196,7 +201,8 @@ class OrderService {
               name,
               image_url
             )
-          )
+          ),
+          order_bill_shares (*)
         `)
         .eq('id', orderId)
         .single()
@@ -210,6 +216,22 @@ class OrderService {
     }
   }
 
+  // Verify or reject one share of a split bill
+  async reviewBillShare(orderId: string, shareId: string, action: BillShareAction, notes?: string): Promise<{ data: BillShare; order_confirmed: boolean }> {
+    const response = await fetch(`/api/orders/${orderId}/bill-shares/${shareId}`, {
+      method: 'PATCH',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ action, notes })
+    })
+
+    const result = await response.json()
+    if (!response.ok) {
+      throw new Error(result.error || 'Failed to update bill share')
+    }
+
+    return result
+  }
+
   // Update order status
   async updateOrderStatus(orderId: string, status: Order['status']): Promise<Order> {
     try {
@@ -269,7 +291,8 @@ class OrderService {
   // Get order statistics
   async getOrderStats(): Promise<OrderStats> {
     try {
-      const today = new Date().toISOString().split('T')[0]
+      const calendar = await loadBusinessCalendar(supabase)
+      const todayStart = businessDayStart(todayBusinessDate(calendar), calendar).toISOString()
 
       // Get all orders
       const { data: allOrders, error: allError } = await supabase
@@ -283,7 +306,7 @@ class OrderService {
         .from('orders')
         .select('total_amount')
         .eq('status', 'completed')
-        .gte('created_at', `${today}T00:00:00`)
+        .gte('created_at', todayStart)
 
       if (todayError) throw todayError
 
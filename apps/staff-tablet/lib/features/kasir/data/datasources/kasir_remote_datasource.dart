@@ -32,7 +32,18 @@ class KasirRemoteDataSourceImpl implements KasirRemoteDataSource {
           .select('''
             *,
             table:tables!orders_table_id_fkey(table_number),
-            items:order_items(*, menu_item:menu_items(*))
+            items:order_items(*, menu_item:menu_items(*)),
+            proof_checks:payment_proof_hashes!payment_proof_hashes_order_id_fkey(
+              proof_url, match_type, matched_order_id, matched_proof_url, created_at,
+              matched_order:orders!payment_proof_hashes_matched_order_id_fkey(order_number)
+            ),
+            transactions:payment_transactions!payment_transactions_order_id_fkey(
+              id,
+              receipt_scans:payment_verifications!payment_verifications_payment_id_fkey(
+                verification_method, receipt_amount, receipt_bank_name,
+                receipt_reference_number, created_at
+              )
+            )
           ''')
           .eq('status', 'pending_payment')
           .order('created_at', ascending: false),
@@ -51,7 +62,18 @@ class KasirRemoteDataSourceImpl implements KasirRemoteDataSource {
           .select('''
             *,
             table:tables!orders_table_id_fkey(table_number),
-            items:order_items(*, menu_item:menu_items(*))
+            items:order_items(*, menu_item:menu_items(*)),
+            proof_checks:payment_proof_hashes!payment_proof_hashes_order_id_fkey(
+              proof_url, match_type, matched_order_id, matched_proof_url, created_at,
+              matched_order:orders!payment_proof_hashes_matched_order_id_fkey(order_number)
+            ),
+            transactions:payment_transactions!payment_transactions_order_id_fkey(
+              id,
+              receipt_scans:payment_verifications!payment_verifications_payment_id_fkey(
+                verification_method, receipt_amount, receipt_bank_name,
+                receipt_reference_number, created_at
+              )
+            )
           ''')
           .gte('created_at', startOfDay.toIso8601String())
           .order('created_at', ascending: false),
@@ -85,6 +107,12 @@ class KasirRemoteDataSourceImpl implements KasirRemoteDataSource {
             table: 'payments',
             callback: (payload) async => await _fetchAndEmitOrders(),
           )
+          .onPostgresChanges(
+            event: PostgresChangeEvent.insert,
+            schema: 'public',
+            table: 'payment_verifications',
+            callback: (payload) async => await _fetchAndEmitOrders(),
+          )
           .subscribe();
 
       _fetchAndEmitOrders();
@@ -132,6 +132,8 @@ class KasirRepositoryImpl implements KasirRepository {
       }
       // Otherwise, create payment from order columns if payment data exists
       else if (data['payment_method'] != null && data['payment_status'] != null) {
+        final proofCheck = _findProofCheck(data);
+        final receiptScan = _findReceiptScan(data);
         payment = PaymentEntity(
           id: data['id'] ?? '', // Use order ID as payment ID for now
           orderId: data['id'] ?? '',
@@ -148,6 +150,13 @@ class KasirRepositoryImpl implements KasirRepository {
           notes: null,
           createdAt: DateTime.parse(data['created_at']),
           updatedAt: DateTime.parse(data['updated_at']),
+          duplicateOrderId: proofCheck?['matched_order_id'],
+          duplicateOrderNumber: proofCheck?['matched_order']?['order_number'],
+          duplicateProofUrl: proofCheck?['matched_proof_url'],
+          duplicateMatchType: proofCheck?['match_type'],
+          receiptAmount: double.tryParse(receiptScan?['receipt_amount']?.toString() ?? ''),
+          receiptBankName: receiptScan?['receipt_bank_name'],
+          receiptReference: receiptScan?['receipt_reference_number'],
         );
       }
 
@@ -159,4 +168,36 @@ class KasirRepositoryImpl implements KasirRepository {
       rethrow;
     }
   }
+
+  /// Duplicate check for the order's current proof, from the joined
+  /// payment_proof_hashes rows (falls back to the most recent upload)
+  Map<String, dynamic>? _findProofCheck(Map<String, dynamic> data) {
+    final checks = data['proof_checks'];
+    if (checks is! List || checks.isEmpty) return null;
+
+    final rows = checks.whereType<Map<String, dynamic>>().toList()
+      ..sort((a, b) => (b['created_at'] as String? ?? '').compareTo(a['created_at'] as String? ?? ''));
+    if (rows.isEmpty) return null;
+
+    return rows.firstWhere(
+      (row) => row['proof_url'] == data['payment_proof_url'],
+      orElse: () => rows.first,
+    );
+  }
+
+  /// Most recent OCR scan across the order's payment transactions
+  Map<String, dynamic>? _findReceiptScan(Map<String, dynamic> data) {
+    final transactions = data['transactions'];
+    if (transactions is! List) return null;
+
+    final scans = transactions
+        .whereType<Map<String, dynamic>>()
+        .expand((transaction) => (transaction['receipt_scans'] as List?) ?? const [])
+        .whereType<Map<String, dynamic>>()
+        .where((scan) => scan['verification_method'] == 'ocr')
+        .toList()
+      ..sort((a, b) => (b['created_at'] as String? ?? '').compareTo(a['created_at'] as String? ?? ''));
+
+    return scans.isEmpty ? null : scans.first;
+  }
 }
@@ -16,6 +16,17 @@ class PaymentEntity extends Equatable {
   final DateTime createdAt;
   final DateTime updatedAt;
 
+  // Earlier proof on another order that this proof matches (reused screenshot)
+  final String? duplicateOrderId;
+  final String? duplicateOrderNumber;
+  final String? duplicateProofUrl;
+  final String? duplicateMatchType; // exact, perceptual
+
+  // Latest OCR read of the proof
+  final double? receiptAmount;
+  final String? receiptBankName;
+  final String? receiptReference;
+
   const PaymentEntity({
     required this.id,
     required this.orderId,
@@ -30,11 +41,30 @@ class PaymentEntity extends Equatable {
     this.notes,
     required this.createdAt,
     required this.updatedAt,
+    this.duplicateOrderId,
+    this.duplicateOrderNumber,
+    this.duplicateProofUrl,
+    this.duplicateMatchType,
+    this.receiptAmount,
+    this.receiptBankName,
+    this.receiptReference,
   });
 
   /// Check if payment needs verification
   bool get needsVerification => status == 'pending' && proofImageUrl != null;
 
+  /// Check if the proof was already used on another order
+  bool get hasDuplicateProof => duplicateOrderId != null;
+
+  /// Check if an amount was read from the proof
+  bool get hasReceiptAmount => receiptAmount != null;
+
+  /// Receipt amount minus the amount due (0 when no amount was read)
+  double get receiptAmountDifference => hasReceiptAmount ? receiptAmount! - amount : 0;
+
+  /// Check if the receipt shows exactly the amount due
+  bool get receiptAmountMatches => hasReceiptAmount && receiptAmountDifference.abs() < 1;
+
   /// Check if payment is completed
   bool get isCompleted => status == 'completed';
 
@@ -72,5 +102,12 @@ class PaymentEntity extends Equatable {
         notes,
         createdAt,
         updatedAt,
+        duplicateOrderId,
+        duplicateOrderNumber,
+        duplicateProofUrl,
+        duplicateMatchType,
+        receiptAmount,
+        receiptBankName,
+        receiptReference,
       ];
 }
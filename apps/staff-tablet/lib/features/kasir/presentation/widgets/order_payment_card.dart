@@ -3,6 +3,7 @@ import 'package:flutter_bloc/flutter_bloc.dart';
 import 'package:intl/intl.dart';
 
 import '../../domain/entities/order_with_payment_entity.dart';
+import '../../domain/entities/payment_entity.dart';
 import '../bloc/kasir_bloc.dart';
 import '../bloc/kasir_event.dart';
 
@@ -105,6 +106,31 @@ class _OrderPaymentCardState extends State<OrderPaymentCard> {
                                   ],
                                 ),
                               ),
+                            if (payment?.hasDuplicateProof == true) ...[
+                              const SizedBox(width: 4),
+                              Container(
+                                padding: const EdgeInsets.symmetric(horizontal: 6, vertical: 2),
+                                decoration: BoxDecoration(
+                                  color: Colors.red.shade100,
+                                  borderRadius: BorderRadius.circular(4),
+                                ),
+                                child: Row(
+                                  mainAxisSize: MainAxisSize.min,
+                                  children: [
+                                    Icon(Icons.content_copy, size: 12, color: Colors.red.shade800),
+                                    const SizedBox(width: 4),
+                                    Text(
+                                      'Duplikat',
+                                      style: TextStyle(
+                                        fontSize: 10,
+                                        fontWeight: FontWeight.bold,
+                                        color: Colors.red.shade800,
+                                      ),
+                                    ),
+                                  ],
+                                ),
+                              ),
+                            ],
                           ],
                         ),
                         const SizedBox(height: 4),
@@ -132,6 +158,10 @@ class _OrderPaymentCardState extends State<OrderPaymentCard> {
                               _buildPaymentMethodChip(payment.paymentMethodLabel),
                               const SizedBox(width: 8),
                               _buildPaymentStatusChip(payment.status),
+                              if (payment.hasReceiptAmount) ...[
+                                const SizedBox(width: 8),
+                                _buildReceiptAmountChip(payment),
+                              ],
                             ],
                           ),
                         ],
@@ -206,9 +236,23 @@ class _OrderPaymentCardState extends State<OrderPaymentCard> {
                     _buildDetailRow('Metode Pembayaran', payment.paymentMethodLabel),
                     _buildDetailRow('Status', payment.status),
                     _buildDetailRow('Jumlah', currencyFormatter.format(payment.amount)),
+                    if (payment.hasReceiptAmount) ...[
+                      _buildDetailRow(
+                        'Nominal di Bukti',
+                        payment.receiptBankName != null
+                            ? '${currencyFormatter.format(payment.receiptAmount)} (${payment.receiptBankName})'
+                            : currencyFormatter.format(payment.receiptAmount),
+                      ),
+                      if (payment.receiptReference != null)
+                        _buildDetailRow('No. Referensi', payment.receiptReference!),
+                    ],
 
                     // Payment Proof Image
                     if (payment.proofImageUrl != null) ...[
+                      if (payment.hasDuplicateProof) ...[
+                        const SizedBox(height: 12),
+                        _buildDuplicateWarning(context, payment),
+                      ],
                       const SizedBox(height: 12),
                       Row(
                         mainAxisAlignment: MainAxisAlignment.spaceBetween,
@@ -236,46 +280,7 @@ class _OrderPaymentCardState extends State<OrderPaymentCard> {
                           ),
                           child: ClipRRect(
                             borderRadius: BorderRadius.circular(8),
-                            child: Image.network(
-                              payment.proofImageUrl!,
-                              height: 300,
-                              width: double.infinity,
-                              fit: BoxFit.contain,
-                              errorBuilder: (context, error, stackTrace) {
-                                return Container(
-                                  height: 300,
-                                  color: Colors.grey.shade100,
-                                  child: Center(
-                                    child: Column(
-                                      mainAxisAlignment: MainAxisAlignment.center,
-                                      children: [
-                                        Icon(Icons.error_outline, size: 48, color: Colors.grey[400]),
-                                        const SizedBox(height: 8),
-                                        Text(
-                                          'Gagal memuat gambar',
-                                          style: TextStyle(color: Colors.grey[600]),
-                                        ),
-                                      ],
-                                    ),
-                                  ),
-                                );
-                              },
-                              loadingBuilder: (context, child, loadingProgress) {
-                                if (loadingProgress == null) return child;
-                                return Container(
-                                  height: 300,
-                                  color: Colors.grey.shade100,
-                                  child: Center(
-                                    child: CircularProgressIndicator(
-                                      value: loadingProgress.expectedTotalBytes != null
-                                          ? loadingProgress.cumulativeBytesLoaded /
-                                              loadingProgress.expectedTotalBytes!
-                                          : null,
-                                    ),
-                                  ),
-                                );
-                              },
-                            ),
+                            child: _buildProofImage(payment.proofImageUrl!, 300),
                           ),
                         ),
                       ],
@@ -451,6 +456,39 @@ class _OrderPaymentCardState extends State<OrderPaymentCard> {
     );
   }
 
+  /// Amount read from the proof by OCR compared with the amount due
+  Widget _buildReceiptAmountChip(PaymentEntity payment) {
+    final matches = payment.receiptAmountMatches;
+    final color = matches ? Colors.green : Colors.orange;
+    final label = matches
+        ? 'Nominal sesuai'
+        : 'Selisih ${currencyFormatter.format(payment.receiptAmountDifference.abs())}';
+
+    return Container(
+      padding: const EdgeInsets.symmetric(horizontal: 8, vertical: 4),
+      decoration: BoxDecoration(
+        color: color.withOpacity(0.1),
+        borderRadius: BorderRadius.circular(4),
+        border: Border.all(color: color.withOpacity(0.3)),
+      ),
+      child: Row(
+        mainAxisSize: MainAxisSize.min,
+        children: [
+          Icon(
+            matches ? Icons.check_circle_outline : Icons.error_outline,
+            size: 12,
+            color: color,
+          ),
+          const SizedBox(width: 4),
+          Text(
+            label,
+            style: TextStyle(fontSize: 11, fontWeight: FontWeight.w600, color: color),
+          ),
+        ],
+      ),
+    );
+  }
+
   Widget _buildDetailRow(String label, String value) {
     return Padding(
       padding: const EdgeInsets.only(bottom: 4),
@@ -475,6 +513,140 @@ class _OrderPaymentCardState extends State<OrderPaymentCard> {
     );
   }
 
+  Widget _buildProofImage(String url, double height) {
+    return Image.network(
+      url,
+      height: height,
+      width: double.infinity,
+      fit: BoxFit.contain,
+      errorBuilder: (context, error, stackTrace) {
+        return Container(
+          height: height,
+          color: Colors.grey.shade100,
+          child: Center(
+            child: Column(
+              mainAxisAlignment: MainAxisAlignment.center,
+              children: [
+                Icon(Icons.error_outline, size: 48, color: Colors.grey[400]),
+                const SizedBox(height: 8),
+                Text(
+                  'Gagal memuat gambar',
+                  style: TextStyle(color: Colors.grey[600]),
+                ),
+              ],
+            ),
+          ),
+        );
+      },
+      loadingBuilder: (context, child, loadingProgress) {
+        if (loadingProgress == null) return child;
+        return Container(
+          height: height,
+          color: Colors.grey.shade100,
+          child: Center(
+            child: CircularProgressIndicator(
+              value: loadingProgress.expectedTotalBytes != null
+                  ? loadingProgress.cumulativeBytesLoaded /
+                      loadingProgress.expectedTotalBytes!
+                  : null,
+            ),
+          ),
+        );
+      },
+    );
+  }
+
+  Widget _buildDuplicateWarning(BuildContext context, PaymentEntity payment) {
+    final matchedOrder = payment.duplicateOrderNumber ?? '-';
+    final message = payment.duplicateMatchType == 'exact'
+        ? 'Bukti ini file yang sama dengan bukti Order $matchedOrder.'
+        : 'Bukti ini sangat mirip dengan bukti Order $matchedOrder.';
+
+    return Container(
+      padding: const EdgeInsets.all(12),
+      decoration: BoxDecoration(
+        color: Colors.red.shade50,
+        border: Border.all(color: Colors.red.shade200),
+        borderRadius: BorderRadius.circular(8),
+      ),
+      child: Row(
+        children: [
+          Icon(Icons.warning_amber_rounded, color: Colors.red.shade700),
+          const SizedBox(width: 8),
+          Expanded(
+            child: Column(
+              crossAxisAlignment: CrossAxisAlignment.start,
+              children: [
+                Text(
+                  'Kemungkinan bukti dipakai ulang',
+                  style: TextStyle(fontWeight: FontWeight.bold, color: Colors.red.shade800),
+                ),
+                const SizedBox(height: 2),
+                Text(
+                  '$message Cek mutasi rekening sebelum verifikasi.',
+                  style: TextStyle(fontSize: 12, color: Colors.red.shade800),
+                ),
+              ],
+            ),
+          ),
+          if (payment.duplicateProofUrl != null && payment.duplicateProofUrl!.isNotEmpty)
+            TextButton(
+              onPressed: () => _showProofComparison(context, payment),
+              child: const Text('Bandingkan'),
+            ),
+        ],
+      ),
+    );
+  }
+
+  void _showProofComparison(BuildContext context, PaymentEntity payment) {
+    showDialog(
+      context: context,
+      builder: (dialogContext) => AlertDialog(
+        title: const Text('Bandingkan Bukti Pembayaran'),
+        content: SizedBox(
+          width: 720,
+          child: Row(
+            crossAxisAlignment: CrossAxisAlignment.start,
+            children: [
+              Expanded(
+                child: Column(
+                  children: [
+                    Text(
+                      'Order ${payment.orderNumber}',
+                      style: const TextStyle(fontWeight: FontWeight.bold),
+                    ),
+                    const SizedBox(height: 8),
+                    _buildProofImage(payment.proofImageUrl!, 480),
+                  ],
+                ),
+              ),
+              const SizedBox(width: 16),
+              Expanded(
+                child: Column(
+                  children: [
+                    Text(
+                      'Order ${payment.duplicateOrderNumber ?? '-'}',
+                      style: TextStyle(fontWeight: FontWeight.bold, color: Colors.red.shade800),
+                    ),
+                    const SizedBox(height: 8),
+                    _buildProofImage(payment.duplicateProofUrl!, 480),
+                  ],
+                ),
+              ),
+            ],
+          ),
+        ),
+        actions: [
+          TextButton(
+            onPressed: () => Navigator.of(dialogContext).pop(),
+            child: const Text('Tutup'),
+          ),
+        ],
+      ),
+    );
+  }
+
   Color _getStatusColor() {
     if (widget.orderWithPayment.payment == null) return Colors.orange;
     if (widget.orderWithPayment.isPaymentVerified) return Colors.green;
@@ -489,7 +661,9 @@ class _OrderPaymentCardState extends State<OrderPaymentCard> {
         builder: (dialogContext) => AlertDialog(
           title: const Text('Verifikasi Pembayaran'),
           content: Text(
-            'Apakah Anda yakin ingin memverifikasi pembayaran untuk Order ${widget.orderWithPayment.order.orderNumber}?',
+            widget.orderWithPayment.payment!.hasDuplicateProof
+                ? 'Bukti pembayaran Order ${widget.orderWithPayment.order.orderNumber} terdeteksi sama dengan bukti Order ${widget.orderWithPayment.payment!.duplicateOrderNumber ?? '-'}. Tetap verifikasi pembayaran ini?'
+                : 'Apakah Anda yakin ingin memverifikasi pembayaran untuk Order ${widget.orderWithPayment.order.orderNumber}?',
           ),
           actions: [
             TextButton(
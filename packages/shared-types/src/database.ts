@@ -225,6 +225,8 @@ export interface Database {
           is_vegetarian: boolean
           is_halal: boolean
           allergens?: string[]
+          available_portions?: number | null
+          ingredients_available: boolean
           created_at: string
           updated_at: string
         }
@@ -242,6 +244,8 @@ export interface Database {
           is_vegetarian?: boolean
           is_halal?: boolean
           allergens?: string[]
+          available_portions?: number | null
+          ingredients_available?: boolean
           created_at?: string
           updated_at?: string
         }
@@ -259,6 +263,8 @@ export interface Database {
           is_vegetarian?: boolean
           is_halal?: boolean
           allergens?: string[]
+          available_portions?: number | null
+          ingredients_available?: boolean
           created_at?: string
           updated_at?: string
         }
@@ -534,6 +540,8 @@ export interface Database {
           special_instructions?: string
           status: 'pending' | 'preparing' | 'ready' | 'served'
           kitchen_notes?: string
+          bumped_at?: string | null
+          bumped_by?: string | null
           created_at: string
           updated_at: string
         }
@@ -547,6 +555,8 @@ export interface Database {
           special_instructions?: string
           status?: 'pending' | 'preparing' | 'ready' | 'served'
           kitchen_notes?: string
+          bumped_at?: string | null
+          bumped_by?: string | null
           created_at?: string
           updated_at?: string
         }
@@ -560,6 +570,8 @@ export interface Database {
           special_instructions?: string
           status?: 'pending' | 'preparing' | 'ready' | 'served'
           kitchen_notes?: string
+          bumped_at?: string | null
+          bumped_by?: string | null
           created_at?: string
           updated_at?: string
         }
@@ -634,6 +646,56 @@ export interface Database {
           updated_at?: string
         }
       }
+      service_requests: {
+        Row: {
+          id: string
+          table_id: string
+          request_type: 'call_waiter' | 'request_bill' | 'cutlery' | 'refill_water' | 'other'
+          message?: string
+          diner_id?: string
+          diner_name?: string
+          status: 'pending' | 'acknowledged' | 'completed' | 'cancelled'
+          acknowledged_at?: string
+          acknowledged_by?: string
+          completed_at?: string
+          completed_by?: string
+          cancelled_at?: string
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          table_id: string
+          request_type: 'call_waiter' | 'request_bill' | 'cutlery' | 'refill_water' | 'other'
+          message?: string
+          diner_id?: string
+          diner_name?: string
+          status?: 'pending' | 'acknowledged' | 'completed' | 'cancelled'
+          acknowledged_at?: string
+          acknowledged_by?: string
+          completed_at?: string
+          completed_by?: string
+          cancelled_at?: string
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          id?: string
+          table_id?: string
+          request_type?: 'call_waiter' | 'request_bill' | 'cutlery' | 'refill_water' | 'other'
+          message?: string
+          diner_id?: string
+          diner_name?: string
+          status?: 'pending' | 'acknowledged' | 'completed' | 'cancelled'
+          acknowledged_at?: string
+          acknowledged_by?: string
+          completed_at?: string
+          completed_by?: string
+          cancelled_at?: string
+          created_at?: string
+          updated_at?: string
+        }
+      }
 
       // 📦 INVENTORY MANAGEMENT TABLES
       suppliers: {
@@ -914,6 +976,68 @@ export interface Database {
           updated_at?: string
         }
       }
+      attendance_location_reviews: {
+        Row: {
+          id: string
+          attendance_id: string
+          employee_id: string
+          punch: 'clock_in' | 'clock_out'
+          latitude: number
+          longitude: number
+          accuracy_meters?: number
+          punched_at: string
+          zone_id?: string
+          zone_name?: string
+          distance_meters?: number
+          outside_meters?: number
+          flags: Array<{ code: string; message: string }>
+          status: 'pending' | 'approved' | 'rejected'
+          reviewed_by?: string
+          reviewed_at?: string
+          review_notes?: string
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          attendance_id: string
+          employee_id: string
+          punch: 'clock_in' | 'clock_out'
+          latitude: number
+          longitude: number
+          accuracy_meters?: number
+          punched_at: string
+          zone_id?: string
+          zone_name?: string
+          distance_meters?: number
+          outside_meters?: number
+          flags?: Array<{ code: string; message: string }>
+          status?: 'pending' | 'approved' | 'rejected'
+          reviewed_by?: string
+          reviewed_at?: string
+          review_notes?: string
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          attendance_id?: string
+          employee_id?: string
+          punch?: 'clock_in' | 'clock_out'
+          latitude?: number
+          longitude?: number
+          accuracy_meters?: number
+          punched_at?: string
+          zone_id?: string
+          zone_name?: string
+          distance_meters?: number
+          outside_meters?: number
+          flags?: Array<{ code: string; message: string }>
+          status?: 'pending' | 'approved' | 'rejected'
+          reviewed_by?: string
+          reviewed_at?: string
+          review_notes?: string
+          created_at?: string
+        }
+      }
       leave_requests: {
         Row: {
           id: string
@@ -1599,7 +1723,12 @@ export interface Database {
           points_balance: number
           order_id?: string
           transaction_type: 'earned' | 'used' | 'expired'
+          source: 'order' | 'redemption' | 'refund' | 'expiry' | 'adjustment'
+          points_remaining: number
+          expires_at?: string
+          discount_amount?: number
           description?: string
+          adjusted_by?: string
           created_at: string
         }
         Insert: {
@@ -1610,7 +1739,12 @@ export interface Database {
           points_balance: number
           order_id?: string
           transaction_type: 'earned' | 'used' | 'expired'
+          source: 'order' | 'redemption' | 'refund' | 'expiry' | 'adjustment'
+          points_remaining?: number
+          expires_at?: string
+          discount_amount?: number
           description?: string
+          adjusted_by?: string
           created_at?: string
         }
         Update: {
@@ -1621,7 +1755,12 @@ export interface Database {
           points_balance?: number
           order_id?: string
           transaction_type?: 'earned' | 'used' | 'expired'
+          source?: 'order' | 'redemption' | 'refund' | 'expiry' | 'adjustment'
+          points_remaining?: number
+          expires_at?: string
+          discount_amount?: number
           description?: string
+          adjusted_by?: string
           created_at?: string
         }
       }
@@ -1697,7 +1836,8 @@ export interface Database {
           description: string
           receipt_url?: string
           date: string
-          recorded_by: string
+          recurring_expense_id?: string
+          recorded_by?: string
           created_at: string
           updated_at: string
         }
@@ -1707,8 +1847,9 @@ export interface Database {
           amount: number
           description: string
           receipt_url?: string
-          date: string
-          recorded_by: string
+          date?: string
+          recurring_expense_id?: string
+          recorded_by?: string
           created_at?: string
           updated_at?: string
         }
@@ -1719,11 +1860,56 @@ export interface Database {
           description?: string
           receipt_url?: string
           date?: string
+          recurring_expense_id?: string
           recorded_by?: string
           created_at?: string
           updated_at?: string
         }
       }
+      recurring_expenses: {
+        Row: {
+          id: string
+          category_id: string
+          amount: number
+          description: string
+          day_of_month: number
+          start_date: string
+          end_date?: string
+          last_generated_on?: string
+          is_active: boolean
+          created_by?: string
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          category_id: string
+          amount: number
+          description: string
+          day_of_month: number
+          start_date?: string
+          end_date?: string
+          last_generated_on?: string
+          is_active?: boolean
+          created_by?: string
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          id?: string
+          category_id?: string
+          amount?: number
+          description?: string
+          day_of_month?: number
+          start_date?: string
+          end_date?: string
+          last_generated_on?: string
+          is_active?: boolean
+          created_by?: string
+          created_at?: string
+          updated_at?: string
+        }
+      }
       inventory_alerts: {
         Row: {
           id: string
@@ -1824,6 +2010,7 @@ export interface Database {
           account_number?: string
           account_name?: string
           merchant_id?: string
+          qris_payload?: string
           is_active: boolean
           features?: string[]
           account_validation_rules?: any
@@ -1838,6 +2025,7 @@ export interface Database {
           account_number?: string
           account_name?: string
           merchant_id?: string
+          qris_payload?: string
           is_active?: boolean
           features?: string[]
           account_validation_rules?: any
@@ -1852,6 +2040,7 @@ export interface Database {
           account_number?: string
           account_name?: string
           merchant_id?: string
+          qris_payload?: string
           is_active?: boolean
           features?: string[]
           account_validation_rules?: any
@@ -1863,7 +2052,7 @@ export interface Database {
         Row: {
           id: string
           payment_id: string
-          verified_by: string
+          verified_by: string | null
           verification_method: 'manual' | 'ocr' | 'api'
           receipt_transaction_id?: string
           receipt_amount?: number
@@ -1874,12 +2063,16 @@ export interface Database {
           receipt_reference_number?: string
           confidence_score: number
           validation_issues?: any
+          receipt_source?: string
+          ocr_engine?: string
+          ocr_confidence?: number
+          raw_text?: string
           created_at: string
         }
         Insert: {
           id?: string
           payment_id: string
-          verified_by: string
+          verified_by: string | null
           verification_method: 'manual' | 'ocr' | 'api'
           receipt_transaction_id?: string
           receipt_amount?: number
@@ -1890,12 +2083,16 @@ export interface Database {
           receipt_reference_number?: string
           confidence_score: number
           validation_issues?: any
+          receipt_source?: string
+          ocr_engine?: string
+          ocr_confidence?: number
+          raw_text?: string
           created_at?: string
         }
         Update: {
           id?: string
           payment_id?: string
-          verified_by?: string
+          verified_by?: string | null
           verification_method?: 'manual' | 'ocr' | 'api'
           receipt_transaction_id?: string
           receipt_amount?: number
@@ -1906,6 +2103,57 @@ export interface Database {
           receipt_reference_number?: string
           confidence_score?: number
           validation_issues?: any
+          receipt_source?: string
+          ocr_engine?: string
+          ocr_confidence?: number
+          raw_text?: string
+          created_at?: string
+        }
+      }
+      payment_proof_hashes: {
+        Row: {
+          id: string
+          order_id: string
+          payment_id?: string
+          proof_url: string
+          sha256: string
+          phash?: string
+          signature?: string
+          matched_order_id?: string
+          matched_proof_url?: string
+          match_type?: 'exact' | 'perceptual'
+          phash_distance?: number
+          signature_distance?: number
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          order_id: string
+          payment_id?: string
+          proof_url: string
+          sha256: string
+          phash?: string
+          signature?: string
+          matched_order_id?: string
+          matched_proof_url?: string
+          match_type?: 'exact' | 'perceptual'
+          phash_distance?: number
+          signature_distance?: number
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          order_id?: string
+          payment_id?: string
+          proof_url?: string
+          sha256?: string
+          phash?: string
+          signature?: string
+          matched_order_id?: string
+          matched_proof_url?: string
+          match_type?: 'exact' | 'perceptual'
+          phash_distance?: number
+          signature_distance?: number
           created_at?: string
         }
       }
@@ -1913,9 +2161,10 @@ export interface Database {
         Row: {
           id: string
           order_id: string
-          previous_status: string
+          previous_status: string | null
           new_status: string
-          changed_by: string
+          changed_by: string | null
+          changed_by_name?: string
           reason?: string
           notes?: string
           estimated_time?: number
@@ -1925,9 +2174,10 @@ export interface Database {
         Insert: {
           id?: string
           order_id: string
-          previous_status: string
+          previous_status?: string | null
           new_status: string
-          changed_by: string
+          changed_by?: string | null
+          changed_by_name?: string
           reason?: string
           notes?: string
           estimated_time?: number
@@ -1937,9 +2187,10 @@ export interface Database {
         Update: {
           id?: string
           order_id?: string
-          previous_status?: string
+          previous_status?: string | null
           new_status?: string
-          changed_by?: string
+          changed_by?: string | null
+          changed_by_name?: string
           reason?: string
           notes?: string
           estimated_time?: number
@@ -1997,49 +2248,152 @@ export interface Database {
       scheduled_notifications: {
         Row: {
           id: string
-          title: string
+          chat_id: string
+          recipient_name: string | null
           message: string
           notification_type: string
-          target_audience: 'all' | 'customers' | 'staff' | 'custom'
-          target_criteria?: any
-          channel: 'telegram' | 'email' | 'sms' | 'push'
-          status: 'pending' | 'sent' | 'cancelled' | 'failed'
+          data: any
+          priority: 'low' | 'normal' | 'high' | 'urgent'
+          report_schedule_id: string | null
+          document_url: string | null
+          status: 'pending' | 'processing' | 'sent' | 'failed' | 'cancelled'
           scheduled_at: string
-          sent_at?: string
-          created_by: string
-          data?: any
+          next_attempt_at: string | null
+          attempts: number
+          max_attempts: number
+          last_error: string | null
+          locked_at: string | null
+          locked_by: string | null
+          telegram_message_id: number | null
+          sent_at: string | null
+          failed_at: string | null
+          cancelled_at: string | null
           created_at: string
           updated_at: string
         }
         Insert: {
           id?: string
-          title: string
-          message: string
+          chat_id: string
+          recipient_name?: string | null
+          message?: string
           notification_type: string
-          target_audience: 'all' | 'customers' | 'staff' | 'custom'
-          target_criteria?: any
-          channel: 'telegram' | 'email' | 'sms' | 'push'
-          status?: 'pending' | 'sent' | 'cancelled' | 'failed'
-          scheduled_at: string
-          sent_at?: string
-          created_by: string
           data?: any
+          priority?: 'low' | 'normal' | 'high' | 'urgent'
+          report_schedule_id?: string | null
+          document_url?: string | null
+          status?: 'pending' | 'processing' | 'sent' | 'failed' | 'cancelled'
+          scheduled_at: string
+          next_attempt_at?: string | null
+          attempts?: number
+          max_attempts?: number
+          last_error?: string | null
+          locked_at?: string | null
+          locked_by?: string | null
+          telegram_message_id?: number | null
+          sent_at?: string | null
+          failed_at?: string | null
+          cancelled_at?: string | null
           created_at?: string
           updated_at?: string
         }
         Update: {
           id?: string
-          title?: string
+          chat_id?: string
+          recipient_name?: string | null
           message?: string
           notification_type?: string
-          target_audience?: 'all' | 'customers' | 'staff' | 'custom'
-          target_criteria?: any
-          channel?: 'telegram' | 'email' | 'sms' | 'push'
-          status?: 'pending' | 'sent' | 'cancelled' | 'failed'
-          scheduled_at?: string
-          sent_at?: string
-          created_by?: string
           data?: any
+          priority?: 'low' | 'normal' | 'high' | 'urgent'
+          report_schedule_id?: string | null
+          document_url?: string | null
+          status?: 'pending' | 'processing' | 'sent' | 'failed' | 'cancelled'
+          scheduled_at?: string
+          next_attempt_at?: string | null
+          attempts?: number
+          max_attempts?: number
+          last_error?: string | null
+          locked_at?: string | null
+          locked_by?: string | null
+          telegram_message_id?: number | null
+          sent_at?: string | null
+          failed_at?: string | null
+          cancelled_at?: string | null
+          created_at?: string
+          updated_at?: string
+        }
+      }
+      report_schedules: {
+        Row: {
+          id: string
+          report_type: 'daily' | 'weekly' | 'monthly'
+          schedule: 'daily' | 'weekly' | 'monthly'
+          recipients: string[]
+          sections: string[]
+          delivery_time: string
+          is_active: boolean
+          next_delivery_at: string
+          last_delivered_at: string | null
+          locked_at: string | null
+          locked_by: string | null
+          created_by: string | null
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          report_type: 'daily' | 'weekly' | 'monthly'
+          schedule: 'daily' | 'weekly' | 'monthly'
+          recipients?: string[]
+          sections?: string[]
+          delivery_time: string
+          is_active?: boolean
+          next_delivery_at: string
+          last_delivered_at?: string | null
+          locked_at?: string | null
+          locked_by?: string | null
+          created_by?: string | null
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          id?: string
+          report_type?: 'daily' | 'weekly' | 'monthly'
+          schedule?: 'daily' | 'weekly' | 'monthly'
+          recipients?: string[]
+          sections?: string[]
+          delivery_time?: string
+          is_active?: boolean
+          next_delivery_at?: string
+          last_delivered_at?: string | null
+          locked_at?: string | null
+          locked_by?: string | null
+          created_by?: string | null
+          created_at?: string
+          updated_at?: string
+        }
+      }
+      notification_quiet_hours: {
+        Row: {
+          chat_id: string
+          recipient_name: string | null
+          start_time: string
+          end_time: string
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          chat_id: string
+          recipient_name?: string | null
+          start_time: string
+          end_time: string
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          chat_id?: string
+          recipient_name?: string | null
+          start_time?: string
+          end_time?: string
           created_at?: string
           updated_at?: string
         }
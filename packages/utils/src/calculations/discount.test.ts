@@ -0,0 +1,250 @@
+import {
+  applyPromos,
+  calculateBundleDiscount,
+  calculateBuyGetDiscount,
+  calculatePromoAmount,
+  checkPromoEligibility,
+  getLocalClock,
+  isWithinTimeWindow,
+  type PromoCartLine,
+  type PromoRule
+} from './discount'
+
+function promo(overrides: Partial<PromoRule> = {}): PromoRule {
+  return {
+    id: 'promo-hemat',
+    code: 'HEMAT10',
+    name: 'Hemat 10%',
+    promo_type: 'percentage',
+    discount_value: 10,
+    is_active: true,
+    ...overrides
+  }
+}
+
+const KOPI_SUSU: PromoCartLine = { menu_item_id: 'kopi-susu', category_id: 'coffee', unit_price: 18000, quantity: 2 }
+const AMERICANO: PromoCartLine = { menu_item_id: 'americano', category_id: 'coffee', unit_price: 22000, quantity: 1 }
+const NASI_GORENG: PromoCartLine = { menu_item_id: 'nasi-goreng', category_id: 'food', unit_price: 35000, quantity: 1 }
+const CROISSANT: PromoCartLine = { menu_item_id: 'croissant', category_id: 'pastry', unit_price: 25000, quantity: 1 }
+
+// Subtotal Rp 93.000
+const cart = [KOPI_SUSU, AMERICANO, NASI_GORENG]
+
+// Monday 19 October 2026, 15:30 WIB
+const mondayAfternoon = new Date('2026-10-19T08:30:00Z')
+
+describe('calculatePromoAmount', () => {
+  it('takes a percentage of the cart, capped at max_discount_amount', () => {
+    expect(calculatePromoAmount(promo(), cart)).toBe(9300)
+    expect(calculatePromoAmount(promo({ max_discount_amount: 5000 }), cart)).toBe(5000)
+  })
+
+  it('limits scoped promos to their categories and items', () => {
+    expect(calculatePromoAmount(promo({ applicable_categories: ['coffee'] }), cart)).toBe(5800)
+    expect(calculatePromoAmount(promo({ applicable_items: ['nasi-goreng'] }), cart)).toBe(3500)
+  })
+
+  it('never takes a fixed amount beyond what it applies to', () => {
+    expect(calculatePromoAmount(promo({ promo_type: 'fixed_amount', discount_value: 15000 }), cart)).toBe(15000)
+    expect(calculatePromoAmount(promo({ promo_type: 'fixed_amount', discount_value: 150000 }), cart)).toBe(93000)
+  })
+
+  it('gives the cheapest units free on buy X get Y', () => {
+    const buy2get1 = promo({ promo_type: 'buy_get', buy_quantity: 2, get_quantity: 1, applicable_categories: ['coffee'] })
+
+    // Three coffees: the Rp 18.000 one is free
+    expect(calculateBuyGetDiscount(buy2get1, cart)).toBe(18000)
+    // Two coffees are not enough
+    expect(calculateBuyGetDiscount(buy2get1, [KOPI_SUSU, NASI_GORENG])).toBe(0)
+  })
+
+  it('discounts separate reward items by get_discount_percentage', () => {
+    const coffeeThenPastry = promo({
+      promo_type: 'buy_get',
+      buy_quantity: 1,
+      buy_items: ['americano'],
+      get_quantity: 1,
+      get_items: ['croissant'],
+      get_discount_percentage: 50
+    })
+
+    expect(calculateBuyGetDiscount(coffeeThenPastry, [AMERICANO, CROISSANT])).toBe(12500)
+    expect(calculateBuyGetDiscount(coffeeThenPastry, [CROISSANT])).toBe(0)
+  })
+
+  it('charges each complete bundle its bundle price', () => {
+    const breakfast = promo({ promo_type: 'bundle', bundle_items: ['americano', 'croissant'], bundle_price: 40000 })
+
+    expect(calculateBundleDiscount(breakfast, [AMERICANO, CROISSANT])).toBe(7000)
+    expect(calculateBundleDiscount(breakfast, [{ ...AMERICANO, quantity: 2 }, { ...CROISSANT, quantity: 2 }])).toBe(14000)
+    expect(calculateBundleDiscount(breakfast, [AMERICANO])).toBe(0)
+  })
+})
+
+describe('time windows', () => {
+  it('reads the weekday and time on the wall clock of the given zone', () => {
+    expect(getLocalClock(mondayAfternoon, 'Asia/Jakarta')).toEqual({ weekday: 1, minutes: 15 * 60 + 30 })
+    expect(getLocalClock(mondayAfternoon, 'Asia/Makassar')).toEqual({ weekday: 1, minutes: 16 * 60 + 30 })
+    // Sunday 23:30 WIB is already Monday in WIT
+    expect(getLocalClock(new Date('2026-10-18T16:30:00Z'), 'Asia/Jakarta')).toEqual({ weekday: 7, minutes: 23 * 60 + 30 })
+    expect(getLocalClock(new Date('2026-10-18T16:30:00Z'), 'Asia/Jayapura')).toEqual({ weekday: 1, minutes: 90 })
+  })
+
+  it('defaults to WIB', () => {
+    expect(getLocalClock(mondayAfternoon)).toEqual(getLocalClock(mondayAfternoon, 'Asia/Jakarta'))
+  })
+
+  it('includes both ends and may cross midnight', () => {
+    expect(isWithinTimeWindow(15 * 60, '15:00', '17:00:00')).toBe(true)
+    expect(isWithinTimeWindow(17 * 60, '15:00', '17:00')).toBe(true)
+    expect(isWithinTimeWindow(17 * 60 + 1, '15:00', '17:00')).toBe(false)
+    expect(isWithinTimeWindow(23 * 60, '22:00', '02:00')).toBe(true)
+    expect(isWithinTimeWindow(60, '22:00', '02:00')).toBe(true)
+    expect(isWithinTimeWindow(12 * 60, '22:00', '02:00')).toBe(false)
+    expect(isWithinTimeWindow(12 * 60, null, null)).toBe(true)
+  })
+
+  it('runs happy hour on the cafe time zone it is given', () => {
+    const happyHour = promo({ promo_type: 'happy_hour', valid_from_time: '15:00', valid_until_time: '16:00' })
+
+    // 15:30 in Jakarta is 16:30 in Makassar
+    expect(checkPromoEligibility(happyHour, cart, { now: mondayAfternoon, timeZone: 'Asia/Jakarta' })).toBeNull()
+    expect(checkPromoEligibility(happyHour, cart, { now: mondayAfternoon, timeZone: 'Asia/Makassar' })).toMatchObject({
+      reason: 'OUTSIDE_HOURS',
+      message: 'Promo hanya berlaku pukul 15:00–16:00'
+    })
+  })
+
+  it('checks valid days on the cafe time zone it is given', () => {
+    const weekend = promo({ valid_days: [6, 7] })
+    const sundayNightInJakarta = new Date('2026-10-18T16:30:00Z')
+
+    expect(checkPromoEligibility(weekend, cart, { now: sundayNightInJakarta, timeZone: 'Asia/Jakarta' })).toBeNull()
+    expect(checkPromoEligibility(weekend, cart, { now: sundayNightInJakarta, timeZone: 'Asia/Jayapura' })).toMatchObject({
+      reason: 'WRONG_DAY',
+      message: 'Promo hanya berlaku hari Sabtu, Minggu'
+    })
+  })
+
+  it('honours the validity period', () => {
+    const october = promo({ valid_from: '2026-10-01T00:00:00+07:00', valid_until: '2026-10-31T23:59:59+07:00' })
+
+    expect(checkPromoEligibility(october, cart, { now: mondayAfternoon })).toBeNull()
+    expect(checkPromoEligibility(october, cart, { now: new Date('2026-09-30T16:59:59Z') })).toMatchObject({ reason: 'NOT_STARTED' })
+    expect(checkPromoEligibility(october, cart, { now: new Date('2026-10-31T17:00:00Z') })).toMatchObject({ reason: 'EXPIRED' })
+  })
+})
+
+describe('checkPromoEligibility', () => {
+  const context = { now: mondayAfternoon }
+
+  it('requires the minimum spend on the whole cart', () => {
+    expect(checkPromoEligibility(promo({ min_purchase_amount: 93000 }), cart, context)).toBeNull()
+    expect(checkPromoEligibility(promo({ min_purchase_amount: 100000 }), cart, context)).toMatchObject({
+      reason: 'MIN_PURCHASE',
+      message: 'Minimum pembelian Rp 100.000'
+    })
+  })
+
+  it('stops at the total usage limit', () => {
+    expect(checkPromoEligibility(promo({ max_uses_total: 100, current_uses: 99 }), cart, context)).toBeNull()
+    expect(checkPromoEligibility(promo({ max_uses_total: 100, current_uses: 100 }), cart, context))
+      .toMatchObject({ reason: 'USAGE_LIMIT' })
+  })
+
+  it('stops at the per-customer limit', () => {
+    const oncePerCustomer = promo({ max_uses_per_customer: 1 })
+
+    expect(checkPromoEligibility(oncePerCustomer, cart, { ...context, customerUses: {} })).toBeNull()
+    expect(checkPromoEligibility(oncePerCustomer, cart, { ...context, customerUses: { 'promo-other': 3 } })).toBeNull()
+    expect(checkPromoEligibility(oncePerCustomer, cart, { ...context, customerUses: { 'promo-hemat': 1 } }))
+      .toMatchObject({ reason: 'CUSTOMER_LIMIT' })
+  })
+
+  it('keeps member promos for members', () => {
+    const members = promo({ promo_type: 'member' })
+
+    expect(checkPromoEligibility(members, cart, context)).toMatchObject({ reason: 'MEMBERS_ONLY' })
+    expect(checkPromoEligibility(members, cart, { ...context, isMember: true })).toBeNull()
+  })
+
+  it('rejects inactive promos and promos without eligible items', () => {
+    expect(checkPromoEligibility(promo({ is_active: false }), cart, context)).toMatchObject({ reason: 'INACTIVE' })
+    expect(checkPromoEligibility(promo({ applicable_categories: ['pastry'] }), cart, context))
+      .toMatchObject({ reason: 'NOT_APPLICABLE' })
+  })
+})
+
+describe('applyPromos', () => {
+  const context = { now: mondayAfternoon }
+  const stackable = (id: string, overrides: Partial<PromoRule> = {}) =>
+    promo({ id, code: id.toUpperCase(), name: id, is_stackable: true, ...overrides })
+
+  it('stacks promos that are all stackable', () => {
+    const result = applyPromos(
+      [stackable('kopi', { applicable_categories: ['coffee'] }), stackable('potong', { promo_type: 'fixed_amount', discount_value: 5000 })],
+      cart,
+      context
+    )
+
+    expect(result.applied.map(entry => [entry.promo_id, entry.discount_amount])).toEqual([['kopi', 5800], ['potong', 5000]])
+    expect(result.discount_amount).toBe(10800)
+    expect(result.rejected).toEqual([])
+  })
+
+  it('keeps the first promo when a later one does not stack', () => {
+    const result = applyPromos([stackable('kopi'), promo({ id: 'solo', name: 'Solo' })], cart, context)
+
+    expect(result.applied.map(entry => entry.promo_id)).toEqual(['kopi'])
+    expect(result.rejected).toEqual([{
+      promo_id: 'solo',
+      code: 'HEMAT10',
+      reason: 'NOT_STACKABLE',
+      message: 'Promo tidak dapat digabung dengan kopi'
+    }])
+  })
+
+  it('rejects promos that exclude each other, either way round', () => {
+    const first = stackable('first', { excluded_promos: ['second'] })
+    const second = stackable('second')
+
+    expect(applyPromos([first, second], cart, context).rejected).toMatchObject([{ promo_id: 'second', reason: 'EXCLUDED' }])
+    expect(applyPromos([second, first], cart, context).rejected).toMatchObject([{ promo_id: 'first', reason: 'EXCLUDED' }])
+  })
+
+  it('applies a promo once', () => {
+    const result = applyPromos([stackable('kopi'), stackable('kopi')], cart, context)
+
+    expect(result.applied).toHaveLength(1)
+    expect(result.rejected).toMatchObject([{ promo_id: 'kopi', reason: 'DUPLICATE' }])
+  })
+
+  it('lets a promo that fails its own checks leave room for the next', () => {
+    const result = applyPromos(
+      [promo({ id: 'big-spender', min_purchase_amount: 200000 }), promo({ id: 'everyone' })],
+      cart,
+      context
+    )
+
+    expect(result.applied.map(entry => entry.promo_id)).toEqual(['everyone'])
+    expect(result.rejected).toMatchObject([{ promo_id: 'big-spender', reason: 'MIN_PURCHASE' }])
+  })
+
+  it('never discounts more than the cart subtotal', () => {
+    const result = applyPromos(
+      [stackable('half', { discount_value: 60 }), stackable('voucher', { promo_type: 'fixed_amount', discount_value: 50000 })],
+      cart,
+      context
+    )
+
+    expect(result.applied.map(entry => entry.discount_amount)).toEqual([55800, 37200])
+    expect(result.discount_amount).toBe(93000)
+  })
+
+  it('passes the time zone to every promo', () => {
+    const happyHour = stackable('happy', { promo_type: 'happy_hour', valid_from_time: '15:00', valid_until_time: '16:00' })
+
+    expect(applyPromos([happyHour], cart, { ...context, timeZone: 'Asia/Jakarta' }).discount_amount).toBe(9300)
+    expect(applyPromos([happyHour], cart, { ...context, timeZone: 'Asia/Jayapura' }).discount_amount).toBe(0)
+  })
+})
@@ -1 +1,425 @@
-// Discount calculations
+/**
+ * Promo Engine
+ *
+ * Evaluates `promos` rows against a priced cart:
+ * - validity period (valid_from / valid_until), weekdays and time-of-day
+ *   windows (happy hour) on the cafe's wall clock, in the time zone of its
+ *   business calendar
+ * - usage limits: max_uses_total and max_uses_per_customer (by phone)
+ * - category- and item-scoped discounts
+ * - buy X get Y, bundles, percentage and fixed-amount discounts
+ * - stacking: a promo only combines with others when every promo involved
+ *   is stackable and none lists another in excluded_promos
+ *
+ * The engine is pure; loading promos and recording promo_usage is up to the
+ * caller.
+ */
+
+import { DEFAULT_BUSINESS_CALENDAR } from '../helpers/businessCalendar'
+
+// ===========================================
+// TYPES
+// ===========================================
+
+export type PromoType = 'percentage' | 'fixed_amount' | 'buy_get' | 'bundle' | 'happy_hour' | 'member'
+
+export interface PromoRule {
+  id: string
+  code: string | null
+  name: string
+  promo_type: PromoType
+  discount_value: number
+  max_discount_amount?: number | null
+  min_purchase_amount?: number | null
+  applicable_categories?: string[] | null
+  applicable_items?: string[] | null
+  buy_quantity?: number | null
+  buy_items?: string[] | null
+  get_quantity?: number | null
+  get_items?: string[] | null
+  get_discount_percentage?: number | null // 100 = free
+  bundle_items?: string[] | null
+  bundle_price?: number | null
+  valid_from?: string | null
+  valid_until?: string | null
+  valid_days?: number[] | null // 1 = Monday, 7 = Sunday
+  valid_from_time?: string | null // HH:MM[:SS]
+  valid_until_time?: string | null
+  max_uses_total?: number | null
+  max_uses_per_customer?: number | null
+  current_uses?: number | null
+  is_active?: boolean | null
+  is_stackable?: boolean | null
+  excluded_promos?: string[] | null
+}
+
+export interface PromoCartLine {
+  menu_item_id: string
+  category_id?: string | null
+  unit_price: number
+  quantity: number
+}
+
+export interface PromoContext {
+  now?: Date
+  timeZone?: string // the business calendar's time_zone, WIB when not given
+  customerUses?: Record<string, number> // promo id -> earlier uses by this customer
+  isMember?: boolean
+}
+
+export type PromoRejectionReason =
+  | 'INACTIVE'
+  | 'NOT_STARTED'
+  | 'EXPIRED'
+  | 'WRONG_DAY'
+  | 'OUTSIDE_HOURS'
+  | 'MIN_PURCHASE'
+  | 'USAGE_LIMIT'
+  | 'CUSTOMER_LIMIT'
+  | 'MEMBERS_ONLY'
+  | 'NOT_APPLICABLE'
+  | 'NOT_STACKABLE'
+  | 'EXCLUDED'
+  | 'DUPLICATE'
+
+export interface PromoRejection {
+  promo_id: string
+  code: string | null
+  reason: PromoRejectionReason
+  message: string
+}
+
+export interface AppliedPromo {
+  promo_id: string
+  code: string | null
+  name: string
+  promo_type: PromoType
+  discount_amount: number
+}
+
+export interface PromoApplication {
+  applied: AppliedPromo[]
+  rejected: PromoRejection[]
+  discount_amount: number
+}
+
+// ===========================================
+// CONSTANTS
+// ===========================================
+
+const ISO_WEEKDAYS: Record<string, number> = {
+  Mon: 1,
+  Tue: 2,
+  Wed: 3,
+  Thu: 4,
+  Fri: 5,
+  Sat: 6,
+  Sun: 7
+}
+
+const DAY_NAMES = ['', 'Senin', 'Selasa', 'Rabu', 'Kamis', 'Jumat', 'Sabtu', 'Minggu']
+
+// ===========================================
+// HELPERS
+// ===========================================
+
+const formatRupiah = (amount: number) => `Rp ${Math.round(amount).toLocaleString('id-ID')}`
+
+const hasEntries = (list?: string[] | null): list is string[] => Array.isArray(list) && list.length > 0
+
+/**
+ * Weekday (1 = Monday) and minutes since midnight in a time zone
+ */
+export function getLocalClock(
+  now: Date,
+  timeZone: string = DEFAULT_BUSINESS_CALENDAR.time_zone
+): { weekday: number; minutes: number } {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    weekday: 'short',
+    hour: '2-digit',
+    minute: '2-digit',
+    hourCycle: 'h23'
+  }).formatToParts(now)
+
+  const part = (type: string) => parts.find(p => p.type === type)?.value || ''
+
+  return {
+    weekday: ISO_WEEKDAYS[part('weekday')] || 1,
+    minutes: (Number(part('hour')) % 24) * 60 + Number(part('minute'))
+  }
+}
+
+/**
+ * Minutes since midnight for a TIME value (HH:MM or HH:MM:SS)
+ */
+export function parseTimeOfDay(value: string): number {
+  const [hours, minutes] = value.split(':').map(Number)
+  return (hours || 0) * 60 + (minutes || 0)
+}
+
+/**
+ * Whether a time falls inside a window; windows may cross midnight
+ */
+export function isWithinTimeWindow(minutes: number, from?: string | null, until?: string | null): boolean {
+  if (!from && !until) return true
+
+  const start = from ? parseTimeOfDay(from) : 0
+  const end = until ? parseTimeOfDay(until) : 24 * 60
+
+  return start <= end
+    ? minutes >= start && minutes <= end
+    : minutes >= start || minutes <= end
+}
+
+/**
+ * Cart lines a promo applies to; unscoped promos apply to the whole cart
+ */
+export function getEligibleLines(promo: PromoRule, lines: PromoCartLine[]): PromoCartLine[] {
+  const items = hasEntries(promo.applicable_items) ? promo.applicable_items : null
+  const categories = hasEntries(promo.applicable_categories) ? promo.applicable_categories : null
+
+  if (!items && !categories) return lines
+
+  return lines.filter(line =>
+    (items?.includes(line.menu_item_id) ?? false) ||
+    (!!line.category_id && (categories?.includes(line.category_id) ?? false))
+  )
+}
+
+const sumLines = (lines: PromoCartLine[]) => lines.reduce((sum, line) => sum + line.unit_price * line.quantity, 0)
+
+/** One price per unit, cheapest first */
+const expandUnits = (lines: PromoCartLine[]) =>
+  lines.flatMap(line => Array.from({ length: line.quantity }, () => line.unit_price)).sort((a, b) => a - b)
+
+// ===========================================
+// DISCOUNTS
+// ===========================================
+
+/**
+ * Buy X get Y: the cheapest reward units are discounted by
+ * get_discount_percentage (free by default). When no separate reward items
+ * are configured the reward comes out of the same pool, so "buy 2 get 1"
+ * needs three units in the cart.
+ */
+export function calculateBuyGetDiscount(promo: PromoRule, lines: PromoCartLine[]): number {
+  const buyQuantity = Number(promo.buy_quantity) || 0
+  const getQuantity = Number(promo.get_quantity) || 0
+  if (buyQuantity < 1 || getQuantity < 1) return 0
+
+  const scoped = getEligibleLines(promo, lines)
+  const buyPool = hasEntries(promo.buy_items)
+    ? lines.filter(line => promo.buy_items!.includes(line.menu_item_id))
+    : scoped
+  const percentage = promo.get_discount_percentage == null ? 100 : Number(promo.get_discount_percentage)
+
+  let rewardUnits: number[]
+  let rewardCount: number
+
+  if (hasEntries(promo.get_items)) {
+    const getPool = lines.filter(line => promo.get_items!.includes(line.menu_item_id))
+    const buyUnits = buyPool.reduce((sum, line) => sum + line.quantity, 0)
+    rewardUnits = expandUnits(getPool)
+    rewardCount = Math.floor(buyUnits / buyQuantity) * getQuantity
+  } else {
+    rewardUnits = expandUnits(buyPool)
+    rewardCount = Math.floor(rewardUnits.length / (buyQuantity + getQuantity)) * getQuantity
+  }
+
+  const discounted = rewardUnits.slice(0, rewardCount).reduce((sum, price) => sum + price, 0)
+  return Math.round(discounted * Math.max(0, Math.min(100, percentage)) / 100)
+}
+
+/**
+ * Bundle: each complete set of bundle_items is charged bundle_price
+ */
+export function calculateBundleDiscount(promo: PromoRule, lines: PromoCartLine[]): number {
+  if (!hasEntries(promo.bundle_items) || promo.bundle_price == null) return 0
+
+  let sets = Infinity
+  let setPrice = 0
+
+  for (const itemId of promo.bundle_items) {
+    const matching = lines.filter(line => line.menu_item_id === itemId)
+    const quantity = matching.reduce((sum, line) => sum + line.quantity, 0)
+    if (quantity === 0) return 0
+
+    sets = Math.min(sets, quantity)
+    setPrice += Math.min(...matching.map(line => line.unit_price))
+  }
+
+  return Math.max(0, Math.round((setPrice - Number(promo.bundle_price)) * sets))
+}
+
+/**
+ * Discount one promo grants on the cart, before stacking caps
+ */
+export function calculatePromoAmount(promo: PromoRule, lines: PromoCartLine[]): number {
+  const eligibleSubtotal = sumLines(getEligibleLines(promo, lines))
+  let discount = 0
+
+  switch (promo.promo_type) {
+    case 'percentage':
+    case 'happy_hour':
+    case 'member':
+      discount = Math.round(eligibleSubtotal * Number(promo.discount_value) / 100)
+      break
+    case 'fixed_amount':
+      discount = Number(promo.discount_value)
+      break
+    case 'buy_get':
+      discount = calculateBuyGetDiscount(promo, lines)
+      break
+    case 'bundle':
+      discount = calculateBundleDiscount(promo, lines)
+      break
+  }
+
+  if (promo.max_discount_amount != null && Number(promo.max_discount_amount) > 0) {
+    discount = Math.min(discount, Number(promo.max_discount_amount))
+  }
+
+  // Buy X get Y rewards and bundles may reach outside the scoped lines
+  const cap = promo.promo_type === 'buy_get' || promo.promo_type === 'bundle' ? sumLines(lines) : eligibleSubtotal
+  return Math.max(0, Math.min(discount, cap))
+}
+
+// ===========================================
+// ELIGIBILITY
+// ===========================================
+
+/**
+ * Check a single promo's validity, schedule, limits and scope.
+ * Returns null when the promo can be applied.
+ */
+export function checkPromoEligibility(
+  promo: PromoRule,
+  lines: PromoCartLine[],
+  context: PromoContext = {}
+): PromoRejection | null {
+  const reject = (reason: PromoRejectionReason, message: string): PromoRejection => ({
+    promo_id: promo.id,
+    code: promo.code,
+    reason,
+    message
+  })
+
+  const now = context.now || new Date()
+  const subtotal = sumLines(lines)
+
+  if (promo.is_active === false) {
+    return reject('INACTIVE', 'Promo sudah tidak aktif')
+  }
+
+  if (promo.valid_from && now < new Date(promo.valid_from)) {
+    return reject('NOT_STARTED', 'Promo belum berlaku')
+  }
+
+  if (promo.valid_until && now > new Date(promo.valid_until)) {
+    return reject('EXPIRED', 'Promo sudah berakhir')
+  }
+
+  const clock = getLocalClock(now, context.timeZone)
+
+  const validDays = (promo.valid_days || []).map(Number)
+  if (validDays.length > 0 && !validDays.includes(clock.weekday)) {
+    const days = validDays.map(day => DAY_NAMES[day]).filter(Boolean).join(', ')
+    return reject('WRONG_DAY', `Promo hanya berlaku hari ${days}`)
+  }
+
+  if (!isWithinTimeWindow(clock.minutes, promo.valid_from_time, promo.valid_until_time)) {
+    const from = promo.valid_from_time?.slice(0, 5) || '00:00'
+    const until = promo.valid_until_time?.slice(0, 5) || '24:00'
+    return reject('OUTSIDE_HOURS', `Promo hanya berlaku pukul ${from}–${until}`)
+  }
+
+  if (promo.promo_type === 'member' && !context.isMember) {
+    return reject('MEMBERS_ONLY', 'Promo khusus member')
+  }
+
+  if (promo.min_purchase_amount && subtotal < Number(promo.min_purchase_amount)) {
+    return reject('MIN_PURCHASE', `Minimum pembelian ${formatRupiah(Number(promo.min_purchase_amount))}`)
+  }
+
+  if (promo.max_uses_total != null && Number(promo.current_uses || 0) >= Number(promo.max_uses_total)) {
+    return reject('USAGE_LIMIT', 'Promo telah mencapai batas maksimal penggunaan')
+  }
+
+  if (promo.max_uses_per_customer != null &&
+      (context.customerUses?.[promo.id] || 0) >= Number(promo.max_uses_per_customer)) {
+    return reject('CUSTOMER_LIMIT', 'Anda sudah menggunakan promo ini sebanyak batas maksimal')
+  }
+
+  if (calculatePromoAmount(promo, lines) <= 0) {
+    return reject('NOT_APPLICABLE', 'Promo tidak berlaku untuk menu di keranjang Anda')
+  }
+
+  return null
+}
+
+/**
+ * Whether two promos may be used on the same order
+ */
+export function canStackPromos(a: PromoRule, b: PromoRule): boolean {
+  if (!a.is_stackable || !b.is_stackable) return false
+  return !(a.excluded_promos || []).includes(b.id) && !(b.excluded_promos || []).includes(a.id)
+}
+
+/**
+ * Apply promos in the order they were entered. A promo that fails its own
+ * checks or cannot stack with an already applied promo is rejected; the
+ * combined discount never exceeds the cart subtotal.
+ */
+export function applyPromos(
+  promos: PromoRule[],
+  lines: PromoCartLine[],
+  context: PromoContext = {}
+): PromoApplication {
+  const applied: AppliedPromo[] = []
+  const appliedRules: PromoRule[] = []
+  const rejected: PromoRejection[] = []
+  let remaining = sumLines(lines)
+
+  for (const promo of promos) {
+    if (appliedRules.some(rule => rule.id === promo.id)) {
+      rejected.push({ promo_id: promo.id, code: promo.code, reason: 'DUPLICATE', message: 'Promo sudah digunakan' })
+      continue
+    }
+
+    const rejection = checkPromoEligibility(promo, lines, context)
+    if (rejection) {
+      rejected.push(rejection)
+      continue
+    }
+
+    const conflict = appliedRules.find(rule => !canStackPromos(rule, promo))
+    if (conflict) {
+      const excluded = (conflict.excluded_promos || []).includes(promo.id) || (promo.excluded_promos || []).includes(conflict.id)
+      rejected.push({
+        promo_id: promo.id,
+        code: promo.code,
+        reason: excluded ? 'EXCLUDED' : 'NOT_STACKABLE',
+        message: `Promo tidak dapat digabung dengan ${conflict.name}`
+      })
+      continue
+    }
+
+    const discount = Math.min(calculatePromoAmount(promo, lines), remaining)
+    remaining -= discount
+    appliedRules.push(promo)
+    applied.push({
+      promo_id: promo.id,
+      code: promo.code,
+      name: promo.name,
+      promo_type: promo.promo_type,
+      discount_amount: discount
+    })
+  }
+
+  return {
+    applied,
+    rejected,
+    discount_amount: applied.reduce((sum, promo) => sum + promo.discount_amount, 0)
+  }
+}
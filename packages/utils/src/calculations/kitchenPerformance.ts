@@ -0,0 +1,219 @@
+/**
+ * Kitchen Performance
+ *
+ * Ticket times, on-time rate, overdue orders and throughput from raw rows:
+ * orders with their `order_status_history` (069_kitchen_performance) and
+ * items with their bump times (068_kitchen_stations). A ticket starts when
+ * the order is confirmed and ends when it first turns ready, so a recall
+ * does not reset it. Each item's target is its menu item's
+ * estimated_prep_time; stations work side by side, so an order's target is
+ * its slowest item's. Used by the kitchen-display function and the owner
+ * dashboard, which each load the rows themselves.
+ */
+
+import { businessHour, type BusinessCalendar } from '../helpers/businessCalendar'
+import { stationForCategory, type KitchenStationSettings } from '../helpers/kitchenStations'
+
+// ===========================================
+// TYPES
+// ===========================================
+
+export interface KitchenStatusChange {
+  new_status: string
+  created_at: string
+}
+
+export interface KitchenPerformanceItem {
+  name: string
+  category: string | null // menu category slug
+  quantity: number
+  status: string
+  target_minutes: number | null // menu item's estimated_prep_time
+  bumped_at: string | null
+}
+
+export interface KitchenPerformanceOrder {
+  id: string
+  status: string
+  created_at: string
+  confirmed_at: string | null
+  ready_at: string | null
+  history: KitchenStatusChange[]
+  items: KitchenPerformanceItem[]
+}
+
+export interface TicketTimeStats {
+  tickets: number
+  average_minutes: number | null
+  on_time_percentage: number | null
+}
+
+export interface StationTicketStats extends TicketTimeStats {
+  code: string
+  name: string
+}
+
+export interface MenuItemTicketStats extends TicketTimeStats {
+  name: string
+  target_minutes: number
+}
+
+export interface KitchenPerformanceSummary extends TicketTimeStats {
+  late_orders: number
+  // Open orders already past their target
+  overdue_orders: number
+  orders_per_hour: number // while serving: hours without orders are left out
+  throughput: { hour: number; orders: number }[] // completed orders by wall-clock hour
+  stations: StationTicketStats[]
+  menu_items: MenuItemTicketStats[]
+}
+
+// ===========================================
+// CONSTANTS
+// ===========================================
+
+export const DEFAULT_TARGET_PREP_MINUTES = 15
+
+// Order statuses still waiting on the kitchen
+export const KITCHEN_OPEN_ORDER_STATUSES = ['confirmed', 'preparing']
+
+const MINUTE_MS = 60 * 1000
+
+// ===========================================
+// TICKETS
+// ===========================================
+
+function firstChange(order: KitchenPerformanceOrder, status: string): string | null {
+  const times = order.history
+    .filter(change => change.new_status === status)
+    .map(change => change.created_at)
+    .sort()
+  return times[0] || null
+}
+
+const minutesBetween = (from: string, to: string) =>
+  Math.max(0, (new Date(to).getTime() - new Date(from).getTime()) / MINUTE_MS)
+
+const itemTarget = (item: KitchenPerformanceItem) =>
+  item.target_minutes && item.target_minutes > 0 ? item.target_minutes : DEFAULT_TARGET_PREP_MINUTES
+
+/**
+ * When the kitchen got the ticket and when it was first ready (null while
+ * still open)
+ */
+export function orderTicketWindow(order: KitchenPerformanceOrder): { start: string; ready: string | null } {
+  return {
+    start: firstChange(order, 'confirmed') || order.confirmed_at || order.created_at,
+    ready: firstChange(order, 'ready') || order.ready_at
+  }
+}
+
+export function orderTargetMinutes(order: KitchenPerformanceOrder): number {
+  const items = order.items.filter(item => item.status !== 'cancelled')
+  return items.length > 0 ? Math.max(...items.map(itemTarget)) : DEFAULT_TARGET_PREP_MINUTES
+}
+
+/**
+ * Open order past its target
+ */
+export function isOrderOverdue(order: KitchenPerformanceOrder, now: Date = new Date()): boolean {
+  if (!KITCHEN_OPEN_ORDER_STATUSES.includes(order.status)) return false
+  const { start } = orderTicketWindow(order)
+  return minutesBetween(start, now.toISOString()) > orderTargetMinutes(order)
+}
+
+function summarizeTicketTimes(tickets: { minutes: number; target: number }[]): TicketTimeStats {
+  if (tickets.length === 0) {
+    return { tickets: 0, average_minutes: null, on_time_percentage: null }
+  }
+
+  const total = tickets.reduce((sum, ticket) => sum + ticket.minutes, 0)
+  const onTime = tickets.filter(ticket => ticket.minutes <= ticket.target).length
+
+  return {
+    tickets: tickets.length,
+    average_minutes: Math.round((total / tickets.length) * 10) / 10,
+    on_time_percentage: Math.round((onTime / tickets.length) * 1000) / 10
+  }
+}
+
+// ===========================================
+// SUMMARY
+// ===========================================
+
+/**
+ * Performance of the orders ready within [start, end). Open orders only
+ * count towards overdue_orders; items count by station and menu item from
+ * the order's start to their bump.
+ */
+export function summarizeKitchenPerformance(
+  orders: KitchenPerformanceOrder[],
+  options: {
+    start: string
+    end: string
+    calendar: BusinessCalendar
+    stations: KitchenStationSettings
+    now?: Date
+  }
+): KitchenPerformanceSummary {
+  const now = options.now || new Date()
+  const startTime = new Date(options.start).getTime()
+  const endTime = new Date(options.end).getTime()
+
+  const orderTickets: { minutes: number; target: number }[] = []
+  const byHour = new Map<number, number>()
+  const byStation = new Map<string, { minutes: number; target: number }[]>()
+  const byMenuItem = new Map<string, { minutes: number; target: number }[]>()
+  let overdue = 0
+
+  for (const order of orders) {
+    if (isOrderOverdue(order, now)) {
+      overdue++
+    }
+
+    const window = orderTicketWindow(order)
+    const readyTime = window.ready ? new Date(window.ready).getTime() : NaN
+    if (!window.ready || readyTime < startTime || readyTime >= endTime) continue
+
+    orderTickets.push({
+      minutes: minutesBetween(window.start, window.ready),
+      target: orderTargetMinutes(order)
+    })
+    const hour = businessHour(window.ready, options.calendar)
+    byHour.set(hour, (byHour.get(hour) || 0) + 1)
+
+    for (const item of order.items) {
+      if (!item.bumped_at) continue
+
+      const ticket = { minutes: minutesBetween(window.start, item.bumped_at), target: itemTarget(item) }
+      const station = stationForCategory(options.stations, item.category)
+      byStation.set(station, [...(byStation.get(station) || []), ticket])
+      byMenuItem.set(item.name, [...(byMenuItem.get(item.name) || []), ticket])
+    }
+  }
+
+  const summary = summarizeTicketTimes(orderTickets)
+
+  return {
+    ...summary,
+    late_orders: orderTickets.filter(ticket => ticket.minutes > ticket.target).length,
+    overdue_orders: overdue,
+    // Over the hours that had orders, so closed hours do not dilute it
+    orders_per_hour: byHour.size > 0 ? Math.round((orderTickets.length / byHour.size) * 10) / 10 : 0,
+    throughput: Array.from(byHour.entries())
+      .map(([hour, count]) => ({ hour, orders: count }))
+      .sort((a, b) => a.hour - b.hour),
+    stations: options.stations.stations.map(station => ({
+      code: station.code,
+      name: station.name,
+      ...summarizeTicketTimes(byStation.get(station.code) || [])
+    })),
+    menu_items: Array.from(byMenuItem.entries())
+      .map(([name, tickets]) => ({
+        name,
+        target_minutes: tickets[0].target,
+        ...summarizeTicketTimes(tickets)
+      }))
+      .sort((a, b) => (b.average_minutes || 0) - (a.average_minutes || 0))
+  }
+}
@@ -0,0 +1,162 @@
+/**
+ * Loyalty Points
+ *
+ * Earn and redeem rules for the points program keyed by customer phone.
+ * Points are earned on the net spend (subtotal after discounts) of a
+ * completed order and can be redeemed at checkout as a discount, capped at a
+ * share of the subtotal left after promos. The ledger itself lives in the
+ * database (`loyalty_points`); migration 061 mirrors `calculateEarnedPoints`
+ * when it awards points on order completion.
+ */
+
+import { formatIndonesianPhone } from '../validators/indonesian'
+
+// ===========================================
+// TYPES
+// ===========================================
+
+export interface LoyaltyRules {
+  enabled: boolean
+  spend_per_point: number // rupiah of net spend per point earned
+  point_value: number // rupiah of discount per point redeemed
+  min_redeem_points: number
+  max_redeem_percentage: number // of the subtotal after promos
+  expiry_days: number // 0 = points never expire
+}
+
+export interface LoyaltyRedemption {
+  points: number
+  discount_amount: number
+}
+
+export class LoyaltyError extends Error {
+  constructor(message: string, public code: string) {
+    super(message)
+    this.name = 'LoyaltyError'
+  }
+}
+
+// ===========================================
+// CONSTANTS
+// ===========================================
+
+// Default rules, mirrors the seeded `loyalty/rules` system setting:
+// 1 point per Rp 10.000, 1 point = Rp 100 (a 1% return)
+export const DEFAULT_LOYALTY_RULES: LoyaltyRules = {
+  enabled: true,
+  spend_per_point: 10000,
+  point_value: 100,
+  min_redeem_points: 50,
+  max_redeem_percentage: 50,
+  expiry_days: 365
+}
+
+// ===========================================
+// RULES
+// ===========================================
+
+/**
+ * Read rules from the stored setting, falling back to the defaults for
+ * anything missing or out of range
+ */
+export function normalizeLoyaltyRules(raw: unknown): LoyaltyRules {
+  const value = (typeof raw === 'string' ? JSON.parse(raw) : raw || {}) as Record<string, unknown>
+
+  const pick = (key: keyof Omit<LoyaltyRules, 'enabled'>, min: number, max = Infinity) => {
+    const number = Number(value[key])
+    return Number.isFinite(number) && number >= min && number <= max
+      ? Math.floor(number)
+      : DEFAULT_LOYALTY_RULES[key]
+  }
+
+  return {
+    enabled: typeof value.enabled === 'boolean' ? value.enabled : DEFAULT_LOYALTY_RULES.enabled,
+    spend_per_point: pick('spend_per_point', 1),
+    point_value: pick('point_value', 1),
+    min_redeem_points: pick('min_redeem_points', 0),
+    max_redeem_percentage: pick('max_redeem_percentage', 0, 100),
+    expiry_days: pick('expiry_days', 0)
+  }
+}
+
+/**
+ * Points are keyed by the phone in international format (+628...), so
+ * 0812..., 62812... and +62 812... share one balance
+ */
+export function normalizeLoyaltyPhone(phone?: string | null): string | null {
+  return phone ? formatIndonesianPhone(phone) : null
+}
+
+// ===========================================
+// EARN
+// ===========================================
+
+/**
+ * Points earned on an order's net spend
+ */
+export function calculateEarnedPoints(netSpend: number, rules: LoyaltyRules): number {
+  if (!rules.enabled || netSpend <= 0) return 0
+  return Math.floor(netSpend / rules.spend_per_point)
+}
+
+// ===========================================
+// REDEEM
+// ===========================================
+
+/**
+ * Most points the customer can redeem on this order; 0 when the balance or
+ * the cap is below the redemption minimum
+ */
+export function maxRedeemablePoints(
+  balance: number,
+  eligibleAmount: number,
+  rules: LoyaltyRules
+): number {
+  if (!rules.enabled || balance <= 0 || eligibleAmount <= 0) return 0
+
+  const cap = Math.floor(eligibleAmount * rules.max_redeem_percentage / 100 / rules.point_value)
+  const points = Math.min(Math.floor(balance), cap)
+
+  return points >= Math.max(rules.min_redeem_points, 1) ? points : 0
+}
+
+/**
+ * Validate a redemption request and price it
+ *
+ * @param balance - Customer's current points
+ * @param requestedPoints - Points the customer wants to use
+ * @param eligibleAmount - Order subtotal after promo discounts
+ */
+export function calculateRedemption(
+  balance: number,
+  requestedPoints: number,
+  eligibleAmount: number,
+  rules: LoyaltyRules
+): LoyaltyRedemption {
+  const points = Math.floor(Number(requestedPoints) || 0)
+  if (points <= 0) {
+    return { points: 0, discount_amount: 0 }
+  }
+
+  if (!rules.enabled) {
+    throw new LoyaltyError('Program poin sedang tidak aktif', 'LOYALTY_DISABLED')
+  }
+
+  if (points < rules.min_redeem_points) {
+    throw new LoyaltyError(`Minimal penukaran ${rules.min_redeem_points} poin`, 'LOYALTY_BELOW_MINIMUM')
+  }
+
+  if (points > balance) {
+    throw new LoyaltyError(`Poin tidak cukup, saldo Anda ${balance} poin`, 'LOYALTY_INSUFFICIENT_POINTS')
+  }
+
+  const max = maxRedeemablePoints(balance, eligibleAmount, rules)
+  if (points > max) {
+    throw new LoyaltyError(
+      `Maksimal ${max} poin untuk pesanan ini (${rules.max_redeem_percentage}% dari subtotal)`,
+      'LOYALTY_LIMIT_EXCEEDED'
+    )
+  }
+
+  return { points, discount_amount: points * rules.point_value }
+}
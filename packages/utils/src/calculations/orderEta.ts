@@ -0,0 +1,206 @@
+/**
+ * Order ETA
+ *
+ * Queue-aware estimate of when an order will be ready. Each item takes its
+ * menu item's typical prep time: the median of recent tickets from the
+ * kitchen starting the order to the item's bump, or its
+ * estimated_prep_time until there are enough of those. Stations work side
+ * by side, so an order waits at each of its stations for the open work
+ * ahead of it there, shared by the kitchen staff on shift, and then for its
+ * own slowest item at that station. Used by the customer app and the
+ * order-processing function, which each load the queue themselves.
+ */
+
+import { DEFAULT_TARGET_PREP_MINUTES } from './kitchenPerformance'
+import {
+  OPEN_KITCHEN_ITEM_STATUSES,
+  stationForCategory,
+  type KitchenItemStatus,
+  type KitchenStationSettings
+} from '../helpers/kitchenStations'
+
+// ===========================================
+// TYPES
+// ===========================================
+
+export interface EtaItem {
+  menu_item_id: string
+  category: string | null // menu category slug
+  quantity: number
+  status: KitchenItemStatus
+}
+
+export interface EtaOrder {
+  id: string
+  queued_at: string // confirmed_at; now for an order still awaiting payment
+  started_at: string | null // preparing_at
+  items: EtaItem[]
+}
+
+export interface PrepTimeSample {
+  menu_item_id: string
+  minutes: number // from the kitchen starting the order to the item's bump
+}
+
+export interface KitchenQueue {
+  orders: EtaOrder[] // open kitchen orders
+  prep_minutes: Record<string, number> // by menu item id
+  staff_on_shift: number
+  stations: KitchenStationSettings
+}
+
+export interface OrderEta {
+  minutes: number
+  ready_at: string
+  queue_position: number
+  orders_ahead: number
+}
+
+export interface KitchenLoad {
+  minutes: number // what a new order would wait, rounded up to 5
+  open_orders: number
+  busy: boolean
+}
+
+// ===========================================
+// CONSTANTS
+// ===========================================
+
+// A new order waiting this long makes the kitchen busy for customers
+export const KITCHEN_BUSY_MINUTES = 25
+
+// How far back bumps count towards an item's typical prep time
+export const PREP_HISTORY_DAYS = 14
+
+const MIN_PREP_SAMPLES = 3
+
+// Each extra portion of the same item adds a share of its prep time
+const EXTRA_PORTION_SHARE = 0.25
+
+const MINUTE_MS = 60 * 1000
+
+// ===========================================
+// PREP TIMES
+// ===========================================
+
+/**
+ * Typical minutes per menu item: the median of its samples once there are
+ * enough, its estimated_prep_time otherwise
+ */
+export function typicalPrepMinutes(
+  samples: PrepTimeSample[],
+  estimated: Record<string, number | null>
+): Record<string, number> {
+  const result: Record<string, number> = {}
+  for (const [menuItemId, minutes] of Object.entries(estimated)) {
+    if (minutes && minutes > 0) result[menuItemId] = minutes
+  }
+
+  const byItem = new Map<string, number[]>()
+  for (const sample of samples) {
+    if (sample.minutes <= 0) continue
+    byItem.set(sample.menu_item_id, [...(byItem.get(sample.menu_item_id) || []), sample.minutes])
+  }
+
+  byItem.forEach((minutes, menuItemId) => {
+    if (minutes.length < MIN_PREP_SAMPLES) return
+
+    const sorted = [...minutes].sort((a, b) => a - b)
+    const middle = Math.floor(sorted.length / 2)
+    result[menuItemId] = sorted.length % 2 === 1
+      ? sorted[middle]
+      : (sorted[middle - 1] + sorted[middle]) / 2
+  })
+
+  return result
+}
+
+// ===========================================
+// QUEUE
+// ===========================================
+
+/**
+ * Minutes of open work an order has at each station: its slowest item
+ * there, less what has passed since the kitchen started it
+ */
+function stationWork(order: EtaOrder, queue: KitchenQueue, now: Date): Map<string, number> {
+  const elapsed = order.started_at
+    ? Math.max(0, (now.getTime() - new Date(order.started_at).getTime()) / MINUTE_MS)
+    : 0
+  const work = new Map<string, number>()
+
+  for (const item of order.items) {
+    if (!OPEN_KITCHEN_ITEM_STATUSES.includes(item.status)) continue
+
+    const prep = queue.prep_minutes[item.menu_item_id] || DEFAULT_TARGET_PREP_MINUTES
+    let minutes = prep * (1 + Math.max(0, item.quantity - 1) * EXTRA_PORTION_SHARE)
+    // Still being made, so never quite done
+    if (item.status === 'preparing') {
+      minutes = Math.max(1, minutes - elapsed)
+    }
+
+    const station = stationForCategory(queue.stations, item.category)
+    work.set(station, Math.max(work.get(station) || 0, minutes))
+  }
+
+  return work
+}
+
+/**
+ * Minutes until each station is free of the given orders. Staff on shift
+ * are spread over the stations, at least one cook each.
+ */
+function stationWait(orders: EtaOrder[], queue: KitchenQueue, now: Date): Map<string, number> {
+  const lanes = Math.max(1, queue.staff_on_shift / Math.max(1, queue.stations.stations.length))
+  const wait = new Map<string, number>()
+
+  for (const order of orders) {
+    stationWork(order, queue, now).forEach((minutes, station) => {
+      wait.set(station, (wait.get(station) || 0) + minutes / lanes)
+    })
+  }
+
+  return wait
+}
+
+const queuedTime = (order: EtaOrder) => new Date(order.queued_at).getTime()
+
+// ===========================================
+// ESTIMATES
+// ===========================================
+
+/**
+ * When an order will be ready, behind the open orders queued before it.
+ * The order need not be in the queue yet (awaiting payment).
+ */
+export function estimateOrderEta(order: EtaOrder, queue: KitchenQueue, now: Date = new Date()): OrderEta {
+  const ahead = queue.orders.filter(other => other.id !== order.id && queuedTime(other) < queuedTime(order))
+  const wait = stationWait(ahead, queue, now)
+
+  let minutes = 0
+  stationWork(order, queue, now).forEach((own, station) => {
+    minutes = Math.max(minutes, (wait.get(station) || 0) + own)
+  })
+  minutes = Math.ceil(minutes)
+
+  return {
+    minutes,
+    ready_at: new Date(now.getTime() + minutes * MINUTE_MS).toISOString(),
+    queue_position: ahead.length + 1,
+    orders_ahead: ahead.length
+  }
+}
+
+/**
+ * What an order placed now would wait, for the customer menu
+ */
+export function estimateKitchenLoad(queue: KitchenQueue, now: Date = new Date()): KitchenLoad {
+  const longestWait = Math.max(0, ...Array.from(stationWait(queue.orders, queue, now).values()))
+  const minutes = Math.ceil((longestWait + DEFAULT_TARGET_PREP_MINUTES) / 5) * 5
+
+  return {
+    minutes,
+    open_orders: queue.orders.length,
+    busy: minutes >= KITCHEN_BUSY_MINUTES
+  }
+}
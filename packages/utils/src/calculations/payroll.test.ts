@@ -0,0 +1,164 @@
+import {
+  calculateAnnualPph21,
+  calculateBpjsContributions,
+  calculateOvertimePay,
+  calculatePasal17Tax,
+  calculatePayroll,
+  calculateTerWithholding,
+  getOvertimeMultiplierHours,
+  type PayrollEmployee,
+  type PayrollHistoryEntry
+} from './payroll'
+
+const employee: PayrollEmployee = {
+  salaryType: 'monthly',
+  salaryAmount: 10_000_000,
+  ptkpStatus: 'TK/0',
+  hasNpwp: true,
+  bpjsKesehatan: false,
+  bpjsKetenagakerjaan: false
+}
+
+const amountOf = (lines: Array<{ code: string; amount: number }>, code: string) =>
+  lines.find(line => line.code === code)?.amount
+
+describe('overtime', () => {
+  it('weights workday hours at 1.5x then 2x', () => {
+    expect(getOvertimeMultiplierHours(3, 'workday')).toBe(5.5)
+  })
+
+  it('weights holiday hours by the work week', () => {
+    expect(getOvertimeMultiplierHours(9, 'holiday', 6)).toBe(7 * 2 + 3 + 4)
+    expect(getOvertimeMultiplierHours(9, 'holiday', 5)).toBe(8 * 2 + 3)
+  })
+
+  it('pays on 1/173 of the monthly wage', () => {
+    const overtime = calculateOvertimePay({ salaryType: 'monthly', salaryAmount: 5_190_000 }, [
+      { date: '2026-03-02', hours: 3, dayType: 'workday' },
+      { date: '2026-03-08', hours: 9, dayType: 'holiday' },
+      { date: '2026-03-09', hours: 0, dayType: 'workday' }
+    ])
+
+    expect(overtime.hourlyWage).toBe(30_000)
+    expect(overtime.days.map(day => day.pay)).toEqual([165_000, 630_000])
+    expect(overtime.pay).toBe(795_000)
+    expect(overtime.hours).toBe(12)
+  })
+})
+
+describe('calculateBpjsContributions', () => {
+  it('caps the Kesehatan and JP wage bases', () => {
+    const bpjs = calculateBpjsContributions(15_000_000, { bpjsKesehatan: true, bpjsKetenagakerjaan: true })
+
+    expect(bpjs.employee.map(line => [line.code, line.amount])).toEqual([
+      ['bpjs_kesehatan', 120_000],
+      ['bpjs_jht', 300_000],
+      ['bpjs_jp', 105_474]
+    ])
+    expect(bpjs.employer.map(line => [line.code, line.amount])).toEqual([
+      ['bpjs_kesehatan', 480_000],
+      ['bpjs_jht', 555_000],
+      ['bpjs_jp', 210_948],
+      ['bpjs_jkk', 36_000],
+      ['bpjs_jkm', 45_000]
+    ])
+  })
+
+  it('skips programmes the employee is not enrolled in', () => {
+    expect(calculateBpjsContributions(5_000_000, { bpjsKesehatan: false, bpjsKetenagakerjaan: false }))
+      .toEqual({ employee: [], employer: [] })
+  })
+})
+
+describe('PPh 21', () => {
+  it('withholds at the TER rate of the category', () => {
+    expect(calculateTerWithholding(5_400_000, 'TK/0')).toEqual({ category: 'A', rate: 0, amount: 0 })
+    expect(calculateTerWithholding(10_000_000, 'TK/0')).toEqual({ category: 'A', rate: 2, amount: 200_000 })
+    expect(calculateTerWithholding(10_000_000, 'K/3').category).toBe('C')
+  })
+
+  it('withholds 20% more without an NPWP', () => {
+    expect(calculateTerWithholding(10_000_000, 'TK/0', false).amount).toBe(240_000)
+  })
+
+  it('applies the Pasal 17 brackets progressively', () => {
+    expect(calculatePasal17Tax(60_000_000)).toBe(3_000_000)
+    expect(calculatePasal17Tax(100_000_000)).toBe(9_000_000)
+    expect(calculatePasal17Tax(-1)).toBe(0)
+  })
+
+  it('trues up the year against the TER withholding', () => {
+    const entries = Array.from({ length: 12 }, () => ({ taxableGross: 10_000_000, pensionContributions: 300_000 }))
+    const annual = calculateAnnualPph21(entries, 11 * 200_000, 'TK/0')
+
+    expect(annual).toEqual(expect.objectContaining({
+      gross: 120_000_000,
+      occupationalCost: 6_000_000,
+      pensionContributions: 3_600_000,
+      net: 110_400_000,
+      ptkp: 54_000_000,
+      taxableIncome: 56_400_000,
+      tax: 2_820_000,
+      amount: 620_000
+    }))
+  })
+})
+
+describe('calculatePayroll', () => {
+  it('nets a monthly salary of BPJS and TER withholding', () => {
+    const payroll = calculatePayroll({
+      employee: { ...employee, bpjsKesehatan: true, bpjsKetenagakerjaan: true },
+      month: 3,
+      year: 2026
+    })
+
+    // Employer-paid Kesehatan, JKK and JKM are taxable: 10.454.000 at 2,5%
+    expect(payroll.pph21).toEqual(expect.objectContaining({ method: 'ter', rate: 2.5, taxableGross: 10_454_000, amount: 261_350 }))
+    expect(payroll.bpjsEmployee).toBe(400_000)
+    expect(payroll.netSalary).toBe(9_338_650)
+    expect(payroll.employerCost).toBe(11_024_000)
+    expect(amountOf(payroll.deductions, 'pph21')).toBe(261_350)
+  })
+
+  it('pays a daily wage for the days worked', () => {
+    const payroll = calculatePayroll({
+      employee: { ...employee, salaryType: 'daily', salaryAmount: 200_000 },
+      month: 3,
+      year: 2026,
+      daysWorked: 22
+    })
+
+    expect(payroll.earnings[0]).toEqual({ code: 'basic_salary', label: 'Gaji Pokok', amount: 4_400_000, note: '22 hari' })
+    expect(payroll.netSalary).toBe(4_400_000)
+  })
+
+  it('refunds overwithheld tax in December', () => {
+    const history: PayrollHistoryEntry[] = Array.from({ length: 11 }, (_, index) => ({
+      month: index + 1,
+      taxableGross: 10_000_000,
+      pph21: 500_000,
+      pensionContributions: 0
+    }))
+    const payroll = calculatePayroll({ employee, month: 12, year: 2026, history })
+
+    expect(payroll.pph21.method).toBe('annual')
+    expect(payroll.pph21.amount).toBe(-2_500_000)
+    expect(amountOf(payroll.earnings, 'pph21_refund')).toBe(2_500_000)
+    expect(amountOf(payroll.deductions, 'pph21')).toBeUndefined()
+    expect(payroll.netSalary).toBe(12_500_000)
+  })
+
+  it('ignores non-positive extra deductions', () => {
+    const payroll = calculatePayroll({
+      employee,
+      month: 3,
+      year: 2026,
+      deductions: [
+        { code: 'loan', label: 'Kasbon', amount: 250_000.4 },
+        { code: 'late', label: 'Terlambat', amount: 0 }
+      ]
+    })
+
+    expect(payroll.deductions.map(line => [line.code, line.amount])).toEqual([['loan', 250_000], ['pph21', 200_000]])
+  })
+})
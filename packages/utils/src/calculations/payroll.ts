@@ -1 +1,606 @@
-// Payroll calculations
+/**
+ * Indonesian Payroll Calculations
+ *
+ * Monthly salary engine covering statutory contributions and withholding:
+ * - BPJS Kesehatan (4% employer, 1% employee, capped wage base)
+ * - BPJS Ketenagakerjaan: JHT (3.7% / 2%), JP (2% / 1%, capped), JKK by
+ *   risk class and JKM (employer only)
+ * - PPh 21 with the monthly TER rates (PP 58/2023) and the annual Pasal 17
+ *   true-up in the final tax period (December or the last month worked)
+ * - Overtime at Depnaker multipliers on 1/173 of the monthly wage
+ *
+ * Every amount ends up as a labelled line item so payslips can render the
+ * breakdown without knowing the rules.
+ */
+
+// ===========================================
+// TYPES
+// ===========================================
+
+export type SalaryType = 'monthly' | 'daily' | 'hourly'
+
+/** PTKP status: TK = single, K = married, /n = dependents (max 3) */
+export type PtkpStatus = 'TK/0' | 'TK/1' | 'TK/2' | 'TK/3' | 'K/0' | 'K/1' | 'K/2' | 'K/3'
+
+export type TerCategory = 'A' | 'B' | 'C'
+
+export type JkkRiskClass = 'very_low' | 'low' | 'medium' | 'high' | 'very_high'
+
+/** Working days per week, decides the holiday overtime tiers */
+export type WorkWeek = 5 | 6
+
+/** Rest days and public holidays are paid at holiday overtime rates */
+export type OvertimeDayType = 'workday' | 'holiday'
+
+export interface PayrollSettings {
+  workWeek: WorkWeek
+  jkkRiskClass: JkkRiskClass
+  bpjsKesehatanWageCap: number
+  jpWageCap: number
+}
+
+export interface PayrollEmployee {
+  salaryType: SalaryType
+  salaryAmount: number // per month, day or hour depending on salaryType
+  ptkpStatus: PtkpStatus
+  hasNpwp: boolean
+  bpjsKesehatan: boolean
+  bpjsKetenagakerjaan: boolean
+}
+
+export interface OvertimeDay {
+  date: string
+  hours: number
+  dayType: OvertimeDayType
+}
+
+/** An earlier payroll of the same tax year, used for the annual true-up */
+export interface PayrollHistoryEntry {
+  month: number
+  taxableGross: number
+  pph21: number
+  pensionContributions: number // employee JHT + JP
+}
+
+export interface PayrollLineItem {
+  code: string
+  label: string
+  amount: number
+  note?: string
+}
+
+export interface PayrollInput {
+  employee: PayrollEmployee
+  month: number // 1-12
+  year: number
+  daysWorked?: number // daily wage
+  hoursWorked?: number // hourly wage, regular hours only
+  overtime?: OvertimeDay[]
+  allowances?: number // fixed monthly allowances, part of the BPJS wage base
+  bonus?: number
+  deductions?: PayrollLineItem[] // non-statutory: absence, late, loans
+  history?: PayrollHistoryEntry[]
+  finalPeriod?: boolean // last month of employment; December always is
+  settings?: Partial<PayrollSettings>
+}
+
+export interface OvertimeBreakdown {
+  hours: number
+  hourlyWage: number
+  pay: number
+  days: Array<OvertimeDay & { pay: number }>
+}
+
+export interface Pph21Breakdown {
+  method: 'ter' | 'annual'
+  category: TerCategory
+  rate: number // TER percentage, 0 for the annual true-up
+  taxableGross: number // this month's gross including employer-paid premiums
+  pensionContributions: number // employee JHT + JP, deductible annually
+  amount: number // negative when the true-up refunds overwithheld tax
+  annual?: {
+    gross: number
+    occupationalCost: number // biaya jabatan
+    pensionContributions: number
+    net: number
+    ptkp: number
+    taxableIncome: number // PKP, rounded down to thousands
+    tax: number
+    withheld: number // January to the previous month
+  }
+}
+
+export interface PayrollBreakdown {
+  period: { month: number; year: number }
+  earnings: PayrollLineItem[]
+  deductions: PayrollLineItem[]
+  employerContributions: PayrollLineItem[]
+  overtime: OvertimeBreakdown
+  pph21: Pph21Breakdown
+  basicSalary: number
+  grossSalary: number
+  bpjsEmployee: number
+  totalDeductions: number
+  netSalary: number
+  employerCost: number // gross plus employer contributions
+}
+
+// ===========================================
+// CONSTANTS
+// ===========================================
+
+export const DEFAULT_PAYROLL_SETTINGS: PayrollSettings = {
+  workWeek: 6,
+  jkkRiskClass: 'very_low',
+  bpjsKesehatanWageCap: 12_000_000,
+  jpWageCap: 10_547_400 // adjusted every March by BPJS Ketenagakerjaan
+}
+
+export const BPJS_RATES = {
+  kesehatan: { employer: 0.04, employee: 0.01 },
+  jht: { employer: 0.037, employee: 0.02 },
+  jp: { employer: 0.02, employee: 0.01 },
+  jkm: { employer: 0.003 }
+} as const
+
+export const JKK_RATES: Record<JkkRiskClass, number> = {
+  very_low: 0.0024,
+  low: 0.0054,
+  medium: 0.0089,
+  high: 0.0127,
+  very_high: 0.0174
+}
+
+/** Monthly hours the hourly overtime wage is based on (1/173 rule) */
+export const OVERTIME_HOURS_DIVISOR = 173
+
+/** Working days used to turn a daily wage into a monthly wage */
+export const MONTHLY_WORKING_DAYS: Record<WorkWeek, number> = {
+  5: 21,
+  6: 25
+}
+
+interface OvertimeTier {
+  hours: number // hours covered by this tier, Infinity for the rest
+  multiplier: number
+}
+
+const WORKDAY_OVERTIME: OvertimeTier[] = [
+  { hours: 1, multiplier: 1.5 },
+  { hours: Infinity, multiplier: 2 }
+]
+
+const HOLIDAY_OVERTIME: Record<WorkWeek, OvertimeTier[]> = {
+  5: [
+    { hours: 8, multiplier: 2 },
+    { hours: 1, multiplier: 3 },
+    { hours: Infinity, multiplier: 4 }
+  ],
+  6: [
+    { hours: 7, multiplier: 2 },
+    { hours: 1, multiplier: 3 },
+    { hours: Infinity, multiplier: 4 }
+  ]
+}
+
+export const PTKP_AMOUNTS: Record<PtkpStatus, number> = {
+  'TK/0': 54_000_000,
+  'TK/1': 58_500_000,
+  'TK/2': 63_000_000,
+  'TK/3': 67_500_000,
+  'K/0': 58_500_000,
+  'K/1': 63_000_000,
+  'K/2': 67_500_000,
+  'K/3': 72_000_000
+}
+
+const TER_CATEGORIES: Record<PtkpStatus, TerCategory> = {
+  'TK/0': 'A',
+  'TK/1': 'A',
+  'K/0': 'A',
+  'TK/2': 'B',
+  'TK/3': 'B',
+  'K/1': 'B',
+  'K/2': 'B',
+  'K/3': 'C'
+}
+
+/** [upper bound of monthly gross, rate %]; the last bracket has no bound */
+type TerTable = Array<[number, number]>
+
+const TER_RATES: Record<TerCategory, TerTable> = {
+  A: [
+    [5_400_000, 0], [5_650_000, 0.25], [5_950_000, 0.5], [6_300_000, 0.75],
+    [6_750_000, 1], [7_500_000, 1.25], [8_550_000, 1.5], [9_650_000, 1.75],
+    [10_050_000, 2], [10_350_000, 2.25], [10_700_000, 2.5], [11_050_000, 3],
+    [11_600_000, 3.5], [12_500_000, 4], [13_750_000, 5], [15_100_000, 6],
+    [16_950_000, 7], [19_750_000, 8], [24_150_000, 9], [26_450_000, 10],
+    [28_000_000, 11], [30_050_000, 12], [32_400_000, 13], [35_400_000, 14],
+    [39_100_000, 15], [43_850_000, 16], [47_800_000, 17], [51_400_000, 18],
+    [56_300_000, 19], [62_200_000, 20], [68_600_000, 21], [77_500_000, 22],
+    [89_000_000, 23], [103_000_000, 24], [125_000_000, 25], [157_000_000, 26],
+    [206_000_000, 27], [337_000_000, 28], [454_000_000, 29], [550_000_000, 30],
+    [695_000_000, 31], [910_000_000, 32], [1_400_000_000, 33], [Infinity, 34]
+  ],
+  B: [
+    [6_200_000, 0], [6_500_000, 0.25], [6_850_000, 0.5], [7_300_000, 0.75],
+    [9_200_000, 1], [10_750_000, 1.5], [11_250_000, 2], [11_600_000, 2.5],
+    [12_600_000, 3], [13_600_000, 4], [14_950_000, 5], [16_400_000, 6],
+    [18_450_000, 7], [21_850_000, 8], [26_000_000, 9], [27_700_000, 10],
+    [29_350_000, 11], [31_450_000, 12], [33_950_000, 13], [37_100_000, 14],
+    [41_100_000, 15], [45_800_000, 16], [49_500_000, 17], [53_800_000, 18],
+    [58_500_000, 19], [64_000_000, 20], [71_000_000, 21], [80_000_000, 22],
+    [93_000_000, 23], [109_000_000, 24], [129_000_000, 25], [163_000_000, 26],
+    [211_000_000, 27], [374_000_000, 28], [459_000_000, 29], [555_000_000, 30],
+    [704_000_000, 31], [957_000_000, 32], [1_405_000_000, 33], [Infinity, 34]
+  ],
+  C: [
+    [6_600_000, 0], [6_950_000, 0.25], [7_350_000, 0.5], [7_800_000, 0.75],
+    [8_850_000, 1], [9_800_000, 1.25], [10_950_000, 1.5], [11_200_000, 1.75],
+    [12_050_000, 2], [12_950_000, 3], [14_150_000, 4], [15_550_000, 5],
+    [17_050_000, 6], [19_500_000, 7], [22_700_000, 8], [26_600_000, 9],
+    [28_100_000, 10], [30_100_000, 11], [32_600_000, 12], [35_400_000, 13],
+    [38_900_000, 14], [43_000_000, 15], [47_400_000, 16], [51_200_000, 17],
+    [55_800_000, 18], [60_400_000, 19], [66_700_000, 20], [74_500_000, 21],
+    [83_200_000, 22], [95_600_000, 23], [110_000_000, 24], [134_000_000, 25],
+    [169_000_000, 26], [221_000_000, 27], [390_000_000, 28], [463_000_000, 29],
+    [561_000_000, 30], [709_000_000, 31], [965_000_000, 32], [1_419_000_000, 33],
+    [Infinity, 34]
+  ]
+}
+
+/** Pasal 17 progressive brackets (UU HPP): [upper bound of PKP, rate] */
+const PASAL_17_BRACKETS: Array<[number, number]> = [
+  [60_000_000, 0.05],
+  [250_000_000, 0.15],
+  [500_000_000, 0.25],
+  [5_000_000_000, 0.3],
+  [Infinity, 0.35]
+]
+
+/** Biaya jabatan: 5% of gross, at most Rp 500.000 per month worked */
+const OCCUPATIONAL_COST_RATE = 0.05
+const OCCUPATIONAL_COST_MONTHLY_CAP = 500_000
+
+/** Withholding without an NPWP is 20% higher */
+const NO_NPWP_SURCHARGE = 1.2
+
+// ===========================================
+// OVERTIME
+// ===========================================
+
+/**
+ * Monthly wage an employee's overtime and BPJS contributions are based on
+ */
+export function getMonthlyWage(
+  employee: Pick<PayrollEmployee, 'salaryType' | 'salaryAmount'>,
+  workWeek: WorkWeek = DEFAULT_PAYROLL_SETTINGS.workWeek
+): number {
+  switch (employee.salaryType) {
+    case 'daily':
+      return employee.salaryAmount * MONTHLY_WORKING_DAYS[workWeek]
+    case 'hourly':
+      return employee.salaryAmount * OVERTIME_HOURS_DIVISOR
+    default:
+      return employee.salaryAmount
+  }
+}
+
+/**
+ * Hourly overtime wage: 1/173 of the monthly wage, or the hourly rate itself
+ */
+export function getOvertimeHourlyWage(
+  employee: Pick<PayrollEmployee, 'salaryType' | 'salaryAmount'>,
+  workWeek: WorkWeek = DEFAULT_PAYROLL_SETTINGS.workWeek
+): number {
+  if (employee.salaryType === 'hourly') return employee.salaryAmount
+  return getMonthlyWage(employee, workWeek) / OVERTIME_HOURS_DIVISOR
+}
+
+/**
+ * Weighted hours for one day of overtime, e.g. 3 workday hours = 1.5 + 2 + 2
+ */
+export function getOvertimeMultiplierHours(
+  hours: number,
+  dayType: OvertimeDayType,
+  workWeek: WorkWeek = DEFAULT_PAYROLL_SETTINGS.workWeek
+): number {
+  const tiers = dayType === 'holiday' ? HOLIDAY_OVERTIME[workWeek] : WORKDAY_OVERTIME
+  let remaining = Math.max(0, hours)
+  let weighted = 0
+
+  for (const tier of tiers) {
+    if (remaining <= 0) break
+    const inTier = Math.min(remaining, tier.hours)
+    weighted += inTier * tier.multiplier
+    remaining -= inTier
+  }
+
+  return weighted
+}
+
+/**
+ * Overtime pay for a period at Depnaker multipliers
+ */
+export function calculateOvertimePay(
+  employee: Pick<PayrollEmployee, 'salaryType' | 'salaryAmount'>,
+  days: OvertimeDay[],
+  workWeek: WorkWeek = DEFAULT_PAYROLL_SETTINGS.workWeek
+): OvertimeBreakdown {
+  const hourlyWage = getOvertimeHourlyWage(employee, workWeek)
+  const paidDays = days
+    .filter(day => day.hours > 0)
+    .map(day => ({
+      ...day,
+      pay: Math.round(hourlyWage * getOvertimeMultiplierHours(day.hours, day.dayType, workWeek))
+    }))
+
+  return {
+    hours: roundHours(paidDays.reduce((sum, day) => sum + day.hours, 0)),
+    hourlyWage: Math.round(hourlyWage),
+    pay: paidDays.reduce((sum, day) => sum + day.pay, 0),
+    days: paidDays
+  }
+}
+
+// ===========================================
+// BPJS
+// ===========================================
+
+/**
+ * BPJS Kesehatan and Ketenagakerjaan contributions on a monthly wage
+ */
+export function calculateBpjsContributions(
+  wage: number,
+  employee: Pick<PayrollEmployee, 'bpjsKesehatan' | 'bpjsKetenagakerjaan'>,
+  settings: PayrollSettings = DEFAULT_PAYROLL_SETTINGS
+): { employee: PayrollLineItem[]; employer: PayrollLineItem[] } {
+  const employeeLines: PayrollLineItem[] = []
+  const employerLines: PayrollLineItem[] = []
+  const base = Math.max(0, wage)
+
+  if (employee.bpjsKesehatan) {
+    const kesehatanBase = Math.min(base, settings.bpjsKesehatanWageCap)
+    employeeLines.push({
+      code: 'bpjs_kesehatan',
+      label: 'BPJS Kesehatan (1%)',
+      amount: Math.round(kesehatanBase * BPJS_RATES.kesehatan.employee)
+    })
+    employerLines.push({
+      code: 'bpjs_kesehatan',
+      label: 'BPJS Kesehatan (4%)',
+      amount: Math.round(kesehatanBase * BPJS_RATES.kesehatan.employer)
+    })
+  }
+
+  if (employee.bpjsKetenagakerjaan) {
+    const jpBase = Math.min(base, settings.jpWageCap)
+    const jkkRate = JKK_RATES[settings.jkkRiskClass]
+
+    employeeLines.push(
+      { code: 'bpjs_jht', label: 'BPJS JHT (2%)', amount: Math.round(base * BPJS_RATES.jht.employee) },
+      { code: 'bpjs_jp', label: 'BPJS JP (1%)', amount: Math.round(jpBase * BPJS_RATES.jp.employee) }
+    )
+    employerLines.push(
+      { code: 'bpjs_jht', label: 'BPJS JHT (3,7%)', amount: Math.round(base * BPJS_RATES.jht.employer) },
+      { code: 'bpjs_jp', label: 'BPJS JP (2%)', amount: Math.round(jpBase * BPJS_RATES.jp.employer) },
+      { code: 'bpjs_jkk', label: `BPJS JKK (${formatPercent(jkkRate * 100)})`, amount: Math.round(base * jkkRate) },
+      { code: 'bpjs_jkm', label: 'BPJS JKM (0,3%)', amount: Math.round(base * BPJS_RATES.jkm.employer) }
+    )
+  }
+
+  return { employee: employeeLines, employer: employerLines }
+}
+
+// ===========================================
+// PPH 21
+// ===========================================
+
+export function getTerCategory(status: PtkpStatus): TerCategory {
+  return TER_CATEGORIES[status] || 'A'
+}
+
+/**
+ * TER rate (percentage) for a month's gross income
+ */
+export function getTerRate(category: TerCategory, monthlyGross: number): number {
+  const bracket = TER_RATES[category].find(([upper]) => monthlyGross <= upper)
+  return bracket ? bracket[1] : 0
+}
+
+/**
+ * Monthly PPh 21 withholding with the TER rates
+ */
+export function calculateTerWithholding(
+  monthlyGross: number,
+  status: PtkpStatus,
+  hasNpwp: boolean = true
+): { category: TerCategory; rate: number; amount: number } {
+  const category = getTerCategory(status)
+  const rate = getTerRate(category, monthlyGross)
+  const amount = Math.floor(monthlyGross * rate / 100 * (hasNpwp ? 1 : NO_NPWP_SURCHARGE))
+
+  return { category, rate, amount }
+}
+
+/**
+ * Pasal 17 progressive tax on annual taxable income (PKP)
+ */
+export function calculatePasal17Tax(taxableIncome: number): number {
+  let remaining = Math.max(0, taxableIncome)
+  let lower = 0
+  let tax = 0
+
+  for (const [upper, rate] of PASAL_17_BRACKETS) {
+    if (remaining <= 0) break
+    const inBracket = Math.min(remaining, upper - lower)
+    tax += inBracket * rate
+    remaining -= inBracket
+    lower = upper
+  }
+
+  return Math.floor(tax)
+}
+
+/**
+ * Annual PPh 21 for the final tax period, returning what is still owed
+ * after the TER withholding of the earlier months (negative = refund)
+ */
+export function calculateAnnualPph21(
+  entries: Array<Pick<PayrollHistoryEntry, 'taxableGross' | 'pensionContributions'>>,
+  withheld: number,
+  status: PtkpStatus,
+  hasNpwp: boolean = true
+): NonNullable<Pph21Breakdown['annual']> & { amount: number } {
+  const gross = entries.reduce((sum, entry) => sum + entry.taxableGross, 0)
+  const pensionContributions = entries.reduce((sum, entry) => sum + entry.pensionContributions, 0)
+  const occupationalCost = Math.min(
+    Math.round(gross * OCCUPATIONAL_COST_RATE),
+    OCCUPATIONAL_COST_MONTHLY_CAP * entries.length
+  )
+  const net = Math.max(0, gross - occupationalCost - pensionContributions)
+  const ptkp = PTKP_AMOUNTS[status] || PTKP_AMOUNTS['TK/0']
+  const taxableIncome = Math.floor(Math.max(0, net - ptkp) / 1000) * 1000
+  const tax = Math.floor(calculatePasal17Tax(taxableIncome) * (hasNpwp ? 1 : NO_NPWP_SURCHARGE))
+
+  return {
+    gross,
+    occupationalCost,
+    pensionContributions,
+    net,
+    ptkp,
+    taxableIncome,
+    tax,
+    withheld,
+    amount: tax - withheld
+  }
+}
+
+// ===========================================
+// PAYROLL
+// ===========================================
+
+/**
+ * Calculate one month of payroll with its line-item breakdown
+ */
+export function calculatePayroll(input: PayrollInput): PayrollBreakdown {
+  const settings: PayrollSettings = { ...DEFAULT_PAYROLL_SETTINGS, ...input.settings }
+  const { employee } = input
+
+  // Earnings
+  const basicSalary = Math.round(
+    employee.salaryType === 'daily'
+      ? employee.salaryAmount * (input.daysWorked || 0)
+      : employee.salaryType === 'hourly'
+      ? employee.salaryAmount * (input.hoursWorked || 0)
+      : employee.salaryAmount
+  )
+  const allowances = Math.round(input.allowances || 0)
+  const bonus = Math.round(input.bonus || 0)
+  const overtime = calculateOvertimePay(employee, input.overtime || [], settings.workWeek)
+
+  const earnings: PayrollLineItem[] = [
+    { code: 'basic_salary', label: 'Gaji Pokok', amount: basicSalary, note: basicSalaryNote(input) }
+  ]
+  if (allowances > 0) earnings.push({ code: 'allowances', label: 'Tunjangan', amount: allowances })
+  if (overtime.pay > 0) {
+    earnings.push({ code: 'overtime', label: 'Uang Lembur', amount: overtime.pay, note: `${overtime.hours} jam` })
+  }
+  if (bonus > 0) earnings.push({ code: 'bonus', label: 'Bonus', amount: bonus })
+
+  // BPJS on the wage (basic + fixed allowances), overtime and bonus excluded
+  const bpjs = calculateBpjsContributions(basicSalary + allowances, employee, settings)
+  const bpjsEmployee = sumLines(bpjs.employee)
+  const pensionContributions = sumLines(bpjs.employee.filter(line => line.code === 'bpjs_jht' || line.code === 'bpjs_jp'))
+
+  // Employer-paid health and accident/death premiums are taxable income
+  const taxableGross = sumLines(earnings) + sumLines(
+    bpjs.employer.filter(line => ['bpjs_kesehatan', 'bpjs_jkk', 'bpjs_jkm'].includes(line.code))
+  )
+
+  const pph21 = calculatePph21(input, taxableGross, pensionContributions)
+
+  const deductions: PayrollLineItem[] = [
+    ...bpjs.employee,
+    ...(input.deductions || []).filter(line => line.amount > 0).map(line => ({ ...line, amount: Math.round(line.amount) }))
+  ]
+
+  if (pph21.amount > 0) {
+    deductions.push({
+      code: 'pph21',
+      label: pph21.method === 'annual' ? 'PPh 21 (penyesuaian tahunan)' : `PPh 21 (TER ${pph21.category} ${formatPercent(pph21.rate)})`,
+      amount: pph21.amount
+    })
+  } else if (pph21.amount < 0) {
+    earnings.push({ code: 'pph21_refund', label: 'Pengembalian Kelebihan PPh 21', amount: -pph21.amount })
+  }
+
+  const grossSalary = sumLines(earnings)
+  const totalDeductions = sumLines(deductions)
+  const employerContributions = bpjs.employer.filter(line => line.amount > 0)
+
+  return {
+    period: { month: input.month, year: input.year },
+    earnings,
+    deductions,
+    employerContributions,
+    overtime,
+    pph21,
+    basicSalary,
+    grossSalary,
+    bpjsEmployee,
+    totalDeductions,
+    netSalary: grossSalary - totalDeductions,
+    employerCost: grossSalary + sumLines(employerContributions)
+  }
+}
+
+function calculatePph21(input: PayrollInput, taxableGross: number, pensionContributions: number): Pph21Breakdown {
+  const { employee } = input
+  const category = getTerCategory(employee.ptkpStatus)
+
+  if (input.month === 12 || input.finalPeriod) {
+    const history = (input.history || []).filter(entry => entry.month < input.month)
+    const withheld = history.reduce((sum, entry) => sum + entry.pph21, 0)
+    const { amount, ...annual } = calculateAnnualPph21(
+      [...history, { taxableGross, pensionContributions }],
+      withheld,
+      employee.ptkpStatus,
+      employee.hasNpwp
+    )
+
+    return { method: 'annual', category, rate: 0, taxableGross, pensionContributions, amount, annual }
+  }
+
+  const ter = calculateTerWithholding(taxableGross, employee.ptkpStatus, employee.hasNpwp)
+  return {
+    method: 'ter',
+    category: ter.category,
+    rate: ter.rate,
+    taxableGross,
+    pensionContributions,
+    amount: ter.amount
+  }
+}
+
+// ===========================================
+// HELPERS
+// ===========================================
+
+function basicSalaryNote(input: PayrollInput): string | undefined {
+  if (input.employee.salaryType === 'daily') return `${input.daysWorked || 0} hari`
+  if (input.employee.salaryType === 'hourly') return `${roundHours(input.hoursWorked || 0)} jam`
+  return undefined
+}
+
+function sumLines(lines: PayrollLineItem[]): number {
+  return lines.reduce((sum, line) => sum + line.amount, 0)
+}
+
+function roundHours(hours: number): number {
+  return Math.round(hours * 100) / 100
+}
+
+function formatPercent(value: number): string {
+  return `${Number(value.toFixed(2)).toString().replace('.', ',')}%`
+}
@@ -0,0 +1,326 @@
+/**
+ * Profit & Loss
+ *
+ * Builds the profit & loss statement for a period from raw rows: completed
+ * orders for sales, ingredient usage and waste from `stock_movements` for
+ * cost of goods sold, `payroll` for labour and `daily_expenses` for operating
+ * expenses. PPN collected on orders is owed to the tax office, so it is not
+ * revenue. Used by the owner dashboard and the monthly report of the
+ * report-generation function, which each load the rows themselves.
+ */
+
+// ===========================================
+// TYPES
+// ===========================================
+
+export interface ProfitLossOrder {
+  subtotal: number | string | null
+  discount_amount: number | string | null
+  service_charge: number | string | null
+  tax_amount: number | string | null
+}
+
+export interface ProfitLossMovement {
+  movement_type: string // usage or waste
+  quantity: number | string
+  unit_cost: number | string | null
+  total_cost: number | string | null
+  ingredients?: {
+    unit_cost: number | string | null
+    average_cost: number | string | null
+  } | null
+}
+
+export interface ProfitLossPayroll {
+  period_start: string
+  period_end: string
+  gross_salary: number | string | null
+  employer_contributions: number | string | null
+}
+
+export interface ProfitLossExpense {
+  category_id: string
+  amount: number | string
+}
+
+export interface ProfitLossCategory {
+  id: string
+  name: string
+  budget_amount: number | string | null // monthly
+  is_active: boolean
+}
+
+export interface ProfitLossInput {
+  start_date: string // YYYY-MM-DD, inclusive
+  end_date: string
+  orders: ProfitLossOrder[]
+  movements: ProfitLossMovement[]
+  payroll: ProfitLossPayroll[]
+  expenses: ProfitLossExpense[]
+  categories: ProfitLossCategory[]
+}
+
+export interface SalesSummary {
+  order_count: number
+  gross_sales: number
+  discounts: number
+  net_sales: number
+  service_charge: number
+  tax_collected: number
+}
+
+export interface CostOfGoodsSold {
+  ingredients: number
+  waste: number
+  total: number
+}
+
+export type BudgetStatus = 'no_budget' | 'under' | 'near' | 'over'
+
+export interface ExpenseCategoryLine {
+  category_id: string
+  name: string
+  amount: number
+  budget_amount: number | null // for the period
+  variance: number | null // budget - amount, negative when over
+  used_percentage: number | null
+  status: BudgetStatus
+}
+
+export interface ProfitLossStatement {
+  period: { start_date: string; end_date: string }
+  sales: SalesSummary
+  revenue: number // net sales + service charge
+  cost_of_goods_sold: CostOfGoodsSold
+  gross_profit: number
+  gross_margin_percentage: number
+  payroll: number
+  operating_expenses: ExpenseCategoryLine[]
+  total_operating_expenses: number
+  total_costs: number // COGS + payroll + operating expenses
+  net_profit: number
+  net_margin_percentage: number
+}
+
+// ===========================================
+// CONSTANTS
+// ===========================================
+
+// Share of the budget used from which a category is flagged as close to it
+export const BUDGET_WARNING_PERCENTAGE = 90
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+// ===========================================
+// PERIODS
+// ===========================================
+
+const toNumber = (value: number | string | null | undefined) => Number(value) || 0
+
+const round = (value: number) => Math.round(value * 100) / 100
+
+const parseDate = (date: string) => Date.parse(`${date.slice(0, 10)}T00:00:00Z`)
+
+// Days from start to end, both included
+const daysBetween = (start: number, end: number) => Math.max(0, Math.round((end - start) / DAY_MS) + 1)
+
+const toDateString = (time: number) => new Date(time).toISOString().slice(0, 10)
+
+/**
+ * First and last day of a month (1-12)
+ */
+export function monthPeriod(month: number, year: number): { start_date: string; end_date: string } {
+  return {
+    start_date: toDateString(Date.UTC(year, month - 1, 1)),
+    end_date: toDateString(Date.UTC(year, month, 0))
+  }
+}
+
+/**
+ * Share of the source period that falls inside the target period, by days
+ */
+function overlapShare(sourceStart: string, sourceEnd: string, targetStart: string, targetEnd: string): number {
+  const start = Math.max(parseDate(sourceStart), parseDate(targetStart))
+  const end = Math.min(parseDate(sourceEnd), parseDate(targetEnd))
+  const sourceDays = daysBetween(parseDate(sourceStart), parseDate(sourceEnd))
+
+  return sourceDays > 0 ? daysBetween(start, end) / sourceDays : 0
+}
+
+/**
+ * How many months the period spans, counting partial months by days, e.g.
+ * a full month is 1 and the first half of June is 0.5
+ */
+export function monthsInPeriod(startDate: string, endDate: string): number {
+  let months = 0
+  const end = new Date(parseDate(endDate))
+  let cursor = new Date(parseDate(startDate))
+
+  while (cursor.getTime() <= end.getTime()) {
+    const month = monthPeriod(cursor.getUTCMonth() + 1, cursor.getUTCFullYear())
+    months += overlapShare(month.start_date, month.end_date, startDate, endDate)
+    cursor = new Date(Date.UTC(cursor.getUTCFullYear(), cursor.getUTCMonth() + 1, 1))
+  }
+
+  return months
+}
+
+// ===========================================
+// LINES
+// ===========================================
+
+export function summarizeSales(orders: ProfitLossOrder[]): SalesSummary {
+  let grossSales = 0
+  let discounts = 0
+  let serviceCharge = 0
+  let taxCollected = 0
+
+  for (const order of orders) {
+    grossSales += toNumber(order.subtotal)
+    discounts += toNumber(order.discount_amount)
+    serviceCharge += toNumber(order.service_charge)
+    taxCollected += toNumber(order.tax_amount)
+  }
+
+  return {
+    order_count: orders.length,
+    gross_sales: round(grossSales),
+    discounts: round(discounts),
+    net_sales: round(grossSales - discounts),
+    service_charge: round(serviceCharge),
+    tax_collected: round(taxCollected)
+  }
+}
+
+/**
+ * Cost of a stock movement. Usage booked by the order trigger carries no
+ * cost, so it is valued at the ingredient's average (or standard) cost.
+ */
+export function movementCost(movement: ProfitLossMovement): number {
+  if (movement.total_cost !== null && movement.total_cost !== undefined) {
+    return Math.abs(toNumber(movement.total_cost))
+  }
+
+  const unitCost = movement.unit_cost ?? movement.ingredients?.average_cost ?? movement.ingredients?.unit_cost
+  return Math.abs(toNumber(movement.quantity)) * toNumber(unitCost)
+}
+
+export function summarizeCostOfGoodsSold(movements: ProfitLossMovement[]): CostOfGoodsSold {
+  let ingredients = 0
+  let waste = 0
+
+  for (const movement of movements) {
+    if (movement.movement_type === 'usage') {
+      ingredients += movementCost(movement)
+    } else if (movement.movement_type === 'waste') {
+      waste += movementCost(movement)
+    }
+  }
+
+  return {
+    ingredients: round(ingredients),
+    waste: round(waste),
+    total: round(ingredients + waste)
+  }
+}
+
+/**
+ * Employer cost of payroll (gross salary plus BPJS employer contributions),
+ * spread evenly over each payroll period's days
+ */
+export function summarizePayroll(payroll: ProfitLossPayroll[], startDate: string, endDate: string): number {
+  return round(payroll.reduce((total, record) => {
+    const cost = toNumber(record.gross_salary) + toNumber(record.employer_contributions)
+    return total + cost * overlapShare(record.period_start, record.period_end, startDate, endDate)
+  }, 0))
+}
+
+/**
+ * Compare spend against a budget; `budget` is null when none is set
+ */
+export function budgetStatus(amount: number, budget: number | null): Pick<ExpenseCategoryLine, 'variance' | 'used_percentage' | 'status'> {
+  if (budget === null) {
+    return { variance: null, used_percentage: null, status: 'no_budget' }
+  }
+
+  const usedPercentage = budget > 0 ? (amount / budget) * 100 : (amount > 0 ? Infinity : 0)
+
+  return {
+    variance: round(budget - amount),
+    used_percentage: Number.isFinite(usedPercentage) ? round(usedPercentage) : null,
+    status: usedPercentage > 100 ? 'over' : usedPercentage >= BUDGET_WARNING_PERCENTAGE ? 'near' : 'under'
+  }
+}
+
+/**
+ * Spend per category against its monthly budget, scaled to the period.
+ * Inactive categories are listed only when they have spend.
+ */
+export function summarizeExpenses(
+  expenses: ProfitLossExpense[],
+  categories: ProfitLossCategory[],
+  startDate: string,
+  endDate: string
+): ExpenseCategoryLine[] {
+  const spend = new Map<string, number>()
+  for (const expense of expenses) {
+    spend.set(expense.category_id, (spend.get(expense.category_id) || 0) + toNumber(expense.amount))
+  }
+
+  const months = monthsInPeriod(startDate, endDate)
+
+  return categories
+    .filter(category => category.is_active || spend.has(category.id))
+    .map(category => {
+      const amount = round(spend.get(category.id) || 0)
+      const budget = category.budget_amount === null || category.budget_amount === undefined
+        ? null
+        : round(toNumber(category.budget_amount) * months)
+
+      return {
+        category_id: category.id,
+        name: category.name,
+        amount,
+        budget_amount: budget,
+        ...budgetStatus(amount, budget)
+      }
+    })
+    .sort((a, b) => b.amount - a.amount || a.name.localeCompare(b.name))
+}
+
+// ===========================================
+// STATEMENT
+// ===========================================
+
+/**
+ * Profit & loss for the period
+ */
+export function buildProfitAndLoss(input: ProfitLossInput): ProfitLossStatement {
+  const sales = summarizeSales(input.orders)
+  const revenue = round(sales.net_sales + sales.service_charge)
+
+  const costOfGoodsSold = summarizeCostOfGoodsSold(input.movements)
+  const grossProfit = round(revenue - costOfGoodsSold.total)
+
+  const payroll = summarizePayroll(input.payroll, input.start_date, input.end_date)
+  const operatingExpenses = summarizeExpenses(input.expenses, input.categories, input.start_date, input.end_date)
+  const totalOperatingExpenses = round(operatingExpenses.reduce((total, line) => total + line.amount, 0))
+
+  const netProfit = round(grossProfit - payroll - totalOperatingExpenses)
+  const margin = (value: number) => revenue > 0 ? round((value / revenue) * 100) : 0
+
+  return {
+    period: { start_date: input.start_date, end_date: input.end_date },
+    sales,
+    revenue,
+    cost_of_goods_sold: costOfGoodsSold,
+    gross_profit: grossProfit,
+    gross_margin_percentage: margin(grossProfit),
+    payroll,
+    operating_expenses: operatingExpenses,
+    total_operating_expenses: totalOperatingExpenses,
+    total_costs: round(costOfGoodsSold.total + payroll + totalOperatingExpenses),
+    net_profit: netProfit,
+    net_margin_percentage: margin(netProfit)
+  }
+}
@@ -0,0 +1,104 @@
+import { allocateRupiah, splitBill, SplitBillError, type SplitOrderTotals } from './splitBill'
+
+const sum = (values: number[]) => values.reduce((total, value) => total + value, 0)
+
+const oddTotals: SplitOrderTotals = {
+  subtotal: 10001,
+  discount_amount: 0,
+  tax_amount: 1100,
+  service_charge: 501,
+  total_amount: 11602
+}
+
+describe('allocateRupiah', () => {
+  it('gives the leftover rupiah to the largest remainders', () => {
+    expect(allocateRupiah(100, [1, 1, 1])).toEqual([34, 33, 33])
+    expect(allocateRupiah(10, [1, 2])).toEqual([3, 7])
+  })
+
+  it('splits evenly when every weight is zero', () => {
+    expect(allocateRupiah(5, [0, 0])).toEqual([3, 2])
+  })
+
+  it('keeps the sign of negative amounts', () => {
+    expect(allocateRupiah(-7, [1, 1])).toEqual([-4, -3])
+  })
+})
+
+describe('splitBill', () => {
+  describe('equal', () => {
+    it('keeps shares of odd amounts within one rupiah', () => {
+      const shares = splitBill(oddTotals, [], 'equal', [{}, {}])
+
+      expect(shares.map(share => share.amount)).toEqual([5801, 5801])
+    })
+
+    it.each([2, 3, 7])('splits odd amounts %i ways within one rupiah', count => {
+      const totals: SplitOrderTotals = {
+        subtotal: 23457,
+        discount_amount: 1235,
+        tax_amount: 2445,
+        service_charge: 1111,
+        total_amount: 25778
+      }
+      const shares = splitBill(totals, [], 'equal', Array.from({ length: count }, () => ({})))
+      const amounts = shares.map(share => share.amount)
+
+      expect(Math.max(...amounts) - Math.min(...amounts)).toBeLessThanOrEqual(1)
+      expect(sum(amounts)).toBe(totals.total_amount)
+      expect(sum(shares.map(share => share.discount_amount))).toBe(totals.discount_amount)
+      expect(sum(shares.map(share => share.tax_amount))).toBe(totals.tax_amount)
+      expect(sum(shares.map(share => share.service_charge))).toBe(totals.service_charge)
+      expect(sum(shares.map(share => share.subtotal))).toBe(totals.subtotal)
+      for (const share of shares) {
+        expect(share.subtotal - share.discount_amount + share.tax_amount + share.service_charge).toBe(share.amount)
+      }
+    })
+
+    it('names payers without a name', () => {
+      const shares = splitBill(oddTotals, [], 'equal', [{ payer_name: ' Ani ' }, {}])
+
+      expect(shares.map(share => share.payer_name)).toEqual(['Ani', 'Tamu 2'])
+    })
+  })
+
+  describe('items', () => {
+    it('allocates tax and service charge by what each share ordered', () => {
+      const shares = splitBill(
+        { subtotal: 30000, discount_amount: 0, tax_amount: 3000, service_charge: 1500, total_amount: 34500 },
+        [
+          { order_item_id: 'coffee', quantity: 2, subtotal: 20000 },
+          { order_item_id: 'cake', quantity: 1, subtotal: 10000 }
+        ],
+        'items',
+        [
+          { items: [{ order_item_id: 'coffee', quantity: 2 }] },
+          { items: [{ order_item_id: 'cake', quantity: 1 }] }
+        ]
+      )
+
+      expect(shares.map(share => share.amount)).toEqual([23000, 11500])
+    })
+
+    it('rejects items left unassigned', () => {
+      expect(() => splitBill(
+        oddTotals,
+        [{ order_item_id: 'coffee', quantity: 2, subtotal: 10001 }],
+        'items',
+        [{ items: [{ order_item_id: 'coffee', quantity: 1 }] }, { items: [] }]
+      )).toThrow(SplitBillError)
+    })
+  })
+
+  describe('custom', () => {
+    it('rejects amounts that do not add up to the total', () => {
+      expect(() => splitBill(oddTotals, [], 'custom', [{ amount: 5000 }, { amount: 5000 }]))
+        .toThrow(expect.objectContaining({ code: 'AMOUNT_MISMATCH' }))
+    })
+  })
+
+  it('rejects fewer than two shares', () => {
+    expect(() => splitBill(oddTotals, [], 'equal', [{}]))
+      .toThrow(expect.objectContaining({ code: 'INVALID_SHARE_COUNT' }))
+  })
+})
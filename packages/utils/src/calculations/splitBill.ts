@@ -0,0 +1,266 @@
+/**
+ * Split Bill
+ *
+ * Divides an order into shares that are paid separately:
+ * - equal: every share pays the same (up to one rupiah); the total is split
+ *   once and each share's subtotal is derived from its amount
+ * - items: each share pays for the order items assigned to it; one item can
+ *   be shared by assigning part of its quantity (e.g. 0.5 each)
+ * - custom: each share pays an amount chosen by the payers
+ *
+ * Discount, tax (PPN) and service charge are allocated to the shares in
+ * proportion to what each share ordered, in whole rupiah, using the largest
+ * remainder method so the shares always add up to the order's amounts exactly.
+ */
+
+// ===========================================
+// TYPES
+// ===========================================
+
+export type SplitMethod = 'equal' | 'items' | 'custom'
+
+export interface SplitOrderTotals {
+  subtotal: number
+  discount_amount: number
+  tax_amount: number
+  service_charge: number
+  total_amount: number
+}
+
+export interface SplitOrderLine {
+  order_item_id: string
+  quantity: number
+  subtotal: number // line total including customizations
+}
+
+export interface SplitItemAssignment {
+  order_item_id: string
+  quantity: number
+}
+
+export interface SplitShareInput {
+  payer_name?: string | null
+  items?: SplitItemAssignment[] // 'items' split
+  amount?: number // 'custom' split, including tax and service charge
+}
+
+export interface BillShare {
+  share_number: number // 1-based
+  payer_name: string
+  subtotal: number
+  discount_amount: number
+  tax_amount: number
+  service_charge: number
+  amount: number
+  items: SplitItemAssignment[]
+}
+
+export class SplitBillError extends Error {
+  constructor(message: string, public code: string) {
+    super(message)
+    this.name = 'SplitBillError'
+  }
+}
+
+// ===========================================
+// CONSTANTS
+// ===========================================
+
+export const MIN_BILL_SHARES = 2
+export const MAX_BILL_SHARES = 20
+
+// Assigned quantities are compared with this tolerance (fractions like 1/3)
+const QUANTITY_EPSILON = 0.001
+
+// ===========================================
+// HELPERS
+// ===========================================
+
+const toRupiah = (amount: number) => Math.round(Number(amount) || 0)
+
+/**
+ * Split a rupiah amount in proportion to the weights. Every part is a whole
+ * rupiah and the parts always add up to the (rounded) amount: the rupiah left
+ * over after flooring go to the largest fractional remainders. Zero weights
+ * everywhere split evenly. Works for negative amounts as well.
+ */
+export function allocateRupiah(amount: number, weights: number[]): number[] {
+  if (weights.length === 0) return []
+
+  const total = toRupiah(amount)
+  const sign = total < 0 ? -1 : 1
+  const absolute = Math.abs(total)
+  const positive = weights.map(weight => Math.max(0, Number(weight) || 0))
+  const weightSum = positive.reduce((sum, weight) => sum + weight, 0)
+  const effective = weightSum > 0 ? positive : positive.map(() => 1)
+  const effectiveSum = weightSum > 0 ? weightSum : effective.length
+
+  const exact = effective.map(weight => (absolute * weight) / effectiveSum)
+  const parts = exact.map(Math.floor)
+  let leftover = absolute - parts.reduce((sum, part) => sum + part, 0)
+
+  // Largest remainder first; earlier shares win ties
+  const order = exact
+    .map((value, index) => ({ index, remainder: value - Math.floor(value) }))
+    .sort((a, b) => b.remainder - a.remainder || a.index - b.index)
+
+  for (const { index } of order) {
+    if (leftover <= 0) break
+    parts[index] += 1
+    leftover -= 1
+  }
+
+  return parts.map(part => part * sign)
+}
+
+const defaultPayerName = (index: number) => `Tamu ${index + 1}`
+
+/**
+ * Subtotal of every share for an items split; each line's subtotal is
+ * divided by the assigned quantities so shared items stay whole-rupiah
+ */
+function allocateItemSubtotals(lines: SplitOrderLine[], shares: SplitShareInput[]): number[] {
+  const subtotals = shares.map(() => 0)
+  const knownLines = new Set(lines.map(line => line.order_item_id))
+
+  shares.forEach(share => {
+    share.items?.forEach(item => {
+      if (!knownLines.has(item.order_item_id)) {
+        throw new SplitBillError('Item tidak ada di pesanan ini', 'UNKNOWN_ITEM')
+      }
+      if (!(Number(item.quantity) > 0)) {
+        throw new SplitBillError('Jumlah item harus lebih dari 0', 'INVALID_QUANTITY')
+      }
+    })
+  })
+
+  for (const line of lines) {
+    const assigned = shares.map(share =>
+      (share.items || [])
+        .filter(item => item.order_item_id === line.order_item_id)
+        .reduce((sum, item) => sum + Number(item.quantity), 0)
+    )
+    const assignedTotal = assigned.reduce((sum, quantity) => sum + quantity, 0)
+
+    if (Math.abs(assignedTotal - line.quantity) > QUANTITY_EPSILON) {
+      throw new SplitBillError(
+        assignedTotal < line.quantity
+          ? 'Semua item harus dibagi ke pembayar'
+          : 'Jumlah item yang dibagi melebihi pesanan',
+        assignedTotal < line.quantity ? 'UNASSIGNED_ITEMS' : 'OVER_ASSIGNED_ITEMS'
+      )
+    }
+
+    allocateRupiah(line.subtotal, assigned).forEach((part, index) => {
+      subtotals[index] += part
+    })
+  }
+
+  return subtotals
+}
+
+// ===========================================
+// SPLITTING
+// ===========================================
+
+/**
+ * Divide an order into bill shares
+ */
+export function splitBill(
+  totals: SplitOrderTotals,
+  lines: SplitOrderLine[],
+  method: SplitMethod,
+  shares: SplitShareInput[]
+): BillShare[] {
+  if (shares.length < MIN_BILL_SHARES || shares.length > MAX_BILL_SHARES) {
+    throw new SplitBillError(
+      `Tagihan dapat dibagi ke ${MIN_BILL_SHARES}-${MAX_BILL_SHARES} pembayar`,
+      'INVALID_SHARE_COUNT'
+    )
+  }
+
+  const discount = toRupiah(totals.discount_amount)
+  const tax = toRupiah(totals.tax_amount)
+  const service = toRupiah(totals.service_charge)
+  const total = toRupiah(totals.total_amount)
+
+  let subtotals: number[]
+  let weights: number[]
+  // Amounts settled up front, the subtotal of each share is derived from them
+  let fixedAmounts: number[] | null = null
+
+  switch (method) {
+    case 'equal':
+      // Splitting each component separately could leave shares a few rupiah apart
+      weights = shares.map(() => 1)
+      fixedAmounts = allocateRupiah(total, weights)
+      subtotals = [] // derived below
+      break
+
+    case 'items':
+      subtotals = allocateItemSubtotals(lines, shares)
+      weights = subtotals
+      break
+
+    case 'custom': {
+      const customAmounts = shares.map(share => toRupiah(share.amount ?? 0))
+      if (customAmounts.some(amount => amount <= 0)) {
+        throw new SplitBillError('Nominal setiap pembayar harus lebih dari 0', 'INVALID_AMOUNT')
+      }
+      const customTotal = customAmounts.reduce((sum, amount) => sum + amount, 0)
+      if (customTotal !== total) {
+        throw new SplitBillError(
+          `Total pembagian Rp ${customTotal.toLocaleString('id-ID')} tidak sama dengan tagihan Rp ${total.toLocaleString('id-ID')}`,
+          'AMOUNT_MISMATCH'
+        )
+      }
+      weights = customAmounts
+      fixedAmounts = customAmounts
+      subtotals = [] // derived below
+      break
+    }
+
+    default:
+      throw new SplitBillError(`Unknown split method: ${method}`, 'INVALID_METHOD')
+  }
+
+  const discounts = allocateRupiah(discount, weights)
+  const taxes = allocateRupiah(tax, weights)
+  const services = allocateRupiah(service, weights)
+
+  let amounts: number[]
+  if (fixedAmounts) {
+    // Equal or chosen by the payers; the subtotal is what remains of each one
+    amounts = fixedAmounts
+    subtotals = amounts.map((amount, index) => amount + discounts[index] - taxes[index] - services[index])
+  } else {
+    amounts = subtotals.map((share, index) => share - discounts[index] + taxes[index] + services[index])
+
+    // The order total can differ from its parts (e.g. the minimum order
+    // total); spread the difference the same way
+    const difference = total - amounts.reduce((sum, amount) => sum + amount, 0)
+    if (difference !== 0) {
+      allocateRupiah(difference, weights).forEach((part, index) => {
+        amounts[index] += part
+      })
+    }
+  }
+
+  if (amounts.some(amount => amount <= 0)) {
+    throw new SplitBillError('Setiap pembayar harus membayar lebih dari Rp 0', 'EMPTY_SHARE')
+  }
+
+  return shares.map((share, index) => ({
+    share_number: index + 1,
+    payer_name: share.payer_name?.trim() || defaultPayerName(index),
+    subtotal: subtotals[index],
+    discount_amount: discounts[index],
+    tax_amount: taxes[index],
+    service_charge: services[index],
+    amount: amounts[index],
+    items: method === 'items' ? (share.items || []).map(item => ({
+      order_item_id: item.order_item_id,
+      quantity: Number(item.quantity)
+    })) : []
+  }))
+}
@@ -0,0 +1,158 @@
+import {
+  netReversedQuantities,
+  planStockReversal,
+  splitOrderStockMovements,
+  type OrderStockMovement,
+  type RecordedCompensation,
+  type StockDeduction,
+  type WastedIngredient
+} from './stockReversal'
+
+/**
+ * In-memory stock the way the database keeps it: update_stock_on_movement
+ * adds every movement's quantity to current_stock, and the reversal adjusts
+ * the linked batch by the same quantity for each movement it inserts.
+ */
+function createStock(stock: Record<string, number>, batches: Record<string, number>) {
+  const movements: Array<RecordedCompensation & { ingredient_id: string; batch_id: string | null }> = []
+
+  return {
+    stock,
+    batches,
+    movements,
+    cancel(deductions: StockDeduction[], wasted: WastedIngredient[] = []) {
+      const plan = planStockReversal(deductions, movements, wasted)
+      for (const movement of plan.movements) {
+        movements.push(movement)
+        stock[movement.ingredient_id] += movement.quantity
+        if (movement.batch_id) batches[movement.batch_id] += movement.quantity
+      }
+      return plan
+    }
+  }
+}
+
+// Coffee beans deducted from two batches, milk from one, sugar without batches
+const deductions: StockDeduction[] = [
+  { id: 'm3', ingredient_id: 'beans', batch_id: 'beans-new', quantity: -20, unit_cost: 300 },
+  { id: 'm2', ingredient_id: 'beans', batch_id: 'beans-old', quantity: -10, unit_cost: 250 },
+  { id: 'm1', ingredient_id: 'milk', batch_id: 'milk-1', quantity: -200, unit_cost: 20 },
+  { id: 'm0', ingredient_id: 'sugar', batch_id: null, quantity: -15, unit_cost: null }
+]
+
+const afterDeduction = () => createStock(
+  { beans: 970, milk: 800, sugar: 485 },
+  { 'beans-new': 480, 'beans-old': 0, 'milk-1': 800 }
+)
+
+describe('planStockReversal', () => {
+  it('restores stock and batches of a cancelled order', () => {
+    const db = afterDeduction()
+    const plan = db.cancel(deductions)
+
+    expect(plan.already_reversed).toBe(false)
+    expect(plan.movements.every(movement => movement.movement_type === 'return')).toBe(true)
+    expect(plan.movements.every(movement => movement.quantity > 0)).toBe(true)
+    expect(db.stock).toEqual({ beans: 1000, milk: 1000, sugar: 500 })
+    expect(db.batches).toEqual({ 'beans-new': 500, 'beans-old': 10, 'milk-1': 1000 })
+  })
+
+  it('records waste as a negative movement taken from the newest batch first', () => {
+    const db = afterDeduction()
+    const plan = db.cancel(deductions, [
+      { ingredient_id: 'beans', quantity: 25, reason: 'Already brewed' },
+      { ingredient_id: 'milk', quantity: 50 }
+    ])
+
+    const waste = plan.movements.filter(movement => movement.movement_type === 'waste')
+    expect(waste).toEqual([
+      expect.objectContaining({ reverses_movement_id: 'm3', batch_id: 'beans-new', quantity: -20, total_cost: 6000, reason: 'Already brewed' }),
+      expect.objectContaining({ reverses_movement_id: 'm2', batch_id: 'beans-old', quantity: -5, total_cost: 1250 }),
+      expect.objectContaining({ reverses_movement_id: 'm1', batch_id: 'milk-1', quantity: -50, total_cost: 1000 })
+    ])
+
+    expect(db.stock).toEqual({ beans: 975, milk: 950, sugar: 500 })
+    expect(db.batches).toEqual({ 'beans-new': 480, 'beans-old': 5, 'milk-1': 950 })
+    expect(netReversedQuantities(db.movements)).toEqual(new Map([
+      ['m3', 0], ['m2', 5], ['m1', 150], ['m0', 15]
+    ]))
+  })
+
+  it('never wastes more than was deducted', () => {
+    const db = afterDeduction()
+    db.cancel(deductions, [{ ingredient_id: 'sugar', quantity: 40 }])
+
+    expect(db.stock.sugar).toBe(485)
+  })
+
+  it('plans nothing again once an order is reversed', () => {
+    const db = afterDeduction()
+    db.cancel(deductions, [{ ingredient_id: 'milk', quantity: 50 }])
+    const recorded = db.movements.length
+
+    const retry = db.cancel(deductions, [{ ingredient_id: 'milk', quantity: 50 }])
+
+    expect(retry.already_reversed).toBe(true)
+    expect(retry.movements).toEqual([])
+    expect(db.movements).toHaveLength(recorded)
+    expect(db.stock).toEqual({ beans: 1000, milk: 950, sugar: 500 })
+  })
+
+  it('finishes a reversal that stopped halfway', () => {
+    const db = afterDeduction()
+    db.cancel(deductions.slice(0, 2))
+
+    const plan = db.cancel(deductions)
+
+    expect(plan.movements.map(movement => movement.reverses_movement_id)).toEqual(['m1', 'm0'])
+    expect(db.stock).toEqual({ beans: 1000, milk: 1000, sugar: 500 })
+  })
+
+  it('treats an order without deductions as not reversed', () => {
+    expect(planStockReversal([], [])).toEqual({ already_reversed: false, movements: [] })
+  })
+})
+
+describe('splitOrderStockMovements', () => {
+  // Rows of one order as the database holds them: the usage rows of the
+  // deduct_ingredients_from_order trigger (no batch, no cost), the per-batch
+  // stock_out rows of deductIngredientFIFO, a return recorded by an earlier
+  // reversal attempt and an unrelated adjustment carrying the order id
+  const orderRows: OrderStockMovement[] = [
+    { id: 'ret-1', ingredient_id: 'beans', batch_id: 'beans-new', movement_type: 'return', quantity: 20, unit_cost: 300, reverses_movement_id: 'fifo-2' },
+    { id: 'fifo-2', ingredient_id: 'beans', batch_id: 'beans-new', movement_type: 'stock_out', quantity: -20, unit_cost: 300, reverses_movement_id: null },
+    { id: 'fifo-1', ingredient_id: 'beans', batch_id: 'beans-old', movement_type: 'stock_out', quantity: -10, unit_cost: 250, reverses_movement_id: null },
+    { id: 'usage-1', ingredient_id: 'sugar', batch_id: null, movement_type: 'usage', quantity: -15, unit_cost: null, reverses_movement_id: null },
+    { id: 'adj-1', ingredient_id: 'milk', batch_id: null, movement_type: 'adjustment', quantity: -5, unit_cost: null, reverses_movement_id: null }
+  ]
+
+  it('takes the trigger usage rows and the FIFO stock_out rows as deductions', () => {
+    const { deductions, compensations } = splitOrderStockMovements(orderRows)
+
+    expect(deductions.map(deduction => deduction.id)).toEqual(['fifo-2', 'fifo-1', 'usage-1'])
+    expect(compensations).toEqual([{ reverses_movement_id: 'fifo-2', movement_type: 'return', quantity: 20 }])
+  })
+
+  it('restores the FIFO batches not yet returned', () => {
+    const db = createStock({ beans: 990, sugar: 485 }, { 'beans-new': 500, 'beans-old': 0 })
+    const { deductions, compensations } = splitOrderStockMovements(orderRows)
+    db.movements.push(...compensations.map(compensation => ({ ...compensation, ingredient_id: 'beans', batch_id: 'beans-new' })))
+
+    const plan = db.cancel(deductions)
+
+    expect(plan.movements).toEqual([
+      expect.objectContaining({ reverses_movement_id: 'fifo-1', batch_id: 'beans-old', movement_type: 'return', quantity: 10, total_cost: 2500 }),
+      expect.objectContaining({ reverses_movement_id: 'usage-1', batch_id: null, movement_type: 'return', quantity: 15, total_cost: 0 })
+    ])
+    expect(db.stock).toEqual({ beans: 1000, sugar: 500 })
+    expect(db.batches).toEqual({ 'beans-new': 500, 'beans-old': 10 })
+  })
+
+  it('reads numeric columns returned as strings', () => {
+    const { deductions } = splitOrderStockMovements([
+      { ...orderRows[1], quantity: '-20.000' as unknown as number }
+    ])
+
+    expect(deductions[0].quantity).toBe(-20)
+  })
+})
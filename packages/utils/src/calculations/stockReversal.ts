@@ -0,0 +1,197 @@
+/**
+ * Stock Reversal
+ *
+ * Plans the compensating stock movements of a cancelled order. The order's
+ * deductions are the movements recorded with its order_id: 'usage' rows from
+ * the deduct_ingredients_from_order trigger (no batch) and 'stock_out' rows
+ * from the FIFO deduction of the stock-deduction function (one per batch),
+ * both with a negative quantity. Each gets at most:
+ * - one 'return' movement giving the whole deducted quantity back (positive)
+ * - one 'waste' movement taking out what the kitchen actually used up
+ *   (negative), absorbed by the newest deductions first
+ *
+ * The update_stock_on_movement trigger adds every movement's quantity to
+ * ingredients.current_stock, so the plan is all that needs inserting; a
+ * batch linked to a deduction is adjusted by the same signed quantity.
+ * Movements already recorded are never planned again, which keeps retries
+ * and concurrent reversals from restoring or wasting the same stock twice.
+ */
+
+// ===========================================
+// TYPES
+// ===========================================
+
+export type ReversalMovementType = 'return' | 'waste'
+
+/** A stock_movements row recorded with an order's order_id */
+export interface OrderStockMovement {
+  id: string
+  ingredient_id: string
+  batch_id: string | null
+  movement_type: string
+  quantity: number
+  unit_cost: number | null
+  reverses_movement_id: string | null
+}
+
+export interface StockDeduction {
+  id: string
+  ingredient_id: string
+  batch_id: string | null
+  quantity: number // as recorded: negative
+  unit_cost: number | null
+}
+
+export interface RecordedCompensation {
+  reverses_movement_id: string
+  movement_type: string
+  quantity: number
+}
+
+export interface WastedIngredient {
+  ingredient_id: string
+  quantity: number
+  reason?: string
+}
+
+export interface PlannedReversalMovement {
+  reverses_movement_id: string
+  ingredient_id: string
+  batch_id: string | null
+  movement_type: ReversalMovementType
+  quantity: number // positive for 'return', negative for 'waste'
+  unit_cost: number
+  total_cost: number
+  reason: string
+}
+
+export interface StockReversalPlan {
+  already_reversed: boolean
+  movements: PlannedReversalMovement[]
+}
+
+// ===========================================
+// PLANNING
+// ===========================================
+
+const DEFAULT_WASTE_REASON = 'Order cancelled during preparation'
+
+/** Movement types that take an order's ingredients out of stock */
+export const ORDER_DEDUCTION_MOVEMENT_TYPES = ['usage', 'stock_out']
+
+/**
+ * Split an order's movements into its deductions and the compensations
+ * already recorded against them
+ */
+export function splitOrderStockMovements(movements: OrderStockMovement[]): {
+  deductions: StockDeduction[]
+  compensations: RecordedCompensation[]
+} {
+  const deductions: StockDeduction[] = []
+  const compensations: RecordedCompensation[] = []
+
+  for (const movement of movements) {
+    if (movement.reverses_movement_id) {
+      compensations.push({
+        reverses_movement_id: movement.reverses_movement_id,
+        movement_type: movement.movement_type,
+        quantity: Number(movement.quantity)
+      })
+    } else if (ORDER_DEDUCTION_MOVEMENT_TYPES.includes(movement.movement_type)) {
+      deductions.push({
+        id: movement.id,
+        ingredient_id: movement.ingredient_id,
+        batch_id: movement.batch_id,
+        quantity: Number(movement.quantity),
+        unit_cost: movement.unit_cost
+      })
+    }
+  }
+
+  return { deductions, compensations }
+}
+
+/**
+ * Net quantity each deduction got back so far (returned less wasted)
+ */
+export function netReversedQuantities(compensations: RecordedCompensation[]): Map<string, number> {
+  const net = new Map<string, number>()
+  for (const compensation of compensations) {
+    net.set(
+      compensation.reverses_movement_id,
+      (net.get(compensation.reverses_movement_id) || 0) + Number(compensation.quantity)
+    )
+  }
+  return net
+}
+
+/**
+ * Movements still needed to reverse an order's deductions. Deductions are
+ * expected newest first, so waste is taken from the newest batches.
+ */
+export function planStockReversal(
+  deductions: StockDeduction[],
+  compensations: RecordedCompensation[],
+  wasted: WastedIngredient[] = []
+): StockReversalPlan {
+  const recorded = new Map<string, Set<string>>()
+  for (const compensation of compensations) {
+    const types = recorded.get(compensation.reverses_movement_id) || new Set<string>()
+    types.add(compensation.movement_type)
+    recorded.set(compensation.reverses_movement_id, types)
+  }
+
+  // Waste still to allocate per ingredient
+  const wasteRemaining = new Map<string, { quantity: number; reason?: string }>()
+  for (const item of wasted) {
+    const current = wasteRemaining.get(item.ingredient_id)
+    wasteRemaining.set(item.ingredient_id, {
+      quantity: (current?.quantity || 0) + Math.max(0, Number(item.quantity) || 0),
+      reason: item.reason || current?.reason
+    })
+  }
+
+  const movements: PlannedReversalMovement[] = []
+
+  for (const deduction of deductions) {
+    const deducted = Math.abs(Number(deduction.quantity))
+    const unitCost = Number(deduction.unit_cost) || 0
+    const types = recorded.get(deduction.id)
+
+    const base = {
+      reverses_movement_id: deduction.id,
+      ingredient_id: deduction.ingredient_id,
+      batch_id: deduction.batch_id,
+      unit_cost: unitCost
+    }
+
+    if (!types?.has('return') && deducted > 0) {
+      movements.push({
+        ...base,
+        movement_type: 'return',
+        quantity: deducted,
+        total_cost: deducted * unitCost,
+        reason: 'Order cancelled'
+      })
+    }
+
+    const waste = types?.has('waste') ? undefined : wasteRemaining.get(deduction.ingredient_id)
+    const wasteQuantity = waste ? Math.min(waste.quantity, deducted) : 0
+
+    if (waste && wasteQuantity > 0) {
+      waste.quantity -= wasteQuantity
+      movements.push({
+        ...base,
+        movement_type: 'waste',
+        quantity: -wasteQuantity,
+        total_cost: wasteQuantity * unitCost,
+        reason: waste.reason || DEFAULT_WASTE_REASON
+      })
+    }
+  }
+
+  return {
+    already_reversed: deductions.length > 0 && deductions.every(deduction => recorded.get(deduction.id)?.has('return')),
+    movements
+  }
+}
@@ -0,0 +1,41 @@
+import { renderReportCsv } from './csv'
+import type { ReportDocument } from './report'
+
+const REPORT: ReportDocument = {
+  title: 'Laporan Penjualan',
+  period: { start_date: '2026-10-01', end_date: '2026-10-31' },
+  cafe: { name: 'Kopi Senja' },
+  generated_at: '2026-10-19T08:30:00.000Z',
+  summary: [],
+  columns: [
+    { key: 'date', label: 'Tanggal', format: 'date' },
+    { key: 'item', label: 'Menu, ukuran', format: 'text' },
+    { key: 'revenue', label: 'Pendapatan', format: 'currency' }
+  ],
+  rows: [
+    { date: '2026-10-19', item: 'Kopi Susu "Gula Aren"', revenue: 216000 },
+    { date: '2026-10-20', item: 'Roti Bakar\nKeju', revenue: 1250.5 },
+    { date: null, item: '=HYPERLINK("http://example.com")', revenue: Number.NaN },
+    { date: '2026-10-21', item: '-50% promo' }
+  ]
+}
+
+describe('renderReportCsv', () => {
+  const csv = renderReportCsv(REPORT)
+
+  it('starts with a byte order mark and ends every record with CRLF', () => {
+    expect(csv.startsWith('\uFEFFTanggal,')).toBe(true)
+    expect(csv.endsWith('\r\n')).toBe(true)
+  })
+
+  it('writes raw values and quotes only what needs quoting', () => {
+    expect(csv.slice(1).split('\r\n')).toEqual([
+      'Tanggal,"Menu, ukuran",Pendapatan',
+      '2026-10-19,"Kopi Susu ""Gula Aren""",216000',
+      '2026-10-20,"Roti Bakar\nKeju",1250.5',
+      ',"\'=HYPERLINK(""http://example.com"")",',
+      "2026-10-21,'-50% promo,",
+      ''
+    ])
+  })
+})
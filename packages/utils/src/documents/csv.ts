@@ -0,0 +1,41 @@
+/**
+ * CSV Export
+ *
+ * RFC 4180 CSV of a report's table. Numbers are written unformatted with a
+ * "." decimal point and dates as YYYY-MM-DD, so they import as values
+ * rather than text. A UTF-8 byte order mark lets Excel detect the encoding.
+ */
+
+import type { ReportCell, ReportDocument } from './report'
+
+const BOM = '\uFEFF'
+
+// Spreadsheet apps run text starting with these as a formula
+const FORMULA_PREFIX = /^[=+\-@\t\r]/
+
+function escapeCell(value: ReportCell): string {
+  if (value === null || value === undefined) {
+    return ''
+  }
+
+  if (typeof value === 'number') {
+    return Number.isFinite(value) ? String(value) : ''
+  }
+
+  const text = FORMULA_PREFIX.test(value) ? `'${value}` : value
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text
+}
+
+/**
+ * Render the table of a report as CSV text
+ */
+export function renderReportCsv(document: ReportDocument): string {
+  const lines = [
+    document.columns.map(column => escapeCell(column.label)).join(','),
+    ...document.rows.map(row =>
+      document.columns.map(column => escapeCell(row[column.key] ?? null)).join(',')
+    )
+  ]
+
+  return BOM + lines.join('\r\n') + '\r\n'
+}
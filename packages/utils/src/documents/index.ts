@@ -0,0 +1,11 @@
+/**
+ * Document Export Index
+ *
+ * Central export for report documents and their CSV, XLSX and PDF renderers
+ */
+
+export * from './report'
+export * from './csv'
+export * from './xlsx'
+export * from './pdf'
+export * from './zip'
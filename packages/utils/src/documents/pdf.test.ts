@@ -0,0 +1,141 @@
+import { fitPdfText, PdfBuilder, pdfTextWidth, renderReportPdf } from './pdf'
+import type { ReportDocument } from './report'
+
+const REPORT: ReportDocument = {
+  title: 'Laporan Penjualan',
+  period: { start_date: '2026-10-01', end_date: '2026-10-31' },
+  cafe: { name: 'Kopi Senja (Braga)', address: 'Jl. Braga No. 7, Bandung', email: 'halo@kopisenja.id' },
+  generated_at: '2026-10-19T08:30:00.000Z',
+  generated_label: '19 Okt 2026 15:30 WIB',
+  summary: [
+    { label: 'Total Penjualan', value: 1250000, format: 'currency' },
+    { label: 'Pesanan', value: 42, format: 'number' }
+  ],
+  columns: [
+    { key: 'date', label: 'Tanggal', format: 'date' },
+    { key: 'item', label: 'Menu', format: 'text' },
+    { key: 'revenue', label: 'Pendapatan', format: 'currency' }
+  ],
+  // Enough rows for a few pages
+  rows: Array.from({ length: 120 }, (_, index) => ({
+    date: '2026-10-19',
+    item: index % 2 ? 'Café au lait — ukuran besar' : 'Kopi Susu (Gula Aren) \\ es',
+    revenue: 18000 * (index + 1)
+  })),
+  charts: [{
+    title: 'Penjualan per Hari',
+    labels: ['Sen', 'Sel', 'Rab'],
+    series: [{ name: 'Penjualan', values: [450000, 0, 800000] }],
+    format: 'currency'
+  }]
+}
+
+const latin1 = (bytes: Uint8Array) => Buffer.from(bytes).toString('latin1')
+
+/**
+ * Check the file structure a reader relies on: the startxref offset, the
+ * cross-reference table and its fixed-width entries pointing at each
+ * object, and each stream's /Length. Returns the objects by number.
+ */
+function readPdf(bytes: Uint8Array): Map<number, string> {
+  const file = latin1(bytes)
+
+  expect(file.startsWith('%PDF-1.4\n')).toBe(true)
+  expect(file.endsWith('%%EOF\n')).toBe(true)
+
+  const startxref = Number(/startxref\n(\d+)\n%%EOF\n$/.exec(file)![1])
+  expect(file.slice(startxref, startxref + 5)).toBe('xref\n')
+
+  const [, first, count] = /^xref\n(\d+) (\d+)\n/.exec(file.slice(startxref))!
+  expect(Number(first)).toBe(0)
+  const tableStart = file.indexOf('\n', file.indexOf('\n', startxref) + 1) + 1
+  const entries = Array.from({ length: Number(count) }, (_, id) => file.slice(tableStart + id * 20, tableStart + (id + 1) * 20))
+  expect(entries[0]).toBe('0000000000 65535 f \n')
+  expect(file.slice(tableStart + Number(count) * 20)).toMatch(new RegExp(`^trailer\\n<< /Size ${count} /Root 1 0 R >>\\n`))
+
+  const objects = new Map<number, string>()
+  for (let id = 1; id < entries.length; id++) {
+    expect(entries[id]).toMatch(/^\d{10} 00000 n \n$/)
+    const offset = Number(entries[id].slice(0, 10))
+    const header = `${id} 0 obj\n`
+    expect(file.slice(offset, offset + header.length)).toBe(header)
+
+    const end = file.indexOf('\nendobj\n', offset)
+    const body = file.slice(offset + header.length, end)
+    const stream = /^<< \/Length (\d+) >>\nstream\n/.exec(body)
+    if (stream) {
+      expect(body.slice(stream[0].length + Number(stream[1]))).toBe('\nendstream')
+    }
+    objects.set(id, body)
+  }
+
+  // No object is missing from the table
+  expect((file.match(/^\d+ 0 obj$/gm) || []).length).toBe(entries.length - 1)
+  return objects
+}
+
+describe('PdfBuilder', () => {
+  it('writes a readable file with one blank page when nothing is drawn', () => {
+    const objects = readPdf(new PdfBuilder().build())
+
+    expect(objects.get(2)).toBe('<< /Type /Pages /Kids [5 0 R] /Count 1 >>')
+    expect(objects.get(6)).toBe('<< /Length 0 >>\nstream\n\nendstream')
+  })
+
+  it('escapes string delimiters and reduces text to ASCII', () => {
+    const objects = readPdf(new PdfBuilder().text(40, 40, 'Kopi (Susu) \\ Café – 1½').build())
+
+    expect(objects.get(6)).toContain('(Kopi \\(Susu\\) \\\\ Cafe - 1')
+    expect(objects.get(6)).not.toMatch(/[^\x0a\x20-\x7e]/)
+  })
+
+  it('measures Helvetica and shortens text to fit', () => {
+    expect(pdfTextWidth('Kopi', 10)).toBeCloseTo(20.01)
+    expect(pdfTextWidth('Kopi', 10, true)).toBeCloseTo(22.22)
+
+    const fitted = fitPdfText('Kopi Susu Gula Aren ukuran besar', 60, 8)
+    expect(fitted.endsWith('...')).toBe(true)
+    expect(pdfTextWidth(fitted, 8)).toBeLessThanOrEqual(60)
+    expect(fitPdfText('Kopi', 60, 8)).toBe('Kopi')
+  })
+})
+
+describe('renderReportPdf', () => {
+  const objects = readPdf(renderReportPdf(REPORT))
+  const pageTree = objects.get(2)!
+  const pageIds = [...pageTree.matchAll(/(\d+) 0 R/g)].map(match => Number(match[1]))
+  const contents = pageIds.map(id => objects.get(Number(/\/Contents (\d+) 0 R/.exec(objects.get(id)!)![1]))!)
+
+  it('keeps the cross-reference offsets right across pages', () => {
+    expect(pageIds.length).toBeGreaterThan(2)
+    expect(pageTree).toContain(`/Count ${pageIds.length}`)
+    for (const id of pageIds) {
+      expect(objects.get(id)).toMatch(/^<< \/Type \/Page \/Parent 2 0 R \/MediaBox \[0 0 595\.28 841\.89\] /)
+    }
+  })
+
+  it('numbers every page', () => {
+    contents.forEach((content, index) => {
+      expect(content).toContain(`(Halaman ${index + 1} dari ${pageIds.length})`)
+    })
+  })
+
+  it('repeats the table header on each page', () => {
+    for (const content of contents.slice(1)) {
+      expect(content).toContain('(Pendapatan) Tj')
+    }
+  })
+
+  it('draws the header, summary and rows', () => {
+    expect(contents[0]).toContain('(Kopi Senja \\(Braga\\)) Tj')
+    expect(contents[0]).toContain('(Rp 1.250.000) Tj')
+    expect(contents.join('\n')).toContain('(Rp 2.160.000) Tj')
+  })
+
+  it('says so when the period has no data', () => {
+    const empty = readPdf(renderReportPdf({ ...REPORT, rows: [], charts: [] }))
+
+    expect(empty.get(2)).toContain('/Count 1')
+    expect(empty.get(6)).toContain('(Tidak ada data untuk periode ini) Tj')
+  })
+})
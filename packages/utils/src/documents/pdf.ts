@@ -0,0 +1,473 @@
+/**
+ * PDF Export
+ *
+ * Writes a report as an A4 PDF: cafe header, summary figures, bar charts
+ * drawn as vector graphics and the table, paginated with a repeated header
+ * and page numbers. Uses the standard Helvetica fonts, which every PDF
+ * reader ships, so no font files are embedded; text is reduced to ASCII
+ * the same way as for the thermal printers.
+ */
+
+import type { ReportChart, ReportColumn, ReportDocument } from './report'
+import { formatReportValue } from './report'
+import { formatDateRange } from '../formatters/date'
+import { formatNumberCompact } from '../formatters/number'
+import { toPrinterText } from '../printing/escpos'
+
+// ===========================================
+// CONSTANTS
+// ===========================================
+
+/** A4 portrait in points */
+export const PDF_PAGE = {
+  width: 595.28,
+  height: 841.89,
+  margin: 40
+} as const
+
+export type PdfColor = [number, number, number]
+
+const COLORS = {
+  text: [0.12, 0.12, 0.14] as PdfColor,
+  muted: [0.42, 0.45, 0.5] as PdfColor,
+  brand: [0.47, 0.29, 0.13] as PdfColor,
+  border: [0.82, 0.84, 0.86] as PdfColor,
+  panel: [0.96, 0.96, 0.97] as PdfColor,
+  header: [0.9, 0.91, 0.92] as PdfColor
+}
+
+const SERIES_COLORS: PdfColor[] = [
+  [0.71, 0.45, 0.2],
+  [0.23, 0.51, 0.96],
+  [0.06, 0.72, 0.51],
+  [0.94, 0.27, 0.27],
+  [0.55, 0.36, 0.96]
+]
+
+// Glyph widths (1/1000 em) of printable ASCII, from the Helvetica AFM files
+const HELVETICA_WIDTHS = [
+  278, 278, 355, 556, 556, 889, 667, 191, 333, 333, 389, 584, 278, 333, 278, 278,
+  556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 278, 278, 584, 584, 584, 556,
+  1015, 667, 667, 722, 722, 667, 611, 778, 722, 278, 500, 667, 556, 833, 722, 778,
+  667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 278, 278, 278, 469, 556,
+  333, 556, 556, 500, 556, 556, 278, 556, 556, 222, 222, 500, 222, 833, 556, 556,
+  556, 556, 333, 500, 278, 556, 500, 722, 500, 500, 500, 334, 260, 334, 584
+]
+
+const HELVETICA_BOLD_WIDTHS = [
+  278, 333, 474, 556, 556, 889, 722, 238, 333, 333, 389, 584, 278, 333, 278, 278,
+  556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 333, 333, 584, 584, 584, 611,
+  975, 722, 722, 722, 722, 667, 611, 778, 722, 278, 556, 722, 611, 833, 722, 778,
+  667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 333, 278, 333, 584, 556,
+  333, 556, 611, 556, 611, 556, 333, 611, 611, 278, 278, 556, 278, 889, 611, 611,
+  611, 611, 389, 556, 333, 611, 556, 778, 556, 556, 500, 389, 280, 389, 584
+]
+
+export interface PdfTextOptions {
+  size?: number
+  bold?: boolean
+  color?: PdfColor
+  align?: 'left' | 'center' | 'right'
+}
+
+// ===========================================
+// TEXT HELPERS
+// ===========================================
+
+const toPdfText = (text: string) => toPrinterText(text).replace(/\n/g, ' ')
+
+/**
+ * Width of a text in points
+ */
+export function pdfTextWidth(text: string, size: number, bold: boolean = false): number {
+  const widths = bold ? HELVETICA_BOLD_WIDTHS : HELVETICA_WIDTHS
+  let total = 0
+  for (const character of toPdfText(text)) {
+    total += widths[character.charCodeAt(0) - 32] ?? 556
+  }
+  return (total * size) / 1000
+}
+
+/**
+ * Shorten a text with "..." until it fits a width
+ */
+export function fitPdfText(text: string, width: number, size: number, bold: boolean = false): string {
+  const plain = toPdfText(text)
+  if (pdfTextWidth(plain, size, bold) <= width) {
+    return plain
+  }
+
+  let fitted = plain
+  while (fitted.length > 0 && pdfTextWidth(`${fitted}...`, size, bold) > width) {
+    fitted = fitted.slice(0, -1)
+  }
+  return fitted ? `${fitted.trimEnd()}...` : ''
+}
+
+const escapePdfString = (text: string) => text.replace(/([\\()])/g, '\\$1')
+
+const num = (value: number) => String(Math.round(value * 100) / 100)
+
+const colorOperands = (color: PdfColor) => color.map(num).join(' ')
+
+// ===========================================
+// BUILDER CLASS
+// ===========================================
+
+/**
+ * Collects drawing operations page by page and writes the PDF file.
+ * Coordinates are in points from the top-left corner of the page.
+ */
+export class PdfBuilder {
+  private pages: string[][] = []
+  private current = -1
+
+  get pageCount(): number {
+    return this.pages.length
+  }
+
+  addPage(): this {
+    this.pages.push([])
+    this.current = this.pages.length - 1
+    return this
+  }
+
+  /** Switch back to an earlier page, e.g. to add footers once the page count is known */
+  setPage(index: number): this {
+    this.current = index
+    return this
+  }
+
+  private draw(operations: string): this {
+    if (this.current < 0) {
+      this.addPage()
+    }
+    this.pages[this.current].push(operations)
+    return this
+  }
+
+  text(x: number, y: number, text: string, options: PdfTextOptions = {}): this {
+    const { size = 10, bold = false, color = COLORS.text, align = 'left' } = options
+    const plain = toPdfText(text)
+    const width = pdfTextWidth(plain, size, bold)
+    const left = align === 'right' ? x - width : align === 'center' ? x - width / 2 : x
+    // y is the top of the line; the baseline sits about 80% of the size below it
+    const baseline = PDF_PAGE.height - y - size * 0.8
+
+    return this.draw(
+      `BT /${bold ? 'F2' : 'F1'} ${num(size)} Tf ${colorOperands(color)} rg ${num(left)} ${num(baseline)} Td (${escapePdfString(plain)}) Tj ET`
+    )
+  }
+
+  rect(x: number, y: number, width: number, height: number, fill: PdfColor): this {
+    return this.draw(
+      `${colorOperands(fill)} rg ${num(x)} ${num(PDF_PAGE.height - y - height)} ${num(width)} ${num(height)} re f`
+    )
+  }
+
+  line(x1: number, y1: number, x2: number, y2: number, color: PdfColor = COLORS.border, width: number = 0.5): this {
+    return this.draw(
+      `${colorOperands(color)} RG ${num(width)} w ${num(x1)} ${num(PDF_PAGE.height - y1)} m ${num(x2)} ${num(PDF_PAGE.height - y2)} l S`
+    )
+  }
+
+  build(): Uint8Array {
+    if (this.pages.length === 0) {
+      this.addPage()
+    }
+
+    // Objects: 1 catalog, 2 page tree, 3-4 fonts, then a page and its content per page
+    const objects: string[] = []
+    const pageIds = this.pages.map((_, index) => 5 + index * 2)
+
+    objects[1] = '<< /Type /Catalog /Pages 2 0 R >>'
+    objects[2] = `<< /Type /Pages /Kids [${pageIds.map(id => `${id} 0 R`).join(' ')}] /Count ${pageIds.length} >>`
+    objects[3] = '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>'
+    objects[4] = '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>'
+
+    this.pages.forEach((operations, index) => {
+      const pageId = pageIds[index]
+      const content = operations.join('\n')
+      objects[pageId] = `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${PDF_PAGE.width} ${PDF_PAGE.height}] ` +
+        `/Resources << /Font << /F1 3 0 R /F2 4 0 R >> >> /Contents ${pageId + 1} 0 R >>`
+      objects[pageId + 1] = `<< /Length ${content.length} >>\nstream\n${content}\nendstream`
+    })
+
+    // Everything is ASCII, so string length equals byte length for the xref offsets
+    let output = '%PDF-1.4\n'
+    const offsets: number[] = []
+    for (let id = 1; id < objects.length; id++) {
+      offsets[id] = output.length
+      output += `${id} 0 obj\n${objects[id]}\nendobj\n`
+    }
+
+    const xrefOffset = output.length
+    output += `xref\n0 ${objects.length}\n0000000000 65535 f \n`
+    for (let id = 1; id < objects.length; id++) {
+      output += `${String(offsets[id]).padStart(10, '0')} 00000 n \n`
+    }
+    output += `trailer\n<< /Size ${objects.length} /Root 1 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`
+
+    return new TextEncoder().encode(output)
+  }
+}
+
+// ===========================================
+// REPORT LAYOUT
+// ===========================================
+
+const CONTENT_WIDTH = PDF_PAGE.width - PDF_PAGE.margin * 2
+const CONTENT_BOTTOM = PDF_PAGE.height - PDF_PAGE.margin - 20 // room for the footer
+const CHART_HEIGHT = 190
+const ROW_HEIGHT = 16
+
+const isNumeric = (column: ReportColumn) =>
+  column.format === 'number' || column.format === 'currency' || column.format === 'percentage'
+
+function drawHeader(pdf: PdfBuilder, document: ReportDocument): number {
+  const left = PDF_PAGE.margin
+  const right = PDF_PAGE.width - PDF_PAGE.margin
+  const { cafe } = document
+  let y = PDF_PAGE.margin
+
+  pdf.text(left, y, fitPdfText(cafe.name, CONTENT_WIDTH / 2, 16, true), { size: 16, bold: true, color: COLORS.brand })
+  pdf.text(right, y + 2, document.title, { size: 13, bold: true, align: 'right' })
+  y += 20
+
+  const contact = [cafe.address, [cafe.phone, cafe.email].filter(Boolean).join(' | ')].filter(Boolean) as string[]
+  contact.forEach((line, index) => {
+    pdf.text(left, y + index * 11, fitPdfText(line, CONTENT_WIDTH / 2, 8.5), { size: 8.5, color: COLORS.muted })
+  })
+
+  pdf.text(right, y, `Periode: ${formatDateRange(document.period.start_date, document.period.end_date)}`, {
+    size: 9,
+    align: 'right'
+  })
+  pdf.text(right, y + 12, `Dibuat: ${document.generated_label || document.generated_at}`, {
+    size: 8,
+    color: COLORS.muted,
+    align: 'right'
+  })
+
+  y += Math.max(contact.length * 11, 24) + 6
+  pdf.rect(left, y, CONTENT_WIDTH, 2, COLORS.brand)
+
+  return y + 16
+}
+
+function drawSummary(pdf: PdfBuilder, document: ReportDocument, top: number): number {
+  const perRow = 4
+  const gap = 8
+  const width = (CONTENT_WIDTH - gap * (perRow - 1)) / perRow
+  const height = 42
+  let y = top
+
+  document.summary.forEach((item, index) => {
+    const column = index % perRow
+    if (index > 0 && column === 0) {
+      y += height + gap
+    }
+    const x = PDF_PAGE.margin + column * (width + gap)
+
+    pdf.rect(x, y, width, height, COLORS.panel)
+    pdf.text(x + 8, y + 8, fitPdfText(item.label, width - 16, 8), { size: 8, color: COLORS.muted })
+    pdf.text(x + 8, y + 21, fitPdfText(formatReportValue(item.value, item.format), width - 16, 12, true), {
+      size: 12,
+      bold: true
+    })
+  })
+
+  return document.summary.length > 0 ? y + height + 18 : top
+}
+
+// A "nice" axis maximum: 1, 2, 2.5 or 5 times a power of ten
+function axisMaximum(value: number): number {
+  if (value <= 0) return 1
+  const magnitude = Math.pow(10, Math.floor(Math.log10(value)))
+  const step = [1, 2, 2.5, 5, 10].find(factor => factor * magnitude >= value) ?? 10
+  return step * magnitude
+}
+
+function drawChart(pdf: PdfBuilder, chart: ReportChart, top: number): number {
+  const left = PDF_PAGE.margin
+  pdf.text(left, top, chart.title, { size: 10.5, bold: true })
+
+  // Legend
+  let legendX = PDF_PAGE.width - PDF_PAGE.margin
+  for (let index = chart.series.length - 1; index >= 0; index--) {
+    const name = toPdfText(chart.series[index].name)
+    legendX -= pdfTextWidth(name, 8) + 4
+    pdf.text(legendX + 4, top + 1, name, { size: 8, color: COLORS.muted })
+    legendX -= 8
+    pdf.rect(legendX, top + 2, 7, 7, SERIES_COLORS[index % SERIES_COLORS.length])
+    legendX -= 10
+  }
+
+  const axisWidth = 48
+  const plotLeft = left + axisWidth
+  const plotTop = top + 20
+  const plotWidth = CONTENT_WIDTH - axisWidth
+  const plotHeight = CHART_HEIGHT - 60
+  const plotBottom = plotTop + plotHeight
+
+  const values = chart.series.flatMap(series => series.values)
+  const maximum = axisMaximum(Math.max(0, ...values))
+  const prefix = chart.format === 'currency' ? 'Rp ' : ''
+
+  // Gridlines with compact axis labels
+  const steps = 4
+  for (let step = 0; step <= steps; step++) {
+    const value = (maximum / steps) * step
+    const y = plotBottom - (plotHeight / steps) * step
+    pdf.line(plotLeft, y, plotLeft + plotWidth, y, step === 0 ? COLORS.muted : COLORS.border)
+    pdf.text(plotLeft - 4, y - 4, `${prefix}${formatNumberCompact(value)}`, { size: 7, color: COLORS.muted, align: 'right' })
+  }
+
+  const groups = chart.labels.length
+  if (groups > 0) {
+    const groupWidth = plotWidth / groups
+    const barWidth = Math.min(24, (groupWidth * 0.75) / Math.max(1, chart.series.length))
+    const groupPadding = (groupWidth - barWidth * chart.series.length) / 2
+
+    chart.series.forEach((series, seriesIndex) => {
+      series.values.forEach((value, index) => {
+        if (!(value > 0)) return
+        const height = (Math.min(value, maximum) / maximum) * plotHeight
+        const x = plotLeft + index * groupWidth + groupPadding + seriesIndex * barWidth
+        pdf.rect(x, plotBottom - height, barWidth, height, SERIES_COLORS[seriesIndex % SERIES_COLORS.length])
+      })
+    })
+
+    // Show as many category labels as fit, evenly thinned
+    const labelWidth = Math.max(...chart.labels.map(label => pdfTextWidth(label, 7))) + 6
+    const every = Math.max(1, Math.ceil(labelWidth / groupWidth))
+    chart.labels.forEach((label, index) => {
+      if (index % every !== 0) return
+      const center = plotLeft + index * groupWidth + groupWidth / 2
+      pdf.text(center, plotBottom + 5, fitPdfText(label, groupWidth * every - 2, 7), {
+        size: 7,
+        color: COLORS.muted,
+        align: 'center'
+      })
+    })
+  }
+
+  return top + CHART_HEIGHT
+}
+
+function columnWidths(document: ReportDocument): number[] {
+  const sample = document.rows.slice(0, 100)
+  const natural = document.columns.map(column => Math.max(
+    pdfTextWidth(column.label, 8, true),
+    ...sample.map(row => pdfTextWidth(formatReportValue(row[column.key] ?? null, column.format), 8))
+  ) + 10)
+
+  const total = natural.reduce((sum, width) => sum + width, 0)
+  return natural.map(width => (width / total) * CONTENT_WIDTH)
+}
+
+function drawTableHeader(pdf: PdfBuilder, columns: ReportColumn[], widths: number[], top: number): number {
+  pdf.rect(PDF_PAGE.margin, top, CONTENT_WIDTH, ROW_HEIGHT + 2, COLORS.header)
+
+  let x = PDF_PAGE.margin
+  columns.forEach((column, index) => {
+    const label = fitPdfText(column.label, widths[index] - 10, 8, true)
+    if (isNumeric(column)) {
+      pdf.text(x + widths[index] - 5, top + 5, label, { size: 8, bold: true, align: 'right' })
+    } else {
+      pdf.text(x + 5, top + 5, label, { size: 8, bold: true })
+    }
+    x += widths[index]
+  })
+
+  return top + ROW_HEIGHT + 2
+}
+
+function drawTable(pdf: PdfBuilder, document: ReportDocument, top: number): number {
+  const { columns, rows } = document
+  if (columns.length === 0) return top
+
+  const widths = columnWidths(document)
+  let y = top
+
+  if (y + ROW_HEIGHT * 3 > CONTENT_BOTTOM) {
+    pdf.addPage()
+    y = PDF_PAGE.margin
+  }
+  y = drawTableHeader(pdf, columns, widths, y)
+
+  if (rows.length === 0) {
+    pdf.text(PDF_PAGE.width / 2, y + 6, 'Tidak ada data untuk periode ini', { size: 9, color: COLORS.muted, align: 'center' })
+    return y + ROW_HEIGHT + 8
+  }
+
+  rows.forEach((row, rowIndex) => {
+    if (y + ROW_HEIGHT > CONTENT_BOTTOM) {
+      pdf.addPage()
+      y = drawTableHeader(pdf, columns, widths, PDF_PAGE.margin)
+    }
+
+    if (rowIndex % 2 === 1) {
+      pdf.rect(PDF_PAGE.margin, y, CONTENT_WIDTH, ROW_HEIGHT, COLORS.panel)
+    }
+
+    let x = PDF_PAGE.margin
+    columns.forEach((column, index) => {
+      const text = fitPdfText(formatReportValue(row[column.key] ?? null, column.format), widths[index] - 10, 8)
+      if (isNumeric(column)) {
+        pdf.text(x + widths[index] - 5, y + 4.5, text, { size: 8, align: 'right' })
+      } else {
+        pdf.text(x + 5, y + 4.5, text, { size: 8 })
+      }
+      x += widths[index]
+    })
+
+    y += ROW_HEIGHT
+  })
+
+  pdf.line(PDF_PAGE.margin, y, PDF_PAGE.margin + CONTENT_WIDTH, y)
+  return y + 8
+}
+
+function drawFooters(pdf: PdfBuilder, document: ReportDocument): void {
+  const y = PDF_PAGE.height - PDF_PAGE.margin
+  const total = pdf.pageCount
+
+  for (let index = 0; index < total; index++) {
+    pdf.setPage(index)
+    pdf.line(PDF_PAGE.margin, y - 6, PDF_PAGE.width - PDF_PAGE.margin, y - 6)
+    pdf.text(PDF_PAGE.margin, y, fitPdfText(`${document.cafe.name} - ${document.title}`, CONTENT_WIDTH - 100, 7.5), {
+      size: 7.5,
+      color: COLORS.muted
+    })
+    pdf.text(PDF_PAGE.width - PDF_PAGE.margin, y, `Halaman ${index + 1} dari ${total}`, {
+      size: 7.5,
+      color: COLORS.muted,
+      align: 'right'
+    })
+  }
+}
+
+/**
+ * Render a report as a branded A4 PDF
+ */
+export function renderReportPdf(document: ReportDocument): Uint8Array {
+  const pdf = new PdfBuilder().addPage()
+
+  let y = drawHeader(pdf, document)
+  y = drawSummary(pdf, document, y)
+
+  for (const chart of document.charts || []) {
+    if (chart.labels.length === 0 || chart.series.length === 0) continue
+    if (y + CHART_HEIGHT > CONTENT_BOTTOM) {
+      pdf.addPage()
+      y = PDF_PAGE.margin
+    }
+    y = drawChart(pdf, chart, y) + 10
+  }
+
+  drawTable(pdf, document, y)
+  drawFooters(pdf, document)
+
+  return pdf.build()
+}
@@ -0,0 +1,110 @@
+/**
+ * Report Documents
+ *
+ * A report in export-ready form: cafe header, period, summary figures, a
+ * table and charts, with raw values and a format per value. The CSV, XLSX
+ * and PDF renderers all take this shape, so an export looks the same in
+ * every format and spreadsheets keep real numbers and dates.
+ */
+
+import { formatCurrency } from '../formatters/currency'
+import { formatDate } from '../formatters/date'
+import { formatNumber, formatPercentage } from '../formatters/number'
+
+// ===========================================
+// TYPES
+// ===========================================
+
+/**
+ * How a value is shown. Percentages are already multiplied by 100 and
+ * dates are YYYY-MM-DD calendar dates.
+ */
+export type ReportValueFormat = 'text' | 'number' | 'currency' | 'percentage' | 'date'
+
+export type ReportCell = string | number | null
+
+export interface ReportColumn {
+  key: string
+  label: string
+  format?: ReportValueFormat
+}
+
+export interface ReportSummaryItem {
+  label: string
+  value: ReportCell
+  format?: ReportValueFormat
+}
+
+export interface ReportChartSeries {
+  name: string
+  values: number[]
+}
+
+export interface ReportChart {
+  title: string
+  labels: string[]
+  series: ReportChartSeries[]
+  format?: 'number' | 'currency'
+}
+
+export interface ReportCafeInfo {
+  name: string
+  address?: string
+  phone?: string
+  email?: string
+}
+
+export interface ReportDocument {
+  title: string
+  period: { start_date: string; end_date: string }
+  cafe: ReportCafeInfo
+  generated_at: string // ISO timestamp
+  generated_label?: string // generated_at on the cafe's clock, for display
+  summary: ReportSummaryItem[]
+  columns: ReportColumn[]
+  rows: Record<string, ReportCell>[]
+  charts?: ReportChart[]
+}
+
+export type ReportExportFormat = 'csv' | 'xlsx' | 'pdf'
+
+export const REPORT_CONTENT_TYPES: Record<ReportExportFormat, string> = {
+  csv: 'text/csv; charset=utf-8',
+  xlsx: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+  pdf: 'application/pdf'
+}
+
+// ===========================================
+// FORMATTING
+// ===========================================
+
+/**
+ * Display text for a value, with Indonesian number and date formatting
+ */
+export function formatReportValue(value: ReportCell, format: ReportValueFormat = 'text'): string {
+  if (value === null || value === undefined || value === '') {
+    return '-'
+  }
+
+  if (typeof value === 'string') {
+    return format === 'date' ? formatDate(value, 'short') : value
+  }
+
+  switch (format) {
+    case 'currency':
+      return formatCurrency(value)
+    case 'percentage':
+      return formatPercentage(value)
+    case 'number':
+      return formatNumber(value, 2)
+    default:
+      return String(value)
+  }
+}
+
+/**
+ * File name for an export, e.g. "laporan-penjualan_2026-10-01_2026-10-31.xlsx"
+ */
+export function reportFileName(slug: string, document: ReportDocument, format: ReportExportFormat): string {
+  return `${slug}_${document.period.start_date}_${document.period.end_date}.${format}`
+}
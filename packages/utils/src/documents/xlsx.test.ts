@@ -0,0 +1,206 @@
+import { renderReportXlsx } from './xlsx'
+import { crc32 } from './zip'
+import type { ReportDocument } from './report'
+
+const REPORT: ReportDocument = {
+  title: 'Laporan Penjualan',
+  period: { start_date: '2026-10-01', end_date: '2026-10-31' },
+  cafe: { name: 'Kopi Senja & Roti', address: 'Jl. Braga No. 7, Bandung', phone: '022-4201234' },
+  generated_at: '2026-10-19T08:30:00.000Z',
+  generated_label: '19 Okt 2026 15:30 WIB',
+  summary: [
+    { label: 'Total Penjualan', value: 1250000, format: 'currency' },
+    { label: 'Pesanan', value: 42, format: 'number' },
+    { label: 'Margin', value: 37.5, format: 'percentage' }
+  ],
+  columns: [
+    { key: 'date', label: 'Tanggal', format: 'date' },
+    { key: 'item', label: 'Menu <Favorit>', format: 'text' },
+    { key: 'quantity', label: 'Jumlah', format: 'number' },
+    { key: 'revenue', label: 'Pendapatan', format: 'currency' }
+  ],
+  rows: [
+    { date: '2026-10-19', item: 'Kopi Susu "Gula Aren"', quantity: 12, revenue: 216000 },
+    { date: '2026-10-20', item: 'Roti Bakar & Keju\u0007', quantity: 3.5, revenue: null },
+    { date: 'kemarin', item: '=SUM(A1:A2)', quantity: null, revenue: 35000 }
+  ]
+}
+
+const decoder = new TextDecoder()
+
+// Parts of a stored (uncompressed) archive, found through its central directory
+function readParts(archive: Uint8Array): Map<string, string> {
+  const view = new DataView(archive.buffer, archive.byteOffset, archive.byteLength)
+  const end = archive.length - 22
+  const parts = new Map<string, string>()
+
+  let position = view.getUint32(end + 16, true)
+  for (let index = 0; index < view.getUint16(end + 10, true); index++) {
+    const nameLength = view.getUint16(position + 28, true)
+    const name = decoder.decode(archive.subarray(position + 46, position + 46 + nameLength))
+    const local = view.getUint32(position + 42, true)
+    const start = local + 30 + view.getUint16(local + 26, true) + view.getUint16(local + 28, true)
+    const data = archive.subarray(start, start + view.getUint32(position + 24, true))
+
+    expect(view.getUint16(position + 10, true)).toBe(0)
+    expect(crc32(data)).toBe(view.getUint32(position + 16, true))
+    parts.set(name, decoder.decode(data))
+    position += 46 + nameLength + view.getUint16(position + 30, true) + view.getUint16(position + 32, true)
+  }
+
+  return parts
+}
+
+const NAME = '[A-Za-z_][\\w.:-]*'
+const TAG = new RegExp(`<(/?)(${NAME})((?:\\s+${NAME}\\s*=\\s*"[^"<]*")*)\\s*(/?)>`, 'y')
+const TEXT = /[^<]+/y
+const ENTITY = /&(?!(?:amp|lt|gt|quot|apos|#\d+|#x[0-9a-fA-F]+);)/
+const ILLEGAL_CHARACTER = /[\u0000-\u0008\u000b\u000c\u000e-\u001f]/
+
+/**
+ * Throw unless the text is well-formed XML: one root element, balanced and
+ * properly nested tags, unique attributes, escaped text and attribute
+ * values and no characters XML 1.0 forbids
+ */
+function assertWellFormed(xml: string): void {
+  const body = xml.replace(/^<\?xml\s[^?]*\?>\s*/, '')
+  const open: string[] = []
+  let roots = 0
+  let position = 0
+
+  const fail = (problem: string) => {
+    throw new Error(`${problem} at ${position}: ${body.slice(position, position + 40)}`)
+  }
+
+  while (position < body.length) {
+    TAG.lastIndex = position
+    TEXT.lastIndex = position
+    const tag = TAG.exec(body)
+
+    if (tag) {
+      const [, closing, name, attributes, selfClosing] = tag
+      const attributeNames = [...attributes.matchAll(new RegExp(`(${NAME})\\s*=`, 'g'))].map(match => match[1])
+      if (new Set(attributeNames).size !== attributeNames.length) fail('Duplicate attribute')
+      if (ENTITY.test(attributes) || ILLEGAL_CHARACTER.test(attributes)) fail('Unescaped attribute value')
+
+      if (closing) {
+        if (attributes || selfClosing) fail('Malformed end tag')
+        if (open.pop() !== name) fail(`Unexpected </${name}>`)
+      } else {
+        if (open.length === 0 && ++roots > 1) fail('Second root element')
+        if (!selfClosing) open.push(name)
+      }
+      position = TAG.lastIndex
+      continue
+    }
+
+    const text = TEXT.exec(body)
+    if (!text) fail('Malformed markup')
+    if (open.length === 0 && text![0].trim()) fail('Text outside the root element')
+    if (ENTITY.test(text![0]) || ILLEGAL_CHARACTER.test(text![0]) || text![0].includes('>')) fail('Unescaped text')
+    position = TEXT.lastIndex
+  }
+
+  if (open.length > 0) fail(`Unclosed <${open[open.length - 1]}>`)
+  if (roots !== 1) fail('No root element')
+}
+
+function cells(sheet: string): Record<string, string> {
+  const found: Record<string, string> = {}
+  for (const match of sheet.matchAll(/<c r="([A-Z]+\d+)"([^>]*?)(?:\/>|>(.*?)<\/c>)/g)) {
+    found[match[1]] = `${match[2].trim()}|${match[3] ?? ''}`
+  }
+  return found
+}
+
+describe('assertWellFormed', () => {
+  it('catches the mistakes a hand-written writer makes', () => {
+    expect(() => assertWellFormed('<a><b/><c x="1">R&amp;D</c></a>')).not.toThrow()
+    expect(() => assertWellFormed('<a><b></a></b>')).toThrow('Unexpected </a>')
+    expect(() => assertWellFormed('<a>Roti & Keju</a>')).toThrow('Unescaped text')
+    expect(() => assertWellFormed('<a x="1" x="2"/>')).toThrow('Duplicate attribute')
+    expect(() => assertWellFormed('<a/><b/>')).toThrow('Second root element')
+    expect(() => assertWellFormed('<a>\u0007</a>')).toThrow('Unescaped text')
+    expect(() => assertWellFormed('<a>')).toThrow('Unclosed <a>')
+  })
+})
+
+describe('renderReportXlsx', () => {
+  const parts = readParts(renderReportXlsx(REPORT))
+
+  it('writes every part the package declares and refers to', () => {
+    expect([...parts.keys()].sort()).toEqual([
+      '[Content_Types].xml',
+      '_rels/.rels',
+      'xl/_rels/workbook.xml.rels',
+      'xl/styles.xml',
+      'xl/workbook.xml',
+      'xl/worksheets/sheet1.xml',
+      'xl/worksheets/sheet2.xml'
+    ])
+
+    const overrides = [...parts.get('[Content_Types].xml')!.matchAll(/PartName="\/([^"]+)"/g)].map(match => match[1])
+    const targets = [...parts.get('xl/_rels/workbook.xml.rels')!.matchAll(/Target="([^"]+)"/g)].map(match => `xl/${match[1]}`)
+    for (const name of [...overrides, ...targets]) {
+      expect(parts.has(name)).toBe(true)
+    }
+  })
+
+  it('writes well-formed XML in every part', () => {
+    for (const xml of parts.values()) {
+      expect(() => assertWellFormed(xml)).not.toThrow()
+    }
+  })
+
+  it('escapes text from the report', () => {
+    const data = parts.get('xl/worksheets/sheet2.xml')!
+
+    expect(data).toContain('<t xml:space="preserve">Menu &lt;Favorit&gt;</t>')
+    expect(data).toContain('<t xml:space="preserve">Kopi Susu &quot;Gula Aren&quot;</t>')
+    expect(data).toContain('<t xml:space="preserve">Roti Bakar &amp; Keju</t>')
+    expect(parts.get('xl/worksheets/sheet1.xml')).toContain('Kopi Senja &amp; Roti')
+  })
+
+  it('keeps numbers and dates as values with their formats', () => {
+    const data = cells(parts.get('xl/worksheets/sheet2.xml')!)
+
+    // 19 October 2026 is day 46314 after Excel's epoch
+    expect(data.A2).toBe('s="4"|<v>46314</v>')
+    expect(data.C2).toBe('s="5"|<v>12</v>')
+    expect(data.D2).toBe('s="2"|<v>216000</v>')
+    expect(data.C3).toBe('s="6"|<v>3.5</v>')
+    expect(data.D3).toBeUndefined()
+    // Text that is not a date stays text, and formulas are never written
+    expect(data.A4).toBe('t="inlineStr" s="0"|<is><t xml:space="preserve">kemarin</t></is>')
+    expect(data.B4).toBe('t="inlineStr" s="0"|<is><t xml:space="preserve">=SUM(A1:A2)</t></is>')
+    expect(parts.get('xl/worksheets/sheet2.xml')).not.toContain('<f>')
+  })
+
+  it('freezes and filters the data header over the whole table', () => {
+    const data = parts.get('xl/worksheets/sheet2.xml')!
+
+    expect(data).toContain('<dimension ref="A1:D4"/>')
+    expect(data).toContain('<autoFilter ref="A1:D4"/>')
+    expect(data).toContain('state="frozen"')
+    expect(parts.get('xl/workbook.xml')).toContain('Data!$A$1:$D$4')
+  })
+
+  it('summarises the period and figures on the first sheet', () => {
+    const summary = cells(parts.get('xl/worksheets/sheet1.xml')!)
+    const values = Object.values(summary).join('\n')
+
+    expect(values).toContain('s="2"|<v>1250000</v>')
+    expect(values).toContain('s="3"|<v>37.5</v>')
+    expect(values).toContain('19 Okt 2026 15:30 WIB')
+  })
+
+  it('still writes a valid workbook without rows', () => {
+    const empty = readParts(renderReportXlsx({ ...REPORT, rows: [], summary: [] }))
+
+    for (const xml of empty.values()) {
+      expect(() => assertWellFormed(xml)).not.toThrow()
+    }
+    expect(empty.get('xl/worksheets/sheet2.xml')).not.toContain('<autoFilter')
+    expect(empty.get('xl/workbook.xml')).not.toContain('definedName')
+  })
+})
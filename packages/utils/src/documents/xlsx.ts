@@ -0,0 +1,262 @@
+/**
+ * XLSX Export
+ *
+ * Writes a report as an Office Open XML workbook with two sheets: "Ringkasan"
+ * (cafe, period and summary figures) and "Data" (the table, with a frozen
+ * header and filter). Cells hold real numbers and dates with Rupiah,
+ * percentage and dd/mm/yyyy number formats, so the workbook can be summed
+ * and pivoted straight away.
+ */
+
+import { createZip, type ZipEntry } from './zip'
+import type { ReportCell, ReportDocument, ReportValueFormat } from './report'
+import { formatDateRange } from '../formatters/date'
+
+// ===========================================
+// STYLES
+// ===========================================
+
+// Index into cellXfs in styles.xml
+const STYLE = {
+  default: 0,
+  header: 1,
+  currency: 2,
+  percentage: 3,
+  date: 4,
+  integer: 5,
+  decimal: 6,
+  title: 7,
+  label: 8
+} as const
+
+const STYLES_XML = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<styleSheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">
+<numFmts count="3"><numFmt numFmtId="164" formatCode="&quot;Rp&quot;\\ #,##0"/><numFmt numFmtId="165" formatCode="0.0&quot;%&quot;"/><numFmt numFmtId="166" formatCode="dd/mm/yyyy"/></numFmts>
+<fonts count="3"><font><sz val="11"/><name val="Calibri"/></font><font><b/><sz val="11"/><name val="Calibri"/></font><font><b/><sz val="14"/><name val="Calibri"/></font></fonts>
+<fills count="3"><fill><patternFill patternType="none"/></fill><fill><patternFill patternType="gray125"/></fill><fill><patternFill patternType="solid"><fgColor rgb="FFE5E7EB"/><bgColor indexed="64"/></patternFill></fill></fills>
+<borders count="1"><border><left/><right/><top/><bottom/><diagonal/></border></borders>
+<cellStyleXfs count="1"><xf numFmtId="0" fontId="0" fillId="0" borderId="0"/></cellStyleXfs>
+<cellXfs count="9">
+<xf numFmtId="0" fontId="0" fillId="0" borderId="0" xfId="0"/>
+<xf numFmtId="0" fontId="1" fillId="2" borderId="0" xfId="0" applyFont="1" applyFill="1"/>
+<xf numFmtId="164" fontId="0" fillId="0" borderId="0" xfId="0" applyNumberFormat="1"/>
+<xf numFmtId="165" fontId="0" fillId="0" borderId="0" xfId="0" applyNumberFormat="1"/>
+<xf numFmtId="166" fontId="0" fillId="0" borderId="0" xfId="0" applyNumberFormat="1"/>
+<xf numFmtId="3" fontId="0" fillId="0" borderId="0" xfId="0" applyNumberFormat="1"/>
+<xf numFmtId="4" fontId="0" fillId="0" borderId="0" xfId="0" applyNumberFormat="1"/>
+<xf numFmtId="0" fontId="2" fillId="0" borderId="0" xfId="0" applyFont="1"/>
+<xf numFmtId="0" fontId="1" fillId="0" borderId="0" xfId="0" applyFont="1"/>
+</cellXfs>
+<cellStyles count="1"><cellStyle name="Normal" xfId="0" builtinId="0"/></cellStyles>
+</styleSheet>`
+
+// ===========================================
+// CELLS
+// ===========================================
+
+interface Cell {
+  value: ReportCell
+  format?: ReportValueFormat
+  style?: number
+}
+
+const escapeXml = (text: string) => text
+  // Control characters are not allowed in XML 1.0
+  .replace(/[\u0000-\u0008\u000b\u000c\u000e-\u001f]/g, '')
+  .replace(/&/g, '&amp;')
+  .replace(/</g, '&lt;')
+  .replace(/>/g, '&gt;')
+  .replace(/"/g, '&quot;')
+
+function columnName(index: number): string {
+  let name = ''
+  for (let n = index + 1; n > 0; n = Math.floor((n - 1) / 26)) {
+    name = String.fromCharCode(65 + ((n - 1) % 26)) + name
+  }
+  return name
+}
+
+// Days since 1899-12-30, Excel's date epoch
+function dateSerial(date: string): number | null {
+  const match = /^(\d{4})-(\d{2})-(\d{2})/.exec(date)
+  if (!match) return null
+  return (Date.UTC(Number(match[1]), Number(match[2]) - 1, Number(match[3])) - Date.UTC(1899, 11, 30)) / 86400000
+}
+
+function numberStyle(value: number, format?: ReportValueFormat): number {
+  switch (format) {
+    case 'currency':
+      return STYLE.currency
+    case 'percentage':
+      return STYLE.percentage
+    default:
+      return Number.isInteger(value) ? STYLE.integer : STYLE.decimal
+  }
+}
+
+function renderCell(cell: Cell, reference: string): string {
+  const { value, format } = cell
+
+  if (value === null || value === undefined || value === '') {
+    return cell.style ? `<c r="${reference}" s="${cell.style}"/>` : ''
+  }
+
+  if (typeof value === 'number' && Number.isFinite(value)) {
+    return `<c r="${reference}" s="${cell.style ?? numberStyle(value, format)}"><v>${value}</v></c>`
+  }
+
+  if (format === 'date' && typeof value === 'string') {
+    const serial = dateSerial(value)
+    if (serial !== null) {
+      return `<c r="${reference}" s="${cell.style ?? STYLE.date}"><v>${serial}</v></c>`
+    }
+  }
+
+  const text = escapeXml(String(value))
+  return `<c r="${reference}" t="inlineStr" s="${cell.style ?? STYLE.default}"><is><t xml:space="preserve">${text}</t></is></c>`
+}
+
+// ===========================================
+// SHEETS
+// ===========================================
+
+interface SheetOptions {
+  widths: number[]
+  freezeHeader?: boolean
+  filter?: boolean
+}
+
+function renderSheet(rows: Cell[][], options: SheetOptions): string {
+  const columnCount = Math.max(1, ...rows.map(row => row.length))
+  const lastReference = `${columnName(columnCount - 1)}${Math.max(1, rows.length)}`
+
+  const sheetView = options.freezeHeader
+    ? '<sheetView workbookViewId="0"><pane ySplit="1" topLeftCell="A2" activePane="bottomLeft" state="frozen"/></sheetView>'
+    : '<sheetView workbookViewId="0"/>'
+
+  const cols = options.widths
+    .map((width, index) => `<col min="${index + 1}" max="${index + 1}" width="${width}" customWidth="1"/>`)
+    .join('')
+
+  const sheetRows = rows
+    .map((row, rowIndex) => {
+      const cells = row.map((cell, columnIndex) => renderCell(cell, `${columnName(columnIndex)}${rowIndex + 1}`)).join('')
+      return `<row r="${rowIndex + 1}">${cells}</row>`
+    })
+    .join('')
+
+  return '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n' +
+    '<worksheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">' +
+    `<dimension ref="A1:${lastReference}"/>` +
+    `<sheetViews>${sheetView}</sheetViews>` +
+    '<sheetFormatPr defaultRowHeight="15"/>' +
+    (cols ? `<cols>${cols}</cols>` : '') +
+    `<sheetData>${sheetRows}</sheetData>` +
+    (options.filter && rows.length > 1 ? `<autoFilter ref="A1:${lastReference}"/>` : '') +
+    '</worksheet>'
+}
+
+// Rough column width in characters for the longest value
+function columnWidth(values: string[]): number {
+  return Math.min(60, Math.max(10, ...values.map(value => value.length + 2)))
+}
+
+function summarySheet(document: ReportDocument): string {
+  const { cafe } = document
+  const rows: Cell[][] = [
+    [{ value: cafe.name, style: STYLE.title }],
+    ...[cafe.address, cafe.phone, cafe.email].filter(Boolean).map(line => [{ value: line as string }]),
+    [],
+    [{ value: document.title, style: STYLE.label }],
+    [{ value: 'Periode' }, { value: formatDateRange(document.period.start_date, document.period.end_date) }],
+    [{ value: 'Dibuat' }, { value: document.generated_label || document.generated_at }],
+    [],
+    [{ value: 'Ringkasan', style: STYLE.header }, { value: 'Nilai', style: STYLE.header }],
+    ...document.summary.map(item => [
+      { value: item.label },
+      { value: item.value, format: item.format }
+    ])
+  ]
+
+  return renderSheet(rows, {
+    widths: [
+      columnWidth(document.summary.map(item => item.label).concat('Periode')),
+      columnWidth([formatDateRange(document.period.start_date, document.period.end_date), 'Rp 000.000.000'])
+    ]
+  })
+}
+
+function dataSheet(document: ReportDocument): string {
+  const header = document.columns.map(column => ({ value: column.label, style: STYLE.header }))
+  const body = document.rows.map(row =>
+    document.columns.map(column => ({ value: row[column.key] ?? null, format: column.format }))
+  )
+
+  const widths = document.columns.map(column => {
+    if (column.format === 'currency') return 16
+    if (column.format === 'date') return 12
+    return columnWidth([column.label, ...document.rows.slice(0, 200).map(row => String(row[column.key] ?? ''))])
+  })
+
+  return renderSheet([header, ...body], { widths, freezeHeader: true, filter: true })
+}
+
+// ===========================================
+// WORKBOOK
+// ===========================================
+
+const SHEETS = ['Ringkasan', 'Data']
+
+/**
+ * Render a report as an XLSX workbook
+ */
+export function renderReportXlsx(document: ReportDocument): Uint8Array {
+  const encoder = new TextEncoder()
+  const xml = (text: string) => encoder.encode(text)
+
+  const contentTypes = '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n' +
+    '<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">' +
+    '<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>' +
+    '<Default Extension="xml" ContentType="application/xml"/>' +
+    '<Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/>' +
+    SHEETS.map((_, index) =>
+      `<Override PartName="/xl/worksheets/sheet${index + 1}.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>`
+    ).join('') +
+    '<Override PartName="/xl/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.styles+xml"/>' +
+    '</Types>'
+
+  const rootRels = '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n' +
+    '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">' +
+    '<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="xl/workbook.xml"/>' +
+    '</Relationships>'
+
+  const workbook = '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n' +
+    '<workbook xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main" xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships">' +
+    '<sheets>' +
+    SHEETS.map((name, index) => `<sheet name="${name}" sheetId="${index + 1}" r:id="rId${index + 1}"/>`).join('') +
+    '</sheets>' +
+    (document.rows.length > 0
+      ? `<definedNames><definedName name="_xlnm._FilterDatabase" localSheetId="1" hidden="1">Data!$A$1:$${columnName(document.columns.length - 1)}$${document.rows.length + 1}</definedName></definedNames>`
+      : '') +
+    '</workbook>'
+
+  const workbookRels = '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n' +
+    '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">' +
+    SHEETS.map((_, index) =>
+      `<Relationship Id="rId${index + 1}" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/worksheet" Target="worksheets/sheet${index + 1}.xml"/>`
+    ).join('') +
+    `<Relationship Id="rId${SHEETS.length + 1}" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/styles" Target="styles.xml"/>` +
+    '</Relationships>'
+
+  const entries: ZipEntry[] = [
+    { name: '[Content_Types].xml', data: xml(contentTypes) },
+    { name: '_rels/.rels', data: xml(rootRels) },
+    { name: 'xl/workbook.xml', data: xml(workbook) },
+    { name: 'xl/_rels/workbook.xml.rels', data: xml(workbookRels) },
+    { name: 'xl/styles.xml', data: xml(STYLES_XML) },
+    { name: 'xl/worksheets/sheet1.xml', data: xml(summarySheet(document)) },
+    { name: 'xl/worksheets/sheet2.xml', data: xml(dataSheet(document)) }
+  ]
+
+  return createZip(entries)
+}
@@ -0,0 +1,137 @@
+import { deflateRawSync, gunzipSync } from 'zlib'
+import { crc32, createZip } from './zip'
+
+const encoder = new TextEncoder()
+const decoder = new TextDecoder()
+
+interface CentralEntry {
+  name: string
+  flags: number
+  method: number
+  crc: number
+  compressedSize: number
+  size: number
+  localOffset: number
+}
+
+/**
+ * Read an archive the way an unzip tool does: from the end of central
+ * directory record back to the central directory, then each local header
+ */
+function readCentralDirectory(archive: Uint8Array) {
+  const view = new DataView(archive.buffer, archive.byteOffset, archive.byteLength)
+  const end = archive.length - 22
+
+  expect(view.getUint32(end, true)).toBe(0x06054b50)
+  const count = view.getUint16(end + 10, true)
+  const size = view.getUint32(end + 12, true)
+  const offset = view.getUint32(end + 16, true)
+  expect(view.getUint16(end + 8, true)).toBe(count)
+  expect(offset + size).toBe(end)
+
+  const entries: CentralEntry[] = []
+  let position = offset
+  for (let index = 0; index < count; index++) {
+    expect(view.getUint32(position, true)).toBe(0x02014b50)
+    const nameLength = view.getUint16(position + 28, true)
+    const extraLength = view.getUint16(position + 30, true)
+    const commentLength = view.getUint16(position + 32, true)
+    entries.push({
+      name: decoder.decode(archive.subarray(position + 46, position + 46 + nameLength)),
+      flags: view.getUint16(position + 8, true),
+      method: view.getUint16(position + 10, true),
+      crc: view.getUint32(position + 16, true),
+      compressedSize: view.getUint32(position + 20, true),
+      size: view.getUint32(position + 24, true),
+      localOffset: view.getUint32(position + 42, true)
+    })
+    position += 46 + nameLength + extraLength + commentLength
+  }
+  expect(position).toBe(end)
+
+  return { view, entries }
+}
+
+function readEntry(archive: Uint8Array, view: DataView, entry: CentralEntry): Uint8Array {
+  const at = entry.localOffset
+  expect(view.getUint32(at, true)).toBe(0x04034b50)
+  expect(view.getUint16(at + 8, true)).toBe(entry.method)
+  expect(view.getUint32(at + 14, true)).toBe(entry.crc)
+  expect(view.getUint32(at + 18, true)).toBe(entry.compressedSize)
+  expect(view.getUint32(at + 22, true)).toBe(entry.size)
+
+  const nameLength = view.getUint16(at + 26, true)
+  const start = at + 30 + nameLength + view.getUint16(at + 28, true)
+  expect(decoder.decode(archive.subarray(at + 30, at + 30 + nameLength))).toBe(entry.name)
+
+  return archive.subarray(start, start + entry.compressedSize)
+}
+
+// gunzip checks the CRC-32 in a gzip trailer, so it verifies ours independently
+function gzipWithCrc(data: Uint8Array, crc: number): Buffer {
+  const trailer = Buffer.alloc(8)
+  trailer.writeUInt32LE(crc, 0)
+  trailer.writeUInt32LE(data.length, 4)
+  return Buffer.concat([
+    Buffer.from([0x1f, 0x8b, 8, 0, 0, 0, 0, 0, 0, 0xff]),
+    deflateRawSync(data),
+    trailer
+  ])
+}
+
+describe('crc32', () => {
+  it('matches the standard check values', () => {
+    expect(crc32(new Uint8Array())).toBe(0)
+    expect(crc32(encoder.encode('123456789'))).toBe(0xcbf43926)
+    expect(crc32(encoder.encode('The quick brown fox jumps over the lazy dog'))).toBe(0x414fa339)
+  })
+
+  it('agrees with zlib', () => {
+    const data = encoder.encode('<sheetData><row r="1"><c r="A1"><v>75400</v></c></row></sheetData>'.repeat(50))
+
+    expect(gunzipSync(gzipWithCrc(data, crc32(data)))).toEqual(Buffer.from(data))
+    expect(() => gunzipSync(gzipWithCrc(data, crc32(data) ^ 1))).toThrow()
+  })
+})
+
+describe('createZip', () => {
+  const files = [
+    { name: '[Content_Types].xml', data: encoder.encode('<?xml version="1.0"?><Types/>') },
+    { name: 'xl/worksheets/sheet1.xml', data: encoder.encode('<worksheet/>') },
+    { name: 'laporan/ringkasan-penjualan-é.txt', data: encoder.encode('Penjualan Rp 75.400\r\n') },
+    { name: 'empty', data: new Uint8Array() }
+  ]
+
+  it('indexes every entry in the central directory with its CRC and sizes', () => {
+    const archive = createZip(files)
+    const { view, entries } = readCentralDirectory(archive)
+
+    expect(entries.map(entry => entry.name)).toEqual(files.map(file => file.name))
+    entries.forEach((entry, index) => {
+      const data = readEntry(archive, view, entry)
+
+      expect(entry.method).toBe(0)
+      expect(entry.size).toBe(files[index].data.length)
+      expect(entry.compressedSize).toBe(entry.size)
+      expect(entry.crc).toBe(crc32(files[index].data))
+      expect(data).toEqual(files[index].data)
+    })
+  })
+
+  it('flags the names as UTF-8', () => {
+    const { entries } = readCentralDirectory(createZip(files))
+
+    expect(entries.every(entry => (entry.flags & 0x0800) !== 0)).toBe(true)
+  })
+
+  it('writes nothing but the end record for no entries', () => {
+    const archive = createZip([])
+
+    expect(archive.length).toBe(22)
+    expect(readCentralDirectory(archive).entries).toEqual([])
+  })
+
+  it('is byte-for-byte reproducible', () => {
+    expect(createZip(files)).toEqual(createZip(files))
+  })
+})
@@ -0,0 +1,110 @@
+/**
+ * ZIP Archive Writer
+ *
+ * Minimal writer for the ZIP container of Office Open XML files. Entries
+ * are stored uncompressed, which every spreadsheet app reads and keeps this
+ * free of a deflate dependency.
+ */
+
+export interface ZipEntry {
+  name: string
+  data: Uint8Array
+}
+
+// ===========================================
+// CRC-32
+// ===========================================
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256)
+  for (let n = 0; n < 256; n++) {
+    let c = n
+    for (let k = 0; k < 8; k++) {
+      c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1
+    }
+    table[n] = c >>> 0
+  }
+  return table
+})()
+
+export function crc32(data: Uint8Array): number {
+  let crc = 0xffffffff
+  for (let i = 0; i < data.length; i++) {
+    crc = CRC_TABLE[(crc ^ data[i]) & 0xff] ^ (crc >>> 8)
+  }
+  return (crc ^ 0xffffffff) >>> 0
+}
+
+// ===========================================
+// ARCHIVE
+// ===========================================
+
+// 1980-01-01 00:00, the earliest DOS timestamp; keeps output reproducible
+const DOS_TIME = 0
+const DOS_DATE = (1 << 5) | 1
+
+/**
+ * Build a ZIP archive of stored (uncompressed) entries
+ */
+export function createZip(entries: ZipEntry[]): Uint8Array {
+  const encoder = new TextEncoder()
+  const localParts: Uint8Array[] = []
+  const centralParts: Uint8Array[] = []
+  let offset = 0
+
+  for (const entry of entries) {
+    const name = encoder.encode(entry.name)
+    const crc = crc32(entry.data)
+    const size = entry.data.length
+
+    const local = new DataView(new ArrayBuffer(30))
+    local.setUint32(0, 0x04034b50, true) // local file header signature
+    local.setUint16(4, 20, true) // version needed (2.0)
+    local.setUint16(6, 0x0800, true) // UTF-8 names
+    local.setUint16(8, 0, true) // stored
+    local.setUint16(10, DOS_TIME, true)
+    local.setUint16(12, DOS_DATE, true)
+    local.setUint32(14, crc, true)
+    local.setUint32(18, size, true)
+    local.setUint32(22, size, true)
+    local.setUint16(26, name.length, true)
+    local.setUint16(28, 0, true)
+
+    const central = new DataView(new ArrayBuffer(46))
+    central.setUint32(0, 0x02014b50, true) // central directory signature
+    central.setUint16(4, 20, true) // version made by
+    central.setUint16(6, 20, true) // version needed
+    central.setUint16(8, 0x0800, true)
+    central.setUint16(10, 0, true)
+    central.setUint16(12, DOS_TIME, true)
+    central.setUint16(14, DOS_DATE, true)
+    central.setUint32(16, crc, true)
+    central.setUint32(20, size, true)
+    central.setUint32(24, size, true)
+    central.setUint16(28, name.length, true)
+    central.setUint32(42, offset, true) // local header offset
+
+    localParts.push(new Uint8Array(local.buffer), name, entry.data)
+    centralParts.push(new Uint8Array(central.buffer), name)
+    offset += 30 + name.length + size
+  }
+
+  const centralSize = centralParts.reduce((total, part) => total + part.length, 0)
+
+  const end = new DataView(new ArrayBuffer(22))
+  end.setUint32(0, 0x06054b50, true) // end of central directory signature
+  end.setUint16(8, entries.length, true)
+  end.setUint16(10, entries.length, true)
+  end.setUint32(12, centralSize, true)
+  end.setUint32(16, offset, true)
+
+  const parts = [...localParts, ...centralParts, new Uint8Array(end.buffer)]
+  const archive = new Uint8Array(offset + centralSize + 22)
+  let position = 0
+  for (const part of parts) {
+    archive.set(part, position)
+    position += part.length
+  }
+
+  return archive
+}
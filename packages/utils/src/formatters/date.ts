@@ -1 +1,106 @@
-// Date formatters
+/**
+ * Indonesian Date Formatting Utilities
+ *
+ * Formats calendar dates (YYYY-MM-DD) and timestamps the Indonesian way
+ * (e.g., "19 Okt 2026", "19 Oktober 2026", "19/10/2026"). Calendar dates are
+ * formatted as-is, without any time zone conversion, so a business day from
+ * helpers/businessCalendar prints the same on every server.
+ */
+
+// Constants
+const MONTHS = [
+  'Januari', 'Februari', 'Maret', 'April', 'Mei', 'Juni',
+  'Juli', 'Agustus', 'September', 'Oktober', 'November', 'Desember'
+]
+const SHORT_MONTHS = ['Jan', 'Feb', 'Mar', 'Apr', 'Mei', 'Jun', 'Jul', 'Agu', 'Sep', 'Okt', 'Nov', 'Des']
+const DAYS = ['Minggu', 'Senin', 'Selasa', 'Rabu', 'Kamis', 'Jumat', 'Sabtu']
+
+export type DateFormatStyle = 'short' | 'medium' | 'long' | 'full'
+
+const pad = (value: number) => String(value).padStart(2, '0')
+
+const parseDate = (date: string) => {
+  const match = /^(\d{4})-(\d{2})-(\d{2})/.exec(date)
+  return match ? { year: Number(match[1]), month: Number(match[2]), day: Number(match[3]) } : null
+}
+
+/**
+ * Format a calendar date
+ * @param date - Date as YYYY-MM-DD (any time part is ignored)
+ * @param style - short "19/10/2026", medium "19 Okt 2026", long "19 Oktober 2026",
+ *                full "Senin, 19 Oktober 2026"
+ * @returns Formatted date, or the input unchanged if it is not a date
+ */
+export function formatDate(date: string, style: DateFormatStyle = 'medium'): string {
+  const parsed = parseDate(date)
+  if (!parsed) {
+    return date
+  }
+
+  const { year, month, day } = parsed
+
+  switch (style) {
+    case 'short':
+      return `${pad(day)}/${pad(month)}/${year}`
+    case 'long':
+      return `${day} ${MONTHS[month - 1]} ${year}`
+    case 'full': {
+      const weekday = DAYS[new Date(Date.UTC(year, month - 1, day)).getUTCDay()]
+      return `${weekday}, ${day} ${MONTHS[month - 1]} ${year}`
+    }
+    default:
+      return `${day} ${SHORT_MONTHS[month - 1]} ${year}`
+  }
+}
+
+/**
+ * Format a range of calendar dates
+ * @param startDate - First date (YYYY-MM-DD)
+ * @param endDate - Last date (YYYY-MM-DD)
+ * @returns Formatted range (e.g., "1 - 31 Oktober 2026", "28 Sep - 4 Okt 2026")
+ */
+export function formatDateRange(startDate: string, endDate: string): string {
+  const start = parseDate(startDate)
+  const end = parseDate(endDate)
+  if (!start || !end) {
+    return `${startDate} - ${endDate}`
+  }
+
+  if (startDate.slice(0, 10) === endDate.slice(0, 10)) {
+    return formatDate(startDate, 'long')
+  }
+
+  if (start.year === end.year && start.month === end.month) {
+    return `${start.day} - ${end.day} ${MONTHS[end.month - 1]} ${end.year}`
+  }
+
+  if (start.year === end.year) {
+    return `${start.day} ${SHORT_MONTHS[start.month - 1]} - ${end.day} ${SHORT_MONTHS[end.month - 1]} ${end.year}`
+  }
+
+  return `${formatDate(startDate)} - ${formatDate(endDate)}`
+}
+
+/**
+ * Format a month
+ * @param month - Month (1-12)
+ * @param year - Year
+ * @returns Month name and year (e.g., "Oktober 2026")
+ */
+export function formatMonth(month: number, year: number): string {
+  return `${MONTHS[month - 1]} ${year}`
+}
+
+/**
+ * Format a timestamp on the wall clock of a UTC offset
+ * @param at - Timestamp
+ * @param utcOffsetMinutes - Offset of the time zone, e.g. 420 for WIB
+ * @returns Date and time (e.g., "19 Okt 2026 14.05"), using "." between
+ *          hours and minutes as is usual in Indonesian
+ */
+export function formatDateTime(at: Date | string, utcOffsetMinutes: number = 7 * 60): string {
+  const local = new Date((at instanceof Date ? at : new Date(at)).getTime() + utcOffsetMinutes * 60 * 1000)
+  const date = local.toISOString().slice(0, 10)
+
+  return `${formatDate(date)} ${pad(local.getUTCHours())}.${pad(local.getUTCMinutes())}`
+}
@@ -1 +1,53 @@
-// Number formatters
+/**
+ * Indonesian Number Formatting Utilities
+ *
+ * Formats plain numbers and percentages with Indonesian separators:
+ * "." for thousands and "," for decimals (e.g., "1.250,5")
+ */
+
+// Constants
+const THOUSAND_SEPARATOR = '.'
+const DECIMAL_SEPARATOR = ','
+
+/**
+ * Format a number with Indonesian separators
+ * @param value - The number to format
+ * @param decimals - Maximum decimal places (default: 0)
+ * @returns Formatted number (e.g., "15.000", "1.250,5")
+ */
+export function formatNumber(value: number, decimals: number = 0): string {
+  if (isNaN(value) || !isFinite(value)) {
+    return '0'
+  }
+
+  const [integer, fraction] = Math.abs(value).toFixed(decimals).split('.')
+  const grouped = integer.replace(/\B(?=(\d{3})+(?!\d))/g, THOUSAND_SEPARATOR)
+  const trimmedFraction = fraction?.replace(/0+$/, '')
+  const formatted = trimmedFraction ? `${grouped}${DECIMAL_SEPARATOR}${trimmedFraction}` : grouped
+
+  return value < 0 && formatted !== '0' ? `-${formatted}` : formatted
+}
+
+/**
+ * Format a percentage value (already multiplied by 100)
+ * @param value - Percentage, e.g. 12.5 for 12,5%
+ * @param decimals - Maximum decimal places (default: 1)
+ * @returns Formatted percentage (e.g., "12,5%")
+ */
+export function formatPercentage(value: number, decimals: number = 1): string {
+  return `${formatNumber(value, decimals)}%`
+}
+
+/**
+ * Format a number in compact notation for chart axes
+ * @param value - The number to format
+ * @returns Compact number (e.g., "1,2 jt", "15 rb")
+ */
+export function formatNumberCompact(value: number): string {
+  const absValue = Math.abs(value)
+
+  if (absValue >= 1_000_000_000) return `${formatNumber(value / 1_000_000_000, 1)} M`
+  if (absValue >= 1_000_000) return `${formatNumber(value / 1_000_000, 1)} jt`
+  if (absValue >= 1_000) return `${formatNumber(value / 1_000, 1)} rb`
+  return formatNumber(value, 1)
+}
@@ -0,0 +1,165 @@
+import {
+  addDays,
+  businessDate,
+  businessDateRange,
+  businessDayStart,
+  businessHour,
+  businessMonthRange,
+  cafeDateTime,
+  describeBusinessCalendar,
+  eachBusinessDate,
+  normalizeBusinessCalendar,
+  todayBusinessDate,
+  type BusinessCalendar
+} from './businessCalendar'
+
+const WIB: BusinessCalendar = { time_zone: 'Asia/Jakarta', day_cutoff: '00:00' }
+const WITA: BusinessCalendar = { time_zone: 'Asia/Makassar', day_cutoff: '00:00' }
+const WIT: BusinessCalendar = { time_zone: 'Asia/Jayapura', day_cutoff: '00:00' }
+const LATE_WIB: BusinessCalendar = { time_zone: 'Asia/Jakarta', day_cutoff: '03:00' }
+
+describe('normalizeBusinessCalendar', () => {
+  it('reads the stored setting, as an object or as JSON text', () => {
+    expect(normalizeBusinessCalendar({ time_zone: 'Asia/Makassar', day_cutoff: '03:00' }))
+      .toEqual({ time_zone: 'Asia/Makassar', day_cutoff: '03:00' })
+    expect(normalizeBusinessCalendar('{"time_zone":"Asia/Jayapura","day_cutoff":"01:30:00"}'))
+      .toEqual({ time_zone: 'Asia/Jayapura', day_cutoff: '01:30' })
+  })
+
+  it('falls back to WIB at midnight for anything missing or invalid', () => {
+    expect(normalizeBusinessCalendar(null)).toEqual(WIB)
+    expect(normalizeBusinessCalendar({ time_zone: 'Asia/Singapore', day_cutoff: '25:00' })).toEqual(WIB)
+    // Later than 06:00 would swallow the morning shift
+    expect(normalizeBusinessCalendar({ time_zone: 'Asia/Makassar', day_cutoff: '07:00' }))
+      .toEqual({ time_zone: 'Asia/Makassar', day_cutoff: '00:00' })
+  })
+})
+
+describe('businessDate', () => {
+  it('rolls over at local midnight in each zone', () => {
+    // 23:59:59 and 00:00 WIB
+    expect(businessDate('2024-05-13T16:59:59.999Z', WIB)).toBe('2024-05-13')
+    expect(businessDate('2024-05-13T17:00:00Z', WIB)).toBe('2024-05-14')
+    // Same instants are an hour later in WITA and two in WIT
+    expect(businessDate('2024-05-13T15:59:59Z', WITA)).toBe('2024-05-13')
+    expect(businessDate('2024-05-13T16:00:00Z', WITA)).toBe('2024-05-14')
+    expect(businessDate('2024-05-13T14:59:59Z', WIT)).toBe('2024-05-13')
+    expect(businessDate('2024-05-13T15:00:00Z', WIT)).toBe('2024-05-14')
+  })
+
+  it('puts evening sales on the local day, not the UTC one', () => {
+    // 20:30 WIB on the 13th is still the 13th in UTC, 01:30 WIB on the 14th is not
+    expect(businessDate('2024-05-13T13:30:00Z', WIB)).toBe('2024-05-13')
+    expect(businessDate('2024-05-13T18:30:00Z', WIB)).toBe('2024-05-14')
+  })
+
+  it('keeps sales before the cutoff on the day they started on', () => {
+    // 02:59 and 03:00 WIB on the 14th
+    expect(businessDate('2024-05-13T19:59:00Z', LATE_WIB)).toBe('2024-05-13')
+    expect(businessDate('2024-05-13T20:00:00Z', LATE_WIB)).toBe('2024-05-14')
+  })
+
+  it('crosses month, year and leap day boundaries', () => {
+    expect(businessDate('2024-02-28T17:00:00Z', WIB)).toBe('2024-02-29')
+    expect(businessDate('2024-02-29T17:00:00Z', WIB)).toBe('2024-03-01')
+    expect(businessDate('2024-12-31T17:00:00Z', WIB)).toBe('2025-01-01')
+    expect(businessDate('2025-01-01T19:00:00Z', LATE_WIB)).toBe('2025-01-01')
+    expect(businessDate('2025-01-01T01:00:00+07:00', LATE_WIB)).toBe('2024-12-31')
+  })
+
+  it('accepts dates, ISO strings and epoch milliseconds', () => {
+    const at = Date.parse('2024-05-13T18:30:00Z')
+
+    expect(businessDate(new Date(at), WIB)).toBe('2024-05-14')
+    expect(businessDate(at, WIB)).toBe('2024-05-14')
+  })
+
+  it('gives today from the clock it is handed', () => {
+    expect(todayBusinessDate(WITA, new Date('2024-05-13T16:30:00Z'))).toBe('2024-05-14')
+  })
+})
+
+describe('fixed offsets', () => {
+  // Indonesia has no daylight saving time: a day starts at the same UTC
+  // time in January as in July, where a DST zone would shift by an hour
+  it.each([
+    ['WIB', WIB, '17:00'],
+    ['WITA', WITA, '16:00'],
+    ['WIT', WIT, '15:00'],
+    ['WIB with a 03:00 cutoff', LATE_WIB, '20:00']
+  ] as const)('starts %s days at %s UTC all year', (_label, calendar, utcTime) => {
+    for (const date of ['2024-01-15', '2024-03-31', '2024-07-15', '2024-10-27']) {
+      expect(businessDayStart(date, calendar).toISOString()).toBe(`${addDays(date, -1)}T${utcTime}:00.000Z`)
+    }
+  })
+
+  it('reads the same wall-clock hour all year', () => {
+    expect(businessHour('2024-01-15T12:00:00Z', WIB)).toBe(19)
+    expect(businessHour('2024-07-15T12:00:00Z', WIB)).toBe(19)
+    expect(businessHour('2024-07-15T12:00:00Z', WIT)).toBe(21)
+  })
+})
+
+describe('businessDayStart', () => {
+  it('is the first instant of the business day', () => {
+    for (const at of ['2024-05-13T16:59:59.999Z', '2024-05-13T17:00:00Z', '2024-05-13T19:59:00Z', '2024-05-13T20:00:00Z']) {
+      for (const calendar of [WIB, WITA, WIT, LATE_WIB]) {
+        const date = businessDate(at, calendar)
+        const time = Date.parse(at)
+
+        expect(businessDayStart(date, calendar).getTime()).toBeLessThanOrEqual(time)
+        expect(businessDayStart(addDays(date, 1), calendar).getTime()).toBeGreaterThan(time)
+      }
+    }
+  })
+
+  it('rejects dates that are not YYYY-MM-DD', () => {
+    expect(() => businessDayStart('13/05/2024', WIB)).toThrow('Invalid business date: 13/05/2024')
+  })
+})
+
+describe('ranges', () => {
+  it('covers both end dates, half-open at the next business day', () => {
+    expect(businessDateRange('2024-05-13', '2024-05-14', WIB)).toEqual({
+      start: '2024-05-12T17:00:00.000Z',
+      end: '2024-05-14T17:00:00.000Z'
+    })
+    expect(businessDateRange('2024-05-13', '2024-05-13', LATE_WIB)).toEqual({
+      start: '2024-05-12T20:00:00.000Z',
+      end: '2024-05-13T20:00:00.000Z'
+    })
+  })
+
+  it('covers a whole month, leap February included', () => {
+    expect(businessMonthRange(2, 2024, WITA)).toEqual({
+      start_date: '2024-02-01',
+      end_date: '2024-02-29',
+      start: '2024-01-31T16:00:00.000Z',
+      end: '2024-02-29T16:00:00.000Z'
+    })
+    expect(businessMonthRange(12, 2024, WIB)).toMatchObject({ end_date: '2024-12-31', end: '2024-12-31T17:00:00.000Z' })
+  })
+
+  it('lists each date of a range', () => {
+    expect(eachBusinessDate('2024-02-27', '2024-03-01')).toEqual(['2024-02-27', '2024-02-28', '2024-02-29', '2024-03-01'])
+    expect(eachBusinessDate('2024-03-01', '2024-02-29')).toEqual([])
+  })
+})
+
+describe('cafeDateTime', () => {
+  it('turns a wall-clock time in the cafe into an instant', () => {
+    expect(cafeDateTime('2024-05-13', '08:00', WITA).toISOString()).toBe('2024-05-13T00:00:00.000Z')
+    expect(cafeDateTime('2024-05-13', '06:30:15', WIB).toISOString()).toBe('2024-05-12T23:30:15.000Z')
+  })
+
+  it('ignores the day cutoff, which only moves the business day', () => {
+    expect(cafeDateTime('2024-05-13', '02:00', LATE_WIB).toISOString()).toBe('2024-05-12T19:00:00.000Z')
+  })
+})
+
+describe('describeBusinessCalendar', () => {
+  it('names the zone and any cutoff', () => {
+    expect(describeBusinessCalendar(WIB)).toBe('WIB')
+    expect(describeBusinessCalendar({ time_zone: 'Asia/Makassar', day_cutoff: '03:00' })).toBe('WITA, day ends 03:00')
+  })
+})
@@ -0,0 +1,194 @@
+/**
+ * Business Calendar
+ *
+ * Maps timestamps to the cafe's business day. Timestamps are stored in UTC,
+ * but a day's sales are the ones between the cafe's opening and the next
+ * day's cutoff in its own time zone (WIB, WITA or WIT). A cafe open past
+ * midnight sets a day cutoff (e.g. 03:00) so its late sales count towards
+ * the day they started on. Indonesia has no daylight saving time, so each
+ * zone is a fixed UTC offset.
+ *
+ * The calendar is stored in the `cafe/business_calendar` system setting.
+ */
+
+// ===========================================
+// TYPES
+// ===========================================
+
+export type CafeTimeZone = 'Asia/Jakarta' | 'Asia/Makassar' | 'Asia/Jayapura'
+
+export interface BusinessCalendar {
+  time_zone: CafeTimeZone
+  day_cutoff: string // HH:MM local time at which the business day rolls over
+}
+
+// Half-open instant range [start, end) as ISO timestamps, for
+// .gte(column, start).lt(column, end)
+export interface BusinessRange {
+  start: string
+  end: string
+}
+
+// ===========================================
+// CONSTANTS
+// ===========================================
+
+export const CAFE_TIME_ZONES: Record<CafeTimeZone, { label: string; utc_offset_minutes: number }> = {
+  'Asia/Jakarta': { label: 'WIB', utc_offset_minutes: 7 * 60 },
+  'Asia/Makassar': { label: 'WITA', utc_offset_minutes: 8 * 60 },
+  'Asia/Jayapura': { label: 'WIT', utc_offset_minutes: 9 * 60 }
+}
+
+// Mirrors the seeded `cafe/business_calendar` system setting
+export const DEFAULT_BUSINESS_CALENDAR: BusinessCalendar = {
+  time_zone: 'Asia/Jakarta',
+  day_cutoff: '00:00'
+}
+
+// Latest cutoff allowed; later than this would swallow the morning shift
+export const MAX_DAY_CUTOFF = '06:00'
+
+const MINUTE_MS = 60 * 1000
+const DAY_MS = 24 * 60 * MINUTE_MS
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/
+const TIME_PATTERN = /^([01]\d|2[0-3]):([0-5]\d)$/
+
+// ===========================================
+// SETTINGS
+// ===========================================
+
+const toMinutes = (time: string) => {
+  const match = TIME_PATTERN.exec(time)
+  return match ? Number(match[1]) * 60 + Number(match[2]) : NaN
+}
+
+/**
+ * Read the calendar from the stored setting, falling back to the defaults
+ * for anything missing or invalid
+ */
+export function normalizeBusinessCalendar(raw: unknown): BusinessCalendar {
+  const value = (typeof raw === 'string' ? JSON.parse(raw) : raw || {}) as Record<string, unknown>
+
+  const timeZone = typeof value.time_zone === 'string' && value.time_zone in CAFE_TIME_ZONES
+    ? value.time_zone as CafeTimeZone
+    : DEFAULT_BUSINESS_CALENDAR.time_zone
+
+  const cutoff = typeof value.day_cutoff === 'string' ? value.day_cutoff.slice(0, 5) : ''
+  const cutoffMinutes = toMinutes(cutoff)
+
+  return {
+    time_zone: timeZone,
+    day_cutoff: cutoffMinutes >= 0 && cutoffMinutes <= toMinutes(MAX_DAY_CUTOFF)
+      ? cutoff
+      : DEFAULT_BUSINESS_CALENDAR.day_cutoff
+  }
+}
+
+// Minutes to add to UTC for the cafe's wall clock, less the cutoff
+const businessOffsetMs = (calendar: BusinessCalendar) =>
+  (CAFE_TIME_ZONES[calendar.time_zone].utc_offset_minutes - toMinutes(calendar.day_cutoff)) * MINUTE_MS
+
+const toTime = (at: Date | string | number) => (at instanceof Date ? at : new Date(at)).getTime()
+
+// ===========================================
+// DATES
+// ===========================================
+
+/**
+ * Business day (YYYY-MM-DD) a timestamp belongs to
+ */
+export function businessDate(at: Date | string | number, calendar: BusinessCalendar): string {
+  return new Date(toTime(at) + businessOffsetMs(calendar)).toISOString().slice(0, 10)
+}
+
+/**
+ * Current business day
+ */
+export function todayBusinessDate(calendar: BusinessCalendar, now: Date = new Date()): string {
+  return businessDate(now, calendar)
+}
+
+/**
+ * Hour (0-23) on the cafe's wall clock, for hourly breakdowns
+ */
+export function businessHour(at: Date | string | number, calendar: BusinessCalendar): number {
+  const offset = CAFE_TIME_ZONES[calendar.time_zone].utc_offset_minutes * MINUTE_MS
+  return new Date(toTime(at) + offset).getUTCHours()
+}
+
+/**
+ * Calendar arithmetic on a YYYY-MM-DD date
+ */
+export function addDays(date: string, days: number): string {
+  return new Date(Date.parse(`${date}T00:00:00Z`) + days * DAY_MS).toISOString().slice(0, 10)
+}
+
+/**
+ * Instant a business day starts at
+ */
+export function businessDayStart(date: string, calendar: BusinessCalendar): Date {
+  if (!DATE_PATTERN.test(date)) {
+    throw new Error(`Invalid business date: ${date}`)
+  }
+  return new Date(Date.parse(`${date}T00:00:00Z`) - businessOffsetMs(calendar))
+}
+
+/**
+ * Instant of a wall-clock time (HH:MM or HH:MM:SS) in the cafe's time zone
+ * on a calendar date, e.g. a shift start
+ */
+export function cafeDateTime(date: string, time: string, calendar: BusinessCalendar): Date {
+  const [hours = 0, minutes = 0, seconds = 0] = time.split(':').map(Number)
+  const offset = CAFE_TIME_ZONES[calendar.time_zone].utc_offset_minutes * MINUTE_MS
+
+  return new Date(
+    Date.parse(`${date}T00:00:00Z`) + ((hours * 60 + minutes) * 60 + seconds) * 1000 - offset
+  )
+}
+
+/**
+ * Instants covering the business days from startDate to endDate, both
+ * included
+ */
+export function businessDateRange(startDate: string, endDate: string, calendar: BusinessCalendar): BusinessRange {
+  return {
+    start: businessDayStart(startDate, calendar).toISOString(),
+    end: businessDayStart(addDays(endDate, 1), calendar).toISOString()
+  }
+}
+
+/**
+ * First and last business day of a month (1-12) and the instants they cover
+ */
+export function businessMonthRange(month: number, year: number, calendar: BusinessCalendar): BusinessRange & {
+  start_date: string
+  end_date: string
+} {
+  const startDate = new Date(Date.UTC(year, month - 1, 1)).toISOString().slice(0, 10)
+  const endDate = new Date(Date.UTC(year, month, 0)).toISOString().slice(0, 10)
+
+  return {
+    start_date: startDate,
+    end_date: endDate,
+    ...businessDateRange(startDate, endDate, calendar)
+  }
+}
+
+/**
+ * Business days from startDate to endDate, both included
+ */
+export function eachBusinessDate(startDate: string, endDate: string): string[] {
+  const dates: string[] = []
+  for (let date = startDate; date <= endDate; date = addDays(date, 1)) {
+    dates.push(date)
+  }
+  return dates
+}
+
+/**
+ * Label for the calendar, e.g. "WITA, day ends 03:00"
+ */
+export function describeBusinessCalendar(calendar: BusinessCalendar): string {
+  const zone = CAFE_TIME_ZONES[calendar.time_zone].label
+  return calendar.day_cutoff === '00:00' ? zone : `${zone}, day ends ${calendar.day_cutoff}`
+}
@@ -0,0 +1,241 @@
+/**
+ * Kitchen Stations
+ *
+ * Order items are prepared at stations (bar, kitchen, pastry) picked by
+ * their menu category, as configured in the `kitchen/stations` system
+ * setting (068_kitchen_stations). Each station's display shows only its own
+ * items as tickets per order and bumps them one by one; an order is ready
+ * once every station bumped its items. Modifiers and notes are flagged so
+ * the display can highlight them, and open items are totalled "all day"
+ * (7× Es Kopi Susu) so a station can batch them.
+ */
+
+// ===========================================
+// TYPES
+// ===========================================
+
+export interface KitchenStation {
+  code: string
+  name: string
+  categories: string[] // menu category slugs prepared here
+}
+
+/** Value of the kitchen/stations system setting */
+export interface KitchenStationSettings {
+  stations: KitchenStation[]
+  default_station: string // code of the station for unlisted categories
+}
+
+export type KitchenItemStatus = 'pending' | 'preparing' | 'ready' | 'served' | 'cancelled'
+
+export interface KitchenStationItem {
+  id: string
+  name: string
+  quantity: number
+  category: string | null // menu category slug
+  status: KitchenItemStatus
+  modifiers: string[] // customization option names
+  notes: string | null
+  bumped_at: string | null
+}
+
+export interface KitchenStationOrder {
+  id: string
+  order_number: string
+  table_number: string | null
+  customer_name: string | null
+  order_type: string | null
+  notes: string | null // the customer's note on the whole order
+  confirmed_at: string | null
+  items: KitchenStationItem[]
+}
+
+export interface StationTicketItem extends KitchenStationItem {
+  bumped: boolean
+  highlighted: boolean // has modifiers or a note
+}
+
+export interface StationTicket {
+  order_id: string
+  order_number: string
+  table_number: string | null
+  customer_name: string | null
+  order_type: string | null
+  order_notes: string | null
+  confirmed_at: string | null
+  items: StationTicketItem[]
+  // Every item of this station is bumped, the ticket can only be recalled
+  is_complete: boolean
+  // Other stations still preparing items of the order
+  waiting_on: string[]
+}
+
+export interface AllDayCount {
+  name: string
+  quantity: number
+}
+
+// ===========================================
+// CONSTANTS
+// ===========================================
+
+export const DEFAULT_KITCHEN_STATION_SETTINGS: KitchenStationSettings = {
+  stations: [
+    { code: 'bar', name: 'Bar', categories: ['coffee', 'non-coffee'] },
+    { code: 'kitchen', name: 'Dapur', categories: ['food', 'snacks'] },
+    { code: 'pastry', name: 'Pastry', categories: ['desserts'] }
+  ],
+  default_station: 'kitchen'
+}
+
+// Items a station still has to prepare
+export const OPEN_KITCHEN_ITEM_STATUSES: KitchenItemStatus[] = ['pending', 'preparing']
+
+const STATION_CODE_PATTERN = /^[a-z0-9-]{1,30}$/
+
+// ===========================================
+// SETTINGS
+// ===========================================
+
+export function isKitchenStationCode(value: unknown): value is string {
+  return typeof value === 'string' && STATION_CODE_PATTERN.test(value)
+}
+
+/**
+ * Normalize the stored setting. Stations without a valid code are dropped,
+ * a category listed twice stays with the first station, and an unknown
+ * default falls back to the first station.
+ */
+export function parseKitchenStationSettings(value: unknown): KitchenStationSettings {
+  const raw = typeof value === 'string' ? JSON.parse(value) : value
+  if (!raw || typeof raw !== 'object' || !Array.isArray((raw as any).stations)) {
+    return {
+      stations: DEFAULT_KITCHEN_STATION_SETTINGS.stations.map(station => ({ ...station, categories: [...station.categories] })),
+      default_station: DEFAULT_KITCHEN_STATION_SETTINGS.default_station
+    }
+  }
+
+  const source = raw as Partial<KitchenStationSettings>
+  const codes = new Set<string>()
+  const claimed = new Set<string>()
+  const stations: KitchenStation[] = []
+
+  for (const station of source.stations || []) {
+    if (!station || typeof station !== 'object' || !isKitchenStationCode(station.code) || codes.has(station.code)) {
+      continue
+    }
+    codes.add(station.code)
+
+    const categories = (Array.isArray(station.categories) ? station.categories : [])
+      .map(category => String(category).trim())
+      .filter(category => category && !claimed.has(category))
+    categories.forEach(category => claimed.add(category))
+
+    stations.push({
+      code: station.code,
+      name: (typeof station.name === 'string' && station.name.trim()) || station.code,
+      categories
+    })
+  }
+
+  const defaultStation = typeof source.default_station === 'string' && codes.has(source.default_station)
+    ? source.default_station
+    : stations[0]?.code || DEFAULT_KITCHEN_STATION_SETTINGS.default_station
+
+  return { stations, default_station: defaultStation }
+}
+
+/**
+ * Code of the station that prepares a menu category
+ */
+export function stationForCategory(settings: KitchenStationSettings, category: string | null | undefined): string {
+  const station = category
+    ? settings.stations.find(candidate => candidate.categories.includes(category))
+    : undefined
+  return station?.code || settings.default_station
+}
+
+// ===========================================
+// TICKETS
+// ===========================================
+
+export function isItemHighlighted(item: Pick<KitchenStationItem, 'modifiers' | 'notes'>): boolean {
+  return item.modifiers.length > 0 || !!item.notes?.trim()
+}
+
+/**
+ * One ticket per order with items for the station, oldest order first.
+ * Served and cancelled items are left out; orders with nothing left for the
+ * station get no ticket.
+ */
+export function buildStationTickets(
+  orders: KitchenStationOrder[],
+  settings: KitchenStationSettings,
+  stationCode: string
+): StationTicket[] {
+  const tickets: StationTicket[] = []
+
+  for (const order of orders) {
+    const items: StationTicketItem[] = []
+    const waitingOn = new Set<string>()
+
+    for (const item of order.items) {
+      if (item.status === 'served' || item.status === 'cancelled') continue
+
+      const station = stationForCategory(settings, item.category)
+      if (station !== stationCode) {
+        if (OPEN_KITCHEN_ITEM_STATUSES.includes(item.status)) {
+          waitingOn.add(station)
+        }
+        continue
+      }
+
+      items.push({
+        ...item,
+        bumped: item.status === 'ready',
+        highlighted: isItemHighlighted(item)
+      })
+    }
+
+    if (items.length === 0) continue
+
+    tickets.push({
+      order_id: order.id,
+      order_number: order.order_number,
+      table_number: order.table_number,
+      customer_name: order.customer_name,
+      order_type: order.order_type,
+      order_notes: order.notes?.trim() || null,
+      confirmed_at: order.confirmed_at,
+      items,
+      is_complete: items.every(item => item.bumped),
+      waiting_on: Array.from(waitingOn)
+    })
+  }
+
+  return tickets.sort((a, b) =>
+    new Date(a.confirmed_at || 0).getTime() - new Date(b.confirmed_at || 0).getTime()
+  )
+}
+
+/**
+ * Open quantity per menu item across the station's tickets, largest first
+ */
+export function countAllDay(tickets: StationTicket[]): AllDayCount[] {
+  const counts = new Map<string, number>()
+
+  for (const ticket of tickets) {
+    for (const item of ticket.items) {
+      if (item.bumped) continue
+      counts.set(item.name, (counts.get(item.name) || 0) + item.quantity)
+    }
+  }
+
+  return Array.from(counts.entries())
+    .map(([name, quantity]) => ({ name, quantity }))
+    .sort((a, b) => b.quantity - a.quantity || a.name.localeCompare(b.name))
+}
+
+export function formatAllDayCount(count: AllDayCount): string {
+  return `${count.quantity}× ${count.name}`
+}
@@ -0,0 +1,166 @@
+/**
+ * Notification Scheduling
+ *
+ * Timing rules for the notification dispatcher: when a recurring report is
+ * next delivered, which business days it covers, and when a recipient's
+ * quiet hours end. Delivery times and quiet hours are wall-clock times in
+ * the cafe's time zone (see businessCalendar).
+ */
+
+import {
+  CAFE_TIME_ZONES,
+  addDays,
+  cafeDateTime,
+  type BusinessCalendar
+} from './businessCalendar'
+
+// ===========================================
+// TYPES
+// ===========================================
+
+export type ReportSchedule = 'daily' | 'weekly' | 'monthly'
+
+export type ScheduledNotificationStatus = 'pending' | 'processing' | 'sent' | 'failed' | 'cancelled'
+
+// Wall-clock HH:MM range; a start later than the end spans midnight
+export interface QuietHours {
+  start: string
+  end: string
+}
+
+// ===========================================
+// CONSTANTS
+// ===========================================
+
+export const REPORT_SCHEDULES: ReportSchedule[] = ['daily', 'weekly', 'monthly']
+
+const MINUTE_MS = 60 * 1000
+const TIME_PATTERN = /^([01]\d|2[0-3]):([0-5]\d)$/
+
+// ===========================================
+// HELPERS
+// ===========================================
+
+const toMinutes = (time: string) => {
+  const match = TIME_PATTERN.exec(time.slice(0, 5))
+  return match ? Number(match[1]) * 60 + Number(match[2]) : NaN
+}
+
+// Calendar date and minute of the day on the cafe's wall clock
+const cafeClock = (at: Date, calendar: BusinessCalendar) => {
+  const local = new Date(at.getTime() + CAFE_TIME_ZONES[calendar.time_zone].utc_offset_minutes * MINUTE_MS)
+  return {
+    date: local.toISOString().slice(0, 10),
+    minutes: local.getUTCHours() * 60 + local.getUTCMinutes()
+  }
+}
+
+const weekday = (date: string) => new Date(`${date}T00:00:00Z`).getUTCDay()
+
+const firstOfMonth = (date: string, months: number) => {
+  const [year, month] = date.split('-').map(Number)
+  return new Date(Date.UTC(year, month - 1 + months, 1)).toISOString().slice(0, 10)
+}
+
+/**
+ * Whether a value is a HH:MM time
+ */
+export function isValidClockTime(time: unknown): time is string {
+  return typeof time === 'string' && TIME_PATTERN.test(time)
+}
+
+// ===========================================
+// REPORT DELIVERIES
+// ===========================================
+
+/**
+ * Next delivery strictly after `after`: daily at the delivery time, weekly
+ * on Monday, monthly on the 1st
+ */
+export function nextReportDelivery(
+  schedule: ReportSchedule,
+  deliveryTime: string,
+  calendar: BusinessCalendar,
+  after: Date = new Date()
+): Date {
+  if (!isValidClockTime(deliveryTime.slice(0, 5))) {
+    throw new Error(`Invalid delivery time: ${deliveryTime}`)
+  }
+
+  const time = deliveryTime.slice(0, 5)
+  const today = cafeClock(after, calendar).date
+
+  switch (schedule) {
+    case 'daily': {
+      const candidate = cafeDateTime(today, time, calendar)
+      return candidate > after ? candidate : cafeDateTime(addDays(today, 1), time, calendar)
+    }
+    case 'weekly': {
+      const monday = addDays(today, (1 + 7 - weekday(today)) % 7)
+      const candidate = cafeDateTime(monday, time, calendar)
+      return candidate > after ? candidate : cafeDateTime(addDays(monday, 7), time, calendar)
+    }
+    case 'monthly': {
+      const candidate = cafeDateTime(firstOfMonth(today, 0), time, calendar)
+      return candidate > after ? candidate : cafeDateTime(firstOfMonth(today, 1), time, calendar)
+    }
+    default:
+      throw new Error(`Invalid report schedule: ${schedule}`)
+  }
+}
+
+/**
+ * Business days a delivery reports on: the day before, the seven days
+ * before, or the previous month
+ */
+export function reportPeriod(
+  schedule: ReportSchedule,
+  deliveredAt: Date,
+  calendar: BusinessCalendar
+): { start_date: string; end_date: string } {
+  const today = cafeClock(deliveredAt, calendar).date
+  const yesterday = addDays(today, -1)
+
+  switch (schedule) {
+    case 'daily':
+      return { start_date: yesterday, end_date: yesterday }
+    case 'weekly':
+      return { start_date: addDays(today, -7), end_date: yesterday }
+    case 'monthly':
+      return { start_date: firstOfMonth(today, -1), end_date: addDays(firstOfMonth(today, 0), -1) }
+    default:
+      throw new Error(`Invalid report schedule: ${schedule}`)
+  }
+}
+
+// ===========================================
+// QUIET HOURS
+// ===========================================
+
+/**
+ * When the quiet hours `at` falls in end, or null when `at` is outside them
+ */
+export function quietHoursEnd(
+  at: Date,
+  quietHours: QuietHours,
+  calendar: BusinessCalendar
+): Date | null {
+  const start = toMinutes(quietHours.start)
+  const end = toMinutes(quietHours.end)
+  if (Number.isNaN(start) || Number.isNaN(end) || start === end) {
+    return null
+  }
+
+  const { date, minutes } = cafeClock(at, calendar)
+  const endTime = quietHours.end.slice(0, 5)
+
+  if (start < end) {
+    return minutes >= start && minutes < end ? cafeDateTime(date, endTime, calendar) : null
+  }
+
+  // Overnight, e.g. 22:00 - 07:00
+  if (minutes >= start) {
+    return cafeDateTime(addDays(date, 1), endTime, calendar)
+  }
+  return minutes < end ? cafeDateTime(date, endTime, calendar) : null
+}
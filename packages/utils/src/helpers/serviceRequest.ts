@@ -0,0 +1,110 @@
+/**
+ * Table Service Requests
+ *
+ * Diners ask for a waiter, the bill, cutlery, water or anything else from
+ * the table page (`service_requests`). Pelayan tablets and the owner's live
+ * orders page acknowledge a request and then complete it; the time until
+ * acknowledgement is the response time counted for that employee.
+ */
+
+// ===========================================
+// TYPES
+// ===========================================
+
+export type ServiceRequestType = 'call_waiter' | 'request_bill' | 'cutlery' | 'refill_water' | 'other'
+
+export type ServiceRequestStatus = 'pending' | 'acknowledged' | 'completed' | 'cancelled'
+
+export interface ServiceRequestTiming {
+  status: ServiceRequestStatus
+  created_at: string
+  acknowledged_at: string | null
+  acknowledged_by: string | null
+  completed_at: string | null
+  completed_by: string | null
+}
+
+export interface ServiceResponseStats {
+  employee_id: string
+  acknowledged: number
+  completed: number
+  avg_response_seconds: number | null
+  avg_completion_seconds: number | null
+}
+
+// ===========================================
+// CONSTANTS
+// ===========================================
+
+export const SERVICE_REQUEST_TYPES: Record<ServiceRequestType, { label: string; description: string }> = {
+  call_waiter: { label: 'Panggil Pelayan', description: 'Pelayan datang ke meja' },
+  request_bill: { label: 'Minta Bill', description: 'Minta tagihan untuk dibayar' },
+  cutlery: { label: 'Alat Makan & Tisu', description: 'Sendok, garpu, sedotan atau tisu' },
+  refill_water: { label: 'Isi Ulang Air', description: 'Tambah air minum' },
+  other: { label: 'Lainnya', description: 'Tulis permintaan Anda' }
+}
+
+// Requests still waiting for or being handled by staff
+export const OPEN_SERVICE_REQUEST_STATUSES: ServiceRequestStatus[] = ['pending', 'acknowledged']
+
+export const MAX_SERVICE_REQUEST_MESSAGE_LENGTH = 200
+
+// ===========================================
+// HELPERS
+// ===========================================
+
+export function isServiceRequestType(value: unknown): value is ServiceRequestType {
+  return typeof value === 'string' && Object.prototype.hasOwnProperty.call(SERVICE_REQUEST_TYPES, value)
+}
+
+function secondsBetween(from: string, to: string | null): number | null {
+  if (!to) return null
+  const seconds = (new Date(to).getTime() - new Date(from).getTime()) / 1000
+  return Number.isFinite(seconds) && seconds >= 0 ? seconds : null
+}
+
+/**
+ * Seconds from the diner's request until staff acknowledged it
+ */
+export function serviceResponseSeconds(request: ServiceRequestTiming): number | null {
+  return secondsBetween(request.created_at, request.acknowledged_at)
+}
+
+/**
+ * Response and completion times per employee. A request counts for the
+ * employee who acknowledged it and, for completion, whoever completed it.
+ */
+export function summarizeServiceResponse(requests: ServiceRequestTiming[]): ServiceResponseStats[] {
+  const byEmployee = new Map<string, { response: number[]; completion: number[] }>()
+  const entry = (employeeId: string) => {
+    let stats = byEmployee.get(employeeId)
+    if (!stats) {
+      stats = { response: [], completion: [] }
+      byEmployee.set(employeeId, stats)
+    }
+    return stats
+  }
+
+  for (const request of requests) {
+    const response = serviceResponseSeconds(request)
+    if (request.acknowledged_by && response !== null) {
+      entry(request.acknowledged_by).response.push(response)
+    }
+
+    const completion = secondsBetween(request.created_at, request.completed_at)
+    if (request.completed_by && completion !== null) {
+      entry(request.completed_by).completion.push(completion)
+    }
+  }
+
+  const average = (values: number[]) =>
+    values.length > 0 ? Math.round(values.reduce((sum, value) => sum + value, 0) / values.length) : null
+
+  return Array.from(byEmployee.entries()).map(([employeeId, stats]) => ({
+    employee_id: employeeId,
+    acknowledged: stats.response.length,
+    completed: stats.completion.length,
+    avg_response_seconds: average(stats.response),
+    avg_completion_seconds: average(stats.completion)
+  }))
+}
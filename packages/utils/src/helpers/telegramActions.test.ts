@@ -0,0 +1,69 @@
+import {
+  TELEGRAM_ACTION_TTL_HOURS,
+  buildApprovalKeyboard,
+  parseTelegramCommand,
+  signTelegramAction,
+  verifyTelegramAction,
+  type TelegramAction
+} from './telegramActions'
+
+const secret = 'test-callback-secret'
+const chatId = 123456789
+const action: TelegramAction = { subject: 'leave', decision: 'approve', id: '0b6c3a4e-5d8f-4f7a-9c21-8e1f2d3c4b5a' }
+const issuedAt = new Date('2026-10-19T08:00:00Z')
+const hoursLater = (hours: number) => new Date(issuedAt.getTime() + hours * 60 * 60 * 1000)
+
+describe('Telegram approval buttons', () => {
+  it('fit in the 64 bytes of callback_data', async () => {
+    const data = await signTelegramAction(action, chatId, secret, issuedAt)
+
+    expect(new TextEncoder().encode(data).length).toBeLessThanOrEqual(64)
+  })
+
+  it('verify in the chat they were sent to', async () => {
+    const data = await signTelegramAction(action, chatId, secret, issuedAt)
+
+    expect(await verifyTelegramAction(data, chatId, secret, hoursLater(1))).toEqual(action)
+    expect(await verifyTelegramAction(data, 987654321, secret, hoursLater(1))).toBeNull()
+    expect(await verifyTelegramAction(data, chatId, 'other-secret', hoursLater(1))).toBeNull()
+  })
+
+  it('expire after the time limit', async () => {
+    const data = await signTelegramAction(action, chatId, secret, issuedAt)
+
+    expect(await verifyTelegramAction(data, chatId, secret, hoursLater(TELEGRAM_ACTION_TTL_HOURS - 0.1))).toEqual(action)
+    expect(await verifyTelegramAction(data, chatId, secret, hoursLater(TELEGRAM_ACTION_TTL_HOURS + 0.1))).toBeNull()
+  })
+
+  it('reject a forged issue time or decision', async () => {
+    const data = await signTelegramAction(action, chatId, secret, issuedAt)
+    const [code, id, issued, signature] = data.split(':')
+    const later = (parseInt(issued, 36) + 24 * 60 * 60).toString(36)
+
+    expect(await verifyTelegramAction([code, id, later, signature].join(':'), chatId, secret, hoursLater(1))).toBeNull()
+    expect(await verifyTelegramAction(['lr', id, issued, signature].join(':'), chatId, secret, hoursLater(1))).toBeNull()
+  })
+
+  it('reject buttons in the old format without an issue time', async () => {
+    const data = await signTelegramAction(action, chatId, secret, issuedAt)
+    const [code, id, , signature] = data.split(':')
+
+    expect(await verifyTelegramAction([code, id, signature].join(':'), chatId, secret, hoursLater(1))).toBeNull()
+  })
+
+  it('come as an approve and reject pair', async () => {
+    const [[approve, reject]] = await buildApprovalKeyboard('payment', action.id, chatId, secret)
+
+    expect(await verifyTelegramAction(approve.callback_data, chatId, secret))
+      .toEqual({ subject: 'payment', decision: 'approve', id: action.id })
+    expect(await verifyTelegramAction(reject.callback_data, chatId, secret))
+      .toEqual({ subject: 'payment', decision: 'reject', id: action.id })
+  })
+})
+
+describe('parseTelegramCommand', () => {
+  it('reads the command and its arguments', () => {
+    expect(parseTelegramCommand('/Today@CafeBot 3')).toEqual({ command: 'today', args: ['3'] })
+    expect(parseTelegramCommand('halo')).toBeNull()
+  })
+})
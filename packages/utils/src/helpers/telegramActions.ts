@@ -0,0 +1,220 @@
+/**
+ * Telegram Bot Actions
+ *
+ * Approval buttons sent to the owner's Telegram chat (overtime, leave and
+ * transfer payments waiting for verification) and the commands the bot
+ * answers. A button's callback_data carries the action, the record id, when
+ * it was issued and an HMAC over those plus the chat it was sent to, so a
+ * button only works in that chat, stops working after
+ * TELEGRAM_ACTION_TTL_HOURS and cannot be forged from a hand-written
+ * callback. Telegram limits callback_data to 64 bytes, hence the one-letter
+ * codes, the base-36 timestamp and the truncated signature.
+ */
+
+// ===========================================
+// TYPES
+// ===========================================
+
+export type TelegramActionSubject = 'overtime' | 'leave' | 'payment'
+
+export type TelegramActionDecision = 'approve' | 'reject'
+
+export interface TelegramAction {
+  subject: TelegramActionSubject
+  decision: TelegramActionDecision
+  id: string
+}
+
+export interface TelegramInlineButton {
+  text: string
+  callback_data: string
+}
+
+export interface TelegramCommand {
+  command: string
+  args: string[]
+}
+
+// ===========================================
+// CONSTANTS
+// ===========================================
+
+const SUBJECT_CODES: Record<TelegramActionSubject, string> = {
+  overtime: 'o',
+  leave: 'l',
+  payment: 'p'
+}
+
+const DECISION_CODES: Record<TelegramActionDecision, string> = {
+  approve: 'a',
+  reject: 'r'
+}
+
+// 96 bits of the HMAC-SHA256, base64url
+const SIGNATURE_LENGTH = 16
+
+const MAX_CALLBACK_DATA_BYTES = 64
+
+// Buttons older than this are refused; the request is still on the dashboard
+export const TELEGRAM_ACTION_TTL_HOURS = 72
+
+// Allowance for a server clock running behind the one that signed
+const CLOCK_SKEW_SECONDS = 5 * 60
+
+const ID_PATTERN = /^[0-9a-f-]{36}$/i
+
+export const TELEGRAM_OWNER_COMMANDS: Record<string, string> = {
+  today: 'Ringkasan hari ini: omzet, pesanan, verifikasi dan staf hadir',
+  omzet: 'Omzet hari ini, 7 hari terakhir dan bulan ini',
+  stock: 'Bahan yang stoknya menipis atau habis'
+}
+
+export const TELEGRAM_EMPLOYEE_COMMANDS: Record<string, string> = {
+  jadwal: 'Jadwal shift 7 hari ke depan',
+  slip: 'Slip gaji terakhir'
+}
+
+// ===========================================
+// SIGNING
+// ===========================================
+
+const encoder = new TextEncoder()
+
+function base64Url(bytes: ArrayBuffer): string {
+  let binary = ''
+  new Uint8Array(bytes).forEach(byte => {
+    binary += String.fromCharCode(byte)
+  })
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '')
+}
+
+async function sign(payload: string, secret: string): Promise<string> {
+  const key = await crypto.subtle.importKey(
+    'raw',
+    encoder.encode(secret),
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    ['sign']
+  )
+  const signature = await crypto.subtle.sign('HMAC', key, encoder.encode(payload))
+  return base64Url(signature).slice(0, SIGNATURE_LENGTH)
+}
+
+// Compares without returning at the first differing character
+function safeEqual(a: string, b: string): boolean {
+  if (a.length !== b.length) return false
+  let diff = 0
+  for (let i = 0; i < a.length; i++) {
+    diff |= a.charCodeAt(i) ^ b.charCodeAt(i)
+  }
+  return diff === 0
+}
+
+const toUnixSeconds = (date: Date) => Math.floor(date.getTime() / 1000)
+
+/**
+ * callback_data for an action, valid only in chatId and for
+ * TELEGRAM_ACTION_TTL_HOURS from issuedAt
+ */
+export async function signTelegramAction(
+  action: TelegramAction,
+  chatId: string | number,
+  secret: string,
+  issuedAt: Date = new Date()
+): Promise<string> {
+  if (!secret) {
+    throw new Error('Telegram callback secret is not configured')
+  }
+  if (!ID_PATTERN.test(action.id)) {
+    throw new Error(`Invalid ${action.subject} id for a Telegram action`)
+  }
+
+  const payload = [
+    `${SUBJECT_CODES[action.subject]}${DECISION_CODES[action.decision]}`,
+    action.id.toLowerCase(),
+    toUnixSeconds(issuedAt).toString(36)
+  ].join(':')
+  const data = `${payload}:${await sign(`${payload}:${chatId}`, secret)}`
+
+  if (encoder.encode(data).length > MAX_CALLBACK_DATA_BYTES) {
+    throw new Error('Telegram callback data is too long')
+  }
+
+  return data
+}
+
+/**
+ * The action in callback_data pressed in chatId, or null when it is
+ * malformed, was not signed for that chat or has expired
+ */
+export async function verifyTelegramAction(
+  data: string | undefined,
+  chatId: string | number,
+  secret: string,
+  now: Date = new Date()
+): Promise<TelegramAction | null> {
+  if (!data || !secret) return null
+
+  const [code, id, issued, signature] = data.split(':')
+  if (!code || code.length !== 2 || !id || !ID_PATTERN.test(id) || !issued || !/^[0-9a-z]+$/.test(issued) || !signature) {
+    return null
+  }
+
+  const subject = (Object.keys(SUBJECT_CODES) as TelegramActionSubject[])
+    .find(key => SUBJECT_CODES[key] === code[0])
+  const decision = (Object.keys(DECISION_CODES) as TelegramActionDecision[])
+    .find(key => DECISION_CODES[key] === code[1])
+  if (!subject || !decision) {
+    return null
+  }
+
+  const expected = await sign(`${code}:${id}:${issued}:${chatId}`, secret)
+  if (!safeEqual(signature, expected)) {
+    return null
+  }
+
+  const age = toUnixSeconds(now) - parseInt(issued, 36)
+  if (age > TELEGRAM_ACTION_TTL_HOURS * 60 * 60 || age < -CLOCK_SKEW_SECONDS) {
+    return null
+  }
+
+  return { subject, decision, id }
+}
+
+/**
+ * Approve and reject buttons for one record, in one row
+ */
+export async function buildApprovalKeyboard(
+  subject: TelegramActionSubject,
+  id: string,
+  chatId: string | number,
+  secret: string
+): Promise<TelegramInlineButton[][]> {
+  const [approve, reject] = await Promise.all([
+    signTelegramAction({ subject, decision: 'approve', id }, chatId, secret),
+    signTelegramAction({ subject, decision: 'reject', id }, chatId, secret)
+  ])
+
+  return [[
+    { text: '✅ Setujui', callback_data: approve },
+    { text: '❌ Tolak', callback_data: reject }
+  ]]
+}
+
+// ===========================================
+// COMMANDS
+// ===========================================
+
+/**
+ * The command in a message ("/jadwal", "/today@CafeBot 3"), or null when
+ * the message is not a command
+ */
+export function parseTelegramCommand(text: string | undefined): TelegramCommand | null {
+  if (!text || !text.startsWith('/')) return null
+
+  const [head, ...args] = text.trim().split(/\s+/)
+  const command = head.slice(1).split('@')[0].toLowerCase()
+  if (!command) return null
+
+  return { command, args }
+}
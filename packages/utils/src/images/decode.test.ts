@@ -0,0 +1,122 @@
+import { readFileSync } from 'fs'
+import { join } from 'path'
+import { inflateSync } from 'zlib'
+import { decodeLuma, detectImageFormat, ImageDecodeError, type LumaImage } from './decode'
+
+/**
+ * The fixtures are one 320x640 bank transfer screenshot drawn in blocks: a
+ * blue header, a green check mark, the amount and six detail rows on a light
+ * grey background. transfer.jpg is a baseline 4:2:0 JPEG,
+ * transfer-progressive.jpg the same picture as a progressive JPEG with
+ * successive approximation and
+ * transfer-alpha.png an RGBA PNG whose background is fully transparent.
+ */
+function fixture(name: string): Uint8Array {
+  return new Uint8Array(readFileSync(join(__dirname, '__fixtures__', name)))
+}
+
+function pixel(image: LumaImage, x: number, y: number): number {
+  return image.data[y * image.width + x]
+}
+
+// Rec. 601 luma of the header's #1565c0
+const HEADER_LUMA = 0.299 * 0x15 + 0.587 * 0x65 + 0.114 * 0xc0
+
+describe('detectImageFormat', () => {
+  it('recognizes images by their signature', () => {
+    expect(detectImageFormat(fixture('transfer.jpg'))).toBe('jpeg')
+    expect(detectImageFormat(fixture('transfer-alpha.png'))).toBe('png')
+    expect(detectImageFormat(new TextEncoder().encode('RIFF\0\0\0\0WEBPVP8 '))).toBe('webp')
+    expect(detectImageFormat(new TextEncoder().encode('%PDF-1.4'))).toBe('unknown')
+  })
+})
+
+describe('decodeLuma', () => {
+  it('decodes a baseline JPEG at 1/8 scale from its DC coefficients', async () => {
+    const image = await decodeLuma(fixture('transfer.jpg'))
+
+    expect(image.width).toBe(40)
+    expect(image.height).toBe(80)
+    expect(image.data).toHaveLength(40 * 80)
+    expect(pixel(image, 20, 5)).toBeCloseTo(HEADER_LUMA, -1)
+    // Background left of the detail rows, then the rows themselves
+    expect(pixel(image, 1, 50)).toBeCloseTo(0xf5, -1)
+    expect(pixel(image, 33, 39)).toBeLessThan(100)
+  })
+
+  it('decodes a progressive JPEG to the same luma', async () => {
+    const baseline = await decodeLuma(fixture('transfer.jpg'))
+    const progressive = await decodeLuma(fixture('transfer-progressive.jpg'))
+
+    expect(progressive.width).toBe(baseline.width)
+    expect(progressive.height).toBe(baseline.height)
+    for (let i = 0; i < baseline.data.length; i++) {
+      expect(Math.abs(progressive.data[i] - baseline.data[i])).toBeLessThan(4)
+    }
+  })
+
+  it('decodes a JPEG at full resolution with the inverse DCT', async () => {
+    const jpeg = await decodeLuma(fixture('transfer.jpg'), { fullResolution: true })
+    const png = await decodeLuma(fixture('transfer-alpha.png'))
+
+    expect(jpeg.width).toBe(320)
+    expect(jpeg.height).toBe(640)
+    expect(pixel(jpeg, 160, 40)).toBeCloseTo(HEADER_LUMA, -1)
+    // Same picture as the PNG save for the background, grey here and transparent there
+    let difference = 0
+    for (let i = 0; i < jpeg.data.length; i++) {
+      difference += Math.abs(jpeg.data[i] - (png.data[i] === 255 ? 0xf5 : png.data[i]))
+    }
+    expect(difference / jpeg.data.length).toBeLessThan(1)
+  })
+
+  it('decodes a progressive JPEG at full resolution to the baseline pixels', async () => {
+    const baseline = await decodeLuma(fixture('transfer.jpg'), { fullResolution: true })
+    const progressive = await decodeLuma(fixture('transfer-progressive.jpg'), { fullResolution: true })
+
+    // Both carry the same quantized coefficients, only the scans differ
+    expect(progressive).toEqual(baseline)
+  })
+
+  it('decodes a PNG with an alpha channel over white', async () => {
+    const image = await decodeLuma(fixture('transfer-alpha.png'))
+
+    expect(image.width).toBe(320)
+    expect(image.height).toBe(640)
+    expect(pixel(image, 160, 40)).toBeCloseTo(HEADER_LUMA, 0)
+    // The transparent background comes out white, not black
+    expect(pixel(image, 5, 400)).toBeCloseTo(255, 0)
+  })
+
+  it('inflates PNG data with the given implementation', async () => {
+    const inflate = jest.fn((data: Uint8Array) => new Uint8Array(inflateSync(data)))
+
+    const image = await decodeLuma(fixture('transfer-alpha.png'), { inflate })
+
+    expect(inflate).toHaveBeenCalledTimes(1)
+    expect(pixel(image, 160, 40)).toBeCloseTo(HEADER_LUMA, 0)
+  })
+
+  it('rejects WebP and unknown formats', async () => {
+    await expect(decodeLuma(new TextEncoder().encode('RIFF\0\0\0\0WEBPVP8 '))).rejects.toMatchObject({
+      code: 'UNSUPPORTED_FORMAT'
+    })
+    await expect(decodeLuma(new TextEncoder().encode('not an image'))).rejects.toThrow(ImageDecodeError)
+  })
+
+  it('rejects a PNG cut off in its image data', async () => {
+    const png = fixture('transfer-alpha.png')
+    const inflate = (data: Uint8Array) => new Uint8Array(inflateSync(data)).subarray(0, 1000)
+
+    await expect(decodeLuma(png, { inflate })).rejects.toMatchObject({ code: 'CORRUPT_DATA' })
+  })
+
+  it('rejects a JPEG without image data', async () => {
+    const jpeg = fixture('transfer.jpg')
+    // Keep the headers up to the start of scan, then end the image
+    const sos = jpeg.findIndex((byte, i) => byte === 0xff && jpeg[i + 1] === 0xda)
+    const headersOnly = new Uint8Array([...jpeg.subarray(0, sos), 0xff, 0xd9])
+
+    await expect(decodeLuma(headersOnly)).rejects.toMatchObject({ code: 'CORRUPT_DATA' })
+  })
+})
@@ -0,0 +1,926 @@
+/**
+ * Image Luma Decoding
+ *
+ * Dependency-free decoding of JPEG and PNG into a grayscale (luma) image.
+ * For perceptual hashing JPEGs are decoded from their DC coefficients only,
+ * which yields the image at 1/8 scale without running the inverse DCT; text
+ * recognition asks for the full resolution instead. Works in the browser,
+ * Node and Deno.
+ */
+
+// ===========================================
+// TYPES
+// ===========================================
+
+export interface LumaImage {
+  width: number
+  height: number
+  data: Float32Array // row-major luma, 0-255
+}
+
+export type InflateFunction = (data: Uint8Array) => Uint8Array | Promise<Uint8Array>
+
+export interface DecodeLumaOptions {
+  /** zlib inflate used for PNG, defaults to DecompressionStream */
+  inflate?: InflateFunction
+  /** Decode JPEGs at full size with the inverse DCT rather than at 1/8 scale */
+  fullResolution?: boolean
+}
+
+export class ImageDecodeError extends Error {
+  constructor(message: string, public code: string) {
+    super(message)
+    this.name = 'ImageDecodeError'
+  }
+}
+
+// ===========================================
+// FORMAT DETECTION
+// ===========================================
+
+export type ImageFormat = 'jpeg' | 'png' | 'webp' | 'unknown'
+
+export function detectImageFormat(bytes: Uint8Array): ImageFormat {
+  if (bytes.length >= 3 && bytes[0] === 0xff && bytes[1] === 0xd8 && bytes[2] === 0xff) return 'jpeg'
+  if (
+    bytes.length >= 8 &&
+    bytes[0] === 0x89 && bytes[1] === 0x50 && bytes[2] === 0x4e && bytes[3] === 0x47 &&
+    bytes[4] === 0x0d && bytes[5] === 0x0a && bytes[6] === 0x1a && bytes[7] === 0x0a
+  ) return 'png'
+  if (
+    bytes.length >= 12 &&
+    bytes[0] === 0x52 && bytes[1] === 0x49 && bytes[2] === 0x46 && bytes[3] === 0x46 &&
+    bytes[8] === 0x57 && bytes[9] === 0x45 && bytes[10] === 0x42 && bytes[11] === 0x50
+  ) return 'webp'
+  return 'unknown'
+}
+
+/**
+ * Decode a JPEG or PNG into luma. JPEGs come back at 1/8 scale unless
+ * fullResolution is set.
+ */
+export async function decodeLuma(bytes: Uint8Array, options: DecodeLumaOptions = {}): Promise<LumaImage> {
+  const format = detectImageFormat(bytes)
+
+  switch (format) {
+    case 'jpeg':
+      return decodeJPEGLuma(bytes, options.fullResolution === true)
+    case 'png':
+      return decodePNGLuma(bytes, options.inflate || inflateZlib)
+    case 'webp':
+      throw new ImageDecodeError('WebP images are not supported', 'UNSUPPORTED_FORMAT')
+    default:
+      throw new ImageDecodeError('Unrecognized image format', 'UNSUPPORTED_FORMAT')
+  }
+}
+
+// ===========================================
+// JPEG
+// ===========================================
+
+// Position in the 8x8 block of each coefficient, in the zigzag order they are coded
+const ZIGZAG = new Uint8Array([
+  0, 1, 8, 16, 9, 2, 3, 10, 17, 24, 32, 25, 18, 11, 4, 5,
+  12, 19, 26, 33, 40, 48, 41, 34, 27, 20, 13, 6, 7, 14, 21, 28,
+  35, 42, 49, 56, 57, 50, 43, 36, 29, 22, 15, 23, 30, 37, 44, 51,
+  58, 59, 52, 45, 38, 31, 39, 46, 53, 60, 61, 54, 47, 55, 62, 63
+])
+
+interface HuffmanTable {
+  maxCode: Int32Array // per code length 1..16, -1 when unused
+  valPtr: Int32Array
+  minCode: Int32Array
+  values: Uint8Array
+}
+
+interface JPEGComponent {
+  id: number
+  h: number
+  v: number
+  quantTable: number
+  blocksPerLine: number
+  blocksPerColumn: number
+  dcTable?: HuffmanTable
+  acTable?: HuffmanTable
+  pred: number
+}
+
+interface JPEGFrame {
+  width: number
+  height: number
+  hMax: number
+  vMax: number
+  progressive: boolean
+  restartInterval: number
+}
+
+interface JPEGScan extends JPEGFrame {
+  spectralStart: number
+  spectralEnd: number
+  successiveHigh: number
+  successiveLow: number
+}
+
+/** Quantized luma coefficients of a full decode, 64 per block in zigzag order */
+interface JPEGBlocks {
+  stride: number // blocks per row, MCU padding included
+  coefficients: Int16Array
+}
+
+function buildHuffmanTable(counts: Uint8Array, values: Uint8Array): HuffmanTable {
+  const maxCode = new Int32Array(17).fill(-1)
+  const valPtr = new Int32Array(17)
+  const minCode = new Int32Array(17)
+
+  let code = 0
+  let k = 0
+  for (let length = 1; length <= 16; length++) {
+    const count = counts[length - 1]
+    if (count > 0) {
+      valPtr[length] = k
+      minCode[length] = code
+      code += count
+      k += count
+      maxCode[length] = code - 1
+    }
+    code <<= 1
+  }
+
+  return { maxCode, valPtr, minCode, values }
+}
+
+class JPEGBitReader {
+  private bitBuffer = 0
+  private bitCount = 0
+
+  constructor(private data: Uint8Array, public pos: number) {}
+
+  readBit(): number {
+    if (this.bitCount === 0) {
+      let byte = 0
+      if (this.pos < this.data.length) {
+        byte = this.data[this.pos]
+        if (byte === 0xff) {
+          const next = this.data[this.pos + 1]
+          if (next === 0x00) {
+            this.pos += 2
+          } else {
+            // Hit a marker: feed zeros and leave the marker for the caller
+            byte = 0
+          }
+        } else {
+          this.pos++
+        }
+      }
+      this.bitBuffer = byte
+      this.bitCount = 8
+    }
+    this.bitCount--
+    return (this.bitBuffer >> this.bitCount) & 1
+  }
+
+  receive(length: number): number {
+    let value = 0
+    for (let i = 0; i < length; i++) {
+      value = (value << 1) | this.readBit()
+    }
+    return value
+  }
+
+  decode(table: HuffmanTable): number {
+    let code = 0
+    for (let length = 1; length <= 16; length++) {
+      code = (code << 1) | this.readBit()
+      if (code <= table.maxCode[length]) {
+        return table.values[table.valPtr[length] + code - table.minCode[length]]
+      }
+    }
+    throw new ImageDecodeError('Invalid Huffman code in JPEG data', 'CORRUPT_DATA')
+  }
+
+  /** Skip the RSTn marker at a restart interval boundary */
+  restart(): void {
+    this.bitCount = 0
+    while (this.pos + 1 < this.data.length) {
+      if (this.data[this.pos] === 0xff && this.data[this.pos + 1] >= 0xd0 && this.data[this.pos + 1] <= 0xd7) {
+        this.pos += 2
+        return
+      }
+      this.pos++
+    }
+  }
+}
+
+function extend(value: number, length: number): number {
+  return value < 1 << (length - 1) ? value - (1 << length) + 1 : value
+}
+
+function decodeJPEGLuma(data: Uint8Array, fullResolution: boolean): LumaImage {
+  const huffmanDC: Record<number, HuffmanTable> = {}
+  const huffmanAC: Record<number, HuffmanTable> = {}
+  const quantTables: Record<number, Uint16Array> = {} // zigzag order
+  let components: JPEGComponent[] = []
+  let width = 0
+  let height = 0
+  let hMax = 1
+  let vMax = 1
+  let progressive = false
+  let restartInterval = 0
+  let adobeTransform: number | null = null
+  let lumaDC: Float64Array | null = null
+  let lumaBlocks: JPEGBlocks | null = null
+
+  const readUint16 = (offset: number) => (data[offset] << 8) | data[offset + 1]
+
+  let offset = 2
+  while (offset + 4 <= data.length) {
+    if (data[offset] !== 0xff) {
+      offset++
+      continue
+    }
+
+    const marker = data[offset + 1]
+    offset += 2
+
+    // Fill bytes and standalone markers
+    if (marker === 0xff || marker === 0x01 || (marker >= 0xd0 && marker <= 0xd7)) {
+      if (marker === 0xff) offset--
+      continue
+    }
+    if (marker === 0xd9) break
+
+    const length = readUint16(offset)
+    const segment = offset + 2
+    const segmentEnd = offset + length
+
+    switch (marker) {
+      case 0xc4: { // DHT
+        let p = segment
+        while (p < segmentEnd) {
+          const tableClass = data[p] >> 4
+          const tableId = data[p] & 15
+          const counts = data.subarray(p + 1, p + 17)
+          const total = counts.reduce((sum, count) => sum + count, 0)
+          const values = data.slice(p + 17, p + 17 + total)
+          const table = buildHuffmanTable(counts, values)
+          if (tableClass === 0) huffmanDC[tableId] = table
+          else huffmanAC[tableId] = table
+          p += 17 + total
+        }
+        break
+      }
+
+      case 0xdb: { // DQT
+        let p = segment
+        while (p < segmentEnd) {
+          const precision = data[p] >> 4
+          const table = new Uint16Array(64)
+          for (let k = 0; k < 64; k++) {
+            table[k] = precision === 0 ? data[p + 1 + k] : readUint16(p + 1 + k * 2)
+          }
+          quantTables[data[p] & 15] = table
+          p += 1 + 64 * (precision === 0 ? 1 : 2)
+        }
+        break
+      }
+
+      case 0xdd: // DRI
+        restartInterval = readUint16(segment)
+        break
+
+      case 0xee: // APP14, Adobe color transform flag
+        if (length >= 12 && String.fromCharCode(...data.subarray(segment, segment + 5)) === 'Adobe') {
+          adobeTransform = data[segment + 11]
+        }
+        break
+
+      case 0xc0: // Baseline
+      case 0xc1: // Extended sequential
+      case 0xc2: { // Progressive
+        progressive = marker === 0xc2
+        height = readUint16(segment + 1)
+        width = readUint16(segment + 3)
+        const count = data[segment + 5]
+        components = []
+        for (let i = 0; i < count; i++) {
+          const p = segment + 6 + i * 3
+          components.push({
+            id: data[p],
+            h: data[p + 1] >> 4 || 1,
+            v: data[p + 1] & 15 || 1,
+            quantTable: data[p + 2],
+            blocksPerLine: 0,
+            blocksPerColumn: 0,
+            pred: 0
+          })
+        }
+        hMax = Math.max(...components.map(component => component.h))
+        vMax = Math.max(...components.map(component => component.v))
+        for (const component of components) {
+          component.blocksPerLine = Math.ceil(Math.ceil(width * component.h / hMax) / 8)
+          component.blocksPerColumn = Math.ceil(Math.ceil(height * component.v / vMax) / 8)
+        }
+        break
+      }
+
+      case 0xc3: case 0xc5: case 0xc6: case 0xc7:
+      case 0xc9: case 0xca: case 0xcb: case 0xcd: case 0xce: case 0xcf:
+        throw new ImageDecodeError('Lossless, hierarchical and arithmetic-coded JPEGs are not supported', 'UNSUPPORTED_FORMAT')
+
+      case 0xda: { // SOS
+        if (components.length === 0) {
+          throw new ImageDecodeError('JPEG scan before frame header', 'CORRUPT_DATA')
+        }
+
+        // The first component is only luma for grayscale and YCbCr images
+        const isRGB = components.length === 3 &&
+          (adobeTransform === 0 || components.map(c => c.id).join() === '82,71,66')
+        if (components.length === 4 || isRGB) {
+          throw new ImageDecodeError('Only grayscale and YCbCr JPEGs are supported', 'UNSUPPORTED_FORMAT')
+        }
+
+        const count = data[segment]
+        const scanComponents: JPEGComponent[] = []
+        for (let i = 0; i < count; i++) {
+          const id = data[segment + 1 + i * 2]
+          const tables = data[segment + 2 + i * 2]
+          const component = components.find(c => c.id === id)
+          if (!component) throw new ImageDecodeError('JPEG scan references unknown component', 'CORRUPT_DATA')
+          component.dcTable = huffmanDC[tables >> 4]
+          component.acTable = huffmanAC[tables & 15]
+          scanComponents.push(component)
+        }
+        const p = segment + 1 + count * 2
+        const spectralStart = data[p]
+        const spectralEnd = data[p + 1]
+        const successiveHigh = data[p + 2] >> 4
+        const successiveLow = data[p + 2] & 15
+
+        const luma = components[0]
+
+        // Full resolution needs every scan that carries luma coefficients
+        if (fullResolution) {
+          if (scanComponents.includes(luma)) {
+            const frame = { width, height, hMax, vMax, progressive, restartInterval }
+            lumaBlocks = lumaBlocks || createLumaBlocks(luma, frame)
+            const end = decodeScan(data, segmentEnd, luma, scanComponents, lumaBlocks, {
+              ...frame,
+              spectralStart,
+              spectralEnd,
+              successiveHigh,
+              successiveLow
+            })
+            offset = skipEntropyCodedData(data, end)
+          } else {
+            offset = skipEntropyCodedData(data, segmentEnd)
+          }
+          continue
+        }
+
+        const isLumaDCScan = scanComponents.includes(luma) && spectralStart === 0 && successiveHigh === 0
+
+        if (isLumaDCScan) {
+          lumaDC = decodeDCScan(data, segmentEnd, components, scanComponents, {
+            width,
+            height,
+            hMax,
+            vMax,
+            progressive,
+            restartInterval,
+            successiveLow
+          })
+          const scale = (quantTables[luma.quantTable]?.[0] ?? 1) / 8
+          const out = new Float32Array(luma.blocksPerLine * luma.blocksPerColumn)
+          for (let i = 0; i < out.length; i++) {
+            out[i] = Math.max(0, Math.min(255, lumaDC[i] * scale + 128))
+          }
+          return { width: luma.blocksPerLine, height: luma.blocksPerColumn, data: out }
+        }
+
+        // Not the scan we need, skip its entropy-coded data
+        offset = skipEntropyCodedData(data, segmentEnd)
+        continue
+      }
+    }
+
+    offset = segmentEnd
+  }
+
+  if (lumaBlocks) {
+    const luma = components[0]
+    return inverseDCTLuma(lumaBlocks, luma, quantTables[luma.quantTable], {
+      width: Math.ceil(width * luma.h / hMax),
+      height: Math.ceil(height * luma.v / vMax)
+    })
+  }
+
+  throw new ImageDecodeError(lumaDC ? 'JPEG decode failed' : 'JPEG has no luma DC scan', 'CORRUPT_DATA')
+}
+
+function skipEntropyCodedData(data: Uint8Array, offset: number): number {
+  while (offset + 1 < data.length) {
+    if (data[offset] === 0xff) {
+      const next = data[offset + 1]
+      if (next !== 0x00 && !(next >= 0xd0 && next <= 0xd7)) return offset
+    }
+    offset++
+  }
+  return data.length
+}
+
+function decodeDCScan(
+  data: Uint8Array,
+  offset: number,
+  components: JPEGComponent[],
+  scanComponents: JPEGComponent[],
+  frame: {
+    width: number
+    height: number
+    hMax: number
+    vMax: number
+    progressive: boolean
+    restartInterval: number
+    successiveLow: number
+  }
+): Float64Array {
+  const luma = components[0]
+  const reader = new JPEGBitReader(data, offset)
+  const interleaved = scanComponents.length > 1
+  const mcusPerLine = interleaved ? Math.ceil(frame.width / (8 * frame.hMax)) : luma.blocksPerLine
+  const mcusPerColumn = interleaved ? Math.ceil(frame.height / (8 * frame.vMax)) : luma.blocksPerColumn
+  const stride = interleaved ? mcusPerLine * luma.h : luma.blocksPerLine
+  const rows = interleaved ? mcusPerColumn * luma.v : luma.blocksPerColumn
+  const dcPadded = new Float64Array(stride * rows)
+  const totalMCUs = mcusPerLine * mcusPerColumn
+
+  for (const component of scanComponents) component.pred = 0
+
+  const decodeBlock = (component: JPEGComponent): number => {
+    if (!component.dcTable) throw new ImageDecodeError('Missing JPEG DC table', 'CORRUPT_DATA')
+    const t = reader.decode(component.dcTable)
+    const diff = t === 0 ? 0 : extend(reader.receive(t), t)
+    component.pred += diff
+
+    // Sequential scans carry the AC coefficients right after the DC one
+    if (!frame.progressive) {
+      if (!component.acTable) throw new ImageDecodeError('Missing JPEG AC table', 'CORRUPT_DATA')
+      for (let k = 1; k < 64;) {
+        const rs = reader.decode(component.acTable)
+        const s = rs & 15
+        const r = rs >> 4
+        if (s === 0) {
+          if (r < 15) break
+          k += 16
+        } else {
+          k += r
+          reader.receive(s)
+          k++
+        }
+      }
+    }
+
+    return component.pred * (1 << frame.successiveLow)
+  }
+
+  for (let mcu = 0; mcu < totalMCUs; mcu++) {
+    if (frame.restartInterval > 0 && mcu > 0 && mcu % frame.restartInterval === 0) {
+      reader.restart()
+      for (const component of scanComponents) component.pred = 0
+    }
+
+    const mcuRow = Math.floor(mcu / mcusPerLine)
+    const mcuCol = mcu % mcusPerLine
+
+    if (!interleaved) {
+      dcPadded[mcuRow * stride + mcuCol] = decodeBlock(luma)
+      continue
+    }
+
+    for (const component of scanComponents) {
+      for (let v = 0; v < component.v; v++) {
+        for (let h = 0; h < component.h; h++) {
+          const value = decodeBlock(component)
+          if (component === luma) {
+            dcPadded[(mcuRow * luma.v + v) * stride + mcuCol * luma.h + h] = value
+          }
+        }
+      }
+    }
+  }
+
+  // Crop MCU padding to the component's real block grid
+  const dc = new Float64Array(luma.blocksPerLine * luma.blocksPerColumn)
+  for (let y = 0; y < luma.blocksPerColumn; y++) {
+    for (let x = 0; x < luma.blocksPerLine; x++) {
+      dc[y * luma.blocksPerLine + x] = dcPadded[y * stride + x]
+    }
+  }
+  return dc
+}
+
+function createLumaBlocks(luma: JPEGComponent, frame: JPEGFrame): JPEGBlocks {
+  const stride = Math.ceil(frame.width / (8 * frame.hMax)) * luma.h
+  const rows = Math.ceil(frame.height / (8 * frame.vMax)) * luma.v
+  return { stride, coefficients: new Int16Array(stride * rows * 64) }
+}
+
+/**
+ * Decode one scan into the luma coefficients, covering sequential scans and
+ * the four kinds of progressive scan. Other components in an interleaved
+ * scan are decoded into a scratch block only to stay in step with the
+ * bitstream. Returns where the entropy-coded data stopped.
+ */
+function decodeScan(
+  data: Uint8Array,
+  offset: number,
+  luma: JPEGComponent,
+  scanComponents: JPEGComponent[],
+  blocks: JPEGBlocks,
+  scan: JPEGScan
+): number {
+  const reader = new JPEGBitReader(data, offset)
+  const interleaved = scanComponents.length > 1
+  const mcusPerLine = interleaved ? Math.ceil(scan.width / (8 * scan.hMax)) : luma.blocksPerLine
+  const mcusPerColumn = interleaved ? Math.ceil(scan.height / (8 * scan.vMax)) : luma.blocksPerColumn
+  const totalMCUs = mcusPerLine * mcusPerColumn
+  const coefficients = blocks.coefficients
+  const scratch = new Int16Array(64)
+  const Al = scan.successiveLow
+  let eobrun = 0
+
+  for (const component of scanComponents) component.pred = 0
+
+  const huffman = (table: HuffmanTable | undefined, kind: string): HuffmanTable => {
+    if (!table) throw new ImageDecodeError(`Missing JPEG ${kind} table`, 'CORRUPT_DATA')
+    return table
+  }
+
+  const decodeDC = (component: JPEGComponent): number => {
+    const t = reader.decode(huffman(component.dcTable, 'DC'))
+    component.pred += t === 0 ? 0 : extend(reader.receive(t), t)
+    return component.pred
+  }
+
+  const decodeSequential = (component: JPEGComponent, block: Int16Array, base: number) => {
+    block[base] = decodeDC(component)
+    const table = huffman(component.acTable, 'AC')
+    for (let k = 1; k < 64;) {
+      const rs = reader.decode(table)
+      const s = rs & 15
+      const r = rs >> 4
+      if (s === 0) {
+        if (r < 15) break
+        k += 16
+        continue
+      }
+      k += r
+      if (k > 63) throw new ImageDecodeError('JPEG block overflows its coefficients', 'CORRUPT_DATA')
+      block[base + k] = extend(reader.receive(s), s)
+      k++
+    }
+  }
+
+  const decodeDCFirst = (component: JPEGComponent, block: Int16Array, base: number) => {
+    block[base] = decodeDC(component) * (1 << Al)
+  }
+
+  const decodeDCRefine = (_component: JPEGComponent, block: Int16Array, base: number) => {
+    if (reader.readBit()) block[base] |= 1 << Al
+  }
+
+  const decodeACFirst = (component: JPEGComponent, block: Int16Array, base: number) => {
+    if (eobrun > 0) {
+      eobrun--
+      return
+    }
+    const table = huffman(component.acTable, 'AC')
+    for (let k = scan.spectralStart; k <= scan.spectralEnd;) {
+      const rs = reader.decode(table)
+      const s = rs & 15
+      const r = rs >> 4
+      if (s === 0) {
+        if (r < 15) {
+          eobrun = reader.receive(r) + (1 << r) - 1
+          break
+        }
+        k += 16
+        continue
+      }
+      k += r
+      if (k > 63) throw new ImageDecodeError('JPEG block overflows its coefficients', 'CORRUPT_DATA')
+      block[base + k] = extend(reader.receive(s), s) * (1 << Al)
+      k++
+    }
+  }
+
+  // Refinement adds one bit to coefficients already nonzero and places new
+  // ones of magnitude 1 << Al, following libjpeg's decode_mcu_AC_refine
+  const decodeACRefine = (component: JPEGComponent, block: Int16Array, base: number) => {
+    const p1 = 1 << Al
+    const m1 = -1 << Al
+    const end = Math.min(scan.spectralEnd, 63)
+    let k = scan.spectralStart
+
+    const refine = (index: number) => {
+      const value = block[base + index]
+      if (reader.readBit() && (value & p1) === 0) {
+        block[base + index] = value + (value >= 0 ? p1 : m1)
+      }
+    }
+
+    if (eobrun === 0) {
+      const table = huffman(component.acTable, 'AC')
+      for (; k <= end; k++) {
+        const rs = reader.decode(table)
+        let r = rs >> 4
+        let s = rs & 15
+        if (s !== 0) {
+          s = reader.readBit() ? p1 : m1
+        } else if (r !== 15) {
+          eobrun = (1 << r) + (r > 0 ? reader.receive(r) : 0)
+          break
+        }
+
+        // Skip r zero coefficients, refining the nonzero ones passed over
+        while (k <= end) {
+          if (block[base + k] !== 0) {
+            refine(k)
+          } else if (--r < 0) {
+            break
+          }
+          k++
+        }
+
+        if (s !== 0 && k <= end) block[base + k] = s
+      }
+    }
+
+    if (eobrun > 0) {
+      for (; k <= end; k++) {
+        if (block[base + k] !== 0) refine(k)
+      }
+      eobrun--
+    }
+  }
+
+  const decodeBlock = !scan.progressive
+    ? decodeSequential
+    : scan.spectralStart === 0
+      ? (scan.successiveHigh === 0 ? decodeDCFirst : decodeDCRefine)
+      : (scan.successiveHigh === 0 ? decodeACFirst : decodeACRefine)
+
+  const decodeLumaBlock = (row: number, col: number) => {
+    decodeBlock(luma, coefficients, (row * blocks.stride + col) * 64)
+  }
+
+  for (let mcu = 0; mcu < totalMCUs; mcu++) {
+    if (scan.restartInterval > 0 && mcu > 0 && mcu % scan.restartInterval === 0) {
+      reader.restart()
+      for (const component of scanComponents) component.pred = 0
+      eobrun = 0
+    }
+
+    const mcuRow = Math.floor(mcu / mcusPerLine)
+    const mcuCol = mcu % mcusPerLine
+
+    if (!interleaved) {
+      decodeLumaBlock(mcuRow, mcuCol)
+      continue
+    }
+
+    for (const component of scanComponents) {
+      for (let v = 0; v < component.v; v++) {
+        for (let h = 0; h < component.h; h++) {
+          if (component === luma) {
+            decodeLumaBlock(mcuRow * luma.v + v, mcuCol * luma.h + h)
+          } else {
+            scratch.fill(0)
+            decodeBlock(component, scratch, 0)
+          }
+        }
+      }
+    }
+  }
+
+  return reader.pos
+}
+
+// IDCT basis: IDCT_BASIS[x * 8 + u] = C(u) / 2 * cos((2x + 1)u * pi / 16)
+const IDCT_BASIS = new Float64Array(64)
+for (let x = 0; x < 8; x++) {
+  for (let u = 0; u < 8; u++) {
+    IDCT_BASIS[x * 8 + u] = (u === 0 ? Math.SQRT1_2 : 1) / 2 * Math.cos(((2 * x + 1) * u * Math.PI) / 16)
+  }
+}
+
+/**
+ * Dequantize and inverse-transform the luma blocks into pixels, cropped to
+ * the luma plane's size
+ */
+function inverseDCTLuma(
+  blocks: JPEGBlocks,
+  luma: JPEGComponent,
+  quantTable: Uint16Array | undefined,
+  size: { width: number; height: number }
+): LumaImage {
+  if (!quantTable) throw new ImageDecodeError('Missing JPEG quantization table', 'CORRUPT_DATA')
+
+  const out = new Float32Array(size.width * size.height)
+  const block = new Float64Array(64)
+  const rows = new Float64Array(64)
+
+  for (let blockRow = 0; blockRow < luma.blocksPerColumn; blockRow++) {
+    for (let blockCol = 0; blockCol < luma.blocksPerLine; blockCol++) {
+      const base = (blockRow * blocks.stride + blockCol) * 64
+      for (let k = 0; k < 64; k++) {
+        block[ZIGZAG[k]] = blocks.coefficients[base + k] * quantTable[k]
+      }
+
+      // Rows first (u -> x), then columns (v -> y)
+      for (let v = 0; v < 8; v++) {
+        for (let x = 0; x < 8; x++) {
+          let sum = 0
+          for (let u = 0; u < 8; u++) sum += IDCT_BASIS[x * 8 + u] * block[v * 8 + u]
+          rows[v * 8 + x] = sum
+        }
+      }
+
+      for (let y = 0; y < 8; y++) {
+        const py = blockRow * 8 + y
+        if (py >= size.height) break
+        for (let x = 0; x < 8; x++) {
+          const px = blockCol * 8 + x
+          if (px >= size.width) break
+          let sum = 0
+          for (let v = 0; v < 8; v++) sum += IDCT_BASIS[y * 8 + v] * rows[v * 8 + x]
+          out[py * size.width + px] = Math.max(0, Math.min(255, sum + 128))
+        }
+      }
+    }
+  }
+
+  return { width: size.width, height: size.height, data: out }
+}
+
+// ===========================================
+// PNG
+// ===========================================
+
+async function inflateZlib(data: Uint8Array): Promise<Uint8Array> {
+  if (typeof DecompressionStream === 'undefined') {
+    throw new ImageDecodeError('No inflate implementation available for PNG', 'UNSUPPORTED_RUNTIME')
+  }
+  const stream = new Blob([data.slice()]).stream().pipeThrough(new DecompressionStream('deflate'))
+  return new Uint8Array(await new Response(stream).arrayBuffer())
+}
+
+const PNG_CHANNELS: Record<number, number> = { 0: 1, 2: 3, 3: 1, 4: 2, 6: 4 }
+
+async function decodePNGLuma(data: Uint8Array, inflate: InflateFunction): Promise<LumaImage> {
+  const view = new DataView(data.buffer, data.byteOffset, data.byteLength)
+  let width = 0
+  let height = 0
+  let bitDepth = 8
+  let colorType = 0
+  let interlace = 0
+  let palette: Uint8Array | null = null
+  let transparency: Uint8Array | null = null
+  const idat: Uint8Array[] = []
+
+  let offset = 8
+  while (offset + 8 <= data.length) {
+    const length = view.getUint32(offset)
+    const type = String.fromCharCode(data[offset + 4], data[offset + 5], data[offset + 6], data[offset + 7])
+    const chunk = data.subarray(offset + 8, offset + 8 + length)
+
+    if (type === 'IHDR') {
+      width = view.getUint32(offset + 8)
+      height = view.getUint32(offset + 12)
+      bitDepth = chunk[8]
+      colorType = chunk[9]
+      interlace = chunk[12]
+    } else if (type === 'PLTE') {
+      palette = chunk
+    } else if (type === 'tRNS') {
+      transparency = chunk
+    } else if (type === 'IDAT') {
+      idat.push(chunk)
+    } else if (type === 'IEND') {
+      break
+    }
+
+    offset += 12 + length
+  }
+
+  const channels = PNG_CHANNELS[colorType]
+  if (!width || !height || !channels) {
+    throw new ImageDecodeError('Invalid PNG header', 'CORRUPT_DATA')
+  }
+  if (interlace !== 0) {
+    throw new ImageDecodeError('Interlaced PNGs are not supported', 'UNSUPPORTED_FORMAT')
+  }
+  if (colorType === 3 && !palette) {
+    throw new ImageDecodeError('PNG palette missing', 'CORRUPT_DATA')
+  }
+
+  const compressed = new Uint8Array(idat.reduce((sum, chunk) => sum + chunk.length, 0))
+  let position = 0
+  for (const chunk of idat) {
+    compressed.set(chunk, position)
+    position += chunk.length
+  }
+
+  const raw = await inflate(compressed)
+  const bitsPerPixel = channels * bitDepth
+  const bytesPerPixel = Math.max(1, bitsPerPixel >> 3)
+  const rowBytes = Math.ceil((width * bitsPerPixel) / 8)
+
+  if (raw.length < height * (rowBytes + 1)) {
+    throw new ImageDecodeError('PNG image data is truncated', 'CORRUPT_DATA')
+  }
+
+  const out = new Float32Array(width * height)
+  let previous = new Uint8Array(rowBytes)
+  let current = new Uint8Array(rowBytes)
+  const maxSample = (1 << bitDepth) - 1
+
+  const sample = (row: Uint8Array, index: number): number => {
+    if (bitDepth === 8) return row[index]
+    if (bitDepth === 16) return row[index * 2]
+    const bitOffset = index * bitDepth
+    const value = (row[bitOffset >> 3] >> (8 - bitDepth - (bitOffset & 7))) & maxSample
+    return colorType === 3 ? value : Math.round((value * 255) / maxSample)
+  }
+
+  for (let y = 0; y < height; y++) {
+    const rowStart = y * (rowBytes + 1)
+    const filter = raw[rowStart]
+    current.set(raw.subarray(rowStart + 1, rowStart + 1 + rowBytes))
+    unfilterPNGRow(filter, current, previous, bytesPerPixel)
+
+    for (let x = 0; x < width; x++) {
+      const base = x * channels
+      let r: number, g: number, b: number
+      let alpha = 255
+
+      if (colorType === 3) {
+        const index = sample(current, x)
+        r = palette![index * 3]
+        g = palette![index * 3 + 1]
+        b = palette![index * 3 + 2]
+        if (transparency && index < transparency.length) alpha = transparency[index]
+      } else if (colorType === 0 || colorType === 4) {
+        r = g = b = sample(current, base)
+        if (colorType === 4) alpha = sample(current, base + 1)
+      } else {
+        r = sample(current, base)
+        g = sample(current, base + 1)
+        b = sample(current, base + 2)
+        if (colorType === 6) alpha = sample(current, base + 3)
+      }
+
+      // Composite transparency over white, like a screenshot viewer would
+      const luma = 0.299 * r + 0.587 * g + 0.114 * b
+      out[y * width + x] = (luma * alpha + 255 * (255 - alpha)) / 255
+    }
+
+    const swap = previous
+    previous = current
+    current = swap
+  }
+
+  return { width, height, data: out }
+}
+
+function unfilterPNGRow(filter: number, row: Uint8Array, previous: Uint8Array, bpp: number): void {
+  switch (filter) {
+    case 0:
+      return
+    case 1: // Sub
+      for (let i = bpp; i < row.length; i++) row[i] = (row[i] + row[i - bpp]) & 0xff
+      return
+    case 2: // Up
+      for (let i = 0; i < row.length; i++) row[i] = (row[i] + previous[i]) & 0xff
+      return
+    case 3: // Average
+      for (let i = 0; i < row.length; i++) {
+        const left = i >= bpp ? row[i - bpp] : 0
+        row[i] = (row[i] + ((left + previous[i]) >> 1)) & 0xff
+      }
+      return
+    case 4: // Paeth
+      for (let i = 0; i < row.length; i++) {
+        const a = i >= bpp ? row[i - bpp] : 0
+        const b = previous[i]
+        const c = i >= bpp ? previous[i - bpp] : 0
+        const p = a + b - c
+        const pa = Math.abs(p - a)
+        const pb = Math.abs(p - b)
+        const pc = Math.abs(p - c)
+        row[i] = (row[i] + (pa <= pb && pa <= pc ? a : pb <= pc ? b : c)) & 0xff
+      }
+      return
+    default:
+      throw new ImageDecodeError(`Unknown PNG filter type ${filter}`, 'CORRUPT_DATA')
+  }
+}
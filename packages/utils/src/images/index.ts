@@ -0,0 +1,8 @@
+/**
+ * Image Utilities Index
+ *
+ * Central export for luma decoding and perceptual hashing of payment proofs
+ */
+
+export * from './decode'
+export * from './perceptual-hash'
@@ -0,0 +1,106 @@
+import { readFileSync } from 'fs'
+import { join } from 'path'
+import {
+  compareFingerprints,
+  fingerprintImage,
+  hammingDistance,
+  PROOF_MATCH_THRESHOLDS,
+  signatureDistance,
+  type ImageFingerprint
+} from './perceptual-hash'
+
+/**
+ * transfer.jpg is a bank transfer screenshot; the other fixtures are that
+ * screenshot as a progressive JPEG, as a transparent PNG, scaled down and
+ * saved again at lower quality, and cut off below the detail rows.
+ * other-transfer.jpg is a second transfer from the same app: same layout,
+ * different amount and details.
+ */
+function fixture(name: string): Uint8Array {
+  return new Uint8Array(readFileSync(join(__dirname, '__fixtures__', name)))
+}
+
+async function fingerprint(name: string): Promise<ImageFingerprint> {
+  return fingerprintImage(fixture(name))
+}
+
+describe('fingerprintImage', () => {
+  let original: ImageFingerprint
+
+  beforeAll(async () => {
+    original = await fingerprint('transfer.jpg')
+  })
+
+  it('fingerprints with a 64-bit pHash and a 24x48 signature', () => {
+    expect(original.sha256).toMatch(/^[0-9a-f]{64}$/)
+    expect(original.phash).toMatch(/^[0-9a-f]{16}$/)
+    expect(original.signature).toMatch(/^[0-9a-f]{1152}$/)
+  })
+
+  it('matches identical bytes exactly', async () => {
+    const again = await fingerprint('transfer.jpg')
+
+    expect(again).toEqual(original)
+    expect(compareFingerprints(original, again)).toEqual({
+      match_type: 'exact',
+      phash_distance: 0,
+      signature_distance: 0
+    })
+  })
+
+  it.each(['transfer-progressive.jpg', 'transfer-alpha.png', 'transfer-resaved.jpg'])(
+    'matches the screenshot re-encoded as %s',
+    async name => {
+      const reencoded = await fingerprint(name)
+
+      expect(reencoded.sha256).not.toBe(original.sha256)
+      expect(compareFingerprints(original, reencoded)).toMatchObject({ match_type: 'perceptual' })
+      expect(hammingDistance(original.phash!, reencoded.phash!)).toBeLessThanOrEqual(PROOF_MATCH_THRESHOLDS.phash)
+      expect(signatureDistance(original.signature!, reencoded.signature!))
+        .toBeLessThanOrEqual(PROOF_MATCH_THRESHOLDS.signatureCells)
+    }
+  )
+
+  it('does not match a cropped copy', async () => {
+    const cropped = await fingerprint('transfer-cropped.jpg')
+
+    expect(compareFingerprints(original, cropped)).toBeNull()
+    expect(signatureDistance(original.signature!, cropped.signature!))
+      .toBeGreaterThan(PROOF_MATCH_THRESHOLDS.signatureCells)
+  })
+
+  it('does not match a different transfer with the same layout', async () => {
+    const other = await fingerprint('other-transfer.jpg')
+
+    expect(compareFingerprints(original, other)).toBeNull()
+    expect(signatureDistance(original.signature!, other.signature!))
+      .toBeGreaterThan(PROOF_MATCH_THRESHOLDS.signatureCells)
+  })
+
+  it('keeps only the exact hash of an image it cannot decode', async () => {
+    const unreadable = await fingerprintImage(new TextEncoder().encode('RIFF\0\0\0\0WEBPVP8 '))
+
+    expect(unreadable).toEqual({ sha256: expect.stringMatching(/^[0-9a-f]{64}$/), phash: null, signature: null })
+    expect(compareFingerprints(original, unreadable)).toBeNull()
+  })
+})
+
+describe('hammingDistance', () => {
+  it('counts the differing bits', () => {
+    expect(hammingDistance('0000000000000000', '0000000000000000')).toBe(0)
+    expect(hammingDistance('f000000000000001', '0000000000000000')).toBe(5)
+    expect(hammingDistance('ffffffffffffffff', '0000000000000000')).toBe(64)
+  })
+
+  it('refuses hashes of different lengths', () => {
+    expect(() => hammingDistance('ff', 'fff')).toThrow('Hashes must be the same length')
+  })
+})
+
+describe('signatureDistance', () => {
+  it('ignores drift within the re-encoding tolerance', () => {
+    expect(signatureDistance('8888', '8a76')).toBe(0)
+    expect(signatureDistance('8888', 'b888')).toBe(1)
+    expect(signatureDistance('0000', 'ffff')).toBe(4)
+  })
+})
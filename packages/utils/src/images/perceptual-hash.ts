@@ -0,0 +1,237 @@
+/**
+ * Perceptual Image Hashing
+ *
+ * Fingerprints for spotting re-uploaded payment proofs: a pHash (DCT) plus a
+ * coarse luma thumbnail. Both survive recompression, resizing and format
+ * changes, so an old transfer screenshot still matches after being re-saved.
+ * Cropped copies keep their pHash but not their thumbnail, so they are not
+ * reported as matches.
+ */
+
+import { decodeLuma, type DecodeLumaOptions, type LumaImage } from './decode'
+
+// ===========================================
+// CONSTANTS
+// ===========================================
+
+const PHASH_SIZE = 32
+const PHASH_LOW_FREQUENCY = 8
+const SIGNATURE_WIDTH = 24
+const SIGNATURE_HEIGHT = 48
+const SIGNATURE_LEVELS = 16
+
+/** Smallest decoded image worth hashing */
+const MIN_HASH_DIMENSION = 8
+
+/**
+ * Limits for two proofs to count as the same image. Receipts from one banking
+ * app share a layout, so pHash alone cannot tell two transfers apart; the
+ * thumbnail catches the changed amount, time and reference number.
+ */
+export const PROOF_MATCH_THRESHOLDS = {
+  phash: 10, // Hamming distance, of 64 bits
+  signatureTolerance: 2, // quantization steps a cell may drift after re-encoding
+  signatureCells: 1 // cells allowed beyond the tolerance, of 1152
+} as const
+
+// ===========================================
+// TYPES
+// ===========================================
+
+export interface ImageFingerprint {
+  sha256: string
+  phash: string | null // 64-bit, hex
+  signature: string | null // 24x48 luma thumbnail, one hex digit per cell
+}
+
+export interface FingerprintMatch {
+  match_type: 'exact' | 'perceptual'
+  phash_distance: number
+  signature_distance: number
+}
+
+// ===========================================
+// HASHING
+// ===========================================
+
+/**
+ * Resize with area averaging, which also smooths away JPEG noise
+ */
+export function resizeLuma(image: LumaImage, width: number, height: number): Float64Array {
+  const out = new Float64Array(width * height)
+  const scaleX = image.width / width
+  const scaleY = image.height / height
+
+  for (let y = 0; y < height; y++) {
+    const y0 = y * scaleY
+    const y1 = y0 + scaleY
+    for (let x = 0; x < width; x++) {
+      const x0 = x * scaleX
+      const x1 = x0 + scaleX
+      let sum = 0
+      let weight = 0
+
+      for (let sy = Math.floor(y0); sy < Math.min(Math.ceil(y1), image.height); sy++) {
+        const wy = Math.min(y1, sy + 1) - Math.max(y0, sy)
+        for (let sx = Math.floor(x0); sx < Math.min(Math.ceil(x1), image.width); sx++) {
+          const w = wy * (Math.min(x1, sx + 1) - Math.max(x0, sx))
+          sum += image.data[sy * image.width + sx] * w
+          weight += w
+        }
+      }
+
+      out[y * width + x] = weight > 0 ? sum / weight : 0
+    }
+  }
+
+  return out
+}
+
+function bitsToHex(bits: boolean[]): string {
+  let hex = ''
+  for (let i = 0; i < bits.length; i += 4) {
+    const nibble = (bits[i] ? 8 : 0) | (bits[i + 1] ? 4 : 0) | (bits[i + 2] ? 2 : 0) | (bits[i + 3] ? 1 : 0)
+    hex += nibble.toString(16)
+  }
+  return hex
+}
+
+/**
+ * DCT-based hash: sign of the lowest frequencies against their median
+ */
+export function computePHash(image: LumaImage): string {
+  const N = PHASH_SIZE
+  const K = PHASH_LOW_FREQUENCY
+  const pixels = resizeLuma(image, N, N)
+
+  const cosines = new Float64Array(K * N)
+  for (let u = 0; u < K; u++) {
+    for (let x = 0; x < N; x++) {
+      cosines[u * N + x] = Math.cos(((2 * x + 1) * u * Math.PI) / (2 * N))
+    }
+  }
+
+  // Separable 2D DCT-II, only the K x K corner is needed
+  const rows = new Float64Array(N * K)
+  for (let y = 0; y < N; y++) {
+    for (let u = 0; u < K; u++) {
+      let sum = 0
+      for (let x = 0; x < N; x++) sum += pixels[y * N + x] * cosines[u * N + x]
+      rows[y * K + u] = sum
+    }
+  }
+
+  const coefficients = new Float64Array(K * K)
+  for (let v = 0; v < K; v++) {
+    for (let u = 0; u < K; u++) {
+      let sum = 0
+      for (let y = 0; y < N; y++) sum += rows[y * K + u] * cosines[v * N + y]
+      coefficients[v * K + u] = sum
+    }
+  }
+
+  // The DC term only reflects overall brightness, keep it out of the median
+  const ac = Array.from(coefficients.subarray(1)).sort((a, b) => a - b)
+  const median = (ac[(ac.length >> 1) - 1] + ac[ac.length >> 1]) / 2
+
+  return bitsToHex(Array.from(coefficients, value => value > median))
+}
+
+/**
+ * Coarse luma thumbnail, quantized to one hex digit per cell
+ */
+export function computeSignature(image: LumaImage): string {
+  const pixels = resizeLuma(image, SIGNATURE_WIDTH, SIGNATURE_HEIGHT)
+  let signature = ''
+  for (const value of pixels) {
+    signature += Math.min(SIGNATURE_LEVELS - 1, Math.floor(value / SIGNATURE_LEVELS)).toString(16)
+  }
+  return signature
+}
+
+/**
+ * Number of thumbnail cells that changed by more than re-encoding explains
+ */
+export function signatureDistance(a: string, b: string): number {
+  if (a.length !== b.length) {
+    throw new Error('Signatures must be the same length')
+  }
+
+  let distance = 0
+  for (let i = 0; i < a.length; i++) {
+    if (Math.abs(parseInt(a[i], 16) - parseInt(b[i], 16)) > PROOF_MATCH_THRESHOLDS.signatureTolerance) {
+      distance++
+    }
+  }
+  return distance
+}
+
+export function hammingDistance(a: string, b: string): number {
+  if (a.length !== b.length) {
+    throw new Error('Hashes must be the same length')
+  }
+
+  let distance = 0
+  for (let i = 0; i < a.length; i++) {
+    let diff = parseInt(a[i], 16) ^ parseInt(b[i], 16)
+    while (diff) {
+      distance += diff & 1
+      diff >>= 1
+    }
+  }
+  return distance
+}
+
+export async function sha256Hex(bytes: Uint8Array): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', bytes.slice())
+  return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('')
+}
+
+// ===========================================
+// FINGERPRINTS
+// ===========================================
+
+/**
+ * Fingerprint an uploaded proof. Perceptual hashes are null when the image
+ * format cannot be decoded, leaving only the exact-match hash.
+ */
+export async function fingerprintImage(
+  bytes: Uint8Array,
+  options: DecodeLumaOptions = {}
+): Promise<ImageFingerprint> {
+  const sha256 = await sha256Hex(bytes)
+
+  try {
+    const image = await decodeLuma(bytes, options)
+    if (image.width < MIN_HASH_DIMENSION || image.height < MIN_HASH_DIMENSION) {
+      return { sha256, phash: null, signature: null }
+    }
+    return { sha256, phash: computePHash(image), signature: computeSignature(image) }
+  } catch {
+    return { sha256, phash: null, signature: null }
+  }
+}
+
+/**
+ * Compare two fingerprints, returning the match or null when they differ
+ */
+export function compareFingerprints(
+  a: ImageFingerprint,
+  b: ImageFingerprint
+): FingerprintMatch | null {
+  if (a.sha256 === b.sha256) {
+    return { match_type: 'exact', phash_distance: 0, signature_distance: 0 }
+  }
+
+  if (!a.phash || !b.phash || !a.signature || !b.signature) return null
+
+  const phashDistance = hammingDistance(a.phash, b.phash)
+  if (phashDistance > PROOF_MATCH_THRESHOLDS.phash) return null
+
+  const distance = signatureDistance(a.signature, b.signature)
+  if (distance <= PROOF_MATCH_THRESHOLDS.signatureCells) {
+    return { match_type: 'perceptual', phash_distance: phashDistance, signature_distance: distance }
+  }
+
+  return null
+}
@@ -0,0 +1,10 @@
+/**
+ * Payment Utilities Index
+ *
+ * Central export for QRIS payload handling, local QR code rendering and
+ * transfer receipt parsing
+ */
+
+export * from './qris'
+export * from './qr-code'
+export * from './receipt-parser'
@@ -0,0 +1,456 @@
+/**
+ * QR Code Encoder
+ *
+ * Dependency-free QR Code Model 2 encoder (byte mode, versions 1-40)
+ * Renders to SVG so payment QR codes never leave the device or server
+ */
+
+// ===========================================
+// TYPES & CONSTANTS
+// ===========================================
+
+export type QRErrorCorrectionLevel = 'L' | 'M' | 'Q' | 'H'
+
+export interface QRCodeMatrix {
+  version: number
+  size: number
+  modules: boolean[][] // [y][x], true = dark
+}
+
+export interface QRCodeSVGOptions {
+  errorCorrection?: QRErrorCorrectionLevel
+  margin?: number // quiet zone in modules (default: 4)
+  size?: number // rendered width/height in pixels
+  darkColor?: string
+  lightColor?: string
+}
+
+const ECC_LEVEL_INDEX: Record<QRErrorCorrectionLevel, number> = { L: 0, M: 1, Q: 2, H: 3 }
+
+// Format information bits per level
+const ECC_FORMAT_BITS: Record<QRErrorCorrectionLevel, number> = { L: 1, M: 0, Q: 3, H: 2 }
+
+// Error correction codewords per block, indexed by [level][version]
+const ECC_CODEWORDS_PER_BLOCK: number[][] = [
+  [-1, 7, 10, 15, 20, 26, 18, 20, 24, 30, 18, 20, 24, 26, 30, 22, 24, 28, 30, 28, 28, 28, 28, 30, 30, 26, 28, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30],
+  [-1, 10, 16, 26, 18, 24, 16, 18, 22, 22, 26, 30, 22, 22, 24, 24, 28, 28, 26, 26, 26, 26, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28],
+  [-1, 13, 22, 18, 26, 18, 24, 18, 22, 20, 24, 28, 26, 24, 20, 30, 24, 28, 28, 26, 30, 28, 30, 30, 30, 30, 28, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30],
+  [-1, 17, 28, 22, 16, 22, 28, 26, 26, 24, 28, 24, 28, 22, 24, 24, 30, 28, 28, 26, 28, 30, 24, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30]
+]
+
+// Number of error correction blocks, indexed by [level][version]
+const NUM_ERROR_CORRECTION_BLOCKS: number[][] = [
+  [-1, 1, 1, 1, 1, 1, 2, 2, 2, 2, 4, 4, 4, 4, 4, 6, 6, 6, 6, 7, 8, 8, 9, 9, 10, 12, 12, 12, 13, 14, 15, 16, 17, 18, 19, 19, 20, 21, 22, 24, 25],
+  [-1, 1, 1, 1, 2, 2, 4, 4, 4, 5, 5, 5, 8, 9, 9, 10, 10, 11, 13, 14, 16, 17, 17, 18, 20, 21, 23, 25, 26, 28, 29, 31, 33, 35, 37, 38, 40, 43, 45, 47, 49],
+  [-1, 1, 1, 2, 2, 4, 4, 6, 6, 8, 8, 8, 10, 12, 16, 12, 17, 16, 18, 21, 20, 23, 23, 25, 27, 29, 34, 34, 35, 38, 40, 43, 45, 48, 51, 53, 56, 59, 62, 65, 68],
+  [-1, 1, 1, 2, 4, 4, 4, 5, 6, 8, 8, 11, 11, 16, 16, 18, 16, 19, 21, 25, 25, 25, 34, 30, 32, 35, 37, 40, 42, 45, 48, 51, 54, 57, 60, 63, 66, 70, 74, 77, 81]
+]
+
+const MIN_VERSION = 1
+const MAX_VERSION = 40
+
+// ===========================================
+// ENCODING
+// ===========================================
+
+/**
+ * Encode text into a QR code module matrix (byte mode, UTF-8)
+ * @param text - Text to encode
+ * @param errorCorrection - Error correction level (default: M)
+ * @returns Module matrix of the smallest version that fits
+ * @throws Error when the text does not fit in version 40
+ */
+export function encodeQRCode(text: string, errorCorrection: QRErrorCorrectionLevel = 'M'): QRCodeMatrix {
+  const data = Array.from(new TextEncoder().encode(text))
+
+  let version = MIN_VERSION
+  let capacityBits = 0
+  for (; version <= MAX_VERSION; version++) {
+    capacityBits = getNumDataCodewords(version, errorCorrection) * 8
+    if (4 + charCountBits(version) + data.length * 8 <= capacityBits) break
+  }
+
+  if (version > MAX_VERSION) {
+    throw new Error('Data too long for a QR code')
+  }
+
+  // Mode indicator (byte), character count, data
+  const bits: number[] = []
+  appendBits(bits, 0x4, 4)
+  appendBits(bits, data.length, charCountBits(version))
+  data.forEach(byte => appendBits(bits, byte, 8))
+
+  // Terminator, byte alignment and pad codewords
+  appendBits(bits, 0, Math.min(4, capacityBits - bits.length))
+  appendBits(bits, 0, (8 - (bits.length % 8)) % 8)
+  for (let pad = 0xec; bits.length < capacityBits; pad ^= 0xec ^ 0x11) {
+    appendBits(bits, pad, 8)
+  }
+
+  const codewords: number[] = []
+  for (let i = 0; i < bits.length; i += 8) {
+    codewords.push(bits.slice(i, i + 8).reduce((byte, bit) => (byte << 1) | bit, 0))
+  }
+
+  return buildMatrix(version, errorCorrection, addEccAndInterleave(codewords, version, errorCorrection))
+}
+
+/**
+ * Render text as an SVG QR code
+ * @param text - Text to encode
+ * @param options - Error correction, quiet zone, size and colors
+ * @returns SVG markup
+ */
+export function renderQRCodeSVG(text: string, options: QRCodeSVGOptions = {}): string {
+  const {
+    errorCorrection = 'M',
+    margin = 4,
+    darkColor = '#000000',
+    lightColor = '#ffffff'
+  } = options
+
+  const { size, modules } = encodeQRCode(text, errorCorrection)
+  const dimension = size + margin * 2
+  const rendered = options.size ?? dimension * 8
+
+  const path: string[] = []
+  modules.forEach((row, y) => {
+    row.forEach((dark, x) => {
+      if (dark) path.push(`M${x + margin},${y + margin}h1v1h-1z`)
+    })
+  })
+
+  return (
+    `<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 ${dimension} ${dimension}" ` +
+    `width="${rendered}" height="${rendered}" shape-rendering="crispEdges">` +
+    `<rect width="100%" height="100%" fill="${lightColor}"/>` +
+    `<path d="${path.join('')}" fill="${darkColor}"/>` +
+    `</svg>`
+  )
+}
+
+/**
+ * Render text as an SVG QR code data URL (usable as an <img> src or download link)
+ * @param text - Text to encode
+ * @param options - Error correction, quiet zone, size and colors
+ * @returns data:image/svg+xml URL
+ */
+export function renderQRCodeDataURL(text: string, options: QRCodeSVGOptions = {}): string {
+  return `data:image/svg+xml;charset=utf-8,${encodeURIComponent(renderQRCodeSVG(text, options))}`
+}
+
+// ===========================================
+// CAPACITY & ERROR CORRECTION
+// ===========================================
+
+function charCountBits(version: number): number {
+  return version <= 9 ? 8 : 16
+}
+
+function appendBits(bits: number[], value: number, length: number): void {
+  for (let i = length - 1; i >= 0; i--) {
+    bits.push((value >>> i) & 1)
+  }
+}
+
+function getNumRawDataModules(version: number): number {
+  let result = (16 * version + 128) * version + 64
+  if (version >= 2) {
+    const numAlign = Math.floor(version / 7) + 2
+    result -= (25 * numAlign - 10) * numAlign - 55
+    if (version >= 7) result -= 36
+  }
+  return result
+}
+
+function getNumDataCodewords(version: number, level: QRErrorCorrectionLevel): number {
+  const index = ECC_LEVEL_INDEX[level]
+  return (
+    Math.floor(getNumRawDataModules(version) / 8) -
+    ECC_CODEWORDS_PER_BLOCK[index][version] * NUM_ERROR_CORRECTION_BLOCKS[index][version]
+  )
+}
+
+function gfMultiply(x: number, y: number): number {
+  let z = 0
+  for (let i = 7; i >= 0; i--) {
+    z = (z << 1) ^ ((z >>> 7) * 0x11d)
+    z ^= ((y >>> i) & 1) * x
+  }
+  return z
+}
+
+function reedSolomonDivisor(degree: number): number[] {
+  const result = new Array(degree - 1).fill(0).concat([1])
+  let root = 1
+  for (let i = 0; i < degree; i++) {
+    for (let j = 0; j < result.length; j++) {
+      result[j] = gfMultiply(result[j], root)
+      if (j + 1 < result.length) result[j] ^= result[j + 1]
+    }
+    root = gfMultiply(root, 0x02)
+  }
+  return result
+}
+
+function reedSolomonRemainder(data: number[], divisor: number[]): number[] {
+  const result = divisor.map(() => 0)
+  for (const byte of data) {
+    const factor = byte ^ (result.shift() as number)
+    result.push(0)
+    divisor.forEach((coefficient, i) => {
+      result[i] ^= gfMultiply(coefficient, factor)
+    })
+  }
+  return result
+}
+
+function addEccAndInterleave(data: number[], version: number, level: QRErrorCorrectionLevel): number[] {
+  const index = ECC_LEVEL_INDEX[level]
+  const numBlocks = NUM_ERROR_CORRECTION_BLOCKS[index][version]
+  const blockEccLength = ECC_CODEWORDS_PER_BLOCK[index][version]
+  const rawCodewords = Math.floor(getNumRawDataModules(version) / 8)
+  const numShortBlocks = numBlocks - (rawCodewords % numBlocks)
+  const shortBlockLength = Math.floor(rawCodewords / numBlocks)
+  const divisor = reedSolomonDivisor(blockEccLength)
+
+  const blocks: number[][] = []
+  for (let i = 0, offset = 0; i < numBlocks; i++) {
+    const blockData = data.slice(offset, offset + shortBlockLength - blockEccLength + (i < numShortBlocks ? 0 : 1))
+    offset += blockData.length
+    const ecc = reedSolomonRemainder(blockData, divisor)
+    if (i < numShortBlocks) blockData.push(0) // padding, skipped when interleaving
+    blocks.push(blockData.concat(ecc))
+  }
+
+  const result: number[] = []
+  for (let i = 0; i < blocks[0].length; i++) {
+    blocks.forEach((block, j) => {
+      if (i !== shortBlockLength - blockEccLength || j >= numShortBlocks) {
+        result.push(block[i])
+      }
+    })
+  }
+  return result
+}
+
+// ===========================================
+// MATRIX CONSTRUCTION
+// ===========================================
+
+function getAlignmentPositions(version: number): number[] {
+  if (version === 1) return []
+  const numAlign = Math.floor(version / 7) + 2
+  const step = Math.floor((version * 8 + numAlign * 3 + 5) / (numAlign * 4 - 4)) * 2
+  const positions = [6]
+  for (let position = version * 4 + 10; positions.length < numAlign; position -= step) {
+    positions.splice(1, 0, position)
+  }
+  return positions
+}
+
+function shouldInvert(mask: number, x: number, y: number): boolean {
+  switch (mask) {
+    case 0: return (x + y) % 2 === 0
+    case 1: return y % 2 === 0
+    case 2: return x % 3 === 0
+    case 3: return (x + y) % 3 === 0
+    case 4: return (Math.floor(x / 3) + Math.floor(y / 2)) % 2 === 0
+    case 5: return ((x * y) % 2) + ((x * y) % 3) === 0
+    case 6: return (((x * y) % 2) + ((x * y) % 3)) % 2 === 0
+    default: return (((x + y) % 2) + ((x * y) % 3)) % 2 === 0
+  }
+}
+
+function buildMatrix(version: number, level: QRErrorCorrectionLevel, codewords: number[]): QRCodeMatrix {
+  const size = version * 4 + 17
+  const modules: boolean[][] = Array.from({ length: size }, () => new Array(size).fill(false))
+  const isFunction: boolean[][] = Array.from({ length: size }, () => new Array(size).fill(false))
+
+  const setFunction = (x: number, y: number, dark: boolean) => {
+    modules[y][x] = dark
+    isFunction[y][x] = true
+  }
+
+  // Timing patterns
+  for (let i = 0; i < size; i++) {
+    setFunction(6, i, i % 2 === 0)
+    setFunction(i, 6, i % 2 === 0)
+  }
+
+  // Finder patterns with separators
+  for (const [cx, cy] of [[3, 3], [size - 4, 3], [3, size - 4]]) {
+    for (let dy = -4; dy <= 4; dy++) {
+      for (let dx = -4; dx <= 4; dx++) {
+        const x = cx + dx
+        const y = cy + dy
+        if (x < 0 || x >= size || y < 0 || y >= size) continue
+        const distance = Math.max(Math.abs(dx), Math.abs(dy))
+        setFunction(x, y, distance !== 2 && distance !== 4)
+      }
+    }
+  }
+
+  // Alignment patterns (skipping the three finder corners)
+  const alignment = getAlignmentPositions(version)
+  const last = alignment.length - 1
+  alignment.forEach((cx, i) => {
+    alignment.forEach((cy, j) => {
+      if ((i === 0 && j === 0) || (i === 0 && j === last) || (i === last && j === 0)) return
+      for (let dy = -2; dy <= 2; dy++) {
+        for (let dx = -2; dx <= 2; dx++) {
+          setFunction(cx + dx, cy + dy, Math.max(Math.abs(dx), Math.abs(dy)) !== 1)
+        }
+      }
+    })
+  })
+
+  const drawFormatBits = (mask: number) => {
+    const data = (ECC_FORMAT_BITS[level] << 3) | mask
+    let remainder = data
+    for (let i = 0; i < 10; i++) {
+      remainder = (remainder << 1) ^ ((remainder >>> 9) * 0x537)
+    }
+    const bits = ((data << 10) | remainder) ^ 0x5412
+    const bit = (i: number) => ((bits >>> i) & 1) !== 0
+
+    for (let i = 0; i <= 5; i++) setFunction(8, i, bit(i))
+    setFunction(8, 7, bit(6))
+    setFunction(8, 8, bit(7))
+    setFunction(7, 8, bit(8))
+    for (let i = 9; i < 15; i++) setFunction(14 - i, 8, bit(i))
+
+    for (let i = 0; i < 8; i++) setFunction(size - 1 - i, 8, bit(i))
+    for (let i = 8; i < 15; i++) setFunction(8, size - 15 + i, bit(i))
+    setFunction(8, size - 8, true) // dark module
+  }
+
+  // Reserve format areas before placing data
+  drawFormatBits(0)
+
+  // Version information (version 7 and up)
+  if (version >= 7) {
+    let remainder = version
+    for (let i = 0; i < 12; i++) {
+      remainder = (remainder << 1) ^ ((remainder >>> 11) * 0x1f25)
+    }
+    const bits = (version << 12) | remainder
+    for (let i = 0; i < 18; i++) {
+      const dark = ((bits >>> i) & 1) !== 0
+      const a = size - 11 + (i % 3)
+      const b = Math.floor(i / 3)
+      setFunction(a, b, dark)
+      setFunction(b, a, dark)
+    }
+  }
+
+  // Data codewords in the zigzag order
+  let bitIndex = 0
+  for (let right = size - 1; right >= 1; right -= 2) {
+    if (right === 6) right = 5
+    for (let vertical = 0; vertical < size; vertical++) {
+      for (let j = 0; j < 2; j++) {
+        const x = right - j
+        const upward = ((right + 1) & 2) === 0
+        const y = upward ? size - 1 - vertical : vertical
+        if (!isFunction[y][x] && bitIndex < codewords.length * 8) {
+          modules[y][x] = ((codewords[bitIndex >>> 3] >>> (7 - (bitIndex & 7))) & 1) !== 0
+          bitIndex++
+        }
+      }
+    }
+  }
+
+  const applyMask = (mask: number) => {
+    for (let y = 0; y < size; y++) {
+      for (let x = 0; x < size; x++) {
+        if (!isFunction[y][x] && shouldInvert(mask, x, y)) {
+          modules[y][x] = !modules[y][x]
+        }
+      }
+    }
+  }
+
+  // Pick the mask with the lowest penalty
+  let bestMask = 0
+  let bestPenalty = Infinity
+  for (let mask = 0; mask < 8; mask++) {
+    applyMask(mask)
+    drawFormatBits(mask)
+    const penalty = getPenaltyScore(modules)
+    if (penalty < bestPenalty) {
+      bestMask = mask
+      bestPenalty = penalty
+    }
+    applyMask(mask) // undo
+  }
+
+  applyMask(bestMask)
+  drawFormatBits(bestMask)
+
+  return { version, size, modules }
+}
+
+// ===========================================
+// MASK PENALTY
+// ===========================================
+
+const FINDER_LIKE_PATTERNS = [
+  [true, false, true, true, true, false, true, false, false, false, false],
+  [false, false, false, false, true, false, true, true, true, false, true]
+]
+
+function getLinePenalty(line: boolean[]): number {
+  let penalty = 0
+
+  // Runs of five or more same-colored modules
+  let runLength = 1
+  for (let i = 1; i <= line.length; i++) {
+    if (i < line.length && line[i] === line[i - 1]) {
+      runLength++
+    } else {
+      if (runLength >= 5) penalty += 3 + (runLength - 5)
+      runLength = 1
+    }
+  }
+
+  // 1:1:3:1:1 finder-like patterns with four light modules on one side
+  for (let i = 0; i + 11 <= line.length; i++) {
+    for (const pattern of FINDER_LIKE_PATTERNS) {
+      if (pattern.every((dark, k) => line[i + k] === dark)) penalty += 40
+    }
+  }
+
+  return penalty
+}
+
+function getPenaltyScore(modules: boolean[][]): number {
+  const size = modules.length
+  let penalty = 0
+  let dark = 0
+
+  for (let y = 0; y < size; y++) {
+    penalty += getLinePenalty(modules[y])
+    penalty += getLinePenalty(modules.map(row => row[y]))
+  }
+
+  for (let y = 0; y < size; y++) {
+    for (let x = 0; x < size; x++) {
+      if (modules[y][x]) dark++
+      if (
+        x < size - 1 && y < size - 1 &&
+        modules[y][x] === modules[y][x + 1] &&
+        modules[y][x] === modules[y + 1][x] &&
+        modules[y][x] === modules[y + 1][x + 1]
+      ) {
+        penalty += 3
+      }
+    }
+  }
+
+  // Balance of dark and light modules
+  const total = size * size
+  penalty += (Math.ceil(Math.abs(dark * 20 - total * 10) / total) - 1) * 10
+
+  return penalty
+}
@@ -0,0 +1,156 @@
+import {
+  createDynamicQRIS,
+  crc16CCITT,
+  formatQRISAmount,
+  getQRISMerchantInfo,
+  parseEMVFields,
+  parseQRIS,
+  QRISError,
+  sanitizeQRISReference,
+  serializeEMVFields
+} from './qris'
+
+/**
+ * A static merchant QRIS with a valid CRC
+ */
+function staticQRIS(extra: Array<{ tag: string; value: string }> = []): string {
+  const body = serializeEMVFields([
+    { tag: '00', value: '01' },
+    { tag: '01', value: '11' },
+    { tag: '26', value: serializeEMVFields([{ tag: '00', value: 'ID.CO.QRIS.WWW' }, { tag: '01', value: '936000000000000001' }]) },
+    { tag: '51', value: serializeEMVFields([{ tag: '00', value: 'ID.CO.QRIS.WWW' }, { tag: '02', value: 'ID1020000000001' }]) },
+    { tag: '52', value: '5812' },
+    { tag: '53', value: '360' },
+    { tag: '58', value: 'ID' },
+    { tag: '59', value: 'KAFE CONTOH' },
+    { tag: '60', value: 'BANDUNG' },
+    { tag: '61', value: '40111' },
+    ...extra
+  ]) + '6304'
+
+  return body + crc16CCITT(body)
+}
+
+describe('crc16CCITT', () => {
+  it('matches the CRC-16/CCITT-FALSE check value', () => {
+    expect(crc16CCITT('123456789')).toBe('29B1')
+  })
+
+  it('pads short checksums to four uppercase characters', () => {
+    expect(crc16CCITT('')).toBe('FFFF')
+    expect(crc16CCITT('123456789')).toMatch(/^[0-9A-F]{4}$/)
+  })
+})
+
+describe('TLV', () => {
+  it('parses tag, length and value', () => {
+    expect(parseEMVFields('000201010212')).toEqual([
+      { tag: '00', length: 2, value: '01' },
+      { tag: '01', length: 2, value: '12' }
+    ])
+  })
+
+  it('round-trips through serialization', () => {
+    const data = '0002010102115905KAFE 6007BANDUNG'
+    expect(serializeEMVFields(parseEMVFields(data))).toBe(data)
+  })
+
+  it('rejects truncated fields and malformed headers', () => {
+    expect(() => parseEMVFields('0005ab')).toThrow(QRISError)
+    expect(() => parseEMVFields('0x0201')).toThrow(expect.objectContaining({ code: 'INVALID_TLV' }))
+  })
+
+  it('rejects values longer than 99 characters', () => {
+    expect(() => serializeEMVFields([{ tag: '59', value: 'x'.repeat(100) }]))
+      .toThrow(expect.objectContaining({ code: 'FIELD_TOO_LONG' }))
+  })
+})
+
+describe('parseQRIS', () => {
+  it('accepts a well-formed static QRIS', () => {
+    const result = parseQRIS(staticQRIS())
+
+    expect(result.errors).toEqual([])
+    expect(result.valid).toBe(true)
+    expect(result.checksum).toBe(result.expectedChecksum)
+  })
+
+  it('rejects a payload whose CRC does not match', () => {
+    const payload = staticQRIS()
+    const tampered = payload.replace('BANDUNG', 'JAKARTA')
+    const result = parseQRIS(tampered)
+
+    expect(result.valid).toBe(false)
+    expect(result.errors).toContain('CRC checksum does not match')
+  })
+
+  it('reports missing mandatory fields', () => {
+    const body = serializeEMVFields([{ tag: '00', value: '01' }, { tag: '53', value: '840' }]) + '6304'
+    const result = parseQRIS(body + crc16CCITT(body))
+
+    expect(result.valid).toBe(false)
+    expect(result.errors).toEqual(expect.arrayContaining([
+      'Merchant account information (tags 26-51) is missing',
+      'Merchant name (tag 59) is missing',
+      'Transaction currency must be IDR (360)'
+    ]))
+  })
+
+  it('reads the merchant details', () => {
+    expect(getQRISMerchantInfo(staticQRIS())).toEqual(expect.objectContaining({
+      merchantName: 'KAFE CONTOH',
+      merchantCity: 'BANDUNG',
+      merchantCategoryCode: '5812',
+      nmid: 'ID1020000000001',
+      isDynamic: false,
+      amount: undefined
+    }))
+  })
+})
+
+describe('createDynamicQRIS', () => {
+  it('injects the amount and reference with a fresh CRC', () => {
+    const payload = createDynamicQRIS(staticQRIS(), { amount: 25500, reference: 'ORD-20261019/001' })
+
+    expect(parseQRIS(payload).valid).toBe(true)
+    expect(getQRISMerchantInfo(payload)).toEqual(expect.objectContaining({
+      isDynamic: true,
+      amount: 25500,
+      billNumber: 'ORD-20261019001'
+    }))
+  })
+
+  it('keeps the existing additional data sub-tags', () => {
+    const source = staticQRIS([{ tag: '62', value: serializeEMVFields([{ tag: '07', value: 'KASIR1' }]) }])
+    const payload = createDynamicQRIS(source, { amount: 1000, reference: 'A1' })
+    const additional = parseEMVFields(parseEMVFields(payload).find(field => field.tag === '62')!.value)
+
+    expect(additional.map(field => field.tag)).toEqual(['01', '07'])
+  })
+
+  it('rejects an invalid merchant QRIS', () => {
+    expect(() => createDynamicQRIS('not a qris', { amount: 1000 }))
+      .toThrow(expect.objectContaining({ code: 'INVALID_QRIS' }))
+  })
+})
+
+describe('formatQRISAmount', () => {
+  it('formats without separators and at most two decimals', () => {
+    expect(formatQRISAmount(15000)).toBe('15000')
+    expect(formatQRISAmount(15000.5)).toBe('15000.50')
+    expect(formatQRISAmount(1234.567)).toBe('1234.57')
+  })
+
+  it('rejects zero, negative and oversized amounts', () => {
+    expect(() => formatQRISAmount(0)).toThrow(QRISError)
+    expect(() => formatQRISAmount(-5)).toThrow(QRISError)
+    expect(() => formatQRISAmount(1e13)).toThrow(QRISError)
+  })
+})
+
+describe('sanitizeQRISReference', () => {
+  it('keeps up to 25 alphanumeric characters, dashes and dots', () => {
+    expect(sanitizeQRISReference('ORD #12/a.b-c')).toBe('ORD12a.b-c')
+    expect(sanitizeQRISReference('x'.repeat(30))).toHaveLength(25)
+  })
+})
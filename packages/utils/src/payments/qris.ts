@@ -0,0 +1,386 @@
+/**
+ * QRIS Payload Utilities
+ *
+ * EMVCo Merchant-Presented QR (MPM) parsing and generation for QRIS
+ * Converts the merchant's static QRIS into a dynamic QRIS carrying the exact
+ * order amount (tag 54) and an order reference (tag 62), with CRC16-CCITT
+ */
+
+// ===========================================
+// CONSTANTS
+// ===========================================
+
+export const QRIS_TAGS = {
+  PAYLOAD_FORMAT: '00',
+  POINT_OF_INITIATION: '01',
+  MERCHANT_CATEGORY_CODE: '52',
+  CURRENCY: '53',
+  AMOUNT: '54',
+  TIP_INDICATOR: '55',
+  COUNTRY_CODE: '58',
+  MERCHANT_NAME: '59',
+  MERCHANT_CITY: '60',
+  POSTAL_CODE: '61',
+  ADDITIONAL_DATA: '62',
+  CRC: '63'
+} as const
+
+// Sub-tags of the additional data field template (tag 62)
+export const QRIS_ADDITIONAL_DATA_TAGS = {
+  BILL_NUMBER: '01',
+  REFERENCE_LABEL: '05',
+  TERMINAL_LABEL: '07'
+} as const
+
+export const QRIS_STATIC_INITIATION = '11'
+export const QRIS_DYNAMIC_INITIATION = '12'
+export const QRIS_CURRENCY_IDR = '360'
+
+const MAX_FIELD_LENGTH = 99
+const MAX_AMOUNT_LENGTH = 13
+const MAX_REFERENCE_LENGTH = 25
+
+// Merchant account information (26-51), additional data (62) and
+// unreserved templates (80-99) carry nested TLV data
+const TEMPLATE_TAGS = /^(2[6-9]|[34]\d|5[01]|62|64|[89]\d)$/
+
+// ===========================================
+// TYPES
+// ===========================================
+
+export interface EMVField {
+  tag: string
+  length: number
+  value: string
+}
+
+export interface QRISParseResult {
+  valid: boolean
+  fields: EMVField[]
+  errors: string[]
+  checksum?: string
+  expectedChecksum?: string
+}
+
+export interface QRISMerchantInfo {
+  merchantName: string
+  merchantCity: string
+  postalCode?: string
+  merchantCategoryCode: string
+  nmid?: string
+  isDynamic: boolean
+  amount?: number
+  billNumber?: string
+}
+
+export interface DynamicQRISOptions {
+  amount: number
+  reference?: string
+}
+
+export class QRISError extends Error {
+  constructor(message: string, public code: string) {
+    super(message)
+    this.name = 'QRISError'
+  }
+}
+
+// ===========================================
+// TLV ENCODING
+// ===========================================
+
+/**
+ * Calculate CRC16-CCITT (polynomial 0x1021, initial value 0xFFFF)
+ * @param data - Payload up to and including the CRC tag and length ("6304")
+ * @returns Four-character uppercase hexadecimal checksum
+ */
+export function crc16CCITT(data: string): string {
+  const bytes = new TextEncoder().encode(data)
+  let crc = 0xffff
+
+  for (const byte of bytes) {
+    crc ^= byte << 8
+    for (let bit = 0; bit < 8; bit++) {
+      crc = crc & 0x8000 ? (crc << 1) ^ 0x1021 : crc << 1
+      crc &= 0xffff
+    }
+  }
+
+  return crc.toString(16).toUpperCase().padStart(4, '0')
+}
+
+/**
+ * Parse an EMVCo TLV string into its fields
+ * @param data - TLV string (two-digit tag, two-digit length, value)
+ * @returns Parsed fields in payload order
+ * @throws QRISError when the data is truncated or a length is malformed
+ */
+export function parseEMVFields(data: string): EMVField[] {
+  const fields: EMVField[] = []
+  let position = 0
+
+  while (position < data.length) {
+    const tag = data.substring(position, position + 2)
+    const lengthText = data.substring(position + 2, position + 4)
+
+    if (!/^\d{2}$/.test(tag) || !/^\d{2}$/.test(lengthText)) {
+      throw new QRISError(`Invalid TLV header at position ${position}`, 'INVALID_TLV')
+    }
+
+    const length = parseInt(lengthText, 10)
+    const value = data.substring(position + 4, position + 4 + length)
+
+    if (value.length !== length) {
+      throw new QRISError(`Field ${tag} is truncated`, 'INVALID_TLV')
+    }
+
+    fields.push({ tag, length, value })
+    position += 4 + length
+  }
+
+  return fields
+}
+
+/**
+ * Serialize fields back into an EMVCo TLV string
+ * @param fields - Fields to serialize (lengths are recomputed from values)
+ * @returns TLV string
+ * @throws QRISError when a value is longer than 99 characters
+ */
+export function serializeEMVFields(fields: Array<Pick<EMVField, 'tag' | 'value'>>): string {
+  return fields
+    .map(({ tag, value }) => {
+      if (value.length > MAX_FIELD_LENGTH) {
+        throw new QRISError(`Field ${tag} exceeds ${MAX_FIELD_LENGTH} characters`, 'FIELD_TOO_LONG')
+      }
+      return `${tag}${value.length.toString().padStart(2, '0')}${value}`
+    })
+    .join('')
+}
+
+/**
+ * Get the value of a field by tag
+ * @param fields - Parsed fields
+ * @param tag - Two-digit tag
+ * @returns Field value or undefined
+ */
+export function getEMVField(fields: EMVField[], tag: string): string | undefined {
+  return fields.find(field => field.tag === tag)?.value
+}
+
+// ===========================================
+// QRIS PARSING & VALIDATION
+// ===========================================
+
+/**
+ * Parse and validate a QRIS payload (structure, mandatory fields and CRC)
+ * @param payload - Raw QRIS string
+ * @returns Parse result with fields, errors and checksums
+ */
+export function parseQRIS(payload: string): QRISParseResult {
+  const result: QRISParseResult = { valid: false, fields: [], errors: [] }
+
+  if (!payload || typeof payload !== 'string') {
+    result.errors.push('QRIS payload is empty')
+    return result
+  }
+
+  try {
+    result.fields = parseEMVFields(payload)
+  } catch (error) {
+    result.errors.push(error instanceof Error ? error.message : 'Invalid TLV data')
+    return result
+  }
+
+  const { fields, errors } = result
+
+  if (fields[0]?.tag !== QRIS_TAGS.PAYLOAD_FORMAT || fields[0].value !== '01') {
+    errors.push('Payload must start with payload format indicator 01')
+  }
+
+  const crcField = fields[fields.length - 1]
+  if (crcField?.tag !== QRIS_TAGS.CRC || crcField.length !== 4) {
+    errors.push('Payload must end with a 4-character CRC (tag 63)')
+  } else {
+    result.checksum = crcField.value.toUpperCase()
+    result.expectedChecksum = crc16CCITT(payload.substring(0, payload.length - 4))
+    if (result.checksum !== result.expectedChecksum) {
+      errors.push('CRC checksum does not match')
+    }
+  }
+
+  const seen = new Set<string>()
+  for (const field of fields) {
+    if (seen.has(field.tag)) {
+      errors.push(`Duplicate field ${field.tag}`)
+    }
+    seen.add(field.tag)
+
+    if (TEMPLATE_TAGS.test(field.tag)) {
+      try {
+        parseEMVFields(field.value)
+      } catch {
+        errors.push(`Template ${field.tag} contains invalid TLV data`)
+      }
+    }
+  }
+
+  const initiation = getEMVField(fields, QRIS_TAGS.POINT_OF_INITIATION)
+  if (initiation !== undefined && initiation !== QRIS_STATIC_INITIATION && initiation !== QRIS_DYNAMIC_INITIATION) {
+    errors.push('Point of initiation must be 11 (static) or 12 (dynamic)')
+  }
+
+  if (!fields.some(field => /^(2[6-9]|[34]\d|5[01])$/.test(field.tag))) {
+    errors.push('Merchant account information (tags 26-51) is missing')
+  }
+
+  const required: Array<[string, string]> = [
+    [QRIS_TAGS.MERCHANT_CATEGORY_CODE, 'Merchant category code'],
+    [QRIS_TAGS.CURRENCY, 'Transaction currency'],
+    [QRIS_TAGS.COUNTRY_CODE, 'Country code'],
+    [QRIS_TAGS.MERCHANT_NAME, 'Merchant name'],
+    [QRIS_TAGS.MERCHANT_CITY, 'Merchant city']
+  ]
+  for (const [tag, label] of required) {
+    if (!getEMVField(fields, tag)) {
+      errors.push(`${label} (tag ${tag}) is missing`)
+    }
+  }
+
+  const currency = getEMVField(fields, QRIS_TAGS.CURRENCY)
+  if (currency && currency !== QRIS_CURRENCY_IDR) {
+    errors.push('Transaction currency must be IDR (360)')
+  }
+
+  const amount = getEMVField(fields, QRIS_TAGS.AMOUNT)
+  if (amount !== undefined && !/^\d+(\.\d{1,2})?$/.test(amount)) {
+    errors.push('Transaction amount (tag 54) is not a valid number')
+  }
+
+  result.valid = errors.length === 0
+  return result
+}
+
+/**
+ * Read the merchant details from a QRIS payload
+ * @param payload - Raw QRIS string
+ * @returns Merchant info or null if the payload is invalid
+ */
+export function getQRISMerchantInfo(payload: string): QRISMerchantInfo | null {
+  const { valid, fields } = parseQRIS(payload)
+  if (!valid) {
+    return null
+  }
+
+  // NMID lives in the national QRIS template (tag 51, sub-tag 02)
+  const nationalTemplate = getEMVField(fields, '51')
+  const nmid = nationalTemplate ? getEMVField(parseEMVFields(nationalTemplate), '02') : undefined
+
+  const additionalData = getEMVField(fields, QRIS_TAGS.ADDITIONAL_DATA)
+  const billNumber = additionalData
+    ? getEMVField(parseEMVFields(additionalData), QRIS_ADDITIONAL_DATA_TAGS.BILL_NUMBER)
+    : undefined
+
+  const amount = getEMVField(fields, QRIS_TAGS.AMOUNT)
+
+  return {
+    merchantName: getEMVField(fields, QRIS_TAGS.MERCHANT_NAME) || '',
+    merchantCity: getEMVField(fields, QRIS_TAGS.MERCHANT_CITY) || '',
+    postalCode: getEMVField(fields, QRIS_TAGS.POSTAL_CODE),
+    merchantCategoryCode: getEMVField(fields, QRIS_TAGS.MERCHANT_CATEGORY_CODE) || '',
+    nmid,
+    isDynamic: getEMVField(fields, QRIS_TAGS.POINT_OF_INITIATION) === QRIS_DYNAMIC_INITIATION,
+    amount: amount !== undefined ? parseFloat(amount) : undefined,
+    billNumber
+  }
+}
+
+// ===========================================
+// DYNAMIC QRIS
+// ===========================================
+
+/**
+ * Format a rupiah amount for tag 54 (no thousand separators, max 2 decimals)
+ * @param amount - Transaction amount
+ * @returns Amount string
+ * @throws QRISError when the amount is not a positive number or too long
+ */
+export function formatQRISAmount(amount: number): string {
+  if (!Number.isFinite(amount) || amount <= 0) {
+    throw new QRISError('Amount must be greater than zero', 'INVALID_AMOUNT')
+  }
+
+  const rounded = Math.round(amount * 100) / 100
+  const formatted = Number.isInteger(rounded) ? rounded.toString() : rounded.toFixed(2)
+
+  if (formatted.length > MAX_AMOUNT_LENGTH) {
+    throw new QRISError('Amount is too large for QRIS', 'INVALID_AMOUNT')
+  }
+
+  return formatted
+}
+
+/**
+ * Sanitize an order reference for the bill number sub-tag
+ * @param reference - Order number or other reference
+ * @returns Reference limited to 25 alphanumeric characters, dashes and dots
+ */
+export function sanitizeQRISReference(reference: string): string {
+  return reference.replace(/[^A-Za-z0-9.\-]/g, '').substring(0, MAX_REFERENCE_LENGTH)
+}
+
+/**
+ * Convert a static QRIS into a dynamic QRIS for one transaction.
+ * Sets point of initiation to 12, injects the amount (tag 54) and the order
+ * reference as bill number (tag 62 sub-tag 01), then recomputes the CRC.
+ * @param staticPayload - Merchant's static QRIS string
+ * @param options - Amount and optional order reference
+ * @returns Dynamic QRIS payload
+ * @throws QRISError when the source payload or the options are invalid
+ */
+export function createDynamicQRIS(staticPayload: string, options: DynamicQRISOptions): string {
+  const parsed = parseQRIS(staticPayload?.trim())
+  if (!parsed.valid) {
+    throw new QRISError(`Invalid merchant QRIS: ${parsed.errors.join(', ')}`, 'INVALID_QRIS')
+  }
+
+  const fields = new Map<string, string>()
+  for (const field of parsed.fields) {
+    if (field.tag !== QRIS_TAGS.CRC) {
+      fields.set(field.tag, field.value)
+    }
+  }
+
+  fields.set(QRIS_TAGS.POINT_OF_INITIATION, QRIS_DYNAMIC_INITIATION)
+  fields.set(QRIS_TAGS.AMOUNT, formatQRISAmount(options.amount))
+
+  if (options.reference) {
+    const reference = sanitizeQRISReference(options.reference)
+    if (!reference) {
+      throw new QRISError('Reference has no usable characters', 'INVALID_REFERENCE')
+    }
+
+    const additionalData = new Map<string, string>()
+    const existing = fields.get(QRIS_TAGS.ADDITIONAL_DATA)
+    if (existing) {
+      for (const field of parseEMVFields(existing)) {
+        additionalData.set(field.tag, field.value)
+      }
+    }
+    additionalData.set(QRIS_ADDITIONAL_DATA_TAGS.BILL_NUMBER, reference)
+
+    fields.set(QRIS_TAGS.ADDITIONAL_DATA, serializeEMVFields(sortFields(additionalData)))
+  }
+
+  const body = serializeEMVFields(sortFields(fields)) + `${QRIS_TAGS.CRC}04`
+  return body + crc16CCITT(body)
+}
+
+/**
+ * Order fields by tag (payload format indicator 00 always comes first)
+ */
+function sortFields(fields: Map<string, string>): Array<{ tag: string; value: string }> {
+  return [...fields.entries()]
+    .map(([tag, value]) => ({ tag, value }))
+    .sort((a, b) => a.tag.localeCompare(b.tag))
+}
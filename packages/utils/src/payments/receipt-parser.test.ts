@@ -0,0 +1,258 @@
+import {
+  detectReceiptSource,
+  parseReceiptAmount,
+  parseReceiptText,
+  parseReceiptTimestamp
+} from './receipt-parser'
+
+/**
+ * OCR text of one Rp 75.400 transfer to the cafe, one text line per line,
+ * laid out the way each app prints its receipt
+ */
+const RECEIPTS = {
+  myBCA: `myBCA
+Transfer Berhasil
+Rp 75.400
+13 Mei 2024 14:23:11 WIB
+Nominal
+Rp 75.400,00
+Biaya Admin
+Rp 0,00
+Penerima
+KOPI SENJA CV
+BCA - 8730123456
+Sumber Dana
+SARI DEWI
+BCA - 1234567890
+No. Referensi
+20240513BCAF1234567890
+Catatan
+Meja 7`,
+
+  mBCA: `m-Transfer
+BERHASIL
+13/05/2024 14:23:11
+Ke 8730123456
+KOPI SENJA CV
+Rp. 75.400,00
+Berita: Meja 7
+Dari 1234567890
+SARI DEWI
+Ref No 240513142311A8F3`,
+
+  livin: `livin' by mandiri
+Transfer Berhasil
+13 Mei 2024 • 14:23:11 WIB
+Penerima
+KOPI SENJA
+Bank BCA - 8730123456
+Sumber Dana
+SARI DEWI
+Mandiri - 1370001234567
+Detail Transaksi
+Nominal Transfer Rp 75.400,00
+Biaya Admin Rp 2.500,00
+Total Transaksi Rp 77.900,00
+No. Referensi 2405131423110012345`,
+
+  BRImo: `BRImo
+Transaksi Berhasil
+Tanggal 13 Mei 2024, 14:23:11 WIB
+No. Ref 123456789012
+Sumber Dana
+SARI DEWI
+0123 0100 1234 567
+Jenis Transaksi Transfer Antar Bank
+Nama Tujuan
+KOPI SENJA
+BCA 8730123456
+Nominal Rp75.400
+Biaya Admin Rp2.500
+Total Rp77.900`,
+
+  BNI: `BNI Mobile Banking
+Transfer Berhasil
+Tanggal Transaksi 13/05/2024 14:23:11 WIT
+Rekening Debet
+SARI DEWI 0123456789
+Nama Penerima
+KOPI SENJA
+Rekening Tujuan 8730123456
+Nominal Rp 75.400
+Biaya Rp 2.500
+Total Rp 77.900
+Nomor Referensi 000123456789`,
+
+  DANA: `DANA
+Kirim Uang Berhasil
+Rp75.400
+Penerima
+KOPI SENJA - ****3456
+Bank BCA
+Total Bayar Rp75.400
+Biaya Transfer Gratis
+Sumber Dana Saldo DANA
+ID Transaksi 2024051310121412345678901234
+13 Mei 2024 14:23`,
+
+  OVO: `OVO
+Transfer Berhasil
+Tanggal 13 Mei 2024
+Waktu 14:23 WIB
+Penerima
+KOPI SENJA
+Nominal Rp 75.400
+Biaya Rp 0
+Total Rp 75.400
+No. Referensi 9876543210123`,
+
+  GoPay: `gojek
+Pembayaran berhasil
+Rp75.400
+Dibayar ke
+Kopi Senja
+Metode pembayaran
+GoPay Saldo
+Total pembayaran Rp75.400
+Waktu 13 Mei 2024 14:23
+ID transaksi A-1234567890ABCDEF`,
+
+  ShopeePay: `ShopeePay
+Pembayaran Berhasil
+Merchant
+KOPI SENJA
+Total Pembayaran
+Rp75.400
+Waktu Pembayaran 13-05-2024 14:23:11 WITA
+No. Transaksi 240513142311ABCDEF`
+}
+
+describe('parseReceiptAmount', () => {
+  it('reads Indonesian and English notation', () => {
+    expect(parseReceiptAmount('Rp 75.400,00')).toBe(75400)
+    expect(parseReceiptAmount('Rp75.400')).toBe(75400)
+    expect(parseReceiptAmount('IDR 75,400.00')).toBe(75400)
+    expect(parseReceiptAmount('Rp 1.250.000')).toBe(1250000)
+    expect(parseReceiptAmount('75400')).toBe(75400)
+  })
+
+  it('reads digits split by OCR spacing or read as the letter O', () => {
+    expect(parseReceiptAmount('Rp 75. 400')).toBe(75400)
+    expect(parseReceiptAmount('Rp 75.4O0,OO')).toBe(75400)
+  })
+
+  it('returns undefined without an amount', () => {
+    expect(parseReceiptAmount('Gratis')).toBeUndefined()
+    expect(parseReceiptAmount('Rp 75.40.0')).toBeUndefined()
+  })
+})
+
+describe('parseReceiptTimestamp', () => {
+  it('reads named and numeric dates with their time zone', () => {
+    expect(parseReceiptTimestamp('13 Mei 2024, 14:23:11 WIB')).toBe('2024-05-13T14:23:11+07:00')
+    expect(parseReceiptTimestamp('13 Agt 2024 09.05 WITA')).toBe('2024-08-13T09:05:00+08:00')
+    expect(parseReceiptTimestamp('13/05/24 14:23 WIT')).toBe('2024-05-13T14:23:00+09:00')
+  })
+
+  it('assumes WIB and midnight when not shown', () => {
+    expect(parseReceiptTimestamp('13-05-2024')).toBe('2024-05-13T00:00:00+07:00')
+  })
+
+  it('rejects impossible dates and text without one', () => {
+    expect(parseReceiptTimestamp('32/05/2024')).toBeUndefined()
+    expect(parseReceiptTimestamp('13 Foo 2024')).toBeUndefined()
+    expect(parseReceiptTimestamp('Transfer Berhasil')).toBeUndefined()
+  })
+})
+
+describe('detectReceiptSource', () => {
+  it('prefers the app marker over the beneficiary bank', () => {
+    expect(detectReceiptSource(RECEIPTS.livin)).toBe('mandiri')
+    expect(detectReceiptSource(RECEIPTS.BRImo)).toBe('bri')
+  })
+
+  it('does not take a DANA balance as a DANA receipt', () => {
+    expect(detectReceiptSource('OVO\nSumber Dana Saldo DANA')).toBe('ovo')
+  })
+
+  it('reports receipts it does not know', () => {
+    expect(detectReceiptSource('Struk belanja\nTerima kasih')).toBe('unknown')
+  })
+})
+
+describe('parseReceiptText', () => {
+  it.each([
+    ['myBCA', 'bca', '2024-05-13T14:23:11+07:00', '20240513BCAF1234567890', 'KOPI SENJA CV'],
+    ['mBCA', 'bca', '2024-05-13T14:23:11+07:00', '240513142311A8F3', 'KOPI SENJA CV'],
+    ['livin', 'mandiri', '2024-05-13T14:23:11+07:00', '2405131423110012345', 'KOPI SENJA'],
+    ['BRImo', 'bri', '2024-05-13T14:23:11+07:00', '123456789012', 'KOPI SENJA'],
+    ['BNI', 'bni', '2024-05-13T14:23:11+09:00', '000123456789', 'KOPI SENJA'],
+    ['DANA', 'dana', '2024-05-13T14:23:00+07:00', '2024051310121412345678901234', 'KOPI SENJA'],
+    ['OVO', 'ovo', '2024-05-13T14:23:00+07:00', '9876543210123', 'KOPI SENJA'],
+    ['GoPay', 'gopay', '2024-05-13T14:23:00+07:00', 'A-1234567890ABCDEF', 'KOPI SENJA'],
+    ['ShopeePay', 'shopeepay', '2024-05-13T14:23:11+08:00', '240513142311ABCDEF', 'KOPI SENJA']
+  ] as const)('reads a %s receipt', (app, source, timestamp, reference, beneficiary) => {
+    expect(parseReceiptText(RECEIPTS[app])).toMatchObject({
+      source,
+      amount: 75400,
+      timestamp,
+      reference_number: reference,
+      beneficiary_name: beneficiary,
+      confidence: 100
+    })
+  })
+
+  it('reads the sender of bank transfers', () => {
+    expect(parseReceiptText(RECEIPTS.myBCA).sender_name).toBe('SARI DEWI')
+    expect(parseReceiptText(RECEIPTS.mBCA).sender_name).toBe('SARI DEWI')
+    expect(parseReceiptText(RECEIPTS.BNI).sender_name).toBe('SARI DEWI')
+  })
+
+  it('does not take an e-wallet balance or the next label as the sender', () => {
+    expect(parseReceiptText(RECEIPTS.DANA).sender_name).toBeUndefined()
+    expect(parseReceiptText(RECEIPTS.GoPay).sender_name).toBeUndefined()
+  })
+
+  it('takes the transferred amount rather than the fee or the total with fee', () => {
+    const receipt = parseReceiptText(RECEIPTS.livin)
+
+    expect(receipt.amount).toBe(75400)
+  })
+
+  it('falls back to the largest rupiah amount without an amount label', () => {
+    const receipt = parseReceiptText(`BCA
+Transfer Berhasil
+Ke KOPI SENJA CV
+Biaya Rp 6.500
+Rp 75.400`)
+
+    expect(receipt.amount).toBe(75400)
+  })
+
+  it('survives OCR reading zeros as the letter O', () => {
+    const receipt = parseReceiptText(`myBCA
+13 Mei 2024 14:23:11 WIB
+Nominal
+Rp 75.4O0,OO
+No. Referensi
+2O240513BCAF1234567890`)
+
+    expect(receipt.amount).toBe(75400)
+    expect(receipt.reference_number).toBe('20240513BCAF1234567890')
+  })
+
+  it('scores partial receipts by the fields found', () => {
+    const receipt = parseReceiptText(`BCA
+Transfer Successful
+IDR 75,400.00
+Date 13/05/2024 14:23
+Reference No FT24134ABC123456`)
+
+    expect(receipt).toMatchObject({ amount: 75400, reference_number: 'FT24134ABC123456', confidence: 85 })
+    expect(receipt.beneficiary_name).toBeUndefined()
+  })
+
+  it('finds nothing in text that is not a receipt', () => {
+    expect(parseReceiptText('Foto struk\nTerima kasih')).toEqual({ source: 'unknown', confidence: 0 })
+  })
+})
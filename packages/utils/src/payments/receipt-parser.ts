@@ -0,0 +1,456 @@
+/**
+ * Transfer Receipt Parser
+ *
+ * Extracts the amount, timestamp, reference number and beneficiary from the
+ * OCR text of Indonesian bank and e-wallet receipts (BCA, Mandiri, BRI, BNI,
+ * DANA, OVO, GoPay, ShopeePay). Works on plain text, so any OCR engine can
+ * feed it.
+ */
+
+// ===========================================
+// TYPES
+// ===========================================
+
+export type ReceiptSource =
+  | 'bca'
+  | 'mandiri'
+  | 'bri'
+  | 'bni'
+  | 'dana'
+  | 'ovo'
+  | 'gopay'
+  | 'shopeepay'
+  | 'unknown'
+
+export interface ParsedReceipt {
+  source: ReceiptSource
+  source_name?: string
+  amount?: number
+  timestamp?: string // ISO 8601 with the receipt's time zone offset
+  reference_number?: string
+  beneficiary_name?: string
+  sender_name?: string
+  confidence: number // 0-100, share of fields found
+}
+
+interface ReceiptTemplate {
+  source: ReceiptSource
+  name: string
+  // App-specific markers, checked before the plain brand name because bank
+  // receipts also print the beneficiary's bank
+  apps: RegExp[]
+  brand: RegExp
+  // Labels in order of preference; values sit after the label or on the next line
+  amount: string[]
+  reference: string[]
+  beneficiary: string[]
+  sender: string[]
+  timestamp: string[]
+}
+
+// ===========================================
+// TEMPLATES
+// ===========================================
+
+const COMMON_AMOUNT_LABELS = ['nominal transfer', 'jumlah transfer', 'nominal', 'jumlah', 'total transaksi', 'total bayar', 'total pembayaran', 'total']
+const COMMON_REFERENCE_LABELS = ['no. referensi', 'nomor referensi', 'no referensi', 'no. ref', 'ref no', 'reference no', 'id transaksi', 'no. transaksi']
+const COMMON_BENEFICIARY_LABELS = ['nama penerima', 'penerima', 'nama tujuan', 'ke rekening', 'tujuan', 'kepada']
+const COMMON_SENDER_LABELS = ['nama pengirim', 'pengirim', 'dari rekening', 'sumber dana', 'dari']
+const COMMON_TIMESTAMP_LABELS = ['tanggal transaksi', 'waktu transaksi', 'tanggal', 'waktu']
+// Where receipts print the time apart from the date
+const TIME_OF_DAY_LABELS = ['waktu transaksi', 'waktu', 'jam', 'pukul']
+
+const RECEIPT_TEMPLATES: ReceiptTemplate[] = [
+  {
+    source: 'bca',
+    name: 'BCA',
+    apps: [/\bm-?bca\b/i, /\bmybca\b/i, /\bklikbca\b/i, /\bm-transfer\b/i],
+    brand: /\bbca\b|\bbank central asia\b/i,
+    amount: ['nominal', 'jumlah', 'total'],
+    reference: ['no. referensi', 'no referensi', 'nomor referensi', 'ref. no', 'ref no', 'kode ref'],
+    beneficiary: ['nama penerima', 'penerima', 'ke rekening', 'ke'],
+    sender: ['dari rekening', 'sumber dana', 'dari'],
+    timestamp: ['tanggal transaksi', 'tanggal', 'waktu']
+  },
+  {
+    source: 'mandiri',
+    name: 'Mandiri',
+    apps: [/\blivin'?\b/i, /\bmandiri online\b/i],
+    brand: /\bmandiri\b/i,
+    amount: ['nominal transfer', 'jumlah transfer', 'nominal', 'total transaksi', 'total'],
+    reference: ['no. referensi', 'nomor referensi', 'no. ref', 'ref no'],
+    beneficiary: ['penerima', 'nama penerima', 'ke'],
+    sender: ['sumber dana', 'pengirim', 'dari'],
+    timestamp: ['tanggal', 'waktu transaksi', 'waktu']
+  },
+  {
+    source: 'bri',
+    name: 'BRI',
+    apps: [/\bbrimo\b/i],
+    brand: /\bbri\b|\bbank rakyat indonesia\b/i,
+    amount: ['nominal', 'total transaksi', 'jumlah', 'total'],
+    reference: ['no. ref', 'no. referensi', 'nomor referensi', 'ref no'],
+    beneficiary: ['nama tujuan', 'tujuan', 'nama penerima', 'penerima'],
+    sender: ['sumber dana', 'rekening sumber', 'dari'],
+    timestamp: ['tanggal', 'waktu transaksi', 'waktu']
+  },
+  {
+    source: 'bni',
+    name: 'BNI',
+    apps: [/\bbni mobile\b/i, /\bwondr\b/i],
+    brand: /\bbni\b|\bbank negara indonesia\b/i,
+    amount: ['nominal', 'jumlah transfer', 'jumlah', 'total'],
+    reference: ['nomor referensi', 'no. referensi', 'ref', 'no. jurnal'],
+    beneficiary: ['nama penerima', 'penerima', 'rekening tujuan', 'tujuan'],
+    sender: ['nama pengirim', 'rekening debet', 'dari'],
+    timestamp: ['tanggal transaksi', 'tanggal', 'waktu']
+  },
+  {
+    source: 'dana',
+    name: 'DANA',
+    apps: [],
+    brand: /(?<!sumber |saldo )\bdana\b/i,
+    amount: ['total bayar', 'jumlah', 'nominal', 'total'],
+    reference: ['id transaksi', 'id dana', 'id merchant', 'no. referensi'],
+    beneficiary: ['penerima', 'merchant', 'kirim ke', 'bayar ke', 'ke'],
+    sender: ['dari'],
+    timestamp: ['waktu', 'tanggal']
+  },
+  {
+    source: 'ovo',
+    name: 'OVO',
+    apps: [],
+    brand: /\bovo\b/i,
+    amount: ['total', 'nominal', 'jumlah', 'total pembayaran'],
+    reference: ['no. referensi', 'no referensi', 'id transaksi', 'ref'],
+    beneficiary: ['penerima', 'merchant', 'ke', 'tujuan'],
+    sender: ['sumber dana', 'dari'],
+    timestamp: ['tanggal', 'waktu']
+  },
+  {
+    source: 'gopay',
+    name: 'GoPay',
+    apps: [/\bgojek\b/i],
+    brand: /\bgo-?pay\b/i,
+    amount: ['total pembayaran', 'total bayar', 'jumlah', 'nominal', 'total'],
+    reference: ['id transaksi', 'order id', 'id pesanan', 'no. referensi'],
+    beneficiary: ['dibayar ke', 'bayar ke', 'penerima', 'merchant', 'ke'],
+    sender: ['metode pembayaran', 'dari'],
+    timestamp: ['tanggal', 'waktu']
+  },
+  {
+    source: 'shopeepay',
+    name: 'ShopeePay',
+    apps: [/\bshopee ?pay\b/i],
+    brand: /\bshopee\b/i,
+    amount: ['total pembayaran', 'jumlah', 'nominal', 'total'],
+    reference: ['no. transaksi', 'no transaksi', 'id transaksi', 'no. referensi'],
+    beneficiary: ['merchant', 'nama merchant', 'penerima', 'bayar ke', 'ke'],
+    sender: ['metode pembayaran', 'dari'],
+    timestamp: ['waktu pembayaran', 'tanggal', 'waktu']
+  }
+]
+
+// Labels whose amounts are never the transferred amount
+const NON_PRINCIPAL_LABELS = /\b(biaya|admin|fee|saldo|cashback|diskon|potongan|poin|limit)\b/i
+
+const MONTHS: Record<string, number> = {
+  jan: 1, januari: 1, january: 1,
+  feb: 2, februari: 2, february: 2, peb: 2,
+  mar: 3, maret: 3, march: 3,
+  apr: 4, april: 4,
+  mei: 5, may: 5,
+  jun: 6, juni: 6, june: 6,
+  jul: 7, juli: 7, july: 7,
+  agu: 8, agt: 8, ags: 8, agustus: 8, aug: 8, august: 8,
+  sep: 9, sept: 9, september: 9,
+  okt: 10, oktober: 10, oct: 10, october: 10,
+  nov: 11, nopember: 11, november: 11,
+  des: 12, desember: 12, dec: 12, december: 12
+}
+
+const TIME_ZONE_OFFSETS: Record<string, string> = {
+  WIB: '+07:00',
+  WITA: '+08:00',
+  WIT: '+09:00'
+}
+
+const DEFAULT_TIME_ZONE = 'WIB'
+
+const TIME_OF_DAY = /\b\d{1,2}[:.]\d{2}\b/
+
+// Smaller numbers next to an amount label are counts, not rupiah
+const MIN_RECEIPT_AMOUNT = 100
+
+// ===========================================
+// VALUE PARSERS
+// ===========================================
+
+/**
+ * Parse a receipt amount in Indonesian or English notation
+ * @param value - Text such as "Rp 25.000,00", "IDR 25,000.00" or "Rp25.000"
+ * @returns Amount in rupiah, or undefined when no amount is present
+ */
+export function parseReceiptAmount(value: string): number | undefined {
+  const cleaned = fixDigitConfusions(value)
+    .replace(/\s+(?=[\d.,])/g, '')
+  const match = cleaned.match(/(?:rp\.?|idr)?\s*(\d[\d.,]*\d|\d)/i)
+  if (!match) return undefined
+
+  let number = match[1]
+
+  if (/^\d{1,3}(\.\d{3})+(,\d{1,2})?$/.test(number)) {
+    // 25.000 or 25.000,00
+    number = number.replace(/\./g, '').replace(',', '.')
+  } else if (/^\d{1,3}(,\d{3})+(\.\d{1,2})?$/.test(number)) {
+    // 25,000 or 25,000.00
+    number = number.replace(/,/g, '')
+  } else if (/^\d+,\d{1,2}$/.test(number)) {
+    number = number.replace(',', '.')
+  } else if (!/^\d+(\.\d{1,2})?$/.test(number)) {
+    return undefined
+  }
+
+  const amount = parseFloat(number)
+  return isNaN(amount) ? undefined : Math.round(amount)
+}
+
+/**
+ * Parse a receipt date and time into ISO 8601
+ * @param value - Text such as "13 Mei 2024, 14:23:11 WIB" or "13/05/2024 14:23"
+ * @returns ISO timestamp with the receipt's offset (WIB when not shown)
+ */
+export function parseReceiptTimestamp(value: string): string | undefined {
+  let day: number | undefined
+  let month: number | undefined
+  let year: number | undefined
+
+  const numeric = value.match(/\b(\d{1,2})[/\-.](\d{1,2})[/\-.](\d{4}|\d{2})\b/)
+  const named = value.match(/\b(\d{1,2})\s+([a-z]{3,9})\.?,?\s+(\d{4}|\d{2})\b/i)
+  let dateText: string
+
+  if (numeric) {
+    dateText = numeric[0]
+    day = parseInt(numeric[1], 10)
+    month = parseInt(numeric[2], 10)
+    year = parseInt(numeric[3], 10)
+  } else if (named && MONTHS[named[2].toLowerCase()]) {
+    dateText = named[0]
+    day = parseInt(named[1], 10)
+    month = MONTHS[named[2].toLowerCase()]
+    year = parseInt(named[3], 10)
+  } else {
+    return undefined
+  }
+
+  if (year < 100) year += 2000
+  if (month < 1 || month > 12 || day < 1 || day > 31) return undefined
+
+  // First valid hh:mm(:ss) outside the date itself
+  let hours = 0
+  let minutes = 0
+  let seconds = 0
+  const rest = value.replace(dateText, ' ')
+  for (const time of rest.matchAll(/\b(\d{1,2})[:.](\d{2})(?:[:.](\d{2}))?\b/g)) {
+    const h = parseInt(time[1], 10)
+    const m = parseInt(time[2], 10)
+    const sec = time[3] ? parseInt(time[3], 10) : 0
+    if (h <= 23 && m <= 59 && sec <= 59) {
+      hours = h
+      minutes = m
+      seconds = sec
+      break
+    }
+  }
+
+  const zone = value.match(/\b(WITA|WIT|WIB)\b/)
+  const offset = TIME_ZONE_OFFSETS[zone ? zone[1] : DEFAULT_TIME_ZONE]
+
+  const pad = (n: number) => String(n).padStart(2, '0')
+  return `${year}-${pad(month)}-${pad(day)}T${pad(hours)}:${pad(minutes)}:${pad(seconds)}${offset}`
+}
+
+function parseReference(value: string): string | undefined {
+  const tokens = value.match(/[A-Z0-9][A-Z0-9-]{5,}/gi) || []
+  // A reference always carries digits; prefer the longest candidate
+  const candidates = tokens.filter(token => /\d{4,}/.test(token))
+  if (candidates.length === 0) return undefined
+  return candidates.sort((a, b) => b.length - a.length)[0].toUpperCase()
+}
+
+function parseName(value: string): string | undefined {
+  const name = value
+    // Drop account numbers, masked numbers, bank suffixes and e-wallet balances
+    .replace(/[*xX•]{2,}\d*|\d{4,}/g, ' ')
+    .replace(/\b(bca|mandiri|bri|bni|dana|ovo|gopay|shopeepay|rekening|rek\.?|saldo)\b/gi, ' ')
+    .replace(/[-|:()]/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim()
+
+  if (name.length < 3 || !/[a-z]{2,}/i.test(name)) return undefined
+  return name.toUpperCase()
+}
+
+// ===========================================
+// PARSING
+// ===========================================
+
+// OCR commonly reads 0 as O next to digits
+function fixDigitConfusions(text: string): string {
+  return text.replace(/(?<=\d[.,]?[oO]*)[oO]|[oO](?=[oO]*[.,]?\d)/g, '0')
+}
+
+function normalizeLines(text: string): string[] {
+  return fixDigitConfusions(text)
+    .replace(/\r/g, '')
+    .split('\n')
+    .map(line => line.replace(/[ \t]+/g, ' ').trim())
+    .filter(line => line.length > 0)
+}
+
+function labelPattern(label: string): RegExp {
+  return new RegExp(`^${label.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}\\b\\s*[:\\-]?\\s*(.*)$`, 'i')
+}
+
+// Every label of every template, so a label line is never taken as a value
+const ALL_LABEL_PATTERNS = Array.from(new Set([
+  ...COMMON_AMOUNT_LABELS,
+  ...COMMON_REFERENCE_LABELS,
+  ...COMMON_BENEFICIARY_LABELS,
+  ...COMMON_SENDER_LABELS,
+  ...COMMON_TIMESTAMP_LABELS,
+  ...RECEIPT_TEMPLATES.flatMap(t => [...t.amount, ...t.reference, ...t.beneficiary, ...t.sender, ...t.timestamp])
+]), labelPattern)
+
+/**
+ * Find the value for the first label present: the rest of the label's line,
+ * or the following line when the receipt puts values under their labels
+ */
+function findLabeledValue(
+  lines: string[],
+  labels: string[],
+  accept: (value: string, line: string) => boolean
+): string | undefined {
+  for (const label of labels) {
+    const pattern = labelPattern(label)
+
+    for (let i = 0; i < lines.length; i++) {
+      const match = lines[i].match(pattern)
+      if (!match) continue
+
+      const inline = match[1].trim()
+      if (inline && accept(inline, lines[i])) return inline
+
+      const next = lines[i + 1]
+      if (next && !ALL_LABEL_PATTERNS.some(other => other.test(next)) && accept(next, lines[i])) return next
+    }
+  }
+
+  return undefined
+}
+
+/**
+ * Identify the banking or e-wallet app a receipt came from
+ */
+export function detectReceiptSource(text: string): ReceiptSource {
+  const app = RECEIPT_TEMPLATES.find(template => template.apps.some(pattern => pattern.test(text)))
+  if (app) return app.source
+
+  // Otherwise the brand printed first, normally the app header
+  let first: { source: ReceiptSource; index: number } | null = null
+  for (const template of RECEIPT_TEMPLATES) {
+    const index = text.search(template.brand)
+    if (index >= 0 && (!first || index < first.index)) {
+      first = { source: template.source, index }
+    }
+  }
+  return first ? first.source : 'unknown'
+}
+
+/**
+ * Parse the OCR text of a transfer or e-wallet receipt
+ * @param text - Raw OCR output, one text line per line
+ * @returns Extracted fields with a confidence based on how many were found
+ */
+export function parseReceiptText(text: string): ParsedReceipt {
+  const lines = normalizeLines(text)
+  const source = detectReceiptSource(lines.join('\n'))
+  const template = RECEIPT_TEMPLATES.find(t => t.source === source)
+
+  const labels = (specific: string[] | undefined, common: string[]) =>
+    Array.from(new Set([...(specific || []), ...common]))
+
+  const amountText = findLabeledValue(
+    lines,
+    labels(template?.amount, COMMON_AMOUNT_LABELS),
+    (value, line) => !NON_PRINCIPAL_LABELS.test(line) && (parseReceiptAmount(value) ?? 0) >= MIN_RECEIPT_AMOUNT
+  )
+  let amount = amountText ? parseReceiptAmount(amountText) : undefined
+
+  // Fall back to the largest rupiah amount that is not a fee or balance
+  if (amount === undefined) {
+    const amounts = lines
+      .filter(line => /\b(rp|idr)\b|rp\d/i.test(line) && !NON_PRINCIPAL_LABELS.test(line))
+      .map(line => parseReceiptAmount(line.slice(line.search(/rp|idr/i))))
+      .filter((value): value is number => value !== undefined && value >= MIN_RECEIPT_AMOUNT)
+    if (amounts.length > 0) amount = Math.max(...amounts)
+  }
+
+  const timestampText = findLabeledValue(
+    lines,
+    labels(template?.timestamp, COMMON_TIMESTAMP_LABELS),
+    value => parseReceiptTimestamp(value) !== undefined
+  )
+  let timestamp = timestampText ? parseReceiptTimestamp(timestampText) : undefined
+
+  // A date without its time of day may have the time on a line of its own
+  if (timestampText && !TIME_OF_DAY.test(timestampText)) {
+    const timeText = findLabeledValue(lines, TIME_OF_DAY_LABELS, value => TIME_OF_DAY.test(value))
+    if (timeText) timestamp = parseReceiptTimestamp(`${timestampText} ${timeText}`)
+  }
+
+  if (!timestamp) {
+    for (const line of lines) {
+      timestamp = parseReceiptTimestamp(line)
+      if (timestamp) break
+    }
+  }
+
+  const referenceText = findLabeledValue(
+    lines,
+    labels(template?.reference, COMMON_REFERENCE_LABELS),
+    value => parseReference(value) !== undefined
+  )
+  const reference_number = referenceText ? parseReference(referenceText) : undefined
+
+  const beneficiaryText = findLabeledValue(
+    lines,
+    labels(template?.beneficiary, COMMON_BENEFICIARY_LABELS),
+    value => parseName(value) !== undefined
+  )
+  const beneficiary_name = beneficiaryText ? parseName(beneficiaryText) : undefined
+
+  const senderText = findLabeledValue(
+    lines,
+    labels(template?.sender, COMMON_SENDER_LABELS),
+    value => parseName(value) !== undefined
+  )
+  const sender_name = senderText ? parseName(senderText) : undefined
+
+  const confidence =
+    (amount !== undefined ? 50 : 0) +
+    (reference_number ? 20 : 0) +
+    (timestamp ? 15 : 0) +
+    (beneficiary_name ? 15 : 0)
+
+  return {
+    source,
+    source_name: template?.name,
+    amount,
+    timestamp,
+    reference_number,
+    beneficiary_name,
+    sender_name,
+    confidence
+  }
+}
@@ -0,0 +1,230 @@
+/**
+ * Print Dispatch
+ *
+ * Turns an order into print jobs for the configured printers and sends them
+ * through a transport. Items go to the bar or kitchen by menu category; when
+ * a station has no enabled printer its items go to the other station so
+ * nothing is dropped. Transports are injected (raw TCP 9100 on the server, a
+ * capturing fake in tests).
+ */
+
+import type { PaperWidth } from './escpos'
+import {
+  renderCustomerReceipt,
+  renderStationTicket,
+  type PrintOrder,
+  type PrintOrderItem,
+  type PrintStation,
+  type ReceiptCafeInfo,
+  type ReceiptTaxRates
+} from './tickets'
+
+// ===========================================
+// TYPES
+// ===========================================
+
+export type PrinterType = 'kitchen' | 'bar' | 'receipt'
+
+export interface PrinterConfig {
+  id: string
+  name: string
+  type: PrinterType
+  ipAddress: string
+  port: string
+  enabled: boolean
+  paperWidth?: PaperWidth
+}
+
+/** Value of the printers/config system setting */
+export interface PrinterSettings {
+  printers: PrinterConfig[]
+  bar_categories: string[] // menu category slugs printed at the bar
+}
+
+export type PrintJobKind = 'receipt' | PrintStation
+
+export interface PrintJob {
+  printer: PrinterConfig
+  kind: PrintJobKind
+  data: Uint8Array
+}
+
+export interface PrintJobResult {
+  printer_id: string
+  printer_name: string
+  kind: PrintJobKind
+  success: boolean
+  bytes: number
+  error?: string
+}
+
+export type PrintTransport = (
+  target: { host: string; port: number },
+  data: Uint8Array
+) => Promise<void>
+
+// ===========================================
+// CONSTANTS
+// ===========================================
+
+export const DEFAULT_PRINTER_PORT = 9100
+
+export const DEFAULT_BAR_CATEGORIES = ['coffee', 'non-coffee']
+
+export const DEFAULT_PRINTER_SETTINGS: PrinterSettings = {
+  printers: [],
+  bar_categories: DEFAULT_BAR_CATEGORIES
+}
+
+// ===========================================
+// SETTINGS
+// ===========================================
+
+/**
+ * Normalize the stored setting, filling defaults for missing fields
+ */
+export function parsePrinterSettings(value: unknown): PrinterSettings {
+  const raw = typeof value === 'string' ? JSON.parse(value) : value
+  if (!raw || typeof raw !== 'object') return { ...DEFAULT_PRINTER_SETTINGS }
+
+  const source = raw as Partial<PrinterSettings>
+  const printers = (Array.isArray(source.printers) ? source.printers : [])
+    .filter((printer): printer is PrinterConfig => !!printer && typeof printer === 'object')
+    .map(printer => ({
+      id: String(printer.id),
+      name: printer.name || 'Printer',
+      type: (['kitchen', 'bar', 'receipt'] as PrinterType[]).includes(printer.type) ? printer.type : 'kitchen',
+      ipAddress: (printer.ipAddress || '').trim(),
+      port: String(printer.port || DEFAULT_PRINTER_PORT),
+      enabled: printer.enabled === true,
+      paperWidth: printer.paperWidth === 58 ? 58 : 80
+    } as PrinterConfig))
+
+  return {
+    printers,
+    bar_categories: Array.isArray(source.bar_categories)
+      ? source.bar_categories.map(String)
+      : DEFAULT_BAR_CATEGORIES
+  }
+}
+
+function enabledPrinters(settings: PrinterSettings, type: PrinterType): PrinterConfig[] {
+  return settings.printers.filter(printer => printer.enabled && printer.type === type && printer.ipAddress)
+}
+
+// ===========================================
+// ROUTING
+// ===========================================
+
+/**
+ * Split order items between the bar and the kitchen by menu category
+ */
+export function routeItemsToStations(
+  items: PrintOrderItem[],
+  barCategories: string[] = DEFAULT_BAR_CATEGORIES
+): Record<PrintStation, PrintOrderItem[]> {
+  const bar = new Set(barCategories)
+  const routed: Record<PrintStation, PrintOrderItem[]> = { kitchen: [], bar: [] }
+
+  for (const item of items) {
+    routed[item.category && bar.has(item.category) ? 'bar' : 'kitchen'].push(item)
+  }
+
+  return routed
+}
+
+/**
+ * Kitchen and bar tickets for an order
+ */
+export function buildStationJobs(
+  order: PrintOrder,
+  settings: PrinterSettings,
+  options: { reprint?: boolean } = {}
+): PrintJob[] {
+  const routed = routeItemsToStations(order.items, settings.bar_categories)
+  const printers: Record<PrintStation, PrinterConfig[]> = {
+    kitchen: enabledPrinters(settings, 'kitchen'),
+    bar: enabledPrinters(settings, 'bar')
+  }
+
+  // A station without a printer hands its items to the other one
+  if (printers.bar.length === 0) {
+    routed.kitchen.push(...routed.bar)
+    routed.bar = []
+  } else if (printers.kitchen.length === 0) {
+    routed.bar.push(...routed.kitchen)
+    routed.kitchen = []
+  }
+
+  const jobs: PrintJob[] = []
+  for (const station of ['kitchen', 'bar'] as PrintStation[]) {
+    if (routed[station].length === 0) continue
+    for (const printer of printers[station]) {
+      jobs.push({
+        printer,
+        kind: station,
+        data: renderStationTicket(order, station, routed[station], {
+          paperWidth: printer.paperWidth,
+          reprint: options.reprint
+        })
+      })
+    }
+  }
+
+  return jobs
+}
+
+/**
+ * Customer receipt for every enabled receipt printer
+ */
+export function buildReceiptJobs(
+  order: PrintOrder,
+  settings: PrinterSettings,
+  cafe: ReceiptCafeInfo,
+  taxRates: ReceiptTaxRates,
+  options: { reprint?: boolean } = {}
+): PrintJob[] {
+  return enabledPrinters(settings, 'receipt').map(printer => ({
+    printer,
+    kind: 'receipt' as const,
+    data: renderCustomerReceipt(order, cafe, taxRates, {
+      paperWidth: printer.paperWidth,
+      reprint: options.reprint
+    })
+  }))
+}
+
+// ===========================================
+// DISPATCH
+// ===========================================
+
+/**
+ * Send jobs to their printers; one failing printer does not stop the others
+ */
+export async function dispatchPrintJobs(
+  jobs: PrintJob[],
+  transport: PrintTransport
+): Promise<PrintJobResult[]> {
+  return Promise.all(jobs.map(async job => {
+    const result = {
+      printer_id: job.printer.id,
+      printer_name: job.printer.name,
+      kind: job.kind,
+      bytes: job.data.length
+    }
+
+    try {
+      await transport(
+        { host: job.printer.ipAddress, port: Number(job.printer.port) || DEFAULT_PRINTER_PORT },
+        job.data
+      )
+      return { ...result, success: true }
+    } catch (error) {
+      return {
+        ...result,
+        success: false,
+        error: error instanceof Error ? error.message : 'Print failed'
+      }
+    }
+  }))
+}
@@ -0,0 +1,176 @@
+/**
+ * ESC/POS Command Builder
+ *
+ * Builds the raw byte stream for 58mm/80mm thermal printers. Text is printed
+ * with the printer's default PC437 code page, so accents are stripped and
+ * anything outside ASCII is replaced before encoding.
+ */
+
+// ===========================================
+// CONSTANTS
+// ===========================================
+
+const ESC = 0x1b
+const GS = 0x1d
+const LF = 0x0a
+
+/** Characters per line in Font A */
+export const PAPER_CHARACTERS = {
+  58: 32,
+  80: 48
+} as const
+
+export type PaperWidth = keyof typeof PAPER_CHARACTERS
+
+export type TextAlign = 'left' | 'center' | 'right'
+
+const ALIGN_CODES: Record<TextAlign, number> = {
+  left: 0,
+  center: 1,
+  right: 2
+}
+
+// ===========================================
+// TEXT HELPERS
+// ===========================================
+
+/**
+ * Reduce text to what a PC437 printer prints reliably
+ */
+export function toPrinterText(text: string): string {
+  return text
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/[\u2018\u2019]/g, "'")
+    .replace(/[\u201c\u201d]/g, '"')
+    .replace(/[\u2013\u2014]/g, '-')
+    .replace(/[^\x20-\x7e\n]/g, '?')
+}
+
+/**
+ * Word-wrap text to a line width, breaking words that do not fit. Leading
+ * indentation is kept on every wrapped line.
+ */
+export function wrapText(text: string, width: number): string[] {
+  const lines: string[] = []
+
+  for (const paragraph of text.split('\n')) {
+    const indent = (paragraph.match(/^ */) || [''])[0].slice(0, Math.max(0, width - 1))
+    const available = width - indent.length
+    let line = ''
+
+    for (const word of paragraph.split(/\s+/).filter(Boolean)) {
+      let rest = word
+      while (rest.length > available) {
+        if (line) {
+          lines.push(indent + line)
+          line = ''
+        }
+        lines.push(indent + rest.slice(0, available))
+        rest = rest.slice(available)
+      }
+
+      if (!line) {
+        line = rest
+      } else if (line.length + 1 + rest.length <= available) {
+        line += ` ${rest}`
+      } else {
+        lines.push(indent + line)
+        line = rest
+      }
+    }
+    lines.push(line ? indent + line : '')
+  }
+
+  return lines
+}
+
+// ===========================================
+// BUILDER
+// ===========================================
+
+export class EscPosBuilder {
+  readonly width: number
+  private bytes: number[] = []
+
+  constructor(paperWidth: PaperWidth = 80) {
+    this.width = PAPER_CHARACTERS[paperWidth]
+    this.initialize()
+  }
+
+  /** Reset the printer and select the PC437 code page */
+  initialize(): this {
+    return this.raw([ESC, 0x40, ESC, 0x74, 0x00])
+  }
+
+  raw(bytes: number[] | Uint8Array): this {
+    for (const byte of bytes) this.bytes.push(byte)
+    return this
+  }
+
+  align(align: TextAlign): this {
+    return this.raw([ESC, 0x61, ALIGN_CODES[align]])
+  }
+
+  bold(on: boolean = true): this {
+    return this.raw([ESC, 0x45, on ? 1 : 0])
+  }
+
+  /** Character magnification, 1-8 in each direction */
+  size(width: number = 1, height: number = 1): this {
+    const w = Math.min(8, Math.max(1, Math.round(width))) - 1
+    const h = Math.min(8, Math.max(1, Math.round(height))) - 1
+    return this.raw([GS, 0x21, (w << 4) | h])
+  }
+
+  text(text: string): this {
+    const printable = toPrinterText(text)
+    for (let i = 0; i < printable.length; i++) {
+      this.bytes.push(printable.charCodeAt(i))
+    }
+    return this
+  }
+
+  line(text: string = ''): this {
+    return this.text(text).raw([LF])
+  }
+
+  /** Print text wrapped to the paper width (or a narrower width for large text) */
+  wrapped(text: string, width: number = this.width): this {
+    for (const line of wrapText(toPrinterText(text), width)) this.line(line)
+    return this
+  }
+
+  /** Left and right text on one line, wrapping the left side when needed */
+  columns(left: string, right: string): this {
+    const rightText = toPrinterText(right)
+    const leftWidth = Math.max(1, this.width - rightText.length - 1)
+    const leftLines = wrapText(toPrinterText(left), leftWidth)
+
+    leftLines.forEach((line, index) => {
+      if (index === leftLines.length - 1) {
+        this.line(line.padEnd(this.width - rightText.length) + rightText)
+      } else {
+        this.line(line)
+      }
+    })
+    return this
+  }
+
+  separator(character: string = '-'): this {
+    return this.line(character.repeat(this.width))
+  }
+
+  feed(lines: number = 1): this {
+    return this.raw([ESC, 0x64, Math.min(255, Math.max(0, lines))])
+  }
+
+  /** Feed past the cutter and make a partial cut */
+  cut(): this {
+    return this.raw([GS, 0x56, 0x42, 0x03])
+  }
+
+  build(): Uint8Array {
+    return Uint8Array.from(this.bytes)
+  }
+}
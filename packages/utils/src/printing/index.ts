@@ -0,0 +1,9 @@
+/**
+ * Printing Utilities Index
+ *
+ * Central export for ESC/POS rendering and print job dispatch
+ */
+
+export * from './escpos'
+export * from './tickets'
+export * from './dispatch'
@@ -0,0 +1,245 @@
+/**
+ * Receipt and Station Ticket Layouts
+ *
+ * Renders customer receipts and kitchen/bar tickets to ESC/POS bytes. Order
+ * amounts are printed as stored on the order; the tax settings only supply
+ * the PPN and service charge percentages shown next to them.
+ */
+
+import { formatCurrency } from '../formatters/currency'
+import { EscPosBuilder, type PaperWidth } from './escpos'
+
+// ===========================================
+// TYPES
+// ===========================================
+
+export type PrintStation = 'kitchen' | 'bar'
+
+export interface PrintOrderItem {
+  name: string
+  quantity: number
+  unit_price: number
+  subtotal: number
+  options?: string[] // customization option names
+  notes?: string | null
+  category?: string | null // menu category slug, used for station routing
+}
+
+export interface PrintOrder {
+  order_number: string
+  created_at: string
+  table_number?: string | null
+  customer_name?: string | null
+  order_type?: string | null
+  notes?: string | null
+  payment_method?: string | null
+  subtotal: number
+  tax_amount: number
+  service_charge: number
+  discount_amount?: number | null
+  total_amount: number
+  items: PrintOrderItem[]
+}
+
+export interface ReceiptCafeInfo {
+  name: string
+  address?: string
+  phone?: string
+  email?: string
+}
+
+export interface ReceiptTaxRates {
+  ppn: number // percentage, e.g. 11
+  service: number // percentage, e.g. 5
+}
+
+export interface TicketOptions {
+  paperWidth?: PaperWidth
+  reprint?: boolean
+}
+
+// ===========================================
+// CONSTANTS
+// ===========================================
+
+const TIME_ZONE = 'Asia/Jakarta'
+
+const STATION_TITLES: Record<PrintStation, string> = {
+  kitchen: 'DAPUR',
+  bar: 'BAR'
+}
+
+const ORDER_TYPE_LABELS: Record<string, string> = {
+  dine_in: 'Makan di tempat',
+  takeaway: 'Bawa pulang',
+  delivery: 'Delivery'
+}
+
+const PAYMENT_METHOD_LABELS: Record<string, string> = {
+  cash: 'Tunai',
+  qris: 'QRIS',
+  bank_transfer: 'Transfer Bank',
+  transfer: 'Transfer Bank',
+  card: 'Kartu'
+}
+
+// ===========================================
+// HELPERS
+// ===========================================
+
+function formatPrintDate(value: string): string {
+  return new Intl.DateTimeFormat('id-ID', {
+    timeZone: TIME_ZONE,
+    day: '2-digit',
+    month: '2-digit',
+    year: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+    hour12: false
+  }).format(new Date(value)).replace(/\./g, ':')
+}
+
+function formatRate(rate: number): string {
+  return `${Number(rate.toFixed(2))}%`
+}
+
+function orderHeader(builder: EscPosBuilder, order: PrintOrder): void {
+  builder.line(`No: ${order.order_number}`)
+  builder.line(formatPrintDate(order.created_at))
+  if (order.table_number) builder.line(`Meja: ${order.table_number}`)
+  if (order.customer_name) builder.line(`Nama: ${order.customer_name}`)
+  if (order.order_type && order.order_type !== 'dine_in') {
+    builder.line(ORDER_TYPE_LABELS[order.order_type] || order.order_type)
+  }
+}
+
+// ===========================================
+// LAYOUTS
+// ===========================================
+
+/**
+ * Customer receipt with cafe info, items, PPN and service charge
+ */
+export function renderCustomerReceipt(
+  order: PrintOrder,
+  cafe: ReceiptCafeInfo,
+  taxRates: ReceiptTaxRates,
+  options: TicketOptions = {}
+): Uint8Array {
+  const builder = new EscPosBuilder(options.paperWidth)
+
+  builder
+    .align('center')
+    .bold()
+    .size(2, 2)
+    .wrapped(cafe.name, Math.floor(builder.width / 2))
+    .size()
+    .bold(false)
+  if (cafe.address) builder.wrapped(cafe.address)
+  if (cafe.phone) builder.line(cafe.phone)
+  if (options.reprint) builder.bold().line('*** CETAK ULANG ***').bold(false)
+
+  builder.align('left').separator()
+  orderHeader(builder, order)
+  builder.separator()
+
+  for (const item of order.items) {
+    builder.wrapped(item.name)
+    builder.columns(
+      `  ${item.quantity} x ${formatCurrency(item.unit_price, { showSymbol: false })}`,
+      formatCurrency(item.subtotal, { showSymbol: false })
+    )
+    if (item.options && item.options.length > 0) {
+      builder.wrapped(`  + ${item.options.join(', ')}`)
+    }
+  }
+
+  builder
+    .separator()
+    .columns('Subtotal', formatCurrency(order.subtotal))
+  if (order.discount_amount && order.discount_amount > 0) {
+    builder.columns('Diskon', `-${formatCurrency(order.discount_amount)}`)
+  }
+  builder
+    .columns(`PPN ${formatRate(taxRates.ppn)}`, formatCurrency(order.tax_amount))
+    .columns(`Service ${formatRate(taxRates.service)}`, formatCurrency(order.service_charge))
+    .separator()
+    .bold()
+    .columns('TOTAL', formatCurrency(order.total_amount))
+    .bold(false)
+
+  if (order.payment_method) {
+    builder.columns('Pembayaran', PAYMENT_METHOD_LABELS[order.payment_method] || order.payment_method)
+  }
+
+  builder
+    .separator()
+    .align('center')
+    .line('Terima kasih atas kunjungan Anda')
+  if (cafe.email) builder.line(cafe.email)
+
+  return builder.feed(3).cut().build()
+}
+
+/**
+ * Kitchen or bar ticket: large quantities and names, no prices
+ */
+export function renderStationTicket(
+  order: PrintOrder,
+  station: PrintStation,
+  items: PrintOrderItem[],
+  options: TicketOptions = {}
+): Uint8Array {
+  const builder = new EscPosBuilder(options.paperWidth)
+  const halfWidth = Math.floor(builder.width / 2)
+
+  builder
+    .align('center')
+    .bold()
+    .size(2, 2)
+    .line(STATION_TITLES[station])
+    .size()
+  if (options.reprint) builder.line('*** CETAK ULANG ***')
+  builder.bold(false).align('left').separator()
+
+  orderHeader(builder, order)
+  builder.separator()
+
+  for (const item of items) {
+    builder.bold().size(2, 2).wrapped(`${item.quantity}x ${item.name}`, halfWidth).size().bold(false)
+    for (const option of item.options || []) {
+      builder.wrapped(`   + ${option}`)
+    }
+    if (item.notes) {
+      builder.wrapped(`   Catatan: ${item.notes}`)
+    }
+  }
+
+  if (order.notes) {
+    builder.separator().bold().line('Catatan pesanan:').bold(false).wrapped(order.notes)
+  }
+
+  return builder.feed(3).cut().build()
+}
+
+/**
+ * Short test page to check a printer's address and paper width
+ */
+export function renderTestTicket(printerName: string, options: TicketOptions = {}): Uint8Array {
+  const builder = new EscPosBuilder(options.paperWidth)
+
+  return builder
+    .align('center')
+    .bold()
+    .line('TES PRINTER')
+    .bold(false)
+    .line(printerName)
+    .line(formatPrintDate(new Date().toISOString()))
+    .align('left')
+    .separator()
+    .columns('Kiri', 'Kanan')
+    .separator('=')
+    .feed(3)
+    .cut()
+    .build()
+}
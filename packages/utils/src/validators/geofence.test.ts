@@ -0,0 +1,168 @@
+import {
+  detectSpoofing,
+  distanceMeters,
+  evaluatePunch,
+  isPointInPolygon,
+  measureZone,
+  nearestGeofence,
+  normalizeGeofenceSettings,
+  parseGeoPoint,
+  type CircleGeofence,
+  type GeofenceSettings,
+  type PolygonGeofence
+} from './geofence'
+
+// Meters per degree of latitude on the Haversine sphere
+const METERS_PER_DEGREE = (Math.PI * 6371e3) / 180
+
+const cafe: CircleGeofence = {
+  id: 'cafe',
+  name: 'Cafe',
+  active: true,
+  type: 'circle',
+  center: { latitude: -6.9, longitude: 107.6 },
+  radius_meters: 100
+}
+
+const warehouse: PolygonGeofence = {
+  id: 'warehouse',
+  name: 'Gudang',
+  active: true,
+  type: 'polygon',
+  points: [
+    { latitude: -6.91, longitude: 107.61 },
+    { latitude: -6.91, longitude: 107.612 },
+    { latitude: -6.912, longitude: 107.612 },
+    { latitude: -6.912, longitude: 107.61 }
+  ]
+}
+
+const settings: GeofenceSettings = { zones: [cafe, warehouse], max_accuracy_meters: 50, max_speed_kmh: 150 }
+
+// A point the given meters north of the cafe
+const northOfCafe = (meters: number) => ({
+  latitude: cafe.center.latitude + meters / METERS_PER_DEGREE,
+  longitude: cafe.center.longitude
+})
+
+const at = '2026-10-19T08:00:00+07:00'
+
+describe('geometry', () => {
+  it('measures great-circle distance', () => {
+    expect(distanceMeters(cafe.center, northOfCafe(250))).toBeCloseTo(250, 3)
+    expect(distanceMeters(cafe.center, cafe.center)).toBe(0)
+  })
+
+  it('tells whether a point is inside a polygon', () => {
+    expect(isPointInPolygon({ latitude: -6.911, longitude: 107.611 }, warehouse.points)).toBe(true)
+    expect(isPointInPolygon({ latitude: -6.909, longitude: 107.611 }, warehouse.points)).toBe(false)
+  })
+
+  it('measures how far outside a zone a point is', () => {
+    expect(measureZone(northOfCafe(130), cafe)).toEqual(expect.objectContaining({ inside: false }))
+    expect(measureZone(northOfCafe(130), cafe).outside_meters).toBeCloseTo(30, 3)
+
+    const belowWarehouse = measureZone({ latitude: -6.909, longitude: 107.611 }, warehouse)
+    expect(belowWarehouse.inside).toBe(false)
+    expect(belowWarehouse.outside_meters).toBeCloseTo(0.001 * METERS_PER_DEGREE, 0)
+  })
+
+  it('prefers the zone a point is in and skips inactive zones', () => {
+    const inside = { latitude: -6.911, longitude: 107.611 }
+
+    expect(nearestGeofence(inside, settings.zones)?.zone.id).toBe('warehouse')
+    expect(nearestGeofence(inside, [cafe, { ...warehouse, active: false }])?.zone.id).toBe('cafe')
+    expect(nearestGeofence(inside, [])).toBeNull()
+  })
+})
+
+describe('settings', () => {
+  it('parses stored points in every format', () => {
+    expect(parseGeoPoint('(-6.9,107.6)')).toEqual({ latitude: -6.9, longitude: 107.6 })
+    expect(parseGeoPoint({ lat: -6.9, lng: 107.6 })).toEqual({ latitude: -6.9, longitude: 107.6 })
+    expect(parseGeoPoint({ latitude: 91, longitude: 0 })).toBeNull()
+    expect(parseGeoPoint(null)).toBeNull()
+  })
+
+  it('drops incomplete zones and falls back to the cafe location', () => {
+    const normalized = normalizeGeofenceSettings(
+      { zones: [{ type: 'polygon', points: [{ lat: 0, lng: 0 }] }], max_accuracy_meters: -1 },
+      { lat: -6.9, lng: 107.6, radius: 75 }
+    )
+
+    expect(normalized.zones).toEqual([expect.objectContaining({ id: 'cafe', type: 'circle', radius_meters: 75 })])
+    expect(normalized.max_accuracy_meters).toBe(50)
+    expect(normalized.max_speed_kmh).toBe(150)
+  })
+})
+
+describe('detectSpoofing', () => {
+  it('flags zero accuracy and mock locations', () => {
+    const flags = detectSpoofing({ ...cafe.center, accuracy: 0, mocked: true, at }, [])
+
+    expect(flags.map(flag => flag.code)).toEqual(['zero_accuracy', 'mock_location'])
+  })
+
+  it('flags travel faster than the speed limit', () => {
+    const flags = detectSpoofing(
+      { ...cafe.center, accuracy: 10, at },
+      [{ latitude: -6.2, longitude: 106.8, accuracy: 10, at: '2026-10-19T07:30:00+07:00' }]
+    )
+
+    expect(flags.map(flag => flag.code)).toEqual(['impossible_travel'])
+  })
+
+  it('flags coordinates repeated exactly from an earlier punch', () => {
+    const flags = detectSpoofing(
+      { ...cafe.center, accuracy: 10, at },
+      [{ ...cafe.center, at: '2026-10-18T17:00:00+07:00' }]
+    )
+
+    expect(flags.map(flag => flag.code)).toEqual(['repeated_coordinates'])
+  })
+})
+
+describe('evaluatePunch', () => {
+  it('accepts a precise reading inside a zone', () => {
+    const result = evaluatePunch({ ...northOfCafe(40), accuracy: 10, at }, settings)
+
+    expect(result.decision).toBe('accepted')
+    expect(result.zone).toEqual({ id: 'cafe', name: 'Cafe' })
+    expect(result.flags).toEqual([])
+  })
+
+  it('rejects a reading outside every zone beyond its accuracy', () => {
+    const result = evaluatePunch({ ...northOfCafe(200), accuracy: 20, at }, settings)
+
+    expect(result.decision).toBe('rejected')
+    expect(result.reasons[0]).toContain('100m di luar area Cafe')
+  })
+
+  it('reviews a reading just outside, within its accuracy radius', () => {
+    const result = evaluatePunch({ ...northOfCafe(120), accuracy: 30, at }, settings)
+
+    expect(result.decision).toBe('review')
+    expect(result.flags.map(flag => flag.code)).toEqual(['boundary_uncertain'])
+  })
+
+  it('rejects an imprecise reading so the employee tries again', () => {
+    const result = evaluatePunch({ ...cafe.center, accuracy: 80, at }, settings)
+
+    expect(result.decision).toBe('rejected')
+    expect(result.reasons[0]).toContain('Akurasi GPS terlalu rendah')
+  })
+
+  it('reviews a reading without accuracy', () => {
+    const result = evaluatePunch({ ...northOfCafe(10), accuracy: null, at }, settings)
+
+    expect(result.decision).toBe('review')
+    expect(result.flags.map(flag => flag.code)).toEqual(['accuracy_unknown'])
+  })
+
+  it('rejects every punch while no zone is active', () => {
+    const result = evaluatePunch({ ...cafe.center, accuracy: 10, at }, { ...settings, zones: [] })
+
+    expect(result.decision).toBe('rejected')
+    expect(result.zone).toBeNull()
+  })
+})
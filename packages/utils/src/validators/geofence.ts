@@ -0,0 +1,438 @@
+/**
+ * Attendance Geofence Validation
+ *
+ * Decides whether a clock-in or clock-out location is inside one of the
+ * cafe's allowed zones (circles around a point or polygons, e.g. the cafe
+ * and a storage warehouse), taking the GPS accuracy radius into account,
+ * and looks for signs of a spoofed location. Punches that are inside but
+ * look suspicious are sent to the owner's review queue rather than
+ * accepted silently.
+ *
+ * Used by the employee portal's clock-in/out routes and the
+ * attendance-validation edge function (see its geo-validator.ts).
+ */
+
+// ===========================================
+// TYPES
+// ===========================================
+
+export interface GeoPoint {
+  latitude: number
+  longitude: number
+}
+
+interface GeofenceZoneBase {
+  id: string
+  name: string
+  active: boolean
+}
+
+export interface CircleGeofence extends GeofenceZoneBase {
+  type: 'circle'
+  center: GeoPoint
+  radius_meters: number
+}
+
+export interface PolygonGeofence extends GeofenceZoneBase {
+  type: 'polygon'
+  points: GeoPoint[]
+}
+
+export type GeofenceZone = CircleGeofence | PolygonGeofence
+
+export interface GeofenceSettings {
+  zones: GeofenceZone[]
+  max_accuracy_meters: number // readings less precise than this are refused
+  max_speed_kmh: number // faster travel between punches is flagged
+}
+
+/** A location reading sent with a punch */
+export interface PunchReading extends GeoPoint {
+  accuracy: number | null // meters, as reported by the device
+  mocked?: boolean // the device reports a mock location provider
+  at: Date | string
+}
+
+/** An earlier punch of the same employee */
+export interface PreviousPunch extends GeoPoint {
+  accuracy?: number | null
+  at: Date | string
+}
+
+export type GeofenceFlagCode =
+  | 'zero_accuracy'
+  | 'mock_location'
+  | 'impossible_travel'
+  | 'repeated_coordinates'
+  | 'boundary_uncertain'
+  | 'accuracy_unknown'
+
+export interface GeofenceFlag {
+  code: GeofenceFlagCode
+  message: string
+}
+
+export type GeofenceDecision = 'accepted' | 'review' | 'rejected'
+
+export interface GeofenceResult {
+  decision: GeofenceDecision
+  zone: { id: string; name: string } | null // nearest active zone
+  inside: boolean
+  distance_meters: number // from the circle's center, or to the polygon's edge when outside
+  outside_meters: number // beyond the zone's boundary; 0 when inside
+  accuracy_meters: number | null
+  flags: GeofenceFlag[] // why the punch needs review
+  reasons: string[] // why the punch is rejected
+}
+
+// ===========================================
+// CONSTANTS
+// ===========================================
+
+export const DEFAULT_GEOFENCE_SETTINGS: GeofenceSettings = {
+  zones: [],
+  max_accuracy_meters: 50,
+  max_speed_kmh: 150
+}
+
+const EARTH_RADIUS_METERS = 6371e3
+
+// Real GPS fixes jitter in the 6th-7th decimal; an exact repeat of an
+// earlier punch's coordinates suggests a replayed or fixed fake location
+const REPEAT_TOLERANCE_DEGREES = 1e-7
+
+// ===========================================
+// GEOMETRY
+// ===========================================
+
+const toRadians = (degrees: number) => (degrees * Math.PI) / 180
+
+/**
+ * Great-circle distance between two points in meters (Haversine formula)
+ */
+export function distanceMeters(a: GeoPoint, b: GeoPoint): number {
+  const φ1 = toRadians(a.latitude)
+  const φ2 = toRadians(b.latitude)
+  const Δφ = toRadians(b.latitude - a.latitude)
+  const Δλ = toRadians(b.longitude - a.longitude)
+
+  const h =
+    Math.sin(Δφ / 2) * Math.sin(Δφ / 2) +
+    Math.cos(φ1) * Math.cos(φ2) * Math.sin(Δλ / 2) * Math.sin(Δλ / 2)
+
+  return EARTH_RADIUS_METERS * 2 * Math.atan2(Math.sqrt(h), Math.sqrt(1 - h))
+}
+
+/**
+ * Whether a point lies inside a polygon (ray casting on latitude/longitude)
+ */
+export function isPointInPolygon(point: GeoPoint, polygon: GeoPoint[]): boolean {
+  let inside = false
+
+  for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
+    const a = polygon[i]
+    const b = polygon[j]
+    const crosses = (a.latitude > point.latitude) !== (b.latitude > point.latitude)
+    if (crosses) {
+      const longitudeAtLatitude =
+        a.longitude + ((point.latitude - a.latitude) / (b.latitude - a.latitude)) * (b.longitude - a.longitude)
+      if (point.longitude < longitudeAtLatitude) {
+        inside = !inside
+      }
+    }
+  }
+
+  return inside
+}
+
+// Shortest distance in meters from a point to a polygon's edges, on a flat
+// projection around the point (accurate for cafe-sized zones)
+function distanceToPolygonEdge(point: GeoPoint, polygon: GeoPoint[]): number {
+  const metersPerDegreeLatitude = (Math.PI * EARTH_RADIUS_METERS) / 180
+  const metersPerDegreeLongitude = metersPerDegreeLatitude * Math.cos(toRadians(point.latitude))
+  const project = (p: GeoPoint) => ({
+    x: (p.longitude - point.longitude) * metersPerDegreeLongitude,
+    y: (p.latitude - point.latitude) * metersPerDegreeLatitude
+  })
+
+  let shortest = Infinity
+  for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
+    const a = project(polygon[j])
+    const b = project(polygon[i])
+    const dx = b.x - a.x
+    const dy = b.y - a.y
+    const lengthSquared = dx * dx + dy * dy
+    const t = lengthSquared > 0 ? Math.max(0, Math.min(1, -(a.x * dx + a.y * dy) / lengthSquared)) : 0
+    shortest = Math.min(shortest, Math.hypot(a.x + t * dx, a.y + t * dy))
+  }
+
+  return shortest
+}
+
+/**
+ * Where a point is relative to a zone
+ */
+export function measureZone(point: GeoPoint, zone: GeofenceZone): {
+  inside: boolean
+  distance_meters: number
+  outside_meters: number
+} {
+  if (zone.type === 'circle') {
+    const distance = distanceMeters(point, zone.center)
+    return {
+      inside: distance <= zone.radius_meters,
+      distance_meters: distance,
+      outside_meters: Math.max(0, distance - zone.radius_meters)
+    }
+  }
+
+  const inside = isPointInPolygon(point, zone.points)
+  const edge = distanceToPolygonEdge(point, zone.points)
+  return {
+    inside,
+    distance_meters: inside ? 0 : edge,
+    outside_meters: inside ? 0 : edge
+  }
+}
+
+/**
+ * The active zone a point is in, or else the one it is closest to
+ */
+export function nearestGeofence(point: GeoPoint, zones: GeofenceZone[]): {
+  zone: GeofenceZone
+  inside: boolean
+  distance_meters: number
+  outside_meters: number
+} | null {
+  let nearest: ReturnType<typeof nearestGeofence> = null
+
+  for (const zone of zones) {
+    if (!zone.active) continue
+    const measured = measureZone(point, zone)
+    if (!nearest || measured.outside_meters < nearest.outside_meters ||
+        (measured.outside_meters === nearest.outside_meters && measured.distance_meters < nearest.distance_meters)) {
+      nearest = { zone, ...measured }
+    }
+  }
+
+  return nearest
+}
+
+// ===========================================
+// SETTINGS
+// ===========================================
+
+const isLatitude = (value: unknown): value is number =>
+  typeof value === 'number' && Number.isFinite(value) && value >= -90 && value <= 90
+const isLongitude = (value: unknown): value is number =>
+  typeof value === 'number' && Number.isFinite(value) && value >= -180 && value <= 180
+
+/**
+ * A point from a stored location: `{ latitude, longitude }`, `{ lat, lng }`
+ * or a PostgreSQL POINT as returned by PostgREST, "(lat,lng)"
+ */
+export function parseGeoPoint(value: unknown): GeoPoint | null {
+  if (typeof value === 'string') {
+    const match = /^\(?\s*(-?\d+(?:\.\d+)?)\s*,\s*(-?\d+(?:\.\d+)?)\s*\)?$/.exec(value.trim())
+    return match ? parseGeoPoint({ latitude: Number(match[1]), longitude: Number(match[2]) }) : null
+  }
+
+  if (!value || typeof value !== 'object') {
+    return null
+  }
+
+  const raw = value as Record<string, unknown>
+  const latitude = Number(raw.latitude ?? raw.lat)
+  const longitude = Number(raw.longitude ?? raw.lng)
+
+  return isLatitude(latitude) && isLongitude(longitude) ? { latitude, longitude } : null
+}
+
+/**
+ * A zone from settings, or null when it is incomplete
+ */
+export function parseGeofenceZone(raw: unknown, index: number = 0): GeofenceZone | null {
+  if (!raw || typeof raw !== 'object') {
+    return null
+  }
+
+  const value = raw as Record<string, unknown>
+  const base = {
+    id: typeof value.id === 'string' && value.id.trim() ? value.id.trim() : `zone-${index + 1}`,
+    name: typeof value.name === 'string' && value.name.trim() ? value.name.trim() : `Area ${index + 1}`,
+    active: value.active !== false
+  }
+
+  if (value.type === 'polygon') {
+    const points = Array.isArray(value.points) ? value.points.map(parseGeoPoint) : []
+    if (points.length < 3 || points.some(point => point === null)) {
+      return null
+    }
+    return { ...base, type: 'polygon', points: points as GeoPoint[] }
+  }
+
+  const center = parseGeoPoint(value.center)
+  const radius = Number(value.radius_meters)
+  if (!center || !Number.isFinite(radius) || radius <= 0) {
+    return null
+  }
+  return { ...base, type: 'circle', center, radius_meters: radius }
+}
+
+/**
+ * Settings from the attendance/geofences setting. Without any zones, the
+ * single circle of the older cafe/location setting (`{ lat, lng, radius }`)
+ * is the only zone.
+ */
+export function normalizeGeofenceSettings(raw: unknown, cafeLocation?: unknown): GeofenceSettings {
+  const value = raw && typeof raw === 'object' ? raw as Record<string, unknown> : {}
+  const positive = (input: unknown, fallback: number) => {
+    const number = Number(input)
+    return Number.isFinite(number) && number > 0 ? number : fallback
+  }
+
+  let zones = (Array.isArray(value.zones) ? value.zones : [])
+    .map((zone, index) => parseGeofenceZone(zone, index))
+    .filter((zone): zone is GeofenceZone => zone !== null)
+
+  if (zones.length === 0) {
+    const center = parseGeoPoint(cafeLocation)
+    const radius = Number((cafeLocation as Record<string, unknown> | null)?.radius)
+    if (center) {
+      zones = [{
+        id: 'cafe',
+        name: 'Cafe',
+        active: true,
+        type: 'circle',
+        center,
+        radius_meters: Number.isFinite(radius) && radius > 0 ? radius : 100
+      }]
+    }
+  }
+
+  return {
+    zones,
+    max_accuracy_meters: positive(value.max_accuracy_meters, DEFAULT_GEOFENCE_SETTINGS.max_accuracy_meters),
+    max_speed_kmh: positive(value.max_speed_kmh, DEFAULT_GEOFENCE_SETTINGS.max_speed_kmh)
+  }
+}
+
+// ===========================================
+// SPOOFING SIGNALS
+// ===========================================
+
+const toTime = (at: Date | string) => (at instanceof Date ? at : new Date(at)).getTime()
+
+/**
+ * Signs that a reading does not come from a real GPS fix
+ */
+export function detectSpoofing(
+  reading: PunchReading,
+  previous: PreviousPunch[],
+  settings: Pick<GeofenceSettings, 'max_speed_kmh'> = DEFAULT_GEOFENCE_SETTINGS
+): GeofenceFlag[] {
+  const flags: GeofenceFlag[] = []
+  const readingTime = toTime(reading.at)
+
+  // Real receivers always report some uncertainty
+  if (reading.accuracy !== null && reading.accuracy <= 0) {
+    flags.push({ code: 'zero_accuracy', message: 'Akurasi GPS 0 m, tidak wajar untuk GPS asli' })
+  }
+
+  if (reading.mocked) {
+    flags.push({ code: 'mock_location', message: 'Perangkat melaporkan lokasi palsu (mock location)' })
+  }
+
+  // Travel from the latest earlier punch, allowing for both accuracy radii
+  const earlier = previous
+    .filter(punch => toTime(punch.at) < readingTime)
+    .sort((a, b) => toTime(b.at) - toTime(a.at))
+  const last = earlier[0]
+  if (last) {
+    const hours = (readingTime - toTime(last.at)) / 3_600_000
+    const distance = Math.max(0, distanceMeters(reading, last) - (last.accuracy || 0) - (reading.accuracy || 0))
+    const speed = distance / 1000 / hours
+    if (speed > settings.max_speed_kmh) {
+      flags.push({
+        code: 'impossible_travel',
+        message: `Berpindah ${Math.round(distance / 1000 * 10) / 10} km dalam ${Math.max(1, Math.round(hours * 60))} menit sejak absen sebelumnya`
+      })
+    }
+  }
+
+  const repeated = earlier.some(punch =>
+    Math.abs(punch.latitude - reading.latitude) < REPEAT_TOLERANCE_DEGREES &&
+    Math.abs(punch.longitude - reading.longitude) < REPEAT_TOLERANCE_DEGREES
+  )
+  if (repeated) {
+    flags.push({ code: 'repeated_coordinates', message: 'Koordinat persis sama dengan absen sebelumnya' })
+  }
+
+  return flags
+}
+
+// ===========================================
+// DECISION
+// ===========================================
+
+/**
+ * Accept, reject or send a punch to review:
+ * - outside every zone by more than the accuracy radius: rejected
+ * - accuracy radius worse than max_accuracy_meters: rejected (try again)
+ * - outside, but within the accuracy radius of a zone: review
+ * - no accuracy reported, or any spoofing signal: review
+ */
+export function evaluatePunch(
+  reading: PunchReading,
+  settings: GeofenceSettings,
+  previous: PreviousPunch[] = []
+): GeofenceResult {
+  const accuracy = reading.accuracy !== null && Number.isFinite(reading.accuracy) ? reading.accuracy : null
+  const nearest = nearestGeofence(reading, settings.zones)
+  const flags = detectSpoofing({ ...reading, accuracy }, previous, settings)
+  const reasons: string[] = []
+
+  if (!nearest) {
+    return {
+      decision: 'rejected',
+      zone: null,
+      inside: false,
+      distance_meters: 0,
+      outside_meters: 0,
+      accuracy_meters: accuracy,
+      flags,
+      reasons: ['Belum ada area absensi yang aktif. Hubungi owner.']
+    }
+  }
+
+  const { zone, inside, outside_meters: outside } = nearest
+
+  if (!inside && (accuracy === null || outside > accuracy)) {
+    reasons.push(`Anda berada ${Math.round(outside)}m di luar area ${zone.name}.`)
+  } else if (accuracy !== null && accuracy > settings.max_accuracy_meters) {
+    reasons.push(
+      `Akurasi GPS terlalu rendah (±${Math.round(accuracy)}m, maksimal ${settings.max_accuracy_meters}m). ` +
+      'Coba lagi di dekat jendela atau di luar ruangan.'
+    )
+  } else if (!inside) {
+    flags.push({
+      code: 'boundary_uncertain',
+      message: `${Math.round(outside)}m di luar area ${zone.name}, masih dalam radius akurasi GPS`
+    })
+  }
+
+  if (accuracy === null) {
+    flags.push({ code: 'accuracy_unknown', message: 'Perangkat tidak mengirim akurasi GPS' })
+  }
+
+  return {
+    decision: reasons.length > 0 ? 'rejected' : flags.length > 0 ? 'review' : 'accepted',
+    zone: { id: zone.id, name: zone.name },
+    inside,
+    distance_meters: Math.round(nearest.distance_meters * 100) / 100,
+    outside_meters: Math.round(outside * 100) / 100,
+    accuracy_meters: accuracy,
+    flags,
+    reasons
+  }
+}
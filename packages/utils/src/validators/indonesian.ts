@@ -5,6 +5,8 @@
  * Used across the cafe management system for data validation
  */
 
+import { parseQRIS } from '../payments/qris'
+
 /**
  * Validate Indonesian phone number
  * Supports formats: +62xxx, 62xxx, 08xxx, 8xxx
@@ -332,6 +334,7 @@ export function formatNPWP(npwp: string): string | null {
 
 /**
  * Validate QR Code string for Indonesian payment systems
+ * QRIS/EMVCo payloads are fully parsed (TLV structure, mandatory fields, CRC16)
  * @param qrString - QR code string to validate
  * @returns True if valid QR code format
  */
@@ -340,9 +343,9 @@ export function isValidIndonesianQR(qrString: string): boolean {
     return false
   }
 
-  // QRIS format validation (starts with merchant info)
+  // QRIS format validation (EMVCo payload format indicator "000201")
   if (qrString.startsWith('00020')) {
-    return qrString.length >= 50 && qrString.length <= 200
+    return parseQRIS(qrString).valid
   }
 
   // Generic QR validation (base64 or alphanumeric)
@@ -60,7 +60,7 @@ export function getCorsHeaders(origin: string | null): Record<string, string> {
   const headers: Record<string, string> = {
     'Access-Control-Allow-Methods': 'GET, POST, PUT, DELETE, OPTIONS',
     'Access-Control-Allow-Headers': 
-      'authorization, x-client-info, apikey, content-type, x-device-id, x-device-role',
+      'authorization, x-client-info, apikey, content-type, x-device-token, x-device-role',
     'Access-Control-Max-Age': '86400', // 24 hours
   }
 
@@ -209,19 +209,20 @@ export function validateRequest(
 
 /**
  * Extract device info from headers
- * Used for tablet authentication
+ * Used for tablet authentication; the token still has to be checked
+ * with validateDeviceAuth
  * 
  * @param request - Request object
  * @returns Device info or null
  */
 export function extractDeviceInfo(request: Request): {
-  deviceId: string
+  deviceToken: string
   deviceRole: 'kasir' | 'dapur' | 'pelayan' | 'stok'
 } | null {
-  const deviceId = request.headers.get('X-Device-ID')
+  const deviceToken = request.headers.get('X-Device-Token')
   const deviceRole = request.headers.get('X-Device-Role') as 'kasir' | 'dapur' | 'pelayan' | 'stok'
 
-  if (!deviceId || !deviceRole) {
+  if (!deviceToken || !deviceRole) {
     return null
   }
 
@@ -231,7 +232,7 @@ export function extractDeviceInfo(request: Request): {
     return null
   }
 
-  return { deviceId, deviceRole }
+  return { deviceToken, deviceRole }
 }
 
 /**
@@ -7,6 +7,12 @@ declare namespace Deno {
     get(key: string): string | undefined;
   }
   const env: Env;
+
+  function readFile(path: string | URL): Promise<Uint8Array>;
+
+  namespace errors {
+    class NotFound extends Error {}
+  }
 }
 
 declare const Deno: typeof Deno;
\ No newline at end of file
@@ -0,0 +1,39 @@
+/**
+ * Type declarations for OCR ESM imports
+ */
+
+declare module 'https://esm.sh/tesseract-wasm@0.10.0' {
+  export interface IntRect {
+    left: number;
+    top: number;
+    right: number;
+    bottom: number;
+  }
+
+  export interface TextItem {
+    bbox: IntRect;
+    confidence: number; // 0-1
+    text: string;
+  }
+
+  export type TextUnit = 'line' | 'word';
+
+  export interface ImageLike {
+    width: number;
+    height: number;
+    data: Uint8ClampedArray;
+  }
+
+  export interface OCREngine {
+    loadModel(model: Uint8Array | ArrayBuffer): void;
+    loadImage(image: ImageLike): void;
+    clearImage(): void;
+    getText(): string;
+    getTextBoxes(unit: TextUnit): TextItem[];
+    destroy(): void;
+  }
+
+  export function createOCREngine(options?: {
+    wasmBinary?: Uint8Array | ArrayBuffer;
+  }): Promise<OCREngine>;
+}
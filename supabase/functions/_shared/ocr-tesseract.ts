@@ -0,0 +1,129 @@
+/**
+ * Tesseract WASM OCR Provider
+ *
+ * Runs Tesseract compiled to WebAssembly inside the edge function. The engine
+ * binary and the Indonesian model are read from local files so no image is
+ * sent to an external OCR service:
+ * - OCR_WASM_PATH  tesseract-core.wasm (default ./ocr/tesseract-core.wasm)
+ * - OCR_MODEL_PATH trained data (default ./ocr/ind.traineddata)
+ *
+ * Neither file is committed; ./ocr/README.md describes how to provision them.
+ * Without them the provider fails to load with OcrUnavailableError and
+ * proofs are left to manual review.
+ */
+
+/// <reference path="./deno.d.ts" />
+/// <reference path="./ocr-modules.d.ts" />
+
+import { createOCREngine } from 'https://esm.sh/tesseract-wasm@0.10.0'
+import { decodeLuma, detectImageFormat } from '../../../packages/utils/src/images/index'
+import { OcrUnavailableError, type OcrProvider, type OcrResult } from './ocr'
+
+const DEFAULT_WASM_PATH = new URL('./ocr/tesseract-core.wasm', import.meta.url)
+const DEFAULT_MODEL_PATH = new URL('./ocr/ind.traineddata', import.meta.url)
+
+// Larger screenshots are scaled down; receipt text stays legible well below this
+const MAX_OCR_PIXELS = 4_000_000
+
+interface RgbaImage {
+  width: number
+  height: number
+  data: Uint8ClampedArray
+}
+
+/**
+ * Decode a JPEG or PNG proof into RGBA pixels for the engine. Receipts are
+ * read as grayscale anyway, so the shared luma decoder is enough.
+ */
+async function decodeRgba(bytes: Uint8Array): Promise<RgbaImage> {
+  const format = detectImageFormat(bytes)
+  if (format !== 'jpeg' && format !== 'png') {
+    throw new Error(`Unsupported proof image format for OCR: ${format}`)
+  }
+
+  const luma = await decodeLuma(bytes, { fullResolution: true })
+  const data = new Uint8ClampedArray(luma.width * luma.height * 4)
+  for (let i = 0; i < luma.data.length; i++) {
+    const value = luma.data[i]
+    data[i * 4] = value
+    data[i * 4 + 1] = value
+    data[i * 4 + 2] = value
+    data[i * 4 + 3] = 255
+  }
+  return { width: luma.width, height: luma.height, data }
+}
+
+/**
+ * Nearest-neighbour downscale for oversized screenshots
+ */
+function limitSize(image: RgbaImage): RgbaImage {
+  const pixels = image.width * image.height
+  if (pixels <= MAX_OCR_PIXELS) return image
+
+  const scale = Math.sqrt(MAX_OCR_PIXELS / pixels)
+  const width = Math.max(1, Math.floor(image.width * scale))
+  const height = Math.max(1, Math.floor(image.height * scale))
+  const data = new Uint8ClampedArray(width * height * 4)
+
+  for (let y = 0; y < height; y++) {
+    const sy = Math.min(image.height - 1, Math.floor(y / scale))
+    for (let x = 0; x < width; x++) {
+      const sx = Math.min(image.width - 1, Math.floor(x / scale))
+      const from = (sy * image.width + sx) * 4
+      data.set(image.data.subarray(from, from + 4), (y * width + x) * 4)
+    }
+  }
+
+  return { width, height, data }
+}
+
+/**
+ * Read an engine file, reporting a missing one as OCR being unavailable
+ */
+async function readOcrAsset(path: string | URL, variable: string): Promise<Uint8Array> {
+  try {
+    return await Deno.readFile(path)
+  } catch (error) {
+    if (error instanceof Deno.errors.NotFound) {
+      throw new OcrUnavailableError(
+        `OCR file not found: ${path}. Provision it as described in _shared/ocr/README.md or set ${variable}`
+      )
+    }
+    throw error
+  }
+}
+
+export async function createTesseractProvider(): Promise<OcrProvider> {
+  const wasmPath = Deno.env.get('OCR_WASM_PATH') || DEFAULT_WASM_PATH
+  const modelPath = Deno.env.get('OCR_MODEL_PATH') || DEFAULT_MODEL_PATH
+
+  const [wasmBinary, model] = await Promise.all([
+    readOcrAsset(wasmPath, 'OCR_WASM_PATH'),
+    readOcrAsset(modelPath, 'OCR_MODEL_PATH')
+  ])
+
+  const engine = await createOCREngine({ wasmBinary })
+  engine.loadModel(model)
+
+  return {
+    name: 'tesseract',
+
+    async recognize(image: Uint8Array): Promise<OcrResult> {
+      engine.loadImage(limitSize(await decodeRgba(image)))
+
+      const text = engine.getText()
+      const words = engine.getTextBoxes('word')
+      const confidence = words.length > 0
+        ? words.reduce((sum, word) => sum + word.confidence, 0) / words.length
+        : 0
+
+      engine.clearImage()
+
+      return {
+        text,
+        confidence: Math.round(confidence * 100),
+        provider: 'tesseract'
+      }
+    }
+  }
+}
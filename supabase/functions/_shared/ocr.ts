@@ -0,0 +1,71 @@
+/**
+ * Receipt OCR Providers
+ *
+ * Text recognition for payment proof images behind a small provider
+ * interface. The provider named by OCR_PROVIDER is used, defaulting to the
+ * local Tesseract WASM engine, so receipts never leave the function.
+ */
+
+/// <reference path="./deno.d.ts" />
+
+import { createTesseractProvider } from './ocr-tesseract'
+
+export interface OcrResult {
+  text: string
+  confidence: number // 0-100, mean word confidence
+  provider: string
+}
+
+export interface OcrProvider {
+  name: string
+  recognize(image: Uint8Array): Promise<OcrResult>
+}
+
+export type OcrProviderFactory = () => OcrProvider | Promise<OcrProvider>
+
+/**
+ * The provider cannot run here, e.g. its engine files were not provisioned.
+ * Proofs then go to manual review instead of failing the request.
+ */
+export class OcrUnavailableError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'OcrUnavailableError'
+  }
+}
+
+const DEFAULT_OCR_PROVIDER = 'tesseract'
+
+const factories = new Map<string, OcrProviderFactory>()
+const instances = new Map<string, Promise<OcrProvider>>()
+
+/**
+ * Register an OCR provider; the factory runs on first use
+ */
+export function registerOcrProvider(name: string, factory: OcrProviderFactory): void {
+  factories.set(name, factory)
+  instances.delete(name)
+}
+
+/**
+ * Get the configured OCR provider, loading it once per function instance
+ */
+export function getOcrProvider(
+  name: string = Deno.env.get('OCR_PROVIDER') || DEFAULT_OCR_PROVIDER
+): Promise<OcrProvider> {
+  let instance = instances.get(name)
+  if (!instance) {
+    const factory = factories.get(name)
+    if (!factory) {
+      return Promise.reject(new Error(`Unknown OCR provider: ${name}`))
+    }
+
+    instance = Promise.resolve().then(factory)
+    // Let a failed load (e.g. missing model file) be retried
+    instance.catch(() => instances.delete(name))
+    instances.set(name, instance)
+  }
+  return instance
+}
+
+registerOcrProvider('tesseract', createTesseractProvider)
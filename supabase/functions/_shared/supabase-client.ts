@@ -10,6 +10,10 @@
 
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.38.0'
 import type { Database } from '../../../packages/shared-types/src/database.ts'
+import {
+  normalizeBusinessCalendar,
+  type BusinessCalendar
+} from '../../../packages/utils/src/helpers/businessCalendar'
 
 // Supabase configuration
 const SUPABASE_URL = Deno.env.get('SUPABASE_URL')!
@@ -123,32 +127,57 @@ export async function getUserFromToken(token: string) {
   }
 }
 
+/**
+ * Check whether a request carries the service role key
+ * Used for server-to-server calls, e.g. the customer web upload API
+ *
+ * @param request - Request object containing Authorization header
+ * @returns True when the bearer token is the service role key
+ */
+export function isServiceRoleRequest(request: Request): boolean {
+  return request.headers.get('Authorization') === `Bearer ${SUPABASE_SERVICE_ROLE_KEY}`
+}
+
+export type DeviceRole = 'kasir' | 'dapur' | 'pelayan' | 'stok'
+
+/**
+ * Paired device session resolved from an X-Device-Token
+ */
+export interface DeviceSession {
+  session_id: string
+  device_id: string
+  device_code: string
+  device_name: string
+  device_role: DeviceRole
+  /** Staff member signed in on the device with their PIN, if any */
+  employee_id: string | null
+  expires_at: string
+}
+
 /**
  * Validate device authentication for tablet applications
- * Checks device credentials against device_accounts table
+ * Resolves the pairing token against device_sessions; expired or revoked
+ * sessions and deactivated devices are rejected
  * 
- * @param deviceId - Device identifier
- * @param deviceRole - Device role (kasir, dapur, pelayan, stok)
- * @returns Device account info or null if invalid
+ * @param deviceToken - Session token issued by device-auth/pair
+ * @param deviceRole - Required device role (kasir, dapur, pelayan, stok)
+ * @returns Device session or null if invalid
  */
 export async function validateDeviceAuth(
-  deviceId: string, 
-  deviceRole: 'kasir' | 'dapur' | 'pelayan' | 'stok'
-) {
+  deviceToken: string,
+  deviceRole?: DeviceRole
+): Promise<DeviceSession | null> {
   try {
-    const { data: deviceAccount, error } = await supabaseAdmin
-      .from('device_accounts')
-      .select('*')
-      .eq('device_id', deviceId)
-      .eq('device_role', deviceRole)
-      .eq('is_active', true)
-      .single()
+    const { data, error } = await supabaseAdmin.rpc('validate_device_token', {
+      p_token: deviceToken,
+      p_device_role: deviceRole ?? null
+    })
 
-    if (error || !deviceAccount) {
+    if (error || !Array.isArray(data) || data.length === 0) {
       return null
     }
 
-    return deviceAccount
+    return data[0] as DeviceSession
   } catch (error) {
     console.error('Failed to validate device auth:', error)
     return null
@@ -250,6 +279,27 @@ export async function getCafeSettings() {
   }
 }
 
+/**
+ * Get the business calendar
+ * The cafe's time zone and day cutoff, for grouping by business day
+ * 
+ * @returns Business calendar, or the default (WIB, midnight) if it cannot be read
+ */
+export async function getBusinessCalendar(): Promise<BusinessCalendar> {
+  const { data, error } = await supabaseAdmin
+    .from('system_settings')
+    .select('value')
+    .eq('category', 'cafe')
+    .eq('key', 'business_calendar')
+    .maybeSingle()
+
+  if (error) {
+    console.error('Failed to get business calendar:', error)
+  }
+
+  return normalizeBusinessCalendar(data?.value)
+}
+
 /**
  * Update cafe setting
  * 
@@ -58,7 +58,7 @@ declare module 'https://esm.sh/@supabase/supabase-js@2.38.0' {
       insert: (values: any) => any;
       update: (values: any) => any;
       delete: () => any;
-      upsert: (values: any) => any;
+      upsert: (values: any, options?: { onConflict?: string; ignoreDuplicates?: boolean }) => any;
       eq: (column: string, value: any) => any;
       single: () => any;
     };
@@ -1 +1,145 @@
-// Geolocation validator
+/**
+ * Attendance Geo Validator
+ *
+ * Checks a punch location against the cafe's geofences (attendance/geofences
+ * setting, falling back to the cafe/location circle) and earlier punches of
+ * the same employee, and queues suspicious punches for the owner's review
+ */
+
+import { supabaseAdmin } from '../_shared/supabase-client'
+import {
+  evaluatePunch,
+  normalizeGeofenceSettings,
+  parseGeoPoint,
+  type GeofenceResult,
+  type GeofenceSettings,
+  type PreviousPunch,
+  type PunchReading
+} from '../../../packages/utils/src/validators/geofence'
+
+// Earlier attendance days compared for travel speed and repeated coordinates
+const PREVIOUS_DAYS = 5
+
+export type PunchType = 'clock_in' | 'clock_out'
+
+export interface PunchLocation {
+  latitude: number
+  longitude: number
+  accuracy?: number | null
+  mocked?: boolean
+}
+
+/**
+ * Load geofence zones and thresholds from system settings
+ */
+export async function loadGeofenceSettings(): Promise<GeofenceSettings> {
+  const { data, error } = await supabaseAdmin
+    .from('system_settings')
+    .select('category, key, value')
+    .in('category', ['attendance', 'cafe'])
+    .in('key', ['geofences', 'location'])
+
+  if (error) {
+    console.error('Error loading geofence settings:', error)
+  }
+
+  const geofences = data?.find((setting: any) => setting.category === 'attendance' && setting.key === 'geofences')?.value
+  const location = data?.find((setting: any) => setting.category === 'cafe' && setting.key === 'location')?.value
+
+  return normalizeGeofenceSettings(geofences, location)
+}
+
+async function loadPreviousPunches(employeeId: string): Promise<PreviousPunch[]> {
+  const { data, error } = await supabaseAdmin
+    .from('attendance')
+    .select('clock_in, clock_out, clock_in_location, clock_out_location, clock_in_accuracy, clock_out_accuracy')
+    .eq('employee_id', employeeId)
+    .order('date', { ascending: false })
+    .limit(PREVIOUS_DAYS)
+
+  if (error) {
+    console.error('Error loading previous punches:', error)
+    return []
+  }
+
+  const punches: PreviousPunch[] = []
+  for (const row of data || []) {
+    const clockIn = parseGeoPoint(row.clock_in_location)
+    if (clockIn && row.clock_in) {
+      punches.push({ ...clockIn, accuracy: row.clock_in_accuracy, at: row.clock_in })
+    }
+    const clockOut = parseGeoPoint(row.clock_out_location)
+    if (clockOut && row.clock_out) {
+      punches.push({ ...clockOut, accuracy: row.clock_out_accuracy, at: row.clock_out })
+    }
+  }
+  return punches
+}
+
+/**
+ * Reading from a request's location and timestamp
+ */
+export function toPunchReading(location: PunchLocation, timestamp?: string): PunchReading {
+  const accuracy = location.accuracy === undefined || location.accuracy === null ? null : Number(location.accuracy)
+
+  return {
+    latitude: Number(location.latitude),
+    longitude: Number(location.longitude),
+    accuracy: accuracy !== null && Number.isFinite(accuracy) ? accuracy : null,
+    mocked: location.mocked === true,
+    at: timestamp ? new Date(timestamp) : new Date()
+  }
+}
+
+/**
+ * Evaluate a punch; without an employee only the zones and accuracy count
+ */
+export async function validatePunchLocation(
+  reading: PunchReading,
+  employeeId?: string
+): Promise<GeofenceResult> {
+  const [settings, previous] = await Promise.all([
+    loadGeofenceSettings(),
+    employeeId ? loadPreviousPunches(employeeId) : Promise.resolve([])
+  ])
+
+  return evaluatePunch(reading, settings, previous)
+}
+
+/**
+ * Put a punch that needs review in the owner's queue and mark the day
+ */
+export async function queueLocationReview(
+  attendanceId: string,
+  employeeId: string,
+  punch: PunchType,
+  reading: PunchReading,
+  result: GeofenceResult
+): Promise<void> {
+  const { error } = await supabaseAdmin
+    .from('attendance_location_reviews')
+    .upsert({
+      attendance_id: attendanceId,
+      employee_id: employeeId,
+      punch,
+      latitude: reading.latitude,
+      longitude: reading.longitude,
+      accuracy_meters: reading.accuracy,
+      punched_at: new Date(reading.at).toISOString(),
+      zone_id: result.zone?.id || null,
+      zone_name: result.zone?.name || null,
+      distance_meters: result.distance_meters,
+      outside_meters: result.outside_meters,
+      flags: result.flags,
+      status: 'pending'
+    }, { onConflict: 'attendance_id,punch' })
+
+  if (error) {
+    throw new Error('Failed to queue location review: ' + error.message)
+  }
+
+  await supabaseAdmin
+    .from('attendance')
+    .update({ location_review_status: 'pending' })
+    .eq('id', attendanceId)
+}
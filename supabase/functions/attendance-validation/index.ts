@@ -24,19 +24,25 @@ import {
 import { 
   supabaseAdmin, 
   getAuthenticatedClient,
+  getBusinessCalendar,
   logAudit 
 } from '../_shared/supabase-client'
+import {
+  businessDate,
+  todayBusinessDate
+} from '../../../packages/utils/src/helpers/businessCalendar'
 import { 
   validateFields
 } from '../../../packages/utils/src/validators/index'
-
-// Attendance configuration
+import type { GeofenceResult } from '../../../packages/utils/src/validators/geofence'
+import {
+  queueLocationReview,
+  toPunchReading,
+  validatePunchLocation
+} from './geo-validator'
+
+// Attendance configuration (allowed zones live in the attendance/geofences setting)
 const ATTENDANCE_CONFIG = {
-  ALLOWED_RADIUS_METERS: 100, // 100m radius from cafe location
-  CAFE_LOCATION: {
-    latitude: -3.9778, // Kendari coordinates
-    longitude: 122.5194
-  },
   EARLY_CLOCK_IN_MINUTES: 15, // Allow 15 minutes early
   LATE_GRACE_PERIOD_MINUTES: 10, // 10 minutes grace for late
   MAX_SHIFT_HOURS: 12, // Maximum shift duration
@@ -50,7 +56,8 @@ interface ClockInRequest {
   location: {
     latitude: number
     longitude: number
-    accuracy: number
+    accuracy?: number | null
+    mocked?: boolean
   }
   timestamp: string
   device_info?: {
@@ -64,7 +71,8 @@ interface ClockOutRequest {
   location: {
     latitude: number
     longitude: number
-    accuracy: number
+    accuracy?: number | null
+    mocked?: boolean
   }
   timestamp: string
   shift_summary?: string
@@ -74,7 +82,8 @@ interface LocationValidationRequest {
   location: {
     latitude: number
     longitude: number
-    accuracy: number
+    accuracy?: number | null
+    mocked?: boolean
   }
 }
 
@@ -88,9 +97,7 @@ interface OvertimeRequest {
 // Response interfaces
 interface AttendanceValidationResult {
   valid: boolean
-  distance_from_cafe: number
-  within_radius: boolean
-  location_accuracy_acceptable: boolean
+  location: GeofenceResult
   timestamp_valid: boolean
   shift_validation: {
     is_scheduled_shift: boolean
@@ -151,10 +158,13 @@ async function handleClockIn(request: Request): Promise<Response> {
       )
     }
 
+    // Attendance belongs to the business day of the punch in the cafe's time zone
+    const attendanceDate = businessDate(clockInData.timestamp, await getBusinessCalendar())
+
     // Check if already clocked in today
     const existingAttendance = await checkExistingAttendance(
       clockInData.employee_id,
-      clockInData.timestamp
+      attendanceDate
     )
 
     if (existingAttendance.alreadyClockedIn) {
@@ -196,10 +206,22 @@ async function handleClockIn(request: Request): Promise<Response> {
     // Record attendance
     const attendanceRecord = await recordClockIn(
       clockInData,
+      attendanceDate,
       validationResult,
       employee.employee!
     )
 
+    // Suspicious location: recorded, but the owner has to confirm it
+    if (validationResult.location.decision === 'review') {
+      await queueLocationReview(
+        attendanceRecord.id,
+        clockInData.employee_id,
+        'clock_in',
+        toPunchReading(clockInData.location, clockInData.timestamp),
+        validationResult.location
+      )
+    }
+
     // Send notification if needed
     if (validationResult.shift_validation.shift_status === 'late') {
       await sendLateAttendanceNotification(
@@ -215,7 +237,8 @@ async function handleClockIn(request: Request): Promise<Response> {
       {
         employee_id: clockInData.employee_id,
         location_valid: validationResult.valid,
-        distance_from_cafe: validationResult.distance_from_cafe,
+        location_decision: validationResult.location.decision,
+        distance_from_zone: validationResult.location.distance_meters,
         shift_status: validationResult.shift_validation.shift_status,
         timestamp: clockInData.timestamp
       },
@@ -289,9 +312,10 @@ async function handleClockOut(request: Request): Promise<Response> {
     }
 
     // Get current attendance record
+    const attendanceDate = businessDate(clockOutData.timestamp, await getBusinessCalendar())
     const currentAttendance = await getCurrentAttendanceRecord(
       clockOutData.employee_id,
-      clockOutData.timestamp
+      attendanceDate
     )
 
     if (!currentAttendance.found) {
@@ -316,6 +340,18 @@ async function handleClockOut(request: Request): Promise<Response> {
       'clock_out'
     )
 
+    if (shouldRejectAttendance(validationResult)) {
+      return createErrorResponse(
+        'Attendance validation failed',
+        400,
+        {
+          validation_result: validationResult,
+          rejection_reasons: getFailureReasons(validationResult)
+        },
+        request
+      )
+    }
+
     // Calculate shift duration and overtime
     const shiftCalculation = calculateShiftDuration(
       currentAttendance.record!.clock_in_time,
@@ -327,6 +363,7 @@ async function handleClockOut(request: Request): Promise<Response> {
     if (shiftCalculation.overtime_hours >= ATTENDANCE_CONFIG.AUTO_APPROVE_OVERTIME_HOURS) {
       const overtimeApproval = await checkOvertimeApproval(
         clockOutData.employee_id,
+        attendanceDate,
         shiftCalculation.overtime_hours
       )
 
@@ -352,6 +389,16 @@ async function handleClockOut(request: Request): Promise<Response> {
       validationResult
     )
 
+    if (validationResult.location.decision === 'review') {
+      await queueLocationReview(
+        updatedAttendance.id,
+        clockOutData.employee_id,
+        'clock_out',
+        toPunchReading(clockOutData.location, clockOutData.timestamp),
+        validationResult.location
+      )
+    }
+
     // Send completion notification
     await sendShiftCompletionNotification(
       employee.employee!,
@@ -366,7 +413,8 @@ async function handleClockOut(request: Request): Promise<Response> {
         employee_id: clockOutData.employee_id,
         total_hours: shiftCalculation.total_hours,
         overtime_hours: shiftCalculation.overtime_hours,
-        location_valid: validationResult.valid
+        location_valid: validationResult.valid,
+        location_decision: validationResult.location.decision
       },
       'attendance',
       updatedAttendance.id
@@ -413,26 +461,24 @@ async function handleValidateLocation(request: Request): Promise<Response> {
 
     const locationData = body as LocationValidationRequest
 
-    // Validate location
-    const distance = calculateDistance(
-      locationData.location.latitude,
-      locationData.location.longitude,
-      ATTENDANCE_CONFIG.CAFE_LOCATION.latitude,
-      ATTENDANCE_CONFIG.CAFE_LOCATION.longitude
-    )
+    if (!locationData.location) {
+      return createErrorResponse('Location is required', 400, undefined, request)
+    }
 
-    const withinRadius = distance <= ATTENDANCE_CONFIG.ALLOWED_RADIUS_METERS
-    const accuracyAcceptable = locationData.location.accuracy <= 50 // 50m accuracy threshold
+    // Validate location against the geofences (no earlier punches to compare)
+    const result = await validatePunchLocation(toPunchReading(locationData.location))
 
     return createSuccessResponse(
       {
-        distance_from_cafe: Math.round(distance),
-        within_allowed_radius: withinRadius,
-        allowed_radius: ATTENDANCE_CONFIG.ALLOWED_RADIUS_METERS,
-        location_accuracy: locationData.location.accuracy,
-        accuracy_acceptable: accuracyAcceptable,
-        can_clock_in: withinRadius && accuracyAcceptable,
-        cafe_location: ATTENDANCE_CONFIG.CAFE_LOCATION
+        zone: result.zone,
+        inside_zone: result.inside,
+        distance_from_zone: Math.round(result.distance_meters),
+        outside_meters: Math.round(result.outside_meters),
+        location_accuracy: result.accuracy_meters,
+        decision: result.decision,
+        can_clock_in: result.decision !== 'rejected',
+        flags: result.flags,
+        reasons: result.reasons
       },
       'Location validation completed',
       undefined,
@@ -475,7 +521,7 @@ async function handleGetShiftStatus(request: Request): Promise<Response> {
     }
 
     // Get current attendance status
-    const today = new Date().toISOString().split('T')[0]
+    const today = todayBusinessDate(await getBusinessCalendar())
     const currentAttendance = await getCurrentAttendanceRecord(employeeId, today)
 
     // Get shift schedule
@@ -608,24 +654,6 @@ async function handleOvertimeRequest(request: Request): Promise<Response> {
 // HELPER FUNCTIONS
 // ===========================================
 
-/**
- * Calculate distance between two GPS coordinates (Haversine formula)
- */
-function calculateDistance(lat1: number, lon1: number, lat2: number, lon2: number): number {
-  const R = 6371000 // Earth's radius in meters
-  const φ1 = lat1 * Math.PI / 180
-  const φ2 = lat2 * Math.PI / 180
-  const Δφ = (lat2 - lat1) * Math.PI / 180
-  const Δλ = (lon2 - lon1) * Math.PI / 180
-
-  const a = Math.sin(Δφ/2) * Math.sin(Δφ/2) +
-          Math.cos(φ1) * Math.cos(φ2) *
-          Math.sin(Δλ/2) * Math.sin(Δλ/2)
-  const c = 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1-a))
-
-  return R * c // Distance in meters
-}
-
 /**
  * Validate employee exists and is active
  */
@@ -665,12 +693,10 @@ async function validateEmployee(employeeId: string): Promise<{
 /**
  * Check if employee already clocked in today
  */
-async function checkExistingAttendance(employeeId: string, timestamp: string): Promise<{
+async function checkExistingAttendance(employeeId: string, date: string): Promise<{
   alreadyClockedIn: boolean
   clockInTime?: string
 }> {
-  const date = timestamp.split('T')[0]
-  
   const { data: attendance } = await supabaseAdmin
     .from('attendance')
     .select('clock_in_time')
@@ -692,16 +718,11 @@ async function validateAttendance(
   employee: any,
   action: 'clock_in' | 'clock_out'
 ): Promise<AttendanceValidationResult> {
-  // Location validation
-  const distance = calculateDistance(
-    attendanceData.location.latitude,
-    attendanceData.location.longitude,
-    ATTENDANCE_CONFIG.CAFE_LOCATION.latitude,
-    ATTENDANCE_CONFIG.CAFE_LOCATION.longitude
+  // Location validation: geofences, GPS accuracy and spoofing signals
+  const location = await validatePunchLocation(
+    toPunchReading(attendanceData.location, attendanceData.timestamp),
+    attendanceData.employee_id
   )
-  
-  const withinRadius = distance <= ATTENDANCE_CONFIG.ALLOWED_RADIUS_METERS
-  const accuracyAcceptable = attendanceData.location.accuracy <= 50
 
   // Timestamp validation
   const timestamp = new Date(attendanceData.timestamp)
@@ -717,10 +738,8 @@ async function validateAttendance(
   )
 
   return {
-    valid: withinRadius && accuracyAcceptable && timestampValid,
-    distance_from_cafe: Math.round(distance),
-    within_radius: withinRadius,
-    location_accuracy_acceptable: accuracyAcceptable,
+    valid: location.decision === 'accepted' && timestampValid,
+    location,
     timestamp_valid: timestampValid,
     shift_validation: shiftValidation
   }
@@ -770,11 +789,9 @@ function validateShiftTiming(timestamp: string, employee: any, action: string):
  * Determine if attendance should be rejected
  */
 function shouldRejectAttendance(validation: AttendanceValidationResult): boolean {
-  // Reject if outside radius
-  if (!validation.within_radius) return true
-  
-  // Reject if location accuracy is very poor
-  if (!validation.location_accuracy_acceptable) return true
+  // Reject if outside every zone or location accuracy is very poor;
+  // suspicious locations are recorded and go to review instead
+  if (validation.location.decision === 'rejected') return true
   
   // Reject if timestamp is invalid
   if (!validation.timestamp_valid) return true
@@ -785,13 +802,7 @@ function shouldRejectAttendance(validation: AttendanceValidationResult): boolean
 function getFailureReasons(validation: AttendanceValidationResult): string[] {
   const reasons: string[] = []
   
-  if (!validation.within_radius) {
-    reasons.push(`Location is ${validation.distance_from_cafe}m from cafe (max: ${ATTENDANCE_CONFIG.ALLOWED_RADIUS_METERS}m)`)
-  }
-  
-  if (!validation.location_accuracy_acceptable) {
-    reasons.push('GPS accuracy is insufficient for attendance validation')
-  }
+  reasons.push(...validation.location.reasons)
   
   if (!validation.timestamp_valid) {
     reasons.push('Timestamp validation failed - ensure device time is synchronized')
@@ -801,14 +812,17 @@ function getFailureReasons(validation: AttendanceValidationResult): string[] {
 }
 
 // Placeholder implementations for complex functions
-async function recordClockIn(clockInData: any, validation: any, employee: any): Promise<any> {
+async function recordClockIn(clockInData: any, date: string, validation: any, employee: any): Promise<any> {
   const { data: attendance, error } = await supabaseAdmin
     .from('attendance')
     .insert({
       employee_id: clockInData.employee_id,
-      date: clockInData.timestamp.split('T')[0],
+      date,
       clock_in_time: new Date(clockInData.timestamp).toTimeString().substring(0, 8),
       clock_in_location: clockInData.location,
+      clock_in_distance: validation.location.distance_meters,
+      clock_in_accuracy: validation.location.accuracy_meters,
+      clock_in_zone: validation.location.zone?.name || null,
       validation_result: validation,
       created_at: new Date().toISOString()
     })
@@ -820,9 +834,7 @@ async function recordClockIn(clockInData: any, validation: any, employee: any):
   return attendance
 }
 
-async function getCurrentAttendanceRecord(employeeId: string, timestamp: string): Promise<any> {
-  const date = timestamp.split('T')[0]
-  
+async function getCurrentAttendanceRecord(employeeId: string, date: string): Promise<any> {
   const { data: attendance } = await supabaseAdmin
     .from('attendance')
     .select('*')
@@ -856,13 +868,13 @@ function calculateShiftDuration(clockIn: string, clockOut: string, employee: any
   }
 }
 
-async function checkOvertimeApproval(employeeId: string, overtimeHours: number): Promise<any> {
-  // Check for pre-approved overtime requests
+async function checkOvertimeApproval(employeeId: string, date: string, overtimeHours: number): Promise<any> {
+  // Check for overtime pre-approved for the shift's business day
   const { data: approval } = await supabaseAdmin
     .from('overtime_requests')
     .select('status')
     .eq('employee_id', employeeId)
-    .eq('date', new Date().toISOString().split('T')[0])
+    .eq('date', date)
     .eq('status', 'approved')
     .single()
 
@@ -877,6 +889,9 @@ async function recordClockOut(attendanceId: string, clockOutData: any, shiftCalc
     .update({
       clock_out_time: new Date(clockOutData.timestamp).toTimeString().substring(0, 8),
       clock_out_location: clockOutData.location,
+      clock_out_distance: validation.location.distance_meters,
+      clock_out_accuracy: validation.location.accuracy_meters,
+      clock_out_zone: validation.location.zone?.name || null,
       total_hours: shiftCalc.total_hours,
       overtime_hours: shiftCalc.overtime_hours,
       gross_pay: shiftCalc.gross_pay,
@@ -0,0 +1,328 @@
+/**
+ * Device Auth Edge Function
+ *
+ * Pairs staff tablets and manages their sessions. The owner generates a
+ * short-lived pairing code (or QR) on the dashboard; the tablet exchanges
+ * it for a role-scoped token, sent as X-Device-Token on every request.
+ * Staff sharing a tablet switch with their PIN, which puts them on the
+ * session as employee_id.
+ *
+ * @endpoints
+ * POST   /device-auth/pair - Exchange a pairing code for a device token
+ * GET    /device-auth/session - Current device session and signed-in staff
+ * GET    /device-auth/staff - Staff with a PIN who can sign in on this device
+ * POST   /device-auth/staff - Sign a staff member in with their PIN
+ * DELETE /device-auth/staff - Sign the current staff member out
+ */
+
+import { withCors } from '../_shared/cors'
+import {
+  createSuccessResponse,
+  createErrorResponse,
+  createUnauthorizedResponse,
+  parseJsonBody,
+  createHandler
+} from '../_shared/response'
+import {
+  supabaseAdmin,
+  validateDeviceAuth,
+  type DeviceSession
+} from '../_shared/supabase-client'
+
+// Pairing code expiry is set by the dashboard; tokens live this long
+const DEVICE_TOKEN_TTL_DAYS = 30
+
+const DEVICE_AUTH_ERRORS: Record<string, string> = {
+  DEVICE_PAIRING_CODE_INVALID: 'Pairing code is invalid or has expired',
+  DEVICE_SESSION_INVALID: 'Device session is invalid or has been revoked'
+}
+
+/**
+ * Resolve the device session from X-Device-Token; the role comes from
+ * the paired device, so X-Device-Role is not needed here
+ */
+async function authenticateDevice(request: Request): Promise<DeviceSession | null> {
+  const deviceToken = request.headers.get('X-Device-Token')
+  if (!deviceToken) {
+    return null
+  }
+  return validateDeviceAuth(deviceToken)
+}
+
+/**
+ * Map an RPC error raised by 065_device_pairing to a response
+ */
+function deviceAuthErrorResponse(error: { message: string }, request: Request): Response {
+  const message = DEVICE_AUTH_ERRORS[error.message]
+  if (message) {
+    return createErrorResponse(message, 401, { code: error.message }, request)
+  }
+  console.error('Device auth error:', error)
+  return createErrorResponse('Internal server error', 500, undefined, request)
+}
+
+/**
+ * POST /device-auth/pair - Exchange a pairing code for a device token
+ */
+async function handlePairDevice(request: Request): Promise<Response> {
+  try {
+    const body = await parseJsonBody(request)
+    if (!body) {
+      return createErrorResponse('Invalid JSON body', 400, undefined, request)
+    }
+
+    if (typeof body.code !== 'string' || !body.code.trim()) {
+      return createErrorResponse('Pairing code is required', 400, undefined, request)
+    }
+
+    const { data, error } = await supabaseAdmin.rpc('pair_device', {
+      p_code: body.code,
+      p_device_model: typeof body.device_model === 'string' ? body.device_model.slice(0, 100) : null,
+      p_app_version: typeof body.app_version === 'string' ? body.app_version.slice(0, 20) : null,
+      p_token_ttl_days: DEVICE_TOKEN_TTL_DAYS
+    })
+
+    if (error) {
+      return deviceAuthErrorResponse(error, request)
+    }
+
+    const paired = Array.isArray(data) ? data[0] : null
+    if (!paired) {
+      return createErrorResponse('Internal server error', 500, undefined, request)
+    }
+
+    return createSuccessResponse(
+      {
+        token: paired.token,
+        expires_at: paired.expires_at,
+        device: {
+          id: paired.device_id,
+          code: paired.device_code,
+          name: paired.device_name,
+          role: paired.device_role
+        }
+      },
+      'Device paired successfully',
+      undefined,
+      request
+    )
+
+  } catch (error) {
+    console.error('Error in handlePairDevice:', error)
+    return createErrorResponse(
+      'Internal server error',
+      500,
+      { error: error instanceof Error ? error.message : 'Unknown error' },
+      request
+    )
+  }
+}
+
+/**
+ * GET /device-auth/session - Current device session and signed-in staff
+ */
+async function handleGetSession(request: Request): Promise<Response> {
+  try {
+    const session = await authenticateDevice(request)
+    if (!session) {
+      return createUnauthorizedResponse(DEVICE_AUTH_ERRORS.DEVICE_SESSION_INVALID, request)
+    }
+
+    let staff = null
+    if (session.employee_id) {
+      const { data: employee } = await supabaseAdmin
+        .from('employees')
+        .select('id, full_name, position')
+        .eq('id', session.employee_id)
+        .single()
+      staff = employee
+    }
+
+    return createSuccessResponse(
+      {
+        session_id: session.session_id,
+        expires_at: session.expires_at,
+        device: {
+          id: session.device_id,
+          code: session.device_code,
+          name: session.device_name,
+          role: session.device_role
+        },
+        staff
+      },
+      undefined,
+      undefined,
+      request
+    )
+
+  } catch (error) {
+    console.error('Error in handleGetSession:', error)
+    return createErrorResponse(
+      'Internal server error',
+      500,
+      { error: error instanceof Error ? error.message : 'Unknown error' },
+      request
+    )
+  }
+}
+
+/**
+ * GET /device-auth/staff - Active staff of the device role with a PIN set
+ */
+async function handleListStaff(request: Request): Promise<Response> {
+  try {
+    const session = await authenticateDevice(request)
+    if (!session) {
+      return createUnauthorizedResponse(DEVICE_AUTH_ERRORS.DEVICE_SESSION_INVALID, request)
+    }
+
+    const { data: staff, error } = await supabaseAdmin
+      .from('employees')
+      .select('id, full_name, position')
+      .eq('position', session.device_role)
+      .eq('status', 'active')
+      .not('device_pin_hash', 'is', null)
+      .order('full_name', { ascending: true })
+
+    if (error) {
+      throw error
+    }
+
+    return createSuccessResponse(
+      {
+        staff: staff || [],
+        current_employee_id: session.employee_id
+      },
+      undefined,
+      undefined,
+      request
+    )
+
+  } catch (error) {
+    console.error('Error in handleListStaff:', error)
+    return createErrorResponse(
+      'Internal server error',
+      500,
+      { error: error instanceof Error ? error.message : 'Unknown error' },
+      request
+    )
+  }
+}
+
+/**
+ * POST /device-auth/staff - Sign in with employee_id and PIN
+ * DELETE /device-auth/staff - Sign the current staff member out
+ */
+async function handleSwitchStaff(request: Request, signOut: boolean): Promise<Response> {
+  try {
+    const deviceToken = request.headers.get('X-Device-Token')
+    if (!deviceToken) {
+      return createUnauthorizedResponse(DEVICE_AUTH_ERRORS.DEVICE_SESSION_INVALID, request)
+    }
+
+    let employeeId: string | null = null
+    let pin: string | null = null
+
+    if (!signOut) {
+      const body = await parseJsonBody(request)
+      if (!body) {
+        return createErrorResponse('Invalid JSON body', 400, undefined, request)
+      }
+      if (typeof body.employee_id !== 'string' || typeof body.pin !== 'string') {
+        return createErrorResponse('employee_id and pin are required', 400, undefined, request)
+      }
+      employeeId = body.employee_id
+      pin = body.pin
+    }
+
+    const { data, error } = await supabaseAdmin.rpc('switch_device_staff', {
+      p_token: deviceToken,
+      p_employee_id: employeeId,
+      p_pin: pin
+    })
+
+    if (error) {
+      return deviceAuthErrorResponse(error, request)
+    }
+
+    const result = Array.isArray(data) ? data[0] : null
+    if (!result) {
+      return createErrorResponse('Internal server error', 500, undefined, request)
+    }
+
+    if (result.result === 'invalid_pin') {
+      return createErrorResponse('Incorrect PIN', 401, { code: 'DEVICE_PIN_INVALID' }, request)
+    }
+
+    if (result.result === 'locked') {
+      return createErrorResponse(
+        `Too many incorrect PINs. Try again in ${Math.ceil(result.retry_after_seconds / 60)} minute(s)`,
+        429,
+        { code: 'DEVICE_PIN_LOCKED', retry_after_seconds: result.retry_after_seconds },
+        request
+      )
+    }
+
+    return createSuccessResponse(
+      {
+        employee_id: result.employee_id,
+        full_name: result.full_name,
+        signed_in_at: result.employee_login_at
+      },
+      result.result === 'signed_in' ? `Signed in as ${result.full_name}` : 'Signed out',
+      undefined,
+      request
+    )
+
+  } catch (error) {
+    console.error('Error in handleSwitchStaff:', error)
+    return createErrorResponse(
+      'Internal server error',
+      500,
+      { error: error instanceof Error ? error.message : 'Unknown error' },
+      request
+    )
+  }
+}
+
+// ===========================================
+// MAIN HANDLER WITH ROUTING
+// ===========================================
+
+const handler = withCors(createHandler({
+  GET: async (request: Request) => {
+    const url = new URL(request.url)
+
+    if (url.pathname.includes('/session')) {
+      return handleGetSession(request)
+    } else if (url.pathname.includes('/staff')) {
+      return handleListStaff(request)
+    }
+
+    return createErrorResponse('Invalid endpoint', 404, undefined, request)
+  },
+
+  POST: async (request: Request) => {
+    const url = new URL(request.url)
+
+    if (url.pathname.includes('/pair')) {
+      return handlePairDevice(request)
+    } else if (url.pathname.includes('/staff')) {
+      return handleSwitchStaff(request, false)
+    }
+
+    return createErrorResponse('Invalid endpoint', 404, undefined, request)
+  },
+
+  DELETE: async (request: Request) => {
+    const url = new URL(request.url)
+
+    if (url.pathname.includes('/staff')) {
+      return handleSwitchStaff(request, true)
+    }
+
+    return createErrorResponse('Invalid endpoint', 404, undefined, request)
+  }
+}))
+
+export default handler
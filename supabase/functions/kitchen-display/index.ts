@@ -10,21 +10,43 @@
  * GET  /kitchen-display/stats - Get kitchen performance metrics
  * POST /kitchen-display/settings - Update display preferences
  * GET  /kitchen-display/tv-mode - Get data optimized for TV display
+ * GET  /kitchen-display/station/:code - Get one station's item tickets
  */
 
-import { withCors } from '../_shared/cors'
+import { withCors, extractDeviceInfo } from '../_shared/cors'
 import { 
   createSuccessResponse, 
   createErrorResponse, 
   createUnauthorizedResponse,
+  createNotFoundResponse,
   parseJsonBody,
   createHandler
 } from '../_shared/response'
 import { 
   supabaseAdmin, 
   validateDeviceAuth,
-  getCafeSettings
+  getCafeSettings,
+  getBusinessCalendar
 } from '../_shared/supabase-client'
+import {
+  businessDateRange,
+  todayBusinessDate
+} from '../../../packages/utils/src/helpers/businessCalendar'
+import {
+  buildStationTickets,
+  countAllDay,
+  formatAllDayCount,
+  parseKitchenStationSettings,
+  OPEN_KITCHEN_ITEM_STATUSES,
+  type KitchenStationOrder,
+  type KitchenStationSettings,
+  type StationTicket
+} from '../../../packages/utils/src/helpers/kitchenStations'
+import {
+  KITCHEN_OPEN_ORDER_STATUSES,
+  summarizeKitchenPerformance,
+  type KitchenPerformanceOrder
+} from '../../../packages/utils/src/calculations/kitchenPerformance'
 
 // Kitchen display interfaces
 interface KitchenDisplayOrder {
@@ -74,7 +96,7 @@ interface KitchenMetrics {
   current_performance: {
     orders_per_hour: number
     average_prep_time: number
-    on_time_percentage: number
+    on_time_percentage: number | null // null until an order is ready today
     efficiency_score: number
   }
   real_time_stats: {
@@ -109,6 +131,9 @@ const URGENCY_COLORS = {
   critical: 'red'
 } as const
 
+// Completed tickets a station can still recall
+const RECALL_TICKET_LIMIT = 10
+
 // ===========================================
 // MAIN HANDLERS
 // ===========================================
@@ -318,6 +343,74 @@ async function handleGetTVModeDisplay(request: Request): Promise<Response> {
   }
 }
 
+/**
+ * Get one station's tickets: only its own items per order, recently
+ * completed tickets for recall, and all-day counts of open items
+ */
+async function handleGetStationQueue(request: Request): Promise<Response> {
+  try {
+    // Authenticate kitchen device
+    const authResult = await authenticateKitchenDisplay(request)
+    if (!authResult.success) {
+      return createUnauthorizedResponse(authResult.error, request)
+    }
+
+    const url = new URL(request.url)
+    const pathParts = url.pathname.split('/')
+    const stationCode = pathParts[pathParts.length - 1]
+
+    const settings = await getKitchenStationSettings()
+    const station = settings.stations.find(candidate => candidate.code === stationCode)
+    if (!station) {
+      return createNotFoundResponse('Station', request)
+    }
+
+    const orders = await getStationOrders()
+    const tickets = buildStationTickets(orders, settings, station.code)
+
+    // Latest bump first, so the ticket bumped by mistake is on top
+    const lastBump = (ticket: StationTicket) => Math.max(
+      ...ticket.items.map(item => item.bumped_at ? new Date(item.bumped_at).getTime() : 0)
+    )
+    const openTickets = tickets.filter(ticket => !ticket.is_complete)
+    const recentlyBumped = tickets
+      .filter(ticket => ticket.is_complete)
+      .sort((a, b) => lastBump(b) - lastBump(a))
+      .slice(0, RECALL_TICKET_LIMIT)
+
+    const allDay = countAllDay(openTickets).map(count => ({
+      ...count,
+      label: formatAllDayCount(count)
+    }))
+
+    return createSuccessResponse(
+      {
+        station,
+        tickets: openTickets,
+        recently_bumped: recentlyBumped,
+        all_day: allDay,
+        stations: settings.stations.map(({ code, name }) => ({ code, name }))
+      },
+      `${station.name} queue retrieved`,
+      {
+        open_tickets: openTickets.length,
+        open_items: allDay.reduce((sum, count) => sum + count.quantity, 0),
+        refresh_interval: 15 // seconds
+      },
+      request
+    )
+
+  } catch (error) {
+    console.error('Error in handleGetStationQueue:', error)
+    return createErrorResponse(
+      'Internal server error',
+      500,
+      { error: error instanceof Error ? error.message : 'Unknown error' },
+      request
+    )
+  }
+}
+
 /**
  * Update display settings
  */
@@ -419,6 +512,93 @@ async function getKitchenDisplayOrders(includeCompleted: boolean = false, limit:
   return orders || []
 }
 
+/**
+ * Stations from the kitchen/stations setting
+ */
+async function getKitchenStationSettings(): Promise<KitchenStationSettings> {
+  const { data, error } = await supabaseAdmin
+    .from('system_settings')
+    .select('value')
+    .eq('category', 'kitchen')
+    .eq('key', 'stations')
+    .maybeSingle()
+
+  if (error) {
+    throw error
+  }
+
+  return parseKitchenStationSettings(data?.value)
+}
+
+/**
+ * Orders in the kitchen with their items' categories and modifier names.
+ * Ready orders are included so their last station can recall an item.
+ */
+async function getStationOrders(): Promise<KitchenStationOrder[]> {
+  const { data: orders, error } = await supabaseAdmin
+    .from('orders')
+    .select(`
+      id, order_number, status, customer_name, customer_notes, order_type,
+      created_at, confirmed_at,
+      tables(table_number),
+      order_items(
+        id, item_name, quantity, status, customizations, notes, bumped_at,
+        menu_items(menu_categories(slug))
+      )
+    `)
+    .in('status', ['confirmed', 'preparing', 'ready'])
+    .order('confirmed_at', { ascending: true })
+    .limit(100)
+
+  if (error) {
+    throw error
+  }
+
+  // Customizations are stored as { groupId: [optionId] }
+  const optionIds = Array.from(new Set(
+    (orders || []).flatMap((order: any) =>
+      order.order_items.flatMap((item: any) => Object.values(item.customizations || {}).flat() as string[])
+    )
+  ))
+
+  const optionNames = new Map<string, string>()
+  if (optionIds.length > 0) {
+    const { data: options, error: optionsError } = await supabaseAdmin
+      .from('menu_customization_options')
+      .select('id, option_name')
+      .in('id', optionIds)
+
+    if (optionsError) {
+      throw optionsError
+    }
+    for (const option of options || []) {
+      optionNames.set(option.id, option.option_name)
+    }
+  }
+
+  return (orders || []).map((order: any) => ({
+    id: order.id,
+    order_number: order.order_number,
+    table_number: order.tables?.table_number != null ? String(order.tables.table_number) : null,
+    customer_name: order.customer_name,
+    order_type: order.order_type,
+    notes: order.customer_notes,
+    confirmed_at: order.confirmed_at || order.created_at,
+    items: order.order_items.map((item: any) => ({
+      id: item.id,
+      name: item.item_name,
+      quantity: item.quantity,
+      category: item.menu_items?.menu_categories?.slug || null,
+      status: item.status,
+      modifiers: (Object.values(item.customizations || {}).flat() as string[])
+        .map(optionId => optionNames.get(optionId))
+        .filter((name): name is string => !!name),
+      notes: item.notes,
+      bumped_at: item.bumped_at
+    }))
+  }))
+}
+
 /**
  * Get orders by specific status
  */
@@ -623,46 +803,42 @@ function calculateQueueStats(orders: any[]) {
 }
 
 /**
- * Calculate kitchen performance metrics
+ * Calculate kitchen performance metrics for the current business day
  */
 async function calculateKitchenMetrics(): Promise<KitchenMetrics> {
   try {
     const now = new Date()
     const oneHourAgo = new Date(now.getTime() - 60 * 60 * 1000)
-    const oneDayAgo = new Date(now.getTime() - 24 * 60 * 60 * 1000)
 
-    // Get completed orders in last hour
-    const { data: lastHourOrders } = await supabaseAdmin
-      .from('orders')
-      .select('actual_start_time, actual_completion_time')
-      .eq('status', 'completed')
-      .gte('actual_completion_time', oneHourAgo.toISOString())
-      .not('actual_start_time', 'is', null)
-      .not('actual_completion_time', 'is', null)
+    const calendar = await getBusinessCalendar()
+    const range = businessDateRange(todayBusinessDate(calendar, now), todayBusinessDate(calendar, now), calendar)
 
-    // Get active orders
-    const { data: activeOrders } = await supabaseAdmin
-      .from('orders')
-      .select('id, status, order_items(id, status)')
-      .in('status', ['confirmed', 'preparing', 'ready'])
+    const [orders, stations, staffCount] = await Promise.all([
+      getPerformanceOrders(range.start),
+      getKitchenStationSettings(),
+      countKitchenStaffOnShift(todayBusinessDate(calendar, now))
+    ])
 
-    // Calculate metrics
-    const ordersPerHour = lastHourOrders?.length || 0
-    
-    let averagePrepTime = 0
-    if (lastHourOrders && lastHourOrders.length > 0) {
-      const totalPrepTime = lastHourOrders.reduce((sum, order) => {
-        const start = new Date(order.actual_start_time!).getTime()
-        const end = new Date(order.actual_completion_time!).getTime()
-        return sum + (end - start)
-      }, 0)
-      averagePrepTime = Math.round(totalPrepTime / lastHourOrders.length / 1000 / 60)
-    }
+    const today = summarizeKitchenPerformance(orders, {
+      start: range.start,
+      end: range.end,
+      calendar,
+      stations,
+      now
+    })
+    const lastHour = summarizeKitchenPerformance(orders, {
+      start: oneHourAgo.toISOString(),
+      end: now.toISOString(),
+      calendar,
+      stations,
+      now
+    })
 
-    const activeOrdersCount = activeOrders?.length || 0
-    const pendingItems = activeOrders?.reduce((sum, order) => 
-      sum + order.order_items.filter((item: any) => item.status !== 'completed').length, 0
-    ) || 0
+    const activeOrders = orders.filter(order => KITCHEN_OPEN_ORDER_STATUSES.includes(order.status))
+    const activeOrdersCount = activeOrders.length
+    const pendingItems = activeOrders.reduce((sum, order) =>
+      sum + order.items.filter(item => OPEN_KITCHEN_ITEM_STATUSES.includes(item.status as any)).length, 0
+    )
 
     // Determine rush status
     let rushStatus: 'low' | 'medium' | 'high' | 'extreme' = 'low'
@@ -672,20 +848,20 @@ async function calculateKitchenMetrics(): Promise<KitchenMetrics> {
 
     return {
       current_performance: {
-        orders_per_hour: ordersPerHour,
-        average_prep_time: averagePrepTime,
-        on_time_percentage: 90, // TODO: Calculate actual on-time percentage
+        orders_per_hour: lastHour.tickets,
+        average_prep_time: Math.round(today.average_minutes || 0),
+        on_time_percentage: today.on_time_percentage,
         efficiency_score: Math.min(100, Math.max(0, 100 - (activeOrdersCount * 2)))
       },
       real_time_stats: {
         active_orders: activeOrdersCount,
         pending_items: pendingItems,
-        overdue_orders: 0, // TODO: Calculate overdue orders
-        staff_count: 3 // TODO: Get actual staff count from attendance
+        overdue_orders: today.overdue_orders,
+        staff_count: staffCount
       },
       trend_data: {
-        last_hour_completed: ordersPerHour,
-        peak_time_indicator: ordersPerHour > 10,
+        last_hour_completed: lastHour.tickets,
+        peak_time_indicator: lastHour.tickets > 10,
         rush_status: rushStatus
       }
     }
@@ -697,7 +873,7 @@ async function calculateKitchenMetrics(): Promise<KitchenMetrics> {
       current_performance: {
         orders_per_hour: 0,
         average_prep_time: 0,
-        on_time_percentage: 0,
+        on_time_percentage: null,
         efficiency_score: 0
       },
       real_time_stats: {
@@ -715,6 +891,65 @@ async function calculateKitchenMetrics(): Promise<KitchenMetrics> {
   }
 }
 
+/**
+ * Orders still in the kitchen or confirmed since `since`, with their status
+ * history and item targets and bumps
+ */
+async function getPerformanceOrders(since: string): Promise<KitchenPerformanceOrder[]> {
+  const { data: orders, error } = await supabaseAdmin
+    .from('orders')
+    .select(`
+      id, status, created_at, confirmed_at, ready_at,
+      order_status_history(new_status, created_at),
+      order_items(
+        item_name, quantity, status, bumped_at,
+        menu_items(estimated_prep_time, menu_categories(slug))
+      )
+    `)
+    .or(`status.in.(${KITCHEN_OPEN_ORDER_STATUSES.join(',')}),confirmed_at.gte.${since}`)
+    .limit(1000)
+
+  if (error) {
+    throw error
+  }
+
+  return (orders || []).map((order: any) => ({
+    id: order.id,
+    status: order.status,
+    created_at: order.created_at,
+    confirmed_at: order.confirmed_at,
+    ready_at: order.ready_at,
+    history: order.order_status_history || [],
+    items: (order.order_items || []).map((item: any) => ({
+      name: item.item_name,
+      category: item.menu_items?.menu_categories?.slug || null,
+      quantity: item.quantity,
+      status: item.status,
+      target_minutes: item.menu_items?.estimated_prep_time ?? null,
+      bumped_at: item.bumped_at
+    }))
+  }))
+}
+
+/**
+ * Kitchen staff clocked in and not yet out on the business day
+ */
+async function countKitchenStaffOnShift(date: string): Promise<number> {
+  const { data, error } = await supabaseAdmin
+    .from('attendance')
+    .select('employee_id, employees!inner(position)')
+    .eq('date', date)
+    .not('clock_in', 'is', null)
+    .is('clock_out', null)
+    .eq('employees.position', 'dapur')
+
+  if (error) {
+    throw error
+  }
+
+  return new Set((data || []).map((row: any) => row.employee_id)).size
+}
+
 /**
  * Authenticate kitchen display access
  */
@@ -724,11 +959,9 @@ async function authenticateKitchenDisplay(request: Request): Promise<{
 }> {
   try {
     // Try device authentication (kitchen tablet)
-    const deviceId = request.headers.get('X-Device-ID')
-    const deviceRole = request.headers.get('X-Device-Role')
-
-    if (deviceId && deviceRole === 'dapur') {
-      const deviceAccount = await validateDeviceAuth(deviceId, 'dapur')
+    const deviceInfo = extractDeviceInfo(request)
+    if (deviceInfo && deviceInfo.deviceRole === 'dapur') {
+      const deviceAccount = await validateDeviceAuth(deviceInfo.deviceToken, 'dapur')
       if (deviceAccount) {
         return { success: true }
       }
@@ -775,7 +1008,9 @@ const handler = withCors(createHandler({
   GET: async (request: Request) => {
     const url = new URL(request.url)
     
-    if (url.pathname.includes('/orders')) {
+    if (url.pathname.includes('/station/')) {
+      return handleGetStationQueue(request)
+    } else if (url.pathname.includes('/orders')) {
       return handleGetDisplayOrders(request)
     } else if (url.pathname.includes('/queue')) {
       return handleGetOrderQueue(request)
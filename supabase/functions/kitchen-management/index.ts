@@ -7,12 +7,14 @@
  * @endpoints
  * GET  /kitchen-management/orders - Get kitchen order queue
  * POST /kitchen-management/start-prep/:orderId - Start preparing order
- * POST /kitchen-management/complete-item/:orderItemId - Complete order item
+ * POST /kitchen-management/bump/:orderItemId - Bump an item off its station
+ * POST /kitchen-management/recall/:orderItemId - Undo a bump
+ * POST /kitchen-management/complete-item/:orderItemId - Same as bump
  * POST /kitchen-management/ready/:orderId - Mark order ready for pickup
  * GET  /kitchen-management/stats - Get kitchen performance stats
  */
 
-import { withCors } from '../_shared/cors'
+import { withCors, extractDeviceInfo } from '../_shared/cors'
 import { 
   createSuccessResponse, 
   createErrorResponse, 
@@ -33,6 +35,7 @@ import {
   isPositiveInteger,
   sanitizeString
 } from '../../../packages/utils/src/validators/index'
+import { OPEN_KITCHEN_ITEM_STATUSES } from '../../../packages/utils/src/helpers/kitchenStations'
 
 // Kitchen management interfaces
 interface KitchenOrder {
@@ -84,10 +87,8 @@ interface StartPrepRequest {
   priority_notes?: string
 }
 
-interface CompleteItemRequest {
-  quality_check: boolean
-  completion_notes?: string
-}
+// Orders whose items are still being prepared
+const KITCHEN_ORDER_STATUSES = ['confirmed', 'preparing']
 
 // ===========================================
 // MAIN HANDLERS
@@ -361,9 +362,11 @@ async function handleStartPreparation(request: Request): Promise<Response> {
 }
 
 /**
- * Complete individual order item
+ * Bump an order item off its station's display (item ready). The order
+ * turns ready once every item is bumped (update_order_status_from_items).
+ * Also served as /complete-item/:orderItemId for older tablets.
  */
-async function handleCompleteOrderItem(request: Request): Promise<Response> {
+async function handleBumpOrderItem(request: Request): Promise<Response> {
   try {
     // Extract order item ID from URL
     const url = new URL(request.url)
@@ -380,27 +383,145 @@ async function handleCompleteOrderItem(request: Request): Promise<Response> {
       return createUnauthorizedResponse(authResult.error, request)
     }
 
-    // Parse request body
-    const body = await parseJsonBody(request)
-    if (!body) {
-      return createErrorResponse('Invalid JSON body', 400, undefined, request)
+    // Get order item details
+    const { data: orderItem, error: itemError } = await supabaseAdmin
+      .from('order_items')
+      .select('id, order_id, item_name, quantity, status, orders(order_number, status)')
+      .eq('id', orderItemId)
+      .single()
+
+    if (itemError || !orderItem) {
+      return createNotFoundResponse('Order item', request)
+    }
+
+    // Validate item and order status
+    if (orderItem.status === 'ready') {
+      return createErrorResponse('Order item already bumped', 409, undefined, request)
+    }
+    if (!OPEN_KITCHEN_ITEM_STATUSES.includes(orderItem.status)) {
+      return createErrorResponse(
+        `Cannot bump order item from status: ${orderItem.status}`,
+        400,
+        undefined,
+        request
+      )
+    }
+    if (!KITCHEN_ORDER_STATUSES.includes(orderItem.orders.status)) {
+      return createErrorResponse(
+        `Cannot bump items of an order with status: ${orderItem.orders.status}`,
+        409,
+        undefined,
+        request
+      )
+    }
+
+    // Only while still open, so a double tap bumps once
+    const now = new Date().toISOString()
+    const { data: bumped, error: updateError } = await supabaseAdmin
+      .from('order_items')
+      .update({
+        status: 'ready',
+        prepared_at: now,
+        bumped_at: now,
+        bumped_by: authResult.employee_id || null
+      })
+      .eq('id', orderItemId)
+      .in('status', OPEN_KITCHEN_ITEM_STATUSES)
+      .select('id')
+      .maybeSingle()
+
+    if (updateError) {
+      return createErrorResponse(
+        'Failed to update order item status',
+        500,
+        undefined,
+        request
+      )
+    }
+    if (!bumped) {
+      return createErrorResponse('Order item already bumped', 409, undefined, request)
     }
 
-    const completeData = body as CompleteItemRequest
+    // The trigger has moved the order on; tell the waiters once it is ready
+    const { data: order } = await supabaseAdmin
+      .from('orders')
+      .select('id, order_number, status, customer_name, tables(table_number)')
+      .eq('id', orderItem.order_id)
+      .single()
 
-    // Validate required fields
-    if (typeof completeData.quality_check !== 'boolean') {
-      return createErrorResponse('Quality check status required', 400, undefined, request)
+    const orderReady = order?.status === 'ready'
+    if (order && orderReady) {
+      await sendPreparationNotifications(
+        { ...order, table_number: order.tables?.table_number },
+        'order_ready'
+      )
+    }
+
+    // Log audit
+    await logAudit(
+      authResult.user_id || 'system',
+      'BUMP_ORDER_ITEM',
+      {
+        order_item_id: orderItemId,
+        order_id: orderItem.order_id,
+        order_number: orderItem.orders.order_number,
+        menu_item: orderItem.item_name,
+        employee_id: authResult.employee_id
+      },
+      'order_items',
+      orderItemId
+    )
+
+    return createSuccessResponse(
+      {
+        order_item_id: orderItemId,
+        order_id: orderItem.order_id,
+        order_number: orderItem.orders.order_number,
+        menu_item: orderItem.item_name,
+        status: 'ready',
+        bumped_at: now,
+        order_status: order?.status || orderItem.orders.status
+      },
+      orderReady ? 'Order item bumped, order is ready' : 'Order item bumped',
+      undefined,
+      request
+    )
+
+  } catch (error) {
+    console.error('Error in handleBumpOrderItem:', error)
+    return createErrorResponse(
+      'Internal server error',
+      500,
+      { error: error instanceof Error ? error.message : 'Unknown error' },
+      request
+    )
+  }
+}
+
+/**
+ * Undo a bump: the item goes back on its station's display, and a ready
+ * order back to preparing
+ */
+async function handleRecallOrderItem(request: Request): Promise<Response> {
+  try {
+    // Extract order item ID from URL
+    const url = new URL(request.url)
+    const pathParts = url.pathname.split('/')
+    const orderItemId = pathParts[pathParts.length - 1]
+
+    if (!orderItemId) {
+      return createErrorResponse('Order item ID required', 400, undefined, request)
+    }
+
+    // Authenticate kitchen staff
+    const authResult = await authenticateKitchenAccess(request)
+    if (!authResult.success) {
+      return createUnauthorizedResponse(authResult.error, request)
     }
 
-    // Get order item details
     const { data: orderItem, error: itemError } = await supabaseAdmin
       .from('order_items')
-      .select(`
-        id, order_id, quantity, status,
-        menu_items(name, category),
-        orders(order_number, status, table_id)
-      `)
+      .select('id, order_id, item_name, status, orders(order_number, status)')
       .eq('id', orderItemId)
       .single()
 
@@ -408,23 +529,31 @@ async function handleCompleteOrderItem(request: Request): Promise<Response> {
       return createNotFoundResponse('Order item', request)
     }
 
-    // Validate item status
-    if (orderItem.status === 'completed') {
-      return createErrorResponse('Order item already completed', 400, undefined, request)
+    if (orderItem.status !== 'ready') {
+      return createErrorResponse('Only bumped items can be recalled', 409, undefined, request)
+    }
+    // Once the order has left the kitchen there is nothing to recall
+    if (![...KITCHEN_ORDER_STATUSES, 'ready'].includes(orderItem.orders.status)) {
+      return createErrorResponse(
+        `Cannot recall items of an order with status: ${orderItem.orders.status}`,
+        409,
+        undefined,
+        request
+      )
     }
 
-    // Update order item to completed
-    const now = new Date().toISOString()
-    const { error: updateError } = await supabaseAdmin
+    const { data: recalled, error: updateError } = await supabaseAdmin
       .from('order_items')
       .update({
-        status: 'completed',
-        completed_at: now,
-        quality_checked: completeData.quality_check,
-        completion_notes: completeData.completion_notes ? 
-          sanitizeString(completeData.completion_notes) : null
+        status: 'preparing',
+        prepared_at: null,
+        bumped_at: null,
+        bumped_by: null
       })
       .eq('id', orderItemId)
+      .eq('status', 'ready')
+      .select('id')
+      .maybeSingle()
 
     if (updateError) {
       return createErrorResponse(
@@ -434,42 +563,20 @@ async function handleCompleteOrderItem(request: Request): Promise<Response> {
         request
       )
     }
-
-    // Check if all items in order are completed
-    const { data: allItems, error: allItemsError } = await supabaseAdmin
-      .from('order_items')
-      .select('id, status')
-      .eq('order_id', orderItem.order_id)
-
-    if (!allItemsError && allItems) {
-      const allCompleted = allItems.every(item => item.status === 'completed')
-      
-      if (allCompleted) {
-        // Mark entire order as ready
-        await supabaseAdmin
-          .from('orders')
-          .update({
-            status: 'ready',
-            actual_completion_time: now,
-            updated_at: now
-          })
-          .eq('id', orderItem.order_id)
-
-        // Send ready notification
-        await sendPreparationNotifications(orderItem.orders, 'order_ready')
-      }
+    if (!recalled) {
+      return createErrorResponse('Only bumped items can be recalled', 409, undefined, request)
     }
 
     // Log audit
     await logAudit(
       authResult.user_id || 'system',
-      'COMPLETE_ORDER_ITEM',
+      'RECALL_ORDER_ITEM',
       {
         order_item_id: orderItemId,
         order_id: orderItem.order_id,
         order_number: orderItem.orders.order_number,
-        menu_item: orderItem.menu_items.name,
-        quality_check: completeData.quality_check
+        menu_item: orderItem.item_name,
+        employee_id: authResult.employee_id
       },
       'order_items',
       orderItemId
@@ -480,18 +587,16 @@ async function handleCompleteOrderItem(request: Request): Promise<Response> {
         order_item_id: orderItemId,
         order_id: orderItem.order_id,
         order_number: orderItem.orders.order_number,
-        menu_item: orderItem.menu_items.name,
-        status: 'completed',
-        completed_at: now,
-        quality_checked: completeData.quality_check
+        menu_item: orderItem.item_name,
+        status: 'preparing'
       },
-      'Order item completed successfully',
+      'Order item recalled',
       undefined,
       request
     )
 
   } catch (error) {
-    console.error('Error in handleCompleteOrderItem:', error)
+    console.error('Error in handleRecallOrderItem:', error)
     return createErrorResponse(
       'Internal server error',
       500,
@@ -550,11 +655,11 @@ async function handleMarkOrderReady(request: Request): Promise<Response> {
       )
     }
 
-    // Check if all items are completed
-    const incompleteItems = order.order_items.filter(item => item.status !== 'completed')
+    // Check if every station bumped its items
+    const incompleteItems = order.order_items.filter(item => !['ready', 'served', 'cancelled'].includes(item.status))
     if (incompleteItems.length > 0) {
       return createErrorResponse(
-        'Cannot mark order ready - some items are not completed',
+        'Cannot mark order ready - some items are not bumped',
         400,
         {
           incomplete_items: incompleteItems.map(item => item.menu_items.name)
@@ -803,16 +908,19 @@ async function authenticateKitchenAccess(request: Request): Promise<{
   success: boolean
   error?: string
   user_id?: string
+  // Staff member signed in on the tablet, or the owner's employee record
+  employee_id?: string
 }> {
   try {
     // Try device authentication first (for kitchen tablet)
     const deviceInfo = extractDeviceInfo(request)
     if (deviceInfo && deviceInfo.deviceRole === 'dapur') {
-      const deviceAccount = await validateDeviceAuth(deviceInfo.deviceId, 'dapur')
+      const deviceAccount = await validateDeviceAuth(deviceInfo.deviceToken, 'dapur')
       if (deviceAccount) {
         return { 
           success: true, 
-          user_id: deviceAccount.device_id
+          user_id: deviceAccount.device_id,
+          employee_id: deviceAccount.employee_id || undefined
         }
       }
     }
@@ -822,7 +930,7 @@ async function authenticateKitchenAccess(request: Request): Promise<{
     if (authResult) {
       const { data: employee } = await supabaseAdmin
         .from('employees')
-        .select('user_id, position')
+        .select('id, user_id, position')
         .eq('user_id', authResult.user.id)
         .eq('status', 'active')
         .single()
@@ -830,7 +938,8 @@ async function authenticateKitchenAccess(request: Request): Promise<{
       if (employee && ['owner', 'dapur'].includes(employee.position)) {
         return { 
           success: true, 
-          user_id: authResult.user.id
+          user_id: authResult.user.id,
+          employee_id: employee.id
         }
       }
     }
@@ -849,23 +958,6 @@ async function authenticateKitchenAccess(request: Request): Promise<{
   }
 }
 
-/**
- * Extract device info from headers
- */
-function extractDeviceInfo(request: Request): {
-  deviceId: string
-  deviceRole: 'kasir' | 'dapur' | 'pelayan' | 'stok'
-} | null {
-  const deviceId = request.headers.get('X-Device-ID')
-  const deviceRole = request.headers.get('X-Device-Role') as 'kasir' | 'dapur' | 'pelayan' | 'stok'
-
-  if (!deviceId || !deviceRole) {
-    return null
-  }
-
-  return { deviceId, deviceRole }
-}
-
 // ===========================================
 // MAIN HANDLER WITH ROUTING
 // ===========================================
@@ -888,8 +980,10 @@ const handler = withCors(createHandler({
     
     if (url.pathname.includes('/start-prep/')) {
       return handleStartPreparation(request)
-    } else if (url.pathname.includes('/complete-item/')) {
-      return handleCompleteOrderItem(request)
+    } else if (url.pathname.includes('/bump/') || url.pathname.includes('/complete-item/')) {
+      return handleBumpOrderItem(request)
+    } else if (url.pathname.includes('/recall/')) {
+      return handleRecallOrderItem(request)
     } else if (url.pathname.includes('/ready/')) {
       return handleMarkOrderReady(request)
     }
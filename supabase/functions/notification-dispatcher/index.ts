@@ -0,0 +1,453 @@
+/**
+ * Notification Dispatcher Edge Function
+ *
+ * Sends what telegram-notifications and report-generation leave queued.
+ * Each run first queues the recurring report deliveries that are due, one
+ * scheduled notification per recipient, and moves their schedule on. It
+ * then claims due `scheduled_notifications` rows with row locks, so
+ * overlapping runs never send a row twice, renders and sends them through
+ * the Telegram sender and records the outcome. Failed sends are retried
+ * with backoff until max_attempts; anything but urgent notifications
+ * waits for the end of the recipient's quiet hours.
+ *
+ * Call /run every minute from a scheduler (pg_cron with pg_net, or any
+ * external cron) with `Authorization: Bearer <CRON_SECRET>`.
+ *
+ * @endpoints
+ * POST /notification-dispatcher/run - Queue due reports and send due notifications
+ */
+
+import { withCors } from '../_shared/cors'
+import {
+  createSuccessResponse,
+  createErrorResponse,
+  createUnauthorizedResponse,
+  createHandler
+} from '../_shared/response'
+import {
+  supabaseAdmin,
+  getAuthenticatedClient,
+  getBusinessCalendar
+} from '../_shared/supabase-client'
+import type { BusinessCalendar } from '../../../packages/utils/src/helpers/businessCalendar'
+import {
+  nextReportDelivery,
+  quietHoursEnd,
+  reportPeriod,
+  type QuietHours,
+  type ReportSchedule
+} from '../../../packages/utils/src/helpers/notificationSchedule'
+import { sendTelegramMessage, sendDocument, retryDelay, RETRY_CONFIG } from '../telegram-notifications/sender'
+import { getMessageTemplate, NotificationType } from '../telegram-notifications/templates'
+import { REPORT_NOTIFICATION_TYPES, renderScheduledReport } from '../report-generation/scheduled-report'
+
+// Rows sent per run; the sender retries within a request, so keep runs short
+const CLAIM_LIMIT = 20
+
+// Between runs the sender's backoff curve counts in minutes instead of
+// seconds, since the dispatcher runs every minute
+const RUN_BACKOFF_SCALE = 60
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i
+
+interface ScheduledNotification {
+  id: string
+  chat_id: string
+  recipient_name: string | null
+  message: string
+  notification_type: string
+  data: Record<string, any> | null
+  priority: 'low' | 'normal' | 'high' | 'urgent'
+  report_schedule_id: string | null
+  document_url: string | null
+  attempts: number
+  max_attempts: number
+}
+
+interface ReportScheduleRow {
+  id: string
+  report_type: ReportSchedule
+  schedule: ReportSchedule
+  recipients: string[]
+  delivery_time: string
+  next_delivery_at: string
+}
+
+interface DispatchSummary {
+  reports_queued: number
+  claimed: number
+  sent: number
+  retrying: number
+  deferred: number
+  failed: number
+}
+
+// ===========================================
+// MAIN HANDLERS
+// ===========================================
+
+/**
+ * POST /notification-dispatcher/run
+ */
+async function handleRun(request: Request): Promise<Response> {
+  try {
+    const authResult = await authenticateDispatcherRequest(request)
+    if (!authResult.success) {
+      return createUnauthorizedResponse(authResult.error, request)
+    }
+
+    const worker = `dispatcher_${crypto.randomUUID()}`
+    const calendar = await getBusinessCalendar()
+
+    const reportsQueued = await queueDueReports(worker, calendar)
+    const summary = await dispatchDueNotifications(worker, calendar)
+
+    return createSuccessResponse(
+      { ...summary, reports_queued: reportsQueued },
+      'Dispatch completed',
+      undefined,
+      request
+    )
+
+  } catch (error) {
+    console.error('Error in handleRun:', error)
+    return createErrorResponse(
+      'Internal server error',
+      500,
+      { error: error instanceof Error ? error.message : 'Unknown error' },
+      request
+    )
+  }
+}
+
+// ===========================================
+// REPORT DELIVERIES
+// ===========================================
+
+/**
+ * Queue a notification per recipient for each due report schedule and
+ * move the schedule to its next delivery
+ */
+async function queueDueReports(worker: string, calendar: BusinessCalendar): Promise<number> {
+  const { data: schedules, error } = await supabaseAdmin
+    .rpc('claim_due_report_schedules', { p_worker: worker })
+
+  if (error) {
+    throw new Error(`Failed to claim report schedules: ${error.message}`)
+  }
+
+  let queued = 0
+
+  for (const schedule of (schedules || []) as ReportScheduleRow[]) {
+    try {
+      const deliveryAt = new Date(schedule.next_delivery_at)
+      const period = reportPeriod(schedule.report_type, deliveryAt, calendar)
+      const recipients = await resolveReportRecipients(schedule.recipients)
+
+      for (const recipient of recipients) {
+        const { error: insertError } = await supabaseAdmin
+          .from('scheduled_notifications')
+          .insert({
+            chat_id: recipient.chat_id,
+            recipient_name: recipient.recipient_name,
+            notification_type: REPORT_NOTIFICATION_TYPES[schedule.report_type],
+            data: { report_type: schedule.report_type, ...period },
+            priority: 'normal',
+            report_schedule_id: schedule.id,
+            scheduled_at: schedule.next_delivery_at,
+            max_attempts: RETRY_CONFIG.max_retries + 1
+          })
+
+        // 23505: this delivery was queued by an earlier run that died
+        if (insertError && insertError.code !== '23505') {
+          throw new Error(insertError.message)
+        }
+        if (!insertError) queued++
+      }
+
+      if (recipients.length === 0) {
+        console.warn(`Report schedule ${schedule.id} has no reachable recipients`)
+      }
+
+      // Deliveries missed while the dispatcher was down are not caught up
+      await supabaseAdmin
+        .from('report_schedules')
+        .update({
+          next_delivery_at: nextReportDelivery(
+            schedule.schedule,
+            schedule.delivery_time,
+            calendar,
+            new Date(Math.max(Date.now(), deliveryAt.getTime()))
+          ).toISOString(),
+          last_delivered_at: schedule.next_delivery_at,
+          locked_at: null,
+          locked_by: null
+        })
+        .eq('id', schedule.id)
+
+    } catch (error) {
+      console.error(`Error queuing report schedule ${schedule.id}:`, error)
+      // Leave the lock to expire so a later run tries again
+    }
+  }
+
+  return queued
+}
+
+/**
+ * Chat IDs of report recipients: 'owner', an employee ID or a chat ID
+ */
+async function resolveReportRecipients(recipients: string[]): Promise<Array<{
+  chat_id: string
+  recipient_name: string
+}>> {
+  const resolved: Array<{ chat_id: string; recipient_name: string }> = []
+  const employeeIds = recipients.filter(recipient => UUID_PATTERN.test(recipient))
+
+  if (recipients.includes('owner')) {
+    const { data: ownerSettings } = await supabaseAdmin
+      .from('system_settings')
+      .select('value')
+      .eq('key', 'owner_telegram_chat_id')
+      .maybeSingle()
+
+    if (ownerSettings?.value) {
+      resolved.push({ chat_id: String(ownerSettings.value), recipient_name: 'Owner' })
+    }
+  }
+
+  if (employeeIds.length > 0) {
+    const { data: employees } = await supabaseAdmin
+      .from('employees')
+      .select('telegram_chat_id, full_name, telegram_notifications_enabled')
+      .in('id', employeeIds)
+      .eq('status', 'active')
+      .not('telegram_chat_id', 'is', null)
+
+    for (const employee of employees || []) {
+      if (employee.telegram_notifications_enabled !== false) {
+        resolved.push({ chat_id: employee.telegram_chat_id, recipient_name: employee.full_name })
+      }
+    }
+  }
+
+  for (const recipient of recipients) {
+    if (recipient !== 'owner' && !UUID_PATTERN.test(recipient)) {
+      resolved.push({ chat_id: recipient, recipient_name: 'Direct Chat' })
+    }
+  }
+
+  // Remove duplicates based on chat_id
+  return resolved.filter((recipient, index, self) =>
+    index === self.findIndex(r => r.chat_id === recipient.chat_id)
+  )
+}
+
+// ===========================================
+// SENDING
+// ===========================================
+
+/**
+ * Claim due notifications and send them
+ */
+async function dispatchDueNotifications(worker: string, calendar: BusinessCalendar): Promise<DispatchSummary> {
+  const summary: DispatchSummary = {
+    reports_queued: 0,
+    claimed: 0,
+    sent: 0,
+    retrying: 0,
+    deferred: 0,
+    failed: 0
+  }
+
+  const { data: claimed, error } = await supabaseAdmin
+    .rpc('claim_scheduled_notifications', { p_worker: worker, p_limit: CLAIM_LIMIT })
+
+  if (error) {
+    throw new Error(`Failed to claim notifications: ${error.message}`)
+  }
+
+  const notifications = (claimed || []) as ScheduledNotification[]
+  summary.claimed = notifications.length
+  if (notifications.length === 0) {
+    return summary
+  }
+
+  // Quiet hours of everyone in this batch
+  const { data: quietHours } = await supabaseAdmin
+    .from('notification_quiet_hours')
+    .select('chat_id, start_time, end_time')
+    .in('chat_id', [...new Set(notifications.map(notification => notification.chat_id))])
+
+  const quietHoursByChat = new Map<string, QuietHours>(
+    (quietHours || []).map(row => [row.chat_id, { start: row.start_time, end: row.end_time }] as [string, QuietHours])
+  )
+
+  for (const notification of notifications) {
+    const now = new Date()
+
+    const quiet = quietHoursByChat.get(notification.chat_id)
+    const quietUntil = quiet && notification.priority !== 'urgent'
+      ? quietHoursEnd(now, quiet, calendar)
+      : null
+
+    if (quietUntil) {
+      // Waiting out quiet hours does not use up an attempt
+      await releaseNotification(notification.id, {
+        status: 'pending',
+        attempts: notification.attempts - 1,
+        next_attempt_at: quietUntil.toISOString()
+      })
+      summary.deferred++
+      continue
+    }
+
+    const result = await sendNotification(notification, calendar)
+
+    if (result.success) {
+      await releaseNotification(notification.id, {
+        status: 'sent',
+        sent_at: new Date().toISOString(),
+        telegram_message_id: result.message_id || null,
+        last_error: null,
+        ...(result.message !== undefined && { message: result.message })
+      })
+      summary.sent++
+    } else if (result.retry_recommended !== false && notification.attempts < notification.max_attempts) {
+      await releaseNotification(notification.id, {
+        status: 'pending',
+        next_attempt_at: new Date(Date.now() + retryDelay(notification.attempts - 1) * RUN_BACKOFF_SCALE).toISOString(),
+        last_error: result.error || 'Unknown error'
+      })
+      summary.retrying++
+    } else {
+      await releaseNotification(notification.id, {
+        status: 'failed',
+        failed_at: new Date().toISOString(),
+        last_error: result.error || 'Unknown error'
+      })
+      summary.failed++
+    }
+  }
+
+  return summary
+}
+
+/**
+ * Render a notification (report deliveries are generated now) and send it
+ */
+async function sendNotification(
+  notification: ScheduledNotification,
+  calendar: BusinessCalendar
+): Promise<{
+  success: boolean
+  message_id?: number
+  message?: string
+  error?: string
+  retry_recommended?: boolean
+}> {
+  try {
+    let message = notification.message
+    let rendered: string | undefined
+
+    if (notification.report_schedule_id || !message) {
+      const data = notification.data || {}
+      const template = data.report_type
+        ? await renderScheduledReport(data.report_type, data.start_date, data.end_date, calendar)
+        : { notification_type: notification.notification_type, data }
+
+      const messageTemplate = getMessageTemplate(template.notification_type as NotificationType, template.data)
+      if (!messageTemplate.success || !messageTemplate.message) {
+        return { success: false, error: messageTemplate.error || 'Template error', retry_recommended: false }
+      }
+      message = rendered = messageTemplate.message
+    }
+
+    const options = {
+      priority: notification.priority,
+      notification_type: notification.notification_type,
+      data: notification.data || undefined
+    }
+
+    const sendResult = notification.document_url
+      ? await sendDocument(notification.chat_id, notification.document_url, message, options)
+      : await sendTelegramMessage(notification.chat_id, message, options)
+
+    return { ...sendResult, message: rendered }
+
+  } catch (error) {
+    console.error(`Error sending notification ${notification.id}:`, error)
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error',
+      retry_recommended: true
+    }
+  }
+}
+
+/**
+ * Record the outcome of an attempt and drop the claim
+ */
+async function releaseNotification(id: string, changes: Record<string, any>): Promise<void> {
+  const { error } = await supabaseAdmin
+    .from('scheduled_notifications')
+    .update({ ...changes, locked_at: null, locked_by: null })
+    .eq('id', id)
+
+  if (error) {
+    console.error(`Error updating notification ${id}:`, error)
+  }
+}
+
+/**
+ * Authenticate the scheduler (CRON_SECRET) or the owner running it by hand
+ */
+async function authenticateDispatcherRequest(request: Request): Promise<{
+  success: boolean
+  error?: string
+  user_id?: string
+}> {
+  try {
+    const cronSecret = Deno.env.get('CRON_SECRET')
+    if (cronSecret && request.headers.get('Authorization') === `Bearer ${cronSecret}`) {
+      return { success: true, user_id: 'system' }
+    }
+
+    const authResult = await getAuthenticatedClient(request)
+    if (authResult) {
+      const { data: user } = await supabaseAdmin
+        .from('users')
+        .select('id, role')
+        .eq('id', authResult.user.id)
+        .single()
+
+      if (user && user.role === 'owner') {
+        return { success: true, user_id: authResult.user.id }
+      }
+    }
+
+    return { success: false, error: 'Unauthorized access' }
+
+  } catch (error) {
+    console.error('Error authenticating dispatcher request:', error)
+    return { success: false, error: 'Authentication failed' }
+  }
+}
+
+// ===========================================
+// MAIN HANDLER WITH ROUTING
+// ===========================================
+
+const handler = withCors(createHandler({
+  POST: async (request: Request) => {
+    const url = new URL(request.url)
+
+    if (url.pathname.includes('/run')) {
+      return handleRun(request)
+    }
+
+    return createErrorResponse('Invalid endpoint', 404, undefined, request)
+  }
+}))
+
+export default handler
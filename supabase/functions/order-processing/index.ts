@@ -25,7 +25,8 @@ import {
   supabaseAdmin, 
   getAuthenticatedClient,
   validateDeviceAuth,
-  logAudit 
+  logAudit,
+  getBusinessCalendar
 } from '../_shared/supabase-client'
 import { 
   validateFields,
@@ -34,6 +35,19 @@ import {
   isValidRupiahAmount,
   sanitizeString
 } from '../../../packages/utils/src/validators/index'
+import { todayBusinessDate } from '../../../packages/utils/src/helpers/businessCalendar'
+import { parseKitchenStationSettings } from '../../../packages/utils/src/helpers/kitchenStations'
+import {
+  DEFAULT_TARGET_PREP_MINUTES,
+  KITCHEN_OPEN_ORDER_STATUSES
+} from '../../../packages/utils/src/calculations/kitchenPerformance'
+import {
+  PREP_HISTORY_DAYS,
+  estimateOrderEta,
+  typicalPrepMinutes,
+  type EtaOrder,
+  type PrepTimeSample
+} from '../../../packages/utils/src/calculations/orderEta'
 
 // Types for order creation
 interface OrderItem {
@@ -135,8 +149,11 @@ async function handleCreateOrder(request: Request): Promise<Response> {
       )
     }
 
+    // Estimate behind the current kitchen queue
+    const estimatedTime = await calculateEstimatedTime(itemsValidation.calculatedItems)
+
     // Create order in database
-    const orderResult = await createOrderInDatabase(orderData, itemsValidation.calculatedItems)
+    const orderResult = await createOrderInDatabase(orderData, itemsValidation.calculatedItems, estimatedTime)
     if (!orderResult.success) {
       return createErrorResponse(
         orderResult.error || 'Failed to create order',
@@ -174,7 +191,7 @@ async function handleCreateOrder(request: Request): Promise<Response> {
       customer_name: orderData.customer_name,
       total_amount: orderResult.order.total_amount,
       status: 'pending',
-      estimated_time: calculateEstimatedTime(orderData.items.length),
+      estimated_time: estimatedTime,
       items: itemsValidation.calculatedItems.map(item => ({
         menu_item_name: item.menu_item_name,
         quantity: item.quantity,
@@ -505,7 +522,8 @@ async function validateAndCalculateItems(items: OrderItem[]): Promise<{
  */
 async function createOrderInDatabase(
   orderData: CreateOrderRequest,
-  calculatedItems: any[]
+  calculatedItems: any[],
+  estimatedTime: number
 ): Promise<{
   success: boolean
   error?: string
@@ -548,7 +566,7 @@ async function createOrderInDatabase(
         service_charge: serviceCharge,
         total_amount: totalAmount,
         special_instructions: orderData.special_instructions ? sanitizeString(orderData.special_instructions) : null,
-        estimated_completion_time: new Date(Date.now() + calculateEstimatedTime(calculatedItems.length) * 60000).toISOString()
+        estimated_completion_time: new Date(Date.now() + estimatedTime * 60000).toISOString()
       })
       .select()
       .single()
@@ -655,18 +673,113 @@ async function sendOrderNotificationToKasir(order: any) {
 }
 
 /**
- * Calculate estimated completion time based on order complexity
+ * Minutes until a new order would be ready: behind every open kitchen
+ * order, with each item's typical prep time and the kitchen staff on shift
  */
-function calculateEstimatedTime(itemCount: number): number {
-  // Base time: 10 minutes
-  // Additional time: 3 minutes per item
-  // Max time: 45 minutes
-  const baseTime = 10
-  const timePerItem = 3
-  const maxTime = 45
-
-  const estimated = baseTime + (itemCount * timePerItem)
-  return Math.min(estimated, maxTime)
+async function calculateEstimatedTime(items: Array<{ menu_item_id: string; quantity: number }>): Promise<number> {
+  try {
+    const [{ data: openOrders, error: ordersError }, { data: stationsSetting }, calendar] = await Promise.all([
+      supabaseAdmin
+        .from('orders')
+        .select(`
+          id, created_at, confirmed_at, preparing_at,
+          order_items(menu_item_id, quantity, status, menu_items(menu_categories(slug)))
+        `)
+        .in('status', KITCHEN_OPEN_ORDER_STATUSES),
+      supabaseAdmin
+        .from('system_settings')
+        .select('value')
+        .eq('category', 'kitchen')
+        .eq('key', 'stations')
+        .maybeSingle(),
+      getBusinessCalendar()
+    ])
+
+    if (ordersError) {
+      throw ordersError
+    }
+
+    const queued: EtaOrder[] = (openOrders || []).map((order: any) => ({
+      id: order.id,
+      queued_at: order.confirmed_at || order.created_at,
+      started_at: order.preparing_at,
+      items: (order.order_items || []).map((item: any) => ({
+        menu_item_id: item.menu_item_id,
+        category: item.menu_items?.menu_categories?.slug || null,
+        quantity: item.quantity,
+        status: item.status
+      }))
+    }))
+
+    const menuItemIds = Array.from(new Set([
+      ...items.map(item => item.menu_item_id),
+      ...queued.flatMap(order => order.items.map(item => item.menu_item_id))
+    ]))
+    const since = new Date(Date.now() - PREP_HISTORY_DAYS * 24 * 60 * 60 * 1000).toISOString()
+
+    const [{ data: menuItems }, { data: bumped }, { data: onShift }] = await Promise.all([
+      supabaseAdmin
+        .from('menu_items')
+        .select('id, estimated_prep_time, menu_categories(slug)')
+        .in('id', menuItemIds),
+      supabaseAdmin
+        .from('order_items')
+        .select('menu_item_id, bumped_at, orders!inner(confirmed_at, preparing_at)')
+        .in('menu_item_id', menuItemIds)
+        .gte('bumped_at', since)
+        .limit(2000),
+      supabaseAdmin
+        .from('attendance')
+        .select('employee_id, employees!inner(position)')
+        .eq('date', todayBusinessDate(calendar))
+        .not('clock_in', 'is', null)
+        .is('clock_out', null)
+        .eq('employees.position', 'dapur')
+    ])
+
+    const estimated: Record<string, number | null> = {}
+    const categories: Record<string, string | null> = {}
+    for (const menuItem of (menuItems || []) as any[]) {
+      estimated[menuItem.id] = menuItem.estimated_prep_time
+      categories[menuItem.id] = menuItem.menu_categories?.slug || null
+    }
+
+    const samples: PrepTimeSample[] = []
+    for (const item of (bumped || []) as any[]) {
+      const startedAt = item.orders?.preparing_at || item.orders?.confirmed_at
+      if (!startedAt) continue
+      samples.push({
+        menu_item_id: item.menu_item_id,
+        minutes: (new Date(item.bumped_at).getTime() - new Date(startedAt).getTime()) / 60000
+      })
+    }
+
+    // Not paid yet, so it joins the back of the queue
+    const now = new Date()
+    const order: EtaOrder = {
+      id: 'new',
+      queued_at: now.toISOString(),
+      started_at: null,
+      items: items.map(item => ({
+        menu_item_id: item.menu_item_id,
+        category: categories[item.menu_item_id] || null,
+        quantity: item.quantity,
+        status: 'pending'
+      }))
+    }
+
+    const eta = estimateOrderEta(order, {
+      orders: queued,
+      prep_minutes: typicalPrepMinutes(samples, estimated),
+      staff_on_shift: new Set((onShift || []).map((row: any) => row.employee_id)).size,
+      stations: parseKitchenStationSettings(stationsSetting?.value)
+    }, now)
+
+    return eta.minutes
+  } catch (error) {
+    console.error('Error estimating order time:', error)
+    return DEFAULT_TARGET_PREP_MINUTES
+  }
 }
 
 /**
@@ -13,7 +13,7 @@
  * POST /order-status-updates/validate - Validate status transition
  */
 
-import { withCors } from '../_shared/cors'
+import { withCors, extractDeviceInfo } from '../_shared/cors'
 import { 
   createSuccessResponse, 
   createErrorResponse, 
@@ -33,6 +33,7 @@ import {
   validateFields,
   sanitizeString
 } from '../../../packages/utils/src/validators/index'
+import { reverseOrderStockDeduction, WastedIngredient } from '../stock-deduction/reversal'
 
 // Order status types and interfaces
 type OrderStatus = 'pending' | 'confirmed' | 'preparing' | 'ready' | 'served' | 'completed' | 'cancelled'
@@ -44,6 +45,7 @@ interface StatusUpdateRequest {
   staff_id?: string
   estimated_time?: number
   quality_score?: number
+  wasted_ingredients?: WastedIngredient[] // Only for cancelling during preparation
 }
 
 interface BulkStatusUpdateRequest {
@@ -138,6 +140,13 @@ async function handleUpdateOrderStatus(request: Request): Promise<Response> {
       )
     }
 
+    if (updateData.wasted_ingredients !== undefined) {
+      const wasteErrors = validateWastedIngredients(updateData)
+      if (wasteErrors.length > 0) {
+        return createValidationErrorResponse(wasteErrors, request)
+      }
+    }
+
     // Authenticate user
     const authResult = await authenticateStatusUpdate(request, updateData.new_status)
     if (!authResult.success) {
@@ -165,6 +174,15 @@ async function handleUpdateOrderStatus(request: Request): Promise<Response> {
       updateData.new_status as OrderStatus
     )
 
+    if (updateData.wasted_ingredients?.length && order.status !== 'preparing') {
+      return createErrorResponse(
+        'Wasted ingredients can only be recorded when cancelling an order in preparation',
+        400,
+        { current_status: order.status },
+        request
+      )
+    }
+
     if (!transitionValidation.valid) {
       return createErrorResponse(
         'Invalid status transition',
@@ -548,6 +566,7 @@ function validateStatusTransition(
   if (currentStatus === 'preparing' && newStatus === 'cancelled') {
     warnings.push('Cancelling order during preparation may waste ingredients')
     requirements.push('Manager approval may be required')
+    requirements.push('Kitchen should mark wasted ingredients so the rest is restored to stock')
   }
 
   if (newStatus === 'completed') {
@@ -565,6 +584,47 @@ function validateStatusTransition(
   }
 }
 
+/**
+ * Validate wasted ingredient entries of a cancellation
+ */
+function validateWastedIngredients(updateData: StatusUpdateRequest): Array<{
+  field: string
+  message: string
+  code: string
+}> {
+  const errors: Array<{ field: string; message: string; code: string }> = []
+
+  if (updateData.new_status !== 'cancelled') {
+    errors.push({
+      field: 'wasted_ingredients',
+      message: 'Wasted ingredients are only accepted when cancelling an order',
+      code: 'VALIDATION_ERROR'
+    })
+    return errors
+  }
+
+  if (!Array.isArray(updateData.wasted_ingredients)) {
+    errors.push({
+      field: 'wasted_ingredients',
+      message: 'Wasted ingredients must be an array',
+      code: 'VALIDATION_ERROR'
+    })
+    return errors
+  }
+
+  updateData.wasted_ingredients.forEach((item, index) => {
+    if (!item?.ingredient_id || typeof item.quantity !== 'number' || item.quantity < 0) {
+      errors.push({
+        field: `wasted_ingredients[${index}]`,
+        message: 'Each entry needs an ingredient_id and a non-negative quantity',
+        code: 'VALIDATION_ERROR'
+      })
+    }
+  })
+
+  return errors
+}
+
 /**
  * Execute status update with all necessary side effects
  */
@@ -612,22 +672,22 @@ async function executeStatusUpdate(
       throw updateError
     }
 
-    // Record status history
+    // The orders trigger recorded the change; add who made it and why
     await supabaseAdmin
       .from('order_status_history')
-      .insert({
-        order_id: order.id,
-        previous_status: order.status,
-        new_status: updateData.new_status,
+      .update({
         changed_by: userId,
         changed_by_name: userName,
         reason: updateData.reason ? sanitizeString(updateData.reason) : null,
-        notes: updateData.notes ? sanitizeString(updateData.notes) : null,
-        created_at: now
+        notes: updateData.notes ? sanitizeString(updateData.notes) : null
       })
+      .eq('order_id', order.id)
+      .eq('previous_status', order.status)
+      .eq('new_status', updateData.new_status)
+      .is('changed_by', null)
 
     // Handle status-specific side effects
-    await handleStatusSideEffects(order, updateData.new_status as OrderStatus, userId)
+    await handleStatusSideEffects(order, updateData, userId)
 
     return { success: true }
 
@@ -645,11 +705,11 @@ async function executeStatusUpdate(
  */
 async function handleStatusSideEffects(
   order: any,
-  newStatus: OrderStatus,
+  updateData: StatusUpdateRequest,
   userId: string
 ): Promise<void> {
   try {
-    switch (newStatus) {
+    switch (updateData.new_status) {
       case 'completed':
         // Update table status to available
         await supabaseAdmin
@@ -664,9 +724,23 @@ async function handleStatusSideEffects(
 
       case 'cancelled':
         // Reverse stock deduction if order was confirmed
-        if (['confirmed', 'preparing'].includes(order.status)) {
-          // TODO: Implement stock reversal
-          console.log('TODO: Reverse stock deduction for cancelled order:', order.id)
+        if (order.status === 'confirmed' || updateData.wasted_ingredients !== undefined) {
+          await reverseOrderStockDeduction(order.id, userId, updateData.wasted_ingredients)
+        } else if (order.status === 'preparing') {
+          // Kitchen decides what was wasted, reversal happens via /stock-deduction/reverse
+          await supabaseAdmin
+            .from('notifications')
+            .insert({
+              type: 'stock_waste_review',
+              title: 'Mark Wasted Ingredients',
+              message: `Order ${order.order_number} was cancelled during preparation. Mark wasted ingredients to restore the rest.`,
+              data: {
+                order_id: order.id,
+                order_number: order.order_number
+              },
+              channel: 'in_app',
+              target_role: 'dapur'
+            })
         }
 
         // Update table status to available
@@ -869,7 +943,7 @@ async function authenticateStatusUpdate(
     // Try device authentication first
     const deviceInfo = extractDeviceInfo(request)
     if (deviceInfo) {
-      const deviceAccount = await validateDeviceAuth(deviceInfo.deviceId, deviceInfo.deviceRole)
+      const deviceAccount = await validateDeviceAuth(deviceInfo.deviceToken, deviceInfo.deviceRole)
       if (deviceAccount) {
         // Check role permissions for target status
         if (targetStatus) {
@@ -936,23 +1010,6 @@ async function authenticateStatusUpdate(
   }
 }
 
-/**
- * Extract device info from headers
- */
-function extractDeviceInfo(request: Request): {
-  deviceId: string
-  deviceRole: 'kasir' | 'dapur' | 'pelayan' | 'stok'
-} | null {
-  const deviceId = request.headers.get('X-Device-ID')
-  const deviceRole = request.headers.get('X-Device-Role') as 'kasir' | 'dapur' | 'pelayan' | 'stok'
-
-  if (!deviceId || !deviceRole) {
-    return null
-  }
-
-  return { deviceId, deviceRole }
-}
-
 // ===========================================
 // MAIN HANDLER WITH ROUTING
 // ===========================================
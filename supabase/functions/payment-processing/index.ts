@@ -11,7 +11,7 @@
  * DELETE /payment-processing/:paymentId - Cancel payment
  */
 
-import { withCors } from '../_shared/cors'
+import { withCors, extractDeviceInfo } from '../_shared/cors'
 import { 
   createSuccessResponse, 
   createErrorResponse, 
@@ -628,10 +628,10 @@ async function authenticateKasir(request: Request): Promise<{
     // Try device authentication first (for tablet)
     const deviceInfo = extractDeviceInfo(request)
     if (deviceInfo && deviceInfo.deviceRole === 'kasir') {
-      const deviceAccount = await validateDeviceAuth(deviceInfo.deviceId, 'kasir')
+      const deviceAccount = await validateDeviceAuth(deviceInfo.deviceToken, 'kasir')
       if (deviceAccount) {
-        // For device login, get employee from headers or additional auth
-        const employeeId = request.headers.get('X-Employee-ID')
+        // Staff signed in on the tablet with their PIN
+        const employeeId = deviceAccount.employee_id
         if (employeeId) {
           const { data: employee } = await supabaseAdmin
             .from('employees')
@@ -680,23 +680,6 @@ async function authenticateKasir(request: Request): Promise<{
   }
 }
 
-/**
- * Extract device info from headers
- */
-function extractDeviceInfo(request: Request): {
-  deviceId: string
-  deviceRole: 'kasir' | 'dapur' | 'pelayan' | 'stok'
-} | null {
-  const deviceId = request.headers.get('X-Device-ID')
-  const deviceRole = request.headers.get('X-Device-Role') as 'kasir' | 'dapur' | 'pelayan' | 'stok'
-
-  if (!deviceId || !deviceRole) {
-    return null
-  }
-
-  return { deviceId, deviceRole }
-}
-
 /**
  * Process payment verification (approve/reject)
  */
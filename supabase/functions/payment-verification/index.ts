@@ -6,16 +6,17 @@
  * - Bank transfer verification helpers
  * - QRIS payment validation
  * - Anti-fraud checks and duplicate detection
- * - OCR-based amount extraction (future enhancement)
+ * - OCR receipt scanning (amount, time, reference, beneficiary)
  * 
  * @endpoints
  * POST /payment-verification/upload-proof/:paymentId - Upload payment proof
  * POST /payment-verification/verify-receipt - Verify receipt details
  * GET  /payment-verification/validate/:paymentId - Validate payment data
  * POST /payment-verification/fraud-check - Run fraud detection
+ * POST /payment-verification/scan-receipt/:paymentId - OCR the uploaded proof
  */
 
-import { withCors } from '../_shared/cors'
+import { withCors, extractDeviceInfo } from '../_shared/cors'
 import { 
   createSuccessResponse, 
   createErrorResponse, 
@@ -29,14 +30,28 @@ import {
   supabaseAdmin, 
   getAuthenticatedClient,
   validateDeviceAuth,
+  isServiceRoleRequest,
   logAudit 
 } from '../_shared/supabase-client'
+import { getOcrProvider, OcrUnavailableError } from '../_shared/ocr'
 import { 
   validateFields,
   isValidRupiahAmount,
   isValidIndonesianPhone,
   sanitizeString
 } from '../../../packages/utils/src/validators/index'
+import {
+  compareFingerprints,
+  fingerprintImage,
+  hammingDistance,
+  PROOF_MATCH_THRESHOLDS,
+  type FingerprintMatch,
+  type ImageFingerprint
+} from '../../../packages/utils/src/images/index'
+import {
+  parseReceiptText,
+  type ParsedReceipt
+} from '../../../packages/utils/src/payments/receipt-parser'
 
 // Verification interfaces
 interface UploadProofRequest {
@@ -93,6 +108,26 @@ interface FraudIndicator {
   details: Record<string, any>
 }
 
+interface DuplicateReceiptMatch extends FingerprintMatch {
+  order_id: string
+  order_number?: string
+  payment_id?: string
+  proof_url: string
+}
+
+interface ReceiptScanResult {
+  success: boolean
+  receipt?: ParsedReceipt
+  validation?: PaymentValidationResult
+  ocr_engine?: string
+  ocr_confidence?: number
+  manual_review?: boolean // OCR cannot run here, the kasir checks the proof
+  error?: string
+}
+
+// Perceptual matches are searched this far back; exact copies always match
+const PROOF_MATCH_WINDOW_DAYS = 90
+
 // ===========================================
 // MAIN HANDLERS
 // ===========================================
@@ -374,6 +409,81 @@ async function handleVerifyReceipt(request: Request): Promise<Response> {
   }
 }
 
+/**
+ * Scan the uploaded proof with OCR (upload API or kasir action)
+ */
+async function handleScanReceipt(request: Request): Promise<Response> {
+  try {
+    // The customer web upload API calls this with the service role key
+    if (!isServiceRoleRequest(request)) {
+      const authResult = await authenticateKasir(request)
+      if (!authResult.success) {
+        return createUnauthorizedResponse(authResult.error, request)
+      }
+    }
+
+    // Extract payment ID from URL
+    const url = new URL(request.url)
+    const pathParts = url.pathname.split('/')
+    const paymentId = pathParts[pathParts.indexOf('scan-receipt') + 1]
+
+    if (!paymentId) {
+      return createErrorResponse('Payment ID required', 400, undefined, request)
+    }
+
+    const { data: payment, error: paymentError } = await supabaseAdmin
+      .from('payment_transactions')
+      .select('*')
+      .eq('id', paymentId)
+      .single()
+
+    if (paymentError || !payment) {
+      return createNotFoundResponse('Payment', request)
+    }
+
+    const proofUrl = payment.proof_url || payment.proof_image_url
+    if (!proofUrl) {
+      return createErrorResponse('Payment has no uploaded proof', 400, undefined, request)
+    }
+
+    const { data: fileData, error: fileError } = await (supabaseAdmin as any).storage
+      .from('payment-proofs')
+      .download(getProofStoragePath(proofUrl))
+
+    if (fileError || !fileData) {
+      return createErrorResponse('Unable to access uploaded proof file', 500, undefined, request)
+    }
+
+    const scan = await scanReceipt(payment, new Uint8Array(await fileData.arrayBuffer()))
+    if (!scan.success && !scan.receipt && !scan.manual_review) {
+      return createErrorResponse(scan.error || 'Receipt scan failed', 500, undefined, request)
+    }
+
+    return createSuccessResponse(
+      {
+        payment_id: paymentId,
+        receipt: scan.receipt,
+        verification_result: scan.validation,
+        ocr_engine: scan.ocr_engine,
+        ocr_confidence: scan.ocr_confidence,
+        manual_review: scan.manual_review === true
+      },
+      scan.success ? 'Receipt scanned successfully' : scan.error || 'Receipt scanned',
+      undefined,
+      request
+    )
+
+  } catch (error) {
+    console.error('Error in handleScanReceipt:', error)
+    return createErrorResponse(
+      'Internal server error',
+      500,
+      { error: error instanceof Error ? error.message : 'Unknown error' },
+      request
+    )
+  }
+}
+
 /**
  * Validate payment data comprehensively
  */
@@ -657,11 +767,49 @@ async function runAutomaticValidation(
       if (fileData.size > 1.5 * 1024 * 1024) { // More than 1.5MB
         recommendations.push('Consider compressing images to reduce file size')
       }
+
+      const imageData = new Uint8Array(await fileData.arrayBuffer())
+
+      // Reused screenshot from another order
+      const duplicateCheck = await checkDuplicateReceipts(paymentId, filePath, imageData)
+
+      if (duplicateCheck.has_duplicates && duplicateCheck.match) {
+        issues.push({
+          type: 'error',
+          field: 'proof_file',
+          message: `Payment proof was already used on order ${duplicateCheck.match.order_number || duplicateCheck.match.order_id}`,
+          code: 'DUPLICATE_PROOF',
+          severity: 'high'
+        })
+        fraudIndicators.push(buildDuplicateReceiptIndicator(duplicateCheck.match))
+        recommendations.push('Compare both proofs and check the transfer in the bank account before accepting')
+        confidenceScore -= 50
+      }
+
+      // Amount read from the receipt
+      const { data: payment } = await supabaseAdmin
+        .from('payment_transactions')
+        .select('*')
+        .eq('id', paymentId)
+        .single()
+
+      const scan = payment ? await scanReceipt(payment, imageData) : null
+      const amountIssue = scan?.validation?.issues.find(issue => issue.field === 'amount')
+
+      if (amountIssue) {
+        issues.push(amountIssue)
+        if (amountIssue.code === 'AMOUNT_MISMATCH') {
+          recommendations.push('Check the transferred amount with the customer before accepting')
+          confidenceScore -= 30
+        } else if (amountIssue.code === 'AMOUNT_MATCH') {
+          confidenceScore += 10
+        }
+      } else if (scan && !scan.success) {
+        recommendations.push('Receipt amount could not be read, check it manually')
+      }
     }
 
-    // TODO: Add OCR-based amount extraction
     // TODO: Add image quality assessment
-    // TODO: Add duplicate image detection
 
     // Time-based validation
     const uploadTime = new Date()
@@ -720,19 +868,28 @@ async function validateReceiptData(
   let confidenceScore = 90 // High base score for manual verification
 
   // Amount validation
-  const amountDifference = Math.abs(payment.amount - receiptData.amount)
+  const expectedAmount = Number(payment.amount)
+  const amountDifference = Math.abs(expectedAmount - receiptData.amount)
   const amountTolerance = 1000 // Rp 1,000 tolerance
 
   if (amountDifference > amountTolerance) {
     issues.push({
       type: 'error',
       field: 'amount',
-      message: `Amount mismatch. Expected: Rp ${payment.amount.toLocaleString('id-ID')}, Receipt: Rp ${receiptData.amount.toLocaleString('id-ID')}`,
+      message: `Amount differs by Rp ${amountDifference.toLocaleString('id-ID')}. Expected: Rp ${expectedAmount.toLocaleString('id-ID')}, Receipt: Rp ${receiptData.amount.toLocaleString('id-ID')}`,
       code: 'AMOUNT_MISMATCH',
       severity: 'high'
     })
     confidenceScore -= 40
-  } else if (amountDifference > 0) {
+  } else if (amountDifference === 0) {
+    issues.push({
+      type: 'info',
+      field: 'amount',
+      message: `Amount matches: Rp ${expectedAmount.toLocaleString('id-ID')}`,
+      code: 'AMOUNT_MATCH',
+      severity: 'low'
+    })
+  } else {
     issues.push({
       type: 'warning',
       field: 'amount',
@@ -942,8 +1099,13 @@ async function runFraudDetection(
 
   // Additional checks if requested
   if (additionalChecks?.check_duplicate_receipts && payment.proof_url) {
-    // TODO: Implement duplicate receipt checking
-    recommendations.push('Check for duplicate receipt usage')
+    const duplicateCheck = await checkDuplicateReceipts(payment.id, getProofStoragePath(payment.proof_url))
+
+    if (duplicateCheck.has_duplicates && duplicateCheck.match) {
+      indicators.push(buildDuplicateReceiptIndicator(duplicateCheck.match))
+      fraudScore += duplicateCheck.match.match_type === 'exact' ? 80 : 60
+      recommendations.push('Payment proof matches another order - compare both proofs before accepting')
+    }
   }
 
   if (additionalChecks?.check_amount_manipulation) {
@@ -999,10 +1161,10 @@ async function authenticateKasir(request: Request): Promise<{
     // Try device authentication first (for tablet)
     const deviceInfo = extractDeviceInfo(request)
     if (deviceInfo && deviceInfo.deviceRole === 'kasir') {
-      const deviceAccount = await validateDeviceAuth(deviceInfo.deviceId, 'kasir')
+      const deviceAccount = await validateDeviceAuth(deviceInfo.deviceToken, 'kasir')
       if (deviceAccount) {
-        // For device login, get employee from headers
-        const employeeId = request.headers.get('X-Employee-ID')
+        // Staff signed in on the tablet with their PIN
+        const employeeId = deviceAccount.employee_id
         if (employeeId) {
           const { data: employee } = await supabaseAdmin
             .from('employees')
@@ -1058,23 +1220,6 @@ async function authenticateKasir(request: Request): Promise<{
   }
 }
 
-/**
- * Extract device info from headers
- */
-function extractDeviceInfo(request: Request): {
-  deviceId: string
-  deviceRole: 'kasir' | 'dapur' | 'pelayan' | 'stok'
-} | null {
-  const deviceId = request.headers.get('X-Device-ID')
-  const deviceRole = request.headers.get('X-Device-Role') as 'kasir' | 'dapur' | 'pelayan' | 'stok'
-
-  if (!deviceId || !deviceRole) {
-    return null
-  }
-
-  return { deviceId, deviceRole }
-}
-
 /**
  * Send notification when proof is uploaded
  */
@@ -1135,63 +1280,146 @@ async function sendProofUploadNotification(
 }
 
 /**
- * Advanced OCR-based amount extraction (placeholder)
- * TODO: Integrate with OCR service like Google Vision API
+ * Read a payment proof with OCR and check it against the payment
+ * The result is stored as an 'ocr' verification so the kasir sees the
+ * amount check next to the proof
  */
-async function extractAmountFromReceipt(imagePath: string): Promise<{
-  success: boolean
-  extracted_amount?: number
-  confidence?: number
-  raw_text?: string
-}> {
+async function scanReceipt(payment: any, imageData: Uint8Array): Promise<ReceiptScanResult> {
   try {
-    // Placeholder for OCR implementation
-    // In real implementation, this would:
-    // 1. Call Google Vision API or similar OCR service
-    // 2. Extract text from receipt image
-    // 3. Parse amount using regex patterns
-    // 4. Return confidence score based on text quality
-    
-    console.log('TODO: Implement OCR amount extraction for:', imagePath)
-    
+    const provider = await getOcrProvider()
+    const ocr = await provider.recognize(imageData)
+    const receipt = parseReceiptText(ocr.text)
+
+    const validation = receipt.amount !== undefined
+      ? await validateReceiptData(payment, {
+          amount: receipt.amount,
+          timestamp: receipt.timestamp,
+          bank_name: receipt.source_name,
+          sender_name: receipt.sender_name,
+          recipient_name: receipt.beneficiary_name,
+          transaction_id: receipt.reference_number
+        })
+      : undefined
+
+    const issues: ValidationIssue[] = validation?.issues || [{
+      type: 'warning',
+      field: 'amount',
+      message: 'Amount could not be read from the receipt',
+      code: 'AMOUNT_NOT_FOUND',
+      severity: 'medium'
+    }]
+
+    // Scale by how much of the receipt was recognized
+    const confidenceScore = validation
+      ? Math.round(validation.confidence_score * receipt.confidence / 100)
+      : 0
+
+    const { error: insertError } = await supabaseAdmin
+      .from('payment_verifications')
+      .insert({
+        payment_id: payment.id,
+        verified_by: null,
+        verification_method: 'ocr',
+        receipt_transaction_id: receipt.reference_number,
+        receipt_amount: receipt.amount,
+        receipt_timestamp: receipt.timestamp,
+        receipt_bank_name: receipt.source_name,
+        receipt_sender_name: receipt.sender_name,
+        receipt_recipient_name: receipt.beneficiary_name,
+        receipt_reference_number: receipt.reference_number,
+        receipt_source: receipt.source,
+        ocr_engine: ocr.provider,
+        ocr_confidence: ocr.confidence,
+        raw_text: ocr.text,
+        confidence_score: confidenceScore,
+        validation_issues: issues
+      })
+
+    if (insertError) {
+      console.error('Error storing receipt scan:', insertError)
+    }
+
     return {
-      success: false,
-      extracted_amount: undefined,
-      confidence: 0,
-      raw_text: undefined
+      success: receipt.amount !== undefined,
+      receipt,
+      validation,
+      ocr_engine: ocr.provider,
+      ocr_confidence: ocr.confidence,
+      error: receipt.amount === undefined ? 'Amount could not be read from the receipt' : undefined
     }
 
   } catch (error) {
-    console.error('Error in OCR amount extraction:', error)
+    if (error instanceof OcrUnavailableError) {
+      console.warn('Receipt OCR unavailable, leaving the proof to manual review:', error.message)
+      return {
+        success: false,
+        manual_review: true,
+        error: 'Receipt OCR is not available, check the proof manually'
+      }
+    }
+
+    console.error('Error scanning receipt:', error)
     return {
       success: false,
-      confidence: 0
+      error: error instanceof Error ? error.message : 'Receipt scan failed'
     }
   }
 }
 
 /**
  * Check for duplicate receipt usage
- * Uses image hash comparison to detect duplicate receipts
+ * Uses the proof's stored fingerprint, computing and storing it first when the
+ * proof was uploaded before fingerprinting existed
  */
-async function checkDuplicateReceipts(paymentId: string, imagePath: string): Promise<{
+async function checkDuplicateReceipts(
+  paymentId: string,
+  imagePath: string,
+  imageData?: Uint8Array
+): Promise<{
   has_duplicates: boolean
   duplicate_payments?: string[]
   confidence?: number
+  match?: DuplicateReceiptMatch
 }> {
   try {
-    // Placeholder for image hash comparison
-    // In real implementation, this would:
-    // 1. Calculate perceptual hash of the image
-    // 2. Compare with hashes of other receipt images
-    // 3. Flag potential duplicates based on similarity threshold
-    
-    console.log('TODO: Implement duplicate receipt detection for:', paymentId, imagePath)
-    
+    const { data: payment } = await supabaseAdmin
+      .from('payment_transactions')
+      .select('id, order_id, proof_url')
+      .eq('id', paymentId)
+      .single()
+
+    if (!payment) {
+      return { has_duplicates: false, duplicate_payments: [], confidence: 0 }
+    }
+
+    let match = await getStoredProofMatch(paymentId, payment.proof_url)
+
+    if (match === undefined) {
+      let bytes = imageData
+      if (!bytes) {
+        const { data: fileData, error: fileError } = await (supabaseAdmin as any).storage
+          .from('payment-proofs')
+          .download(imagePath)
+
+        if (fileError || !fileData) {
+          console.error('Unable to download proof for duplicate check:', fileError)
+          return { has_duplicates: false, duplicate_payments: [], confidence: 0 }
+        }
+        bytes = new Uint8Array(await fileData.arrayBuffer())
+      }
+
+      match = await recordProofFingerprint(payment, bytes)
+    }
+
+    if (!match) {
+      return { has_duplicates: false, duplicate_payments: [], confidence: 100 }
+    }
+
     return {
-      has_duplicates: false,
-      duplicate_payments: [],
-      confidence: 0
+      has_duplicates: true,
+      duplicate_payments: match.payment_id ? [match.payment_id] : [],
+      confidence: match.match_type === 'exact' ? 100 : Math.max(50, 90 - match.phash_distance * 2 - match.signature_distance * 5),
+      match
     }
 
   } catch (error) {
@@ -1203,6 +1431,188 @@ async function checkDuplicateReceipts(paymentId: string, imagePath: string): Pro
   }
 }
 
+/**
+ * Match recorded when the payment's current proof was fingerprinted.
+ * Returns undefined when the proof has not been fingerprinted yet.
+ */
+async function getStoredProofMatch(
+  paymentId: string,
+  proofUrl?: string
+): Promise<DuplicateReceiptMatch | null | undefined> {
+  let query = supabaseAdmin
+    .from('payment_proof_hashes')
+    .select('*')
+    .eq('payment_id', paymentId)
+
+  if (proofUrl) {
+    query = query.eq('proof_url', proofUrl)
+  }
+
+  const { data: rows } = await query
+    .order('created_at', { ascending: false })
+    .limit(1)
+
+  const stored = rows?.[0]
+  if (!stored) return undefined
+  if (!stored.matched_order_id || !stored.match_type) return null
+
+  return {
+    order_id: stored.matched_order_id,
+    order_number: await getOrderNumber(stored.matched_order_id),
+    proof_url: stored.matched_proof_url || '',
+    match_type: stored.match_type,
+    phash_distance: stored.phash_distance ?? 0,
+    signature_distance: stored.signature_distance ?? 0
+  }
+}
+
+/**
+ * Fingerprint a proof, find the earliest matching proof on another order and
+ * store both in payment_proof_hashes
+ */
+async function recordProofFingerprint(
+  payment: { id: string; order_id: string; proof_url?: string },
+  imageData: Uint8Array
+): Promise<DuplicateReceiptMatch | null> {
+  const fingerprint = await fingerprintImage(imageData)
+  const match = await findDuplicateProof(fingerprint, payment.order_id)
+
+  const { error } = await supabaseAdmin
+    .from('payment_proof_hashes')
+    .insert({
+      order_id: payment.order_id,
+      payment_id: payment.id,
+      proof_url: payment.proof_url || '',
+      sha256: fingerprint.sha256,
+      phash: fingerprint.phash ?? undefined,
+      signature: fingerprint.signature ?? undefined,
+      matched_order_id: match?.order_id,
+      matched_proof_url: match?.proof_url,
+      match_type: match?.match_type,
+      phash_distance: match?.phash_distance,
+      signature_distance: match?.signature_distance
+    })
+
+  if (error) {
+    console.error('Error storing proof fingerprint:', error)
+  }
+
+  return match
+}
+
+/**
+ * Earliest proof on a different order matching the fingerprint
+ */
+async function findDuplicateProof(
+  fingerprint: ImageFingerprint,
+  orderId: string
+): Promise<DuplicateReceiptMatch | null> {
+  const { data: exact } = await supabaseAdmin
+    .from('payment_proof_hashes')
+    .select('order_id, payment_id, proof_url')
+    .eq('sha256', fingerprint.sha256)
+    .neq('order_id', orderId)
+    .order('created_at', { ascending: true })
+    .limit(1)
+
+  if (exact && exact.length > 0) {
+    return {
+      order_id: exact[0].order_id,
+      order_number: await getOrderNumber(exact[0].order_id),
+      payment_id: exact[0].payment_id,
+      proof_url: exact[0].proof_url,
+      match_type: 'exact',
+      phash_distance: 0,
+      signature_distance: 0
+    }
+  }
+
+  if (!fingerprint.phash || !fingerprint.signature) return null
+
+  const since = new Date(Date.now() - PROOF_MATCH_WINDOW_DAYS * 24 * 60 * 60 * 1000)
+
+  // Narrow down by pHash first, signatures are only loaded for candidates
+  const { data: recent } = await supabaseAdmin
+    .from('payment_proof_hashes')
+    .select('id, phash')
+    .neq('order_id', orderId)
+    .not('phash', 'is', null)
+    .gte('created_at', since.toISOString())
+
+  const candidateIds = (recent || [])
+    .filter(row => row.phash && hammingDistance(row.phash, fingerprint.phash!) <= PROOF_MATCH_THRESHOLDS.phash)
+    .map(row => row.id)
+
+  if (candidateIds.length === 0) return null
+
+  const { data: candidates } = await supabaseAdmin
+    .from('payment_proof_hashes')
+    .select('order_id, payment_id, proof_url, sha256, phash, signature, created_at')
+    .in('id', candidateIds)
+    .order('created_at', { ascending: true })
+
+  let best: DuplicateReceiptMatch | null = null
+  for (const candidate of candidates || []) {
+    const match = compareFingerprints(fingerprint, {
+      sha256: candidate.sha256,
+      phash: candidate.phash ?? null,
+      signature: candidate.signature ?? null
+    })
+    if (match && (!best || match.signature_distance < best.signature_distance)) {
+      best = {
+        ...match,
+        order_id: candidate.order_id,
+        payment_id: candidate.payment_id,
+        proof_url: candidate.proof_url
+      }
+    }
+  }
+
+  if (best) {
+    best.order_number = await getOrderNumber(best.order_id)
+  }
+
+  return best
+}
+
+async function getOrderNumber(orderId: string): Promise<string | undefined> {
+  const { data: order } = await supabaseAdmin
+    .from('orders')
+    .select('order_number')
+    .eq('id', orderId)
+    .single()
+
+  return order?.order_number
+}
+
+function buildDuplicateReceiptIndicator(match: DuplicateReceiptMatch): FraudIndicator {
+  return {
+    type: 'duplicate_receipt',
+    description: match.match_type === 'exact'
+      ? 'Payment proof is the same file as a proof used on another order'
+      : 'Payment proof is near-identical to a proof used on another order',
+    risk_level: match.match_type === 'exact' ? 'critical' : 'high',
+    details: {
+      matched_order_id: match.order_id,
+      matched_order_number: match.order_number,
+      matched_payment_id: match.payment_id,
+      matched_proof_url: match.proof_url,
+      match_type: match.match_type,
+      phash_distance: match.phash_distance,
+      signature_distance: match.signature_distance
+    }
+  }
+}
+
+/**
+ * Storage path of a proof inside the payment-proofs bucket from its public URL
+ */
+function getProofStoragePath(proofUrl: string): string {
+  const marker = '/object/public/payment-proofs/'
+  const index = proofUrl.indexOf(marker)
+  return index >= 0 ? decodeURIComponent(proofUrl.slice(index + marker.length)) : proofUrl
+}
+
 /**
  * Get payment verification statistics
  */
@@ -1276,6 +1686,8 @@ const handler = withCors(createHandler({
       return handleVerifyReceipt(request)
     } else if (url.pathname.includes('/fraud-check')) {
       return handleFraudCheck(request)
+    } else if (url.pathname.includes('/scan-receipt/')) {
+      return handleScanReceipt(request)
     }
     
     return createErrorResponse('Invalid endpoint', 404, undefined, request)
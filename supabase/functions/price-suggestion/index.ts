@@ -12,7 +12,7 @@
  * POST /price-suggestion/update-costs - Update ingredient costs and recalculate
  */
 
-import { withCors } from '../_shared/cors'
+import { withCors, extractDeviceInfo } from '../_shared/cors'
 import { 
   createSuccessResponse, 
   createErrorResponse, 
@@ -24,6 +24,7 @@ import {
 import { 
   supabaseAdmin, 
   getAuthenticatedClient,
+  validateDeviceAuth,
   logAudit 
 } from '../_shared/supabase-client'
 import { 
@@ -606,11 +607,12 @@ async function authenticatePriceRequest(
 }> {
   try {
     // Try device authentication first
-    const deviceId = request.headers.get('X-Device-ID')
-    const deviceRole = request.headers.get('X-Device-Role')
-
-    if (deviceId && deviceRole && allowedRoles.includes(deviceRole)) {
-      return { success: true, user_id: deviceId }
+    const deviceInfo = extractDeviceInfo(request)
+    if (deviceInfo && allowedRoles.includes(deviceInfo.deviceRole)) {
+      const deviceAccount = await validateDeviceAuth(deviceInfo.deviceToken, deviceInfo.deviceRole)
+      if (deviceAccount) {
+        return { success: true, user_id: deviceAccount.device_id }
+      }
     }
 
     // Try user authentication
@@ -5,7 +5,14 @@
  * Analyzes sales, inventory, employee performance, and customer metrics
  */
 
-import { supabaseAdmin } from '../_shared/supabase-client'
+import { getBusinessCalendar, supabaseAdmin } from '../_shared/supabase-client'
+import {
+  addDays,
+  businessDateRange,
+  businessHour,
+  type BusinessCalendar,
+  type BusinessRange
+} from '../../../packages/utils/src/helpers/businessCalendar'
 
 // Report interfaces
 interface DailyReportOptions {
@@ -133,8 +140,9 @@ export async function generateDailyReport(
   error?: string
 }> {
   try {
-    const startDate = `${reportDate} 00:00:00`
-    const endDate = `${reportDate} 23:59:59`
+    // The report covers the business day in the cafe's time zone
+    const calendar = await getBusinessCalendar()
+    const range = businessDateRange(reportDate, reportDate, calendar)
 
     // Initialize report structure
     const report: any = {
@@ -156,7 +164,7 @@ export async function generateDailyReport(
     const sections = options.include_sections || ['sales', 'inventory', 'employees']
 
     if (sections.includes('sales')) {
-      report.sections.sales_summary = await generateSalesSummary(startDate, endDate)
+      report.sections.sales_summary = await generateSalesSummary(range, calendar)
     }
 
     if (sections.includes('inventory')) {
@@ -164,11 +172,11 @@ export async function generateDailyReport(
     }
 
     if (sections.includes('employees')) {
-      report.sections.employee_performance = await generateEmployeePerformance(startDate, endDate)
+      report.sections.employee_performance = await generateEmployeePerformance(reportDate, range)
     }
 
     if (sections.includes('customers')) {
-      report.sections.customer_analytics = await generateCustomerAnalytics(startDate, endDate)
+      report.sections.customer_analytics = await generateCustomerAnalytics(range, calendar)
     }
 
     // Calculate overall metrics
@@ -185,11 +193,9 @@ export async function generateDailyReport(
 
     // Add comparison with previous day if requested
     if (options.compare_previous_day) {
-      const previousDate = new Date(reportDate)
-      previousDate.setDate(previousDate.getDate() - 1)
       const comparison = await generateDayComparison(
         reportDate,
-        previousDate.toISOString().split('T')[0]
+        addDays(reportDate, -1)
       )
       report.comparison = comparison
     }
@@ -215,7 +221,7 @@ export async function generateDailyReport(
 /**
  * Generate sales summary section
  */
-async function generateSalesSummary(startDate: string, endDate: string): Promise<SalesSummary> {
+async function generateSalesSummary(range: BusinessRange, calendar: BusinessCalendar): Promise<SalesSummary> {
   // Get all orders for the day
   const { data: orders, error: ordersError } = await supabaseAdmin
     .from('orders')
@@ -226,8 +232,8 @@ async function generateSalesSummary(startDate: string, endDate: string): Promise
         menu_item:menu_items (id, name, category)
       )
     `)
-    .gte('created_at', startDate)
-    .lte('created_at', endDate)
+    .gte('created_at', range.start)
+    .lt('created_at', range.end)
     .in('status', ['completed', 'served'])
 
   if (ordersError) {
@@ -264,7 +270,7 @@ async function generateSalesSummary(startDate: string, endDate: string): Promise
   }))
 
   validOrders.forEach(order => {
-    const hour = new Date(order.created_at).getHours()
+    const hour = businessHour(order.created_at, calendar)
     hourlyData[hour].revenue += order.total_amount
     hourlyData[hour].orders++
   })
@@ -417,7 +423,7 @@ async function generateInventoryStatus(reportDate: string): Promise<InventorySta
 /**
  * Generate employee performance section
  */
-async function generateEmployeePerformance(startDate: string, endDate: string): Promise<EmployeePerformance> {
+async function generateEmployeePerformance(reportDate: string, range: BusinessRange): Promise<EmployeePerformance> {
   // Get attendance records for the day
   const { data: attendanceRecords, error: attendanceError } = await supabaseAdmin
     .from('attendance')
@@ -425,8 +431,7 @@ async function generateEmployeePerformance(startDate: string, endDate: string):
       employee_id, clock_in_time, clock_out_time, overtime_hours,
       employee:employees (id, full_name, position)
     `)
-    .gte('date', startDate.split(' ')[0])
-    .lte('date', endDate.split(' ')[0])
+    .eq('date', reportDate)
 
   if (attendanceError) {
     throw new Error('Failed to fetch attendance: ' + attendanceError.message)
@@ -445,7 +450,7 @@ async function generateEmployeePerformance(startDate: string, endDate: string):
 
   attendance.forEach(record => {
     if (record.clock_in_time) {
-      const clockInHour = new Date(`${startDate.split(' ')[0]}T${record.clock_in_time}`).getHours()
+      const clockInHour = new Date(`${reportDate}T${record.clock_in_time}`).getHours()
       if (clockInHour >= 6 && clockInHour < 14) shiftCoverage.morning++
       else if (clockInHour >= 14 && clockInHour < 22) shiftCoverage.afternoon++
       else shiftCoverage.evening++
@@ -459,7 +464,7 @@ async function generateEmployeePerformance(startDate: string, endDate: string):
       
       // Get orders handled (for kasir positions)
       const ordersHandled = record.employee?.position === 'kasir' 
-        ? await getOrdersHandledByEmployee(record.employee_id, startDate, endDate)
+        ? await getOrdersHandledByEmployee(record.employee_id, range)
         : undefined
 
       const efficiencyScore = calculateEfficiencyScore(
@@ -494,13 +499,13 @@ async function generateEmployeePerformance(startDate: string, endDate: string):
 /**
  * Generate customer analytics section
  */
-async function generateCustomerAnalytics(startDate: string, endDate: string): Promise<CustomerAnalytics> {
+async function generateCustomerAnalytics(range: BusinessRange, calendar: BusinessCalendar): Promise<CustomerAnalytics> {
   // Get orders with customer information
   const { data: orders, error: ordersError } = await supabaseAdmin
     .from('orders')
     .select('id, customer_name, table_number, created_at, completed_at')
-    .gte('created_at', startDate)
-    .lte('created_at', endDate)
+    .gte('created_at', range.start)
+    .lt('created_at', range.end)
     .in('status', ['completed', 'served'])
 
   if (ordersError) {
@@ -517,7 +522,7 @@ async function generateCustomerAnalytics(startDate: string, endDate: string): Pr
   // Peak hours analysis
   const hourlyCustomers = new Array(24).fill(0)
   validOrders.forEach(order => {
-    const hour = new Date(order.created_at).getHours()
+    const hour = businessHour(order.created_at, calendar)
     hourlyCustomers[hour]++
   })
 
@@ -692,13 +697,13 @@ function calculateHoursWorked(clockIn?: string, clockOut?: string): number {
   return (end.getTime() - start.getTime()) / (1000 * 60 * 60)
 }
 
-async function getOrdersHandledByEmployee(employeeId: string, startDate: string, endDate: string): Promise<number> {
+async function getOrdersHandledByEmployee(employeeId: string, range: BusinessRange): Promise<number> {
   const { data: orders } = await supabaseAdmin
     .from('orders')
     .select('id')
     .eq('processed_by', employeeId)
-    .gte('created_at', startDate)
-    .lte('created_at', endDate)
+    .gte('created_at', range.start)
+    .lt('created_at', range.end)
   
   return orders?.length || 0
 }
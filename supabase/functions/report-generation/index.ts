@@ -10,7 +10,7 @@
  * POST /report-generation/monthly - Generate monthly report
  * POST /report-generation/custom - Generate custom period report
  * GET  /report-generation/scheduled - Get scheduled report status
- * POST /report-generation/schedule - Schedule automatic reports
+ * POST /report-generation/schedule - Schedule automatic reports (delivered by notification-dispatcher)
  */
 
 import { withCors } from '../_shared/cors'
@@ -25,13 +25,26 @@ import {
 import { 
   supabaseAdmin, 
   getAuthenticatedClient,
+  getBusinessCalendar,
   logAudit 
 } from '../_shared/supabase-client'
 import { 
   validateFields,
   sanitizeString
 } from '../../../packages/utils/src/validators/index'
+import {
+  addDays,
+  eachBusinessDate,
+  todayBusinessDate
+} from '../../../packages/utils/src/helpers/businessCalendar'
+import {
+  REPORT_SCHEDULES,
+  isValidClockTime,
+  nextReportDelivery,
+  type ReportSchedule
+} from '../../../packages/utils/src/helpers/notificationSchedule'
 import { generateDailyReport } from './daily-report'
+import { generateProfitAndLoss } from './monthly-report'
 
 // Report interfaces
 interface ReportRequest {
@@ -45,11 +58,11 @@ interface ReportRequest {
 }
 
 interface ScheduledReportRequest {
-  report_type: 'daily' | 'weekly' | 'monthly'
-  schedule: 'daily' | 'weekly' | 'monthly'
-  recipients: string[]
+  report_type: ReportSchedule
+  schedule: ReportSchedule
+  recipients: string[] // 'owner', employee IDs or Telegram chat IDs
   sections: string[]
-  delivery_time: string // HH:mm format
+  delivery_time: string // HH:mm format, cafe time zone
   is_active: boolean
 }
 
@@ -93,11 +106,10 @@ async function handleDailyReport(request: Request): Promise<Response> {
     const body = await parseJsonBody(request)
     const reportData = (body || {}) as ReportRequest
 
-    // Set default date to yesterday if not specified
+    // Set default date to yesterday's business day if not specified
     if (!reportData.start_date) {
-      const yesterday = new Date()
-      yesterday.setDate(yesterday.getDate() - 1)
-      reportData.start_date = yesterday.toISOString().split('T')[0]
+      const today = todayBusinessDate(await getBusinessCalendar())
+      reportData.start_date = addDays(today, -1)
       reportData.end_date = reportData.start_date
     }
 
@@ -188,13 +200,9 @@ async function handleWeeklyReport(request: Request): Promise<Response> {
 
     // Set default date range to last week if not specified
     if (!reportData.start_date) {
-      const endDate = new Date()
-      endDate.setDate(endDate.getDate() - 1) // Yesterday
-      const startDate = new Date(endDate)
-      startDate.setDate(startDate.getDate() - 6) // 7 days ago
-      
-      reportData.start_date = startDate.toISOString().split('T')[0]
-      reportData.end_date = endDate.toISOString().split('T')[0]
+      const today = todayBusinessDate(await getBusinessCalendar())
+      reportData.start_date = addDays(today, -7) // 7 days ago
+      reportData.end_date = addDays(today, -1) // Yesterday
     }
 
     // Authenticate request
@@ -262,12 +270,11 @@ async function handleMonthlyReport(request: Request): Promise<Response> {
 
     // Set default date range to last month if not specified
     if (!reportData.start_date) {
-      const today = new Date()
-      const firstDayLastMonth = new Date(today.getFullYear(), today.getMonth() - 1, 1)
-      const lastDayLastMonth = new Date(today.getFullYear(), today.getMonth(), 0)
-      
-      reportData.start_date = firstDayLastMonth.toISOString().split('T')[0]
-      reportData.end_date = lastDayLastMonth.toISOString().split('T')[0]
+      const today = todayBusinessDate(await getBusinessCalendar())
+      const lastDayLastMonth = addDays(`${today.slice(0, 7)}-01`, -1)
+
+      reportData.start_date = `${lastDayLastMonth.slice(0, 7)}-01`
+      reportData.end_date = lastDayLastMonth
     }
 
     // Authenticate request (owner only for monthly reports)
@@ -460,8 +467,7 @@ async function handleScheduleReport(request: Request): Promise<Response> {
     }
 
     // Validate delivery time format
-    const timeRegex = /^([01]?[0-9]|2[0-3]):[0-5][0-9]$/
-    if (!timeRegex.test(scheduleData.delivery_time)) {
+    if (!isValidClockTime(scheduleData.delivery_time)) {
       return createErrorResponse(
         'Invalid delivery time format. Use HH:mm format',
         400,
@@ -470,16 +476,41 @@ async function handleScheduleReport(request: Request): Promise<Response> {
       )
     }
 
-    // Schedule configuration would be handled by a task scheduler
-    console.log(`Report scheduled: ${scheduleData.report_type} - ${scheduleData.schedule}`)
-    
-    const scheduledReport = {
-      id: `scheduled_${Date.now()}`,
-      report_type: scheduleData.report_type,
-      schedule: scheduleData.schedule,
-      recipients: scheduleData.recipients,
-      delivery_time: scheduleData.delivery_time,
-      is_active: scheduleData.is_active
+    if (!REPORT_SCHEDULES.includes(scheduleData.report_type) || !REPORT_SCHEDULES.includes(scheduleData.schedule)) {
+      return createErrorResponse(
+        `report_type and schedule must be one of: ${REPORT_SCHEDULES.join(', ')}`,
+        400,
+        undefined,
+        request
+      )
+    }
+
+    const recipients = Array.isArray(scheduleData.recipients)
+      ? scheduleData.recipients.map(recipient => sanitizeString(String(recipient))).filter(Boolean)
+      : []
+    if (recipients.length === 0) {
+      return createErrorResponse('At least one recipient is required', 400, undefined, request)
+    }
+
+    // Picked up by the notification-dispatcher function once due
+    const calendar = await getBusinessCalendar()
+    const { data: scheduledReport, error: scheduleError } = await supabaseAdmin
+      .from('report_schedules')
+      .insert({
+        report_type: scheduleData.report_type,
+        schedule: scheduleData.schedule,
+        recipients,
+        sections: scheduleData.sections || [],
+        delivery_time: scheduleData.delivery_time,
+        is_active: scheduleData.is_active !== false,
+        next_delivery_at: nextReportDelivery(scheduleData.schedule, scheduleData.delivery_time, calendar).toISOString(),
+        created_by: authResult.user_id || null
+      })
+      .select('*')
+      .single()
+
+    if (scheduleError || !scheduledReport) {
+      throw new Error(scheduleError?.message || 'Failed to save report schedule')
     }
 
     // Log schedule creation
@@ -489,9 +520,9 @@ async function handleScheduleReport(request: Request): Promise<Response> {
       {
         report_type: scheduleData.report_type,
         schedule: scheduleData.schedule,
-        recipients_count: scheduleData.recipients.length,
+        recipients_count: recipients.length,
         delivery_time: scheduleData.delivery_time,
-        is_active: scheduleData.is_active
+        is_active: scheduledReport.is_active
       },
       'scheduled_reports',
       scheduledReport.id
@@ -502,8 +533,8 @@ async function handleScheduleReport(request: Request): Promise<Response> {
         schedule_id: scheduledReport.id,
         report_type: scheduleData.report_type,
         schedule: scheduleData.schedule,
-        next_delivery: calculateNextDelivery(scheduleData.schedule, scheduleData.delivery_time),
-        is_active: scheduleData.is_active
+        next_delivery: scheduledReport.next_delivery_at,
+        is_active: scheduledReport.is_active
       },
       'Report scheduled successfully',
       undefined,
@@ -532,18 +563,20 @@ async function handleGetScheduledReports(request: Request): Promise<Response> {
       return createUnauthorizedResponse(authResult.error, request)
     }
 
-    // Scheduled reports would be retrieved from task scheduler
-    const scheduledReports: any[] = []
-    const error = null
+    const { data: scheduledReports, error } = await supabaseAdmin
+      .from('report_schedules')
+      .select('*')
+      .order('created_at', { ascending: false })
 
-    // Calculate next delivery times
-    const reportsWithNextDelivery = scheduledReports?.map(report => ({
+    if (error) {
+      throw error
+    }
+
+    const reportsWithNextDelivery = (scheduledReports || []).map(report => ({
       ...report,
-      next_delivery: report.is_active 
-        ? calculateNextDelivery(report.schedule, report.delivery_time)
-        : null,
+      next_delivery: report.is_active ? report.next_delivery_at : null,
       status: report.is_active ? 'active' : 'inactive'
-    })) || []
+    }))
 
     return createSuccessResponse(
       {
@@ -587,20 +620,13 @@ async function generateWeeklyReport(startDate: string, endDate: string, options:
   try {
     // Aggregate daily reports for the week
     const dailyReports: any[] = []
-    const currentDate = new Date(startDate)
-    const endDateObj = new Date(endDate)
 
-    while (currentDate <= endDateObj) {
-      const dayReport = await generateDailyReport(
-        currentDate.toISOString().split('T')[0],
-        options
-      )
+    for (const date of eachBusinessDate(startDate, endDate)) {
+      const dayReport = await generateDailyReport(date, options)
       
       if (dayReport.success && dayReport.report) {
         dailyReports.push(dayReport.report)
       }
-      
-      currentDate.setDate(currentDate.getDate() + 1)
     }
 
     // Aggregate metrics
@@ -644,8 +670,30 @@ async function generateMonthlyReport(startDate: string, endDate: string, options
   report?: ReportResult
   error?: string
 }> {
-  // Similar to weekly but with monthly aggregations and additional financial analysis
-  return generateWeeklyReport(startDate, endDate, options) // Simplified for now
+  // Weekly aggregation plus the profit & loss statement for the period
+  const result = await generateWeeklyReport(startDate, endDate, options)
+  if (!result.success || !result.report) {
+    return result
+  }
+
+  try {
+    result.report.sections.financial_overview = await generateProfitAndLoss(startDate, endDate, await getBusinessCalendar())
+  } catch (error) {
+    console.error('Error generating profit & loss:', error)
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Profit & loss generation failed'
+    }
+  }
+
+  return {
+    success: true,
+    report: {
+      ...result.report,
+      report_id: `monthly_${startDate}_${endDate}_${Date.now()}`,
+      report_type: 'monthly'
+    }
+  }
 }
 
 /**
@@ -690,41 +738,6 @@ async function sendReportNotification(reportId: string, recipients: string[], re
   console.log(`Sending report ${reportId} to ${recipients.length} recipients`)
 }
 
-/**
- * Calculate next delivery time for scheduled report
- */
-function calculateNextDelivery(schedule: string, deliveryTime: string): string {
-  const now = new Date()
-  const [hours, minutes] = deliveryTime.split(':').map(Number)
-  
-  let nextDelivery = new Date(now)
-  nextDelivery.setHours(hours, minutes, 0, 0)
-
-  switch (schedule) {
-    case 'daily':
-      if (nextDelivery <= now) {
-        nextDelivery.setDate(nextDelivery.getDate() + 1)
-      }
-      break
-    case 'weekly':
-      // Next Monday at specified time
-      const daysUntilMonday = (1 + 7 - nextDelivery.getDay()) % 7
-      if (daysUntilMonday === 0 && nextDelivery <= now) {
-        nextDelivery.setDate(nextDelivery.getDate() + 7)
-      } else {
-        nextDelivery.setDate(nextDelivery.getDate() + daysUntilMonday)
-      }
-      break
-    case 'monthly':
-      // First day of next month
-      nextDelivery = new Date(nextDelivery.getFullYear(), nextDelivery.getMonth() + 1, 1)
-      nextDelivery.setHours(hours, minutes, 0, 0)
-      break
-  }
-
-  return nextDelivery.toISOString()
-}
-
 /**
  * Authenticate report request
  */
@@ -5,8 +5,18 @@
  * Aggregates daily and weekly data to provide monthly insights
  */
 
-import { supabaseAdmin } from '../_shared/supabase-client'
+import { getBusinessCalendar, supabaseAdmin } from '../_shared/supabase-client'
 import { formatCurrency } from '../../../packages/utils/src/formatters/currency'
+import {
+  buildProfitAndLoss,
+  type ProfitLossStatement
+} from '../../../packages/utils/src/calculations/profitLoss'
+import {
+  businessDate,
+  businessDateRange,
+  businessMonthRange,
+  type BusinessCalendar
+} from '../../../packages/utils/src/helpers/businessCalendar'
 
 export interface MonthlyMetrics {
   total_revenue: number
@@ -58,6 +68,7 @@ export interface MonthlyReportResult {
       operational_efficiency?: any
       growth_analysis?: any
       forecasting?: any
+      profit_loss?: ProfitLossStatement
     }
     metrics: MonthlyMetrics
     insights: string[]
@@ -93,13 +104,10 @@ export async function generateMonthlyReport(
       }
     }
 
-    // Calculate date range for the month
-    const startDate = new Date(year, month - 1, 1)
-    const endDate = new Date(year, month, 0) // Last day of the month
-    
-    const startDateStr = startDate.toISOString().split('T')[0]
-    const endDateStr = endDate.toISOString().split('T')[0]
-    const monthName = startDate.toLocaleDateString('id-ID', { month: 'long' })
+    // Calculate the business days of the month in the cafe's time zone
+    const calendar = await getBusinessCalendar()
+    const { start_date: startDateStr, end_date: endDateStr } = businessMonthRange(month, year, calendar)
+    const monthName = new Date(year, month - 1, 1).toLocaleDateString('id-ID', { month: 'long' })
 
     // Initialize report structure
     const report: any = {
@@ -121,18 +129,18 @@ export async function generateMonthlyReport(
     }
 
     // Generate requested sections
-    const sections = options.include_sections || ['executive', 'revenue', 'customers', 'inventory', 'employees']
+    const sections = options.include_sections || ['executive', 'revenue', 'customers', 'inventory', 'employees', 'profit_loss']
 
     if (sections.includes('executive')) {
-      report.sections.executive_summary = await generateExecutiveSummary(startDateStr, endDateStr)
+      report.sections.executive_summary = await generateExecutiveSummary(startDateStr, endDateStr, calendar)
     }
 
     if (sections.includes('revenue')) {
-      report.sections.revenue_analysis = await generateRevenueAnalysis(startDateStr, endDateStr)
+      report.sections.revenue_analysis = await generateRevenueAnalysis(startDateStr, endDateStr, calendar)
     }
 
     if (sections.includes('customers')) {
-      report.sections.customer_analytics = await generateCustomerAnalytics(startDateStr, endDateStr)
+      report.sections.customer_analytics = await generateCustomerAnalytics(startDateStr, endDateStr, calendar)
     }
 
     if (sections.includes('inventory')) {
@@ -151,6 +159,10 @@ export async function generateMonthlyReport(
       report.sections.growth_analysis = await generateGrowthAnalysis(month, year)
     }
 
+    if (sections.includes('profit_loss')) {
+      report.sections.profit_loss = await generateProfitAndLoss(startDateStr, endDateStr, calendar)
+    }
+
     // Calculate overall metrics
     report.metrics = await calculateMonthlyMetrics(startDateStr, endDateStr, report.sections)
 
@@ -194,7 +206,9 @@ export async function generateMonthlyReport(
 /**
  * Generate executive summary for the month
  */
-async function generateExecutiveSummary(startDate: string, endDate: string): Promise<any> {
+async function generateExecutiveSummary(startDate: string, endDate: string, calendar: BusinessCalendar): Promise<any> {
+  const range = businessDateRange(startDate, endDate, calendar)
+
   // Get high-level overview data
   const { data: orders } = await supabaseAdmin
     .from('orders')
@@ -205,8 +219,8 @@ async function generateExecutiveSummary(startDate: string, endDate: string): Pro
       created_at,
       order_items!inner(quantity, unit_price)
     `)
-    .gte('created_at', `${startDate} 00:00:00`)
-    .lte('created_at', `${endDate} 23:59:59`)
+    .gte('created_at', range.start)
+    .lt('created_at', range.end)
     .in('status', ['completed', 'delivered'])
 
   const validOrders = orders || []
@@ -245,7 +259,9 @@ async function generateExecutiveSummary(startDate: string, endDate: string): Pro
 /**
  * Generate detailed revenue analysis
  */
-async function generateRevenueAnalysis(startDate: string, endDate: string): Promise<any> {
+async function generateRevenueAnalysis(startDate: string, endDate: string, calendar: BusinessCalendar): Promise<any> {
+  const range = businessDateRange(startDate, endDate, calendar)
+
   const { data: orders } = await supabaseAdmin
     .from('orders')
     .select(`
@@ -260,8 +276,8 @@ async function generateRevenueAnalysis(startDate: string, endDate: string): Prom
         menu_item!inner(name, category, cost_of_goods)
       )
     `)
-    .gte('created_at', `${startDate} 00:00:00`)
-    .lte('created_at', `${endDate} 23:59:59`)
+    .gte('created_at', range.start)
+    .lt('created_at', range.end)
     .in('status', ['completed', 'delivered'])
 
   const validOrders = orders || []
@@ -287,10 +303,10 @@ async function generateRevenueAnalysis(startDate: string, endDate: string): Prom
     })
   })
 
-  // Daily revenue breakdown
+  // Daily revenue breakdown by business day
   const dailyRevenue = new Map<string, number>()
   validOrders.forEach(order => {
-    const date = order.created_at.split('T')[0]
+    const date = businessDate(order.created_at, calendar)
     dailyRevenue.set(date, (dailyRevenue.get(date) || 0) + order.total_amount)
   })
 
@@ -349,12 +365,14 @@ async function generateRevenueAnalysis(startDate: string, endDate: string): Prom
 /**
  * Generate customer analytics
  */
-async function generateCustomerAnalytics(startDate: string, endDate: string): Promise<any> {
+async function generateCustomerAnalytics(startDate: string, endDate: string, calendar: BusinessCalendar): Promise<any> {
+  const range = businessDateRange(startDate, endDate, calendar)
+
   const { data: orders } = await supabaseAdmin
     .from('orders')
     .select('id, customer_name, customer_phone, total_amount, created_at, status')
-    .gte('created_at', `${startDate} 00:00:00`)
-    .lte('created_at', `${endDate} 23:59:59`)
+    .gte('created_at', range.start)
+    .lt('created_at', range.end)
     .in('status', ['completed', 'delivered'])
 
   const validOrders = orders || []
@@ -405,6 +423,7 @@ async function calculateMonthlyMetrics(startDate: string, endDate: string, secti
   const executiveSummary = sections.executive_summary
   const revenueAnalysis = sections.revenue_analysis
   const customerAnalytics = sections.customer_analytics
+  const profitLoss: ProfitLossStatement | undefined = sections.profit_loss
 
   // Base metrics from executive summary
   const totalRevenue = executiveSummary?.period_summary?.total_revenue || 0
@@ -415,17 +434,21 @@ async function calculateMonthlyMetrics(startDate: string, endDate: string, secti
   const totalCustomers = customerAnalytics?.total_customers || 0
   const customerRetentionRate = customerAnalytics?.customer_retention_rate || 0
 
-  // Financial metrics (simplified estimates)
+  // Financial metrics from the profit & loss statement, or simplified
+  // estimates when it was not generated
   const estimatedCOGS = totalRevenue * 0.35 // Assume 35% COGS
-  const grossProfit = totalRevenue - estimatedCOGS
-  const grossMarginPercentage = totalRevenue > 0 ? (grossProfit / totalRevenue) * 100 : 0
-
-  const estimatedSalaryCosts = totalRevenue * 0.25 // Estimate 25% salary costs
-  const estimatedOverhead = totalRevenue * 0.15 // Estimate 15% overhead
-  const operatingExpenses = estimatedSalaryCosts + estimatedOverhead
-  const netProfit = grossProfit - operatingExpenses
-
-  const employeeCostPercentage = totalRevenue > 0 ? (estimatedSalaryCosts / totalRevenue) * 100 : 0
+  const grossProfit = profitLoss ? profitLoss.gross_profit : totalRevenue - estimatedCOGS
+  const grossMarginPercentage = profitLoss
+    ? profitLoss.gross_margin_percentage
+    : totalRevenue > 0 ? (grossProfit / totalRevenue) * 100 : 0
+
+  const salaryCosts = profitLoss ? profitLoss.payroll : totalRevenue * 0.25 // Estimate 25% salary costs
+  const overhead = profitLoss ? profitLoss.total_operating_expenses : totalRevenue * 0.15 // Estimate 15% overhead
+  const operatingExpenses = salaryCosts + overhead
+  const netProfit = profitLoss ? profitLoss.net_profit : grossProfit - operatingExpenses
+
+  const costBase = profitLoss ? profitLoss.revenue : totalRevenue
+  const employeeCostPercentage = costBase > 0 ? (salaryCosts / costBase) * 100 : 0
   const peakDay = revenueAnalysis?.peak_day || { date: '', revenue: 0 }
 
   return {
@@ -485,6 +508,13 @@ function generateMonthlyInsights(sections: any, metrics: MonthlyMetrics): string
     insights.push(`Net loss of ${formatCurrency(Math.abs(metrics.net_profit))} requires attention`)
   }
 
+  // Budget insights
+  const overBudget = (sections.profit_loss as ProfitLossStatement | undefined)?.operating_expenses
+    .filter(line => line.status === 'over') || []
+  for (const line of overBudget) {
+    insights.push(`${line.name} spending of ${formatCurrency(line.amount)} is ${formatCurrency(Math.abs(line.variance || 0))} over budget`)
+  }
+
   return insights
 }
 
@@ -525,6 +555,90 @@ function calculateEfficiencyScore(orders: any[]): number {
   return Math.min(orders.length / 100 * 100, 100)
 }
 
+const PAGE_SIZE = 1000
+
+// PostgREST caps each response, so read the rows page by page
+async function selectAll(
+  fetchPage: (from: number, to: number) => PromiseLike<{ data: any[] | null; error: { message: string } | null }>
+): Promise<any[]> {
+  const rows: any[] = []
+
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error } = await fetchPage(from, from + PAGE_SIZE - 1)
+    if (error) throw new Error(error.message)
+
+    rows.push(...(data || []))
+    if (!data || data.length < PAGE_SIZE) return rows
+  }
+}
+
+/**
+ * Profit & loss for the month: completed orders, ingredient usage and waste
+ * from stock movements within the business days, payroll and recorded
+ * operating expenses. Mirrors loadProfitAndLoss in the owner dashboard.
+ */
+export async function generateProfitAndLoss(
+  startDate: string,
+  endDate: string,
+  calendar: BusinessCalendar
+): Promise<ProfitLossStatement> {
+  // Book recurring expenses (rent, utilities) that have come due
+  const { error: recurringError } = await supabaseAdmin.rpc('generate_recurring_expenses')
+  if (recurringError) {
+    console.error('Error booking recurring expenses:', recurringError)
+  }
+
+  const range = businessDateRange(startDate, endDate, calendar)
+
+  const [orders, movements, payroll, expenses, categories] = await Promise.all([
+    selectAll((from, to) => supabaseAdmin
+      .from('orders')
+      .select('subtotal, discount_amount, service_charge, tax_amount')
+      .eq('status', 'completed')
+      .gte('created_at', range.start)
+      .lt('created_at', range.end)
+      .order('id')
+      .range(from, to)),
+    selectAll((from, to) => supabaseAdmin
+      .from('stock_movements')
+      .select('movement_type, quantity, unit_cost, total_cost, ingredients(unit_cost, average_cost)')
+      .in('movement_type', ['usage', 'waste'])
+      .gte('created_at', range.start)
+      .lt('created_at', range.end)
+      .order('id')
+      .range(from, to)),
+    selectAll((from, to) => supabaseAdmin
+      .from('payroll')
+      .select('period_start, period_end, gross_salary, employer_contributions')
+      .lte('period_start', endDate)
+      .gte('period_end', startDate)
+      .order('id')
+      .range(from, to)),
+    selectAll((from, to) => supabaseAdmin
+      .from('daily_expenses')
+      .select('category_id, amount')
+      .gte('date', startDate)
+      .lte('date', endDate)
+      .order('id')
+      .range(from, to)),
+    selectAll((from, to) => supabaseAdmin
+      .from('expense_categories')
+      .select('id, name, budget_amount, is_active')
+      .order('name')
+      .range(from, to))
+  ])
+
+  return buildProfitAndLoss({
+    start_date: startDate,
+    end_date: endDate,
+    orders,
+    movements,
+    payroll,
+    expenses,
+    categories
+  })
+}
+
 async function generateInventoryPerformance(startDate: string, endDate: string): Promise<any> {
   // Simplified inventory performance
   return {
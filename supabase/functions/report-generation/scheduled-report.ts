@@ -0,0 +1,53 @@
+/**
+ * Scheduled Report Rendering
+ *
+ * Turns a recurring report delivery (report_schedules) into the Telegram
+ * summary sent by the notification dispatcher: revenue, orders and net
+ * margin from the profit & loss statement of the reported business days
+ */
+
+import type { BusinessCalendar } from '../../../packages/utils/src/helpers/businessCalendar'
+import type { ReportSchedule } from '../../../packages/utils/src/helpers/notificationSchedule'
+import { generateProfitAndLoss } from './monthly-report'
+
+// Template of each report type in telegram-notifications/templates
+export const REPORT_NOTIFICATION_TYPES: Record<ReportSchedule, 'daily_report' | 'weekly_report' | 'monthly_report'> = {
+  daily: 'daily_report',
+  weekly: 'weekly_report',
+  monthly: 'monthly_report'
+}
+
+const formatPeriod = (startDate: string, endDate: string) => {
+  const format = (date: string) => new Date(`${date}T00:00:00Z`).toLocaleDateString('id-ID', {
+    timeZone: 'UTC',
+    day: 'numeric',
+    month: 'long',
+    year: 'numeric'
+  })
+  return startDate === endDate ? format(startDate) : `${format(startDate)} - ${format(endDate)}`
+}
+
+/**
+ * Template data for a report over the business days startDate to endDate
+ */
+export async function renderScheduledReport(
+  reportType: ReportSchedule,
+  startDate: string,
+  endDate: string,
+  calendar: BusinessCalendar
+): Promise<{
+  notification_type: 'daily_report' | 'weekly_report' | 'monthly_report'
+  data: Record<string, any>
+}> {
+  const statement = await generateProfitAndLoss(startDate, endDate, calendar)
+
+  return {
+    notification_type: REPORT_NOTIFICATION_TYPES[reportType],
+    data: {
+      period: formatPeriod(startDate, endDate),
+      total_revenue: statement.revenue,
+      total_orders: statement.sales.order_count,
+      profit_margin: statement.net_margin_percentage
+    }
+  }
+}
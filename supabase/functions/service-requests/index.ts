@@ -0,0 +1,238 @@
+/**
+ * Service Requests Edge Function
+ *
+ * Table service requests for pelayan tablets: diners call a waiter, ask for
+ * the bill, cutlery, water or send free text from the table page. Tablets
+ * subscribe to `service_requests` over realtime and acknowledge and complete
+ * requests here. The staff member signed in on the tablet with their PIN is
+ * recorded, so response times count per employee.
+ *
+ * @endpoints
+ * GET  /service-requests/open - Pending and acknowledged requests with their table
+ * POST /service-requests/:id/acknowledge - Take a request
+ * POST /service-requests/:id/complete - Mark a request done
+ */
+
+import { withCors, extractDeviceInfo } from '../_shared/cors'
+import {
+  createSuccessResponse,
+  createErrorResponse,
+  createUnauthorizedResponse,
+  createHandler
+} from '../_shared/response'
+import {
+  supabaseAdmin,
+  validateDeviceAuth,
+  type DeviceSession
+} from '../_shared/supabase-client'
+import {
+  OPEN_SERVICE_REQUEST_STATUSES,
+  serviceResponseSeconds
+} from '../../../packages/utils/src/helpers/serviceRequest'
+
+// Tablets that may handle table service
+const SERVICE_ROLES = ['pelayan', 'kasir']
+
+/**
+ * Authenticate a service tablet; acknowledging and completing also need a
+ * staff member signed in on it
+ */
+async function authenticateServiceDevice(request: Request, requireStaff: boolean): Promise<{
+  success: boolean
+  error?: string
+  session?: DeviceSession
+}> {
+  try {
+    const deviceInfo = extractDeviceInfo(request)
+    if (!deviceInfo || !SERVICE_ROLES.includes(deviceInfo.deviceRole)) {
+      return { success: false, error: 'Unauthorized. Service device required.' }
+    }
+
+    const session = await validateDeviceAuth(deviceInfo.deviceToken, deviceInfo.deviceRole)
+    if (!session) {
+      return { success: false, error: 'Device session is invalid or has been revoked' }
+    }
+
+    if (requireStaff && !session.employee_id) {
+      return { success: false, error: 'Sign in with your PIN on this device first' }
+    }
+
+    return { success: true, session }
+
+  } catch (error) {
+    console.error('Error authenticating service device:', error)
+    return {
+      success: false,
+      error: 'Authentication failed'
+    }
+  }
+}
+
+/**
+ * GET /service-requests/open
+ */
+async function handleGetOpenRequests(request: Request): Promise<Response> {
+  try {
+    const authResult = await authenticateServiceDevice(request, false)
+    if (!authResult.success) {
+      return createUnauthorizedResponse(authResult.error, request)
+    }
+
+    const { data: requests, error } = await supabaseAdmin
+      .from('service_requests')
+      .select(`
+        *,
+        table:tables!table_id (
+          id,
+          table_number,
+          zone
+        ),
+        acknowledged_employee:employees!acknowledged_by (
+          id,
+          full_name
+        )
+      `)
+      .in('status', OPEN_SERVICE_REQUEST_STATUSES)
+      .order('created_at', { ascending: true })
+
+    if (error) {
+      throw error
+    }
+
+    const now = Date.now()
+    const formatted = (requests || []).map((serviceRequest: any) => ({
+      ...serviceRequest,
+      waiting_seconds: Math.max(0, Math.round((now - new Date(serviceRequest.created_at).getTime()) / 1000))
+    }))
+
+    return createSuccessResponse(
+      {
+        requests: formatted,
+        pending: formatted.filter((serviceRequest: any) => serviceRequest.status === 'pending').length
+      },
+      undefined,
+      undefined,
+      request
+    )
+
+  } catch (error) {
+    console.error('Error in handleGetOpenRequests:', error)
+    return createErrorResponse(
+      'Internal server error',
+      500,
+      { error: error instanceof Error ? error.message : 'Unknown error' },
+      request
+    )
+  }
+}
+
+/**
+ * POST /service-requests/:id/acknowledge and /service-requests/:id/complete
+ */
+async function handleUpdateRequest(
+  request: Request,
+  requestId: string,
+  action: 'acknowledge' | 'complete'
+): Promise<Response> {
+  try {
+    const authResult = await authenticateServiceDevice(request, true)
+    if (!authResult.success || !authResult.session) {
+      return createUnauthorizedResponse(authResult.error, request)
+    }
+    const employeeId = authResult.session.employee_id!
+
+    const { data: current, error: fetchError } = await supabaseAdmin
+      .from('service_requests')
+      .select('id, status, acknowledged_at, acknowledged_by')
+      .eq('id', requestId)
+      .maybeSingle()
+
+    if (fetchError) {
+      throw fetchError
+    }
+    if (!current) {
+      return createErrorResponse('Service request not found', 404, undefined, request)
+    }
+
+    const allowed = action === 'acknowledge' ? ['pending'] : OPEN_SERVICE_REQUEST_STATUSES
+    if (!allowed.includes(current.status)) {
+      return createErrorResponse(
+        `Service request is already ${current.status}`,
+        409,
+        { status: current.status },
+        request
+      )
+    }
+
+    const now = new Date().toISOString()
+    // Completing straight from pending also counts as taking the request
+    const acknowledgement = current.acknowledged_at
+      ? {}
+      : { acknowledged_at: now, acknowledged_by: employeeId }
+
+    const { data: updated, error: updateError } = await supabaseAdmin
+      .from('service_requests')
+      .update(action === 'acknowledge'
+        ? { status: 'acknowledged', ...acknowledgement, updated_at: now }
+        : { status: 'completed', ...acknowledgement, completed_at: now, completed_by: employeeId, updated_at: now })
+      .eq('id', requestId)
+      .eq('status', current.status)
+      .select('*')
+      .maybeSingle()
+
+    if (updateError) {
+      throw updateError
+    }
+    if (!updated) {
+      return createErrorResponse('Service request was updated by someone else', 409, undefined, request)
+    }
+
+    return createSuccessResponse(
+      {
+        ...updated,
+        response_seconds: serviceResponseSeconds(updated)
+      },
+      action === 'acknowledge' ? 'Service request acknowledged' : 'Service request completed',
+      undefined,
+      request
+    )
+
+  } catch (error) {
+    console.error('Error in handleUpdateRequest:', error)
+    return createErrorResponse(
+      'Internal server error',
+      500,
+      { error: error instanceof Error ? error.message : 'Unknown error' },
+      request
+    )
+  }
+}
+
+// ===========================================
+// MAIN HANDLER WITH ROUTING
+// ===========================================
+
+const handler = withCors(createHandler({
+  GET: async (request: Request) => {
+    const url = new URL(request.url)
+
+    if (url.pathname.includes('/open')) {
+      return handleGetOpenRequests(request)
+    }
+
+    return createErrorResponse('Invalid endpoint', 404, undefined, request)
+  },
+
+  POST: async (request: Request) => {
+    const url = new URL(request.url)
+    const match = url.pathname.match(/\/service-requests\/([^/]+)\/(acknowledge|complete)$/)
+
+    if (match) {
+      return handleUpdateRequest(request, match[1], match[2] as 'acknowledge' | 'complete')
+    }
+
+    return createErrorResponse('Invalid endpoint', 404, undefined, request)
+  }
+}))
+
+export default handler
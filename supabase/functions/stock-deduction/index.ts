@@ -17,9 +17,11 @@
  * POST /stock-deduction/manual - Manual stock adjustment
  * GET  /stock-deduction/preview/:orderId - Preview deduction without executing
  * POST /stock-deduction/reconcile - Reconcile inventory discrepancies
+ * POST /stock-deduction/reverse/:orderId - Reverse deduction of a cancelled order
+ * GET  /stock-deduction/deducted/:orderId - Ingredients deducted for an order
  */
 
-import { withCors } from '../_shared/cors'
+import { withCors, extractDeviceInfo } from '../_shared/cors'
 import { 
   createSuccessResponse, 
   createErrorResponse, 
@@ -41,6 +43,11 @@ import {
   isPositiveInteger,
   sanitizeString
 } from '../../../packages/utils/src/validators/index'
+import {
+  reverseOrderStockDeduction,
+  getOrderDeductedIngredients,
+  WastedIngredient
+} from './reversal'
 
 // Stock deduction interfaces
 interface StockDeductionRequest {
@@ -60,6 +67,10 @@ interface ManualStockAdjustment {
   expiry_date?: string
 }
 
+interface StockReversalRequest {
+  wasted_ingredients?: WastedIngredient[]
+}
+
 interface StockDeductionResult {
   order_id: string
   total_items_processed: number
@@ -373,6 +384,133 @@ async function handlePreviewStockDeduction(request: Request): Promise<Response>
   }
 }
 
+/**
+ * Reverse stock deduction for a cancelled order (safe to retry)
+ */
+async function handleReverseStockDeduction(request: Request): Promise<Response> {
+  try {
+    // Extract order ID from URL
+    const url = new URL(request.url)
+    const pathParts = url.pathname.split('/')
+    const orderId = pathParts[pathParts.length - 1]
+
+    if (!orderId) {
+      return createErrorResponse('Order ID required', 400, undefined, request)
+    }
+
+    const body = await parseJsonBody(request) || {}
+    const reversalParams = body as StockReversalRequest
+
+    // Kitchen may record waste, so dapur is allowed here
+    const authResult = await authenticateStockOperation(request, ['kasir', 'dapur', 'stok', 'owner'])
+    if (!authResult.success) {
+      return createUnauthorizedResponse(authResult.error, request)
+    }
+
+    const { data: order, error: orderError } = await supabaseAdmin
+      .from('orders')
+      .select('id, status')
+      .eq('id', orderId)
+      .single()
+
+    if (orderError || !order) {
+      return createNotFoundResponse('Order', request)
+    }
+
+    if (order.status !== 'cancelled') {
+      return createErrorResponse(
+        `Cannot reverse stock deduction for order with status: ${order.status}`,
+        400,
+        undefined,
+        request
+      )
+    }
+
+    const wasted = reversalParams.wasted_ingredients || []
+    for (const item of wasted) {
+      if (!item.ingredient_id || !isValidNumber(item.quantity) || item.quantity < 0) {
+        return createErrorResponse('Invalid wasted ingredient entry', 400, { item }, request)
+      }
+    }
+
+    const reversal = await reverseOrderStockDeduction(orderId, authResult.user_id || 'system', wasted)
+
+    await logAudit(
+      authResult.user_id || 'system',
+      'REVERSE_STOCK_DEDUCTION',
+      {
+        order_id: orderId,
+        restored_movements: reversal.restored.length,
+        wasted_movements: reversal.wasted.length,
+        total_cost_restored: reversal.total_cost_restored,
+        total_cost_wasted: reversal.total_cost_wasted
+      },
+      'stock_movements',
+      orderId
+    )
+
+    return createSuccessResponse(
+      reversal,
+      reversal.already_reversed
+        ? 'Stock deduction was already reversed'
+        : 'Stock deduction reversed successfully',
+      undefined,
+      request
+    )
+
+  } catch (error) {
+    console.error('Error in handleReverseStockDeduction:', error)
+    return createErrorResponse(
+      'Internal server error',
+      500,
+      { error: error instanceof Error ? error.message : 'Unknown error' },
+      request
+    )
+  }
+}
+
+/**
+ * List deducted ingredients of an order so the kitchen can mark waste
+ */
+async function handleGetDeductedIngredients(request: Request): Promise<Response> {
+  try {
+    // Extract order ID from URL
+    const url = new URL(request.url)
+    const pathParts = url.pathname.split('/')
+    const orderId = pathParts[pathParts.length - 1]
+
+    if (!orderId) {
+      return createErrorResponse('Order ID required', 400, undefined, request)
+    }
+
+    const authResult = await authenticateStockOperation(request, ['kasir', 'dapur', 'stok', 'owner'])
+    if (!authResult.success) {
+      return createUnauthorizedResponse(authResult.error, request)
+    }
+
+    const ingredients = await getOrderDeductedIngredients(orderId)
+
+    return createSuccessResponse(
+      {
+        order_id: orderId,
+        ingredients
+      },
+      'Deducted ingredients retrieved',
+      undefined,
+      request
+    )
+
+  } catch (error) {
+    console.error('Error in handleGetDeductedIngredients:', error)
+    return createErrorResponse(
+      'Internal server error',
+      500,
+      { error: error instanceof Error ? error.message : 'Unknown error' },
+      request
+    )
+  }
+}
+
 /**
  * Reconcile inventory discrepancies
  */
@@ -780,22 +918,30 @@ async function deductIngredientFIFO(
         supplier_info: batch.supplier_name
       })
 
-      // Create stock movement record
-      await supabaseAdmin
+      // Create stock movement record; negative like every outgoing movement,
+      // update_stock_on_movement takes it off current_stock and a cancelled
+      // order's reversal finds it by order_id and batch_id
+      const { error: movementError } = await supabaseAdmin
         .from('stock_movements')
         .insert({
           ingredient_id: ingredientId,
           batch_id: batch.id,
           movement_type: 'stock_out',
-          quantity: deductFromBatch,
-          cost_per_unit: batch.cost_per_unit,
+          quantity: -deductFromBatch,
+          unit_cost: batch.cost_per_unit,
           total_cost: batchCost,
+          reference_type: 'order',
+          reference_id: orderId,
           order_id: orderId,
           notes: `Stock deduction for order ${orderId}`,
-          performed_by: userId,
+          performed_by: userId === 'system' ? null : userId,
           created_at: new Date().toISOString()
         })
 
+      if (movementError) {
+        console.error('Error recording stock movement:', movementError)
+      }
+
       totalCost += batchCost
       remainingNeeded -= deductFromBatch
 
@@ -835,20 +981,8 @@ async function deductIngredientFIFO(
       }
     }
 
-    // Update ingredient total stock
+    // Ingredient total stock after the movements (applied by the stock trigger)
     const newIngredientStock = ingredient.current_stock - (quantityNeeded - remainingNeeded)
-    
-    const { error: updateIngredientError } = await supabaseAdmin
-      .from('ingredients')
-      .update({
-        current_stock: newIngredientStock,
-        updated_at: new Date().toISOString()
-      })
-      .eq('id', ingredientId)
-
-    if (updateIngredientError) {
-      console.error('Error updating ingredient stock:', updateIngredientError)
-    }
 
     // Check for insufficient stock
     if (remainingNeeded > 0) {
@@ -1280,7 +1414,7 @@ async function authenticateStockOperation(
     // Try device authentication first
     const deviceInfo = extractDeviceInfo(request)
     if (deviceInfo) {
-      const deviceAccount = await validateDeviceAuth(deviceInfo.deviceId, deviceInfo.deviceRole)
+      const deviceAccount = await validateDeviceAuth(deviceInfo.deviceToken, deviceInfo.deviceRole)
       if (deviceAccount && allowedRoles.includes(deviceInfo.deviceRole)) {
         return { 
           success: true, 
@@ -1323,23 +1457,6 @@ async function authenticateStockOperation(
   }
 }
 
-/**
- * Extract device info from headers
- */
-function extractDeviceInfo(request: Request): {
-  deviceId: string
-  deviceRole: 'kasir' | 'dapur' | 'pelayan' | 'stok'
-} | null {
-  const deviceId = request.headers.get('X-Device-ID')
-  const deviceRole = request.headers.get('X-Device-Role') as 'kasir' | 'dapur' | 'pelayan' | 'stok'
-
-  if (!deviceId || !deviceRole) {
-    return null
-  }
-
-  return { deviceId, deviceRole }
-}
-
 /**
  * Get stock deduction statistics
  */
@@ -1359,7 +1476,7 @@ export async function getStockDeductionStats(): Promise<{
     // Get today's stock movements
     const { data: todayMovements } = await supabaseAdmin
       .from('stock_movements')
-      .select('total_cost, ingredient_id, created_at')
+      .select('total_cost, ingredient_id, order_id, created_at')
       .eq('movement_type', 'stock_out')
       .gte('created_at', startOfDay.toISOString())
       .lt('created_at', endOfDay.toISOString())
@@ -1376,13 +1493,40 @@ export async function getStockDeductionStats(): Promise<{
     const lowStockCount = lowStockIngredients?.length || 0
     const urgentReorders = lowStockIngredients?.filter(ing => ing.current_stock <= 0).length || 0
 
+    // Minutes from an order's confirmation to its first deduction
+    const firstDeduction = new Map<string, number>()
+    for (const movement of todayMovements || []) {
+      if (!movement.order_id) continue
+      const at = new Date(movement.created_at).getTime()
+      const earliest = firstDeduction.get(movement.order_id)
+      if (earliest === undefined || at < earliest) {
+        firstDeduction.set(movement.order_id, at)
+      }
+    }
+
+    let averageDeductionTime = 0
+    if (firstDeduction.size > 0) {
+      const { data: deductedOrders } = await supabaseAdmin
+        .from('orders')
+        .select('id, confirmed_at')
+        .in('id', Array.from(firstDeduction.keys()))
+        .not('confirmed_at', 'is', null)
+
+      const delays = (deductedOrders || [])
+        .map(order => (firstDeduction.get(order.id)! - new Date(order.confirmed_at!).getTime()) / 1000 / 60)
+        .filter(minutes => minutes >= 0)
+      if (delays.length > 0) {
+        averageDeductionTime = Math.round(delays.reduce((sum, minutes) => sum + minutes, 0) / delays.length * 10) / 10
+      }
+    }
+
     return {
       total_deductions_today: totalDeductions,
       total_cost_deducted_today: totalCostDeducted,
       ingredients_affected_today: uniqueIngredients,
       low_stock_alerts: lowStockCount,
       urgent_reorders_needed: urgentReorders,
-      average_deduction_time: 0 // TODO: Calculate based on order confirmation to deduction time
+      average_deduction_time: averageDeductionTime
     }
 
   } catch (error) {
@@ -1412,6 +1556,8 @@ const handler = withCors(createHandler({
       return handleManualStockAdjustment(request)
     } else if (url.pathname.includes('/reconcile')) {
       return handleInventoryReconciliation(request)
+    } else if (url.pathname.includes('/reverse/')) {
+      return handleReverseStockDeduction(request)
     }
     
     return createErrorResponse('Invalid endpoint', 404, undefined, request)
@@ -1422,6 +1568,8 @@ const handler = withCors(createHandler({
     
     if (url.pathname.includes('/preview/')) {
       return handlePreviewStockDeduction(request)
+    } else if (url.pathname.includes('/deducted/')) {
+      return handleGetDeductedIngredients(request)
     } else if (url.pathname.includes('/stats')) {
       const stats = await getStockDeductionStats()
       return createSuccessResponse(stats, 'Stock deduction statistics retrieved', undefined, request)
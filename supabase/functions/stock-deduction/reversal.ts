@@ -0,0 +1,229 @@
+/**
+ * Stock Deduction Reversal
+ *
+ * Reverses the ingredient deductions of a cancelled order: every movement
+ * recorded with the order's order_id that took stock out, i.e. the `usage`
+ * rows of the deduct_ingredients_from_order trigger and the per-batch
+ * `stock_out` rows of deductIngredientFIFO. Each gets compensating movements
+ * that point back at it through `reverses_movement_id`:
+ * - `return` (positive) giving the deducted quantity back
+ * - `waste` (negative) for the quantity the kitchen marked as used up
+ *
+ * The update_stock_on_movement trigger applies each movement to
+ * ingredients.current_stock. No trigger maintains batches for these movement
+ * types, so a deduction's batch is adjusted here by the same quantity with
+ * the adjust_stock_batch_quantity function.
+ *
+ * Reversal is idempotent: a retry only records what is not yet compensated,
+ * and the unique index on (reverses_movement_id, movement_type) stops
+ * concurrent retries from restoring the same quantity twice.
+ */
+
+import { supabaseAdmin } from '../_shared/supabase-client'
+import {
+  netReversedQuantities,
+  planStockReversal,
+  splitOrderStockMovements,
+  type PlannedReversalMovement,
+  type RecordedCompensation,
+  type StockDeduction,
+  type WastedIngredient
+} from '../../../packages/utils/src/calculations/stockReversal'
+
+export type { WastedIngredient }
+
+export interface DeductedIngredient {
+  ingredient_id: string
+  ingredient_name: string
+  unit: string
+  quantity_deducted: number
+  quantity_reversed: number
+  movements: number
+}
+
+export interface ReversalLine {
+  original_movement_id: string
+  ingredient_id: string
+  batch_id: string | null
+  quantity: number
+  unit_cost: number
+  total_cost: number
+}
+
+export interface StockReversalResult {
+  order_id: string
+  already_reversed: boolean
+  restored: ReversalLine[]
+  wasted: ReversalLine[]
+  total_cost_restored: number
+  total_cost_wasted: number
+}
+
+// Postgres unique_violation
+const UNIQUE_VIOLATION = '23505'
+
+/**
+ * Get an order's deductions and their compensations, newest first
+ */
+async function getOrderStockMovements(orderId: string): Promise<{
+  deductions: StockDeduction[]
+  compensations: RecordedCompensation[]
+}> {
+  const { data, error } = await supabaseAdmin
+    .from('stock_movements')
+    .select('id, ingredient_id, batch_id, movement_type, quantity, unit_cost, reverses_movement_id, created_at')
+    .eq('order_id', orderId)
+    .order('created_at', { ascending: false })
+
+  if (error) {
+    throw new Error(`Failed to load stock deductions: ${error.message}`)
+  }
+
+  return splitOrderStockMovements(data || [])
+}
+
+/**
+ * List what was deducted for an order so the kitchen can mark waste
+ */
+export async function getOrderDeductedIngredients(orderId: string): Promise<DeductedIngredient[]> {
+  const { deductions, compensations } = await getOrderStockMovements(orderId)
+  const reversed = netReversedQuantities(compensations)
+
+  const byIngredient = new Map<string, DeductedIngredient>()
+
+  for (const movement of deductions) {
+    const entry = byIngredient.get(movement.ingredient_id) || {
+      ingredient_id: movement.ingredient_id,
+      ingredient_name: '',
+      unit: '',
+      quantity_deducted: 0,
+      quantity_reversed: 0,
+      movements: 0
+    }
+
+    entry.quantity_deducted += Math.abs(Number(movement.quantity))
+    entry.movements += 1
+    entry.quantity_reversed += reversed.get(movement.id) || 0
+
+    byIngredient.set(movement.ingredient_id, entry)
+  }
+
+  if (byIngredient.size > 0) {
+    const { data: ingredients } = await supabaseAdmin
+      .from('ingredients')
+      .select('id, name, unit')
+      .in('id', [...byIngredient.keys()])
+
+    for (const ingredient of ingredients || []) {
+      const entry = byIngredient.get(ingredient.id)
+      if (entry) {
+        entry.ingredient_name = ingredient.name
+        entry.unit = ingredient.unit
+      }
+    }
+  }
+
+  return [...byIngredient.values()]
+}
+
+/**
+ * Insert a compensating movement; the stock trigger updates current_stock.
+ * Returns false when another request already compensated the same movement.
+ */
+async function insertCompensation(
+  movement: PlannedReversalMovement,
+  orderId: string,
+  userId: string
+): Promise<boolean> {
+  const { error } = await supabaseAdmin
+    .from('stock_movements')
+    .insert({
+      ingredient_id: movement.ingredient_id,
+      batch_id: movement.batch_id,
+      movement_type: movement.movement_type,
+      quantity: movement.quantity,
+      unit_cost: movement.unit_cost,
+      total_cost: movement.total_cost,
+      reference_type: 'order',
+      reference_id: orderId,
+      order_id: orderId,
+      reverses_movement_id: movement.reverses_movement_id,
+      reason: movement.reason,
+      notes: movement.movement_type === 'return'
+        ? `Stock restored for cancelled order ${orderId}`
+        : `Ingredients wasted on cancelled order ${orderId}`,
+      performed_by: userId === 'system' ? null : userId,
+      created_at: new Date().toISOString()
+    })
+
+  if (error) {
+    if (error.code === UNIQUE_VIOLATION) return false
+    throw new Error(`Failed to record ${movement.movement_type} reversal: ${error.message}`)
+  }
+
+  return true
+}
+
+/**
+ * Apply a compensating quantity to the batch it was deducted from, kept
+ * within the batch's initial quantity. A single UPDATE in the database, so
+ * concurrent deductions and reversals of the batch cannot overwrite it.
+ */
+async function adjustBatchQuantity(batchId: string, quantity: number): Promise<void> {
+  const { error } = await supabaseAdmin
+    .rpc('adjust_stock_batch_quantity', { p_batch_id: batchId, p_quantity: quantity })
+
+  if (error) {
+    console.error('Error adjusting batch quantity:', error)
+  }
+}
+
+/**
+ * Reverse all stock deductions of a cancelled order.
+ * Quantities listed in `wasted` are recorded as waste instead of restored.
+ */
+export async function reverseOrderStockDeduction(
+  orderId: string,
+  userId: string,
+  wasted: WastedIngredient[] = []
+): Promise<StockReversalResult> {
+  const { deductions, compensations } = await getOrderStockMovements(orderId)
+  const plan = planStockReversal(deductions, compensations, wasted)
+
+  const result: StockReversalResult = {
+    order_id: orderId,
+    already_reversed: plan.already_reversed,
+    restored: [],
+    wasted: [],
+    total_cost_restored: 0,
+    total_cost_wasted: 0
+  }
+
+  for (const movement of plan.movements) {
+    const recorded = await insertCompensation(movement, orderId, userId)
+    if (!recorded) continue
+
+    if (movement.batch_id) {
+      await adjustBatchQuantity(movement.batch_id, movement.quantity)
+    }
+
+    const line: ReversalLine = {
+      original_movement_id: movement.reverses_movement_id,
+      ingredient_id: movement.ingredient_id,
+      batch_id: movement.batch_id,
+      quantity: Math.abs(movement.quantity),
+      unit_cost: movement.unit_cost,
+      total_cost: movement.total_cost
+    }
+
+    if (movement.movement_type === 'return') {
+      result.restored.push(line)
+      result.total_cost_restored += line.total_cost
+    } else {
+      result.wasted.push(line)
+      result.total_cost_wasted += line.total_cost
+    }
+  }
+
+  return result
+}
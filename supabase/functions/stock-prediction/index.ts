@@ -12,7 +12,7 @@
  * POST /stock-prediction/seasonal-adjustments - Apply seasonal demand adjustments
  */
 
-import { withCors } from '../_shared/cors'
+import { withCors, extractDeviceInfo } from '../_shared/cors'
 import { 
   createSuccessResponse, 
   createErrorResponse, 
@@ -24,6 +24,7 @@ import {
 import { 
   supabaseAdmin, 
   getAuthenticatedClient,
+  validateDeviceAuth,
   logAudit 
 } from '../_shared/supabase-client'
 import { 
@@ -616,13 +617,14 @@ async function authenticateStockRequest(
 }> {
   try {
     // Try device authentication first
-    const deviceId = request.headers.get('X-Device-ID')
-    const deviceRole = request.headers.get('X-Device-Role')
-
-    if (deviceId && deviceRole) {
-      const deviceRoleName = `device_${deviceRole}`
-      if (allowedRoles.includes(deviceRole) || allowedRoles.includes(deviceRoleName)) {
-        return { success: true, user_id: deviceId }
+    const deviceInfo = extractDeviceInfo(request)
+    if (deviceInfo) {
+      const deviceRoleName = `device_${deviceInfo.deviceRole}`
+      if (allowedRoles.includes(deviceInfo.deviceRole) || allowedRoles.includes(deviceRoleName)) {
+        const deviceAccount = await validateDeviceAuth(deviceInfo.deviceToken, deviceInfo.deviceRole)
+        if (deviceAccount) {
+          return { success: true, user_id: deviceAccount.device_id }
+        }
       }
     }
 
@@ -212,6 +212,10 @@ export async function setWebhook(webhookUrl: string, botToken?: string): Promise
       }
     }
 
+    // The owner dashboard's webhook (api/telegram/webhook) only accepts
+    // updates carrying this secret
+    const secretToken = Deno.env.get('TELEGRAM_WEBHOOK_SECRET')
+
     const response = await fetch(`${TELEGRAM_API_BASE}${token}/setWebhook`, {
       method: 'POST',
       headers: {
@@ -220,7 +224,8 @@ export async function setWebhook(webhookUrl: string, botToken?: string): Promise
       body: JSON.stringify({
         url: webhookUrl,
         allowed_updates: ['message', 'callback_query'],
-        drop_pending_updates: true
+        drop_pending_updates: true,
+        ...(secretToken ? { secret_token: secretToken } : {})
       })
     })
 
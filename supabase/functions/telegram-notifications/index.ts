@@ -12,7 +12,7 @@
  * DELETE /telegram-notifications/webhook - Clear webhook (for debugging)
  */
 
-import { withCors } from '../_shared/cors'
+import { withCors, extractDeviceInfo } from '../_shared/cors'
 import { 
   createSuccessResponse, 
   createErrorResponse, 
@@ -24,6 +24,7 @@ import {
 import { 
   supabaseAdmin, 
   getAuthenticatedClient,
+  validateDeviceAuth,
   logAudit 
 } from '../_shared/supabase-client'
 import { 
@@ -31,7 +32,7 @@ import {
   sanitizeString,
   isValidIndonesianPhone
 } from '../../../packages/utils/src/validators/index'
-import { sendTelegramMessage, broadcastToMultiple, testBotConnection } from './sender'
+import { sendTelegramMessage, broadcastToMultiple, testBotConnection, RETRY_CONFIG } from './sender'
 import { getMessageTemplate, NotificationType } from './templates'
 import { getBotConfig, validateBotToken } from './bot-config'
 
@@ -158,7 +159,7 @@ async function handleSendNotification(request: Request): Promise<Response> {
     // Handle scheduled notifications
     if (notificationData.schedule_at) {
       const scheduleTime = new Date(notificationData.schedule_at)
-      if (scheduleTime <= new Date()) {
+      if (Number.isNaN(scheduleTime.getTime()) || scheduleTime <= new Date()) {
         return createErrorResponse(
           'Scheduled time must be in the future',
           400,
@@ -167,8 +168,13 @@ async function handleSendNotification(request: Request): Promise<Response> {
         )
       }
 
-      // Store for later processing (would need a scheduler service)
-      await storeScheduledNotification(notificationData, chatId.chat_id || '', messageTemplate.message || '')
+      // Sent by the notification-dispatcher function once due
+      await storeScheduledNotification(
+        notificationData,
+        chatId.chat_id || '',
+        messageTemplate.message || '',
+        chatId.recipient_name
+      )
       
       return createSuccessResponse(
         {
@@ -649,28 +655,31 @@ async function getBroadcastRecipients(broadcastData: BroadcastRequest): Promise<
 }
 
 /**
- * Store scheduled notification for later processing
+ * Store scheduled notification for the dispatcher to send
  */
 async function storeScheduledNotification(
   notificationData: SendNotificationRequest,
   chatId: string,
-  message: string
+  message: string,
+  recipientName?: string
 ): Promise<void> {
-  try {
-    await supabaseAdmin
-      .from('scheduled_notifications')
-      .insert({
-        chat_id: chatId,
-        message,
-        notification_type: notificationData.notification_type,
-        data: notificationData.data,
-        priority: notificationData.priority || 'normal',
-        scheduled_at: notificationData.schedule_at,
-        status: 'pending',
-        created_at: new Date().toISOString()
-      })
-  } catch (error) {
-    console.error('Error storing scheduled notification:', error)
+  const { error } = await supabaseAdmin
+    .from('scheduled_notifications')
+    .insert({
+      chat_id: chatId,
+      recipient_name: recipientName || null,
+      message,
+      notification_type: notificationData.notification_type,
+      data: notificationData.data,
+      priority: notificationData.priority || 'normal',
+      scheduled_at: new Date(notificationData.schedule_at!).toISOString(),
+      status: 'pending',
+      max_attempts: RETRY_CONFIG.max_retries + 1,
+      created_at: new Date().toISOString()
+    })
+
+  if (error) {
+    throw new Error(`Failed to store scheduled notification: ${error.message}`)
   }
 }
 
@@ -743,13 +752,11 @@ async function authenticateNotificationRequest(
 }> {
   try {
     // Try device authentication first
-    const deviceId = request.headers.get('X-Device-ID')
-    const deviceRole = request.headers.get('X-Device-Role')
-
-    if (deviceId && deviceRole) {
-      const deviceRoleName = `device_${deviceRole}`
-      if (allowedRoles.includes(deviceRoleName)) {
-        return { success: true, user_id: deviceId }
+    const deviceInfo = extractDeviceInfo(request)
+    if (deviceInfo && allowedRoles.includes(`device_${deviceInfo.deviceRole}`)) {
+      const deviceAccount = await validateDeviceAuth(deviceInfo.deviceToken, deviceInfo.deviceRole)
+      if (deviceAccount) {
+        return { success: true, user_id: deviceAccount.device_id }
       }
     }
 
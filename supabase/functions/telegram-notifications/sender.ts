@@ -65,8 +65,8 @@ const RATE_LIMITS = {
   burst_limit: 5
 }
 
-// Retry configuration
-const RETRY_CONFIG = {
+// Retry configuration, also used by the notification dispatcher between runs
+export const RETRY_CONFIG = {
   max_retries: 3,
   initial_delay: 1000, // 1 second
   max_delay: 30000,    // 30 seconds
@@ -87,6 +87,16 @@ const ERROR_TYPES = {
 // CORE SENDING FUNCTIONS
 // ===========================================
 
+/**
+ * Exponential backoff before retry number `retryCount` (0-based)
+ */
+export function retryDelay(retryCount: number): number {
+  return Math.min(
+    RETRY_CONFIG.initial_delay * Math.pow(RETRY_CONFIG.backoff_factor, retryCount),
+    RETRY_CONFIG.max_delay
+  )
+}
+
 /**
  * Send message to single Telegram chat
  */
@@ -169,11 +179,7 @@ export async function sendTelegramMessage(
       if (errorResult.retry_after) {
         await sleep(errorResult.retry_after * 1000)
       } else {
-        const delay = Math.min(
-          RETRY_CONFIG.initial_delay * Math.pow(RETRY_CONFIG.backoff_factor, retryCount),
-          RETRY_CONFIG.max_delay
-        )
-        await sleep(delay)
+        await sleep(retryDelay(retryCount))
       }
 
       retryCount++
@@ -183,11 +189,7 @@ export async function sendTelegramMessage(
       lastError = error instanceof Error ? error.message : 'Network error'
       
       // Wait before retry
-      const delay = Math.min(
-        RETRY_CONFIG.initial_delay * Math.pow(RETRY_CONFIG.backoff_factor, retryCount),
-        RETRY_CONFIG.max_delay
-      )
-      await sleep(delay)
+      await sleep(retryDelay(retryCount))
       
       retryCount++
     }
@@ -23,6 +23,7 @@ export type NotificationType =
   | 'overtime_approved'
   | 'overtime_rejected'
   | 'daily_report'
+  | 'weekly_report'
   | 'monthly_report'
   | 'system_alert'
   | 'shift_reminder'
@@ -143,6 +144,9 @@ export function getMessageTemplate(
       case 'daily_report':
         message = getDailyReportTemplate(data as ReportTemplateData)
         break
+      case 'weekly_report':
+        message = getWeeklyReportTemplate(data as ReportTemplateData)
+        break
       case 'monthly_report':
         message = getMonthlyReportTemplate(data as ReportTemplateData)
         break
@@ -434,6 +438,22 @@ function getDailyReportTemplate(data: ReportTemplateData): string {
 ${data.total_revenue > 0 ? '🎉 Hari yang produktif!' : '📈 Mari semangat besok!'}`
 }
 
+function getWeeklyReportTemplate(data: ReportTemplateData): string {
+  const formatCurrency = (amount: number) => 
+    new Intl.NumberFormat('id-ID', { style: 'currency', currency: 'IDR' }).format(amount)
+
+  return `📊 *LAPORAN MINGGUAN*
+
+📅 ${data.period}
+
+💰 Total Pendapatan: ${formatCurrency(data.total_revenue)}
+📦 Total Order: ${data.total_orders}
+🏆 Best Seller: ${data.best_selling_item || 'N/A'}
+📈 Profit Margin: ${data.profit_margin || 0}%
+
+📈 Rencanakan stok dan jadwal minggu depan`
+}
+
 function getMonthlyReportTemplate(data: ReportTemplateData): string {
   const formatCurrency = (amount: number) => 
     new Intl.NumberFormat('id-ID', { style: 'currency', currency: 'IDR' }).format(amount)
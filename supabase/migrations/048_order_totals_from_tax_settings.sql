@@ -0,0 +1,47 @@
+-- =====================================================
+-- ORDER TOTALS FROM TAX SETTINGS
+-- Purpose: Calculate order totals with the tax/rates system setting
+--          and the same rupiah rounding as the order API
+-- Dependencies: orders, order_items, system_settings
+-- =====================================================
+
+CREATE OR REPLACE FUNCTION calculate_order_totals()
+RETURNS TRIGGER AS $$
+DECLARE
+    v_subtotal DECIMAL(10, 2);
+    v_rates JSONB;
+    v_tax_rate DECIMAL(5, 2) := 11; -- PPN 11% fallback
+    v_service_charge_rate DECIMAL(5, 2) := 5; -- Service charge 5% fallback
+    v_gross_total DECIMAL(10, 2);
+BEGIN
+    SELECT value INTO v_rates
+    FROM system_settings
+    WHERE category = 'tax' AND key = 'rates';
+
+    IF v_rates IS NOT NULL THEN
+        v_tax_rate := COALESCE((v_rates->>'ppn')::DECIMAL, v_tax_rate);
+        v_service_charge_rate := COALESCE((v_rates->>'service')::DECIMAL, v_service_charge_rate);
+    END IF;
+
+    -- Calculate subtotal from order items
+    SELECT COALESCE(SUM(subtotal), 0)
+    INTO v_subtotal
+    FROM order_items
+    WHERE order_id = NEW.id;
+
+    -- Update order totals (rounded to whole rupiah)
+    NEW.subtotal := v_subtotal;
+    NEW.tax_amount := ROUND(v_subtotal * v_tax_rate / 100);
+    NEW.service_charge := ROUND(v_subtotal * v_service_charge_rate / 100);
+    v_gross_total := v_subtotal + NEW.tax_amount + NEW.service_charge;
+
+    -- Discounted orders never drop below Rp 1.000
+    IF COALESCE(NEW.discount_amount, 0) > 0 THEN
+        NEW.total_amount := GREATEST(1000, v_gross_total - NEW.discount_amount);
+    ELSE
+        NEW.total_amount := v_gross_total;
+    END IF;
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
@@ -0,0 +1,23 @@
+-- =====================================================
+-- STOCK MOVEMENT REVERSALS
+-- Purpose: Link compensating movements (restock / waste) of a cancelled
+--          order back to the original stock deduction
+-- Dependencies: stock_movements, stock_batches, orders
+-- =====================================================
+
+-- Columns written by the stock-deduction edge function
+ALTER TABLE stock_movements
+    ADD COLUMN IF NOT EXISTS batch_id UUID REFERENCES stock_batches(id) ON DELETE SET NULL,
+    ADD COLUMN IF NOT EXISTS order_id UUID REFERENCES orders(id) ON DELETE SET NULL,
+    ADD COLUMN IF NOT EXISTS reverses_movement_id UUID REFERENCES stock_movements(id) ON DELETE CASCADE;
+
+CREATE INDEX IF NOT EXISTS idx_stock_movements_order ON stock_movements(order_id);
+CREATE INDEX IF NOT EXISTS idx_stock_movements_batch ON stock_movements(batch_id);
+
+-- A deduction can be restored once and wasted once, never more
+CREATE UNIQUE INDEX IF NOT EXISTS idx_stock_movements_reversal_unique
+    ON stock_movements(reverses_movement_id, movement_type)
+    WHERE reverses_movement_id IS NOT NULL;
+
+COMMENT ON COLUMN stock_movements.reverses_movement_id IS
+    'Original stock deduction this movement compensates (cancelled orders)';
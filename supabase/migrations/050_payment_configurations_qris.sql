@@ -0,0 +1,46 @@
+-- =====================================================
+-- PAYMENT CONFIGURATIONS - QRIS
+-- Purpose: Store the merchant's static QRIS string so the order API can
+--          generate a dynamic QRIS (exact amount + order reference) per order
+-- Dependencies: none
+-- =====================================================
+
+CREATE TABLE IF NOT EXISTS payment_configurations (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    payment_method VARCHAR(20) NOT NULL CHECK (payment_method IN ('qris', 'bank_transfer', 'cash', 'card')),
+    bank_code VARCHAR(20),
+    bank_name VARCHAR(100),
+    account_number VARCHAR(50),
+    account_name VARCHAR(100),
+    merchant_id VARCHAR(50),
+    is_active BOOLEAN DEFAULT true,
+    features TEXT[],
+    account_validation_rules JSONB,
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- Static QRIS payload as printed by the acquirer (point of initiation 11)
+ALTER TABLE payment_configurations
+    ADD COLUMN IF NOT EXISTS qris_payload TEXT;
+
+CREATE INDEX IF NOT EXISTS idx_payment_configurations_method
+    ON payment_configurations(payment_method, is_active);
+
+-- Only one active QRIS merchant at a time
+CREATE UNIQUE INDEX IF NOT EXISTS idx_payment_configurations_active_qris
+    ON payment_configurations(payment_method)
+    WHERE payment_method = 'qris' AND is_active = true;
+
+ALTER TABLE payment_configurations ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Allow service role full access" ON payment_configurations;
+CREATE POLICY "Allow service role full access"
+    ON payment_configurations
+    FOR ALL
+    TO service_role
+    USING (true)
+    WITH CHECK (true);
+
+COMMENT ON COLUMN payment_configurations.qris_payload IS
+    'Merchant static QRIS string (EMVCo MPM); converted to dynamic per order';
@@ -0,0 +1,79 @@
+-- =====================================================
+-- PURCHASE ORDER RECEIVING
+-- Purpose: PO lifecycle (draft -> sent -> confirmed -> partial_received
+--          -> completed), batch traceability per PO line and a
+--          received-vs-ordered variance view per supplier
+-- Dependencies: purchase_orders, purchase_order_items, stock_batches,
+--               stock_movements, suppliers, ingredients
+-- =====================================================
+
+-- Final status is 'completed' (matches po_status in shared types)
+UPDATE purchase_orders SET status = 'completed' WHERE status = 'received';
+
+ALTER TABLE purchase_orders DROP CONSTRAINT IF EXISTS purchase_orders_status_check;
+ALTER TABLE purchase_orders
+    ADD CONSTRAINT purchase_orders_status_check
+    CHECK (status IN ('draft', 'sent', 'confirmed', 'partial_received', 'completed', 'cancelled'));
+
+ALTER TABLE purchase_orders
+    ADD COLUMN IF NOT EXISTS sent_at TIMESTAMPTZ,
+    ADD COLUMN IF NOT EXISTS confirmed_at TIMESTAMPTZ,
+    ADD COLUMN IF NOT EXISTS completed_at TIMESTAMPTZ,
+    ADD COLUMN IF NOT EXISTS cancelled_at TIMESTAMPTZ,
+    ADD COLUMN IF NOT EXISTS cancellation_reason TEXT;
+
+-- Link every batch received from a PO back to its line
+ALTER TABLE stock_batches
+    ADD COLUMN IF NOT EXISTS purchase_order_item_id UUID REFERENCES purchase_order_items(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_stock_batches_po ON stock_batches(purchase_order_id);
+CREATE INDEX IF NOT EXISTS idx_stock_batches_po_item ON stock_batches(purchase_order_item_id);
+
+ALTER TABLE purchase_order_items
+    ADD CONSTRAINT valid_delivered_quantity CHECK (delivered_quantity >= 0);
+
+-- Received-vs-ordered per PO line (quantity and price variance)
+CREATE OR REPLACE VIEW purchase_order_line_variance AS
+SELECT
+    poi.id AS purchase_order_item_id,
+    po.id AS purchase_order_id,
+    po.po_number,
+    po.status,
+    po.order_date,
+    po.expected_delivery,
+    po.actual_delivery,
+    po.supplier_id,
+    s.company_name AS supplier_name,
+    poi.ingredient_id,
+    i.name AS ingredient_name,
+    poi.unit,
+    poi.quantity AS ordered_quantity,
+    COALESCE(poi.delivered_quantity, 0) AS received_quantity,
+    COALESCE(poi.delivered_quantity, 0) - poi.quantity AS quantity_variance,
+    poi.unit_price AS ordered_unit_price,
+    CASE
+        WHEN COALESCE(b.received_quantity, 0) > 0 THEN ROUND(b.received_cost / b.received_quantity, 2)
+        ELSE NULL
+    END AS received_unit_cost,
+    poi.quantity * poi.unit_price AS ordered_value,
+    COALESCE(b.received_cost, 0) AS received_value,
+    COALESCE(b.received_cost, 0) - COALESCE(b.received_quantity, 0) * poi.unit_price AS price_variance
+FROM purchase_order_items poi
+JOIN purchase_orders po ON po.id = poi.po_id
+LEFT JOIN suppliers s ON s.id = po.supplier_id
+LEFT JOIN ingredients i ON i.id = poi.ingredient_id
+LEFT JOIN (
+    SELECT
+        purchase_order_item_id,
+        SUM(initial_quantity) AS received_quantity,
+        SUM(initial_quantity * unit_cost) AS received_cost
+    FROM stock_batches
+    WHERE purchase_order_item_id IS NOT NULL
+    GROUP BY purchase_order_item_id
+) b ON b.purchase_order_item_id = poi.id
+WHERE po.status IN ('partial_received', 'completed');
+
+COMMENT ON VIEW purchase_order_line_variance IS
+    'Received vs ordered quantity and cost per purchase order line';
+COMMENT ON COLUMN stock_batches.purchase_order_item_id IS
+    'Purchase order line this batch was received against';
@@ -0,0 +1,25 @@
+-- =====================================================
+-- REORDER SUPPLIER SETTINGS
+-- Purpose: Preferred supplier per ingredient plus supplier minimum
+--          order and lead time, used to generate draft purchase orders
+--          from reorder suggestions
+-- Dependencies: ingredients, suppliers
+-- =====================================================
+
+ALTER TABLE ingredients
+    ADD COLUMN IF NOT EXISTS preferred_supplier_id UUID REFERENCES suppliers(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_ingredients_preferred_supplier ON ingredients(preferred_supplier_id);
+
+ALTER TABLE suppliers
+    ADD COLUMN IF NOT EXISTS minimum_order_amount DECIMAL(12, 2) DEFAULT 0
+        CHECK (minimum_order_amount >= 0),
+    ADD COLUMN IF NOT EXISTS lead_time_days INTEGER DEFAULT 2
+        CHECK (lead_time_days >= 0);
+
+COMMENT ON COLUMN ingredients.preferred_supplier_id IS
+    'Supplier used when generating purchase orders from reorder suggestions';
+COMMENT ON COLUMN suppliers.minimum_order_amount IS
+    'Minimum order value (IDR) the supplier accepts per purchase order';
+COMMENT ON COLUMN suppliers.lead_time_days IS
+    'Days between sending a purchase order and delivery';
@@ -0,0 +1,60 @@
+-- =====================================================
+-- PAYMENT PROOF HASHES
+-- Purpose: Fingerprint every uploaded payment proof so a screenshot
+--          already used on another order is flagged during verification
+-- Dependencies: orders, payment_transactions
+-- =====================================================
+
+CREATE TABLE IF NOT EXISTS payment_proof_hashes (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    order_id UUID NOT NULL REFERENCES orders(id) ON DELETE CASCADE,
+    payment_id UUID REFERENCES payment_transactions(id) ON DELETE SET NULL,
+    proof_url TEXT NOT NULL,
+
+    -- Fingerprint (see packages/utils/src/images/perceptual-hash.ts)
+    sha256 VARCHAR(64) NOT NULL,
+    phash VARCHAR(16), -- NULL when the image format could not be decoded
+    signature TEXT,
+
+    -- Earliest proof on a different order that this one matches
+    matched_order_id UUID REFERENCES orders(id) ON DELETE SET NULL,
+    matched_proof_url TEXT,
+    match_type VARCHAR(20) CHECK (match_type IN ('exact', 'perceptual')),
+    phash_distance INTEGER,
+    signature_distance INTEGER,
+
+    created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_payment_proof_hashes_order ON payment_proof_hashes(order_id);
+CREATE INDEX IF NOT EXISTS idx_payment_proof_hashes_payment ON payment_proof_hashes(payment_id);
+CREATE INDEX IF NOT EXISTS idx_payment_proof_hashes_sha256 ON payment_proof_hashes(sha256);
+CREATE INDEX IF NOT EXISTS idx_payment_proof_hashes_created ON payment_proof_hashes(created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_payment_proof_hashes_matched
+    ON payment_proof_hashes(matched_order_id) WHERE matched_order_id IS NOT NULL;
+
+ALTER TABLE payment_proof_hashes ENABLE ROW LEVEL SECURITY;
+
+-- Staff read matches in the verification queue (the tablet uses the anon key
+-- with device authentication)
+CREATE POLICY "Allow staff to read proof hashes"
+  ON payment_proof_hashes
+  FOR SELECT
+  TO anon, authenticated
+  USING (true);
+
+-- Hashes are only written by the upload API and edge functions
+CREATE POLICY "Allow service role full access to proof hashes"
+  ON payment_proof_hashes
+  FOR ALL
+  TO service_role
+  USING (true)
+  WITH CHECK (true);
+
+-- Kasir queue refreshes when a new proof is fingerprinted
+ALTER PUBLICATION supabase_realtime ADD TABLE payment_proof_hashes;
+
+COMMENT ON TABLE payment_proof_hashes IS
+    'Perceptual fingerprints of payment proofs, used to detect reused transfer screenshots';
+COMMENT ON COLUMN payment_proof_hashes.signature IS
+    '24x48 luma thumbnail, one hex digit per cell';
@@ -0,0 +1,69 @@
+-- =====================================================
+-- PAYMENT RECEIPT SCANS
+-- Purpose: Store receipt verifications, including OCR reads of uploaded
+--          transfer/QRIS proofs, so the kasir sees whether the amount matches
+-- Dependencies: payment_transactions
+-- =====================================================
+
+CREATE TABLE IF NOT EXISTS payment_verifications (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    payment_id UUID NOT NULL REFERENCES payment_transactions(id) ON DELETE CASCADE,
+    verified_by UUID, -- employee or device; NULL for automatic OCR scans
+    verification_method VARCHAR(20) NOT NULL
+        CHECK (verification_method IN ('manual', 'ocr', 'api')),
+
+    -- Receipt details
+    receipt_transaction_id VARCHAR(100),
+    receipt_amount DECIMAL(12,2),
+    receipt_timestamp TIMESTAMPTZ,
+    receipt_bank_name VARCHAR(100),
+    receipt_sender_name VARCHAR(255),
+    receipt_recipient_name VARCHAR(255),
+    receipt_reference_number VARCHAR(100),
+
+    confidence_score INTEGER NOT NULL DEFAULT 0
+        CHECK (confidence_score BETWEEN 0 AND 100),
+    validation_issues JSONB DEFAULT '[]',
+
+    created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- OCR details (see packages/utils/src/payments/receipt-parser.ts)
+ALTER TABLE payment_verifications
+    ADD COLUMN IF NOT EXISTS receipt_source VARCHAR(20),
+    ADD COLUMN IF NOT EXISTS ocr_engine VARCHAR(50),
+    ADD COLUMN IF NOT EXISTS ocr_confidence INTEGER,
+    ADD COLUMN IF NOT EXISTS raw_text TEXT;
+
+CREATE INDEX IF NOT EXISTS idx_payment_verifications_payment
+    ON payment_verifications(payment_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_payment_verifications_created
+    ON payment_verifications(created_at DESC);
+
+ALTER TABLE payment_verifications ENABLE ROW LEVEL SECURITY;
+
+-- Staff read scans in the verification queue (the tablet uses the anon key
+-- with device authentication)
+CREATE POLICY "Allow staff to read payment verifications"
+  ON payment_verifications
+  FOR SELECT
+  TO anon, authenticated
+  USING (true);
+
+-- Verifications are only written by edge functions
+CREATE POLICY "Allow service role full access to payment verifications"
+  ON payment_verifications
+  FOR ALL
+  TO service_role
+  USING (true)
+  WITH CHECK (true);
+
+-- Kasir queue refreshes when a receipt has been scanned
+ALTER PUBLICATION supabase_realtime ADD TABLE payment_verifications;
+
+COMMENT ON TABLE payment_verifications IS
+    'Receipt checks against payments, entered by the kasir or read from the proof with OCR';
+COMMENT ON COLUMN payment_verifications.receipt_source IS
+    'Banking or e-wallet app the receipt came from (bca, mandiri, bri, bni, dana, ovo, gopay, shopeepay, unknown)';
+COMMENT ON COLUMN payment_verifications.raw_text IS
+    'Full OCR text, kept for reviewing misreads';
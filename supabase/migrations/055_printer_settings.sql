@@ -0,0 +1,26 @@
+-- =====================================================
+-- PRINTER SETTINGS
+-- Purpose: Persist network thermal printer configuration for receipts and
+--          kitchen/bar tickets
+-- Dependencies: system_settings, menu_categories
+-- =====================================================
+
+-- Printers start disabled until their IP address is confirmed from the
+-- settings page. Items in bar_categories (menu category slugs) print at the
+-- bar, everything else in the kitchen.
+INSERT INTO system_settings (category, key, value, description, is_public)
+VALUES (
+    'printers',
+    'config',
+    '{
+      "printers": [
+        {"id": "kitchen-1", "name": "Printer Kitchen", "type": "kitchen", "ipAddress": "192.168.1.100", "port": "9100", "enabled": false, "paperWidth": 80},
+        {"id": "bar-1", "name": "Printer Bar", "type": "bar", "ipAddress": "192.168.1.101", "port": "9100", "enabled": false, "paperWidth": 80},
+        {"id": "receipt-1", "name": "Printer Receipt - Kasir", "type": "receipt", "ipAddress": "192.168.1.102", "port": "9100", "enabled": false, "paperWidth": 58}
+      ],
+      "bar_categories": ["coffee", "non-coffee"]
+    }'::jsonb,
+    'Network ESC/POS printers (raw TCP) and kitchen/bar routing',
+    false
+)
+ON CONFLICT (category, key) DO NOTHING;
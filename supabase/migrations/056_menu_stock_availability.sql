@@ -0,0 +1,279 @@
+-- =====================================================
+-- MENU STOCK AVAILABILITY ("86")
+-- Purpose: Calculate how many portions of each menu item the remaining
+--          stock batches can make, and mark items and customization options
+--          sold out when a required ingredient cannot cover one portion
+-- Dependencies: menu_items, menu_item_ingredients, menu_customization_options,
+--               ingredients, stock_batches
+-- =====================================================
+
+-- Maintained by the triggers below, separate from the owner-controlled
+-- is_available flags. available_portions is NULL for items without a
+-- stock-tracked recipe.
+ALTER TABLE menu_items
+    ADD COLUMN IF NOT EXISTS available_portions INTEGER,
+    ADD COLUMN IF NOT EXISTS ingredients_available BOOLEAN NOT NULL DEFAULT true;
+
+ALTER TABLE menu_customization_options
+    ADD COLUMN IF NOT EXISTS ingredients_available BOOLEAN NOT NULL DEFAULT true;
+
+CREATE INDEX IF NOT EXISTS idx_customization_options_ingredient
+    ON menu_customization_options(ingredient_id);
+
+-- =====================================================
+-- CALCULATOR
+-- =====================================================
+
+-- Usable stock of an ingredient: active, unexpired batches. Ingredients that
+-- have never had a batch (stock entered before batch tracking) fall back to
+-- current_stock.
+CREATE OR REPLACE FUNCTION ingredient_available_stock(p_ingredient_id UUID)
+RETURNS DECIMAL(10, 3) AS $$
+    SELECT CASE
+        WHEN EXISTS (SELECT 1 FROM stock_batches WHERE ingredient_id = p_ingredient_id) THEN
+            COALESCE((
+                SELECT SUM(remaining_quantity)
+                FROM stock_batches
+                WHERE ingredient_id = p_ingredient_id
+                AND is_active = true
+                AND COALESCE(is_expired, false) = false
+                AND (expiry_date IS NULL OR expiry_date >= CURRENT_DATE)
+            ), 0)
+        ELSE
+            COALESCE((SELECT current_stock FROM ingredients WHERE id = p_ingredient_id), 0)
+    END;
+$$ LANGUAGE sql STABLE;
+
+-- Portions of a menu item the stock can make. Ingredients sharing an
+-- alternative_group stand in for each other, so a group covers as many
+-- portions as its best-stocked member; the item is limited by its weakest
+-- group. Returns NULL when the item has no required active ingredients.
+CREATE OR REPLACE FUNCTION calculate_menu_item_portions(p_menu_item_id UUID)
+RETURNS INTEGER AS $$
+    SELECT MIN(group_portions)::INTEGER
+    FROM (
+        SELECT MAX(FLOOR(ingredient_available_stock(mii.ingredient_id) / mii.quantity_needed)) AS group_portions
+        FROM menu_item_ingredients mii
+        JOIN ingredients i ON i.id = mii.ingredient_id
+        WHERE mii.menu_item_id = p_menu_item_id
+        AND mii.is_required = true
+        AND i.is_active = true
+        GROUP BY COALESCE(mii.alternative_group, mii.ingredient_id::TEXT)
+    ) recipe_groups;
+$$ LANGUAGE sql STABLE;
+
+-- An add-on is available when its ingredient covers the add-on quantity on
+-- top of what one portion of the item itself already uses
+CREATE OR REPLACE FUNCTION calculate_option_ingredients_available(
+    p_menu_item_id UUID,
+    p_ingredient_id UUID,
+    p_ingredient_quantity DECIMAL
+)
+RETURNS BOOLEAN AS $$
+    SELECT CASE
+        WHEN p_ingredient_id IS NULL OR COALESCE(p_ingredient_quantity, 0) <= 0 THEN true
+        WHEN NOT EXISTS (
+            SELECT 1 FROM ingredients WHERE id = p_ingredient_id AND is_active = true
+        ) THEN true
+        ELSE ingredient_available_stock(p_ingredient_id) >= p_ingredient_quantity + COALESCE((
+            SELECT SUM(quantity_needed)
+            FROM menu_item_ingredients
+            WHERE menu_item_id = p_menu_item_id
+            AND ingredient_id = p_ingredient_id
+            AND is_required = true
+        ), 0)
+    END;
+$$ LANGUAGE sql STABLE;
+
+-- =====================================================
+-- REFRESH
+-- =====================================================
+
+-- Recalculate one menu item and its options. Rows are only written when a
+-- value changes, so the menu-updates realtime channel only carries real
+-- availability changes.
+CREATE OR REPLACE FUNCTION refresh_menu_item_availability(p_menu_item_id UUID)
+RETURNS void AS $$
+DECLARE
+    v_requires_stock BOOLEAN;
+    v_portions INTEGER;
+    v_available BOOLEAN;
+BEGIN
+    SELECT COALESCE(requires_stock, true) INTO v_requires_stock
+    FROM menu_items
+    WHERE id = p_menu_item_id;
+
+    IF NOT FOUND THEN
+        RETURN;
+    END IF;
+
+    v_portions := CASE WHEN v_requires_stock THEN calculate_menu_item_portions(p_menu_item_id) END;
+    v_available := v_portions IS NULL OR v_portions >= 1;
+
+    UPDATE menu_items
+    SET
+        available_portions = v_portions,
+        ingredients_available = v_available
+    WHERE id = p_menu_item_id
+    AND (
+        available_portions IS DISTINCT FROM v_portions
+        OR ingredients_available IS DISTINCT FROM v_available
+    );
+
+    UPDATE menu_customization_options o
+    SET ingredients_available = calculate_option_ingredients_available(
+        g.menu_item_id, o.ingredient_id, o.ingredient_quantity
+    )
+    FROM menu_customization_groups g
+    WHERE o.group_id = g.id
+    AND g.menu_item_id = p_menu_item_id
+    AND o.ingredients_available IS DISTINCT FROM calculate_option_ingredients_available(
+        g.menu_item_id, o.ingredient_id, o.ingredient_quantity
+    );
+END;
+$$ LANGUAGE plpgsql;
+
+-- Recalculate every menu item that uses an ingredient, in its recipe or
+-- through an add-on
+CREATE OR REPLACE FUNCTION refresh_ingredient_menu_availability(p_ingredient_id UUID)
+RETURNS void AS $$
+DECLARE
+    v_menu_item_id UUID;
+BEGIN
+    IF p_ingredient_id IS NULL THEN
+        RETURN;
+    END IF;
+
+    FOR v_menu_item_id IN
+        SELECT menu_item_id FROM menu_item_ingredients WHERE ingredient_id = p_ingredient_id
+        UNION
+        SELECT g.menu_item_id
+        FROM menu_customization_options o
+        JOIN menu_customization_groups g ON g.id = o.group_id
+        WHERE o.ingredient_id = p_ingredient_id
+    LOOP
+        PERFORM refresh_menu_item_availability(v_menu_item_id);
+    END LOOP;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Full recalculation, e.g. after mark_expired_batches() or a bulk import
+CREATE OR REPLACE FUNCTION refresh_all_menu_availability()
+RETURNS void AS $$
+DECLARE
+    v_menu_item_id UUID;
+BEGIN
+    FOR v_menu_item_id IN SELECT id FROM menu_items LOOP
+        PERFORM refresh_menu_item_availability(v_menu_item_id);
+    END LOOP;
+END;
+$$ LANGUAGE plpgsql;
+
+-- =====================================================
+-- TRIGGERS
+-- =====================================================
+
+CREATE OR REPLACE FUNCTION stock_batches_refresh_menu_availability()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF TG_OP IN ('UPDATE', 'DELETE') THEN
+        PERFORM refresh_ingredient_menu_availability(OLD.ingredient_id);
+    END IF;
+    IF TG_OP IN ('INSERT', 'UPDATE') AND (TG_OP = 'INSERT' OR NEW.ingredient_id IS DISTINCT FROM OLD.ingredient_id) THEN
+        PERFORM refresh_ingredient_menu_availability(NEW.ingredient_id);
+    END IF;
+    RETURN NULL;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS trigger_stock_batches_menu_availability ON stock_batches;
+CREATE TRIGGER trigger_stock_batches_menu_availability
+    AFTER INSERT OR DELETE OR UPDATE OF remaining_quantity, is_active, is_expired, expiry_date, ingredient_id
+    ON stock_batches
+    FOR EACH ROW EXECUTE FUNCTION stock_batches_refresh_menu_availability();
+
+-- current_stock only matters for ingredients without batches, is_active for all
+CREATE OR REPLACE FUNCTION ingredients_refresh_menu_availability()
+RETURNS TRIGGER AS $$
+BEGIN
+    PERFORM refresh_ingredient_menu_availability(NEW.id);
+    RETURN NULL;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS trigger_ingredients_menu_availability ON ingredients;
+CREATE TRIGGER trigger_ingredients_menu_availability
+    AFTER UPDATE OF current_stock, is_active ON ingredients
+    FOR EACH ROW
+    WHEN (OLD.current_stock IS DISTINCT FROM NEW.current_stock OR OLD.is_active IS DISTINCT FROM NEW.is_active)
+    EXECUTE FUNCTION ingredients_refresh_menu_availability();
+
+CREATE OR REPLACE FUNCTION menu_item_ingredients_refresh_availability()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF TG_OP IN ('UPDATE', 'DELETE') THEN
+        PERFORM refresh_menu_item_availability(OLD.menu_item_id);
+    END IF;
+    IF TG_OP = 'INSERT' OR (TG_OP = 'UPDATE' AND NEW.menu_item_id IS DISTINCT FROM OLD.menu_item_id) THEN
+        PERFORM refresh_menu_item_availability(NEW.menu_item_id);
+    END IF;
+    RETURN NULL;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS trigger_menu_item_ingredients_availability ON menu_item_ingredients;
+CREATE TRIGGER trigger_menu_item_ingredients_availability
+    AFTER INSERT OR UPDATE OR DELETE ON menu_item_ingredients
+    FOR EACH ROW EXECUTE FUNCTION menu_item_ingredients_refresh_availability();
+
+CREATE OR REPLACE FUNCTION menu_items_refresh_availability()
+RETURNS TRIGGER AS $$
+BEGIN
+    PERFORM refresh_menu_item_availability(NEW.id);
+    RETURN NULL;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS trigger_menu_items_stock_availability ON menu_items;
+CREATE TRIGGER trigger_menu_items_stock_availability
+    AFTER INSERT OR UPDATE OF requires_stock ON menu_items
+    FOR EACH ROW EXECUTE FUNCTION menu_items_refresh_availability();
+
+CREATE OR REPLACE FUNCTION menu_customization_options_set_ingredients_available()
+RETURNS TRIGGER AS $$
+BEGIN
+    NEW.ingredients_available := calculate_option_ingredients_available(
+        (SELECT menu_item_id FROM menu_customization_groups WHERE id = NEW.group_id),
+        NEW.ingredient_id,
+        NEW.ingredient_quantity
+    );
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS trigger_customization_options_availability ON menu_customization_options;
+CREATE TRIGGER trigger_customization_options_availability
+    BEFORE INSERT OR UPDATE OF ingredient_id, ingredient_quantity, group_id ON menu_customization_options
+    FOR EACH ROW EXECUTE FUNCTION menu_customization_options_set_ingredients_available();
+
+-- =====================================================
+-- BACKFILL, REALTIME, PERMISSIONS
+-- =====================================================
+
+SELECT refresh_all_menu_availability();
+
+-- Customers receive sold-out changes on the menu-updates channel
+ALTER PUBLICATION supabase_realtime ADD TABLE menu_items;
+ALTER PUBLICATION supabase_realtime ADD TABLE menu_customization_options;
+
+GRANT EXECUTE ON FUNCTION calculate_menu_item_portions(UUID) TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION refresh_all_menu_availability() TO authenticated;
+
+COMMENT ON COLUMN menu_items.available_portions IS
+    'Portions the current stock batches can make (NULL when the item has no stock-tracked recipe)';
+COMMENT ON COLUMN menu_items.ingredients_available IS
+    'False when a required ingredient cannot cover one portion ("86")';
+COMMENT ON COLUMN menu_customization_options.ingredients_available IS
+    'False when the add-on ingredient cannot cover one serving';
+COMMENT ON FUNCTION calculate_menu_item_portions(UUID) IS
+    'Portions of a menu item the active, unexpired stock batches can make';
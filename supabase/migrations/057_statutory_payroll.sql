@@ -0,0 +1,49 @@
+-- =====================================================
+-- STATUTORY PAYROLL
+-- Purpose: Employee tax and BPJS registration, payroll settings, and the
+--          line-item breakdown (BPJS, PPh 21 TER, overtime) stored with
+--          each payroll record
+-- Dependencies: employees, payroll, system_settings
+-- =====================================================
+
+ALTER TABLE employees
+    ADD COLUMN IF NOT EXISTS ptkp_status VARCHAR(4) NOT NULL DEFAULT 'TK/0'
+        CHECK (ptkp_status IN ('TK/0', 'TK/1', 'TK/2', 'TK/3', 'K/0', 'K/1', 'K/2', 'K/3')),
+    ADD COLUMN IF NOT EXISTS npwp VARCHAR(20),
+    ADD COLUMN IF NOT EXISTS bpjs_kesehatan_enrolled BOOLEAN NOT NULL DEFAULT true,
+    ADD COLUMN IF NOT EXISTS bpjs_ketenagakerjaan_enrolled BOOLEAN NOT NULL DEFAULT true;
+
+-- tax_deduction holds PPh 21 and insurance_deduction the employee BPJS share
+ALTER TABLE payroll
+    ADD COLUMN IF NOT EXISTS taxable_income DECIMAL(12, 2),
+    ADD COLUMN IF NOT EXISTS employer_contributions DECIMAL(12, 2),
+    ADD COLUMN IF NOT EXISTS ter_category CHAR(1) CHECK (ter_category IN ('A', 'B', 'C')),
+    ADD COLUMN IF NOT EXISTS ter_rate DECIMAL(5, 2),
+    ADD COLUMN IF NOT EXISTS breakdown JSONB;
+
+-- Company-wide rules. jkk_risk_class: very_low 0.24%, low 0.54%,
+-- medium 0.89%, high 1.27%, very_high 1.74%. The JP wage cap is adjusted
+-- every March by BPJS Ketenagakerjaan.
+INSERT INTO system_settings (category, key, value, description, is_public)
+VALUES (
+    'payroll',
+    'config',
+    '{
+      "work_week": 6,
+      "jkk_risk_class": "very_low",
+      "bpjs_kesehatan_wage_cap": 12000000,
+      "jp_wage_cap": 10547400
+    }'::jsonb,
+    'Payroll rules: work days per week (overtime tiers), JKK risk class and BPJS wage caps',
+    false
+)
+ON CONFLICT (category, key) DO NOTHING;
+
+COMMENT ON COLUMN employees.ptkp_status IS
+    'PTKP status for PPh 21 (TK = single, K = married, /n = dependents)';
+COMMENT ON COLUMN employees.npwp IS
+    'Tax ID; withholding is 20% higher without one';
+COMMENT ON COLUMN payroll.taxable_income IS
+    'Monthly gross for PPh 21, including employer-paid BPJS Kesehatan, JKK and JKM';
+COMMENT ON COLUMN payroll.breakdown IS
+    'Line items (earnings, deductions, employer contributions, PPh 21 detail) rendered on the payslip';
@@ -0,0 +1,77 @@
+-- =====================================================
+-- PROMO REDEMPTION
+-- Purpose: Record promo usage for an order in one transaction, re-checking
+--          the total and per-customer limits under a row lock so concurrent
+--          checkouts cannot overrun them
+-- Dependencies: promos, promo_usage, orders
+-- =====================================================
+
+-- Per-customer limits are counted by phone
+CREATE INDEX IF NOT EXISTS idx_promo_usage_promo_customer
+    ON promo_usage(promo_id, customer_phone);
+
+-- p_redemptions: [{"promo_id": "...", "discount_amount": 12345}, ...]
+-- Raises PROMO_LIMIT_REACHED / PROMO_CUSTOMER_LIMIT_REACHED / PROMO_INACTIVE
+-- (with the promo code as detail) and records nothing when any promo fails.
+CREATE OR REPLACE FUNCTION redeem_order_promos(
+    p_order_id UUID,
+    p_customer_phone VARCHAR,
+    p_redemptions JSONB
+) RETURNS INTEGER AS $$
+DECLARE
+    v_redemption RECORD;
+    v_promo RECORD;
+    v_customer_uses INTEGER;
+    v_count INTEGER := 0;
+BEGIN
+    -- Lock in id order so two orders sharing promos cannot deadlock
+    FOR v_redemption IN
+        SELECT (r->>'promo_id')::UUID AS promo_id,
+               COALESCE((r->>'discount_amount')::DECIMAL(10, 2), 0) AS discount_amount
+        FROM jsonb_array_elements(COALESCE(p_redemptions, '[]'::jsonb)) AS r
+        ORDER BY 1
+    LOOP
+        SELECT * INTO v_promo
+        FROM promos
+        WHERE id = v_redemption.promo_id
+        FOR UPDATE;
+
+        IF NOT FOUND OR v_promo.is_active IS NOT TRUE THEN
+            RAISE EXCEPTION 'PROMO_INACTIVE' USING DETAIL = COALESCE(v_promo.code, v_redemption.promo_id::TEXT);
+        END IF;
+
+        IF v_promo.max_uses_total IS NOT NULL
+            AND COALESCE(v_promo.current_uses, 0) >= v_promo.max_uses_total THEN
+            RAISE EXCEPTION 'PROMO_LIMIT_REACHED' USING DETAIL = v_promo.code;
+        END IF;
+
+        IF v_promo.max_uses_per_customer IS NOT NULL AND p_customer_phone IS NOT NULL THEN
+            SELECT COUNT(*) INTO v_customer_uses
+            FROM promo_usage
+            WHERE promo_id = v_promo.id
+                AND customer_phone = p_customer_phone;
+
+            IF v_customer_uses >= v_promo.max_uses_per_customer THEN
+                RAISE EXCEPTION 'PROMO_CUSTOMER_LIMIT_REACHED' USING DETAIL = v_promo.code;
+            END IF;
+        END IF;
+
+        INSERT INTO promo_usage (promo_id, order_id, customer_phone, discount_amount)
+        VALUES (v_promo.id, p_order_id, p_customer_phone, v_redemption.discount_amount);
+
+        UPDATE promos
+        SET current_uses = COALESCE(current_uses, 0) + 1
+        WHERE id = v_promo.id;
+
+        v_count := v_count + 1;
+    END LOOP;
+
+    RETURN v_count;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Only the order API (service role) redeems promos
+REVOKE EXECUTE ON FUNCTION redeem_order_promos(UUID, VARCHAR, JSONB) FROM PUBLIC;
+
+COMMENT ON FUNCTION redeem_order_promos(UUID, VARCHAR, JSONB) IS
+    'Atomically records promo_usage and bumps current_uses for an order, enforcing max_uses_total and max_uses_per_customer';
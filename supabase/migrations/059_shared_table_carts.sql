@@ -0,0 +1,104 @@
+-- =====================================================
+-- SHARED TABLE CARTS
+-- Purpose: One cart per table that every diner who scanned the table QR
+--          adds to, synced over realtime and submitted as a single order
+-- Dependencies: tables, menu_items, orders
+-- =====================================================
+
+CREATE TABLE IF NOT EXISTS table_carts (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    table_id UUID NOT NULL REFERENCES tables(id) ON DELETE CASCADE,
+    status VARCHAR(20) NOT NULL DEFAULT 'open'
+        CHECK (status IN ('open', 'submitted', 'expired')),
+
+    -- Pushed forward on every change; an abandoned cart expires like the
+    -- customer table session (30 minutes without activity)
+    last_activity_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    expires_at TIMESTAMPTZ NOT NULL DEFAULT NOW() + INTERVAL '30 minutes',
+
+    -- Diner who submitted the combined order
+    submitted_by VARCHAR(64),
+    submitted_by_name VARCHAR(100),
+    submitted_at TIMESTAMPTZ,
+    order_id UUID REFERENCES orders(id) ON DELETE SET NULL,
+
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- At most one open cart per table; concurrent joins fall back to the winner
+CREATE UNIQUE INDEX IF NOT EXISTS idx_table_carts_open_table
+    ON table_carts(table_id) WHERE status = 'open';
+CREATE INDEX IF NOT EXISTS idx_table_carts_expires
+    ON table_carts(expires_at) WHERE status = 'open';
+
+CREATE TABLE IF NOT EXISTS table_cart_items (
+    -- Generated by the client so optimistic lines match their realtime echo
+    id UUID PRIMARY KEY,
+    cart_id UUID NOT NULL REFERENCES table_carts(id) ON DELETE CASCADE,
+
+    -- Random per-browser id and the name the diner entered; only the owning
+    -- diner may change a line
+    diner_id VARCHAR(64) NOT NULL,
+    diner_name VARCHAR(100) NOT NULL,
+
+    menu_item_id UUID NOT NULL REFERENCES menu_items(id) ON DELETE CASCADE,
+    item_name VARCHAR(255) NOT NULL,
+    unit_price DECIMAL(10, 2) NOT NULL CHECK (unit_price >= 0),
+    quantity INTEGER NOT NULL CHECK (quantity > 0),
+    customizations JSONB NOT NULL DEFAULT '{}',
+    notes TEXT,
+    image_url TEXT,
+    preparation_time INTEGER,
+
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_table_cart_items_cart ON table_cart_items(cart_id);
+
+-- =====================================================
+-- RLS, REALTIME
+-- =====================================================
+
+ALTER TABLE table_carts ENABLE ROW LEVEL SECURITY;
+ALTER TABLE table_cart_items ENABLE ROW LEVEL SECURITY;
+
+-- Diners subscribe with the anon key; all writes go through the table cart
+-- API, which checks line ownership
+CREATE POLICY "Allow customers to read table carts"
+  ON table_carts
+  FOR SELECT
+  TO anon, authenticated
+  USING (true);
+
+CREATE POLICY "Allow service role full access to table carts"
+  ON table_carts
+  FOR ALL
+  TO service_role
+  USING (true)
+  WITH CHECK (true);
+
+CREATE POLICY "Allow customers to read table cart items"
+  ON table_cart_items
+  FOR SELECT
+  TO anon, authenticated
+  USING (true);
+
+CREATE POLICY "Allow service role full access to table cart items"
+  ON table_cart_items
+  FOR ALL
+  TO service_role
+  USING (true)
+  WITH CHECK (true);
+
+-- Every diner at the table sees lines and the submitted/expired status live
+ALTER PUBLICATION supabase_realtime ADD TABLE table_carts;
+ALTER PUBLICATION supabase_realtime ADD TABLE table_cart_items;
+
+COMMENT ON TABLE table_carts IS
+    'Cart shared by all diners at a table, submitted as one order';
+COMMENT ON COLUMN table_carts.expires_at IS
+    'last_activity_at plus the 30 minute table session timeout';
+COMMENT ON TABLE table_cart_items IS
+    'Lines of a shared table cart, each owned by the diner who added it';
@@ -0,0 +1,153 @@
+-- =====================================================
+-- SPLIT BILLS
+-- Purpose: Divide an order into shares (equally, by items or by custom
+--          amounts) that are paid and verified separately; the order only
+--          counts as paid once every share is verified
+-- Dependencies: orders, order_items, payment_transactions, users
+-- =====================================================
+
+CREATE TABLE IF NOT EXISTS order_bill_shares (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    order_id UUID NOT NULL REFERENCES orders(id) ON DELETE CASCADE,
+    share_number INTEGER NOT NULL CHECK (share_number > 0),
+    payer_name VARCHAR(100) NOT NULL,
+    split_method VARCHAR(20) NOT NULL
+        CHECK (split_method IN ('equal', 'items', 'custom')),
+
+    -- Order items paid by this share: [{"order_item_id": "...", "quantity": 1}]
+    item_allocations JSONB NOT NULL DEFAULT '[]',
+
+    -- Whole-rupiah allocation of the order amounts; summed over the shares
+    -- these equal the order's subtotal, discount, tax, service and total
+    subtotal DECIMAL(10, 2) NOT NULL,
+    discount_amount DECIMAL(10, 2) NOT NULL DEFAULT 0,
+    tax_amount DECIMAL(10, 2) NOT NULL DEFAULT 0,
+    service_charge DECIMAL(10, 2) NOT NULL DEFAULT 0,
+    amount DECIMAL(10, 2) NOT NULL CHECK (amount > 0),
+
+    -- Each share is paid on its own
+    payment_method payment_method,
+    status VARCHAR(20) NOT NULL DEFAULT 'pending'
+        CHECK (status IN ('pending', 'processing', 'verified', 'failed')),
+    proof_url TEXT,
+    verified_by UUID REFERENCES users(id),
+    verified_at TIMESTAMPTZ,
+    verification_notes TEXT,
+
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    updated_at TIMESTAMPTZ DEFAULT NOW(),
+
+    UNIQUE (order_id, share_number)
+);
+
+CREATE INDEX IF NOT EXISTS idx_order_bill_shares_order ON order_bill_shares(order_id);
+CREATE INDEX IF NOT EXISTS idx_order_bill_shares_status ON order_bill_shares(status);
+
+ALTER TABLE orders
+    ADD COLUMN IF NOT EXISTS split_method VARCHAR(20)
+        CHECK (split_method IN ('equal', 'items', 'custom'));
+
+ALTER TABLE payment_transactions
+    ADD COLUMN IF NOT EXISTS bill_share_id UUID REFERENCES order_bill_shares(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_payment_transactions_bill_share
+    ON payment_transactions(bill_share_id) WHERE bill_share_id IS NOT NULL;
+
+-- =====================================================
+-- ORDER PAYMENT STATUS
+-- =====================================================
+
+-- Follow the shares: verified once all are, processing once any is paid
+CREATE OR REPLACE FUNCTION sync_order_split_payment_status()
+RETURNS TRIGGER AS $$
+DECLARE
+    v_total INTEGER;
+    v_verified INTEGER;
+    v_started INTEGER;
+BEGIN
+    SELECT COUNT(*),
+           COUNT(*) FILTER (WHERE status = 'verified'),
+           COUNT(*) FILTER (WHERE status IN ('processing', 'verified'))
+    INTO v_total, v_verified, v_started
+    FROM order_bill_shares
+    WHERE order_id = NEW.order_id;
+
+    IF v_total > 0 AND v_verified = v_total THEN
+        UPDATE orders
+        SET payment_status = 'verified',
+            payment_verified_at = NOW(),
+            updated_at = NOW()
+        WHERE id = NEW.order_id
+          AND payment_status IS DISTINCT FROM 'verified';
+    ELSIF v_started > 0 THEN
+        UPDATE orders
+        SET payment_status = 'processing',
+            updated_at = NOW()
+        WHERE id = NEW.order_id
+          AND payment_status IN ('pending', 'failed');
+    END IF;
+
+    RETURN NULL;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS trigger_bill_shares_order_payment ON order_bill_shares;
+CREATE TRIGGER trigger_bill_shares_order_payment
+    AFTER INSERT OR UPDATE OF status ON order_bill_shares
+    FOR EACH ROW EXECUTE FUNCTION sync_order_split_payment_status();
+
+-- No client (dashboard, kasir tablet, edge functions) may mark a split order
+-- paid while one of its shares is still unverified
+CREATE OR REPLACE FUNCTION guard_split_order_payment()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF NEW.payment_status = 'verified'
+       AND OLD.payment_status IS DISTINCT FROM 'verified'
+       AND EXISTS (
+           SELECT 1 FROM order_bill_shares
+           WHERE order_id = NEW.id AND status <> 'verified'
+       ) THEN
+        RAISE EXCEPTION 'BILL_SHARES_UNPAID' USING DETAIL = NEW.id::TEXT;
+    END IF;
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS trigger_orders_guard_split_payment ON orders;
+CREATE TRIGGER trigger_orders_guard_split_payment
+    BEFORE UPDATE OF payment_status ON orders
+    FOR EACH ROW EXECUTE FUNCTION guard_split_order_payment();
+
+-- =====================================================
+-- RLS, REALTIME
+-- =====================================================
+
+ALTER TABLE order_bill_shares ENABLE ROW LEVEL SECURITY;
+
+-- Payers follow their share with the anon key; writes go through the
+-- customer split API and the dashboard verification endpoint
+CREATE POLICY "Allow customers to read bill shares"
+  ON order_bill_shares
+  FOR SELECT
+  TO anon, authenticated
+  USING (true);
+
+CREATE POLICY "Allow service role full access to bill shares"
+  ON order_bill_shares
+  FOR ALL
+  TO service_role
+  USING (true)
+  WITH CHECK (true);
+
+-- Every payer at the table sees the other shares get paid and verified
+ALTER PUBLICATION supabase_realtime ADD TABLE order_bill_shares;
+
+COMMENT ON TABLE order_bill_shares IS
+    'Shares of a split bill, each with its own payment method, proof and verification';
+COMMENT ON COLUMN order_bill_shares.amount IS
+    'Amount this payer pays: subtotal - discount + tax + service charge, in whole rupiah';
+COMMENT ON COLUMN orders.split_method IS
+    'How the bill is split (equal, items, custom); NULL when paid by one payer';
+COMMENT ON COLUMN payment_transactions.bill_share_id IS
+    'Share of a split bill this payment is for';
@@ -0,0 +1,440 @@
+-- =====================================================
+-- LOYALTY POINTS
+-- Purpose: Points ledger keyed by customer phone. Points are earned when an
+--          order is completed, redeemed at checkout as a discount, expire
+--          after the configured period and can be adjusted by the owner.
+-- Dependencies: orders, users, system_settings, promos, promo_usage
+-- =====================================================
+
+DO $$
+BEGIN
+    IF NOT EXISTS (SELECT 1 FROM pg_type WHERE typname = 'loyalty_transaction_type') THEN
+        CREATE TYPE loyalty_transaction_type AS ENUM ('earned', 'used', 'expired');
+    END IF;
+END $$;
+
+CREATE TABLE IF NOT EXISTS loyalty_points (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    -- International format (+628...), see normalize_loyalty_phone
+    customer_phone VARCHAR(20) NOT NULL,
+    transaction_type loyalty_transaction_type NOT NULL,
+    source VARCHAR(20) NOT NULL
+        CHECK (source IN ('order', 'redemption', 'refund', 'expiry', 'adjustment')),
+
+    points_earned INTEGER NOT NULL DEFAULT 0 CHECK (points_earned >= 0),
+    points_used INTEGER NOT NULL DEFAULT 0 CHECK (points_used >= 0),
+    -- Customer balance after this entry
+    points_balance INTEGER NOT NULL CHECK (points_balance >= 0),
+
+    -- Earned entries are lots, spent oldest-expiry first; whatever is left
+    -- of a lot at expires_at expires
+    points_remaining INTEGER NOT NULL DEFAULT 0 CHECK (points_remaining >= 0),
+    expires_at TIMESTAMPTZ,
+
+    order_id UUID REFERENCES orders(id) ON DELETE SET NULL,
+    discount_amount DECIMAL(10, 2),
+    description TEXT,
+    adjusted_by UUID REFERENCES users(id),
+    created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_loyalty_points_phone
+    ON loyalty_points(customer_phone, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_loyalty_points_open_lots
+    ON loyalty_points(customer_phone, expires_at) WHERE points_remaining > 0;
+
+-- An order earns, redeems and is refunded at most once
+CREATE UNIQUE INDEX IF NOT EXISTS idx_loyalty_points_order_source
+    ON loyalty_points(order_id, source)
+    WHERE order_id IS NOT NULL AND source IN ('order', 'redemption', 'refund');
+
+ALTER TABLE orders
+    ADD COLUMN IF NOT EXISTS loyalty_points_used INTEGER NOT NULL DEFAULT 0,
+    ADD COLUMN IF NOT EXISTS loyalty_discount DECIMAL(10, 2) NOT NULL DEFAULT 0;
+
+-- Owner-configured rules, see DEFAULT_LOYALTY_RULES in @cafe/utils
+INSERT INTO system_settings (category, key, value, description, is_public)
+VALUES (
+    'loyalty',
+    'rules',
+    '{
+      "enabled": true,
+      "spend_per_point": 10000,
+      "point_value": 100,
+      "min_redeem_points": 50,
+      "max_redeem_percentage": 50,
+      "expiry_days": 365
+    }'::jsonb,
+    'Loyalty points: net spend per point earned, rupiah per point redeemed, redemption minimum and cap, expiry in days (0 = never)',
+    true
+)
+ON CONFLICT (category, key) DO NOTHING;
+
+-- =====================================================
+-- HELPERS
+-- =====================================================
+
+-- Mirrors formatIndonesianPhone in @cafe/utils; NULL when not a valid number
+CREATE OR REPLACE FUNCTION normalize_loyalty_phone(p_phone TEXT)
+RETURNS TEXT AS $$
+DECLARE
+    v_phone TEXT := regexp_replace(COALESCE(p_phone, ''), '[\s\-\(\)]', '', 'g');
+BEGIN
+    IF v_phone ~ '^\+62[89][0-9]{7,11}$' THEN
+        RETURN v_phone;
+    ELSIF v_phone ~ '^62[89][0-9]{7,11}$' THEN
+        RETURN '+' || v_phone;
+    ELSIF v_phone ~ '^08[0-9]{7,11}$' THEN
+        RETURN '+62' || substr(v_phone, 2);
+    ELSIF v_phone ~ '^8[0-9]{7,11}$' THEN
+        RETURN '+62' || v_phone;
+    END IF;
+
+    RETURN NULL;
+END;
+$$ LANGUAGE plpgsql IMMUTABLE;
+
+CREATE OR REPLACE FUNCTION loyalty_rules()
+RETURNS JSONB AS $$
+    SELECT '{
+      "enabled": true,
+      "spend_per_point": 10000,
+      "point_value": 100,
+      "min_redeem_points": 50,
+      "max_redeem_percentage": 50,
+      "expiry_days": 365
+    }'::jsonb || COALESCE(
+        (SELECT value FROM system_settings WHERE category = 'loyalty' AND key = 'rules'),
+        '{}'::jsonb
+    );
+$$ LANGUAGE sql STABLE;
+
+-- Expiry for a lot earned now, NULL when points never expire
+CREATE OR REPLACE FUNCTION loyalty_lot_expiry()
+RETURNS TIMESTAMPTZ AS $$
+DECLARE
+    v_days INTEGER := COALESCE((loyalty_rules()->>'expiry_days')::INTEGER, 0);
+BEGIN
+    IF v_days > 0 THEN
+        RETURN NOW() + make_interval(days => v_days);
+    END IF;
+
+    RETURN NULL;
+END;
+$$ LANGUAGE plpgsql STABLE;
+
+-- Serialize ledger writes for one customer, write off expired lots and
+-- return the balance that is left
+CREATE OR REPLACE FUNCTION lock_loyalty_customer(p_phone TEXT)
+RETURNS INTEGER AS $$
+DECLARE
+    v_lot RECORD;
+    v_balance INTEGER;
+BEGIN
+    PERFORM pg_advisory_xact_lock(hashtext('loyalty:' || p_phone));
+
+    SELECT COALESCE(SUM(points_remaining), 0)::INTEGER INTO v_balance
+    FROM loyalty_points
+    WHERE customer_phone = p_phone AND points_remaining > 0;
+
+    FOR v_lot IN
+        SELECT id, points_remaining
+        FROM loyalty_points
+        WHERE customer_phone = p_phone
+            AND points_remaining > 0
+            AND expires_at <= NOW()
+        ORDER BY expires_at, created_at
+    LOOP
+        UPDATE loyalty_points SET points_remaining = 0 WHERE id = v_lot.id;
+        v_balance := v_balance - v_lot.points_remaining;
+
+        INSERT INTO loyalty_points (customer_phone, transaction_type, source, points_used, points_balance, description)
+        VALUES (p_phone, 'expired', 'expiry', v_lot.points_remaining, v_balance, 'Points expired');
+    END LOOP;
+
+    RETURN v_balance;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Take points from the open lots, soonest expiry first. The caller has
+-- locked the customer and checked the balance.
+CREATE OR REPLACE FUNCTION consume_loyalty_lots(p_phone TEXT, p_points INTEGER)
+RETURNS VOID AS $$
+DECLARE
+    v_lot RECORD;
+    v_left INTEGER := p_points;
+    v_take INTEGER;
+BEGIN
+    FOR v_lot IN
+        SELECT id, points_remaining
+        FROM loyalty_points
+        WHERE customer_phone = p_phone AND points_remaining > 0
+        ORDER BY expires_at NULLS LAST, created_at
+    LOOP
+        EXIT WHEN v_left <= 0;
+
+        v_take := LEAST(v_left, v_lot.points_remaining);
+        UPDATE loyalty_points
+        SET points_remaining = points_remaining - v_take
+        WHERE id = v_lot.id;
+
+        v_left := v_left - v_take;
+    END LOOP;
+END;
+$$ LANGUAGE plpgsql;
+
+-- =====================================================
+-- REDEEM, ADJUST, EXPIRE
+-- =====================================================
+
+-- Raises LOYALTY_INVALID_PHONE, or LOYALTY_INSUFFICIENT_POINTS with the
+-- current balance as detail. Returns the balance after redeeming.
+CREATE OR REPLACE FUNCTION redeem_loyalty_points(
+    p_order_id UUID,
+    p_customer_phone VARCHAR,
+    p_points INTEGER,
+    p_discount_amount DECIMAL
+) RETURNS INTEGER AS $$
+DECLARE
+    v_phone TEXT := normalize_loyalty_phone(p_customer_phone);
+    v_balance INTEGER;
+    v_order_number VARCHAR;
+BEGIN
+    IF v_phone IS NULL THEN
+        RAISE EXCEPTION 'LOYALTY_INVALID_PHONE' USING DETAIL = COALESCE(p_customer_phone, '');
+    END IF;
+
+    v_balance := lock_loyalty_customer(v_phone);
+
+    IF p_points IS NULL OR p_points <= 0 THEN
+        RETURN v_balance;
+    END IF;
+
+    IF v_balance < p_points THEN
+        RAISE EXCEPTION 'LOYALTY_INSUFFICIENT_POINTS' USING DETAIL = v_balance::TEXT;
+    END IF;
+
+    PERFORM consume_loyalty_lots(v_phone, p_points);
+    v_balance := v_balance - p_points;
+
+    SELECT order_number INTO v_order_number FROM orders WHERE id = p_order_id;
+
+    INSERT INTO loyalty_points (
+        customer_phone, transaction_type, source, points_used, points_balance,
+        order_id, discount_amount, description
+    ) VALUES (
+        v_phone, 'used', 'redemption', p_points, v_balance,
+        p_order_id, p_discount_amount, 'Redeemed on order ' || COALESCE(v_order_number, p_order_id::TEXT)
+    );
+
+    RETURN v_balance;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Owner correction: positive points add a lot, negative points are taken
+-- from the open lots. Raises LOYALTY_INVALID_PHONE or
+-- LOYALTY_INSUFFICIENT_POINTS. Returns the balance after the adjustment.
+CREATE OR REPLACE FUNCTION adjust_loyalty_points(
+    p_customer_phone VARCHAR,
+    p_points INTEGER,
+    p_description TEXT,
+    p_adjusted_by UUID
+) RETURNS INTEGER AS $$
+DECLARE
+    v_phone TEXT := normalize_loyalty_phone(p_customer_phone);
+    v_balance INTEGER;
+BEGIN
+    IF v_phone IS NULL THEN
+        RAISE EXCEPTION 'LOYALTY_INVALID_PHONE' USING DETAIL = COALESCE(p_customer_phone, '');
+    END IF;
+
+    v_balance := lock_loyalty_customer(v_phone);
+
+    IF p_points > 0 THEN
+        v_balance := v_balance + p_points;
+
+        INSERT INTO loyalty_points (
+            customer_phone, transaction_type, source, points_earned, points_balance,
+            points_remaining, expires_at, description, adjusted_by
+        ) VALUES (
+            v_phone, 'earned', 'adjustment', p_points, v_balance,
+            p_points, loyalty_lot_expiry(), p_description, p_adjusted_by
+        );
+    ELSIF p_points < 0 THEN
+        IF v_balance < -p_points THEN
+            RAISE EXCEPTION 'LOYALTY_INSUFFICIENT_POINTS' USING DETAIL = v_balance::TEXT;
+        END IF;
+
+        PERFORM consume_loyalty_lots(v_phone, -p_points);
+        v_balance := v_balance + p_points;
+
+        INSERT INTO loyalty_points (
+            customer_phone, transaction_type, source, points_used, points_balance,
+            description, adjusted_by
+        ) VALUES (
+            v_phone, 'used', 'adjustment', -p_points, v_balance,
+            p_description, p_adjusted_by
+        );
+    END IF;
+
+    RETURN v_balance;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Write off expired lots for one customer, or for everyone when no phone is
+-- given (suitable for a nightly job). Returns the number of customers touched.
+CREATE OR REPLACE FUNCTION expire_loyalty_points(p_customer_phone VARCHAR DEFAULT NULL)
+RETURNS INTEGER AS $$
+DECLARE
+    v_phone TEXT;
+    v_count INTEGER := 0;
+BEGIN
+    FOR v_phone IN
+        SELECT DISTINCT customer_phone
+        FROM loyalty_points
+        WHERE points_remaining > 0
+            AND expires_at <= NOW()
+            AND (p_customer_phone IS NULL OR customer_phone = normalize_loyalty_phone(p_customer_phone))
+    LOOP
+        PERFORM lock_loyalty_customer(v_phone);
+        v_count := v_count + 1;
+    END LOOP;
+
+    RETURN v_count;
+END;
+$$ LANGUAGE plpgsql;
+
+-- =====================================================
+-- EARN AND REFUND ON ORDER STATUS
+-- =====================================================
+
+-- Completed orders earn points on their net spend (subtotal after promo and
+-- points discounts), mirroring calculateEarnedPoints in @cafe/utils.
+-- Cancelled orders give back the points redeemed on them.
+-- SECURITY DEFINER: staff apps complete orders with their own session and
+-- must still be able to write the ledger.
+CREATE OR REPLACE FUNCTION apply_order_loyalty_points()
+RETURNS TRIGGER AS $$
+DECLARE
+    v_rules JSONB := loyalty_rules();
+    v_phone TEXT := normalize_loyalty_phone(NEW.customer_phone);
+    v_points INTEGER;
+    v_balance INTEGER;
+BEGIN
+    IF v_phone IS NULL THEN
+        RETURN NULL;
+    END IF;
+
+    IF NEW.status = 'completed' THEN
+        IF (v_rules->>'enabled')::BOOLEAN IS NOT TRUE THEN
+            RETURN NULL;
+        END IF;
+
+        v_points := FLOOR(
+            GREATEST(NEW.subtotal - COALESCE(NEW.discount_amount, 0), 0)
+            / GREATEST((v_rules->>'spend_per_point')::DECIMAL, 1)
+        )::INTEGER;
+
+        IF v_points <= 0 OR EXISTS (
+            SELECT 1 FROM loyalty_points WHERE order_id = NEW.id AND source = 'order'
+        ) THEN
+            RETURN NULL;
+        END IF;
+
+        v_balance := lock_loyalty_customer(v_phone) + v_points;
+
+        INSERT INTO loyalty_points (
+            customer_phone, transaction_type, source, points_earned, points_balance,
+            points_remaining, expires_at, order_id, description
+        ) VALUES (
+            v_phone, 'earned', 'order', v_points, v_balance,
+            v_points, loyalty_lot_expiry(), NEW.id, 'Earned on order ' || NEW.order_number
+        );
+    ELSIF NEW.status = 'cancelled' THEN
+        SELECT points_used INTO v_points
+        FROM loyalty_points
+        WHERE order_id = NEW.id AND source = 'redemption';
+
+        IF v_points IS NULL OR EXISTS (
+            SELECT 1 FROM loyalty_points WHERE order_id = NEW.id AND source = 'refund'
+        ) THEN
+            RETURN NULL;
+        END IF;
+
+        v_balance := lock_loyalty_customer(v_phone) + v_points;
+
+        INSERT INTO loyalty_points (
+            customer_phone, transaction_type, source, points_earned, points_balance,
+            points_remaining, expires_at, order_id, description
+        ) VALUES (
+            v_phone, 'earned', 'refund', v_points, v_balance,
+            v_points, loyalty_lot_expiry(), NEW.id, 'Refund for cancelled order ' || NEW.order_number
+        );
+    END IF;
+
+    RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS trigger_orders_loyalty_points ON orders;
+CREATE TRIGGER trigger_orders_loyalty_points
+    AFTER UPDATE OF status ON orders
+    FOR EACH ROW
+    WHEN (NEW.status IN ('completed', 'cancelled') AND OLD.status IS DISTINCT FROM NEW.status)
+    EXECUTE FUNCTION apply_order_loyalty_points();
+
+-- The order API redeems points after promos and deletes the order when that
+-- fails; give the promo uses recorded for it back along with its promo_usage
+CREATE OR REPLACE FUNCTION release_promo_usage()
+RETURNS TRIGGER AS $$
+BEGIN
+    UPDATE promos
+    SET current_uses = GREATEST(COALESCE(current_uses, 0) - 1, 0)
+    WHERE id = OLD.promo_id;
+
+    RETURN NULL;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS trigger_promo_usage_release ON promo_usage;
+CREATE TRIGGER trigger_promo_usage_release
+    AFTER DELETE ON promo_usage
+    FOR EACH ROW EXECUTE FUNCTION release_promo_usage();
+
+-- Only the order API and the dashboard (service role) write the ledger
+REVOKE EXECUTE ON FUNCTION redeem_loyalty_points(UUID, VARCHAR, INTEGER, DECIMAL) FROM PUBLIC;
+REVOKE EXECUTE ON FUNCTION adjust_loyalty_points(VARCHAR, INTEGER, TEXT, UUID) FROM PUBLIC;
+REVOKE EXECUTE ON FUNCTION expire_loyalty_points(VARCHAR) FROM PUBLIC;
+REVOKE EXECUTE ON FUNCTION lock_loyalty_customer(TEXT) FROM PUBLIC;
+REVOKE EXECUTE ON FUNCTION consume_loyalty_lots(TEXT, INTEGER) FROM PUBLIC;
+
+-- =====================================================
+-- RLS
+-- =====================================================
+
+ALTER TABLE loyalty_points ENABLE ROW LEVEL SECURITY;
+
+-- Balances are looked up by phone through the customer API, never directly
+CREATE POLICY "Allow staff to read loyalty points"
+  ON loyalty_points
+  FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Allow service role full access to loyalty points"
+  ON loyalty_points
+  FOR ALL
+  TO service_role
+  USING (true)
+  WITH CHECK (true);
+
+COMMENT ON TABLE loyalty_points IS
+    'Loyalty points ledger per customer phone: earned lots, redemptions, expiries and owner adjustments';
+COMMENT ON COLUMN loyalty_points.points_balance IS
+    'Customer balance right after this entry';
+COMMENT ON COLUMN loyalty_points.points_remaining IS
+    'Unspent points of an earned lot; written off by lock_loyalty_customer at expires_at';
+COMMENT ON COLUMN orders.loyalty_points_used IS
+    'Points redeemed on this order';
+COMMENT ON COLUMN orders.loyalty_discount IS
+    'Rupiah discount from redeemed points; included in discount_amount';
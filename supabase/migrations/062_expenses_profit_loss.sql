@@ -0,0 +1,190 @@
+-- =====================================================
+-- OPERATING EXPENSES
+-- Purpose: Expense categories with a monthly budget, recorded expenses with
+--          receipt photos, and recurring expenses (rent, electricity,
+--          internet) that are booked automatically each month. Together
+--          with orders, stock_movements and payroll these feed the profit &
+--          loss statement.
+-- Dependencies: users
+-- =====================================================
+
+CREATE TABLE IF NOT EXISTS expense_categories (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    name VARCHAR(100) NOT NULL UNIQUE,
+    description TEXT,
+    -- Monthly budget, NULL when the category is not budgeted
+    budget_amount DECIMAL(12, 2) CHECK (budget_amount >= 0),
+    is_active BOOLEAN NOT NULL DEFAULT true,
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE TABLE IF NOT EXISTS recurring_expenses (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    category_id UUID NOT NULL REFERENCES expense_categories(id) ON DELETE RESTRICT,
+    amount DECIMAL(12, 2) NOT NULL CHECK (amount > 0),
+    description TEXT NOT NULL,
+
+    -- Booked every month on this day; capped at 28 so every month has it
+    day_of_month INTEGER NOT NULL CHECK (day_of_month BETWEEN 1 AND 28),
+    start_date DATE NOT NULL DEFAULT CURRENT_DATE,
+    end_date DATE,
+    -- Due date of the last expense booked, see generate_recurring_expenses
+    last_generated_on DATE,
+
+    is_active BOOLEAN NOT NULL DEFAULT true,
+    created_by UUID REFERENCES users(id),
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    updated_at TIMESTAMPTZ DEFAULT NOW(),
+
+    CONSTRAINT valid_recurring_period CHECK (end_date IS NULL OR end_date >= start_date)
+);
+
+CREATE TABLE IF NOT EXISTS daily_expenses (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    category_id UUID NOT NULL REFERENCES expense_categories(id) ON DELETE RESTRICT,
+    amount DECIMAL(12, 2) NOT NULL CHECK (amount > 0),
+    description TEXT NOT NULL,
+    -- Storage path in the expense-receipts bucket
+    receipt_url TEXT,
+    date DATE NOT NULL DEFAULT CURRENT_DATE,
+    recurring_expense_id UUID REFERENCES recurring_expenses(id) ON DELETE SET NULL,
+    -- NULL for expenses booked from a recurring expense
+    recorded_by UUID REFERENCES users(id),
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_daily_expenses_date ON daily_expenses(date DESC);
+CREATE INDEX IF NOT EXISTS idx_daily_expenses_category ON daily_expenses(category_id, date);
+
+-- A recurring expense is booked at most once per due date
+CREATE UNIQUE INDEX IF NOT EXISTS idx_daily_expenses_recurring_date
+    ON daily_expenses(recurring_expense_id, date);
+
+-- Payroll and ingredient costs are read from payroll and stock_movements
+INSERT INTO expense_categories (name, description) VALUES
+    ('Rent', 'Sewa tempat'),
+    ('Electricity', 'Listrik (PLN)'),
+    ('Water', 'Air (PDAM)'),
+    ('Internet', 'Internet dan telepon'),
+    ('Gas', 'Gas LPG'),
+    ('Maintenance', 'Perbaikan dan perawatan peralatan'),
+    ('Marketing', 'Promosi dan iklan'),
+    ('Supplies', 'Perlengkapan non-bahan baku (kemasan, kebersihan)'),
+    ('Other', 'Pengeluaran lain-lain')
+ON CONFLICT (name) DO NOTHING;
+
+-- Receipts are private; the dashboard hands out signed URLs
+INSERT INTO storage.buckets (id, name, public)
+VALUES ('expense-receipts', 'expense-receipts', false)
+ON CONFLICT (id) DO NOTHING;
+
+-- =====================================================
+-- RECURRING EXPENSES
+-- =====================================================
+
+-- Book every due month of the active recurring expenses up to p_until.
+-- Run lazily whenever the dashboard reads expenses; a booked expense that
+-- is deleted afterwards is not booked again.
+CREATE OR REPLACE FUNCTION generate_recurring_expenses(p_until DATE DEFAULT CURRENT_DATE)
+RETURNS INTEGER AS $$
+DECLARE
+    v_recurring RECORD;
+    v_due DATE;
+    v_created INTEGER := 0;
+BEGIN
+    FOR v_recurring IN
+        SELECT *
+        FROM recurring_expenses
+        WHERE is_active
+        ORDER BY id
+        FOR UPDATE
+    LOOP
+        IF v_recurring.last_generated_on IS NULL THEN
+            v_due := date_trunc('month', v_recurring.start_date)::DATE + (v_recurring.day_of_month - 1);
+            IF v_due < v_recurring.start_date THEN
+                v_due := (v_due + INTERVAL '1 month')::DATE;
+            END IF;
+        ELSE
+            v_due := (date_trunc('month', v_recurring.last_generated_on) + INTERVAL '1 month')::DATE
+                + (v_recurring.day_of_month - 1);
+        END IF;
+
+        WHILE v_due <= p_until AND (v_recurring.end_date IS NULL OR v_due <= v_recurring.end_date) LOOP
+            INSERT INTO daily_expenses (category_id, amount, description, date, recurring_expense_id)
+            VALUES (v_recurring.category_id, v_recurring.amount, v_recurring.description, v_due, v_recurring.id)
+            ON CONFLICT (recurring_expense_id, date) DO NOTHING;
+
+            IF FOUND THEN
+                v_created := v_created + 1;
+            END IF;
+
+            UPDATE recurring_expenses
+            SET last_generated_on = v_due
+            WHERE id = v_recurring.id;
+
+            v_due := (v_due + INTERVAL '1 month')::DATE;
+        END LOOP;
+    END LOOP;
+
+    RETURN v_created;
+END;
+$$ LANGUAGE plpgsql;
+
+REVOKE EXECUTE ON FUNCTION generate_recurring_expenses(DATE) FROM PUBLIC;
+
+-- =====================================================
+-- TRIGGERS
+-- =====================================================
+
+DROP TRIGGER IF EXISTS update_expense_categories_updated_at ON expense_categories;
+CREATE TRIGGER update_expense_categories_updated_at BEFORE UPDATE ON expense_categories
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+DROP TRIGGER IF EXISTS update_recurring_expenses_updated_at ON recurring_expenses;
+CREATE TRIGGER update_recurring_expenses_updated_at BEFORE UPDATE ON recurring_expenses
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+DROP TRIGGER IF EXISTS update_daily_expenses_updated_at ON daily_expenses;
+CREATE TRIGGER update_daily_expenses_updated_at BEFORE UPDATE ON daily_expenses
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- =====================================================
+-- RLS
+-- =====================================================
+
+ALTER TABLE expense_categories ENABLE ROW LEVEL SECURITY;
+ALTER TABLE recurring_expenses ENABLE ROW LEVEL SECURITY;
+ALTER TABLE daily_expenses ENABLE ROW LEVEL SECURITY;
+
+-- Expenses are owner-only and go through the dashboard API
+CREATE POLICY "Allow service role full access to expense categories"
+  ON expense_categories
+  FOR ALL
+  TO service_role
+  USING (true)
+  WITH CHECK (true);
+
+CREATE POLICY "Allow service role full access to recurring expenses"
+  ON recurring_expenses
+  FOR ALL
+  TO service_role
+  USING (true)
+  WITH CHECK (true);
+
+CREATE POLICY "Allow service role full access to daily expenses"
+  ON daily_expenses
+  FOR ALL
+  TO service_role
+  USING (true)
+  WITH CHECK (true);
+
+COMMENT ON TABLE expense_categories IS
+    'Operating expense categories with an optional monthly budget';
+COMMENT ON TABLE recurring_expenses IS
+    'Fixed monthly expenses booked into daily_expenses by generate_recurring_expenses';
+COMMENT ON TABLE daily_expenses IS
+    'Operating expenses by date; ingredient costs and payroll are not recorded here';
+COMMENT ON COLUMN daily_expenses.receipt_url IS
+    'Path of the receipt photo in the private expense-receipts bucket';
@@ -0,0 +1,118 @@
+-- =====================================================
+-- BUSINESS CALENDAR
+-- Purpose: The cafe's time zone (WIB, WITA or WIT) and the time of day its
+--          business day rolls over, so analytics, reports, cash
+--          reconciliation and attendance group by local business day
+--          instead of UTC date
+-- Dependencies: system_settings, orders, daily_analytics
+-- =====================================================
+
+-- Read by the browser for analytics, so it is public. See
+-- DEFAULT_BUSINESS_CALENDAR in @cafe/utils/helpers/businessCalendar.
+INSERT INTO system_settings (category, key, value, description, is_public)
+VALUES (
+    'cafe',
+    'business_calendar',
+    '{
+      "time_zone": "Asia/Jakarta",
+      "day_cutoff": "00:00"
+    }'::jsonb,
+    'Business day: cafe time zone (Asia/Jakarta, Asia/Makassar or Asia/Jayapura) and the local time (up to 06:00) at which the day rolls over',
+    true
+)
+ON CONFLICT (category, key) DO NOTHING;
+
+-- =====================================================
+-- HELPERS
+-- =====================================================
+
+CREATE OR REPLACE FUNCTION business_calendar()
+RETURNS JSONB AS $$
+    SELECT '{
+      "time_zone": "Asia/Jakarta",
+      "day_cutoff": "00:00"
+    }'::jsonb || COALESCE(
+        (SELECT value FROM system_settings WHERE category = 'cafe' AND key = 'business_calendar'),
+        '{}'::jsonb
+    );
+$$ LANGUAGE sql STABLE;
+
+-- Business day a timestamp belongs to; mirrors businessDate in @cafe/utils
+CREATE OR REPLACE FUNCTION business_date(p_at TIMESTAMPTZ)
+RETURNS DATE AS $$
+    SELECT ((p_at AT TIME ZONE (calendar->>'time_zone'))
+            - (calendar->>'day_cutoff')::TIME::INTERVAL)::DATE
+    FROM business_calendar() AS calendar;
+$$ LANGUAGE sql STABLE;
+
+-- Instant a business day starts at; mirrors businessDayStart in @cafe/utils
+CREATE OR REPLACE FUNCTION business_day_start(p_date DATE)
+RETURNS TIMESTAMPTZ AS $$
+    SELECT (p_date + (calendar->>'day_cutoff')::TIME) AT TIME ZONE (calendar->>'time_zone')
+    FROM business_calendar() AS calendar;
+$$ LANGUAGE sql STABLE;
+
+-- =====================================================
+-- DAILY ANALYTICS
+-- =====================================================
+
+-- Same as 009, but a day's orders are those of the business day rather
+-- than the database server's calendar day
+CREATE OR REPLACE FUNCTION generate_daily_analytics(p_date DATE)
+RETURNS UUID AS $$
+DECLARE
+    v_analytics_id UUID;
+    v_start TIMESTAMPTZ := business_day_start(p_date);
+    v_end TIMESTAMPTZ := business_day_start(p_date + 1);
+BEGIN
+    -- Insert or update daily analytics
+    INSERT INTO daily_analytics (date)
+    VALUES (p_date)
+    ON CONFLICT (date) DO UPDATE SET updated_at = NOW()
+    RETURNING id INTO v_analytics_id;
+
+    -- Update order metrics
+    UPDATE daily_analytics
+    SET (total_orders, completed_orders, cancelled_orders, gross_revenue, total_discounts) = (
+        SELECT
+            COUNT(*),
+            COUNT(*) FILTER (WHERE status = 'completed'),
+            COUNT(*) FILTER (WHERE status = 'cancelled'),
+            COALESCE(SUM(total_amount), 0),
+            COALESCE(SUM(discount_amount), 0)
+        FROM orders
+        WHERE created_at >= v_start AND created_at < v_end
+    )
+    WHERE id = v_analytics_id;
+
+    -- Update payment breakdown
+    UPDATE daily_analytics
+    SET (cash_orders, cash_amount, qris_orders, qris_amount, transfer_orders, transfer_amount) = (
+        SELECT
+            COUNT(*) FILTER (WHERE payment_method = 'cash'),
+            COALESCE(SUM(total_amount) FILTER (WHERE payment_method = 'cash'), 0),
+            COUNT(*) FILTER (WHERE payment_method = 'qris'),
+            COALESCE(SUM(total_amount) FILTER (WHERE payment_method = 'qris'), 0),
+            COUNT(*) FILTER (WHERE payment_method = 'transfer'),
+            COALESCE(SUM(total_amount) FILTER (WHERE payment_method = 'transfer'), 0)
+        FROM orders
+        WHERE created_at >= v_start AND created_at < v_end AND status = 'completed'
+    )
+    WHERE id = v_analytics_id;
+
+    -- Calculate averages
+    UPDATE daily_analytics
+    SET avg_order_value = CASE
+            WHEN total_orders > 0 THEN gross_revenue / total_orders
+            ELSE 0
+        END
+    WHERE id = v_analytics_id;
+
+    RETURN v_analytics_id;
+END;
+$$ LANGUAGE plpgsql;
+
+COMMENT ON FUNCTION business_date(TIMESTAMPTZ) IS
+    'Business day of a timestamp in the cafe time zone, after the configured day cutoff';
+COMMENT ON FUNCTION business_day_start(DATE) IS
+    'Instant the business day starts: the day cutoff in the cafe time zone';
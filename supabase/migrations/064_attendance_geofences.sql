@@ -0,0 +1,94 @@
+-- =====================================================
+-- ATTENDANCE GEOFENCES
+-- Purpose: Several allowed clock-in zones (circles or polygons, e.g. the
+--          cafe and a storage warehouse), GPS accuracy on each punch and
+--          an owner review queue for punches that look spoofed
+-- Dependencies: attendance, employees, users, system_settings
+-- =====================================================
+
+-- Zones and thresholds, see normalizeGeofenceSettings in
+-- @cafe/utils/validators/geofence. With no zones, the cafe/location circle
+-- is the only allowed zone.
+INSERT INTO system_settings (category, key, value, description, is_public)
+VALUES (
+    'attendance',
+    'geofences',
+    '{
+      "zones": [],
+      "max_accuracy_meters": 50,
+      "max_speed_kmh": 150
+    }'::jsonb,
+    'Allowed attendance zones (circle: center + radius_meters, polygon: points), maximum GPS accuracy radius and travel speed between punches',
+    false
+)
+ON CONFLICT (category, key) DO NOTHING;
+
+-- =====================================================
+-- PUNCH LOCATION DETAILS
+-- =====================================================
+
+ALTER TABLE attendance
+    ADD COLUMN IF NOT EXISTS clock_in_accuracy DECIMAL(10, 2),
+    ADD COLUMN IF NOT EXISTS clock_out_accuracy DECIMAL(10, 2),
+    ADD COLUMN IF NOT EXISTS clock_in_zone VARCHAR(100),
+    ADD COLUMN IF NOT EXISTS clock_out_zone VARCHAR(100),
+    -- NULL when no punch of the day needed review
+    ADD COLUMN IF NOT EXISTS location_review_status VARCHAR(20)
+        CHECK (location_review_status IN ('pending', 'approved', 'rejected'));
+
+CREATE INDEX IF NOT EXISTS idx_attendance_location_review
+    ON attendance(location_review_status) WHERE location_review_status IS NOT NULL;
+
+-- =====================================================
+-- REVIEW QUEUE
+-- =====================================================
+
+CREATE TABLE IF NOT EXISTS attendance_location_reviews (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    attendance_id UUID NOT NULL REFERENCES attendance(id) ON DELETE CASCADE,
+    employee_id UUID NOT NULL REFERENCES employees(id) ON DELETE CASCADE,
+    punch VARCHAR(10) NOT NULL CHECK (punch IN ('clock_in', 'clock_out')),
+
+    -- Reading as sent by the device
+    latitude DECIMAL(10, 7) NOT NULL,
+    longitude DECIMAL(10, 7) NOT NULL,
+    accuracy_meters DECIMAL(10, 2),
+    punched_at TIMESTAMPTZ NOT NULL,
+
+    -- Nearest zone and why the punch was flagged (GeofenceFlag[])
+    zone_id VARCHAR(100),
+    zone_name VARCHAR(255),
+    distance_meters DECIMAL(10, 2),
+    outside_meters DECIMAL(10, 2),
+    flags JSONB NOT NULL DEFAULT '[]',
+
+    status VARCHAR(20) NOT NULL DEFAULT 'pending'
+        CHECK (status IN ('pending', 'approved', 'rejected')),
+    reviewed_by UUID REFERENCES users(id),
+    reviewed_at TIMESTAMPTZ,
+    review_notes TEXT,
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+
+    UNIQUE (attendance_id, punch)
+);
+
+CREATE INDEX IF NOT EXISTS idx_attendance_location_reviews_status
+    ON attendance_location_reviews(status, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_attendance_location_reviews_employee
+    ON attendance_location_reviews(employee_id, created_at DESC);
+
+ALTER TABLE attendance_location_reviews ENABLE ROW LEVEL SECURITY;
+
+-- Written by the employee portal and edge functions, reviewed through the
+-- owner dashboard API
+CREATE POLICY "Allow service role full access to attendance location reviews"
+  ON attendance_location_reviews
+  FOR ALL
+  TO service_role
+  USING (true)
+  WITH CHECK (true);
+
+COMMENT ON TABLE attendance_location_reviews IS
+    'Clock-ins and clock-outs with suspicious locations (spoofing signals or uncertain position), waiting for the owner';
+COMMENT ON COLUMN attendance_location_reviews.flags IS
+    'Reasons for review: zero_accuracy, mock_location, impossible_travel, repeated_coordinates, boundary_uncertain, accuracy_unknown';
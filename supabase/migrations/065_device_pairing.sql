@@ -0,0 +1,358 @@
+-- =====================================================
+-- DEVICE PAIRING
+-- Purpose: Owner-issued, short-lived pairing codes that a tablet exchanges
+--          for a role-scoped session token; tokens expire, can be revoked
+--          remotely and record when the device was last seen. Staff on a
+--          shared device switch with a personal PIN, tracked as
+--          device_sessions.employee_id.
+-- Dependencies: device_accounts, device_sessions, employees, users
+-- =====================================================
+
+-- Only SHA-256 digests of codes and tokens are stored; the plain values are
+-- shown once (code to the owner, token to the tablet)
+CREATE OR REPLACE FUNCTION device_secret_hash(p_secret TEXT)
+RETURNS TEXT AS $$
+    SELECT encode(digest(p_secret, 'sha256'), 'hex');
+$$ LANGUAGE sql IMMUTABLE;
+
+-- =====================================================
+-- PAIRING CODES
+-- =====================================================
+
+CREATE TABLE IF NOT EXISTS device_pairing_codes (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    device_id UUID NOT NULL REFERENCES device_accounts(id) ON DELETE CASCADE,
+    code_hash TEXT NOT NULL UNIQUE,
+    expires_at TIMESTAMPTZ NOT NULL,
+    used_at TIMESTAMPTZ,
+    created_by UUID REFERENCES users(id),
+    created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_device_pairing_codes_device
+    ON device_pairing_codes(device_id, created_at DESC);
+
+-- =====================================================
+-- SESSION TOKENS
+-- =====================================================
+
+-- A session is one paired tablet: login_at is when it was paired and
+-- logout_at when it was revoked or replaced by a new pairing
+ALTER TABLE device_sessions
+    ADD COLUMN IF NOT EXISTS token_hash TEXT UNIQUE,
+    ADD COLUMN IF NOT EXISTS expires_at TIMESTAMPTZ,
+    ADD COLUMN IF NOT EXISTS last_seen_at TIMESTAMPTZ,
+    ADD COLUMN IF NOT EXISTS revoked_at TIMESTAMPTZ,
+    ADD COLUMN IF NOT EXISTS revoked_by UUID REFERENCES users(id),
+    ADD COLUMN IF NOT EXISTS paired_by UUID REFERENCES users(id),
+    -- Staff currently signed in with their PIN (employee_id) since when
+    ADD COLUMN IF NOT EXISTS employee_login_at TIMESTAMPTZ,
+    ADD COLUMN IF NOT EXISTS pin_failures INTEGER NOT NULL DEFAULT 0,
+    ADD COLUMN IF NOT EXISTS pin_locked_until TIMESTAMPTZ;
+
+CREATE INDEX IF NOT EXISTS idx_device_sessions_active
+    ON device_sessions(device_id) WHERE revoked_at IS NULL;
+
+-- Staff PIN for shared devices (bcrypt via pgcrypto), set by the owner
+ALTER TABLE employees
+    ADD COLUMN IF NOT EXISTS device_pin_hash TEXT;
+
+-- =====================================================
+-- FUNCTIONS
+-- =====================================================
+
+-- New pairing code for a device, replacing any unused one. Eight characters
+-- without look-alikes (0/O, 1/I/L); returns the plain code once.
+CREATE OR REPLACE FUNCTION create_device_pairing_code(
+    p_device_id UUID,
+    p_created_by UUID,
+    p_ttl_minutes INTEGER DEFAULT 10
+) RETURNS TABLE (code TEXT, expires_at TIMESTAMPTZ) AS $$
+DECLARE
+    v_alphabet CONSTANT TEXT := 'ABCDEFGHJKMNPQRSTUVWXYZ23456789';
+    v_bytes BYTEA;
+    v_code TEXT := '';
+    v_expires TIMESTAMPTZ := NOW() + make_interval(mins => GREATEST(1, LEAST(p_ttl_minutes, 60)));
+BEGIN
+    IF NOT EXISTS (SELECT 1 FROM device_accounts WHERE id = p_device_id AND is_active) THEN
+        RAISE EXCEPTION 'DEVICE_NOT_FOUND' USING DETAIL = p_device_id::TEXT;
+    END IF;
+
+    DELETE FROM device_pairing_codes
+    WHERE device_id = p_device_id AND used_at IS NULL;
+
+    v_bytes := gen_random_bytes(8);
+    FOR i IN 0..7 LOOP
+        v_code := v_code || substr(v_alphabet, (get_byte(v_bytes, i) % length(v_alphabet)) + 1, 1);
+    END LOOP;
+
+    INSERT INTO device_pairing_codes (device_id, code_hash, expires_at, created_by)
+    VALUES (p_device_id, device_secret_hash(v_code), v_expires, p_created_by);
+
+    RETURN QUERY SELECT v_code, v_expires;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Exchange a pairing code for a session token. Earlier sessions of the
+-- device are ended, so a tablet has one valid token at a time. Raises
+-- DEVICE_PAIRING_CODE_INVALID for unknown, used or expired codes.
+CREATE OR REPLACE FUNCTION pair_device(
+    p_code TEXT,
+    p_device_model TEXT DEFAULT NULL,
+    p_app_version TEXT DEFAULT NULL,
+    p_token_ttl_days INTEGER DEFAULT 30
+) RETURNS TABLE (
+    session_id UUID,
+    token TEXT,
+    expires_at TIMESTAMPTZ,
+    device_id UUID,
+    device_code VARCHAR,
+    device_name VARCHAR,
+    device_role TEXT
+) AS $$
+DECLARE
+    v_pairing device_pairing_codes%ROWTYPE;
+    v_device device_accounts%ROWTYPE;
+    v_token TEXT := encode(gen_random_bytes(32), 'hex');
+    v_expires TIMESTAMPTZ := NOW() + make_interval(days => GREATEST(1, p_token_ttl_days));
+    v_session_id UUID;
+BEGIN
+    SELECT * INTO v_pairing
+    FROM device_pairing_codes
+    WHERE code_hash = device_secret_hash(upper(regexp_replace(COALESCE(p_code, ''), '[^A-Za-z0-9]', '', 'g')))
+    FOR UPDATE;
+
+    IF v_pairing.id IS NULL OR v_pairing.used_at IS NOT NULL OR v_pairing.expires_at < NOW() THEN
+        RAISE EXCEPTION 'DEVICE_PAIRING_CODE_INVALID';
+    END IF;
+
+    SELECT * INTO v_device FROM device_accounts WHERE id = v_pairing.device_id AND is_active;
+    IF v_device.id IS NULL THEN
+        RAISE EXCEPTION 'DEVICE_PAIRING_CODE_INVALID';
+    END IF;
+
+    UPDATE device_pairing_codes SET used_at = NOW() WHERE id = v_pairing.id;
+
+    UPDATE device_sessions
+    SET revoked_at = NOW(), logout_at = GREATEST(NOW(), login_at + INTERVAL '1 second')
+    WHERE device_sessions.device_id = v_device.id AND revoked_at IS NULL;
+
+    INSERT INTO device_sessions (device_id, token_hash, expires_at, last_seen_at, paired_by)
+    VALUES (v_device.id, device_secret_hash(v_token), v_expires, NOW(), v_pairing.created_by)
+    RETURNING id INTO v_session_id;
+
+    UPDATE device_accounts
+    SET device_model = COALESCE(p_device_model, device_accounts.device_model),
+        app_version = COALESCE(p_app_version, device_accounts.app_version),
+        current_employee_id = NULL,
+        employee_login_at = NULL,
+        last_active = NOW()
+    WHERE id = v_device.id;
+
+    RETURN QUERY SELECT
+        v_session_id, v_token, v_expires, v_device.id,
+        v_device.device_code, v_device.device_name, v_device.device_type::TEXT;
+END;
+$$ LANGUAGE plpgsql;
+
+-- The session behind a token, or no row when it is unknown, revoked,
+-- expired, the device is deactivated or has another role. Marks the
+-- device as seen.
+CREATE OR REPLACE FUNCTION validate_device_token(
+    p_token TEXT,
+    p_device_role TEXT DEFAULT NULL
+) RETURNS TABLE (
+    session_id UUID,
+    device_id UUID,
+    device_code VARCHAR,
+    device_name VARCHAR,
+    device_role TEXT,
+    employee_id UUID,
+    expires_at TIMESTAMPTZ
+) AS $$
+DECLARE
+    v_session device_sessions%ROWTYPE;
+    v_device device_accounts%ROWTYPE;
+BEGIN
+    SELECT * INTO v_session
+    FROM device_sessions
+    WHERE token_hash = device_secret_hash(COALESCE(p_token, ''))
+      AND revoked_at IS NULL
+      AND device_sessions.expires_at > NOW();
+
+    IF v_session.id IS NULL THEN
+        RETURN;
+    END IF;
+
+    SELECT * INTO v_device FROM device_accounts WHERE id = v_session.device_id AND is_active;
+    IF v_device.id IS NULL OR (p_device_role IS NOT NULL AND v_device.device_type::TEXT <> p_device_role) THEN
+        RETURN;
+    END IF;
+
+    -- Throttled so busy tablets do not write on every request
+    IF v_session.last_seen_at IS NULL OR v_session.last_seen_at < NOW() - INTERVAL '1 minute' THEN
+        UPDATE device_sessions SET last_seen_at = NOW() WHERE id = v_session.id;
+        UPDATE device_accounts SET last_active = NOW() WHERE id = v_device.id;
+    END IF;
+
+    RETURN QUERY SELECT
+        v_session.id, v_device.id, v_device.device_code, v_device.device_name,
+        v_device.device_type::TEXT, v_session.employee_id, v_session.expires_at;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Sign a staff member in on a shared device with their PIN, or sign the
+-- current one out (p_employee_id NULL). Only staff whose position matches
+-- the device role can sign in. Five wrong PINs lock the device's
+-- PIN entry for five minutes. A wrong or locked PIN is reported in
+-- `result` rather than raised, so the failure count is kept. Raises
+-- DEVICE_SESSION_INVALID for an unknown token.
+CREATE OR REPLACE FUNCTION switch_device_staff(
+    p_token TEXT,
+    p_employee_id UUID,
+    p_pin TEXT DEFAULT NULL
+) RETURNS TABLE (
+    result TEXT, -- signed_in, signed_out, invalid_pin, locked
+    session_id UUID,
+    employee_id UUID,
+    full_name VARCHAR,
+    employee_login_at TIMESTAMPTZ,
+    retry_after_seconds INTEGER
+) AS $$
+DECLARE
+    v_session RECORD;
+    v_locked_until TIMESTAMPTZ;
+    v_failures INTEGER;
+    v_employee RECORD;
+BEGIN
+    SELECT * INTO v_session FROM validate_device_token(p_token);
+    IF v_session.session_id IS NULL THEN
+        RAISE EXCEPTION 'DEVICE_SESSION_INVALID';
+    END IF;
+
+    IF p_employee_id IS NULL THEN
+        UPDATE device_sessions
+        SET employee_id = NULL, employee_login_at = NULL
+        WHERE id = v_session.session_id;
+        UPDATE device_accounts
+        SET current_employee_id = NULL, employee_login_at = NULL
+        WHERE id = v_session.device_id;
+
+        RETURN QUERY SELECT 'signed_out'::TEXT, v_session.session_id, NULL::UUID, NULL::VARCHAR, NULL::TIMESTAMPTZ, NULL::INTEGER;
+        RETURN;
+    END IF;
+
+    SELECT pin_locked_until INTO v_locked_until
+    FROM device_sessions WHERE id = v_session.session_id FOR UPDATE;
+
+    IF v_locked_until IS NOT NULL AND v_locked_until > NOW() THEN
+        RETURN QUERY SELECT 'locked'::TEXT, v_session.session_id, NULL::UUID, NULL::VARCHAR, NULL::TIMESTAMPTZ,
+            CEIL(EXTRACT(EPOCH FROM v_locked_until - NOW()))::INTEGER;
+        RETURN;
+    END IF;
+
+    SELECT e.id, e.full_name INTO v_employee
+    FROM employees e
+    WHERE e.id = p_employee_id
+      AND e.status = 'active'
+      AND e.position::TEXT = v_session.device_role
+      AND e.device_pin_hash IS NOT NULL
+      AND e.device_pin_hash = crypt(COALESCE(p_pin, ''), e.device_pin_hash);
+
+    IF v_employee.id IS NULL THEN
+        UPDATE device_sessions
+        SET pin_failures = pin_failures + 1,
+            pin_locked_until = CASE WHEN pin_failures + 1 >= 5 THEN NOW() + INTERVAL '5 minutes' END
+        WHERE id = v_session.session_id
+        RETURNING pin_failures INTO v_failures;
+
+        IF v_failures >= 5 THEN
+            UPDATE device_sessions SET pin_failures = 0 WHERE id = v_session.session_id;
+            RETURN QUERY SELECT 'locked'::TEXT, v_session.session_id, NULL::UUID, NULL::VARCHAR, NULL::TIMESTAMPTZ, 300;
+        ELSE
+            RETURN QUERY SELECT 'invalid_pin'::TEXT, v_session.session_id, NULL::UUID, NULL::VARCHAR, NULL::TIMESTAMPTZ, NULL::INTEGER;
+        END IF;
+        RETURN;
+    END IF;
+
+    UPDATE device_sessions
+    SET employee_id = v_employee.id, employee_login_at = NOW(),
+        pin_failures = 0, pin_locked_until = NULL
+    WHERE id = v_session.session_id;
+
+    UPDATE device_accounts
+    SET current_employee_id = v_employee.id, employee_login_at = NOW()
+    WHERE id = v_session.device_id;
+
+    RETURN QUERY SELECT 'signed_in'::TEXT, v_session.session_id, v_employee.id, v_employee.full_name, NOW(), NULL::INTEGER;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Set or clear (NULL) an employee's device PIN: 4 to 6 digits
+CREATE OR REPLACE FUNCTION set_employee_device_pin(p_employee_id UUID, p_pin TEXT)
+RETURNS VOID AS $$
+BEGIN
+    IF p_pin IS NOT NULL AND p_pin !~ '^[0-9]{4,6}$' THEN
+        RAISE EXCEPTION 'DEVICE_PIN_FORMAT';
+    END IF;
+
+    UPDATE employees
+    SET device_pin_hash = CASE WHEN p_pin IS NULL THEN NULL ELSE crypt(p_pin, gen_salt('bf', 8)) END
+    WHERE id = p_employee_id;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'EMPLOYEE_NOT_FOUND' USING DETAIL = p_employee_id::TEXT;
+    END IF;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Remote revoke: ends every session of a device and drops unused codes.
+-- Returns the number of sessions ended.
+CREATE OR REPLACE FUNCTION revoke_device_sessions(p_device_id UUID, p_revoked_by UUID)
+RETURNS INTEGER AS $$
+DECLARE
+    v_count INTEGER;
+BEGIN
+    UPDATE device_sessions
+    SET revoked_at = NOW(), revoked_by = p_revoked_by,
+        logout_at = GREATEST(NOW(), login_at + INTERVAL '1 second')
+    WHERE device_id = p_device_id AND revoked_at IS NULL;
+    GET DIAGNOSTICS v_count = ROW_COUNT;
+
+    DELETE FROM device_pairing_codes WHERE device_id = p_device_id AND used_at IS NULL;
+
+    UPDATE device_accounts
+    SET current_employee_id = NULL, employee_login_at = NULL
+    WHERE id = p_device_id;
+
+    RETURN v_count;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Only the dashboard and edge functions (service role) pair and validate
+REVOKE EXECUTE ON FUNCTION create_device_pairing_code(UUID, UUID, INTEGER) FROM PUBLIC;
+REVOKE EXECUTE ON FUNCTION pair_device(TEXT, TEXT, TEXT, INTEGER) FROM PUBLIC;
+REVOKE EXECUTE ON FUNCTION validate_device_token(TEXT, TEXT) FROM PUBLIC;
+REVOKE EXECUTE ON FUNCTION switch_device_staff(TEXT, UUID, TEXT) FROM PUBLIC;
+REVOKE EXECUTE ON FUNCTION set_employee_device_pin(UUID, TEXT) FROM PUBLIC;
+REVOKE EXECUTE ON FUNCTION revoke_device_sessions(UUID, UUID) FROM PUBLIC;
+
+-- =====================================================
+-- RLS
+-- =====================================================
+
+ALTER TABLE device_pairing_codes ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Allow service role full access to device pairing codes"
+  ON device_pairing_codes
+  FOR ALL
+  TO service_role
+  USING (true)
+  WITH CHECK (true);
+
+COMMENT ON TABLE device_pairing_codes IS
+    'Short-lived codes (shown as text and QR in the owner dashboard) that a tablet exchanges for a session token';
+COMMENT ON COLUMN device_sessions.token_hash IS
+    'SHA-256 of the device session token; sent by tablets as X-Device-Token';
+COMMENT ON COLUMN employees.device_pin_hash IS
+    'bcrypt hash of the PIN used to switch staff on shared tablets';
@@ -0,0 +1,77 @@
+-- =====================================================
+-- TABLE SERVICE REQUESTS
+-- Purpose: Diners call a waiter, ask for the bill, cutlery or water from the
+--          table page; pelayan tablets and the owner acknowledge and
+--          complete them, and response times are kept per employee
+-- Dependencies: tables, employees
+-- =====================================================
+
+CREATE TABLE IF NOT EXISTS service_requests (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    table_id UUID NOT NULL REFERENCES tables(id) ON DELETE CASCADE,
+    request_type VARCHAR(20) NOT NULL
+        CHECK (request_type IN ('call_waiter', 'request_bill', 'cutlery', 'refill_water', 'other')),
+    message VARCHAR(200),
+
+    -- Random per-browser id and name from the shared table cart, if any
+    diner_id VARCHAR(64),
+    diner_name VARCHAR(100),
+
+    status VARCHAR(20) NOT NULL DEFAULT 'pending'
+        CHECK (status IN ('pending', 'acknowledged', 'completed', 'cancelled')),
+    acknowledged_at TIMESTAMPTZ,
+    acknowledged_by UUID REFERENCES employees(id),
+    completed_at TIMESTAMPTZ,
+    completed_by UUID REFERENCES employees(id),
+    cancelled_at TIMESTAMPTZ,
+
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    updated_at TIMESTAMPTZ DEFAULT NOW(),
+
+    CONSTRAINT service_request_other_has_message
+        CHECK (request_type <> 'other' OR message IS NOT NULL)
+);
+
+-- Pressing the same button twice joins the open request instead of adding
+-- another; free-text requests are not deduplicated
+CREATE UNIQUE INDEX IF NOT EXISTS idx_service_requests_open_type
+    ON service_requests(table_id, request_type)
+    WHERE status IN ('pending', 'acknowledged') AND request_type <> 'other';
+CREATE INDEX IF NOT EXISTS idx_service_requests_open
+    ON service_requests(created_at) WHERE status IN ('pending', 'acknowledged');
+CREATE INDEX IF NOT EXISTS idx_service_requests_acknowledged_by
+    ON service_requests(acknowledged_by, created_at);
+
+CREATE TRIGGER update_service_requests_updated_at BEFORE UPDATE ON service_requests
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- =====================================================
+-- RLS, REALTIME
+-- =====================================================
+
+ALTER TABLE service_requests ENABLE ROW LEVEL SECURITY;
+
+-- Diners, tablets and the live orders page subscribe with the anon key;
+-- all writes go through the customer API, the service-requests edge
+-- function or the owner API
+CREATE POLICY "Allow customers to read service requests"
+  ON service_requests
+  FOR SELECT
+  TO anon, authenticated
+  USING (true);
+
+CREATE POLICY "Allow service role full access to service requests"
+  ON service_requests
+  FOR ALL
+  TO service_role
+  USING (true)
+  WITH CHECK (true);
+
+ALTER PUBLICATION supabase_realtime ADD TABLE service_requests;
+
+COMMENT ON TABLE service_requests IS
+    'Requests from diners at a table: call waiter, bill, cutlery, water or free text';
+COMMENT ON COLUMN service_requests.acknowledged_by IS
+    'Employee who took the request; acknowledged_at - created_at is their response time';
+COMMENT ON COLUMN service_requests.completed_by IS
+    'Employee who completed the request';
@@ -0,0 +1,223 @@
+-- =====================================================
+-- NOTIFICATION DISPATCHER
+-- Purpose: Queue of scheduled Telegram notifications and recurring report
+--          deliveries, claimed with row locks by the notification-dispatcher
+--          function, retried with backoff and held back during a
+--          recipient's quiet hours
+-- Dependencies: users, employees
+-- =====================================================
+
+-- Recurring report deliveries set up with report-generation/schedule
+CREATE TABLE IF NOT EXISTS report_schedules (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    report_type VARCHAR(20) NOT NULL
+        CHECK (report_type IN ('daily', 'weekly', 'monthly')),
+    schedule VARCHAR(20) NOT NULL
+        CHECK (schedule IN ('daily', 'weekly', 'monthly')),
+
+    -- 'owner', an employee id or a Telegram chat id
+    recipients TEXT[] NOT NULL DEFAULT '{}',
+    sections TEXT[] NOT NULL DEFAULT '{}',
+
+    -- Wall-clock time in the cafe's time zone
+    delivery_time TIME NOT NULL,
+    is_active BOOLEAN NOT NULL DEFAULT true,
+    next_delivery_at TIMESTAMPTZ NOT NULL,
+    last_delivered_at TIMESTAMPTZ,
+
+    -- Held by a dispatcher run while it queues the deliveries
+    locked_at TIMESTAMPTZ,
+    locked_by VARCHAR(100),
+
+    created_by UUID REFERENCES users(id),
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_report_schedules_due
+    ON report_schedules(next_delivery_at) WHERE is_active = true;
+
+-- Notifications waiting to be sent, and the history of those that were
+CREATE TABLE IF NOT EXISTS scheduled_notifications (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+
+    chat_id VARCHAR(50) NOT NULL,
+    recipient_name VARCHAR(100),
+    message TEXT NOT NULL DEFAULT '',
+    notification_type VARCHAR(50) NOT NULL,
+    data JSONB,
+    priority VARCHAR(10) NOT NULL DEFAULT 'normal'
+        CHECK (priority IN ('low', 'normal', 'high', 'urgent')),
+
+    -- Report deliveries are rendered when they are sent
+    report_schedule_id UUID REFERENCES report_schedules(id) ON DELETE SET NULL,
+    document_url TEXT,
+
+    status VARCHAR(20) NOT NULL DEFAULT 'pending'
+        CHECK (status IN ('pending', 'processing', 'sent', 'failed', 'cancelled')),
+    scheduled_at TIMESTAMPTZ NOT NULL,
+    -- Later than scheduled_at after a failed attempt or during quiet hours
+    next_attempt_at TIMESTAMPTZ,
+    attempts INTEGER NOT NULL DEFAULT 0,
+    max_attempts INTEGER NOT NULL DEFAULT 4,
+    last_error TEXT,
+
+    locked_at TIMESTAMPTZ,
+    locked_by VARCHAR(100),
+
+    telegram_message_id BIGINT,
+    sent_at TIMESTAMPTZ,
+    failed_at TIMESTAMPTZ,
+    cancelled_at TIMESTAMPTZ,
+
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_scheduled_notifications_due
+    ON scheduled_notifications(COALESCE(next_attempt_at, scheduled_at))
+    WHERE status = 'pending';
+CREATE INDEX IF NOT EXISTS idx_scheduled_notifications_status
+    ON scheduled_notifications(status, created_at DESC);
+-- A delivery of a report schedule is queued once per recipient
+CREATE UNIQUE INDEX IF NOT EXISTS idx_scheduled_notifications_report_delivery
+    ON scheduled_notifications(report_schedule_id, chat_id, scheduled_at)
+    WHERE report_schedule_id IS NOT NULL;
+
+-- Per-recipient hours in which only urgent notifications are sent
+CREATE TABLE IF NOT EXISTS notification_quiet_hours (
+    chat_id VARCHAR(50) PRIMARY KEY,
+    recipient_name VARCHAR(100),
+    start_time TIME NOT NULL,
+    end_time TIME NOT NULL,
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    updated_at TIMESTAMPTZ DEFAULT NOW(),
+
+    CONSTRAINT notification_quiet_hours_not_empty CHECK (start_time <> end_time)
+);
+
+-- =====================================================
+-- CLAIMING
+-- =====================================================
+
+-- Rows held longer than this by a run that died are picked up again, unless
+-- that run used their last attempt: those are failed instead
+CREATE OR REPLACE FUNCTION claim_scheduled_notifications(
+    p_worker VARCHAR,
+    p_limit INTEGER DEFAULT 50
+) RETURNS SETOF scheduled_notifications AS $$
+BEGIN
+    UPDATE scheduled_notifications
+    SET status = 'failed',
+        failed_at = NOW(),
+        last_error = COALESCE(last_error, 'Dispatcher stopped while sending'),
+        locked_at = NULL,
+        locked_by = NULL,
+        updated_at = NOW()
+    WHERE status = 'processing'
+      AND locked_at < NOW() - INTERVAL '10 minutes'
+      AND attempts >= max_attempts;
+
+    RETURN QUERY
+    UPDATE scheduled_notifications n
+    SET status = 'processing',
+        attempts = n.attempts + 1,
+        locked_at = NOW(),
+        locked_by = p_worker,
+        updated_at = NOW()
+    WHERE n.id IN (
+        SELECT id
+        FROM scheduled_notifications
+        WHERE (status = 'pending' AND COALESCE(next_attempt_at, scheduled_at) <= NOW())
+           OR (status = 'processing' AND locked_at < NOW() - INTERVAL '10 minutes'
+               AND attempts < max_attempts)
+        ORDER BY
+            CASE priority WHEN 'urgent' THEN 0 WHEN 'high' THEN 1 WHEN 'normal' THEN 2 ELSE 3 END,
+            COALESCE(next_attempt_at, scheduled_at)
+        LIMIT p_limit
+        FOR UPDATE SKIP LOCKED
+    )
+    RETURNING n.*;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE OR REPLACE FUNCTION claim_due_report_schedules(
+    p_worker VARCHAR,
+    p_limit INTEGER DEFAULT 20
+) RETURNS SETOF report_schedules AS $$
+BEGIN
+    RETURN QUERY
+    UPDATE report_schedules s
+    SET locked_at = NOW(),
+        locked_by = p_worker
+    WHERE s.id IN (
+        SELECT id
+        FROM report_schedules
+        WHERE is_active = true
+          AND next_delivery_at <= NOW()
+          AND (locked_at IS NULL OR locked_at < NOW() - INTERVAL '10 minutes')
+        ORDER BY next_delivery_at
+        LIMIT p_limit
+        FOR UPDATE SKIP LOCKED
+    )
+    RETURNING s.*;
+END;
+$$ LANGUAGE plpgsql;
+
+REVOKE EXECUTE ON FUNCTION claim_scheduled_notifications(VARCHAR, INTEGER) FROM PUBLIC;
+REVOKE EXECUTE ON FUNCTION claim_due_report_schedules(VARCHAR, INTEGER) FROM PUBLIC;
+
+-- =====================================================
+-- TRIGGERS
+-- =====================================================
+
+DROP TRIGGER IF EXISTS update_report_schedules_updated_at ON report_schedules;
+CREATE TRIGGER update_report_schedules_updated_at BEFORE UPDATE ON report_schedules
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+DROP TRIGGER IF EXISTS update_scheduled_notifications_updated_at ON scheduled_notifications;
+CREATE TRIGGER update_scheduled_notifications_updated_at BEFORE UPDATE ON scheduled_notifications
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+DROP TRIGGER IF EXISTS update_notification_quiet_hours_updated_at ON notification_quiet_hours;
+CREATE TRIGGER update_notification_quiet_hours_updated_at BEFORE UPDATE ON notification_quiet_hours
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- =====================================================
+-- RLS
+-- =====================================================
+
+ALTER TABLE report_schedules ENABLE ROW LEVEL SECURITY;
+ALTER TABLE scheduled_notifications ENABLE ROW LEVEL SECURITY;
+ALTER TABLE notification_quiet_hours ENABLE ROW LEVEL SECURITY;
+
+-- Owner-only; read and managed through the dashboard API and edge functions
+CREATE POLICY "Allow service role full access to report schedules"
+  ON report_schedules
+  FOR ALL
+  TO service_role
+  USING (true)
+  WITH CHECK (true);
+
+CREATE POLICY "Allow service role full access to scheduled notifications"
+  ON scheduled_notifications
+  FOR ALL
+  TO service_role
+  USING (true)
+  WITH CHECK (true);
+
+CREATE POLICY "Allow service role full access to notification quiet hours"
+  ON notification_quiet_hours
+  FOR ALL
+  TO service_role
+  USING (true)
+  WITH CHECK (true);
+
+COMMENT ON TABLE report_schedules IS
+    'Recurring report deliveries; the dispatcher queues one notification per recipient when next_delivery_at is due';
+COMMENT ON TABLE scheduled_notifications IS
+    'Telegram notifications to send at scheduled_at, with their attempts and outcome';
+COMMENT ON COLUMN scheduled_notifications.attempts IS
+    'Send attempts so far; the row fails once it reaches max_attempts';
+COMMENT ON TABLE notification_quiet_hours IS
+    'Cafe wall-clock hours in which a chat only gets urgent notifications';
@@ -0,0 +1,84 @@
+-- =====================================================
+-- KITCHEN STATIONS
+-- Purpose: Route order items to preparation stations (bar, kitchen,
+--          pastry) by menu category; each station bumps its own items and
+--          an order is ready once every item is bumped
+-- Dependencies: system_settings, menu_categories, order_items, orders,
+--               employees
+-- =====================================================
+
+-- Stations and the menu category slugs they prepare, see
+-- parseKitchenStationSettings in @cafe/utils/helpers/kitchenStations. Items
+-- of a category no station lists go to default_station.
+INSERT INTO system_settings (category, key, value, description, is_public)
+VALUES (
+    'kitchen',
+    'stations',
+    '{
+      "stations": [
+        {"code": "bar", "name": "Bar", "categories": ["coffee", "non-coffee"]},
+        {"code": "kitchen", "name": "Dapur", "categories": ["food", "snacks"]},
+        {"code": "pastry", "name": "Pastry", "categories": ["desserts"]}
+      ],
+      "default_station": "kitchen"
+    }'::jsonb,
+    'Kitchen display stations, the menu categories each prepares and the station for everything else',
+    false
+)
+ON CONFLICT (category, key) DO NOTHING;
+
+-- =====================================================
+-- ITEM BUMPS
+-- =====================================================
+
+-- Bumping sets the item ready; recalling it clears both columns again
+ALTER TABLE order_items
+    ADD COLUMN IF NOT EXISTS bumped_at TIMESTAMPTZ,
+    ADD COLUMN IF NOT EXISTS bumped_by UUID REFERENCES employees(id) ON DELETE SET NULL;
+
+-- =====================================================
+-- ORDER STATUS FROM ITEMS
+-- =====================================================
+
+-- Replaces 004's version: cancelled items no longer hold an order back, a
+-- recalled item takes a ready order back to preparing, and orders outside
+-- the kitchen flow (unpaid, delivered, ...) are left alone
+CREATE OR REPLACE FUNCTION update_order_status_from_items()
+RETURNS TRIGGER AS $$
+DECLARE
+    v_total INTEGER;
+    v_done INTEGER;
+    v_started INTEGER;
+BEGIN
+    SELECT COUNT(*),
+           COUNT(*) FILTER (WHERE status IN ('ready', 'served')),
+           COUNT(*) FILTER (WHERE status IN ('preparing', 'ready', 'served'))
+    INTO v_total, v_done, v_started
+    FROM order_items
+    WHERE order_id = NEW.order_id
+      AND status <> 'cancelled';
+
+    IF v_total > 0 AND v_done = v_total THEN
+        UPDATE orders
+        SET status = 'ready',
+            preparing_at = COALESCE(preparing_at, NOW()),
+            ready_at = NOW()
+        WHERE id = NEW.order_id
+          AND status IN ('confirmed', 'preparing');
+    ELSIF v_started > 0 THEN
+        UPDATE orders
+        SET status = 'preparing',
+            preparing_at = COALESCE(preparing_at, NOW()),
+            ready_at = NULL
+        WHERE id = NEW.order_id
+          AND status IN ('confirmed', 'ready');
+    END IF;
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+COMMENT ON COLUMN order_items.bumped_at IS
+    'When the item''s station bumped it off the kitchen display (status ready)';
+COMMENT ON COLUMN order_items.bumped_by IS
+    'Employee signed in on the station tablet, or the owner, who bumped the item';
@@ -0,0 +1,73 @@
+-- =====================================================
+-- KITCHEN PERFORMANCE
+-- Purpose: Record every order status change, so ticket times, on-time
+--          rate and throughput can be measured from when an order was
+--          confirmed until it first turned ready
+-- Dependencies: orders
+-- =====================================================
+
+CREATE TABLE IF NOT EXISTS order_status_history (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    order_id UUID NOT NULL REFERENCES orders(id) ON DELETE CASCADE,
+    previous_status VARCHAR(30), -- NULL for the status an order was created with
+    new_status VARCHAR(30) NOT NULL,
+
+    -- Filled in by the order-status-updates function for changes it makes;
+    -- a user or device id, so no foreign key
+    changed_by UUID,
+    changed_by_name VARCHAR(255),
+    reason TEXT,
+    notes TEXT,
+    estimated_time INTEGER, -- minutes
+    quality_score INTEGER,
+
+    created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_order_status_history_order
+    ON order_status_history(order_id, created_at);
+CREATE INDEX IF NOT EXISTS idx_order_status_history_status
+    ON order_status_history(new_status, created_at);
+
+-- Whoever changes the status (dashboard, customer API, bumps, triggers),
+-- the change is recorded. SECURITY DEFINER: changes made with a customer
+-- or staff session cannot write the history table themselves.
+CREATE OR REPLACE FUNCTION record_order_status_change()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF TG_OP = 'INSERT' THEN
+        INSERT INTO order_status_history (order_id, previous_status, new_status)
+        VALUES (NEW.id, NULL, NEW.status::TEXT);
+    ELSIF OLD.status IS DISTINCT FROM NEW.status THEN
+        INSERT INTO order_status_history (order_id, previous_status, new_status)
+        VALUES (NEW.id, OLD.status::TEXT, NEW.status::TEXT);
+    END IF;
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION record_order_status_change() FROM PUBLIC;
+
+DROP TRIGGER IF EXISTS trigger_orders_status_history ON orders;
+CREATE TRIGGER trigger_orders_status_history
+    AFTER INSERT OR UPDATE OF status ON orders
+    FOR EACH ROW EXECUTE FUNCTION record_order_status_change();
+
+-- =====================================================
+-- RLS
+-- =====================================================
+
+ALTER TABLE order_status_history ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Allow service role full access to order status history"
+  ON order_status_history
+  FOR ALL
+  TO service_role
+  USING (true)
+  WITH CHECK (true);
+
+COMMENT ON TABLE order_status_history IS
+    'Every order status change, written by trigger; source of kitchen ticket times';
+COMMENT ON COLUMN order_status_history.changed_by IS
+    'User or device that made the change through the order-status-updates function, NULL otherwise';
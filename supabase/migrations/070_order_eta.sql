@@ -0,0 +1,35 @@
+-- =====================================================
+-- ORDER ETA
+-- Purpose: Publish order and item changes over realtime so customers see
+--          their ETA and queue position move as orders ahead are bumped,
+--          and index bumps for the typical prep time of each menu item
+-- Dependencies: orders, order_items (068_kitchen_stations)
+-- =====================================================
+
+CREATE INDEX IF NOT EXISTS idx_order_items_menu_item_bumped
+    ON order_items(menu_item_id, bumped_at) WHERE bumped_at IS NOT NULL;
+
+-- =====================================================
+-- REALTIME
+-- =====================================================
+
+-- Both are readable by customers already (035_add_orders_rls_policies)
+DO $$
+BEGIN
+    IF NOT EXISTS (
+        SELECT 1 FROM pg_publication_tables
+        WHERE pubname = 'supabase_realtime' AND schemaname = 'public' AND tablename = 'orders'
+    ) THEN
+        ALTER PUBLICATION supabase_realtime ADD TABLE orders;
+    END IF;
+
+    IF NOT EXISTS (
+        SELECT 1 FROM pg_publication_tables
+        WHERE pubname = 'supabase_realtime' AND schemaname = 'public' AND tablename = 'order_items'
+    ) THEN
+        ALTER PUBLICATION supabase_realtime ADD TABLE order_items;
+    END IF;
+END $$;
+
+COMMENT ON INDEX idx_order_items_menu_item_bumped IS
+    'Recent bumps per menu item, source of its typical prep time for order ETAs';
@@ -0,0 +1,69 @@
+-- =====================================================
+-- TABLE CART DINER TOKENS
+-- Purpose: Prove which diner writes to a shared table cart. Joining the
+--          cart issues each diner a secret token of which only the SHA-256
+--          hash is stored; the diner ids owning lines are no longer
+--          readable with the anon key or sent over realtime
+-- Dependencies: tables, table_carts, table_cart_items (059_shared_table_carts)
+-- =====================================================
+
+CREATE TABLE IF NOT EXISTS table_cart_diners (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    table_id UUID NOT NULL REFERENCES tables(id) ON DELETE CASCADE,
+
+    -- SHA-256 (hex) of the token held by the diner's browser
+    token_hash CHAR(64) NOT NULL UNIQUE,
+
+    -- Pushed forward on every use; idle for the 30 minute customer table
+    -- session timeout and the diner has to join again
+    last_seen_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    expires_at TIMESTAMPTZ NOT NULL DEFAULT NOW() + INTERVAL '30 minutes',
+
+    created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_table_cart_diners_table
+    ON table_cart_diners(table_id, expires_at);
+
+-- table_cart_items.diner_id and table_carts.submitted_by now hold
+-- table_cart_diners ids, set by the table cart API from the verified token.
+-- Open carts hold lines of browser-chosen ids that cannot be verified, so
+-- they close and their diners join a fresh cart.
+UPDATE table_carts
+SET status = 'expired',
+    updated_at = NOW()
+WHERE status = 'open';
+
+-- =====================================================
+-- RLS, COLUMN PRIVILEGES
+-- =====================================================
+
+ALTER TABLE table_cart_diners ENABLE ROW LEVEL SECURITY;
+
+-- Tokens are only ever checked by the table cart API
+CREATE POLICY "Allow service role full access to table cart diners"
+  ON table_cart_diners
+  FOR ALL
+  TO service_role
+  USING (true)
+  WITH CHECK (true);
+
+-- Diners keep reading carts and lines (and receiving them over realtime,
+-- which leaves out columns the subscriber cannot select), without the ids
+-- of the diners who own them
+REVOKE SELECT ON table_cart_items FROM anon, authenticated;
+GRANT SELECT (
+    id, cart_id, diner_name, menu_item_id, item_name, unit_price, quantity,
+    customizations, notes, image_url, preparation_time, created_at, updated_at
+) ON table_cart_items TO anon, authenticated;
+
+REVOKE SELECT ON table_carts FROM anon, authenticated;
+GRANT SELECT (
+    id, table_id, status, last_activity_at, expires_at,
+    submitted_by_name, submitted_at, order_id, created_at, updated_at
+) ON table_carts TO anon, authenticated;
+
+COMMENT ON TABLE table_cart_diners IS
+    'Diners who joined a table cart, identified by the hash of their secret token';
+COMMENT ON COLUMN table_cart_items.diner_id IS
+    'table_cart_diners id of the owning diner; not readable by customers';
@@ -0,0 +1,20 @@
+-- =====================================================
+-- SERVICE REQUEST DINERS
+-- Purpose: Service requests are sent and cancelled with the diner token of
+--          the shared table cart; the id of the diner who sent a request is
+--          no longer readable with the anon key or sent over realtime
+-- Dependencies: service_requests (066_service_requests),
+--               table_cart_diners (071_table_cart_diner_tokens)
+-- =====================================================
+
+-- Open requests keep their browser-chosen diner ids; no token matches them,
+-- so they can no longer be cancelled by the diner, only handled by staff
+COMMENT ON COLUMN service_requests.diner_id IS
+    'table_cart_diners id of the diner who sent the request; not readable by customers';
+
+REVOKE SELECT ON service_requests FROM anon, authenticated;
+GRANT SELECT (
+    id, table_id, request_type, message, diner_name, status,
+    acknowledged_at, acknowledged_by, completed_at, completed_by, cancelled_at,
+    created_at, updated_at
+) ON service_requests TO anon, authenticated;
@@ -0,0 +1,87 @@
+-- =====================================================
+-- ORDER STOCK DEDUCTIONS
+-- Purpose: Record every ingredient deduction of an order with its order_id
+--          so a cancelled order can be reversed: the order trigger's usage
+--          rows failed on a nonexistent column, FIFO stock_out rows were
+--          refused by the movement type check, and batches are restored
+--          with one atomic update
+-- Dependencies: stock_movements, stock_batches (049_stock_movement_reversals)
+-- =====================================================
+
+-- deductIngredientFIFO (stock-deduction function) records one stock_out
+-- movement per batch it takes from
+ALTER TABLE stock_movements
+    DROP CONSTRAINT IF EXISTS stock_movements_movement_type_check;
+ALTER TABLE stock_movements
+    ADD CONSTRAINT stock_movements_movement_type_check
+    CHECK (movement_type IN ('purchase', 'usage', 'stock_out', 'waste', 'adjustment', 'initial', 'return'));
+
+-- Same deduction as 033_fix_inventory_function, without the unit column
+-- stock_movements does not have and with the order reference the
+-- reversal of a cancelled order looks up
+CREATE OR REPLACE FUNCTION deduct_ingredients_from_order()
+RETURNS TRIGGER AS $$
+DECLARE
+    v_ingredient RECORD;
+    v_menu_item RECORD;
+BEGIN
+    -- Only process if order status changes to 'confirmed'
+    IF NEW.status = 'confirmed' AND OLD.status != 'confirmed' THEN
+        FOR v_menu_item IN
+            SELECT * FROM order_items WHERE order_id = NEW.id
+        LOOP
+            FOR v_ingredient IN
+                SELECT mii.*, i.name as ingredient_name
+                FROM menu_item_ingredients mii
+                JOIN ingredients i ON mii.ingredient_id = i.id
+                WHERE mii.menu_item_id = v_menu_item.menu_item_id
+            LOOP
+                INSERT INTO stock_movements (
+                    ingredient_id,
+                    movement_type,
+                    quantity,
+                    reference_type,
+                    reference_id,
+                    order_id,
+                    notes,
+                    created_at
+                ) VALUES (
+                    v_ingredient.ingredient_id,
+                    'usage',
+                    -(v_ingredient.quantity_needed * v_menu_item.quantity), -- Negative for deduction
+                    'order',
+                    NEW.id,
+                    NEW.id,
+                    'Ingredient usage for order: ' || NEW.id || ' - ' || v_ingredient.ingredient_name,
+                    NOW()
+                );
+            END LOOP;
+        END LOOP;
+    END IF;
+
+    RETURN NEW;
+EXCEPTION
+    WHEN OTHERS THEN
+        -- Log the error but don't fail the order status update
+        RAISE WARNING 'Failed to deduct ingredients for order %: %', NEW.id, SQLERRM;
+        RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Add a signed quantity to a batch in one statement, kept within
+-- 0..initial_quantity; returns the new remaining quantity
+CREATE OR REPLACE FUNCTION adjust_stock_batch_quantity(
+    p_batch_id UUID,
+    p_quantity DECIMAL
+) RETURNS DECIMAL AS $$
+    UPDATE stock_batches
+    SET remaining_quantity = LEAST(initial_quantity, GREATEST(0, remaining_quantity + p_quantity)),
+        updated_at = NOW()
+    WHERE id = p_batch_id
+    RETURNING remaining_quantity;
+$$ LANGUAGE sql;
+
+REVOKE EXECUTE ON FUNCTION adjust_stock_batch_quantity(UUID, DECIMAL) FROM PUBLIC;
+
+COMMENT ON FUNCTION adjust_stock_batch_quantity(UUID, DECIMAL) IS
+    'Atomically adds a signed quantity to a stock batch (cancelled order reversals)';
@@ -0,0 +1,22 @@
+-- =====================================================
+-- PAYMENT PROOF HASHES: STAFF ONLY
+-- Purpose: Stop the public anon key from listing every customer's transfer
+--          screenshot (proof_url) and order id. Staff read the duplicate
+--          matches of the orders in their queue; the upload API and edge
+--          functions look duplicates up with the service role.
+-- Dependencies: payment_proof_hashes (053_payment_proof_hashes)
+-- =====================================================
+
+DROP POLICY IF EXISTS "Allow staff to read proof hashes" ON payment_proof_hashes;
+
+CREATE POLICY "Allow staff to read proof hashes"
+  ON payment_proof_hashes
+  FOR SELECT
+  TO authenticated
+  USING (
+    auth.jwt() ->> 'role' IN ('owner', 'employee', 'device')
+  );
+
+-- Realtime would stream new rows to any subscriber; the kasir queue
+-- refreshes on the order update that follows the fingerprint instead
+ALTER PUBLICATION supabase_realtime DROP TABLE payment_proof_hashes;